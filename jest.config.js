@@ -0,0 +1,14 @@
+module.exports = {
+  // js-with-ts as src has js modules like opus_wasm.js
+  preset: 'ts-jest/presets/js-with-ts',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  // same as the paths of tsconfig.json, the runtime dependencies are installed in app/
+  moduleDirectories: ['node_modules', '<rootDir>/app/node_modules'],
+  globals: {
+    'ts-jest': {
+      // the types are checked by tsc, the minipass typings don't support the object mode streams used by the audio code
+      isolatedModules: true,
+    },
+  },
+};
@@ -0,0 +1,178 @@
+// Compiles libopus and opus_glue.c to WebAssembly and writes src/utils/audio/opus_wasm.js
+// the wasm module is embedded in the js file so it can be loaded the same way by nodejs and by the webui
+// clang is installed from npm (@yowasp/clang) and runs in WebAssembly so no native toolchain is needed
+
+const fs = require('fs');
+const path = require('path');
+
+const UTILS_PATH = path.resolve(__dirname, '../src/utils');
+const OPUS_VENDOR_PATH = path.resolve(UTILS_PATH, 'opus_vendor');
+const OUTPUT_PATH = path.resolve(UTILS_PATH, 'audio/opus_wasm.js');
+
+// same as the float build of Makefile.unix
+const SOURCES_LISTS = ['SILK_SOURCES', 'SILK_SOURCES_FLOAT', 'CELT_SOURCES', 'OPUS_SOURCES', 'OPUS_SOURCES_FLOAT'];
+const EXPORTED_FUNCTIONS = [
+  'malloc',
+  'free',
+  'opus_decoder_create',
+  'opus_decode_float',
+  'opus_decoder_destroy',
+  'opus_encoder_create',
+  'opus_encoder_destroy',
+  'opus_encode',
+  'opus_encode_float',
+  'opus_encoder_set_ctl',
+  'opus_multistream_decoder_create',
+  'opus_multistream_decode_float',
+  'opus_multistream_decoder_destroy',
+  'opus_multistream_encoder_create',
+  'opus_multistream_encoder_destroy',
+  'opus_multistream_encode',
+  'opus_multistream_encode_float',
+  'opus_multistream_encoder_set_ctl',
+  'opus_strerror',
+];
+// each encoder and decoder has its own instance, the memory starts small and grows when allocating
+// the loader refreshes the HEAP views after each call as growing the memory detaches them
+const INITIAL_MEMORY_SIZE = 2 * 1024 * 1024;
+const MAX_MEMORY_SIZE = 64 * 1024 * 1024;
+const STACK_SIZE = 1024 * 1024;
+
+const readSourcesTree = (dir) => Object.fromEntries(fs.readdirSync(dir, { withFileTypes: true })
+  .filter((entry) => entry.isDirectory() || /\.[ch]$/.test(entry.name))
+  .map((entry) => [
+    entry.name,
+    entry.isDirectory() ? readSourcesTree(path.join(dir, entry.name)) : fs.readFileSync(path.join(dir, entry.name)),
+  ]));
+
+const getSourcesList = (makefiles, name) => {
+  const match = makefiles.match(new RegExp(`^${name} = \\\\\\n((?:.+\\\\?\\n)+)`, 'm'));
+  if (!match) {
+    throw new Error(`${name} not found in opus makefiles`);
+  }
+  return match[1].split(/[\s\\]+/).filter((file) => file.endsWith('.c'));
+};
+
+const LOADER = (wasmBase64) => `/* eslint-disable */
+// Generated by scripts/build_opus_wasm.js, do not edit
+
+var WASM_BASE64 = '${wasmBase64}';
+
+var decodeBase64 = function (base64) {
+  if (typeof Buffer !== 'undefined') {
+    return new Uint8Array(Buffer.from(base64, 'base64'));
+  }
+  var binary = atob(base64);
+  var bytes = new Uint8Array(binary.length);
+  for (var i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+var compiledModule;
+
+// every call creates a new instance with its own memory, the returned object has the same fields as an emscripten module
+var Opus = function () {
+  if (!compiledModule) {
+    compiledModule = WebAssembly.compile(decodeBase64(WASM_BASE64));
+  }
+  return compiledModule.then(function (wasmModule) {
+    return WebAssembly.instantiate(wasmModule, {});
+  }).then(function (instance) {
+    var exports = instance.exports;
+    exports._initialize();
+    var Module = {};
+    var buffer;
+    // the memory grows when malloc needs more space, this detaches the views on the previous buffer
+    var updateViews = function () {
+      if (buffer === exports.memory.buffer) {
+        return;
+      }
+      buffer = exports.memory.buffer;
+      Module.HEAP8 = new Int8Array(buffer);
+      Module.HEAPU8 = new Uint8Array(buffer);
+      Module.HEAP16 = new Int16Array(buffer);
+      Module.HEAP32 = new Int32Array(buffer);
+      Module.HEAPF32 = new Float32Array(buffer);
+      Module.HEAPF64 = new Float64Array(buffer);
+    };
+    updateViews();
+    Object.keys(exports).forEach(function (name) {
+      if (typeof exports[name] === 'function' && name !== '_initialize') {
+        Module['_' + name] = function () {
+          var result = exports[name].apply(null, arguments);
+          updateViews();
+          return result;
+        };
+      }
+    });
+    Module.getValue = function (ptr, type) {
+      switch (type) {
+        case 'i8': return Module.HEAP8[ptr];
+        case 'i16': return Module.HEAP16[ptr >> 1];
+        case 'i32': return Module.HEAP32[ptr >> 2];
+        case 'float': return Module.HEAPF32[ptr >> 2];
+        case 'double': return Module.HEAPF64[ptr >> 3];
+        default: throw new Error('Unsupported type ' + type);
+      }
+    };
+    Module.AsciiToString = function (ptr) {
+      var str = '';
+      while (Module.HEAPU8[ptr]) {
+        str += String.fromCharCode(Module.HEAPU8[ptr++]);
+      }
+      return str;
+    };
+    return Module;
+  });
+};
+
+export default Opus;
+`;
+
+const main = async () => {
+  const { commands } = await import('@yowasp/clang');
+  const makefiles = ['silk_sources.mk', 'celt_sources.mk', 'opus_sources.mk']
+    .map((file) => fs.readFileSync(path.resolve(OPUS_VENDOR_PATH, file), 'utf8'))
+    .join('\n');
+  const sources = SOURCES_LISTS.flatMap((name) => getSourcesList(makefiles, name));
+  const files = {
+    opus_vendor: Object.fromEntries(['include', 'silk', 'celt', 'src'].map((dir) => [dir, readSourcesTree(path.resolve(OPUS_VENDOR_PATH, dir))])),
+    'opus_glue.c': fs.readFileSync(path.resolve(UTILS_PATH, 'opus_glue.c')),
+  };
+  const output = await commands.clang([
+    '--target=wasm32-wasip1',
+    '-O2',
+    '-mexec-model=reactor',
+    '-DOPUS_BUILD',
+    '-DUSE_ALLOCA',
+    '-DHAVE_LRINTF',
+    '-Iopus_vendor/include',
+    '-Iopus_vendor/silk',
+    '-Iopus_vendor/silk/float',
+    '-Iopus_vendor/celt',
+    `-Wl,--initial-memory=${INITIAL_MEMORY_SIZE}`,
+    `-Wl,--max-memory=${MAX_MEMORY_SIZE}`,
+    `-Wl,-z,stack-size=${STACK_SIZE}`,
+    '-Wl,--strip-all',
+    ...EXPORTED_FUNCTIONS.map((name) => `-Wl,--export=${name}`),
+    '-o', 'opus.wasm',
+    'opus_glue.c',
+    ...sources.map((source) => `opus_vendor/${source}`),
+  ], files);
+
+  const wasm = output['opus.wasm'];
+  // the module must not need anything from a wasi runtime, the loader doesn't provide any import
+  const imports = WebAssembly.Module.imports(new WebAssembly.Module(wasm));
+  if (imports.length) {
+    throw new Error(`Opus wasm module needs unsupported imports: ${imports.map(({ module, name }) => `${module}.${name}`).join(', ')}`);
+  }
+  fs.writeFileSync(OUTPUT_PATH, LOADER(Buffer.from(wasm).toString('base64')));
+  console.log(`Written ${OUTPUT_PATH}`);
+};
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
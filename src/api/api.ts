@@ -1,105 +1,473 @@
-// import { Context } from 'koa';
-// import _ from 'lodash';
+import { Context } from 'koa';
+import Router from 'koa-router';
+import _ from 'lodash';
 import debug from 'debug';
 import path from 'path';
 import koaStatic from 'koa-static';
+import { v4 as uuidv4 } from 'uuid';
 
 import { SoundSyncHttpServer } from '../communication/http_server';
-// import { getAudioSourcesSinksManager } from '../audio/audio_sources_sinks_manager';
-// import { getClientCoordinator } from '../coordinator/client_coordinator';
+import { SinkDescriptor } from '../audio/sinks/sink_type';
+import { SourceDescriptor } from '../audio/sources/source_type';
+import { MAX_LATENCY, OPUS_ENCODER_RATE } from '../utils/constants';
+import { assertValidDspConfig } from '../utils/audio/dsp';
+import { isValidChannelMapping } from '../utils/audio/channel_mapping';
+import {
+  getReachableSources, getReachableSinks, getSourceFromContext, getSinkFromContext, getPeerFromContext, getObjectBody, getPeersState, getState,
+  getSinkGroupFromContext, getSceneFromContext, getScheduleRuleFromContext,
+} from './utils';
+import { handleEventsRoute } from './events';
+import { HttpStreamSink } from '../audio/sinks/http_stream_sink';
+import { assertValidRecorderOptions } from '../audio/sinks/recorder_sink';
+import { calibrateSinkLatency } from '../audio/latency_calibration';
+import {
+  getSinkGroups, createSinkGroup, patchSinkGroup, deleteSinkGroup,
+} from '../coordinator/sink_groups';
+import {
+  getScenes, createSceneFromCurrentState, deleteScene, applyScene,
+} from '../coordinator/scenes';
+import {
+  getScheduleRules, createScheduleRule, patchScheduleRule, deleteScheduleRule,
+} from '../coordinator/scheduler';
 
 const log = debug(`soundsync:api`);
 
+export const API_PREFIX = '/api/v1';
+
+// only these fields can be changed by a API client, the other ones are managed by the sources/sinks themselves
+const SOURCE_PATCHABLE_FIELDS = ['name', 'latency', 'playing', 'trackIndex', 'seek', 'priority', 'announcement', 'loudnessNormalization', 'targetLoudness', 'transport', 'latencyPolicy'];
+const MIN_TARGET_LOUDNESS = -70;
+const OPUS_MIN_BITRATE = 6000;
+const OPUS_MAX_BITRATE = 510000;
+const SINK_PATCHABLE_FIELDS = ['name', 'volume', 'pipedFrom', 'mixedFrom', 'latencyOffset', 'dsp', 'channelMapping', 'fade'];
+const FADE_SINK_TYPES = ['localdevice', 'webaudio'];
+const MAX_FADE_DURATION = 5000;
+const MAX_MIX_GAIN = 4;
+const SINK_GROUP_PATCHABLE_FIELDS = ['name', 'sinks', 'volume', 'pipedFrom'];
+const SCHEDULE_RULE_PATCHABLE_FIELDS = ['name', 'enabled', 'cron', 'at', 'action'];
+
+const handleStateRoute = async (ctx: Context) => {
+  ctx.body = getState();
+};
+
+const handleCreatePipe = async (ctx: Context) => {
+  const source = getSourceFromContext(ctx);
+  const sink = getSinkFromContext(ctx);
+
+  sink.patch({ pipedFrom: source.uuid });
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
+const handleDeletePipe = async (ctx: Context) => {
+  const source = getSourceFromContext(ctx);
+  const sink = getSinkFromContext(ctx);
+  ctx.assert(sink.pipedFrom === source.uuid, 404, 'Sink is not piped from this source');
+
+  sink.patch({ pipedFrom: null });
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
+const isValidMixGain = (gain: any) => typeof gain === 'number' && gain >= 0 && gain <= MAX_MIX_GAIN;
+
+const handleCreateMix = async (ctx: Context) => {
+  const source = getSourceFromContext(ctx);
+  const sink = getSinkFromContext(ctx);
+  const { gain = 1 } = getObjectBody(ctx);
+  ctx.assert(isValidMixGain(gain), 400, `gain should be a number between 0 and ${MAX_MIX_GAIN}`);
+
+  sink.patch({
+    mixedFrom: [...(sink.mixedFrom || []).filter(({ sourceUuid }) => sourceUuid !== source.uuid), { sourceUuid: source.uuid, gain }],
+  });
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
+const handleDeleteMix = async (ctx: Context) => {
+  const source = getSourceFromContext(ctx);
+  const sink = getSinkFromContext(ctx);
+  ctx.assert(_.some(sink.mixedFrom, { sourceUuid: source.uuid }), 404, 'Source is not mixed into this sink');
+
+  sink.patch({ mixedFrom: sink.mixedFrom.filter(({ sourceUuid }) => sourceUuid !== source.uuid) });
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
+const handleSourceUpdate = async (ctx: Context) => {
+  const source = getSourceFromContext(ctx);
+  const patch = _.pick(getObjectBody(ctx), SOURCE_PATCHABLE_FIELDS);
+  ctx.assert(patch.name === undefined || (typeof patch.name === 'string' && patch.name.length), 400, 'name should be a non-empty string');
+  ctx.assert(patch.latency === undefined || (typeof patch.latency === 'number' && patch.latency > 0), 400, 'latency should be a positive number');
+  ctx.assert(patch.playing === undefined || typeof patch.playing === 'boolean', 400, 'playing should be a boolean');
+  ctx.assert(patch.trackIndex === undefined || (Number.isInteger(patch.trackIndex) && patch.trackIndex >= 0), 400, 'trackIndex should be a positive integer');
+  ctx.assert(patch.seek === undefined || (typeof patch.seek === 'number' && patch.seek >= 0), 400, 'seek should be a positive number');
+  ctx.assert(patch.priority === undefined || patch.priority === 'normal' || patch.priority === 'announcement', 400, 'priority should be normal or announcement');
+  ctx.assert(
+    patch.announcement === undefined || (
+      _.isPlainObject(patch.announcement)
+      && Array.isArray(patch.announcement.sinks)
+      && patch.announcement.sinks.every((sinkUuid) => _.some(getReachableSinks(), { uuid: sinkUuid }))
+      && (patch.announcement.ducking === undefined || (typeof patch.announcement.ducking === 'number' && patch.announcement.ducking <= 0))
+    ),
+    400,
+    'announcement should be { sinks, ducking } with the uuids of known sinks and a negative ducking in dB',
+  );
+  ctx.assert(patch.loudnessNormalization === undefined || typeof patch.loudnessNormalization === 'boolean', 400, 'loudnessNormalization should be a boolean');
+  ctx.assert(
+    patch.targetLoudness === undefined || (typeof patch.targetLoudness === 'number' && patch.targetLoudness >= MIN_TARGET_LOUDNESS && patch.targetLoudness <= 0),
+    400,
+    `targetLoudness should be a number between ${MIN_TARGET_LOUDNESS} and 0 LUFS`,
+  );
+  ctx.assert(
+    patch.transport === undefined || (
+      _.isPlainObject(patch.transport)
+      && (patch.transport.bitrate === undefined || (Number.isInteger(patch.transport.bitrate) && patch.transport.bitrate >= OPUS_MIN_BITRATE && patch.transport.bitrate <= OPUS_MAX_BITRATE))
+      && (patch.transport.complexity === undefined || (Number.isInteger(patch.transport.complexity) && patch.transport.complexity >= 0 && patch.transport.complexity <= 10))
+      && (patch.transport.application === undefined || ['voip', 'audio', 'lowdelay'].includes(patch.transport.application))
+      && ['fec', 'dtx', 'lossless', 'retransmit'].every((field) => patch.transport[field] === undefined || typeof patch.transport[field] === 'boolean')
+    ),
+    400,
+    `transport should be { bitrate, complexity, application, fec, dtx, lossless, retransmit } with a bitrate between ${OPUS_MIN_BITRATE} and ${OPUS_MAX_BITRATE} bps, a complexity between 0 and 10 and an application of voip, audio or lowdelay`,
+  );
+  ctx.assert(
+    patch.transport === undefined || !(patch.transport.fec && patch.transport.application === 'lowdelay'),
+    400,
+    'transport.fec cannot be used with the lowdelay application, opus never adds FEC data with it',
+  );
+  ctx.assert(patch.latencyPolicy === undefined || ['lowLatency', 'robust'].includes(patch.latencyPolicy), 400, 'latencyPolicy should be lowLatency or robust');
+
+  source.patch(patch);
+  ctx.body = {
+    status: 'ok',
+    source: source.toDescriptor(),
+  };
+};
+
+const handleSinkUpdate = async (ctx: Context) => {
+  const sink = getSinkFromContext(ctx);
+  const patch = _.pick(getObjectBody(ctx), SINK_PATCHABLE_FIELDS);
+  ctx.assert(patch.name === undefined || (typeof patch.name === 'string' && patch.name.length), 400, 'name should be a non-empty string');
+  ctx.assert(patch.volume === undefined || (typeof patch.volume === 'number' && patch.volume >= 0 && patch.volume <= 1), 400, 'volume should be a number between 0 and 1');
+  ctx.assert(
+    patch.pipedFrom === undefined || patch.pipedFrom === null || _.some(getReachableSources(), { uuid: patch.pipedFrom }),
+    400,
+    'pipedFrom should be null or the uuid of a known source',
+  );
+  ctx.assert(
+    patch.mixedFrom === undefined || (Array.isArray(patch.mixedFrom) && patch.mixedFrom.every((input) => _.isPlainObject(input)
+      && _.some(getReachableSources(), { uuid: input.sourceUuid })
+      && isValidMixGain(input.gain))),
+    400,
+    `mixedFrom should be an array of { sourceUuid, gain } with the uuid of a known source and a gain between 0 and ${MAX_MIX_GAIN}`,
+  );
+  ctx.assert(
+    patch.latencyOffset === undefined || (typeof patch.latencyOffset === 'number' && Math.abs(patch.latencyOffset) < MAX_LATENCY),
+    400,
+    `latencyOffset should be a number between -${MAX_LATENCY} and ${MAX_LATENCY}`,
+  );
+  ctx.assert(
+    patch.channelMapping === undefined || isValidChannelMapping(patch.channelMapping),
+    400,
+    'channelMapping should be stereo, mono, left, right, swapped or a matrix of the gain of each input channel for each output channel',
+  );
+  ctx.assert(patch.dsp === undefined || patch.dsp === null || _.isPlainObject(patch.dsp), 400, 'dsp should be null or an object');
+  ctx.assert(patch.fade === undefined || FADE_SINK_TYPES.includes(sink.type), 400, `fade is only supported by ${FADE_SINK_TYPES.join(' and ')} sinks`);
+  ctx.assert(
+    patch.fade === undefined || (
+      _.isPlainObject(patch.fade)
+      && ['fadeIn', 'fadeOut', 'crossfade'].every((field) => patch.fade[field] === undefined
+        || (typeof patch.fade[field] === 'number' && patch.fade[field] >= 0 && patch.fade[field] <= MAX_FADE_DURATION))
+    ),
+    400,
+    `fade should be { fadeIn, fadeOut, crossfade } with durations in ms between 0 and ${MAX_FADE_DURATION}`,
+  );
+  if (patch.dsp) {
+    try {
+      assertValidDspConfig(patch.dsp, OPUS_ENCODER_RATE);
+    } catch (e) {
+      ctx.throw(400, e.message);
+    }
+  }
+
+  sink.patch(patch);
+  ctx.body = {
+    status: 'ok',
+    sink: sink.toDescriptor(),
+  };
+};
+
+const handleSinkLatencyCalibration = async (ctx: Context) => {
+  const sink = getSinkFromContext(ctx);
+  const { inputDeviceId } = getObjectBody(ctx);
+  ctx.assert(inputDeviceId === undefined || typeof inputDeviceId === 'string', 400, 'inputDeviceId should be a string');
+
+  try {
+    const result = await calibrateSinkLatency(sink.uuid, inputDeviceId);
+    ctx.body = {
+      status: 'ok',
+      ...result,
+    };
+  } catch (e) {
+    ctx.throw(400, e.message);
+  }
+};
+
+const assertValidSinkGroupPatch = (ctx: Context, patch: {[key: string]: any}) => {
+  ctx.assert(patch.name === undefined || (typeof patch.name === 'string' && patch.name.length), 400, 'name should be a non-empty string');
+  ctx.assert(
+    patch.sinks === undefined || (Array.isArray(patch.sinks) && patch.sinks.every((sinkUuid) => typeof sinkUuid === 'string')),
+    400,
+    'sinks should be an array of sink uuids',
+  );
+  ctx.assert(patch.volume === undefined || (typeof patch.volume === 'number' && patch.volume >= 0 && patch.volume <= 1), 400, 'volume should be a number between 0 and 1');
+  ctx.assert(
+    patch.pipedFrom === undefined || patch.pipedFrom === null || _.some(getReachableSources(), { uuid: patch.pipedFrom }),
+    400,
+    'pipedFrom should be null or the uuid of a known source',
+  );
+};
+
+const handleSinkGroupCreate = async (ctx: Context) => {
+  const body = getObjectBody(ctx);
+  ctx.assert(typeof body.name === 'string' && body.name.length, 400, 'name is required');
+  assertValidSinkGroupPatch(ctx, _.pick(body, SINK_GROUP_PATCHABLE_FIELDS));
+
+  const group = createSinkGroup({ name: body.name, sinks: body.sinks });
+  ctx.status = 201;
+  ctx.body = {
+    status: 'ok',
+    uuid: group.uuid,
+  };
+};
+
+const handleSinkGroupUpdate = async (ctx: Context) => {
+  const group = getSinkGroupFromContext(ctx);
+  const patch = _.pick(getObjectBody(ctx), SINK_GROUP_PATCHABLE_FIELDS);
+  assertValidSinkGroupPatch(ctx, patch);
+
+  patchSinkGroup(group.uuid, patch);
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
+const handleSinkGroupDelete = async (ctx: Context) => {
+  const group = getSinkGroupFromContext(ctx);
+
+  deleteSinkGroup(group.uuid);
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
+// the scene is a snapshot of the current routing of every sink
+const handleSceneCreate = async (ctx: Context) => {
+  const body = getObjectBody(ctx);
+  ctx.assert(typeof body.name === 'string' && body.name.length, 400, 'name is required');
+
+  const scene = createSceneFromCurrentState(body.name);
+  ctx.status = 201;
+  ctx.body = {
+    status: 'ok',
+    uuid: scene.uuid,
+  };
+};
+
+const handleSceneApply = async (ctx: Context) => {
+  const scene = getSceneFromContext(ctx);
+
+  const report = await applyScene(scene.uuid);
+  ctx.body = {
+    status: 'ok',
+    ...report,
+  };
+};
+
+const handleSceneDelete = async (ctx: Context) => {
+  const scene = getSceneFromContext(ctx);
+
+  deleteScene(scene.uuid);
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
+const handleScheduleRuleCreate = async (ctx: Context) => {
+  const body = _.pick(getObjectBody(ctx), SCHEDULE_RULE_PATCHABLE_FIELDS);
+
+  let rule;
+  try {
+    rule = createScheduleRule(body);
+  } catch (e) {
+    ctx.throw(400, e.message);
+  }
+  ctx.status = 201;
+  ctx.body = {
+    status: 'ok',
+    uuid: rule.uuid,
+  };
+};
+
+const handleScheduleRuleUpdate = async (ctx: Context) => {
+  const rule = getScheduleRuleFromContext(ctx);
+  const patch = _.pick(getObjectBody(ctx), SCHEDULE_RULE_PATCHABLE_FIELDS);
+
+  try {
+    patchScheduleRule(rule.uuid, patch);
+  } catch (e) {
+    ctx.throw(400, e.message);
+  }
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
+const handleScheduleRuleDelete = async (ctx: Context) => {
+  const rule = getScheduleRuleFromContext(ctx);
+
+  deleteScheduleRule(rule.uuid);
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
+// stable URL that can be used by any HTTP audio client (VLC, internet radios, browsers) to listen to a httpstream sink
+const handleSinkStream = async (ctx: Context) => {
+  const sink = getSinkFromContext(ctx);
+  ctx.assert(sink instanceof HttpStreamSink, 404, 'Sink is not a httpstream sink hosted on this peer');
+  (sink as HttpStreamSink).handleHttpRequest(ctx);
+};
+
+const handleSinkCreate = async (ctx: Context) => {
+  const peer = getPeerFromContext(ctx);
+  const body = getObjectBody(ctx);
+  ctx.assert(typeof body.type === 'string', 400, 'type is required');
+  if (body.type === 'recorder') {
+    try {
+      assertValidRecorderOptions(body.recorderOptions);
+    } catch (e) {
+      ctx.throw(400, e.message);
+    }
+  }
+
+  const descriptor = {
+    name: body.type,
+    volume: 1,
+    available: true,
+    pipedFrom: null,
+    ...body,
+    uuid: body.uuid || uuidv4(),
+    peerUuid: peer.uuid,
+  } as SinkDescriptor;
+  try {
+    await peer.sendRcp('createSink', descriptor);
+  } catch (e) {
+    ctx.throw(400, e.message);
+  }
+  ctx.status = 201;
+  ctx.body = {
+    status: 'ok',
+    uuid: descriptor.uuid,
+  };
+};
+
+const handleSinkDelete = async (ctx: Context) => {
+  const sink = getSinkFromContext(ctx);
+  ctx.assert(sink.peer, 503, 'the peer of this sink is not connected');
+
+  try {
+    await sink.peer.sendRcp('deleteSink', sink.uuid);
+  } catch (e) {
+    ctx.throw(400, e.message);
+  }
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
+const handleSourceCreate = async (ctx: Context) => {
+  const peer = getPeerFromContext(ctx);
+  const body = getObjectBody(ctx);
+  ctx.assert(typeof body.type === 'string', 400, 'type is required');
+  // the command is run in a shell on the peer, it can only be set in the config file of this peer
+  ctx.assert(body.pipeOptions?.command === undefined, 400, 'pipeOptions.command can only be set in the config file');
+
+  const descriptor = {
+    name: body.type,
+    ...body,
+    uuid: body.uuid || uuidv4(),
+    peerUuid: peer.uuid,
+  } as SourceDescriptor;
+  peer.sendControllerMessage({
+    type: 'sourceCreate',
+    source: descriptor,
+  });
+  ctx.status = 201;
+  ctx.body = {
+    status: 'ok',
+    uuid: descriptor.uuid,
+  };
+};
+
+const handleSourceDelete = async (ctx: Context) => {
+  const source = getSourceFromContext(ctx);
+
+  source.peer.sendControllerMessage({
+    type: 'sourceDelete',
+    sourceUuid: source.uuid,
+  });
+  ctx.body = {
+    status: 'ok',
+  };
+};
+
 export const attachApi = (httpServer: SoundSyncHttpServer) => {
-  // this.httpServer.router.get('/state', this.handleStateRoute);
-  // this.httpServer.router.post('/source/:sourceUuid/pipe_to_sink/:sinkUuid', this.handleCreatePipe);
-  // this.httpServer.router.delete('/source/:sourceUuid/pipe_to_sink/:sinkUuid', this.handleDeletePipe);
-  // this.httpServer.router.put('/source/:sourceUuid', this.handleSourceUpdate);
-  // this.httpServer.router.put('/sink/:sinkUuid', this.handleSinkUpdate);
+  const router = new Router({ prefix: API_PREFIX });
+
+  router.get('/state', handleStateRoute);
+  router.get('/events', handleEventsRoute);
+  router.get('/peers', (ctx) => { ctx.body = getPeersState(); });
+  router.get('/sources', (ctx) => { ctx.body = getReachableSources().map((source) => source.toDescriptor()); });
+  router.get('/sinks', (ctx) => { ctx.body = getReachableSinks().map((sink) => sink.toDescriptor()); });
+  router.get('/source/:sourceUuid', (ctx) => { ctx.body = getSourceFromContext(ctx).toDescriptor(); });
+  router.get('/sink/:sinkUuid', (ctx) => { ctx.body = getSinkFromContext(ctx).toDescriptor(); });
+  router.get('/sink/:sinkUuid/stream', handleSinkStream);
+  router.get('/groups', (ctx) => { ctx.body = getSinkGroups(); });
+  router.get('/group/:groupUuid', (ctx) => { ctx.body = getSinkGroupFromContext(ctx); });
+  router.get('/scenes', (ctx) => { ctx.body = getScenes(); });
+  router.get('/scene/:sceneUuid', (ctx) => { ctx.body = getSceneFromContext(ctx); });
+  router.get('/schedules', (ctx) => { ctx.body = getScheduleRules(); });
+  router.get('/schedule/:scheduleUuid', (ctx) => { ctx.body = getScheduleRuleFromContext(ctx); });
+
+  router.post('/source/:sourceUuid/pipe_to_sink/:sinkUuid', handleCreatePipe);
+  router.delete('/source/:sourceUuid/pipe_to_sink/:sinkUuid', handleDeletePipe);
+  router.post('/source/:sourceUuid/mix_to_sink/:sinkUuid', handleCreateMix);
+  router.delete('/source/:sourceUuid/mix_to_sink/:sinkUuid', handleDeleteMix);
+  router.put('/source/:sourceUuid', handleSourceUpdate);
+  router.put('/sink/:sinkUuid', handleSinkUpdate);
+  router.post('/sink/:sinkUuid/calibrate_latency', handleSinkLatencyCalibration);
+
+  router.post('/peer/:peerUuid/sinks', handleSinkCreate);
+  router.delete('/sink/:sinkUuid', handleSinkDelete);
+  router.post('/peer/:peerUuid/sources', handleSourceCreate);
+  router.delete('/source/:sourceUuid', handleSourceDelete);
+  router.post('/groups', handleSinkGroupCreate);
+  router.put('/group/:groupUuid', handleSinkGroupUpdate);
+  router.delete('/group/:groupUuid', handleSinkGroupDelete);
+  router.post('/scenes', handleSceneCreate);
+  router.post('/scene/:sceneUuid/apply', handleSceneApply);
+  router.delete('/scene/:sceneUuid', handleSceneDelete);
+  router.post('/schedules', handleScheduleRuleCreate);
+  router.put('/schedule/:scheduleUuid', handleScheduleRuleUpdate);
+  router.delete('/schedule/:scheduleUuid', handleScheduleRuleDelete);
+
+  httpServer.app.use(router.routes());
+  httpServer.app.use(router.allowedMethods());
   httpServer.app.use(koaStatic(path.join(__dirname, '../../webui/dist')));
   log(`Regitered API`);
 };
-
-// export class ApiController {
-//   httpServer: SoundSyncHttpServer;
-
-//   constructor(
-//     httpServer: SoundSyncHttpServer,
-//   ) {
-//     this.httpServer = httpServer;
-
-//     this.httpServer.router.get('/state', this.handleStateRoute);
-//     this.httpServer.router.post('/source/:sourceUuid/pipe_to_sink/:sinkUuid', this.handleCreatePipe);
-//     this.httpServer.router.delete('/source/:sourceUuid/pipe_to_sink/:sinkUuid', this.handleDeletePipe);
-//     this.httpServer.router.put('/source/:sourceUuid', this.handleSourceUpdate);
-//     this.httpServer.router.put('/sink/:sinkUuid', this.handleSinkUpdate);
-//     this.httpServer.app.use(koaStatic(path.join(__dirname, '../../webui/dist')));
-//     log(`Regitered API`);
-//   }
-
-//   handleStateRoute = async (ctx: Context) => {
-//     ctx.body = {
-//       sources: getAudioSourcesSinksManager().sources.filter((s) => s.peer && s.peer.state === 'connected').map((source) => source.toObject()),
-//       sinks: getAudioSourcesSinksManager().sinks.filter((s) => s.peer && s.peer.state === 'connected').map((sink) => sink.toObject()),
-//       peers: _.map(getWebrtcServer().peers, (peer) => ({
-//         name: peer.name,
-//         uuid: peer.uuid,
-//         coordinator: peer.coordinator,
-//       })),
-//       pipes: getClientCoordinator().pipes,
-//     };
-//   }
-
-//   handleCreatePipe = async (ctx: Context) => {
-//     const { sourceUuid, sinkUuid } = ctx.params;
-//     const source = _.find(getAudioSourcesSinksManager().sources, { uuid: sourceUuid });
-//     const sink = _.find(getAudioSourcesSinksManager().sinks, { uuid: sinkUuid });
-
-//     if (!source || !sink) {
-//       ctx.body = {
-//         status: 'error',
-//         error: 'Source or sink unknown',
-//       };
-//       ctx.status = 400;
-//       return;
-//     }
-
-//     createPipe(source, sink);
-//     ctx.body = {
-//       status: 'ok',
-//     };
-//   }
-
-//   handleDeletePipe = async (ctx: Context) => {
-//     const { sourceUuid, sinkUuid } = ctx.params;
-
-//     this.coordinator.destroyPipe(sourceUuid, sinkUuid);
-//     ctx.body = {
-//       status: 'ok',
-//     };
-//   }
-
-//   handleSourceUpdate = async (ctx: Context) => {
-//     const source = _.find(getAudioSourcesSinksManager().sources, { uuid: ctx.params.sourceUuid });
-//     ctx.assert(source, 404, { status: 'error', error: 'Source unknown' });
-//     ctx.assert(typeof ctx.request.body === 'object', 400, { status: 'error', error: 'Body should be an object' });
-
-//     source.patch(ctx.request.body);
-//     ctx.body = {
-//       status: 'ok',
-//       source: source.toObject(),
-//     };
-//   }
-
-//   handleSinkUpdate = async (ctx: Context) => {
-//     const sink = _.find(getAudioSourcesSinksManager().sinks, { uuid: ctx.params.sinkUuid });
-//     ctx.assert(sink, 404, { status: 'error', error: 'Sink unknown' });
-//     ctx.assert(typeof ctx.request.body === 'object', 400, { status: 'error', error: 'Body should be an object' });
-
-//     sink.patch(ctx.request.body);
-//     ctx.body = {
-//       status: 'ok',
-//       sink: sink.toObject(),
-//     };
-//   }
-// }
@@ -0,0 +1,85 @@
+import { Context } from 'koa';
+import { PassThrough } from 'stream';
+import _ from 'lodash';
+import debug from 'debug';
+
+import { getAudioSourcesSinksManager } from '../audio/get_audio_sources_sinks_manager';
+import { getPeersManager } from '../communication/get_peers_manager';
+import { AudioSource } from '../audio/sources/audio_source';
+import { AudioSink } from '../audio/sinks/audio_sink';
+import { Peer } from '../communication/peer';
+import { getState } from './utils';
+import { onSharedStateChange } from '../coordinator/shared_state';
+
+const log = debug(`soundsync:api:events`);
+
+// a comment line is sent regularly to prevent proxies and clients from closing an idle connection
+const KEEPALIVE_INTERVAL = 15 * 1000;
+// soundstateUpdated is emitted multiple times for a single change, we only send the full state once things have settled
+const STATE_EVENT_DEBOUNCE = 100;
+
+// Server-Sent Events stream of the sound state, each event has a type and a JSON payload:
+// - state: full state as returned by GET /state, sent on connection and after each change
+// - sourceUpdate / sinkUpdate: descriptor of the source or sink that was just updated
+// - peerChange: descriptor and connection state of a peer that connected, disconnected or changed
+export const handleEventsRoute = async (ctx: Context) => {
+  ctx.req.socket.setTimeout(0);
+  ctx.req.socket.setNoDelay(true);
+  ctx.req.socket.setKeepAlive(true);
+  ctx.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const stream = new PassThrough();
+  const sendEvent = (type: string, data: any) => {
+    stream.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const handleSoundstateUpdated = _.debounce(() => sendEvent('state', getState()), STATE_EVENT_DEBOUNCE);
+  const handleSourceUpdate = (source: AudioSource) => {
+    if (!source.internal) {
+      sendEvent('sourceUpdate', source.toDescriptor());
+    }
+  };
+  const handleSinkUpdate = (sink: AudioSink) => sendEvent('sinkUpdate', sink.toDescriptor());
+  const handlePeerChange = (peer?: Peer) => {
+    if (!peer) {
+      return;
+    }
+    sendEvent('peerChange', {
+      ...peer.toDescriptor(),
+      version: peer.version,
+      isLocal: peer.isLocal,
+      state: peer.state,
+    });
+    handleSoundstateUpdated();
+  };
+  const keepaliveInterval = setInterval(() => stream.write(`: keepalive\n\n`), KEEPALIVE_INTERVAL);
+
+  const manager = getAudioSourcesSinksManager();
+  manager.on('soundstateUpdated', handleSoundstateUpdated);
+  manager.on('sourceUpdate', handleSourceUpdate);
+  manager.on('sinkUpdate', handleSinkUpdate);
+  getPeersManager().on('peerChange', handlePeerChange);
+  // the sink groups are part of the state
+  const removeSharedStateListener = onSharedStateChange(handleSoundstateUpdated);
+
+  ctx.req.on('close', () => {
+    log(`Client disconnected from events stream`);
+    clearInterval(keepaliveInterval);
+    handleSoundstateUpdated.cancel();
+    manager.off('soundstateUpdated', handleSoundstateUpdated);
+    manager.off('sourceUpdate', handleSourceUpdate);
+    manager.off('sinkUpdate', handleSinkUpdate);
+    getPeersManager().off('peerChange', handlePeerChange);
+    removeSharedStateListener();
+    stream.end();
+  });
+
+  log(`Client connected to events stream`);
+  ctx.status = 200;
+  ctx.body = stream;
+  sendEvent('state', getState());
+};
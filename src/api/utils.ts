@@ -0,0 +1,82 @@
+import { Context } from 'koa';
+import _ from 'lodash';
+import { getAudioSourcesSinksManager } from '../audio/get_audio_sources_sinks_manager';
+import { getPeersManager } from '../communication/get_peers_manager';
+import { AudioSource } from '../audio/sources/audio_source';
+import { AudioSink } from '../audio/sinks/audio_sink';
+import { getSinkGroups, getSinkGroupByUuid } from '../coordinator/sink_groups';
+import { getScenes, getSceneByUuid } from '../coordinator/scenes';
+import { getScheduleRules, getScheduleRuleByUuid } from '../coordinator/scheduler';
+
+// only sources and sinks of a connected peer can be controlled, the other ones are kept in memory but are not reachable
+// internal sources are only used by soundsync itself and cannot be controlled either
+const isReachable = (audioObject: AudioSource | AudioSink) => !!audioObject.peer && audioObject.peer.state === 'connected';
+
+export const getReachableSources = () => getAudioSourcesSinksManager().sources.filter((source) => isReachable(source) && !source.internal);
+export const getReachableSinks = () => getAudioSourcesSinksManager().sinks.filter(isReachable);
+
+export const getPeersState = () => getPeersManager().getConnectedPeers().map((peer) => ({
+  ...peer.toDescriptor(),
+  version: peer.version,
+  isLocal: peer.isLocal,
+}));
+
+export const getState = () => ({
+  peers: getPeersState(),
+  sources: getReachableSources().map((source) => source.toDescriptor()),
+  sinks: getReachableSinks().map((sink) => sink.toDescriptor()),
+  pipes: getReachableSinks().filter((sink) => sink.pipedFrom).map((sink) => ({
+    sourceUuid: sink.pipedFrom,
+    sinkUuid: sink.uuid,
+  })),
+  mixes: _.flatMap(getReachableSinks(), (sink) => (sink.mixedFrom || []).map(({ sourceUuid, gain }) => ({
+    sourceUuid,
+    sinkUuid: sink.uuid,
+    gain,
+  }))),
+  sinkGroups: getSinkGroups(),
+  scenes: getScenes(),
+  schedules: getScheduleRules(),
+});
+
+export const getSourceFromContext = (ctx: Context, param = 'sourceUuid') => {
+  const source = _.find(getReachableSources(), { uuid: ctx.params[param] });
+  ctx.assert(source, 404, 'Source unknown');
+  return source;
+};
+
+export const getSinkFromContext = (ctx: Context, param = 'sinkUuid') => {
+  const sink = _.find(getReachableSinks(), { uuid: ctx.params[param] });
+  ctx.assert(sink, 404, 'Sink unknown');
+  return sink;
+};
+
+export const getSinkGroupFromContext = (ctx: Context, param = 'groupUuid') => {
+  const group = getSinkGroupByUuid(ctx.params[param]);
+  ctx.assert(group, 404, 'Sink group unknown');
+  return group;
+};
+
+export const getSceneFromContext = (ctx: Context, param = 'sceneUuid') => {
+  const scene = getSceneByUuid(ctx.params[param]);
+  ctx.assert(scene, 404, 'Scene unknown');
+  return scene;
+};
+
+export const getScheduleRuleFromContext = (ctx: Context, param = 'scheduleUuid') => {
+  const rule = getScheduleRuleByUuid(ctx.params[param]);
+  ctx.assert(rule, 404, 'Schedule rule unknown');
+  return rule;
+};
+
+export const getPeerFromContext = (ctx: Context, param = 'peerUuid') => {
+  const peer = getPeersManager().getConnectedPeerByUuid(ctx.params[param]);
+  ctx.assert(peer, 404, 'Peer unknown');
+  return peer;
+};
+
+export const getObjectBody = (ctx: Context) => {
+  const { body } = ctx.request;
+  ctx.assert(_.isPlainObject(body), 400, 'Body should be an object');
+  return body as {[key: string]: any};
+};
@@ -23,6 +23,14 @@ import { NullSource } from './sources/null_source';
 import { NullSink } from './sinks/null_sink';
 import { getLocalPeer } from '../communication/local_peer';
 import { LocalDeviceSource } from './sources/localdevice_source';
+import { RecorderSink } from './sinks/recorder_sink';
+import { HttpStreamSink } from './sinks/http_stream_sink';
+import { RtpSink } from './sinks/rtp_sink';
+import { FileSource } from './sources/file_source';
+import { HttpStreamSource } from './sources/http_stream_source';
+import { PipeSource } from './sources/pipe_source';
+import { RtpSource } from './sources/rtp_source';
+import { ClickSource } from './sources/click_source';
 
 const log = debug(`soundsync:sourcesSinksManager`);
 
@@ -34,7 +42,7 @@ export class AudioSourcesSinksManager extends EventEmitter {
   constructor() {
     super();
     const updateConfigForSource = (source: AudioSource) => {
-      if (source.local) {
+      if (source.local && !source.internal) {
         updateConfigArrayItem('sources', source);
       }
     };
@@ -127,6 +135,16 @@ export class AudioSourcesSinksManager extends EventEmitter {
       source = new LocalDeviceSource(sourceDescriptor, this);
     } else if (sourceDescriptor.type === 'shairport') {
       source = new ShairportSource(sourceDescriptor, this);
+    } else if (sourceDescriptor.type === 'file') {
+      source = new FileSource(sourceDescriptor, this);
+    } else if (sourceDescriptor.type === 'httpstream') {
+      source = new HttpStreamSource(sourceDescriptor, this);
+    } else if (sourceDescriptor.type === 'pipe') {
+      source = new PipeSource(sourceDescriptor, this);
+    } else if (sourceDescriptor.type === 'rtp') {
+      source = new RtpSource(sourceDescriptor, this);
+    } else if (sourceDescriptor.type === 'click') {
+      source = new ClickSource(sourceDescriptor, this);
     } else {
       assertNever(sourceDescriptor);
     }
@@ -196,6 +214,12 @@ export class AudioSourcesSinksManager extends EventEmitter {
       sink = new HueLightSink(sinkDescriptor, this);
     } else if (sinkDescriptor.type === 'airplay') {
       sink = new AirplaySink(sinkDescriptor, this);
+    } else if (sinkDescriptor.type === 'recorder') {
+      sink = new RecorderSink(sinkDescriptor, this);
+    } else if (sinkDescriptor.type === 'httpstream') {
+      sink = new HttpStreamSink(sinkDescriptor, this);
+    } else if (sinkDescriptor.type === 'rtp') {
+      sink = new RtpSink(sinkDescriptor, this);
     } else {
       assertNever(sinkDescriptor);
     }
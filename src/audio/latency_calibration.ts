@@ -0,0 +1,154 @@
+import debug from 'debug';
+import _ from 'lodash';
+import { v4 as uuidv4 } from 'uuid';
+import { resolve } from 'path';
+import { AudioServer, AudioDevice } from 'audioworklet';
+import { getAudioSourcesSinksManager } from './get_audio_sources_sinks_manager';
+import { SinkUUID } from './sinks/sink_type';
+import { DEFAULT_CLICK_INTERVAL } from './sources/click_source';
+import {
+  getAudioDevices, getInputDeviceFromId, getAudioServer, getClosestMatchingRate,
+} from '../utils/audio/localAudioDevice';
+import { getLocalPeer } from '../communication/local_peer';
+import { now } from '../utils/misc';
+import { OPUS_ENCODER_RATE } from '../utils/constants';
+
+const log = debug('soundsync:latencyCalibration');
+
+// time given to the sink to receive the click source, start playing it and to the source to adapt its latency
+const WARMUP_DURATION = 4000;
+const RECORD_DURATION = 6000;
+const MIN_DETECTED_CLICKS = 3;
+const MIN_CLICK_AMPLITUDE = 0.02; // below this, the recording is considered to only contain background noise
+const CHANNELS = 2;
+
+export interface LatencyCalibrationResult {
+  latencyOffset: number;
+  detectedClicks: number;
+}
+
+// returns the index of the first frame of every click: the first frame louder than half of the loudest frame
+// of the recording and at least minSpacing frames after the previous click (to ignore the end of the click and its echoes)
+export const detectClickOnsets = (frames: Float32Array, minSpacing: number) => {
+  const peak = _.max(frames) || 0;
+  if (peak < MIN_CLICK_AMPLITUDE) {
+    return [];
+  }
+  const onsets: number[] = [];
+  frames.forEach((value, i) => {
+    if (value >= peak / 2 && (onsets.length === 0 || i - _.last(onsets) >= minSpacing)) {
+      onsets.push(i);
+    }
+  });
+  return onsets;
+};
+
+// records the absolute value of the loudest channel of every frame, the time of the first frame is estimated from
+// the messages of the audio worklet: they can be delayed by the event loop but never received before the audio was captured
+const recordInputDevice = async (device: AudioDevice, duration: number) => {
+  const rate = getClosestMatchingRate(device, OPUS_ENCODER_RATE);
+  const audioStream = getAudioServer().initInputStream(device.id, {
+    sampleRate: rate,
+    name: 'Latency calibration',
+    format: AudioServer.S16LE,
+    latencyFrames: rate / 100,
+  });
+  const frames = new Float32Array(Math.ceil((duration / 1000) * rate));
+  let recordedFrames = 0;
+  let firstFrameTime = Infinity;
+  audioStream.start();
+  const worklet = audioStream.attachProcessFunctionFromWorker(resolve(__dirname, './sources/audioworklets/input_audioworklet.js'));
+  worklet.on('message', (d) => {
+    const samples = new Int16Array(d.buffer);
+    const receivedAt = now();
+    for (let i = 0; i + CHANNELS <= samples.length && recordedFrames < frames.length; i += CHANNELS) {
+      for (let channel = 0; channel < CHANNELS; channel++) {
+        frames[recordedFrames] = Math.max(frames[recordedFrames], Math.abs(samples[i + channel]) / 0x8000);
+      }
+      recordedFrames++;
+    }
+    firstFrameTime = Math.min(firstFrameTime, receivedAt - ((recordedFrames - 1) / rate) * 1000);
+  });
+  await new Promise((r) => setTimeout(r, duration));
+  audioStream.stop();
+  return {
+    frames: frames.subarray(0, recordedFrames),
+    rate,
+    // the device latency is the time between the sound reaching the microphone and being available to the worklet
+    firstFrameTime: firstFrameTime - (device.minLatency || 0),
+  };
+};
+
+let calibrationRunning = false;
+
+// Plays a click track on the sink and listens to it with a local input device, the difference between
+// when the clicks should have been heard and when they are really heard is added to the latency offset of the sink
+// the input device should be close to the speaker as the propagation of the sound in the air is also measured (~3ms per meter)
+export const calibrateSinkLatency = async (sinkUuid: SinkUUID, inputDeviceId?: string): Promise<LatencyCalibrationResult> => {
+  const manager = getAudioSourcesSinksManager();
+  const sink = manager.getSinkByUuid(sinkUuid);
+  if (!sink || !sink.peer) {
+    throw new Error('Sink is not reachable');
+  }
+  const device = inputDeviceId
+    ? getInputDeviceFromId(inputDeviceId)
+    : getAudioDevices().inputDevices.find((d) => d.state === 'enabled');
+  if (!device) {
+    throw new Error('No input device available to listen to the sink');
+  }
+  if (calibrationRunning) {
+    throw new Error('A latency calibration is already running');
+  }
+  calibrationRunning = true;
+
+  const sourceUuid = uuidv4();
+  const previousPipedFrom = sink.pipedFrom || null;
+  log(`Calibrating latency of sink ${sink.name} with input device ${device.name}`);
+  manager.addSource({
+    type: 'click',
+    uuid: sourceUuid,
+    name: 'Latency calibration',
+    peerUuid: getLocalPeer().uuid,
+    clickInterval: DEFAULT_CLICK_INTERVAL,
+    available: true,
+    active: false,
+    started: false,
+  });
+  const source = manager.getSourceByUuid(sourceUuid);
+
+  try {
+    sink.patch({ pipedFrom: sourceUuid });
+    await new Promise((r) => setTimeout(r, WARMUP_DURATION));
+    const sourceLatency = source.latency;
+    const initialLatencyOffset = sink.latencyOffset;
+    const recording = await recordInputDevice(device, RECORD_DURATION);
+    if (source.latency !== sourceLatency || sink.latencyOffset !== initialLatencyOffset) {
+      throw new Error('The latency changed during the calibration, please try again');
+    }
+
+    const clickIntervalFrames = (DEFAULT_CLICK_INTERVAL / 1000) * recording.rate;
+    const onsets = detectClickOnsets(recording.frames, clickIntervalFrames / 2);
+    log(`Detected ${onsets.length} clicks`);
+    if (onsets.length < MIN_DETECTED_CLICKS) {
+      throw new Error('Clicks could not be heard by the input device, check that it is close to the speaker and that the volume is high enough');
+    }
+    // the click n is heard at startedAt + latency + n * interval, a speaker late by more than 3/4 of the interval cannot be detected
+    const delays = onsets.map((onset) => {
+      const heardAt = recording.firstFrameTime + (onset / recording.rate) * 1000;
+      const delay = (heardAt - source.startedAt - sourceLatency) % DEFAULT_CLICK_INTERVAL;
+      return _.inRange(delay, -DEFAULT_CLICK_INTERVAL / 4, (DEFAULT_CLICK_INTERVAL * 3) / 4) ? delay : delay - Math.sign(delay) * DEFAULT_CLICK_INTERVAL;
+    });
+    const medianDelay = _.sortBy(delays)[Math.floor(delays.length / 2)];
+    const latencyOffset = Math.round(initialLatencyOffset + medianDelay);
+    log(`Measured delays: ${delays.map((d) => d.toFixed(1)).join(', ')}, setting latency offset to ${latencyOffset}ms`);
+    sink.patch({ latencyOffset });
+    return {
+      latencyOffset,
+      detectedClicks: onsets.length,
+    };
+  } finally {
+    sink.patch({ pipedFrom: previousPipedFrom });
+    manager.removeSource(sourceUuid);
+    calibrationRunning = false;
+  }
+};
@@ -87,7 +87,11 @@ export class AirplaySink extends AudioSink {
     name: this.name,
     uuid: this.uuid,
     pipedFrom: this.pipedFrom,
+    mixedFrom: this.mixedFrom,
     volume: this.volume,
+    latencyOffset: this.latencyOffset,
+    dsp: this.dsp,
+    channelMapping: this.channelMapping,
 
     host: this.host,
     port: this.port,
@@ -97,6 +101,8 @@ export class AirplaySink extends AudioSink {
       latency: this.latency,
       available: this.available,
       error: this.error,
+      transportStats: this.transportStats,
+      recommendedLatencyMargins: this.recommendedLatencyMargins,
     }),
   })
 }
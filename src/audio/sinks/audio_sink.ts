@@ -4,10 +4,12 @@ import _ from 'lodash';
 
 import { EventEmitter } from 'events';
 import MiniPass from 'minipass';
-import { OPUS_ENCODER_RATE, OPUS_ENCODER_CHUNK_DURATION } from '../../utils/constants';
+import {
+  OPUS_ENCODER_RATE, OPUS_ENCODER_CHUNK_DURATION, OPUS_ENCODER_CHUNK_SAMPLES_COUNT, MAX_LATENCY, DEFAULT_ANNOUNCEMENT_DUCKING, DEFAULT_FADE_DURATION,
+} from '../../utils/constants';
 import { AudioSource } from '../sources/audio_source';
 import {
-  SinkDescriptor, SinkType, BaseSinkDescriptor, SinkUUID,
+  SinkDescriptor, SinkType, BaseSinkDescriptor, SinkUUID, SinkMixedSource, SinkFadeOptions, SinkTransportStats,
 } from './sink_type';
 import { AudioChunkStreamOutput } from '../../utils/audio/chunk_stream';
 import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
@@ -15,6 +17,22 @@ import { getPeersManager } from '../../communication/get_peers_manager';
 import { SourceUUID } from '../sources/source_type';
 import { AudioInstance, MaybeAudioInstance } from '../utils';
 import { AUDIO_SINK_EVENT_INTERVAL, captureEvent } from '../../utils/vendor_integrations/posthog';
+import { DspChain, DspConfig, dbToGain } from '../../utils/audio/dsp';
+import { ChannelMapping, applyChannelMapping, getChannelMappingMatrix } from '../../utils/audio/channel_mapping';
+import { now } from '../../utils/misc';
+import { JitterEstimator } from '../../utils/audio/jitter_estimator';
+
+// chunks of a mixed source received more than this in advance are discarded to bound the memory used by the mix buffers
+const MAX_MIX_BUFFERS_COUNT = MAX_LATENCY / OPUS_ENCODER_CHUNK_DURATION;
+const LATENCY_MARGIN_REPORT_INTERVAL = 5000;
+const LATE_CHUNK_LATENCY_MARGIN_REPORT_INTERVAL = 1000;
+// every change of the latency of the source is audible, small variations of the recommended margin are ignored
+const LATENCY_MARGIN_MIN_CHANGE = 20;
+
+interface MixedSourceState {
+  source: AudioSource;
+  stream?: MiniPass;
+}
 
 // This is an abstract class that shouldn't be used directly but implemented by real audio sink
 export abstract class AudioSink extends EventEmitter {
@@ -22,22 +40,38 @@ export abstract class AudioSink extends EventEmitter {
   name: string;
   type: SinkType;
   rate: number;
-  channels: number;
+  channels: number; // can be changed by the sink implementation in _startSink to the number of channels supported by the device
   local: boolean;
   peerUuid: string;
   pipedFrom?: SourceUUID;
+  mixedFrom?: SinkMixedSource[];
   available: boolean;
   volume: number;
   latency = 0;
+  latencyOffset = 0; // in ms, set by the user or the latency calibration to compensate for the delay added by the device itself (bluetooth, DSP, etc)
   instanceUuid: string; // this is an id only for this specific instance, not saved between restart it is used to prevent a sink or source info being overwritten by a previous instance of the same sink/source
   error?: string;
+  dsp?: DspConfig;
+  channelMapping?: ChannelMapping;
+  fade?: SinkFadeOptions;
+  transportStats?: SinkTransportStats; // set by RemoteSource
+  recommendedLatencyMargins?: {[sourceUuid: string]: number};
 
   protected pipedSource?: AudioSource;
+  protected fadeOutEndsAt = 0; // set when unlinking the source, the sink implementation should fade it out before stopping
   protected log: debug.Debugger;
 
   private manager: AudioSourcesSinksManager;
   private sourceStream: MiniPass; // stream returned asynchronously by the audio source
+  private mixedSources: {[sourceUuid: string]: MixedSourceState} = {};
+  private mixBuffers = new Map<number, Float32Array>(); // samples of the mixed sources to add to the chunk with this index
+  private duckingGain = 1; // applied to every source except the announcements while an announcement is active
   protected lastReceivedChunkIndex = -1;
+  private dspChain: DspChain;
+  private dspChainConfig: DspConfig; // config used to create this.dspChain, used to detect a patch of this.dsp
+  private dspChainChannels: number;
+  private jitterEstimators: {[sourceUuid: string]: JitterEstimator} = {}; // for the piped source and the mixed sources
+  private lastLatencyMarginReportTime = 0;
 
   abstract _startSink(source: AudioSource): Promise<void> | void;
   abstract _stopSink(): Promise<void> | void;
@@ -51,12 +85,19 @@ export abstract class AudioSink extends EventEmitter {
     this.uuid = descriptor.uuid || uuidv4();
     this.peerUuid = descriptor.peerUuid;
     this.pipedFrom = descriptor.pipedFrom;
+    this.mixedFrom = descriptor.mixedFrom;
     this.available = descriptor.available ?? true;
     this.volume = descriptor.volume ?? 1;
     this.error = descriptor.error;
     this.channels = 2;
     this.instanceUuid = descriptor.instanceUuid || uuidv4();
     this.latency = descriptor.latency ?? 0;
+    this.latencyOffset = descriptor.latencyOffset ?? 0;
+    this.dsp = descriptor.dsp;
+    this.channelMapping = descriptor.channelMapping;
+    this.fade = descriptor.fade;
+    this.transportStats = descriptor.transportStats;
+    this.recommendedLatencyMargins = descriptor.recommendedLatencyMargins;
     this.log = debug(`soundsync:audioSink:${this.uuid}`);
     this.log(`Created new audio sink of type ${descriptor.type}`);
     this.manager.on('soundstateUpdated', this._syncPipeState);
@@ -98,17 +139,33 @@ export abstract class AudioSink extends EventEmitter {
   }
 
   // this get executed everytime there is a change in the sources/sinks
+  // the sink is piped from the first active source of [pipedFrom, ...mixedFrom, ...announcements], its chunks are used
+  // as the timeline of the sink and the chunks of the other active sources are mixed into them
   private _syncPipeState = async () => {
     if (!this.local) {
       return;
     }
-    const sourceToPipeFrom = this.pipedFrom && this.manager.getSourceByUuid(this.pipedFrom);
-    if (
-      !sourceToPipeFrom
-      || !this.available
-      || !sourceToPipeFrom.peer
-      || sourceToPipeFrom.peer.state !== 'connected'
-    ) {
+    const activeSources: AudioSource[] = [];
+    this.getInputs().forEach(({ sourceUuid }) => {
+      const source = this.manager.getSourceByUuid(sourceUuid);
+      if (!source || !this.available || !source.peer || source.peer.state !== 'connected') {
+        return;
+      }
+      if (source.active === false) {
+        if (!source.started) {
+          // if the source is not running, it will be inactive by default so we need to start it to check if it is active or not
+          source.peer.sendRcp('startSource', source.uuid);
+        }
+        return;
+      }
+      activeSources.push(source);
+    });
+    const activeAnnouncements = activeSources.filter((source) => source.isAnnouncementForSink(this.uuid));
+    this.duckingGain = activeAnnouncements.length
+      ? dbToGain(Math.min(...activeAnnouncements.map(({ announcement }) => announcement.ducking ?? DEFAULT_ANNOUNCEMENT_DUCKING)))
+      : 1;
+    const [sourceToPipeFrom, ...sourcesToMix] = activeSources;
+    if (!sourceToPipeFrom) {
       // should not be piped from something, unlinking if it is
       this.unlinkSource();
       return;
@@ -116,26 +173,19 @@ export abstract class AudioSink extends EventEmitter {
 
     if (this.pipedSource && sourceToPipeFrom !== this.pipedSource) {
       // already piped but to the wrong source
-      this.unlinkSource();
-    }
-
-    if (sourceToPipeFrom.active === false) {
-      this.unlinkSource();
-      if (!sourceToPipeFrom.started) {
-        // if the source is not running, it will be inactive by default so we need to start it to check if it is active or not
-        sourceToPipeFrom.peer.sendRcp('startSource', sourceToPipeFrom.uuid);
-      }
-      return;
+      this.unlinkSource(true);
     }
 
     if (this.pipedSource && sourceToPipeFrom === this.pipedSource) {
-      // nothing to do
+      // only the mixed sources could have changed
+      this.syncMixedSources(sourcesToMix);
       return;
     }
 
     // this.pipedSource should be set before any "await" to prevent a race condition if _syncPipeState
     // is called multiple times before this.pipedSource.start() has finished
     this.pipedSource = sourceToPipeFrom;
+    this.jitterEstimators[sourceToPipeFrom.uuid] = new JitterEstimator();
     this.log(`Linking audio source ${this.pipedSource.name} (uuid ${this.pipedSource.uuid}) to sink`);
 
     const sourceStream = await this.pipedSource.createAudioStream();
@@ -150,6 +200,7 @@ export abstract class AudioSink extends EventEmitter {
       this.unlinkSource();
     });
     this.sourceStream.on('data', this._handleAudioChunk);
+    this.syncMixedSources(sourcesToMix);
 
     try {
       await this._startSink(this.pipedSource);
@@ -165,34 +216,187 @@ export abstract class AudioSink extends EventEmitter {
     }
   }
 
-  unlinkSource() {
+  // the gain of the source the sink is piped from can be set by also adding it to mixedFrom
+  // announcement sources are only added at the end to keep the current source as the timeline when they become active
+  private getInputs = (): SinkMixedSource[] => _.uniqBy([
+    ...(this.pipedFrom ? [_.find(this.mixedFrom, { sourceUuid: this.pipedFrom }) || { sourceUuid: this.pipedFrom, gain: 1 }] : []),
+    ...(this.mixedFrom || []),
+    ...this.manager.sources
+      .filter((source) => source.isAnnouncementForSink(this.uuid))
+      .map((source) => ({ sourceUuid: source.uuid, gain: 1 })),
+  ], 'sourceUuid')
+
+  private getSourceGain = (source: AudioSource) => {
+    const { gain } = _.find(this.getInputs(), { sourceUuid: source.uuid }) || { gain: 1 };
+    return source.isAnnouncementForSink(this.uuid) ? gain : gain * this.duckingGain;
+  }
+
+  private syncMixedSources = (sources: AudioSource[]) => {
+    Object.keys(this.mixedSources)
+      .filter((sourceUuid) => !sources.some((source) => source.uuid === sourceUuid))
+      .forEach(this.unlinkMixedSource);
+    sources.filter((source) => !this.mixedSources[source.uuid]).forEach(async (source) => {
+      this.log(`Mixing audio source ${source.name} (uuid ${source.uuid}) into sink`);
+      // same as for this.pipedSource, this should be set before any "await"
+      const mixedSource: MixedSourceState = { source };
+      this.mixedSources[source.uuid] = mixedSource;
+      this.jitterEstimators[source.uuid] = new JitterEstimator();
+      const stream = await source.createAudioStream();
+      if (this.mixedSources[source.uuid] !== mixedSource) {
+        stream.end();
+        return;
+      }
+      mixedSource.stream = stream;
+      stream.on('end', () => {
+        if (this.mixedSources[source.uuid] === mixedSource) {
+          this.log(`Mixed source ${source.name} stream has closed`);
+          delete this.mixedSources[source.uuid];
+        }
+      });
+      stream.on('data', (chunk: AudioChunkStreamOutput) => this.handleMixedChunk(source, chunk));
+    });
+  }
+
+  private unlinkMixedSource = (sourceUuid: SourceUUID) => {
+    const { stream } = this.mixedSources[sourceUuid];
+    delete this.mixedSources[sourceUuid];
+    delete this.jitterEstimators[sourceUuid];
+    if (stream) {
+      stream.end();
+    }
+  }
+
+  unlinkSource(switchingSource = false) {
     if (this.error) {
       this.updateInfo({ error: null });
     }
+    Object.keys(this.mixedSources).forEach(this.unlinkMixedSource);
+    this.mixBuffers.clear();
     if (!this.pipedSource) {
       return;
     }
-    this._stopSink();
+    this.fadeOutEndsAt = now() + (switchingSource && this.fade?.crossfade ? this.fade.crossfade : (this.fade?.fadeOut ?? DEFAULT_FADE_DURATION));
+    // not awaited as the sink can be linked to another source while it is stopping
+    Promise.resolve(this._stopSink()).catch((e) => {
+      this.log(`Error while stopping sink`, e);
+      this.updateInfo({
+        error: e.toString(),
+      });
+    });
     if (this.sourceStream) {
       this.sourceStream.end();
     }
     delete this.sourceStream;
+    this.lastReceivedChunkIndex = -1;
+    if (this.transportStats) {
+      this.updateInfo({ transportStats: null });
+    }
+    this.jitterEstimators = {};
+    if (this.recommendedLatencyMargins) {
+      this.updateInfo({ recommendedLatencyMargins: null });
+    }
     // we should delete this.pipedSource at the end of this method because this._stopSink can still rely on it
     delete this.pipedSource;
   }
 
+  // time in ms before the previous source of the sink has faded out, 0 when it is already stopped
+  protected getFadeOutDuration = () => Math.max(0, this.fadeOutEndsAt - now());
+
+  // when switching to another source with a crossfade, the new source fades in while the previous one fades out,
+  // without crossfade, the new source only fades in once the previous one has faded out
+  protected getFadeIn() {
+    const previousFadeOutDuration = this.getFadeOutDuration();
+    if (previousFadeOutDuration && this.fade?.crossfade) {
+      return { duration: this.fade.crossfade, delay: 0 };
+    }
+    return { duration: this.fade?.fadeIn ?? DEFAULT_FADE_DURATION, delay: previousFadeOutDuration };
+  }
+
+  // the chunk of a mixed source is placed on the timeline of this.pipedSource with the time at which it should be played
+  // (its own startedAt and latency, converted to the clock of the peer of this.pipedSource) and added to the pending
+  // mix buffers, mixed into the chunks of this.pipedSource when they are received
+  private handleMixedChunk = (source: AudioSource, chunk: AudioChunkStreamOutput) => {
+    if (source.peer && this.jitterEstimators[source.uuid]) {
+      this.jitterEstimators[source.uuid].addArrival(source.peer.getCurrentTime() - (chunk.i * OPUS_ENCODER_CHUNK_DURATION + source.startedAt));
+    }
+    // the position of the chunks cannot be checked before the first chunk of this.pipedSource is received
+    if (!this.pipedSource || !this.pipedSource.peer || !source.peer || this.lastReceivedChunkIndex === -1) {
+      return;
+    }
+    const gain = this.getSourceGain(source);
+    const input = new Float32Array(chunk.chunk.buffer, chunk.chunk.byteOffset, chunk.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT);
+    const matrix = getChannelMappingMatrix(this.channelMapping || 'stereo', source.channels, this.channels);
+    const samples = matrix ? applyChannelMapping(input, matrix) : input;
+    const playedAt = source.startedAt + source.latency + chunk.i * OPUS_ENCODER_CHUNK_DURATION
+      - source.peer.getCurrentTime()
+      + this.pipedSource.peer.getCurrentTime();
+    const firstFrame = Math.round((playedAt - this.pipedSource.startedAt - this.pipedSource.latency) * (OPUS_ENCODER_RATE / 1000));
+    const framesCount = samples.length / this.channels;
+    let lateFrames = 0;
+    for (let frame = 0; frame < framesCount; frame++) {
+      const chunkIndex = Math.floor((firstFrame + frame) / OPUS_ENCODER_CHUNK_SAMPLES_COUNT);
+      if (chunkIndex <= this.lastReceivedChunkIndex || chunkIndex > this.lastReceivedChunkIndex + MAX_MIX_BUFFERS_COUNT) {
+        lateFrames++;
+      } else {
+        if (!this.mixBuffers.has(chunkIndex)) {
+          this.mixBuffers.set(chunkIndex, new Float32Array(OPUS_ENCODER_CHUNK_SAMPLES_COUNT * this.channels));
+        }
+        const mixBuffer = this.mixBuffers.get(chunkIndex);
+        const offset = (firstFrame + frame - chunkIndex * OPUS_ENCODER_CHUNK_SAMPLES_COUNT) * this.channels;
+        for (let channel = 0; channel < this.channels; channel++) {
+          mixBuffer[offset + channel] += samples[frame * this.channels + channel] * gain;
+        }
+      }
+    }
+    if (lateFrames === framesCount) {
+      this.log(`Received chunk ${chunk.i} of mixed source ${source.name} too late or too early, discarding it`);
+    }
+  }
+
+  // returns a new chunk if something needs to be mixed as the input chunk can be shared with other sinks
+  private mixChunk(chunk: AudioChunkStreamOutput): AudioChunkStreamOutput {
+    const mixBuffer = this.mixBuffers.get(chunk.i);
+    // mix buffers of chunks not received from this.pipedSource cannot be used anymore
+    this.mixBuffers.forEach((buffer, chunkIndex) => {
+      if (chunkIndex <= chunk.i) {
+        this.mixBuffers.delete(chunkIndex);
+      }
+    });
+    const gain = this.getSourceGain(this.pipedSource);
+    if (!mixBuffer && gain === 1) {
+      return chunk;
+    }
+    const samples = new Float32Array(chunk.chunk.buffer, chunk.chunk.byteOffset, chunk.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT);
+    const mixed = new Float32Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      mixed[i] = samples[i] * gain + (mixBuffer ? mixBuffer[i] : 0);
+    }
+    return {
+      i: chunk.i,
+      chunk: Buffer.from(mixed.buffer),
+    };
+  }
+
   _handleAudioChunk = (chunk: AudioChunkStreamOutput) => {
     const timeDelta = this.pipedSource.peer.getCurrentTime() - (chunk.i * OPUS_ENCODER_CHUNK_DURATION + this.pipedSource.startedAt);
+    this.jitterEstimators[this.pipedSource.uuid].addArrival(timeDelta);
+    if (now() - this.lastLatencyMarginReportTime > LATENCY_MARGIN_REPORT_INTERVAL) {
+      this.reportRecommendedLatencyMargins();
+    }
     if (timeDelta > this.pipedSource.latency) {
       this.log(`Received old chunk, discarding it: ${chunk.i}, current playing chunk is ${Math.floor((this.pipedSource.peer.getCurrentTime() - this.pipedSource.startedAt) / OPUS_ENCODER_CHUNK_DURATION)}`);
       // we received old chunks, discard them
+      this.pipedSource.handleLateChunk();
+      if (now() - this.lastLatencyMarginReportTime > LATE_CHUNK_LATENCY_MARGIN_REPORT_INTERVAL) {
+        this.reportRecommendedLatencyMargins();
+      }
       return;
     }
     if (this.lastReceivedChunkIndex !== -1 && chunk.i !== this.lastReceivedChunkIndex + 1) {
       this.log(`Received out-of-order chunk, received chunk index: ${chunk.i}, last chunk index: ${this.lastReceivedChunkIndex}`);
     }
 
-    this.handleAudioChunk(chunk);
+    this.handleAudioChunk(this.mixChunk(this.convertChannels(chunk)));
     // we should update lastReceivedChunkIndex after handleAudioChunk to let the sink implementation use this info
     this.lastReceivedChunkIndex = chunk.i;
     if ((chunk.i * OPUS_ENCODER_CHUNK_DURATION) % AUDIO_SINK_EVENT_INTERVAL === 0 && chunk.i !== 0) {
@@ -205,17 +409,69 @@ export abstract class AudioSink extends EventEmitter {
 
   abstract handleAudioChunk(chunk: AudioChunkStreamOutput);
 
+  // used by the source to adapt its latency to the network, see AudioSource.updateLatencyFromSinks
+  private reportRecommendedLatencyMargins() {
+    this.lastLatencyMarginReportTime = now();
+    const recommendedLatencyMargins: {[sourceUuid: string]: number} = {};
+    Object.keys(this.jitterEstimators).forEach((sourceUuid) => {
+      const source = this.manager.getSourceByUuid(sourceUuid);
+      const recommendedLatencyMargin = source && this.jitterEstimators[sourceUuid].getRecommendedLatencyMargin(source.latencyPolicy);
+      if (!recommendedLatencyMargin) {
+        return;
+      }
+      const previousMargin = this.recommendedLatencyMargins?.[sourceUuid];
+      recommendedLatencyMargins[sourceUuid] = previousMargin && Math.abs(recommendedLatencyMargin - previousMargin) < LATENCY_MARGIN_MIN_CHANGE
+        ? previousMargin
+        : recommendedLatencyMargin;
+    });
+    if (!_.isEmpty(recommendedLatencyMargins)) {
+      this.updateInfo({ recommendedLatencyMargins });
+    } else if (this.recommendedLatencyMargins) {
+      this.updateInfo({ recommendedLatencyMargins: null });
+    }
+  }
+
+  // the chunk is converted from the channels of the source to the channels of the sink (downmixed if the device
+  // supports less channels than the source) with the channel mapping applied, before being given to handleAudioChunk
+  private convertChannels(chunk: AudioChunkStreamOutput): AudioChunkStreamOutput {
+    const matrix = getChannelMappingMatrix(this.channelMapping || 'stereo', this.pipedSource.channels, this.channels);
+    if (!matrix) {
+      return chunk;
+    }
+    const samples = applyChannelMapping(new Float32Array(chunk.chunk.buffer, chunk.chunk.byteOffset, chunk.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT), matrix);
+    return {
+      i: chunk.i,
+      chunk: Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength),
+    };
+  }
+
+  // should be called by the sink implementation on the interleaved samples of each chunk before buffering them
+  // the filters state is kept between chunks so it should be called for every chunk in order
+  protected applyDsp(samples: Float32Array) {
+    if (this.dsp !== this.dspChainConfig || this.channels !== this.dspChainChannels) {
+      this.dspChainConfig = this.dsp;
+      this.dspChainChannels = this.channels;
+      this.dspChain = this.dsp ? new DspChain(this.dsp, OPUS_ENCODER_RATE, this.channels) : null;
+    }
+    return this.dspChain ? this.dspChain.process(samples) : samples;
+  }
+
   getCurrentStreamTime = () => this.pipedSource.peer.getCurrentTime()
       - this.pipedSource.startedAt
       - this.pipedSource.latency
       + this.latency
+      + this.latencyOffset
 
   toDescriptor = (sanitizeForConfigSave = false): AudioInstance<BaseSinkDescriptor> => ({
     type: this.type,
     name: this.name,
     uuid: this.uuid,
     pipedFrom: this.pipedFrom,
+    mixedFrom: this.mixedFrom,
     volume: this.volume,
+    latencyOffset: this.latencyOffset,
+    dsp: this.dsp,
+    channelMapping: this.channelMapping,
 
     ...(!sanitizeForConfigSave && {
       available: this.available,
@@ -223,6 +479,8 @@ export abstract class AudioSink extends EventEmitter {
       latency: this.latency,
       peerUuid: this.peerUuid,
       error: this.error,
+      transportStats: this.transportStats,
+      recommendedLatencyMargins: this.recommendedLatencyMargins,
     }),
   })
 }
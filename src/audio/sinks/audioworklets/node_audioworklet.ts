@@ -1,7 +1,8 @@
 import { AudioWorkletProcessor } from 'audioworklet';
-import { OPUS_ENCODER_RATE } from '../../../utils/constants';
+import { OPUS_ENCODER_RATE, OPUS_ENCODER_CHUNK_SAMPLES_COUNT } from '../../../utils/constants';
 import { CircularTypedArray } from '../../../utils/circularTypedArray';
 import { SynchronizedAudioBuffer } from '../../../utils/audio/synchronizedAudioBuffer';
+import { AudioFader } from '../../../utils/audio/fader';
 import { now } from '../../../utils/misc';
 
 class NodeAudioworklet extends AudioWorkletProcessor {
@@ -9,6 +10,7 @@ class NodeAudioworklet extends AudioWorkletProcessor {
   synchronizedBuffer: SynchronizedAudioBuffer;
   delayFromLocalNowBuffer: Float64Array;
   channels: number;
+  fader = new AudioFader(0);
 
   constructor() {
     super();
@@ -32,14 +34,25 @@ class NodeAudioworklet extends AudioWorkletProcessor {
           softSyncThreshold: 2,
         },
       );
+      this.fader.fadeTo(1, this.msToFrames(event.data.fadeIn.duration), this.msToFrames(event.data.fadeIn.delay));
+    }
+    if (event.data.type === 'fadeOut') {
+      // no chunk is received after the last one anymore, the audio after it is replaced by silence to not play
+      // old audio from the circular buffer if the fade out is longer than the audio already received
+      const durationFrames = this.msToFrames(event.data.duration);
+      this.buffer.set(new Float32Array(durationFrames * this.channels), (event.data.lastChunkIndex + 1) * OPUS_ENCODER_CHUNK_SAMPLES_COUNT * this.channels);
+      this.fader.fadeTo(0, durationFrames);
     }
   }
 
+  msToFrames = (duration: number) => Math.floor(duration * (OPUS_ENCODER_RATE / 1000))
+
   process(channels: Float32Array[]) {
     if (!this.synchronizedBuffer) {
       return true;
     }
     const samplesForCurrentFrame = this.synchronizedBuffer.readNextChunk(channels[0].length);
+    this.fader.process(samplesForCurrentFrame, this.channels);
     let currentSampleIndexForCurrentFrame = 0;
     for (let sampleIndex = 0; sampleIndex < channels[0].length; sampleIndex++) {
       for (let channelIndex = 0; channelIndex < channels.length; channelIndex++) {
@@ -1,9 +1,7 @@
 import { CircularTypedArray } from '../../../utils/circularTypedArray';
 import { OPUS_ENCODER_RATE, OPUS_ENCODER_CHUNK_SAMPLES_COUNT, MAX_LATENCY } from '../../../utils/constants';
 import { SynchronizedAudioBuffer } from '../../../utils/audio/synchronizedAudioBuffer';
-
-const CHANNELS = 2;
-const BUFFER_SIZE = MAX_LATENCY * (OPUS_ENCODER_RATE / 1000) * CHANNELS;
+import { AudioFader } from '../../../utils/audio/fader';
 
 const DRIFT_HISTORY_TIME_PERIOD = 10 * 1000; // 10s drift history necessary before taking action (soft or hard sync)
 const DRIFT_HISTORY_SIZE = Math.floor(DRIFT_HISTORY_TIME_PERIOD / (128 / OPUS_ENCODER_RATE) / 1000);
@@ -16,12 +14,13 @@ declare const sampleRate: number;
 
 // @ts-ignore
 class RawPcmPlayerProcessor extends AudioWorkletProcessor {
-  chunkBuffer = new Float32Array(128 * CHANNELS);
+  channels: number;
   currentSampleIndex = -1;
-  buffer = new CircularTypedArray(Float32Array, BUFFER_SIZE);
+  buffer: CircularTypedArray<Float32Array>;
   synchronizedBuffer: SynchronizedAudioBuffer;
   lastReceivedStreamTime = -1;
   currentTimeRelativeToAudioContext = -1;
+  fader = new AudioFader(0);
 
   port: MessagePort;
 
@@ -32,16 +31,29 @@ class RawPcmPlayerProcessor extends AudioWorkletProcessor {
 
   handleMessage_(event) {
     if (event.data.type === 'init') {
-      this.synchronizedBuffer = new SynchronizedAudioBuffer(this.buffer, CHANNELS, this.getIdealAudioPosition, { debug: event.data.debug, driftHistorySize: DRIFT_HISTORY_SIZE });
+      // the number of channels is the one of the sink, the source is already downmixed if needed
+      this.channels = event.data.channels;
+      this.buffer = new CircularTypedArray(Float32Array, MAX_LATENCY * (OPUS_ENCODER_RATE / 1000) * this.channels);
+      this.synchronizedBuffer = new SynchronizedAudioBuffer(this.buffer, this.channels, this.getIdealAudioPosition, { debug: event.data.debug, driftHistorySize: DRIFT_HISTORY_SIZE });
+      this.fader.fadeTo(1, this.msToFrames(event.data.fadeIn.duration), this.msToFrames(event.data.fadeIn.delay));
+    }
+    if (event.data.type === 'fadeOut' && this.buffer) {
+      // no chunk is received after the last one anymore, the audio after it is replaced by silence to not play
+      // old audio from the circular buffer if the fade out is longer than the audio already received
+      const durationFrames = this.msToFrames(event.data.duration);
+      this.buffer.set(new Float32Array(durationFrames * this.channels), (event.data.lastChunkIndex + 1) * OPUS_ENCODER_CHUNK_SAMPLES_COUNT * this.channels);
+      this.fader.fadeTo(0, durationFrames);
     }
-    if (event.data.type === 'chunk') {
-      const offset = event.data.i * OPUS_ENCODER_CHUNK_SAMPLES_COUNT * CHANNELS;
+    if (event.data.type === 'chunk' && this.buffer) {
+      const offset = event.data.i * OPUS_ENCODER_CHUNK_SAMPLES_COUNT * this.channels;
       this.buffer.set(event.data.chunk, offset);
       this.currentTimeRelativeToAudioContext = event.data.currentTimeRelativeToAudioContext;
       // console.log(`+ ${event.data.i} - ${formatNumber(offset)} -> ${formatNumber(offset + event.data.chunk.length)}`);
     }
   }
 
+  msToFrames = (duration: number) => Math.floor(duration * (OPUS_ENCODER_RATE / 1000))
+
   getIdealAudioPosition = () => Math.floor((this.currentTimeRelativeToAudioContext + (currentTime * 1000)) * (OPUS_ENCODER_RATE / 1000))
 
   process(inputs, outputs) {
@@ -49,10 +61,12 @@ class RawPcmPlayerProcessor extends AudioWorkletProcessor {
       return true;
     }
     const chunkBuffer = this.synchronizedBuffer.readNextChunk(outputs[0][0].length);
+    this.fader.process(chunkBuffer, this.channels);
 
     for (let sampleIndex = 0; sampleIndex < outputs[0][0].length; sampleIndex++) {
-      outputs[0][0][sampleIndex] = chunkBuffer[sampleIndex * CHANNELS];
-      outputs[0][1][sampleIndex] = chunkBuffer[sampleIndex * CHANNELS + 1];
+      for (let channel = 0; channel < outputs[0].length; channel++) {
+        outputs[0][channel][sampleIndex] = chunkBuffer[sampleIndex * this.channels + channel];
+      }
     }
 
     return true;
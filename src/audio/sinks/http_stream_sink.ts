@@ -0,0 +1,160 @@
+import _ from 'lodash';
+import { Context } from 'koa';
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import { AudioInstance } from '../utils';
+import { HttpStreamSinkDescriptor } from './sink_type';
+import { AudioSink } from './audio_sink';
+import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
+import { AudioChunkStreamOutput } from '../../utils/audio/chunk_stream';
+import { spawnFfmpegEncoder } from '../../utils/audio/ffmpeg';
+import { IcyMetadataWriterStream } from '../../utils/network/icy_metadata';
+
+const ICY_METAINT = 16000;
+const DEFAULT_BITRATE = 192;
+// a client not reading the stream blocks the output of its encoder and the audio accumulates in the encoder input,
+// the client is disconnected when this much audio is waiting to be encoded
+const MAX_LISTENER_BUFFERED_DURATION = 5000;
+
+const FORMATS = {
+  mp3: { contentType: 'audio/mpeg', outputArgs: ['-c:a', 'libmp3lame', '-f', 'mp3'] },
+  ogg: { contentType: 'audio/ogg', outputArgs: ['-c:a', 'libvorbis', '-f', 'ogg'] },
+  opus: { contentType: 'audio/ogg', outputArgs: ['-c:a', 'libopus', '-f', 'ogg'] },
+};
+
+interface HttpStreamListener {
+  encoderProcess: ChildProcessWithoutNullStreams;
+  icyMetadataStream?: IcyMetadataWriterStream;
+  disconnect: () => void;
+}
+
+export class HttpStreamSink extends AudioSink {
+  local: true = true;
+  type: 'httpstream' = 'httpstream';
+
+  httpStreamOptions: HttpStreamSinkDescriptor['httpStreamOptions'];
+  listenersCount = 0;
+
+  // each listener has its own encoder because ogg streams cannot be decoded if the client didn't receive the headers from the start of the stream
+  private httpListeners: HttpStreamListener[] = [];
+
+  constructor(descriptor: HttpStreamSinkDescriptor, manager: AudioSourcesSinksManager) {
+    super(descriptor, manager);
+    this.httpStreamOptions = _.clone(descriptor.httpStreamOptions) || {};
+  }
+
+  _startSink() {
+    this.updateStreamTitle();
+  }
+
+  _stopSink() {
+    // listeners are kept connected, they will receive audio again when the sink is linked to a source
+  }
+
+  handleAudioChunk = (data: AudioChunkStreamOutput) => {
+    if (!this.httpListeners.length) {
+      return;
+    }
+    let chunk = data.chunk;
+    if (this.volume !== 1) {
+      const samples = new Float32Array(data.chunk.buffer, data.chunk.byteOffset, data.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT);
+      chunk = Buffer.from(samples.map((sample) => sample * this.volume).buffer);
+    }
+    const maxBufferedSize = (MAX_LISTENER_BUFFERED_DURATION / 1000) * this.rate * this.channels * Float32Array.BYTES_PER_ELEMENT;
+    // copied as a listener is removed from this.httpListeners when disconnected
+    [...this.httpListeners].forEach((listener) => {
+      const { stdin } = listener.encoderProcess;
+      if (!stdin.write(chunk) && stdin.writableLength > maxBufferedSize) {
+        this.log(`Listener is not reading the stream, more than ${MAX_LISTENER_BUFFERED_DURATION}ms of audio is waiting to be encoded, disconnecting it`);
+        listener.disconnect();
+      }
+    });
+  }
+
+  // called by the API when a HTTP client requests the stream of this sink
+  handleHttpRequest = (ctx: Context) => {
+    const format = FORMATS[this.httpStreamOptions.format || 'mp3'];
+    let encoderProcess: ChildProcessWithoutNullStreams;
+    try {
+      encoderProcess = spawnFfmpegEncoder('pipe:1', {
+        rate: this.rate,
+        channels: this.channels,
+        inputFormat: 'f32le',
+        outputArgs: [...format.outputArgs, '-b:a', `${this.httpStreamOptions.bitrate || DEFAULT_BITRATE}k`],
+        log: this.log.extend('ffmpeg'),
+      });
+    } catch (e) {
+      ctx.throw(500, e.message);
+    }
+    const listener: HttpStreamListener = {
+      encoderProcess,
+      disconnect: () => {
+        this.removeHttpListener(listener);
+        ctx.req.socket.destroy();
+      },
+    };
+    this.httpListeners.push(listener);
+    this.updateInfo({ listenersCount: this.httpListeners.length });
+    this.log(`New listener connected (${this.httpListeners.length} listeners)`);
+
+    ctx.req.socket.setTimeout(0);
+    ctx.set({
+      'Content-Type': format.contentType,
+      'Cache-Control': 'no-cache',
+      'icy-name': this.name,
+    });
+    if (ctx.get('Icy-MetaData') === '1') {
+      listener.icyMetadataStream = new IcyMetadataWriterStream(ICY_METAINT);
+      ctx.set('icy-metaint', String(ICY_METAINT));
+      if (this.pipedSource) {
+        listener.icyMetadataStream.setStreamTitle(this.pipedSource.name);
+      }
+      ctx.body = encoderProcess.stdout.pipe(listener.icyMetadataStream);
+    } else {
+      ctx.body = encoderProcess.stdout;
+    }
+
+    ctx.req.on('close', () => this.removeHttpListener(listener));
+  }
+
+  private removeHttpListener = (listener: HttpStreamListener) => {
+    if (!this.httpListeners.includes(listener)) {
+      return;
+    }
+    listener.encoderProcess.kill();
+    _.remove(this.httpListeners, (l) => l === listener);
+    this.updateInfo({ listenersCount: this.httpListeners.length });
+    this.log(`Listener disconnected (${this.httpListeners.length} listeners)`);
+  }
+
+  private updateStreamTitle = () => {
+    this.httpListeners.forEach(({ icyMetadataStream }) => {
+      if (icyMetadataStream) {
+        icyMetadataStream.setStreamTitle(this.pipedSource.name);
+      }
+    });
+  }
+
+  toDescriptor = (sanitizeForConfigSave = false): AudioInstance<HttpStreamSinkDescriptor> => ({
+    type: this.type,
+    name: this.name,
+    uuid: this.uuid,
+    pipedFrom: this.pipedFrom,
+    mixedFrom: this.mixedFrom,
+    volume: this.volume,
+    latencyOffset: this.latencyOffset,
+    dsp: this.dsp,
+    channelMapping: this.channelMapping,
+
+    httpStreamOptions: this.httpStreamOptions,
+    ...(!sanitizeForConfigSave && {
+      peerUuid: this.peerUuid,
+      instanceUuid: this.instanceUuid,
+      latency: this.latency,
+      available: this.available,
+      error: this.error,
+      transportStats: this.transportStats,
+      recommendedLatencyMargins: this.recommendedLatencyMargins,
+      listenersCount: this.listenersCount,
+    }),
+  })
+}
@@ -19,7 +19,6 @@ import { FFTStream } from '../../utils/audio/fftStream';
 
 const FPS = 40; // Hue API docs indicate that the bridge will push new colors at 25Hz but, as we are sending with UDP, we should send packets faster than this
 const COLOR_ROTATE_LOOP_DURATION = 1000 * 60; // the colors associated with low/mid/high frequency band will change continuously and rotate fully in 60 seconds
-const SILENCE_CHUNK = Buffer.alloc(OPUS_ENCODER_CHUNK_SAMPLES_COUNT * 2 /* channels */ * Float32Array.BYTES_PER_ELEMENT);
 
 export class HueLightSink extends AudioSink {
   local: true = true;
@@ -110,6 +109,7 @@ export class HueLightSink extends AudioSink {
       [1500, 10000],
     ];
     const getAverage = frequencyAverages(OPUS_ENCODER_RATE, 2048);
+    const silenceChunk = Buffer.alloc(OPUS_ENCODER_CHUNK_SAMPLES_COUNT * this.channels * Float32Array.BYTES_PER_ELEMENT);
 
     while (this.hueSocket) {
       const currentTime = this.getCurrentStreamTime();
@@ -122,7 +122,7 @@ export class HueLightSink extends AudioSink {
         this.audioBuffer.splice(0, bufferCountToEmit);
       } else {
         // we received no buffer for this period, treat it as a silence
-        this.analyser.write(SILENCE_CHUNK);
+        this.analyser.write(silenceChunk);
       }
       const lowFrequenciesMean = smoothstep(0.3, 1, getAverage(this.analyser.frequencyData, ranges[0][0], ranges[0][1]));
       const midFrequenciesMean = smoothstep(0.4, 0.8, getAverage(this.analyser.frequencyData, ranges[1][0], ranges[1][1]));
@@ -186,7 +186,11 @@ export class HueLightSink extends AudioSink {
     name: this.name,
     uuid: this.uuid,
     pipedFrom: this.pipedFrom,
+    mixedFrom: this.mixedFrom,
     volume: this.volume,
+    latencyOffset: this.latencyOffset,
+    dsp: this.dsp,
+    channelMapping: this.channelMapping,
 
     hueHost: this.hueHost,
     status: this.status,
@@ -197,6 +201,8 @@ export class HueLightSink extends AudioSink {
       latency: this.latency,
       available: this.available,
       error: this.error,
+      transportStats: this.transportStats,
+      recommendedLatencyMargins: this.recommendedLatencyMargins,
     }),
   })
 }
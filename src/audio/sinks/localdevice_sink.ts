@@ -21,7 +21,7 @@ export class LocalDeviceSink extends AudioSink {
   local: true = true;
   deviceId: string;
   buffer: CircularTypedArray<Float32Array>;
-  delayFromLocalNowBuffer = new Float64Array(new SharedArrayBuffer(Float64Array.BYTES_PER_ELEMENT));
+  delayFromLocalNowBuffer: Float64Array;
 
   private worklet: Worker;
   private cleanStream;
@@ -44,6 +44,8 @@ export class LocalDeviceSink extends AudioSink {
     this.log(`Creating speaker`);
     await source.peer.waitForFirstTimeSync();
     const device = getOutputDeviceFromId(this.deviceId);
+    // the source is downmixed by AudioSink if the device supports less channels than the source
+    this.channels = Math.min(source.channels, device.maxChannels || 2);
     this.audioStream = getAudioServer().initOutputStream(this.deviceId, {
       sampleRate: OPUS_ENCODER_RATE,
       name: source.name,
@@ -56,6 +58,8 @@ export class LocalDeviceSink extends AudioSink {
     const bufferSize = MAX_LATENCY * (OPUS_ENCODER_RATE / 1000) * this.channels * Float32Array.BYTES_PER_ELEMENT;
     const bufferData = new SharedArrayBuffer(bufferSize);
     this.buffer = new CircularTypedArray(Float32Array, bufferData);
+    // a new delay buffer is used for each source to not change the position of the previous one while it fades out
+    this.delayFromLocalNowBuffer = new Float64Array(new SharedArrayBuffer(Float64Array.BYTES_PER_ELEMENT));
     this.updateInfo({ latency: device.minLatency });
     this.setDelayFromLocalNow();
     this.worklet.postMessage({
@@ -63,6 +67,7 @@ export class LocalDeviceSink extends AudioSink {
       buffer: bufferData,
       delayFromLocalNowBuffer: this.delayFromLocalNowBuffer.buffer,
       channels: this.channels,
+      fadeIn: this.getFadeIn(),
       debug: debug.enabled('soundsync:audioSinkDebug'),
     });
 
@@ -70,32 +75,39 @@ export class LocalDeviceSink extends AudioSink {
       this.log(`Resynchronizing sink after update from timedelta with peer or source latency`);
       this.setDelayFromLocalNow();
     };
-    this.pipedSource.peer.on('timedeltaUpdated', handleTimedeltaUpdate);
+    source.peer.on('timedeltaUpdated', handleTimedeltaUpdate);
     // this is needed to resync the audioworklet when the source latency is updated
-    this.pipedSource.on('update', handleTimedeltaUpdate);
+    source.on('update', handleTimedeltaUpdate);
     const syncDeviceVolume = () => {
       this.audioStream.setVolume(this.volume);
     };
     const latencySyncInterval = setInterval(this.setDelayFromLocalNow, 1000);
-    this.cleanStream = () => {
-      if (this.pipedSource.peer) {
-        this.pipedSource.peer.off('timedeltaUpdated', handleTimedeltaUpdate);
-      }
-      if (this.pipedSource) {
-        this.pipedSource.off('update', handleTimedeltaUpdate);
+    const { audioStream, worklet } = this;
+    // the audio stream is kept until the end of the fade out, a new one can be started for the next source in the meantime
+    // and they will be mixed by the audio server for the crossfade
+    this.cleanStream = async () => {
+      if (source.peer) {
+        source.peer.off('timedeltaUpdated', handleTimedeltaUpdate);
       }
+      source.off('update', handleTimedeltaUpdate);
       this.off('update', syncDeviceVolume);
-      this.audioStream.stop();
       clearInterval(latencySyncInterval);
       delete this.audioStream;
-      delete this.audioStream;
+      delete this.worklet;
+      const fadeOutDuration = this.getFadeOutDuration();
+      if (fadeOutDuration) {
+        worklet.postMessage({ type: 'fadeOut', duration: fadeOutDuration, lastChunkIndex: this.lastReceivedChunkIndex });
+        await new Promise((r) => setTimeout(r, fadeOutDuration));
+      }
+      audioStream.stop();
     };
   }
 
-  _stopSink() {
+  async _stopSink() {
     if (this.cleanStream) {
-      this.cleanStream();
+      const { cleanStream } = this;
       delete this.cleanStream;
+      await cleanStream();
     }
   }
 
@@ -107,7 +119,7 @@ export class LocalDeviceSink extends AudioSink {
       this.log(`Received a chunk for a not piped sink, ignoring`);
       return;
     }
-    const chunk = new Float32Array(data.chunk.buffer, data.chunk.byteOffset, data.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT);
+    const chunk = this.applyDsp(new Float32Array(data.chunk.buffer, data.chunk.byteOffset, data.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT));
     const offset = data.i * OPUS_ENCODER_CHUNK_SAMPLES_COUNT * this.channels;
     this.buffer.set(chunk, offset);
   }
@@ -116,9 +128,11 @@ export class LocalDeviceSink extends AudioSink {
     // we are not using this.latency here because this is directly handled by the audio worklet and makes it much more precise
     // the audioworklet handles the synchronization between the audio device clock and the system clock
     // this method is here to handle the synchronization between the system clock and the remote peer clock
+    // the latency offset is not known by the audio device so it is added here
     this.delayFromLocalNowBuffer[0] = this.pipedSource.peer.getCurrentTime(true)
       - this.pipedSource.startedAt
       - this.pipedSource.latency
+      + this.latencyOffset
       - now();
   }
 
@@ -128,13 +142,20 @@ export class LocalDeviceSink extends AudioSink {
     uuid: this.uuid,
     deviceId: this.deviceId,
     pipedFrom: this.pipedFrom,
+    mixedFrom: this.mixedFrom,
     volume: this.volume,
+    latencyOffset: this.latencyOffset,
+    dsp: this.dsp,
+    channelMapping: this.channelMapping,
+    fade: this.fade,
     ...(!sanitizeForConfigSave && {
       peerUuid: this.peerUuid,
       instanceUuid: this.instanceUuid,
       latency: this.latency,
       available: this.available,
       error: this.error,
+      transportStats: this.transportStats,
+      recommendedLatencyMargins: this.recommendedLatencyMargins,
     }),
   })
 }
@@ -0,0 +1,225 @@
+import _ from 'lodash';
+import fs from 'fs';
+import path from 'path';
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import { AudioInstance } from '../utils';
+import { OPUS_ENCODER_CHUNK_DURATION, OPUS_ENCODER_CHUNK_SAMPLES_COUNT } from '../../utils/constants';
+import { RecorderSinkDescriptor } from './sink_type';
+import { AudioSink } from './audio_sink';
+import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
+import { AudioChunkStreamOutput } from '../../utils/audio/chunk_stream';
+import { spawnFfmpegEncoder } from '../../utils/audio/ffmpeg';
+import { getConfigDir, getConfigField } from '../../coordinator/config';
+
+const DEFAULT_FILENAME_TEMPLATE = '{source}_{date}_{time}';
+const SILENCE_THRESHOLD = 0.0001; // around -80dBFS
+const SILENCE_KEPT_DURATION = 1000; // when trimming silence, this much silence is still recorded before stopping the recording
+const MAX_GAP_FILL_DURATION = 1000; // missing chunks are replaced by silence to keep the recording in sync with the source, unless the gap is longer than this
+const FILE_SIZE_CHECK_INTERVAL = 1000;
+
+const FORMATS = {
+  wav: { extension: 'wav', outputArgs: ['-c:a', 'pcm_s16le'] },
+  flac: { extension: 'flac', outputArgs: ['-c:a', 'flac'] },
+  opus: { extension: 'opus', outputArgs: ['-c:a', 'libopus', '-b:a', '128k'] },
+};
+
+const pad = (n: number) => _.padStart(String(n), 2, '0');
+// only keeps characters that can safely be used in a filename on every platform
+const sanitizeForFilename = (name: string) => name.replace(/[^\w\- ]/g, '_');
+
+export const getRecordingsDirectory = () => getConfigField('recordingsDirectory') || path.join(getConfigDir(), 'recordings');
+
+// the recorder options can be sent by any API client or peer, they should never make the sink write outside of the recordings directory
+export const assertValidRecorderOptions = (recorderOptions: any) => {
+  if (!_.isPlainObject(recorderOptions)) {
+    throw new Error('recorderOptions should be an object');
+  }
+  const {
+    directory, format, filenameTemplate, maxFileDuration, maxFileSize, trimSilence,
+  } = recorderOptions;
+  if (directory !== undefined && (typeof directory !== 'string' || path.isAbsolute(directory) || directory.split(/[\\/]/).includes('..'))) {
+    throw new Error('recorderOptions.directory should be a path relative to the recordings directory and cannot contain ..');
+  }
+  if (format !== undefined && !Object.keys(FORMATS).includes(format)) {
+    throw new Error(`recorderOptions.format should be ${Object.keys(FORMATS).join(', ')}`);
+  }
+  if (filenameTemplate !== undefined && (typeof filenameTemplate !== 'string' || !filenameTemplate.length || /[\\/]/.test(filenameTemplate))) {
+    throw new Error('recorderOptions.filenameTemplate should be a non-empty string without / or \\');
+  }
+  if (maxFileDuration !== undefined && (typeof maxFileDuration !== 'number' || maxFileDuration <= 0)) {
+    throw new Error('recorderOptions.maxFileDuration should be a positive number');
+  }
+  if (maxFileSize !== undefined && (typeof maxFileSize !== 'number' || maxFileSize <= 0)) {
+    throw new Error('recorderOptions.maxFileSize should be a positive number');
+  }
+  if (trimSilence !== undefined && typeof trimSilence !== 'boolean') {
+    throw new Error('recorderOptions.trimSilence should be a boolean');
+  }
+};
+
+export class RecorderSink extends AudioSink {
+  local: true = true;
+  type: 'recorder' = 'recorder';
+
+  recorderOptions: RecorderSinkDescriptor['recorderOptions'];
+  recordingPath: string;
+
+  private encoderProcess: ChildProcessWithoutNullStreams;
+  private recordedChunksCount = 0; // in the current file
+  private silentChunksCount = 0;
+
+  constructor(descriptor: RecorderSinkDescriptor, manager: AudioSourcesSinksManager) {
+    super(descriptor, manager);
+    this.recorderOptions = _.clone(descriptor.recorderOptions);
+  }
+
+  async _startSink() {
+    // also checked here as the options can be changed by a patch from another peer
+    assertValidRecorderOptions(this.recorderOptions);
+    await fs.promises.mkdir(this.getRecordingDirectory(), { recursive: true });
+    this.silentChunksCount = 0;
+  }
+
+  _stopSink() {
+    this.closeFile();
+  }
+
+  handleAudioChunk = (data: AudioChunkStreamOutput) => {
+    if (!this.pipedSource || this.error) {
+      // the error is reset when the sink is linked again
+      return;
+    }
+    if (this.lastReceivedChunkIndex !== -1 && data.i !== this.lastReceivedChunkIndex + 1) {
+      this.handleChunkGap(data.i);
+    }
+    const samples = new Float32Array(data.chunk.buffer, data.chunk.byteOffset, data.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT);
+    if (this.recorderOptions.trimSilence && samples.every((sample) => Math.abs(sample) < SILENCE_THRESHOLD)) {
+      this.silentChunksCount++;
+      if (this.silentChunksCount * OPUS_ENCODER_CHUNK_DURATION > SILENCE_KEPT_DURATION) {
+        return;
+      }
+    } else {
+      this.silentChunksCount = 0;
+    }
+    this.writeChunk(data.chunk);
+  }
+
+  // the chunk indexes of the gaps are saved next to the recording to help debugging glitches of a source
+  private handleChunkGap = (chunkIndex: number) => {
+    const missingChunks = chunkIndex - this.lastReceivedChunkIndex - 1;
+    const message = `Missing ${missingChunks} chunks between chunk ${this.lastReceivedChunkIndex} and chunk ${chunkIndex}`;
+    this.log(message);
+    if (!this.encoderProcess) {
+      return;
+    }
+    fs.appendFile(
+      `${this.recordingPath}.gaps.log`,
+      `[${new Date().toISOString()}] at ${this.recordedChunksCount * OPUS_ENCODER_CHUNK_DURATION}ms: ${message}\n`,
+      (e) => e && this.log('Error while writing gaps log', e),
+    );
+    if (missingChunks > 0 && missingChunks * OPUS_ENCODER_CHUNK_DURATION <= MAX_GAP_FILL_DURATION) {
+      const silence = Buffer.alloc(OPUS_ENCODER_CHUNK_SAMPLES_COUNT * this.channels * Float32Array.BYTES_PER_ELEMENT);
+      _.times(missingChunks, () => this.writeChunk(silence));
+    }
+  }
+
+  private writeChunk = (chunk: Buffer) => {
+    if (!this.encoderProcess) {
+      try {
+        this.openFile();
+      } catch (e) {
+        this.updateInfo({ error: e.toString() });
+        return;
+      }
+    }
+    this.encoderProcess.stdin.write(chunk);
+    this.recordedChunksCount++;
+
+    const { maxFileDuration, maxFileSize } = this.recorderOptions;
+    if (maxFileDuration && this.recordedChunksCount * OPUS_ENCODER_CHUNK_DURATION >= maxFileDuration * 1000) {
+      this.closeFile();
+    } else if (maxFileSize && (this.recordedChunksCount * OPUS_ENCODER_CHUNK_DURATION) % FILE_SIZE_CHECK_INTERVAL === 0) {
+      const { recordingPath } = this;
+      fs.stat(recordingPath, (e, stat) => {
+        if (!e && stat.size >= maxFileSize && this.recordingPath === recordingPath) {
+          this.closeFile();
+        }
+      });
+    }
+  }
+
+  private getRecordingDirectory = () => path.join(getRecordingsDirectory(), this.recorderOptions.directory || '');
+
+  private getNewRecordingPath = () => {
+    const date = new Date();
+    const filename = (this.recorderOptions.filenameTemplate || DEFAULT_FILENAME_TEMPLATE)
+      .replace(/{source}/g, sanitizeForFilename(this.pipedSource.name))
+      .replace(/{sink}/g, sanitizeForFilename(this.name))
+      .replace(/{date}/g, `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`)
+      .replace(/{time}/g, `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`);
+    const { extension } = FORMATS[this.recorderOptions.format || 'wav'];
+    const directory = this.getRecordingDirectory();
+    let recordingPath = path.join(directory, `${filename}.${extension}`);
+    // prevents overwriting a file when rotating multiple times in the same second
+    for (let i = 1; fs.existsSync(recordingPath); i++) {
+      recordingPath = path.join(directory, `${filename}_${i}.${extension}`);
+    }
+    return recordingPath;
+  }
+
+  private openFile = () => {
+    const recordingPath = this.getNewRecordingPath();
+    this.log(`Recording to ${recordingPath}`);
+    const encoderProcess = spawnFfmpegEncoder(recordingPath, {
+      rate: this.rate,
+      channels: this.channels,
+      inputFormat: 'f32le',
+      outputArgs: FORMATS[this.recorderOptions.format || 'wav'].outputArgs,
+      log: this.log.extend('ffmpeg'),
+    });
+    encoderProcess.on('exit', (code) => {
+      if (code) {
+        this.log(`Error while recording to ${recordingPath}, ffmpeg exited with code ${code}`);
+        this.updateInfo({ error: `Error while recording to ${recordingPath}` });
+      }
+    });
+    this.encoderProcess = encoderProcess;
+    this.recordedChunksCount = 0;
+    this.updateInfo({ recordingPath });
+  }
+
+  private closeFile = () => {
+    if (!this.encoderProcess) {
+      return;
+    }
+    this.log(`Finished recording to ${this.recordingPath}`);
+    // ending stdin lets ffmpeg finish writing the file
+    this.encoderProcess.stdin.end();
+    delete this.encoderProcess;
+    this.updateInfo({ recordingPath: null });
+  }
+
+  toDescriptor = (sanitizeForConfigSave = false): AudioInstance<RecorderSinkDescriptor> => ({
+    type: this.type,
+    name: this.name,
+    uuid: this.uuid,
+    pipedFrom: this.pipedFrom,
+    mixedFrom: this.mixedFrom,
+    volume: this.volume,
+    latencyOffset: this.latencyOffset,
+    dsp: this.dsp,
+    channelMapping: this.channelMapping,
+
+    recorderOptions: this.recorderOptions,
+    ...(!sanitizeForConfigSave && {
+      peerUuid: this.peerUuid,
+      instanceUuid: this.instanceUuid,
+      latency: this.latency,
+      available: this.available,
+      error: this.error,
+      transportStats: this.transportStats,
+      recommendedLatencyMargins: this.recommendedLatencyMargins,
+      recordingPath: this.recordingPath,
+    }),
+  })
+}
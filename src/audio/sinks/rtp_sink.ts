@@ -0,0 +1,177 @@
+import _ from 'lodash';
+import fs from 'fs';
+import dgram from 'dgram';
+import { AudioInstance } from '../utils';
+import { OPUS_ENCODER_CHUNK_DURATION } from '../../utils/constants';
+import { AudioError } from '../../utils/misc';
+import { RtpSinkDescriptor } from './sink_type';
+import { AudioSink } from './audio_sink';
+import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
+import { AudioChunkStreamOutput } from '../../utils/audio/chunk_stream';
+import { OpusEncoder, OpusApplication } from '../../utils/audio/opus';
+import {
+  createRtpPacket, createSdp, floatToRtpPcm, isMulticastAddress, RTP_DYNAMIC_PAYLOAD_TYPE, RTP_PCM_BYTES_PER_SAMPLE,
+} from '../../utils/network/rtp';
+import { getInternalIps } from '../../utils/network/ip';
+
+const DEFAULT_PORT = 5004;
+const DEFAULT_TTL = 16;
+const DEFAULT_PAYLOAD = 'L16';
+const DEFAULT_PACKET_TIME = 1; // in ms, 1ms is the default of AES67
+const MAX_PAYLOAD_SIZE = 1440; // keeps the packets under the usual 1500 bytes MTU with the IP/UDP/RTP headers
+
+export class RtpSink extends AudioSink {
+  local: true = true;
+  type: 'rtp' = 'rtp';
+
+  rtpOptions: RtpSinkDescriptor['rtpOptions'];
+
+  private socket: dgram.Socket;
+  private opusEncoder: OpusEncoder;
+  private ssrc = _.random(0, 0xffffffff);
+  private sequenceNumber = _.random(0, 0xffff);
+  private scheduledSends = new Set<NodeJS.Timeout>();
+
+  constructor(descriptor: RtpSinkDescriptor, manager: AudioSourcesSinksManager) {
+    super(descriptor, manager);
+    this.rtpOptions = _.clone(descriptor.rtpOptions);
+  }
+
+  private get payloadFormat() {
+    return this.rtpOptions.payload || DEFAULT_PAYLOAD;
+  }
+
+  // opus frames are encoded from a full chunk so the packet time is always the chunk duration
+  private get packetTime() {
+    return this.payloadFormat === 'opus' ? OPUS_ENCODER_CHUNK_DURATION : (this.rtpOptions.packetTime || DEFAULT_PACKET_TIME);
+  }
+
+  async _startSink() {
+    const { address } = this.rtpOptions;
+    const port = this.rtpOptions.port || DEFAULT_PORT;
+    const ttl = this.rtpOptions.ttl || DEFAULT_TTL;
+    const samplesPerPacket = (this.rate / 1000) * this.packetTime;
+    if (!Number.isInteger(samplesPerPacket) || OPUS_ENCODER_CHUNK_DURATION % this.packetTime !== 0) {
+      throw new AudioError(`Packet time should be a divider of ${OPUS_ENCODER_CHUNK_DURATION}ms`);
+    }
+    if (this.payloadFormat !== 'opus' && samplesPerPacket * this.channels * RTP_PCM_BYTES_PER_SAMPLE[this.payloadFormat] > MAX_PAYLOAD_SIZE) {
+      throw new AudioError('Packet time is too long for this payload, packets would be fragmented');
+    }
+
+    if (this.payloadFormat === 'opus') {
+      this.opusEncoder = new OpusEncoder(this.rate, this.channels, OpusApplication.OPUS_APPLICATION_AUDIO);
+      await this.opusEncoder.setup();
+    }
+
+    this.socket = dgram.createSocket(address.includes(':') ? 'udp6' : 'udp4');
+    this.socket.on('error', (e) => {
+      this.log('Error with RTP socket', e);
+      this.updateInfo({ error: e.toString() });
+    });
+    await new Promise((resolve) => this.socket.bind(resolve));
+    if (isMulticastAddress(address)) {
+      this.socket.setMulticastTTL(ttl);
+    }
+    this.log(`Sending RTP stream to ${address}:${port}`);
+
+    if (this.rtpOptions.sdpPath) {
+      const sdp = createSdp({
+        name: this.name,
+        originAddress: getInternalIps()[0] || '127.0.0.1',
+        address,
+        port,
+        ttl,
+        format: this.payloadFormat,
+        rate: this.rate,
+        channels: this.channels,
+        packetTime: this.packetTime,
+      });
+      await fs.promises.writeFile(this.rtpOptions.sdpPath, sdp);
+    }
+  }
+
+  _stopSink() {
+    this.scheduledSends.forEach((timeout) => clearTimeout(timeout));
+    this.scheduledSends.clear();
+    if (this.socket) {
+      this.socket.close();
+    }
+    delete this.socket;
+    if (this.opusEncoder) {
+      this.opusEncoder.destroy();
+    }
+    delete this.opusEncoder;
+  }
+
+  handleAudioChunk = (data: AudioChunkStreamOutput) => {
+    // chunks are received in advance of the source latency, they are sent when they should be played
+    // so that receivers with a fixed small buffer stay in sync with the other sinks
+    const isDiscontinuity = data.i !== this.lastReceivedChunkIndex + 1;
+    const delay = data.i * OPUS_ENCODER_CHUNK_DURATION - this.getCurrentStreamTime();
+    if (delay <= 0) {
+      this.sendChunk(data, isDiscontinuity);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      this.scheduledSends.delete(timeout);
+      this.sendChunk(data, isDiscontinuity);
+    }, delay);
+    this.scheduledSends.add(timeout);
+  }
+
+  private sendChunk = (data: AudioChunkStreamOutput, isDiscontinuity: boolean) => {
+    if (!this.socket || !this.pipedSource) {
+      return;
+    }
+    const samples = new Float32Array(data.chunk.buffer, data.chunk.byteOffset, data.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT)
+      .map((sample) => sample * this.volume);
+    // derived from the source start time so every RTP sink linked to the same source use the same timestamps
+    const chunkTimestamp = this.pipedSource.startedAt * (this.rate / 1000) + data.i * (samples.length / this.channels);
+    const port = this.rtpOptions.port || DEFAULT_PORT;
+
+    const payloads: Buffer[] = [];
+    if (this.payloadFormat === 'opus') {
+      payloads.push(this.opusEncoder.encodeFloat(Buffer.from(samples.buffer)));
+    } else {
+      const packetSamplesCount = (this.rate / 1000) * this.packetTime * this.channels;
+      for (let offset = 0; offset < samples.length; offset += packetSamplesCount) {
+        payloads.push(floatToRtpPcm(samples.subarray(offset, offset + packetSamplesCount), this.payloadFormat));
+      }
+    }
+
+    payloads.forEach((payload, packetIndex) => {
+      const packet = createRtpPacket({
+        payloadType: RTP_DYNAMIC_PAYLOAD_TYPE,
+        sequenceNumber: this.sequenceNumber++,
+        timestamp: Math.floor(chunkTimestamp + packetIndex * (this.rate / 1000) * this.packetTime),
+        ssrc: this.ssrc,
+        // marks the start of a talkspurt, used by receivers to resync their buffer
+        marker: packetIndex === 0 && isDiscontinuity,
+      }, payload);
+      this.socket.send(packet, port, this.rtpOptions.address);
+    });
+  }
+
+  toDescriptor = (sanitizeForConfigSave = false): AudioInstance<RtpSinkDescriptor> => ({
+    type: this.type,
+    name: this.name,
+    uuid: this.uuid,
+    pipedFrom: this.pipedFrom,
+    mixedFrom: this.mixedFrom,
+    volume: this.volume,
+    latencyOffset: this.latencyOffset,
+    dsp: this.dsp,
+    channelMapping: this.channelMapping,
+
+    rtpOptions: this.rtpOptions,
+    ...(!sanitizeForConfigSave && {
+      peerUuid: this.peerUuid,
+      instanceUuid: this.instanceUuid,
+      latency: this.latency,
+      available: this.available,
+      error: this.error,
+      transportStats: this.transportStats,
+      recommendedLatencyMargins: this.recommendedLatencyMargins,
+    }),
+  })
+}
@@ -1,17 +1,46 @@
 import { SourceUUID } from '../sources/source_type';
+import { DspConfig } from '../../utils/audio/dsp';
+import { ChannelMapping } from '../../utils/audio/channel_mapping';
 
 export type SinkUUID = string;
 
+// a source mixed with the source the sink is piped from, for example a doorbell or a text-to-speech announcement over music
+export interface SinkMixedSource {
+  sourceUuid: SourceUUID;
+  gain: number; // applied before the volume of the sink
+}
+
+// durations in ms of the fades applied when the sink starts or stops playing a source
+export interface SinkFadeOptions {
+  fadeIn?: number;
+  fadeOut?: number;
+  crossfade?: number; // when switching to another source, both are played at the same time during this duration, disabled if not set
+}
+
+// measured by the peer of the sink when playing a source from another peer
+export interface SinkTransportStats {
+  bitrate: number; // in bits per second, received from the peer of the source
+  loss: number; // ratio of chunks lost or received too late to be played, between 0 and 1
+}
+
 export interface BaseSinkDescriptor {
   type;
   name: string;
   uuid: SinkUUID;
   peerUuid: string;
   latency?: number;
+  latencyOffset?: number; // in ms, a positive value plays the audio earlier to compensate for a device adding its own delay
   error?: string;
   pipedFrom: SourceUUID | null;
+  mixedFrom?: SinkMixedSource[];
   available: boolean;
   volume: number;
+  dsp?: DspConfig; // equalizer, crossover, gain and limiter applied before playing the audio
+  channelMapping?: ChannelMapping; // stereo by default
+  fade?: SinkFadeOptions; // only used by the localdevice and webaudio sinks
+  transportStats?: SinkTransportStats | null;
+  // in ms by source uuid, measured from the delay of the chunks received from the piped and mixed sources, see JitterEstimator
+  recommendedLatencyMargins?: {[sourceUuid: string]: number} | null;
 }
 
 export interface LocalDeviceSinkDescriptor extends BaseSinkDescriptor {
@@ -50,5 +79,40 @@ export interface AirplaySinkDescriptor extends BaseSinkDescriptor {
   port: number;
 }
 
-export type SinkDescriptor = LocalDeviceSinkDescriptor | NullSinkDescriptor | WebAudioSinkDescriptor | HueLightSinkDescriptor | AirplaySinkDescriptor;
+export interface RecorderSinkDescriptor extends BaseSinkDescriptor {
+  type: 'recorder';
+  recorderOptions: {
+    directory?: string; // relative to the recordingsDirectory of the config, the recordings are saved directly in it if not set
+    format?: 'wav' | 'flac' | 'opus';
+    // {source}, {sink}, {date} and {time} are replaced, the extension is added from the format
+    filenameTemplate?: string;
+    maxFileDuration?: number; // in seconds, a new file is started when reached
+    maxFileSize?: number; // in bytes, a new file is started when reached
+    trimSilence?: boolean; // do not record long periods of silence
+  };
+  recordingPath?: string; // file currently written
+}
+
+export interface HttpStreamSinkDescriptor extends BaseSinkDescriptor {
+  type: 'httpstream';
+  httpStreamOptions?: {
+    format?: 'mp3' | 'ogg' | 'opus';
+    bitrate?: number; // in kbps
+  };
+  listenersCount?: number;
+}
+
+export interface RtpSinkDescriptor extends BaseSinkDescriptor {
+  type: 'rtp';
+  rtpOptions: {
+    address: string; // unicast or multicast address of the receiver
+    port?: number;
+    ttl?: number; // only used for multicast
+    payload?: 'L16' | 'L24' | 'opus';
+    packetTime?: number; // in ms, ignored for opus which is always sent in 10ms packets
+    sdpPath?: string; // if set, the session description is written to this file to be used by the receivers
+  };
+}
+
+export type SinkDescriptor = LocalDeviceSinkDescriptor | NullSinkDescriptor | WebAudioSinkDescriptor | HueLightSinkDescriptor | AirplaySinkDescriptor | RecorderSinkDescriptor | HttpStreamSinkDescriptor | RtpSinkDescriptor;
 export type SinkType = SinkDescriptor['type'];
@@ -31,6 +31,20 @@ export class WebAudioSink extends AudioSink {
       throw new Error('Webaudio sink already started');
     }
 
+    if (!this.context) {
+      this.context = new AudioContext({
+        sampleRate: OPUS_ENCODER_RATE,
+        // We could use a higher latencyHint here to improve power consumption but because of
+        // a chromium bug, a higher latencyHint lead to a really bad getOutputTimestamp accuracy
+        // https://bugs.chromium.org/p/chromium/issues/detail?id=1086005
+        latencyHint: 0.01,
+      });
+    }
+    // the source is downmixed by AudioSink if the browser or the audio device supports less channels than the source
+    this.channels = Math.min(source.channels, this.context.destination.maxChannelCount || 2);
+    this.context.destination.channelCount = this.channels;
+    const { channels } = this;
+
     // we cannot put this class in the global file scope as it will be created by the nodejs process
     // which will throw an error because AudioWorkletNode only exists browser side
     class RawPcmPlayerWorklet extends AudioWorkletNode {
@@ -38,26 +52,20 @@ export class WebAudioSink extends AudioSink {
         super(context, 'rawPcmPlayerProcessor', {
           numberOfOutputs: 1,
           numberOfInputs: 0,
-          outputChannelCount: [source.channels],
+          outputChannelCount: [channels],
         });
       }
     }
 
-    if (!this.context) {
-      this.context = new AudioContext({
-        sampleRate: OPUS_ENCODER_RATE,
-        // We could use a higher latencyHint here to improve power consumption but because of
-        // a chromium bug, a higher latencyHint lead to a really bad getOutputTimestamp accuracy
-        // https://bugs.chromium.org/p/chromium/issues/detail?id=1086005
-        latencyHint: 0.01,
-      });
-    }
     // eslint-disable-next-line
     const audioworkletPath = require('./audioworklets/webaudio_sink_processor.audioworklet.ts');
     await this.context.audioWorklet.addModule(audioworkletPath);
-    this.workletNode = new RawPcmPlayerWorklet(this.context);
+    const workletNode = new RawPcmPlayerWorklet(this.context);
+    this.workletNode = workletNode;
     this.workletNode.port.postMessage({
       type: 'init',
+      channels: this.channels,
+      fadeIn: this.getFadeIn(),
       debug: debug.enabled('soundsync:audioSinkDebug'),
     });
     const volumeNode = this.context.createGain();
@@ -72,13 +80,24 @@ export class WebAudioSink extends AudioSink {
     };
     this.on('update', syncDeviceVolume);
     // this should be set before any await to make sure we have the clean method available if _stopSink is called between _startSink ends
-    this.cleanAudioContext = () => {
+    // the worklet node is kept until the end of the fade out, the audio context is shared with the worklet node
+    // of the next source if the sink is linked to another source in the meantime
+    this.cleanAudioContext = async () => {
       this.off('update', syncDeviceVolume);
-      this.workletNode.disconnect();
       delete this.workletNode;
-      this.context.suspend();
-      delete this.context;
       this.cleanAudioContext = undefined;
+      const fadeOutDuration = this.getFadeOutDuration();
+      if (fadeOutDuration) {
+        workletNode.port.postMessage({ type: 'fadeOut', duration: fadeOutDuration, lastChunkIndex: this.lastReceivedChunkIndex });
+      }
+      // always waiting also lets unlinkSource delete this.pipedSource before checking if the sink is linked to another source
+      await new Promise((r) => setTimeout(r, fadeOutDuration));
+      workletNode.disconnect();
+      volumeNode.disconnect();
+      if (!this.pipedSource && this.context) {
+        this.context.suspend();
+        delete this.context;
+      }
     };
 
 
@@ -101,9 +120,9 @@ export class WebAudioSink extends AudioSink {
     // TODO: handle the source latency change
   }
 
-  _stopSink = () => {
+  _stopSink = async () => {
     if (this.cleanAudioContext) {
-      this.cleanAudioContext();
+      await this.cleanAudioContext();
     }
   }
 
@@ -111,7 +130,7 @@ export class WebAudioSink extends AudioSink {
     if (!this.workletNode) {
       return;
     }
-    const chunk = new Float32Array(data.chunk.buffer, data.chunk.byteOffset, data.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT);
+    const chunk = this.applyDsp(new Float32Array(data.chunk.buffer, data.chunk.byteOffset, data.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT));
     this.workletNode.port.postMessage({
       type: 'chunk',
       i: data.i,
@@ -125,13 +144,20 @@ export class WebAudioSink extends AudioSink {
     name: this.name,
     uuid: this.uuid,
     pipedFrom: this.pipedFrom,
+    mixedFrom: this.mixedFrom,
     volume: this.volume,
+    latencyOffset: this.latencyOffset,
+    dsp: this.dsp,
+    channelMapping: this.channelMapping,
+    fade: this.fade,
     ...(!sanitizeForConfigSave && {
       peerUuid: this.peerUuid,
       instanceUuid: this.instanceUuid,
       latency: this.latency,
       available: this.available,
       error: this.error,
+      transportStats: this.transportStats,
+      recommendedLatencyMargins: this.recommendedLatencyMargins,
     }),
   })
 }
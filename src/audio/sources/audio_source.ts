@@ -4,20 +4,28 @@ import _ from 'lodash';
 
 import MiniPass from 'minipass';
 import { TypedEmitter } from 'tiny-typed-emitter';
-import { createAudioEncodedStream } from '../../utils/audio/chunk_stream';
+import { createAudioEncodedStream, AudioChunkStreamOutput } from '../../utils/audio/chunk_stream';
 import {
-  INACTIVE_TIMEOUT, SOURCE_MIN_LATENCY_DIFF_TO_RESYNC, LATENCY_MARGIN, OPUS_ENCODER_CHUNK_DURATION,
+  INACTIVE_TIMEOUT, ANNOUNCEMENT_INACTIVE_TIMEOUT, SOURCE_MIN_LATENCY_DIFF_TO_RESYNC, LATENCY_MARGIN, OPUS_ENCODER_CHUNK_DURATION, MAX_LATENCY, DEFAULT_TARGET_LOUDNESS,
 } from '../../utils/constants';
 import {
-  SourceDescriptor, SourceType, BaseSourceDescriptor,
+  SourceDescriptor, SourceType, BaseSourceDescriptor, SourcePriority, SourceAnnouncementOptions, SourceTransportOptions,
 } from './source_type';
+import { SinkUUID } from '../sinks/sink_type';
 import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
 import { getPeersManager } from '../../communication/get_peers_manager';
 import { AudioInstance, MaybeAudioInstance } from '../utils';
 import { now } from '../../utils/misc';
 import { AUDIO_SOURCE_EVENT_INTERVAL, captureEvent } from '../../utils/vendor_integrations/posthog';
+import { getChannelLayout } from '../../utils/audio/channel_mapping';
+import { LoudnessNormalizer } from '../../utils/audio/loudness';
+import { LatencyPolicy } from '../../utils/audio/jitter_estimator';
 
 const DEFAULT_LATENCY = 1000;
+const MIX_LATENCY_MARGIN = 50;
+// the loudness is shown to the user and sent to every peer with the sound state, it doesn't need to be updated more often
+const LOUDNESS_REPORT_INTERVAL = 5000;
+const LOW_LATENCY_MIN_LATENCY_DIFF_TO_RESYNC = 50;
 
 interface AudioSourceEvents {
   'update': () => void;
@@ -38,20 +46,32 @@ export abstract class AudioSource extends TypedEmitter<AudioSourceEvents> {
   available: boolean;
   started: boolean;
   active: boolean; // is source currently outputting sound or has been silent for INACTIVE_TIMEOUT ms
+  priority: SourcePriority;
+  announcement?: SourceAnnouncementOptions;
+  loudnessNormalization: boolean;
+  targetLoudness: number;
+  transport?: SourceTransportOptions;
+  latencyPolicy: LatencyPolicy;
+  loudness?: number;
   error?: string;
+  internal: boolean;
 
   // we separate the two streams so that we can synchronously create the encodedAudioStream which will be empty while the
   // real source initialize, this simplify the code needed to handle the source being started twice at the same time
-  protected directSourceStream: MiniPass; // internal stream from the source
+  protected directSourceStream: MiniPass<Buffer | AudioChunkStreamOutput>; // internal stream from the source
   protected sourceStream: MiniPass; // stream used to redistribute the audio chunks to every sink
-  protected encodedSourceStream: ReturnType<typeof createAudioEncodedStream>; // encoded and compressed audio stream
+  // encoded and compressed audio streams by bitrate, 0 is the bitrate of this.transport
+  protected encodedSourceStreams = new Map<number, ReturnType<typeof createAudioEncodedStream>>();
   protected log: debug.Debugger;
+  protected manager: AudioSourcesSinksManager;
 
   private consumersStreams: MiniPass[] = [];
   private encodedConsumersStreams: MiniPass[] = [];
-  private manager: AudioSourcesSinksManager;
+  private encodedConsumersBitrates = new Map<MiniPass, number>(); // lowered by the adaptive bitrate of a consumer on a congested network
+  private loudnessNormalizer: LoudnessNormalizer;
+  private encodedSourceStreamsTransport: SourceTransportOptions; // used to detect a patch of this.transport
 
-  protected abstract _getAudioChunkStream(): Promise<MiniPass> | MiniPass;
+  protected abstract _getAudioChunkStream(): Promise<MiniPass<Buffer | AudioChunkStreamOutput>> | MiniPass<Buffer | AudioChunkStreamOutput>;
 
   constructor(descriptor: MaybeAudioInstance<SourceDescriptor>, manager: AudioSourcesSinksManager) {
     super();
@@ -67,7 +87,15 @@ export abstract class AudioSource extends TypedEmitter<AudioSourceEvents> {
     this.available = descriptor.available;
     this.active = descriptor.active ?? false; // true by default, will be set to false if there is not activity, this is necessary to allow the source to be started
     this.started = descriptor.started ?? false;
+    this.priority = descriptor.priority || 'normal';
+    this.announcement = descriptor.announcement;
+    this.loudnessNormalization = descriptor.loudnessNormalization ?? false;
+    this.targetLoudness = descriptor.targetLoudness ?? DEFAULT_TARGET_LOUDNESS;
+    this.transport = descriptor.transport;
+    this.latencyPolicy = descriptor.latencyPolicy || 'robust';
+    this.loudness = descriptor.loudness;
     this.error = descriptor.error;
+    this.internal = descriptor.internal ?? false;
     this.log = debug(`soundsync:audioSource:${this.uuid}`);
     this.log(`Created new audio source`);
   }
@@ -104,6 +132,11 @@ export abstract class AudioSource extends TypedEmitter<AudioSourceEvents> {
     }
   }
 
+  // when active, an announcement source is mixed into these sinks and ducks their other sources, see AudioSink._syncPipeState
+  isAnnouncementForSink(sinkUuid: SinkUUID) {
+    return this.priority === 'announcement' && _.includes(this.announcement?.sinks, sinkUuid);
+  }
+
   private setInactive = () => {
     this.updateInfo({ active: false });
   }
@@ -118,24 +151,27 @@ export abstract class AudioSource extends TypedEmitter<AudioSourceEvents> {
       }
       let inactiveTimeout: NodeJS.Timeout = null;
       // we don't use pipe here because minipass cannot be unpiped but we still need to stop sending to ended consumersStreams
-      this.sourceStream.on('data', (d) => {
+      this.sourceStream.on('data', (sourceChunk: AudioChunkStreamOutput) => {
+        const d = this.local ? this.normalizeLoudness(sourceChunk) : sourceChunk;
         if (this.local) {
           if (inactiveTimeout) {
             clearTimeout(inactiveTimeout);
             inactiveTimeout = null;
           }
-          inactiveTimeout = setTimeout(this.setInactive, INACTIVE_TIMEOUT);
+          inactiveTimeout = setTimeout(this.setInactive, this.priority === 'announcement' ? ANNOUNCEMENT_INACTIVE_TIMEOUT : INACTIVE_TIMEOUT);
           if (!this.active) {
             this.updateInfo({ active: true });
           }
         }
         this.consumersStreams.forEach((stream) => stream.write(d));
         if (this.encodedConsumersStreams.length) {
-          if (!this.encodedSourceStream) {
-            // create the opus encoder only if needed to optimize memory usage
-            this.initAudioEncodedStream();
+          if (!_.isEqual(this.encodedSourceStreamsTransport, this.transport)) {
+            this.resetAudioEncodedStreams();
           }
-          this.encodedSourceStream.input.write(d);
+          // create the opus encoders only if needed to optimize memory usage
+          _.uniq(this.encodedConsumersStreams.map(this.getEncodedStreamBitrate)).forEach((bitrate) => {
+            this.getAudioEncodedStream(bitrate).input.write(d);
+          });
         }
         if (this.consumersStreams.length || this.encodedConsumersStreams.length) {
           if ((d.i * OPUS_ENCODER_CHUNK_DURATION) % AUDIO_SOURCE_EVENT_INTERVAL === 0 && d.i !== 0) {
@@ -168,19 +204,89 @@ export abstract class AudioSource extends TypedEmitter<AudioSourceEvents> {
     }
   }
 
-  private initAudioEncodedStream = () => {
-    this.encodedSourceStream = createAudioEncodedStream(this.channels);
-    this.encodedSourceStream.output.on('data', (d) => {
-      this.encodedConsumersStreams.forEach((s) => s.write(d));
+  // done before encoding the chunks on the peer hosting the source, the other peers receive them already normalized
+  private normalizeLoudness(chunk: AudioChunkStreamOutput): AudioChunkStreamOutput {
+    if (!this.loudnessNormalization) {
+      if (this.loudnessNormalizer) {
+        delete this.loudnessNormalizer;
+        this.updateInfo({ loudness: null });
+      }
+      return chunk;
+    }
+    if (!this.loudnessNormalizer || this.loudnessNormalizer.channels !== this.channels) {
+      this.loudnessNormalizer = new LoudnessNormalizer(this.channels, this.targetLoudness);
+    }
+    this.loudnessNormalizer.targetLoudness = this.targetLoudness;
+    const samples = this.loudnessNormalizer.process(new Float32Array(chunk.chunk.buffer, chunk.chunk.byteOffset, chunk.chunk.byteLength / Float32Array.BYTES_PER_ELEMENT));
+    if ((chunk.i * OPUS_ENCODER_CHUNK_DURATION) % LOUDNESS_REPORT_INTERVAL === 0 && Number.isFinite(this.loudnessNormalizer.loudness)) {
+      this.updateInfo({ loudness: Math.round(this.loudnessNormalizer.loudness) });
+    }
+    return {
+      i: chunk.i,
+      chunk: Buffer.from(samples.buffer),
+    };
+  }
+
+  private getEncodedStreamBitrate = (stream: MiniPass) => this.encodedConsumersBitrates.get(stream) || 0;
+
+  // consumers with the same bitrate share the same opus encoder
+  private getAudioEncodedStream(bitrate: number) {
+    if (!this.encodedSourceStreams.has(bitrate)) {
+      const encodedSourceStream = createAudioEncodedStream(this.channels, {
+        ..._.omit(this.transport, 'lossless'),
+        ...(bitrate && { bitrate }),
+      });
+      encodedSourceStream.input.on('error', (e) => {
+        this.log('Error while encoding source', e);
+        this.updateInfo({ error: `Cannot encode the source with its transport options: ${e.message}` });
+      });
+      encodedSourceStream.output.on('data', (d) => {
+        this.encodedConsumersStreams
+          .filter((s) => this.getEncodedStreamBitrate(s) === bitrate)
+          .forEach((s) => s.write(d));
+      });
+      this.encodedSourceStreams.set(bitrate, encodedSourceStream);
+    }
+    return this.encodedSourceStreams.get(bitrate);
+  }
+
+  private resetAudioEncodedStreams() {
+    if (this.encodedSourceStreams.size) {
+      this.log('Transport options changed, recreating the opus encoders');
+    }
+    this.encodedSourceStreams.forEach((encodedSourceStream) => encodedSourceStream.input.end());
+    this.encodedSourceStreams.clear();
+    this.encodedSourceStreamsTransport = this.transport;
+  }
+
+  private cleanUnusedAudioEncodedStreams() {
+    const usedBitrates = this.encodedConsumersStreams.map(this.getEncodedStreamBitrate);
+    this.encodedSourceStreams.forEach((encodedSourceStream, bitrate) => {
+      if (!usedBitrates.includes(bitrate)) {
+        encodedSourceStream.input.end();
+        this.encodedSourceStreams.delete(bitrate);
+      }
     });
   }
 
+  // used by the adaptive bitrate of the audio channel of a peer, null to go back to the bitrate of this.transport
+  setEncodedStreamBitrate(stream: MiniPass, bitrate: number | null) {
+    if (bitrate) {
+      this.encodedConsumersBitrates.set(stream, bitrate);
+    } else {
+      this.encodedConsumersBitrates.delete(stream);
+    }
+    this.cleanUnusedAudioEncodedStreams();
+  }
+
   async createAudioStream(encodedForTransport = false): Promise<MiniPass> {
     await this.startReading();
     const instanceStream = new MiniPass();
     instanceStream.on('end', () => {
       if (encodedForTransport) {
         _.remove(this.encodedConsumersStreams, (s) => s === instanceStream);
+        this.encodedConsumersBitrates.delete(instanceStream);
+        this.cleanUnusedAudioEncodedStreams();
       } else {
         _.remove(this.consumersStreams, (s) => s === instanceStream);
       }
@@ -203,6 +309,10 @@ export abstract class AudioSource extends TypedEmitter<AudioSourceEvents> {
     // but can be changed by other sources like remote_source to stop receiving data
   }
 
+  // called by the sinks when a chunk is received after the time it should have been played
+  // can be reimplemented by sources receiving their chunks from another peer to measure the quality of the network
+  handleLateChunk() {}
+
   // can be reimplemented to do more cleaning on source delete
   protected _stop() {}
 
@@ -224,12 +334,29 @@ export abstract class AudioSource extends TypedEmitter<AudioSourceEvents> {
   }
 
   private updateLatencyFromSinks = () => {
-    const pipedSinks = this.manager.sinks.filter((s) => s.pipedFrom === this.uuid);
+    const pipedSinks = this.manager.sinks.filter((s) => s.pipedFrom === this.uuid
+      || _.some(s.mixedFrom, { sourceUuid: this.uuid })
+      || this.isAnnouncementForSink(s.uuid));
     if (!pipedSinks.length) {
       return;
     }
-    const maxLatency = Math.max(...pipedSinks.map(({ latency }) => latency)) + LATENCY_MARGIN;
-    if (maxLatency > this.latency || this.latency - maxLatency > SOURCE_MIN_LATENCY_DIFF_TO_RESYNC) {
+    // the chunks of a mixed source need to be received by the sink before the chunks of the source it is piped from
+    // to be mixed into them, capped to prevent two sources mixed in each other sinks from increasing their latency forever
+    const sourcesMixedInto = pipedSinks
+      .filter((s) => s.pipedFrom !== this.uuid)
+      .map((s) => this.manager.getSourceByUuid(s.pipedFrom))
+      .filter(Boolean);
+    const mixLatency = Math.min(
+      Math.max(0, ...sourcesMixedInto.map(({ latency }) => latency + MIX_LATENCY_MARGIN)),
+      MAX_LATENCY / 2,
+    );
+    // a sink recommends a latency margin for each source it receives from the delay of its chunks, piped or mixed
+    const maxLatency = Math.max(
+      ...pipedSinks.map((s) => s.latency + s.latencyOffset + (s.recommendedLatencyMargins?.[this.uuid] || LATENCY_MARGIN)),
+      mixLatency,
+    );
+    const minLatencyDiffToResync = this.latencyPolicy === 'lowLatency' ? LOW_LATENCY_MIN_LATENCY_DIFF_TO_RESYNC : SOURCE_MIN_LATENCY_DIFF_TO_RESYNC;
+    if (maxLatency > this.latency || this.latency - maxLatency > minLatencyDiffToResync) {
       this.updateInfo({
         latency: maxLatency,
       });
@@ -241,6 +368,13 @@ export abstract class AudioSource extends TypedEmitter<AudioSourceEvents> {
     uuid: this.uuid,
     type: this.type,
     channels: this.channels,
+    channelLayout: getChannelLayout(this.channels),
+    priority: this.priority,
+    announcement: this.announcement,
+    loudnessNormalization: this.loudnessNormalization,
+    targetLoudness: this.targetLoudness,
+    transport: this.transport,
+    latencyPolicy: this.latencyPolicy,
 
     ...(!sanitizeForConfigSave && {
       error: this.error,
@@ -251,6 +385,8 @@ export abstract class AudioSource extends TypedEmitter<AudioSourceEvents> {
       instanceUuid: this.instanceUuid,
       available: this.available,
       active: this.active,
+      loudness: this.loudness,
+      internal: this.internal,
     }),
   })
 }
@@ -0,0 +1,104 @@
+import MiniPass from 'minipass';
+import { AudioSource } from './audio_source';
+import { ClickSourceDescriptor } from './source_type';
+import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
+import { AudioChunkStreamOutput } from '../../utils/audio/chunk_stream';
+import { OPUS_ENCODER_RATE, OPUS_ENCODER_CHUNK_DURATION, OPUS_ENCODER_CHUNK_SAMPLES_COUNT } from '../../utils/constants';
+import { now } from '../../utils/misc';
+import { AudioInstance } from '../utils';
+import { getChannelLayout } from '../../utils/audio/channel_mapping';
+
+export const DEFAULT_CLICK_INTERVAL = 1000;
+const CLICK_FREQUENCY = 2000;
+const CLICK_AMPLITUDE = 0.8;
+
+// a short tone burst is used instead of a single sample impulse as it is better reproduced by most speakers
+const createClickChunk = (channels: number) => {
+  const chunk = new Float32Array(OPUS_ENCODER_CHUNK_SAMPLES_COUNT * channels);
+  for (let sample = 0; sample < OPUS_ENCODER_CHUNK_SAMPLES_COUNT / 2; sample++) {
+    const value = CLICK_AMPLITUDE * Math.sin((2 * Math.PI * CLICK_FREQUENCY * sample) / OPUS_ENCODER_RATE);
+    for (let channel = 0; channel < channels; channel++) {
+      chunk[sample * channels + channel] = value;
+    }
+  }
+  return chunk;
+};
+
+// Like the NullSource, this source doesn't need any external program, it emits a click every clickInterval ms
+// The chunks are generated directly from their index (without going through the resampler of createAudioChunkStream)
+// so that the first sample of every click is played at exactly (startedAt + latency + n * clickInterval)
+export class ClickSource extends AudioSource {
+  type: 'click' = 'click';
+  local = true;
+  rate = OPUS_ENCODER_RATE;
+  channels = 2;
+  clickInterval: number;
+  internal = true;
+
+  private generateInterval: NodeJS.Timeout;
+  private chunkStream: MiniPass<AudioChunkStreamOutput>;
+
+  constructor(descriptor: ClickSourceDescriptor, manager: AudioSourcesSinksManager) {
+    super(descriptor, manager);
+    this.clickInterval = descriptor.clickInterval || DEFAULT_CLICK_INTERVAL;
+  }
+
+  _getAudioChunkStream() {
+    this.chunkStream = new MiniPass<AudioChunkStreamOutput>({ objectMode: true });
+    const clickChunk = createClickChunk(this.channels);
+    const silentChunk = new Float32Array(clickChunk.length);
+    const chunksPerClick = Math.max(1, Math.round(this.clickInterval / OPUS_ENCODER_CHUNK_DURATION));
+    let nextChunkIndex = Math.floor((now() - this.startedAt) / OPUS_ENCODER_CHUNK_DURATION);
+
+    const pushNecessaryChunks = () => {
+      while (nextChunkIndex * OPUS_ENCODER_CHUNK_DURATION <= now() - this.startedAt) {
+        const samples = nextChunkIndex % chunksPerClick === 0 ? clickChunk : silentChunk;
+        const chunk: AudioChunkStreamOutput = {
+          i: nextChunkIndex,
+          chunk: Buffer.from(samples.slice().buffer),
+        };
+        this.chunkStream.write(chunk);
+        nextChunkIndex++;
+      }
+    };
+    this.generateInterval = setInterval(pushNecessaryChunks, OPUS_ENCODER_CHUNK_DURATION);
+    return this.chunkStream;
+  }
+
+  _stop = () => {
+    clearInterval(this.generateInterval);
+    delete this.generateInterval;
+    if (this.chunkStream) {
+      this.chunkStream.end();
+    }
+    delete this.chunkStream;
+  }
+
+  toDescriptor = (sanitizeForConfigSave = false): AudioInstance<ClickSourceDescriptor> => ({
+    type: 'click',
+    name: this.name,
+    uuid: this.uuid,
+    clickInterval: this.clickInterval,
+    channels: this.channels,
+    channelLayout: getChannelLayout(this.channels),
+    priority: this.priority,
+    announcement: this.announcement,
+    loudnessNormalization: this.loudnessNormalization,
+    targetLoudness: this.targetLoudness,
+    transport: this.transport,
+    latencyPolicy: this.latencyPolicy,
+
+    ...(!sanitizeForConfigSave && {
+      error: this.error,
+      peerUuid: this.peerUuid,
+      instanceUuid: this.instanceUuid,
+      latency: this.latency,
+      startedAt: this.startedAt,
+      available: true,
+      active: this.active,
+      loudness: this.loudness,
+      started: this.started,
+      internal: this.internal,
+    }),
+  })
+}
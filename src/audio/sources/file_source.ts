@@ -0,0 +1,205 @@
+import _ from 'lodash';
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import { PassThrough } from 'stream';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AudioSource } from './audio_source';
+import { FileSourceDescriptor } from './source_type';
+import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
+import { createAudioChunkStream } from '../../utils/audio/chunk_stream';
+import { spawnFfmpegDecoder } from '../../utils/audio/ffmpeg';
+import { OPUS_ENCODER_RATE } from '../../utils/constants';
+import { AudioInstance } from '../utils';
+import { getChannelLayout } from '../../utils/audio/channel_mapping';
+
+// when the path is a directory, only files with these extensions are added to the playlist
+const SUPPORTED_EXTENSIONS = ['.wav', '.flac', '.mp3', '.ogg', '.oga', '.opus', '.m4a', '.aac'];
+
+export class FileSource extends AudioSource {
+  local = true;
+  rate = OPUS_ENCODER_RATE;
+  channels = 2;
+
+  fileOptions: FileSourceDescriptor['fileOptions'];
+  playing: boolean;
+  trackIndex: number;
+  tracks: string[] = [];
+
+  // the decoded audio of every track is written to this stream, it stays open between tracks and while paused
+  private outputStream: PassThrough;
+  private decoderProcess: ChildProcessWithoutNullStreams;
+  private failedTracksInARow = 0;
+
+  constructor(descriptor: FileSourceDescriptor, manager: AudioSourcesSinksManager) {
+    super(descriptor, manager);
+    this.fileOptions = _.clone(descriptor.fileOptions);
+    this.playing = descriptor.playing ?? true;
+    this.trackIndex = descriptor.trackIndex || 0;
+  }
+
+  async _getAudioChunkStream() {
+    await this.loadPlaylist();
+    this.outputStream = new PassThrough();
+    this.startTrack();
+    return createAudioChunkStream(this.startedAt, this.outputStream, this.rate, this.channels);
+  }
+
+  // playing, trackIndex, seek and fileOptions are handled here instead of in updateInfo
+  // because we only want to react to changes asked by a user, not to the changes made by the source itself
+  patch(descriptor: Partial<FileSourceDescriptor>) {
+    const previousFileOptions = this.fileOptions;
+    const previousTrackIndex = this.trackIndex;
+    const previousPlaying = this.playing;
+    this.updateInfo(_.omit(descriptor, 'seek'));
+    if (!this.outputStream) {
+      // source is not started yet, new info will be used when it starts
+      return;
+    }
+    if (!_.isEqual(previousFileOptions, this.fileOptions)) {
+      this.loadPlaylist()
+        .then(() => this.startTrack())
+        .catch((e) => this.updateInfo({ error: e.toString(), playing: false }));
+    } else if (previousTrackIndex !== this.trackIndex || descriptor.seek !== undefined) {
+      this.startTrack(descriptor.seek);
+    } else if (previousPlaying !== this.playing) {
+      if (!this.decoderProcess) {
+        this.startTrack();
+      } else if (this.playing) {
+        this.decoderProcess.stdout.pipe(this.outputStream, { end: false });
+      } else {
+        this.decoderProcess.stdout.unpipe(this.outputStream);
+        this.decoderProcess.stdout.pause();
+      }
+    }
+  }
+
+  private loadPlaylist = async () => {
+    const stat = await fs.stat(this.fileOptions.path);
+    let tracks = [this.fileOptions.path];
+    if (stat.isDirectory()) {
+      tracks = (await fs.readdir(this.fileOptions.path))
+        .filter((filename) => SUPPORTED_EXTENSIONS.includes(path.extname(filename).toLowerCase()))
+        .sort()
+        .map((filename) => path.join(this.fileOptions.path, filename));
+    }
+    if (!tracks.length) {
+      throw new Error(`No audio file found in ${this.fileOptions.path}`);
+    }
+    this.failedTracksInARow = 0;
+    this.updateInfo({
+      tracks: this.fileOptions.shuffle ? _.shuffle(tracks) : tracks,
+      trackIndex: this.trackIndex < tracks.length ? this.trackIndex : 0,
+    });
+  }
+
+  private stopDecoder = () => {
+    if (!this.decoderProcess) {
+      return;
+    }
+    const { decoderProcess } = this;
+    delete this.decoderProcess;
+    decoderProcess.stdout.unpipe(this.outputStream);
+    decoderProcess.kill();
+    // drop what is left of the previous track to start playing the new one right away
+    while (this.outputStream.read() !== null);
+  }
+
+  private startTrack = (seek = 0) => {
+    this.stopDecoder();
+    const trackIndex = _.clamp(this.trackIndex, 0, this.tracks.length - 1);
+    const trackPath = this.tracks[trackIndex];
+    this.log(`Starting track ${trackPath}`);
+    let decoderProcess: ChildProcessWithoutNullStreams;
+    try {
+      decoderProcess = spawnFfmpegDecoder(trackPath, {
+        rate: this.rate,
+        channels: this.channels,
+        seek,
+        log: this.log.extend('ffmpeg'),
+      });
+    } catch (e) {
+      this.updateInfo({ error: e.toString(), playing: false });
+      return;
+    }
+    this.decoderProcess = decoderProcess;
+    this.updateInfo({ trackIndex, error: null });
+    if (this.playing) {
+      decoderProcess.stdout.pipe(this.outputStream, { end: false });
+    } else {
+      decoderProcess.stdout.pause();
+    }
+    decoderProcess.on('close', (code) => {
+      if (this.decoderProcess !== decoderProcess) {
+        // killed to play another track or because the source is stopped
+        return;
+      }
+      delete this.decoderProcess;
+      if (code) {
+        this.log(`Error while decoding ${trackPath}, ffmpeg exited with code ${code}`);
+        this.failedTracksInARow++;
+      } else {
+        this.failedTracksInARow = 0;
+      }
+      if (this.failedTracksInARow >= this.tracks.length) {
+        // prevents looping forever on a playlist without any playable file
+        this.updateInfo({ error: `Cannot decode ${trackPath}`, playing: false });
+        return;
+      }
+      this.handleTrackEnd();
+    });
+  }
+
+  private handleTrackEnd = () => {
+    if (this.trackIndex < this.tracks.length - 1) {
+      this.updateInfo({ trackIndex: this.trackIndex + 1 });
+    } else if (this.fileOptions.loop) {
+      this.updateInfo({
+        tracks: this.fileOptions.shuffle ? _.shuffle(this.tracks) : this.tracks,
+        trackIndex: 0,
+      });
+    } else {
+      // end of the playlist, next play will restart from the first track
+      this.updateInfo({ trackIndex: 0, playing: false });
+      return;
+    }
+    this.startTrack();
+  }
+
+  _stop = () => {
+    this.stopDecoder();
+    if (this.outputStream) {
+      this.outputStream.end();
+    }
+    delete this.outputStream;
+  }
+
+  toDescriptor = (sanitizeForConfigSave = false): AudioInstance<FileSourceDescriptor> => ({
+    type: 'file',
+    name: this.name,
+    uuid: this.uuid,
+    fileOptions: this.fileOptions,
+    instanceUuid: this.instanceUuid,
+    channels: this.channels,
+    channelLayout: getChannelLayout(this.channels),
+    priority: this.priority,
+    announcement: this.announcement,
+    loudnessNormalization: this.loudnessNormalization,
+    targetLoudness: this.targetLoudness,
+    transport: this.transport,
+    latencyPolicy: this.latencyPolicy,
+
+    ...(!sanitizeForConfigSave && {
+      error: this.error,
+      peerUuid: this.peerUuid,
+      latency: this.latency,
+      startedAt: this.startedAt,
+      available: true,
+      active: this.active,
+      loudness: this.loudness,
+      started: this.started,
+      playing: this.playing,
+      trackIndex: this.trackIndex,
+      tracks: this.tracks,
+    }),
+  })
+}
@@ -0,0 +1,259 @@
+import _ from 'lodash';
+import http from 'http';
+import https from 'https';
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import { PassThrough } from 'stream';
+import { AudioSource } from './audio_source';
+import { HttpStreamSourceDescriptor } from './source_type';
+import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
+import { createAudioChunkStream } from '../../utils/audio/chunk_stream';
+import { spawnFfmpegDecoder } from '../../utils/audio/ffmpeg';
+import { IcyMetadataStream } from '../../utils/network/icy_metadata';
+import { OPUS_ENCODER_RATE, APP_NAME } from '../../utils/constants';
+import { now } from '../../utils/misc';
+import { AudioInstance } from '../utils';
+import { getChannelLayout } from '../../utils/audio/channel_mapping';
+
+const DEFAULT_BUFFER_DURATION = 2000;
+const RECONNECT_DELAY = 5000;
+const MAX_REDIRECTS = 5;
+
+// the url comes from the descriptor or from the Location header of the radio server, it can be invalid or use any protocol
+const getHttpClient = (url: string) => {
+  const { protocol } = new URL(url);
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${protocol}`);
+  }
+  return protocol === 'https:' ? https : http;
+};
+
+export class HttpStreamSource extends AudioSource {
+  local = true;
+  rate = OPUS_ENCODER_RATE;
+  channels = 2;
+
+  httpStreamOptions: HttpStreamSourceDescriptor['httpStreamOptions'];
+  streamTitle: string;
+
+  // the decoded audio is written to this stream, it stays open when reconnecting to the server
+  private outputStream: PassThrough;
+  private request: http.ClientRequest;
+  private decoderProcess: ChildProcessWithoutNullStreams;
+  private reconnectTimeout: NodeJS.Timeout;
+  private bufferSize: number;
+  private onBufferFilled: () => void; // only set while buffering before starting the source
+
+  constructor(descriptor: HttpStreamSourceDescriptor, manager: AudioSourcesSinksManager) {
+    super(descriptor, manager);
+    this.httpStreamOptions = _.clone(descriptor.httpStreamOptions);
+    this.streamTitle = descriptor.streamTitle;
+  }
+
+  async _getAudioChunkStream() {
+    const bufferDuration = this.httpStreamOptions.bufferDuration ?? DEFAULT_BUFFER_DURATION;
+    this.bufferSize = (bufferDuration / 1000) * this.rate * this.channels * Uint16Array.BYTES_PER_ELEMENT;
+    this.outputStream = new PassThrough({ highWaterMark: this.bufferSize * 2 });
+    this.connect();
+
+    // the chunks index are computed from startedAt so we wait for the buffer to be filled before setting it
+    // else the first chunks would be emitted late and discarded by the sinks
+    await new Promise((resolve) => {
+      this.onBufferFilled = resolve;
+    });
+    delete this.onBufferFilled;
+    if (!this.outputStream) {
+      throw new Error('Source stopped before the stream could be buffered');
+    }
+    this.log(`Buffered ${Math.round((this.outputStream.readableLength / this.bufferSize) * bufferDuration)}ms of audio, starting source`);
+    this.updateInfo({ startedAt: Math.floor(now()) });
+    return createAudioChunkStream(this.startedAt, this.outputStream, this.rate, this.channels);
+  }
+
+  private connect = (url = this.httpStreamOptions.url, redirectCount = 0) => {
+    this.log(`Connecting to ${url}`);
+    let request: http.ClientRequest;
+    try {
+      request = getHttpClient(url).get(url, {
+        headers: {
+          'Icy-MetaData': '1',
+          'User-Agent': APP_NAME,
+        },
+      }, (res) => this.handleResponse(request, res, url, redirectCount));
+    } catch (e) {
+      this.handleDisconnect(`Cannot connect to ${url}: ${e.message}`);
+      return;
+    }
+    request.on('error', (e) => {
+      if (this.request === request) {
+        this.handleDisconnect(`Error while connecting to radio server: ${e.message}`);
+      }
+    });
+    this.request = request;
+  }
+
+  private handleResponse = (request: http.ClientRequest, res: http.IncomingMessage, url: string, redirectCount: number) => {
+    if (this.request !== request) {
+      res.resume();
+      return;
+    }
+    if (res.statusCode >= 300 && res.statusCode < 400 && res.headers.location && redirectCount < MAX_REDIRECTS) {
+      res.resume();
+      let redirectUrl: string;
+      try {
+        redirectUrl = new URL(res.headers.location, url).toString();
+      } catch (e) {
+        this.handleDisconnect(`Radio server redirected to an invalid url: ${res.headers.location}`);
+        return;
+      }
+      this.connect(redirectUrl, redirectCount + 1);
+      return;
+    }
+    if (res.statusCode !== 200) {
+      res.resume();
+      this.handleDisconnect(`Radio server responded with HTTP status ${res.statusCode}`);
+      return;
+    }
+    if (this.error) {
+      this.updateInfo({ error: null });
+    }
+    let audioStream: NodeJS.ReadableStream = res;
+    const metaint = Number(res.headers['icy-metaint']);
+    if (metaint) {
+      const icyMetadataStream = new IcyMetadataStream(metaint);
+      icyMetadataStream.on('metadata', ({ StreamTitle }) => {
+        if (StreamTitle !== undefined) {
+          this.updateInfo({ streamTitle: StreamTitle });
+        }
+      });
+      audioStream = res.pipe(icyMetadataStream);
+    }
+    this.startDecoder(audioStream);
+  }
+
+  private startDecoder = (audioStream: NodeJS.ReadableStream) => {
+    const { format, rate, channels } = this.httpStreamOptions;
+    let decoderProcess: ChildProcessWithoutNullStreams;
+    try {
+      decoderProcess = spawnFfmpegDecoder(audioStream, {
+        rate: this.rate,
+        channels: this.channels,
+        inputFormat: format,
+        inputRate: rate,
+        inputChannels: channels,
+        log: this.log.extend('ffmpeg'),
+      });
+    } catch (e) {
+      this.handleDisconnect(e.toString());
+      return;
+    }
+    const { outputStream } = this;
+    this.decoderProcess = decoderProcess;
+
+    // the audio of each connection is buffered before being written to outputStream, when starting the source
+    // and after a reconnection, else the chunk stream would start reading it as soon as the first bytes are decoded
+    // and run out of data right away, the buffer is written when it is full or when the stream ends before
+    const bufferedChunks: Buffer[] = [];
+    let bufferedLength = 0;
+    let isBuffering = true;
+    const flushBuffer = () => {
+      isBuffering = false;
+      bufferedChunks.splice(0).forEach((chunk) => outputStream.write(chunk));
+      decoderProcess.stdout.pipe(outputStream, { end: false });
+      if (this.onBufferFilled) {
+        this.onBufferFilled();
+      }
+    };
+    decoderProcess.stdout.on('data', (chunk: Buffer) => {
+      if (!isBuffering || this.decoderProcess !== decoderProcess) {
+        return;
+      }
+      bufferedChunks.push(chunk);
+      bufferedLength += chunk.length;
+      if (bufferedLength >= this.bufferSize) {
+        flushBuffer();
+      }
+    });
+    decoderProcess.on('close', (code) => {
+      if (this.decoderProcess !== decoderProcess) {
+        return;
+      }
+      if (isBuffering && bufferedLength) {
+        // the stream ended before the buffer was full, what was received is still played
+        flushBuffer();
+      }
+      this.handleDisconnect(code ? `Cannot decode radio stream, ffmpeg exited with code ${code}` : null);
+    });
+  }
+
+  private closeConnection = () => {
+    if (this.request) {
+      const { request } = this;
+      delete this.request;
+      request.destroy();
+    }
+    if (this.decoderProcess) {
+      const { decoderProcess } = this;
+      delete this.decoderProcess;
+      decoderProcess.stdout.unpipe(this.outputStream);
+      decoderProcess.kill();
+    }
+  }
+
+  // called when the stream ends or on error, the connection is retried until the source is deleted
+  private handleDisconnect = (error?: string) => {
+    if (this.reconnectTimeout || !this.outputStream) {
+      return;
+    }
+    this.log(`Disconnected from radio server${error ? ` (${error})` : ''}, reconnecting in ${RECONNECT_DELAY}ms`);
+    this.closeConnection();
+    if (error) {
+      this.updateInfo({ error });
+    }
+    this.reconnectTimeout = setTimeout(() => {
+      delete this.reconnectTimeout;
+      this.connect();
+    }, RECONNECT_DELAY);
+  }
+
+  _stop = () => {
+    clearTimeout(this.reconnectTimeout);
+    delete this.reconnectTimeout;
+    this.closeConnection();
+    if (this.outputStream) {
+      const { outputStream } = this;
+      delete this.outputStream;
+      outputStream.end();
+    }
+    if (this.onBufferFilled) {
+      this.onBufferFilled();
+    }
+  }
+
+  toDescriptor = (sanitizeForConfigSave = false): AudioInstance<HttpStreamSourceDescriptor> => ({
+    type: 'httpstream',
+    name: this.name,
+    uuid: this.uuid,
+    httpStreamOptions: this.httpStreamOptions,
+    instanceUuid: this.instanceUuid,
+    channels: this.channels,
+    channelLayout: getChannelLayout(this.channels),
+    priority: this.priority,
+    announcement: this.announcement,
+    loudnessNormalization: this.loudnessNormalization,
+    targetLoudness: this.targetLoudness,
+    transport: this.transport,
+    latencyPolicy: this.latencyPolicy,
+
+    ...(!sanitizeForConfigSave && {
+      error: this.error,
+      peerUuid: this.peerUuid,
+      latency: this.latency,
+      startedAt: this.startedAt,
+      available: true,
+      active: this.active,
+      loudness: this.loudness,
+      started: this.started,
+      streamTitle: this.streamTitle,
+    }),
+  })
+}
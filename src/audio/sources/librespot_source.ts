@@ -7,6 +7,7 @@ import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
 import { createAudioChunkStream } from '../../utils/audio/chunk_stream';
 import { ensureDep } from '../../utils/environment/deps_downloader';
 import { AudioInstance } from '../utils';
+import { getChannelLayout } from '../../utils/audio/channel_mapping';
 
 export class LibrespotSource extends AudioSource {
   local = true;
@@ -75,6 +76,13 @@ export class LibrespotSource extends AudioSource {
     librespotOptions: this.options,
     instanceUuid: this.instanceUuid,
     channels: this.channels,
+    channelLayout: getChannelLayout(this.channels),
+    priority: this.priority,
+    announcement: this.announcement,
+    loudnessNormalization: this.loudnessNormalization,
+    targetLoudness: this.targetLoudness,
+    transport: this.transport,
+    latencyPolicy: this.latencyPolicy,
 
     ...(!sanitizeForConfigSave && {
       error: this.error,
@@ -83,6 +91,7 @@ export class LibrespotSource extends AudioSource {
       startedAt: this.startedAt,
       available: true, // TODO: check if librespot process is still running to get availability state
       active: this.active,
+      loudness: this.loudness,
       started: this.started,
     }),
   })
@@ -12,6 +12,7 @@ import { LocalDeviceSourceDescriptor } from './source_type';
 import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
 import { createAudioChunkStream } from '../../utils/audio/chunk_stream';
 import { AudioInstance } from '../utils';
+import { getChannelLayout } from '../../utils/audio/channel_mapping';
 
 export class LocalDeviceSource extends AudioSource {
   type: 'localdevice' = 'localdevice';
@@ -69,6 +70,13 @@ export class LocalDeviceSource extends AudioSource {
     uuid: this.uuid,
     deviceId: this.deviceId,
     channels: this.channels,
+    channelLayout: getChannelLayout(this.channels),
+    priority: this.priority,
+    announcement: this.announcement,
+    loudnessNormalization: this.loudnessNormalization,
+    targetLoudness: this.targetLoudness,
+    transport: this.transport,
+    latencyPolicy: this.latencyPolicy,
 
     ...(!sanitizeForConfigSave && {
       error: this.error,
@@ -78,6 +86,7 @@ export class LocalDeviceSource extends AudioSource {
       startedAt: this.startedAt,
       available: this.available,
       active: this.active,
+      loudness: this.loudness,
       started: this.started,
     }),
   })
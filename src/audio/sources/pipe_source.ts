@@ -0,0 +1,152 @@
+import _ from 'lodash';
+import fs from 'fs';
+import net from 'net';
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { PassThrough, Transform } from 'stream';
+import { AudioSource } from './audio_source';
+import { PipeSourceDescriptor } from './source_type';
+import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
+import { createAudioChunkStream } from '../../utils/audio/chunk_stream';
+import { PcmConverterStream } from '../../utils/audio/pcm_converter';
+import { OPUS_ENCODER_RATE } from '../../utils/constants';
+import { AudioInstance } from '../utils';
+import { getChannelLayout, MAX_CHANNELS } from '../../utils/audio/channel_mapping';
+
+// a lot of players keep writing silence to their output when paused, after this duration of silence we stop
+// forwarding the audio so that the source is marked as inactive like if nothing was written
+const SILENCE_DURATION_BEFORE_DROP = 2000;
+
+export class PipeSource extends AudioSource {
+  local = true;
+  channels = 2;
+
+  pipeOptions: PipeSourceDescriptor['pipeOptions'];
+  pipeProcess: ChildProcessWithoutNullStreams;
+
+  private pipeStream: net.Socket;
+
+  constructor(descriptor: PipeSourceDescriptor, manager: AudioSourcesSinksManager) {
+    super(descriptor, manager);
+    this.pipeOptions = _.clone(descriptor.pipeOptions);
+    this.rate = this.pipeOptions.rate || OPUS_ENCODER_RATE;
+    // multichannel audio is kept as is (up to 7.1) but mono is converted to stereo
+    this.channels = Math.min(Math.max(this.pipeOptions.channels || 2, 2), MAX_CHANNELS);
+    this.startReading(); // start right away to consume the pipe even when there is no sink connected and not block the writer
+  }
+
+  // the pipe options are only read from the descriptor given on creation, as the command is run in a shell
+  // they cannot be changed by a patch or a sound state sent by another peer
+  updateInfo(descriptor: Partial<AudioInstance<PipeSourceDescriptor>>) {
+    super.updateInfo(_.omit(descriptor, 'pipeOptions'));
+  }
+
+  async _getAudioChunkStream() {
+    const inputStream = this.pipeOptions.command ? this.startCommand() : this.openPipe();
+    const format = this.pipeOptions.format || 's16le';
+    const channels = this.pipeOptions.channels || 2;
+    const outputStream = new PassThrough();
+    if (format !== 's16le' || channels !== this.channels) {
+      inputStream.pipe(new PcmConverterStream(format, channels, this.channels)).pipe(this.createSilenceFilter()).pipe(outputStream);
+    } else {
+      inputStream.pipe(this.createSilenceFilter()).pipe(outputStream);
+    }
+    return createAudioChunkStream(this.startedAt, outputStream, this.rate, this.channels);
+  }
+
+  private openPipe = () => {
+    if (!this.pipeOptions.path) {
+      throw new Error('A path or a command is required');
+    }
+    if (!fs.statSync(this.pipeOptions.path).isFIFO()) {
+      throw new Error(`${this.pipeOptions.path} is not a named pipe, create it with mkfifo`);
+    }
+    this.log(`Opening pipe ${this.pipeOptions.path}`);
+    // opening the pipe in read/write mode prevents it from being closed when the writer exits (and so emitting a EOF)
+    // and the non-blocking mode prevents reads from blocking the libuv threadpool while nothing is written
+    const fd = fs.openSync(this.pipeOptions.path, fs.constants.O_RDWR | fs.constants.O_NONBLOCK); // eslint-disable-line no-bitwise
+    this.pipeStream = new net.Socket({ fd, readable: true, writable: false });
+    this.pipeStream.on('error', (e) => {
+      this.log('Error while reading from pipe', e);
+      this.updateInfo({ error: e.toString() });
+    });
+    return this.pipeStream;
+  }
+
+  private startCommand = () => {
+    this.log(`Starting command: ${this.pipeOptions.command}`);
+    this.pipeProcess = spawn(this.pipeOptions.command, { shell: true });
+    if (this.pipeProcess.pid === undefined) {
+      throw new Error('Unknown error while starting command');
+    }
+    this.pipeProcess.on('error', (e) => {
+      this.log('Error while starting command', e);
+      this.updateInfo({
+        error: e.toString(),
+      });
+    });
+    const commandLog = this.log.extend('command');
+    this.pipeProcess.stderr.on('data', (d) => commandLog(d.toString()));
+    this.pipeProcess.on('exit', (code) => {
+      this.log('Command exited with code:', code);
+      if (code) {
+        this.updateInfo({
+          error: `Command exited with error code ${code}`,
+        });
+      }
+    });
+    return this.pipeProcess.stdout;
+  }
+
+  private createSilenceFilter = () => {
+    const maxSilentBytes = (SILENCE_DURATION_BEFORE_DROP / 1000) * this.rate * this.channels * Int16Array.BYTES_PER_ELEMENT;
+    let silentBytes = 0;
+    return new Transform({
+      transform: (chunk: Buffer, encoding, callback) => {
+        if (chunk.some((byte) => byte !== 0)) {
+          silentBytes = 0;
+        } else {
+          silentBytes += chunk.length;
+        }
+        callback(null, silentBytes > maxSilentBytes ? undefined : chunk);
+      },
+    });
+  }
+
+  _stop = () => {
+    if (this.pipeProcess) {
+      this.pipeProcess.kill();
+    }
+    delete this.pipeProcess;
+    if (this.pipeStream) {
+      this.pipeStream.destroy();
+    }
+    delete this.pipeStream;
+  }
+
+  toDescriptor = (sanitizeForConfigSave = false): AudioInstance<PipeSourceDescriptor> => ({
+    type: 'pipe',
+    name: this.name,
+    uuid: this.uuid,
+    pipeOptions: this.pipeOptions,
+    instanceUuid: this.instanceUuid,
+    channels: this.channels,
+    channelLayout: getChannelLayout(this.channels),
+    priority: this.priority,
+    announcement: this.announcement,
+    loudnessNormalization: this.loudnessNormalization,
+    targetLoudness: this.targetLoudness,
+    transport: this.transport,
+    latencyPolicy: this.latencyPolicy,
+
+    ...(!sanitizeForConfigSave && {
+      error: this.error,
+      peerUuid: this.peerUuid,
+      latency: this.latency,
+      startedAt: this.startedAt,
+      available: true,
+      active: this.active,
+      loudness: this.loudness,
+      started: this.started,
+    }),
+  })
+}
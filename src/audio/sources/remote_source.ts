@@ -1,15 +1,30 @@
+import _ from 'lodash';
+import MiniPass from 'minipass';
 import { AudioSource } from './audio_source';
 import { SourceDescriptor } from './source_type';
 import { WebrtcPeer } from '../../communication/wrtc_peer';
 import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
-import { createAudioDecodedStream } from '../../utils/audio/chunk_stream';
+import {
+  createAudioDecodedStream, createAudioPcmDecodedStream, AudioChunkStreamOrderer, encodeRetransmitRequest,
+} from '../../utils/audio/chunk_stream';
+import { TransportFeedback } from '../../utils/audio/adaptive_bitrate';
+import { LATENCY_MARGIN, OPUS_ENCODER_CHUNK_DURATION, MAX_RETRANSMIT_WAIT } from '../../utils/constants';
+
+const TRANSPORT_FEEDBACK_INTERVAL = 2000;
+// the stats shown to the user are sent to every peer with the sound state, they are measured on a longer period than the feedback
+const TRANSPORT_STATS_REPORT_INTERVAL = 10000;
+const MIN_UNORDERED_CHUNKS = 10;
 
 export class RemoteSource extends AudioSource {
   local: false = false;
+  private lateChunksCount = 0;
+  private transportFeedbackInterval: NodeJS.Timeout;
 
   constructor(descriptor: SourceDescriptor, manager: AudioSourcesSinksManager) {
     super(descriptor, manager);
     this.channels = descriptor.channels;
+    // keeps the info specific to the source type (like the playback state of a file source) to expose them to the webui
+    _.defaults(this, descriptor);
   }
 
   patch(descriptor: Partial<SourceDescriptor>) {
@@ -19,8 +34,7 @@ export class RemoteSource extends AudioSource {
         source: {
           uuid: this.uuid,
           instanceUuid: this.instanceUuid,
-          name: descriptor.name || this.name,
-          latency: descriptor.latency || this.latency,
+          ...descriptor,
         },
       });
     }
@@ -34,13 +48,97 @@ export class RemoteSource extends AudioSource {
       // this should never happens as a remote source should have a webrtc peer
       throw new Error('Peer of remote source is not a WebRTC Peer, this should never happen');
     }
-    const stream = await this.peer.createAudioSourceChannel(this.uuid);
-    const decodedStream = createAudioDecodedStream(this.channels);
+    const retransmit = !!this.transport?.retransmit;
+    const { stream, codec } = await this.peer.createAudioSourceChannel(this.uuid, !!this.transport?.lossless, retransmit);
+    const handleMissingChunks = retransmit ? (chunkIndexes: number[]) => stream.write(encodeRetransmitRequest(chunkIndexes)) : undefined;
+    const decodedStream = codec === 'pcm'
+      ? createAudioPcmDecodedStream(this.channels, handleMissingChunks)
+      : createAudioDecodedStream(this.channels, handleMissingChunks);
     stream.pipe(decodedStream.input);
-    this.log(`Created audio channel with source peer`);
+    this.startTransportFeedback(stream, decodedStream.orderer);
+    if (retransmit) {
+      this.waitForRetransmittedChunks(stream, decodedStream.orderer);
+    }
+    this.log(`Created audio channel with source peer, using codec ${codec}${retransmit ? ' and retransmission' : ''}`);
     return decodedStream.output;
   }
 
+  // the chunks following a lost one are held back until it is received again, this can be done as long as
+  // they still reach the sinks before being played, so a source with a higher latency can recover from longer losses
+  private waitForRetransmittedChunks(stream: MiniPass, orderer: AudioChunkStreamOrderer) {
+    const updateMaxUnorderedChunks = () => {
+      const maxWait = Math.min(MAX_RETRANSMIT_WAIT, (this.latency - LATENCY_MARGIN) / 2);
+      orderer.maxUnorderedChunks = Math.max(MIN_UNORDERED_CHUNKS, Math.floor(maxWait / OPUS_ENCODER_CHUNK_DURATION));
+    };
+    updateMaxUnorderedChunks();
+    this.on('update', updateMaxUnorderedChunks);
+    stream.on('end', () => {
+      this.off('update', updateMaxUnorderedChunks);
+    });
+  }
+
+  // the loss is regularly sent to the peer of the source to adapt the bitrate of the channel to the network
+  // and exposed with the received bitrate on the local sinks playing this source
+  private startTransportFeedback(stream: MiniPass, orderer: AudioChunkStreamOrderer) {
+    let receivedBytes = 0;
+    let lastReceivedChunksCount = 0;
+    let lastMissedChunksCount = 0;
+    const stats = { chunksCount: 0, lostChunksCount: 0, feedbacksCount: 0 };
+    this.lateChunksCount = 0;
+    stream.on('data', (d: Buffer) => {
+      receivedBytes += d.length;
+    });
+    clearInterval(this.transportFeedbackInterval);
+    const transportFeedbackInterval = setInterval(() => {
+      const receivedChunksCount = orderer.receivedChunksCount - lastReceivedChunksCount;
+      const missedChunksCount = orderer.missedChunksCount - lastMissedChunksCount;
+      const chunksCount = receivedChunksCount + missedChunksCount;
+      lastReceivedChunksCount = orderer.receivedChunksCount;
+      lastMissedChunksCount = orderer.missedChunksCount;
+      if (chunksCount === 0) {
+        // the source is not sending anything, there is nothing to measure
+        this.lateChunksCount = 0;
+        return;
+      }
+      const feedback: TransportFeedback = {
+        loss: missedChunksCount / chunksCount,
+        // the same chunk can be late for multiple sinks
+        late: Math.min(1, this.lateChunksCount / chunksCount),
+      };
+      this.lateChunksCount = 0;
+      if (this.peer) {
+        this.peer.sendControllerMessage({
+          type: 'sourceTransportFeedback',
+          sourceUuid: this.uuid,
+          feedback,
+        });
+      }
+      stats.chunksCount += chunksCount;
+      stats.lostChunksCount += Math.min(chunksCount, missedChunksCount + feedback.late * chunksCount);
+      stats.feedbacksCount++;
+      if (stats.feedbacksCount * TRANSPORT_FEEDBACK_INTERVAL < TRANSPORT_STATS_REPORT_INTERVAL) {
+        return;
+      }
+      const transportStats = {
+        bitrate: Math.round((receivedBytes * 8 * 1000) / (stats.feedbacksCount * TRANSPORT_FEEDBACK_INTERVAL)),
+        loss: _.round(stats.lostChunksCount / stats.chunksCount, 3),
+      };
+      receivedBytes = 0;
+      Object.assign(stats, { chunksCount: 0, lostChunksCount: 0, feedbacksCount: 0 });
+      this.manager.sinks
+        .filter((sink) => sink.local && sink.pipedFrom === this.uuid)
+        .forEach((sink) => sink.updateInfo({ transportStats }));
+    }, TRANSPORT_FEEDBACK_INTERVAL);
+    this.transportFeedbackInterval = transportFeedbackInterval;
+    stream.on('end', () => {
+      clearInterval(transportFeedbackInterval);
+    });
+  }
+
+  handleLateChunk() {
+    this.lateChunksCount++;
+  }
+
   handleNoMoreReadingSink = () => {
     const peer = this.peer;
     if (peer) {
@@ -0,0 +1,211 @@
+import _ from 'lodash';
+import fs from 'fs';
+import dgram from 'dgram';
+import { PassThrough } from 'stream';
+import { AudioSource } from './audio_source';
+import { RtpSourceDescriptor } from './source_type';
+import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
+import { createAudioChunkStream } from '../../utils/audio/chunk_stream';
+import { PcmConverterStream } from '../../utils/audio/pcm_converter';
+import { OpusDecoder } from '../../utils/audio/opus';
+import {
+  isMulticastAddress, parseRtpPacket, parseSdp, rtpPcmToFloat, RtpPacket, RtpPacketOrderer, RtpPayloadFormat, RTP_TIMESTAMP_MODULO,
+} from '../../utils/network/rtp';
+import { OPUS_ENCODER_RATE } from '../../utils/constants';
+import { now } from '../../utils/misc';
+import { AudioInstance } from '../utils';
+import { getChannelLayout } from '../../utils/audio/channel_mapping';
+
+const DEFAULT_PORT = 5004;
+const DEFAULT_JITTER_BUFFER_DURATION = 100;
+const MAX_OPUS_FRAME_DURATION = 120;
+const MAX_GAP_FILL_DURATION = 1000; // lost packets are replaced by silence unless the gap is longer than this, in which case the sender was probably paused
+// the sender clock can be a little faster than ours, if more than this many jitter buffers are waiting to be read, new packets are dropped
+const MAX_BUFFERED_JITTER_BUFFERS = 3;
+
+interface RtpStreamOptions {
+  port: number;
+  address?: string;
+  payload: RtpPayloadFormat;
+  rate: number;
+  channels: number;
+}
+
+export class RtpSource extends AudioSource {
+  local = true;
+  rate = OPUS_ENCODER_RATE;
+  channels = 2;
+
+  rtpOptions: RtpSourceDescriptor['rtpOptions'];
+
+  private socket: dgram.Socket;
+  private outputStream: PassThrough;
+  private pcmConverter: PcmConverterStream;
+  private opusDecoder: OpusDecoder;
+  private streamOptions: RtpStreamOptions;
+  private bufferSize: number;
+  private nextTimestamp = -1; // RTP timestamp expected for the next packet, used to detect lost packets
+  private onBufferFilled: () => void; // only set while buffering before starting the source
+
+  constructor(descriptor: RtpSourceDescriptor, manager: AudioSourcesSinksManager) {
+    super(descriptor, manager);
+    this.rtpOptions = _.clone(descriptor.rtpOptions) || {};
+  }
+
+  async _getAudioChunkStream() {
+    this.streamOptions = await this.getStreamOptions();
+    const { port, address, payload } = this.streamOptions;
+    this.rate = payload === 'opus' ? OPUS_ENCODER_RATE : this.streamOptions.rate;
+    if (payload === 'opus') {
+      this.opusDecoder = new OpusDecoder(OPUS_ENCODER_RATE, this.streamOptions.channels, MAX_OPUS_FRAME_DURATION);
+      await this.opusDecoder.setup();
+    }
+
+    const jitterBufferDuration = this.rtpOptions.jitterBufferDuration ?? DEFAULT_JITTER_BUFFER_DURATION;
+    this.bufferSize = (jitterBufferDuration / 1000) * this.rate * this.channels * Int16Array.BYTES_PER_ELEMENT;
+    this.outputStream = new PassThrough({ highWaterMark: this.bufferSize * MAX_BUFFERED_JITTER_BUFFERS });
+    this.pcmConverter = new PcmConverterStream('f32le', this.streamOptions.channels);
+    this.pcmConverter.pipe(this.outputStream);
+    this.pcmConverter.on('data', () => {
+      if (this.onBufferFilled && this.outputStream.readableLength >= this.bufferSize) {
+        this.onBufferFilled();
+      }
+    });
+
+    const packetOrderer = new RtpPacketOrderer((jitterBufferDuration / 1000) * this.rate);
+    packetOrderer.on('data', this.handlePacket);
+    this.nextTimestamp = -1;
+
+    const multicast = address && isMulticastAddress(address);
+    this.socket = dgram.createSocket({ type: address && address.includes(':') ? 'udp6' : 'udp4', reuseAddr: true });
+    this.socket.on('message', (message) => {
+      try {
+        packetOrderer.write(parseRtpPacket(message));
+      } catch (e) {
+        this.log('Received invalid RTP packet, ignoring', e.message);
+      }
+    });
+    this.socket.on('error', (e) => {
+      this.log('Error with RTP socket', e);
+      this.updateInfo({ error: e.toString() });
+    });
+    const { socket } = this;
+    try {
+      // the callback is never called if the bind fails (port already used without reuseAddr, unknown address, etc)
+      await new Promise((resolve, reject) => {
+        socket.once('error', reject);
+        socket.bind(port, multicast ? undefined : address, () => {
+          socket.removeListener('error', reject);
+          resolve();
+        });
+      });
+      if (multicast) {
+        socket.addMembership(address);
+      }
+    } catch (e) {
+      socket.close();
+      if (this.socket === socket) {
+        delete this.socket;
+      }
+      throw e;
+    }
+    this.log(`Listening for ${payload} RTP stream on ${address || '*'}:${port}`);
+
+    // like for the httpstream source, the chunks index are computed from startedAt so we wait for the jitter buffer to be filled before setting it
+    await new Promise((resolve) => {
+      this.onBufferFilled = resolve;
+    });
+    delete this.onBufferFilled;
+    if (!this.outputStream) {
+      throw new Error('Source stopped before receiving the stream');
+    }
+    this.log('Received first packets, starting source');
+    this.updateInfo({ startedAt: Math.floor(now()) });
+    return createAudioChunkStream(this.startedAt, this.outputStream, this.rate, this.channels);
+  }
+
+  // the options set on the source take precedence over the session description
+  private getStreamOptions = async (): Promise<RtpStreamOptions> => {
+    const sdp = this.rtpOptions.sdpPath ? parseSdp((await fs.promises.readFile(this.rtpOptions.sdpPath)).toString()) : null;
+    return {
+      port: this.rtpOptions.port || sdp?.port || DEFAULT_PORT,
+      address: this.rtpOptions.address || sdp?.address,
+      payload: this.rtpOptions.payload || sdp?.format || 'L16',
+      rate: this.rtpOptions.rate || sdp?.rate || OPUS_ENCODER_RATE,
+      channels: this.rtpOptions.channels || sdp?.channels || 2,
+    };
+  }
+
+  private handlePacket = ({ header, payload }: RtpPacket) => {
+    if (!this.outputStream) {
+      return;
+    }
+    let samples: Float32Array;
+    try {
+      samples = this.streamOptions.payload === 'opus'
+        ? new Float32Array(this.opusDecoder.decodeFloat(payload))
+        : rtpPcmToFloat(payload, this.streamOptions.payload);
+    } catch (e) {
+      this.log('Error while decoding RTP packet', e.message);
+      return;
+    }
+    const samplesPerChannel = samples.length / this.streamOptions.channels;
+
+    if (this.outputStream.readableLength >= this.bufferSize * MAX_BUFFERED_JITTER_BUFFERS) {
+      this.log('Too much audio buffered, dropping packet');
+    } else {
+      const missingSamplesPerChannel = this.nextTimestamp === -1 ? 0 : (header.timestamp - this.nextTimestamp + RTP_TIMESTAMP_MODULO) % RTP_TIMESTAMP_MODULO;
+      if (missingSamplesPerChannel > 0 && missingSamplesPerChannel <= (MAX_GAP_FILL_DURATION / 1000) * this.rate) {
+        this.pcmConverter.write(Buffer.alloc(missingSamplesPerChannel * this.streamOptions.channels * Float32Array.BYTES_PER_ELEMENT));
+      }
+      this.pcmConverter.write(Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength));
+    }
+    this.nextTimestamp = (header.timestamp + samplesPerChannel) % RTP_TIMESTAMP_MODULO;
+  }
+
+  _stop = () => {
+    if (this.socket) {
+      this.socket.close();
+    }
+    delete this.socket;
+    if (this.pcmConverter) {
+      this.pcmConverter.end();
+    }
+    delete this.pcmConverter;
+    delete this.outputStream;
+    if (this.opusDecoder) {
+      this.opusDecoder.destroy();
+    }
+    delete this.opusDecoder;
+    if (this.onBufferFilled) {
+      this.onBufferFilled();
+    }
+  }
+
+  toDescriptor = (sanitizeForConfigSave = false): AudioInstance<RtpSourceDescriptor> => ({
+    type: 'rtp',
+    name: this.name,
+    uuid: this.uuid,
+    rtpOptions: this.rtpOptions,
+    instanceUuid: this.instanceUuid,
+    channels: this.channels,
+    channelLayout: getChannelLayout(this.channels),
+    priority: this.priority,
+    announcement: this.announcement,
+    loudnessNormalization: this.loudnessNormalization,
+    targetLoudness: this.targetLoudness,
+    transport: this.transport,
+    latencyPolicy: this.latencyPolicy,
+
+    ...(!sanitizeForConfigSave && {
+      error: this.error,
+      peerUuid: this.peerUuid,
+      latency: this.latency,
+      startedAt: this.startedAt,
+      available: true,
+      active: this.active,
+      loudness: this.loudness,
+      started: this.started,
+    }),
+  })
+}
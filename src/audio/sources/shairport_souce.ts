@@ -8,6 +8,7 @@ import { AudioSourcesSinksManager } from '../audio_sources_sinks_manager';
 import { createAudioChunkStream } from '../../utils/audio/chunk_stream';
 import { ensureDep } from '../../utils/environment/deps_downloader';
 import { AudioInstance } from '../utils';
+import { getChannelLayout } from '../../utils/audio/channel_mapping';
 
 export class ShairportSource extends AudioSource {
   local = true;
@@ -72,6 +73,13 @@ export class ShairportSource extends AudioSource {
     uuid: this.uuid,
     shairportOptions: this.options,
     channels: this.channels,
+    channelLayout: getChannelLayout(this.channels),
+    priority: this.priority,
+    announcement: this.announcement,
+    loudnessNormalization: this.loudnessNormalization,
+    targetLoudness: this.targetLoudness,
+    transport: this.transport,
+    latencyPolicy: this.latencyPolicy,
 
     ...(!sanitizeForConfigSave && {
       error: this.error,
@@ -81,6 +89,7 @@ export class ShairportSource extends AudioSource {
       startedAt: this.startedAt,
       available: true, // TODO: check if shairport process is still running to get availability state
       active: this.active,
+      loudness: this.loudness,
       started: this.started,
     }),
   })
@@ -1,5 +1,30 @@
+import { PcmSampleFormat } from '../../utils/audio/pcm_converter';
+import { RtpPayloadFormat } from '../../utils/network/rtp';
+import { ChannelLayout } from '../../utils/audio/channel_mapping';
+import { SinkUUID } from '../sinks/sink_type';
+import { OpusEncoderOptions } from '../../utils/audio/opus';
+import { OpusApplicationMode } from '../../utils/audio/chunk_stream';
+import { LatencyPolicy } from '../../utils/audio/jitter_estimator';
+
 export type SourceUUID = string;
 
+// an announcement source (doorbell, text-to-speech, etc) is mixed into its sinks when it becomes active
+// and the other sources played by these sinks are ducked until it becomes inactive
+export type SourcePriority = 'normal' | 'announcement';
+
+export interface SourceAnnouncementOptions {
+  sinks: SinkUUID[];
+  ducking?: number; // in dB, gain applied to the other sources of the sinks, -60 or lower is practically a switch to the announcement
+}
+
+// how the source is sent to the other peers, every peer receives the same opus stream but a peer with
+// preferLosslessAudio set in its config receives raw PCM instead if lossless is enabled
+export interface SourceTransportOptions extends OpusEncoderOptions {
+  application?: OpusApplicationMode; // lowdelay by default, audio with fec as lowdelay never adds FEC data
+  lossless?: boolean;
+  retransmit?: boolean; // the peers request the lost chunks again instead of relying on the retransmissions of the datachannel
+}
+
 export interface BaseSourceDescriptor {
   type;
   name: string;
@@ -8,10 +33,19 @@ export interface BaseSourceDescriptor {
   startedAt?: number;
   latency?: number;
   channels?: number;
+  channelLayout?: ChannelLayout; // derived from channels, the channels are interleaved in the WAVE order: L, R, C, LFE, BL, BR, SL, SR
   available: boolean;
   started: boolean;
   active: boolean; // has emitted an audio chunk in the last [INACTIVE_TIMEOUT]ms
+  priority?: SourcePriority;
+  announcement?: SourceAnnouncementOptions; // only used with the announcement priority
+  loudnessNormalization?: boolean;
+  targetLoudness?: number; // in LUFS
+  transport?: SourceTransportOptions;
+  latencyPolicy?: LatencyPolicy; // robust by default
+  loudness?: number | null; // short-term loudness in LUFS of the source before normalization, only measured if loudnessNormalization is enabled
   error?: string;
+  internal?: boolean; // created by soundsync for its own use like the latency calibration, hidden from the API and the webui and never saved
 }
 
 export interface LibresportSourceDescriptor extends BaseSourceDescriptor {
@@ -42,5 +76,63 @@ export interface LocalDeviceSourceDescriptor extends BaseSourceDescriptor {
   deviceId: string;
 }
 
-export type SourceDescriptor = LibresportSourceDescriptor | NullSourceDescriptor | LocalDeviceSourceDescriptor | ShairportSourceDescriptor;
+export interface FileSourceDescriptor extends BaseSourceDescriptor {
+  type: 'file';
+  fileOptions: {
+    path: string; // an audio file or a directory, all audio files in a directory will be played as a playlist
+    loop?: boolean;
+    shuffle?: boolean;
+  };
+  playing?: boolean;
+  trackIndex?: number; // index in tracks of the file currently played, can be patched to change track
+  tracks?: string[];
+  seek?: number; // patching this will seek to this position (in ms) in the current track, it is never saved
+}
+
+export interface HttpStreamSourceDescriptor extends BaseSourceDescriptor {
+  type: 'httpstream';
+  httpStreamOptions: {
+    url: string;
+    // ffmpeg input format, probed from the stream if not set, it needs to be set for raw PCM streams (s16le for example)
+    format?: string;
+    // only used for raw PCM streams
+    rate?: number;
+    channels?: number;
+    bufferDuration?: number; // in ms, audio received before starting the source and after a reconnection, used to absorb network hiccups
+  };
+  streamTitle?: string; // from the ICY metadata sent by Icecast / Shoutcast servers
+}
+
+export interface PipeSourceDescriptor extends BaseSourceDescriptor {
+  type: 'pipe';
+  pipeOptions: {
+    // raw PCM audio is read either from a named pipe (FIFO) at this path or from the stdout of a command started in a shell
+    path?: string;
+    command?: string;
+    rate?: number;
+    channels?: number;
+    format?: PcmSampleFormat;
+  };
+}
+
+export interface RtpSourceDescriptor extends BaseSourceDescriptor {
+  type: 'rtp';
+  rtpOptions: {
+    port?: number;
+    address?: string; // multicast group to join, not needed for unicast streams
+    sdpPath?: string; // if set, the stream options are read from this session description file
+    payload?: RtpPayloadFormat;
+    rate?: number;
+    channels?: number;
+    jitterBufferDuration?: number; // in ms, packets arriving later than this are dropped
+  };
+}
+
+// generates a click at a regular interval, used to measure the latency of a sink
+export interface ClickSourceDescriptor extends BaseSourceDescriptor {
+  type: 'click';
+  clickInterval?: number; // in ms, should be a multiple of the chunk duration
+}
+
+export type SourceDescriptor = LibresportSourceDescriptor | NullSourceDescriptor | LocalDeviceSourceDescriptor | ShairportSourceDescriptor | FileSourceDescriptor | HttpStreamSourceDescriptor | PipeSourceDescriptor | RtpSourceDescriptor | ClickSourceDescriptor;
 export type SourceType = SourceDescriptor['type'];
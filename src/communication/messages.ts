@@ -6,6 +6,7 @@ import {
 } from '../audio/sources/source_type';
 import { BaseSinkDescriptor } from '../audio/sinks/sink_type';
 import { AudioInstance } from '../audio/utils';
+import { TransportFeedback } from '../utils/audio/adaptive_bitrate';
 
 export interface BaseMessage {
   type;
@@ -35,6 +36,13 @@ export interface SinkPatchMessage extends BaseMessage {
   sink: Partial<AudioInstance<BaseSinkDescriptor>>;
 }
 
+// sent regularly by a peer receiving a source to the peer of the source to adapt the bitrate of the audio channel
+export interface SourceTransportFeedbackMessage extends BaseMessage {
+  type: 'sourceTransportFeedback';
+  sourceUuid: string;
+  feedback: TransportFeedback;
+}
+
 export interface PeerConnectionInfoMessage extends BaseMessage {
   type: 'peerConnectionInfo';
   messageUuid: string; // this is used to deduplicate messages as they are broadcasted to everyone
@@ -90,6 +98,7 @@ export type ControllerMessage =
   SourceCreateMessage |
   SourceDeleteMessage |
   SinkPatchMessage |
+  SourceTransportFeedbackMessage |
   PeerConnectionInfoMessage |
   TimekeepRequest | TimekeepResponse |
   PeerDiscoveryMessage |
@@ -105,6 +114,7 @@ export type ControllerMessageHandler<T> =
   ControllerMessageSingleHandler<SourceCreateMessage, T> &
   ControllerMessageSingleHandler<SourceDeleteMessage, T> &
   ControllerMessageSingleHandler<SinkPatchMessage, T> &
+  ControllerMessageSingleHandler<SourceTransportFeedbackMessage, T> &
   ControllerMessageSingleHandler<PeerConnectionInfoMessage, T> &
   ControllerMessageSingleHandler<TimekeepRequest, T> &
   ControllerMessageSingleHandler<TimekeepResponse, T> &
@@ -17,9 +17,8 @@ import {
   RPCMessage,
 } from './messages';
 import { now } from '../utils/misc';
-import { BasicNumericStatsTracker } from '../utils/basicNumericStatsTracker';
+import { ClockSyncEstimator } from '../utils/clock_sync';
 
-const TIME_DELTAS_TO_KEEP = 100;
 // if there is less than this diff between the newly computed time delta and the saved time delta, update it and emit a event
 // this is used to not reupdate the sound sinks for every small difference in the timedelta but only if there is too much diff
 const MS_DIFF_TO_UPDATE_TIME_DELTA = 5;
@@ -35,6 +34,8 @@ export enum Capacity {
   ChromecastInteraction = 'chromecast_interaction',
   SharedStateKeeper = 'shared_state_keeper', // a keeper can be trusted with not changing network of peer and can be considered a source of truth, this is useful to prevent the webui to leak state to another set of peer in another network
   AirplaySink = 'airplay_sink',
+  HttpStreamSource = 'httpstream_source',
+  HttpStreamSink = 'httpstream_sink',
 }
 
 export abstract class Peer extends EventEmitter {
@@ -44,7 +45,7 @@ export abstract class Peer extends EventEmitter {
   version: string;
   state: 'connecting' | 'connected' | 'deleted' = 'connecting';
   timeDelta = 0;
-  private timedeltas = new BasicNumericStatsTracker(TIME_DELTAS_TO_KEEP);
+  private clockSync = new ClockSyncEstimator();
   log: Debugger;
   protected logPerMessageType: {[type: string]: Debugger} = {}; // we use this to prevent having to create a debug() instance on each message receive which cause a memory leak
   private rpcResponseHandlers: {[uuid: string]: (message: RPCMessage) => void} = {};
@@ -77,13 +78,10 @@ export abstract class Peer extends EventEmitter {
     });
     this.onControllerMessage(`timekeepResponse`, (message) => {
       const receivedAt = now();
-      const roundtripTime = receivedAt - message.sentAt;
-      const receivedByPeerAt = message.sentAt + (roundtripTime / 2);
-      const delta = message.respondedAt - receivedByPeerAt;
-      this.timedeltas.push(delta);
-      if (this.timedeltas.full(TIMESYNC_INIT_REQUEST_COUNT)) {
+      this.clockSync.addSample(message.sentAt, message.respondedAt, receivedAt);
+      if (this.clockSync.samplesCount >= TIMESYNC_INIT_REQUEST_COUNT) {
         // we have enough measures to calculate a precise time delta between peers
-        const realTimeDelta = this.timedeltas.median();
+        const realTimeDelta = this.clockSync.getOffset(receivedAt);
         if (Math.abs(realTimeDelta - this.timeDelta) > MS_DIFF_TO_UPDATE_TIME_DELTA) {
           this.log(`Updating timedelta to ${realTimeDelta}, diff was ${(realTimeDelta - this.timeDelta).toFixed(2)}ms`);
           this.timeDelta = realTimeDelta;
@@ -91,7 +89,6 @@ export abstract class Peer extends EventEmitter {
         }
       }
       this.emit('timesyncStateUpdated');
-      // networkLatency = roundtripTime / 2;
     });
     this.timekeepInterval = setInterval(this._sendTimekeepRequest, TIMEKEEPER_REFRESH_INTERVAL);
 
@@ -148,7 +145,7 @@ export abstract class Peer extends EventEmitter {
     });
     this.on('stateChange', () => {
       if (this.state !== 'connected') {
-        this.timedeltas.flush();
+        this.clockSync.flush();
       }
       if (this.state === 'connected') {
         getPeersManager().emit('newConnectedPeer', this);
@@ -235,12 +232,14 @@ export abstract class Peer extends EventEmitter {
     });
   }
 
-  isTimeSynchronized = () => this === getLocalPeer() || this.timedeltas.full(TIMESYNC_INIT_REQUEST_COUNT)
+  isTimeSynchronized = () => this === getLocalPeer() || this.clockSync.samplesCount >= TIMESYNC_INIT_REQUEST_COUNT
+  // with realDelta, the offset is extrapolated with the estimated clock drift instead of using the last emitted timeDelta
   getCurrentTime = (realDelta = false) => {
+    const localNow = now();
     if (this === getLocalPeer()) {
-      return now();
+      return localNow;
     }
-    return now() + (realDelta ? this.timedeltas.median() : this.timeDelta);
+    return localNow + (realDelta ? this.clockSync.getOffset(localNow) : this.timeDelta);
   }
   private _sendTimekeepRequest = () => {
     if (this.isLocal) {
@@ -279,6 +278,7 @@ export abstract class Peer extends EventEmitter {
     instanceUuid: this.instanceUuid,
     capacities: this.capacities,
     version: BUILD_VERSION,
+    syncError: this.clockSync.estimatedError === null ? undefined : Math.round(this.clockSync.estimatedError * 100) / 100,
   })
 
   sendRcp = <T extends RPCType>(type: T, message: RPCRequestBody<T>) => new Promise<RPCResponseBody<T>>((resolve, reject) => {
@@ -309,4 +309,6 @@ export interface PeerDescriptor {
   host?: string;
   capacities?: Capacity[];
   version?: string;
+  // estimated error in ms of the synchronization with the clock of this peer, not set for the local peer
+  syncError?: number;
 }
@@ -0,0 +1,5 @@
+import { Peer } from '../peer';
+import { SceneSinkState } from '../../coordinator/shared_state';
+import { applySceneToLocalSinks } from '../../coordinator/scenes';
+
+export const onApplyScene = async (_peer: Peer, sinks: SceneSinkState[]) => applySceneToLocalSinks(sinks);
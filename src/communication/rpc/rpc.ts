@@ -8,6 +8,7 @@ import { onScanChromecast } from './scanChromecast';
 import { onSharedStateUpdate } from './sharedStateUpdate';
 import { onDeleteSink } from './deleteSink';
 import { onScanAirplaySpeaker } from './scanAirplay';
+import { onApplyScene } from './applyScene';
 
 // the lazy loading is mainly used for the WebUI
 const lazyLoader = (moduleGetter: () => any, accessor?: (module: any) => any) => {
@@ -29,6 +30,7 @@ export const rpcHandlers = {
   createSink: onCreateSink,
   deleteSink: onDeleteSink,
   updateSharedState: onSharedStateUpdate,
+  applyScene: onApplyScene,
   scanChromecast: lazyLoader(() => import(/* webpackChunkName: "chromecast" */ './scanChromecast'), (m) => m.onScanChromecast) as typeof onScanChromecast,
   startChromecast: lazyLoader(() => import(/* webpackChunkName: "chromecast" */ './startChromecast'), (m) => m.onStartChromecast) as typeof onStartChromecast,
   startSource: onStartSource, // used to start a source when it's considered inactive to determine if it's active or not (for example for a localdevice source)
@@ -6,11 +6,12 @@ import { WebrtcInitiator, InitiatorMessage } from './initiators/initiator';
 import { getLocalPeer } from './local_peer';
 import { getPeersManager } from './get_peers_manager';
 import {
-  CONTROLLER_CHANNEL_ID, AUDIO_CHANNEL_OPTIONS, TIMEKEEP_CHANNEL_ID,
+  CONTROLLER_CHANNEL_ID, AUDIO_CHANNEL_OPTIONS, AUDIO_CHANNEL_RETRANSMIT_OPTIONS, TIMEKEEP_CHANNEL_ID,
 } from '../utils/constants';
 import { ControllerMessage } from './messages';
 import { Peer, Capacity } from './peer';
 import { DataChannelStream } from '../utils/network/datachannel_stream';
+import { AudioTransportCodec } from '../utils/audio/chunk_stream';
 import { once } from '../utils/misc';
 import { getConfigField } from '../coordinator/config';
 
@@ -235,12 +236,19 @@ export class WebrtcPeer extends Peer {
     return channel.send(JSON.stringify(message));
   }
 
-  createAudioSourceChannel = async (sourceUuid: string) => {
+  // the codec is negotiated for each channel with the protocol of the datachannel: the peer requesting the source
+  // chooses the lossless transport if the source allows it and if it is configured to prefer it
+  // the retransmission of lost chunks is also negotiated this way by adding ";retransmit" to the protocol
+  createAudioSourceChannel = async (sourceUuid: string, losslessAllowed = false, retransmit = false) => {
     if (this.datachannelsBySourceUuid[sourceUuid]) {
       throw new Error('A data channel already exist for this source, this sould not happen as it is managed by the audio source');
     }
-    this.log(`Requesting channel for source ${sourceUuid}`);
-    const channel = this.connection.createDataChannel(`audioSource:${sourceUuid}`, AUDIO_CHANNEL_OPTIONS);
+    const codec: AudioTransportCodec = losslessAllowed && getConfigField('preferLosslessAudio') ? 'pcm' : 'opus';
+    this.log(`Requesting channel for source ${sourceUuid} with codec ${codec}${retransmit ? ' and retransmission' : ''}`);
+    const channel = this.connection.createDataChannel(`audioSource:${sourceUuid}`, {
+      ...(retransmit ? AUDIO_CHANNEL_RETRANSMIT_OPTIONS : AUDIO_CHANNEL_OPTIONS),
+      protocol: retransmit ? `${codec};retransmit` : codec,
+    });
     this.datachannelsBySourceUuid[sourceUuid] = channel;
     if (channel.readyState !== 'open') {
       await new Promise((resolve) => {
@@ -248,7 +256,10 @@ export class WebrtcPeer extends Peer {
       });
     }
     // TODO: check that this isn't a memory leak when closing the channel
-    return new DataChannelStream(channel);
+    return {
+      stream: new DataChannelStream(channel),
+      codec,
+    };
   }
 
   closeAudioSourceChanel = (sourceUuid: string) => {
@@ -263,10 +274,16 @@ export class WebrtcPeer extends Peer {
   private handleRequestedAudioSourceChannel = async (e: RTCDataChannelEvent) => {
     const { channel } = e;
     const sourceUuid = channel.label.match(/^audioSource:(.*)$/)[1];
-    this.log(`Received request for source ${sourceUuid}`);
+    // peers not negotiating the codec don't set the protocol and always use opus
+    const [protocolCodec, ...protocolOptions] = channel.protocol.split(';');
+    const codec: AudioTransportCodec = protocolCodec === 'pcm' ? 'pcm' : 'opus';
+    const retransmit = protocolOptions.includes('retransmit');
+    this.log(`Received request for source ${sourceUuid} with codec ${codec}${retransmit ? ' and retransmission' : ''}`);
     const message = {
       peer: this,
       sourceUuid,
+      codec,
+      retransmit,
       stream: new DataChannelStream(channel),
     };
     this.emit('newSourceChannel', message);
@@ -1,7 +1,9 @@
 import debug from 'debug';
 import _ from 'lodash';
+import MiniPass from 'minipass';
 import { Peer } from '../communication/peer';
 import { getAudioSourcesSinksManager } from '../audio/get_audio_sources_sinks_manager';
+import { AudioSource } from '../audio/sources/audio_source';
 import { getPeersManager } from '../communication/get_peers_manager';
 import {
   PeerConnectionInfoMessage,
@@ -11,12 +13,26 @@ import {
   PeerDiscoveryMessage,
   SourceCreateMessage,
   SourceDeleteMessage,
+  SourceTransportFeedbackMessage,
 } from '../communication/messages';
 import { handlePeerRelayInitiatorMessage } from '../communication/initiators/peerRelayInitiator';
 import { getLocalPeer } from '../communication/local_peer';
+import { onSharedStateChange } from './shared_state';
+import { getSinkGroupOfSink } from './sink_groups';
+import { AudioTransportCodec, AudioChunkStreamEncoder, AudioChunkStreamRetransmitter } from '../utils/audio/chunk_stream';
+import { AdaptiveBitrateController, TransportFeedback } from '../utils/audio/adaptive_bitrate';
+import { DataChannelStream } from '../utils/network/datachannel_stream';
+import { MAX_RETRANSMIT_WAIT, OPUS_ENCODER_CHUNK_DURATION } from '../utils/constants';
+
+// the chunks are kept a bit longer than the time the peer waits for them to handle the network delay
+const RETRANSMIT_HISTORY_SIZE = (MAX_RETRANSMIT_WAIT * 2) / OPUS_ENCODER_CHUNK_DURATION;
 
 export class ClientCoordinator {
   log: debug.Debugger;
+  // group and source of the group last applied to each local sink, used to only change the piping of a sink when its group changed
+  private appliedSinkGroups: {[sinkUuid: string]: { groupUuid: string; pipedFrom: string | null }} = {};
+  // adapts the bitrate of every opus audio channel opened by another peer to one of our sources, by "peerUuid:sourceUuid"
+  private transportFeedbackHandlers: {[channelKey: string]: (feedback: TransportFeedback) => void} = {};
 
   constructor() {
     this.log = debug(`soundsync:clientCoordinator`);
@@ -32,11 +48,15 @@ export class ClientCoordinator {
       .onControllerMessage('peerDiscovery', this.handlePeerDiscoveryMessage)
       .onControllerMessage('sourceCreate', this.handleSourceCreate)
       .onControllerMessage('sourceDelete', this.handleSourceDelete)
+      .onControllerMessage('sourceTransportFeedback', this.handleSourceTransportFeedback)
       .on('newConnectedPeer', (peer: Peer) => {
         this.announceSoundState(peer);
       });
 
     getAudioSourcesSinksManager().on('localSoundStateUpdated', this.announceSoundState);
+    getAudioSourcesSinksManager().on('newLocalSink', () => this.syncSinkGroups());
+    onSharedStateChange(() => this.syncSinkGroups());
+    this.syncSinkGroups();
   }
 
   private announceSoundState = (peer?: Peer) => {
@@ -88,19 +108,67 @@ export class ClientCoordinator {
     await handlePeerRelayInitiatorMessage(message);
   }
 
-  private handleNewSourceChannel = async ({ sourceUuid, stream }: {sourceUuid: string; stream: NodeJS.WritableStream}) => {
+  private handleNewSourceChannel = async ({
+    peer, sourceUuid, codec, retransmit, stream,
+  }: {peer: Peer; sourceUuid: string; codec: AudioTransportCodec; retransmit: boolean; stream: DataChannelStream}) => {
     const source = _.find(getAudioSourcesSinksManager().sources, { uuid: sourceUuid });
     if (!source) {
       this.log(`Trying to request channel to unknown source (uuid ${sourceUuid})`);
       return;
     }
-    const sourceStream = await source.createAudioStream(true);
-    sourceStream.pipe(stream);
+    if (codec === 'pcm' && !source.transport?.lossless) {
+      this.log(`Refusing lossless channel of source ${source.name} to peer ${peer.name}, lossless is not enabled on this source`);
+      stream.end();
+      return;
+    }
+    const sourceStream = await source.createAudioStream(codec === 'opus');
+    // the raw chunks are only prefixed by their index like the opus packets
+    const encodedStream = codec === 'pcm' ? sourceStream.pipe(new AudioChunkStreamEncoder()) : sourceStream;
+    if (retransmit) {
+      // the only messages sent by the peer on the audio channel are the retransmission requests
+      const retransmitter = new AudioChunkStreamRetransmitter(RETRANSMIT_HISTORY_SIZE);
+      stream.on('data', (request: Buffer) => retransmitter.retransmit(request));
+      encodedStream.pipe(retransmitter).pipe(stream);
+    } else {
+      encodedStream.pipe(stream);
+    }
+    if (codec === 'opus') {
+      this.handleAdaptiveBitrate(peer, source, sourceStream, stream);
+    }
     stream.on('end', () => { // necessary to instruct source stream to stop sending new data to stream as it is closed
       sourceStream.end();
     });
   }
 
+  // the lossless transport cannot be adapted, it should only be used on a reliable network
+  private handleAdaptiveBitrate = (peer: Peer, source: AudioSource, sourceStream: MiniPass, stream: DataChannelStream) => {
+    const channelKey = `${peer.uuid}:${source.uuid}`;
+    let controller: AdaptiveBitrateController;
+    let maxBitrate: number;
+    this.transportFeedbackHandlers[channelKey] = (feedback) => {
+      if (!controller || maxBitrate !== source.transport?.bitrate) {
+        // the bitrate configured for the source is the highest one used
+        maxBitrate = source.transport?.bitrate;
+        controller = new AdaptiveBitrateController(source.channels, maxBitrate);
+        source.setEncodedStreamBitrate(sourceStream, null);
+      }
+      if (controller.handleFeedback(feedback, stream.datachannel.bufferedAmount)) {
+        this.log(`Changing bitrate of source ${source.name} sent to peer ${peer.name} to ${controller.bitrate ?? 'the source bitrate'}`);
+        source.setEncodedStreamBitrate(sourceStream, controller.bitrate);
+      }
+    };
+    stream.on('end', () => {
+      delete this.transportFeedbackHandlers[channelKey];
+    });
+  }
+
+  private handleSourceTransportFeedback = (message: SourceTransportFeedbackMessage, peer: Peer) => {
+    const handleFeedback = this.transportFeedbackHandlers[`${peer.uuid}:${message.sourceUuid}`];
+    if (handleFeedback) {
+      handleFeedback(message.feedback);
+    }
+  }
+
   private handleSinkUpdate = (message: SinkPatchMessage) => {
     const sink = getAudioSourcesSinksManager().getSinkByUuid(message.sink.uuid);
     if (!sink) {
@@ -124,7 +192,29 @@ export class ClientCoordinator {
       this.log('Trying to update remote source with a patch, ignoring');
       return;
     }
-    source.updateInfo(message.source);
+    source.patch(message.source);
+  }
+
+  // every peer applies the groups to its own sinks, this way a sink also follows its group when its peer was offline when the group changed
+  private syncSinkGroups = () => {
+    getAudioSourcesSinksManager().sinks.filter((sink) => sink.local).forEach((sink) => {
+      const group = getSinkGroupOfSink(sink.uuid);
+      const appliedGroup = this.appliedSinkGroups[sink.uuid];
+      if (group) {
+        if (!appliedGroup || appliedGroup.groupUuid !== group.uuid || appliedGroup.pipedFrom !== group.pipedFrom) {
+          this.log(`Syncing sink ${sink.name} with group ${group.name}`);
+          this.appliedSinkGroups[sink.uuid] = { groupUuid: group.uuid, pipedFrom: group.pipedFrom };
+          sink.updateInfo({ pipedFrom: group.pipedFrom });
+        }
+      } else if (appliedGroup) {
+        // the sink left its group, it stops playing the source of the group
+        this.log(`Sink ${sink.name} left its group`);
+        delete this.appliedSinkGroups[sink.uuid];
+        if (sink.pipedFrom === appliedGroup.pipedFrom) {
+          sink.updateInfo({ pipedFrom: null });
+        }
+      }
+    });
   }
 
   private handlePeerDiscoveryMessage = (message: PeerDiscoveryMessage) => {
@@ -134,6 +224,10 @@ export class ClientCoordinator {
   }
 
   private handleSourceCreate = (message: SourceCreateMessage) => {
+    if (message.source.type === 'pipe' && message.source.pipeOptions?.command !== undefined) {
+      this.log('Trying to create a pipe source running a command, ignoring as commands can only be set in the config file');
+      return;
+    }
     getAudioSourcesSinksManager().addSource(message.source);
   }
 
@@ -33,6 +33,8 @@ interface ConfigData {
   enableRendezvousService: boolean;
   sharedState: SharedState;
   disableTelemetry: boolean;
+  preferLosslessAudio: boolean; // receive sources allowing it as raw PCM instead of opus, for devices connected with a cable
+  recordingsDirectory: string; // recorder sinks only write in this directory, "recordings" in the config directory if not set
 }
 
 const defaultConfig: ConfigData = {
@@ -47,9 +49,14 @@ const defaultConfig: ConfigData = {
   enableRendezvousService: true,
   sharedState: {
     hueBridges: [],
+    sinkGroups: [],
+    scenes: [],
+    schedules: [],
     lastUpdateTimestamp: -1,
   },
   disableTelemetry: false,
+  preferLosslessAudio: false,
+  recordingsDirectory: null,
 };
 
 let config: {
@@ -137,8 +144,14 @@ export const getConfigField = <T extends keyof ConfigData>(field: T, c?: ConfigD
 export function updateConfigArrayItem(field: 'sources', item: AudioSource): void;
 export function updateConfigArrayItem(field: 'sinks', item: AudioSink): void;
 export function updateConfigArrayItem(field: 'sources' | 'sinks', sourceOrSink) {
+  // serialized like in the config file to be compared with the saved descriptor
+  const descriptor = JSON.parse(JSON.stringify(sourceOrSink.toDescriptor(true)));
+  // most updates of a source or sink only change info that is not saved (active, latency, stats, etc)
+  // and should not rewrite the config file
+  if (_.isEqual(_.find(getConfigField(field), { uuid: descriptor.uuid }), descriptor)) {
+    return;
+  }
   setConfig((c) => {
-    const descriptor = sourceOrSink.toDescriptor(true);
     // @ts-ignore
     c[field] = c[field] || [];
     // @ts-ignore
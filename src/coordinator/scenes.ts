@@ -0,0 +1,119 @@
+import _ from 'lodash';
+import { v4 as uuidv4 } from 'uuid';
+import { getConfigField } from './config';
+import { patchSharedState, Scene, SceneSinkState } from './shared_state';
+import { getAudioSourcesSinksManager } from '../audio/get_audio_sources_sinks_manager';
+import { getPeersManager } from '../communication/get_peers_manager';
+import { SinkUUID } from '../audio/sinks/sink_type';
+
+// a peer can be considered connected for a few seconds after it went offline, we don't want to wait for it forever
+const APPLY_SCENE_TIMEOUT = 5000;
+
+export interface SceneApplyReport {
+  applied: SinkUUID[];
+  unapplied: {
+    uuid: SinkUUID;
+    name: string;
+    reason: string;
+  }[];
+}
+
+export const getScenes = () => getConfigField('sharedState').scenes || [];
+export const getSceneByUuid = (uuid: string) => _.find(getScenes(), { uuid });
+
+// only the sinks of connected peers are saved as the state of the other ones could be outdated
+export const createSceneFromCurrentState = (name: string) => {
+  const scene: Scene = {
+    uuid: uuidv4(),
+    name,
+    sinks: getAudioSourcesSinksManager().sinks
+      .filter((sink) => !!sink.peer)
+      .map((sink) => ({
+        uuid: sink.uuid,
+        name: sink.name,
+        pipedFrom: sink.pipedFrom || null,
+        mixedFrom: sink.mixedFrom || [],
+        volume: sink.volume,
+        latencyOffset: sink.latencyOffset,
+      })),
+  };
+  patchSharedState((sharedState) => {
+    sharedState.scenes = sharedState.scenes || [];
+    sharedState.scenes.push(scene);
+    return sharedState;
+  });
+  return scene;
+};
+
+export const deleteScene = (uuid: string) => {
+  patchSharedState((sharedState) => {
+    sharedState.scenes = (sharedState.scenes || []).filter((scene) => scene.uuid !== uuid);
+    return sharedState;
+  });
+};
+
+// called by the applyScene RPC, every sink of a peer is changed at the same time
+export const applySceneToLocalSinks = (sinks: SceneSinkState[]) => {
+  const report: SceneApplyReport = { applied: [], unapplied: [] };
+  sinks.forEach((sinkState) => {
+    const sink = getAudioSourcesSinksManager().getSinkByUuid(sinkState.uuid);
+    if (!sink || !sink.local) {
+      report.unapplied.push({ uuid: sinkState.uuid, name: sinkState.name, reason: 'Sink is not hosted on this peer anymore' });
+      return;
+    }
+    if (!sink.available) {
+      report.unapplied.push({ uuid: sinkState.uuid, name: sinkState.name, reason: 'Sink is not available' });
+      return;
+    }
+    sink.updateInfo({
+      pipedFrom: sinkState.pipedFrom,
+      // scenes created before mixing was added don't have mixedFrom, they are restored without any mixed source
+      mixedFrom: sinkState.mixedFrom || [],
+      volume: sinkState.volume,
+      latencyOffset: sinkState.latencyOffset,
+    });
+    report.applied.push(sink.uuid);
+  });
+  return report;
+};
+
+// the sinks are sent to the peer hosting them, sinks of offline peers cannot be changed and are reported as unapplied
+export const applyScene = async (uuid: string) => {
+  const scene = getSceneByUuid(uuid);
+  if (!scene) {
+    throw new Error('Scene unknown');
+  }
+  const report: SceneApplyReport = { applied: [], unapplied: [] };
+  const sinksByPeer: {[peerUuid: string]: SceneSinkState[]} = {};
+  scene.sinks.forEach((sinkState) => {
+    const sink = getAudioSourcesSinksManager().getSinkByUuid(sinkState.uuid);
+    if (!sink) {
+      report.unapplied.push({ uuid: sinkState.uuid, name: sinkState.name, reason: 'Sink does not exist anymore' });
+    } else if (!sink.peer) {
+      report.unapplied.push({ uuid: sinkState.uuid, name: sinkState.name, reason: 'Peer hosting the sink is offline' });
+    } else {
+      sinksByPeer[sink.peerUuid] = sinksByPeer[sink.peerUuid] || [];
+      sinksByPeer[sink.peerUuid].push(sinkState);
+    }
+  });
+
+  await Promise.all(Object.keys(sinksByPeer).map(async (peerUuid) => {
+    const peer = getPeersManager().getConnectedPeerByUuid(peerUuid);
+    let timeout: NodeJS.Timeout;
+    try {
+      const peerReport = await Promise.race([
+        peer.sendRcp('applyScene', sinksByPeer[peerUuid]),
+        new Promise<never>((resolve, reject) => {
+          timeout = setTimeout(() => reject(new Error('Peer hosting the sink did not respond')), APPLY_SCENE_TIMEOUT);
+        }),
+      ]);
+      report.applied.push(...peerReport.applied);
+      report.unapplied.push(...peerReport.unapplied);
+    } catch (e) {
+      report.unapplied.push(...sinksByPeer[peerUuid].map((sinkState) => ({ uuid: sinkState.uuid, name: sinkState.name, reason: e.message })));
+    } finally {
+      clearTimeout(timeout);
+    }
+  }));
+  return report;
+};
@@ -0,0 +1,253 @@
+import _ from 'lodash';
+import { Scheduler, SchedulerClock } from './scheduler';
+import { ScheduleRule } from './shared_state';
+import { applyScene } from './scenes';
+
+let mockSharedState: { schedules: ScheduleRule[] };
+let mockSinks: {[sinkUuid: string]: any};
+
+jest.mock('./config', () => ({
+  getConfigField: () => mockSharedState,
+}));
+jest.mock('./shared_state', () => ({
+  patchSharedState: (setter) => {
+    mockSharedState = setter(_.cloneDeep(mockSharedState));
+  },
+}));
+jest.mock('./scenes', () => ({
+  applyScene: jest.fn(() => Promise.resolve({ unapplied: [] })),
+}));
+jest.mock('../audio/get_audio_sources_sinks_manager', () => ({
+  getAudioSourcesSinksManager: () => ({
+    getSinkByUuid: (uuid: string) => mockSinks[uuid],
+  }),
+}));
+// only used to elect the peer executing the rules, replaced by the isExecutingRules argument in these tests
+jest.mock('../communication/get_peers_manager', () => ({}));
+jest.mock('../communication/local_peer', () => ({}));
+jest.mock('../communication/peer', () => ({ Capacity: {} }));
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+// in the local timezone like the cron expressions, 2024-01-01 is a monday
+const START_TIME = new Date(2024, 0, 1, 7, 29).getTime();
+const OCCURRENCE_TIME = new Date(2024, 0, 1, 7, 30).getTime();
+
+// the intervals are run at their exact time when advancing the clock, like the event loop of an idle process
+const createClock = () => {
+  let time = START_TIME;
+  let lastHandle = 0;
+  const intervals: Map<number, { handler: () => any; ms: number; nextRunAt: number }> = new Map();
+  const getNextInterval = () => _.minBy([...intervals.values()], 'nextRunAt');
+
+  const advance = (ms: number) => {
+    const end = time + ms;
+    let next = getNextInterval();
+    while (next && next.nextRunAt <= end) {
+      time = next.nextRunAt;
+      next.nextRunAt += next.ms;
+      next.handler();
+      next = getNextInterval();
+    }
+    time = end;
+  };
+  const clock: SchedulerClock & { advance: typeof advance; suspend: (ms: number) => void } = {
+    now: () => time,
+    setInterval: (handler, ms) => {
+      lastHandle++;
+      intervals.set(lastHandle, { handler, ms, nextRunAt: time + ms });
+      return lastHandle as unknown as ReturnType<typeof setInterval>;
+    },
+    clearInterval: (handle) => {
+      intervals.delete(handle as unknown as number);
+    },
+    advance,
+    // the process is suspended (computer sleeping for example), every interval runs once when it resumes
+    suspend: (ms: number) => {
+      time += ms;
+      intervals.forEach((interval) => {
+        interval.nextRunAt = time;
+      });
+      advance(0);
+    },
+  };
+  return clock;
+};
+
+const createSink = (uuid: string, volume = 1) => {
+  const sink = {
+    uuid,
+    name: uuid,
+    volume,
+    pipedFrom: null,
+    peer: {},
+    patches: [],
+    patch: (patch) => {
+      sink.patches.push(patch);
+      Object.assign(sink, patch);
+    },
+  };
+  mockSinks[uuid] = sink;
+  return sink;
+};
+
+const createRule = (rule: Partial<ScheduleRule>): ScheduleRule => {
+  const newRule: ScheduleRule = {
+    uuid: `rule${mockSharedState.schedules.length}`,
+    name: 'test rule',
+    enabled: true,
+    action: { type: 'pipe', sourceUuid: 'source', sinks: ['sink'] },
+    ...rule,
+  };
+  mockSharedState.schedules.push(newRule);
+  return newRule;
+};
+
+describe('Scheduler', () => {
+  let clock: ReturnType<typeof createClock>;
+  let isExecutingRules: boolean;
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    mockSharedState = { schedules: [] };
+    mockSinks = {};
+    clock = createClock();
+    isExecutingRules = true;
+    scheduler = new Scheduler(clock, () => isExecutingRules);
+    scheduler.start();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  it('executes a cron rule at each occurrence', () => {
+    const sink = createSink('sink');
+    createRule({ cron: '30 7 * * 1-5' });
+
+    clock.advance(MINUTE - SECOND);
+    expect(sink.patches).toEqual([]);
+    clock.advance(SECOND);
+    expect(sink.patches).toEqual([{ pipedFrom: 'source', volume: 1 }]);
+    expect(mockSharedState.schedules[0].lastExecutedAt).toBe(OCCURRENCE_TIME);
+
+    sink.patch({ pipedFrom: null });
+    clock.advance(24 * 60 * MINUTE);
+    expect(sink.pipedFrom).toBe('source');
+    expect(sink.patches).toHaveLength(3);
+    expect(mockSharedState.schedules[0].lastExecutedAt).toBe(OCCURRENCE_TIME + 24 * 60 * MINUTE);
+  });
+
+  it('catches up an occurrence missed by less than a minute', () => {
+    const sink = createSink('sink');
+    createRule({ cron: '30 7 * * *' });
+
+    clock.suspend(MINUTE + 40 * SECOND);
+    expect(sink.pipedFrom).toBe('source');
+    expect(mockSharedState.schedules[0].lastExecutedAt).toBe(OCCURRENCE_TIME);
+  });
+
+  it('skips an occurrence missed by more than a minute', () => {
+    const sink = createSink('sink');
+    createRule({ cron: '30 7 * * *' });
+
+    clock.suspend(2 * MINUTE + 30 * SECOND);
+    expect(sink.patches).toEqual([]);
+    expect(mockSharedState.schedules[0].lastExecutedAt).toBeUndefined();
+  });
+
+  it('does not execute an occurrence already executed by another peer', () => {
+    const sink = createSink('sink');
+    createRule({ cron: '30 7 * * *', lastExecutedAt: OCCURRENCE_TIME });
+
+    clock.advance(2 * MINUTE);
+    expect(sink.patches).toEqual([]);
+  });
+
+  it('does not execute a disabled rule', () => {
+    const sink = createSink('sink');
+    createRule({ cron: '30 7 * * *', enabled: false });
+
+    clock.advance(2 * MINUTE);
+    expect(sink.patches).toEqual([]);
+  });
+
+  it('deletes a rule planned at a time once it is executed', () => {
+    const sink = createSink('sink');
+    createRule({ at: START_TIME + 10 * SECOND, action: { type: 'unpipe', sinks: ['sink'] } });
+    sink.pipedFrom = 'source';
+
+    clock.advance(10 * SECOND);
+    expect(sink.pipedFrom).toBeNull();
+    expect(mockSharedState.schedules).toEqual([]);
+  });
+
+  it('deletes a rule planned at a time too long ago without executing it', () => {
+    const sink = createSink('sink');
+    createRule({ at: START_TIME - 2 * MINUTE });
+
+    clock.advance(SECOND);
+    expect(sink.patches).toEqual([]);
+    expect(mockSharedState.schedules).toEqual([]);
+  });
+
+  it('does not execute the rules on a peer not elected to execute them', () => {
+    const sink = createSink('sink');
+    createRule({ cron: '30 7 * * *' });
+    createRule({ at: START_TIME + 10 * SECOND });
+    isExecutingRules = false;
+
+    clock.advance(2 * MINUTE);
+    expect(sink.patches).toEqual([]);
+    expect(mockSharedState.schedules).toHaveLength(2);
+    expect(mockSharedState.schedules[0].lastExecutedAt).toBeUndefined();
+
+    // the occurrences planned before being elected are not executed
+    isExecutingRules = true;
+    clock.advance(SECOND);
+    expect(sink.patches).toEqual([]);
+  });
+
+  it('applies the scene of a rule', () => {
+    createRule({ cron: '30 7 * * *', action: { type: 'scene', sceneUuid: 'scene' } });
+
+    clock.advance(MINUTE);
+    expect(applyScene).toHaveBeenCalledWith('scene');
+  });
+
+  it('raises the volume progressively when piping with a ramp', () => {
+    const sink = createSink('sink');
+    createRule({
+      at: START_TIME + SECOND,
+      action: {
+        type: 'pipe', sourceUuid: 'source', sinks: ['sink'], volume: 0.5, rampDuration: 10,
+      },
+    });
+
+    clock.advance(SECOND);
+    expect(sink.patches).toEqual([{ pipedFrom: 'source', volume: 0 }]);
+    clock.advance(10 * SECOND);
+    const volumes = sink.patches.slice(1).map(({ volume }) => volume);
+    expect(volumes).toEqual(_.sortBy(volumes));
+    expect(volumes.length).toBeGreaterThan(5);
+    expect(sink.volume).toBe(0.5);
+
+    clock.advance(10 * SECOND);
+    expect(sink.patches).toHaveLength(volumes.length + 1);
+  });
+
+  it('lowers the volume progressively before unpiping and restores it', () => {
+    const sink = createSink('sink', 0.8);
+    sink.pipedFrom = 'source';
+    createRule({ at: START_TIME + SECOND, action: { type: 'unpipe', sinks: ['sink'], rampDuration: 5 } });
+
+    clock.advance(3 * SECOND);
+    expect(sink.pipedFrom).toBe('source');
+    expect(sink.volume).toBeLessThan(0.8);
+    expect(sink.volume).toBeGreaterThan(0);
+
+    clock.advance(3 * SECOND);
+    expect(sink.pipedFrom).toBeNull();
+    expect(sink.volume).toBe(0.8);
+  });
+});
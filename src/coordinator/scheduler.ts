@@ -0,0 +1,235 @@
+import debug from 'debug';
+import _ from 'lodash';
+import { v4 as uuidv4 } from 'uuid';
+import { getConfigField } from './config';
+import { patchSharedState, ScheduleRule } from './shared_state';
+import { applyScene } from './scenes';
+import { getAudioSourcesSinksManager } from '../audio/get_audio_sources_sinks_manager';
+import { getPeersManager } from '../communication/get_peers_manager';
+import { getLocalPeer } from '../communication/local_peer';
+import { Capacity } from '../communication/peer';
+import { AudioSink } from '../audio/sinks/audio_sink';
+import { parseCronExpression, matchesCronExpression } from '../utils/cron';
+
+const TICK_INTERVAL = 1000;
+const RAMP_MIN_STEP_INTERVAL = 1000;
+// each step of a ramp changes the volume by at least this much, every step is sent to every peer and saved in the config
+const RAMP_MIN_VOLUME_STEP = 0.02;
+// occurrences missed by more than this (for example because the executing peer was offline) are not executed
+const MAX_EXECUTION_DELAY = 60 * 1000;
+const MINUTE = 60 * 1000;
+
+export type ScheduleRulePatch = Partial<Omit<ScheduleRule, 'uuid' | 'lastExecutedAt'>>;
+
+// injectable to be able to control the time in tests
+export interface SchedulerClock {
+  now: () => number;
+  setInterval: (handler: () => any, ms: number) => ReturnType<typeof setInterval>;
+  clearInterval: (handle: ReturnType<typeof setInterval>) => void;
+}
+
+const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setInterval: (handler, ms) => setInterval(handler, ms),
+  clearInterval: (handle) => clearInterval(handle),
+};
+
+// when multiple keepers are connected, only the one with the smallest uuid executes the rules
+const isLocalPeerExecutingRules = () => {
+  const keepers = getPeersManager().getConnectedPeers().filter((peer) => peer.capacities.includes(Capacity.SharedStateKeeper));
+  return keepers.length !== 0 && _.minBy(keepers, 'uuid').uuid === getLocalPeer().uuid;
+};
+
+export const getScheduleRules = () => getConfigField('sharedState').schedules || [];
+export const getScheduleRuleByUuid = (uuid: string) => _.find(getScheduleRules(), { uuid });
+
+const assertValidScheduleRule = (rule: ScheduleRulePatch) => {
+  if (rule.cron === undefined && rule.at === undefined) {
+    throw new Error('A cron expression or a time is required');
+  }
+  if (rule.cron !== undefined) {
+    parseCronExpression(rule.cron);
+  }
+  if (!rule.action || !['pipe', 'unpipe', 'scene'].includes(rule.action.type)) {
+    throw new Error('action type should be pipe, unpipe or scene');
+  }
+};
+
+export const createScheduleRule = (rule: ScheduleRulePatch) => {
+  assertValidScheduleRule(rule);
+  const newRule: ScheduleRule = {
+    name: '',
+    enabled: true,
+    ...rule,
+    uuid: uuidv4(),
+  } as ScheduleRule;
+  patchSharedState((sharedState) => {
+    sharedState.schedules = sharedState.schedules || [];
+    sharedState.schedules.push(newRule);
+    return sharedState;
+  });
+  return newRule;
+};
+
+export const patchScheduleRule = (uuid: string, patch: ScheduleRulePatch) => {
+  const rule = getScheduleRuleByUuid(uuid);
+  if (!rule) {
+    throw new Error('Schedule rule unknown');
+  }
+  assertValidScheduleRule({ ...rule, ...patch });
+  patchSharedState((sharedState) => {
+    Object.assign(_.find(sharedState.schedules, { uuid }), _.pickBy(patch, (value) => value !== undefined));
+    return sharedState;
+  });
+};
+
+export const deleteScheduleRule = (uuid: string) => {
+  patchSharedState((sharedState) => {
+    sharedState.schedules = (sharedState.schedules || []).filter((rule) => rule.uuid !== uuid);
+    return sharedState;
+  });
+};
+
+export class Scheduler {
+  log: debug.Debugger;
+  private tickInterval: ReturnType<typeof setInterval>;
+  private lastTick: number;
+  private volumeRamps: {[sinkUuid: string]: ReturnType<typeof setInterval>} = {};
+
+  constructor(
+    private clock: SchedulerClock = systemClock,
+    private isExecutingRules: () => boolean = isLocalPeerExecutingRules,
+  ) {
+    this.log = debug(`soundsync:scheduler`);
+  }
+
+  start() {
+    if (this.tickInterval) {
+      return;
+    }
+    this.log(`Starting scheduler`);
+    this.lastTick = this.clock.now();
+    this.tickInterval = this.clock.setInterval(this.tick, TICK_INTERVAL);
+  }
+
+  stop() {
+    this.clock.clearInterval(this.tickInterval);
+    delete this.tickInterval;
+    Object.keys(this.volumeRamps).forEach(this.stopVolumeRamp);
+  }
+
+  // every rule occurrence planned between the previous tick and now is executed
+  tick = () => {
+    const now = this.clock.now();
+    const from = Math.max(this.lastTick, now - MAX_EXECUTION_DELAY);
+    this.lastTick = now;
+    if (!this.isExecutingRules()) {
+      return;
+    }
+    getScheduleRules().forEach((rule) => {
+      if (!rule.cron && rule.at < now - MAX_EXECUTION_DELAY) {
+        this.log(`Rule ${rule.name} was planned too long ago, deleting it`);
+        deleteScheduleRule(rule.uuid);
+        return;
+      }
+      const occurrence = this.getLastOccurrence(rule, from, now);
+      if (!rule.enabled || occurrence === null || rule.lastExecutedAt >= occurrence) {
+        return;
+      }
+      this.executeRule(rule, occurrence);
+    });
+  }
+
+  // returns the time of the last occurrence of the rule in ]from, to] or null if there is none
+  private getLastOccurrence = (rule: ScheduleRule, from: number, to: number) => {
+    if (!rule.cron) {
+      return rule.at > from && rule.at <= to ? rule.at : null;
+    }
+    const expression = parseCronExpression(rule.cron);
+    let occurrence = null;
+    for (let minute = Math.floor(from / MINUTE) * MINUTE + MINUTE; minute <= to; minute += MINUTE) {
+      if (matchesCronExpression(expression, new Date(minute))) {
+        occurrence = minute;
+      }
+    }
+    return occurrence;
+  }
+
+  private executeRule = (rule: ScheduleRule, occurrence: number) => {
+    this.log(`Executing rule ${rule.name} (${rule.action.type})`);
+    // the shared state is updated before executing the rule so that another keeper taking over doesn't execute it again
+    if (rule.cron) {
+      patchSharedState((sharedState) => {
+        _.find(sharedState.schedules, { uuid: rule.uuid }).lastExecutedAt = occurrence;
+        return sharedState;
+      });
+    } else {
+      deleteScheduleRule(rule.uuid);
+    }
+
+    const { action } = rule;
+    if (action.type === 'scene') {
+      applyScene(action.sceneUuid).then((report) => {
+        report.unapplied.forEach(({ name, reason }) => this.log(`Could not apply scene to sink ${name}: ${reason}`));
+      }).catch((e) => this.log(`Error while applying scene of rule ${rule.name}`, e));
+      return;
+    }
+    action.sinks.forEach((sinkUuid) => {
+      const sink = getAudioSourcesSinksManager().getSinkByUuid(sinkUuid);
+      if (!sink || !sink.peer) {
+        this.log(`Sink ${sinkUuid} of rule ${rule.name} is not reachable, ignoring it`);
+        return;
+      }
+      this.stopVolumeRamp(sink.uuid);
+      if (action.type === 'pipe') {
+        const volume = action.volume ?? sink.volume;
+        if (action.rampDuration) {
+          sink.patch({ pipedFrom: action.sourceUuid, volume: 0 });
+          this.startVolumeRamp(sink, 0, volume, action.rampDuration);
+        } else {
+          sink.patch({ pipedFrom: action.sourceUuid, volume });
+        }
+      } else if (action.rampDuration) {
+        const initialVolume = sink.volume;
+        this.startVolumeRamp(sink, initialVolume, 0, action.rampDuration, () => {
+          sink.patch({ pipedFrom: null, volume: initialVolume });
+        });
+      } else {
+        sink.patch({ pipedFrom: null });
+      }
+    });
+  }
+
+  private startVolumeRamp = (sink: AudioSink, fromVolume: number, toVolume: number, duration: number, onEnd?: () => any) => {
+    const stepsCount = Math.max(1, Math.min(
+      Math.round((duration * 1000) / RAMP_MIN_STEP_INTERVAL),
+      Math.ceil(Math.abs(toVolume - fromVolume) / RAMP_MIN_VOLUME_STEP),
+    ));
+    let step = 0;
+    this.volumeRamps[sink.uuid] = this.clock.setInterval(() => {
+      step++;
+      sink.patch({ volume: _.round(fromVolume + ((toVolume - fromVolume) * step) / stepsCount, 2) });
+      if (step >= stepsCount) {
+        this.stopVolumeRamp(sink.uuid);
+        if (onEnd) {
+          onEnd();
+        }
+      }
+    }, (duration * 1000) / stepsCount);
+  }
+
+  private stopVolumeRamp = (sinkUuid: string) => {
+    if (this.volumeRamps[sinkUuid]) {
+      this.clock.clearInterval(this.volumeRamps[sinkUuid]);
+      delete this.volumeRamps[sinkUuid];
+    }
+  }
+}
+
+let scheduler: Scheduler;
+export const getScheduler = () => {
+  if (!scheduler) {
+    scheduler = new Scheduler();
+  }
+  return scheduler;
+};
@@ -1,6 +1,60 @@
 import produce from 'immer';
+import { EventEmitter } from 'events';
 import { getConfigField, setConfig } from './config';
 import { getPeersManager } from '../communication/get_peers_manager';
+import { SinkUUID, SinkMixedSource } from '../audio/sinks/sink_type';
+import { SourceUUID } from '../audio/sources/source_type';
+
+export interface SinkGroup {
+  uuid: string;
+  name: string;
+  sinks: SinkUUID[];
+  volume: number;
+  pipedFrom: SourceUUID | null; // applied to every member of the group
+}
+
+export interface SceneSinkState {
+  uuid: SinkUUID;
+  name: string; // only used to report which sinks could not be restored
+  pipedFrom: SourceUUID | null;
+  mixedFrom?: SinkMixedSource[];
+  volume: number;
+  // not set in scenes created before the latency offset was saved, the sink keeps its current offset
+  latencyOffset?: number;
+}
+
+// snapshot of the routing of every sink, restored with applyScene
+export interface Scene {
+  uuid: string;
+  name: string;
+  sinks: SceneSinkState[];
+}
+
+export type ScheduleAction = {
+  type: 'pipe';
+  sourceUuid: SourceUUID;
+  sinks: SinkUUID[];
+  volume?: number; // if set, the volume of the sinks is changed
+  rampDuration?: number; // in seconds, the volume is raised progressively from 0 to the target volume, used for alarms
+} | {
+  type: 'unpipe';
+  sinks: SinkUUID[];
+  rampDuration?: number; // in seconds, the volume is lowered progressively before unpiping and then restored, used for sleep timers
+} | {
+  type: 'scene';
+  sceneUuid: string;
+};
+
+// a rule is either recurring with a cron expression or executed once at a given time and then deleted
+export interface ScheduleRule {
+  uuid: string;
+  name: string;
+  enabled: boolean;
+  cron?: string; // "minute hour dayOfMonth month dayOfWeek" in the timezone of the peer executing the rules
+  at?: number; // timestamp in ms
+  action: ScheduleAction;
+  lastExecutedAt?: number; // timestamp in ms of the last planned execution, used to never execute the same occurrence twice
+}
 
 export interface SharedState {
   hueBridges: {
@@ -8,9 +62,15 @@ export interface SharedState {
     username: string;
     clientKey: string;
   }[];
+  sinkGroups: SinkGroup[];
+  scenes: Scene[];
+  schedules: ScheduleRule[];
   lastUpdateTimestamp: number;
 }
 
+const sharedStateEvents = new EventEmitter();
+sharedStateEvents.setMaxListeners(500);
+
 export const patchSharedState = (setter: (sharedState: SharedState) => SharedState) => {
   const newSharedState = produce(getConfigField('sharedState'), (draft) => {
     draft.lastUpdateTimestamp = new Date().getTime();
@@ -26,4 +86,13 @@ export const handleSharedStateFromPeer = (sharedState: SharedState) => {
   setConfig((c) => {
     c.sharedState = sharedState;
   });
+  sharedStateEvents.emit('update', sharedState);
+};
+
+// returns a function to remove the listener
+export const onSharedStateChange = (listener: (sharedState: SharedState) => any) => {
+  sharedStateEvents.on('update', listener);
+  return () => {
+    sharedStateEvents.off('update', listener);
+  };
 };
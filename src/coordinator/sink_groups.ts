@@ -0,0 +1,71 @@
+import _ from 'lodash';
+import { v4 as uuidv4 } from 'uuid';
+import { getConfigField } from './config';
+import { patchSharedState, SinkGroup } from './shared_state';
+import { getAudioSourcesSinksManager } from '../audio/get_audio_sources_sinks_manager';
+import { SinkUUID } from '../audio/sinks/sink_type';
+
+export type SinkGroupPatch = Partial<Pick<SinkGroup, 'name' | 'sinks' | 'volume' | 'pipedFrom'>>;
+
+export const getSinkGroups = () => getConfigField('sharedState').sinkGroups || [];
+export const getSinkGroupByUuid = (uuid: string) => _.find(getSinkGroups(), { uuid });
+export const getSinkGroupOfSink = (sinkUuid: SinkUUID) => getSinkGroups().find((group) => group.sinks.includes(sinkUuid));
+
+// a sink can only be a member of one group
+const removeSinksFromOtherGroups = (sinkGroups: SinkGroup[], groupUuid: string, sinks: SinkUUID[]) => {
+  sinkGroups.forEach((group) => {
+    if (group.uuid !== groupUuid) {
+      group.sinks = group.sinks.filter((sinkUuid) => !sinks.includes(sinkUuid));
+    }
+  });
+};
+
+export const createSinkGroup = ({ name, sinks = [] }: { name: string; sinks?: SinkUUID[] }) => {
+  const group: SinkGroup = {
+    uuid: uuidv4(),
+    name,
+    sinks,
+    volume: 1,
+    pipedFrom: null,
+  };
+  patchSharedState((sharedState) => {
+    sharedState.sinkGroups = sharedState.sinkGroups || [];
+    removeSinksFromOtherGroups(sharedState.sinkGroups, group.uuid, sinks);
+    sharedState.sinkGroups.push(group);
+    return sharedState;
+  });
+  return group;
+};
+
+// the piping of the member sinks is done by the ClientCoordinator of the peer hosting each sink when it receives the new shared state
+// but the volume is scaled here as it depends on the current volume of each sink
+export const patchSinkGroup = (uuid: string, patch: SinkGroupPatch) => {
+  const group = getSinkGroupByUuid(uuid);
+  if (!group) {
+    throw new Error('Sink group unknown');
+  }
+  if (patch.volume !== undefined && patch.volume !== group.volume) {
+    const ratio = group.volume ? patch.volume / group.volume : null;
+    group.sinks.forEach((sinkUuid) => {
+      const sink = getAudioSourcesSinksManager().getSinkByUuid(sinkUuid);
+      if (sink) {
+        // when the group was muted, the previous proportions are lost and all members are set to the group volume
+        sink.patch({ volume: ratio === null ? patch.volume : _.clamp(sink.volume * ratio, 0, 1) });
+      }
+    });
+  }
+  patchSharedState((sharedState) => {
+    Object.assign(_.find(sharedState.sinkGroups, { uuid }), _.pickBy(patch, (value) => value !== undefined));
+    if (patch.sinks) {
+      removeSinksFromOtherGroups(sharedState.sinkGroups, uuid, patch.sinks);
+    }
+    return sharedState;
+  });
+};
+
+export const deleteSinkGroup = (uuid: string) => {
+  patchSharedState((sharedState) => {
+    sharedState.sinkGroups = (sharedState.sinkGroups || []).filter((g) => g.uuid !== uuid);
+    return sharedState;
+  });
+};
@@ -12,6 +12,7 @@ import { getHttpServer } from './communication/http_server';
 import { getPeersManager, registerPeersManager } from './communication/get_peers_manager';
 import { AudioSourcesSinksManager } from './audio/audio_sources_sinks_manager';
 import { getClientCoordinator } from './coordinator/client_coordinator';
+import { getScheduler } from './coordinator/scheduler';
 // import { ApiController } from './api/api';
 import { initConfig, getConfigField } from './coordinator/config';
 import { createSystray, refreshMenu } from './utils/environment/systray';
@@ -68,6 +69,8 @@ const main = async () => {
       Capacity.ChromecastInteraction,
       Capacity.SharedStateKeeper,
       Capacity.AirplaySink,
+      Capacity.HttpStreamSource,
+      Capacity.HttpStreamSink,
     ].filter(Boolean),
   });
 
@@ -123,6 +126,7 @@ const main = async () => {
   }
 
   getClientCoordinator();
+  getScheduler().start();
   if (argv.kiosk) {
     startKioskMode();
   }
@@ -0,0 +1,108 @@
+import { AdaptiveBitrateController, TransportFeedback } from './adaptive_bitrate';
+
+const CONGESTED: TransportFeedback = { loss: 0.1, late: 0 };
+const STABLE: TransportFeedback = { loss: 0, late: 0 };
+const UNSTABLE: TransportFeedback = { loss: 0.02, late: 0 };
+
+const sendFeedbacks = (controller: AdaptiveBitrateController, feedback: TransportFeedback, count: number) => {
+  const changes = [];
+  for (let i = 0; i < count; i++) {
+    changes.push(controller.handleFeedback(feedback, 0));
+  }
+  return changes;
+};
+
+describe('AdaptiveBitrateController', () => {
+  it('uses the bitrate of the source until the network is congested', () => {
+    const controller = new AdaptiveBitrateController(2);
+    expect(controller.bitrate).toBeNull();
+    expect(sendFeedbacks(controller, STABLE, 50)).not.toContain(true);
+    expect(controller.bitrate).toBeNull();
+  });
+
+  it('lowers the bitrate step by step on congestion down to the lowest step', () => {
+    const controller = new AdaptiveBitrateController(2);
+    const bitrates = [];
+    for (let i = 0; i < 6; i++) {
+      expect(controller.handleFeedback(CONGESTED, 0)).toBe(true);
+      bitrates.push(controller.bitrate);
+    }
+    expect(bitrates).toEqual([96000, 64000, 48000, 32000, 24000, 16000]);
+    expect(controller.handleFeedback(CONGESTED, 0)).toBe(false);
+    expect(controller.bitrate).toBe(16000);
+  });
+
+  it('detects congestion from late chunks and from the datachannel buffered amount', () => {
+    const lateController = new AdaptiveBitrateController(2);
+    expect(lateController.handleFeedback({ loss: 0, late: 0.05 }, 0)).toBe(true);
+    const bufferedController = new AdaptiveBitrateController(2);
+    expect(bufferedController.handleFeedback(STABLE, 32 * 1024)).toBe(true);
+    const lightLossController = new AdaptiveBitrateController(2);
+    expect(lightLossController.handleFeedback(UNSTABLE, 0)).toBe(false);
+  });
+
+  it('only uses steps lower than the bitrate of the source and scales them with the number of channels', () => {
+    const controller = new AdaptiveBitrateController(2, 64000);
+    controller.handleFeedback(CONGESTED, 0);
+    expect(controller.bitrate).toBe(48000);
+
+    const multichannelController = new AdaptiveBitrateController(6);
+    multichannelController.handleFeedback(CONGESTED, 0);
+    expect(multichannelController.bitrate).toBe(96000 * 3);
+  });
+
+  it('raises the bitrate only after 5 consecutive stable feedbacks', () => {
+    const controller = new AdaptiveBitrateController(2);
+    sendFeedbacks(controller, CONGESTED, 2);
+    expect(controller.bitrate).toBe(64000);
+
+    expect(sendFeedbacks(controller, STABLE, 4)).not.toContain(true);
+    // a feedback with some loss resets the stable period
+    expect(controller.handleFeedback(UNSTABLE, 0)).toBe(false);
+    expect(sendFeedbacks(controller, STABLE, 4)).not.toContain(true);
+    expect(controller.bitrate).toBe(64000);
+    expect(controller.handleFeedback(STABLE, 0)).toBe(true);
+    expect(controller.bitrate).toBe(96000);
+  });
+
+  it('doubles the stable period when the network gets congested just after a raise', () => {
+    const controller = new AdaptiveBitrateController(2);
+    controller.handleFeedback(CONGESTED, 0);
+    sendFeedbacks(controller, STABLE, 5);
+    expect(controller.bitrate).toBeNull();
+
+    controller.handleFeedback(CONGESTED, 0);
+    expect(controller.bitrate).toBe(96000);
+    expect(sendFeedbacks(controller, STABLE, 9)).not.toContain(true);
+    expect(controller.handleFeedback(STABLE, 0)).toBe(true);
+    expect(controller.bitrate).toBeNull();
+
+    controller.handleFeedback(CONGESTED, 0);
+    expect(sendFeedbacks(controller, STABLE, 19)).not.toContain(true);
+    expect(controller.handleFeedback(STABLE, 0)).toBe(true);
+
+    // the period is capped at 40 feedbacks
+    controller.handleFeedback(CONGESTED, 0);
+    sendFeedbacks(controller, STABLE, 40);
+    controller.handleFeedback(CONGESTED, 0);
+    expect(sendFeedbacks(controller, STABLE, 39)).not.toContain(true);
+    expect(controller.handleFeedback(STABLE, 0)).toBe(true);
+  });
+
+  it('goes back to the shortest stable period when the network handled a raise', () => {
+    const controller = new AdaptiveBitrateController(2);
+    sendFeedbacks(controller, CONGESTED, 3);
+    sendFeedbacks(controller, STABLE, 5);
+    expect(controller.bitrate).toBe(64000);
+    controller.handleFeedback(CONGESTED, 0);
+    expect(controller.bitrate).toBe(48000);
+
+    expect(sendFeedbacks(controller, STABLE, 10)).toEqual([...Array(9).fill(false), true]);
+    expect(controller.bitrate).toBe(64000);
+    // the previous raise was not followed by a congestion so the period goes back to 5 feedbacks after this raise
+    expect(sendFeedbacks(controller, STABLE, 10)).toEqual([...Array(9).fill(false), true]);
+    expect(controller.bitrate).toBe(96000);
+    expect(sendFeedbacks(controller, STABLE, 5)).toEqual([...Array(4).fill(false), true]);
+    expect(controller.bitrate).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+// Lowers the opus bitrate of the audio sent to a peer when its network cannot keep up and raises it back when it recovers
+// the receiving peer regularly reports the ratio of lost chunks and of chunks received too late to be played,
+// the sending peer also checks the amount of data waiting to be sent on the datachannel
+// to prevent oscillating between two bitrates, the bitrate is only raised after a long period without any loss and this
+// period is doubled every time the network gets congested again just after raising the bitrate
+
+export interface TransportFeedback {
+  loss: number; // ratio of chunks never received, between 0 and 1
+  late: number; // ratio of chunks received after their playing time, between 0 and 1
+}
+
+// for a stereo source, multiplied by the number of stereo pairs for a multichannel source
+const BITRATE_STEPS = [96000, 64000, 48000, 32000, 24000, 16000];
+const CONGESTED_LOSS = 0.05;
+const CONGESTED_LATE = 0.02;
+const STABLE_LOSS = 0.01;
+const CONGESTED_BUFFERED_AMOUNT = 16 * 1024; // in bytes, around one second of audio at the highest step
+const MIN_STABLE_FEEDBACKS_BEFORE_RAISE = 5;
+const MAX_STABLE_FEEDBACKS_BEFORE_RAISE = 40;
+
+export class AdaptiveBitrateController {
+  private steps: number[];
+  private stepIndex = 0; // 0 is the bitrate configured for the source
+  private stableFeedbacksCount = 0;
+  private stableFeedbacksBeforeRaise = MIN_STABLE_FEEDBACKS_BEFORE_RAISE;
+  private raisedOnLastChange = false;
+
+  constructor(channels: number, maxBitrate?: number) {
+    const stereoPairs = Math.ceil(channels / 2);
+    this.steps = BITRATE_STEPS
+      .map((bitrate) => bitrate * stereoPairs)
+      .filter((bitrate) => maxBitrate === undefined || bitrate < maxBitrate);
+  }
+
+  // null means using the bitrate configured for the source
+  get bitrate() {
+    return this.stepIndex === 0 ? null : this.steps[this.stepIndex - 1];
+  }
+
+  // returns true if the bitrate changed
+  handleFeedback({ loss, late }: TransportFeedback, bufferedAmount: number) {
+    const congested = loss > CONGESTED_LOSS || late > CONGESTED_LATE || bufferedAmount > CONGESTED_BUFFERED_AMOUNT;
+    const stable = loss < STABLE_LOSS && late === 0 && bufferedAmount < CONGESTED_BUFFERED_AMOUNT / 8;
+
+    if (congested) {
+      this.stableFeedbacksCount = 0;
+      if (this.raisedOnLastChange) {
+        this.stableFeedbacksBeforeRaise = Math.min(this.stableFeedbacksBeforeRaise * 2, MAX_STABLE_FEEDBACKS_BEFORE_RAISE);
+      }
+      if (this.stepIndex === this.steps.length) {
+        return false;
+      }
+      this.stepIndex++;
+      this.raisedOnLastChange = false;
+      return true;
+    }
+    if (!stable) {
+      this.stableFeedbacksCount = 0;
+      return false;
+    }
+    this.stableFeedbacksCount++;
+    if (this.stableFeedbacksCount < this.stableFeedbacksBeforeRaise) {
+      return false;
+    }
+    this.stableFeedbacksCount = 0;
+    if (this.raisedOnLastChange) {
+      // the network handled the last raise, the next one can be done sooner
+      this.stableFeedbacksBeforeRaise = MIN_STABLE_FEEDBACKS_BEFORE_RAISE;
+    }
+    this.raisedOnLastChange = this.stepIndex !== 0;
+    if (this.stepIndex === 0) {
+      return false;
+    }
+    this.stepIndex--;
+    return true;
+  }
+}
@@ -0,0 +1,130 @@
+// Changes which input channel is played on which output channel of a sink
+// used to build a stereo pair with two speakers on different peers: one is set to "left" and the other to "right"
+// a custom matrix is a list of output channels, each being the gain of every input channel: [[1, 0], [0, 1]] is stereo
+// a custom matrix can also have a different number of input and output channels, for example [[0, 0, 0, 0, 1, 0], [0, 0, 0, 0, 0, 1]]
+// plays the back channels of a 5.1 source on a stereo speaker
+
+export type ChannelMappingPreset = 'stereo' | 'mono' | 'left' | 'right' | 'swapped';
+export type ChannelMapping = ChannelMappingPreset | number[][];
+
+export const MAX_CHANNELS = 8;
+
+const CHANNEL_MAPPING_PRESETS: {[preset in ChannelMappingPreset]: number[][]} = {
+  stereo: [[1, 0], [0, 1]],
+  mono: [[0.5, 0.5], [0.5, 0.5]],
+  left: [[1, 0], [1, 0]],
+  right: [[0, 1], [0, 1]],
+  swapped: [[0, 1], [1, 0]],
+};
+
+// Multichannel audio is always interleaved in the WAVE / SMPTE order, the same as ffmpeg and most audio APIs
+export type Speaker = 'L' | 'R' | 'C' | 'LFE' | 'BL' | 'BR' | 'BC' | 'SL' | 'SR';
+interface SpeakerRoute {
+  speaker: Speaker;
+  gain: number;
+}
+export type ChannelLayout = 'mono' | 'stereo' | '2.1' | 'quad' | '5.0' | '5.1' | '6.1' | '7.1';
+
+const CHANNEL_LAYOUTS: {[channels: number]: { name: ChannelLayout; speakers: Speaker[] }} = {
+  1: { name: 'mono', speakers: ['C'] },
+  2: { name: 'stereo', speakers: ['L', 'R'] },
+  3: { name: '2.1', speakers: ['L', 'R', 'LFE'] },
+  4: { name: 'quad', speakers: ['L', 'R', 'BL', 'BR'] },
+  5: { name: '5.0', speakers: ['L', 'R', 'C', 'BL', 'BR'] },
+  6: { name: '5.1', speakers: ['L', 'R', 'C', 'LFE', 'BL', 'BR'] },
+  7: { name: '6.1', speakers: ['L', 'R', 'C', 'LFE', 'BC', 'SL', 'SR'] },
+  8: { name: '7.1', speakers: ['L', 'R', 'C', 'LFE', 'BL', 'BR', 'SL', 'SR'] },
+};
+
+// where to send a speaker missing from the output layout: the first alternative with all its speakers in the output layout
+// is used, if none matches, the last one is routed again, the LFE is dropped like with most downmixers
+const SPEAKER_FALLBACKS: {[speaker in Speaker]: SpeakerRoute[][]} = {
+  L: [[{ speaker: 'C', gain: Math.SQRT1_2 }]],
+  R: [[{ speaker: 'C', gain: Math.SQRT1_2 }]],
+  C: [[{ speaker: 'L', gain: Math.SQRT1_2 }, { speaker: 'R', gain: Math.SQRT1_2 }]],
+  LFE: [[]],
+  BL: [[{ speaker: 'SL', gain: 1 }], [{ speaker: 'L', gain: Math.SQRT1_2 }]],
+  BR: [[{ speaker: 'SR', gain: 1 }], [{ speaker: 'R', gain: Math.SQRT1_2 }]],
+  SL: [[{ speaker: 'BL', gain: 1 }], [{ speaker: 'L', gain: Math.SQRT1_2 }]],
+  SR: [[{ speaker: 'BR', gain: 1 }], [{ speaker: 'R', gain: Math.SQRT1_2 }]],
+  BC: [
+    [{ speaker: 'BL', gain: Math.SQRT1_2 }, { speaker: 'BR', gain: Math.SQRT1_2 }],
+    [{ speaker: 'SL', gain: Math.SQRT1_2 }, { speaker: 'SR', gain: Math.SQRT1_2 }],
+    [{ speaker: 'L', gain: 0.5 }, { speaker: 'R', gain: 0.5 }],
+  ],
+};
+
+export const getChannelLayout = (channels: number) => CHANNEL_LAYOUTS[channels]?.name;
+export const getChannelSpeakers = (channels: number) => CHANNEL_LAYOUTS[channels]?.speakers;
+
+// each speaker of the input is sent to the same speaker of the output or to its fallbacks if missing
+// the matrix is then normalized to prevent clipping when all input channels are at their maximum
+export const getDownmixMatrix = (inputChannels: number, outputChannels: number) => {
+  const inputSpeakers = CHANNEL_LAYOUTS[inputChannels].speakers;
+  const outputSpeakers = CHANNEL_LAYOUTS[outputChannels].speakers;
+  const matrix = outputSpeakers.map(() => inputSpeakers.map(() => 0));
+  const route = (inputChannel: number, speaker: Speaker, gain: number) => {
+    const outputChannel = outputSpeakers.indexOf(speaker);
+    if (outputChannel !== -1) {
+      matrix[outputChannel][inputChannel] += gain;
+      return;
+    }
+    const alternatives = SPEAKER_FALLBACKS[speaker];
+    const fallbacks = alternatives.find((alternative) => alternative.every(({ speaker: fallback }) => outputSpeakers.includes(fallback)))
+      || alternatives[alternatives.length - 1];
+    fallbacks.forEach((fallback) => route(inputChannel, fallback.speaker, gain * fallback.gain));
+  };
+  inputSpeakers.forEach((speaker, inputChannel) => route(inputChannel, speaker, 1));
+  const maxOutputGain = Math.max(...matrix.map((gains) => gains.reduce((sum, gain) => sum + gain, 0)));
+  return maxOutputGain > 1 ? matrix.map((gains) => gains.map((gain) => gain / maxOutputGain)) : matrix;
+};
+
+// the number of channels of a sink depends on the device it is started on so it cannot be checked here
+export const isValidChannelMapping = (mapping: any) => {
+  if (typeof mapping === 'string') {
+    return Object.keys(CHANNEL_MAPPING_PRESETS).includes(mapping);
+  }
+  return Array.isArray(mapping)
+    && mapping.length >= 1
+    && mapping.length <= MAX_CHANNELS
+    && mapping.every((outputChannel) => Array.isArray(outputChannel)
+      && outputChannel.length >= 1
+      && outputChannel.length <= MAX_CHANNELS
+      && outputChannel.length === mapping[0].length
+      && outputChannel.every((gain) => typeof gain === 'number' && Number.isFinite(gain)));
+};
+
+const multiplyMatrices = (a: number[][], b: number[][]) => a.map((row) => b[0].map((_, column) => row.reduce((sum, value, i) => sum + value * b[i][column], 0)));
+
+// returns the matrix converting the channels of the source to the channels of the sink or null if the samples can be used as is
+// presets only make sense for stereo sinks and are ignored for the other ones
+// a custom matrix with the wrong number of channels for the current source or sink is ignored
+export const getChannelMappingMatrix = (mapping: ChannelMapping, inputChannels: number, outputChannels: number) => {
+  if (Array.isArray(mapping) && mapping.length === outputChannels && mapping[0].length === inputChannels) {
+    return mapping;
+  }
+  const downmix = inputChannels !== outputChannels ? getDownmixMatrix(inputChannels, outputChannels) : null;
+  const preset = typeof mapping === 'string' && mapping !== 'stereo' && outputChannels === 2 ? CHANNEL_MAPPING_PRESETS[mapping] : null;
+  if (downmix && preset) {
+    return multiplyMatrices(preset, downmix);
+  }
+  return downmix || preset;
+};
+
+// samples are interleaved, returns a new array as the input chunk can be shared with other sinks
+export const applyChannelMapping = (samples: Float32Array, matrix: number[][]) => {
+  const outputChannels = matrix.length;
+  const inputChannels = matrix[0].length;
+  const framesCount = samples.length / inputChannels;
+  const output = new Float32Array(framesCount * outputChannels);
+  for (let frame = 0; frame < framesCount; frame++) {
+    for (let outputChannel = 0; outputChannel < outputChannels; outputChannel++) {
+      let value = 0;
+      for (let inputChannel = 0; inputChannel < inputChannels; inputChannel++) {
+        value += matrix[outputChannel][inputChannel] * samples[frame * inputChannels + inputChannel];
+      }
+      output[frame * outputChannels + outputChannel] = value;
+    }
+  }
+  return output;
+};
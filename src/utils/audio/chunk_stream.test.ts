@@ -0,0 +1,211 @@
+import {
+  AudioChunkStreamEncoder,
+  AudioChunkStreamDecoder,
+  AudioChunkStreamOrderer,
+  AudioChunkStreamRetransmitter,
+  AudioChunkStreamOutput,
+  encodeRetransmitRequest,
+} from './chunk_stream';
+
+const CHUNK_DURATION = 10;
+const CHUNKS_COUNT = 2000;
+// the last chunks can stay in the orderer buffer waiting for a missing chunk at the end of the simulation
+const CHECKED_CHUNKS_COUNT = CHUNKS_COUNT - 50;
+const MAX_UNORDERED_CHUNKS = 10;
+
+const createChunk = (i: number): AudioChunkStreamOutput => ({ i, chunk: Buffer.from(`chunk ${i}`) });
+
+// seeded to always simulate the same network
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+};
+
+interface LossyLinkOptions {
+  lossRate: number;
+  retransmit: boolean;
+  // in ms, chunks are reordered when the jitter is greater than the chunk duration
+  maxJitter?: number;
+  // in ms, time for the retransmit request to reach the source and for the chunk to be sent again
+  retransmitDelay?: number;
+}
+
+// sends chunks every CHUNK_DURATION ms from a retransmitter to an orderer through a network dropping the first transmission
+// of some chunks and delivering the other ones with a random delay, the retransmitted chunks are never dropped
+const simulateLossyLink = ({
+  lossRate, retransmit, maxJitter = 20, retransmitDelay = 20,
+}: LossyLinkOptions) => {
+  const random = createRandom(42);
+  let time = 0;
+  let inFlight: { deliverAt: number; deliver: () => void }[] = [];
+  const send = (delay: number, deliver: () => void) => inFlight.push({ deliverAt: time + delay, deliver });
+
+  const droppedChunks = new Set<number>();
+  const receivedChunks = new Set<number>();
+  const retransmitRequests: number[][] = [];
+  const output: AudioChunkStreamOutput[] = [];
+  let duplicatesCount = 0;
+  let requestsForReceivedChunks = 0;
+
+  const encoder = new AudioChunkStreamEncoder();
+  const retransmitter = new AudioChunkStreamRetransmitter((1000 / CHUNK_DURATION) * 2);
+  const decoder = new AudioChunkStreamDecoder();
+  const orderer = new AudioChunkStreamOrderer(MAX_UNORDERED_CHUNKS, retransmit ? (chunkIndexes) => {
+    retransmitRequests.push(chunkIndexes);
+    requestsForReceivedChunks += chunkIndexes.filter((i) => receivedChunks.has(i)).length;
+    const request = encodeRetransmitRequest(chunkIndexes);
+    send(retransmitDelay, () => retransmitter.retransmit(request));
+  } : undefined);
+
+  let isRetransmitting = false;
+  const originalRetransmit = retransmitter.retransmit.bind(retransmitter);
+  retransmitter.retransmit = (request) => {
+    isRetransmitting = true;
+    originalRetransmit(request);
+    isRetransmitting = false;
+  };
+  encoder.pipe(retransmitter);
+  retransmitter.on('data', (packet: Uint8Array) => {
+    const i = new DataView(packet.buffer, packet.byteOffset).getUint32(0);
+    if (!isRetransmitting && random() < lossRate) {
+      droppedChunks.add(i);
+      return;
+    }
+    send(random() * maxJitter, () => {
+      if (receivedChunks.has(i)) {
+        duplicatesCount++;
+      }
+      receivedChunks.add(i);
+      decoder.write(packet);
+    });
+  });
+  decoder.pipe(orderer);
+  orderer.on('data', (chunk: AudioChunkStreamOutput) => output.push(chunk));
+
+  const deliverInFlight = () => {
+    const delivered = inFlight.filter(({ deliverAt }) => deliverAt <= time).sort((a, b) => a.deliverAt - b.deliverAt);
+    inFlight = inFlight.filter(({ deliverAt }) => deliverAt > time);
+    delivered.forEach(({ deliver }) => deliver());
+  };
+
+  for (time = 0; time < (CHUNKS_COUNT * CHUNK_DURATION) + 1000; time++) {
+    if (time % CHUNK_DURATION === 0 && time / CHUNK_DURATION < CHUNKS_COUNT) {
+      encoder.write(createChunk(time / CHUNK_DURATION));
+    }
+    deliverInFlight();
+  }
+
+  const lastEmittedChunk = output[output.length - 1].i;
+  return {
+    orderer,
+    output: output.filter(({ i }) => i < CHECKED_CHUNKS_COUNT),
+    droppedChunks: [...droppedChunks].filter((i) => i < CHECKED_CHUNKS_COUNT),
+    // the chunks dropped after the last emitted one are still waited for by the orderer
+    emittedDroppedChunksCount: [...droppedChunks].filter((i) => i < lastEmittedChunk).length,
+    retransmitRequests,
+    requestsForReceivedChunks,
+    duplicatesCount,
+  };
+};
+
+const expectOrdered = (output: AudioChunkStreamOutput[]) => {
+  output.slice(1).forEach(({ i }, index) => expect(i).toBeGreaterThan(output[index].i));
+};
+
+describe('AudioChunkStreamOrderer on a lossy link', () => {
+  it('reorders the chunks and skips the lost ones without retransmission', () => {
+    const {
+      orderer, output, droppedChunks, emittedDroppedChunksCount, retransmitRequests,
+    } = simulateLossyLink({ lossRate: 0.05, retransmit: false });
+    expect(droppedChunks.length).toBeGreaterThan(50);
+    expect(retransmitRequests).toEqual([]);
+    expectOrdered(output);
+
+    output.forEach(({ i, chunk }) => {
+      if (droppedChunks.includes(i)) {
+        // a single lost chunk is emitted empty to be concealed by the decoder
+        expect(chunk.length).toBe(0);
+      } else {
+        expect(Buffer.from(chunk).toString()).toBe(`chunk ${i}`);
+      }
+    });
+    const emittedIndexes = output.map(({ i }) => i);
+    for (let i = 0; i < CHECKED_CHUNKS_COUNT; i++) {
+      if (!droppedChunks.includes(i)) {
+        expect(emittedIndexes).toContain(i);
+      }
+    }
+    expect(orderer.missedChunksCount).toBe(emittedDroppedChunksCount);
+  });
+
+  it('requests the lost chunks and recovers all of them with retransmission', () => {
+    const {
+      orderer, output, droppedChunks, retransmitRequests, requestsForReceivedChunks, duplicatesCount,
+    } = simulateLossyLink({ lossRate: 0.05, retransmit: true });
+    expect(droppedChunks.length).toBeGreaterThan(50);
+
+    const requestedChunks = retransmitRequests.flat();
+    droppedChunks.forEach((i) => expect(requestedChunks).toContain(i));
+    // chunks are requested as soon as a more recent one is received so a delayed chunk can also be requested
+    // but never after being received
+    expect(requestsForReceivedChunks).toBe(0);
+    expect(duplicatesCount).toBeGreaterThan(0);
+
+    expect(output.map(({ i }) => i)).toEqual(Array.from({ length: CHECKED_CHUNKS_COUNT }, (_, i) => i));
+    output.forEach(({ i, chunk }) => expect(Buffer.from(chunk).toString()).toBe(`chunk ${i}`));
+    expect(orderer.missedChunksCount).toBe(0);
+    // the chunks received twice are only counted once
+    expect(orderer.receivedChunksCount).toBe(CHUNKS_COUNT);
+  });
+
+  it('conceals the lost chunks when the retransmission is too slow and ignores them when they arrive', () => {
+    const {
+      orderer, output, droppedChunks, retransmitRequests,
+    } = simulateLossyLink({ lossRate: 0.05, retransmit: true, retransmitDelay: MAX_UNORDERED_CHUNKS * CHUNK_DURATION * 2 });
+    expect(retransmitRequests.length).toBeGreaterThan(0);
+    expectOrdered(output);
+    output
+      .filter(({ i }) => droppedChunks.includes(i))
+      .forEach(({ chunk }) => expect(chunk.length).toBe(0));
+    expect(orderer.missedChunksCount).toBeGreaterThanOrEqual(droppedChunks.length);
+    // every chunk is counted once, either as received or as missed
+    expect(orderer.receivedChunksCount + orderer.missedChunksCount).toBeLessThanOrEqual(CHUNKS_COUNT);
+  });
+
+  it('counts a chunk received after being concealed as missed only', () => {
+    const requests: number[][] = [];
+    const orderer = new AudioChunkStreamOrderer(3, (chunkIndexes) => requests.push(chunkIndexes));
+    const output: AudioChunkStreamOutput[] = [];
+    orderer.on('data', (chunk: AudioChunkStreamOutput) => output.push(chunk));
+
+    [0, 1, 3, 4, 5].forEach((i) => orderer.write(createChunk(i)));
+    expect(requests).toEqual([[2]]);
+    expect(output.map(({ i, chunk }) => [i, chunk.length !== 0])).toEqual([[0, true], [1, true], [2, false], [3, true], [4, true], [5, true]]);
+
+    orderer.write(createChunk(2));
+    orderer.write(createChunk(4));
+    expect(output.length).toBe(6);
+    expect(orderer.receivedChunksCount).toBe(5);
+    expect(orderer.missedChunksCount).toBe(1);
+  });
+});
+
+describe('AudioChunkStreamRetransmitter', () => {
+  it('only sends again the requested chunks still in its history', () => {
+    const retransmitter = new AudioChunkStreamRetransmitter(5);
+    const encoder = new AudioChunkStreamEncoder();
+    const decoder = new AudioChunkStreamDecoder();
+    encoder.pipe(retransmitter).pipe(decoder);
+    const received: number[] = [];
+    decoder.on('data', ({ i }: AudioChunkStreamOutput) => received.push(i));
+
+    for (let i = 0; i < 10; i++) {
+      encoder.write(createChunk(i));
+    }
+    retransmitter.retransmit(encodeRetransmitRequest([2, 7, 9, 12]));
+    expect(received).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 7, 9]);
+  });
+});
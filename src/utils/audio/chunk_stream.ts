@@ -5,7 +5,7 @@ import { now } from '../misc';
 import {
   OPUS_ENCODER_CHUNK_DURATION, OPUS_ENCODER_CHUNKS_PER_SECONDS, OPUS_ENCODER_RATE, OPUS_ENCODER_CHUNK_SAMPLES_COUNT,
 } from '../constants';
-import { OpusApplication } from './opus';
+import { OpusApplication, OpusEncoderOptions } from './opus';
 import { OpusEncodeStream, OpusDecodeStream } from './opus_streams';
 
 // if we try reading 5 times and there is still no data available, stop the stream and try again on the "readable" event
@@ -21,6 +21,10 @@ export interface AudioChunkStreamOutput {
   chunk: Buffer;
 }
 
+// codec of the chunks sent to another peer, pcm is lossless but uses ~3Mbps for a stereo source
+export type AudioTransportCodec = 'opus' | 'pcm';
+export type OpusApplicationMode = 'voip' | 'audio' | 'lowdelay';
+
 // This is used to control the output throughput of a stream and emit chunks of "chunkSize" bytes every "chunkDuration" ms
 // every chunk has a index corresponding to when this chunk is emitted (i = [time when chunk was read relative to the creating of the stream] / chunkDuration)
 // as long as the source stream can be read, the index is incremented directly
@@ -147,12 +151,84 @@ export class AudioChunkStreamDecoder extends Minipass {
   }
 }
 
+// Keeps the last chunks sent to a peer to send them again when the peer reports them as lost
+// the chunks are already encoded with their index, the index of the requested chunks are encoded the same way
+export class AudioChunkStreamRetransmitter extends Minipass {
+  private history = new Map<number, Uint8Array>();
+
+  constructor(public historySize: number) {
+    super({
+      objectMode: true,
+    });
+  }
+
+  write(d: any, encoding?: string | (() => void), cb?: () => void) {
+    const encodedChunk = d as Uint8Array;
+    this.history.set(new DataView(encodedChunk.buffer, encodedChunk.byteOffset).getUint32(0), encodedChunk);
+    if (this.history.size > this.historySize) {
+      // a map is iterated in insertion order, the first key is the oldest chunk
+      this.history.delete(this.history.keys().next().value);
+    }
+    const returnVal = super.write(encodedChunk);
+    if (cb) {
+      cb();
+    }
+    return returnVal;
+  }
+
+  retransmit(request: Uint8Array) {
+    const view = new DataView(request.buffer, request.byteOffset, request.byteLength);
+    for (let offset = 0; offset + Uint32Array.BYTES_PER_ELEMENT <= request.byteLength; offset += Uint32Array.BYTES_PER_ELEMENT) {
+      const encodedChunk = this.history.get(view.getUint32(offset));
+      if (encodedChunk) {
+        super.write(encodedChunk);
+      }
+    }
+  }
+}
+
+export const encodeRetransmitRequest = (chunkIndexes: number[]) => {
+  const request = new Uint8Array(chunkIndexes.length * Uint32Array.BYTES_PER_ELEMENT);
+  const view = new DataView(request.buffer);
+  chunkIndexes.forEach((chunkIndex, i) => view.setUint32(i * Uint32Array.BYTES_PER_ELEMENT, chunkIndex));
+  return request;
+};
+
+// Used by the lossless transport, the chunks are already float32 PCM, a lost chunk is replaced by silence
+export class AudioChunkStreamPcmDecoder extends Minipass {
+  constructor(public channels: number) {
+    super({
+      objectMode: true,
+    });
+  }
+
+  write(d: any, encoding?: string | (() => void), cb?: () => void) {
+    const chunkOutput: AudioChunkStreamOutput = {
+      i: d.i,
+      chunk: d.chunk.length
+        ? Buffer.from(d.chunk.buffer, d.chunk.byteOffset, d.chunk.byteLength)
+        : Buffer.alloc(OPUS_ENCODER_CHUNK_SAMPLES_COUNT * this.channels * Float32Array.BYTES_PER_ELEMENT),
+    };
+    // the stream is in object mode, the typings of minipass only accept buffers and strings
+    const returnVal = super.write(chunkOutput as any);
+    if (cb) {
+      cb();
+    }
+    return returnVal;
+  }
+}
+
 // Used to reorder incoming chunk. If a chunk is missing, buffer up to [maxUnorderedChunks] chunks
+// if set, handleMissingChunks is called with the index of the chunks skipped by a newly received chunk to request them again
 export class AudioChunkStreamOrderer extends Minipass {
   buffer: AudioChunkStreamOutput[] = [];
+  // counters used to measure the quality of the network transport, see RemoteSource
+  receivedChunksCount = 0;
+  missedChunksCount = 0;
   private nextEmittableChunkIndex = -1;
+  private highestReceivedChunkIndex = -1;
 
-  constructor(public maxUnorderedChunks = 10) {
+  constructor(public maxUnorderedChunks = 10, private handleMissingChunks?: (chunkIndexes: number[]) => void) {
     super({
       objectMode: true,
     });
@@ -174,10 +250,22 @@ export class AudioChunkStreamOrderer extends Minipass {
     if (this.nextEmittableChunkIndex === -1) {
       this.nextEmittableChunkIndex = d.i;
     }
+    if (this.buffer.some(({ i }) => i === d.i)) {
+      // chunk sent twice because of a retransmission request, ignoring
+      return true;
+    }
     if (d.i < this.nextEmittableChunkIndex) {
-      // late chunk, we already emitted more recent chunks, ignoring
+      // late chunk, we already emitted it or more recent chunks, ignoring
+      // it was counted as received or missed at that time so it is not counted again
       return true;
     }
+    this.receivedChunksCount++;
+    if (this.handleMissingChunks && this.highestReceivedChunkIndex !== -1 && d.i > this.highestReceivedChunkIndex + 1) {
+      // only the chunks we can still wait for are requested
+      const firstMissingChunkIndex = Math.max(this.highestReceivedChunkIndex + 1, d.i - this.maxUnorderedChunks);
+      this.handleMissingChunks(Array.from({ length: d.i - firstMissingChunkIndex }, (_, i) => firstMissingChunkIndex + i));
+    }
+    this.highestReceivedChunkIndex = Math.max(this.highestReceivedChunkIndex, d.i);
 
     if (this.nextEmittableChunkIndex === d.i) {
       // ordered chunk, act as a passthrough
@@ -194,6 +282,7 @@ export class AudioChunkStreamOrderer extends Minipass {
     // gap is too big, giving up on waiting for the chunk to be received
     if (this.buffer.length && this.buffer.length >= this.maxUnorderedChunks) {
       // console.log(`== gap too big, starting emitting, next emitable ${this.nextEmittableChunkIndex}`);
+      this.missedChunksCount += this.buffer[0].i - this.nextEmittableChunkIndex;
       if (this.buffer[0].i - this.nextEmittableChunkIndex === 1) {
         l(`Conceilling missing chunk ${this.nextEmittableChunkIndex}`);
         // there is only one missing chunk, we can send empty packet to let OPUS try to coneal this
@@ -273,17 +362,35 @@ export const createAudioChunkStream = (startTime: number, sourceStream: NodeJS.R
     .pipe(audioChunkResampler);
 };
 
-export const createAudioEncodedStream = (channels: number) => {
-  const opusEncoderStream = new OpusEncodeStream(OPUS_ENCODER_RATE, channels, OpusApplication.OPUS_APPLICATION_RESTRICTED_LOWDELAY);
+export const createAudioEncodedStream = (
+  channels: number,
+  { application, ...options }: OpusEncoderOptions & { application?: OpusApplicationMode } = {},
+) => {
+  // opus never adds FEC data with the lowdelay application
+  const mode = application || (options.fec ? 'audio' : 'lowdelay');
+  const opusApplications: {[mode in OpusApplicationMode]: OpusApplication} = {
+    voip: OpusApplication.OPUS_APPLICATION_VOIP,
+    audio: OpusApplication.OPUS_APPLICATION_AUDIO,
+    lowdelay: OpusApplication.OPUS_APPLICATION_RESTRICTED_LOWDELAY,
+  };
+  const opusEncoderStream = new OpusEncodeStream(OPUS_ENCODER_RATE, channels, opusApplications[mode], options);
   const chunkEncoder = new AudioChunkStreamEncoder();
   opusEncoderStream.pipe(chunkEncoder);
   return { input: opusEncoderStream, output: chunkEncoder };
 };
 
-export const createAudioDecodedStream = (channels: number) => {
+export const createAudioDecodedStream = (channels: number, handleMissingChunks?: (chunkIndexes: number[]) => void) => {
   const chunkDecoderStream = new AudioChunkStreamDecoder();
-  const orderer = new AudioChunkStreamOrderer(10); // opus codec expect an ordered chunk stream but the webrtc datachannel is in unordered mode so we need to try to reorder them to prevent audio glitches
+  const orderer = new AudioChunkStreamOrderer(10, handleMissingChunks); // opus codec expect an ordered chunk stream but the webrtc datachannel is in unordered mode so we need to try to reorder them to prevent audio glitches
   const opusDecoderStream = new OpusDecodeStream(OPUS_ENCODER_RATE, channels);
   chunkDecoderStream.pipe(orderer).pipe(opusDecoderStream);
-  return { input: chunkDecoderStream, output: opusDecoderStream };
+  return { input: chunkDecoderStream, output: opusDecoderStream, orderer };
+};
+
+export const createAudioPcmDecodedStream = (channels: number, handleMissingChunks?: (chunkIndexes: number[]) => void) => {
+  const chunkDecoderStream = new AudioChunkStreamDecoder();
+  const orderer = new AudioChunkStreamOrderer(10, handleMissingChunks);
+  const pcmDecoderStream = new AudioChunkStreamPcmDecoder(channels);
+  chunkDecoderStream.pipe(orderer).pipe(pcmDecoderStream);
+  return { input: chunkDecoderStream, output: pcmDecoderStream, orderer };
 };
@@ -0,0 +1,187 @@
+// Biquad filters, gain and limiter applied by the sinks on the interleaved float32 samples before playing them
+// the filter coefficients are computed with the formulas of the Audio EQ Cookbook by Robert Bristow-Johnson
+
+export type DspFilterType = 'peaking' | 'lowshelf' | 'highshelf' | 'lowpass' | 'highpass';
+
+export interface DspFilter {
+  type: DspFilterType;
+  frequency: number; // in Hz
+  gain?: number; // in dB, only used by peaking and shelf filters
+  q?: number; // only used by peaking, lowpass and highpass filters
+  // only used by lowpass and highpass filters, 4 is a Linkwitz-Riley crossover: the lowpass of a sink and the highpass
+  // of another one with the same frequency sum to a flat response, used for a subwoofer + satellites setup
+  order?: 2 | 4;
+}
+
+export interface DspConfig {
+  filters?: DspFilter[];
+  gain?: number; // in dB
+  limiter?: {
+    threshold: number; // in dBFS, should be negative
+    release?: number; // in ms
+  };
+}
+
+const FILTER_TYPES: DspFilterType[] = ['peaking', 'lowshelf', 'highshelf', 'lowpass', 'highpass'];
+const DEFAULT_Q = Math.SQRT1_2; // butterworth response for lowpass and highpass filters
+const DEFAULT_LIMITER_RELEASE = 100;
+
+export const dbToGain = (db: number) => 10 ** (db / 20);
+
+export const assertValidDspConfig = (config: DspConfig, rate: number) => {
+  if (config.filters !== undefined && !Array.isArray(config.filters)) {
+    throw new Error('dsp.filters should be an array');
+  }
+  (config.filters || []).forEach((filter, i) => {
+    if (!FILTER_TYPES.includes(filter.type)) {
+      throw new Error(`dsp.filters[${i}].type should be one of ${FILTER_TYPES.join(', ')}`);
+    }
+    if (typeof filter.frequency !== 'number' || filter.frequency <= 0 || filter.frequency >= rate / 2) {
+      throw new Error(`dsp.filters[${i}].frequency should be a number between 0 and ${rate / 2}`);
+    }
+    if (filter.gain !== undefined && typeof filter.gain !== 'number') {
+      throw new Error(`dsp.filters[${i}].gain should be a number`);
+    }
+    if (filter.q !== undefined && (typeof filter.q !== 'number' || filter.q <= 0)) {
+      throw new Error(`dsp.filters[${i}].q should be a positive number`);
+    }
+    if (filter.order !== undefined && filter.order !== 2 && filter.order !== 4) {
+      throw new Error(`dsp.filters[${i}].order should be 2 or 4`);
+    }
+  });
+  if (config.gain !== undefined && typeof config.gain !== 'number') {
+    throw new Error('dsp.gain should be a number');
+  }
+  if (config.limiter !== undefined) {
+    if (typeof config.limiter.threshold !== 'number' || config.limiter.threshold > 0) {
+      throw new Error('dsp.limiter.threshold should be a negative number');
+    }
+    if (config.limiter.release !== undefined && (typeof config.limiter.release !== 'number' || config.limiter.release <= 0)) {
+      throw new Error('dsp.limiter.release should be a positive number');
+    }
+  }
+};
+
+export class BiquadFilter {
+  private b0: number;
+  private b1: number;
+  private b2: number;
+  private a1: number;
+  private a2: number;
+  // transposed direct form II state of each channel
+  private z1: Float64Array;
+  private z2: Float64Array;
+
+  constructor(type: DspFilterType, frequency: number, gain: number, q: number, rate: number, private channels: number) {
+    const w0 = (2 * Math.PI * frequency) / rate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    const A = 10 ** (gain / 40);
+    // shelves always use a slope of 1
+    const shelfAlpha = 2 * Math.sqrt(A) * (Math.sin(w0) / 2) * Math.SQRT2;
+    let coefficients: number[]; // b0, b1, b2, a0, a1, a2
+    if (type === 'peaking') {
+      coefficients = [1 + alpha * A, -2 * cos, 1 - alpha * A, 1 + alpha / A, -2 * cos, 1 - alpha / A];
+    } else if (type === 'lowshelf') {
+      coefficients = [
+        A * ((A + 1) - (A - 1) * cos + shelfAlpha),
+        2 * A * ((A - 1) - (A + 1) * cos),
+        A * ((A + 1) - (A - 1) * cos - shelfAlpha),
+        (A + 1) + (A - 1) * cos + shelfAlpha,
+        -2 * ((A - 1) + (A + 1) * cos),
+        (A + 1) + (A - 1) * cos - shelfAlpha,
+      ];
+    } else if (type === 'highshelf') {
+      coefficients = [
+        A * ((A + 1) + (A - 1) * cos + shelfAlpha),
+        -2 * A * ((A - 1) + (A + 1) * cos),
+        A * ((A + 1) + (A - 1) * cos - shelfAlpha),
+        (A + 1) - (A - 1) * cos + shelfAlpha,
+        2 * ((A - 1) - (A + 1) * cos),
+        (A + 1) - (A - 1) * cos - shelfAlpha,
+      ];
+    } else if (type === 'lowpass') {
+      coefficients = [(1 - cos) / 2, 1 - cos, (1 - cos) / 2, 1 + alpha, -2 * cos, 1 - alpha];
+    } else {
+      coefficients = [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha];
+    }
+    const [b0, b1, b2, a0, a1, a2] = coefficients;
+    this.b0 = b0 / a0;
+    this.b1 = b1 / a0;
+    this.b2 = b2 / a0;
+    this.a1 = a1 / a0;
+    this.a2 = a2 / a0;
+    this.z1 = new Float64Array(channels);
+    this.z2 = new Float64Array(channels);
+  }
+
+  // samples are interleaved and processed in place
+  process(samples: Float32Array) {
+    for (let i = 0; i < samples.length; i++) {
+      const channel = i % this.channels;
+      const x = samples[i];
+      const y = this.b0 * x + this.z1[channel];
+      this.z1[channel] = this.b1 * x - this.a1 * y + this.z2[channel];
+      this.z2[channel] = this.b2 * x - this.a2 * y;
+      samples[i] = y;
+    }
+  }
+}
+
+export class DspChain {
+  private filters: BiquadFilter[] = [];
+  private gain: number;
+  private limiterThreshold: number;
+  private limiterReleaseCoefficient: number;
+  private limiterGain = 1;
+
+  constructor(config: DspConfig, rate: number, private channels: number) {
+    (config.filters || []).forEach((filter) => {
+      const isPass = filter.type === 'lowpass' || filter.type === 'highpass';
+      const q = filter.q ?? (isPass ? DEFAULT_Q : 1);
+      const cascadeCount = isPass && filter.order === 4 ? 2 : 1;
+      for (let i = 0; i < cascadeCount; i++) {
+        this.filters.push(new BiquadFilter(filter.type, filter.frequency, filter.gain || 0, q, rate, channels));
+      }
+    });
+    this.gain = dbToGain(config.gain || 0);
+    if (config.limiter) {
+      this.limiterThreshold = dbToGain(config.limiter.threshold);
+      this.limiterReleaseCoefficient = 1 - Math.exp(-1000 / ((config.limiter.release || DEFAULT_LIMITER_RELEASE) * rate));
+    }
+  }
+
+  // returns a new array as the input chunk can be shared with other sinks
+  process(input: Float32Array) {
+    const samples = new Float32Array(input);
+    this.filters.forEach((filter) => filter.process(samples));
+    if (this.gain !== 1) {
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] *= this.gain;
+      }
+    }
+    if (this.limiterThreshold !== undefined) {
+      this.limit(samples);
+    }
+    return samples;
+  }
+
+  // the gain is reduced instantly when a frame is above the threshold and goes back to 1 with an exponential release
+  private limit(samples: Float32Array) {
+    for (let frame = 0; frame < samples.length; frame += this.channels) {
+      let peak = 0;
+      for (let channel = 0; channel < this.channels; channel++) {
+        peak = Math.max(peak, Math.abs(samples[frame + channel]));
+      }
+      const targetGain = peak > this.limiterThreshold ? this.limiterThreshold / peak : 1;
+      if (targetGain < this.limiterGain) {
+        this.limiterGain = targetGain;
+      } else {
+        this.limiterGain += (targetGain - this.limiterGain) * this.limiterReleaseCoefficient;
+      }
+      for (let channel = 0; channel < this.channels; channel++) {
+        samples[frame + channel] *= this.limiterGain;
+      }
+    }
+  }
+}
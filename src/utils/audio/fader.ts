@@ -0,0 +1,37 @@
+// Gain applied by the audio worklets to the samples read from their buffer to start and stop a source without clicks
+// the gain changes linearly and a fade can be delayed to wait for the previous source of the sink to fade out
+
+export class AudioFader {
+  private gain: number;
+  private targetGain: number;
+  private step = 0; // gain change per frame
+  private delayFrames = 0;
+
+  constructor(initialGain = 1) {
+    this.gain = initialGain;
+    this.targetGain = initialGain;
+  }
+
+  fadeTo(targetGain: number, durationFrames: number, delayFrames = 0) {
+    this.targetGain = targetGain;
+    this.delayFrames = delayFrames;
+    this.step = durationFrames > 0 ? (targetGain - this.gain) / durationFrames : targetGain - this.gain;
+  }
+
+  // samples are interleaved and processed in place
+  process(samples: Float32Array, channels: number) {
+    if (this.gain === 1 && this.targetGain === 1) {
+      return;
+    }
+    for (let frame = 0; frame < samples.length; frame += channels) {
+      if (this.delayFrames > 0) {
+        this.delayFrames--;
+      } else if (this.gain !== this.targetGain) {
+        this.gain = this.step > 0 ? Math.min(this.gain + this.step, this.targetGain) : Math.max(this.gain + this.step, this.targetGain);
+      }
+      for (let channel = 0; channel < channels; channel++) {
+        samples[frame + channel] *= this.gain;
+      }
+    }
+  }
+}
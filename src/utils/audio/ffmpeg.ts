@@ -0,0 +1,99 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import debug from 'debug';
+
+// ffmpeg is not bundled with Soundsync, it needs to be installed on the host and available in the PATH
+// or its path can be set with the FFMPEG_PATH env variable
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+const l = debug('soundsync:ffmpeg');
+
+interface FfmpegDecoderOptions {
+  rate: number;
+  channels: number;
+  // in ms from the start of the input, only usable with a seekable input (a file)
+  seek?: number;
+  // forces the format of the input instead of letting ffmpeg probe it, useful for raw streams
+  inputFormat?: string;
+  // raw PCM streams don't have any header, the rate and channels count of the input needs to be set
+  inputRate?: number;
+  inputChannels?: number;
+  log?: debug.Debugger;
+}
+
+export const spawnFfmpeg = (args: string[], { log = l, useStdin = false } = {}) => {
+  const ffmpegProcess = spawn(FFMPEG_PATH, [
+    '-hide_banner',
+    '-loglevel', 'error',
+    ...(useStdin ? [] : ['-nostdin']),
+    ...args,
+  ]);
+  // without a listener, the error event emitted when the executable cannot be found would crash the process
+  ffmpegProcess.on('error', (e) => log('Error from ffmpeg process', e));
+  if (ffmpegProcess.pid === undefined) {
+    throw new Error(`Unable to start ffmpeg, make sure it is installed and available in the PATH or set the FFMPEG_PATH env variable`);
+  }
+  ffmpegProcess.stderr.on('data', (d) => log(d.toString()));
+  return ffmpegProcess;
+};
+
+// Decodes any audio file or stream supported by ffmpeg to interleaved PCM signed 16 bits little endian samples
+// written to the stdout of the returned process, if input is a stream, it's piped to stdin
+export const spawnFfmpegDecoder = (
+  input: string | NodeJS.ReadableStream,
+  {
+    rate, channels, seek, inputFormat, inputRate, inputChannels, log = l,
+  }: FfmpegDecoderOptions,
+): ChildProcessWithoutNullStreams => {
+  const isStreamInput = typeof input !== 'string';
+  const ffmpegProcess = spawnFfmpeg([
+    ...(seek ? ['-ss', String(seek / 1000)] : []),
+    ...(inputFormat ? ['-f', inputFormat] : []),
+    ...(inputRate ? ['-ar', String(inputRate)] : []),
+    ...(inputChannels ? ['-ac', String(inputChannels)] : []),
+    '-i', isStreamInput ? 'pipe:0' : input as string,
+    '-vn',
+    '-f', 's16le',
+    '-acodec', 'pcm_s16le',
+    '-ar', String(rate),
+    '-ac', String(channels),
+    'pipe:1',
+  ], { log, useStdin: isStreamInput });
+  if (isStreamInput) {
+    // the ffmpeg process can exit before the input stream is finished, we ignore the write errors
+    ffmpegProcess.stdin.on('error', () => {});
+    (input as NodeJS.ReadableStream).pipe(ffmpegProcess.stdin);
+  }
+  return ffmpegProcess;
+};
+
+interface FfmpegEncoderOptions {
+  rate: number;
+  channels: number;
+  // format of the PCM samples written to stdin
+  inputFormat?: string;
+  // codec and container options, ffmpeg guesses them from the output extension if not set
+  outputArgs?: string[];
+  log?: debug.Debugger;
+}
+
+// Encodes the interleaved PCM samples written to the stdin of the returned process to a file
+// or to the stdout of the process if output is "pipe:1"
+export const spawnFfmpegEncoder = (
+  output: string,
+  {
+    rate, channels, inputFormat = 'f32le', outputArgs = [], log = l,
+  }: FfmpegEncoderOptions,
+): ChildProcessWithoutNullStreams => {
+  const ffmpegProcess = spawnFfmpeg([
+    '-f', inputFormat,
+    '-ar', String(rate),
+    '-ac', String(channels),
+    '-i', 'pipe:0',
+    ...outputArgs,
+    '-y',
+    output,
+  ], { log, useStdin: true });
+  // writing to the process after it exited would emit an error and crash the process, the exit is handled by the caller
+  ffmpegProcess.stdin.on('error', () => {});
+  return ffmpegProcess;
+};
@@ -0,0 +1,70 @@
+import { JitterEstimator } from './jitter_estimator';
+import { LATENCY_MARGIN, OPUS_ENCODER_CHUNK_DURATION } from '../constants';
+
+// 2 seconds of chunks
+const MIN_SAMPLES = 2000 / OPUS_ENCODER_CHUNK_DURATION;
+// 20 seconds of chunks
+const WINDOW_SIZE = 20000 / OPUS_ENCODER_CHUNK_DURATION;
+
+const addArrivals = (estimator: JitterEstimator, delays: number[]) => delays.forEach((delay) => estimator.addArrival(delay));
+
+// one chunk in [spikeInterval] is received [spikeDelay] ms late, the other ones [delay] ms late
+const createDelays = (count: number, delay: number, spikeDelay = delay, spikeInterval = 100) => Array.from(
+  { length: count },
+  (_, i) => (i % spikeInterval === spikeInterval - 1 ? spikeDelay : delay),
+);
+
+describe('JitterEstimator', () => {
+  it('waits for 2 seconds of chunks before recommending a margin', () => {
+    const estimator = new JitterEstimator();
+    expect(estimator.getRecommendedLatencyMargin('robust')).toBeNull();
+    addArrivals(estimator, createDelays(MIN_SAMPLES - 1, 50));
+    expect(estimator.getRecommendedLatencyMargin('robust')).toBeNull();
+    expect(estimator.getRecommendedLatencyMargin('lowLatency')).toBeNull();
+    estimator.addArrival(50);
+    expect(estimator.getRecommendedLatencyMargin('robust')).not.toBeNull();
+    expect(estimator.getRecommendedLatencyMargin('lowLatency')).not.toBeNull();
+  });
+
+  it('ignores 1% of spikes with the lowLatency policy', () => {
+    const estimator = new JitterEstimator();
+    addArrivals(estimator, createDelays(1000, 40, 500));
+    // 99th percentile of the delays + 20ms
+    expect(estimator.getRecommendedLatencyMargin('lowLatency')).toBe(60);
+  });
+
+  it('follows the highest delay with the robust policy', () => {
+    const estimator = new JitterEstimator();
+    addArrivals(estimator, createDelays(1000, 40, 500));
+    // highest delay + 100ms
+    expect(estimator.getRecommendedLatencyMargin('robust')).toBe(600);
+  });
+
+  it('does not recommend a margin lower than the minimum of the policy', () => {
+    const estimator = new JitterEstimator();
+    addArrivals(estimator, createDelays(1000, 2));
+    expect(estimator.getRecommendedLatencyMargin('lowLatency')).toBe(30);
+    expect(estimator.getRecommendedLatencyMargin('robust')).toBe(LATENCY_MARGIN);
+    // chunks received before being emitted because of a clock sync error
+    addArrivals(estimator, createDelays(WINDOW_SIZE, -10));
+    expect(estimator.getRecommendedLatencyMargin('lowLatency')).toBe(30);
+  });
+
+  it('rounds the margin up to the millisecond', () => {
+    const estimator = new JitterEstimator();
+    addArrivals(estimator, createDelays(1000, 40.2));
+    expect(estimator.getRecommendedLatencyMargin('lowLatency')).toBe(61);
+  });
+
+  it('only uses the delays of the last 20 seconds', () => {
+    const estimator = new JitterEstimator();
+    addArrivals(estimator, createDelays(1000, 40, 1000, 1000));
+    expect(estimator.getRecommendedLatencyMargin('robust')).toBe(1100);
+    addArrivals(estimator, createDelays(WINDOW_SIZE - 1, 300));
+    // the spike is the last chunk of the first batch and is still in the window
+    expect(estimator.getRecommendedLatencyMargin('robust')).toBe(1100);
+    estimator.addArrival(300);
+    expect(estimator.getRecommendedLatencyMargin('robust')).toBe(400);
+    expect(estimator.getRecommendedLatencyMargin('lowLatency')).toBe(320);
+  });
+});
@@ -0,0 +1,40 @@
+// Measures how late the chunks of a source are received by a sink compared to when they were emitted by the source
+// this delay includes the network latency and jitter, the time spent encoding and decoding the chunks and the clock sync error
+// the latency margin recommended to the source is a percentile of this delay on the last seconds, depending on the latency policy:
+// - lowLatency: can be lower than the default margin on a good network, a few chunks can be received too late on a network spike
+// - robust: the default, never lower than the default margin and grows with the highest delay on a bad network
+
+import { LATENCY_MARGIN, OPUS_ENCODER_CHUNK_DURATION } from '../constants';
+
+export type LatencyPolicy = 'lowLatency' | 'robust';
+
+const WINDOW_DURATION = 20 * 1000;
+const WINDOW_SIZE = WINDOW_DURATION / OPUS_ENCODER_CHUNK_DURATION;
+const MIN_SAMPLES = 2000 / OPUS_ENCODER_CHUNK_DURATION;
+
+const POLICIES: {[policy in LatencyPolicy]: { percentile: number; padding: number; minMargin: number }} = {
+  lowLatency: { percentile: 0.99, padding: 20, minMargin: 30 },
+  robust: { percentile: 1, padding: 100, minMargin: LATENCY_MARGIN },
+};
+
+export class JitterEstimator {
+  private delays = new Float32Array(WINDOW_SIZE);
+  private samplesCount = 0;
+
+  // delay in ms between the time the chunk was emitted by the source and the time it was received
+  addArrival(delay: number) {
+    this.delays[this.samplesCount % WINDOW_SIZE] = delay;
+    this.samplesCount++;
+  }
+
+  // returns null until enough chunks have been received to have a meaningful estimation
+  getRecommendedLatencyMargin(policy: LatencyPolicy) {
+    if (this.samplesCount < MIN_SAMPLES) {
+      return null;
+    }
+    const { percentile, padding, minMargin } = POLICIES[policy];
+    const sortedDelays = this.delays.slice(0, Math.min(this.samplesCount, WINDOW_SIZE)).sort();
+    const delay = sortedDelays[Math.floor((sortedDelays.length - 1) * percentile)];
+    return Math.max(minMargin, Math.ceil(delay + padding));
+  }
+}
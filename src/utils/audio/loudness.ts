@@ -0,0 +1,115 @@
+// Short-term loudness measurement from EBU R128 / ITU-R BS.1770 and a slow automatic gain control used by the sources
+// to play every source at the same loudness, the samples should be interleaved float32 at 48kHz as the K-weighting
+// filter coefficients are the ones given by BS.1770 for this rate
+
+import { OPUS_ENCODER_RATE } from '../constants';
+import { dbToGain } from './dsp';
+import { getChannelSpeakers } from './channel_mapping';
+
+const BLOCK_DURATION = 100; // in ms, the short-term loudness is updated after each block
+const SHORT_TERM_DURATION = 3000;
+const BLOCK_FRAMES = (BLOCK_DURATION / 1000) * OPUS_ENCODER_RATE;
+const SHORT_TERM_BLOCKS_COUNT = SHORT_TERM_DURATION / BLOCK_DURATION;
+// below this loudness, the source is considered silent and the gain is kept to not boost the background noise
+const SILENCE_LOUDNESS = -50;
+const MAX_BOOST = 12; // in dB
+const MAX_ATTENUATION = 20; // in dB
+// in dB per second, reducing the gain faster than raising it prevents a loud passage from being too loud for too long
+const ATTACK_RATE = 6;
+const RELEASE_RATE = 2;
+
+// K-weighting: a high shelf modeling the head followed by a highpass filter (RLB), [b0, b1, b2, a1, a2]
+const K_WEIGHTING_FILTERS = [
+  [1.53512485958697, -2.69169618940638, 1.19839281085285, -1.69065929318241, 0.73248077421585],
+  [1.0, -2.0, 1.0, -1.99004745483398, 0.99007225036621],
+];
+
+// surround channels are louder for the listener and the LFE is not measured
+const getChannelWeight = (speaker: string) => {
+  if (speaker === 'LFE') {
+    return 0;
+  }
+  return ['BL', 'BR', 'BC', 'SL', 'SR'].includes(speaker) ? 1.41 : 1;
+};
+
+export class LoudnessNormalizer {
+  loudness = -Infinity; // short-term loudness of the input in LUFS
+  private weights: number[];
+  private filtersState: Float64Array[]; // z1 and z2 of every filter for every channel
+  private blockPower = 0;
+  private blockFrames = 0;
+  private blocksPower: number[] = [];
+  private targetGainDb = 0;
+  private gainDb = 0;
+  private gain = 1;
+
+  constructor(public readonly channels: number, public targetLoudness: number) {
+    const speakers = getChannelSpeakers(channels) || [];
+    this.weights = Array.from({ length: channels }, (_, channel) => getChannelWeight(speakers[channel]));
+    this.filtersState = K_WEIGHTING_FILTERS.map(() => new Float64Array(channels * 2));
+  }
+
+  // returns a new array as the input chunk can be used by something else
+  process(input: Float32Array) {
+    const framesCount = input.length / this.channels;
+    for (let frame = 0; frame < framesCount; frame++) {
+      for (let channel = 0; channel < this.channels; channel++) {
+        const weighted = this.kWeight(input[frame * this.channels + channel], channel);
+        this.blockPower += weighted * weighted * this.weights[channel];
+      }
+      this.blockFrames++;
+      if (this.blockFrames === BLOCK_FRAMES) {
+        this.handleBlockEnd();
+      }
+    }
+
+    let peak = 0;
+    for (let i = 0; i < input.length; i++) {
+      peak = Math.max(peak, Math.abs(input[i]));
+    }
+    const maxGainChange = ((this.targetGainDb < this.gainDb ? ATTACK_RATE : RELEASE_RATE) * framesCount) / OPUS_ENCODER_RATE;
+    this.gainDb += Math.max(-maxGainChange, Math.min(maxGainChange, this.targetGainDb - this.gainDb));
+    // a boosted peak is reduced immediately to prevent clipping
+    if (peak * dbToGain(this.gainDb) > 1) {
+      this.gainDb = -20 * Math.log10(peak);
+    }
+    // the gain changes linearly during the chunk to prevent zipper noise
+    const startGain = this.gain;
+    const endGain = dbToGain(this.gainDb);
+    const output = new Float32Array(input.length);
+    for (let frame = 0; frame < framesCount; frame++) {
+      const gain = startGain + ((endGain - startGain) * (frame + 1)) / framesCount;
+      for (let channel = 0; channel < this.channels; channel++) {
+        output[frame * this.channels + channel] = input[frame * this.channels + channel] * gain;
+      }
+    }
+    this.gain = endGain;
+    return output;
+  }
+
+  private kWeight(sample: number, channel: number) {
+    let value = sample;
+    K_WEIGHTING_FILTERS.forEach(([b0, b1, b2, a1, a2], filterIndex) => {
+      const state = this.filtersState[filterIndex];
+      const y = b0 * value + state[channel * 2];
+      state[channel * 2] = b1 * value - a1 * y + state[channel * 2 + 1];
+      state[channel * 2 + 1] = b2 * value - a2 * y;
+      value = y;
+    });
+    return value;
+  }
+
+  private handleBlockEnd() {
+    this.blocksPower.push(this.blockPower / this.blockFrames);
+    if (this.blocksPower.length > SHORT_TERM_BLOCKS_COUNT) {
+      this.blocksPower.shift();
+    }
+    this.blockPower = 0;
+    this.blockFrames = 0;
+    const power = this.blocksPower.reduce((sum, blockPower) => sum + blockPower, 0) / this.blocksPower.length;
+    this.loudness = power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+    if (this.loudness > SILENCE_LOUDNESS) {
+      this.targetGainDb = Math.max(-MAX_ATTENUATION, Math.min(MAX_BOOST, this.targetLoudness - this.loudness));
+    }
+  }
+}
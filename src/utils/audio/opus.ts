@@ -18,6 +18,23 @@ interface EmscriptenModuleOpusEncoder extends EmscriptenModule {
   _opus_encode(handle: number, pcm: number, frameSize: number, data: number, maxDataBytes: number): number;
   _opus_encode_float(handle: number, pcm: number, frameSize: number, data: number, maxDataBytes: number): number;
   _opus_encoder_destroy(handle: number): void;
+  // from opus_glue.c, opus_encoder_ctl is variadic and cannot be called directly
+  _opus_encoder_set_ctl(handle: number, request: number, value: number): number;
+
+  _opus_multistream_decoder_create(
+    samplingRate: number, channels: number, streams: number, coupledStreams: number, mapping: number, error_ptr: number): number;
+  _opus_multistream_decode_float(
+    handle: number, data: number, len: number,
+    pcm: number, frameSize: number, decodeFec: number): number;
+  _opus_multistream_decoder_destroy(handle: number): void;
+
+  _opus_multistream_encoder_create(
+    samplingRate: number, channels: number, streams: number, coupledStreams: number, mapping: number, application: number, error_ptr: number): number;
+  _opus_multistream_encode(handle: number, pcm: number, frameSize: number, data: number, maxDataBytes: number): number;
+  _opus_multistream_encode_float(handle: number, pcm: number, frameSize: number, data: number, maxDataBytes: number): number;
+  _opus_multistream_encoder_destroy(handle: number): void;
+  // from opus_glue.c, same as _opus_encoder_set_ctl
+  _opus_multistream_encoder_set_ctl(handle: number, request: number, value: number): number;
 
   _opus_strerror(err: number): number;
 
@@ -37,52 +54,100 @@ export declare const enum OpusApplication {
   OPUS_APPLICATION_RESTRICTED_LOWDELAY = 2051
 }
 
+const enum OpusEncoderCtlRequest {
+  OPUS_SET_BITRATE_REQUEST = 4002,
+  OPUS_SET_COMPLEXITY_REQUEST = 4010,
+  OPUS_SET_INBAND_FEC_REQUEST = 4012,
+  OPUS_SET_PACKET_LOSS_PERC_REQUEST = 4014,
+  OPUS_SET_DTX_REQUEST = 4016,
+}
+
+// the inband FEC is only used by opus if it expects some packet loss
+const FEC_EXPECTED_PACKET_LOSS_PERCENTAGE = 10;
+
+export interface OpusEncoderOptions {
+  bitrate?: number; // in bits per second, chosen by opus from the number of channels if not set
+  complexity?: number; // from 0 to 10, lower values use less CPU
+  fec?: boolean; // inband forward error correction, adds redundancy to recover from a lost packet
+  dtx?: boolean; // discontinuous transmission, sends less data during silence
+}
+
 export class OpusDecoder {
   handle: number;
   bufPtr: number;
   pcmPtr: number;
-  buf: Uint8Array;
-  pcm: Float32Array;
+  bufSize: number;
+  pcmSamples: number;
   frameSize: number;
   module: EmscriptenModuleOpusEncoder;
 
   // eslint-disable-next-line no-empty-function
-  constructor(readonly sampleRate: number, readonly channels: number) {}
+  constructor(readonly sampleRate: number, readonly channels: number, readonly maxFrameDuration = OPUS_ENCODER_CHUNK_DURATION) {}
+
+  // the views on the wasm memory are created on each use as they are detached when the memory grows
+  get buf() {
+    return this.module.HEAPU8.subarray(this.bufPtr, this.bufPtr + this.bufSize);
+  }
+
+  get pcm() {
+    return this.module.HEAPF32.subarray(this.pcmPtr / 4, this.pcmPtr / 4 + this.pcmSamples);
+  }
 
   // The promise decorator is necessarry because else the js engine will try to call .then in loop
   // and so will create an infinite loop
-  setup = () => new Promise((resolve) => {
+  setup = () => new Promise((resolve, reject) => {
     Opus().then((Module: EmscriptenModuleOpusEncoder) => {
       this.module = Module;
       const err = this.module._malloc(4);
-      this.handle = this.module._opus_decoder_create(this.sampleRate, this.channels, err);
+      this.handle = this.createHandle(err);
       const errNum = this.module.getValue(err, 'i32');
       this.module._free(err);
       if (errNum !== 0) {
         throw new Error(this.module.AsciiToString(this.module._opus_strerror(errNum)));
       }
 
-      this.frameSize = (this.sampleRate / 1000) * OPUS_ENCODER_CHUNK_DURATION;
-      const pcmSamples = this.frameSize * this.channels;
-      const bufSize = this.frameSize * this.channels;
-      this.pcmPtr = this.module._malloc(4 * pcmSamples);
-      this.bufPtr = this.module._malloc(bufSize);
-      this.buf = this.module.HEAPU8.subarray(this.bufPtr, this.bufPtr + bufSize);
-      this.pcm = this.module.HEAPF32.subarray(this.pcmPtr / 4, this.pcmPtr / 4 + pcmSamples);
+      this.frameSize = (this.sampleRate / 1000) * this.maxFrameDuration;
+      this.pcmSamples = this.frameSize * this.channels;
+      this.bufSize = this.frameSize * this.channels;
+      this.pcmPtr = this.module._malloc(4 * this.pcmSamples);
+      this.bufPtr = this.module._malloc(this.bufSize);
       resolve();
-    });
+    }).catch(reject);
   })
 
-  decodeFloat(data: Uint8Array) {
+  protected createHandle(errPtr: number) {
+    return this.module._opus_decoder_create(this.sampleRate, this.channels, errPtr);
+  }
+
+  protected decodeFloatPacket(dataPtr: number, length: number, decodeFec: number) {
+    return this.module._opus_decode_float(this.handle, dataPtr, length, this.pcmPtr, this.frameSize, decodeFec);
+  }
+
+  protected destroyHandle() {
+    this.module._opus_decoder_destroy(this.handle);
+  }
+
+  // the wasm instance and its memory can be garbage collected once the module is not referenced anymore
+  destroy() {
+    if (!this.handle) {
+      return;
+    }
+    this.destroyHandle();
+    delete this.handle;
+    delete this.module;
+  }
+
+  // with decodeFec, the frame before this packet is decoded from its inband FEC data, used when this previous frame was lost
+  decodeFloat(data: Uint8Array, decodeFec = false) {
     if (!this.handle) {
       throw new Error('Decoder should be setup before usage');
     }
     this.buf.set(data);
     let decodedSamplesPerChannel;
     if (data.length === 0) {
-      decodedSamplesPerChannel = this.module._opus_decode_float(this.handle, 0, 0, this.pcmPtr, this.frameSize, 0);
+      decodedSamplesPerChannel = this.decodeFloatPacket(0, 0, 0);
     } else {
-      decodedSamplesPerChannel = this.module._opus_decode_float(this.handle, this.bufPtr, data.length, this.pcmPtr, this.frameSize, 0);
+      decodedSamplesPerChannel = this.decodeFloatPacket(this.bufPtr, data.length, decodeFec ? 1 : 0);
     }
     if (decodedSamplesPerChannel < 0) {
       throw new Error(this.module.AsciiToString(this.module._opus_strerror(decodedSamplesPerChannel)));
@@ -97,22 +162,29 @@ export class OpusEncoder {
   handle: number;
   bufPtr: number;
   pcmPtr: number;
-  buf: Uint8Array;
-  pcm: Uint8Array;
   frameSize: number;
   bufSize: number;
   module: EmscriptenModuleOpusEncoder;
 
   // eslint-disable-next-line no-empty-function
-  constructor(readonly sampleRate: number, readonly channels: number, readonly application: number) {}
+  constructor(readonly sampleRate: number, readonly channels: number, readonly application: number, readonly options: OpusEncoderOptions = {}) {}
+
+  // the views on the wasm memory are created on each use as they are detached when the memory grows
+  get buf() {
+    return this.module.HEAPU8.subarray(this.bufPtr, this.bufPtr + this.bufSize);
+  }
+
+  get pcm() {
+    return this.module.HEAPU8.subarray(this.pcmPtr, this.pcmPtr + this.bufSize);
+  }
 
   // The promise decorator is necessarry because else the js engine will try to call .then in loop
   // and so will create an infinite loop
-  setup = () => new Promise((resolve) => {
+  setup = () => new Promise((resolve, reject) => {
     Opus().then((Module: EmscriptenModuleOpusEncoder) => {
       this.module = Module;
       const err = this.module._malloc(4);
-      this.handle = this.module._opus_encoder_create(this.sampleRate, this.channels, this.application, err);
+      this.handle = this.createHandle(err);
       const errNum = this.module.getValue(err, 'i32');
       this.module._free(err);
       if (errNum !== 0) {
@@ -123,19 +195,76 @@ export class OpusEncoder {
       this.bufSize = this.frameSize * this.channels * 4; // 4 bytes per sample = Float32
       this.bufPtr = this.module._malloc(this.bufSize);
       this.pcmPtr = this.module._malloc(this.bufSize);
-      this.buf = this.module.HEAPU8.subarray(this.bufPtr, this.bufPtr + this.bufSize);
-      this.pcm = this.module.HEAPU8.subarray(this.pcmPtr, this.pcmPtr + this.bufSize);
+      this.applyOptions();
       resolve();
-    });
+    }).catch(reject);
   })
 
+  protected createHandle(errPtr: number) {
+    return this.module._opus_encoder_create(this.sampleRate, this.channels, this.application, errPtr);
+  }
+
+  protected setCtl(request: number, value: number) {
+    if (!this.module._opus_encoder_set_ctl) {
+      throw new Error('The opus module was built without opus_encoder_set_ctl, rebuild it with yarn build:opus');
+    }
+    return this.module._opus_encoder_set_ctl(this.handle, request, value);
+  }
+
+  protected encodePacket(frameSize: number) {
+    return this.module._opus_encode(this.handle, this.pcmPtr, frameSize, this.bufPtr, this.bufSize);
+  }
+
+  protected encodeFloatPacket(frameSize: number) {
+    return this.module._opus_encode_float(this.handle, this.pcmPtr, frameSize, this.bufPtr, this.bufSize);
+  }
+
+  protected destroyHandle() {
+    this.module._opus_encoder_destroy(this.handle);
+  }
+
+  // the wasm instance and its memory can be garbage collected once the module is not referenced anymore
+  destroy() {
+    if (!this.handle) {
+      return;
+    }
+    this.destroyHandle();
+    delete this.handle;
+    delete this.module;
+  }
+
+  private applyOptions() {
+    const {
+      bitrate, complexity, fec, dtx,
+    } = this.options;
+    const setCtl = (request: OpusEncoderCtlRequest, value: number) => {
+      const err = this.setCtl(request, value);
+      if (err !== 0) {
+        throw new Error(`Cannot set opus encoder option ${request} to ${value}: ${this.module.AsciiToString(this.module._opus_strerror(err))}`);
+      }
+    };
+    if (bitrate !== undefined) {
+      setCtl(OpusEncoderCtlRequest.OPUS_SET_BITRATE_REQUEST, bitrate);
+    }
+    if (complexity !== undefined) {
+      setCtl(OpusEncoderCtlRequest.OPUS_SET_COMPLEXITY_REQUEST, complexity);
+    }
+    if (fec) {
+      setCtl(OpusEncoderCtlRequest.OPUS_SET_INBAND_FEC_REQUEST, 1);
+      setCtl(OpusEncoderCtlRequest.OPUS_SET_PACKET_LOSS_PERC_REQUEST, FEC_EXPECTED_PACKET_LOSS_PERCENTAGE);
+    }
+    if (dtx) {
+      setCtl(OpusEncoderCtlRequest.OPUS_SET_DTX_REQUEST, 1);
+    }
+  }
+
   encode(pcm: Buffer) {
     if (!this.handle) {
       throw new Error('Encoder should be setup before usage');
     }
     this.pcm.set(pcm);
     const frameSize = pcm.length / 2 / this.channels;
-    const encodedLength = this.module._opus_encode(this.handle, this.pcmPtr, frameSize, this.bufPtr, this.bufSize);
+    const encodedLength = this.encodePacket(frameSize);
     if (encodedLength < 0) {
       throw new Error(this.module.AsciiToString(this.module._opus_strerror(encodedLength)));
     }
@@ -149,7 +278,7 @@ export class OpusEncoder {
     }
     this.pcm.set(pcm);
     const frameSize = pcm.length / Float32Array.BYTES_PER_ELEMENT / this.channels;
-    const encodedLength = this.module._opus_encode_float(this.handle, this.pcmPtr, frameSize, this.bufPtr, this.bufSize);
+    const encodedLength = this.encodeFloatPacket(frameSize);
     if (encodedLength < 0) {
       throw new Error(this.module.AsciiToString(this.module._opus_strerror(encodedLength)));
     }
@@ -157,3 +286,88 @@ export class OpusEncoder {
     return encoded;
   }
 }
+
+// more than 2 channels are encoded with the multistream API of opus: front, back and side channels are coupled in stereo
+// streams and the center and LFE are encoded in mono streams, like libopus does for the surround layouts. The channels are
+// in the WAVE order (see channel_mapping.ts) instead of the Vorbis order of the surround API so the mapping is set here
+const MULTISTREAM_CHANNELS_BY_STREAM: {[channels: number]: number[][]} = {
+  3: [[0, 1], [2]],
+  4: [[0, 1], [2, 3]],
+  5: [[0, 1], [3, 4], [2]],
+  6: [[0, 1], [4, 5], [2], [3]],
+  7: [[0, 1], [5, 6], [2], [3], [4]],
+  8: [[0, 1], [4, 5], [6, 7], [2], [3]],
+};
+
+// the coupled streams are listed first, their channels are decoded before the channels of the mono streams
+// and the mapping gives the index of the decoded channel used for each channel
+const getMultistreamLayout = (channels: number) => {
+  const streamsChannels = MULTISTREAM_CHANNELS_BY_STREAM[channels];
+  if (!streamsChannels) {
+    throw new Error(`Opus multistream doesn't support ${channels} channels`);
+  }
+  const mapping: number[] = [];
+  [].concat(...streamsChannels).forEach((channel: number, decodedChannel: number) => {
+    mapping[channel] = decodedChannel;
+  });
+  return {
+    streams: streamsChannels.length,
+    coupledStreams: streamsChannels.filter((streamChannels) => streamChannels.length === 2).length,
+    mapping,
+  };
+};
+
+const createMultistreamHandle = (
+  module: EmscriptenModuleOpusEncoder,
+  channels: number,
+  create: (streams: number, coupledStreams: number, mappingPtr: number) => number,
+) => {
+  const { streams, coupledStreams, mapping } = getMultistreamLayout(channels);
+  const mappingPtr = module._malloc(mapping.length);
+  module.HEAPU8.set(mapping, mappingPtr);
+  const handle = create(streams, coupledStreams, mappingPtr);
+  // the mapping is copied by opus in the encoder and decoder state
+  module._free(mappingPtr);
+  return handle;
+};
+
+// the bitrate set in the options is shared by opus between the streams
+export class OpusMultistreamEncoder extends OpusEncoder {
+  protected createHandle(errPtr: number) {
+    return createMultistreamHandle(this.module, this.channels, (streams, coupledStreams, mappingPtr) => this.module._opus_multistream_encoder_create(
+      this.sampleRate, this.channels, streams, coupledStreams, mappingPtr, this.application, errPtr,
+    ));
+  }
+
+  protected setCtl(request: number, value: number) {
+    return this.module._opus_multistream_encoder_set_ctl(this.handle, request, value);
+  }
+
+  protected encodePacket(frameSize: number) {
+    return this.module._opus_multistream_encode(this.handle, this.pcmPtr, frameSize, this.bufPtr, this.bufSize);
+  }
+
+  protected encodeFloatPacket(frameSize: number) {
+    return this.module._opus_multistream_encode_float(this.handle, this.pcmPtr, frameSize, this.bufPtr, this.bufSize);
+  }
+
+  protected destroyHandle() {
+    this.module._opus_multistream_encoder_destroy(this.handle);
+  }
+}
+
+export class OpusMultistreamDecoder extends OpusDecoder {
+  protected createHandle(errPtr: number) {
+    return createMultistreamHandle(this.module, this.channels, (streams, coupledStreams, mappingPtr) => this.module._opus_multistream_decoder_create(
+      this.sampleRate, this.channels, streams, coupledStreams, mappingPtr, errPtr,
+    ));
+  }
+
+  protected decodeFloatPacket(dataPtr: number, length: number, decodeFec: number) {
+    return this.module._opus_multistream_decode_float(this.handle, dataPtr, length, this.pcmPtr, this.frameSize, decodeFec);
+  }
+
+  protected destroyHandle() {
+    this.module._opus_multistream_decoder_destroy(this.handle);
+  }
+}
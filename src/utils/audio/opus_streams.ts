@@ -1,18 +1,23 @@
 import MiniPass from 'minipass';
-import { OpusEncoder, OpusApplication, OpusDecoder } from './opus';
+import {
+  OpusEncoder, OpusApplication, OpusDecoder, OpusMultistreamEncoder, OpusMultistreamDecoder, OpusEncoderOptions,
+} from './opus';
 import {
   AudioChunkStreamOutput,
 } from './chunk_stream';
 
 export class OpusEncodeStream extends MiniPass {
-  encoder: OpusEncoder;
+  encoder: OpusEncoder | OpusMultistreamEncoder;
   readyPromise: Promise<unknown>;
 
-  constructor(sampleRate: number, channels: number, application: OpusApplication) {
+  constructor(sampleRate: number, channels: number, application: OpusApplication, options: OpusEncoderOptions = {}) {
     super({
       objectMode: true,
     });
-    this.encoder = new OpusEncoder(sampleRate, channels, application);
+    // more than 2 channels cannot be encoded in a single opus stream
+    this.encoder = channels > 2
+      ? new OpusMultistreamEncoder(sampleRate, channels, application, options)
+      : new OpusEncoder(sampleRate, channels, application, options);
     this.readyPromise = this.encoder.setup();
   }
 
@@ -31,21 +36,25 @@ export class OpusEncodeStream extends MiniPass {
         if (cb) {
           cb();
         }
-      });
+      })
+      // the encoder options can be rejected by opus, this is forwarded to the source using this stream
+      .catch((e) => this.emit('error', e));
 
     return true;
   }
 }
 
 export class OpusDecodeStream extends MiniPass {
-  decoder: OpusDecoder;
+  decoder: OpusDecoder | OpusMultistreamDecoder;
   readyPromise: Promise<unknown>;
+  // a lost chunk is decoded when the next one is received to recover it from the inband FEC data of the next chunk
+  private lostChunkIndex: number = null;
 
   constructor(sampleRate: number, channels: number) {
     super({
       objectMode: true,
     });
-    this.decoder = new OpusDecoder(sampleRate, channels);
+    this.decoder = channels > 2 ? new OpusMultistreamDecoder(sampleRate, channels) : new OpusDecoder(sampleRate, channels);
     this.readyPromise = this.decoder.setup();
   }
 
@@ -54,16 +63,29 @@ export class OpusDecodeStream extends MiniPass {
     if (this.emittedEnd) {
       return;
     }
-    const decodedFrame = this.decoder.decodeFloat(d.chunk);
-    super.write({
-      i: d.i,
-      chunk: Buffer.from(decodedFrame),
-    });
+    if (this.lostChunkIndex !== null) {
+      // without FEC data in the next chunk or if it was also lost, opus conceals the lost chunk
+      const canUseFec = d.chunk.length !== 0 && d.i === this.lostChunkIndex + 1;
+      this.writeDecodedChunk(this.lostChunkIndex, canUseFec ? d.chunk : new Uint8Array(0), canUseFec);
+      this.lostChunkIndex = null;
+    }
+    if (d.chunk.length === 0) {
+      this.lostChunkIndex = d.i;
+    } else {
+      this.writeDecodedChunk(d.i, d.chunk);
+    }
     if (cb) {
       cb();
     }
   }
 
+  private writeDecodedChunk(i: number, chunk: Uint8Array, decodeFec = false) {
+    super.write({
+      i,
+      chunk: Buffer.from(this.decoder.decodeFloat(chunk, decodeFec)),
+    });
+  }
+
   write(d: any, encoding?: string | (() => void), cb?: () => void) {
     this._handleChunk(d, cb);
     return true;
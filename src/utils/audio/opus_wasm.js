@@ -1,16 +1,76 @@
+/* eslint-disable */
+// Generated by scripts/build_opus_wasm.js, do not edit
 
-var Opus = (function() {
-  var _scriptDir = typeof document !== 'undefined' && document.currentScript ? document.currentScript.src : undefined;
-  if (typeof __filename !== 'undefined') _scriptDir = _scriptDir || __filename;
-  return (
-function(Opus) {
-  Opus = Opus || {};
+var WASM_BASE64 = 'AGFzbQEAAAAB6gVDYAd/f39/f39/AGAAAGADf39/AX9gAX8AYAR/f39/AGAGf39/f39/AGABfwF/YAV/f39/fwBgB39/f39/f38Bf2ADf39/AGAIf39/f39/f38Bf2ACf38Bf2APf39/f39/f39/f39/f39/AGAaf39/f39/f39/f39/f39/f39/f39/f39/f38AYAh/f39/f39/fwBgAn9/AGAKf39/f39/f39/fwBgDH9/f39/f39/f39/fwBgCn9/f39/f39/f38Bf2ALf39/f39/f39/f38AYAV/f39/fwF/YAR/f39/AX9gBn9/f39/fwF/YAR/f399AGAFf399f38AYAZ/f31/f38BfWADf399AGACf38BfGADf39/AXxgDH9/f39/f319f39/fwF/YAR/f31/AGADf31/AGADf39/AX1gBX1/f39/AX9gCX9/f39/f39/fwBgDn9/f39/f39/f39/f39/AGALf39/f39/f39/f38Bf2AXf39/f39/f39/f39/f39/f39/f39/f38AYAt/f39/f39/f31/fwF/YAl/f39/f39/fX8Bf2AMf39/f399fX9/f39/AGAMf39/f39/f39/f39/AX9gFX9/f39/f39/f39/f39/f39/f39/fwF9YA1/f39/f39/f399f31/AX9gDX9/f39/f39/f39/f38AYAR/f39/AX1gCH9/f39/f31/AX1gEX9/f39/f39/f39/f39/f39/AGAPf39/f39/f39/f39/f31/AX9gE39/f39/f39/f39/f39/f39/f38Bf2AFf39/f38BfWAJf39/f39/fX9/AX9gB39/f39/f30Bf2AJf39/f39/f39/AX9gDX9/f39/f39/f39/f38Bf2AJf399fX9/f39/AGAHfX99f39/fwF/YAp/f39/f39/f39/AX1gAnx8AXxgAnx/AX9gA3x8fwF8YAF8AXxgAn98AXxgAX8BfGADfH5+AXxgAX0Bf2ACfH8BfAO/Ar0CAQECAgMEBQUGBwgJBwcCBgYKBgIKBwcHBwsHCQkMDA0DBwQOCQ8JBgsLEBEDCAUEEgQTBQYLCxQLCQQCBwUJCQcVBgYFCwQJCRUVBAQHBAQEBAYEDwQPDw8PFg8HBAcEDxYXBQcHBw4JBAkAGAkEBAUQBBkaGxwJHR4fIAQhBgAAIiMkCSUmJAQnBBMGKAQGBhUCDhYpCCIUKiYrBgICCAkOLAQtBgkLCwQLAgsLCQQECQQJCQkPAw8JBAIGDg4CBwUFLgkFAAgvMA4QDgAiBTEFMjM0HhQECwsKBgICNRYAFgIDCwIGFRUAAAItFTY1FQAFFjcVNzgCFBQCAwYCAgITCgYGCBIUABQAAgIDFhY1AgIWAAMGAhUGCAIPAwkREDkJCQYGAgMDAQY6FDs8PT4/Pz1APUA/PT09QUIEBQFwAQYGBQUBASCACAYOAn8BQeDxwgALfwBBAAsH9wMVBm1lbW9yeQIAC19pbml0aWFsaXplAAEUb3B1c19lbmNvZGVyX3NldF9jdGwAAiBvcHVzX211bHRpc3RyZWFtX2VuY29kZXJfc2V0X2N0bAADDW9wdXNfc3RyZXJyb3IAjwETb3B1c19kZWNvZGVyX2NyZWF0ZQDdAQZtYWxsb2MApAIEZnJlZQCnAhFvcHVzX2RlY29kZV9mbG9hdADhARRvcHVzX2RlY29kZXJfZGVzdHJveQDjARNvcHVzX2VuY29kZXJfY3JlYXRlAOgBC29wdXNfZW5jb2RlAPkBEW9wdXNfZW5jb2RlX2Zsb2F0APoBFG9wdXNfZW5jb2Rlcl9kZXN0cm95APwBH29wdXNfbXVsdGlzdHJlYW1fZW5jb2Rlcl9jcmVhdGUAhQIdb3B1c19tdWx0aXN0cmVhbV9lbmNvZGVfZmxvYXQAhwIXb3B1c19tdWx0aXN0cmVhbV9lbmNvZGUAiQIgb3B1c19tdWx0aXN0cmVhbV9lbmNvZGVyX2Rlc3Ryb3kAjQIfb3B1c19tdWx0aXN0cmVhbV9kZWNvZGVyX2NyZWF0ZQCPAh1vcHVzX211bHRpc3RyZWFtX2RlY29kZV9mbG9hdACTAiBvcHVzX211bHRpc3RyZWFtX2RlY29kZXJfZGVzdHJveQCVAgkQAQBBAQsF6gHpAYgCigKUAgrDwRG9AgIACzEAAkAjgYCAgABB4O2CgABqKAIARQ0AAAsjgYCAgABB4O2CgABqQQE2AgAQgICAgAALNwEBfyOAgICAAEEQayIDJICAgIAAIAMgAjYCACAAIAEgAxD7gYCAACECIANBEGokgICAgAAgAgs3AQF/I4CAgIAAQRBrIgMkgICAgAAgAyACNgIAIAAgASADEIyCgIAAIQIgA0EQaiSAgICAACACC/wBAQp/Qf//ASAAKAKkEiIBQQFqbSECAkAgAUEBSA0AIAFBA3EhA0EAIQRBACEFAkAgAUEESQ0AIABB2h9qIQYgAUH8////B3EhByACIAJqIgggAmoiCSACaiEKQQAhAUEAIQUDQCAGIAEgCmoiBDsBACAGQX5qIAkgAWo7AQAgBkF8aiAIIAFqOwEAIAZBemogAiABajsBACAGQQhqIQYgBCEBIAcgBUEEaiIFRw0ACwsgA0UNACAEIAJqIQYgBUEBdCAAakHUH2ohAQNAIAEgBjsBACABQQJqIQEgBiACaiEGIANBf2oiAw0ACwsgAEKAgICAgJCeGDcCtCALohgBG38jgICAgABBIGsiBCEFIAQkgICAgAACQCAAKAKMEiIGIAAoArwgRg0AQf//ASAAKAKkEiIHQQFqbSEIAkAgB0EBSA0AIAdBA3EhCUEAIQpBACELAkAgB0EESQ0AIABB2h9qIQwgB0H8////B3EhDSAIIAhqIg4gCGoiDyAIaiEQQQAhB0EAIQsDQCAMIAcgEGoiCjsBACAMQX5qIA8gB2o7AQAgDEF8aiAOIAdqOwEAIAxBemogCCAHajsBACAMQQhqIQwgCiEHIA0gC0EEaiILRw0ACwsgCUUNACAKIAhqIQwgC0EBdCAAakHUH2ohBwNAIAcgDDsBACAHQQJqIQcgDCAIaiEMIAlBf2oiCQ0ACwsgACAGNgK8ICAAQoCAgICAkJ4YNwK0IAsgAEHUFWohCAJAAkACQCAAKALAIA0AAkAgACgCxCANAAJAIAAoAqQSIglBAUgNACAJQQFxIQpBACEHAkAgCUEBRg0AIABB1h9qIQwgCUH+////B3EhC0EAIQcDQCAMQX5qIgkgCS4BACIJIAxB0nJqLgEAIAlrIglB//8DcUHc/wBsQRB2IAlBEHZB3P8AbGpqOwEAIAwgDC4BACIJIAxB1HJqLgEAIAlrIglB//8DcUHc/wBsQRB2IAlBEHZB3P8AbGpqOwEAIAxBBGohDCALIAdBAmoiB0cNAAsLIApFDQAgAEHUH2ogB0EBdCIMaiIHIAcuAQAiByAAQagSaiAMai4BACAHayIMQf//A3FB3P8AbEEQdiAMQRB2Qdz/AGxqajsBAAsCQAJAIAAoApQSIhFBAU4NAEEAIQsMAQsgEUEDcSEKAkACQCARQQRPDQBBACEMQQAhC0EAIQcMAQsgAUEcaiEJIBFB/P///wdxIQZBACEMQQAhC0EAIQcDQCAJKAIAIg0gCUF8aigCACIOIAlBeGooAgAiDyAJQXRqKAIAIhAgByAQIAdKIhAbIgcgDyAHSiIPGyIHIA4gB0oiDhsiByANIAdKIg0bIQcgDEEDaiAMQQJqIAxBAWogDCALIBAbIA8bIA4bIA0bIQsgCUEQaiEJIAxBBGoiDCAGRw0ACwsgCkUNACAMQQJ0IAFqQRBqIQkDQCAMIAsgCSgCACINIAdKIg4bIQsgDSAHIA4bIQcgCUEEaiEJIAxBAWohDCAKQX9qIgoNAAsLAkAgEUECdEF8aiAAKAKcEiIMbCIHRQ0AIAggDEECdGogCCAH/AoAAAsCQCAAKAKcEiIMQQJ0IgdFDQAgCCAAIAwgC2xBAnRqQQRqIAf8CgAACyAAKAKUEiIJQQFIDQAgAUEQaiEHIAAoArQgIQwDQCAAIAcoAgAgDGsiC0EQdUGaJGwgDGogC0H//wNxQZokbEEQdmoiDDYCtCACQCAMQRB1QbzqfmwgDGogDEH//wNxQbzqfmxBEHVqIAcoAgAiC0wNACAAIAs2ArQgIAshDAsgB0EEaiEHIAlBf2oiCQ0ACwsgACgCwCBFDQELIAQgA0ECdEHPAGpBcHFrIhIkgICAgAAgACgCmCEiDMEiByAALwGEISIJbEEQdSAHIAnBIglBEHVsaiAMQQ91QQFqQQF1IAlsaiIHQRB1IQkgACgCtCAhDAJAAkACQCAHQf///wBKDQAgDEGBgIAESA0BCwJAIAxBEHUiDCAMbCAJIAlsQQV0ayIMQQFODQBBACENDAILAkAgDGciB0EYRg0AAkAgDEH/AEsNACAMQTggB2t2IAwgB0FoanRyIQwMAQsgDCAHQQhqdCAMQRggB2t2aiEMCyAMQf8AcUHVAWxBgIAEckGAgAJBhukCIAdBAXEbIAdBAXZ2bEGAgHxxIQ0MAQsCQCAMwSILIAxBEHVsIAfBIgogB0H//wNxbEEQdSAKIAlsaiAHQQ91QQFqQQF2IAdsakEFdGsgCyAMQf//A3FsQRB1aiAMQQ91QQFqQQF1IAxsaiIMQQFODQBBACENDAELAkAgDGciB0EYRg0AAkAgDEH/AEsNACAMQTggB2t2IAwgB0FoanRyIQwMAQsgDCAHQQhqdCAMQRggB2t2aiEMC0GAgAJBhukCIAdBAXEbIAdBAXZ2IgcgDEH/AHFsQdUBbEEQdiAHakEIdCENC0H/ASEHA0AgByIMQQF2IQcgDCADSg0ACyAAKAK4ICEJAkAgA0UNACASQcAAaiEOIANBAXEhDwJAAkAgA0EBRw0AQQAhCwwBCyAOQQRqIQcgA0F+cSEKQQAhCwNAIAdBfGogCCAJQbWIzt0AbEHrxuWwA2pBGHYgDHFBAnRqKAIANgIAIAcgCCAJQfnlkqN7bEGSybzreWoiCUEYdiAMcUECdGooAgA2AgAgB0EIaiEHIAogC0ECaiILRw0ACwsgD0UNACAOIAtBAnRqIAggCUG1iM7dAGxB68blsANqIglBGHYgDHFBAnRqKAIANgIACyAAIAk2ArggIAUgAEHUH2ogACgCpBIgACgCyCAQxoCAgAAgEkE4aiAAQawgaikCADcCACASQTBqIABBpCBqKQIANwIAIBJBKGogAEGcIGopAgA3AgAgEkEgaiAAQZQgaikCADcCACASQRhqIABBjCBqKQIANwIAIBJBEGogAEGEIGopAgA3AgAgEkEIaiAAQfwfaikCADcCACASIAApAvQfNwIAIABB9B9qIRMCQCADRQ0AIA1BCnRBEHUhCSAAKAKkEiIUQQF1IRUgDUEVdUEBakEBdSEWIBJBPGooAgAhByAFLgEeIRcgBS4BHCEYIAUuARohGSAFLgEYIRogBS4BFiEbIAUuARQhHCAFLgESIQggBS4BECELIAUuAQ4hCiAFLgEMIQ0gBS4BCiEOIAUuAQghDyAFLgEGIRAgBS4BBCEEIAUuAQIhBiAFLgEAIQEgEiEMIAMhEQNAIAdBEHUgAWwgFWogB0H//wNxIAFsQRB1aiAMQThqKAIAIgdBEHUgBmxqIAdB//8DcSAGbEEQdWogDEE0aigCACIHQRB1IARsaiAHQf//A3EgBGxBEHVqIAxBMGooAgAiB0EQdSAQbGogB0H//wNxIBBsQRB1aiAMQSxqKAIAIgdBEHUgD2xqIAdB//8DcSAPbEEQdWogDEEoaigCACIHQRB1IA5saiAHQf//A3EgDmxBEHVqIAxBJGooAgAiB0EQdSANbGogB0H//wNxIA1sQRB1aiAMQSBqKAIAIgdBEHUgCmxqIAdB//8DcSAKbEEQdWogDEEcaigCACIHQRB1IAtsaiAHQf//A3EgC2xBEHVqIAxBGGooAgAiB0EQdSAIbGogB0H//wNxIAhsQRB1aiEHAkAgFEEQRw0AIAxBFGooAgAiAEEQdSAcbCAHaiAAQf//A3EgHGxBEHVqIAxBEGooAgAiB0EQdSAbbGogB0H//wNxIBtsQRB1aiAMQQxqKAIAIgdBEHUgGmxqIAdB//8DcSAabEEQdWogDEEIaigCACIHQRB1IBlsaiAHQf//A3EgGWxBEHVqIAxBBGooAgAiB0EQdSAYbGogB0H//wNxIBhsQRB1aiAMKAIAIgdBEHUgF2xqIAdB//8DcSAXbEEQdWohBwsCQAJAIAdBgICAQCAHQYCAgEBKGyIHQf///z8gB0H///8/SBtBBHQiByAMQcAAaiIAKAIAIh1qIh5BAEgNACAeQYCAgIB4IAcgHXFBf0obIQcMAQtB/////wcgHiAHIB1yQX9KGyEHCyAAIAc2AgBB//8BIQACQCAHQRB1IAlsIAcgFmxqIAdB//8DcSAJbEEQdWpBB3VBAWpBAXUiHUGAgH4gHUGAgH5KGyIdQf//ASAdQf//AUgbIAIuAQBqIh1B//8BSg0AQYCAAiEAIB1BgIB+SA0AIB0hAAsgAiAAOwEAIAxBBGohDCACQQJqIQIgEUF/aiIRDQALCyATIBIgA0ECdGoiDCkCADcCACATQThqIAxBOGopAgA3AgAgE0EwaiAMQTBqKQIANwIAIBNBKGogDEEoaikCADcCACATQSBqIAxBIGopAgA3AgAgE0EYaiAMQRhqKQIANwIAIBNBEGogDEEQaikCADcCACATQQhqIAxBCGopAgA3AgAMAQsgACgCpBJBAnQiDEUNACAAQfQfakEAIAz8CwALIAVBIGokgICAgAAL0wEBA38jgICAgABBEGsiBiSAgICAAEEAIQcgBkEAOgAPAkAgAkEIakEEdSIIQQFIDQBB0LSAgAAgBEEQdCADQRF0akEQdUEHbGohBANAAkAgBSAHQQJ0aigCACICQQFIDQAgBiAEIAJBH3EiAkEGIAJBBkkbai0AADoADkEAIQIDQAJAIAEgAmosAAAiA0UNACAAIANBf0ogBkEOakEIELKBgIAACyACQQFqIgJBEEcNAAsLIAFBEGohASAHQQFqIgcgCEcNAAsLIAZBEGokgICAgAAL4QEBA38jgICAgABBEGsiBiSAgICAAEEAIQcgBkEAOgAPAkAgAkEIakEEdSIIQQFIDQBB0LSAgAAgBEEQdCADQRF0akEQdUEHbGohBANAAkAgBSAHQQJ0aigCACICQQFIDQAgBiAEIAJBH3EiAkEGIAJBBkkbai0AADoADkEAIQIDQAJAIAEgAmoiAy4BAEEBSA0AIAMgACAGQQ5qQQgQq4GAgABBAXRBf2ogAy8BAGw7AQALIAJBAmoiAkEgRw0ACwsgAUEgaiEBIAdBAWoiByAIRw0ACwsgBkEQaiSAgICAAAs7AAJAQaQhRQ0AIABBBGpBAEGkIfwLAAsgAEGAgAQ2AgAgAEEBNgLIEiAAEISAgIAAIAAQoICAgABBAAuuGQE1fyOAgICAAEEgayIFIQYgBSSAgICAACAFIAAoAqASIgdBAXRBD2pBcHFrIggiBSSAgICAACAFIAcgACgCmBIiCWpBAnRBD2pBcHFrIgoiBSSAgICAACAFIAAoApwSQQJ0IgdBD2pBcHFrIgsiBSSAgICAACAFIAdBzwBqQXBxayIMJICAgIAAIAAsAM8VIQ0CQCAJQQFIDQBB4KmAgAAgACwAzRVBAXRBfHFqIAAsAM4VQQF0ai4BAEEEdCEOIABBBGohByAALADSFSEPQQAhEANAIAdBACADLgEAIgVBDnQiCUGAdmogCUGACnIgCSAFQQBIGyAFQQBKGyAOaiIJayAJIA9BtYjO3QBsQevG5bADaiIPQQBIGzYCACADQQJqIQMgB0EEaiEHIA8gBWohDyAQQQFqIhAgACgCmBJIDQALCyAMIAApAoQKNwIAIAxBOGoiESAAQbwKaikCADcCACAMQTBqIhIgAEG0CmopAgA3AgAgDEEoaiITIABBrApqKQIANwIAIAxBIGoiFCAAQaQKaikCADcCACAMQRhqIhUgAEGcCmopAgA3AgAgDEEQaiIWIABBlApqKQIANwIAIAxBCGoiFyAAQYwKaikCADcCACAAQYQKaiEYAkAgACgClBJBAUgNACAIQX5qIRkgCkF8aiEaIABBxApqIRsgAUEQaiEcIAFB4ABqIR0gAUEgaiEeIABBBGohHyAAKAKgEiEgIA1BBEghISAMQTxqISJBACEjIAIhJANAIB4gI0EEdEFgcWohJQJAIAAoAqQSQQF0IgVFDQAgBiAlIAX8CgAAC0EAIBwgI0ECdCImaigCACInICcgJ0EfdSIFcyAFayIJZyIPQX9qdCIQQf//A3FB/////wEgEEEQdSIHbSIDwSIFbEEQdSAHIAVsakEDdGsiByADQQ91QQFqQQF1bCADQRB0aiAHQRB1IAVsaiAHQfj/A3EgBWxBEHVqIQMgAC0AzRUhDgJAAkAgCUH//wdLDQBB/////wcgD0FxaiIHdiIJIANBgICAgHggB3UiDSADIA1KGyADIAlKGyAHdCEoDAELIANBDyAPa3UhKAtBgIAEIQkCQCAnIAAoAgAiA0YNACADIAMgA0EfdSIHcyAHa2ciB0F/anQiAyADQf//A3EgBWxBEHUgA0EQdSAFbGoiA6wgEKx+Qh2Ip0F4cWsiCUEQdSAFbCADaiAJQf//A3EgBWxBEHVqIQUCQAJAIAcgD2siA0FySg0AQf////8HQXMgA2siA3YiByAFQYCAgIB4IAN1IgkgBSAJShsgBSAHShsgA3QhCQwBCyAFIANBDWp1QQAgA0EdakEwSRshCQsgCUH//wNxIQ8gCUEQdSEQQQAhBQNAIAwgBWoiAyADKAIAIgPBIgcgD2xBEHUgByAQbGogA0EPdUEBakEBdSAJbGo2AgAgBUEEaiIFQcAARw0ACwsgHSAjQQpsaiENIAAgJzYCAAJAAkACQAJAAkAgACgCwCBFDQAgACgCxCBBAkcNACAOQf8BcUECRg0AICNBAUsNACANQgA3AQAgDUEIakEAOwEAIA1BgCA7AQQgASAmaiAAKAKEEiImNgIADAELIA5B/wFxQQJHDQEgASAmaigCACEmCwJAAkACQCAjRQ0AICEgI0ECRnFFDQELIAAoAqASIgcgJiAAKAKkEiIJamtBfmohBSAAKAKcEiEDAkAgI0ECRw0AAkAgA0ECdCIDRQ0AIBsgB0EBdGogAiAD/AoAAAsgACgCpBIhCSAAKAKgEiEHIAAoApwSIQMLIAggBUEBdGogGyADICNsIAVqQQF0aiAlIAcgBWsgCSAEEMSAgIAAAkAgIw0AIAEuAYgBIgUgKEH//wNxbEEQdSAFIChBEHVsakECdCEoCyAmQX9IDQEgJkEBcSEpIChB//8DcSEJIChBEHUhDyAKICBBAnQiB2ohDiAIIAAoAqASQQF0IgNqISVBfyEFAkAgJkF/Rg0AICZBfnFBAmohKCAZIANqIQMgGiAHaiEHQQAhBQNAIAcgCSADLgEAIhBsQRB1IA8gEGxqNgIAIA4gBUF+cyIQQQJ0aiAJICUgEEEBdGouAQAiEGxBEHUgDyAQbGo2AgAgA0F8aiEDIAdBeGohByAoIAVBAmoiBUcNAAsgBUF/cyEFCyApRQ0BIA4gBUECdGogCSAlIAVBAXRqLgEAIgVsQRB1IA8gBWxqNgIADAELIAlBgIAERg0AICZBf0gNACAmQQJqIQMgCUH//wNxIRAgCUEQdSEOIBogIEECdGohBQNAIAUgBSgCACIHwSIPIBBsQRB1IA8gDmxqIAdBD3VBAWpBAXUgCWxqNgIAIAVBfGohBSADQX9qIgMNAAsLIAAoApwSIipBAUgNAiAKICBBAnRqIiggJkECdGshJiANLgEIIQkgDS4BBiEPIA0uAQQhECANLgECIQ4gDS4BACENQQAhBUEAIQcDQCALIAVqICYgBWoiA0EIaigCACIlQRB1IA1sICVB//8DcSANbEEQdWogA0EEaigCACIlQRB1IA5saiAlQf//A3EgDmxBEHVqIAMoAgAiJUEQdSAQbGogJUH//wNxIBBsQRB1aiADQXxqKAIAIiVBEHUgD2xqICVB//8DcSAPbEEQdWogA0F4aigCACIDQRB1IAlsaiADQf//A3EgCWxBEHVqQQF0IB8gBWooAgBqQQRqIgM2AgAgKCAFaiADQQF0NgIAIAVBBGohBSAqIAdBf2oiB2oNAAsgICAHayEgIAshKwwBCyAfISsgACgCnBIiKkEATA0BCyAnQQp0QRB1IQ8gACgCpBIiLEEBdSEtICdBFXVBAWpBAXUhLiAiKAIAIQNBACEHIAYuAR4hLyAGLgEcITAgBi4BGiExIAYuARghMiAGLgEWITMgBi4BFCE0IAYuARIhECAGLgEQIQ4gBi4BDiENIAYuAQwhJSAGLgEKISggBi4BCCEmIAYuAQYhJyAGLgEEISkgBi4BAiE1IAYuAQAhNiAkIQkgKiE3A0AgA0EQdSA2bCAtaiADQf//A3EgNmxBEHVqIAwgB2oiBUE4aigCACIDQRB1IDVsaiADQf//A3EgNWxBEHVqIAVBNGooAgAiA0EQdSApbGogA0H//wNxIClsQRB1aiAFQTBqKAIAIgNBEHUgJ2xqIANB//8DcSAnbEEQdWogBUEsaigCACIDQRB1ICZsaiADQf//A3EgJmxBEHVqIAVBKGooAgAiA0EQdSAobGogA0H//wNxIChsQRB1aiAFQSRqKAIAIgNBEHUgJWxqIANB//8DcSAlbEEQdWogBUEgaigCACIDQRB1IA1saiADQf//A3EgDWxBEHVqIAVBHGooAgAiA0EQdSAObGogA0H//wNxIA5sQRB1aiAFQRhqKAIAIgNBEHUgEGxqIANB//8DcSAQbEEQdWohAwJAICxBEEcNACAFQRRqKAIAIjhBEHUgNGwgA2ogOEH//wNxIDRsQRB1aiAFQRBqKAIAIgNBEHUgM2xqIANB//8DcSAzbEEQdWogBUEMaigCACIDQRB1IDJsaiADQf//A3EgMmxBEHVqIAVBCGooAgAiA0EQdSAxbGogA0H//wNxIDFsQRB1aiAFQQRqKAIAIgNBEHUgMGxqIANB//8DcSAwbEEQdWogBSgCACIDQRB1IC9saiADQf//A3EgL2xBEHVqIQMLAkACQCADQYCAgEAgA0GAgIBAShsiA0H///8/IANB////P0gbQQR0IgMgKyAHaigCACI4aiI5QQBIDQAgOUGAgICAeCADIDhxQX9KGyEDDAELQf////8HIDkgAyA4ckF/ShshAwsgBUHAAGogAzYCACAJIANBEHUgD2wgAyAubGogA0H//wNxIA9sQRB1akEHdUEBakEBdSIFQYCAfiAFQYCAfkobIgVB//8BIAVB//8BSBs7AQAgB0EEaiEHIAlBAmohCSA3QX9qIjcNAAsLIAwgDCAqQQJ0IgNqIgUpAgA3AgAgESAFQThqKQIANwIAIBIgBUEwaikCADcCACATIAVBKGopAgA3AgAgFCAFQSBqKQIANwIAIBUgBUEYaikCADcCACAWIAVBEGopAgA3AgAgFyAFQQhqKQIANwIAICQgKkEBdGohJCAfIANqIR8gI0EBaiIjIAAoApQSSA0ACwsgGCAMKQIANwIAIBhBOGogESkCADcCACAYQTBqIBIpAgA3AgAgGEEoaiATKQIANwIAIBhBIGogFCkCADcCACAYQRhqIBUpAgA3AgAgGEEQaiAWKQIANwIAIBhBCGogFykCADcCACAGQSBqJICAgIAAC5YDAQR/I4CAgIAAQZABayIHJICAgIAAIAciCEEANgKIASAAKAKYEiEJAkACQAJAAkACQCAEDgMAAwEDCyAAKALUEiEKDAELIAAgACgC1BIiCkECdGpB9BJqKAIAQQFHDQELIAcgCUEBdEEeakFgcWsiBySAgICAACAAIAEgCiAEIAUQjICAgAAgASAHIAAsAM0VIAAsAM4VIAAoApgSEI2AgIAAIAAgCCAFEIuAgIAAIAAgCCACIAcgBhCJgICAACAAIAggAkEAIAYQoYCAgAAgAEEANgLAICAAQQA2AsgSIAAgACwAzRU2AsQgDAELIAAgCCACQQEgBhChgICAAAsgAEHECmohBgJAIAAoAqASIAAoApgSIgdrQQF0IgRFDQAgBiAGIAdBAXRqIAT8CgAACwJAIAAoApgSQQF0IgdFDQAgBiAEaiACIAf8CgAACyAAIAggAiAJEIWAgIAAIAAgAiAJEKSAgIAAIAAgACgClBJBAnQgCGpBfGooAgA2AoQSIAMgCTYCACAIQZABaiSAgICAAEEAC8gGAQx/I4CAgIAAQcAAayIDJICAgIAAIAFBEGogAEGwFWogAEGIEmogAkECRiAAKAKUEhCYgICAACADQSBqIABBuBVqIAAoAqwVEJyAgIAAIAFBwABqIgQgA0EgaiAAKAKkEiAAKALIIBDGgICAACABQSBqIQUCQAJAAkAgACgCyBJBAUcNACAAQQQ6AM8VDAELIAAsAM8VIgZBA0oNAAJAIAAoAqQSIgdBAUgNACAHQQFxIQhBACEJAkAgB0EBRg0AIAdB/v///wdxIQpBACECQQAhCQNAIAMgAmoiCyAAIAJqIgxBqBJqLgEAIg0gA0EgaiACaiIOLgEAIA1rIAZsQQJ2ajsBACALQQJqIAxBqhJqLgEAIgsgDkECai4BACALayAGbEECdmo7AQAgAkEEaiECIAogCUECaiIJRw0ACwsgCEUNACADIAlBAXQiAmogAEGoEmogAmouAQAiCSADQSBqIAJqLgEAIAlrIAZsQQJ2ajsBAAsgBSADIAcgACgCyCAQxoCAgAAMAQsgACgCpBJBAXQiAkUNACAFIAQgAvwKAAALAkAgACgCpBIiAkEBdCIGRQ0AIABBqBJqIANBIGogBvwKAAALAkAgACgCwCBFDQAgBSACQdLwAxC/gICAACAEIAAoAqQSQdLwAxC/gICAAAsCQAJAIAAtAM0VQQJHDQAgAC4ByhUgACwAzBUgASAAKAKMEiAAKAKUEhDAgICAAAJAIAAoApQSIgtBAUgNAEGwjICAACAALADQFUECdGooAgAhDCABQeAAaiECIABBtBVqIQkDQCACIAwgCSwAAEEFbGoiBiwAAEEHdDsBACACQQJqIAZBAWosAABBB3Q7AQAgAkEEaiAGQQJqLAAAQQd0OwEAIAJBBmogBkEDaiwAAEEHdDsBACACQQhqIAZBBGosAABBB3Q7AQAgCUEBaiEJIAJBCmohAiALQX9qIgsNAAsLQeipgIAAIAAsANEVQQF0ai4BACECDAELQQAhAgJAIAAoApQSQQJ0IgZFDQAgAUEAIAb8CwALAkAgACgClBJBCmwiBkUNACABQeAAakEAIAb8CwALIABBADoA0BULIAEgAjYCiAEgA0HAAGokgICAgAALnwcBA38jgICAgABBMGsiBSSAgICAAAJAAkACQCADDQAgACACQQJ0akHkEmooAgBFDQELIAFB1amAgABBCBCrgYCAAEECaiEDDAELIAFB2amAgABBCBCrgYCAACEDCyAAIANBAXE6AM4VIAAgA0EBdiIDOgDNFQJAAkAgBEECRw0AIAFBwIiAgABBCBCrgYCAACEDDAELIAAgAUGgiICAACADwEEDdGpBCBCrgYCAAEEDdDoAsBUgAUGAqoCAAEEIEKuBgIAAIAAtALAVaiEDCyAAIAM6ALAVAkAgACgClBJBAkgNAEGxFSEDA0AgACADaiABQcCIgIAAQQgQq4GAgAA6AAAgA0HRamohAiADQQFqIQMgAiAAKAKUEkgNAAsLIAAgASAAKAKsFSIDKAIQIAAsAM0VQQF1IAMuAQBsakEIEKuBgIAAIgM6ALgVIAVBEGogBSAAKAKsFSADwBCvgICAAAJAIAAoAqwVIgYuAQJBAUgNACAAQbkVaiEHIAVBEGohA0EAIQIDQAJAAkACQCABIAYoAhwgAy4BAGpBCBCrgYCAACIGDgkAAgICAgICAgECC0EAIAFBiKqAgABBCBCrgYCAAGshBgwBCyABQYiqgIAAQQgQq4GAgABBCGohBgsgByACaiAGQXxqOgAAIANBAmohAyACQQFqIgIgACgCrBUiBi4BAkgNAAsLQQQhAwJAIAAoApQSQQRHDQAgAUHbqYCAAEEIEKuBgIAAIQMLIAAgAzoAzxUCQCAALQDNFUECRw0AAkACQCAEQQJHDQAgACgC3BJBAkcNACABQaCrgIAAQQgQq4GAgAAiA8FBAUgNACADIAAvAeASakF3aiEDDAELIAAgAUGAq4CAAEEIEKuBgIAAIAAoAowSQQF2bDsByhUgASAAKALMEkEIEKuBgIAAIAAvAcoVaiEDCyAAIAM7AcoVIAAgAzsB4BIgACABIAAoAtASQQgQq4GAgAA6AMwVIAAgAUHpiICAAEEIEKuBgIAAOgDQFQJAIAAoApQSQQFIDQAgAEG0FWohAkEAIQMDQCACIANqIAFBsImAgAAgACwA0BVBAnRqKAIAQQgQq4GAgAA6AAAgA0EBaiIDIAAoApQSSA0ACwtBACEDAkAgBA0AIAFB0qmAgABBCBCrgYCAACEDCyAAIAM6ANEVCyAAIAAsAM0VNgLcEiAAIAFB8amAgABBCBCrgYCAADoA0hUgBUEwaiSAgICAAAudBAEKfyOAgICAAEGgAWsiBSSAgICAACAAQfCugIAAIAJBAXVBCWxqQQgQq4GAgAAhBgJAIARBBHUgBEEPcUEAR2oiB0EBSA0AQYCsgIAAIAZBEmxqIQhBACEJA0AgBSAJQQJ0IgZqIgpBADYCACAFQdAAaiAGaiELAkAgACAIQQgQq4GAgAAiDEERRw0AQQAhBgNAIAZBCUYhDCAGQQFqIg0hBiAAIAxBgKyAgABqQaIBakEIEKuBgIAAIgxBEUYNAAsgCiANNgIACyALIAw2AgAgCUEBaiIJIAdHDQALIAVB0ABqIQxBACENIAchCQNAIAEgDUELdWohBgJAAkAgDCgCACILQQFIDQAgBiAAIAsQpoCAgAAMAQsgBkIANwEAIAZBGGpCADcBACAGQRBqQgA3AQAgBkEIakIANwEACyANQYCABGohDSAMQQRqIQwgCUF/aiIJDQALQQAhCANAAkAgBSAIQQJ0Ig5qKAIAIgtBAUgNACABIAhBEHRBC3VqIQpBACENA0AgCiANQQF0aiIJLwEAIQYgCyEMA0AgAEHQqYCAAEEIEKuBgIAAIAZBAXRqIQYgDEF/aiIMDQALIAkgBjsBACANQQFqIg1BEEcNAAsgBUHQAGogDmoiBiAGKAIAIAtBBXRyNgIACyAIQQFqIgggB0cNAAsLIAAgASAEIAIgAyAFQdAAahCHgICAACAFQaABaiSAgICAAAuSAwEEfyAAIAHBIgNBBWw2ApwSIAAuAZQSIANBgIAUbEEQdWwhBAJAAkACQAJAIAAoAowSIAFHDQBBACEFIAAoApASIAJGDQELQQAhBiAAQYATaiADQegHbCACQQAQyYCAgAAhBSAAIAI2ApASIAAoAowSIAFHDQELQQEhBiAEIAAoApgSRg0BCyAAQeKrgIAAQfmrgIAAIAAoApQSQQRGIgIbQcCrgIAAQe2rgIAAIAIbIAFBCEYbNgLQEgJAIAYNACAAIANBFGw2AqASQYiYgIAAIQNBCiECAkACQCABQXhqDgUBAAAAAQALQdSogIAAIQNBECECCyAAIAM2AqwVIAAgAjYCpBJBgKqAgAAhAwJAAkACQAJAIAFBdGoOBQABAQECAQtB+qmAgAAhAwwBCyABQQhHDQFB8amAgAAhAwsgACADNgLMEgsgAEEANgLEICAAQQo6AIgSIABB5AA2AoQSIABBATYCyBJBgAhFDQAgAEGECmpBAEGACPwLAAsgACAENgKYEiAAIAE2AowSCyAFCw0AIABB6MIANgIAQQALOQEBfyAAEIiAgIAAGiAAQaghahCIgICAACEBIABB2MIAakEANgIAIABCADcC0EIgAEEANgLkQiABC5UeAQ9/I4CAgIAAQZAFayIIJICAgIAAQQAhCSAIIgpBADYCjAUgCkIANwOABSABKAIEIQsCQCADRQ0AIAtBAUgNACALQQdxIQxBACENAkAgC0EISQ0AIAtB+P///wdxIQ4gACEDQQAhDQNAIANB7PsBakEANgIAIANBxNoBakEANgIAIANBnLkBakEANgIAIANB9JcBakEANgIAIANBzPYAakEANgIAIANBpNUAakEANgIAIANB/DNqQQA2AgAgA0HUEmpBADYCACADQcCKAmohAyAOIA1BCGoiDUcNAAsLIAxFDQAgDUGoIWwgAGpB1BJqIQMDQCADQQA2AgAgA0GoIWohAyAMQX9qIgwNAAsLAkAgCyAAKALgQkwNACAAQaghahCIgICAACEJIAEoAgQhCwtBACEPAkAgC0EBRw0AIAAoAuBCQQJHDQAgASgCDCAAKAKMEkHoB2xGIQ8LAkACQCAAKALUEg0AIAtBAUgNAEEAIQ4gACEDA0BBAiELQQEhDEG1fiENAkACQAJAAkAgASgCECIQDhUDBgYGBgYGBgYGAwYGBgYGBgYGBgEACyAQQShGDQEgEEE8Rw0FQQQhC0EDIQwMAgtBBCELDAELQQQhC0ECIQwLIANBlBJqIAs2AgAgA0HYEmogDDYCAEG4fiENIAEoAgxBCnUiC0EPSw0CQQEgC3RBgJECcUUNAiADIAtBAWogASgCCBCOgICAACAJaiEJIANBqCFqIQMgDkEBaiIOIAEoAgQiC0gNAAsLQQIhAwJAAkAgASgCACIMQQJGDQAgDCEDDAELIAtBAkcNAAJAIAAoAtxCQQFGDQBBAiELQQIhAyAAKALgQkEBRw0BCyAAQQA2AthCIABBADYC0EICQEGsAkUNACAAQag0aiAAQYATakGsAvwKAAALIAEoAgQhCyABKAIAIQMLIAAgCzYC4EIgACADNgLcQkG4fiENIAEoAghB/4h9akG/x31JDQACQCACQQFGDQAgACgC1BINAAJAIAtBAUgNACAAQeQSaiEOQQAhDQNAAkAgACANQaghbGoiDCgC2BJBAUgNAEEAIQsgDiEDA0AgAyAEQQEQqoGAgAA2AgAgA0EEaiEDIAtBAWoiCyAMKALYEkgNAAsLIAwgBEEBEKqBgIAANgLwEiAOQaghaiEOIA1BAWoiDSABKAIEIgtIDQALIAtBAUgNACAAQfQSaiERIABBgBNqIRJBACEQA0AgACAQQaghbGoiA0IANwL0EiADQfwSakEANgIAAkAgAygC8BJFDQACQCADKALYEiILQQFHDQAgA0H0EmpBATYCAAwBCyAEIAtBAnRByKmAgABqQXhqKAIAQQgQq4GAgAAhDCADKALYEiILQQFIDQAgDEEBaiEMIAtBA3EhDUEAIQMCQCALQQRJDQAgC0H8////B3EhDkEAIQMgEiELA0AgC0F0aiAMIAN2QQFxNgIAIAsgDCADQQNqdkEBcTYCACALQXxqIAwgA0ECanZBAXE2AgAgC0F4aiAMIANBAWp2QQFxNgIAIAtBEGohCyADQQRqIgMgDkcNAAsLIA1FDQAgESADQQJ0aiELA0AgCyAMIAN2QQFxNgIAIAtBBGohCyADQQFqIQMgDUF/aiINDQALCyARQaghaiERIBJBqCFqIRIgEEEBaiIQIAEoAgQiC0gNAAsLIAINACAAKALYEiIDQQFIDQAgAEH0EmohEiAAQZw0aiETQQAhEUEAIQ4DQAJAIAtBAUgNAAJAIBIgDkECdCIDaigCAEUNAAJAIAtBAkcNACAEIApBgAVqENaAgIAAIBMgA2ooAgANACAEIApBjAVqENeAgIAACwJAAkAgDkUNAEECIQMgEiAOQX9qQQJ0aigCAA0BC0EAIQMLIAAgBCAOQQEgAxCMgICAACAEIAogACwAzRUgACwAzhUgACgCmBIQjYCAgAAgASgCBCELCwJAIAtBAkgNAEEBIQ0gACEDA0AgA0GoIWohDAJAIAMgEWoiEEGcNGooAgBFDQACQAJAIA5FDQBBAiELIBBBmDRqKAIADQELQQAhCwsgDCAEIA5BASALEIyAgIAAIAQgCiADQfU2aiwAACADQfY2aiwAACADQcAzaigCABCNgICAACABKAIEIQsLIAwhAyANQQFqIg0gC0gNAAsLIAAoAtgSIQMLIBFBBGohESAOQQFqIg4gA0gNAAsLAkAgC0ECRw0AAkACQAJAAkACQAJAIAIOAwACAQILIAQgCkGABWoQ1oCAgAAgACAAKALUEkECdGpBjDRqKAIARQ0DDAQLIAAgACgC1BJBAnRqQfQSaigCAEEBRg0BCyAKIAAuAdBCNgKABSAKIAAuAdJCNgKEBQwDCyAEIApBgAVqENaAgIAAIAAgACgC1BJBAnRqQZw0aigCAA0BCyAEIApBjAVqENeAgIAADAELIApBADYCjAULIAooAowFIQwCQCABKAIEIgNBAkcNACAMDQBBAiEDIAAoAuRCQQFHDQACQEGACEUNACAAQawrakEAQYAI/AsACyAAQQA2AuxBIABBCjoAsDMgAEHkADYCrDMgAEEBNgLwMyABKAIEIQMLIAAoApgSIQsgBSESAkAgAyABKAIMbCIUIAEoAgAgASgCCGwiFUgNACAIIAMgC0ECamxBAXRBD2pBcHFrIhIiCCSAgICAAAsgCiASNgIAIAogEiALQQF0akEEaiIWNgIEAkACQAJAAkACQCACDQAgDEUhEQwBC0EBIREgACgC5EJFDQBBACERIAJBAkcNACADQQJHDQAgACAAKAL8M0ECdGpBnDRqKAIAQQFGIREMAQsgA0EBSA0BC0EAQQIgACgC1BIiDEEBSCILGyEDAkAgCw0AIAJBAkcNAEECQQAgDEECdCAAakHwEmooAgAbIQMLIAAgBCASQQRqIApBiAVqIAIgAyAHEIqAgIAAIQMgACAAKALUEkEBajYC1BIgAyAJaiEJIAEoAgRBAkgNACAAQaghaiEDIApBBGohCyACQQJHIRNBfyEMQQAhDUEBIQ4DQAJAAkAgEUUNAAJAAkAgDCAAKALUEiIQakEBTg0AQQAhEAwBCwJAIBMNAEECQQAgAyANIBBBAnRqakHsEmooAgAbIRAMAQtBAUECIAAoAuRCGyEQCyADIAQgCygCAEEEaiAKQYgFaiACIBAgBxCKgICAACAJaiEJDAELIAooAogFQQF0IhBFDQAgCygCAEEEakEAIBD8CwALIANB1BJqIhAgECgCAEEBajYCACAMQX9qIQwgDUF8aiENIANBqCFqIQMgC0EEaiELIA5BAWoiDiABKAIEIhBIDQALIBBBAkcNACABKAIAQQJHDQAgAEHQwgBqIBIgFiAKQYAFaiAAKAKMEiAKKAKIBRCzgICAACAKKAKIBSEDDAELIBIgACgC1EI2AQAgACASIAooAogFIgNBAXRqKAEANgLUQgsgBiABKAIIIANsIAAuAYwSQegHbG0iAzYCACAIIANBAXRBACABKAIAIhBBAkYiCxtBD2pBcHFrIgQiDCSAgICAACABKAIEIQMCQCAUIBVODQAgDCADIAAoApgSIg5BAmpsQQF0Ig1BD2pBcHFrIhIkgICAgAACQCANRQ0AIBIgBSAN/AoAAAsgCiASIA5BAXRqQQRqNgIEIAogEjYCAAsgBCAFIAsbIQgCQCAQIAMgECADSBtBAUgNAEEAIQ4gBSERA0AgACAOQaghbGpBgBNqIAggCiAOQQJ0aigCAEECaiAKKAKIBRDKgICAACEHAkAgASgCACIQQQJHDQAgBigCACIDQQFIDQAgA0EDcSEEQQAhDAJAIANBBEkNACADQfz///8HcSENQQAhDCARIQMgCCELA0AgAyALLwEAOwEAIANBBGogC0ECai8BADsBACADQQhqIAtBBGovAQA7AQAgA0EMaiALQQZqLwEAOwEAIANBEGohAyALQQhqIQsgDSAMQQRqIgxHDQALCyAERQ0AIAggDEEBdGohAyARIAxBAnRqIQsDQCALIAMvAQA7AQAgA0ECaiEDIAtBBGohCyAEQX9qIgQNAAsLIAcgCWohCSARQQJqIREgDkEBaiIOIBAgASgCBCIDIBAgA0gbSA0ACwsCQAJAAkAgEEECRw0AIANBAUcNACAPDQEgBigCACIDQQFIDQAgA0EDcSELQQAhBAJAIANBBEkNACADQfz///8HcSEMQQAhBCAFIQMDQCADQQJqIAMvAQA7AQAgA0EGaiADQQRqLwEAOwEAIANBCmogA0EIai8BADsBACADQQ5qIANBDGovAQA7AQAgA0EQaiEDIAwgBEEEaiIERw0ACwsgC0UNACAFIARBAnRqIQMDQCADQQJqIAMvAQA7AQAgA0EEaiEDIAtBf2oiCw0ACwsgCSENDAELIABBqDRqIAggEkECaiAKKAKIBRDKgICAACAJaiENIAYoAgAiC0EBSA0AIAtBA3EhBEEAIQwCQCALQQRJDQAgBUEOaiEDIAtB/P///wdxIQlBACEMIAghCwNAIANBdGogCy8BADsBACADQXhqIAtBAmovAQA7AQAgA0F8aiALQQRqLwEAOwEAIAMgC0EGai8BADsBACADQRBqIQMgC0EIaiELIAkgDEEEaiIMRw0ACwsgBEUNACAIIAxBAXRqIQMgDEECdCAFakECaiELA0AgCyADLwEAOwEAIANBAmohAyALQQRqIQsgBEF/aiIEDQALC0EAIQMCQCAAKALEIEECRw0AIAAoAowSQXhqQXxxQYCIgIAAaigCACAAKAKEEmwhAwsgASADNgIUAkAgAkEBRw0AIAAoAuBCIgNBAUgNASADQQdxIQtBACEEAkAgA0EISQ0AIANB+P///wdxIQxBACEEIAAhAwNAIANBoPsBakEKOgAAIANB+NkBakEKOgAAIANB0LgBakEKOgAAIANBqJcBakEKOgAAIANBgPYAakEKOgAAIANB2NQAakEKOgAAIANBsDNqQQo6AAAgA0GIEmpBCjoAACADQcCKAmohAyAMIARBCGoiBEcNAAsLIAtFDQEgBEGoIWwgAGpBiBJqIQMDQCADQQo6AAAgA0GoIWohAyALQX9qIgsNAAwCCwsgACAKKAKMBTYC5EILIApBkAVqJICAgIAAIA0LDQAgAEH4nQE2AgBBAAv7AQEDf0EAIQMCQEH4nQFFDQAgAEEAQfidAfwLAAsgACABELaAgIAAIQQgAEHQzgBqIAEQtoCAgAAhASACIAApAtgjNwIQIAJCgYCAgBA3AgAgAEKBgICAEDcC4J0BIAIgACgCzCM2AgggAiAAKALUIzYCDCACIAAoAoQkNgIYIAIgACgCgCQ2AhwgAiAAKAKIJDYCICACIAAoApAkNgIkIAIgACgCyC82AiggAiAAKAK8LzYCMCACIAAoAsQkNgI0IAIgACgC4CMiBcFB6AdsNgJIIAIgACgCuCM2AkwCQCAFQRBHDQAgACgCHEUhAwsgAiADNgJQIAEgBGoLwCsBMH8jgICAgABBIGsiCCEJIAgkgICAgAACQCABKAJERQ0AIABBATYCiHMgAEEBNgK4JAtBACEKIABBADYC9CwgAEEANgLEewJAIAEQtICAgAAiCw0AIABB0M4AaiEMIAFBADYCWAJAIAEoAgQiDSAAKALknQFMDQAgDCAAKALkJxC2gICAACEKIABCATcCsJ0BIABCADcCqJ0BIABBADYCoJ0BIABCgYCAgICAEDcCuJ0BAkAgACgC4J0BQQJHDQACQEGsAkUNACAAQeD7AGogAEGQLWpBrAL8CgAACyAAIAApAgA3AtBOCyABKAIEIQ0LQQEhDgJAIAEoAhgiDyAAKAKEJEcNACAAKALknQEgDUchDgsgACANNgLknQEgACABKAIANgLgnQEgA0HkAGwiECABKAIIIhFtIRICQAJAAkAgBkUNAAJAIBJBAUYNAEGbfyELDAQLAkAgBkECRw0AIAlBGGogAEEYaikCADcDACAJIAApAhA3AxAgACgC4CMhEwsgDUEBSA0BQQAhCyAGQQJHIRAgCUEYaiEUIAAhEQNAIBEgEUHkJ2ooAgAQtoCAgAAhCgJAIBANACARQRBqIAkpAxA3AgAgEUEgaiATNgIAIBFBGGogFCkDADcCAAsgEUHQzgBqIREgC0EBaiILIAEoAgQiDUgNAAsgASgCGCEPIAFBCjYCGCABKAIkIRVBACEQIAFBADYCJCANQQFIDQIgDUEDcSELAkAgDUEESQ0AIA1B/P///wdxIRMgACERQQAhEANAIBFBuJACakEBNgIAIBFBrJACakEANgIAIBFB6MEBakEBNgIAIBFB3MEBakEANgIAIBFBmPMAakEBNgIAIBFBjPMAakEANgIAIBFByCRqQQE2AgAgEUG8JGpBADYCACARQcC6AmohESATIBBBBGoiEEcNAAsLIAtFDQIgEEHQzgBsIABqQcgkaiERA0AgEUEBNgIAIBFBdGpBADYCACARQdDOAGohESALQX9qIgsNAAwDCwtBm38hCyADQQBIDQIgEiARbCAQRw0CIBEgD2whEUEAIRVBACEPIANB6AdsIBFKDQIMAQsgAUEKNgIYIAEoAiQhFSABQQA2AiQLAkAgDUEBSA0AIABB9CRqIRNBACENA0BBACERAkAgDUEBRw0AIAAoAuAjIRELIAAgDUHQzgBsaiIQIAEgACgC8J0BIA0gERC3gICAACILDQICQCAQKAK4JEEARyAOckEBcUUNACAAKALwLEEBSA0AQQAhCyATIREDQCARQQA2AgAgEUEEaiERIAtBAWoiCyAAKALwLEgNAAsLIBAgECgCvC82AsAvIBNB0M4AaiETIA1BAWoiDSABKAIESA0AC0EAIQoLIABB8CRqIRYgAEHE+wBqIRcgAEH0JGohGCAAQYAlaiEZIABBvvYAaiEaIABB7idqIRsgAEHAMGohHCAAQdQvaiEdIBJBAiASQQJKGyIRQf7///8HcSEeIBFBAXYiH0F/aiEgIABB5M8AaiEhIABB0IYBaiEiIABBwPMAaiEjIABBvPYAaiEkIABB7CdqISUgAEGgnQFqISYgAEHUnQFqIScgAEHE8wBqISggAEHCnQFqISkgAEG49gBqISogAEHg+wBqISsgAEHoJ2ohLCAAQZAtaiEtIAggACgC4CMiESASQQpsIi5sIi8gACgCzCNsIBFB6AdsbUEBdEEPakFwcWsiMCSAgICAACAJQRBqQQRqITFBACEyAkADQCAAKALoIyAAKALsLCITayIRIC8gESAvSBsiCCAAKALMI2wgACgC4CNB6AdsbSEzAkACQCABKAIAQQJHDQACQAJAIAEoAgRBf2oOAgEAAgsCQCAzQQFIIhQNACAzQQNxIQ1BACEQAkAgM0EESQ0AIDNB/P///wdxIQ5BACEQIDAhESACIQsDQCARIAsvAQA7AQAgEUECaiALQQRqLwEAOwEAIBFBBGogC0EIai8BADsBACARQQZqIAtBDGovAQA7AQAgEUEIaiERIAtBEGohCyAOIBBBBGoiEEcNAAsLIA1FDQAgAiAQQQJ0aiERIDAgEEEBdGohCwNAIAsgES8BADsBACARQQRqIREgC0ECaiELIA1Bf2oiDQ0ACwsCQCAAKALonQFBAUcNACAAKAL0LA0AQawCRQ0AICsgLUGsAvwKAAALIC0gE0EBdCAsakEEaiAwIDMQyoCAgAAhESAAIAAoAuwsIAhqNgLsLCAAKAK4ciAAKAK8eyIIayILIAAoArByIC5sIg0gCyANSBshDiARIApqIRICQCAUDQAgM0EDcSENQQAhEAJAIDNBBEkNACAzQfz///8HcSETQQAhECAwIREgAiELA0AgESALQQJqLwEAOwEAIBFBAmogC0EGai8BADsBACARQQRqIAtBCmovAQA7AQAgEUEGaiALQQ5qLwEAOwEAIBFBCGohESALQRBqIQsgEyAQQQRqIhBHDQALCyANRQ0AIDAgEEEBdGohESACIBBBAnRqQQJqIQsDQCARIAsvAQA7AQAgC0EEaiELIBFBAmohESANQX9qIg0NAAsLICsgCEEBdCAqakEEaiAwIDMQyoCAgAAhESAAIAAoArx7IA5qNgK8eyASIBFqIQogACgC7CwhEQwCCwJAIDNBAUgNACAzQQFxIRRBACENAkAgM0EBRg0AIDNB/v///wdxIQ5BACENIDAhCyACIREDQCALIBFBAmouAQAgES4BAGoiEEEBdiAQQQFxajsBACALQQJqIBFBBmouAQAgEUEEai4BAGoiEEEBdiAQQQFxajsBACALQQRqIQsgEUEIaiERIA4gDUECaiINRw0ACwsgFEUNACAwIA1BAXRqIAIgDUECdGoiES4BAiARLgEAaiIRQQF2IBFBAXFqOwEACyAtIBNBAXQgLGpBBGogMCAzEMqAgIAAIApqIQoCQCAAKALonQFBAkcNACAAKAL0LA0AICsgACgCvHtBAXQgKmpBBGogMCAzEMqAgIAAIApqIQogACgC6CMiEUEBSA0AIBFBAXEhDiAAKAK8eyEUIAAoAuwsIRJBACENAkAgEUEBRg0AIBFB/v///wdxIRMgGiAUQQF0aiELIBsgEkEBdGohEUEAIQ0DQCARQX5qIhAgC0F+ai4BACAQLgEAakEBdjsBACARIAsuAQAgES4BAGpBAXY7AQAgC0EEaiELIBFBBGohESATIA1BAmoiDUcNAAsLIA5FDQAgLCANIBJBAmpqQQF0aiIRICogDSAUQQJqakEBdGouAQAgES4BAGpBAXY7AQALIAAgACgC7CwgCGoiETYC7CwMAQsCQCAzQQF0IhFFDQAgMCACIBH8CgAACyAtIBNBAXQgLGpBBGogMCAzEMqAgIAAIQsgACAAKALsLCAIaiIRNgLsLCALIApqIQoLQQAhNCAAQQA2AvCdAQJAIBEgACgC6CNODQBBACERDAILIAEoAgAhNQJAIAAoAvQsIAZyDQAgCUEAOwEOIAlBAEGAAiAAKALwLEEBaiABKAIEbHZrOgAOIARBACAJQQ5qQQgQsoGAgAACQCABKAIEIhNBAUgNAEEAIRQgGCESIBkhNgNAAkACQCAAIBRB0M4AbGoiNygC8CwiDkEASg0AIDdBADoA8yQMAQsgDkEDcSEQQQAhEUEAIQ0CQCAOQQRJDQAgDkH8////B3EhCEEAIREgNiELQQAhDQNAIAsoAgAgEUEDanQgC0F8aigCACARQQJqdCALQXhqKAIAIBFBAWp0IAtBdGooAgAgEXQgDXJycnIhDSALQRBqIQsgEUEEaiIRIAhHDQALCwJAIBBFDQAgEiARQQJ0aiELA0AgCygCACARdCANciENIAtBBGohCyARQQFqIREgEEF/aiIQDQALCyA3IA1BAEo6APMkIA1FDQAgDkEBRg0AIAQgDUF/aiAOQQJ0QcipgIAAakF4aigCAEEIELKBgIAAIAEoAgQhEwsgEkHQzgBqIRIgNkHQzgBqITYgFEEBaiIUIBNIDQALCwJAIAAoAvAsIhFBAUgNAEGQ/wAhFEEAIQ5BACESQQAhEANAAkAgE0EBSA0AAkAgGCAQQQJ0IhFqKAIARQ0AAkAgE0ECRw0AIAQgKSAQQQZsahDYgICAACAoIBFqKAIADQAgBCAnIBBqLAAAENmAgIAACwJAAkAgEEUNAEECIREgGCAQQX9qQQJ0aigCAA0BC0EAIRELIAAgBCAQQQEgERCVgICAACAEIB0gEEEkbGoiESwAHSARLAAeIBwgEEHAAmxqIAAoAugjEJaAgIAAIAEoAgQhEwsCQCATQQJIDQBBASENIAAhEQNAIBFB0M4AaiELAkAgESAOaiIIQcTzAGooAgBFDQACQAJAIBBFDQBBAiETIAhBwPMAaigCAA0BC0EAIRMLIAsgBCAQQQEgExCVgICAACAEIBEgEmoiE0HB/gBqLAAAIBNBwv4AaiwAACARIBRqIBFBuPIAaigCABCWgICAACABKAIEIRMLIAshESANQQFqIg0gE0gNAAsLIAAoAvAsIRELIA5BBGohDiASQSRqIRIgFEHAAmohFCAQQQFqIhAgEUgNAAsLAkAgE0EBSA0AQQAhCyAYIREDQCARQgA3AgAgEUEIakEANgIAIBFB0M4AaiERIAtBAWoiCyABKAIESA0ACwsgACAEKAIUIAQoAhxnakFgajYC2J0BCyAAEKyAgIAAIAEoAhgiDSABKAIcIhFsQegHbSELAkAgBg0AIAsgACgC2J0BayELCyALIAAoAvAsbSIQwUHkAEEyIA1BCkYbbCAAKALcnQFBAXRrIQsCQCAGDQAgACgC9CwiDUEBSA0AIA0gEGwgACgC2J0BaiAEKAIUIAQoAhxnamtBAXQgC2pBwABqIQsLIBFBiCcgEUGIJ0obIg0gCyARQYgnIBFBiCdIGyIRIAsgEUobIAsgDUobIRQCQAJAIAEoAgRBAkcNACAmICUgJCApIAAoAvQsIhFBBmxqICcgEWogCUEQaiAUIAAoArQjIAEoAjwgACgC4CMgACgC6CMQsoCAgAACQAJAICcgACgC9CwiEWotAAANAAJAIAAoAvSdAUEBRw0AICJCADcCACAAQgA3AuBOICJBCGpBADYCAAJAQaAiRQ0AICFBAEGgIvwLAAsgAEEKOgDQhgEgAEHkADYCzHEgAEHkADYCkHIgAEEAOgCNciAAQQE2AohzIABBgIAENgLccQsgDCAHEOCAgIAADAELICMgEWpBADoAAAsgBg0BIAQgKSAAKAL0LEEGbGoQ2ICAgAAgIyAAKAL0LCIRai0AAA0BIAQgJyARaiwAABDZgICAAAwBCyAAIAAoAqSdATYC6CcgACAsIAAoAugjQQF0aigBADYCpJ0BCyA1IDNsITcgACAHEOCAgIAAAkAgASgCBCIIQQFIDQAgASgCOCERAkACQCAfQQJGIDJFcSISDQAgESENIB9BA0cNAQJAIDJFDQAgESENIDJBAUcNAiARQQNsQQRtIQ0MAgsgEUEBdEEFbSENDAELIBFBA2xBBW0hDQsgASgCNEEARyAyICBGIjZxIRACQAJAIAhBAUcNACAUIQsMAQsgCSgCECELIAkoAhRBAUgNACANIBEgHm1rIQ1BACEQCwJAIAtBAUgNACAAIAsQtYCAgAAaIAAgBSAEQQJBACAAKAL0LEEAShsgDSAQEOGAgIAAIQogASgCBCEICyAAQQA2AuwsIABBADYCvCQgACAAKAL0LEEBajYC9CwgCEECSA0AQQEhECAxIRMgFyERA0AgASgCOCENAkACQCASRQ0AIA1BA2xBBW0hDQwBCyAfQQNHDQACQCAyDQAgDUEBdEEFbSENDAELIDJBAUcNACANQQNsQQRtIQ0LIAEoAjQhDiAUIQsCQCAIQQFGDQAgEygCACELCwJAIAtBAUgNACAOQQBHIDZxIQggEUGMU2oiDiALELWAgIAAGkEAIQsCQCAAKAL0LCAQTA0AQQFBAiAAKAL0nQEbIQsLIA4gBSAEIAsgDSAIEOGAgIAAIQogASgCBCEICyARQXhqQQA2AgAgEUHId2pBADYCACARIBEoAgBBAWo2AgAgE0EEaiETIBFB0M4AaiERIBBBAWoiECAISA0ACwsgN0EBdCE2IAMgM2shAyAAIAAoAvQsIjcgJ2pBf2osAAA2AvSdAQJAIAUoAgBBAUgNACA3IAAoAvAsRw0AAkACQCAIQQFODQBBACERDAELQQAhDiAWIRQgACEQQQAhEQNAAkAgACAOQdDOAGxqIhIoAvAsIhNBAUgNACATQQNxIQ1BACELAkAgE0EESQ0AIBNB/P///wdxIRNBACELA0AgEUECdCAQIAtqIhFB8CRqLAAAQQF0ciARQfEkaiwAAHJBAnQgEUHyJGosAABBAXRyIBFB8yRqLAAAciERIBMgC0EEaiILRw0ACwsgDUUNACAUIAtqIQsDQCARQQF0IAssAAByIREgC0EBaiELIA1Bf2oiDQ0ACwsgFEHQzgBqIRQgEEHQzgBqIRAgEUEBdCASLADzJHIhESAOQQFqIg4gCEcNAAsLAkAgBg0AIAQgESA3QQFqIAhsELWBgIAACwJAIAAoAsAvRQ0AAkAgASgCBEEBRg0AIAAoApB+RQ0BCyAFQQA2AgALIAAgASgCGCILIAEoAhxsQZh4bSAAKALcnQEgBSgCAEEDdGpqIhFBACARQQBKGyIRQZDOACARQZDOAEgbNgLcnQECQAJAIAAoArQjIAAoAuydASIRwUH0GGxBEHVBDWpODQAgAEEBNgLwnQFBACERDAELIABBADYC8J0BIBEgC2ohEQsgACARNgLsnQELIAIgNmohAiAyQQFqITIgAw0ACyAAKALwnQEhEQsgCiELIAEgETYCTCAAIAEoAgQiETYC6J0BAkAgACgC4CMiDUEQRw0AIAAoAhxFITQLIAEgNDYCUCABIA3BQegHbDYCSEEAIQ0CQCABKAI8DQAgAC4BvJ0BIQ0LIAEgDTYCVAJAIAZFDQAgASAVNgIkIAEgDzYCGCARQQFIDQAgEUEDcSENQQAhEAJAIBFBBEkNACARQfz///8HcSETIAAhEUEAIRADQCARQbiQAmpBADYCACARQayQAmpBADYCACARQejBAWpBADYCACARQdzBAWpBADYCACARQZjzAGpBADYCACARQYzzAGpBADYCACARQcgkakEANgIAIBFBvCRqQQA2AgAgEUHAugJqIREgEyAQQQRqIhBHDQALCyANRQ0AIBBB0M4AbCAAakHIJGohEQNAIBFBADYCACARQXRqQQA2AgAgEUHQzgBqIREgDUF/aiINDQALCyABIAAsAJ0lIhE2AlwgAUHgqYCAACARQQF0QXxxaiAALACeJUEBdGouAQA2AmALIAlBIGokgICAgAAgCwu2BwEGfyOAgICAAEEwayIFJICAgIAAIAAgAkEkbGpB1C9qIABBgCVqIAMbIgYsAB1BAXQgBiwAHmohAgJAAkACQCADDQAgAkECSA0BCyABIAJBfmpB1amAgABBCBCygYCAAAwBCyABIAJB2amAgABBCBCygYCAAAsgBiwAACEDAkACQCAEQQJHDQAgASADQcCIgIAAQQgQsoGAgAAMAQsgASADQQN1QaCIgIAAIAYsAB1BA3RqQQgQsoGAgAAgASAGLQAAQQdxQYCqgIAAQQgQsoGAgAALAkAgACgC5CNBAkgNAEEBIQMDQCABIAYgA2osAABBwIiAgABBCBCygYCAACADQQFqIgMgACgC5CNIDQALCyABIAYsAAggACgC1CQiAygCECAGLAAdQQF1IAMuAQBsakEIELKBgIAAIAVBEGogBSAAKALUJCAGLAAIEK+AgIAAAkAgACgC1CQiBy4BAkEBSA0AIAZBCWohCCAFQRBqIQNBACECA0ACQAJAIAggAmoiCSwAACIKQQRIDQAgAUEIIAcoAhwgAy4BAGpBCBCygYCAACABIAksAABBfGpBiKqAgABBCBCygYCAAAwBCwJAIApBfEoNACABQQAgBygCHCADLgEAakEIELKBgIAAIAFBfCAJLAAAa0GIqoCAAEEIELKBgIAADAELIAEgCkEEaiAHKAIcIAMuAQBqQQgQsoGAgAALIANBAmohAyACQQFqIgIgACgC1CQiBy4BAkgNAAsLAkAgACgC5CNBBEcNACABIAYsAB9B26mAgABBCBCygYCAAAsCQCAGLQAdQQJHDQACQAJAIARBAkcNACAAKAKILUECRw0AIAEgBi4BGiAALgGMLWsiA0EJakEAIANBCGpBFEkiAxtBoKuAgABBCBCygYCAACADDQELIAEgBi4BGiIDIAAoAuAjQQF1IgJtIgdBgKuAgABBCBCygYCAACABIAMgB8EgAsFsayAAKALMJEEIELKBgIAACyAAIAYvARo7AYwtIAEgBiwAHCAAKALQJEEIELKBgIAAIAEgBiwAIEHpiICAAEEIELKBgIAAAkAgACgC5CNBAUgNACAGQQRqIQJBACEDA0AgASACIANqLAAAQbCJgIAAIAYsACBBAnRqKAIAQQgQsoGAgAAgA0EBaiIDIAAoAuQjSA0ACwsgBA0AIAEgBiwAIUHSqYCAAEEIELKBgIAACyAAIAYsAB02AogtIAEgBiwAIkHxqYCAAEEIELKBgIAAIAVBMGokgICAgAALpA8BH38jgICAgAAiBSEGIARBBHUhBwJAIARBD3FFDQAgAyAEaiIIQgA3AAAgCEEIakIANwAAIAdBAWohBwsgBSAHQQZ0ayIJIgokgICAgAACQAJAIAdBAUgNACAHQQR0IQtBACEMIAkhBQNAIAUgAyAMaiIILAAAIg0gDUEfdSINcyANazYCACAFQQRqIAhBAWosAAAiDSANQR91Ig1zIA1rNgIAIAVBCGogCEECaiwAACINIA1BH3UiDXMgDWs2AgAgBUEMaiAIQQNqLAAAIgggCEEfdSIIcyAIazYCACAFQRBqIQUgDEEEaiIMIAtIDQALIAogB0ECdEEPakFwcSIFayIOIggkgICAgAAgCCAFayIPJICAgIAAQQMtAPyrgIAAIRBBAi0A/KuAgAAhEUEBLQD8q4CAACESQQAtAPyrgIAAIRNBACEUQQAhFUEAIQ1BACEWQQAhF0EAIRhBACEIQQAhGUEAIRogCSEFA0AgDyAaQQJ0IgxqIhtBADYCACAOIAxqIRwgBSgCBCEKIAUoAgAhHUEBIR4DQEEBIR8CQAJAAkACQCAKIB1qIgwgE0wNACAUIQwgFSELIA0hICAWIRQgFyEhIBghIgwBCwJAIAUoAgwgBSgCCGoiCyATTA0AIBUhCyANISAgFiEUIBchISAYISIMAQsCQCAFKAIUIAUoAhBqIiAgE0wNACANISAgFiEUIBchISAYISIMAQsCQCAFKAIcIAUoAhhqIhQgE0wNACAWIRQgFyEhIBghIgwBCwJAIAUoAiQgBSgCIGoiISATTA0AIBchISAYISIMAQsCQCAFKAIsIAUoAihqIiIgE0wNACAYISIMAQsgBSgCNCAFKAIwaiIjIBNMDQELIAghI0EBIRgMAQsgGSAFKAI8IAUoAjhqIgggCCATSiIYGyEZCwJAAkACQAJAIAsgDGoiCCASTA0AIAwhCCALIQwMAQsCQCAUICBqIgwgEkwNACALIQwMAQsgIiAhaiINIBJMDQELICAhDSAUIRYMAQsgFCAZICNqIgsgCyASSiIfGyEWCyAfIBhqIAwgCGoiFCARSiIgIBYgDWoiHyARSnIiGGohF0EBIQsCQCAMIB8gGBsiFSAIIBQgIBsiFGoiCCAQSg0AIBwgCDYCAEEAIQsLAkAgCyAXckUNACAbIB42AgAgBSAKQQF1Igo2AgQgBSAdQQF1Ih02AgAgBSAFKAIIQQF1NgIIIAUgBSgCDEEBdTYCDCAFIAUoAhBBAXU2AhAgBSAFKAIUQQF1NgIUIAUgBSgCGEEBdTYCGCAFIAUoAhxBAXU2AhwgBSAFKAIgQQF1NgIgIAUgBSgCJEEBdTYCJCAFIAUoAihBAXU2AiggBSAFKAIsQQF1NgIsIAUgBSgCMEEBdTYCMCAFIAUoAjRBAXU2AjQgBSAFKAI4QQF1NgI4IAUgBSgCPEEBdTYCPCAeQQFqIR4gISEXICIhGCAjIQgMAQsLIAVBwABqIQUgISEXICIhGCAjIQggGkEBaiIaIAdHDQAMAgsLIAogB0ECdEEPakFwcSIFayIOIggkgICAgAAgCCAFayIPJICAgIAACyAHQf7///8HcSEdIAdBAXEhIkH/////ByEUQZCvgIAAIAFBAXUiI0EJbGohIUEAIR5BACEgA0AgISAeai0AACENAkAgB0EBSA0AQcCtgIAAIB5BEmxqIhZBEWohCkEAIQsCQCAHQQFGDQBBACELIA4hCCAPIQUDQCAKIQwCQCAFKAIAQQBKDQAgFiAIKAIAaiEMCyANIAwtAABqIQ0gCiEMAkAgBUEEaigCAEEASg0AIBYgCEEEaigCAGohDAsgCEEIaiEIIAVBCGohBSANIAwtAABqIQ0gHSALQQJqIgtHDQALCyAiRQ0AAkAgDyALQQJ0IgVqKAIAQQBKDQAgFiAOIAVqKAIAaiEKCyANIAotAABqIQ0LIB4gICANIBRIIgUbISAgDSAUIAUbIRQgHkEBaiIeQQlHDQALIAAgIEHwroCAACAjQQlsakEIELKBgIAAAkAgB0EBSA0AQYCsgIAAICBBEmxqIQtBACEMQYCsgIAAQaIBaiEKA0AgCyEIAkAgDyAMQQJ0Ig1qKAIAIgVFDQAgAEERIAtBCBCygYCAACAKIQggBUECSA0AIAVBf2ohBQNAIABBEUGArICAAEGiAWoiCEEIELKBgIAAIAVBf2oiBQ0ACwsgACAOIA1qKAIAIAhBCBCygYCAACAMQQFqIgwgB0cNAAsgDiEFIAchCANAAkAgBSgCAEEBSA0AIAAgCRClgICAAAsgCUHAAGohCSAFQQRqIQUgCEF/aiIIDQALQQAhHQNAAkAgDyAdQQJ0aigCACINQQFIDQAgDUEBaiEKIAMgHUEEdGohC0EAIQwDQCALIAxqLQAAIgUgBcBBB3UiBXMgBWvAIQgCQCANQQFGDQAgCiEFA0AgACAIIAVBfmp2QQFxQdCpgIAAQQgQsoGAgAAgBUF/aiIFQQJKDQALCyAAIAhBAXFB0KmAgABBCBCygYCAACAMQQFqIgxBEEcNAAsLIB1BAWoiHSAHRw0ACwsgACADIAQgASACIA4QhoCAgAAgBiSAgICAAAuLAwEFfwJAIARBAUgNAEEAIQUDQCABKAIAEMKAgIAAGiAAIAVqIgYgASgCABDCgICAAEEQdEGAgNi+f2pBEHVByxFsQRB2Igc6AAAgBiAHIAfAIAIsAABIasAiB0EAIAdBAEobIgdBPyAHQT9IGyIHOgAAIAIsAAAhCAJAAkAgBSADcg0AIAZBPyAIQXxqIgkgByAJIAdKGyAIQcMAShsiBzoAACACIAc6AAAMAQsgBiAHIAhrIgg6AAAgBiAIwCIJIAIsAAAiB2tB+QNqQQF2IAdBCGoiB2ogCCAHIAlIG8AiCEF8IAhBfEobIghBJCAIQSRIGyIIOgAAAkACQCAHIAhODQAgAi0AACAIQQF0IAdrasAiB0E/IAdBP0gbIQcMAQsgAi0AACAIaiEHCyACIAc6AAAgBiAGLQAAQQRqOgAAIAItAAAhBwsgASAHwCIGQfE4bEEQdSAGQR1saiIGQdUOIAZB1Q5IG0GqEGoQw4CAgAA2AgAgAUEEaiEBIAQgBUEBaiIFRw0ACwsLwQEBBH8CQCAEQQFIDQBBACEFA0ACQAJAIAUgA3INACABLAAAIgYgAiwAAEFwaiIHIAYgB0obIQYMAQsCQCABIAVqLAAAQXxqIgYgAiwAACIHQQhqIghMDQAgByAGQQF0IAhraiEGDAELIAcgBmohBgsgAiAGwCIGQQAgBkEAShsiBkE/IAZBP0gbIgY6AAAgACAGQR1sIAZB8ThsQRB2akGqEGoQw4CAgAA2AgAgAEEEaiEAIAQgBUEBaiIFRw0ACwsLsQEBAn8CQCABQQFODQBBAA8LIAFBA3EhAgJAAkAgAUEETw0AQQAhA0EAIQEMAQsgAUH8////B3EhA0EAIQEDQCADIAFBBGoiAUcNAAsgACABaiIDQXxqLQAAQRB0IANBfWosAABBCHRqIANBfmosAABqQQh0IANBf2osAABqIQMLAkAgAkUNACAAIAFqIQEDQCADQQh0IAEsAABqIQMgAUEBaiEBIAJBf2oiAg0ACwsgAwvXAQEGfwJAIARBAUgNACAEQQFxIQUgA8EhBkEAIQcCQCAEQQFGDQAgBEH+////B3EhCEEAIQcgACEEIAIhAyABIQkDQCAEIAkvAQAiCiAGIAMvAQAgCmvBbEECdmo7AQAgBEECaiAJQQJqLwEAIgogBiADQQJqLwEAIAprwWxBAnZqOwEAIARBBGohBCADQQRqIQMgCUEEaiEJIAggB0ECaiIHRw0ACwsgBUUNACAAIAdBAXQiBGogASAEai8BACIDIAYgAiAEai8BACADa8FsQQJ2ajsBAAsLpAYBC38jgICAgABBIGsiAySAgICAAAJAIAAoAgwiBEUNAAJAAkBBgIAQIAAoAggiBUEKdGsiBkEQdSIHQQNKDQACQCAGQYD4A3EiBkUNAEGQqoCAACAHQQFqIghBDGxqIglBBGohCiAJKAIAIQsCQCAGQYCAAkkNACADIAkoAggiDEGQqoCAACAHQQxsaiIJKAIIayINQRB1IAbBIgZsIAxqIA1B//8DcSAGbEEQdWo2AhggAyAKKAIAIgogCSgCBGsiDEEQdSAGbCAKaiAMQf//A3EgBmxBEHVqNgIUIAMgCyAJKAIAayIJQRB1IAZsIAtqIAlB//8DcSAGbEEQdWo2AhAgA0HQqoCAACAIQQN0aiIJKAIEIgtB0KqAgAAgB0EDdGoiBygCBGsiCEEQdSAGbCALaiAIQf//A3EgBmxBEHVqNgIMIAMgCSgCACIJIAcoAgBrIgdBEHUgBmwgCWogB0H//wNxIAZsQRB1ajYCCAwDCyADIAkoAghBkKqAgAAgB0EMbGoiCSgCCCIMayINQRB1IAZsIAxqIA1B//8DcSAGbEEQdmo2AhggAyAKKAIAIAkoAgQiCmsiDEEQdSAGbCAKaiAMQf//A3EgBmxBEHZqNgIUIAMgCyAJKAIAIglrIgtBEHUgBmwgCWogC0H//wNxIAZsQRB2ajYCECADQdCqgIAAIAhBA3RqIgkoAgRB0KqAgAAgB0EDdGoiBygCBCILayIIQRB1IAZsIAtqIAhB//8DcSAGbEEQdmo2AgwgAyAJKAIAIAcoAgAiB2siCUEQdSAGbCAHaiAJQf//A3EgBmxBEHZqNgIIDAILIANBEGpBCGpBkKqAgAAgB0EMbGoiBkEIaigCADYCACADIAYpAgA3AxAgA0HQqoCAACAHQQN0aikDADcDCAwBCyADQRhqQZCqgIAAQThqKAIANgIAIANBMCkDkKqAgAA3AxAgA0EgKQPQqoCAADcDCAsgACAFIARqIgRBACAEQQBKGyIEQYACIARBgAJIGzYCCCABIANBEGogA0EIaiAAIAEgAhC9gICAAAsgA0EgaiSAgICAAAv4AgEJfyOAgICAAEHQAGsiAySAgICAACADQSBqIANBwABqIAIgASwAABCvgICAAAJAIAIuAQIiBEEBSA0AIAIuAQQhBSAEQQF0IANqQX5qIQYgA0HAAGpBf2ohByAEIQhBACEJA0AgBiABIAhqLAAAIgpBCnQiC0Gaf2ogCkEfdSALQeYAcnEgCkEAShsiCkEQdSAFbCAJwSAHIAhqLQAAbEEIdWogCkH+/wNxIAVsQRB1aiIJOwEAIAZBfmohBiAIQQFLIQogCEF/aiEIIAoNAAsgAigCCCABLAAAIARsIghqIQsgAigCDCAIQQF0aiEIIAMhBiAAIQpBACEFA0AgCiALIAVqLQAAQQd0IAYuAQBBDnQgCC4BAG1qIglBACAJQQBKGyIJQf//ASAJQf//AUgbOwEAIAZBAmohBiAIQQJqIQggCkECaiEKIAVBAWoiBSACLgECIgRIDQALCyAAIAIoAiQgBBDHgICAACADQdAAaiSAgICAAAvhIgE+fyOAgICAACIPIRAgASACLAAiNgL0ISABKALoISERIAItAB8hEiACLAAdIRMgAiwAHiEUIA8gACgC6CMiFSAAKALwIyIWaiIXQQJ0QQ9qQXBxayIYIg8kgICAgAAgDyAXQQF0QQ9qQXBxayIZIhckgICAgAAgFyAAKALsIyIPQQJ0QQ9qQXBxayIaJICAgIAAIAEgFjYC7CEgASAWNgLwIQJAIAAoAuQjIhdBAUgNACAYQQhqIRtBA0EBIBJB/wFxQQRGIhwbIR0gAUGIIWohHiAHQQRqIR8gGEF4aiEgIAFBgApqISFB4KmAgAAgE0EBdEF8cWogFEEBdGouAQAiIkGwf2ohIyAiQdAAaiEkICJB0HhqISUgAUG8HmohJiABQYAhaiEnIAFBgB5qISggDcEiKSAibCEqQYAEIA1BAXYiF2shKyAXQYB8aiEsIAEgFkEBdGohLSAiQbAHaiIuwSApbCEvQYCAwB0gIkEQdGtBEHUgKWwhMCAOwSExIA1BgRBIITJBACEzA0AgCCAzQQJ0IjRqKAIAITUgAUEANgL8IUEBIRQgBSAzQQF2IBxyQQV0aiE2QQAhNwJAIAItAB1BAkcNACAMIDRqKAIAIRFBASEUAkAgMyAdcUUNAEEBITcMAQsgGSAAKALwIyIWIBEgACgCoCQiDWprQX5qIhdBAXRqIAEgDyAzbCAXakEBdGogNiAWIBdrIA0gACgC5CcQxICAgAAgAUEBNgL8ISABIAAoAvAjNgLsISACLQAdQQJGITdBACEUC0EAIAsgNGoiOCgCACI5QQEgOUEBShsiDyAPZyINQX9qdCIPQf//A3FB/////wEgD0EQdSIWbSIXwSIPbEEQdSAWIA9sakEDdGsiFiAXQQ91QQFqQQF1bCAXQRB0aiAWQRB1IA9saiAWQfj/A3EgD2xBEHVqIQ8gDCA0aigCACE6AkACQCA5Qf//B0oNAEH/////ByANQXFqIhd2IhYgD0GAgICAeCAXdSINIA8gDUobIA8gFkobIBd0ITsMAQsgD0EPIA1rdSE7CwJAIAAoAuwjIjxBAUgNACA8QQFxIT0gO0EEdUEBaiIXQQ90QRB1IQ8gF0EQdUEBakEBdSEOQQAhFQJAIDxBAUYNACA8Qf7///8HcSETQQAhFSAaIRcgAyEWA0AgFyAWLwEAIg3BIhJBEHUgD2wgDiASbGogDSAPbEEQdWo2AgAgF0EEaiAWQQJqLgEAIg1BEHUgD2wgDiANbGogDUH//wNxIA9sQRB1ajYCACAXQQhqIRcgFkEEaiEWIBMgFUECaiIVRw0ACwsgPUUNACAaIBVBAnRqIAMgFUEBdGovAQAiF8EiFkEQdSAPbCAOIBZsaiAXIA9sQRB1ajYCAAsCQCAUDQACQCAzDQAgO0H//wNxIDFsQRB1IDtBEHUgMWxqQQJ0ITsLIAEoAuwhIg8gOmsiFUF+aiIXIA9ODQAgO0H//wNxIRYgO0EQdSENAkAgOkEBcUUNACAYIBdBAnRqIBYgGSAXQQF0ai4BACIXbEEQdSANIBdsajYCACAVQX9qIRcLIDpBf0YNACAPIBdrIRUgGSAXQQF0aiEPIBggF0ECdGohFwNAIBcgFiAPLgEAIg5sQRB1IA0gDmxqNgIAIBdBBGogFiAPQQJqLgEAIg5sQRB1IA0gDmxqNgIAIA9BBGohDyAXQQhqIRcgFUF+aiIVDQALCwJAIDkgASgC+CEiD0YNACAPIA8gD0EfdSIXcyAXa2ciFkF/anQiF0H/////ASA5IDkgOUEfdSIPcyAPa2ciDUF/anQiFUEQdW3BIg8gF0H//wNxbEEQdSAPIBdBEHVsaiIXrCAVrH5CHYinQXhxayIVQRB1IA9sIBdqIBVB//8DcSAPbEEQdWohDwJAAkAgFiANayIXQXJKDQBB/////wdBcyAXayIXdiIWIA9BgICAgHggF3UiDSAPIA1KGyAPIBZKGyAXdCEXDAELIA8gF0ENanVBACAXQR1qQTBJGyEXCwJAIAAoAvAjIhZBAUgNACAhIAEoAvAhIg1BAnQgFkECdGtqIQ8gF0H//wNxIQ4gF0EQdSESIA0gFmshFgNAIA8gDygCACINwSIVIA5sQRB1IBUgEmxqIA1BD3VBAWpBAXUgF2xqNgIAIA9BBGohDyAWQQFqIhYgASgC8CFIDQALCwJAIDdFDQAgASgC/CENACABKALsISIPIDprQX5qIA9ODQAgICAPQQJ0IDpBAnRraiEPIDpBAmohFiAXQf//A3EhDiAXQRB1IRIDQCAPIA8oAgAiDcEiFSAObEEQdSAVIBJsaiANQQ91QQFqQQF1IBdsajYCACAPQQRqIQ8gFkF/aiIWDQALCyABIAEoAuAhIg/BIhUgF0H//wNxIhZsQRB1IBUgF0EQdSINbGogD0EPdUEBakEBdSAXbGo2AuAhIAEgASgC5CEiD8EiFSAWbEEQdSAVIA1saiAPQQ91QQFqQQF1IBdsajYC5CFBACEPA0AgKCAPaiIVIBUoAgAiFcEiDiAWbEEQdSAOIA1saiAVQQ91QQFqQQF1IBdsajYCACAPQQRqIg9BwABHDQALQQAhDwNAICcgD2oiFSAVKAIAIhXBIg4gFmxBEHUgDiANbGogFUEPdUEBakEBdSAXbGo2AgAgD0EEaiIPQeAARw0ACyABIDgoAgAiOTYC+CEgACgC7CMhPAsCQCA8QQFIDQAgBiAzQQpsaiE9IDVBAnUiFyA1QQ90ckEQdSE+IAAoApwkIhRBAXUhPyA5QQp0QRB1IUAgACgCoCQiQUEBdSFCIDlBFXVBAWpBAXUhQyAHIDNBMGxqIkQgFEF/aiIPQQF0aiFFICcgD0ECdGohRiAKIDRqKAIAIg9BEHUhRyAbIAEoAuwhIBFrQQJ0aiE1IAEoAvAhIBFrQQJ0ICFqQQRqITogCSA0ai4BACFIIA/BIUkgASgC9CEhDyAXwSFKQQAhNCAmITkDQCABIA9BtYjO3QBsQevG5bADajYC9CEgOSgCACIPQRB1IDYuAQAiF2wgQmogD0H//wNxIBdsQRB1aiA5QXxqKAIAIg9BEHUgNi4BAiIXbGogD0H//wNxIBdsQRB1aiA5QXhqKAIAIg9BEHUgNi4BBCIXbGogD0H//wNxIBdsQRB1aiA5QXRqKAIAIg9BEHUgNi4BBiIXbGogD0H//wNxIBdsQRB1aiA5QXBqKAIAIg9BEHUgNi4BCCIXbGogD0H//wNxIBdsQRB1aiA5QWxqKAIAIg9BEHUgNi4BCiIXbGogD0H//wNxIBdsQRB1aiA5QWhqKAIAIg9BEHUgNi4BDCIXbGogD0H//wNxIBdsQRB1aiA5QWRqKAIAIg9BEHUgNi4BDiIXbGogD0H//wNxIBdsQRB1aiA5QWBqKAIAIg9BEHUgNi4BECIXbGogD0H//wNxIBdsQRB1aiA5QVxqKAIAIg9BEHUgNi4BEiIXbGogD0H//wNxIBdsQRB1aiE7AkAgQUEQRw0AIDlBWGooAgAiD0EQdSA2LgEUIhdsIDtqIA9B//8DcSAXbEEQdWogOUFUaigCACIPQRB1IDYuARYiF2xqIA9B//8DcSAXbEEQdWogOUFQaigCACIPQRB1IDYuARgiF2xqIA9B//8DcSAXbEEQdWogOUFMaigCACIPQRB1IDYuARoiF2xqIA9B//8DcSAXbEEQdWogOUFIaigCACIPQRB1IDYuARwiF2xqIA9B//8DcSAXbEEQdWogOUFEaigCACIPQRB1IDYuAR4iF2xqIA9B//8DcSAXbEEQdWohOwtBACE4AkAgN0UNACA1KAIAIg9BEHUgPS4BACIXbCAPQf//A3EgF2xBEHVqIDVBfGooAgAiD0EQdSA9LgECIhdsaiAPQf//A3EgF2xBEHVqIDVBeGooAgAiD0EQdSA9LgEEIhdsaiAPQf//A3EgF2xBEHVqIDVBdGooAgAiD0EQdSA9LgEGIhdsaiAPQf//A3EgF2xBEHVqIDVBcGooAgAiD0EQdSA9LgEIIhdsaiAPQf//A3EgF2xBEHVqQQJqITggNUEEaiE1CyAnKAIAIRcgJyABKALkISIPNgIAIA9BEHUgRC4BACIWbCA/aiAPQf//A3EgFmxBEHVqIQ4CQAJAIBRBA04NACAXIRUMAQtBAiESIB4hDyAfIRYDQCAPKAIAIRUgDyAPQXxqIhMoAgAiDTYCACATIBc2AgAgF0EQdSAWQX5qLgEAIhNsIA5qIBdB//8DcSATbEEQdWogDUEQdSAWLgEAIhdsaiANQf//A3EgF2xBEHVqIQ4gD0EIaiEPIBZBBGohFiAVIRcgEkECaiISIBRIDQALCyBGIBU2AgAgO0ECdCABKALgISIPQf//A3EiFyBIbEEQdSAPQRB1Ig8gSGxqIBVBEHUgRS4BACIWbCAOaiAVQf//A3EgFmxBEHVqQQF0aiISIBcgR2xBEHUgDyBHbGogASgC8CFBAnQgIWpBfGooAgAiD0EQdSBJbGogD0H//wNxIElsQRB1aiITamshDwJAAkAgEUEBSA0AIA9BAXQgOGogOkF8aigCACIPQRB1ID5sIDpBeGooAgAgOigCAGoiF0EQdSBKbGogF0H//wNxIEpsQRB1aiAPQf//A3EgPmxBEHVqQQF0a0ECdSEPIDpBBGohOgwBCyAPQQF1IQ8LQQAgGiA0QQJ0aigCACJLIA9BAWpBAXVrIg9rIA8gASgC9CFBAEgbIg9BgIh+IA9BgIh+ShsiD0GA8AEgD0GA8AFIGyIWICJrIQ0CQAJAAkACQAJAAkAgMkUNACANQQp1IQ0MAQsCQCANICxMDQAgDSAsa0EKdiENDAELIA0gK04NASANICxqQQp1IQ0LAkAgDUEBSA0AICMgDUEKdGoiD8EgKWwhFSAPQYAIaiIXwSApbCEODAQLICIhDyAuIRcgKiEVIC8hDiANQQFqDgIBAwILICIhDyAuIRcgKiEVIC8hDiANQQBODQILICUhDyAiIRcgMCEVICohDgwBCyAkIA1BCnRqIg9BgAhqIRdBgICAYCAPQRB0Ig1rQRB1IClsIQ5BACANa0EQdSApbCEVCyAEIDRqIg0gFyAPIBYgF2vBIkwgTGwgDmogFiAPa8EiFiAWbCAVakgbIg9BCXZBAWpBAXY6AAAgOUEAIA9BBHQiD2sgDyABKAL0IUEASBsgOEEBdGoiFyA7QQR0aiIPNgIEIAEgDyBLQQR0ayIWNgLkISABIBYgEkECdGsiFjYC4CEgISABKALwIUECdGogFiATQQJ0azYCACABIAEoAvAhQQFqNgLwISABIAEoAuwhIhZBAWo2AuwhIC0gNEEBdGogD0EQdSBAbCAPIENsaiAPQf7/A3EgQGxBEHVqQQd1QQFqQQF1Ig9BgIB+IA9BgIB+ShsiD0H//wEgD0H//wFIGzsBACAYIBZBAnRqIBdBAXQ2AgAgASABKAL0ISANLAAAaiIPNgL0ISA5QQRqITkgNEEBaiI0IDxHDQALCyAoICggPEECdGoiDykCADcCACAoQThqIA9BOGopAgA3AgAgKEEwaiAPQTBqKQIANwIAIChBKGogD0EoaikCADcCACAoQSBqIA9BIGopAgA3AgAgKEEYaiAPQRhqKQIANwIAIChBEGogD0EQaikCADcCACAoQQhqIA9BCGopAgA3AgAgH0EwaiEfIAQgACgC7CMiD2ohBCAtIA9BAXQiF2ohLSADIBdqIQMgM0EBaiIzIAAoAuQjIhdIDQALIAAoAvAjIRYgACgC6CMhFQsgASAMIBdBAnRqQXxqKAIANgLoIQJAIBZBAXQiD0UNACABIAEgFUEBdGogD/wKAAALAkAgACgC8CNBAnQiD0UNACABQYAKaiIXIBcgACgC6CNBAnRqIA/8CgAACyAQJICAgIAAC7okASt/I4CAgIAAQRBrIg8hECAPJICAgIAAIAEoAughIREgDyAAKAKUJCISQZQKbCITQQ9qQXBxayIUIhUkgICAgAACQCATRQ0AIBRBACAT/AsACwJAIBJBAUgNACABQYAhaiEWIAFBgB5qIRMgACgC8CNBAnQgAWpB/AlqKAIAIRcgASgC5CEhGCABKALgISEZIAItACIhGiAUIQ8gEiEbA0AgD0GQCmpBADYCACAPQYwKaiAaQQNxIhw2AgAgD0GICmogHDYCACAPQYQKaiAYNgIAIA9BgApqIBk2AgAgD0GACGogFzYCACAPIBMpAgA3AgAgD0EIaiATQQhqKQIANwIAIA9BEGogE0EQaikCADcCACAPQRhqIBNBGGopAgA3AgAgD0EgaiATQSBqKQIANwIAIA9BKGogE0EoaikCADcCACAPQTBqIBNBMGopAgA3AgAgD0E4aiATQThqKQIANwIAAkBB4ABFDQAgD0GgCWogFkHgAPwKAAALIA9BlApqIQ8gGkEBaiEaIBtBf2oiGw0ACwsgEEEANgIMQeCpgIAAIAItAB0iD8BBAXRBfHFqIAIsAB5BAXRqIRkgACgC7CMiHEEoIBxBKEgbIR0CQAJAIA9BAkcNACAAKALkIyIPQQFIDQEgD0EDcSETAkACQCAPQQRPDQBBACEaDAELIA9B/P///wdxIRhBACEaIAwhDwNAIB0gDygCAEF9aiIbIB0gG0gbIhsgD0EEaigCAEF9aiIXIBsgF0gbIhsgD0EIaigCAEF9aiIXIBsgF0gbIhsgD0EMaigCAEF9aiIXIBsgF0gbIR0gD0EQaiEPIBggGkEEaiIaRw0ACwsgE0UNASAMIBpBAnRqIQ8DQCAdIA8oAgBBfWoiGiAdIBpIGyEdIA9BBGohDyATQX9qIhMNAAwCCwsgEUEBSA0AIB0gEUF9aiIPIB0gD0gbIR0LIBkuAQAhHiACLQAfIRsgFSAAKALoIyAAKALwIyIPaiITQQJ0QQ9qQXBxayIfIhokgICAgAAgGiATQQF0QQ9qQXBxayIgIhMkgICAgAAgEyAcQQJ0QQ9qQXBxayIhIhMkgICAgAAgE0HgfmoiIiSAgICAACABIA82AuwhIAEgDzYC8CEgASAPQQF0aiEjAkAgACgC5CMiF0EBSA0AQQNBASAbQf8BcUEERiIkGyElIB9BeGohJkECIB1rIScgAUGACmohKEEAIB1rISkgFEGkFGohKiAUQZAKaiErIBRB4DJqISxBACAdQQF0ayEtIA7BIS5BACEVQQAhLwNAIAggFUECdCIOaigCACEwIAFBADYC/CFBASExIAUgFUEBdiAkckEFdGohMgJAIAItAB0iM0ECRw0AQQIhMyAMIBVBAnRqKAIAIREgFSAlcQ0AAkAgFUECRw0AAkACQAJAAkAgACgClCQiL0ECSA0AIC9Bf2oiD0EDcSEXIBQoApAKIRoCQCAvQX5qQQNPDQBBACETQQEhDwwCCyAPQXxxITNBACETQQEhDyAsIRsDQCAbKAIAIhggG0HsdWooAgAiGSAbQdhraigCACIWIBtBxGFqKAIAIhIgGiASIBpIIhIbIhogFiAaSCIWGyIaIBkgGkgiGRsiGiAYIBpIIhgbIRogD0EDaiI0IA9BAmogD0EBaiAPIBMgEhsgFhsgGRsgGBshEyAPQQRqIQ8gG0HQKGohGyA0IDNHDQAMAgsLQQAhEyAvQQFGDQEMAgsgF0UNACArIA9BlApsaiEbA0AgGygCACIYIBogGCAaSCIYGyEaIA8gEyAYGyETIBtBlApqIRsgD0EBaiEPIBdBf2oiFw0ACwsgL0EBcSEYQQAhDwJAIC9BAUYNACAvQX5xIRdBACEaICohDwNAAkAgEyAaIhtGDQAgD0HsdWoiGiAaKAIAQf///z9qNgIACwJAIBtBAWoiGiATRg0AIA8gDygCAEH///8/ajYCAAsgD0GoFGohDyAaQQFqIhogF0cNAAsgG0ECaiEPCyAYRQ0AIA8gE0YNACAUIA9BlApsaiIPIA8oApAKQf///z9qNgKQCgtBACEvIB1BAUgNACAjIC1qIRogECgCDCAdaiEcIBQgE0GUCmxqIg9BgAhqIRYgD0HABWohGSAPQaAEaiEYICkhDwNAIAQgD2ogGCAcQX9qQShvIhNBKGogEyATQQBIGyIcQQJ0IhNqKAIAQQl2QQFqQQF2OgAAIAsoAgQhGyAoIA8gASgC8CFqQQJ0aiAWIBNqKAIANgIAIBogG8EiFyAZIBNqKAIAIhNB//8DcWxBEHUgFyATQRB1bGogG0EPdUEBakEBdSATbGpBDXVBAWpBAXUiE0GAgH4gE0GAgH5KGyITQf//ASATQf//AUgbOwEAIBpBAmohGiAPQQFqIg8NAAsgACgC7CMhHAsgICAAKALwIyITIBEgACgCoCQiGmprQX5qIg9BAXRqIAEgHCAVbCAPakEBdGogMiATIA9rIBogACgC5CcQxICAgAAgAUEBNgL8ISABIAAoAvAjNgLsISACLQAdITNBACExC0EAIAsgDmoiNSgCACIWQQEgFkEBShsiDyAPZyIbQX9qdCIPQf//A3FB/////wEgD0EQdSIabSITwSIPbEEQdSAaIA9sakEDdGsiGiATQQ91QQFqQQF1bCATQRB0aiAaQRB1IA9saiAaQfj/A3EgD2xBEHVqIQ8gDCAOaigCACE2IAAoApQkIRICQAJAIBZB//8HSg0AQf////8HIBtBcWoiE3YiGiAPQYCAgIB4IBN1IhsgDyAbShsgDyAaShsgE3QhNwwBCyAPQQ8gG2t1ITcLIDBBD3QhOAJAIAAoAuwjIjRBAUgNACA0QQFxITkgN0EEdUEBaiITQQ90QRB1IQ8gE0EQdUEBakEBdSEXQQAhHAJAIDRBAUYNACA0Qf7///8HcSEZQQAhHCAhIRMgAyEaA0AgEyAaLwEAIhvBIhhBEHUgD2wgFyAYbGogGyAPbEEQdWo2AgAgE0EEaiAaQQJqLgEAIhtBEHUgD2wgFyAbbGogG0H//wNxIA9sQRB1ajYCACATQQhqIRMgGkEEaiEaIBkgHEECaiIcRw0ACwsgOUUNACAhIBxBAnRqIAMgHEEBdGovAQAiE8EiGkEQdSAPbCAXIBpsaiATIA9sQRB1ajYCAAsgMEECdSEYIDhBgIB8cSEZAkAgMQ0AAkAgFQ0AIDdB//8DcSAubEEQdSA3QRB1IC5sakECdCE3CyABKALsISIPIDZrIhxBfmoiEyAPTg0AIDdB//8DcSEaIDdBEHUhGwJAIDZBAXFFDQAgHyATQQJ0aiAaICAgE0EBdGouAQAiE2xBEHUgGyATbGo2AgAgHEF/aiETCyA2QX9GDQAgDyATayEcICAgE0EBdGohDyAfIBNBAnRqIRMDQCATIBogDy4BACIXbEEQdSAbIBdsajYCACATQQRqIBogD0ECai4BACIXbEEQdSAbIBdsajYCACAPQQRqIQ8gE0EIaiETIBxBfmoiHA0ACwsgGSAYciEwIAcgFUEwbGohNyAGIBVBCmxqITEgM8AhOAJAIBYgASgC+CEiD0YNACAPIA8gD0EfdSITcyATa2ciGkF/anQiE0H/////ASAWIBYgFkEfdSIPcyAPa2ciG0F/anQiHEEQdW3BIg8gE0H//wNxbEEQdSAPIBNBEHVsaiITrCAcrH5CHYinQXhxayIcQRB1IA9sIBNqIBxB//8DcSAPbEEQdWohDwJAAkAgGiAbayITQXJKDQBB/////wdBcyATayITdiIaIA9BgICAgHggE3UiGyAPIBtKGyAPIBpKGyATdCEPDAELIA8gE0ENanVBACATQR1qQTBJGyEPCwJAIAAoAvAjIhpBAUgNACAoIAEoAvAhIhtBAnQgGkECdGtqIRMgD0H//wNxIRcgD0EQdSEYIBsgGmshGgNAIBMgEygCACIbwSIcIBdsQRB1IBwgGGxqIBtBD3VBAWpBAXUgD2xqNgIAIBNBBGohEyAaQQFqIhogASgC8CFIDQALCwJAIDNB/wFxQQJHDQAgASgC/CENACABKALsISITIDZrQX5qIBMgHWtODQAgJiATQQJ0IDZBAnRraiETICcgNmohGiAPQf//A3EhFyAPQRB1IRgDQCATIBMoAgAiG8EiHCAXbEEQdSAcIBhsaiAbQQ91QQFqQQF1IA9sajYCACATQQRqIRMgGkF/aiIaDQALCwJAIBJBAUgNACAPQf//A3EhEyAPQRB1IRpBACEWIBQhGwNAIBQgFkGUCmxqIhwgHCgCgAoiF8EiGCATbEEQdSAYIBpsaiAXQQ91QQFqQQF1IA9sajYCgAogHCAcKAKECiIXwSIYIBNsQRB1IBggGmxqIBdBD3VBAWpBAXUgD2xqNgKECkEAIRwDQCAbIBxqIhcgFygCACIXwSIYIBNsQRB1IBggGmxqIBdBD3VBAWpBAXUgD2xqNgIAIBxBBGoiHEHAAEcNAAtBoAkhHANAIBsgHGoiFyAXKAIAIhfBIhggE2xBEHUgGCAabGogF0EPdUEBakEBdSAPbGo2AgAgHEEEaiIcQYAKRw0AC0EAIRwDQCAbIBxqIhdB4AZqIhggGCgCACIYwSIZIBNsQRB1IBkgGmxqIBhBD3VBAWpBAXUgD2xqNgIAIBdBgAhqIhcgFygCACIXwSIYIBNsQRB1IBggGmxqIBdBD3VBAWpBAXUgD2xqNgIAIBxBBGoiHEGgAUcNAAsgG0GUCmohGyAWQQFqIhYgEkcNAAsLIAEgNSgCACIWNgL4ISAAKAKUJCESIAAoAuwjITQLIAEgFCA4ICEgBCAjIB8gIiAyIDEgNyARIDAgCSAOaigCACAKIA5qKAIAIBYgDSAeIDQgLyAAKAKcJCAAKAKgJCAAKALAJCASIBBBDGogHRCfgICAACAvQQFqIS8gBCAAKALsIyIcaiEEICMgHEEBdCIPaiEjIAMgD2ohAyAVQQFqIhUgACgC5CMiF0gNAAsgACgClCQhEgtBACEbAkAgEkECSA0AIBJBf2oiD0EDcSEYIBQoApAKIRMCQAJAIBJBfmpBA08NAEEAIRtBASEPDAELIBRB4DJqIRogD0F8cSE0QQAhG0EBIQ8DQCAaKAIAIhkgGkHsdWooAgAiFiAaQdhraigCACISIBpBxGFqKAIAIhUgEyAVIBNIIhUbIhMgEiATSCISGyITIBYgE0giFhsiEyAZIBNIIhkbIRMgD0EDaiIOIA9BAmogD0EBaiAPIBsgFRsgEhsgFhsgGRshGyAPQQRqIQ8gGkHQKGohGiAOIDRHDQALCyAYRQ0AIA9BlApsIBRqQZAKaiEaA0AgGigCACIZIBMgGSATSCIZGyETIA8gGyAZGyEbIBpBlApqIRogD0EBaiEPIBhBf2oiGA0ACwsgAiAUIBtBlApsaiIUKAKMCjoAIgJAIB1BAUgNAEEAIB1rIQ8gAUGACmohGCAUQYAIaiEZIBRBwAVqIRYgFEGgBGohEiAQKAIMIB1qIRsgIyAdQQF0ayETIAsgF0ECdGpBfGooAgAiGkEKdEEQdSEcIBpBFXVBAWpBAXUhFwNAIAQgD2ogEiAbQX9qQShvIhpBKGogGiAaQQBIGyIbQQJ0IhpqKAIAQQl2QQFqQQF2OgAAIBggDyABKALwIWpBAnRqIBkgGmooAgA2AgAgEyAWIBpqKAIAIhpBEHUgHGwgGiAXbGogGkH//wNxIBxsQRB1akEHdUEBakEBdSIaQYCAfiAaQYCAfkobIhpB//8BIBpB//8BSBs7AQAgE0ECaiETIA9BAWoiDw0ACyAAKALsIyEcCyABIBQgHEECdGoiDykCADcCgB4gAUG4HmogD0E4aikCADcCACABQbAeaiAPQTBqKQIANwIAIAFBqB5qIA9BKGopAgA3AgAgAUGgHmogD0EgaikCADcCACABQZgeaiAPQRhqKQIANwIAIAFBkB5qIA9BEGopAgA3AgAgAUGIHmogD0EIaikCADcCAAJAQeAARQ0AIAFBgCFqIBRBoAlqQeAA/AoAAAsgASAUKQKACjcC4CEgASAMIAAoAuQjQQJ0akF8aigCADYC6CECQCAAKALwI0EBdCIPRQ0AIAEgASAAKALoI0EBdGogD/wKAAALAkAgACgC8CNBAnQiD0UNACABQYAKaiITIBMgACgC6CNBAnRqIA/8CgAACyAQQRBqJICAgIAAC+AlAUV/I4CAgIAAIhoaIBogF0E4bEEPakFwcWsiGxoCQCASQQFIDQAgD0EGdSEcIBtBkAFqIR0gAUGUDWohHiAbQQRqIR8gG0HkAWohICABQaQJaiEhIApBBGohIiAXQX5xISMgF0EBcSEkIBdBfmohJSARQbB/aiEmIBFB0ABqIScgEUHQeGohKCAOQRB1ISkgFEEBdSEqIBVBAXUhKyAMQRB1ISwgF0F/aiItQX5xIS4gLUEBcSEvIC1BfHEhMCAtQQNxITEgESAQwSIybCEzQYAEIBBBAXYiGmshNCAaQYB8aiE1IBFBsAdqIjbBIDJsITcgCiAUQX9qIjhBAXRqITlBgIDAHSARQRB0a0EQdSAybCE6IAAoAvAhIAtrQQJ0IABBgApqIjtqQQRqITwgBiAAKALsISALa0ECdGpBCGohPSAOwSE+IA3BIT8gFsEhGiAMwSFAQcAAIUEgAkECRyFCIBBBgRBIIUMgE0EASiFEQQAhRQNAAkACQCBCRQ0AQQAhRgwBCyA9KAIAIhBBEHUgCS4BACIObCAQQf//A3EgDmxBEHVqID1BfGooAgAiEEEQdSAJLgECIg5saiAQQf//A3EgDmxBEHVqID1BeGooAgAiEEEQdSAJLgEEIg5saiAQQf//A3EgDmxBEHVqID1BdGooAgAiEEEQdSAJLgEGIg5saiAQQf//A3EgDmxBEHVqID1BcGooAgAiEEEQdSAJLgEIIg5saiAQQf//A3EgDmxBEHVqQQF0QQRqIUYgPUEEaiE9CwJAAkAgC0EBTg0AQQAhRwwBCyBGIDxBfGooAgAiEEEQdSAsbCA8QXhqKAIAIDwoAgBqIg5BEHUgQGxqIA5B//8DcSBAbEEQdWogEEH//wNxICxsQRB1akECdGshRyA8QQRqITwLAkACQCAXQQBKIkgNACAYKAIAIUkMAQsgAyBFQQJ0aiFKIDkuAQAhSyAKLgEAIUwgCC4BEiFNIAguARAhTiAILgEOIU8gCC4BDCFQIAguAQohUSAILgEIIVIgCC4BBiFTIAguAQQhVCAILgECIVUgCC4BACFWQQAhVyBFQQ9qQQJ0IVggISFZA0AgASBXQZQKbGoiWiBaKAKICkG1iM7dAGxB68blsANqNgKICiBaIFhqIhAoAgAiDkEQdSBWbCAraiAOQf//A3EgVmxBEHVqIBBBfGooAgAiDkEQdSBVbGogDkH//wNxIFVsQRB1aiAQQXhqKAIAIg5BEHUgVGxqIA5B//8DcSBUbEEQdWogEEF0aigCACIOQRB1IFNsaiAOQf//A3EgU2xBEHVqIBBBcGooAgAiDkEQdSBSbGogDkH//wNxIFJsQRB1aiAQQWxqKAIAIg5BEHUgUWxqIA5B//8DcSBRbEEQdWogEEFoaigCACIOQRB1IFBsaiAOQf//A3EgUGxBEHVqIBBBZGooAgAiDkEQdSBPbGogDkH//wNxIE9sQRB1aiAQQWBqKAIAIg5BEHUgTmxqIA5B//8DcSBObEEQdWogEEFcaigCACIOQRB1IE1saiAOQf//A3EgTWxBEHVqIQ4CQCAVQRBHDQAgEEFYaigCACIMQRB1IAguARQiD2wgDmogDEH//wNxIA9sQRB1aiAQQVRqKAIAIg5BEHUgCC4BFiIMbGogDkH//wNxIAxsQRB1aiAQQVBqKAIAIg5BEHUgCC4BGCIMbGogDkH//wNxIAxsQRB1aiAQQUxqKAIAIg5BEHUgCC4BGiIMbGogDkH//wNxIAxsQRB1aiAQQUhqKAIAIg5BEHUgCC4BHCIMbGogDkH//wNxIAxsQRB1aiAQQURqKAIAIhBBEHUgCC4BHiIObGogEEH//wNxIA5sQRB1aiEOCyBaIFooAqAJIgxBEHUgGmwgWigChApqIAxB//8DcSAabEEQdWoiEDYCoAkgEEEQdSBMbCAqaiAQQf//A3EgTGxBEHVqIRYgDCBaKAKkCSAQayIQQRB1IBpsaiAQQf//A3EgGmxBEHVqIRAgWkGgCWohWyAOQQR0IVwCQCAUQQNIDQBBAiETIFkhDiAiIQwDQCAOKAIAIQ8gDiAQNgIAIA5BBGoiDSAPIA0oAgAiDSAQayICQRB1IBpsaiACQf//A3EgGmxBEHVqIg82AgAgEEEQdSAMQX5qLgEAIgJsIBZqIBBB//8DcSACbEEQdWogD0EQdSAMLgEAIhBsaiAPQf//A3EgEGxBEHVqIRYgDSAOQQhqIg4oAgAgD2siEEEQdSAabGogEEH//wNxIBpsQRB1aiEQIAxBBGohDCATQQJqIhMgFEgNAAsLIBsgV0E4bGohDiBbIDhBAnRqIBA2AgBBACBKKAIAIl0gXCBHaiAQQRB1IEtsIBZqIBBB//8DcSBLbEEQdWpBA3QgWigCgAoiEEH//wNxIgwgP2xBEHUgEEEQdSIQID9sakECdGoiEyAMIClsQRB1IBAgKWxqIFogGCgCACJJQQJ0akGACGooAgAiEEEQdSA+bGogEEH//wNxID5sQRB1akECdCINamtBA3VBAWpBAXVrIhBrIBAgWigCiApBAEgiAhsiEEGAiH4gEEGAiH5KGyIQQYDwASAQQYDwAUgbIhYgEWshDwJAAkACQAJAAkACQCBDRQ0AIA9BCnUhDwwBCwJAIA8gNUwNACAPIDVrQQp2IQ8MAQsgDyA0Tg0BIA8gNWpBCnUhDwsCQCAPQQFIDQAgJiAPQQp0aiIQwSAybCFbIBBBgAhqIgzBIDJsIV4MBAsgMyFbIDchXiARIRAgNiEMIA9BAWoOAgEDAgsgMyFbIDchXiARIRAgNiEMIA9BAE4NAgsgOiFbIDMhXiAoIRAgESEMDAELICcgD0EKdGoiEEGACGohDEGAgIBgIBBBEHQiD2tBEHUgMmwhXkEAIA9rQRB1IDJsIVsLIA4gDCAQIBYgEGvBIg8gD2wgW2pBCnUiDyAWIAxrwSIWIBZsIF5qQQp1IhZIIlsbIl42AhwgDiAQIAwgWxsiEDYCACAOIFooApAKIgwgDyAWIA8gFkobajYCICAOIAwgDyAWIFsbajYCBCAOQQAgEEEEdCIQayAQIAIbIEZqIhA2AhggDkEAIF5BBHQiDGsgDCACGyBGaiIMNgI0IA4gECBcaiIQNgIIIA4gDCBcaiIMNgIkIA4gECBdQQR0Ig9rIhA2AhAgDiAMIA9rIgw2AiwgDiAQIBNrIhA2AgwgDiAMIBNrIgw2AiggDiAQIA1rNgIUIA4gDCANazYCMCBZQZQKaiFZIFdBAWoiVyAXRw0ACwsgGCBJQX9qQShvIhBBKGogECAQQQBIGyIQNgIAIBAgGWpBKG8hWSAbKAIEIRACQAJAAkAgF0ECSCJXDQBBACEPQQEhDgJAICVBA0kNACAgIQwDQCAMKAIAIhYgDEFIaigCACITIAxBkH9qKAIAIg0gDEHYfmooAgAiAiAQIAIgEEgiAhsiECANIBBIIg0bIhAgEyAQSCITGyIQIBYgEEgiFhshECAOQQNqIlogDkECaiAOQQFqIA4gDyACGyANGyATGyAWGyEPIA5BBGohDiAMQeABaiEMIFogMEcNAAsLAkAgMUUNACAfIA5BOGxqIQwgMSEWA0AgDiAPIAwoAgAiEyAQSCINGyEPIBMgECANGyEQIAxBOGohDCAOQQFqIQ4gFkF/aiIWDQALCyABIA9BlApsaiFbDAELIAEhWyBIDQAgGygCICEPQQAhEyABIVtBACENDAELIFsgWUECdCITakGAA2ooAgAhDwJAAkAgLQ0AQQAhDAwBCyAeIBNqIRBBACEMIBshDgNAAkAgEEHsdWooAgAgD0YNACAOQQRqIhYgFigCAEH///8/ajYCACAOQSBqIhYgFigCAEH///8/ajYCAAsCQCAQKAIAIA9GDQAgDkE8aiIWIBYoAgBB////P2o2AgAgDkHYAGoiFiAWKAIAQf///z9qNgIACyAOQfAAaiEOIBBBqBRqIRAgIyAMQQJqIgxHDQALCwJAICRFDQAgASAMQZQKbGogE2pBgANqKAIAIA9GDQAgGyAMQThsaiIQIBAoAgRB////P2o2AgQgECAQKAIgQf///z9qNgIgCyAbKAIgIQ8gGygCBCEQQQAhEwJAIFdFDQBBACENDAELQQAhDUEBIQwCQAJAICUNAEEAIRMMAQsgHSEOQQAhEwNAIA4oAgAiFiAOQUhqKAIAIgIgDyACIA9IIgIbIg8gFiAPSCJaGyEPIA5BZGooAgAiFiAOQax/aigCACJXIBAgVyAQSiJXGyIQIBYgEEoiXBshECAMQQFqIhYgDCANIAIbIFobIQ0gFiAMIBMgVxsgXBshEyAMQQJqIQwgDkHwAGohDiAWIC5HDQALCyAvRQ0AIBsgDEE4bGoiDigCICIWIA8gFiAPSCIWGyEPIA4oAgQiDiAQIA4gEEoiDhshECAMIA0gFhshDSAMIBMgDhshEwsCQCAPIBBODQACQEGUCiBFQQJ0IhBrIg5FDQAgASATQZQKbGogEGogASANQZQKbGogEGogDvwKAAALIBsgE0E4bGoiEEEYaiAbIA1BOGxqIg5BNGooAgA2AgAgEEEQaiAOQSxqKQIANwIAIBBBCGogDkEkaikCADcCACAQIA4pAhw3AgALAkACQCBEDQAgRSAZSA0BCyAEIEUgGWsiD2ogWyBZQQJ0Ig5qIhBBoARqKAIAQQl2QQFqQQF2OgAAIAcgDmooAgAhDCAQQcAFaigCACEOIDsgACgC8CEgGWtBAnRqIBBBgAhqKAIANgIAIAYgACgC7CEgGWtBAnRqIBBB4AZqKAIANgIAIAUgD0EBdGogDMEiECAOQf//A3FsQRB1IBAgDkEQdWxqIA4gDEEPdUEBakEBdWxqQQd1QQFqQQF1IhBBgIB+IBBBgIB+ShsiEEH//wEgEEH//wFIGzsBAAsgACAAKALwIUEBajYC8CEgACAAKALsIUEBajYC7CECQCAXQQFIDQAgASEQIBshDiAXIQwDQCAQQYAKaiAOQQxqKQIANwIAIBAgQWogDkEIaigCACIPNgIAIBAgGCgCAEECdGpBwAVqIA82AgAgECAYKAIAQQJ0akGgBGogDigCACIPNgIAIBAgGCgCAEECdGpB4AZqIA5BGGooAgBBAXQ2AgAgECAYKAIAQQJ0akGACGogDkEUaigCADYCACAQQYgKaiIWIBYoAgAgD0EJdUEBakEBdWoiDzYCACAQIBgoAgBBAnRqQYADaiAPNgIAIBBBkApqIA5BBGooAgA2AgAgEEGUCmohECAOQThqIQ4gDEF/aiIMDQALCyAHIBgoAgBBAnRqIBw2AgAgQUEEaiFBIEVBAWoiRSASRw0ACwsCQCAXQQFIDQAgF0EDcSEaQQAhDAJAIBdBBEkNACASQQJ0IQ8gF0H8////B3EhFkEAIQwgASEQA0AgECAQIA9qIg4pAgA3AgAgEEE4aiAOQThqKQIANwIAIBBBMGogDkEwaikCADcCACAQQShqIA5BKGopAgA3AgAgEEEgaiAOQSBqKQIANwIAIBBBGGogDkEYaikCADcCACAQQRBqIA5BEGopAgA3AgAgEEEIaiAOQQhqKQIANwIAIBBBlApqIA5BlApqKQIANwIAIBBBnApqIA5BnApqKQIANwIAIBBBpApqIA5BpApqKQIANwIAIBBBrApqIA5BrApqKQIANwIAIBBBtApqIA5BtApqKQIANwIAIBBBvApqIA5BvApqKQIANwIAIBBBxApqIA5BxApqKQIANwIAIBBBzApqIA5BzApqKQIANwIAIBBBqBRqIA5BqBRqKQIANwIAIBBBsBRqIA5BsBRqKQIANwIAIBBBuBRqIA5BuBRqKQIANwIAIBBBwBRqIA5BwBRqKQIANwIAIBBByBRqIA5ByBRqKQIANwIAIBBB0BRqIA5B0BRqKQIANwIAIBBB2BRqIA5B2BRqKQIANwIAIBBB4BRqIA5B4BRqKQIANwIAIBBB9B5qIA5B9B5qKQIANwIAIBBB7B5qIA5B7B5qKQIANwIAIBBB5B5qIA5B5B5qKQIANwIAIBBB3B5qIA5B3B5qKQIANwIAIBBB1B5qIA5B1B5qKQIANwIAIBBBzB5qIA5BzB5qKQIANwIAIBBBxB5qIA5BxB5qKQIANwIAIBBBvB5qIA5BvB5qKQIANwIAIBBB0ChqIRAgFiAMQQRqIgxHDQALCyAaRQ0AIBJBAnQhDyABIAxBlApsaiEQA0AgECAQIA9qIg4pAgA3AgAgEEE4aiAOQThqKQIANwIAIBBBMGogDkEwaikCADcCACAQQShqIA5BKGopAgA3AgAgEEEgaiAOQSBqKQIANwIAIBBBGGogDkEYaikCADcCACAQQRBqIA5BEGopAgA3AgAgEEEIaiAOQQhqKQIANwIAIBBBlApqIRAgGkF/aiIaDQALCwstACAAQoCAhICAgMAANwKUISAAQoKAgIDAAjcCoCEgACAAKAKYEkEHdDYCzCALwwUCCn8BfgJAIAAoAowSIgUgACgCnCFGDQAgAEKAgISAgIDAADcClCEgAEKCgICAwAI3AqAhIAAgBTYCnCEgACAAKAKYEkEHdDYCzCALAkAgA0UNACAAIAEgAiAEEKKAgIAAIAAgACgCwCBBAWo2AsAgDwsgACAALADNFSIDNgLEIAJAAkAgA0ECRw0AIAAoApwSIQYCQAJAAkACQCAAKAKUEiIHRQ0AQQAhCCAHQQJ0IAFqQXxqIgkoAgAiCkEASg0BC0EAIQggAEEANgLQIAwBCyAHQQpsIQUgAEHQIGohCyABQeAAaiEMIAdBEHRBgIB8aiENIAdBAnRBfGohDiAGIQJBASEEA0ACQCABIAVqIgNB2ABqLgEAIANB1gBqLgEAaiADQdoAai4BAGogA0HcAGouAQBqIANB3gBqLgEAaiIDIAhMDQAgCyAMIA1BEHVBCmxqIggpAQA3AQAgC0EIaiAIQQhqLwEAOwEAIAAgASAOaigCAEEIdDYCzCAgCSgCACEKIAMhCAsCQCAHIARGDQAgBUF2aiEFIA1BgIB8aiENIA5BfGohDiAEQQFqIQQgAiAKSCEDIAIgBmohAiADDQELCyALQgA3AgAgC0EIakEAOwEAIAAgCDsB1CAgCEHM2QBKDQELIABBADYB1iAgAEEANgHQICAAQYDozAUgCEEBIAhBAUobbsEgCMFsQQp2OwHUIAwCCyAIQc75AEkNASAAQYCAzfkAIAhuIAjBbEEOdjsB1CAMAQsgAEIANwLQICAAQdggakEAOwEAIAAgBcFBgCRsNgLMICAAKAKcEiEGIAAoApQSIQcLAkAgACgCpBJBAXQiA0UNACAAQdogaiABQcAAaiAD/AoAAAsgACABKAKIATsBkCEgB0ECdCABakEIaikCACEPIAAgBzYCoCEgACAGNgKkISAAIA83ApQhC8IWASV/I4CAgIAAQcAAayIEJICAgIAAIAQgACgCmBIgACgCoBIiBWpBAnRBD2pBcHFrIgYiBySAgICAACAHIAVBAXRBD2pBcHFrIggkgICAgAAgBCIJIAAoApQhQQZ1NgIIIAkgACgCmCEiCkEGdSILNgIMAkAgACgCyBJFDQAgAEIANwHaICAAQfIgakIANwEAIABB6iBqQgA3AQAgAEHiIGpCADcBAAsgCUE0aiAJQTxqIAlBMGogCUE4aiAAQQRqIgwgCUEIaiAAKAKcEiAAKAKUEhCjgICAACAAKAKgISEEAkACQCAJKAI0IAkoAjh1IAkoAjAgCSgCPHVODQAgBEF/aiAAKAKkIWwhDQwBCyAAKAKkISAEbCENCyAALwGEISEOIAAoAsAgIQUgACgCxCAhByAAQdogaiIPIAAoAqQSQfH6AxC/gICAAAJAIAAoAqQSIgRBAXQiEEUNACAJQRBqIA8gEPwKAAALIAVBASAFQQFIG0EBdCIFQZCIgIAAQZSIgIAAIAdBAkYbai4BACERIAVBjIiAgABqLgEAIRICQCAAKALAIA0AAkAgACgCxCBBAkcNACAALgGQIUGAgAEgAC8B0CAgAC8B0iBqIAAvAdQgaiAALwHWIGogAC8B2CBqa8EiBUHNGSAFQc0ZShtsQQ52IQ4MAQsgDyAEEMWAgIAAIgRBgICAAiAEQYCAgAJKGyIEQYCAgMAAIARBgICAwABIGyIEQQN0Qfj/A3EgEWxBEHUgBEENdiARbGpBDnYhESAAKAKkEiEEQYCAASEOCyAAKAKAISETIAggACgCoBIiFCAEIAAoAswgQQd1QQFqQQF1IhVqIg9rQX5qIgVBAXQiB2ogACAHakHECmogCUEQaiAUIAVrIAQgAxDEgICAAEEAIAAoApghIgQgBCAEQR91IgNzIANrIhBnIhZBf2p0IgRB//8DcUH/////ASAEQRB1IgdtIgPBIgRsQRB1IAcgBGxqQQN0ayIHIANBD3VBAWpBAXVsIANBEHRqIAdBEHUgBGxqIAdB+P8DcSAEbEEQdWohBAJAAkAgEEH//wNLDQBB/////wcgFkFwaiIDdiIHIARBgICAgHggA3UiECAEIBBKGyAEIAdKGyADdCEHDAELIARBECAWa3UhBwsCQCAAKAKkEiIXIAVqIgMgACgCoBIiGE4NACAUIBdqIgVBAXQgD0EBdGsgCGpBfGohBCAFQQJ0IA9BAnRrIAZqQXhqIQUgB0H/////AyAHQf////8DSBsiB0H//wNxIQggB0EQdSEPA0AgBSAIIAQuAQAiB2xBEHUgDyAHbGo2AgAgBEECaiEEIAVBBGohBSADQQFqIgMgGEgNAAsLAkAgACgClBIiGUEBSA0AIA1BgAEgDUGAAUobQQJ0IAxqQYB8aiEaIAAuAYwSQYAkbCEbIAAvAdggIQQgAC8B1iAhCCAALwHUICEPIAAvAdIgIQ0gAC8B0CAhECAAKALMICEcIBHBIR0gACgCnBIhHkEAIR8DQAJAAkAgHkEASg0AIA7BIQMgBMEhByAIwSEIIA/BIQ8gDcEhDSAQwSEQDAELQXggFUECdGshDCAGIBRBAnRqIQUgDsEhAyAEwSEHIAjBIQggD8EhDyANwSENIBDBIRAgHiERA0AgBSAFIAxqIgRBEGooAgAiFkEQdSAQbCAWQf//A3EgEGxBEHVqIARBDGooAgAiFkEQdSANbGogFkH//wNxIA1sQRB1aiAEQQhqKAIAIhZBEHUgD2xqIBZB//8DcSAPbEEQdWogBEEEaigCACIWQRB1IAhsaiAWQf//A3EgCGxBEHVqIAQoAgAiBEEQdSAHbGogBEH//wNxIAdsQRB1aiAaIBNBtYjO3QBsQevG5bADaiITQRd2QfwDcWooAgAiBEEQdSADbGogBEH//wNxIANsQRB1akECdEEIajYCACAFQQRqIQUgFEEBaiEUIBFBf2oiEQ0ACwsgACAcQRB1QY8FbCAcaiAcQf//A3FBjwVsQRB2aiIEIBsgBCAbSBsiHDYCzCAgHEEHdUEBakEBdSEVIAMgHWxBD3YhDiAHIBJsQQ92IQQgCCASbEEPdiEIIA8gEmxBD3YhDyANIBJsQQ92IQ0gECASbEEPdiEQIB9BAWoiHyAZRw0ACyAAIAQ7AdggIAAgCDsB1iAgACAPOwHUICAAIA07AdIgIAAgEDsB0CALIAYgGEECdGoiIEFAaiIhIAApAoQKNwIAICFBOGogAEG8CmopAgA3AgAgIUEwaiAAQbQKaikCADcCACAhQShqIABBrApqKQIANwIAICFBIGogAEGkCmopAgA3AgAgIUEYaiAAQZwKaikCADcCACAhQRBqIABBlApqKQIANwIAICFBCGogAEGMCmopAgA3AgAgAEGECmohIgJAIAAoApgSIiNBAUgNACAXQQFxISQgF0EBdSElIBdB/v///wdxQXRqIREgIEFUaiEaIApBFXVBAWpBAXUhJiAJQSZqIScgC8EhEiAJLgEiIRwgCS4BICEbIAkuAR4hHyAJLgEcIR4gCS4BGiEZIAkuARghHSAJLgEWIRggCS4BFCEGIAkuARIhCiAJLgEQIQsgF0ELSCEoQQAhFgNAICEgFkECdCIMaiIEKAI8IgVBEHUgC2wgJWogBUH//wNxIAtsQRB1aiAEKAI4IgVBEHUgCmxqIAVB//8DcSAKbEEQdWogBCgCNCIFQRB1IAZsaiAFQf//A3EgBmxBEHVqIAQoAjAiBUEQdSAYbGogBUH//wNxIBhsQRB1aiAEKAIsIgVBEHUgHWxqIAVB//8DcSAdbEEQdWogBCgCKCIFQRB1IBlsaiAFQf//A3EgGWxBEHVqIAQoAiQiBUEQdSAebGogBUH//wNxIB5sQRB1aiAEKAIgIgVBEHUgH2xqIAVB//8DcSAfbEEQdWogBCgCHCIFQRB1IBtsaiAFQf//A3EgG2xBEHVqIAQoAhgiBEEQdSAcbGogBEH//wNxIBxsQRB1aiEHAkAgKA0AICAgDGohFEEKIQ8CQCAXQQtGDQBBCiEEIBohAyAnIQUDQCAUIARB/v///wNzQQJ0aigCACIIQRB1IAUuAQAiD2wgAygCACINQRB1IAVBfmouAQAiEGwgB2ogDUH//wNxIBBsQRB1amogCEH//wNxIA9sQRB1aiEHIANBeGohAyAFQQRqIQUgBEF2aiEIIARBAmoiDyEEIAggEUcNAAsLICRFDQAgFCAPQX9zQQJ0aigCACIEQRB1IAlBEGogD0EBdGouAQAiBWwgB2ogBEH//wNxIAVsQRB1aiEHCwJAAkAgICAMaiIFKAIAIgQgB0GAgIBAIAdBgICAQEobIgNB////PyADQf///z9IG0EEdCIDaiIHQQBIDQAgB0GAgICAeCAEIANxQX9KGyEEDAELQf////8HIAcgBCADckF/ShshBAsgBSAENgIAIAIgFkEBdGogBEEQdSASbCAEICZsaiAEQf//A3EgEmxBEHVqQQd1QQFqQQF1IgRBgIB+IARBgIB+ShsiBEH//wEgBEH//wFIGzsBACAaQQRqIRogFkEBaiIWICNHDQALCyAAIBM2AoAhICIgISAjQQJ0aiIEKQIANwIAICJBOGogBEE4aikCADcCACAiQTBqIARBMGopAgA3AgAgIkEoaiAEQShqKQIANwIAICJBIGogBEEgaikCADcCACAiQRhqIARBGGopAgA3AgAgIkEQaiAEQRBqKQIANwIAICJBCGogBEEIaikCADcCACAAIA47AYQhIAEgFTYCDCABIBU2AgggASAVNgIEIAEgFTYCACAJQcAAaiSAgICAAAuFAwEIfyOAgICAACIIIQkgCCAGQQJ0QQ9qQXBxayIKJICAgIAAAkACQCAGQQFIDQAgBSgCACILQQ91QQFqQQF1IQwgBCAHQX5qIAZsQQJ0aiEIIAvBIQ0gCiELIAYhDgNAIAsgDSAIKAIAIg9B//8DcWxBEHUgDSAPQRB1bGogDCAPbGpBCHUiD0GAgH4gD0GAgH5KGyIPQf//ASAPQf//AUgbOwEAIAtBAmohCyAIQQRqIQggDkF/aiIODQALIAUoAgQiC0EPdUEBakEBdSEMIAQgB0F/aiAGbEECdGohCCALwSENIAogBkEBdGoiByELIAYhDgNAIAsgDSAIKAIAIg9B//8DcWxBEHUgDSAPQRB1bGogDCAPbGpBCHUiD0GAgH4gD0GAgH5KGyIPQf//ASAPQf//AUgbOwEAIAhBBGohCCALQQJqIQsgDkF/aiIODQAMAgsLIAogBkEBdGohBwsgACABIAogBhDVgICAACACIAMgByAGENWAgIAAIAkkgICAgAAL4wMBBX8jgICAgABBEGsiAySAgICAAAJAAkAgACgCwCBFDQAgAEGIIWogAEGMIWogASACENWAgIAAIABBATYC/CAMAQsCQCAAKAL8IEUNACADQQhqIANBDGogASACENWAgIAAAkACQCADKAIMIgQgACgCjCEiBUwNACAAIAAoAoghIAQgBWt1NgKIISADKAIIIQYMAQsgAygCCCEGIAQgBU4NACAGIAUgBGt1IQYLIAYgACgCiCEiBEwNACAAIAQgBGciBUF/anQiBzYCiCFBACEEAkAgByAGQRkgBWsiBUEAIAVBAEobdSIGQQEgBkEBShttIgZBAUgNAAJAIAZnIgRBGEYNAAJAIAZB/wBLDQAgBkE4IARrdiAGIARBaGp0ciEGDAELIAYgBEEIanQgBkEYIARrdmohBgtBgIACQYbpAiAEQQFxGyAEQQF2diIEIAZB/wBxbEHVAWxBEHYgBGpBBHQhBAtBgIAEIARrIAJtIQYgAkEBSA0AIAZBAnQhBSACQX9qIQYDQCAGIQIgASAEQfz/A3EgAS4BACIGbEEQdiAEQRB2IAZsajsBACAEIAVqIgRBgIAESg0BIAFBAmohASACQX9qIQYgAg0ACwsgAEEANgL8IAsgA0EQaiSAgICAAAvRBQEPfwJAIAEoAjwgASgCOGoiAiABKAI0IAEoAjBqIgNqIgQgASgCLCABKAIoaiIFIAEoAiQgASgCIGoiBmoiB2oiCCABKAIcIAEoAhhqIgkgASgCFCABKAIQaiIKaiILIAEoAgwgASgCCGoiDCABKAIEIAEoAgBqIg1qIg5qIg9qIhBBAUgNACAAIA9BkLOAgAAgEC0AsLSAgABqQQgQsoGAgAALAkAgD0EBSA0AIAAgDkHwsYCAACAPLQCwtICAAGpBCBCygYCAAAsCQCAOQQFIDQAgACANQdCwgIAAIA4tALC0gIAAakEIELKBgIAACwJAIA1BAUgNACAAIAEoAgBBsK+AgAAgDS0AsLSAgABqQQgQsoGAgAALAkAgDEEBSA0AIAAgASgCCEGwr4CAACAMLQCwtICAAGpBCBCygYCAAAsCQCALQQFIDQAgACAKQdCwgIAAIAstALC0gIAAakEIELKBgIAACwJAIApBAUgNACAAIAEoAhBBsK+AgAAgCi0AsLSAgABqQQgQsoGAgAALAkAgCUEBSA0AIAAgASgCGEGwr4CAACAJLQCwtICAAGpBCBCygYCAAAsCQCAIQQFIDQAgACAHQfCxgIAAIAgtALC0gIAAakEIELKBgIAACwJAIAdBAUgNACAAIAZB0LCAgAAgBy0AsLSAgABqQQgQsoGAgAALAkAgBkEBSA0AIAAgASgCIEGwr4CAACAGLQCwtICAAGpBCBCygYCAAAsCQCAFQQFIDQAgACABKAIoQbCvgIAAIAUtALC0gIAAakEIELKBgIAACwJAIARBAUgNACAAIANB0LCAgAAgBC0AsLSAgABqQQgQsoGAgAALAkAgA0EBSA0AIAAgASgCMEGwr4CAACADLQCwtICAAGpBCBCygYCAAAsCQCACQQFIDQAgACABKAI4QbCvgIAAIAItALC0gIAAakEIELKBgIAACwvDBwEGf0EAIQNBACEEQQAhBQJAAkACQCACQQFIDQAgAiABQZCzgIAAIAItALC0gIAAakEIEKuBgIAAIgRrIQUCQCAEwSICQQFODQBBACEEDAELIAQgAUHwsYCAACACLQCwtICAAGpBCBCrgYCAACICayEEQQAhBiACwSIHQQBKDQELIABBADYBAEEAIQIMAQsgAiABQdCwgIAAIActALC0gIAAakEIEKuBgIAAIgNrIQJBACEHAkAgA8EiCEEBSA0AIAMgAUGwr4CAACAILQCwtICAAGpBCBCrgYCAACIGayEHCyAAIAc7AQIgACAGOwEAAkAgAsEiA0EBTg0AQQAhA0EAIQIMAQsgAiABQbCvgIAAIAMtALC0gIAAakEIEKuBgIAAIgNrIQILIAAgAjsBBiAAIAM7AQRBACECAkACQCAEwSIDQQBKDQAgAEEANgEIQQAhBAwBCyAEIAFB0LCAgAAgAy0AsLSAgABqQQgQq4GAgAAiA2shBkEAIQJBACEEQQAhBwJAIAPBIghBAUgNACADIAFBsK+AgAAgCC0AsLSAgABqQQgQq4GAgAAiBGshBwsgACAHOwEKIAAgBDsBCEEAIQQgBsEiA0EBSA0AIAYgAUGwr4CAACADLQCwtICAAGpBCBCrgYCAACICayEECyAAIAQ7AQ4gACACOwEMQQAhBEEAIQICQAJAAkAgBcEiA0EBSA0AIAUgAUHwsYCAACADLQCwtICAAGpBCBCrgYCAACIDayECQQAhBSADwSIGQQBKDQELIABBADYBEEEAIQUMAQsgAyABQdCwgIAAIAYtALC0gIAAakEIEKuBgIAAIgRrIQNBACEGAkAgBMEiB0EBSA0AIAQgAUGwr4CAACAHLQCwtICAAGpBCBCrgYCAACIFayEGCyAAIAY7ARIgACAFOwEQAkAgA8EiBEEBTg0AQQAhBEEAIQUMAQsgAyABQbCvgIAAIAQtALC0gIAAakEIEKuBgIAAIgRrIQULIAAgBTsBFiAAIAQ7ARRBACEEAkACQCACwSIFQQBKDQAgAEEANgEYQQAhAgwBCyACIAFB0LCAgAAgBS0AsLSAgABqQQgQq4GAgAAiBWshA0EAIQRBACECQQAhBgJAIAXBIgdBAUgNACAFIAFBsK+AgAAgBy0AsLSAgABqQQgQq4GAgAAiAmshBgsgACAGOwEaIAAgAjsBGEEAIQIgA8EiBUEBSA0AIAMgAUGwr4CAACAFLQCwtICAAGpBCBCrgYCAACIEayECCyAAIAI7AR4gACAEOwEcC7ABACAAQgA3AgAgAEKZgICAgAI3AmAgAELxtrSAkNyeCjcCUCAAQsSTgICAyAE3AkAgAEKMgICA8AE3AmggAEKBne2AoAY3AlggAEKwiYCAgLejAzcCSCAAQThqQoCAgICA8QQ3AgAgAEEgakIANwIAIABBGGpCADcCACAAQRBqQgA3AgAgAEEIakIANwIAIABBKGpCgMiBgICAGTcCACAAQTBqQoDIgYCAgBk3AgBBAAuzHAEUfyOAgICAAEEwayICJICAgIAAIAIiA0EANgIAIAMgACgC6CMiBEEDdSIFIARBAnUiBmoiBzYCBCADIAcgBWoiCDYCCCADIAggBmoiCTYCDCACIAkgBEEBdSIKakEBdEEPakFwcWsiCySAgICAACABIABBJGogCyALIAlBAXRqIAQQvICAgAAgCyAAQSxqIAsgCyAIQQF0aiAKELyAgIAAIAsgAEE0aiALIAsgB0EBdGogBhC8gICAACALIAVBf2oiAkEBdGoiBCAELgEAQQF1Igg7AQACQCAFQQJIDQACQCACQQFxRQ0AIAsgAkEBdGoiBEF+aiICIAIuAQBBAXUiAjsBACAEIAQvAQAgAms7AQAgBUF+aiECCyAFQQJGDQAgAkEBaiEEIAJBAXQgC2pBfGohBQNAIAUgBS4BAEEBdSICOwEAIAVBBGoiBiAGLwEAIAVBAmoiBi4BAEEBdSIHazsBACAGIAcgAms7AQAgBUF8aiEFIARBfmoiBEEBSw0ACwsgAC8BXCEFIAAgCDsBXCALIAsvAQAgBWs7AQAgAEE8aiEMQQAhAQNAIANBIGogAUECdCIFaiENIAwgBWoiDigCACEPAkACQCAAKALoI0EEIAFrIgRBAyAEQQNJG3UiEEECdSIJQQFIDQAgCUEDcSECIAMgBWoiCigCAEEBdCERQQAhBEEAIQYCQCAJQQRJIhINACALIBFqIQUgCUH8////B3EhCEEAIQRBACEGA0AgBUEGai4BAEEDdSIHIAdsIAVBBGouAQBBA3UiByAHbCAFQQJqLgEAQQN1IgcgB2wgBS4BAEEDdSIHIAdsIARqampqIQQgBUEIaiEFIAggBkEEaiIGRw0ACwsCQCACRQ0AIAsgBkEBdCARamohBSACIQYDQCAFLgEAQQN1IgcgB2wgBGohBCAFQQJqIQUgBkF/aiIGDQALCyAPIARqIhNBf0ohFCAJQQF0IREgCigCAEEBdCEVIAlBA3EhD0EAIQRBACEFAkAgEg0AIAsgFWogEWohBUEAIQZBACAJQfz///8HcWshCEEAIQQDQCAFQQZqLgEAQQN1IgcgB2wgBUEEai4BAEEDdSIHIAdsIAVBAmouAQBBA3UiByAHbCAFLgEAQQN1IgcgB2wgBGpqamohBCAFQQhqIQUgCCAGQXxqIgZHDQALQQAgBmshBQsgE0H/////ByAUGyEIAkAgD0UNACALIAVBAXQgFWogEWpqIQUgAiEGA0AgBS4BAEEDdSIHIAdsIARqIQQgBUECaiEFIAZBf2oiBg0ACwsgCCAEaiIVQX9KIRMgEEF8cSEQIAooAgBBAXQhEUEAIQRBACEFAkAgEg0AIAsgEWogEGohBUEAIQZBACAJQfz///8HcWshCEEAIQQDQCAFQQZqLgEAQQN1IgcgB2wgBUEEai4BAEEDdSIHIAdsIAVBAmouAQBBA3UiByAHbCAFLgEAQQN1IgcgB2wgBGpqamohBCAFQQhqIQUgCCAGQXxqIgZHDQALQQAgBmshBQsgFUH/////ByATGyEIAkAgD0UNACALIBAgBUEBdGogEWpqIQUgAiEGA0AgBS4BAEEDdSIHIAdsIARqIQQgBUECaiEFIAZBf2oiBg0ACwsgCCAEaiIRQX9KIRUgCUEGbCEQIAooAgBBAXQhCkEAIQRBACEFAkAgEg0AIAsgCmogEGohBUEAIQZBACAJQfz///8HcWshCEEAIQQDQCAFQQZqLgEAQQN1IgcgB2wgBUEEai4BAEEDdSIHIAdsIAVBAmouAQBBA3UiByAHbCAFLgEAQQN1IgcgB2wgBGpqamohBCAFQQhqIQUgCCAGQXxqIgZHDQALQQAgBmshBQsgEUH/////ByAVGyEHIA9FDQEgCyAQIAVBAXRqIApqaiEFA0AgBS4BAEEDdSIGIAZsIARqIQQgBUECaiEFIAJBf2oiAg0ADAILCyAPQf////8HIA9Bf0obIQdBACEECyAOIAQ2AgAgDSAHIARBAXZqIgVB/////wcgBUF/Shs2AgAgAUEBaiIBQQRHDQALQQAhBQJAIAAoApABIgRB5wdKDQAgACAEQQFqNgKQAUH//wEgBEEEdUEBam0hBQtB/////wcgACgCgAEgAygCICIQaiIEQf////8HIARBf0obIgduIQZBgAEhBEGAASECAkAgByAAKAJgIghBA3RKDQBBgAghAiAHIAhIDQAgBkEQdiAIwSICbCAGIAhBD3VBAWpBAXVsaiAGQf//A3EgAmxBEHVqIgJBBXVBgHBxIAJBBXZB/w9xciECCyAAIAYgACgCcCIHayIGQRB1IAIgBSACIAVKG8EiAmwgB2ogBkH//wNxIAJsQRB1aiICNgJwIABB/////wcgAm0iAkH///8HIAJB////B0gbNgJgQf////8HIAAoAoQBIAMoAiQiEWoiAkH/////ByACQX9KGyIGbiECAkAgBiAAKAJkIgdBA3RKDQBBgAghBCAGIAdIDQAgAkEQdiAHwSIEbCACIAdBD3VBAWpBAXVsaiACQf//A3EgBGxBEHVqIgRBBXVBgHBxIARBBXZB/w9xciEECyAAIAIgACgCdCIGayICQRB1IAQgBSAEIAVKG8EiBGwgBmogAkH//wNxIARsQRB1aiIENgJ0IABB/////wcgBG0iBEH///8HIARB////B0gbNgJkQf////8HIAAoAogBIAMoAigiFWoiBEH/////ByAEQX9KGyIHbiEGQYABIQRBgAEhAgJAIAcgACgCaCIIQQN0Sg0AQYAIIQIgByAISA0AIAZBEHYgCMEiAmwgBiAIQQ91QQFqQQF1bGogBkH//wNxIAJsQRB1aiICQQV1QYBwcSACQQV2Qf8PcXIhAgsgACAGIAAoAngiB2siBkEQdSACIAUgAiAFShvBIgJsIAdqIAZB//8DcSACbEEQdWoiAjYCeCAAQf////8HIAJtIgJB////ByACQf///wdIGzYCaEH/////ByAAKAKMASADKAIsIhNqIgJB/////wcgAkF/ShsiBm4hAgJAIAYgACgCbCIHQQN0Sg0AQYAIIQQgBiAHSA0AIAJBEHYgB8EiBGwgAiAHQQ91QQFqQQF1bGogAkH//wNxIARsQRB1aiIEQQV1QYBwcSAEQQV2Qf8PcXIhBAsgAEHgAGohASAAIAIgACgCfCIGayICQRB1IAQgBSAEIAVKG8EiBWwgBmogAkH//wNxIAVsQRB1aiIFNgJ8IABB/////wcgBW0iBUH///8HIAVB////B0gbNgJsQQAhBUEAIQhBACEHA0ACQAJAIANBIGogBWooAgAiAiABIAVqKAIAIgZrIgRBAUgNACADQRBqIAVqIAJBCHQgAiACQYCAgARJIgkbIAYgBkEIdSAJG0EBam0iAjYCACACEMKAgIAAQRB0QYCAgGBqQRB1IgIgAmwhCQJAIARB//8/Sw0AQRggBGciBmshDSAGQWhqIQ4gBCEKAkAgBkEYRiISDQACQCAEQf8ASw0AIARBOCAGa3YgBCAOdHIhCgwBCyAEIAZBCGp0IAQgDXZqIQoLQYCAAkGG6QIgBkEBcRsgBkEBdnYiC0HVAWwiDyAKQf8AcWxBEHYgC2pBCnYgAmwhCgJAIBINAAJAIARB/wBLDQAgBEE4IAZrdiAEIA50ciEEDAELIAQgBkEIanQgBCANdmohBAsgDyAEQf8AcWxBEHYgC2pBBnRBwP8DcSACbCAKQRB0akEQdSECCyAJIAdqIQcgBUGAtYCAAGooAgAiBEEQdSACbCAIaiAEQf//A3EgAmxBEHVqIQgMAQsgA0EQaiAFakGAAjYCAAsgBUEEaiIFQRBHDQALIAdBBG0hBUGAfyEEAkAgB0EESA0AAkAgBWciBEEYRg0AAkAgBUH/AEsNACAFQTggBGt2IAUgBEFoanRyIQUMAQsgBSAEQQhqdCAFQRggBGt2aiEFC0GAgAJBhukCIARBAXEbIARBAXZ2IgQgBUH/AHFsQdUBbEEQdiAEakGAgAxsQRB1QcjfAmxBEHVBgH9qIQQLIAQQ0oCAgAAhBSAAIAgQ0oCAgABBAXRBgIB+ajYC6CQCQAJAIBMgACgCbGtBAnVBfHEgFSAAKAJoa0EEdUEDbCARIAAoAmRrQQN1QX5xIBAgACgCYGtBBHVqamogACgC6CMiBCAAKALgIyICQRRsRnUiBkEASg0AIAVBAXUhBQwBCyAGQf//AEsNAEGAgAJBhukCIAZBEHQiB2ciBkEBcRsgBkEBdnYiCCAIIAdBGCAGa3ZB/wBxbEHVAWxBEHZqQYCAAmoiBkEQdiAFwSIFbCAGIAVsQRB1aiEFCyAAIAVBB3UiBkH/ASAGQf8BSBs2ArQjIAAgAygCECAAKAJMIgZrIgdBEHUgBcEgBUH//wNxbCAFIAVBEHZsQRB0akEVQRQgBCACQQpsRht1IgVsIAZqIAdB//8DcSAFbEEQdWoiBDYCTCAAIAQQwoCAgABBA2xBgFhqQQR1ENKAgIAANgLYJCAAIAMoAhQgACgCUCIEayICQRB1IAVsIARqIAJB//8DcSAFbEEQdWoiBDYCUCAAIAQQwoCAgABBA2xBgFhqQQR1ENKAgIAANgLcJCAAIAMoAhggACgCVCIEayICQRB1IAVsIARqIAJB//8DcSAFbEEQdWoiBDYCVCAAIAQQwoCAgABBA2xBgFhqQQR1ENKAgIAANgLgJCAAIAMoAhwgACgCWCIEayICQRB1IAVsIARqIAJB//8DcSAFbEEQdWoiBTYCWCAAIAUQwoCAgABBA2xBgFhqQQR1ENKAgIAANgLkJCADQTBqJICAgIAAQQALwgMBBH8CQCAAKALgIyICDQAgACgCICECCwJAIAJBEHQNACAAKALcIyICIAAoAswjIgAgAiAASBtB6AdtDwsgACgC1CMhAwJAAkAgAsFB6AdsIgQgACgCzCMiBUoNACAEIANKDQAgBCAAKALYI04NAQsgBSADIAUgA0gbIgIgACgC2CMiACACIABKG0HoB20PCwJAIAAoAhgiBUGAAkgNACAAQQA2AhwLAkACQCAAKAK4Iw0AIAEoAkBFDQELAkAgBCAAKALcIyIDTA0AAkACQAJAIAAoAhxFDQAgASgCQA0BIAVBAEoNAiABQQE2AlggASABKAI4IgAgAEEFbCABKAIYQQVqbWs2AjggAg8LIABCADcCECAAQYACNgIYIAEoAkBFDQELIABBADYCHEEMQQggAkEQRhsPCyAAQX42AhwgAg8LAkAgBCADTg0AAkAgASgCQEUNACAAQgA3AhAgAEKAgICAEDcCGEEMQRAgAkEIRhsPCwJAIAAoAhwNACABQQE2AlggASABKAI4IgAgAEEFbCABKAIYQQVqbWs2AjggAg8LIABBATYCHCACDwsgACgCHEF/Sg0AIABBATYCHAsgAguiBQETfyOAgICAAEEQayIKJICAgIAAQQAhCyAIQQFIIQxBACENQf////8HIQ4DQCADKAIAIQ8CQAJAIAxFDQBBACEQQQAhESAPIRIMAQsgC0ECdCITKAKAjYCAACEUIBMoArCMgIAAIRUgEygCgIqAgAAhFiALLACMjYCAACEXQQAhESAKQQxqIRMgCCEYQQAhECAGIRkgBSEaA0AgEyAKQQhqIApBBGogCiAaIBkgFSAUIBYgB0HVMCAPaxDDgICAAEFNaiAXEKuAgIAAIAooAgQgEWoiEUF/SiEbIAooAgggEGoiEEF/SiEcQQAhEgJAIAooAgBBM2oQwoCAgAAgD2pBgAdIDQAgDyAKKAIAQTNqEMKAgIAAakGAeWohEgsgEUH/////ByAbGyERIBBB/////wcgHBshECATQQFqIRMgGUEUaiEZIBpB5ABqIRogEiEPIBhBf2oiGA0ACwsCQCARIA5KDQAgAiALOgAAAkAgCEUNACABIApBDGogCPwKAAALIBEhDiASIQ0LIAtBAWoiC0EDRw0ACwJAIAhBAUgNAEGwjICAACACLAAAQQJ0aigCACITQQRqIRkgE0EDaiEaIBNBAmohEiATQQFqIREgCCEPA0AgACATIAEsAABBBWxqLAAAQQd0OwEAIABBAmogESABLAAAQQVsaiwAAEEHdDsBACAAQQRqIBIgASwAAEEFbGosAABBB3Q7AQAgAEEGaiAaIAEsAABBBWxqLAAAQQd0OwEAIABBCGogGSABLAAAQQVsaiwAAEEHdDsBACAAQQpqIQAgAUEBaiEBIA9Bf2oiDw0ACwsgAyANNgIAIAQgEEEBQQIgCEECRht1EMKAgIAAQRB0QYCAgERqQRB1QX1sNgIAIApBEGokgICAgAALuQQBC38gBSgCECEMIAUoAgwhDSAFKAIIIQ4gBSgCBCEPIAUoAgAhBSACQf////8HNgIAIAFB/////wc2AgAgAEEAOgAAAkAgC0EBSA0AIA5BB3QhECAPQQd0IREgBUEHdCESIAxBCHQhEyANQQh0IRQgCcEhFUEAIQ4DQAJAIAQoAgQgBkEBaiwAACINbCASayAEKAIIIAZBAmosAAAiDGxqIAQoAgwgBkEDaiwAACIJbGogBCgCECAGQQRqLAAAIgVsakEBdCAEKAIAIAYsAAAiD2xqIhZBEHUgD2wgFkH//wNxIA9sQRB1aiAEKAIcIAxsIBFrIAQoAiAgCWxqIAQoAiQgBWxqQQF0IAQoAhggDWxqIg9BEHUgDWxqIA9B//8DcSANbEEQdWogBCgCNCAJbCAQayAEKAI4IAVsakEBdCAEKAIwIAxsaiINQRB1IAxsaiANQf//A3EgDGxBEHVqIAUgBCgCTGxBAXQgFGsgBCgCSCAJbGoiDEEQdSAJbGogDEH//wNxIAlsQRB1aiAEKAJgIAVsIBNrIglBEHUgBWxqIAlB//8DcSAFbEEQdWpBoYACaiIFQQBIDQAgBSAHIA5qLQAAIgwgCmsiCUEAIAlBAEobQQt0aiIFEMKAgIAAQRB0QYCAgERqQRB1IBVsIAggDmotAABBAnRqIgkgAigCAEoNACACIAk2AgAgASAFNgIAIAAgDjoAACADIAw2AgALIAZBBWohBiALIA5BAWoiDkcNAAsLC7QDAQZ/AkAgAC0AvSNBAkcNACAAKALgI0GAgKAfbCAAKALAI20QwoCAgAAhASAAKALYJCECQYCA8AEQwoCAgAAhA0GAgPABEMKAgIAAIQQgACABIAAoAggiBUEIdWtBACACQQJ0ayIGQfz/A3EgAsEiAmxBEHUgBkEQdSACbGoiAkEQdSABIANrwWxqIAJB//8DcSABIARrwWxBEHVqQYBwaiIBQQNsIAEgAUEASBsiAUFNIAFBTUobIgFBMyABQTNIGyAALgG0I2wiAUEQdUGaM2wgBWogAUH//wNxQZozbEEQdmo2AghBPBDCgICAACEBQeQAEMKAgIAAIQIgACgCCCEDAkACQAJAIAFBCHQgAkEIdEwNAAJAIANBPBDCgICAAEEIdEwNAEE8EMKAgIAAQQh0IQEMAwsgACgCCEHkABDCgICAAEEIdE4NAUHkABDCgICAAEEIdCEBDAILAkAgA0HkABDCgICAAEEIdEwNAEHkABDCgICAAEEIdCEBDAILIAAoAghBPBDCgICAAEEIdE4NAEE8EMKAgIAAQQh0IQEMAQsgACgCCCEBCyAAIAE2AggLC+kGARR/I4CAgIAAQYABayIHIQggBySAgICAACABIAIoAiQgAi4BAhDHgICAACAHIAIuAQAiCUECdEEPakFwcWsiByIKJICAgIAAIAcgASACKAIIIAIoAgwgCSACLgECEK6AgIAAIAogBUECdEEPakFwcSIJayILIgokgICAgAAgByALIAIuAQAgBRDTgICAACAKIAlrIgwiBySAgICAACAHIAVBBHRrIg0kgICAgAACQCAFQQFIDQAgBkEBdSEOIARBDnRBEHUhD0EAIRADQCALIBBBAnQiEWooAgAhEgJAIAIuAQIiE0EBSA0AIAIoAgggEiATbCIHaiEJIAIoAgwgB0EBdGohCiAIQTBqIQYgCEHQAGohFCABIRUgAyEWA0AgFCAVLwEAIAktAABBB3RrwSAKLgEAIgdsQQ52OwEAIBYuAQAiFyAXIBdBH3UiGHMgGGtnIhhBf2p0IhcgF0H//wNxQf////8BIAcgB2wiByAHZyIZQX9qdCIaQRB1bcEiB2xBEHUgF0EQdSAHbGoiF6wgGqx+Qh2Ip0F4cWsiGkEQdSAHbCAXaiAaQf//A3EgB2xBEHVqIQcCQAJAIBggGWsiF0EdaiIYQRRLDQBB/////wdBeCAXayIXdiIYIAdBgICAgHggF3UiGSAHIBlKGyAHIBhKGyAXdCEHDAELIAcgF0EIanVBACAYQTVJGyEHCyAGIAc7AQAgCUEBaiEJIApBAmohCiAVQQJqIRUgFEECaiEUIBZBAmohFiAGQQJqIQYgE0F/aiITDQALCyAIIAhBIGogAiASEK+AgIAAIAwgEWohCSANIBBBBHRqIAhB0ABqIAhBMGogCEEgaiAIIAIoAiAgAi4BBCACLgEGIAQgAi4BAhCwgICAACEKIAIoAhAgDiACLgEAbGohBwJAAkAgEg0AQYACIQYMAQsgByASaiIHQX9qLQAAIQYLIAlBgICAICAGIActAABrEMKAgIAAQRB0a0EQdSAPbCAKajYCACAQQQFqIhAgBUcNAAsLIAwgCEH8AGogBUEBENOAgIAAIAAgCyAIKAJ8IgdBAnRqKAIAOgAAAkAgAi4BAiIJRQ0AIABBAWogDSAHQQR0aiAJ/AoAAAsgASAAIAIQnICAgAAgDCgCACEHIAhBgAFqJICAgIAAIAcL/AEBDH8CQCAEQQFIDQAgBUECaiEGIAVBAXQiB0F8aiEIQQAhCQNAQQAhCgJAIAVBAkgNAEEAIQsgCCEMIAYhDUEAIQoDQCABIAxqIg5BAmovAQAgAiANaiIPQX1qLQAAQQd0a8EgAyAMaiIQQQJqLgEAbCIRIAtBAXVrIgsgC0EfdSILcyALayAKaiAOLwEAIA9BfGotAABBB3RrwSAQLgEAbCILIBFBAXVrIgogCkEfdSIKcyAKa2ohCiAMQXxqIQwgCyELIA1BfmoiDUEDSw0ACwsgACAJQQJ0aiAKNgIAIAMgB2ohAyACIAVqIQIgCUEBaiIJIARHDQALCwu6AQEDfwJAIAIuAQIiBEEBSA0AIAIoAhggAyAEbEECbWohBUEAIQMDQCAAIAUtAAAiBEEBdkEHcUEJbDsBACABIANqIgYgAigCFCACLgECQX9qQQAgBEEBcRtqIANqLQAAOgAAIABBAmogBEEFdkEJbDsBACAGQQFqIAIoAhQgBEEbdEEfdSACLgECQX9qcWogA2pBAWotAAA6AAAgAEEEaiEAIAVBAWohBSADQQJqIgMgAi4BAkgNAAsLC90RARR/I4CAgIAAQcACayIKJICAgIAAIAbBIQtBdiEMQQAhDQNAIAxBCnQhBgJAAkAgDEEBSA0AIAZBmgdyIQ4gBkGaf2ohBgwBCyAGQYAIaiEPQZoHIQ4CQAJAIAxBAWoOAgACAQtB5vgDIQYgDyEODAELIA9B5gByIQ4gBkHmAHIhBgsgCiANaiALIA7BbEEQdTYCACAKQdAAaiANaiALIAbBbEEQdTYCACANQQRqIQ0gDEEBaiIMQQpHDQALIApBADsB4AEgCkEANgLAAQJAAkAgCUEBTg0AQQAhEAwBCyAJIApB8AFqakF/aiERIAjBIRIgCSETQQEhFANAIBMiFUF/aiETQQAhFgJAAkACQAJAIBRFDQAgBSAEIBNBAXQiBmouAQBqIhdBBWohGCABIAZqLwEAIQ4gFEEBdCEWIBRBAnQhGSADIBNqLQAAIRogAiAGai4BACEQIApBwAFqIQYgCkHgAWohDCARIQsgFCEbA0AgDCAMLgEAIBpsQQh1Ig8gCkHQAGogDiAPa8EgB2xBEHUiDUF2IA1BdkobIghBCSAIQQlIGyIIQQJ0QShqIhxqKAIAaiIdOwEAIAsgCDoAACAMIBZqIAogHGooAgAgD2oiDzsBAAJAAkAgDUEDSA0AAkAgDUEDRw0AIBctAAchDUGYAiEIDAILIAhBK2wiDUGXAWohCCANQewAaiENDAELAkAgDUF8Sg0AAkAgDUF8Rw0AIBggCGotAAAhCEGYAiENDAILIAhBVWwiDUHBAGohCCANQewAaiENDAELIBcgCGoiDUEFai0AACEIIA1BBGotAAAhDQsgBiAGKAIAIhwgDSASbGogDiAda8EiDSANbCAQbGo2AgAgBiAZaiAcIAggEmxqIA4gD2vBIg0gDWwgEGxqNgIAIAtBEGohCyAMQQJqIQwgBkEEaiEGIBtBf2oiGw0ACwJAIBRBA0kNAEEAIQYgCigCwAEiDCAKKALQASIcSg0CIBwhDiAMIRwMAwsgCkHwAWogE2oiBiAUQQR0IgxqIAYtAABBAWo6AAACQCAUQQFGDQAgBkEQaiIGIAxqIAYtAABBAWo6AAALIBRBAkYhBkEEIRQgBg0DCyAWIQ8CQCAWQQMgFkEDSxsiCCAWayILQQFqQQNxIg5FDQAgFiAOaiEPIA5BBHQhDCARIBZBBHRqIQ1BACEGA0AgDSAGaiARIAZqLQAAOgAAIAwgBkEQaiIGRw0ACwsCQCALQQNPDQAgFiEUDAMLIA5BBHQhCyAPQQR0IQ8gCCAOa0EBaiEOIBEhBgNAIAYgD2oiDCAGIAtqIg0tAAA6AAAgDEEQaiANQRBqLQAAOgAAIAxBIGogDUEgai0AADoAACAMQTBqIA1BMGotAAA6AAAgBkHAAGohBiAWIA5BfGoiDkcNAAsgFiEUDAILIAogDDYC0AEgCiAcNgLAASAKLwHgASEGIAogCi8B6AE7AeABIAogBjsB6AFBBCEGIAwhDgsgCiAcNgKwASAKIA42AqABIAogBjYCsAJBASEMAkACQCAKKALEASINIAooAtQBIgZKDQAgBiELIA0hBgwBCyAKIA02AtQBIAogBjYCxAEgCi8B4gEhDCAKIAovAeoBOwHiASAKIAw7AeoBQQUhDCANIQsLIAogBjYCtAEgCiALNgKkASAKIAw2ArQCQQIhDQJAAkAgCigCyAEiCCAKKALYASIMSg0AIAwhDyAIIQwMAQsgCiAINgLYASAKIAw2AsgBIAovAeQBIQ0gCiAKLwHsATsB5AEgCiANOwHsAUEGIQ0gCCEPCyAKIAw2ArgBIAogDzYCqAEgCiANNgK4AkEDIRACQAJAIAooAswBIhsgCigC3AEiDUoNACANIQggGyENDAELIAogGzYC3AEgCiANNgLMASAKLwHmASEIIAogCi8B7gE7AeYBIAogCDsB7gFBByEQIBshCAsgCiAQNgK8AiAKIA02ArwBIAogCDYCrAECQCAOIAsgDiALSBsiECAPIBAgD0gbIhsgCCAbIAhIGyAcQQAgHEEAShsiHCAGIBwgBkobIh0gDCAdIAxKGyIWIA0gFiANShtODQADQCAKQbABakEDQQIgHCAGSCAdIAxIGyAWIA1IGyIGQQJ0IgxyQQA2AgAgCkGgAWpBA0ECIA4gC0ogECAPShsgGyAIShsiDUECdCIOckH/////BzYCACAKQfABaiAGQQR0aiILIApB8AFqIA1BBHRqIg8pAwA3AwAgCyAPKQMINwMIIApBsAJqIAxyIApBsAJqIA5yKAIAQQRzNgIAIApBwAFqIAxyIApBwAFqIA1BBHIiDEECdGooAgA2AgAgCkHgAWogBkEBdHIgCkHgAWogDEEBdHIvAQA7AQAgCigCoAEiDiAKKAKkASILIA4gC0gbIhAgCigCqAEiDyAQIA9IGyIbIAooAqwBIgggGyAISBsgCigCsAEiBkEAIAZBAEobIhwgCigCtAEiBiAcIAZKGyIdIAooArgBIgwgHSAMShsiFiAKKAK8ASINIBYgDUobSA0ACwsgCkHwAWogE2oiBiAGLQAAIAooArACQQJ2ajoAACAGIAYtABAgCigCtAJBAnZqOgAQIAYgBi0AICAKKAK4AkECdmo6ACAgBiAGLQAwIAooArwCQQJ2ajoAMAsgEUF/aiERIBVBAUoNAAsgCigC3AEhBiAKKALYASEMIAooAtQBIQ0gCigC0AEhDiAKKALMASELIAooAsgBIQ8gCigCxAEhCCAKKALAASEQC0EHQQZBBUEEQQNBAiAQIAhKIBAgCCAQIAhIGyIIIA9KGyAIIA8gCCAPSBsiDyALShsgDyALIA8gC0gbIgsgDkobIAsgDiALIA5IGyIOIA1KGyAOIA0gDiANSBsiDSAMShsgDSAMIA0gDEgbIgwgBkobIQ0CQCAJQQBMDQAgCUUNACAAIApB8AFqIA1BBHRBMHFqIAn8CgAACyAAIAAtAAAgDUECdmo6AAAgCkHAAmokgICAgAAgDCAGIAwgBkgbC7IEAQp/I4CAgIAAQeAAayIEJICAgIAAIAAoAuQjIQUgAC4BtCMhBiAEQSBqIAIgACgCoCQQyICAgABBACEHIAZBe2wgBkHuzgNsQRB1akHKGGoiBkEBdUEAIAVBAkYbIAZqIQgCQCAAKAKYJEEBRw0AIAAsAJ8lIgZBA0oNACAEQcAAaiADIAIgBiAAKAKgJBCagICAACAEIARBwABqIAAoAqAkEMiAgIAAQQEhByAAKAKgJCIGQQFIDQBBASEHIAZBAXEhCSAALQCfJSIFIAVsQQt0wSEKQQAhCwJAIAZBAUYNACAGQf7///8HcSEMQQAhCyAEQSBqIQYgBCEFA0AgBiAGLgEAQQF2IAUuAQAgCmxBEHZqOwEAIAZBAmoiDSANLgEAQQF2IAVBAmouAQAgCmxBEHZqOwEAIAVBBGohBSAGQQRqIQYgDCALQQJqIgtHDQALCyAJRQ0AQQEhByAEQSBqIAtBAXQiBmoiBSAFLgEAQQF2IAQgBmouAQAgCmxBEHZqOwEACyAAQYglaiACIAAoAtQkIARBIGogCCAAKAK0JCAALACdJRCtgICAABogAUEgaiIGIAIgACgCoCQgACgC5CcQxoCAgAACQAJAIAdFDQAgBEHAAGogAyACIAAsAJ8lIAAoAqAkEJqAgIAAIAEgBEHAAGogACgCoCQgACgC5CcQxoCAgAAMAQsgACgCoCRBAXQiAEUNACABIAYgAPwKAAALIARB4ABqJICAgIAAC9YTAQ5/I4CAgIAAQRBrIgshDCALJICAgIAAIAFBfGohDSALIApBAmoiDkEBdEEPakFwcWsiDyIQJICAgIAAAkAgCkF/SA0AIA5BASAOQQFKGyERIAJBfGohDiANIQsgDyESA0AgCyAOLgEAIhMgCy4BACIUaiIVQQF2IBVBAXFqOwEAIBIgFCATayITQQF1IBNBAXFqIhNB//8BIBNB//8BSBs7AQAgDkECaiEOIAtBAmohCyASQQJqIRIgEUF/aiIRDQALCyANIAAoAgQ2AQAgDyAAKAIIIg42AgAgACANIApBAXQiFmooAQA2AgQgACAPIBZqKAEANgIIIBAgFkEPakFwcSILayIQIhIkgICAgAAgEiALayIXIhgkgICAgAACQAJAIApBAUgNACABQX5qIQsgDS8BACESIAohFCAQIREgFyETA0AgEsEhFSARIAsuAQAiEiAVIAtBAmoiCy4BAGpBAXVqQQFqQQF1IhU7AQAgEyASIBVrOwEAIBFBAmohESATQQJqIRMgCyELIBRBf2oiFA0ACyAYIBZBD2pBcHEiC2siFCISJICAgIAAIBIgC2siFSSAgICAAEEAIQsgCiESA0AgDsEhESAUIAtqIA8gC2oiE0ECai4BACIOIBEgE0EEai4BAGpBAXVqQQFqQQF1IhE7AQAgFSALaiAOIBFrOwEAIAtBAmohCyASQX9qIhINAAwCCwsgGCAWQQ9qQXBxIgtrIhQiDiSAgICAACAOIAtrIhUkgICAgAALIAwgDEEEaiAQIBQgAEEMaiAKQcgCQY8FIAogCUEKbEYiCxsiDiAHwSISIBJsIhJB/f8DcWxBEHYgDiASQRB2bGoiDhDagICAACIYNgIIIAwgDCAXIBUgAEEUaiAKIA4Q2oCAgAAiFzYCDEHQdkGoeyALGyAGaiILQQEgC0EBShsiEiASZyITQX9qdCIRIAwuAQRBA2wgDCgCAGoiC0GAgAQgC0GAgARIGyIQQQNsIhRBgIA0aiILIAsgC0EfdSIVcyAVa2ciFUF/anQiC6xB/////wEgC0EQdW3BIgsgEUH//wNxbEEQdSALIBFBEHVsaiIRrH5CHYinQXhxayIWQRB1IAtsIBFqIBZB//8DcSALbEEQdWohESAJwUHYBGxB0A9qIQsCQAJAIBMgFWsiE0F1Sg0AQf////8HQXYgE2siE3YiFSARQYCAgIB4IBN1IhYgESAWShsgESAVShsgE3QhEQwBCyARIBNBCmoiE3VBACATQSBJGyERCyAFIBE2AgACQAJAIBEgC04NACAFIAs2AgAgBSASIAtrIhE2AgQgEUEBdCALayIRIBEgEUEfdSITcyATa2ciFUF/anQiE0H/////ASAUQYCABGpBEHUgC8EiEWwgFEH//wNxIBFsQRB1aiIRIBEgEUEfdSIUcyAUa2ciFEF/anQiFkEQdW3BIhEgE0H+/wNxbEEQdSARIBNBEHVsaiITrCAWrH5CHYinQXhxayIWQRB1IBFsIBNqIBZB/v8DcSARbEEQdWohEQJAAkAgFSAUayITQXJKDQBB/////wdBcyATayITdiIUIBFBgICAgHggE3UiFSARIBVKGyARIBRKGyATdCERDAELIBEgE0ENaiITdUEAIBNBIEkbIRELIBFBACARQQBKGyIRQYCAASARQYCAAUgbIREMAQsgBSASIBFrNgIEQYCAASERCyAAIAAuARwiEyARIBNrIhFB//8DcSAOwWxBEHYgEUEQdiAObGpqOwEcQQAhByAEQQA6AAACQAJAAkACQAJAAkACQCAIRQ0AIAxCADcCCCAMQQhqIAMQ24CAgAAMAQsgEkEDdCERIAAuARwhDgJAAkAgAC8BHg0AAkAgESALQQ1sSA0AIBBB//8DcSAObEEQdSAQQRB1IA5sakGyBkoNAgsgDCAXwSAObEEOdTYCDCAMIBjBIA5sQQ51NgIIIAxBCGogAxDbgICAAEEAIQcgBUEANgIEIAUgEjYCACAEQQE6AAAgDEIANwIIDAMLAkAgESALQQtsSA0AIBBB//8DcSAObEEQdSAQQRB1IA5sakHHAkoNAQsgDCAXwSAObEEOdTYCDCAMIBjBIA5sQQ51NgIIIAxBCGogAxDbgICAACAMQgA3AggMAQsCQCAOQc75AEgNACAMQQhqIAMQ24CAgABBgIABIQcMAQsgDCAXwSAObEEOdTYCDCAMIBjBIA5sQQ51NgIIIAxBCGogAxDbgICAACAALgEcIQcLIAQtAABBAUcNAQsgACAALwEgIAogCUEDdGtqIgs7ASACQCAJQQVsIAvBTA0AIARBADoAAAwDCyAAQZDOADsBIAwBCyAAQQA7ASALIAQtAAANAQsgBSgCBEEASg0AIAVBATYCBCAFIBJBf2oiC0EBIAtBAUsbNgIAC0GAgAQgCUEDdCIGbSELIAwoAgwhAyAMKAIIIRgCQCAJQQFIDQAgAkF+aiEOQQAgC8EiCyADIAAvAQIiEmvBbEEPdUEBakEBdUEQdCIQIBJBEHRqayESQQAgCyAYIAAvAQAiEWvBbEEPdUEBakEBdUEQdCIXIBFBEHRqayERIAZBASAGQQFKGyEVIA9BAmohEyAHIAAuAR4iFGsiBUH//wNxIAtsQRB1IAVBEHUgC2xqQQp0IgggFEEKdGohCwNAIA4gC0EQdSATLgEAIgVsIA1BAmoiBC4BACIUQQV1IBJBEHUiFmxqIAtBgPgDcSAFbEEQdWogFEELdEGA8ANxIBZsQRB1aiAUQQp0IA1BBGouAQAgDS4BAGpBCXRqIg1BEHUgEUEQdSIUbGogDUGA/ANxIBRsQRB1akEHdUEBakEBdSINQYCAfiANQYCAfkobIg1B//8BIA1B//8BSBs7AQAgCyAIaiELIBIgEGshEiARIBdrIREgDkECaiEOIBNBAmohEyAEIQ0gFUF/aiIVDQALCwJAIAogBkwNACAKIAZrIREgB0EGdSEEIAdBCnRBgPgDcSEWIAlBBHQiDiABakF8aiELIA4gAmpBfmohDSAOIA9qQQJqIQ5BACADQRB0a0EQdSETQQAgGEEQdGtBEHUhFANAIA0gBCAOLgEAIhVsIAtBAmoiBS4BACISQQV1IBNsaiAWIBVsQRB1aiASQQt0QYDwA3EgE2xBEHVqIBJBCnQgC0EEai4BACALLgEAakEJdGoiC0EQdSAUbGogC0GA/ANxIBRsQRB1akEHdUEBakEBdSILQYCAfiALQYCAfkobIgtB//8BIAtB//8BSBs7AQAgDUECaiENIA5BAmohDiAFIQsgEUF/aiIRDQALCyAAIAc7AR4gACADOwECIAAgGDsBACAMQRBqJICAgIAAC9wFAQx/IAEgACgBBDYBACACIAAoAQg2AQAgACABIAVBAXQiBmooAQA2AQQgACACIAZqKAEANgEIQYCABCAEQQN0IgdtIQYgAygCBCEIIAMoAgAhCQJAIARBAUgNACAHQQEgB0EBShshCiACQQJqIQMgBsEiBiAJIAAvAQAiC2vBbEEPdUEBakEBdSIMQRB0IQ0gBiAIIAAvAQIiDmvBbEEPdUEBakEBdSIGQRB0IQ8gDCALakEQdCELIAYgDmpBEHQhDCABIQYDQCADIAMuAQBBCHQgBkECaiIQLgEAIg5BBXUgDEEQdSIRbGogDkELdEGA8ANxIBFsQRB1aiAOQQp0IAZBBGouAQAgBi4BAGpBCXRqIgZBEHUgC0EQdSIObGogBkGA/ANxIA5sQRB1akEHdUEBakEBdSIGQYCAfiAGQYCAfkobIgZB//8BIAZB//8BSBs7AQAgA0ECaiEDIAsgDWohCyAMIA9qIQwgECEGIApBf2oiCg0ACwsCQCAFIAdMDQAgBSAHayEMIAEgBEEEdCIGaiEDIAYgAmpBAmohBiAIwSEOIAnBIQoDQCAGIAYuAQBBCHQgA0ECaiIQLgEAIgtBBXUgDmxqIAtBC3RBgPADcSAObEEQdWogC0EKdCADQQRqLgEAIAMuAQBqQQl0aiIDQRB1IApsaiADQYD8A3EgCmxBEHVqQQd1QQFqQQF1IgNBgIB+IANBgIB+ShsiA0H//wEgA0H//wFIGzsBACAGQQJqIQYgECEDIAxBf2oiDA0ACwsgACAIOwECIAAgCTsBAAJAIAVBAUgNACABQQJqIQMgAkECaiEGA0AgAyADLgEAIgsgBi4BACIMaiIOQf//ASAOQf//AUgbIg5BgIB+IA5BgIB+Shs7AQAgBiALIAxrIgtB//8BIAtB//8BSBsiC0GAgH4gC0GAgH5KGzsBACADQQJqIQMgBkECaiEGIAVBf2oiBQ0ACwsLlAMBBH9Bmn8hAQJAAkACQCAAKAIIIgJBv7sBSg0AIAJBwD5GDQEgAkHg3QBGDQEgAkGA/QBGDQEMAgsCQCACQcPYAkoNACACQcC7AUYNASACQYD6AUYNAQwCCyACQYD3AkYNACACQcTYAkcNAQsCQCAAKAIUIgJBwD5GDQAgAkGA/QBGDQAgAkHg3QBHDQELAkAgACgCDCIDQcA+Rg0AIANBgP0ARg0AIANB4N0ARw0BCwJAIAAoAhAiBEHAPkYNACAEQYD9AEYNACAEQeDdAEcNAQsgBCACSw0AIAMgAkkNAEGZfyEBAkACQCAAKAIYIgJBdmoOCwECAgICAgICAgIBAAsgAkE8Rg0AIAJBKEcNAQsCQCAAKAIgQeQATQ0AQZd/DwsCQCAAKAIwQQFNDQBBlH8PCwJAIAAoAjRBAU0NAEGTfw8LAkAgACgCKEEBTQ0AQZV/DwtBkX8hASAAKAIAIgJBfWpBfkkNACAAKAIEIgMgAkoNACADQX1qQX5JDQBBln9BACAAKAIkQQpLGyEBCyABC6oBAQN/IAAgATYCgCQgACgC4CMhAgJAIAAoAuQjQQJHDQAgASACQXBtakGwcGohAQtBkLWAgAAhA0HqACEEAkACQAJAIAJBeGoOBQIBAQEAAQtBgLaAgAAhA0GaASEEDAELQaC3gIAAIQNBvgEhBAtBACECAkAgAUHoIEgNACADIAFByAFqQZADbkF2aiIBIAQgASAESRtqLQAAQRVsIQILIAAgAjYC7CRBAAtXAAJAQdDOAEUNACAAQQBB0M4A/AsACyAAIAE2AuQnQYCA8AEQwoCAgAAhASAAQQE2ArgkIAAgAUEIdEGAgGBqIgE2AgwgACABNgIIIABBJGoQp4CAgAAL+gwBBH8gACADNgKALSAAIAI2ArgjIAAgASgCMDYCvC8gACABKAI0NgLEJCAAIAEoAggiAzYCzCMgACABKAIMNgLUIyAAIAEpAhA3AtgjIAAgASgCKDYCyC8gACABKQIANwL4LAJAAkAgACgCvCRFDQAgACgCyCQNAEEAIQEgAyAAKALQI0YNASAAKALgIyIEQQFIDQEgACAEELiAgIAADwsgACAEIAAgARCpgICAACAEGyIEELiAgIAAIQUCQAJAIAEoAhgiAyAAKAKEJEcNACAAKALgIyECQQAhBgwBC0EAIQYCQAJAAkAgA0F2ag4LAgEBAQEBAQEBAQIACyADQShGDQEgA0E8Rg0BC0GZfyEGCwJAAkAgA0EKSg0AIABBATYC8CwgACADwSAEwSICbDYC6CMgAEECQQEgA0EKRhs2AuQjIAAgAkEObDYCxCNBCCECAkAgACgC4CMiB0EIRw0AIABB+auAgAA2AtAkDAILIABB7auAgAA2AtAkIAchAgwBCyAAQQQ2AuQjIAAgA0EUbjYC8CwgACAEwSICQRRsNgLoIyAAIAJBGGw2AsQjQQghAgJAIAAoAuAjIgdBCEcNACAAQeKrgIAANgLQJAwBCyAAQcCrgIAANgLQJCAHIQILIABBADYCgCQgACADNgKEJAsCQCACIARGDQAgAEIANwKAOCAAQQA2AvQsIABBADYC7CwgAEIANwIQIABBADYCgCQgAEGIOGpBADYCAAJAQaAiRQ0AIABBlAFqQQBBoCL8CwALQQohAiAAQQo6AIA4IABBATYCuCQgAEHkADYCwCMgACAENgLgIyAAQQA6AL0jIABBgIAENgKMIyAAQeQANgL8IiAAKALkIyEDAkACQCAEQQhHDQBB4quAgABB+auAgAAgA0EERhshB0GImICAACEIDAELQYiYgIAAQdSogIAAIARBDEYiAhshCEEKQRAgAhshAkHAq4CAAEHtq4CAACADQQRGGyEHCyAAIAg2AtQkIAAgAjYCoCQgACAHNgLQJCAAIARBBWw2AuwjIAAgBEEQdEEPdTYC9CMgACAEwSICQRRsNgLwIyAAIAJBEmw2AsgjIAAgA8EgBEGAgBRsQRB1bDYC6CMgAEGAqoCAAEH6qYCAAEHxqYCAACAEQQxGGyAEQRBGGzYCzCQgAEEYQQ4gA0EERhsgAmw2AsQjCwJAAkACQCABKAIkIgNBAEoNACAAQc2ZAzYCrCQgAEEANgKkJCAAQQw2ApwkIABBADYCwCQgAEECNgK0JCAAQgE3ApQkIARBA2whBwwBCwJAAkAgA0EBRw0AIABBj4UDNgKsJCAAQQE2AqQkIABBDjYCnCQgAEEANgLAJCAAQQM2ArQkIABCATcClCQgBEEFbCEHDAELAkAgA0ECSw0AIABBzZkDNgKsJCAAQoCAgIDgADcCpCQgAEEMNgKcJCAAQQA2AsAkIABBAjYCtCQgAEICNwKUJCAEQQNsIQcMAgsCQCADQQNHDQAgAEGPhQM2AqwkIABCgYCAgIABNwKkJCAAQQ42ApwkIABBADYCwCQgAEEENgK0JCAAQgI3ApQkIARBBWwhBwwBCwJAIANBBUsNACAAQfH6AjYCrCQgAEKBgICAoAE3AqQkIABBEDYCnCQgAEEGNgK0JCAAQoKAgIAQNwKUJCAAIARB1wdsNgLAJCAAIARBBWwiBzYC+CNBCiECDAMLIARB1wdsIQIgBEEFbCEHAkAgA0EHSw0AIABB0vACNgKsJCAAQoGAgIDAATcCpCQgAEEUNgKcJCAAIAI2AsAkIABBCDYCtCQgAEKDgICAEDcClCQgACAHNgL4I0EMIQIMAwsgAEGz5gI2AqwkIABCgoCAgIACNwKkJCAAQRg2ApwkIAAgAjYCwCRBECECIABBEDYCtCQgAEKEgICAEDcClCQgACAHNgL4IwwCCyAAIAc2AvgjQQghAgwBCyAAIAc2AvgjQQYhAgsgACADNgKQJCAAIAEoAiAiAzYCiCQgACgCzC8hCCAAIAEoAiwiATYCzC8gACAEQQVsIAdBAXRqNgL8IyAAIAIgACgCoCQiBCACIARIGzYCqCQCQCABRQ0AAkACQCAIDQBBByEBDAELIANBEHVBmrN+bCADQf//A3FB5swBbEEQdmtBB2oiAUECIAFBAkobIQELIAAgATYC0C8LIAYgBWohASAAQQE2ArwkCyABC5IGAQt/I4CAgIAAIgIhAwJAAkAgACgC4CMiBCABRw0AQQAhBSAAKALQIyAAKALMI0YNAQsCQCAEDQAgAEGQLWogACgCzCMgAUHoB2xBARDJgICAACEFDAELIAIgACgC5CNBCmxBBWoiBiAEbCIHIAYgAWwiCCAHIAhKG0EBdEEPakFwcWsiCSIKJICAgIAAAkAgB0EBSA0AIAchCwJAIAdBAXFFDQAgCSAHQX9qIgtBAXRqIABBjDhqIAtBAnRqKgIAELuCgIAAIgJBgIB+IAJBgIB+ShsiAkH//wEgAkH//wFIGzsBAAsgB0EBRg0AIAtBAWohDCALQQJ0IABqQYQ4aiECIAtBAXQgCWpBfGohCwNAIAsgAioCABC7goCAACIFQYCAfiAFQYCAfkobIgVB//8BIAVB//8BSBs7AQAgC0ECaiACQQRqKgIAELuCgIAAIgVBgIB+IAVBgIB+ShsiBUH//wEgBUH//wFIGzsBACACQXhqIQIgC0F8aiELIAxBfmoiDEEBSw0ACwsgCkHQfWoiAiILJICAgIAAIAIgBMFB6AdsIAAoAswjQQAQyYCAgAAhDCALIAAoAswjQegHbSAGbCIFQQF0QQ9qQXBxayILJICAgIAAIAwgAiALIAkgBxDKgICAAGogAEGQLWoiAiAAKALMIyABwUHoB2xBARDJgICAAGogAiAJIAsgBRDKgICAAGohBSAIQQFIDQAgCCEBAkAgCEEDcSIMRQ0AIAggDGshASAIQQF0IAlqQX5qIQIgCEECdCAAakGIOGohCwNAIAsgAi4BALI4AgAgAkF+aiECIAtBfGohCyAMQX9qIgwNAAsLIAhBBEkNACABQQFqIQwgAUEBdCAJakF4aiECIAFBAnQgAGpB/DdqIQsDQCALIAIuAQCyOAIAIAtBDGogAkEGai4BALI4AgAgC0EIaiACQQRqLgEAsjgCACALQQRqIAJBAmouAQCyOAIAIAJBeGohAiALQXBqIQsgDEF8aiIMQQFLDQALCyAAIAAoAswjNgLQIyADJICAgIAAIAULywkBD38jgICAgABBkAFrIgMkgICAgAAgAyADQRBqNgIMIAMgA0HQAGo2AgggASADQdAAaiADQRBqIAJBAXUiBBC6gICAACADQdAAaiEFQQAhBgJAIANB0ABqQQAuAeC4gIAAIgcgBBC7gICAACIIQX9KDQAgAEEAOwEAIANBEGohBSADQRBqIAcgBBC7gICAACEIQQEhBgtBACEJA0BBASEKQQAhCyAHIQwCQANAIAVB4LiAgAAgCkEBdGoiDS4BACIOIAQQu4CAgAAhDwJAAkAgCEEASg0AIA8gC04NAQsCQCAIQQBIDQAgD0EAIAtrTA0BCwJAIApB/wBKDQAgCkF/aiEQIA1BAmohCyAOIQwgDyEIA0AgBSALLgEAIg4gBBC7gICAACEPAkACQAJAIAhBAEoNACAPQX9KDQELIAhBAEgNASAPQQBKDQELIBBBAmohCgwDCyALQQJqIQsgDiEMIA8hCCAQQQFqIhBB/wBIDQALCwJAIAlBEEkNAEEBIQggAEGAgAIgAkEBam0iBTsBACACQQJIDQMgAkF/aiIOQQNxIQsgAC8BACEPAkACQCACQX5qQQNPDQAgDyEODAELIABBCGohCCAOQXxxIQQgBSAFaiIQIAVqIgYgBWohCkEAIQwDQCAIIA8gCmoiDjsBACAIQX5qIA8gBmo7AQAgCEF8aiAPIBBqOwEAIAhBemogDyAFajsBACAIQQhqIQggDiEPIAQgDEEEaiIMRw0ACyAMQQFqIQgLIAtFDQMgACAIQQF0aiEIA0AgCCAOIAVqIg47AQAgCEECaiEIIAtBf2oiCw0ADAQLCyABIAJBfiAJdEGAgARqEL6AgIAAIAEgA0HQAGogA0EQaiAEELqAgIAAIANB0ABqIQVBACEGIAlBAWoiDyEJIANB0ABqIAcgBBC7gICAACIIQX9KDQMgAEEAOwEAIANBEGohBUEBIQYgA0EQaiAHIAQQu4CAgAAhCCAPIQkMAwtBgH4hECAFIAwgDmoiC0EBdSALQQFxaiINIAQQu4CAgAAhCwJAAkAgCEEASg0AIAtBf0wNACANIQ4MAQsCQCAIQQBIDQAgC0EBTg0AIA0hDgwBC0GAfyEQIA0hDCALIQggDyELCyAFIA4gDGoiDUEBdSANQQFxaiIRIAQQu4CAgAAhDQJAAkACQCAIQQBKDQAgDUF/Sg0BCwJAIAhBAEgNACANQQFIDQELIBBBwAByIRAgESEMIA0hCAwBCyARIQ4gDSELCyAFIA4gDGoiDkEBdSAOQQFxaiAEELuAgIAAIQ4CQAJAIAhBAEoNACAOQX9MDQAgDiELDAELAkAgCEEASA0AIA5BAU4NACAOIQsMAQsgEEEgaiEQIA4hCAsCQAJAIAggCEEfdSIOcyAOa0H//wNLDQAgCCALRg0BIAggC2siDkEBdSAIQQV0aiAObSAQaiEQDAELIAggCCALa0EFdW0gEGohEAsgACAGQQF0aiAQIApBCHRqIghB//8BIAhB//8BSBs7AQAgBkEBaiIGIAJODQEgD0UhC0GAICAGQQx0QYDAAHFrIQggCkEBdEHguICAAGpBfmouAQAhDCADQQhqIAZBAXFBAnRqKAIAIQUMAAsLCyADQZABaiSAgICAAAvsBwELfyABIANBAnQiBGpBgIAENgIAIAIgBGpBgIAENgIAAkAgA0EBSA0AIAAgBGoiBEF8aiEAIAEhBSACIQYgAyEHA0AgBUEAIAAoAgAgBCgCAGprNgIAIAYgBCgCACAAKAIAazYCACAEQQRqIQQgAEF8aiEAIAVBBGohBSAGQQRqIQYgB0F/aiIHDQALIAMhBAJAIANBAXFFDQAgASADQX9qIgRBAnQiAGoiBSAFKAIAIAEgA0ECdCIFaigCAGs2AgAgAiAAaiIAIAAoAgAgAiAFaigCAGo2AgALIANBAUYNACAEQQFqIQcgASAEQQJ0QXhqIgBqIQQgAiAAaiEAA0AgBEEEaiIFIAUoAgAgBEEIaigCAGs2AgAgAEEEaiIGIAYoAgAgAEEIaigCAGo2AgAgBCAEKAIAIAUoAgBrNgIAIAAgACgCACAGKAIAajYCACAEQXhqIQQgAEF4aiEAIAdBfmoiB0EBSw0ACyADQQFGDQAgAUFsaiEIIANBfWohCSADQQJ0IAFqQXhqIQpBACELIANBAnMiDCENQQIhBANAAkAgAyAEIg5MDQAgAyEFAkAgDCALa0EDcUUNACADIA1BA3EiAGshBSAKIQQDQCAEIAQoAgAgBEEIaigCAGs2AgAgBEF8aiEEIABBf2oiAA0ACwsgCSALa0EDSQ0AIAggBUECdGohBANAIARBDGoiACAAKAIAIARBFGooAgBrIgA2AgAgBEEIaiIGIAYoAgAgBEEQaigCAGsiBjYCACAEQQRqIgcgBygCACAAazYCACAEIAQoAgAgBms2AgAgBEFwaiEEIAVBfGoiBSAOSg0ACwsgASAOQQJ0aiIEQXhqIgAgACgCACAEKAIAQQF0azYCACANQQNqIQ0gC0EBaiELIA5BAWohBCAOIANHDQALIAJBbGohCiADQX1qIQEgA0ECdCACakF4aiEMQQAhCyADQQJzIgkhDUECIQQDQAJAIAMgBCIOTA0AIAMhBQJAIAkgC2tBA3FFDQAgAyANQQNxIgBrIQUgDCEEA0AgBCAEKAIAIARBCGooAgBrNgIAIARBfGohBCAAQX9qIgANAAsLIAEgC2tBA0kNACAKIAVBAnRqIQQDQCAEQQxqIgAgACgCACAEQRRqKAIAayIANgIAIARBCGoiBiAGKAIAIARBEGooAgBrIgY2AgAgBEEEaiIHIAcoAgAgAGs2AgAgBCAEKAIAIAZrNgIAIARBcGohBCAFQXxqIgUgDkoNAAsLIAIgDkECdGoiBEF4aiIAIAAoAgAgBCgCAEEBdGs2AgAgDUEDaiENIAtBAWohCyAOQQFqIQQgDiADRw0ACwsLpQQBBH8gAUEEdCEDIAAgAkECdGooAgAhBAJAIAJBCEYNAAJAIAJBAUgNACABQRR0QRB1IQEgA0EPdUEBakEBdSEDAkACQCACQQFxDQAgAiEFDAELIARBEHUgAWwgBCADbGogBEH//wNxIAFsQRB1aiAAIAJBf2oiBUECdGooAgBqIQQLIAJBAUYNACAFQQFqIQYgBUECdCAAakF4aiECA0AgBEEQdSABbCAEIANsaiAEQf//A3EgAWxBEHVqIAJBBGooAgBqIgBBEHUgAWwgACADbGogAEH//wNxIAFsQRB1aiACKAIAaiEEIAJBeGohAiAGQX5qIgZBAUsNAAsLIAQPCyAEQRB1IAFBFHRBEHUiAmwgBCADQQ91QQFqQQF1IgFsaiAEQf//A3EgAmxBEHVqIAAoAhxqIgQgAWwgACgCGGogBEEQdSACbGogBEH//wNxIAJsQRB1aiIEIAFsIAAoAhRqIARBEHUgAmxqIARB//8DcSACbEEQdWoiBCABbCAAKAIQaiAEQRB1IAJsaiAEQf//A3EgAmxBEHVqIgQgAWwgACgCDGogBEEQdSACbGogBEH//wNxIAJsQRB1aiIEIAFsIAAoAghqIARBEHUgAmxqIARB//8DcSACbEEQdWoiBCABbCAAKAIEaiAEQRB1IAJsaiAEQf//A3EgAmxBEHVqIgQgAWwgACgCAGogBEEQdSACbGogBEH//wNxIAJsQRB1aguVAgEGfwJAIARBAXUiBUEBSA0AIAEoAgQhBCABKAIAIQYDQCACIABBAmouAQBBCnQiByAEayIIQf//A3FBpNQAbEEQdiAIQRB1QaTUAGxqIgkgBGoiBCAALgEAQQp0IgggBmsiBkH//wNxQZ7CfmxBEHUgBkEQdUGewn5saiAIaiIIakEKdUEBakEBdSIKQYCAfiAKQYCAfkobIgpB//8BIApB//8BSBs7AQAgAyAEIAhrQQp1QQFqQQF1IgRBgIB+IARBgIB+ShsiBEH//wEgBEH//wFIGzsBACAJIAdqIQQgCCAGaiEGIABBBGohACACQQJqIQIgA0ECaiEDIAVBf2oiBQ0ACyABIAQ2AgQgASAGNgIACwvyAgEJfwJAIAVBAUgNAEEAIAIoAgRrIgZB//8AcSEHQQAgAigCAGsiAkH//wBxIQggBkECdEEQdSEJIAJBAnRBEHUhCiADKAIEIQsgAygCACEGA0AgAyABKAIAIgxBEHUgAC4BACICbCAGaiAMQf//A3EgAmxBEHVqQQJ0IgxBEHUiBiAKbCALaiAMQfz/A3EiCyAKbEEQdWogCyAIbEEQdiAGIAhsakENdUEBakEBdWoiDTYCACABKAIEIQ4gAyALIAlsQRB1IAYgCWxqIAsgB2xBEHYgBiAHbGpBDXVBAWpBAXVqIgs2AgQgAyACIA5B//8DcWxBEHUgAiAOQRB1bGogDWoiBjYCACAEIAxB//8AakEOdSIMQYCAfiAMQYCAfkobIgxB//8BIAxB//8BSBs7AQAgAyACIAEoAggiDEH//wNxbEEQdSACIAxBEHVsaiALaiILNgIEIABBAmohACAEQQJqIQQgBUF/aiIFDQALCwu4AQEFfyABQX9qIQMCQCABQQJIDQAgAkGAgHxqIQQgACEBIAMhBQNAIAEgASgCACIGwSIHIAJB//8DcWxBEHUgByACQRB1bGogBkEPdUEBakEBdSACbGo2AgAgAUEEaiEBIAIgBGxBD3VBAWpBAXUgAmohAiAFQX9qIgUNAAsLIAAgA0ECdGoiASABKAIAIgHBIgUgAkH//wNxbEEQdSAFIAJBEHVsaiABQQ91QQFqQQF1IAJsajYCAAuGAgEGfyABQX9qIQMCQCABQQJIDQAgAkGAgHxqIQQgA0EBcSEFAkACQCABQQJHDQBBACEGDAELIANBfnEhB0EAIQYgACEBA0AgASACIAEuAQBsQQ92QQFqQQF2OwEAIAFBAmoiCCACIARsQQ91QQFqQQF1IAJqIgIgCC4BAGxBD3ZBAWpBAXY7AQAgAiAEbEEPdUEBakEBdSACaiECIAFBBGohASAHIAZBAmoiBkcNAAsLIAVFDQAgACAGQQF0aiIBIAIgAS4BAGxBD3ZBAWpBAXY7AQAgAiAEbEEPdUEBakEBdSACaiECCyAAIANBAXRqIgEgAiABLgEAbEEPdkEBakEBdjsBAAu3AQEFfwJAIARBAUgNAEELQQMgBEEERiIFG0EiQQwgBRsgA0EIRiIGGyEHIANBEHRBD3UiCCAAaiEJQbC7gIAAQYq7gIAAIAUbQeC7gIAAQZC7gIAAIAUbIAYbIAFqIQUgCCADwUESbCIAIAggAEgbIQMgCCAAIAggAEobIQADQCACIAAgCSAFLAAAaiIIIAMgCCADShsgCCAAShs2AgAgBSAHaiEFIAJBBGohAiAEQX9qIgQNAAsLC7cBAQV/AkAgA0EBTg0AQQAPCyADQQFxIQQCQAJAIANBAUcNAEEAIQVBACEGDAELIANB/v///wdxIQdBACEFIAEhAyAAIQhBACEGA0AgA0ECai4BACAIQQJqLgEAbCACdSADLgEAIAguAQBsIAJ1IAVqaiEFIANBBGohAyAIQQRqIQggByAGQQJqIgZHDQALCwJAIARFDQAgASAGQQF0IgNqLgEAIAAgA2ouAQBsIAJ1IAVqIQULIAULZwEBfwJAIABnIgFBGEYNAAJAIABB/wBLDQAgAEE4IAFrdiAAIAFBaGp0ciEADAELIAAgAUEIanQgAEEYIAFrdmohAAsgAEH/AHEiACABQQd0ayAAQYABIABrbEGzAWxBEHZqQYAfaguFAQEDf0EAIQECQCAAQQBIDQBB/////wchASAAQf4eSw0AIABB/wBxIQFBASAAQQd2IgJ0IQMCQAJAIABB/w9LDQAgAUGAASABa2xB0n5sQRB1IAFqIAJ0QQd1IQAMAQsgAUGAASABa2xB0n5sQRB1IAFqIANBB3ZsIQALIAAgA2ohAQsgAQvTAwEPfwJAIAQgA04NACACQRJqIQYgBEF5aiIHQQJxIQggBEEBdCABakFsaiEJIAdBAXZBAWpBfnEhCiAEQQdIIQsgBCEMA0AgAi4BAiABIAxBAXQiDWoiDkF8ai4BAGwgAi4BACAOQX5qIg8uAQBsaiACLgEEIA5BemouAQBsaiACLgEGIA5BeGouAQBsaiACLgEIIA5BdmouAQBsaiACLgEKIA5BdGouAQBsaiEQAkAgCw0AQQYhEQJAIAdBAkkNAEEGIREgCiESIAkhEyAGIRQDQCAUQX5qLgEAIBNBAmouAQBsIBRBemouAQAgE0EGai4BAGwgEGogFEF8ai4BACATQQRqLgEAbGpqIBQuAQAgEy4BAGxqIRAgE0F4aiETIBRBCGohFCARQQRqIREgEkF+aiISDQALCyAIDQAgAiARQQF0IhNqIhQuAQAgDyATay4BAGwgEGogFC4BAiAPIBFBf3NBAXRqLgEAbGohEAsgACANaiAOLgEAQQx0IBBrQQt1QQFqQQF1IhNBgIB+IBNBgIB+ShsiE0H//wEgE0H//wFIGzsBACAJQQJqIQkgDEEBaiIMIANHDQALCwJAIARBAXQiE0UNACAAQQAgE/wLAAsLxwkEBX8Bfgh/BH4jgICAgABB4ABrIQICQAJAAkACQAJAIAFBAUgNACABQQNxIQMgAUEETw0BQQAhBEEAIQUMAgsgAUF/aiEGQoCAgIAEIQcMAgsgAUH8////B3EhCEEAIQQgAiEGIAAhCUEAIQUDQCAGIAkuAQAiCkEMdDYCACAGQQRqIAlBAmouAQAiC0EMdDYCACAGQQhqIAlBBGouAQAiDEEMdDYCACAGQQxqIAlBBmouAQAiDUEMdDYCACANIAwgCyAEIApqampqIQQgBkEQaiEGIAlBCGohCSAIIAVBBGoiBUcNAAsLAkAgA0UNACAAIAVBAXRqIQYgAiAFQQJ0aiEJA0AgCSAGLgEAIgVBDHQ2AgAgBkECaiEGIAlBBGohCSAEIAVqIQQgA0F/aiIDDQALCwJAIARB/x9MDQBBAA8LAkAgAUEBRw0AQQAhBkKAgICABCEHDAELIAFBAnQgAmpBeGohDkEAIQhBgICAgAQhAAJAA0AgAiABQX9qIg9BAnRqKAIAIgZB4aCAeGpBw8GAcEkNAwJAQYCAgIAEQQAgBkEHdGusIhAgEH5CIIinayIGrSAArX5CHogiEadBfHEiAEHuxgZODQBBAA8LIAFBAXYiBUEBSyEKQQBB/////wEgBiAGZyILQX9qdCIDQRB1IgxtIgTBIgkgA0H//wNxbEEQdSAJIAxsakEDdGsiAyAEQQ91QQFqQQF1bCAEQRB0aiADQRB1IAlsaiADQfj/A3EgCWxBEHVqIQkCQAJAIAsgBiAGQR91IgRzIARrZyINayIGQUFLDQBB/////wcgBnYiBCAJQYCAgIB4IAZ1IgMgCSADShsgCSAEShsgBnQhBgwBCyAJQQAgBmt1IQYLIAVBASAKGyEMQR8gDWutIRIgBqwhByACIQkgDiEEAkADQCAJKAIAIgYgBCgCACIDrCAQfkIeiEIBfEIBiKciBWsiCkEfdUGAgICAeHMgCiAGIAUgCkF/SiILGyAFIAYgCxtBf3NxQQBIGyIFrCAHfiETAkACQAJAIA1BH0cNACAFrSAHfkIBgyATQgGHfCITQoCAgIB4fEKAgICAcFoNAUEADwsCQCATIBKHQgF8QgGHIhNCgICAgHh8QoCAgIBwWg0AQQAPCyAJIBM+AgAgAyAGrCAQfkIeiEIBfEIBiKciBmsiBUEfdUGAgICAeHMgBSADIAYgBUF/SiIKGyAGIAMgChtBf3NxQQBIG6wgB34gEodCAXxCAYchEwwBCyAJIBM+AgAgAyAGrCAQfkIeiEIBfEIBiKciBmsiBUEfdUGAgICAeHMgBSADIAYgBUF/SiIKGyAGIAMgChtBf3NxQQBIGyIGrSAHfkIBgyAGrCAHfkIBh3whEwsgE0KAgICAeHxCgICAgHBUDQEgBCATPgIAIAlBBGohCSAEQXxqIQQgDEF/aiIMDQALIA5BfGohDiABQQNIIQYgDyEBIAYNAgwBCwtBAA8LIBFC/P///w+DIQdBACEGCwJAIAIgBkECdGooAgBB4aCAeGpBw8GAcE8NAEEADwtBAEKAgICABEEAIAIoAgBBB3RrrCITIBN+QiCIfUL/////D4MgB35CHoinQXxxIgYgBkHuxgZIGyEICyAIC7sKAwp/AX4BfyOAgICAAEHAAmsiBCSAgICAAAJAAkAgAkEBTg0ADAELQfC6gIAAQYC7gIAAIAJBEEYbIQUgAiEGA0AgBEHgAWogBS0AAEECdGpB4LiAgAAgAS4BACIHQQh1QQF0aiIIQQJqLgEAIAguAQAiCGsgB0H/AXFsIAhBCHRqQQN1QQFqQQF1NgIAIAFBAmohASAFQQFqIQUgBkF/aiIGDQALIAQoAuABIQELIARBgIAENgKgAUEAIQkgBEEAIAFrNgKkAQJAAkAgAkEBdSIKQQJIDQAgBEGUAWohC0EBIQwDQCAEQaABaiAMIgFBAWoiDEECdGogBEGgAWogAUECdGoiBUF8aiIGKAIAQQF0IAU0AgAgBEHgAWogAUEDdGooAgAiDawiDn5CD4hCAXxCAYinazYCAAJAIAFBAkkNAAJAIAlBAXFFDQAgBSAFKAIAIAVBeGooAgBqIAY0AgAgDn5CD4hCAXxCAYinazYCACABQX9qIQELIAlBAUYNACABQQJqIQUgCyABQQJ0aiEBA0AgAUEMaiIGIAYoAgAgAUEEaigCACIGaiABQQhqIgcoAgAiCKwgDn5CD4hCAXxCAYinazYCACAHIAggASgCAGogBqwgDn5CD4hCAXxCAYinazYCACABQXhqIQEgBUF+aiIFQQNKDQALCyAEIAQoAqQBIA1rNgKkASAJQQFqIQkgDCAKRw0ACyAEQYCABDYCYEEAIQkgBEEAIAQoAuQBazYCZCAEQdQAaiEPIARB4AFqQQRyIQtBASEMA0AgBEHgAGogDCIBQQFqIgxBAnRqIARB4ABqIAFBAnRqIgVBfGoiBigCAEEBdCAFNAIAIAsgAUEDdGooAgAiDawiDn5CD4hCAXxCAYinazYCAAJAIAFBAkkNAAJAIAlBAXFFDQAgBSAFKAIAIAVBeGooAgBqIAY0AgAgDn5CD4hCAXxCAYinazYCACABQX9qIQELIAlBAUYNACABQQJqIQUgDyABQQJ0aiEBA0AgAUEMaiIGIAYoAgAgAUEEaigCACIGaiABQQhqIgcoAgAiCKwgDn5CD4hCAXxCAYinazYCACAHIAggASgCAGogBqwgDn5CD4hCAXxCAYinazYCACABQXhqIQEgBUF+aiIFQQNKDQALCyAEIAQoAmQgDWs2AmQgCUEBaiEJIAwgCkcNAAwCCwsgBEGAgAQ2AmAgBEEAIAQoAuQBazYCZAsCQCAKQQFIDQAgAkECdCAEakF8aiEBIARBoAFqQQRyIQUgBEHgAGpBBHIhBiAEIQcgBCgCYCEIIAQoAqABIQkDQCAHQQAgCSAFKAIAIgxqIgkgBigCACINIAhrIghqazYCACABIAggCWs2AgAgAUF8aiEBIAVBBGohBSAGQQRqIQYgB0EEaiEHIA0hCCAMIQkgCkF/aiIKDQALCyAAIARBDEERIAIQ3ICAgAACQCAAIAIQxYCAgAANACACQf7///8HcSEHIAJBAXEhCkEAIQgDQCAEIAJBfiAIdEGAgARqEL6AgIAAAkAgAkEBSA0AQQAhBgJAIAJBAUYNAEEAIQYgBCEBIAAhBQNAIAUgASgCAEEEdkEBakEBdjsBACAFQQJqIAFBBGooAgBBBHZBAWpBAXY7AQAgBUEEaiEFIAFBCGohASAHIAZBAmoiBkcNAAsLIApFDQAgACAGQQF0aiAEIAZBAnRqKAIAQQR2QQFqQQF2OwEACyAAIAIQxYCAgAANASAIQQ9JIQEgCEEBaiEIIAENAAsLIARBwAJqJICAgIAAC5sKARJ/IAFBBGohAyACQX9qIgRBfnEhBSAEQQFxIQYgASACQQF0IgdqIghBemohCSAAIAdqQX5qIQpBACELIAJBAkghDAJAAkADQCAALgEAIAEuAQAiDWshDgJAAkAgDEUNAEEAIQ8MAQtBACEPQQEhBwJAIAJBAkYNACAAIRAgAyERA0AgEC4BACESIBBBAmohEyAQQQRqIhAuAQAgEy4BACITIBEuAQBqayIUIBMgEiARQX5qLgEAamsiEiAOIBIgDkgiEhsiDiAUIA5IIhMbIQ4gB0EBaiIUIAcgDyASGyATGyEPIAdBAmohByARQQRqIREgFCAFRw0ACwsgBkUNACAAIAdBAXQiEGoiES4BACARQX5qLgEAIAEgEGouAQBqayIQIA4gECAOSCIQGyEOIAcgDyAQGyEPC0GAgAIgCi4BACAILgEAIhBqayIHIA4gByAOSCIHG0F/Sg0BAkACQCACIA8gBxsiDw0AIAAgDTsBAAwBCwJAIA8gAkYNAAJAAkAgD0EBTg0AQQAhEAwBCyAPQQNxIRFBACEQQQAhDgJAIA9BBEkNACAPQfz///8HcSESQQAhECABIQdBACEOA0AgECAHLgEAaiAHQQJqLgEAaiAHQQRqLgEAaiAHQQZqLgEAaiEQIAdBCGohByASIA5BBGoiDkcNAAsLIBFFDQAgASAOQQF0aiEHA0AgECAHLgEAaiEQIAdBAmohByARQX9qIhENAAsLIBAgASAPQQF0IhRqIg0uAQBBAXUiE2ohEkGAgAIhEAJAIAIgD0wNACACIA9rIgdBA3EhEUGAgAIhECACIQ4CQCAPIAJrQXxLDQAgB0F8cSEPQYCAAiEQIAkhByACIQ4DQCAQIAdBBmouAQAgB0EEai4BAGogB0ECai4BAGogBy4BAGprIRAgB0F4aiEHIA5BfGohDiAPQXxqIg8NAAsLIBFFDQAgASAOQQF0aiEHA0AgECAHLgEAayEQIAdBfmohByARQX9qIhENAAsLIAAgFGoiEUF+aiIOIBIgECATayIHIBIgB0obIg8gES4BACAOLgEAaiIQQQF1IBBBAXFqIhAgEiAHIBIgB0gbIgcgECAHShsgECAPShsgE2siBzsBACARIAcgDS8BAGo7AQAMAQsgCkGAgH4gEGs7AQALIAtBAWoiC0EURw0ACyAAIAIQ1ICAgAAgACAALgEAIgcgAS4BACIQIAcgEEobOwEAIAJBAkgNASAAQQJqIQcgAUECaiEQIAAvAQAhESAEIQ4DQCAHIBAuAQAgEcFqIhFB//8BIBFB//8BSBsiESAHLgEAIg8gESAPShsiEUGAgH4gEUGAgH5KGyIROwEAIAdBAmohByAQQQJqIRAgDkF/aiIODQALIAogCi4BACIHQYCAAiAILgEAayIQIAcgEEgbOwEAIAJBfmoiECEHAkAgBEEBcUUNACAAIBBBAXRqIgcgBy4BACIHIAAgAkEBdEF+aiIRai4BACABIBFqLgEAayIRIAcgEUgbOwEAIAJBfWohBwsgEEUNACAHQQFqIREgASAHQQF0IgdqIRAgByAAakECaiEHA0AgB0F+aiIOIA4uAQAiDiAHLgEAIBBBAmouAQBrIg8gDiAPSBsiDjsBACAHQXxqIgcgBy4BACIPIA7BIBAuAQBrIg4gDyAOSBs7AQAgEEF8aiEQIBFBfmoiEQ0ACwsPCyAKIAouAQAiB0GAgAIgCC4BAGsiECAHIBBIGzsBAAukAgEGfyAAQYCACCABLgECIAEuAQAiA2siBEEBIARBAUobbiIEQYCACCADQQEgA0EBShtuaiIDQf//ASADQf//AUkbOwEAIAJBf2ohBQJAIAJBA0gNACAAQQJqIQMgAUEGaiECQQEhBgNAIANBgIAIIAJBfmoiBy4BACACQXxqLgEAayIIQQEgCEEBShtuIgggBGoiBEH//wEgBEH//wFJGzsBACADQQJqQYCACCACLgEAIAcuAQBrIgRBASAEQQFKG24iBCAIaiIHQf//ASAHQf//AUkbOwEAIANBBGohAyACQQRqIQIgBkECaiIGIAVIDQALCyAAIAVBAXQiAmpBgIAIQYCAAiABIAJqLgEAa24gBGoiAkH//wEgAkH//wFJGzsBAAuqBgECfwJAQawCRQ0AIABBAEGsAvwLAAsCQAJAAkAgA0UNAEF/IQMCQAJAIAFB//wASg0AIAFBwD5GDQEgAUHg3QBGDQEMBAsgAUGA/QBGDQAgAUGA9wJGDQAgAUHAuwFHDQMLAkAgAkHAPkYNACACQYD9AEYNACACQeDdAEcNAwsgAUEMdiABQYD9AEtrIAFBwLsBS3ZBA2wgAkEMdmpBh72AgABqIQMMAQtBfyEDAkAgAUHAPkYNACABQYD9AEYNACABQeDdAEcNAgsCQAJAIAJB//wASg0AIAJBwD5GDQEgAkHg3QBGDQEMAwsgAkGA/QBGDQAgAkGA9wJGDQAgAkHAuwFHDQILIAFBDHZBBWwgAkEMdiACQYD9AEtrIAJBwLsBS3ZqQZS9gIAAaiEDCyAAIAMsAAA2AqQCIAAgAkH//wNxQegHbjYCoAIgACABQf//A3FB6AduIgM2ApwCIAAgA0EKbDYCjAICQAJAIAIgAU0NAEEBIQMCQCACIAFBAXRHDQAgAEEBNgKIAkEAIQMMAgsgAEECNgKIAgwBCwJAIAIgAU8NACAAQQM2AogCAkAgAkECdCIDIAFBA2xHDQAgAEGwvYCAADYCqAIgAEKSgICAMDcClAJBACEDDAILAkAgAkEDbCIEIAFBAXRHDQAgAEHwvYCAADYCqAIgAEKSgICAIDcClAJBACEDDAILAkAgAkEBdCABRw0AIABBoL6AgAA2AqgCIABCmICAgBA3ApQCQQAhAwwCCwJAIAQgAUcNACAAQcC+gIAANgKoAiAAQqSAgIAQNwKUAkEAIQMMAgsCQCADIAFHDQAgAEHwvoCAADYCqAIgAEKkgICAEDcClAJBACEDDAILQX8hAyACQQZsIAFHDQIgAEGgv4CAADYCqAIgAEKkgICAEDcClAJBACEDDAELQQAhAyAAQQA2AogCCyABIAN0IQQgAkEPdkEBakEBdiEFIAEgA0EOcnQgAm5BAnQhAyACwSECA0AgAyIBQQFqIQMgAUEQdiACbCABIAVsaiABQf//A3EgAmxBEHVqIARIDQALIAAgATYCkAJBACEDCyADC+cCAQR/IABBqAFqIQQCQCAAKAKcAiAAKAKkAiIFayIGQQF0IgdFDQAgBCAFQQF0aiACIAf8CgAACyAAKAKcAiEFAkACQAJAAkACQCAAKAKIAkF/ag4DAAECAwsgACABIAQgBRDRgICAACAAIAEgACgCoAJBAXRqIAIgBkEBdGogAyAAKAKcAmsQ0YCAgAAMAwsgACABIAQgBRDPgICAACAAIAEgACgCoAJBAXRqIAIgBkEBdGogAyAAKAKcAmsQz4CAgAAMAgsgACABIAQgBRDOgICAACAAIAEgACgCoAJBAXRqIAIgBkEBdGogAyAAKAKcAmsQzoCAgAAMAQsCQCAFQQF0IgVFDQAgASAEIAX8CgAACyADIAAoApwCa0EBdCIFRQ0AIAEgACgCoAJBAXRqIAIgBkEBdGogBfwKAAALAkAgACgCpAIiAEEBdCIBRQ0AIAQgAiADIABrQQF0aiAB/AoAAAtBAAu7BAERfyOAgICAAEGQD2siBCSAgICAACAEIAApAgA3AwAgBCAAQQhqKQIANwMIIABBEGohBSAEQRBqIQZBCC4ByL+AgAAhB0EKLgHIv4CAACEIQQYuAci/gIAAIQlBBC4ByL+AgAAhCgNAIAUgBiACQci/gIAAIANB4AMgA0HgA0gbIgsQzYCAgAACQCADQQNIDQAgC0EDaiEMIAQoAgAhDSAGIQ4DQCABIA1B//8DcSAKbEEQdSANQRB1IApsaiAOQXRqKAIAIg1BEHUiDyAJbGogDUH//wNxIhAgCWxBEHVqIA5BeGooAgAiDUH//wNxIAhsQRB1IA1BEHUgCGxqIhFqIA5BfGooAgAiDUEQdSISIAdsaiANQf//A3EiEyAHbEEQdWpBBXVBAWpBAXUiFEGAgH4gFEGAgH5KGyIUQf//ASAUQf//AUgbOwEAIAFBAmogEyAJbEEQdSASIAlsaiAPIAdsaiARaiAQIAdsQRB1aiAOKAIAIg9BEHUgCmxqIA9B//8DcSAKbEEQdWpBBXVBAWpBAXUiD0GAgH4gD0GAgH5KGyIPQf//ASAPQf//AUgbOwEAIAFBBGohASAOQQxqIQ4gDEF9aiIMQQVKDQALCwJAIAMgC2siA0EBSA0AIAQgBCALQQJ0aiIOKQIANwMAIAQgDkEIaikCADcDCCACIAtBAXRqIQIMAQsLIAAgBCALQQJ0aiIOKQIANwIAIABBCGogDkEIaikCADcCACAEQZAPaiSAgICAAAvdAQEFfwJAIANBAXUiBEEBSA0AIAAoAgQhAyAAKAIAIQUDQCABIAIuAQBBCnQiBiAFayIFQf//A3FBgbd+bEEQdSAFQRB1QYG3fmxqIAZqIgYgA2ogAkECai4BAEEKdCIHIANrIgNB//8DcUGQzQBsQRB2IANBEHVBkM0AbGoiA2pBCnVBAWpBAXUiCEGAgH4gCEGAgH5KGyIIQf//ASAIQf//AUgbOwEAIAMgB2ohAyAGIAVqIQUgAkEEaiECIAFBAmohASAEQX9qIgQNAAsgACADNgIEIAAgBTYCAAsLkgEBBH8CQCAEQQFIDQAgACgCACEFIAMuAQIhBiADLgEAIQMDQCABIAIuAQBBCHQgBWoiBTYCACAAKAIEIQcgACAFQQJ0IgVB/P8DcSIIIAZsQRB1IAVBEHUiBSAGbGo2AgQgACAHIAUgA2xqIAggA2xBEHVqIgU2AgAgAkECaiECIAFBBGohASAEQX9qIgQNAAsLC88SARF/I4CAgIAAIgQhBSAAQRhqIQYgBCAAKAKUAiIHIAAoAowCIghqQQJ0QQ9qQXBxayIJJICAgIAAAkAgB0ECdCIERQ0AIAkgBiAE/AoAAAsgACgCqAIiBEEEaiEKIAAoApACIQsgBCEMA0AgACAJIAdBAnRqIAIgDCADIAggAyAISBsiDRDNgICAACANQRB0IQ4CQAJAAkACQCAAKAKUAiIPQW5qDhMCAwMDAwMBAwMDAwMDAwMDAwMAAwsgDkEBSA0CQQAhBwNAIAEgCSAHQRB1QQJ0aiIIKAKMASAIKAIAaiIMQf//A3EgBC4BBCIQbEEQdSAMQRB1IBBsaiAIKAKIASAIKAIEaiIMQRB1IAQuAQYiEGxqIAxB//8DcSAQbEEQdWogCCgChAEgCCgCCGoiDEEQdSAELgEIIhBsaiAMQf//A3EgEGxBEHVqIAgoAoABIAgoAgxqIgxBEHUgBC4BCiIQbGogDEH//wNxIBBsQRB1aiAIKAJ8IAgoAhBqIgxBEHUgBC4BDCIQbGogDEH//wNxIBBsQRB1aiAIKAJ4IAgoAhRqIgxBEHUgBC4BDiIQbGogDEH//wNxIBBsQRB1aiAIKAJ0IAgoAhhqIgxBEHUgBC4BECIQbGogDEH//wNxIBBsQRB1aiAIKAJwIAgoAhxqIgxBEHUgBC4BEiIQbGogDEH//wNxIBBsQRB1aiAIKAJsIAgoAiBqIgxBEHUgBC4BFCIQbGogDEH//wNxIBBsQRB1aiAIKAJoIAgoAiRqIgxBEHUgBC4BFiIQbGogDEH//wNxIBBsQRB1aiAIKAJkIAgoAihqIgxBEHUgBC4BGCIQbGogDEH//wNxIBBsQRB1aiAIKAJgIAgoAixqIgxBEHUgBC4BGiIQbGogDEH//wNxIBBsQRB1aiAIKAJcIAgoAjBqIgxBEHUgBC4BHCIQbGogDEH//wNxIBBsQRB1aiAIKAJYIAgoAjRqIgxBEHUgBC4BHiIQbGogDEH//wNxIBBsQRB1aiAIKAJUIAgoAjhqIgxBEHUgBC4BICIQbGogDEH//wNxIBBsQRB1aiAIKAJQIAgoAjxqIgxBEHUgBC4BIiIQbGogDEH//wNxIBBsQRB1aiAIKAJMIAgoAkBqIgxBEHUgBC4BJCIQbGogDEH//wNxIBBsQRB1aiAIKAJIIAgoAkRqIghBEHUgBC4BJiIMbGogCEH//wNxIAxsQRB1akEFdUEBakEBdSIIQYCAfiAIQYCAfkobIghB//8BIAhB//8BSBs7AQAgAUECaiEBIAcgC2oiByAOSA0ADAMLCyAOQQFIDQFBACEHA0AgASAJIAdBEHVBAnRqIggoAlwgCCgCAGoiDEH//wNxIAQuAQQiEGxBEHUgDEEQdSAQbGogCCgCWCAIKAIEaiIMQRB1IAQuAQYiEGxqIAxB//8DcSAQbEEQdWogCCgCVCAIKAIIaiIMQRB1IAQuAQgiEGxqIAxB//8DcSAQbEEQdWogCCgCUCAIKAIMaiIMQRB1IAQuAQoiEGxqIAxB//8DcSAQbEEQdWogCCgCTCAIKAIQaiIMQRB1IAQuAQwiEGxqIAxB//8DcSAQbEEQdWogCCgCSCAIKAIUaiIMQRB1IAQuAQ4iEGxqIAxB//8DcSAQbEEQdWogCCgCRCAIKAIYaiIMQRB1IAQuARAiEGxqIAxB//8DcSAQbEEQdWogCCgCQCAIKAIcaiIMQRB1IAQuARIiEGxqIAxB//8DcSAQbEEQdWogCCgCPCAIKAIgaiIMQRB1IAQuARQiEGxqIAxB//8DcSAQbEEQdWogCCgCOCAIKAIkaiIMQRB1IAQuARYiEGxqIAxB//8DcSAQbEEQdWogCCgCNCAIKAIoaiIMQRB1IAQuARgiEGxqIAxB//8DcSAQbEEQdWogCCgCMCAIKAIsaiIIQRB1IAQuARoiDGxqIAhB//8DcSAMbEEQdWpBBXVBAWpBAXUiCEGAgH4gCEGAgH5KGyIIQf//ASAIQf//AUgbOwEAIAFBAmohASAHIAtqIgcgDkgNAAwCCwsgDkEBSA0AIAAoApgCIhHBIRJBACEMA0AgASAJIAxBEHVBAnRqIggoAgAiEEH//wNxIAogDEH//wNxIBJsQRB1IhNBEmxqIgcuAQAiFGxBEHUgEEEQdSAUbGogCCgCBCIQQRB1IAcuAQIiFGxqIBBB//8DcSAUbEEQdWogCCgCCCIQQRB1IAcuAQQiFGxqIBBB//8DcSAUbEEQdWogCCgCDCIQQRB1IAcuAQYiFGxqIBBB//8DcSAUbEEQdWogCCgCECIQQRB1IAcuAQgiFGxqIBBB//8DcSAUbEEQdWogCCgCFCIQQRB1IAcuAQoiFGxqIBBB//8DcSAUbEEQdWogCCgCGCIQQRB1IAcuAQwiFGxqIBBB//8DcSAUbEEQdWogCCgCHCIQQRB1IAcuAQ4iFGxqIBBB//8DcSAUbEEQdWogCCgCICIQQRB1IAcuARAiB2xqIBBB//8DcSAHbEEQdWogCCgCRCIQQRB1IAogESATQX9zakESbGoiBy4BACITbGogEEH//wNxIBNsQRB1aiAIKAJAIhBBEHUgBy4BAiITbGogEEH//wNxIBNsQRB1aiAIKAI8IhBBEHUgBy4BBCITbGogEEH//wNxIBNsQRB1aiAIKAI4IhBBEHUgBy4BBiITbGogEEH//wNxIBNsQRB1aiAIKAI0IhBBEHUgBy4BCCITbGogEEH//wNxIBNsQRB1aiAIKAIwIhBBEHUgBy4BCiITbGogEEH//wNxIBNsQRB1aiAIKAIsIhBBEHUgBy4BDCITbGogEEH//wNxIBNsQRB1aiAIKAIoIhBBEHUgBy4BDiITbGogEEH//wNxIBNsQRB1aiAIKAIkIghBEHUgBy4BECIHbGogCEH//wNxIAdsQRB1akEFdUEBakEBdSIIQYCAfiAIQYCAfkobIghB//8BIAhB//8BSBs7AQAgAUECaiEBIAwgC2oiDCAOSA0ACwsCQCADIA1rIgNBAkgNAAJAIA9BAnQiCEUNACAJIAkgDUECdGogCPwKAAALIAIgDUEBdGohAiAAKAKoAiEMIAAoApQCIQcgACgCjAIhCAwBCwsCQCAPQQJ0IghFDQAgBiAJIA1BAnRqIAj8CgAACyAFJICAgIAAC9QDAQ1/I4CAgIAAIgQhBSAEIAAoAowCIgZBAnRBH2pBcHFrIgckgICAgAAgB0EIaiIIIABBIGopAgA3AgAgByAAKQIYNwIAIABBGGohCSAHQRBqIQogACgCkAIhCwNAIAAgCiACIAMgBiADIAZIGyIMENCAgIAAAkAgDEERdCINQQFIDQBBACEEA0AgAUHgv4CAACAEQf//A3FBDGxBEHYiDkEDdCIPaiIQLgECIAcgBEEQdUEBdGoiBi4BAmwgDy4B4L+AgAAgBi4BAGxqIBAuAQQgBi4BBGxqIBAuAQYgBi4BBmxqQeC/gIAAQQsgDmtBA3QiDmoiEC4BBiAGLgEIbGogEC4BBCAGLgEKbGogEC4BAiAGLgEMbGogDi4B4L+AgAAgBi4BDmxqQQ51QQFqQQF1IgZBgIB+IAZBgIB+ShsiBkH//wEgBkH//wFIGzsBACABQQJqIQEgBCALaiIEIA1IDQALCwJAIAMgDGsiA0EBSA0AIAcgByAMQQJ0aiIGKQIANwIAIAggBkEIaikCADcCACACIAxBAXRqIQIgACgCjAIhBgwBCwsgCSAHIAxBAnRqIgYpAgA3AgAgCUEIaiAGQQhqKQIANwIAIAUkgICAgAAL2QMBDH8CQCADQQFIDQAgACgCFCEEIAAoAhAhBSAAKAIMIQYgACgCCCEHIAAoAgQhCCAAKAIAIQkDQCABQQJqIAIuAQBBCnQiCiAGayILQf//A3FBxjVsQRB2IAtBEHVBxjVsaiILIAZqIgwgBWsiBkH//wNxQanJAWxBEHYgBkEQdUGpyQFsaiINIAVqIgYgBGsiBUH//wNxQfaxf2xBEHUgBUEQdUH2sX9saiAGaiIEQQl1QQFqQQF1IgZBgIB+IAZBgIB+ShsiBkH//wEgBkH//wFIGzsBACABIAogCWsiBkH//wNxQdINbEEQdiAGQRB1QdINbGoiDiAJaiIJIAhrIgZB//8DcUGK9QBsQRB2IAZBEHVBivUAbGoiDyAIaiIIIAdrIgZB//8DcUGrsX5sQRB1IAZBEHVBq7F+bGogCGoiCEEJdUEBakEBdSIHQYCAfiAHQYCAfkobIgdB//8BIAdB//8BSBs7AQAgBCAFaiEEIAggBmohByANIAxqIQUgDyAJaiEIIAsgCmohBiAOIApqIQkgAUEEaiEBIAJBAmohAiADQX9qIgMNAAsgACAENgIUIAAgBTYCECAAIAY2AgwgACAHNgIIIAAgCDYCBCAAIAk2AgALCxAAIAAgASACIAMQ0ICAgAALfAEBfwJAIABBf0oNAAJAIABBwX5PDQBBAA8LQQAgAGsiAEEDdkH8////AXEiASgCwMCAgAAgAS4B4MCAgAAgAEEfcWxrDwsCQCAAQb8BTQ0AQf//AQ8LIABBA3ZB/P///wFxIgEuAeDAgIAAIABBH3FsIAEoAoDBgIAAaguSBQELfwJAAkACQCADQQFIDQAgA0EHcSEEQQAhBQJAIANBCEkNACADQfj///8HcSEGQQAhBSABIQcDQCAHIAU2AgAgB0EcaiAFQQdqNgIAIAdBGGogBUEGajYCACAHQRRqIAVBBWo2AgAgB0EQaiAFQQRqNgIAIAdBDGogBUEDajYCACAHQQhqIAVBAmo2AgAgB0EEaiAFQQFqNgIAIAdBIGohByAFQQhqIgUgBkcNAAsLAkAgBEUNACABIAVBAnRqIQcDQCAHIAU2AgAgB0EEaiEHIAVBAWohBSAEQX9qIgQNAAsLIANBAUcNAQtBACEIDAELIAAhCSABIQpBAiELQQEhDANAIAAgDEECdGooAgAhDSAJIQUgCiEHIAshBAJAAkADQCANIAUoAgAiBk4NASAFQQRqIAY2AgAgB0EEaiAHKAIANgIAIAVBfGohBSAHQXxqIQcgBEF/aiIEQQFKDQALQQAhBQwBCyAEQX9qIQULIAAgBUECdCIFaiANNgIAIAEgBWogDDYCACAJQQRqIQkgCkEEaiEKQQEhCCALQQFqIQsgDEEBaiIMIANHDQALCwJAIAMgAk4NACADQX5qIQogACADQQJ0IgVBeGoiB2ohCyABIAdqIQ4gACAFakF8aiEJA0ACQCAAIANBAnRqKAIAIg0gCSgCAE4NACAKIQwCQCAIRQ0AIAshBSAOIQcgCiEEA0ACQCANIAUoAgAiBkgNACAEIQwMAgsgBUEEaiAGNgIAIAdBBGogBygCADYCACAFQXxqIQUgB0F8aiEHQX8hDCAEQQBKIQYgBEF/aiEEIAYNAAsLIAAgDEECdEEEaiIFaiANNgIAIAEgBWogAzYCAAsgA0EBaiIDIAJHDQALCwuYAQEHfwJAIAFBAkgNACAAIQJBAiEDQQEhBANAIAAgBEEBdGouAQAhBSACIQYgAyEHAkACQANAIAUgBi4BACIITg0BIAZBAmogCDsBACAGQX5qIQYgB0F/aiIHQQFKDQALQQAhBgwBCyAHQX9qIQYLIAAgBkEBdGogBTsBACACQQJqIQIgA0EBaiEDIARBAWoiBCABRw0ACwsLqQQBCH9BHyADZyIEayEFQQAhBiADIQcCQCADQQJIDQACQAJAIANBfmoiCEECTw0AQQAhCSADIQcMAQsgCEEBdkEBakF+cSEKQQAhCSACIQYgAyEHA0AgBkEGai4BACILIAtsIAZBBGouAQAiCyALbGogBXYgBkECai4BACILIAtsIAYuAQAiCyALbGogBXYgB2pqIQcgBkEIaiEGIAlBBGohCSAKQX5qIgoNAAsLAkAgCEECcQ0AIAIgCUEBdGoiBi4BAiIJIAlsIAYuAQAiBiAGbGogBXYgB2ohBwsgA0H+////B3EhBgsCQCAGIANODQAgAiAGQQF0ai4BACIGIAZsIAV2IAdqIQcLQQAhBkEiIAQgB2dqayIHQQAgB0EAShshBUEAIQcCQCADQQJIDQACQAJAIANBfmoiBEECTw0AQQAhB0EAIQkMAQsgBEEBdkEBakF+cSEKQQAhByACIQZBACEJA0AgBkEGai4BACILIAtsIAZBBGouAQAiCyALbGogBXYgBkECai4BACILIAtsIAYuAQAiCyALbGogBXYgB2pqIQcgBkEIaiEGIAlBBGohCSAKQX5qIgoNAAsLAkAgBEECcQ0AIAIgCUEBdGoiBi4BAiIJIAlsIAYuAQAiBiAGbGogBXYgB2ohBwsgA0H+////B3EhBgsCQCAGIANODQAgAiAGQQF0ai4BACIGIAZsIAV2IAdqIQcLIAEgBTYCACAAIAc2AgALhAIBBX8gAEGgqYCAAEEIEKuBgIAAIQIgAEHuqYCAAEEIEKuBgIAAIQMgAEH1qYCAAEEIEKuBgIAAIQQgAUGAqYCAACAAQe6pgIAAQQgQq4GAgAAgAiACQQVtIgVBe2xqQQNsakEBdGoiAi4BACIGIAJBAmouAQAgBmsiAkH//wNxQZozbCACQRB2QYCA6MwBbGpBEHUgAEH1qYCAAEEIEKuBgIAAQQF0QQFywWxqIgA2AgQgAUGAqYCAACADIAVBA2xqQQF0aiICQQJqLgEAIAIuAQAiAmsiA0H//wNxQZozbCADQRB2QYCA6MwBbGpBEHUgBEEBdEEBcsFsIAJqIABrNgIACxcAIAEgAEG5qYCAAEEIEKuBgIAANgIAC3QAIAAgASwAAkEFbCABLAAFakGgqYCAAEEIELKBgIAAIAAgASwAAEHuqYCAAEEIELKBgIAAIAAgASwAAUH1qYCAAEEIELKBgIAAIAAgASwAA0HuqYCAAEEIELKBgIAAIAAgASwABEH1qYCAAEEIELKBgIAACxQAIAAgAUG5qYCAAEEIELKBgIAAC5YKAQ1/I4CAgIAAQRBrIgYkgICAgAAgBkEEaiAGQQxqIAEgBBDVgICAACAGIAZBCGogAiAEENWAgIAAIAYgBigCACAGKAIMIgcgBigCCCIIIAcgCEobIglBAXEgCWoiCSAIa3U2AgAgBiAGKAIEIAkgB2t1IgdBASAHQQFKGzYCBCABIAIgCSAEEMGAgIAAIgIgAiACQR91IgRzIARrZyIIQX9qdCIHIAdB//8DcUH/////ASAGKAIEIgQgBCAEQR91IgFzIAFrZyIKQX9qdCILQRB1bcEiAWxBEHUgB0EQdSABbGoiB6wgC6x+Qh2Ip0F4cWsiC0EQdSABbCAHaiALQf//A3EgAWxBEHVqIQECQAJAIAggCmsiB0FvSg0AQf////8HQXAgB2siB3YiCCABQYCAgIB4IAd1IgogASAKShsgASAIShsgB3QhAQwBCyABIAdBEGoiB3VBACAHQSBJGyEBCyAFIAFBgIB/IAFBgIB/ShsiAUGAgAEgAUGAgAFIGyIBQf//A3EgAWxBEHUgAUEQdSABbGoiByAHQR91IghzIAhrIgggBSAIShshCyAJQQF1IQVBACEKIAMoAgAhCAJAAkAgBEEASg0AIAvBIglBACAIa0EQdWwhCwwBC0EYIARnIgprIQwgCkFoaiENIAQhCQJAIApBGEYiDg0AAkAgBEH/AEsNACAEQTggCmt2IAQgDXRyIQkMAQsgBCAKQQhqdCAEIAx2aiEJC0GAgAJBhukCIApBAXEbIApBAXZ2Ig9B1QFsIhAgCUH/AHFsQRB2IA9qIAV0IAhrQRB1IREgC8EhCSAEIRICQCAODQACQCAEQf8ASw0AIARBOCAKa3YgBCANdHIhEgwBCyAEIApBCGp0IAQgDHZqIRILIBEgCWwhCyAQIBJB/wBxbEEQdiAPaiEKCyADIAsgCGogCiAFdCAIa0H//wNxIAlsQRB1aiIKNgIAIAMoAgQhCAJAAkAgBigCACABIAJB//8DcWxBEHUgASACQRB1bGpBBHRrIAcgBEH//wNxbEEQdSAHIARBEHVsakEGdGoiBEEBTg0AQQAhAkEAIQQMAQtBGCAEZyICayEOIAJBaGohECAEIQsCQCACQRhGIg8NAAJAIARB/wBLDQAgBEE4IAJrdiAEIBB0ciELDAELIAQgAkEIanQgBCAOdmohCwtBgIACQYbpAiACQQFxGyACQQF2diIHQdUBbCISIAtB/wBxbEEQdiAHaiELAkAgDw0AAkAgBEH/AEsNACAEQTggAmt2IAQgEHRyIQQMAQsgBCACQQhqdCAEIA52aiEECyALIAV0IQIgEiAEQf8AcWxBEHYgB2ohBAsgAyACIAhrQRB1IAlsIAhqIAQgBXQgCGtB//8DcSAJbEEQdWoiBDYCBCAEIAQgBEEfdSIDcyADa2ciAkF/anQiAyADQf//A3FB/////wEgCkEBIApBAUobIgQgBGciCUF/anQiBUEQdW3BIgRsQRB1IANBEHUgBGxqIgOsIAWsfkIdiKdBeHFrIgVBEHUgBGwgA2ogBUH//wNxIARsQRB1aiEEAkACQCACIAlrIgNBcEoNAEH/////B0FxIANrIgN2IgIgBEGAgICAeCADdSIJIAQgCUobIAQgAkobIAN0IQQMAQsgBCADQQ9qIgN1QQAgA0EgSRshBAsgACAEQQAgBEEAShsiBEH//wEgBEH//wFIGzYCACAGQRBqJICAgIAAIAELyAMBDX9BACECQQEhA0EAIQQDQCABIARBA2xqIQUgACAEQQJ0aiEGQf////8HIQdBgKmAgAAhBEEAIQgCQANAAkAgBigCACAEQQJqIgkuAQAgBC4BACIEayIKQf//A3FBmjNsIApBEHZBgIDozAFsakEQdSIKIARqIgtrIgwgDEEfdSIMcyAMayIMIAdJDQAgBS0AACEIDAILIAVBADoAASAFIAg6AAACQCAGKAIAIApBA2wgBGoiAmsiByAHQR91IgdzIAdrIgcgDEkNACALIQIMAgsgBUEBOgABIAYoAgAgCkEFbCAEaiINayIMIAxBH3UiDHMgDGsiDCAHTw0BIAVBAjoAAQJAIAYoAgAgCkEHbCAEaiIOayICIAJBH3UiAnMgAmsiCyAMSQ0AIA0hAgwCCyAFQQM6AAECQCAGKAIAIApBCWwgBGoiAmsiBCAEQR91IgRzIARrIgcgC0kNACAOIQIMAgsgBUEEOgABIAkhBCAIQQFqIghBD0cNAAtBDiEICyAFIAjAQQNtIgQ6AAIgBSAEQX1sIAhqOgAAIAYgAjYCAEEBIQQgA0EBcSEFQQAhAyAFDQALIAAgACgCACAAKAIEazYCAAvEBgEKfyAEQf7///8HcSEFIARBAXEhBiAEQX9qIQcgAyACayIIQX9qIQlBACEKQQAhCwJAAkADQAJAAkAgBEEBTg0AQQAhDAwBC0EAIQICQAJAIAcNAEEAIQwMAQsgASEDQQAhDANAIANBBGooAgAiDSANQR91Ig1zIA1rIg0gAygCACIOIA5BH3UiDnMgDmsiDiAMIA4gDEsiDhsiDCANIAxLIg0bIQwgAkEBaiACIAsgDhsgDRshCyADQQhqIQMgAkECaiICIAVHDQALCyAGRQ0AIAEgAkECdGooAgAiAyADQR91IgNzIANrIgMgDCADIAxLIgMbIQwgAiALIAMbIQsLAkACQCAIQQFHDQAgDEEBdiAMQQFxaiECDAELIAwgCXZBAWpBAXYhAgsCQCACQYCAAkkNACABIARBvv8DIAJB/v8JIAJB/v8JSRsiAkEOdEGAgIGAfmogAiALQQFqbEECdm5rEL6AgIAAIApBAWoiCkEKRw0BDAILCyAKQQpGDQAgBEEBSA0BIARBAXEhBQJAAkAgBw0AQQAhCwwBCyAEQf7///8HcSENQQAhCyAIQQFHIQ4gACECIAEhAwNAIAMoAgAhDAJAAkAgDg0AIAxBAXUgDEEBcWohDAwBCyAMIAl1QQFqQQF1IQwLIAIgDDsBACADQQRqKAIAIQwCQAJAIAhBAUYNACAMIAl1QQFqQQF1IQwMAQsgDEEBdSAMQQFxaiEMCyACQQJqIAw7AQAgAkEEaiECIANBCGohAyANIAtBAmoiC0cNAAsLIAVFDQEgASALQQJ0aigCACECAkACQCAIQQFGDQAgAiAJdUEBakEBdSECDAELIAJBAXUgAkEBcWohAgsgACALQQF0aiACOwEADAELIARBAUgNACAIQQFHIQMDQCABKAIAIQICQAJAIAMNACACQQF1IAJBAXFqIgJBgIB+IAJBgIB+ShsiAkH//wEgAkH//wFIGyECDAELAkAgAiAJdSICQf7/A0wNAEH//wEhAgwBCwJAIAJB//97Tg0AQYCAfiECDAELIAJBAWpBAXUhAgsgACACOwEAIAEgAiAIdDYCACAAQQJqIQAgAUEEaiEBIARBf2oiBA0ACwsL3AECA30DfwJAIANBAUgNAEPbD0lAIANBAWqylSIEQwAAAEAgBCAElJMiBUMAAAA/lCACQQJIIgIbIQRDAAAAAEMAAIA/IAIbIQZBACECQQAhBwNAIAAgAmoiCCAGIASSIAEgAmoiCSoCAEMAAAA/lJQ4AgAgCEEEaiAEIAlBBGoqAgCUOAIAIAhBCGogBCAFIASUIAaTIgaSIAlBCGoqAgBDAAAAP5SUOAIAIAhBDGogBiAJQQxqKgIAlDgCACACQRBqIQIgBSAGlCAEkyEEIAdBBGoiByADSA0ACwsLRQACQCADQQFIDQAgA0ECdCAAakF8aiEAA0AgBCAAIAEgAhD2gICAALY4AgAgBEEEaiEEIABBfGohACADQX9qIgMNAAsLC+QDBQN/AXwEfwF9C38gAyAAIAJBAnQiBGoiBUF8aiIGIAEQ9YCAgAAiB7Y4AgACQCACQQJIDQAgAUECdCEIIAMgBEEEaiIJaiEKIAVBeGohBEEBIQsDQCAKIAcgBCoCACIMIAyUIAQgCGoqAgAiDCAMlJO7oCIHtjgCACAKIAlqIQogBEF8aiEEIAIgC0EBaiILRw0ACyAAQXhqIg0gAUECdCIEaiEOIABBdGoiDyAEaiEQIANBCGohESAFQXhqIRIgAkECdCIEQQRqIRMgAkEDdCADakEEaiEUIAIhFUEBIRYDQCADIBYgAmxBAnRqIAYgEiABEPaAgIAAIge2Igw4AgAgAyAWQQJ0aiAMOAIAAkAgAiAWa0ECSA0AQQIhFyANIQogDyELIA4hCCAQIQkgFCEAIBEhBQNAIAAgByAKIARqKgIAIAsgBGoqAgCUIAggBGoqAgAgCSAEaioCAJSTu6AiB7YiDDgCACAFIARqIAw4AgAgCkF8aiEKIAtBfGohCyAIQXxqIQggCUF8aiEJIAAgE2ohACAFIBNqIQUgFSAXQQFqIhdHDQALCyAVQX9qIRUgD0F8aiEPIBBBfGohECAUIARqIRQgEUEEaiERIBJBfGohEiAWQQFqIhYgAkcNAAsLC60BAQF/IAAgAEHqJ2oQqICAgAAaIAAoArQjIQICQAJAAkACQCABDQAgAkENSA0BIABBDDYCtCMMAQsgAkEMSg0BC0EAIQEgAEEAOgCdJSAAIAAoAsQvIgJBAWo2AsQvAkAgAkEKSA0AIAJBHkkNAiAAQQo2AsQvC0EAIQEgAEEANgLALwwBCyAAQgA3AsAvQQEhASAAQQE6AJ0lCyAAIAAoAvQsakHwJGogAToAAAv7HQQtfwF+AX0BfyOAgICAAEGQ6gBrIgYkgICAgAAgBkIANwMoIAZCADcDICAAIAAoAowkIgdBA3E6AKIlIAAgB0EBajYCjCQgACgC8CMhCCAAQRBqIABB6idqIAAoAugjEJuAgIAAIABBjDhqIgkgCEECdCIKaiILIAAoAuAjQRRsIgxqIQ0CQCAAKALoIyIOQQFIDQAgDiEPAkAgDkEDcSIQRQ0AIAwgCEECdGogDkECdGogAGpBiDhqIQcgDkF8cSEPIA5BAXQgAGpB6CdqIREDQCAHIBEuAQCyOAIAIBFBfmohESAHQXxqIQcgEEF/aiIQDQALCyAOQQRJDQAgDCAPQQJ0aiAIQQJ0aiEQIA9BAWohDCAPQQF0IQgDQCAAIBBqIgdBiDhqIAAgCGoiEUHoJ2ouAQCyOAIAIAdBhDhqIBFB5idqLgEAsjgCACAHQYA4aiARQeQnai4BALI4AgAgB0H8N2ogEUHiJ2ouAQCyOAIAIAhBeGohCCAQQXBqIRAgDEF8aiIMQQFLDQALCyANIA0qAgBDvTeGNZI4AgAgDSAOQQN1IgdBAnRqIhEgESoCAEO9N4Y1kjgCACANIA5BeHFqIhEgESoCAEO9N4a1kjgCACANIAdBDGxqIhEgESoCAEO9N4a1kjgCACANIAdBBHRqIhEgESoCAEO9N4Y1kjgCACANIAdBFGxqIhEgESoCAEO9N4Y1kjgCACANIAdBGGxqIhEgESoCAEO9N4a1kjgCACANIAdBHGxqIgcgByoCAEO9N4a1kjgCAAJAIAAoAsgkDQAgAEGAJWohEiAAIAZBpMIAaiAGQaAtaiALIAAoAuQnEOSAgIAAIAAgBkGkwgBqIAZBoC1qIApqIgcgCxDpgICAACAAIAZBpMIAaiAHIAsgAxDlgICAACAAIAZBpMIAaiADEOqAgIAAAkAgACgCzC9FDQAgACgCtCNBzgBIDQAgACAAKAL0LCIHQSRsakHUL2ohDiAAQfQkaiIRIAdBAnRqQQE2AgACQEGAIkUNACAGQZDIAGogAEGUAWpBgCL8CgAACyAOQSBqIBJBIGooAQA2AQAgDkEYaiASQRhqKQEANwEAIA5BEGogEkEQaikBADcBACAOQQhqIBJBCGopAQA3AQAgDiASKQEANwEAAkAgACgC5CMiB0ECdCIQRQ0AIAZBMGogBkGkwgBqIBD8CgAACwJAAkAgACgC9CwiEEUNACAQQQJ0IBFqQXxqKAIADQELIAAgAC0AgDg6ALwjIA4gDi0AACAALQDQL2rAIhFBPyARQT9IGzoAAAsgBkHACmogDiAAQbwjaiADQQJGIAcQmICAgAACQCAAKALkIyIHQQFIDQAgB0EDcSEIQQAhDAJAIAdBBEkNACAHQfz///8HcSENQQAhB0EAIQwDQCAGQaTCAGogB2oiESAGQcAKaiAHaiIQKAIAskMAAIA3lDgCACARQQRqIBBBBGooAgCyQwAAgDeUOAIAIBFBCGogEEEIaigCALJDAACAN5Q4AgAgEUEMaiAQQQxqKAIAskMAAIA3lDgCACAHQRBqIQcgDSAMQQRqIgxHDQALCyAIRQ0AIAZBwApqIAxBAnQiEWohByAGQaTCAGogEWohEQNAIBEgBygCALJDAACAN5Q4AgAgB0EEaiEHIBFBBGohESAIQX9qIggNAAsLIAAgBkGkwgBqIA4gBkGQyABqIAAgACgC9CxBwAJsakHAMGogCxDwgICAACAAKALkI0ECdCIHRQ0AIAZBpMIAaiAGQTBqIAf8CgAACyASIAAoAuQjEJmAgIAAIRMgBkHwLGpBKGoiFCACQShqIhUpAgA3AwAgBkHwLGpBIGoiFiACQSBqIhcpAgA3AwAgBkHwLGpBGGoiGCACQRhqIhkpAgA3AwAgBkHwLGpBEGoiGiACQRBqIhspAgA3AwAgBkHwLGpBCGoiHCACQQhqIh0pAgA3AwAgBiACKQIANwPwLCAAQZQBaiEeAkBBgCJFIh8NACAGQZDIAGogHkGAIvwKAAALIANBAkYhICAEQXtqISEgAEGAOGohIiACQRxqISMgAEGkJWohDCAGQfzHAGohJCAAKAKILSElIAAvAYwtISYgAC0AoiUhJ0GAAiEKQQAhKEEAISlBACEqQQAhK0EAISxBACEtQX8hLkF/IS9BACEwQQAhMQNAAkACQCATIC5GIhFFDQAgKiEHDAELAkAgEyAvRw0AICshBwwBCwJAIDBFDQAgAiAGKQPwLDcCACAVIBQpAwA3AgAgFyAWKQMANwIAIBkgGCkDADcCACAbIBopAwA3AgAgHSAcKQMANwIAAkAgHw0AIB4gBkGQyABqQYAi/AoAAAsgACAmOwGMLSAAICc6AKIlIAAgJTYCiC0LIAAgBkGkwgBqIBIgHiAMIAsQ8ICAgAACQCAoRSAwQQZGcSIQQQFHDQAgBkHYLGpBEGogGykCADcDACAGQdgsakEIaiAdKQIANwMAIAZBwCxqQQhqICNBCGopAgA3AwAgBkHALGpBEGogI0EQaigCADYCACAGIAIpAgA3A9gsIAYgIykCADcDwCwgAigCGCEyCyAAIAIgACgC9CxBACADEJWAgIAAIAIgACwAnSUgACwAniUgDCAAKALoIxCWgICAAAJAIBAgAigCFCACKAIcZ2pBYGoiByAESnFBAUcNACACIAYpA9gsNwIAIAIgMjYCGCAjIAYpA8AsNwIAIBsgBkHYLGpBEGopAwA3AgAgHSAGQdgsakEIaikDADcCACAjQQhqIAZBwCxqQQhqKQMANwIAICNBEGogBkHALGpBEGooAgA2AgAgACAGLQCMSCIQOgCAOAJAIAAoAuQjIgdBAUgNACAHRQ0AIBJBBCAH/AsACwJAICANACASIBA6AAALIAAgJTYCiC0gACAmOwGMLQJAIAAoAugjIgdBAUgNACAHRQ0AIAxBACAH/AsACyAAIAIgACgC9CxBACADEJWAgIAAIAIgACwAnSUgACwAniUgDCAAKALoIxCWgICAACACKAIUIAIoAhxnakFgaiEHCyAwIAVyDQAgByAETA0CCwJAIDBBBkcNACAoRQ0CIBEgByAESnJFDQIgAiAGKQPYLCIzNwIAIAIgMjYCGCAjIAYpA8AsNwIAIAJBEGogBkHYLGpBEGopAwA3AgAgAkEIaiAGQdgsakEIaikDADcCACAjQQhqIAZBwCxqQQhqKQMANwIAICNBEGogBkHALGpBEGooAgA2AgACQCAyRQ0AIDOnIAZBMGogMvwKAAALAkBBgCJFDQAgHiAGQcAKakGAIvwKAAALICIgMToAAAwCCwJAAkACQAJAAkACQAJAAkACQCAHIARMDQAgKA0BIDBBAkkNAUEAISkgAEEAOgCeJSAGIAYqAthHQwAAwD+UIjRDAADAPyA0QwAAwD9eGzgC2EdBfyETDAILIAcgIU4NCQJAIBENACAGQdgsakEQaiAbKQIANwMAIAZB2CxqQQhqIB0pAgA3AwAgBkHALGpBCGogI0EIaikCADcDACAGQcAsakEQaiAjQRBqKAIANgIAIAYgAikCADcD2CwgBiAjKQIANwPALAJAIAIoAhgiMkUNACAGQTBqIAIoAgAgMvwKAAALAkAgHw0AIAZBwApqIB5BgCL8CgAACyAiLQAAITELIArBISxBASEoIClFDQQgByEqIBMhLgwDCyAKwSEtQQEhKSAoDQEgByErCyAAKALkIyI1QQFIDQMgACgC7CMhD0EAIQ0DQCANQQFqIQ5BACERAkAgD0EBSA0AIA8gDmwhCCAPIA1sIQdBACERA0AgESAMIAdqLAAAIhAgEEEfdSIQcyAQa2ohESAHQQFqIgcgCEgNAAsLAkACQAJAIDBFDQAgESAGIA1BAnQiB2ooAgBODQEgBkEgaiAHaigCAA0BCyAGQRhqIA1BAXRqIAo7AQAgBiANQQJ0aiARNgIADAELIAZBIGogB2pBATYCAAsgDiENIA4gNUYNBAwACwsgEyEvIAchKyAoQQFxRQ0DIAchKyATIS8LIC0gLGsiByAEICprbCArICprbSAsaiIRwSIQIAdBAnUiByAsaiIKSg0DIC0gB2siByARIBAgB0gbIQoMAwsgByAEa0EHdCAAKALoI21BgBBqEMOAgIAAIhFB//8DcSAsbEEQdiARQRB2ICxsaiEKQQAhKUEBISggByEqIBMhLgwCCyATIS8LIApBAXRB//8BIArBQYCAAUgbIQoLAkAgACgC5CMiNUEBSA0AIAZBsApqIQcgBkEYaiENIAZBIGohESAkIRAgNSEOA0AgCiEIAkAgESgCAEUNACANLwEAIQgLIAdBgP7//wcgECgCACIPQf//A3EgCMEiCGxBEHUgD0EQdSAIbGoiCEGAgIB8IAhBgICAfEobQQh0IAhB////A0obNgIAIBFBBGohESANQQJqIQ0gEEEEaiEQIAdBBGohByAOQX9qIg4NAAsLIAAgBi0AjEg6AIA4IBIgBkGwCmogIiAgIDUQl4CAgAAgEiAAKALkIxCZgICAACETAkAgACgC5CMiB0EBSA0AIAdBA3EhCEEAIQ0CQCAHQQRJDQAgB0H8////B3EhDkEAIQdBACENA0AgBkGkwgBqIAdqIhEgBkGwCmogB2oiECgCALJDAACAN5Q4AgAgEUEEaiAQQQRqKAIAskMAAIA3lDgCACARQQhqIBBBCGooAgCyQwAAgDeUOAIAIBFBDGogEEEMaigCALJDAACAN5Q4AgAgB0EQaiEHIA4gDUEEaiINRw0ACwsgCEUNACAGQbAKaiANQQJ0IhFqIQcgBkGkwgBqIBFqIREDQCARIAcoAgCyQwAAgDeUOAIAIAdBBGohByARQQRqIREgCEF/aiIIDQALCyAwQQFqITAMAAsLAkAgACgC4CNBBWwgACgC8CNqQQJ0IgdFDQAgCSAJIAAoAugjQQJ0aiAH/AoAAAtBACEHAkAgACgCyCQNACAAQQA2ArgkIAAgAC0AnSU6AL0jIAAgACgC5CNBAnQgBkGkwgBqakHgAWooAgA2AsAjIAIoAhQgAigCHGdqQWdqQQN1IQcLIAEgBzYCACAGQZDqAGokgICAgABBAAu3AwUDfwF9A38BfQF/I4CAgIAAQaANayIEJICAgIAAIABBBDoAnyUgBEHgDGogAiADIAAoAqAkIgUgACgC7CNqIgYgACgC5CMgBRDzgICAACEHAkAgACgCmCRFDQAgACgCuCQNACAAKALkI0EERw0AQQMhBSAEQYAMaiACIAZBA3RqIAMgBkECIAAoAqAkEPOAgIAAIQMgASAEQYAMaiAAKAKgJBDtgICAACAAQZQjaiEIIAZBAXQhCSAHIAOTIQcgBCAGQQJ0aiEKQ///f38hCwNAIARBwAxqIAggASAFIAAoAqAkEJqAgIAAIARBgAxqIARBwAxqIAAoAqAkIAAoAuQnEO6AgIAAIAQgBEGADGogAiAJIAAoAqAkEOaAgIAAAkACQCAHIAQgACgCoCQiDEECdGogBiAMaxD1gICAACAKIAAoAqAkIgxBAnRqIAYgDGsQ9YCAgACgtiIDXkUNACAAIAU6AJ8lIAMhBwwBCyALIANdDQILIAMhCyAFQX9qIgVBf0cNAAsLAkAgAC0AnyVBBEcNACABIARB4AxqIAAoAqAkEO2AgIAACyAEQaANaiSAgICAAAvBAQIDfwJ9AkAgBUEBSA0AIARBAnQhBiAEQQVqIQcDQCACIAMoAgBBAnRrQXhqIgggBEEFIAAQ34CAgAAgCCACIARBBSABEN6AgIAAIABDAACAPyACIAcQ9YCAgAC2IgkgACoCACAAQeAAaioCAJJDj8J1PJRDAACAP5IiCiAKIAldG5UiCUEZEPqAgIAAIAEgCUEFEPqAgIAAIABB5ABqIQAgA0EEaiEDIAIgBmohAiABQRRqIQEgBUF/aiIFDQALCwvmBAIIfwF9I4CAgIAAQdANayIFJICAgIAAIAAoAvAjIQYgBSADIAAoAugjIAAoAvQjIgdqIghBAnRqIAAoAsQjQQJ0ayIJQQEgBxDdgICAACAJIAAoAvQjIgdBAnQiCmohCSAFIApqIQoCQCAAKALEIyILQQJ0IAdBA3RrIgxFDQAgCiAJIAz8CgAACyAKIAsgB0EBdGtBAnQiC2ogCSALakECIAcQ3YCAgAAgBUGADWogBSAAKALEIyAAKAKoJEEBahDygICAACAFIAUqAoANIg0gDUNvEoM6lEMAAIA/kpI4AoANIAVBgAxqIAVBgA1qIAAoAqgkEPuAgIAAIQ0gASAFKgKADSANQwAAgD8gDUMAAIA/XhuVOALABSAFQcAMaiAFQYAMaiAAKAKoJBD3gICAACAFQcAMaiAAKAKoJEOkcH0/EPSAgIAAIAIgBUHADGogAyAGQQJ0ayAIIAZqIAAoAqgkEOaAgIAAAkACQCAALQCdJUUNACAAKAK4JA0AAkAgAiABQeQBaiAAQZolaiAAQZwlaiAAQczOAGogACgCwCMgACgCrCSyQwAAgDeUIAAoAugkskPNzMy9lEMAAAA4lCAALAC9I0EBdbJDmpkZvpQgACgCtCOyQ83MzL2UQwAAgDuUIAAoAqgkskNvEoO7lEOamRk/kpKSkiAAKALgIyAAKAKkJCAAKALkIyAEEPiAgIAADQAgAEECOgCdJQwCCyAAQQE6AJ0lDAELIAFCADcC5AEgAUHsAWpCADcCACAAQQA2AsxOIABBADoAnCUgAEEAOwGaJQsgBUHQDWokgICAgAALkgYCB38BfSOAgICAAEGQEGsiBSSAgICAAAJAAkACQAJAIAAoAuQjIgZBAUgNACAGQQFxIQdBACEIAkAgBkEBRg0AIAZB/v///wdxIQlBACEIIAVBoAxqIQogASELA0AgCkMAAIA/IAsqAgCVOAIAIApBBGpDAACAPyALQQRqKgIAlTgCACAKQQhqIQogC0EIaiELIAkgCEECaiIIRw0ACwsCQCAHRQ0AIAVBoAxqIAhBAnQiCmpDAACAPyABIApqKgIAlTgCAAsgAC0AnSVBAkYNASADIAAoAqAkIglBAnRrIQogACgC7CMhA0EAIQQgBSELIAVBoAxqIQgDQCALIAogCCoCACAJIANqEPmAgIAAIAsgACgC7CMiA0ECdCIGaiAAKAKgJCIJQQJ0aiELIAhBBGohCCAKIAZqIQogBEEBaiIEIAAoAuQjIgZIDQAMAwsLIAAtAJ0lQQJHDQELIAVBgA1qIAVBsAxqIAIgAUHkAWoiCiAAKALsIyAGEOOAgIAAIAFBkAFqIgsgAEGEJWogAEGgJWogAEGwJGogAUHEBWogBUGADWogBUGwDGogACgC7CMgACgC5CMgACgC5CcQ8YCAgAAgACABIAQQ6ICAgAAgBSADIAAoAqAkIghBAnRrIAsgCiAFQaAMaiAAKALsIyAAKALkIyAIEOeAgIAADAELAkAgBkEUbCIKRQ0AIAFBkAFqQQAgCvwLAAsgAEEANgKwJCABQQA2AsQFC0MK1yM8IQwCQCAAKAK4JA0AIAEqArwFIQwgASoCxAVDAABAQJW7ELWCgIAAtkMAQBxGlSAMQwAAQD+UQwAAgD6SlSEMCyAAIAVBgAxqIAUgDBDigICAACAAIAFBEGoiCiAFQYAMaiAAQZQjahDvgICAACABQcgFaiAFIAogASAAKALsIyAAKALkIyAAKAKgJBDrgICAACAAQawjaiAFQZgMaikDADcCACAAQaQjaiAFQYAMakEQaikDADcCACAAQZwjaiAFKQOIDDcCACAAIAUpA4AMNwKUIyAFQZAQaiSAgICAAAuLCQEDfwJAAkACQAJAAkACQCAEQXpqDgsABQEFAgUDBQUFBAULIANBB0gNBCAAQRhqIQUgA0F6aiEGQQAhBwNAIAUgB2ogAiAHaiIDQRhqKgIAIAMqAgAgASoCFJQgA0EEaioCACABKgIQlCADQQhqKgIAIAEqAgyUIANBDGoqAgAgASoCCJQgA0EUaioCACABKgIAlCADQRBqKgIAIAEqAgSUkpKSkpKTOAIAIAdBBGohByAGQX9qIgYNAAwFCwsgA0EJSA0DIABBIGohBSADQXhqIQZBACEHA0AgBSAHaiACIAdqIgNBIGoqAgAgAyoCACABKgIclCADQQRqKgIAIAEqAhiUIANBCGoqAgAgASoCFJQgA0EMaioCACABKgIQlCADQRBqKgIAIAEqAgyUIANBFGoqAgAgASoCCJQgA0EcaioCACABKgIAlCADQRhqKgIAIAEqAgSUkpKSkpKSkpM4AgAgB0EEaiEHIAZBf2oiBg0ADAQLCyADQQtIDQIgAEEoaiEFIANBdmohBkEAIQcDQCAFIAdqIAIgB2oiA0EoaioCACADKgIAIAEqAiSUIANBBGoqAgAgASoCIJQgA0EIaioCACABKgIclCADQQxqKgIAIAEqAhiUIANBEGoqAgAgASoCFJQgA0EUaioCACABKgIQlCADQRhqKgIAIAEqAgyUIANBHGoqAgAgASoCCJQgA0EkaioCACABKgIAlCADQSBqKgIAIAEqAgSUkpKSkpKSkpKSkzgCACAHQQRqIQcgBkF/aiIGDQAMAwsLIANBDUgNASAAQTBqIQUgA0F0aiEGQQAhBwNAIAUgB2ogAiAHaiIDQTBqKgIAIAMqAgAgASoCLJQgA0EEaioCACABKgIolCADQQhqKgIAIAEqAiSUIANBDGoqAgAgASoCIJQgA0EQaioCACABKgIclCADQRRqKgIAIAEqAhiUIANBGGoqAgAgASoCFJQgA0EcaioCACABKgIQlCADQSBqKgIAIAEqAgyUIANBJGoqAgAgASoCCJQgA0EsaioCACABKgIAlCADQShqKgIAIAEqAgSUkpKSkpKSkpKSkpKTOAIAIAdBBGohByAGQX9qIgYNAAwCCwsgA0ERSA0AIABBwABqIQUgA0FwaiEGQQAhBwNAIAUgB2ogAiAHaiIDQcAAaioCACADKgIAIAEqAjyUIANBBGoqAgAgASoCOJQgA0EIaioCACABKgI0lCADQQxqKgIAIAEqAjCUIANBEGoqAgAgASoCLJQgA0EUaioCACABKgIolCADQRhqKgIAIAEqAiSUIANBHGoqAgAgASoCIJQgA0EgaioCACABKgIclCADQSRqKgIAIAEqAhiUIANBKGoqAgAgASoCFJQgA0EsaioCACABKgIQlCADQTBqKgIAIAEqAgyUIANBNGoqAgAgASoCCJQgA0E8aioCACABKgIAlCADQThqKgIAIAEqAgSUkpKSkpKSkpKSkpKSkpKSkzgCACAHQQRqIQcgBkF/aiIGDQALCwJAIARBAnQiAUUNACAAQQAgAfwLAAsLxgIHBX8BfQF/BX0BfwF9AX8CQCAGQQFIDQAgBUECdCEIIAcgBWoiCUECdCEKQQAhCyAJQQFIIQwDQAJAIAwNACAEIAtBAnQiBWoqAgAhDSABIAMgBWooAgBBAnRrIQ4gAiALQRRsaiIFKgIQjCEPIAUqAgyMIRAgBSoCCIwhESAFKgIEjCESIAUqAgCMIRNBACEHIAkhFANAIAAgB2oiBSABIAdqKgIAIhU4AgAgBSAVIBMgDiAHaiIWQQhqKgIAlJIiFTgCACAFIBIgFkEEaioCAJQgFZIiFTgCACAFIBEgFioCAJQgFZIiFTgCACAFIBAgFkF8aioCAJQgFZIiFTgCACAFIA0gDyAWQXhqKgIAlCAVkpQ4AgAgB0EEaiEHIBRBf2oiFA0ACwsgASAIaiEBIAAgCmohACALQQFqIgsgBkcNAAsLC3cBAX0CQAJAIAINAAJAIAEqAsQFIAAoAvAsIAAoAogkarKUQ83MzD2UIgNDAAAAQF5FDQBBAiECDAILIANDAAAAAF0NACAD/AAhAgwBC0EAIQILIAAgAjoAoSUgAUHoqYCAACACQQF0ai4BALJDAACAOJQ4AuABC88fDAF/BH0BfwJ9BX8BfQF/AX0DfwN9EX8BfCOAgICAAEGgCWsiBCSAgICAACABIAAoAtwkIAAoAtgkarJDAAAAP5RDAAAAOJQiBTgCuAUgAUQAAAAAAADwPyAAKALsJLIiBkMAAAA8lCIHQwAAoMGSQwAAgL6UuxCzgoCAAEQAAAAAAADwP6CjtiIIOAK8BQJAIAAoAsQkDQAgByAFQwAAAD+UQwAAAD+SIAggCJKUIAAoArQjskMAAIC7lEMAAIA/kiIIlCAIlJMhBwsgACgC+CMhCQJAAkAgAC0AnSVBAkcNACAAQQA6AJ4lIAAqAsxOIgUgBZIgB5IhCgwBCyAGQ83MzL6UQwAAADyUQwAAwECSQwAAgD8gBZOUIQsgAC4B5CMiDEEFbEECbSENAkACQCAMQQFODQBDAAAAACEFDAELIA1Bf2ohDiACIAAoAuAjIg9BA3QiEGohDCAPQQF0Ig+yIhEgAiAPEPWAgIAAtpK7ELqCgIAARGyjeQlPkwpAorYhCEMAAAAAIQUDQCAFIBEgDCAPEPWAgIAAtpK7ELqCgIAARGyjeQlPkwpAorYiBiAIk4uSIQUgDCAQaiEMIAYhCCAOQX9qIg4NAAsLIAsgB5IhCgJAIAUgDUF/arJDmpkZP5ReRQ0AIABBADoAniUMAQsgAEEBOgCeJQsCQAJAIAAoAuQjIg5BAU4NAEEAIQIMAQsgAyAJQQJ0ayESQ9ejcD8gASoCwAVDbxKDOpQiBSAFlEMAAIA/kpUhEyABQYACaiEUIAFB6AFqIRUgAUHsAWohFkMAAIA/IAEqArwFQwrXIzyUIAAoAsAkskMAAIA3lJIiFyAXlJMhGCAXjCEZQQAhGiABQfQBaiIbIRwDQCAEQeABaiASQQEgACgC/CMgACgC4CMiDkEDbCIPa0ECbSIMEN2AgIAAAkAgDkEMbCIORQ0AIARB4AFqIAxBAnQiEGogEiAQaiAO/AoAAAsgBEHgAWogDCAPakECdCIOaiASIA5qQQIgDBDdgICAACAAKALsIyECIAAoApwkIQwgACgC/CMhDgJAAkAgACgCwCRBAUgNACAEQfAAaiAEQeABaiAXIA4gDBDsgICAAAwBCyAEQfAAaiAEQeABaiAOIAxBAWoQ8oCAgAALIAQgBCoCcCIFIAVDgqj7N5RDAACAP5KSOAJwIAQgBEHwAGogACgCnCQQ+4CAgAAhBSAbIBpB4ABsaiIdIAQgACgCnCQQ94CAgAAgASAaQQJ0aiIJIAWRIgg4AgAgACgCnCQhAwJAIAAoAsAkQQFIDQAgHSADQQJ0IgxqQXxqKgIAIQUCQCADQQJIDQAgA0F+aiEQAkACQCADQQNxQQFHDQAgECEODAELIANBf2pBA3EhDyAWIAxqIQwgECEOA0AgDkF/aiEOIBkgBZQgDCoCAJIhBSAMQXxqIQwgD0F/aiIPDQALCyAQQQNJDQAgDkEBaiEPIA5BAnQhECAVIQ4DQCAZIBkgGSAZIAWUIA4gEGoiDEEMaioCAJKUIAxBCGoqAgCSlCAMQQRqKgIAkpQgDCoCAJIhBSAOQXBqIQ4gD0F8aiIPDQALCyAJIAhDAACAPyAXIAWUQwAAgD+SlZQ4AgALIAJBAnQhHiAdIAMgExD0gICAACAAKAKcJCEfAkACQCAAKALAJEEBSA0AIB9Bf2ohIAJAAkAgH0ECSCIhDQAgICEMAkAgIEEBcUUNACAdICBBAnRqIgxBfGoiDiAZIAwqAgCUIA4qAgCSOAIAIB9BfmohDAsCQCAfQQJGDQAgDEECdCEDIAxBAWohDyAWIQ4DQCAOIANqIgxBBGoiECAZIAxBCGoqAgCUIBAqAgCSIgU4AgAgDCAZIAWUIAwqAgCSOAIAIA5BeGohDiAPQX5qIg9BAUsNAAsLIBcgHSoCAJRDAACAP5IhBQwBCyAfQQFHDQIgFyAdKgIAlEMAAIA/kiEFCyAfQQNxISIgGCAFlSEIQQAhDgJAICBBA0kiIw0AIB9BfHEhEEEAIQ4gFCEMA0AgDCAIIAwqAgCUOAIAIAxBdGoiDyAIIA8qAgCUOAIAIAxBeGoiDyAIIA8qAgCUOAIAIAxBfGoiDyAIIA8qAgCUOAIAIAxBEGohDCAQIA5BBGoiDkcNAAsLAkAgIkUNACAcIA5BAnRqIQwgIiEOA0AgDCAIIAwqAgCUOAIAIAxBBGohDCAOQX9qIg4NAAsLIB9BA3EhJCAfQX5qISUgIEEBcSEmICBBfnEhJyAfQXxxIRAgHSAgQQJ0aiIoQXxqISlBACEqQQAhDwNAQwAAgL8hBQJAAkAgI0UNAEEAIQwMAQtDAACAvyEFQQAhDCAUIQ4DQCAOKgIAiyIGIA5BfGoqAgCLIhEgDkF4aioCAIsiByAOQXRqKgIAiyILIAUgCyAFXiIDGyIFIAcgBV4iAhsiBSARIAVeIgkbIgUgBiAFXiINGyEFIAxBA2ogDEECaiAMQQFqIAwgDyADGyACGyAJGyANGyEPIA5BEGohDiAMQQRqIgwgEEcNAAsLAkAgJEUNACAcIAxBAnRqIQ4gIiEDA0AgDioCAIsiBiAFIAYgBV4iAhshBSAMIA8gAhshDyAOQQRqIQ4gDEEBaiEMIANBf2oiAw0ACwsgBUOe739AXw0CAkAgIQ0AAkACQCAlDQBBASEMDAELQQAhDiAcIQwDQCAMIBcgDEEEaiIDKgIAIgaUIAwqAgCSOAIAIAMgBiAXIAxBCGoiDCoCAJSSOAIAICcgDkECaiIORw0ACyAOQQFqIQwLICZFDQAgHSAMQQJ0aiIMQXxqIg4gFyAMKgIAlCAOKgIAkjgCAAtDAACAPyAIlSEIQQAhDgJAICMNAEEAIQ4gFCEMA0AgDCAIIAwqAgCUOAIAIAxBdGoiAyAIIAMqAgCUOAIAIAxBeGoiAyAIIAMqAgCUOAIAIAxBfGoiAyAIIAMqAgCUOAIAIAxBEGohDCAQIA5BBGoiDkcNAAsLAkAgJEUNACAcIA5BAnRqIQwgIiEOA0AgDCAIIAwqAgCUOAIAIAxBBGohDCAOQX9qIg4NAAsLIB0gH0OkcH0/ICqzQ83MzD2UQ83MTD+SIAVDnu9/wJKUIAUgD0EBarOUlZMQ9ICAgAACQCAhDQAgICEMAkAgJkUNACApIBkgKCoCAJQgKSoCAJI4AgAgJSEMCyAlRQ0AIAxBAnQhCSAMQQFqIQMgFiEOA0AgDiAJaiIMQQRqIgIgGSAMQQhqKgIAlCACKgIAkiIFOAIAIAwgGSAFlCAMKgIAkjgCACAOQXhqIQ4gA0F+aiIDQQFLDQALCyAYIBcgHSoCAJRDAACAP5KVIQhBACEOAkAgIw0AQQAhDiAUIQwDQCAMIAggDCoCAJQ4AgAgDEF0aiIDIAggAyoCAJQ4AgAgDEF4aiIDIAggAyoCAJQ4AgAgDEF8aiIDIAggAyoCAJQ4AgAgDEEQaiEMIBAgDkEEaiIORw0ACwsCQCAkRQ0AIBwgDkECdGohDCAiIQ4DQCAMIAggDCoCAJQ4AgAgDEEEaiEMIA5Bf2oiDg0ACwsgKkEBaiIqQQpHDQAMAgsLIB9BAUgNACAfQfz///8HcSENIB9BA3EhI0EAISdBACEPA0BDAACAvyEFAkACQCAfQQRPDQBBACEMDAELQwAAgL8hBUEAIQwgFCEOA0AgDioCAIsiCCAOQXxqKgIAiyIGIA5BeGoqAgCLIhEgDkF0aioCAIsiByAFIAcgBV4iEBsiBSARIAVeIgMbIgUgBiAFXiICGyIFIAggBV4iCRshBSAMQQNqIAxBAmogDEEBaiAMIA8gEBsgAxsgAhsgCRshDyAOQRBqIQ4gDEEEaiIMIA1HDQALCwJAICNFDQAgHCAMQQJ0aiEOICMhEANAIA4qAgCLIgggBSAIIAVeIgMbIQUgDCAPIAMbIQ8gDkEEaiEOIAxBAWohDCAQQX9qIhANAAsLIAVDnu9/QF8NASAdIB9DpHB9PyAns0PNzMw9lEPNzEw/kiAFQ57vf8CSlCAFIA9BAWqzlJWTEPSAgIAAICdBAWoiJ0EKRw0ACwsgEiAeaiESIBxB4ABqIRwgFEHgAGohFCAVQeAAaiEVIBZB4ABqIRYgGkEBaiIaIAAoAuQjIg5IDQALIApDCtcjvpS7ELWCgIAAISsCQCAOQQFODQBBACECDAELICu2IQUgDkEDcSEPQQAhEAJAIA5BBEkNACAOQfz///8HcSECQQAhECABIQwDQCAMIAwqAgAgBZRDTMmfP5I4AgAgDEEEaiIDIAMqAgAgBZRDTMmfP5I4AgAgDEEIaiIDIAMqAgAgBZRDTMmfP5I4AgAgDEEMaiIDIAMqAgAgBZRDTMmfP5I4AgAgDEEQaiEMIAIgEEEEaiIQRw0ACwtBASECIA9FDQAgASAQQQJ0aiEMA0AgDCAMKgIAIAWUQ0zJnz+SOAIAIAxBBGohDCAPQX9qIg8NAAsLIAAoArQjsiIRQwAAgDuUIAAoAtgkskMAAAA4lEMAAIC/kkMAAAA/lEMAAIA/kkMAAIBAlJQhCAJAAkAgAC0AnSVBAkcNAAJAIAJFDQAgAUGEBWohDEPNzEw+IAAoAuAjspUhBiAOIQ8DQCAMQXBqIAZDAABAQCAMQeB8aigCALKVkiIFQwAAgL+SOAIAIAxDAACAPyAFkyAFIAiUkzgCACAMQQRqIQwgD0F/aiIPDQALCyARQ2Zmhr6UQwAAgDuUQwAAgL6SIQhDAACAP0MAAIA/IAEqArwFkyABKgK4BZSTQ83MTD6UQ5qZmT6SIAAqAsxOkZQhBgwBCyABQ2Zmpj8gACgC4COylSIGQwAAgL+SIgU4AvQEIAFDAACAPyAGkyAGIAiUQ5qZGb+UkjgChAVDAAAAACEGQwAAgL4hCCAOQQJIDQAgDkF/aiIQQQNxIQ9BASEMAkAgDkF+akEDSQ0AIBBBfHEhA0EAIRAgASEMA0AgDEH4BGogBTgCACABKgKEBSERIAxB/ARqIAU4AgAgDEGIBWogETgCACABKgKEBSERIAxBgAVqIAU4AgAgDEGMBWogETgCACABKgKEBSERIAxBhAVqIAU4AgAgDEGQBWogETgCACAMQZQFaiABKgKEBTgCACAMQRBqIQwgAyAQQQRqIhBHDQALIBBBAWohDAsgD0UNACAMQQJ0IAFqQYQFaiEMA0AgDEFwaiAFOAIAIAwgASoChAU4AgAgDEEEaiEMIA9Bf2oiDw0ACwsCQCACRQ0AIAFBlAVqIQwDQCAAIAYgACoChDgiBZNDzczMPpQgBZIiBTgChDggDEEQaiAFOAIAIAAgCCAAKgKIOCIFk0PNzMw+lCAFkiIFOAKIOCAMIAU4AgAgDEEEaiEMIA5Bf2oiDg0ACwsgBEGgCWokgICAgAALwwoGAn8BfAF9BX8BfQF/I4CAgIAAQRBrIgMkgICAgAACQAJAIAAtAJ0lQQJGDQAgACgC5CMhBAwBCyABKgLEBUMAAEDBkkMAAIC+lLsQs4KAgAAhBSAAKALkIyIEQQFIDQBEAAAAAAAA8D8gBUQAAAAAAADwP6CjtkMAAAC/lEMAAIA/kiEGIARBA3EhB0EAIQgCQCAEQQRJDQAgBEH8////B3EhCUEAIQggASEKA0AgCiAGIAoqAgCUOAIAIApBBGoiCyAGIAsqAgCUOAIAIApBCGoiCyAGIAsqAgCUOAIAIApBDGoiCyAGIAsqAgCUOAIAIApBEGohCiAJIAhBBGoiCEcNAAsLIAdFDQAgASAIQQJ0aiEKA0AgCiAGIAoqAgCUOAIAIApBBGohCiAHQX9qIgcNAAsLIAAoAuwjIQogACgC7CSyQwAAALyUQwAAqEGSQ8P1qD6UuxC1goCAACEFAkAgBEEBSA0AIAUgCrejtiEGIARBAXEhCUEAIQcCQCAEQQFGDQAgBEH+////B3EhC0EAIQcgASEKA0AgCiAKKgIAIgwgDJQgCkHIBWoqAgAgBpSSkSIMQwD+/0YgDEMA/v9GXRs4AgAgCkEEaiIIIAgqAgAiDCAMlCAKQcwFaioCACAGlJKRIgxDAP7/RiAMQwD+/0ZdGzgCACAKQQhqIQogCyAHQQJqIgdHDQALCwJAIAlFDQAgASAHQQJ0IgpqIgcgByoCACIMIAyUIAFByAVqIApqKgIAIAaUkpEiBkMA/v9GIAZDAP7/Rl0bOAIACyAEQQNxIQtBACEJAkAgBEEESQ0AIARB/P///wdxIQ1BACEKQQAhCQNAIAMgCmoiByABIApqIggqAgBDAACAR5T8ADYCACAHQQRqIAhBBGoqAgBDAACAR5T8ADYCACAHQQhqIAhBCGoqAgBDAACAR5T8ADYCACAHQQxqIAhBDGoqAgBDAACAR5T8ADYCACAKQRBqIQogDSAJQQRqIglHDQALCyALRQ0AIAEgCUECdCIHaiEKIAMgB2ohBwNAIAcgCioCAEMAAIBHlPwANgIAIApBBGohCiAHQQRqIQcgC0F/aiILDQALCyAAQYAlaiEKIABBgDhqIQcCQCAEQQJ0IghFDQAgAUHYBWogAyAI/AoAAAsgASAALQCAODoA6AUgCiADIAcgAkECRiAAKALkIxCXgICAAAJAIAAoAuQjIgpBAUgNACAKQQNxIQtBACEJAkAgCkEESQ0AIApB/P///wdxIQ1BACEKQQAhCQNAIAEgCmoiByADIApqIggoAgCyQwAAgDeUOAIAIAdBBGogCEEEaigCALJDAACAN5Q4AgAgB0EIaiAIQQhqKAIAskMAAIA3lDgCACAHQQxqIAhBDGooAgCyQwAAgDeUOAIAIApBEGohCiANIAlBBGoiCUcNAAsLIAtFDQAgASAJQQJ0IgdqIQogAyAHaiEHA0AgCiAHKAIAskMAAIA3lDgCACAHQQRqIQcgCkEEaiEKIAtBf2oiCw0ACwsCQAJAIAAtAJ0lIgdBAkYNACAALACeJSEKDAELAkACQCAAKALoJLJDAAAAOJQgASoCxAWSQwAAgD9eRQ0AQQAhCgwBC0EBIQoLIAAgCjoAniULIAFB4KmAgAAgB8BBAXRBfHFqIApBAXRqLgEAskMAAIA6lEPNzEw/lCABKgK8BUPNzEy+lCABKgK4BUPNzMy9lCAAKAK0I7JDzcxMvpRDAACAO5QgACgClCSyQ83MTL2UQ5qZmT+SkpKSkjgCtAUgA0EQaiSAgICAAAvsAQMDfwF9AX8jgICAgABBgAZrIgckgICAgAAgByACIAEgBiAEaiIIQQF0IgkgBhDmgICAACADKgIAIQogACAHIAZBAnRqIgsgBBD1gICAACAKIAqUu6K2OAIAIAMqAgQhCiAAIAsgCEECdGoiCCAEEPWAgIAAIAogCpS7orY4AgQCQCAFQQRHDQAgByACQcAAaiABIAlBAnRqIAkgBhDmgICAACADKgIIIQogACALIAQQ9YCAgAAgCiAKlLuitjgCCCADKgIMIQogACAIIAQQ9YCAgAAgCiAKlLuitjgCDAsgB0GABmokgICAgAALugQKBH8BfAF/AXwBfwF8A38BfAF/AXwjgICAgABBoANrIgUkgICAgAACQEHIAUUiBg0AIAVB0AFqQQBByAH8CwALAkAgBg0AIAVBAEHIAfwLAAsCQCADQQFIDQAgBSAEQQN0IgZqIQcgBUHQAWogBmohCCACuyEJQQAhCkQAAAAAAAAAACELIARBAUghDANAIAEgCkECdGoqAgC7IQ0CQCAMDQBBACEGQQAhDgNAIAVB0AFqIAZqIg8gDTkDACAFIAZqIhAgBSsD0AEiESANoiAQKwMAoDkDACAPQQhqIhIgCSASKwMAIhMgDaGiIAugIg05AwAgEEEIaiIQIBEgDaIgECsDAKA5AwAgEyAJIA9BEGorAwAiCyANoaKgIQ0gBkEQaiEGIA5BAmoiDiAESA0ACwsgCCANOQMAIAcgBSsD0AEiCyANoiAHKwMAoDkDACAKQQFqIgogA0cNAAsLQQAhDgJAIARBAEgNACAEQQFqIgZBA3EhEAJAIARBA0kNACAGQXxxIRJBACEOIAUhBiAAIQ8DQCAPIAYrAwC2OAIAIA9BBGogBkEIaisDALY4AgAgD0EIaiAGQRBqKwMAtjgCACAPQQxqIAZBGGorAwC2OAIAIA9BEGohDyAGQSBqIQYgEiAOQQRqIg5HDQALCyAQRQ0AIAAgDkECdGohBiAFIA5BA3RqIQ8DQCAGIA8rAwC2OAIAIA9BCGohDyAGQQRqIQYgEEF/aiIQDQALCyAFQaADaiSAgICAAAuyAgEHfyOAgICAAEHAAGsiAySAgICAAAJAIAJBAUgNACACQQNxIQRBACEFAkAgAkEESQ0AIAJB/P///wdxIQZBACEHQQAhBQNAIAMgB2oiCCABIAdqIgkqAgBDAACAR5QQu4KAgAA2AgAgCEEEaiAJQQRqKgIAQwAAgEeUELuCgIAANgIAIAhBCGogCUEIaioCAEMAAIBHlBC7goCAADYCACAIQQxqIAlBDGoqAgBDAACAR5QQu4KAgAA2AgAgB0EQaiEHIAYgBUEEaiIFRw0ACwsgBEUNACABIAVBAnQiCGohByADIAhqIQgDQCAIIAcqAgBDAACAR5QQu4KAgAA2AgAgB0EEaiEHIAhBBGohCCAEQX9qIgQNAAsLIAAgAyACELmAgIAAIANBwABqJICAgIAAC5sCAQN/I4CAgIAAQSBrIgQkgICAgAAgBCABIAIgAxDGgICAAAJAIAJBAUgNACACQQNxIQFBACEFAkAgAkEESQ0AIAJB/P///wdxIQZBACEFIAQhAiAAIQMDQCADIAIuAQCyQwAAgDmUOAIAIANBBGogAkECai4BALJDAACAOZQ4AgAgA0EIaiACQQRqLgEAskMAAIA5lDgCACADQQxqIAJBBmouAQCyQwAAgDmUOAIAIANBEGohAyACQQhqIQIgBiAFQQRqIgVHDQALCyABRQ0AIAAgBUECdGohAiAEIAVBAXRqIQMDQCACIAMuAQCyQwAAgDmUOAIAIANBAmohAyACQQRqIQIgAUF/aiIBDQALCyAEQSBqJICAgIAAC5cEAQR/I4CAgIAAQcAAayIEJICAgIAAIAAgBCACIAMQsYCAgAACQCAAKAKgJCIFQQFIDQAgBUEDcSECQQAhBgJAIAVBBEkNACAFQfz///8HcSEHQQAhBiAEIQAgASEDA0AgAyAALgEAskMAAIA5lDgCACADQQRqIABBAmouAQCyQwAAgDmUOAIAIANBCGogAEEEai4BALJDAACAOZQ4AgAgA0EMaiAAQQZqLgEAskMAAIA5lDgCACADQRBqIQMgAEEIaiEAIAcgBkEEaiIGRw0ACwsCQCACRQ0AIAEgBkECdGohACAEIAZBAXRqIQMDQCAAIAMuAQCyQwAAgDmUOAIAIANBAmohAyAAQQRqIQAgAkF/aiICDQALCyAFQQNxIQJBACEGAkAgBUEESQ0AIAFBzABqIQAgBUH8////B3EhB0EAIQYgBCEDA0AgAEF0aiADQSBqLgEAskMAAIA5lDgCACAAQXhqIANBImouAQCyQwAAgDmUOAIAIABBfGogA0Ekai4BALJDAACAOZQ4AgAgACADQSZqLgEAskMAAIA5lDgCACAAQRBqIQAgA0EIaiEDIAcgBkEEaiIGRw0ACwsgAkUNACAGQQF0IARqQSBqIQAgBkECdCABakHAAGohAwNAIAMgAC4BALJDAACAOZQ4AgAgAEECaiEAIANBBGohAyACQX9qIgINAAsLIARBwABqJICAgIAAC7oPAQx/I4CAgIAAQfAHayIGJICAgIAAAkACQCAAKALkIyIHQQFIDQAgAUH4AWohCCABQfQBaiEJIAAoApwkIgpB/v///wdxIQsgCkEBcSEMQQAhDSAGQTBqIQ4DQAJAIApBAUgNAEEAIQ8CQCAKQQFGDQBBACEPIAghECAOIREDQCARQQJqIBAqAgBDAAAARpQQu4KAgAA7AQAgESAQQXxqKgIAQwAAAEaUELuCgIAAOwEAIBBBCGohECARQQRqIREgCyAPQQJqIg9HDQALCyAMRQ0AIAZBMGogDyANQRhsaiIQQQF0aiAJIBBBAnRqKgIAQwAAAEaUELuCgIAAOwEACyAIQeAAaiEIIA5BMGohDiANQQFqIg0gB0cNAAsgAUGkBWohECAGIREgBkEQaiEPIAZBIGohCyAHIQgDQCARIBAqAgBDAACARpQQu4KAgAA2AgAgDyAQQXBqKgIAQwAAgEaUELuCgIAANgIAIBBBYGoqAgBDAACARpQQu4KAgAAhDSALIBBBUGoqAgBDAACARpQQu4KAgABB//8DcSANQRB0cjYCACALQQRqIQsgD0EEaiEPIBBBBGohECARQQRqIREgCEF/aiIIDQALIAdBBWwiEEEBIBBBAUobIhFBA3EhD0EAIQsgASoCtAVDAACARJQQu4KAgAAhCgJAIBBBBEgNACARQfz///8HcSEIQQAhCyAGQfABaiEQIAEhEQNAIBAgEUGQAWoqAgBDAACARpQQu4KAgAA7AQAgEEECaiARQZQBaioCAEMAAIBGlBC7goCAADsBACAQQQRqIBFBmAFqKgIAQwAAgEaUELuCgIAAOwEAIBBBBmogEUGcAWoqAgBDAACARpQQu4KAgAA7AQAgEEEIaiEQIBFBEGohESAIIAtBBGoiC0cNAAsLIA9FDQEgC0ECdCABakGQAWohECAGQfABaiALQQF0aiERA0AgESAQKgIAQwAAgEaUELuCgIAAOwEAIBBBBGohECARQQJqIREgD0F/aiIPDQAMAgsLIAEqArQFQwAAgESUELuCgIAAIQoLAkAgACgCoCQiDkEBSA0AIA5BA3EhD0EAIQsCQCAOQQRJDQAgDkH8////B3EhDUEAIQsgBkGgAmohECABIREDQCAQIBFBEGoiCCoCAEMAAIBFlBC7goCAADsBACAQQQJqIBFBFGoqAgBDAACARZQQu4KAgAA7AQAgEEEEaiARQRhqKgIAQwAAgEWUELuCgIAAOwEAIBBBBmogEUEcaioCAEMAAIBFlBC7goCAADsBACAQQQhqIRAgCCERIA0gC0EEaiILRw0ACwsCQCAPRQ0AIAtBAnQgAWpBEGohECAGQaACaiALQQF0aiERA0AgESAQKgIAQwAAgEWUELuCgIAAOwEAIBBBBGohECARQQJqIREgD0F/aiIPDQALCyAOQQFxIQhBACEPAkAgDkEBRg0AIAFB1ABqIRAgDkH+////B3EhCyAGQcICaiERQQAhDwNAIBEgECoCAEMAAIBFlBC7goCAADsBACARQX5qIBBBfGoqAgBDAACARZQQu4KAgAA7AQAgEUEEaiERIBBBCGohECALIA9BAmoiD0cNAAsLIAhFDQAgBkGgAmogD0EBdGogAUHQAGogD0ECdGoqAgBDAACARZQQu4KAgAA7ASALAkAgB0EBSA0AIAdBA3EhC0EAIQgCQCAHQQRJDQAgB0H8////B3EhDUEAIRBBACEIA0AgBkHgAmogEGoiESABIBBqIg8qAgBDAACAR5QQu4KAgAA2AgAgEUEEaiAPQQRqKgIAQwAAgEeUELuCgIAANgIAIBFBCGogD0EIaioCAEMAAIBHlBC7goCAADYCACARQQxqIA9BDGoqAgBDAACAR5QQu4KAgAA2AgAgEEEQaiEQIA0gCEEEaiIIRw0ACwsgC0UNACABIAhBAnQiEWohECAGQeACaiARaiERA0AgESAQKgIAQwAAgEeUELuCgIAANgIAIBBBBGohECARQQRqIREgC0F/aiILDQALC0EAIQ0CQCACLQAdQQJHDQBB6KmAgAAgAiwAIUEBdGouAQAhDQsCQCAAKALoIyIQQQFIDQAgEEEDcSEPQQAhCwJAIBBBBEkNACAQQfz///8HcSEIQQAhCyAGQfACaiEQIAUhEQNAIBAgESoCABC7goCAADsBACAQQQJqIBFBBGoqAgAQu4KAgAA7AQAgEEEEaiARQQhqKgIAELuCgIAAOwEAIBBBBmogEUEMaioCABC7goCAADsBACAQQQhqIRAgEUEQaiERIAggC0EEaiILRw0ACwsgD0UNACAFIAtBAnRqIRAgBkHwAmogC0EBdGohEQNAIBEgECoCABC7goCAADsBACAQQQRqIRAgEUECaiERIA9Bf2oiDw0ACwsCQAJAAkAgACgClCRBAUoNACAAKALAJEEBSA0BCyAAIAMgAiAGQfACaiAEIAZBoAJqIAZB8AFqIAZBMGogBiAGQRBqIAZBIGogBkHgAmogAUHkAWogCiANEJ6AgIAADAELIAAgAyACIAZB8AJqIAQgBkGgAmogBkHwAWogBkEwaiAGIAZBEGogBkEgaiAGQeACaiABQeQBaiAKIA0QnYCAgAALIAZB8AdqJICAgIAAC5oHAQh/I4CAgIAAQZAEayIKJICAgIAAAkACQCAIQQFIDQAgCEEZbCILQQEgC0EBShsiDEEDcSENQQAhDgJAIAtBBEgNACAMQfz///8HcSEPQQAhC0EAIQ4DQCAKQdAAaiALaiIMIAUgC2oiECoCAEMAAABIlBC7goCAADYCACAMQQRqIBBBBGoqAgBDAAAASJQQu4KAgAA2AgAgDEEIaiAQQQhqKgIAQwAAAEiUELuCgIAANgIAIAxBDGogEEEMaioCAEMAAABIlBC7goCAADYCACALQRBqIQsgDyAOQQRqIg5HDQALCwJAIA1FDQAgBSAOQQJ0IgxqIQsgCkHQAGogDGohDANAIAwgCyoCAEMAAABIlBC7goCAADYCACALQQRqIQsgDEEEaiEMIA1Bf2oiDQ0ACwsgCEEFbCIPQQEgD0EBShsiEUEDcSENQQAhDgJAIA9BBEgNACARQfz///8HcSEFQQAhC0EAIQ4DQCAKIAtqIgwgBiALaiIQKgIAQwAAAEiUELuCgIAANgIAIAxBBGogEEEEaioCAEMAAABIlBC7goCAADYCACAMQQhqIBBBCGoqAgBDAAAASJQQu4KAgAA2AgAgDEEMaiAQQQxqKgIAQwAAAEiUELuCgIAANgIAIAtBEGohCyAFIA5BBGoiDkcNAAsLAkAgDUUNACAGIA5BAnQiDGohCyAKIAxqIQwDQCAMIAsqAgBDAAAASJQQu4KAgAA2AgAgC0EEaiELIAxBBGohDCANQX9qIg0NAAsLIApB4ANqIAEgAiADIApBjARqIApB0ABqIAogByAIIAkQqoCAgAAgEUEDcSEQQQAhDQJAIA9BBEgNACARQfz///8HcSEOQQAhDSAKQeADaiELIAAhDANAIAwgCy4BALJDAACAOJQ4AgAgDEEEaiALQQJqLgEAskMAAIA4lDgCACAMQQhqIAtBBGouAQCyQwAAgDiUOAIAIAxBDGogC0EGai4BALJDAACAOJQ4AgAgDEEQaiEMIAtBCGohCyAOIA1BBGoiDUcNAAsLIBBFDQEgACANQQJ0aiELIApB4ANqIA1BAXRqIQwDQCALIAwuAQCyQwAAgDiUOAIAIAxBAmohDCALQQRqIQsgEEF/aiIQDQAMAgsLIApB4ANqIAEgAiADIApBjARqIApB0ABqIAogByAIIAkQqoCAgAALIAQgCigCjASyQwAAADyUOAIAIApBkARqJICAgIAAC04BAX8CQCADIAIgAyACSBsiBEEBSA0AQQAhAwNAIAAgA2ogASABIANqIAIQ9oCAgAC2OAIAIAJBf2ohAiADQQRqIQMgBEF/aiIEDQALCwv+Ew8BfwF8Cn8CfAh/AXwEfwF8BH8BfQF8AX0BfAF9AXwjgICAgABB4AdrIgYkgICAgAAgASAEIANsEPWAgIAAIQcCQEHAAUUNACAGQaAGakEAQcAB/AsACwJAIARBAUgNACADQQJ0IQggAUEEaiEJIANBf2ohCkEAIQsgBUEBSCEMA0ACQCAMDQAgASALIANsQQJ0aiENIAZBoAZqIQ4gCSEPIAohECAFIREDQCAOIA0gDyAQEPaAgIAAIA4rAwCgOQMAIA5BCGohDiAPQQRqIQ8gEEF/aiEQIBFBf2oiEQ0ACwsgCSAIaiEJIAtBAWoiCyAERw0ACwsCQEHAAUUNACAGQeAEaiAGQaAGakHAAfwKAAALIAYgB0QAAACAtfjkPqIgB6BEAAAA4AsuET6gIhI5A8ABIAYgEjkDkAMCQAJAAkAgBUEBTg0ARAAAAAAAAPA/IRMMAQsgAUF8aiIUIANBAnQiCGohFSABIAhqIRYgBkF4aiEXIAZBwAFqQQhyIRggBkGQA2pBCHIhGSAGQeAEakF4aiEaIAZBoAZqQXhqIRsgArshHEEAIQwgBkHAAWohHSABIR5BAiEfQQEhIEQAAAAAAADwPyEhA0AgDCELAkAgBEEBSA0AQQAhDCADIAtrQQJ0ISIgFSEKIB4hIyAWISQgFCElA0AgASAMIANsQQJ0aiIOIAtBAnRqKgIAIia7IScgDiAiakF8aioCACIouyEpAkAgC0UNACAGIRAgBkHgBGohDiAGQaAGaiEPICQhESAlIQ0gCyEJA0AgDyAPKwMAICYgDSoCACIClLuhOQMAIA4gDisDACAoIBEqAgAiKpS7oTkDACARQQRqIREgDUF8aiENIA9BCGohDyAOQQhqIQ4gKrsgECsDACISoiApoCEpIAK7IBKiICegIScgEEEIaiEQIAlBf2oiCQ0ACwsgKZohKSAnmiEnIAZBwAFqIQ4gBkGQA2ohDyAKIRAgIyERICAhDQNAIA8gJyARKgIAu6IgDysDAKA5AwAgDiApIBAqAgC7oiAOKwMAoDkDACAQQQRqIRAgEUF8aiERIA9BCGohDyAOQQhqIQ4gDUF/aiINDQALIAogCGohCiAjIAhqISMgJCAIaiEkICUgCGohJSAMQQFqIgwgBEcNAAsLIAZB4ARqIAtBA3QiCmorAwAhKSAGQaAGaiAKaisDACEnAkAgC0UNAEEAIQ8CQCALQQFGDQAgC0F+cSEJQQAhDyAGIQ4gGiEQIBshEQNAIAZBoAZqIAsgD0H+////AXNqQQN0Ig1qKwMAIA5BCGorAwAiEqIgESsDACAOKwMAIhOiICmgoCEpIAZB4ARqIA1qKwMAIBKiIBArAwAgE6IgJ6CgIScgEEFwaiEQIBFBcGohESAOQRBqIQ4gCSAPQQJqIg9HDQALCyALQQFxRQ0AIAZBoAZqIAsgD0F/c2pBA3QiDmorAwAgBiAPQQN0aisDACISoiApoCEpIAZB4ARqIA5qKwMAIBKiICegIScLIAZBwAFqIAtBAWoiDEEDdCIOaiApOQMAIAZBkANqIA5qICc5AwAgBisDkAMhEiAGKwPAASETAkAgC0UNACAGIQ4gHSEPIBghECAZIREgCyENA0AgESsDACAOKwMAIieiIBKgIRIgECsDACAnoiAToCETIA8rAwAgJ6IgKaAhKSAOQQhqIQ4gD0F4aiEPIBBBCGohECARQQhqIREgDUF/aiINDQALCwJAICFEAAAAAAAA8D8gKUQAAAAAAAAAwKIgEiAToKMiJyAnoqGiIhIgHGUiI0UNAEQAAAAAAADwPyAcICGjoZ8iJ5ogJyApRAAAAAAAAAAAZBshJyAcIRILIBIhIQJAIAtFDQAgIEEBdiIOQQEgDkEBSxsiDkEBcSEkQQAhEAJAICBBBEkNACAOQf7///8HcSEJQQAhECAGIQ4gFyEPA0AgDiAnIA8rAwAiKaIgDisDACISoDkDACAPICkgJyASoqA5AwAgDkEIaiIRICcgBiALIBBB/v///wFzakEDdGoiDSsDACIpoiARKwMAIhKgOQMAIA0gKSAnIBKioDkDACAPQXBqIQ8gDkEQaiEOIAkgEEECaiIQRw0ACwsgJEUNACAGIBBBA3RqIg4gJyAGIAsgEEF/c2pBA3RqIg8rAwAiKaIgDisDACISoDkDACAPICkgJyASoqA5AwALIAYgCmogJzkDAAJAAkAgIw0AIB9BfnEhECAfQQFxIQ0gBkGQA2ohDiAdIQ8DQCAPQQhqIhEgJyAOKwMAIimiIBErAwAiEqA5AwAgDkEIaiIRICcgDysDACIToiARKwMAIiugOQMAIA4gKSAnIBKioDkDACAPIBMgJyAroqA5AwAgDkEQaiEOIA9BcGohDyAQQX5qIhANAAwCCwsCQCAMIAVODQAgBUEDdCALQQN0Ig5rQXhqIg9FDQAgBiAOakEIakEAIA/8CwALIAVBASAFQQFKGyIOQQNxIRBBACERAkAgBUEESA0AIA5B/P///wdxIQ1BACERIAYhDiAAIQ8DQCAPIA4rAwC2jDgCACAPQQRqIA5BCGorAwC2jDgCACAPQQhqIA5BEGorAwC2jDgCACAPQQxqIA5BGGorAwC2jDgCACAPQRBqIQ8gDkEgaiEOIA0gEUEEaiIRRw0ACwsCQCAQRQ0AIAAgEUECdGohDiAGIBFBA3RqIQ8DQCAOIA8rAwC2jDgCACAPQQhqIQ8gDkEEaiEOIBBBf2oiEA0ACwsCQCAEQQFIDQAgA0ECdCEOA0AgByABIAUQ9YCAgAChIQcgASAOaiEBIARBf2oiBA0ACwsgISAHoiEnDAMLAkAgDUUNACAPQQhqIg8gJyAOKwMAIimiIA8rAwAiEqA5AwAgDiApICcgEqKgOQMACyAXQQhqIRcgHUEIaiEdIBpBCGohGiAbQQhqIRsgFUF8aiEVIB5BBGohHiAWQXxqIRYgFEEEaiEUIB9BAWohHyAgQQFqISAgDCAFRw0ACyAFQQFxIQkgBisDkAMhEgJAAkAgBUEBRw0AQQAhEUQAAAAAAADwPyETDAELIAVB/v///wdxIQ0gBkGQA2pBCHIhDkEAIRFEAAAAAAAA8D8hEyAGIQ8gACEQA0AgECAPKwMAIie2jDgCACAQQQRqIA9BCGorAwAiKbaMOAIAICkgKaIgJyAnoiAToKAhEyApIA5BCGorAwCiICcgDisDAKIgEqCgIRIgEEEIaiEQIA9BEGohDyAOQRBqIQ4gDSARQQJqIhFHDQALCyAJRQ0AIAAgEUECdGogBiARQQN0Ig5qKwMAIie2jDgCACAnIA4gBkGQA2pqQQhqKwMAoiASoCESICcgJ6IgE6AhEwsgB0QAAACAtfjkvqIgE6IgEqAhJwsgBkHgB2okgICAgAAgJ7YLkAIDAX8BfQR/IAFBf2ohAwJAAkAgAUECTg0AIAIhBAwBCyADQQNxIQUCQAJAIAFBfmpBA08NAEEAIQYgAiEEDAELIANBfHEhB0EAIQYgACEBIAIhBANAIAEgBCABKgIAlDgCACABQQRqIgggAiAElCIEIAgqAgCUOAIAIAFBCGoiCCACIASUIgQgCCoCAJQ4AgAgAUEMaiIIIAIgBJQiBCAIKgIAlDgCACABQRBqIQEgAiAElCEEIAcgBkEEaiIGRw0ACwsgBUUNACAAIAZBAnRqIQEDQCABIAQgASoCAJQ4AgAgAUEEaiEBIAIgBJQhBCAFQX9qIgUNAAsLIAAgA0ECdGoiASAEIAEqAgCUOAIAC+ICAwF8BH8BfAJAAkAgAUEETg0ARAAAAAAAAAAAIQJBACEDDAELIAFBfWohBEEAIQVEAAAAAAAAAAAhAiAAIQYDQCACIAZBDGoqAgC7IgcgB6IgBkEIaioCALsiByAHoiAGKgIAuyIHIAeiIAZBBGoqAgC7IgcgB6KgoKCgIQIgBkEQaiEGIAVBBGoiBSAESA0ACyABQfz///8HcSEDCwJAIAMgAU4NAAJAAkAgAUEDcSIEDQAgAyEFDAELIAAgA0ECdGohBiADIQUDQCAFQQFqIQUgBioCALsiByAHoiACoCECIAZBBGohBiAEQX9qIgQNAAsLIAMgAWtBfEsNACABIAVrIQQgACAFQQJ0aiEGA0AgBkEMaioCALsiByAHoiAGQQhqKgIAuyIHIAeiIAZBBGoqAgC7IgcgB6IgBioCALsiByAHoiACoKCgoCECIAZBEGohBiAEQXxqIgQNAAsLIAIL1wICAXwFfwJAAkAgAkEETg0ARAAAAAAAAAAAIQNBACEEDAELIAJBfWohBUQAAAAAAAAAACEDQQAhBEEAIQYDQCADIAAgBGoiB0EMaioCALsgASAEaiIIQQxqKgIAu6IgB0EIaioCALsgCEEIaioCALuiIAcqAgC7IAgqAgC7oiAHQQRqKgIAuyAIQQRqKgIAu6KgoKCgIQMgBEEQaiEEIAZBBGoiBiAFSA0ACyACQfz///8HcSEECwJAIAQgAk4NACAEQQFyIQcCQCACQQFxRQ0AIAAgBEECdCIEaioCALsgASAEaioCALuiIAOgIQMgByEECyACIAdGDQAgAiAEayEIIAAgBEECdCIHaiEEIAEgB2ohBwNAIARBBGoqAgC7IAdBBGoqAgC7oiAEKgIAuyAHKgIAu6IgA6CgIQMgBEEIaiEEIAdBCGohByAIQX5qIggNAAsLIAML2wIFBH8BfQZ/An0CfwJAIAJBAUgNACAAQXxqIQNBACEEQQEhBQNAIAEgBEECdCIGaioCACEHAkAgBEUNACAFQQF2IghBASAIQQFLGyIIQQFxIQkgACAGaiEKQQAhCwJAIAVBBEkNACAIQf7///8HcSEMQQAhCyADIQ0gACEIA0AgCCANKgIAIg4gB5QgCCoCACIPkjgCACANIA4gDyAHlJI4AgAgCEEEaiIQIAogC0H+////A3NBAnRqIhEqAgAiDiAHlCAQKgIAIg+SOAIAIBEgDiAPIAeUkjgCACANQXhqIQ0gCEEIaiEIIAwgC0ECaiILRw0ACwsgCUUNACAAIAtBAnRqIgggCiALQX9zQQJ0aiINKgIAIg4gB5QgCCoCACIPkjgCACANIA4gDyAHlJI4AgALIAAgBmogB4w4AgAgA0EEaiEDIAVBAWohBSAEQQFqIgQgAkcNAAsLC+8wCQd/An0DfwN8B38BfQh/BX0CfyOAgICAAEGg2gBrIgwkgICAgAAgCkEFbEEUaiINQQN0IQ4gDSAIbCEPAkACQAJAAkAgCEEQRw0AAkAgD0EBSA0AIA9BAWohECAPQQJ0IABqQXhqIQ0gD0EBdCAMQaAVampBfGohEQNAIBEgDSoCABC7goCAACISQYCAfiASQYCAfkobIhJB//8BIBJB//8BSBs7AQAgEUECaiANQQRqKgIAELuCgIAAIhJBgIB+IBJBgIB+ShsiEkH//wEgEkH//wFIGzsBACANQXhqIQ0gEUF8aiERIBBBfmoiEEEBSw0ACwsgDEIANwPgQiAMQeDCAGogDEHAxQBqIAxBoBVqIA8QzICAgAAgCkF9SA0BIApBKGxBoQFqIRAgCkHQAGwgDEHAxQBqakG+AmohDSAKQaABbCAMQcDPAGpqQfwEaiERA0AgESANLgEAsjgCACANQX5qIQ0gEUF8aiERIBBBf2oiEEEBSw0ADAILCwJAIAhBDEcNAAJAIA9BAUgNACAPQQFqIRAgD0ECdCAAakF4aiENIA9BAXQgDEGgFWpqQXxqIREDQCARIA0qAgAQu4KAgAAiEkGAgH4gEkGAgH5KGyISQf//ASASQf//AUgbOwEAIBFBAmogDUEEaioCABC7goCAACISQYCAfiASQYCAfkobIhJB//8BIBJB//8BSBs7AQAgDUF4aiENIBFBfGohESAQQX5qIhBBAUsNAAsLIAxB8MIAakIANwMAIAxCADcD6EIgDEIANwPgQiAMQeDCAGogDEHAxQBqIAxBoBVqIA8Qy4CAgAAgCkF9SA0BIApBKGxBoQFqIRAgCkHQAGwgDEHAxQBqakG+AmohDSAKQaABbCAMQcDPAGpqQfwEaiERA0AgESANLgEAsjgCACANQX5qIQ0gEUF8aiERIBBBf2oiEEEBSw0ADAILCwJAIApBfUgNACAKQShsQaEBaiEQIApBoAFsIABqQfwEaiENIApB0ABsIAxBwMUAampBvgJqIREDQCARIA0qAgAQu4KAgAAiEkGAgH4gEkGAgH5KGyISQf//ASASQf//AUgbOwEAIA1BfGohDSARQX5qIREgEEF/aiIQQQFLDQALIAxCADcD4EIgDEHgwgBqIAxBgMMAaiAMQcDFAGogDhDMgICAAAwCCyAMQgA3A+BCIAxB4MIAaiAMQYDDAGogDEHAxQBqIA4QzICAgAAMAgsgDEIANwPgQiAMQeDCAGogDEGAwwBqIAxBwMUAaiAOEMyAgIAAIApBfUgNAQsgCkEUbEHRAGohECAKQShsIAxBgMMAampBngFqIQ0gCkHQAGwgDEHAygBqakG8AmohEQNAIBEgDS4BALI4AgAgDUF+aiENIBFBfGohESAQQX9qIhBBAUsNAAsgCkEUbEHRAGohESAKQdAAbCAMQcDKAGpqQbwCaiEQA0BDAP7/RiETAkAgECINQXxqIhAqAgAgDSoCAPwAspIiFEMA/v9GXg0AQwAAAMchEyAUQwAAAMddDQAgFPwAsiETCyANIBM4AgAgEUF/aiIRQQJKDQALCwJAIApB1ARsIg1FDQAgDEGQMGpBACAN/AsACyAIQRJsIRUCQCAKQQF1IhZBAUgNACAMQbQwaiEXIAxBgM0AaiEPQQAhDiAMQcDKAGohEgNAIA8gD0HgfWogDEGALmpBKEHBACALEMGBgIAAIAwqAoAwIRMgD0EoEPWAgIAAIRggD0FgakEoEPWAgIAAIRkgDCAMKgKwMCATuyIaIBqgIBggGaBEAAAAAACIA0GgIhijtpI4ArAwQfwBIQ0gFyERA0AgESARKgIAIAxBgC5qIA1qKgIAuyIZIBmgIBggEiANaiIQQSBqKgIAuyIZIBmiIBBBwAFqKgIAuyIZIBmioaAiGKO2kjgCACARQQRqIREgDUF8aiINQXxHDQALIBJBoAFqIRIgD0GgAWohDyAOQQFqIg4gFkcNAAsLIAhBAXQhGyAIQQVsIRwgFUF/aiEdIApBAnQhEiAMQawyaiERQcgAIQ0CQANAIBFBBGoiECAQKgIAIhMgEyANs5RDAACAuZSSOAIAIA1BCUkNASARIBEqAgAiEyATIA1Bf2qzlEMAAIC5lJI4AgAgDUF+aiENIBFBeGohEQwACwsgDEGwMGogDEHwLGpBwQAgCUEBdEEEaiIPEPyAgIAAAkACQCAMKgKwMCITQ83MTD5dRQ0AQQAhHgJAIBJFDQAgAUEAIBL8CwALIAJBADsBACAEQQA2AgBBASEfDAELAkAgCUF/SA0AIAYgE5QhEyAPQQEgD0EBShshEiAMQbAwaiERQQAhECAMQfAsaiENA0ACQCARKgIAIBNeDQAgECEPDAILIA0gDSgCAEEBdEEQajYCACARQQRqIREgDUEEaiENIBIgEEEBaiIQRw0ACwtBACEQAkBBkgJFDQAgDEHWKmpBAEGSAvwLAAsCQCAPQQFIDQAgD0EDcSERQQAhEAJAIA9BBEkNACAPQfz///8HcSESQQAhECAMQfAsaiENA0AgDEHAKmogDSgCAEEBdGpBATsBACAMQcAqaiANQQRqKAIAQQF0akEBOwEAIAxBwCpqIA1BCGooAgBBAXRqQQE7AQAgDEHAKmogDUEMaigCAEEBdGpBATsBACANQRBqIQ0gEiAQQQRqIhBHDQALCwJAIBFFDQAgDEHwLGogEEECdGohDQNAIAxBwCpqIA0oAgBBAXRqQQE7AQAgDUEEaiENIBFBf2oiEQ0ACwsgDC8B4iwhEAsgDEHeLGohDUGSASERAkACQANAIA1BBmoiEiANQQJqLwEAIg8gEGogEi8BAGo7AQACQCARQRBLDQAgDEHiKmohDUEAISBBESERA0ACQCANLgEAQQFIDQAgDEHwLGogIEECdGogEUF/ajYCACAgQQFqISALAkAgDUECai4BAEEBSA0AIAxB8CxqICBBAnRqIBE2AgAgIEEBaiEgCyANQQRqIQ0gEUECaiIRQZEBRw0ACyAMQdwsaiENQZIBIRAgDC8B4CwhEiAMLwHiLCERA0AgDUEIaiIPIBIgEWogDUECai8BACIRaiAPLwEAajsBAAJAIBBBEEsNACAMQeIqaiERQQAhFkERIQ0DQAJAIBFBfmouAQBBAUgNACAMQcAqaiAWQQF0aiANQX9qQX5qOwEAIBZBAWohFgsCQCANQZMBRg0AAkAgES4BAEEBSA0AIAxBwCpqIBZBAXRqIA1Bfmo7AQAgFkEBaiEWCyARQQRqIREgDUECaiENDAELCwJAQdASRQ0AIAxBkDBqQQBB0BL8CwALAkAgCkEBSA0AIAAgDEHAzwBqIAhBCEYbQYAFaiERQQAhFyAWQQFIISEDQCARQSgQ9YCAgAAhGAJAICENACAYRAAAAAAAAPA/oCEZIAxBwCpqIQ0gDEGQMGogF0HUBGxqIQ4gFiEQA0BDAAAAACETAkAgESANLgEAQQJ0IhJrIg8gEUEoEPaAgIAAIhhEAAAAAAAAAABkRQ0AIBggGKAgGSAPQSgQ9YCAgACgo7YhEwsgDiASaiATOAIAIA1BAmohDSAQQX9qIhANAAsLIBFBoAFqIREgF0EBaiIXIApHDQALCwJAAkAgBUEBTg0AQwAAAAAhIkEAISMMAQsCQAJAIAhBDEcNACAFQQF0QQNtIQ0MAQsgBSAIQRBGdiENCyANQQBKISMgDbK7ELqCgIAARGyjeQlPkwpAorYhIgtBASEfAkACQCAgQQFIDQBBsLuAgABBiruAgAAgCkEERiINGyEkQQtBAyANGyIPQQF0IQ5BC0EDIAhBCEYgDXEgCUEASnEiJRsiJkF5aiEnIApB/v///wdxIRYgCkEBcSEoQX8hKSAKQX9qISogByAKsiIrlCEsICtDzcxMPpQiLYwhLkMAAHrEIQZDAAAAACEvQQAhMEEAIR4DQCAMQfAsaiAwQQJ0aigCACESICQhIUEAIRcDQCAMQdAtaiAXQQJ0aiIFQQA2AgACQCAKQQFIDQBBACEQQwAAAAAhEwJAICpFDQAgDEGQMGohDSAhIREDQCANIBIgESAPaiwAAGpBAnRqQdQEaioCACANIBIgESwAAGpBAnRqKgIAIBOSkiETIA1BqAlqIQ0gESAOaiERIBYgEEECaiIQRw0ACwsCQCAoRQ0AIAxBkDBqIBBB1ARsaiASICQgF2ogECAPbGosAABqQQJ0aioCACATkiETCyAFIBM4AgALICFBAWohISAXQQFqIhcgJkcNAAtDAAB6xCETQQAhEEEAISFBACERAkAgJUUNAEMAAHrEIRNBACENIAxB0C1qIRdBACERA0AgDUEDaiANQQJqIA1BAWogDSARIBcqAgAiFCATXiIhGyAXQQRqKgIAIgcgFCATICEbIhNeIhEbIBdBCGoqAgAiFCAHIBMgERsiE14iERsgF0EMaioCACIHIBQgEyARGyITXiIhGyERIAcgEyAhGyETIBdBEGohFyANICdHIQUgDUEEaiIhIQ0gBQ0ACwsgDEHQLWogIUECdGohDQNAICEgEGogESANKgIAIhQgE14iFxshESAUIBMgFxshEyANQQRqIQ0gEEEBaiIQQQNHDQALIC4gErK7ELqCgIAARGyjeQlPkwpAorYiB5QgE5IhFAJAICNFDQAgFCAHICKTIgcgB5QiByAtIAQqAgCUlCAHQwAAAD+SlZMhFAsCQCAUIAZeRQ0AIBMgLF5FDQAgESEeIBIhKSAUIQYgEyEvCyAwQQFqIjAgIEcNAAsgKUF/Rw0BCyABQgA3AgAgAUEIakIANwIAQQAhHiACQQA7AQAgBEEANgIADAcLIAQgLyArlTgCAAJAAkACQAJAIAhBCEoNACAKQQFIDQMgJCAeaiEXIApBAXEhISAqDQFBACEQDAILAkACQCAIQQxHDQAgKcFBA2wiDUEBdSANQQFxaiENDAELIClBAXQhDQsgDSAbIA0gG0obIB0gDSAVSBsiKEECaiINIB0gDSAdSBshHSAoQX5qIg0gGyANIBtKGyEhAkACQAJAAkACQCAKQQRHDQBB8LyAgAAgCUEDdGohI0GIvYCAACAJaiwAACEgQSIhHkHgu4CAACEEDAELIApBAEwNAUEMIR5BqLuAgAAhI0GQu4CAACEEQQwhIAsgIEH+////B3EhFyAgQQFxISkgDEG02QBqIR8gDCEkQQAgIWtBAnQhJSAEIRYgACAIQdAAbCIxaiIOIQVBACEmA0AgBSAFICVqICMgJkEBdGoiESwAASINQQJ0IjBrIAxBwNkAaiAcIA0gESwAACInayISQQFqIhEgCxDBgYCAAAJAIA0gJ0gNACARQQNxIRBBACEPICchDQJAIBJBA0kNACAfIDAgJ0ECdGtqIQ1BACESQQAgEUF8cWshDyAMQaAVaiERA0AgEUEIaiANKQIAQiCJNwMAIBEgDUEIaikCAEIgiTcDACARQRBqIREgDUFwaiENIA8gEkF8aiISRw0AC0EAIBJrIQ8gJyASayENCyAQRQ0AIAxBwNkAaiAwIA1BAnRraiENIAxBoBVqIA9BAnRqIREDQCARIA0qAgA4AgAgEUEEaiERIA1BfGohDSAQQX9qIhANAAsLAkAgIEEBSA0AIAxBoBVqICdBAnRrIRJBACERAkAgIEEBRg0AQQAhESAkIQ0DQCANIBIgFiARaiIPLAAAQQJ0aiIQKQIANwIAIA1BEGogEEEQaigCADYCACANQQhqIBBBCGopAgA3AgAgDUEUaiASIA9BAWosAABBAnRqIhApAgA3AgAgDUEcaiAQQQhqKQIANwIAIA1BJGogEEEQaigCADYCACANQShqIQ0gFyARQQJqIhFHDQALCyApRQ0AIAwgJkGoBWxqIBFBFGxqIg0gEiAEICYgHmxqIBFqLAAAQQJ0aiIRKQIANwIAIA1BEGogEUEQaigCADYCACANQQhqIBFBCGopAgA3AgALIBYgHmohFiAkQagFaiEkIAUgHEECdGohBSAmQQFqIiYgCkcNAAsCQAJAIApBBEcNAEHwvICAACAJQQN0aiELQYi9gIAAIAlqLAAAISBBIiEwQeC7gIAAISUMAQsgCkEBSA0CQQwhMEGou4CAACELQZC7gIAAISVBDCEgCyAIQRRsISQgIEH+////B3EhBSAgQQFxIR4gACAIQeQAbGohFiAMQcDZAGpBBHIhI0EAISYgDEGgFWohJyAlIRcDQCAMIA4gISALICZBAXRqIg0sAAAiEmoiEUECdGsgHBD1gICAAET8qfHSTWJQP6AiGLY4AsBZAkAgDSwAASINIBJMDQAgDSASayEQIBFBf3NBAnQhDSAjIREDQCARIA4gDWoqAgC7IhkgGaIgGCAWIA1qKgIAuyIZIBmioaAiGLY4AgAgDUF8aiENIBFBBGohESAQQX9qIhANAAsLAkAgIEEBSA0AIAxBwNkAaiASQQJ0ayESQQAhEQJAICBBAUYNAEEAIREgJyENA0AgDSASIBcgEWoiDywAAEECdGoiECkCADcCACANQRBqIBBBEGooAgA2AgAgDUEIaiAQQQhqKQIANwIAIA1BFGogEiAPQQFqLAAAQQJ0aiIQKQIANwIAIA1BHGogEEEIaikCADcCACANQSRqIBBBEGooAgA2AgAgDUEoaiENIAUgEUECaiIRRw0ACwsgHkUNACAMQaAVaiAmQagFbGogEUEUbGoiDSASICUgJiAwbGogEWosAABBAnRqIhEpAgA3AgAgDUEQaiARQRBqKAIANgIAIA1BCGogEUEIaikCADcCAAsgFyAwaiEXICdBqAVqIScgFiAkaiEWIA4gJGohDiAmQQFqIiYgCkcNAAsgCkEERw0BQYi9gIAAIAlqLAAAIRdB4LuAgAAhI0EiIQsMAgsgCEHQAGwhMQtBkLuAgAAhI0EMIQtBDCEXCyAAIDFqIAogHGwQ9YCAgAAhGEEAIR4gISAdSg0HIBhEAAAAAAAA8D+gIRogCkH+////B3EhEiAKQQFxISYgHSAha0EBaiEwQ83MTL0gKLKVIQdDAAB6xCEUQQAhJyAMISQgDEGgFWohIEEAIR4DQAJAIBdBAUgNAEEAIQ8gJ0ECdCEFICAhDiAkIRYDQEMAAAAAIRMCQCAKQQFIDQACQAJAICoNAEQAAAAAAAAAACEYQQAhECAaIRkMAQtEAAAAAAAAAAAhGEEAIRAgDiENIBYhESAaIRkDQCAZIA0qAgC7oCANQagFaioCALugIRkgGCARKgIAu6AgEUGoBWoqAgC7oCEYIA1B0ApqIQ0gEUHQCmohESASIBBBAmoiEEcNAAsLAkAgJkUNACAZIAxBoBVqIBBBqAVsIg1qIA9BFGwiEWogBWoqAgC7oCEZIBggDCANaiARaiAFaioCALugIRgLIBhEAAAAAAAAAABkRQ0AIAcgD7OUQwAAgD+SIBggGKAgGaO2lCETCwJAIBMgFF5FDQAgISAPLADgu4CAAGogFU4NACAPIR4gEyEUICEhKAsgDkEUaiEOIBZBFGohFiAPQQFqIg8gF0cNAAsLICBBBGohICAkQQRqISQgIUEBaiEhICdBAWoiJyAwRw0ADAgLCyAPQQF0IQ4gCkH+////B3EhFkEAIRAgASENIBchEQNAIA0gKSARLAAAaiISQRAgEkEQShsiEkGQASASQZABSBs2AgAgDUEEaiApIBEgD2osAABqIhJBECASQRBKGyISQZABIBJBkAFIGzYCACANQQhqIQ0gESAOaiERIBYgEEECaiIQRw0ACwsgIUUNACABIBBBAnRqICkgFyAQIA9saiwAAGoiDUEQIA1BEEobIg1BkAEgDUGQAUgbNgIACyApQXBqIQ0MBQsgDUEGaiIPIBEgEmogDS8BACISaiAPLwEAajsBACANQXxqIQ0gEEF+aiEQDAALCyANQQRqIhIgDS8BACIQIA9qIBIvAQBqOwEAIA1BfGohDSARQX5qIREMAAsLAkAgCkEBSA0AICMgHmohFiAKQQFxIRcCQAJAICoNAEEAIRIMAQsgC0EBdCEPIApB/v///wdxIQ5BACESIAEhDSAWIREDQCANIBUgKCARLAAAaiIQIBsgECAbShsgECAVShs2AgAgDUEEaiAVICggESALaiwAAGoiECAbIBAgG0obIBAgFUobNgIAIA1BCGohDSARIA9qIREgDiASQQJqIhJHDQALCyAXRQ0AIAEgEkECdGogFSAoIBYgEiALbGosAABqIg0gGyANIBtKGyANIBVKGzYCAAsgKCAbayENCyACIA07AQBBACEfCyADIB46AAAgDEGg2gBqJICAgIAAIB8L6gIBBX8CQAJAIANB/P8DcSIEDQBBACEFDAELQQAhBkEAIQUDQCAAIAZqIgcgAiABIAZqIggqAgCUOAIAIAdBBGogAiAIQQRqKgIAlDgCACAHQQhqIAIgCEEIaioCAJQ4AgAgB0EMaiACIAhBDGoqAgCUOAIAIAZBEGohBiAFQQRqIgUgBEkNAAsLAkAgBSADTg0AIAUhBAJAIAMgBWtBA3EiCEUNACAFIAhqIQQgASAFQQJ0IgdqIQYgACAHaiEHA0AgByACIAYqAgCUOAIAIAZBBGohBiAHQQRqIQcgCEF/aiIIDQALCyAFIANrQXxLDQAgBEECdCEIIAMgBGshBQNAIAAgCGoiBiACIAEgCGoiByoCAJQ4AgAgBkEEaiACIAdBBGoqAgCUOAIAIAZBCGogAiAHQQhqKgIAlDgCACAGQQxqIAIgB0EMaioCAJQ4AgAgAUEQaiEBIABBEGohACAFQXxqIgUNAAsLC/UDAQV/AkACQCACQfz/A3EiAw0AQQAhBAwBCwJAAkAgA0F/aiIFQQNHDQBBACEEDAELIAVBAnZBAWpB/v///wdxIgZBAnQhBCAAIQMDQCADIAEgAyoCAJQ4AgAgA0EEaiIHIAEgByoCAJQ4AgAgA0EIaiIHIAEgByoCAJQ4AgAgA0EMaiIHIAEgByoCAJQ4AgAgA0EQaiIHIAEgByoCAJQ4AgAgA0EUaiIHIAEgByoCAJQ4AgAgA0EYaiIHIAEgByoCAJQ4AgAgA0EcaiIHIAEgByoCAJQ4AgAgA0EgaiEDIAZBfmoiBg0ACwsgBUEEcQ0AIAAgBEECdGoiAyABIAMqAgCUOAIAIAMgASADKgIElDgCBCADIAEgAyoCCJQ4AgggAyABIAMqAgyUOAIMIARBBGohBAsCQCAEIAJODQAgBCEHAkAgAiAEa0EDcSIGRQ0AIAQgBmohByAAIARBAnRqIQMDQCADIAEgAyoCAJQ4AgAgA0EEaiEDIAZBf2oiBg0ACwsgBCACa0F8Sw0AIAIgB2shBiAAIAdBAnRqIQMDQCADIAEgAyoCAJQ4AgAgA0EEaiIHIAEgByoCAJQ4AgAgA0EIaiIHIAEgByoCAJQ4AgAgA0EMaiIHIAEgByoCAJQ4AgAgA0EQaiEDIAZBfGoiBg0ACwsLjQUEBn8BfAN/AnwjgICAgABBkANrIgMkgICAgABBACEEIAJBACACQQBKG0EBaiIFQQNxIQYCQCACQQNIDQAgBUF8cSEHQQAhBCADIQUgASEIA0AgBUEIaiAIKgIAuyIJOQMAIAUgCTkDACAFQRhqIAhBBGoqAgC7Igk5AwAgBUEQaiAJOQMAIAVBKGogCEEIaioCALsiCTkDACAFQSBqIAk5AwAgBUE4aiAIQQxqKgIAuyIJOQMAIAVBMGogCTkDACAFQcAAaiEFIAhBEGohCCAHIARBBGoiBEcNAAsLAkAgBkUNACABIARBAnRqIQggAyAEQQR0aiEFA0AgBUEIaiAIKgIAuyIJOQMAIAUgCTkDACAIQQRqIQggBUEQaiEFIAZBf2oiBg0ACwsCQCACQQFIDQBBACEBIAIhCkEAIQsDQCAAIAsiBUECdGogAyAFQQFqIgtBBHRqKwMAmiADKwMIIglEAAAA4AsuET4gCUQAAADgCy4RPmQboyIJtjgCAAJAIAIgBUwNAEEAIQgCQCACIAVBAWpGDQAgCkF+cSEMQQAhCCADIQUDQCAFIAFqIgZBEGoiBCAFQQhqIgcrAwAiDSAJoiAEKwMAIg6gOQMAIAcgDSAOIAmioDkDACAGQSBqIgYgBUEYaiIEKwMAIg0gCaIgBisDACIOoDkDACAEIA0gDiAJoqA5AwAgBUEgaiEFIAwgCEECaiIIRw0ACwsgCkEBcUUNACADIAsgCGpBBHRqIgUgAyAIQQR0aiIIKwMIIg0gCaIgBSsDACIOoDkDACAIIA0gDiAJoqA5AwgLIAFBEGohASAKQX9qIQogCyACRw0ACwsgAysDCCEJIANBkANqJICAgIAAIAm2C5gFAwh/An0CfwJAAkACQCADQQFIDQAgA0EHcSEEQQAhBQJAIANBCEkNACADQfj///8HcSEGQQAhBSABIQcDQCAHIAU2AgAgB0EcaiAFQQdqNgIAIAdBGGogBUEGajYCACAHQRRqIAVBBWo2AgAgB0EQaiAFQQRqNgIAIAdBDGogBUEDajYCACAHQQhqIAVBAmo2AgAgB0EEaiAFQQFqNgIAIAdBIGohByAFQQhqIgUgBkcNAAsLAkAgBEUNACABIAVBAnRqIQcDQCAHIAU2AgAgB0EEaiEHIAVBAWohBSAEQX9qIgQNAAsLIANBAUcNAQtBACEIDAELIAAhCSABIQpBAiELQQEhBgNAIAAgBkECdGoqAgAhDCAJIQUgCiEHIAshBAJAAkADQCAMIAUqAgAiDV5FDQEgBUEEaiANOAIAIAdBBGogBygCADYCACAFQXxqIQUgB0F8aiEHIARBf2oiBEEBSg0AC0EAIQUMAQsgBEF/aiEFCyABIAVBAnQiBWogBjYCACAAIAVqIAw4AgAgCUEEaiEJIApBBGohCkEBIQggC0EBaiELIAZBAWoiBiADRw0ACwsCQCADIAJODQAgA0F+aiELIAAgA0ECdCIFQXhqIgdqIQ4gASAHaiEPIAAgBWpBfGohCgNAAkAgACADQQJ0aioCACIMIAoqAgBeRQ0AIAshCQJAIAhFDQAgDiEFIA8hByALIQQDQAJAIAwgBSoCACINXg0AIAQhCQwCCyAFQQRqIA04AgAgB0EEaiAHKAIANgIAIAVBfGohBSAHQXxqIQdBfyEJIARBAEohBiAEQX9qIQQgBg0ACwsgASAJQQJ0QQRqIgVqIAM2AgAgACAFaiAMOAIACyADQQFqIgMgAkcNAAsLC5EBAQJ/QQAhBQJAIANBAUgNACABIQYDQCAAIAYqAgBdDQEgBkEEaiEGIAMgBUEBaiIFRw0ACyADIQULAkACQAJAIAUgBEwNACAAIAEgBEECdCIGaioCACACIAZqKgIAkl0NAQsgBSAETg0BIAAgASAEQQJ0QXxqIgZqKgIAIAIgBmoqAgCTXkUNAQsgBCEFCyAFCxEAIABBjczlAGxB3+a74wNqC50DBAl/AX0DfwF9IARBASAEQQFKGyEHIAAoAiwgBXRBAnQhCCAAKAIgIQlBACEKA0ACQCADQQFIDQAgAiAAKAIIIApsQQJ0aiELIAkvAQAhDEEAIQ0DQCAMwSEEAkACQCAJIA1BAWoiDkEBdGouAQAiDCAEayAFdCIPQQFODQBD0nSeEiEQDAELIAQgBXQhESAPQQNxIRICQAJAIA9BBE8NAEEAIQRDAAAAACEQDAELIAEgEUECdGohBEEAIRNBACAPQfz///8HcWshD0MAAAAAIRADQCAEQQxqKgIAIhQgFJQgBEEIaioCACIUIBSUIARBBGoqAgAiFCAUlCAEKgIAIhQgFJQgEJKSkpIhECAEQRBqIQQgDyATQXxqIhNHDQALQQAgE2shBAsCQCASRQ0AIAEgBEECdCARQQJ0amohBANAIAQqAgAiFCAUlCAQkiEQIARBBGohBCASQX9qIhINAAsLIBBD0nSeEpIhEAsgCyANQQJ0aiAQkTgCACAOIQ0gDiADRw0ACwsgASAIaiEBIApBAWoiCiAHRw0ACwufAwMLfwF9BH8gBUEBIAVBAUobIQcgACgCLCAGbCEIIAAoAiAhCUEAIQpBACELA0ACQCAEQQFIDQAgAyAAKAIIIAtsQQJ0aiEMIAkvAQAhDUEAIQ4DQAJAIAYgDcEiBWwiDyAGIAkgDiIQQQFqIg5BAXRqLgEAIg1sIhFODQBDAACAPyAMIBBBAnRqKgIAQ9J0nhKSlSESIA8hEwJAQQAgBiAFIA1rbCIUa0EDcSIVRQ0AIA8gFWohEyABIAogD2pBAnQiEGohBSACIBBqIRAgFSEWA0AgECASIAUqAgCUOAIAIAVBBGohBSAQQQRqIRAgFkF/aiIWDQALCyAUQXxLDQAgESATayEWIAIgCiAPaiAVakECdCIQaiEFIAEgEGohEANAIAUgEiAQKgIAlDgCACAFQQRqIBIgEEEEaioCAJQ4AgAgBUEIaiASIBBBCGoqAgCUOAIAIAVBDGogEiAQQQxqKgIAlDgCACAFQRBqIQUgEEEQaiEQIBZBfGoiFg0ACwsgDiAERw0ACwsgCiAIaiEKIAtBAWoiCyAHRw0ACwvVAgIGfwF9IAAoAiwgBmwhCSAGIAAoAiAiCiAFQQF0ai4BAGwhCwJAIAdBAUYNACALIAkgB20iACALIABIGyELC0EAIAUgCBshDCAGIApBACAEIAgbIg1BAXRqLgEAIg5sIgdBAnQhBSACIQACQCAHQQFIDQACQCAFRQ0AIAJBACAF/AsACyACIAVqIQALAkAgDSAMTg0AIAEgBWohBQNAQwAAAEIgAyANQQJ0IgdqKgIAQaDkgYAAIAdqKgIAkiIPIA9DAAAAQl4bu0TvOfr+Qi7mP6IQs4KAgAC2IQ8gBiAOwWwhByAGIAogDUEBaiINQQF0ai4BACIObCEEA0AgACAFKgIAIA+UOAIAIABBBGohACAFQQRqIQUgB0EBaiIHIARIDQALIA0gDEcNAAsLAkAgCUEAIAsgCBsiAGtBAnQiBUUNACACIABBAnRqQQAgBfwLAAsL6wUGDX8CfQZ/A30BfAN/AkAgBiAHTg0AQQEgA3QiDkEBIA5BAUobIQ8gBEEBIARBAUobIRAgA0EDRiERIANBH0YhEgNAIAAoAiAiDiAGQQFqIhNBAXRqLgEAIhQgDiAGQQF0IhVqLgEAIhZrIhdB/v///wdxIRggF0EBcSEZQwAAgD8gFyADdCIat5+2lSEbIAsgBkECdCIOaigCAEEBaiAXbiADdrJDAAAAvpS7RO85+v5CLuY/ohCzgoCAALZDAAAAP5QhHCACIAYgBGxqIR0gCCAOaiEeIAogDmohHyAJIA5qISBBACEhIBYgFEF/akYhIgNAIAogACgCCCIWICFsIg4gBmpBAnQiFGoqAgAhIyAJIBRqKgIAISQCQCAEQQFHDQAgIyAfIBZBAnQiFGoqAgAiJSAjICVeGyEjICQgICAUaioCACIlICQgJV4bISQLQwAAAAAgHiAOQQJ0aioCACAkICMgJCAjXRuTIiMgI0MAAAAAXRu7RO85+v5CLua/ohCzgoCAACEmAkAgEg0AIAEgISAFbEECdGogACgCICAVai4BACADdEECdGohJyAdICFqISggGyAcICa2IiMgI5IiI0PzBLU/lCAjIBEbIiMgHCAjXRuUIiOMISRBACEpQQAhFgNAAkAgKC0AACAWdkEBcQ0AQQEhKSAXQQFIDQAgJyAWQQJ0aiEUQQAhDgJAICINAEEAIQ4DQCAUIA4gA3RBAnRqICMgJCAMQY3M5QBsQd/mu+MDakGAgAJxGzgCACAUIA5BAWogA3RBAnRqICMgJCAMQam54bkBbEGy0sC6BGoiDEGAgAJxGzgCACAOQQJqIg4gGEcNAAsLIBlFDQAgFCAOIAN0QQJ0aiAjICQgDEGNzOUAbEHf5rvjA2oiDEGAgAJxGzgCAAsgFkEBaiIWIA9HDQALIClFDQAgJyAaQwAAgD8gDRDVgYCAAAsgIUEBaiIhIBBHDQALIBMhBiATIAdHDQALCwu5BQQQfwF9A38CfUEAIQsCQCAAKAIgIgwgB0EBdGoiDS4BACANQX5qLgEAayAJbEEJSA0AIAhBASAIQQFKGyEOIAlBAnQhDyAAKAIsIAlsQQJ0IRBBACERQQAhEkEAIRNBACEUA0ACQCAHQQFIDQAgDC8BACELQQAhFQNAAkAgDCAVQQFqIhZBAXRqLgEAIhcgC8EiC2sgCWwiGEEJSA0AIA8gC2whCyAYQf7///8HcSEZIBhBAXEhGiAYsyEbQQAhHEEAIQ1BACEdA0AgHCABIAtqIh4qAgAiHyAflCAblCIfQwAAgDxdaiAeQQRqKgIAIiAgIJQgG5QiIEMAAIA8XWohHCANIB9DAACAPV1qICBDAACAPV1qIQ0gHSAfQwAAgD5daiAgQwAAgD5daiEdIAtBCGohCyAZQX5qIhkNAAsCQCAaRQ0AIBwgASALaioCACIfIB+UIBuUIh9DAACAPF1qIRwgDSAfQwAAgD1daiENIB0gH0MAAIA+XWohHQsCQCAVIAAoAghBfGpMDQAgDSAdakEFdCAYbiATaiETCyAKIBVBAnRqKAIAIgsgDUEBdCAYTiAdQQF0IBhOaiAcQQF0IBhOamwgEmohEiALIBFqIRELIBchCyAWIRUgFiAHRw0ACwsgASAQaiEBIBRBAWoiFCAORw0ACwJAIAZFDQACQAJAIBMNAEEAIQsMAQsgEyAHIAAoAghrQQRqIAhsbiELCyAEIAQoAgAgC2pBAXUiCzYCAAJAAkACQCAFKAIADgMBAgACCyALQQRqIQsMAQsgC0F8aiELCyAFQQIgC0ESSiALQRZKGzYCAAsgAiACKAIAIBJBCHQgEW5qQQF1Ig02AgBBAyELIA1BA2wgA0EHdGtBwgNqQQJ1Ig1B0ABIDQBBAiELIA1BgAJJDQAgDUGAA0khCwsgCwuZAQQGfwF9AX8BfQJAIAJBAUgNACACQQJ0IQMgAkEDdCEEQQAhBSABQQF1IgZBAUghBwNAAkAgBw0AIAAhASAGIQgDQCABIAEqAgBD8wQ1P5QiCSABIANqIgoqAgBD8wQ1P5QiC5I4AgAgCiAJIAuTOAIAIAEgBGohASAIQX9qIggNAAsLIABBBGohACAFQQFqIgUgAkcNAAsLC8gjBjN/An0SfwJ9En8BfSOAgICAAEGgDGsiFyEYIBckgICAgAAgBUEARyIZIAtFIBRBB0pxcSIaIABFciEbIAEoAiAiHCABKAIIQQF0aiIdQX5qLgEAIh4gEXQiH0ECdCEgQQEgEXRBASAJGyEhIBcgHyAcIAJBAXRqIiIuAQAiIyARdCIkayAZdEECdEEPakFwcWsiJSIUJICAgIAAAkACQCAAQQBHIBpxIiZBAUcNACAUIB0uAQAgHmsgEXRBAnQiF0EPakFwcWsiJyIUJICAgIAADAELIAQgIGohJ0EAIRcLIBQgF0EPakFwcSIXayIdIhQkgICAgAAgFCAXayIeIhQkgICAgAAgFCAXayIoIhQkgICAgAAgFCAXayIpIhQkgICAgAAgFCAXayIqJICAgIAAIBggEDYC/AsgGCAHNgKEDCAYIAw2AvALIBggADYC4AsgGCABNgLoCyAYIBY2ApQMIBggFTYCjAwgGCAKNgL0CyAYICFBAUoiADYCmAwgGEEANgKQDCAYIBs2AuQLIBggEygCACIXNgKIDAJAIAIgA04NAEECQQEgBRshCSAlICBqICRBAnRrIitBACAka0ECdCIXaiEsICUgF2ohLSAlQQAgBRshLiAfQQJ0ICRBAnRrIS8gCkEDRyAAciEwIBxBfmohMSAQQRxqITIgEEEIaiEzIAJBAWohNCADQX9qITVBfyAhdEF/cyE2IAIhN0EAIThBASEWA0AgGCA3Ih82AuwLIBwgH0EBdGoiOS4BACEXIBwgH0EBaiI3QQF0ai4BACEAIBggDiAQEKWBgIAAIjprIhRBf2o2AoAMIBcgEXQhCiAPQQAgOiAfIAJGG2shO0EAITwCQCASIB9MDQAgFCAIIB9BAnRqKAIAIDsgEiAfayIPQQMgD0EDSBttaiIPIBQgD0gbIg9BACAPQQBKGyIPQf//ACAPQf//AEgbITwLIApBAnQhDyAAIBdrIRcCQCAbRQ0AIB8gOCAfIDgbIBZBAXEbIgAgACA4IB8gNEYbIDkuAQAgF2sgEXQgIi4BACARdE4bITgLIAUgD2ohAAJAIB8gNEciPQ0AIAEoAiAgAkEBdGoiFEECai4BACIWIBQuAQBrIBF0IgpBAXQgFEEEai4BACAWayARdCIUa0ECdCEWIApBAnQhFQJAIBQgCmtBAnQiFEUiCg0AICUgFWogJSAWaiAU/AoAAAsgC0UNACAKDQAgKyAVaiArIBZqIBT8CgAACyAAQQAgBRshPiAEIA9qIT8gFyARdCEgICdBACAfIAEoAgxIIhobIkBBACAfIDVHIkEbIScgGCANIB9BAnQiQmooAgAiFDYC+AtBfyFDAkACQCA4DQAgNiEPIDYhAAwBCyA2IQ8gNiEAIDAgFEEASHJFDQAgHCA4QQF0Ig9qIhQuAQAgFyAjamsgEXQiF0EAIBdBAEobIkMgJGohCiAxIA9qIQ8gOCEXA0AgF0F/aiEXIA8uAQAhACAPQX5qIQ8gACARdCAKSg0ACyAKICBqIRUgOCAfIDggH0obIhZBf2ohCiA4IQ8CQANAIBYgD0YNASAPQQFqIQ8gFC4BACEAIBRBAmohFCAAIBF0IBVIDQALIA9BfmohCgtBACEPQQAhAANAIA8gBiAXIBl0aiIULQAAciEPIAAgFCAJakF/ai0AAHIhACAXIApIIRQgF0EBaiEXIBQNAAsLIEAgJyAmGyEnID8gJSAaGyEKID4gLiAaGyEUAkACQCALRQ0AAkAgG0EBcyAfIAxHcg0AIDkuAQAgI2sgEXQiF0EBSA0BIBdBAXEhQEEAIRYCQCAXQQFGDQAgF0H+////B3EhC0EAIRYgJSEXA0AgFyAXKgIAIBcgL2oiFSoCAJJDAAAAP5Q4AgAgF0EEaiIaIBoqAgAgFUEEaioCAJJDAAAAP5Q4AgAgF0EIaiEXIAsgFkECaiIWRw0ACwsgQEUNASAlIBZBAnQiF2oiFiAWKgIAICsgF2oqAgCSQwAAAD+UOAIADAELIB8gDEYNAEEAICUgQ0ECdCIWaiBDQX9GIhUbIRogPEEBdiEXAkACQCBBDQBBACFDQQAgKyAWaiAVGyEWIBhB4AtqIAogICAXICEgGiARQQBDAACAPyAnIA8QhoGAgAAhGgwBC0EAICsgFmogFRshFiAYQeALaiAKICAgFyAhIBogESAtIDkuAQAgEXRBAnRqQwAAgD8gQCAPEIaBgIAAIRogLCA5LgEAIBF0QQJ0aiFDCyAYQeALaiAUICAgFyAhIBYgESBDQwAAgD8gJyAAEIaBgIAAIRcMAQsCQAJAIBRFDQACQCAmQQFzIB8gDE5yDQAgGEHQC2pBCGoiRCAzQQhqIkUpAgA3AwAgGEG4C2pBCGoiRiAyQQhqIkcpAgA3AwAgGEG4C2pBEGoiSCAyQRBqIkkoAgA2AgAgGCAzKQIANwPQCyAYIDIpAgA3A7gLIAcgQmoiFyABKAIIQQJ0aioCACFKIBcqAgAhSyAQKAIEIUwgECgCACFNIBAoAhghPyAYQcgKakE4aiJOIBhB4AtqQThqIk8oAgA2AgAgGEHICmpBMGoiUCAYQeALakEwaiI+KQIANwMAIBhByApqQShqIlEgGEHgC2pBKGoiQSkCADcDACAYQcgKakEgaiJSIBhB4AtqQSBqIlMpAgA3AwAgGEHICmpBGGoiVCAYQeALakEYaiJVKQIANwMAIBhByApqQRBqIlYgGEHgC2pBEGoiVykCADcDACAYQcgKakEIaiJYIBhB4AtqQQhqIlkpAgA3AwAgGCAYKQLgCzcDyAoCQCAgQQJ0IkBFIgsNACAdIAogQPwKAAALAkAgCw0AIB4gFCBA/AoAAAsgPkF/NgIAQQAhF0EAICUgQ0ECdGogQ0F/RhshQyAAIA9yIVoCQCAfIDVGIlsNACAtIDkuAQAgEXRBAnRqIRcLIBhB4AtqIAogFCAgIDwgISBDIBEgFyAnIFoQh4GAgAAhXAJAAkAgIEEBSCJdRQ0AQwAAAAAhXkMAAAAAIV8MAQsgIEEDcSEWAkACQCAgQQRJImBFDQBBACEVQwAAAAAhXgwBCyAgQfz///8HcSEaQwAAAAAhXkEAIRdBACEVA0AgHSAXaiIPQQxqKgIAIAogF2oiAEEMaioCAJQgD0EIaioCACAAQQhqKgIAlCAPQQRqKgIAIABBBGoqAgCUIA8qAgAgACoCAJQgXpKSkpIhXiAXQRBqIRcgGiAVQQRqIhVHDQALCwJAIBZFDQAgHSAVQQJ0Ig9qIRcgCiAPaiEPIBYhAANAIBcqAgAgDyoCAJQgXpIhXiAXQQRqIRcgD0EEaiEPIABBf2oiAA0ACwsgIEEDcSFhAkACQCBgRQ0AQQAhFUMAAAAAIV8MAQsgIEH8////B3EhGkMAAAAAIV9BACEXQQAhFQNAIB4gF2oiD0EMaioCACAUIBdqIgBBDGoqAgCUIA9BCGoqAgAgAEEIaioCAJQgD0EEaioCACAAQQRqKgIAlCAPKgIAIAAqAgCUIF+SkpKSIV8gF0EQaiEXIBogFUEEaiIVRw0ACwsgYUUNACAeIBVBAnQiD2ohFyAUIA9qIQ8DQCAXKgIAIA8qAgCUIF+SIV8gF0EEaiEXIA9BBGohDyAWQX9qIhYNAAsLIBhBiAtqQShqImIgEEEoaiJjKQIANwMAIBhBiAtqQSBqImQgEEEgaiJlKQIANwMAIBhBiAtqQRhqImYgEEEYaiJnKQIANwMAIBhBiAtqQRBqImggEEEQaiJpKQIANwMAIBhBiAtqQQhqImogMykCADcDACAYQYgKakEIaiJrIFkpAgA3AwAgGEGICmpBEGoibCBXKQIANwMAIBhBiApqQRhqIm0gVSkCADcDACAYQYgKakEgaiJuIFMpAgA3AwAgGEGICmpBKGoibyBBKQIANwMAIBhBiApqQTBqInAgPikCADcDACAYQYgKakE4aiBPKAIANgIAIBggGCkC4As3A4gKIBggECkCADcDiAsCQCALDQAgKCAKIED8CgAACwJAIAsNACApIBQgQPwKAAALAkAgWw0AIAsNACAqIC0gOS4BACARdEECdGogQPwKAAALIEsgSl0hFyBNID9qIWACQCBMID9rImFFInENACAYIGAgYfwKAAALIEsgSiAXGyFyIBAgTDYCBCAQIE02AgAgECA/NgIYIDMgGCkD0As3AgAgRSBEKQMANwIAIDIgGCkDuAs3AgAgRyBGKQMANwIAIEkgSCgCADYCACBZIFgpAwA3AwAgVyBWKQMANwMAIFUgVCkDADcDACBTIFIpAwA3AwAgQSBRKQMANwMAID4gUCkDADcDACBPIE4oAgA2AgAgGCAYKQPICjcD4AsCQCALDQAgCiAdIED8CgAACyByQwAAQECVIXICQCALDQAgFCAeIED8CgAACyBKIHKSIUogSyBykiFLAkAgPQ0AIAEoAiAgAkEBdGoiF0EEai4BACAXQQJqLgEAIg9rIBF0IgAgDyAXLgEAayARdCIXa0ECdCIPRQ0AICUgF0ECdGogJSAXQQF0IABrQQJ0aiAP/AoAAAsgSiBflCFfIEsgXpQhXiAYQQE2ApAMQQAhFwJAIFsNACAtIDkuAQAgEXRBAnRqIRcLIF4gX5IhciAYQeALaiAKIBQgICA8ICEgQyARIBcgJyBaEIeBgIAAIRoCQAJAIF1FDQBDAAAAACFeQwAAAAAhXwwBCyAgQQNxIRYCQAJAICBBBEkiP0UNAEEAIRVDAAAAACFeDAELICBB/P///wdxIUNDAAAAACFeQQAhF0EAIRUDQCAdIBdqIg9BDGoqAgAgCiAXaiIAQQxqKgIAlCAPQQhqKgIAIABBCGoqAgCUIA9BBGoqAgAgAEEEaioCAJQgDyoCACAAKgIAlCBekpKSkiFeIBdBEGohFyBDIBVBBGoiFUcNAAsLAkAgFkUNACAdIBVBAnQiD2ohFyAKIA9qIQ8gFiEAA0AgFyoCACAPKgIAlCBekiFeIBdBBGohFyAPQQRqIQ8gAEF/aiIADQALCyAgQQNxIT0CQAJAID9FDQBBACEVQwAAAAAhXwwBCyAgQfz///8HcSFDQwAAAAAhX0EAIRdBACEVA0AgHiAXaiIPQQxqKgIAIBQgF2oiAEEMaioCAJQgD0EIaioCACAAQQhqKgIAlCAPQQRqKgIAIABBBGoqAgCUIA8qAgAgACoCAJQgX5KSkpIhXyAXQRBqIRcgQyAVQQRqIhVHDQALCyA9RQ0AIB4gFUECdCIPaiEXIBQgD2ohDwNAIBcqAgAgDyoCAJQgX5IhXyAXQQRqIRcgD0EEaiEPIBZBf2oiFg0ACwsCQCByIEsgXpQgSiBflJJgRQ0AIBAgGCkDiAs3AgAgYyBiKQMANwIAIGUgZCkDADcCACBnIGYpAwA3AgAgaSBoKQMANwIAIDMgaikDADcCACBZIGspAwA3AwAgVyBsKQMANwMAIFUgbSkDADcDACBTIG4pAwA3AwAgQSBvKQMANwMAID4gcCkDADcDACAYIBgpA4gKNwPgCwJAIAsNACAKICggQPwKAAALAkAgCw0AIBQgKSBA/AoAAAsCQCBbDQAgCw0AIC0gOS4BACARdEECdGogKiBA/AoAAAsCQCBxDQAgYCAYIGH8CgAACyBcIRoLQQAhCwwCC0EAIQsgGEEANgKQDEEAICUgQ0ECdGogQ0F/RhshFkEAIRcCQCAfIDVGDQAgLSA5LgEAIBF0QQJ0aiEXCyAYQeALaiAKIBQgICA8ICEgFiARIBcgJyAAIA9yEIeBgIAAIRoMAQtBACELQQAgJSBDQQJ0aiBDQX9GGyEUQQAhFwJAIB8gNUYNACAtIDkuAQAgEXRBAnRqIRcLIBhB4AtqIAogICA8ICEgFCARIBdDAACAPyAnIAAgD3IQhoGAgAAhGgsgGiEXCyAGIB8gGXRqIg8gGjoAACAPIAlqQX9qIBc6AAAgGEEANgKYDCA7IDpqIAggQmooAgBqIQ8gPCAgQQN0SiEWIDcgA0cNAAsgGCgCiAwhFwsgEyAXNgIAIBhBoAxqJICAgIAAC70PBQJ/AX0MfwF9AX8gAiAEbiELIAAoAgAhDAJAAkACQCACQQFHDQBDAACAPyENAkAgACgCIEEISA0AIAAoAhwhDgJAAkAgDEUNACAOIAEqAgBDAAAAAF0iD0EBELSBgIAADAELIA5BARCtgYCAACEPCyAAIAAoAiBBeGo2AiBDAACAv0MAAIA/IA8bIQ0LAkAgACgCBEUNACABIA04AgALQQEhCyAHRQ0BIAcgASoCADgCAEEBDwsgACgCGCIQQQAgEEEAShshEQJAAkACQCAFDQAgBSEJDAELAkAgCQ0AIAUhCQwBC0EAIRICQCAQQQBKDQAgBEEBSg0AIAtBAXFFIBBBAEdxRQ0CCyACQQJ0Ig5FDQAgCSAFIA78CgAACwJAAkAgEEEBTg0AQQAhEgwBC0EAIRMDQAJAAkAgDEUNACATQR9GDQFBASATdCEUIAIgE3VBAXUhFSATQQFqIRZBACEXA0ACQCAVQQFIDQAgASAXQQJ0aiEYQQAhDkEBIQ8DQCAYIA4gFnRBAnRqIhkgGSoCAEPzBDU/lCINIBggDyATdEECdGoiGSoCAEPzBDU/lCIakjgCACAZIA0gGpM4AgAgD0ECaiEPIBUgDkEBaiIORw0ACwsgF0EBaiIXIBRHDQALCyAJRQ0AIBNBH0YNAEEBIBN0IRQgAiATdUEBdSEVIBNBAWohFkEAIRcDQAJAIBVBAUgNACAJIBdBAnRqIRhBACEOQQEhDwNAIBggDiAWdEECdGoiGSAZKgIAQ/MENT+UIg0gGCAPIBN0QQJ0aiIZKgIAQ/MENT+UIhqSOAIAIBkgDSAakzgCACAPQQJqIQ8gFSAOQQFqIg5HDQALCyAXQQFqIhcgFEcNAAsLIApBBHVBoMGAgABqLQAAQQJ0IApBD3EtAKDBgIAAciEKQQEhEiATQQFqIhMgEEcNAAsLIAkhBQsgBCARdSEWQQAhGwJAAkAgCyARdCIJQQFxDQAgEEF/Sg0AQQAhGyAQIQsDQAJAIAxFDQAgFkEBSA0AIAlBAXUhFCAWQQN0IRkgFkECdCETQQAhFyABIRUDQAJAIBRBAUgNACAVIQ4gFCEPA0AgDiAOKgIAQ/MENT+UIg0gDiATaiIYKgIAQ/MENT+UIhqSOAIAIBggDSAakzgCACAOIBlqIQ4gD0F/aiIPDQALCyAVQQRqIRUgF0EBaiIXIBZHDQALCyAJQQF1IRQCQCAFRQ0AIBZBAUgNACAWQQN0IRkgFkECdCETQQAhFyAFIRUDQAJAIBRBAUgNACAVIQ4gFCEPA0AgDiAOKgIAQ/MENT+UIg0gDiATaiIYKgIAQ/MENT+UIhqSOAIAIBggDSAakzgCACAOIBlqIQ4gD0F/aiIPDQALCyAVQQRqIRUgF0EBaiIXIBZHDQALCyAbQQFqIRsgFkEBdCEOIAogFnQgCnIhCiAJQQJxDQIgC0F/SCEPIAtBAWohCyAOIRYgFCEJIA8NAAwCCwsgCSEUIBYhDgsCQCAOQQJIDQAgBEEBRiEPAkAgDEUNACABIBQgEXUgDiARdCAPEIiBgIAACwJAIAVFDQAgBSAUIBF1IA4gEXQgDxCIgYCAAAsgACABIAIgAyAOIAUgBiAIIAoQiYGAgAAhCyAAKAIERQ0BIAEgFCARdSAOIBF0IA8QioGAgAAMAgsgACABIAIgAyAOIAUgBiAIIAoQiYGAgAAhCyAAKAIEDQELIAsPCwJAAkAgGw0AIA4hCQwBC0EAIQwDQCAUQQF0IRQgCyAOQQF1Igl2IQUCQCAJQQFIDQAgFEEBdSEKIAlBA3QhGSAOQQJ0QXhxIRMgASAJQQJ0aiEVQQAhFyABIRYDQAJAIApBAUgNACAWIQ4gFSEPIAohGANAIA4gDioCAEPzBDU/lCINIA8qAgBD8wQ1P5QiGpI4AgAgDyANIBqTOAIAIA4gE2ohDiAPIBlqIQ8gGEF/aiIYDQALCyAWQQRqIRYgFUEEaiEVIBdBAWoiFyAJRw0ACwsgBSALciELIAkhDiAMQQFqIgwgG0cNAAsLAkAgEkUNAEEAIRUDQCALLQCwwYCAACELQSAhFgJAIBVBH0YNAEEBIBV0IRQgAiAVdUEBdSETIBVBAWohFkEAIRcDQAJAIBNBAUgNACABIBdBAnRqIRhBACEOQQEhDwNAIBggDiAWdEECdGoiGSAZKgIAQ/MENT+UIg0gGCAPIBV0QQJ0aiIZKgIAQ/MENT+UIhqSOAIAIBkgDSAakzgCACAPQQJqIQ8gEyAOQQFqIg5HDQALCyAXQQFqIhcgFEcNAAsLIBYhFSAWIBBHDQALCyAJIBF0IRYCQCAHRQ0AIAJBAUgNACACt5+2IQ0gAkEDcSEZQQAhEwJAIAJBBEkNACACQfz///8HcSEVQQAhDkEAIRMDQCAHIA5qIg8gASAOaiIYKgIAIA2UOAIAIA9BBGogGEEEaioCACANlDgCACAPQQhqIBhBCGoqAgAgDZQ4AgAgD0EMaiAYQQxqKgIAIA2UOAIAIA5BEGohDiAVIBNBBGoiE0cNAAsLIBlFDQAgASATQQJ0Ig9qIQ4gByAPaiEPA0AgDyAOKgIAIA2UOAIAIA5BBGohDiAPQQRqIQ8gGUF/aiIZDQALCyALQX8gFnRBf3NxC7INBAJ/An0GfwN9I4CAgIAAQSBrIgskgICAgAAgCyAKNgIYIAsgBDYCHCAAKAIcIQQgACgCACEMAkACQCADQQFHDQACQAJAIAAoAiBBCE4NAEMAAIA/IQ1BACEDDAELAkACQCAMRQ0AIAQgASoCAEMAAAAAXSIFQQEQtIGAgAAMAQsgBEEBEK2BgIAAIQULIAAgACgCICIDQXhqNgIgQwAAgL9DAACAPyAFGyENIANBD0ohAwsCQCAAKAIEIgVFDQAgASANOAIAC0MAAIA/IQ0CQCADRQ0AAkACQCAMRQ0AIAQgAioCAEMAAAAAXSIFQQEQtIGAgAAMAQsgBEEBEK2BgIAAIQULIAAgACgCIEF4ajYCIEMAAIC/QwAAgD8gBRshDSAAKAIEIQULAkAgBUUNACACIA04AgALQQEhCiAIRQ0BIAggASoCADgCAAwBCyAAIAsgASACIAMgC0EcaiAFIAUgB0EBIAtBGGoQi4GAgAAgCygCCLJDAAAAOJQhDSALKAIEskMAAAA4lCEOIAsoAhQhDyALKAIQIRAgCygCACERAkACQCADQQJHDQBBACESIABBeEEAIBBB//9+cSITGyIUIA9rIAAoAiBqNgIgIAEgAiAQQYDAAEoiEBshDyACIAEgEBshECAUIAsoAhxqIRQCQCATRQ0AAkAgDEUNACAEIBAqAgAgDyoCBJQgECoCBCAPKgIAlJNDAAAAAF0iEkEBELSBgIAADAELIARBARCtgYCAACESCyAAIBBBAiAUIAUgBiAHIAhDAACAPyAJIAoQhoGAgAAhCiAPIBAqAgQgEkEBdCIFQX9qspQ4AgAgDyAQKgIAQQEgBWuylDgCBCAAKAIERQ0BIAEgDiABKgIAlDgCACABIA4gASoCBJQ4AgQgAiANIAIqAgCUIhU4AgAgAiANIAIqAgSUOAIEIAEgASoCACINIBWTOAIAIAIgDSACKgIAkjgCACABIAEqAgQiDSACKgIEkzgCBCACIA0gAioCBJI4AgQMAQsgACAAKAIgIA9rIg82AiAgCygCGCEMAkAgCygCHCIKIAogCygCDGtBAm0iBCAKIARIGyIEQQAgBEEAShsiBCAKIARrIgpIDQAgACABIAMgBCAFIAYgByAIQwAAgD8gCSAMEIaBgIAAIAAgAiADIAAoAiAgD2sgBGoiCEFoakEAIBAbQQAgCEEYShsgCmogBUEAIAdBACANQQAgDCAFdRCGgYCAAHIhCgwBCyAAIAIgAyAKIAVBACAHQQAgDUEAIAwgBXUQhoGAgAAgACABIAMgACgCICAPayAKaiIKQWhqQQAgEEGAgAFHG0EAIApBGEobIARqIAUgBiAHIAhDAACAPyAJIAwQhoGAgAByIQoLIAAoAgRFDQACQCADQQJGDQACQAJAIANBAU4NAEMAAAAAIRZDAAAAACEXDAELIANB/v///wdxIQggA0EBcSEHQwAAAAAhFyABIQAgAiEFQwAAAAAhFgNAIAVBBGoqAgAiDSANlCAFKgIAIhUgFZQgF5KSIRcgDSAAQQRqKgIAlCAVIAAqAgCUIBaSkiEWIABBCGohACAFQQhqIQUgCEF+aiIIDQALIAdFDQAgBSoCACINIA2UIBeSIRcgDSAAKgIAlCAWkiEWCwJAAkAgDiAWlCINIA2SIg0gDiAOlCAXkiIVkiIWQ1JJHTpdDQAgFSANkyIVQ1JJHTpdRQ0BCyADQQJ0IgBFDQEgAiABIAD8CgAADAELIANBAUgNAUMAAIA/IBaRlSENQwAAgD8gFZGVIRUgA0H+////B3EhBSADQQFxIQcgAiEAA0AgASAVIA4gASoCAJQiFiAAKgIAIheTlDgCACAAIA0gFiAXkpQ4AgAgAUEEaiIIIBUgDiAIKgIAlCIWIABBBGoiCCoCACIXk5Q4AgAgCCANIBYgF5KUOAIAIABBCGohACABQQhqIQEgBUF+aiIFDQALIAdFDQAgASAVIA4gASoCAJQiFiAAKgIAIheTlDgCACAAIA0gFiAXkpQ4AgALIBFFDQAgA0EBSA0AIANBA3EhBUEAIQECQCADQQRJDQAgA0H8////B3EhA0EAIQEgAiEAA0AgACAAKgIAjDgCACAAQQRqIgggCCoCAIw4AgAgAEEIaiIIIAgqAgCMOAIAIABBDGoiCCAIKgIAjDgCACAAQRBqIQAgAyABQQRqIgFHDQALCyAFRQ0AIAIgAUECdGohAANAIAAgACoCAIw4AgAgAEEEaiEAIAVBf2oiBQ0ACwsgC0EgaiSAgICAACAKC6oFARB/I4CAgIAAIgQaIAQgASACbEECdCIFQQ9qQXBxayIGGgJAAkAgAw0AIAJBAUgNASACQQJ0IQcgAkEDdCEIIAFBAnQhCSACQQR0IQogAkEMbCELIAFB/P///wdxIQwgAUEDcSENQQAhDiABQQFIIQ8gBiEQIAAhEQNAAkAgDw0AQQAhEgJAIAFBBEkNAEEAIRIgECEDIBEhBANAIAMgBCoCADgCACADQQRqIAQgB2oqAgA4AgAgA0EIaiAEIAhqKgIAOAIAIANBDGogBCALaioCADgCACADQRBqIQMgBCAKaiEEIAwgEkEEaiISRw0ACwsgDUUNACARIAcgEmxqIQMgECASQQJ0aiEEIA0hEgNAIAQgAyoCADgCACADIAdqIQMgBEEEaiEEIBJBf2oiEg0ACwsgECAJaiEQIBFBBGohESAOQQFqIg4gAkcNAAwCCwsgAkEBSA0AIAJBAnRBuMGAgABqIQ8gAkECdCEHIAFBAnQhEyACQQN0IQggAkEEdCEKIAJBDGwhCyABQfz///8HcSEMIAFBA3EhDUEAIREgAUEBSCEJIAAhEANAAkAgCQ0AIA8gEUECdGooAgAhDkEAIRICQCABQQRJDQAgBiAOIAFsQQJ0aiEDQQAhEiAQIQQDQCADIAQqAgA4AgAgA0EEaiAEIAdqKgIAOAIAIANBCGogBCAIaioCADgCACADQQxqIAQgC2oqAgA4AgAgA0EQaiEDIAQgCmohBCAMIBJBBGoiEkcNAAsLIA1FDQAgBiATIA5sIBJBAnRqaiEDIBAgByASbGohBCANIRIDQCADIAQqAgA4AgAgBCAHaiEEIANBBGohAyASQX9qIhINAAsLIBBBBGohECARQQFqIhEgAkcNAAsLAkAgBUUNACAAIAYgBfwKAAALC4YOAgp/An0jgICAgABBIGsiCSSAgICAACAJIAg2AhggCSADNgIcQX8hCiAAKAIcIQsgACgCFCEMIAAoAgwhDSAAKAIAIQ4gACgCCCIPKAJgIRAgDygCZCERQQAhEgJAAkAgBkF/Rg0AIA8oAgggBkEBamwhEiACQQNIDQAgAyARIBAgEkEBdGogDUEBdGouAQBqIg8gDy0AAGotAABBDGpMDQAgBkF/aiESIAEgAkEBdiIDQQJ0aiENAkAgBEEBRw0AIAkgCEEBcSAIQQF0cjYCGAsgACAJIAEgDSADIAlBHGogBEEBakEBdSIPIAQgEkEAIAlBGGoQi4GAgAAgCSgCECEIIAkoAgiyIRMgCSgCBLIhFCAJKAIUIRAgCSgCDCECAkAgBEECSA0AIAhB//8AcUUNAAJAIAhBgcAASA0AIAIgAkEFIAZrdWshAgwBCyACIANBA3RBBiAGa3VqIgZBH3UgBnEhAgsgE0MAAAA4lCETIBRDAAAAOJQhFCAAIAAoAiAgEGsiETYCICAFIANBAnRqQQAgBRshCiAJKAIYIRACQCAJKAIcIgYgBiACa0ECbSICIAYgAkgbIgJBACACQQBKGyICIAYgAmsiBkgNACAAIAEgAyACIA8gBSASIAcgFJQgEBCJgYCAACAAIA0gAyAAKAIgIBFrIAJqIgJBaGpBACAIG0EAIAJBGEobIAZqIA8gCiASIAcgE5QgECAPdRCJgYCAACAEQQF1dHIhDwwCCyAAIA0gAyAGIA8gCiASIAcgE5QgECAPdRCJgYCAACENIAAgASADIAAoAiAgEWsgBmoiBkFoakEAIAhBgIABRxtBACAGQRhKGyACaiAPIAUgEiAHIBSUIBAQiYGAgAAgDSAEQQF1dHIhDwwBCwJAIBEgECASQQF0aiANQQF0ai4BAGoiEi0AACIPQQFqQQF2IgZBACADQX9qIgMgEiAGai0AAEoiDRsiECAPIAYgDRsiD2pBAWpBAXYiBiAQIAMgEiAGai0AAEoiDRsiECAPIAYgDRsiD2pBAWpBAXYiBiAQIAMgEiAGai0AAEoiDRsiECAPIAYgDRsiDWpBAWpBAXYiBiAQIAMgEiAGai0AAEoiERsiDyANIAYgERsiBnIgDyAGc0EBdmsiDSAPIAMgEiANai0AAEoiEBsiDyAGIA0gEBsiDWpBAWpBAXYiBiAPIAMgEiAGai0AAEoiEBsiD0UNACASIA9qLQAAIQoLAkAgDSAGIBAbIgYgDyADIAprIBIgBmotAAAgA2tKGyIDRQ0AIAAgACgCICASIANqLQAAQQFqIg9rIgY2AiACQCAGQX9KDQAgEkF/aiESA0AgACAPIAZqIgY2AiAgA0EBRg0CIAAgBiASIANqLQAAQQFqIg9rIgY2AiAgA0F/aiEDIAZBAEgNAAsLAkAgA0EISQ0AIANBB3FBCHIgA0EDdkF/anQhAwsCQCAORQ0AIAEgAiADIAwgBCALIAcgACgCBCAAKAIsENOBgIAAIQ8MAgsgASACIAMgDCAEIAsgBxDUgYCAACEPDAELAkAgACgCBA0AQQAhDwwBCwJAIAhBfyAEdEF/cyIPcSIIDQBBACEPIAJBAnQiAEUNASABQQAgAPwLAAwBCwJAAkACQAJAAkAgBUUNACACQQFIDQMgAkEBcSENIAAoAighEiACQQFHDQFBACEPDAILIAJBAUgNAyACQQNxIQQgACgCKCESAkACQCACQQRPDQBBACEIDAELIAJB/P///wdxIQ1BACEIIAEhAyASIQYDQCADQQxqIAZBkc/nywBsQbSm5dd6aiISQRR1sjgCACADQQhqIAZBlZWk+npsQents459akEUdbI4AgAgA0EEaiAGQam54bkBbEGy0sC6BGpBFHWyOAIAIAMgBkGNzOUAbEHf5rvjA2pBFHWyOAIAIANBEGohAyASIQYgDSAIQQRqIghHDQALCwJAIARFDQAgASAIQQJ0aiEDA0AgAyASQY3M5QBsQd/mu+MDaiISQRR1sjgCACADQQRqIQMgBEF/aiIEDQALCyAAIBI2AigMAwsgAkH+////B3EhBEEAIQ8gASEDIAUhBgNAIAMgBioCAEMAAIA7QwAAgLsgEkGNzOUAbEHf5rvjA2pBgIACcRuSOAIAIANBBGogBkEEaioCAEMAAIA7QwAAgLsgEkGpueG5AWxBstLAugRqIhJBgIACcRuSOAIAIANBCGohAyAGQQhqIQYgBCAPQQJqIg9HDQALCwJAIA1FDQAgASAPQQJ0IgNqIAUgA2oqAgBDAACAO0MAAIC7IBJBjczlAGxB3+a74wNqIhJBgIACcRuSOAIACyAAIBI2AigLIAghDwsgASACIAcgACgCLBDVgYCAAAsgCUEgaiSAgICAACAPC6oFARB/I4CAgIAAIgQaIAQgASACbEECdCIFQQ9qQXBxayIGGgJAAkAgAw0AIAJBAUgNASACQQJ0IQcgAkEDdCEIIAJBBHQhCSACQQxsIQogAUECdCELIAFB/P///wdxIQwgAUEDcSENQQAhDiABQQFIIQ8gBiEQIAAhEQNAAkAgDw0AQQAhEgJAIAFBBEkNAEEAIRIgECEDIBEhBANAIAMgBCoCADgCACADIAdqIARBBGoqAgA4AgAgAyAIaiAEQQhqKgIAOAIAIAMgCmogBEEMaioCADgCACADIAlqIQMgBEEQaiEEIAwgEkEEaiISRw0ACwsgDUUNACARIBJBAnRqIQMgECAHIBJsaiEEIA0hEgNAIAQgAyoCADgCACADQQRqIQMgBCAHaiEEIBJBf2oiEg0ACwsgEEEEaiEQIBEgC2ohESAOQQFqIg4gAkcNAAwCCwsgAkEBSA0AIAJBAnRBuMGAgABqIQ8gAUECdCETIAJBAnQhByACQQN0IQggAkEEdCEJIAJBDGwhCiABQfz///8HcSEMIAFBA3EhDUEAIREgAUEBSCELIAYhEANAAkAgCw0AIA8gEUECdGooAgAhDkEAIRICQCABQQRJDQAgACAOIAFsQQJ0aiEDQQAhEiAQIQQDQCAEIAMqAgA4AgAgBCAHaiADQQRqKgIAOAIAIAQgCGogA0EIaioCADgCACAEIApqIANBDGoqAgA4AgAgBCAJaiEEIANBEGohAyAMIBJBBGoiEkcNAAsLIA1FDQAgACATIA5sIBJBAnRqaiEDIBAgByASbGohBCANIRIDQCAEIAMqAgA4AgAgA0EEaiEDIAQgB2ohBCASQX9qIhINAAsLIBBBBGohECARQQFqIhEgAkcNAAsLAkAgBUUNACAAIAYgBfwKAAALC/0WAgp/A30gACgCECELIAAoAgAhDEEBIQ0CQCAFKAIAIg4gCEEDdCAAKAIIIg8oAjggACgCDCIQQQF0ai4BAGoiCGtBYGoiESAIQQF1QXBBfCAEQQJGIAlBAEdxIggbakF+QX8gCBsgBEEBdGoiCGwgDmogCG0iCCARIAhIGyIIQQRIDQAgCEHAACAIQcAASRsiDUEHcUEBdC4BwMKAgABBDiANQQN2a3VBAWpBfnEhDQsgACgCHCEOQQEgDSAQIAtOGyANIAkbIQ0CQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAIAxFDQAgACgCJCESIAIgAyAJIAQgACgCLBDWgYCAACEIIA4QpYGAgAAhESANQQFGDQgCQAJAAkAgCUUNACAAKAIwIgANASAIIA1sQYDAAGpBDnUhAAwCCyAIIA1sQYDAAGoiC0EOdSEIAkACQCAAKAI4DQAgCCEADAELAkAgCEEBTg0AIAghAAwBCwJAIAggDUgNACAIIQAMAQsgDSEAIAtBgIB/cSANbiILQRB0IgxBDXUgC8FsQYCAAmpBEHUiCyALQY77//8HbEGAgAFqQQ92QdXAAGpB//8DcWxBAXRBgID2kH5qQRB1IAtsQYCAAWpBD3YgC2vBQYCAfnMiE2ciFEGAgICABCAMayILQQ11IAtBEHVsQYCAAmpBEHUiCyALQY77//8HbEGAgAFqQQ92QdXAAGpB//8DcWxBAXRBgID2kH5qQRB1IAtsQYCAAWpBD3YgC2vBQYCAfnMiC2ciDGtBC3QgEyAUQW9qdMEiE0Hb6///B2xBgIABakEPdkH8PWpB//8DcSATbEGAgAFqQQ92ayALIAxBb2p0wSILQdvr//8HbEGAgAFqQQ92Qfw9akH//wNxIAtsQYCAAWpBD3ZqwSAEQQd0QYB/asFsQYCAAWpBD3UiCyAFKAIAIgxKDQBBACAIIAtBACAMa0gbIQALIAdBAUoNCCANIABrIgxBAWoiAyAAQQFqIgIgACANQQF1IglKIgsbIRAgCUEBaiIJIAlsIQggCw0DIAIgAGxBAXUhCQwEC0H//wFBgYB+IAhBgMAAShsgDW0gCCANbGpBDnUiCEEAIAhBAEobIgggDUF/aiILIAggC0gbIABBf3NBH3ZqIQALIARBAkwNBiAOIA1BAm0iCUEDbEEDaiIIIAlBf3NqIABqIABBA2wiCyAAIAlKIgwbIAggCWsgAGogC0EDaiAMGyAIIAlqEK+BgIAAIABBDnQiACANbiEIDAcLIA4QpYGAgAAhESANQQFGDQgCQCAEQQNIDQAgCUUNAAJAAkAgDiANQQJtIglBAWoiEEEDbCIIIAlqIgsQp4GAgAAiACAITg0AIABBA20hAAwBCyAAIBBBAXRrIQALIA4gCCAJQX9zaiAAaiAAQQNsIhAgACAJSiIMGyAIIAlrIABqIBBBA2ogDBsgCxCpgYCAAAwFCwJAIAdBAUoNACAJDQAgDiANQQF1IghBAWoiACAAbCIJEKeBgIAAIgsgACAIbEEBdU4NAyALQQN0QQFyELyBgIAAQX9qQQF2IgBBAWoiCyAAbEEBdiEIDAQLIA4gDUEBahCsgYCAACEADAQLIAggAyAMQQJqbEEBdWshCQsgDiAJIAkgEGogCBCvgYCAAAwCCyAJIA1BAWoiACAAQQF0IAkgC0F/c2pBA3RBAXIQvIGAgABrQQF2IgBrIgsgDSAAa0ECamxBAXVrIQgLIA4gCCAIIAtqIAkQqYGAgAALIABBDnQgDW4hCAwGCyAOIAAgDUEBahCzgYCAACAAQQ50IgAgDW4hCCAJRQ0FCwJAIA0gAE0NAAJAIARBAU4NAEEAIQsMBQsgEiAQQQJ0aiIAIA8oAghBAnRqKgIAIhUgFSAVlCAAKgIAIhYgFpRDfR2QJpKSkUN9HZAmkiIXlSEVIBYgF5UhFiAEQQFxIRBBACELQQAhCQJAIARBAUYNACAEQf7///8HcSEIQQAhCSADIQAgAiEEA0AgBCAWIAQqAgCUIBUgACoCAJSSOAIAIARBBGoiDSAWIA0qAgCUIBUgAEEEaioCAJSSOAIAIABBCGohACAEQQhqIQQgCCAJQQJqIglHDQALCyAQRQ0EIAIgCUECdCIEaiIAIBYgACoCAJQgFSADIARqKgIAlJI4AgAMBAsgBEEBSA0EIARBAXEhDEEAIQ0CQCAEQQFGDQAgBEH+////B3EhEEEAIQ0gAyEAIAIhCQNAIAkgCSoCAEPzBDU/lCIVIAAqAgBD8wQ1P5QiFpI4AgAgACAWIBWTOAIAIAlBBGoiCyALKgIAQ/MENT+UIhUgAEEEaiILKgIAQ/MENT+UIhaSOAIAIAsgFiAVkzgCACAAQQhqIQAgCUEIaiEJIBAgDUECaiINRw0ACwsgDEUNBCACIA1BAnQiAGoiCSAJKgIAQ/MENT+UIhUgAyAAaiIAKgIAQ/MENT+UIhaSOAIAIAAgFiAVkzgCAAwECyAJRQ0DQQAhCwJAIAhBgcAASA0AIAAoAjQNAEEBIQsgBEEBSA0AIARBA3EhDUEAIQgCQCAEQQRJDQAgBEH8////B3EhE0EAIQggAyEJA0AgCSAJKgIAjDgCACAJQQRqIgcgByoCAIw4AgAgCUEIaiIHIAcqAgCMOAIAIAlBDGoiByAHKgIAjDgCACAJQRBqIQkgEyAIQQRqIghHDQALCyANRQ0AIAMgCEECdGohCQNAIAkgCSoCAIw4AgAgCUEEaiEJIA1Bf2oiDQ0ACwsgBEEBSA0BIBIgEEECdGoiCSAPKAIIQQJ0aioCACIVIBUgFZQgCSoCACIWIBaUQ30dkCaSkpFDfR2QJpIiF5UhFSAWIBeVIRYgBEEBcSEHQQAhDQJAIARBAUYNACAEQf7///8HcSEQQQAhDSADIQkgAiEEA0AgBCAWIAQqAgCUIBUgCSoCAJSSOAIAIARBBGoiCCAWIAgqAgCUIBUgCUEEaioCAJSSOAIAIAlBCGohCSAEQQhqIQQgECANQQJqIg1HDQALCyAHRQ0BIAIgDUECdCIEaiIJIBYgCSoCAJQgFSADIARqKgIAlJI4AgAMAQtBACELIAlFDQELQQAhBAJAIAUoAgBBEUgNAEEAIQQgACgCIEERSA0AAkAgDEUNACAOIAtBAhCxgYCAACALIQQMAQsgDkECEKqBgIAAIQQLQQAgBCAAKAI0GyELCyAOEKWBgIAAIQQgBSAFKAIAIAQgEWsiDWs2AgAMAQsgDhClgYCAACEAIAUgBSgCACAAIBFrIg1rNgIAQYCAASEAIAhBgIABRg0BIAgNAiAIIQsLIAogCigCAEF/IAZ0QX9zcTYCAEGAgH8hBEH//wEhCUEAIQBBACEFDAILIAogCigCAEF/IAZ0QX9zIAZ0cTYCAEH//wEhBUEAIQtBACEJQYCAASEEDAELIAhBEHQiBUENdSAIwWxBgIACakEQdSIAIABBjvv//wdsQYCAAWpBD3ZB1cAAakH//wNxbEEBdEGAgPaQfmpBEHUgAGxBgIABakEPdiAAa8FBgIB+cyIJZyIOQYCAgIAEIAVrIgBBDXUgAEEQdWxBgIACakEQdSIAIABBjvv//wdsQYCAAWpBD3ZB1cAAakH//wNxbEEBdEGAgPaQfmpBEHUgAGxBgIABakEPdiAAa8FBgIB+cyIFZyIAa0ELdCAJIA5Bb2p0wSIOQdvr//8HbEGAgAFqQQ92Qfw9akH//wNxIA5sQYCAAWpBD3ZrIAUgAEFvanTBIgBB2+v//wdsQYCAAWpBD3ZB/D1qQf//A3EgAGxBgIABakEPdmrBIARBB3RBgH9qwWxBgIABakEPdSEEQQAhCyAIIQALIAEgDTYCFCABIAA2AhAgASAENgIMIAEgBTYCCCABIAk2AgQgASALNgIAC14BAX8CQAJAAkACQCAAQf/8AEoNACAAQcA+Rg0BIABB4N0ARw0CQQQPCwJAIABBgP0ARg0AQQEhASAAQYD3AkYNAyAAQcC7AUcNAkECDwtBAw8LQQYPC0EAIQELIAEL9wUEBn8DfQF/CH0CQAJAIAVDAAAAAFwNACAGQwAAAABcDQAgASAARg0BIARBAnQiCEUNASAAIAEgCPwKAAAPC0EAIQxBfiADQQ8gA0EPShsiDWshDiANQX9zIQ9BASANayEQQQAgDWshESAGIAhBDGwiA0HYwoCAAGoqAgCUIRIgBiADQdTCgIAAaioCAJQhEyAGIANB0MKAgABqKgIAlCEUAkBBACAKIAcgCEYbIAogBSAGWxsgCiACQQ8gAkEPShsiAyANRhsiFUEBSA0AIAUgB0EMbCIIQdjCgIAAaioCAJQhFiAFIAhB1MKAgABqKgIAlCEXIAUgCEHQwoCAAGoqAgCUIRggASADQQJ0ayEHIAEgDUECdGtBCGohDCABIBBBAnRqKgIAIRkgASARQQJ0aioCACEaIAEgD0ECdGoqAgAhGyABIA5BAnRqKgIAIRxBACEIIBUhAgNAIAAgCGogEiAJIAhqKgIAIgUgBZQiBZQgHCAMIAhqKgIAIh2SlCATIAWUIBkgG5KUIBQgBZQgGpQgFkMAAIA/IAWTIgWUIAcgCGoiA0EIaioCACADQXhqKgIAkpQgFyAFlCADQQRqKgIAIANBfGoqAgCSlCAYIAWUIAMqAgCUIAEgCGoqAgCSkpKSkpI4AgAgCEEEaiEIIBshHCAaIRsgGSEaIB0hGSACQX9qIgINAAsgCiEMCwJAIAZDAAAAAFwNACABIABGDQEgBCAVa0ECdCIIRQ0BIAAgFUECdCIDaiABIANqIAj8CgAADwsgBCAMayICQQFIDQAgACAMQQJ0IghqIQNBCCANQQJ0ayEAIAEgCGoiCCAOQQJ0aioCACEbIAggD0ECdGoqAgAhBSAIIBFBAnRqKgIAIRkgCCAQQQJ0aioCACEaA0AgAyASIBsgCCAAaioCACIckpQgEyAFIBqSlCAUIBmUIAgqAgCSkpI4AgAgCEEEaiEIIANBBGohAyAFIRsgGSEFIBohGSAcIRogAkF/aiICDQALCwuQAQEHfwJAIAAoAggiBEEBSA0AIAAoAiAiBUECaiEGIAMgAkEBdGpBf2ohByAAKAJoIQggBS8BACEJQQAhBQNAIAnBIQogASAGLgEAIgkgCmsgAnQgA2wgCCAFIAQgB2xqai0AAEHAAGpsQQJ1NgIAIAZBAmohBiABQQRqIQEgBUEBaiIFIAAoAggiBEgNAAsLCywBAX9B2cOAgAAhAQJAIABBf2pBeEkNAEGgw4CAACAAQQJ0aygCACEBCyABCy8BAX9BgPcCQcAHQQAQv4GAgAAiASgCBEECdCABKAIIQQR0akGAIGogAGxB9AFqC98BAQN/QX8hBEGA9wJBwAdBABC/gYCAACEFAkAgAkECSw0AQXkhBCAARQ0AIAVFDQBBACEEAkAgBSgCBEECdCAFKAIIQQR0akGAIGogAmxB9AFqIgZFDQAgAEEAIAb8CwALIABBADYCICAAIAI2AgggACACNgIEIAAgBTYCACAAIAM2AkggAEKBgICAEDcCMCAAQv////8PNwIoIABBGDYCPCAAQoWAgIAQNwIYIABCgICAgBA3AgwgACAFKAIMNgIkIABBvB9BABCSgYCAABogACABEIyBgIAANgIcCyAEC78MAQl/I4CAgIAAQRBrIgMgAjYCDEF7IQICQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkAgAUHeYGoOLggXFxcHFxcXARcXFwUXFxcXFwYXFxcXFxcXDhcXExcXFxcKCxcXFxcXFxcXDA0ACyABQe6xf2oOGwMWFhYWFggWARYCFhYRDhYWFhYWDxYTFhQWEBYLIAMgAygCDCICQQRqNgIMAkAgAigCACIDQQpNDQBBfw8LIAAgAzYCGAwUCyADIAMoAgwiAUEEajYCDEF/IQIgASgCACIDQQBIDRQgAyAAKAIAKAIITg0UIAAgAzYCIAwTCyADIAMoAgwiAUEEajYCDEF/IQIgASgCACIDQQFIDRMgAyAAKAIAKAIISg0TIAAgAzYCJAwSCyADIAMoAgwiAkEEajYCDAJAIAIoAgAiA0ECTQ0AQX8PCyAAIANFNgIMIAAgA0ECRzYCFAwRCyADIAMoAgwiAkEEajYCDAJAIAIoAgAiA0HkAE0NAEF/DwsgACADNgI4DBALIAMgAygCDCICQQRqNgIMIAAgAigCADYCNAwPCyADIAMoAgwiAkEEajYCDCAAIAIoAgA2AiwMDgsgAyADKAIMIgJBBGo2AgwCQCACKAIAIgNB9ANKDQAgA0F/Rg0AQX8PCyAAIAMgACgCBEGg7w9sIgIgAyACSBs2AigMDQsgAyADKAIMIgJBBGo2AgwCQCACKAIAIgNBfWpBfk8NAEF/DwsgACADNgIIDAwLIAMgAygCDCICQQRqNgIMAkAgAigCACIDQWdqQW9PDQBBfw8LIAAgAzYCPAwLCyADIAMoAgwiAkEEajYCDCACKAIAIAAoAjw2AgAMCgsgAyADKAIMIgJBBGo2AgwCQCACKAIAIgNBAU0NAEF/DwsgACADNgJEDAkLIAMgAygCDCICQQRqNgIMAkAgAigCACIDDQBBfw8LIAMgACgCRDYCAAwICwJAIAAoAgAiAygCBCIEQQJ0IAMoAggiBUEEdGpBgCBqIAAoAgQiBmxBqAFqIgNFDQAgAEHMAGpBACAD/AsACwJAIAUgBmwiA0EBSA0AIANBA3EhB0EAIQgCQCADQQRJDQAgBiAEQQJ0IgIgBUECdGpBgCBqbCEJIAYgBUEDdCACakGAIGpsIQogA0H8////B3EhC0EAIQggACEDA0AgAyAKaiICQfQBakGAgICPfDYCACADIAlqIgFB9AFqQYCAgI98NgIAIAJB+AFqQYCAgI98NgIAIAFB+AFqQYCAgI98NgIAIAJB/AFqQYCAgI98NgIAIAFB/AFqQYCAgI98NgIAIAJBgAJqQYCAgI98NgIAIAFBgAJqQYCAgI98NgIAIANBEGohAyALIAhBBGoiCEcNAAsLIAdFDQAgBiAFQQN0IARBAnQiAmpBgCBqbCAIQQJ0IgFqIABqQfQBaiEDIAYgAiAFQQJ0akGAIGpsIAFqIABqQfQBaiECA0AgA0GAgICPfDYCACACQYCAgI98NgIAIANBBGohAyACQQRqIQIgB0F/aiIHDQALCyAAQQA2AtgBIABCADcCYCAAQYACNgJYIABCgoCAgICAgMA/NwJQQQAPCyADIAMoAgwiAkEEajYCDCAAIAIoAgA2AjAMBgsgAyADKAIMIgFBBGo2AgxBACECIAEoAgAiA0UNBiAAIAMpAgA3AnggAEGwAWogA0E4aikCADcCACAAQagBaiADQTBqKQIANwIAIABBoAFqIANBKGopAgA3AgAgAEGYAWogA0EgaikCADcCACAAQZABaiADQRhqKQIANwIAIABBiAFqIANBEGopAgA3AgAgAEGAAWogA0EIaikCADcCAEEADwsgAyADKAIMIgFBBGo2AgxBACECIAEoAgAiA0UNBSAAIAMpAgA3ArgBQQAPCyADIAMoAgwiAkEEajYCDAJAIAIoAgAiAw0AQX8PCyADIAAoAgA2AgAMAwsgAyADKAIMIgJBBGo2AgwCQCACKAIAIgMNAEF/DwsgAyAAKAJMNgIADAILIAMgAygCDCICQQRqNgIMIAAgAigCADYCQAwBCyADIAMoAgwiAkEEajYCDCAAIAIoAgA2AuwBC0EAIQILIAIL8AcFAn0GfwF9BH8BfSAGKgIAIQggBSoCACEJAkACQCAHDQAgBEEBRw0AIAUqAgRDAAAAAFwNACACQQFIDQEgAkEBcSEKAkACQCACQQFHDQBBACELDAELIANBA3QhDCADQQJ0IQ0gAkH+////B3EhDkEAIQsgASEFIAAhDwNAIAUgDyoCAEMAAABHlCIQIAiTOAIAIAVBBGogDyANaioCAEMAAABHlCIIIAkgEJSTOAIAIAVBCGohBSAPIAxqIQ8gCSAIlCEIIA4gC0ECaiILRw0ACwsgCkUNASABIAtBAnRqIAAgCyADbEECdGoqAgBDAAAAR5QiECAIkzgCACAGIAkgEJQ4AgAPCyACIARtIRECQCAEQQFGDQAgAkECdCIFRQ0AIAFBACAF/AsACwJAIBFBAUgNACARQQFxIRICQAJAIBFBf2oiEw0AQQAhCwwBCyAEQQN0IQwgBEECdCENIANBA3QhDiADQQJ0IQogEUH+////B3EhFEEAIQsgASEFIAAhDwNAIAUgDyoCAEMAAABHlDgCACAFIA1qIA8gCmoqAgBDAAAAR5Q4AgAgBSAMaiEFIA8gDmohDyAUIAtBAmoiC0cNAAsLAkAgEkUNACABIAsgBGxBAnRqIAAgCyADbEECdGoqAgBDAAAAR5Q4AgALIAdFDQAgEUEBcSEUAkACQCATDQBBACEPDAELIARBA3QhDSAEQQJ0IQ4gEUH+////B3EhCkEAIQ8gASEFA0AgBUMAAIBHQwAAgMcgBSoCACIQQwAAgEdeIgsbQwAAgEcgEEMAAIDHXSIMGyIVIBUgECALGyAMGzgCACAFIA5qIgtDAACAR0MAAIDHIAsqAgAiEEMAAIBHXiILG0MAAIBHIBBDAACAx10iDBsiFSAVIBAgCxsgDBs4AgAgBSANaiEFIAogD0ECaiIPRw0ACwsgFEUNACABIA8gBGxBAnRqIgVDAACAR0MAAIDHIAUqAgAiEEMAAIBHXiIFG0MAAIBHIBBDAACAx10iDxsiFSAVIBAgBRsgDxs4AgALIAJBAUgNACACQQNxIQ8CQAJAIAJBBE8NAEEAIQsMAQsgAkH8////B3EhDUEAIQsgASEFA0AgBSAFKgIAIhAgCJM4AgAgBUEEaiIMIAwqAgAiCCAJIBCUkzgCACAFQQhqIgwgDCoCACIQIAkgCJSTOAIAIAVBDGoiDCAMKgIAIgggCSAQlJM4AgAgBUEQaiEFIAkgCJQhCCANIAtBBGoiC0cNAAsLIA9FDQAgASALQQJ0aiEFA0AgBSAFKgIAIhAgCJM4AgAgBUEEaiEFIAkgEJQhCCAPQX9qIg8NAAsLIAYgCDgCAAuVWwolfwF9AX8GfQx/AnwOfwF9Bn8BfSOAgICAAEHQAGsiBiSAgICAACAAKAIIIQcgACgCBCEIIAYiCUEPNgIcIAlBADYCGCAJQQA2AhQgCUEANgIMIAlBADYCCCAJQQA2AgBBfyEKAkAgAUUNACAEQQJIDQBBACELIAAoAgAiDCgCJCINQQBIDQAgACgCICIOQQBHIQ8gACgCJCEQIAwoAiAhESAMKAIEIRIgDCgCCCETIAAoAhwgAmwhFCANQQFqIQ0gDCgCLCECQRAhFQJAA0AgAiALdCAURg0BIBVBCGohFSANIAtBAWoiC0cNAAwCCwsCQAJAIAUNAEEAIRZB6AIhF0EBIRgMAQsgBRClgYCAAEHnAmohFyAFKAIUIAUoAhxnaiICQWBqIRggAkFkakEDdSEWCyASQYAIaiENIARB+wkgBEH7CUgbIhkgFmshGiAAKAIoIQICQAJAAkACQCAAKAIsRQ0AQX8hBCACQX9GDQIgDCgCACIKQQR1IAIgFGxqIApBA3VtIhtBBnUhHAwBC0F/IQQgAkF/Rg0BQQAhGyAZIAIgFGwgGEEAIBhBAUobaiAMKAIAIgpBAnRqIApBA3RtIAAoAjBBAEdrIgogGSAKSBsiCkECIApBAkobIhkgFmshHAsgAiEEDAELQQAhGyAaIRwLIA0gCGwhHUEDIAtrIR4gGUGQA2whAgJAIAUNACAJQSBqIAMgGRCugYCAACAJQSBqIQULIABB9AFqIR8gHUECdCENIBMgCGwhICACIB51ISECQCAbQQFIDQAgACgCNEUNAEECQQAgGEEBRhsiAiAbQQF0IAAoAtABa0EGdSIKIAIgCkobIgIgGk4NACAFIAIgFmoiGRC2gYCAACACIRoLIB8gDWohIiAgQQJ0ISMgISAESCEkIAdBKGwhJUGQAyALdiEmIAYgCEECdCInIBQgEmoiKGxBD2pBcHFrIikiKiSAgICAACAAKgLgASErAkACQAJAAkACQCAUIBJrIAdsIAAoAhwiLG0iA0EBSA0AIANBA3EhDQJAAkAgA0EETw0AQQAhBkMAAAAAIS1DAAAAACEuDAELIANB/P///wdxIQpBACEGQwAAAAAhLSABIQJDAAAAACEuA0AgLSACKgIAIi8gLSAvXRsiLSACQQRqKgIAIjAgLSAwXRsiLSACQQhqKgIAIjEgLSAxXRsiLSACQQxqKgIAIjIgLSAyXRshLSAuIC8gLiAvXhsiLiAwIC4gMF4bIi4gMSAuIDFeGyIuIDIgLiAyXhshLiACQRBqIQIgCiAGQQRqIgZHDQALCwJAIA1FDQAgASAGQQJ0aiECA0AgLSACKgIAIi8gLSAvXRshLSAuIC8gLiAvXhshLiACQQRqIQIgDUF/aiINDQALCyArIC4gLYwiLSAuIC1eG14NBCADQQNxIQ0gA0EETw0BQQAhBkMAAAAAIS1DAAAAACEuDAILQwAAAAAhLkMAAAAAIS0gK0MAAAAAXkUNAgwDCyADQfz///8HcSEKQQAhBkMAAAAAIS0gASECQwAAAAAhLgNAIC0gAioCACIvIC0gL10bIi0gAkEEaioCACIwIC0gMF0bIi0gAkEIaioCACIxIC0gMV0bIi0gAkEMaioCACIyIC0gMl0bIS0gLiAvIC4gL14bIi4gMCAuIDBeGyIuIDEgLiAxXhsiLiAyIC4gMl4bIS4gAkEQaiECIAogBkEEaiIGRw0ACwsgDUUNACABIAZBAnRqIQIDQCAtIAIqAgAiLyAtIC9dGyEtIC4gLyAuIC9eGyEuIAJBBGohAiANQX9qIg0NAAsLIC4gLYwiLSAuIC1eGyErCyASIAhsITMgIiAjaiE0ICEgBCAkGyE1IARBf0YhBCAlQRRqITYgJkFOaiElIAwoAgwhN0EBITgCQAJAIBIgB2wgLG0iBkEBTg0AQwAAAAAhLkMAAAAAIS0MAQsgBkEDcSENAkACQCAGQQRPDQBBACEGQwAAAAAhLUMAAAAAIS4MAQsgASADQQJ0aiECIAZB/P///wdxIQpBACEGQwAAAAAhLUMAAAAAIS4DQCAtIAIqAgAiLyAtIC9dGyItIAJBBGoqAgAiMCAtIDBdGyItIAJBCGoqAgAiMSAtIDFdGyItIAJBDGoqAgAiMiAtIDJdGyEtIC4gLyAuIC9eGyIuIDAgLiAwXhsiLiAxIC4gMV4bIi4gMiAuIDJeGyEuIAJBEGohAiAKIAZBBGoiBkcNAAsLIA1FDQAgASAGQQJ0IANBAnRqaiECA0AgLSACKgIAIi8gLSAvXRshLSAuIC8gLiAvXhshLiACQQRqIQIgDUF/aiINDQALCyAzQQJ0IQIgNCAjaiEkICEgNSAEGyENICUgNmwhBiAQIDdIIQogGUEDdCEzIAAgLiAtjCItIC4gLV4bIi44AuABICsgLiArIC5eGyEuAkAgGEEBRw0AQQEhOCAFIC5DAACAP0EBIAAoAjx0spVfIgRBDxCxgYCAAAJAIAQNAEEBIRgMAQsCQAJAIBtBAU4NACAzIRgMAQtBAiEaIAUgGSAWQQJqIgQgGSAESBsiHBC2gYCAACAcIRkgHEEDdCIYITMLIAUgGCAFKAIcZ2tBIGo2AhRBACE4CyAfIAJqIQMgJCAjaiE1QQEgC3QhOSANIAZrITogECA3IAobISwgKEECdCEKIAxBEGohBCApIBJBAnRqIQ1BACECIAhBASAIQQFKGyIWIQYDQCABIAJqIA0gFCAIIAAoAhwgBCAAIAJqQcABaiAAKAIQQQBHIC5DAACAR15xEJOBgIAAIA0gCmohDSACQQRqIQIgBkF/aiIGDQALAkACQAJAAkAgACgCQEUNACAaQQNKDQELQQAhAiAaIAdBDGxMDQIgDg0CIDhBAXNFDQEMAgtBACECIA4NASA4QQFzDQELQQAhAiAAKAIUDQAgACgCGEEESiECCyAAICkgAyAIIBQgACgCZCI7IAlBHGogCUEYaiAJQRBqIAIgGiAAQfgAaiI8EJWBgIAAIT0CQAJAIAkqAhgiMkPNzMw+Xg0AIAAqAmxDzczMPl4NAEEBIT4MAQsCQCA8KAIARQ0AIAAqAny7RDMzMzMzM9M/ZA0AQQEhPgwBCyAAKAJotyI/RClcj8L1KPQ/oiAJKAIctyJAY0F/cyA/REjhehSuR+k/oiBAZEEBc3EhPgsCQAJAID0NACAODQEgGEEQaiAzSg0BIAVBAEEBELGBgIAADAELIAVBAUEBELGBgIAAIAVBGyAJKAIcIgJBAWoiDWciBmsiAUEGELOBgIAAIAVBcCABdCANakEfIAZrELSBgIAAIAkgAjYCHCAFIAkoAhBBAxC0gYCAACAFIDtB18SAgABBAhCygYCAAAtBASFBQQEhAgJAIAAoAhgiDUEBSA0AQQEhAiAAKAJADQBBACECAkAgDkUNACAcQQ5KDQAgACgCuAFBAkchAgsgKSAoIAggCUEIaiAJQQxqIAIgCRCWgYCAAEUhAgsCQAJAAkAgC0UNAEEBISggBSgCFCAFKAIcZ2pBY2ogM0oiQSACckEBcUUNAQsgKiAnIBRsQQ9qQXBxayIfIgIkgICAgAAgAiAgQQJ0IkJBD2pBcHEiDWsiKiICJICAgIAAIAIgDWsiQyICJICAgIAAIAIgEyAHbCJEQQJ0IkVBD2pBcHFrIkYiCiSAgICAAEEAIUdBASFIQQAhKEEAIUlBACFKDAELICogJyAUbEEPakFwcWsiHyICJICAgIAAIAIgIEECdCJCQQ9qQXBxIgZrIioiAiSAgICAACACIAZrIkMiAiSAgICAACACIBMgB2wiREECdCJFQQ9qQXBxayJGIgokgICAgAACQCANQQhODQBBACFIIDkhR0EBIUlBACFBQQAhSgwBC0EAIUggDEEAICkgHyAHIAggCyAAKAIcIAAoAkgQl4GAgAAgDCAfICogLCAHIAsgACgCSBD/gICAACAMICwgECAqIEYgBxDPgYCAAEEBISgCQCBEQQFIDQAgREEDcSENIAuzIS1BACFIQQAhBgJAIERBBEkNACBEQfz///8HcSEEQQAhBiAtQwAAAD+UIS4gRiECA0AgAiAuIAIqAgCSOAIAIAJBBGoiASAuIAEqAgCSOAIAIAJBCGoiASAuIAEqAgCSOAIAIAJBDGoiASAuIAEqAgCSOAIAIAJBEGohAiAEIAZBBGoiBkcNAAsLAkAgDUUNACBGIAZBAnRqIQIgLUMAAAA/lCEuA0AgAiAuIAIqAgCSOAIAIAJBBGohAiANQX9qIg0NAAsLQQEhKAsgOSFHQQEhSUEAIUFBASFKCyAMIEcgKSAfIAcgCCALIAAoAhwgACgCSBCXgYCAAAJAIAhBAkYgB0EBRnEiS0EBRw0AIAlBADYCDAsgDCAfICogLCAHIAsgACgCSBD/gICAAAJAIAAoAkBFDQAgEEEDSA0AIBBBAXEhBCAqKgIAQxe30TiUIS5BAiENAkAgEEEDRg0AICpBDGohAiAQQf7///8HcSEBQQIhDQNAIAIgAioCACItIC4gLSAuXRsiLUN9HZAmIC1DfR2QJl4bOAIAIAJBfGoiBiAGKgIAIi0gLiAtIC5dGyItQ30dkCYgLUN9HZAmXhs4AgAgAkEIaiECIAEgDUECaiINRw0ACwsgBEUNACAqIA1BAnRqIgIgAioCACItIC4gLSAuXRsiLkN9HZAmIC5DfR2QJl4bOAIACyAMICwgECAqIEMgBxDPgYCAACAKIEVBD2pBcHFrIiYiTCSAgICAAAJAIBBBAnQiTUUiTg0AICZBACBN/AsACwJAAkACQAJAAkACQCAORQ0AIAAoAkAhAgwBCyAAKAJAIQIgACgC7AEiJ0UNAAJAIAJFDQBBASEPQwAAAAAhTwwECyAAKAJcIlBBAiBQQQJKGyFRQQEhIwJAAkAgB0EBTg0AQwAAAAAhLUMAAAAAIS5DAAAAACEvDAELIBNBAnQhUkEBIFFrIVMgEUECaiFUIBEvAQAhVUEAISUgJyEYQQAhBEMAAAAAIS9DAAAAACEtA0AgGCECIFMhDSBUIQYgUSEBIFUhCgNAIAIqAgAiLkMAAIA+QwAAAMAgLkMAAADAXiIDG0MAAIA+IC5DAACAPl0iIRsiLiADGyAuICEbIi5DAAAAP5QgLiAuQwAAAABeGyIuIA2ylCAvkiEvIArBIQMgLiAGLgEAIgogA2siA7KUIC2SIS0gAkEEaiECIA1BAmohDSAGQQJqIQYgAyAEaiEEIAFBf2oiAQ0ACyAYIFJqIRggJUEBaiIlIAdHDQALIC9DAADAQJQhLiAEsiEvCyARQQJqIQIgESBRQQF0ai4BAEECbcEhBgNAICNBf2ohIyACLgEAIQ0gAkECaiECIA0gBkgNAAsgLiBRIAdsIFFBf2psIFFBAWpsspVDAAAAP5QiLkO28/08IC5DtvP9PF0bIi5DtvP9vCAuQ7bz/bxeGyEwICcgE0ECdGohASAtIC+VQ83MTD6SIS9BACECIFEhDUEAIQYDQCAwICOylCAvkiEtICcgAmoqAgAhLgJAIAdBAkcNACAuIAEgAmoqAgAiMSAuIDFeGyEuCwJAIC5DAAAAACAuQwAAAABdGyAtkyIuQwAAgD5eRQ0AICYgAmogLkMAAIC+kjgCACAGQQFqIQYLICNBAWohIyACQQRqIQIgDUF/aiINDQALAkAgBkEDSA0AAkAgL0MAAIA+kiIvQwAAAABeDQAgUUEDcSENQQAhBgJAIFBBBEgNACBRQfz///8HcSEKQQAhBiAmIQIDQCACQwAAAAAgAioCAEMAAIC+kiIuIC5DAAAAAF0bOAIAIAJBBGoiAUMAAAAAIAEqAgBDAACAvpIiLiAuQwAAAABdGzgCACACQQhqIgFDAAAAACABKgIAQwAAgL6SIi4gLkMAAAAAXRs4AgAgAkEMaiIBQwAAAAAgASoCAEMAAIC+kiIuIC5DAAAAAF0bOAIAIAJBEGohAiAKIAZBBGoiBkcNAAsLIA1FDQEgJiAGQQJ0aiECA0AgAkMAAAAAIAIqAgBDAACAvpIiLiAuQwAAAABdGzgCACACQQRqIQIgDUF/aiINDQAMAgsLAkAgUUECdCICRQ0AICZBACAC/AsAC0MAAAAAIS9DAAAAACEwCyAwQwAAgEKUIU8gL0PNzEw+kiErDAELQwAAAAAhTyACDQFDAAAAACErC0MAAAAAIS0CQCAQIA5MDQBDAAAAACALs0MAAAA/lCBIGyEwIBNBAnQhBiAQIA5rIQ0gQyAOQQJ0aiECQwAAIMEhLkMAAAAAIS0DQCAuQwAAgL+SIi4gAioCACAwkyIvIC4gL14bIS4CQCAHQQJHDQAgLiACIAZqKgIAIDCTIi8gLiAvXhshLgsgAkEEaiECIC0gLpIhLSANQX9qIg0NAAsLIABDAABAQEMAAMC/IC0gECAOa7KVIAAqAvABIi6TIi0gLUMAAMC/XRsiLSAtQwAAQEBeGyJWQwrXozyUIC6SOALwAQwCC0EBIQ8LQwAAAAAhK0MAAAAAIVYLAkAgSg0AIEVFDQAgRiBDIEX8CgAACwJAIAtFDQACQCBJIAUoAhQgBSgCHGdqQWNqIgIgM0pyDQBBACEoIAAoAhhBBUggD3JBAXENACBDICIgEyAQIAcQmIGAgABFDQAgDCA5ICkgHyAHIAggCyAAKAIcIAAoAkgQl4GAgAAgDCAfICogLCAHIAsgACgCSBD/gICAACAMICwgECAqIEMgBxDPgYCAAEEBISgCQCBEQQFIDQAgREEDcSENIAuzIS1BACEGAkAgREEESQ0AIERB/P///wdxIQpBACEGIC1DAAAAP5QhLiBGIQIDQCACIC4gAioCAJI4AgAgAkEEaiIBIC4gASoCAJI4AgAgAkEIaiIBIC4gASoCAJI4AgAgAkEMaiIBIC4gASoCAJI4AgAgAkEQaiECIAogBkEEaiIGRw0ACwsgDUUNACBGIAZBAnRqIQIgLUMAAAA/lCEuA0AgAiAuIAIqAgCSOAIAIAJBBGohAiANQX9qIg0NAAsLIAlBzZmz8gM2AgggBSgCFCAFKAIcZ2pBY2ohAiA5IUcLIAIgM0oNACAFIChBAxCxgYCAAAsgTCAHIBRsQQJ0QQ9qQXBxayInIg0kgICAgAAgDCAfICcgKiAsIAcgORCAgYCAAAJAAkACQCAcIAdBD2xIDQAgDkUNAQsgACgCQCEGQQAhAQwBCyAAKAIYQQFKIAAoAkAiBkVxIQELIA0gE0ECdCJRQQ9qQXBxIgJrIiUiDSSAgICAACANIAJrIg0iCiSAgICAACAKIAJrIkoiCiSAgICAACBDIEYgEyAOIBAgByAlIAAoAjwgDCgCOCAoIAAoAiwgACgCNCARIAsgHCAJQQRqIAYgJiA8IA0gShCZgYCAACExIAogAmsiDyIjJICAgIAAAkACQCABRQ0AIAwgLCAoIA9BgKABIBxtIgJBzgAgAkHOAEobQQJqICcgFCALIAkqAgggCSgCDCANEJqBgIAAIUYgNyAQTg0BIA8gLEECdGoiAkF8aigCACENICwhAQJAIBAgLGtBB3EiBkUNACAsIAZqIQEDQCACIA02AgAgAkEEaiECIAZBf2oiBg0ACwsgLCAQa0F4Sw0BIBAgAWshBiAPIAFBAnRqIQIDQCACIA02AgAgAkEcaiANNgIAIAJBGGogDTYCACACQRRqIA02AgAgAkEQaiANNgIAIAJBDGogDTYCACACQQhqIA02AgAgAkEEaiANNgIAIAJBIGohAiAGQXhqIgYNAAwCCwsCQCAORQ0AIAkoAgBFDQACQCAQQQFODQBBACFGDAILIBBBB3EhDUEAIUZBACEGAkAgEEF/akEHSQ0AIBBB+P///wdxIQFBACEGIA8hAgNAIAJCgYCAgBA3AwAgAkEYakKBgICAEDcDACACQRBqQoGAgIAQNwMAIAJBCGpCgYCAgBA3AwAgAkEgaiECIAEgBkEIaiIGRw0ACwsgDUUNASAPIAZBAnRqIQIDQCACQQE2AgAgAkEEaiECIA1Bf2oiDQ0ADAILCwJAIA5FDQAgHEEOSg0AIAAoArgBQQJGDQAgKCFGIBBBAUgNASAoIUYgTg0BIA9BACBN/AsAICghRgwBCwJAIBBBAU4NAEEAIUYMAQsgEEEHcSENQQAhRkEAIQYCQCAQQX9qQQdJDQAgEEH4////B3EhAUEAIQYgDyECA0AgAiAoNgIAIAJBHGogKDYCACACQRhqICg2AgAgAkEUaiAoNgIAIAJBEGogKDYCACACQQxqICg2AgAgAkEIaiAoNgIAIAJBBGogKDYCACACQSBqIQIgASAGQQhqIgZHDQALCyANRQ0AIA8gBkECdGohAgNAIAIgKDYCACACQQRqIQIgDUF/aiINDQALCyAAQeQAaiE3IB1BAnQgDkECdCICaiAAakH0AWohBCAIIBNBDGwgEkECdGpBgCBqbCACaiAAakH0AWohAyAHQQEgB0EBShshGCATQQJ0IQogECAOayEmIEMgAmohISAjIEVBD2pBcHFrIikiRSSAgICAAEEAIR8DQAJAIBAgDkwiIw0AICEhAiAEIQ0gAyEGICYhAQNAAkAgAioCACIuIA0qAgCTi0MAAABAXUUNACACIC4gBioCAEMAAIC+lJI4AgALIAJBBGohAiANQQRqIQ0gBkEEaiEGIAFBf2oiAQ0ACwsgISAKaiEhIAQgCmohBCADIApqIQMgH0EBaiIfIBhHDQALIAwgDiAQICwgQyAiIDMgKSAFIAcgCyAaIAAoAgwgAEHUAGogACgCGEEDSiAAKAI4IAAoAkAQyIGAgABBACEfIAtBAEcgBSgCFCAFKAIcZ2pBYGoiBkECQQQgKBsiAWoiAkEBaiAFKAIEQQN0Ig1NcSEhQQAhBAJAICMNACAPIA5BAnRqIQoCQAJAIAIgDSAhayIDSw0AIAUgCigCACABELGBgIAAIAUoAhQgBSgCHGdqQWBqIQYgCigCACEEDAELQQAhBCAKQQA2AgALIA5BAWogEEYNAEEEQQUgKBshASAOQX9zIBBqIQ0gDkECdCAPakEEaiECIAQhCgNAAkACQCAGIAFqIANLDQAgBSACKAIAIApzIAEQsYGAgAAgAigCACIKIARyIQQgBSgCFCAFKAIcZ2pBYGohBgwBCyACIAo2AgALIAJBBGohAiANQX9qIg0NAAsLAkAgIUUNAEGAw4CAACAEIChBAnRqIBVqaiICQXBqLQAAIAJBcmotAABGDQAgBSBGQQEQsYGAgAAgRkEBdCEfCwJAICMNACAfIChBAnRyIQ0gDiEBAkAgECAOa0EDcSIGRQ0AIA4gBmohASAPIA5BAnRqIQIDQCACQYDDgIAAIBUgDSACKAIAampqQXBqLAAANgIAIAJBBGohAiAGQX9qIgYNAAsLIA4gEGtBfEsNACAQIAFrIQYgDyABQQJ0aiECA0AgAkGAw4CAACAVIA0gAigCAGpqakFwaiwAADYCACACQQRqIgFBgMOAgAAgFSANIAEoAgBqampBcGosAAA2AgAgAkEIaiIBQYDDgIAAIBUgDSABKAIAampqQXBqLAAANgIAIAJBDGoiAUGAw4CAACAVIA0gASgCAGpqakFwaiwAADYCACACQRBqIQIgBkF8aiIGDQALCwJAIAUoAhQgBSgCHGdqQWRqIDNKDQACQAJAIAAoAkBFDQBBAiECIABBAjYCUCAAQQA2AmQMAQsCQAJAAkACQCAORQ0AIAAoAhhFDQIgKA0BQQMhAgwDCyAAKAIYIQICQAJAIEcNACACQQNIDQAgGiAHQQpsTg0BCyACRQ0CDAELIAwgJyAAQdgAaiAAKAJQIABB4ABqIDcgPSAsIAcgOSBKEIOBgIAAIQIMAgtBAiECDAELQQAhAgsgACACNgJQCyAFIAJB2sSAgABBBRCygYCAAAsCQCAAKAJARQ0AICVBCCAcQQNtIBxBGkobNgIACyBFIFFBD2pBcHFrIhoiRSSAgICAACAMIBogCyAHEI6BgIAAIDNBA3QhH0EAIQMgBRClgYCAACEBAkAgIw0AQQAhA0EGIQQgDiECA0AgAiINQQFqIQIgJSANQQJ0IgpqIQYCQAJAIARBA3QgAWogHyADa0gNAEEAIQ0MAQsCQCAaIApqIiwoAgBBAU4NAEEAIQ0MAQsgESANQQF0ai4BACEhIBEgAkEBdGouAQAhJkEAIQ0gBSAGKAIAIgpBAEogBBCxgYCAACAFEKWBgIAAIQEgCkEBSA0AAkACQCABQQhqIB8gAyAmICFrIAdsIAt0Ig1BA3QiCiANQTAgDUEwShsiDSAKIA1IGyIhaiINayIcTg0AICEgLCgCAE4NAEEBIQpBACEmICEhDQJAA0AgBSAKIAYoAgAiM0hBARCxgYCAACAFEKWBgIAAIQEgCiAzTg0BAkAgAUEIaiAcICYgIWsiM2pODQAgCkEBaiEKIDMhJiANICFqIg0gLCgCAE4NAgwBCwsgIUEBdCIKICZrIQ0gAyAKaiAmayEDDAILIAMgDWohAwwBCyANIQMgISENCyAEQQMgBEEDShtBf2ohBAsgBiANNgIAIAIgEEcNAAsLAkAgB0ECRw0AAkAgC0UNACAUQQJ0IQYgDCgCICIhLwEAIQRDfR2QJiEvQQAhCkN9HZAmITADQCAEwSECAkAgISAKQQFqIgpBAXRqLgEAIgQgC3QiDSACIAt0IgJMDQAgDSACayENICcgAkECdGohAgNAIDAgAioCACIuIAIgBmoqAgAiLZKLIC4gLZOLkpIhMCACQQRqIQIgLyAuiyAti5KSIS8gDUF/aiINDQALCyAKQQ1HDQALIAkgMEP3BDU/lCAhLgEaIAtBAWp0IgJBBUENIAtBAUYbarKUIC8gArKUXjYCFAsgACAQIA4gOkHoB22yQeDEgIAAQcDFgIAAQRUgACgC6AEQ/YCAgAAiAiAOIAJKGyICIBAgAkgbNgLoAQtBBSEGAkAgAUEwaiAfIANrSg0AAkACQAJAIA5BAEoNACAAKAJARQ0BCyAAQQA2AuQBQQUhBgwBCyAMICcgQyAQIAsgByAUIDwgAEHkAWogCSoCCCAAKALoASBPIDoQm4GAgAAhBgsgBSAGQZTGgIAAQQcQsoGAgAAgBRClgYCAACEBCwJAIBtBAUgNAEH7CSAediECIAwoAiQhCgJAAkAgDg0AIBsgNkEDdGshDQwBCyAHQbh/bCAbakFgaiINQQAgDUEAShshDQsgGSACSCEfIAogC2shIQJAIAAoAjQiBEUNACAAKALYASAhdSANaiENCyAZIAIgHxshAgJAAkAgDg0AIAwoAiAiHyAAKAJcIgogDCgCCCIcIAobIiZBAXRqLgEAIQogACgC6AEhLAJAIAdBAkcNACAfICwgJiAsICZIG0EBdGouAQAgCmohCgsgCiALdCERIA0hCgJAIDwoAgAiQ0UNACANIQogACoCiAEiLrtEmpmZmZmZ2T9jRQ0AIA1DzczMPiAukyARQQN0spT8AGshCgsgACgCQCEzIAkqAgghLiAJKAIEIRkCQCAHQQJHDQAgCiAfICwgJiAsICZIGyImQQF0ai4BACALdCAmayImskPNzEw/lCARspUgCrKUIi0gACoC5AEiL0MAAIA/IC9DAACAP10bQ83MzL2SICZBA3SylCIvIC0gL10b/ABrIQoLIAAoAuwBISYgGUFtIAt0aiAKaiIKIC5DWDk0vZIgCrKU/ABqIQoCQCAzDQAgQ0UNACAKQQAgEUEDdLIiLUPNzEw/lPwAID4baiAtQ5qZmT+UQ4/C9b0gACoCfEOamRm+kiItQ4/C9b2SIC1DAAAAAF0blPwAaiEKCwJAIDNBAEcgJkVyIiwNACAKQQRtIjMgCiArIBFBA3SylPwAaiIKIDMgCkobIQoLIAogCkECdSIzIDEgByAfIBxBAXRqQXxqLgEAIAt0bEEDdLKU/AAiHyAzIB9KGyIfIAogH0gbIQoCQCAERSAsQQFzcg0AIA0gCiANa7JDH4UrP5T8AGohCgsCQCAuQ83MTD5dRQ0AICYNAEMAAAAAIS4CQCA6QYDuBUoNAEGA7gUgOmsiH0GA+gEgH0GA+gFJG7NDmAlQNpQhLgsgCiBWIC6UIAqylPwAaiEKCyANQQF0Ig0gCiANIApIGyEKIAMgAWpBP2pBBnVBAmohDQwBC0HgACAedkEAIAAoArwBIgpB5ABIGyANakGQASAedkEAIApB5ABKG2sgCSoCCCIuQwAAgL6SQwAAyEOU/ABqIg1BkAMgDUGQA0obIA0gLkMzMzM/XhshCiADIAFqQT9qQQZ1QQJqIg0gFyADakEGdSIDIA0gA0obIQ0LIAIgDSAKIAFqIgpBIGpBBnUiASANIAFKGyINIAIgDUgbIQFDbxKDOiEuAkAgACgC3AEiDUHJB0oNACAAIA1BAWo2AtwBQwAAgD8gDUEVarKVIS4LIAFBAiA4GyENAkAgBEUNACAAIAFBBnRBgAEgOBsgG2sgACgC0AFqIgE2AtABIAAgACgC1AEiBCAuIAogG2tBACA4GyAhdCAEIAAoAtgBamuylPwAaiIKNgLUASAAQQAgCms2AtgBIAFBf0oNACAAQQA2AtABQQAgAWtBBnZBACA4GyANaiENCyAFIAIgDSACIA1IGyIZELaBgIAACyBFIFFBD2pBcHEiDWsiAiIBJICAgIAAIAEgDWsiASIKJICAgIAAIAogDWsiBCIfJICAgIAAIBlBBnQiJiAFEKWBgIAAQX9zaiEKQQAhAwJAAkAgKA0AQQAhDQwBC0EAIQ0gC0ECSQ0AQQhBACAKIBVOIgMbIQ0LIAogDWshCgJAAkAgPCgCAA0AIBBBf2ohIQwBCwJAAkAgOiAHQYD6AWxODQBBDSEhDAELAkAgOiAHQYD3AmxODQBBECEhDAELAkAgOiAHQeDUA2xODQBBEiEhDAELQRNBFCA6IAdBgPEEbEgbISELIAAoApgBIhUgISAVICFKGyEhCyAMIA4gECAlIBogBiAAQegBaiAJQRRqIAogCUEQaiABIAIgBCAHIAsgBUEBIAAoAlxBASAhIAAoAkAbENCBgIAAIgYhCgJAIAAoAlwiIUUNACAhQQFqIgogIUF/aiIhIAYgISAGShsiISAKICFIGyEKCyAZQQN0ISEgACAKNgJcIAwgDiAQICIgKSACIAUgBxDKgYCAAEEAIQogHyBEQQ9qQXBxayIVJICAgIAAQQEgDCAOIBAgJyAnIBRBAnRqQQAgB0ECRhsgFSAqIAEgRyAAKAJQIAkoAhQgACgC6AEgDyAmIA1rIAkoAhAgBSALIAYgAEHMAGogACgCGCAAKAJIIAAoAkQQhYGAgAACQCADRQ0AIAUgACgCdEECSEEBELSBgIAACyAMIA4gECAiICkgAiAEICEgBSgCFCAFKAIcZ2prQSBqIAUgBxDLgYCAAAJAIEJFIh8NACA1QQAgQvwLAAsgCCATQQxsIBJBAnRqQYAgamwgAGpB9AFqIRUgECAOa0EBcSEDIBAgDkEBaiIURiEhQQAhBANAAkAgIw0AIA4hAgJAIANFDQAgNSAOIAQgE2xqQQJ0IgJqQwAAAD9DAAAAvyApIAJqKgIAIi5DAAAAP14iAhtDAAAAPyAuQwAAAL9dIg0bIi0gLSAuIAIbIA0bOAIAIBQhAgsgIQ0AIBAgAmshBiAVIAIgCmpBAnQiDWohAiApIA1qIQ0DQCACQwAAAD9DAAAAvyANKgIAIi5DAAAAP14iARtDAAAAPyAuQwAAAL9dIgsbIi0gLSAuIAEbIAsbOAIAIAJBBGpDAAAAP0MAAAC/IA1BBGoqAgAiLkMAAAA/XiIBG0MAAAA/IC5DAAAAv10iCxsiLSAtIC4gARsgCxs4AgAgAkEIaiECIA1BCGohDSAGQX5qIgYNAAsLIAogE2ohCiAEQQFqIgQgGEcNAAsCQCA4IERBAUhyDQAgREEHcSENQQAhBgJAIERBf2pBB0kNACBEQfj///8HcSEBIAAgHUECdGohAkEAIQYDQCACQYwCakKAgICPjICA8EE3AgAgAkGEAmpCgICAj4yAgPBBNwIAIAJB/AFqQoCAgI+MgIDwQTcCACACQfQBakKAgICPjICA8EE3AgAgAkEgaiECIAEgBkEIaiIGRw0ACwsgDUUNACAdQQJ0IAZBAnRqIABqQfQBaiECA0AgAkGAgICPfDYCACACQQRqIQIgDUF/aiINDQALCyAAIDs2AnAgACAyOAJsIAAgCSgCHDYCaAJAIEtFDQAgUUUNACAiIBNBAnRqICIgUfwKAAALAkACQCAoRQ0AICBBAUgNASAgQQFxIQpBACEGAkAgIEEBRg0AIAggEkECdCATQQJ0akGAIGpsIABqQfgBaiECICBB/v///wdxIQsgHUECdCAAakH4AWohDUEAIQYDQCACQXxqIgEgASoCACIuIA1BfGoqAgAiLSAuIC1dGzgCACACIAIqAgAiLiANKgIAIi0gLiAtXRs4AgAgDUEIaiENIAJBCGohAiALIAZBAmoiBkcNAAsLIApFDQEgNCAGQQJ0IgJqIg0gDSoCACIuICIgAmoqAgAiLSAuIC1dGzgCAAwBCwJAIB8NACAkIDQgQvwKAAALIB8NACA0ICIgQvwKAAALIAggEkECdCICIBNBAnQiGGpBgCBqbCIKIABqQfQBaiEMIAggE0EDdCACakGAIGpsIgQgAGpB9AFqISkgDkH+////B3EhAyAOQQFxIR8gEyAQa0EBcSEIIB1BAnQiISAAakH0AWohJSATIBBBAWoiJkYhB0EAISMgACEUQQAhFQNAAkAgDkEBSA0AQQAhDQJAIA5BAUYNAEEAIQ0gFCECA0AgAiAhaiIGQfQBakEANgIAIAIgBGoiAUH0AWpBgICAj3w2AgAgAiAKaiILQfQBakGAgICPfDYCACAGQfgBakEANgIAIAFB+AFqQYCAgI98NgIAIAtB+AFqQYCAgI98NgIAIAJBCGohAiADIA1BAmoiDUcNAAsLIB9FDQAgIiANIBUgE2xqQQJ0IgJqQQA2AgAgJCACakGAgICPfDYCACA0IAJqQYCAgI98NgIACwJAIBMgEEwNACAQIQICQCAIRQ0AICIgECAVIBNsakECdCICakEANgIAICQgAmpBgICAj3w2AgAgNCACakGAgICPfDYCACAmIQILIAcNACATIAJrIQEgDCACICNqQQJ0IgZqIQIgKSAGaiENICUgBmohBgNAIAZBADYCACANQYCAgI98NgIAIAJBgICAj3w2AgAgBkEEakEANgIAIA1BBGpBgICAj3w2AgAgAkEEakGAgICPfDYCACACQQhqIQIgDUEIaiENIAZBCGohBiABQX5qIgENAAsLICMgE2ohIyAUIBhqIRQgFUEBaiIVIBZHDQALQQAhAgJAIEFBf3MgKEVxDQAgACgCdEEBaiECCyAAIAI2AnQgACAFKAIcNgJMIAUQt4GAgABBfSAZIAUoAiwbIQoLIAlB0ABqJICAgIAAIAoLjAkED38CfQJ/An0jgICAgABBEGsiDCSAgICAACAAKAIAIg0oAgQhDiAMIAMgBEGACGoiD2xBAnRBD2pBcHFrIhAiESSAgICAACAMIhIgECAPQQJ0ajYCDCASIBA2AgggBEECdCETIA4gBGoiFEECdCEVIAEgDkECdGohECASQQhqIQwgA0EBIANBAUobIhYhFyACIRgDQCAMKAIAIRkCQEGAIEUNACAZIBhBgCD8CgAACwJAIBNFIhoNACAZQYAgaiAQIBP8CgAACyAMQQRqIQwgECAVaiEQIBhBgCBqIRggF0F/aiIXDQALAkACQCAJRQ0AIBEgD0EBdEF8cUEPakFwcWsiDCSAgICAACASQQhqIAwgDyADIAAoAkgQwIGAgAAgDEGAEGogDCAEQdMHIBJBBGogACgCSBDCgYCAACASQYAIIBIoAgRrNgIEIAxBgAhBDyAEIBJBBGogACgCaCAAKgJsIAAoAkgQw4GAgAAhGwJAIBIoAgQiDEH/B0gNAEH+ByEMIBJB/gc2AgQLQwAAAAAgG0MzMzM/lCIbQwAAAD+UIBsgACgCOCIQQQJKGyIbQwAAAD+UIBsgEEEEShsgEEEIShshGwwBC0EPIQwgEkEPNgIEQwAAAAAhGwsCQCALKAIARQ0AIBsgCyoCKJQhGwtDAAAAACEcQQAhHUEAIR4CQCAbQ83MzD5DzcxMPiAMIAAoAmhrIhAgEEEfdSIQcyAQa0EKbCAMShsiH0PNzMw9kiAfIApBGUgbQ83MzD2SIB8gCkEjSBsiIEPNzMy9kiAgIAAqAmwiH0PNzMw+XhsiIEPNzMy9kiAgIB9DzcwMP14bIiBDzcxMPiAgQ83MTD5eG10NAEEBIR0gHyAbIBsgH5OLQ83MzD1dG0MAAABClEMAAEBAlUMAAAA/ko78ACIMQQEgDEEBShsiDEEIIAxBCEgbIgxBf2ohHiAMs0MAAMA9lCEcCyAUQQJ0IQNBgCAgE2shFCAOQQJ0IRggAEH0AWohGUGAICAEQQJ0Ig9rIREgHIwhGyASQQhqIQwgBEGBCEghCgNAIAAgACgCaCIQQQ8gEEEPShs2AmggDSgCLCEQAkAgGEUiFQ0AIAEgGSAY/AoAAAsgECAOayEXAkAgECAORg0AIAEgGGogDCgCAEGAIGogACgCaCILIAsgFyAAKgJsjCIfIB8gACgCcCIJIAlBAEEAIAAoAkgQjYGAgAALIAEgEEECdGogDCgCACAXQQJ0akGAIGogACgCaCASKAIEIAQgF2sgACoCbIwgGyAAKAJwIAUgDSgCPCAOIAAoAkgQjYGAgAACQCAVDQAgGSABIA9qIBj8CgAACwJAAkAgCg0AQYAgRQ0BIAIgDCgCACAPakGAIPwKAAAMAQsCQCAURQ0AIAIgAiAPaiAU/AoAAAsgGg0AIAIgEWogDCgCAEGAIGogE/wKAAALIAEgA2ohASAZIBhqIRkgDEEEaiEMIAJBgCBqIQIgFkF/aiIWDQALIAYgEigCBDYCACAHIBw4AgAgCCAeNgIAIBJBEGokgICAgAAgHQvFCQoFfwF9CX8BfQF8CH8BfQF/BH0DfyOAgICAACIHGiAHIAFBAnQiCEEPakFwcWsiCRpBACEKIAZBADYCACABQQJtIQdBACELAkAgAkEBSA0AQwAAAD1DAACAPSAFGyEMIAlBMGohDSAHQQFqIQ4gB0H+////A3EhDyABQf7///8HcSEQIAdBAXEhESABQQFxIRIgB0F7aiETIAdBBmxBmn9qIRQgB0ECdCAJakF8aiEVIAeyIRYgB7chFyAJQShqIRggCUEgaiEZIAlBGGohGiAJQRBqIRsgCUEIaiEcIAFBJEghHSAAIR5BACEKQQAhHwNAAkACQCABQQBKDQAgCUIANwMAIBhCADcDACAZQgA3AwAgGkIANwMAIBtCADcDACAcQgA3AwBBACEHDAELQwAAAAAhIEEAISECQCABQQFGDQAgCSEHIB4hC0MAAAAAISIDQCAHICAgCyoCACIjkiIkOAIAIAdBBGogIiAkkiAjICOSkyALQQRqKgIAIiCSIiU4AgAgICAlQwAAAL+UkiEiICMgJEMAAAC/lJIgJZIgICAgkpMhICAHQQhqIQcgC0EIaiELIBAgIUECaiIhRw0ACwsCQCASRQ0AIAkgIUECdCIHaiAgIAAgHyABbEECdGogB2oqAgCSOAIACyAJQgA3AwAgGEIANwMAIBlCADcDACAaQgA3AwAgG0IANwMAIBxCADcDAAJAIAFBAk4NAEEAIQcMAQtDAAAAACEjQQAhIQJAAkAgEEECRw0AQwAAAAAhJAwBCyAJIQsgCSEHQwAAAAAhJANAIAsgDCAHKgIAIiAgIJQgB0EEaioCACIgICCUkiIgICOTlCAjkiIjOAIAIAtBBGogDCAHQQhqKgIAIiUgJZQgB0EMaioCACIlICWUkiIlICOTlCAjkiIjOAIAICQgIJIgJZIhJCALQQhqIQsgB0EQaiEHIA8gIUECaiIhRw0ACwsCQCARRQ0AIAkgIUECdGogDCAJICFBA3RqIgcqAgAiICAglCAHKgIEIiAgIJSSIiAgI5OUICOSOAIAICQgIJIhJAtDAAAAACEjIBUhByAOIQtDAAAAACEgA0AgByAHKgIAICOTQwAAAD6UICOSIiM4AgAgICAjICAgI14bISAgB0F8aiEHIAtBf2oiC0EBSg0ACwJAIB1FDQBBACEHDAELIBYgJCAglLtEAAAAAAAA4D+iIBein7ZDfR2QJpKVQwAAgEKUISBBACELQQwhISANIQcDQCALQf8AQQAgICAHKgIAQ30dkCaSlI4iI0MAAP5CXiImG0H/ACAjQwAAAABdIicbIiggKCAj/AAgJhsgJxtBoMaAgABqLQAAaiELIAdBEGohByAhQQRqIiEgE0gNAAsgC0EIdCEHCwJAIAcgFG0iByAKTA0AIAQgHzYCACAHIQoLIB4gCGohHiAfQQFqIh8gAkcNAAsgCkHIAUohCyAFRQ0AIApBt35qQY4DSw0AIAZBATYCAEEAIQsLIANEAAAAAAAAAABDAAAjQ0MAAAAAIApBG2y4n7ZDAAAowpIiIyAjQwAAAABdGyIjICNDAAAjQ14bQ2UZ4juUu0SYbhKDwMrBv6AiFyAXRAAAAAAAAAAAYxuftjgCACALC+AFAgx/AX0gACgCLCEJIAAoAgQhCgJAAkAgAUUNACAAKAIkIQsMAQsgCSAGdCEJIAAoAiQgBmshC0EBIQELIAVBASAFQQFKGyEMIAlBAnQhDSAAQcAAaiEOIAkgAWwiD0ECdCEQIA8gCmpBAnQhEUEAIRIgAyETA0ACQCABQQFIDQAgAiEJIAEhFCATIQYDQCAOIAkgBiAAKAI8IAogCyABIAgQvYGAgAAgCSANaiEJIAZBBGohBiAUQX9qIhQNAAsLIAIgEWohAiATIBBqIRMgEkEBaiISIAxHDQALAkAgBEEBRw0AIAVBAkcNACAPQQFIDQAgD0EBcSEIIA9BAnQhAEEAIQYCQCAPQQFGDQAgD0H+////B3EhCkEAIQYgAyEJA0AgCSAJKgIAQwAAAD+UIAkgAGoiFCoCAEMAAAA/lJI4AgAgCUEEaiIBIAEqAgBDAAAAP5QgFEEEaioCAEMAAAA/lJI4AgAgCUEIaiEJIAogBkECaiIGRw0ACwsgCEUNACADIAZBAnQiCWoiBiAGKgIAQwAAAD+UIAMgAGogCWoqAgBDAAAAP5SSOAIACwJAIAdBAUYNACAEQQEgBEEBShshDSAPQQJ0IQ4gDyAHbSIIQfz///8HcSEBIAhBA3EhCyAPIAhrQQJ0IQogAyAIQQJ0aiETIAeyIRUgCEEESSECQQAhAANAAkAgCEEBSA0AQQAhBgJAIAINAEEAIQYgAyEJA0AgCSAJKgIAIBWUOAIAIAlBBGoiFCAUKgIAIBWUOAIAIAlBCGoiFCAUKgIAIBWUOAIAIAlBDGoiFCAUKgIAIBWUOAIAIAlBEGohCSABIAZBBGoiBkcNAAsLIAtFDQAgAyAGQQJ0aiEJIAshBgNAIAkgCSoCACAVlDgCACAJQQRqIQkgBkF/aiIGDQALCwJAIApFDQAgEyAPIABsQQJ0akEAIAr8CwALIAMgDmohAyAAQQFqIgAgDUcNAAsLC4cJBwF/AX0FfwF9A38BfQJ/I4CAgIAAQfAAayEFIAEqAgAhBgJAAkACQCAEQQFHDQAgBSAGOAIAIANBAkgNAkEBIQcgA0F/aiIIQQFxIQkCQCADQQJGDQAgAUEIaiEHIAhBfnEhCiAFQQhyIQhBACELA0AgCEF8aiAGQwAAgL+SIgYgB0F8aioCACIMIAYgDF4bIgY4AgAgCCAGQwAAgL+SIgYgByoCACIMIAYgDF4bIgY4AgAgB0EIaiEHIAhBCGohCCAKIAtBAmoiC0cNAAsgC0EBaiEHCyAJRQ0BIAUgB0ECdCIHaiAGQwAAgL+SIgYgASAHaioCACIMIAYgDF4bOAIADAELIAUgBiABIAJBAnRqKgIAIgwgBiAMXhsiBjgCACADQQJIDQFBASEHIANBf2oiCEEBcSENAkAgA0ECRg0AIAhBfnEhDiABIAJBAnRqIQ9BACEHQQAhCANAIAUgB2oiC0EEaiAGQwAAgL+SIgYgASAHaiIKQQRqKgIAIgwgDyAHaiIJQQRqKgIAIhAgDCAQXhsiDCAGIAxeGyIGOAIAIAtBCGogBkMAAIC/kiIGIApBCGoqAgAiDCAJQQhqKgIAIhAgDCAQXhsiDCAGIAxeGyIGOAIAIAdBCGohByAOIAhBAmoiCEcNAAsgCEEBaiEHCyANRQ0AIAUgB0ECdCIHaiAGQwAAgL+SIgYgASAHaiIHKgIAIgwgByACQQJ0aioCACIQIAwgEF4bIgwgBiAMXhs4AgALIANBfmoiCCEHAkAgA0EBcQ0AIAUgCEECdGoiByAHKgIAIgYgA0ECdCAFakF8aioCAEMAAIC/kiIMIAYgDF4bOAIAIANBfWohBwsgCEUNACAHQQFqIQggB0ECdCAFakF8aiEHA0AgB0EEaiILIAsqAgAiBiAHQQhqKgIAQwAAgL+SIgwgBiAMXhsiBjgCACAHIAcqAgAiDCAGQwAAgL+SIgYgDCAGXhs4AgAgB0F4aiEHIAhBfmoiCA0ACwsgBEEBIARBAUobIQ4gAkECdCEPIABBDGohCSADQX1qIgdBfnEhCiAHQQFxIREgBUEMciESQQAhASADQQRIIQ1DAAAAACEGA0ACQCANDQACQAJAIANBBEcNAEECIQcMAQtBACELIBIhByAJIQgDQCAGQwAAAABDAAAAACAIQXxqKgIAIgwgDEMAAAAAXRtDAAAAACAHQXxqKgIAIgwgDEMAAAAAXRuTIgwgDEMAAAAAXRuSQwAAAABDAAAAACAIKgIAIgYgBkMAAAAAXRtDAAAAACAHKgIAIgYgBkMAAAAAXRuTIgYgBkMAAAAAXRuSIQYgB0EIaiEHIAhBCGohCCAKIAtBAmoiC0cNAAsgC0ECaiEHCyARRQ0AIAZDAAAAAEMAAAAAIAAgASACbEECdGogB0ECdCIHaioCACIMIAxDAAAAAF0bQwAAAAAgBSAHaioCACIMIAxDAAAAAF0bkyIMIAxDAAAAAF0bkiEGCyAJIA9qIQkgAUEBaiIBIA5HDQALIAYgBCADQX1qbLKVQwAAgD9eC7kmBgh/AX0FfwJ9DH8GfSOAgICAACIVIRYgFSACQQJ0IhcgBWxBD2pBcHEiGGsiGSIVJICAgIAAIBUgGGsiGiIbJICAgIAAAkAgF0UNACAGQQAgF/wLAAsCQCAEQQFIIhwNAEEJIAdrsiEdQQAhFUEAIRgDQCAaIBVqIBhBBWoiByAHbLNDXynLO5QgCC4BALJDAACAPZRDAAAAP5IgHZJBoOSBgAAgFWoqAgCTkjgCACAIQQJqIQggFUEEaiEVIAQgGEEBaiIYRw0ACwsgBUEBIAVBAUobIR4gAkECdCEfIARB/v///wdxISAgBEEBcSEhIARBf2ohIkEAIRhDMzP/wSEjAkACQANAIAAgHyAYbGohFQJAA0AgHEUNASAVIB9qIRUgGEEBaiIYIB5GDQMMAAsLQQAhBwJAICJFDQAgGiEIA0AgIyAVKgIAIAgqAgCTIh0gIyAdXhsiHSAVQQRqKgIAIAhBBGoqAgCTIiQgHSAkXhshIyAIQQhqIQggFUEIaiEVICAgB0ECaiIHRw0ACwsCQCAhRQ0AICMgACAYIAJsQQJ0aiAHQQJ0IhVqKgIAIBogFWoqAgCTIh0gIyAdXhshIwsgGEEBaiIYIB5HDQALIBsgF0EPakFwcSIIayIVIhgkgICAgAAgBEEBcSEXIBggCGsiCCSAgICAAAJAAkAgIg0AQQAhHAwBCyAEQf7///8HcSEgQQAhHCAVIRggGiEHIAAhHwNAIBggHyoCACAHKgIAkzgCACAYQQRqIB9BBGoqAgAgB0EEaioCAJM4AgAgGEEIaiEYIAdBCGohByAfQQhqIR8gICAcQQJqIhxHDQALCwJAIBdFDQAgFSAcQQJ0IhhqIAAgGGoqAgAgGiAYaioCAJM4AgALAkAgBUECRw0AIARBAXEhGyAAIAJBAnRqISECQAJAICINAEEAIRwMAQsgBEH+////B3EhF0EAIRwgGiEHICEhHyAVIRgDQCAYIBgqAgAiHSAfKgIAIAcqAgCTIiQgHSAkXhs4AgAgGEEEaiIgICAqAgAiHSAfQQRqKgIAIAdBBGoqAgCTIiQgHSAkXhs4AgAgB0EIaiEHIB9BCGohHyAYQQhqIRggFyAcQQJqIhxHDQALCyAbRQ0AIBUgHEECdCIYaiIHIAcqAgAiHSAhIBhqKgIAIBogGGoqAgCTIiQgHSAkXhs4AgALAkAgBEECdCIYRQ0AIAggFSAY/AoAAAtBfyElAkAgBEEBRg0AICJBA3EhByAVKgIAIR0CQAJAIARBfmpBA08NAEEBIRgMAQsgFUEQaiEYICJBfHEhIEEAIR8DQCAYQXRqIhwgHCoCACIkIB1DAAAAwJIiHSAkIB1eGyIdOAIAIBhBeGoiHCAcKgIAIiQgHUMAAADAkiIdICQgHV4bIh04AgAgGEF8aiIcIBwqAgAiJCAdQwAAAMCSIh0gJCAdXhsiHTgCACAYIBgqAgAiJCAdQwAAAMCSIh0gJCAdXhsiHTgCACAYQRBqIRggICAfQQRqIh9HDQALIB9BAWohGAsCQCAHRQ0AIBUgGEECdGohGANAIBggGCoCACIkIB1DAAAAwJIiHSAkIB1eGyIdOAIAIBhBBGohGCAHQX9qIgcNAAsLIARBfmoiJSEYAkAgIkEBcUUNACAVICVBAnRqIhggGCoCACIdIBgqAgRDAABAwJIiJCAdICReGzgCACAEQX1qIRgLICVFDQAgGEEBaiEHIBhBAnQgFWpBfGohGANAIBhBBGoiHyAfKgIAIh0gGEEIaioCAEMAAEDAkiIkIB0gJF4bIh04AgAgGCAYKgIAIiQgHUMAAEDAkiIdICQgHV4bOAIAIBhBeGohGCAHQX5qIgcNAAsLIAVBAkYhJiAEQQFHISdDAAAAACAjQwAAQMGSIh0gHUMAAAAAXRshHSAEIRgDQCAUQSBBIEEAIAgqAgAgHSAVKgIAIiQgHSAkXhuTQwAAAD+SjvwAIgdrIh9BBSAfQQVJG3YgB0EAShs2AgAgCEEEaiEIIBVBBGohFSAUQQRqIRQgGEF/aiIYDQAMAgsLIARBfmohJSAFQQJGISZBACEnCwJAAkAgDUEBSA0AIA5BM0gNACAQDQAgJUF+aiEoIAJBAnQhKSAEQf7///8HcSEXIARBAXEhKiAiQX5xIRsgIkEBcSErQQAhLCAEQQVIIS0gGSEcIAEhISAZQQhqIhQhLkEAISBBACEvA0AgGSAvIAJsQQJ0IhVqIhAgASAVaiIwKgIAIjE4AgACQCAnRQ0AIBkgKSAvbGoqAgAhMkEBIRUCQCAEQQJGDQBBASEVICEhCCAuIRgDQCAYQXxqIDJDAADAP5IiJCAIQQRqKgIAIh0gJCAdXRsiJDgCACAYICRDAADAP5IiMiAIQQhqIgcqAgAiJCAyICRdGyIyOAIAIBVBAWoiHyAVICAgHSAIKgIAQwAAAD+SXhsgJCAdQwAAAD+SXhshICAVQQJqIRUgGEEIaiEYIAchCCAfIBtHDQALCyArRQ0AIBAgFUECdCIIaiAyQwAAwD+SIiQgMCAIaiIIKgIAIh0gJCAdXRs4AgAgFSAgIB0gCEF8aioCAEMAAAA/kl4bISALAkAgIEEBSA0AIBAgIEECdGoqAgAhHQJAAkAgIEEBcQ0AICAhFQwBCyAQICBBf2oiFUECdCIIaiIYIBgqAgAiJCAdQwAAAECSIh0gMCAIaioCACIyIB0gMl0bIh0gJCAdXRsiHTgCAAsgIEEBRg0AIBVBAWohGCAVQQJ0QXhqIRUDQCAcIBVqIghBBGoiByAHKgIAIiQgHUMAAABAkiIdICEgFWoiB0EEaioCACIyIB0gMl0bIh0gJCAdXRsiHTgCACAIIAgqAgAiJCAdQwAAAECSIh0gByoCACIyIB0gMl0bIh0gJCAdXRsiHTgCACAVQXhqIRUgGEF+aiIYQQFLDQALCyAsIQggKCEHAkAgLQ0AA0AgASAIaiIVKgIAIh0gFUEEaioCACIkIB0gJF4iGBsiMyAVQQxqKgIAIjIgFUEQaioCACI0IDIgNF4iHxsiNSAkIB0gGBsiHSA0IDIgHxsiJF4iGBshNiAdICQgGBshHSAUIAhqIh8qAgAhJAJAAkAgFUEIaioCACIyIDUgMyAYGyI0XiIVRQ0AAkAgNCAdXUUNACAyIB0gMiAdXRshMwwCCyA2IDQgNiA0XRshMwwBCwJAIDIgHV1FDQAgNCAdIDQgHV0bITMMAQsgMiA2IDIgNl0bITMLAkAgJCAzQwAAgL+SXg0AAkACQCAVRQ0AAkAgNCAdXUUNACAyIB0gMiAdXRshHQwCCyA2IDQgNiA0XRshHQwBCwJAIDIgHV1FDQAgNCAdIDQgHV0bIR0MAQsgMiA2IDIgNl0bIR0LIB1DAACAv5IhJAsgHyAkOAIAIAhBBGohCCAHQX9qIgcNAAsLIBAgECoCACIyIDEgMCoCBCIdIDEgHV4iFRsiNCAwKgIIIiQgHSAxIBUbIh0gHSAkXRsgNCAkXRtDAACAv5IiHSAyIB1eGzgCACAQIBAqAgQiJCAdICQgHV4bOAIEIBAgJUECdGoiFSAVKgIAIjQgMCAEQQJ0IghqIhVBdGoqAgAiHSAVQXhqKgIAIiQgHSAkXiIYGyI2IBVBfGoqAgAiMiAkIB0gGBsiHSAdIDJdGyA2IDJdG0MAAIC/kiIdIDQgHV4bOAIAIBAgCGpBfGoiFSAVKgIAIiQgHSAkIB1eGzgCAAJAIARBAUgNAAJAAkAgIg0AQQAhGAwBC0EAIRVBACEYA0AgHCAVaiIIIAgqAgAiHSAaIBVqIgcqAgAiJCAdICReGzgCACAIQQRqIgggCCoCACIdIAdBBGoqAgAiJCAdICReGzgCACAVQQhqIRUgFyAYQQJqIhhHDQALCyAqRQ0AIBAgGEECdCIVaiIIIAgqAgAiHSAaIBVqKgIAIiQgHSAkXhs4AgALICwgKWohLCAcIClqIRwgISApaiEhIC4gKWohLiAvQQFqIi8gHkcNAAsCQAJAICYNACAEIANMDQEgA0EBaiEVIAMhCAJAIAQgA2tBAXFFDQAgGSADQQJ0IghqIhhDAAAAACAAIAhqKgIAIBgqAgCTIh0gHUMAAAAAXRs4AgAgFSEICyAEIBVGDQEgBCAIayEYIAAgCEECdCIVaiEIIBkgFWohFQNAIBVDAAAAACAIKgIAIBUqAgCTIh0gHUMAAAAAXRs4AgAgFUEEaiIHQwAAAAAgCEEEaioCACAHKgIAkyIdIB1DAAAAAF0bOAIAIAhBCGohCCAVQQhqIRUgGEF+aiIYDQAMAgsLIAQgA0wNACADQQJ0IRUgBCADayEHIBkgAkECdCIIaiEfIAAgCGohHANAIB8gFWoiGCAYKgIAIh0gGSAVaiIIKgIAQwAAgMCSIiQgHSAkXhsiHTgCACAIIAgqAgAiJCAdQwAAgMCSIh0gJCAdXhsiHTgCACAIQwAAAAAgACAVaioCACAdkyIdIB1DAAAAAF0bQwAAAAAgHCAVaioCACAYKgIAkyIdIB1DAAAAAF0bkkMAAAA/lDgCACAVQQRqIRUgB0F/aiIHDQALCwJAIAQgA0wiHA0AIANBAWohFSADIQgCQCAEIANrIhhBAXFFDQAgGSADQQJ0IghqIgcgByoCACIdIBEgCGoqAgAiJCAdICReGzgCACAVIQgLAkAgBCAVRg0AIAQgCGshByAZIAhBAnQiCGohFSARIAhqIQgDQCAVIBUqAgAiHSAIKgIAIiQgHSAkXhs4AgAgFUEEaiIfIB8qAgAiHSAIQQRqKgIAIiQgHSAkXhs4AgAgFUEIaiEVIAhBCGohCCAHQX5qIgcNAAsLIBkgA0ECdCIIaiEVIBMgCGohCANAIAggFSoCACIdu0TvOfr+Qi7mP6IQs4KAgAC2QwAAUEGUQwAAAD+SjkMAAFBDIB1DAACAQF0b/AA2AgAgFUEEaiEVIAhBBGohCCAYQX9qIhgNAAsLAkAgCkEARyALRSIgcQ0AIBwNACAJDQAgAyEYAkAgBCADa0EDcSIIRQ0AIAMgCGohGCAZIANBAnRqIRUDQCAVIBUqAgBDAAAAP5Q4AgAgFUEEaiEVIAhBf2oiCA0ACwsgAyAEa0F8Sw0AIAQgGGshCCAZIBhBAnRqIRUDQCAVIBUqAgBDAAAAP5Q4AgAgFUEEaiIYIBgqAgBDAAAAP5Q4AgAgFUEIaiIYIBgqAgBDAAAAP5Q4AgAgFUEMaiIYIBgqAgBDAAAAP5Q4AgAgFUEQaiEVIAhBfGoiCA0ACwsCQCAcDQAgA0EBaiEIIAMhFQJAIAQgA2tBAXFFDQACQAJAAkAgA0EITg0AQwAAAEAhHQwBCyADQQxJDQFDAAAAPyEdCyAZIANBAnRqIhUgFSoCACAdlDgCAAsgA0EBaiEVCyAEIAhGDQAgGSAVQQJ0aiEIA0ACQAJAAkAgFUEITg0AQwAAAEAhHQwBCyAVQQxJDQFDAAAAPyEdCyAIIAgqAgAgHZQ4AgALAkACQAJAIBVBB04NAEMAAABAIR0MAQsgFUEBakEMSQ0BQwAAAD8hHQsgCEEEaiIYIBgqAgAgHZQ4AgALIAhBCGohCCAEIBVBAmoiFUcNAAsLAkAgEigCAEUNACAEQRMgBEETSBsiFSADTA0AIANBAWohGCADIQgCQCAVIANrQQFxRQ0AIBkgA0ECdGoiCCASQSxqIANqLQAAs0MAAIA8lCAIKgIAkjgCACAYIQgLIBUgGEYNACAVIAhrIRggGSAIQQJ0aiEVIAggEmpBLWohCANAIBVBBGoiByAILQAAs0MAAIA8lCAHKgIAkjgCACAVIAhBf2otAACzQwAAgDyUIBUqAgCSOAIAIBVBCGohFSAIQQJqIQggGEF+aiIYDQALC0EAIQcgHA0BQQAhHyAKQQBHIAlBAEcgIHJxIRogBCADayEgIBkgA0ECdCIIaiEVIAYgCGohCCAOQQF0QQNuIRQgDCADQQF0aiIHQQJqIRggBy8BACEcA0AgFSAVKgIAIh1DAACAQCAdQwAAgEBdGyIdOAIAIBzBIQcCQAJAIBguAQAiHCAHayAFbCANdCIHQQVKDQAgHfwAIgEgB2xBA3QhBwwBCwJAIAdBMUkNACAdQwAAAEGU/AAiASAHbEEDdEEDdSEHDAELIB0gB7OUQwAAwECV/AAiAUEwbCEHCwJAIBogByAfaiIHQQZ1IBRMcg0AIAggFEEGdCIHIB9rNgIADAMLIAggATYCACAVQQRqIRUgGEECaiEYIAhBBGohCCAHIR8gIEF/aiIgDQAMAgsLQQAhByAEIANMDQAgAyEYAkAgBCADa0EHcSIIRQ0AIAMgCGohGCATIANBAnRqIRUDQCAVQQ02AgAgFUEEaiEVIAhBf2oiCA0ACwsgAyAEa0F4Sw0AIAQgGGshCCATIBhBAnRqIRUDQCAVQo2AgIDQATcCACAVQRhqQo2AgIDQATcCACAVQRBqQo2AgIDQATcCACAVQQhqQo2AgIDQATcCACAVQSBqIRUgCEF4aiIIDQALCyAPIAc2AgAgFiSAgICAACAjC8sRBgp/An0CfwF9CH8BfSOAgICAACILIQwgCyABQQJ0QQ9qQXBxIg1rIg4iCySAgICAACALIAAoAiAiDyABQQF0ai4BACAPIAFBf2oiEEEBdGouAQBrIAd0QQJ0QQ9qQXBxIg9rIhEiCySAgICAACALIA9rIhIiCySAgICAACALIA1rIhMiCySAgICAACALIA1rIhQkgICAgAACQAJAIAFBAU4NAAwBC0MAAIC+QwAAAD8gCJMiCCAIQwAAgL5dG0MK1yM9lCIVIAdBACACG7KUIRZBASAHdCEXQQAgB0EBdGshGCAVIAdBAWqylCEZIAUgCSAGbEECdGohGkEAIRsDQCAaIAAoAiAiDSAbIhxBAXRqLgEAIgsgB3RBAnRqIR0CQCANIBxBAWoiG0EBdGouAQAgC2siBSAHdCIeQQJ0Ih9FIiANACARIB0gH/wKAAALAkACQCAeQQFIIiFFDQBDAAAAACEIDAELIB5BA3EhCwJAAkAgHkEETw0AQQAhD0MAAAAAIQgMAQsgHkH8////B3EhCUEAIQ9DAAAAACEIIBEhDQNAIAggDSoCAIuSIA1BBGoqAgCLkiANQQhqKgIAi5IgDUEMaioCAIuSIQggDUEQaiENIAkgD0EEaiIPRw0ACwsgC0UNACARIA9BAnRqIQ0DQCAIIA0qAgCLkiEIIA1BBGohDSALQX9qIgsNAAsLIBYgCJQgCJIhIkEAIQYCQCACRQ0AIAVBAUYNAAJAICANACASIB0gH/wKAAALIBIgHiAHdSAXEISBgIAAAkACQCAhRQ0AQwAAAAAhCAwBCyAeQQNxIQsCQAJAIB5BBE8NAEEAIQ9DAAAAACEIDAELIB5B/P///wdxIQlBACEPQwAAAAAhCCASIQ0DQCAIIA0qAgCLkiANQQRqKgIAi5IgDUEIaioCAIuSIA1BDGoqAgCLkiEIIA1BEGohDSAJIA9BBGoiD0cNAAsLIAtFDQAgEiAPQQJ0aiENA0AgCCANKgIAi5IhCCANQQRqIQ0gC0F/aiILDQALCyAZIAiUIAiSIgggIl1FDQBBfyEGIAghIgsCQCAHIAJFIAVBAUciIHFqIh1BAUgNACAeQfz///8HcSEPIB5BA3EhH0EAIQkDQCARIB4gCSINdUEBIA10EISBgIAAIAcgDUF/c2ogDUEBaiIJIAIbIQUCQAJAICFFDQBDAAAAACEIDAELQQAhC0MAAAAAIQgCQCAeQQRJDQAgESENA0AgCCANKgIAi5IgDUEEaioCAIuSIA1BCGoqAgCLkiANQQxqKgIAi5IhCCANQRBqIQ0gDyALQQRqIgtHDQALCyAfRQ0AIBEgC0ECdGohDSAfIQsDQCAIIA0qAgCLkiEIIA1BBGohDSALQX9qIgsNAAsLIBUgBbKUIAiUIAiSIgggIiAIICJdIg0bISIgCSAGIA0bIQYgCSAdRw0ACwsgDiAcQQJ0aiILIAZBAXQiDUEAIA1rIAIbIg02AgACQCAgDQACQCANRQ0AIA0gGEcNAQsgCyANQX9qNgIACyAbIAFHDQALIA4oAgAhGwsgG0GAw4CAACAHQQN0aiACQQJ0IhJqIiAsAABBAXQiHWsiDSANQR91Ig1zIA1rIAooAgAiHGwhDSAbICBBAWosAABBAXQiH2siCyALQR91IgtzIAtrIBxsQQAgBCACGyIAaiELAkACQCABQQJODQAgCyEGDAELIApBBGohDyAOQQRqIQkgECEFA0AgDSAEaiEGIAkoAgAiHiAdayIRIBFBH3UiEXMgEWsgDygCACIRbCANIAsgBGoiISANICFIG2ohDSAPQQRqIQ8gCUEEaiEJIBEgHiAfayIeIB5BH3UiHnMgHmtsIAYgCyAGIAtIG2oiBiELIAVBf2oiBQ0ACwsgGyAgQQJqLAAAQQF0Ih1rIgsgC0EfdSILcyALayAcbCELIBsgIEEDaiwAAEEBdCIfayIPIA9BH3UiD3MgD2sgHGwgAGohDyANIAYgDSAGSBshIAJAAkAgAUECSCIARQ0AIA8hBgwBCyAKQQRqIQ0gDkEEaiEJIBAhBQNAIAsgBGohBiAJKAIAIh4gHWsiESARQR91IhFzIBFrIA0oAgAiEWwgCyAPIARqIiEgCyAhSBtqIQsgDUEEaiENIAlBBGohCSARIB4gH2siHiAeQR91Ih5zIB5rbCAGIA8gBiAPSBtqIgYhDyAFQX9qIgUNAAsLIBtBgMOAgAAgB0EDdGpBAkEAIAJBAEcgCyAGIAsgBkgbICBIcSIdGyAScmoiDSwAAEEBdCIHayILIAtBH3UiC3MgC2sgHGwhCyAbIA1BAWosAABBAXQiIWsiDSANQR91Ig1zIA1rIBxsQQAgBCACG2ohDwJAIAANACAQIQVBBCENA0AgFCANaiALIARqIgkgD042AgAgEyANaiALIA8gBGoiBk42AgAgDiANaigCACIeICFrIhEgEUEfdSIRcyARayAKIA1qKAIAIhFsIAkgDyAJIA9IG2ohDyAeIAdrIgkgCUEfdSIJcyAJayARbCALIAYgCyAGSBtqIQsgDUEEaiENIAVBf2oiBQ0ACyADIBBBAnRqIAsgD04iCzYCACABQX5qIQUCQAJAIBBBA3EiCQ0AIAUhDwwBCyABQQJ0QXxqIQ0gBSEPA0AgDUF8aiIGIANqIBQgEyALQQFGGyANaigCACILNgIAIA9Bf2ohDyAGIQ0gCUF/aiIJDQALCwJAIAVBA0kNACAPQQJ0IQ0gA0F0aiEGIA9BBGohCQNAIAYgDWoiD0EMaiAUIBMgC0EBRhsgDWpBBGooAgAiCzYCACAPQQhqIBQgEyALQQFGGyANaigCACILNgIAIA9BBGogFCATIAtBAUYbIA1qQXxqKAIAIgs2AgAgDyAUIBMgC0EBRhsgDWpBeGooAgAiCzYCACANQXBqIQ0gCUF8aiIJQQNKDQALCyAMJICAgIAAIB0PCyADIBBBAnRqIAsgD042AgAgDCSAgICAACAdC+sKCQF9A38BfQF/AX0FfwF9AnwBfQJAAkAgDEGA9ANODQBDAACAQCENDAELAkAgDEH/8ARNDQBDAACgQCENDAELIAxBgIx8akEKdrNDAACAPZRDAACAQJIhDQsCQCAFQQJHDQAgBkECdCEOIAAoAiAiDy8BACEQQwAAAAAhEUEAIRIDQCAQwSEMQwAAAAAhEwJAIA8gEkEBaiISQQF0ai4BACIQIAxrIAR0IhRBAUgNACAMIAR0QQJ0IRUgFEEDcSEWAkACQCAUQQRPDQBBACEMQwAAAAAhEwwBCyABIBVqIQxBACEXQQAgFEH8////B3FrIRhDAAAAACETA0AgDEEMaioCACAMIA5qIhRBDGoqAgCUIAxBCGoqAgAgFEEIaioCAJQgDEEEaioCACAUQQRqKgIAlCAMKgIAIBQqAgCUIBOSkpKSIRMgDEEQaiEMIBggF0F8aiIXRw0AC0EAIBdrIQwLIBZFDQAgASAMQQJ0IBVqaiEMA0AgDCoCACAMIA5qKgIAlCATkiETIAxBBGohDCAWQX9qIhYNAAsLIBEgE5IhESASQQhHDQALQwAAgD8gEUMAAAA+lIsiEyATQwAAgD9eGyIZIRECQCAKQQlIDQAgBkECdCEOIA8vARAhEEEIIRIgGSERA0AgEMEhDAJAAkAgDyASQQFqIhJBAXRqLgEAIhAgDGsgBHQiFEEBTg0AQwAAAAAhEwwBCyAMIAR0QQJ0IRUgFEEDcSEWAkACQCAUQQRPDQBBACEMQwAAAAAhEwwBCyABIBVqIQxBACEXQQAgFEH8////B3FrIRhDAAAAACETA0AgDEEMaioCACAMIA5qIhRBDGoqAgCUIAxBCGoqAgAgFEEIaioCAJQgDEEEaioCACAUQQRqKgIAlCAMKgIAIBQqAgCUIBOSkpKSIRMgDEEQaiEMIBggF0F8aiIXRw0AC0EAIBdrIQwLIBZFDQAgASAMQQJ0IBVqaiEMA0AgDCoCACAMIA5qKgIAlCATkiETIAxBBGohDCAWQX9qIhYNAAsLIBEgE4siEyARIBNdGyERIBIgCkcNAAsLQ8UggD8gGSAZlJO7ELmCgIAAIRpDxSCAP0MAAIA/IBEgEUMAAIA/XhsiEyATlJO7ELmCgIAAIRsgCCAIKgIAQwAAgD6SIhMgGkT+gitlRxX3P6K2IhFDAAAAP5QiGSAbRP6CK2VHFfc/orYiHCAZIBxeG0MAAAC/lCIZIBMgGV0bOAIAIA1DAACAwCARQwAAQD+UIhMgE0MAAIDAXRuSIQ0LIAVBASAFQQFKGyESQQQgA2shFSADQX9qIgFBfnEhDiABQQFxIQ9DAAAAACETQQAhFyADQQJIIQRBACEYA0ACQCAEDQAgACgCCCEQQQAhFgJAIANBAkYNACACIBAgF2xqIQxBACEWIBUhFANAIAxBBGoqAgAgFLKUIAwqAgAgFEF+arKUIBOSkiETIBRBBGohFCAMQQhqIQwgDiAWQQJqIhZHDQALCyAPRQ0AIAIgECAYbEECdGogFkECdGoqAgAgFkEBdCADa0ECarKUIBOSIRMLIBdBBGohFyAYQQFqIhggEkcNAAsgDUMAAABAQwAAAMAgEyAFIAFsspVDAACAP5JDAADAQJUiE0MAAABAXiIMG0MAAABAIBNDAAAAwF0iFBsiESARIBMgDBsgFBuTIAuTIAkgCZKTIRMCQCAHKAIARQ0AIBNDAAAAQEMAAADAIAcqAghDzcxMPZIiESARkiIRQwAAAEBeIgwbQwAAAEAgEUMAAADAXSIUGyIJIAkgESAMGyAUG5MhEwsgE0MAAAA/ko78ACIMQQAgDEEAShsiDEEKIAxBCkgbCzABAX9BgPcCQcAHQQAQv4GAgAAiASgCCEEFdCABKAIEQQJ0QeDAAGogAGxqQdwAagvGAQECf0GA9wJBwAdBABC/gYCAACEDAkAgAkECTQ0AQX8PCwJAIAANAEF5DwsCQCADKAIIQQV0IAMoAgRBAnRB4MAAaiACbGpB3ABqIgRFDQAgAEEAIAT8CwALIAAgAzYCACAAQgE3AhAgACACNgIMIAAgAjYCCCAAQQA2AiQgACACQQFGNgIgIABBATYCHCAAIAMoAgQ2AgQgACADKAIMNgIYIABBvB9BABCegYCAABogACABEIyBgIAAIgI2AhBBAEF/IAIbC+UHAQl/I4CAgIAAQRBrIgMgAjYCDEF7IQICQAJAAkACQAJAAkACQAJAAkACQAJAIAFBxWBqDhUBAgoKBgoDCgoKCgoKCgoKCgoKBwgACwJAAkACQAJAIAFB6bF/ag4KAwINAA0BDQ0HCA0LIAMgAygCDCIBQQRqNgIMQX8hAiABKAIAIgNBAEgNDCADIAAoAgAoAghODQwgACADNgIUDAsLIAMgAygCDCIBQQRqNgIMQX8hAiABKAIAIgNBAUgNCyADIAAoAgAoAghKDQsgACADNgIYDAoLIAMgAygCDCICQQRqNgIMAkAgAigCACIDQX1qQX5PDQBBfw8LIAAgAzYCDAwJCyADIAMoAgwiAkEEajYCDAJAIAIoAgAiAw0AQX8PCyADIAAoAiw2AgAgAEEANgIsQQAPCyADIAMoAgwiAkEEajYCDAJAIAIoAgAiAw0AQX8PCyADIAAoAgQgACgCEG02AgAMBwsgACgCBCEEAkAgACgCACIDKAIIIgVBBXQgAygCBEECdEHgwABqIAAoAggiBmxqQTRqIgNFDQAgAEEoakEAIAP8CwALAkAgBUEBSA0AIAVBAXQiA0EBIANBAUobIgdBA3EhAUEAIQICQCADQQRIDQAgBUEDdCEIIAVBBHQhCSAHQfz///8HcSEKIAAgBiAEQQJ0QeDAAGpsaiEDQQAhAgNAIAMgCWoiB0HcAGpCgICAj4yAgPBBNwIAIAMgCGoiC0HcAGpCgICAj4yAgPBBNwIAIAdB5ABqQoCAgI+MgIDwQTcCACALQeQAakKAgICPjICA8EE3AgAgA0EQaiEDIAogAkEEaiICRw0ACwsgAUUNACAGIARBAnRB4MAAamwiByAFQQR0aiACQQJ0IgJqIABqQdwAaiEDIAcgBUEDdGogAmogAGpB3ABqIQIDQCADQYCAgI98NgIAIAJBgICAj3w2AgAgA0EEaiEDIAJBBGohAiABQX9qIgENAAsLIABBATYCOAwGCyADIAMoAgwiAkEEajYCDAJAIAIoAgAiAw0AQX8PCyADIAAoAjw2AgAMBQsgAyADKAIMIgJBBGo2AgwCQCACKAIAIgMNAEF/DwsgAyAAKAIANgIADAQLIAMgAygCDCICQQRqNgIMIAAgAigCADYCHAwDCyADIAMoAgwiAkEEajYCDAJAIAIoAgAiAw0AQX8PCyADIAAoAig2AgAMAgsgAyADKAIMIgJBBGo2AgwCQCACKAIAIgNBAU0NAEF/DwsgACADNgIgDAELIAMgAygCDCICQQRqNgIMAkAgAigCACIDDQBBfw8LIAMgACgCIDYCAAtBACECCyACC6QsBCB/An0KfwF9I4CAgIAAQdAAayIHJICAgIAAIAAoAgghCEEAIQkgByIKQQA2AgwgCkEANgIIQX8hCwJAIAAoAgAiDCgCJCINQQBIDQAgAEHcAGoiDiAMKAIEIg9BgBBqIhAgCGxBAnRqIAhB4ABsaiIRIAwoAggiEkEDdCITaiIUIBNqIhUgE2ohFiAAKAIQIARsIRcgEkEBdCEYIAAoAhghGSAAKAIUIRogACgCDCEbIAwoAiAhHCANQQFqIQ0gDCgCLCEEQRAhEwJAA0AgBCAJdCAXRg0BIBNBCGohEyANIAlBAWoiCUcNAAwCCwsgAkH7CUsNACADRQ0AIAhBASAIQQFKGyIdQQFxIR5BACEfAkAgCEECSA0AIA9BAnQiICAXQQJ0IgRrQdyAAWohISAdQf7///8HcSEiIA9BA3RBgIABaiEjQQAhH0EAIARrISQgCkEYaiENIApBEGohCyAAIQQDQCANIARB3ABqNgIAIAtBBGogBCAhajYCACALIAQgJGpB3MAAajYCACANQQRqIAQgIGpB3MAAajYCACALQQhqIQsgDUEIaiENIAQgI2ohBCAiIB9BAmoiH0cNAAsLAkAgHkUNACAKQRhqIB9BAnQiBGogDiAfIBBsQQJ0aiINNgIAIApBEGogBGogDUEAIBdrQQJ0akGAwABqNgIACwJAAkACQCABRQ0AIAJBAUsNAQsgACAXIAkQoIGAgAAgCkEQaiADIBcgCCAAKAIQIAxBEGogAEHUAGogBhChgYCAAAwBCyAMKAIMISUgACAAKAI0QQBHNgI4AkAgBQ0AIApBIGogASACEKaBgIAAIApBIGohBQtBASEmAkAgG0EBRw0AIBJBAUgNACASQQFxISIgEkECdCEgQQAhDQJAIBJBAUYNACASQf7///8HcSEhIAAgCCAPQQJ0QeDAAGpsaiEEQQAhDQNAIARB3ABqIgsgCyoCACInIAQgIGoiC0HcAGoqAgAiKCAnICheGzgCACAEQeAAaiIfIB8qAgAiJyALQeAAaioCACIoICcgKF4bOAIAIARBCGohBCAhIA1BAmoiDUcNAAsLICJFDQAgESANQQJ0IgRqIg0gDSoCACInIBEgIGogBGoqAgAiKCAnICheGzgCAAsCQAJAIAUoAhQgBSgCHGciDWpBYGoiBCACQQN0Ih5ODQBBACEpQQAhJiAEQQFHDQECQCAFQQ8QqoGAgAAiJg0AQQAhKUEAISZBASEEDAILIAUoAhxnIQ0LIAUgHiANa0EgajYCFEEBISkgHiEEC0MAAAAAISdBACEqAkACQCAaRQ0AQQAhAUEAISQMAQtBACEBQQAhJCAEQRBqIB5KDQACQAJAIAVBARCqgYCAAA0AQwAAAAAhJ0EAIQFBACEkDAELIAUgBUEGEKyBgIAAIgRBBGoQrYGAgABBECAEdGohBCAFQQMQrYGAgAAhDUEAISQCQCAFKAIUIAUoAhxnakFiaiAeSg0AIAVBoMeAgABBAhCrgYCAACEkCyAEQX9qIQEgDUEBarJDAADAPZQhJwsgBSgCFCAFKAIcZ2pBYGohBAsgBEEDaiEEAkAgCUUNACAEIB5KDQAgBUEDEKqBgIAAISogBSgCFCAFKAIcZ2pBY2ohBAtBACENAkAgBCAeSg0AIAVBAxCqgYCAACENCyAMIBogGSARIA0gBSAbIAkQzIGAgAAgByASQQJ0IitBD2pBcHFrIiwiDiSAgICAACAJQQBHIAUoAhQgBSgCHGdqQWBqIh9BAkEEICobIgtqIgRBAWogBSgCBEEDdCINTXEhB0EAISECQCAaIBlOIiMNAEEAISECQCAEIA0gB2siIksNACAFIAsQqoGAgAAhISAFKAIUIAUoAhxnakFgaiEfCyAsIBpBAnRqIgQgITYCACAaQQFqIBlGDQBBBEEFICobISAgGkF/cyAZaiENIARBBGohBCAhIQsDQAJAIB8gIGogIksNACAFICAQqoGAgAAgC3MiCyAhciEhIAUoAhQgBSgCHGdqQWBqIR8LIAQgCzYCACAEQQRqIQQgDUF/aiINDQALC0EAIQQCQCAHRQ0AQYDDgIAAICEgKkECdGogE2pqIg1BcGotAAAgDUFyai0AAEYNACAFQQEQqoGAgABBAXQhBAsCQCAjDQAgBCAqQQJ0aiENIBohHwJAIBkgGmtBA3EiC0UNACAaIAtqIR8gLCAaQQJ0aiEEA0AgBEGAw4CAACATIA0gBCgCAGpqakFwaiwAADYCACAEQQRqIQQgC0F/aiILDQALCyAaIBlrQXxLDQAgGSAfayELICwgH0ECdGohBANAIARBgMOAgAAgEyANIAQoAgBqampBcGosAAA2AgAgBEEEaiIfQYDDgIAAIBMgDSAfKAIAampqQXBqLAAANgIAIARBCGoiH0GAw4CAACATIA0gHygCAGpqakFwaiwAADYCACAEQQxqIh9BgMOAgAAgEyANIB8oAgBqampBcGosAAA2AgAgBEEQaiEEIAtBfGoiCw0ACwtBAiEtAkAgBSgCFCAFKAIcZ2pBZGogHkoNACAFQaPHgIAAQQUQq4GAgAAhLQsgDiArQQ9qQXBxIi5rIg4iBCSAgICAACAMIA4gCSAbEI6BgIAAQQYhICACQQZ0IS8gBCAuayIHIjAkgICAgAAgBRClgYCAACELAkACQCAjRQ0AIC8hIQwBCyAaIQQgLyEhA0AgBEEBaiENIARBAnQhHwJAAkACQAJAICBBA3QgC2ogIU4NACAOIB9qIgIoAgBBAUgNACAcIARBAXRqLgEAISIgHCANQQF0ai4BACEjIAUgIBCqgYCAACEEIAUQpYGAgAAhCyAERQ0AIAtBCGogISAjICJrIBtsIAl0IgRBA3QiIiAEQTAgBEEwShsiBCAiIARIGyIjayIxTg0BICMgAigCAE4NASAhICNBAXQiMmshEEEAIQQgIyEiAkADQCAFQQEQqoGAgAAhISAFEKWBgIAAIQsgIUUNAQJAIAtBCGogECAEaiIhTg0AIAQgI2shBCAiICNqIiIgAigCAE4NAgwBCwsgMiAEayEiDAMLIDEgBGohIQwCCyAHIB9qQQA2AgAMAgsgMSEhICMhIgsgByAfaiAiNgIAICBBAyAgQQNKG0F/aiAgICJBAEobISALIA0hBCANIBlHDQALCyAwIC5rIiMiICSAgICAAEEFIQQCQCALQTBqICFKDQAgBUGnx4CAAEEHEKuBgIAAIQQLIC8gBRClgYCAAEF/c2ohDUEAIR8CQAJAICoNAEEAITFBACECDAELQQAhMUEAIQIgCUECSQ0AQQhBACANIBNOIjEbIQILQQEgCXQhLiAgICtBD2pBcHEiE2siHCILJICAgIAAIAsgE2siECIwJICAgIAAIAwgGiAZIAcgDiAEIApBDGogCkEIaiANIAJrIApBBGogHCAjIBAgGyAJIAVBAEEAQQAQ0IGAgAAhByAMIBogGSARICMgBSAbEM2BgIAAIB1BA3EhCyAPQQJtIBdrQQJ0QYDAAGohEwJAIAhBBEgNACAdQfz///8HcSEhQQAhHyAKQRhqIQQgF0ECdCEgA0ACQCATRSINDQAgBCgCACIiICIgIGogE/wKAAALAkAgDQ0AIARBBGooAgAiIiAiICBqIBP8CgAACwJAIA0NACAEQQhqKAIAIiIgIiAgaiAT/AoAAAsCQCANDQAgBEEMaigCACINIA0gIGogE/wKAAALIARBEGohBCAhIB9BBGoiH0cNAAsLIC5BACAqGyEgAkAgC0UNACAKQRhqIB9BAnRqIQQDQAJAIBNFDQAgBCgCACINIA0gF0ECdGogE/wKAAALIARBBGohBCALQX9qIgsNAAsLIBkgJUghDSAwIBIgG2wiE0EPakFwcWsiBCILJICAgIAAIAsgGyAXbEECdEEPakFwcWsiHySAgICAAEEAIAwgGiAZIB8gHyAXQQJ0akEAIBtBAkYbIARBACAcICAgLSAKKAIIIAooAgwgLCAvIAJrIAooAgQgBSAJIAcgAEEoakEAIAAoAiQgACgCIBCFgYCAAAJAAkAgMUUNACAFQQEQrYGAgAAhCyAMIBogGSARICMgECAeIAUoAhQgBSgCHGdqa0EgaiAFIBsQzoGAgAAgC0UNASAMIB8gBCAJIBsgFyAaIBkgESAUIBUgHCAAKAIoIAAoAiQQgoGAgAAMAQsgDCAaIBkgESAjIBAgHiAFKAIUIAUoAhxnamtBIGogBSAbEM6BgIAACyAZICUgDRshIEEAIQ0CQCApIBNBAEpxQQFHDQAgE0EHcSEEAkAgE0EISQ0AIBNB+P///wdxIQsgACAIIA9BAnRB4MAAamxqIRNBACENA0AgE0H0AGpCgICAj4yAgPBBNwIAIBNB7ABqQoCAgI+MgIDwQTcCACATQeQAakKAgICPjICA8EE3AgAgE0HcAGpCgICAj4yAgPBBNwIAIBNBIGohEyALIA1BCGoiDUcNAAsLIARFDQAgCCAPQQJ0QeDAAGpsIA1BAnRqIABqQdwAaiETA0AgE0GAgICPfDYCACATQQRqIRMgBEF/aiIEDQALCyAMIB8gCkEQaiARIBogICAbIAggKiAJIAAoAhAgJiAAKAIkEKKBgIAAIApBEGohEwNAIAAgACgCPCIEQQ8gBEEPShsiDTYCPCAAIAAoAkAiBEEPIARBD0obIgs2AkAgEygCACIEIAQgCyANIAwoAiwgACoCSCAAKgJEIAAoAlAgACgCTCAMKAI8IA8gACgCJBCNgYCAAAJAIAlFDQAgBCAMKAIsIg1BAnRqIgQgBCAAKAI8IAEgFyANayAAKgJEICcgACgCTCAkIAwoAjwgDyAAKAIkEI2BgIAACyATQQRqIRMgHUF/aiIdDQALIAAgACgCPDYCQCAAKgJEISggACAnOAJEIAAgKDgCSCAAKAJMIRMgACAkNgJMIAAgEzYCUCAAIAE2AjwCQCAJRQ0AIAAgJDYCUCAAICc4AkggACABNgJACwJAIBtBAUcNACArRQ0AIBEgEkECdGogESAr/AoAAAsCQAJAICpFDQAgEkEBSA0BIBhBASAYQQFKGyIJQQFxIR1BACETAkAgCUEBRg0AIBJBA3QhCyAJQf7///8HcSEfIAAgCCAPQQJ0QeDAAGpsaiEJQQAhEwNAIAkgC2oiBEHcAGoiDSANKgIAIicgCUHcAGoqAgAiKCAnIChdGzgCACAEQeAAaiIEIAQqAgAiJyAJQeAAaioCACIoICcgKF0bOAIAIAlBCGohCSAfIBNBAmoiE0cNAAsLIB1FDQEgFCATQQJ0IglqIhMgEyoCACInIBEgCWoqAgAiKCAnIChdGzgCAAwBCwJAIBJBA3QiCUUiEw0AIBUgFCAJ/AoAAAsCQCATDQAgFCARIAn8CgAACyASQQFIDQAgLrJDbxKDOpRDAACAPyAAKAI0QQpIGyEnIBhBASAYQQFKGyIJQQFxIR1BACETAkAgCUEBRg0AIBJBGGwhCyAJQf7///8HcSEfIAAgCCAPQQJ0QeDAAGpsaiEJQQAhEwNAIAkgC2oiBEHcAGoiDSAnIA0qAgCSIiggCUHcAGoqAgAiMyAoIDNdGzgCACAEQeAAaiIEICcgBCoCAJIiKCAJQeAAaioCACIzICggM10bOAIAIAlBCGohCSAfIBNBAmoiE0cNAAsLIB1FDQAgFiATQQJ0IglqIhMgJyATKgIAkiInIBEgCWoqAgAiKCAnIChdGzgCAAsCQCAaQQFIDQAgGkEDcSETQQAhBAJAIBpBBEkNACASQQN0IR8gEkEEdCEdIBpB/P///wdxISAgACAIIA9BAnRB4MAAamxqIQlBACEEA0AgCUHcAGpCADcCACAJIB1qIg1B3ABqQoCAgI+MgIDwQTcCACAJIB9qIgtB3ABqQoCAgI+MgIDwQTcCACAJQeQAakIANwIAIA1B5ABqQoCAgI+MgIDwQTcCACALQeQAakKAgICPjICA8EE3AgAgCUEQaiEJICAgBEEEaiIERw0ACwsgE0UNACAIIA9BAnRB4MAAamwgBEECdGogAGpB3ABqIQkgEkEEdCEEIBJBA3QhDQNAIAlBADYCACAJIARqQYCAgI98NgIAIAkgDWpBgICAj3w2AgAgCUEEaiEJIBNBf2oiEw0ACwsCQCASIBlMIiENACAZIR0CQCASIBlrQQNxIglFDQAgACAIIA9BAnRB4MAAamwgGUECdGoiDWohEyANIBJBBHRqIABqQdwAaiEEIA0gEkEDdGogAGpB3ABqIQ0gGSAJaiEdIAlBAnQhC0EAIQkDQCATIAlqQdwAakEANgIAIAQgCWpBgICAj3w2AgAgDSAJakGAgICPfDYCACALIAlBBGoiCUcNAAsLIBkgEmtBfEsNACAAIAggD0ECdEHgwABqbCIJIBJBBHRqaiENIAAgCSASQQN0amohCyAdQQJ0IR8gEiAdayEgIAAgCWohHQNAIB0gH2oiCUHcAGpBADYCACANIB9qIhNB3ABqQYCAgI98NgIAIAsgH2oiBEHcAGpBgICAj3w2AgAgCUHgAGpBADYCACATQeAAakGAgICPfDYCACAEQeAAakGAgICPfDYCACAJQeQAakEANgIAIBNB5ABqQYCAgI98NgIAIARB5ABqQYCAgI98NgIAIAlB6ABqQQA2AgAgE0HoAGpBgICAj3w2AgAgBEHoAGpBgICAj3w2AgAgHUEQaiEdIA1BEGohDSALQRBqIQsgIEF8aiIgDQALCwJAIBpBAUgNACAaQQFxIR1BACETAkAgGkEBRg0AIBJBAnQhBCASQRRsIQ0gEkEMbCELIBpB/v///wdxIR8gACAIIA9BAnRB4MAAamxqIQlBACETA0AgCSAEakHcAGpCADcCACAJIA1qQdwAakKAgICPjICA8EE3AgAgCSALakHcAGpCgICAj4yAgPBBNwIAIAlBCGohCSAfIBNBAmoiE0cNAAsLIB1FDQAgESATIBJqQQJ0IglqQQA2AgAgFSAJakGAgICPfDYCACAUIAlqQYCAgI98NgIACwJAICENACAZQQFqIQkCQCASIBlrQQFxRQ0AIBEgGSASakECdCITakEANgIAIBUgE2pBgICAj3w2AgAgFCATakGAgICPfDYCACAJIRkLIBIgCUYNACASQQxsIBlBAnQiCWohHyASQRRsIAlqIR0gEiAZayETIBkgEmpBAnQhGSAAIAggD0ECdEHgwABqbGohCQNAIAkgGWoiBEHcAGpBADYCACAJIB1qIg1B3ABqQYCAgI98NgIAIAkgH2oiC0HcAGpBgICAj3w2AgAgBEHgAGpBADYCACANQeAAakGAgICPfDYCACALQeAAakGAgICPfDYCACAJQQhqIQkgE0F+aiITDQALCyAAIAUoAhwiCTYCKCAKQRBqIAMgFyAIIAAoAhAgDEEQaiAAQdQAaiAGEKGBgIAAIABBADYCNEF9IQsgBSgCFCAJZ2pBYGogHkoNASAFKAIsRQ0AIABBATYCLAsgFyAAKAIQbSELCyAKQdAAaiSAgICAACALC/sZBhd/AX0DfwN9FX8BfSOAgICAAEGgIGsiAyEEIAMkgICAgAAgACgCCCIFQQEgBUEBShsiBkEBcSEHIAAoAgAiCCgCBCEJIAgoAiAhCiAIKAIIIQtBACEMAkAgBUECSA0AIAlBAnQiDSABQQJ0Ig5rQdyAAWohDyAGQf7///8HcSEQQQAhDEEAIA5rIREgCUEDdEGAgAFqIRIgBEEIaiETIAQhFCAAIQ4DQCATIA5B3ABqNgIAIBRBBGogDiAPajYCACAUIA4gEWpB3MAAajYCACATQQRqIA4gDWpB3MAAajYCACAUQQhqIRQgE0EIaiETIA4gEmohDiAQIAxBAmoiDEcNAAsLIABB3ABqIQ5BACABayEVIAlBgBBqIRMCQCAHRQ0AIARBCGogDEECdCIUaiAOIAwgE2xBAnRqIgw2AgAgBCAUaiAMIBVBAnRqQYDAAGo2AgALIA4gEyAFbEECdGohFiAAKAIUIQcCQAJAAkAgACgCNCIXQQRKDQAgBw0AIAAoAjhFDQELIBYgBUHgAGxqIhggC0EDdCIOaiAOaiAOaiEZQwAAAD9DAADAPyAXGyEaIAgoAgwhGyALQRhsIQ0gACgCGCISIAdrQQFxIRwgBSAJQQJ0QeDAAGpsIABqQdwAaiEdIAMgASAFbEECdEEPakFwcWsiECSAgICAAEEAIQ8gEiAHQQFqIhZGIQNBACERA0ACQCASIAdMDQAgByEOAkAgHEUNACAYIAcgESALbGpBAnQiDmoiEyAZIA5qKgIAIh4gEyoCACAakyIfIB4gH14bOAIAIBYhDgsgAw0AIBIgDmshEyAdIA4gD2pBAnRqIQ4DQCAOIA4gDWoiFCoCACIeIA4qAgAgGpMiHyAeIB9eGzgCACAOQQRqIgwgFEEEaioCACIeIAwqAgAgGpMiHyAeIB9eGzgCACAOQQhqIQ4gE0F+aiITDQALCyAPIAtqIQ8gEUEBaiIRIAZHDQALIAcgEiAbIBIgG0gbIgMgByADShshEiAAKAIoIRQCQCAFQQFIDQBBACELQQAhHANAAkAgAyAHTA0AIBwgAWwhESAHIQwDQCAKIAxBAXRqLgEAIg4gAnQiEyARaiEPAkAgCiAMQQFqIgxBAXRqLgEAIA5rIAJ0Ig1BAUgNACAQIAsgE2pBAnRqIQ4gDSETA0AgDiAUEP6AgIAAIhRBFHWyOAIAIA5BBGohDiATQX9qIhMNAAsLIBAgD0ECdGogDUMAAIA/IAAoAiQQ1YGAgAAgDCASRw0ACwsgCyABaiELIBxBAWoiHCAFRw0ACwsgACAUNgIoIAZBA3EhDCAJQQF2IAFrQQJ0QYDAAGohDkEAIQ0CQCAFQQRIDQAgBkH8////B3EhD0EAIQ0gBEEIaiETIAFBAnQhCgNAAkAgDkUiFA0AIBMoAgAiESARIApqIA78CgAACwJAIBQNACATQQRqKAIAIhEgESAKaiAO/AoAAAsCQCAUDQAgE0EIaigCACIRIBEgCmogDvwKAAALAkAgFA0AIBNBDGooAgAiFCAUIApqIA78CgAACyATQRBqIRMgDyANQQRqIg1HDQALCwJAIAxFDQAgBEEIaiANQQJ0aiETA0ACQCAORQ0AIBMoAgAiFCAUIAFBAnRqIA78CgAACyATQQRqIRMgDEF/aiIMDQALCyAIIBAgBCAYIAcgEiAFIAVBACACIAAoAhBBACAAKAIkEKKBgIAADAELAkACQCAXDQAgBEEIaiAEQRBqQYAQIAUgACgCJCIOEMCBgIAAIARBsAtqIARBEGpBsApB7AQgBEGcIGogDhDCgYCAACAAQdAFIAQoApwgayINNgIwQwAAgD8hIAwBCyAAKAIwIQ1DzcxMPyEgCyADIAlBAnQiDkEPakFwcWsiCiITJICAgIAAIBMiIUGgX2oiESITJICAgIAAIA4gAUECdCIia0GAwABqISMgDUEBdCIUQYAIIBRBgAhIGyIkQQJxISUgJEEBdSImQf7///8HcSELICEgJEECdCIbayEnICFBgGBqIihBgAggDWsiFEECdGohEiARIBtrQeQgaiEpIBEgJEEBdGtB5CBqISogCUH+////B3EhGCAJQQFxISsgCUECbSEsIA5BfGohLUGEwAAgImshLkGAwAAgImshL0EAICJrITAgCSABaiIcQfz///8HcSEHIBxBA3EhMSAcQQJ0ITJBgBAgAWtBAnQhAyATIBtBD2pBcHFrIjMkgICAgAAgBEEQakEIciE0IAgoAjwhECAUIAFrQQJ0IQggHEF/akEDSSE1QQAhBQNAIARBCGogBUECdGooAgAhAkGgXyEOA0AgESAOaiITQeAgaiACIA5qIhRBgMAAaioCADgCACATQeQgaiAUQYTAAGoqAgA4AgAgE0HoIGogFEGIwABqKgIAOAIAIBNB7CBqIBRBjMAAaioCADgCACAOQRBqIg4NAAsCQAJAIBdFDQAgBUHgAGwhDgwBCyAoIARBEGogECAJQRhBgAggACgCJBDHgYCAABogBCAEKgIQQ0cDgD+UOAIQQQEhEyA0IQ4DQCAOIA4qAgAiGiAaQ743hjiUIBNBAWqzIhqUIBqUkzgCACAOQXxqIhQgFCoCACIaIBpDvjeGOJQgE7MiGpQgGpSTOAIAIA5BCGohDiATQQJqIhNBGUcNAAsgFiAFQeAAbCIOaiAEQRBqQRgQxIGAgAALICcgFiAOaiIZIDMgJEEYIAAoAiQQxYGAgAACQCAbRQ0AICcgMyAb/AoAAAsCQAJAICZBAU4NAEMAAIA/IR5DAACAPyEaDAELQwAAgD8hGkEAIRQCQAJAIA1BAUcNAEMAAIA/IR4MAQsgKSEOICohE0MAAIA/IR4DQCAOKgIAIh8gH5QgDkF8aioCACIfIB+UIBqSkiEaIBMqAgAiHyAflCATQXxqKgIAIh8gH5QgHpKSIR4gDkEIaiEOIBNBCGohEyALIBRBAmoiFEcNAAsLICVFDQAgISAUICRrQQJ0aioCACIfIB+UIBqSIRogISAUICZrQQJ0aioCACIfIB+UIB6SIR4LAkAgA0UNACACIAIgImogA/wKAAALAkACQCAcQQFIIh1FDQBDAAAAACEeDAELICAgHiAaIB4gGl0bIBqVkSI2lCEaIAIgA2ohDiACIAhqQYAgaiEPQwAAAAAhHkEAIRMgHCEUA0AgDiAaIDYgGpQgEyANSCIMGyIaIBIgE0EAIA0gDBtrIhNBAnQiDGoqAgCUOAIAIA5BBGohDiATQQFqIRMgDyAMaioCACIfIB+UIB6SIR4gFEF/aiIUDQALCyACIDBqIQ9BACEUQQAhDANAIARBEGogFGoiDiAPIAxqIhNB/D9qKgIAOAIAIA5BBGogE0H4P2oqAgA4AgAgDkEIaiATQfQ/aioCADgCACAOQQxqIBNB8D9qKgIAOAIAIBRBEGohFCAMQXBqIgxBoH9HDQALIAJBgMAAaiIMIBVBAnRqIg4gGSAOIBxBGCAEQRBqIAAoAiQQxoGAgAACQAJAAkAgHQ0AIAIgA2ohFAJAAkAgNUUNAEMAAAAAIRpBACETDAELIBRBDGohDkMAAAAAIRpBACETA0AgDioCACIfIB+UIA5BfGoqAgAiHyAflCAOQXhqKgIAIh8gH5QgDkF0aioCACIfIB+UIBqSkpKSIRogDkEQaiEOIAcgE0EEaiITRw0ACwsCQCAxRQ0AIAIgL2ogE0ECdGohDiAxIRMDQCAOKgIAIh8gH5QgGpIhGiAOQQRqIQ4gE0F/aiITDQALCyAeIBpDzcxMPpReDQEgMkUNAiAUQQAgMvwLAAwCC0MAAAAAIRogHkMAAAAAXkUNAQsgHiAaXUUNACAeQwAAgD+SIBpDAACAP5KVkSEaAkAgCUEBSA0AQwAAgD8gGpMhHkEAIRQCQCAJQQFGDQAgAiAuaiEOQQAhFCAQIRMDQCAOQXxqIg9DAACAPyATKgIAIB6UkyAPKgIAlDgCACAOQwAAgD8gE0EEaioCACAelJMgDioCAJQ4AgAgDkEIaiEOIBNBCGohEyAYIBRBAmoiFEcNAAsLICtFDQAgAiADaiAUQQJ0Ig5qIhNDAACAPyAQIA5qKgIAIB6UkyATKgIAlDgCAAsgAUEBSA0AIAIgI2ohDiAJIRMDQCAOIBogDioCAJQ4AgAgDkEEaiEOIBNBAWoiEyAcSA0ACwsgCiAMIAAoAjwiDiAOIAkgACoCRIwiGiAaIAAoAkwiEyATQQBBACAAKAIkEI2BgIAAAkAgCUECSA0AQQAhDiAtIRMgLCEUA0AgDCAOaiAQIA5qKgIAIAogE2oqAgCUIBAgE2oqAgAgCiAOaioCAJSSOAIAIBNBfGohEyAOQQRqIQ4gFEF/aiIUDQALCyAFQQFqIgUgBkcNAAsLIAAgF0EBajYCNCAEQaAgaiSAgICAAAuBBwMBfwR9En8jgICAgAAiCBoCQCADQQJHDQAgBEEBRw0AIAcNACAGKgIEIQkgBioCACEKAkAgAkEBSA0AIAAoAgQhByAAKAIAIQggBSoCACELA0AgCCoCACEMIAFBBGogCSAHKgIAQ2BCog2SkiIJQwAAADiUOAIAIAEgCiAMQ2BCog2SkiIKQwAAADiUOAIAIAhBBGohCCAHQQRqIQcgAUEIaiEBIAsgCZQhCSALIAqUIQogAkF/aiICDQALCyAGIAk4AgQgBiAKOAIADwsgA0EBIANBAUobIQ0gBEEDdCEOIARBAnQhDyADQQN0IRAgA0ECdCERIAJBAXEhEiACQf7///8HcSETIAJBf2ohFCACIARtIhVB/v///wdxIRYgFUEBcSEXIAggAkECdEEPakFwcWsiGBogBSoCACEKQQAhGSABIRpBACEbA0AgASAbQQJ0IgdqIRwgACAHaigCACEdIAYgB2oiHioCACEJAkACQCAEQQFKDQAgAkEBSA0BQQAhBQJAIBRFDQAgGiEHIB0hCANAIAcgCSAIKgIAQ2BCog2SkiIJQwAAADiUOAIAIAcgEWogCiAJlCAIQQRqKgIAQ2BCog2SkiIJQwAAADiUOAIAIAogCZQhCSAHIBBqIQcgCEEIaiEIIBMgBUECaiIFRw0ACwsgEkUNASAcIAUgA2xBAnRqIAkgHSAFQQJ0aioCAENgQqINkpIiCUMAAAA4lDgCACAKIAmUIQkMAQtBASEZIAJBAUgNAEEAIQUCQCAURQ0AIBghByAdIQgDQCAHIAkgCCoCAENgQqINkpIiCTgCACAHQQRqIAogCZQgCEEEaioCAENgQqINkpIiCTgCACAKIAmUIQkgB0EIaiEHIAhBCGohCCATIAVBAmoiBUcNAAsLIBJFDQAgGCAFQQJ0IgdqIAkgHSAHaioCAENgQqINkpIiCTgCACAKIAmUIQkLIB4gCTgCAAJAIBlFDQAgFUEBSA0AQQAhBQJAIBVBAUYNAEEAIQUgGiEHIBghCANAIAcgCCoCAEMAAAA4lDgCACAHIBFqIAggD2oqAgBDAAAAOJQ4AgAgByAQaiEHIAggDmohCCAWIAVBAmoiBUcNAAsLIBdFDQAgHCAFIANsQQJ0aiAYIAUgBGxBAnRqKgIAQwAAADiUOAIACyAaQQRqIRogG0EBaiIbIA1HDQALC5AHAQx/I4CAgIAAIg0hDiAAKAIIIQ8gACgCBCEQIA0gACgCLCIRIAl0IhJBAnQiE0EPakFwcWsiFCSAgICAACAAKAIkQQAgCSAIG2shFUEBIAl0IhZBASAIGyENIBEgEiAIGyEXAkACQCAGQQFHDQAgB0ECRw0AIAAgASAUIAMgBCAFIBYgCiALEIGBgIAAIAIoAgQgEEECbUECdGohCAJAIBNFDQAgCCAUIBP8CgAACyANQQFIDQEgF0ECdCEGIABBwABqIRFBACEJIA0hBwNAIBEgCCACKAIAIAlqIAAoAjwgECAVIA0gDBC+gYCAACAIQQRqIQggCSAGaiEJIAdBf2oiBw0ACyAXQQJ0IQcgAEHAAGohBkEAIQggDSEJA0AgBiAUIAIoAgQgCGogACgCPCAQIBUgDSAMEL6BgIAAIBRBBGohFCAIIAdqIQggCUF/aiIJDQAMAgsLAkACQCAGQQJHDQAgB0EBRg0BCyAHQQEgB0EBShshGCAXQQJ0IREgAEHAAGohF0EAIRMDQCAAIAEgEyASbEECdGogFCADIBMgD2xBAnRqIAQgBSAWIAogCxCBgYCAAAJAIA1BAUgNACACIBNBAnRqIQZBACEIIBQhCSANIQcDQCAXIAkgBigCACAIaiAAKAI8IBAgFSANIAwQvoGAgAAgCUEEaiEJIAggEWohCCAHQX9qIgcNAAsLIBNBAWoiEyAYRw0ADAILCyACKAIAIQggACABIBQgAyAEIAUgFiAKIAsQgYGAgAAgACABIBJBAnRqIAggEEECbUECdGoiEyADIA9BAnRqIAQgBSAWIAogCxCBgYCAAAJAIBJBAUgNACASQQFxIQtBACEHAkAgEkEBRg0AIBJB/v///wdxIRFBACEHIBMhCSAUIQgDQCAIIAgqAgBDAAAAP5QgCSoCAEMAAAA/lJI4AgAgCEEEaiIGIAYqAgBDAAAAP5QgCUEEaioCAEMAAAA/lJI4AgAgCUEIaiEJIAhBCGohCCARIAdBAmoiB0cNAAsLIAtFDQAgFCAHQQJ0IghqIgkgCSoCAEMAAAA/lCATIAhqKgIAQwAAAD+UkjgCAAsgDUEBSA0AIBdBAnQhByAAQcAAaiEGQQAhCCANIQkDQCAGIBQgAigCACAIaiAAKAI8IBAgFSANIAwQvoGAgAAgFEEEaiEUIAggB2ohCCAJQX9qIgkNAAsLIA4kgICAgAALugIBBn8gAUECdCAAaiIEQXxqKAIAIgAgAEEfdSIFcyAFayEFIARBeGohBCAAQR92IQZBAiEAIAEhBwNAIAQoAgAiCCAIQR91IglzIAlrIAVqIQkgACAFIAAgBUgbQQJ0QcDHgIAAaigCACAAIAUgACAFShtBAnRqKAIAIAZqIQYCQCAIQX9KDQAgCUEBaiIFIAAgACAJShtBAnRBwMeAgABqKAIAIAAgBSAAIAVKG0ECdGooAgAgBmohBgsgAEEBaiEAIARBfGohBCAJIQUgB0F/aiIHQQFKDQALIAMgBiABIAJBAWoiACABIABIG0ECdEHAx4CAAGooAgAgASAAIAEgAEobQQJ0aigCACABIAIgASACSBtBAnRBwMeAgABqKAIAIAEgAiABIAJKG0ECdGooAgBqELOBgIAAC7gFAwF9Bn8BfUMAAAAAIQQgAyABIAJBAWoiBSABIAVIG0ECdEHAx4CAAGooAgAgASAFIAEgBUobQQJ0aigCACABIAIgASACSBtBAnRBwMeAgABqKAIAIAEgAiABIAJKG0ECdGooAgBqEKyBgIAAIQMCQCABQQNIDQAgAUECdEG8x4CAAGohBkMAAAAAIQQDQAJAAkAgAiABIgdIDQACQAJAIAdBAnQiCCgCwMeAgAAiASAIaigCACADQQAgASACQQJ0aiIFKAIEIgEgAyABSSIJG2siCksNACACQQFqIQEDQCABQX9qIQEgBSgCACEDIAVBfGohBSADIApLDQAMAgsLIAYhBSAHIQEDQCABQX9qIQEgBSgCACEDIAVBfGohBSADIAhqKAIAIgMgCksNAAsLIAAgAiABayIFQQAgBWsgCRvBIgU2AgAgBbIiCyALlCAEkiEEIAogA2shAyABIQIMAQsgAkECdCIBQcTHgIAAaigCACAHQQJ0IgpqKAIAIQgCQCADIAFBwMeAgABqKAIAIApqKAIAIgVJDQAgAyAITw0AIABBADYCACADIAVrIQMMAQsgAUG8x4CAAGohAUEAIQUgA0EAIAggAyAISSIJG2shCANAIAVBAWohBSABKAIAIQMgAUF8aiEBIAggAyAKaigCACIDSQ0ACyAAIAVBACAFayAJG8EiATYCACABsiILIAuUIASSIQQgAiAFayECIAggA2shAwsgBkF8aiEGIAdBf2ohASAAQQRqIQAgB0EDSg0ACwsgAEEAIAIgAkEBdCIBQX9zQQAgAyABSyIFGyADaiIDQQFqIgFBAXYiCmsiCGsgCCAFG8EiBTYCACAAIAogA0EAIAFBfnFBf2ogAUECSRtrIgFrQQAgAWtzwSIBNgIEIAGyIgsgC5QgBbIiCyALlCAEkpILPgEBfyAAKAIUIAAoAhwiAGciAWpBA3QgAEEQIAFrdiIAIABBDHYiAEECdEHA74CAAGooAgBLayAAa0GIfmoLkwMBBn8gAEKAgICAgBA3AhggAEKAgICAkAE3AhAgAEIANwIIIAAgAjYCBCAAIAE2AgBBACEDQQAhBEEAIQUCQCACRQ0AQQEhBCAAQQE2AhggAS0AACEFCyAAQQA2AiwgACAFNgIoIABBgIACNgIcIABBETYCFCAAIAVBAXZB/wBzIgY2AiACQAJAIAQgAkkNACAEIQcMAQsgACAEQQFqIgc2AhggASAEai0AACEDCyAAIAM2AiggAEGAgIAENgIcIABBGTYCFCAAIAMgBUEIdHJBAXZB/wFxIAZBCHRyQf8BcyIINgIgQQAhBAJAAkAgByACSQ0AIAchBkEAIQUMAQsgACAHQQFqIgY2AhggASAHai0AACEFCyAAIAU2AiggAEGAgICAeDYCHCAAQSE2AhQgACAFIANBCHRyQQF2Qf8BcSAIQQh0ckH/AXMiAzYCIAJAIAYgAk8NACAAIAZBAWo2AhggASAGai0AACEECyAAIAQ2AiggACAEIAVBCHRyQQF2Qf8BcSADQQh0ckH/AXM2AiALKwEBfyAAIAAoAhwgAW4iAjYCJEEAIAAoAiAgAm5Bf3MgAWoiACAAIAFLGwswAQF/IAAgACgCHCABdiICNgIkQQAgACgCICACbkF/c0EBIAF0IgBqIgEgASAASxsL/wEBBn8gACAAKAIgIAAoAiQiBCADIAJrbCIDayIFNgIgAkACQCABRQ0AIAQgAiABa2whAQwBCyAAKAIcIANrIQELIAAgATYCHAJAIAFBgICABEsNACAAKAIUQQhqIQMgACgCGCEEIAAoAighBiAAKAIEIQcDQCAAIAM2AhQgACABQQh0Igg2AhxBACECAkAgBCAHTw0AIAAgBEEBaiIJNgIYIAAoAgAgBGotAAAhAiAJIQQLIAAgAjYCKCAAIAIgBkEIdHJBAXZB/wFxIAVBCHRBgP7//wdxckH/AXMiBTYCICADQQhqIQMgAUGBgAJJIQkgAiEGIAghASAJDQALCwv1AQEJfwJAIAAoAiAiAiAAKAIcIgMgAXYiAUkiBA0AIAAgAiABayICNgIgCyAAIAEgAyABayAEGyIDNgIcAkAgA0GAgIAESw0AIAAoAhRBCGohBSAAKAIYIQYgACgCKCEHIAAoAgQhCANAIAAgBTYCFCAAIANBCHQiCTYCHEEAIQECQCAGIAhPDQAgACAGQQFqIgo2AhggACgCACAGai0AACEBIAohBgsgACABNgIoIAAgASAHQQh0ckEBdkH/AXEgAkEIdEGA/v//B3FyQf8BcyICNgIgIAVBCGohBSADQYGAAkkhCiABIQcgCSEDIAoNAAsLIAQLmQIBCH8gACgCHCIDIAJ2IQQgACgCICEFQQAhAgNAIAMhBiABIAJqIQMgAkEBaiIHIQIgBSAEIAMtAABsIgNJDQALIAAgBiADayIBNgIcIAAgBSADayIENgIgIAdBf2ohCAJAIAFBgICABEsNACAAKAIUQQhqIQMgACgCGCEFIAAoAighBiAAKAIEIQkDQCAAIAM2AhQgACABQQh0Igc2AhxBACECAkAgBSAJTw0AIAAgBUEBaiIKNgIYIAAoAgAgBWotAAAhAiAKIQULIAAgAjYCKCAAIAIgBkEIdHJBAXZB/wFxIARBCHRBgP7//wdxckH/AXMiBDYCICADQQhqIQMgAUGBgAJJIQogAiEGIAchASAKDQALCyAIC4AGAQt/AkACQCABQX9qIgJBgAJJDQAgACAAKAIcIgMgAkEYIAJnayIEdiIFQQFqIgZuIgE2AiQgACAAKAIgIgcgBUEAIAYgByABbkEBaiIIayIHIAcgBksbIglrIAFsIgZrIgc2AiAgACADIAZrIAEgBSAISRsiBTYCHAJAIAVBgICABEsNACAAKAIUQQhqIQYgACgCGCEDIAAoAighCCAAKAIEIQoDQCAAIAY2AhQgACAFQQh0Igs2AhxBACEBAkAgAyAKTw0AIAAgA0EBaiIMNgIYIAAoAgAgA2otAAAhASAMIQMLIAAgATYCKCAAIAEgCEEIdHJBAXZB/wFxIAdBCHRBgP7//wdxckH/AXMiBzYCICAGQQhqIQYgBUGBgAJJIQwgASEIIAshBSAMDQALCyAJIAR0IQsgACgCDCEDAkACQCAAKAIQIgEgBEkNACABIQgMAQsgACgCCCEFIAAoAgQhBwNAQQAhBgJAIAUgB08NACAAIAVBAWoiBTYCCCAAKAIAIAcgBWtqLQAAIQYLIAYgAXQgA3IhAyABQRFIIQYgAUEIaiIIIQEgBg0ACwsgACAIIARrNgIQIAAgAyAEdjYCDCAAIAAoAhQgBGo2AhQgA0F/IAR0QX9zcSALciIEIAJNDQEgAEEBNgIsIAIPCyAAIAAoAhwiBiABbiIFNgIkIAAgACgCICIDIAFBACABIAMgBW5BAWoiA2siByAHIAFLGyIEQX9zaiAFbCIIayIHNgIgIAAgBSAGIAhrIAEgA0sbIgU2AhwgBUGAgIAESw0AIAAoAhRBCGohBiAAKAIYIQMgACgCKCEIIAAoAgQhCgNAIAAgBjYCFCAAIAVBCHQiCzYCHEEAIQECQCADIApPDQAgACADQQFqIgw2AhggACgCACADai0AACEBIAwhAwsgACABNgIoIAAgASAIQQh0ckEBdkH/AXEgB0EIdEGA/v//B3FyQf8BcyIHNgIgIAZBCGohBiAFQYGAAkkhDCABIQggCyEFIAwNAAsLIAQLqAEBBn8gACgCDCECAkACQCAAKAIQIgMgAUkNACADIQQMAQsgACgCCCEFIAAoAgQhBgNAQQAhBwJAIAUgBk8NACAAIAVBAWoiBTYCCCAAKAIAIAYgBWtqLQAAIQcLIAcgA3QgAnIhAiADQRFIIQcgA0EIaiIEIQMgBw0ACwsgACAEIAFrNgIQIAAgAiABdjYCDCAAIAAoAhQgAWo2AhQgAkF/IAF0QX9zcQtFACAAQoCAgICAgICAgH83AhggAEKAgICAkAQ3AhAgAEIANwIIIAAgATYCACAAQgA3AiAgAEL/////DzcCKCAAIAI2AgQLqAMBAn8gACgCHCIEIANuIQUCQAJAIAFFDQAgACAFIAEgA2tsIARqIAAoAiBqNgIgIAUgAiABa2whAwwBCyAFIAIgA2tsIARqIQMLIAAgAzYCHAJAIANBgICABEsNACAAKAIgIQEDQAJAAkAgAUEXdiIEQf8BRg0AIAFBH3YhAwJAIAAoAigiBUEASA0AQX8hAQJAIAAoAgggACgCGCICaiAAKAIETw0AIAAgAkEBajYCGCAAKAIAIAJqIAUgA2o6AABBACEBCyAAIAAoAiwgAXI2AiwLAkAgACgCJCIBRQ0AIANBf2ohAgNAQX8hAwJAIAAoAgggACgCGCIFaiAAKAIETw0AIAAgBUEBajYCGCAAKAIAIAVqIAI6AAAgACgCJCEBQQAhAwsgACABQX9qIgE2AiQgACAAKAIsIANyNgIsIAENAAsLIAAgBEH/AXE2AiggACgCHCEDIAAoAiAhAQwBCyAAIAAoAiRBAWo2AiQLIAAgA0EIdCIDNgIcIAAgAUEIdEGA/v//B3EiATYCICAAIAAoAhRBCGo2AhQgA0GBgIAESQ0ACwsLrwMBAn9BfyADdCEEIAAoAhwiBSADdiEDAkACQCABRQ0AIAAgAyAEIAFqbCAFaiAAKAIgajYCICADIAIgAWtsIQMMAQsgAyAEIAJqbCAFaiEDCyAAIAM2AhwCQCADQYCAgARLDQAgACgCICEBA0ACQAJAIAFBF3YiBUH/AUYNACABQR92IQMCQCAAKAIoIgJBAEgNAEF/IQECQCAAKAIIIAAoAhgiBGogACgCBE8NACAAIARBAWo2AhggACgCACAEaiACIANqOgAAQQAhAQsgACAAKAIsIAFyNgIsCwJAIAAoAiQiAUUNACADQX9qIQQDQEF/IQMCQCAAKAIIIAAoAhgiAmogACgCBE8NACAAIAJBAWo2AhggACgCACACaiAEOgAAIAAoAiQhAUEAIQMLIAAgAUF/aiIBNgIkIAAgACgCLCADcjYCLCABDQALCyAAIAVB/wFxNgIoIAAoAhwhAyAAKAIgIQEMAQsgACAAKAIkQQFqNgIkCyAAIANBCHQiAzYCHCAAIAFBCHRBgP7//wdxIgE2AiAgACAAKAIUQQhqNgIUIANBgYCABEkNAAsLC5ADAQN/IAAoAhwiAyADIAJ2IgNrIQICQAJAIAENACACIQMMAQsgACAAKAIgIAJqNgIgCyAAIAM2AhwCQCADQYCAgARLDQAgACgCICECA0ACQAJAIAJBF3YiBEH/AUYNACACQR92IQMCQCAAKAIoIgFBAEgNAEF/IQICQCAAKAIIIAAoAhgiBWogACgCBE8NACAAIAVBAWo2AhggACgCACAFaiABIANqOgAAQQAhAgsgACAAKAIsIAJyNgIsCwJAIAAoAiQiAkUNACADQX9qIQUDQEF/IQMCQCAAKAIIIAAoAhgiAWogACgCBE8NACAAIAFBAWo2AhggACgCACABaiAFOgAAIAAoAiQhAkEAIQMLIAAgAkF/aiICNgIkIAAgACgCLCADcjYCLCACDQALCyAAIARB/wFxNgIoIAAoAhwhAyAAKAIgIQIMAQsgACAAKAIkQQFqNgIkCyAAIANBCHQiAzYCHCAAIAJBCHRBgP7//wdxIgI2AiAgACAAKAIUQQhqNgIUIANBgYCABEkNAAsLC7wDAQJ/IAIgAWohAiAAKAIcIgQgA3YhAwJAAkAgAUEBSA0AIAAgACgCICAEaiADIAJBf2oiAS0AAGxrNgIgIAEtAAAgAi0AAGsgA2whAgwBCyAEIAMgAi0AAGxrIQILIAAgAjYCHAJAIAJBgICABEsNACAAKAIgIQEDQAJAAkAgAUEXdiIFQf8BRg0AIAFBH3YhAgJAIAAoAigiA0EASA0AQX8hAQJAIAAoAgggACgCGCIEaiAAKAIETw0AIAAgBEEBajYCGCAAKAIAIARqIAMgAmo6AABBACEBCyAAIAAoAiwgAXI2AiwLAkAgACgCJCIBRQ0AIAJBf2ohBANAQX8hAgJAIAAoAgggACgCGCIDaiAAKAIETw0AIAAgA0EBajYCGCAAKAIAIANqIAQ6AAAgACgCJCEBQQAhAgsgACABQX9qIgE2AiQgACAAKAIsIAJyNgIsIAENAAsLIAAgBUH/AXE2AiggACgCHCECIAAoAiAhAQwBCyAAIAAoAiRBAWo2AiQLIAAgAkEIdCICNgIcIAAgAUEIdEGA/v//B3EiATYCICAAIAAoAhRBCGo2AhQgAkGBgIAESQ0ACwsLigIBBX8CQCACQX9qIgNBgAJJDQAgACABQRggA2drIgR2IgIgAkEBaiADIAR2QQFqEK+BgIAAIAFBfyAEdEF/c3EhBSAAKAIMIQICQAJAIAAoAhAiASAEaiIDQSFPDQAgASEGDAELA0BBfyEDAkAgACgCCCIGIAAoAhhqIAAoAgQiB08NACAAIAZBAWoiAzYCCCAAKAIAIAcgA2tqIAI6AABBACEDCyAAIAAoAiwgA3I2AiwgAkEIdiECIAFBD0ohAyABQXhqIgYhASADDQALIAQgBmohAwsgACADNgIQIAAgBSAGdCACcjYCDCAAIAAoAhQgBGo2AhQPCyAAIAEgAUEBaiACEK+BgIAAC7kBAQV/IAAoAgwhAwJAAkAgACgCECIEIAJqIgVBIU8NACAEIQYMAQsDQEF/IQUCQCAAKAIIIgYgACgCGGogACgCBCIHTw0AIAAgBkEBaiIFNgIIIAAoAgAgByAFa2ogAzoAAEEAIQULIAAgACgCLCAFcjYCLCADQQh2IQMgBEEPSiEFIARBeGoiBiEEIAUNAAsgAiAGaiEFCyAAIAU2AhAgACABIAZ0IANyNgIMIAAgACgCFCACajYCFAuYAQEDf0F/IAJ0QX9zQQggAmsiA3QhBAJAIAAoAhhFDQAgACgCACIAIAAtAAAgBEF/c3EgASADdHI6AAAPCwJAIAAoAigiBUEASA0AIAAgBSAEQX9zcSABIAN0cjYCKA8LAkAgACgCHEGAgICAeCACdksNACAAIAAoAiAgBEEXdEF/c3EgAUEfIAJrdHI2AiAPCyAAQX82AiwLNgECfwJAIAAoAggiAkUNACAAKAIAIgMgAWogAmsgAyAAKAIEaiACayAC/AoAAAsgACABNgIEC5IHAQd/AkACQAJAQf////8HIAAoAhwiAWciAnYiAyAAKAIgIgRqQYCAgIB4IAJ1cSIFIANyIAQgAWpJDQBB/////wMgAnYgBGpBgICAgHwgAnVxIQUgAkEBaiECDAELIAINAEEAIQYMAQsDQAJAAkAgBUEXdiIHQf8BRg0AIAVBH3YhAQJAIAAoAigiA0EASA0AQX8hBAJAIAAoAgggACgCGCIGaiAAKAIETw0AIAAgBkEBajYCGCAAKAIAIAZqIAMgAWo6AABBACEECyAAIAAoAiwgBHI2AiwLAkAgACgCJCIERQ0AIAFBf2ohBgNAQX8hAQJAIAAoAgggACgCGCIDaiAAKAIETw0AIAAgA0EBajYCGCAAKAIAIANqIAY6AAAgACgCJCEEQQAhAQsgACAEQX9qIgQ2AiQgACAAKAIsIAFyNgIsIAQNAAsLIAAgB0H/AXE2AigMAQsgACAAKAIkQQFqNgIkCyAFQQh0QYD+//8HcSEFIAJBCEohBCACQXhqIgYhAiAEDQALC0F/IQQCQAJAAkACQCAAKAIoIgFBf0oNACAAKAIkIgQNAQwDCwJAIAAoAgggACgCGCIDaiAAKAIETw0AIAAgA0EBajYCGCAAKAIAIANqIAE6AABBACEECyAAIAAoAiwgBHI2AiwgACgCJCIERQ0BCwNAQX8hAQJAIAAoAgggACgCGCIDaiAAKAIETw0AIAAgA0EBajYCGCAAKAIAIANqQf8BOgAAIAAoAiQhBEEAIQELIAAgBEF/aiIENgIkIAAgACgCLCABcjYCLCAEDQALCyAAQQA2AigLIAAoAgwhAQJAAkAgACgCECIFQQdKDQAgACgCLCECDAELIAUhBANAQX8hAwJAIAAoAggiBSAAKAIYaiAAKAIEIgJPDQAgACAFQQFqIgM2AgggACgCACACIANraiABOgAAQQAhAwsgACAAKAIsIANyIgI2AiwgAUEIdiEBIARBD0ohAyAEQXhqIgUhBCADDQALCwJAIAINAAJAIAAoAgQgACgCGCIEIAAoAghqayIDRQ0AIAAoAgAgBGpBACAD/AsACyAFQQFIDQACQCAAKAIIIgQgACgCBCIDSQ0AIABBfzYCLA8LAkAgACgCGCAEaiADSQ0AIAVBACAGayIGTA0AIABBfzYCLCABQX8gBnRBf3NxIQELIAAoAgAgA2ogBEF/c2oiACAALQAAIAFyOgAACwvsEwwLfwV9DX8FfQF/A30BfwV9BH8CfQF/C30jgICAgABBIGsiAkEBNgIAIABBDGohAyAAKAIIIQRBfyEFQQAhBkEBIQcDQCACIAZqQQRqIAcgACAGaiIIQQxqLgEAbCIHNgIAIAZBBGohBiAFQQFqIQUgCEEOai8BAEEBRw0ACyAEQQAgBEEAShshCSAAIAZqQQpqLgEAIQoDQCAKIQtBACEGQQEhCgJAIAUiDEUNACAMQQF0IQYgDEECdCADakF+ai4BACEKCwJAAkACQAJAAkAgAyAGQQF0ai8BAEF+ag4EAAIBAwQLIAIgDEECdGooAgAiBUEBSA0DIAEhBgNAIAZBIGoiByAGKgIAIg0gByoCACIOkzgCACAGQQRqIgcgBkEkaiIIKgIAIg8gByoCACIQkjgCACAIIBAgD5M4AgAgBiAOIA2SOAIAIAZBKGoiByAGQQhqIggqAgAiDSAHKgIAIg4gBkEsaiIHKgIAIg+SQ/MENT+UIhCTOAIAIAcgBkEMaiIEKgIAIhEgDyAOk0PzBDU/lCIOkzgCACAIIA0gEJI4AgAgBCAOIBGSOAIAIAZBMGoiByoCACENIAcgBkEQaiIIKgIAIg4gBkE0aiIEKgIAIg+TOAIAIAQgDSAGQRRqIgcqAgAiEJI4AgAgByAQIA2TOAIAIAggDyAOkjgCACAGQThqIgcgBkEYaiIIKgIAIg0gBkE8aiIEKgIAIg4gByoCACIPk0PzBDU/lCIQkzgCACAEIAZBHGoiByoCACIRIA4gD5JD8wQ1v5QiDpM4AgAgByAOIBGSOAIAIAggDSAQkjgCACAGQcAAaiEGIAVBf2oiBQ0ADAQLCyACIAxBAnRqKAIAIRICQCALQQFGDQAgEkEBSA0DIAtBA3QhEyASIAl0IgZBA3QhFCAGQRhsIRUgBkEEdCEWIAtBGGwhFyALQQR0IRggACgCMCEEQQAhGQNAAkAgC0EBSA0AIAEgGSAKbEEDdGohBkEAIQUgCyEaQQAhB0EAIQgDQCAGIBhqIhtBBGoiHCAbKgIAIg0gBCAHaiIdQQRqKgIAIg6UIB0qAgAiDyAcKgIAIhCUkiIRIAZBBGoiHioCACIfkiIgIAYgE2oiHCoCACIhIAQgCGoiHUEEaioCACIilCAdKgIAIiMgHEEEaiIkKgIAIiWUkiImIAYgF2oiHSoCACInIAQgBWoiKEEEaioCACIplCAoKgIAIiogHUEEaiIoKgIAIiuUkiIskiItkzgCACAbIA0gD5QgECAOlJMiDSAGKgIAIg6SIg8gISAjlCAlICKUkyIQICcgKpQgKyAplJMiIZIiIpM4AgAgHiAtICCSOAIAICQgHyARkyIRIBAgIZMiEJM4AgAgBiAPICKSOAIAIBwgDiANkyINICYgLJMiDpI4AgAgKCARIBCSOAIAIB0gDSAOkzgCACAFIBVqIQUgByAWaiEHIAggFGohCCAGQQhqIQYgGkF/aiIaDQALCyAZQQFqIhkgEkcNAAwECwsgEkEBSA0CIAEhBgNAIAZBFGoiBSAGQQRqIgcqAgAiDSAFKgIAIg6SIg8gBkEMaiIFKgIAIhAgBkEcaiIIKgIAIhGSIh+TOAIAIAZBEGoiBCAGKgIAIiAgBCoCACIhkiIiIAZBCGoiBCoCACIjIAZBGGoiGyoCACIlkiImkzgCACAIIA0gDpMiDSAjICWTIg6SOAIAIBsgICAhkyIgIBAgEZMiEJM4AgAgBSANIA6TOAIAIAQgICAQkjgCACAHIA8gH5I4AgAgBiAiICaSOAIAIAZBIGohBiASQX9qIhINAAwDCwsgAiAMQQJ0aigCACIWQQFIDQEgACgCMCIVIBYgCXQiBiALbEEDdGoqAgQhDSALQQN0IR4gBkEDdCEkIAZBBHQhKCALQQR0IRNBACEUA0AgASAUIApsQQN0aiEGIBUhCCAVIQQgCyEdA0AgBiAeaiIFIAYqAgAgBSoCACIOIAgqAgAiD5QgBUEEaiIHKgIAIhAgCEEEaioCACIRlJMiHyAGIBNqIhsqAgAiICAEKgIAIiGUIBtBBGoiGioCACIiIARBBGoqAgAiI5STIiWSIiZDAAAAP5STOAIAIAcgBkEEaiIcKgIAIA4gEZQgDyAQlJIiDiAgICOUICEgIpSSIg+SIhBDAAAAP5STOAIAIAYgJiAGKgIAkjgCACAcIBAgHCoCAJI4AgAgGyANIA4gD5OUIg4gBSoCAJI4AgAgGiAHKgIAIA0gHyAlk5QiD5M4AgAgBSAFKgIAIA6TOAIAIAcgDyAHKgIAkjgCACAIICRqIQggBkEIaiEGIAQgKGohBCAdQX9qIh0NAAsgFEEBaiIUIBZHDQAMAgsLIAIgDEECdGooAgAiLkEBSA0AIAAoAjAiBSAuIAl0IgYgC2wiB0EEdGoiCCoCACENIAUgB0EDdGoiByoCACEOIAZBGGwhFiAGQQV0IRcgBkEEdCEYIAZBA3QhEiALQQN0IRkgC0EFdCEvIAtBGGwhMCALQQR0ITEgByoCBCIQjCEyIAgqAgQiEYwhM0EAITQDQAJAIAtBAUgNACABIDQgCmxBA3RqIQZBACEHQQAhCCALISRBACEEQQAhGwNAIAYqAgAhDyAGQQRqIhwgHCoCACIfIAYgMWoiHCoCACIiIAUgBGoiHUEEaioCACIjlCAdKgIAIiUgHEEEaiIoKgIAIiaUkiInIAYgMGoiHSoCACIpIAUgB2oiGkEEaioCACIqlCAaKgIAIisgHUEEaiITKgIAIiyUkiItkiIgIAYgGWoiGioCACI1IAUgG2oiHkEEaioCACI2lCAeKgIAIjcgGkEEaiIUKgIAIjiUkiI5IAYgL2oiHioCACI6IAUgCGoiFUEEaioCACI7lCAVKgIAIjwgHkEEaiIVKgIAIj2UkiI+kiIhkpI4AgAgFCAfICEgDpQgDSAglJKSIj8gNSA3lCA4IDaUkyI1IDogPJQgPSA7lJMiNpMiNyAQlCARICIgJZQgJiAjlJMiIiApICuUICwgKpSTIiOTIiWUkiImkjgCACAGIA8gIiAjkiIiIDUgNpIiI5KSOAIAIBogDyAjIA6UIA0gIpSSkiIpIDkgPpMiKiAQlCARICcgLZMiJ5SSIiuTOAIAIBUgPyAmkzgCACAeICsgKZI4AgAgKCAfICEgDZQgDiAglJKSIh8gNyARlCAlIDKUkiIgkjgCACAcICcgEJQgKiAzlJIiISAPICMgDZQgDiAilJKSIg+SOAIAIBMgHyAgkzgCACAdIA8gIZM4AgAgByAWaiEHIAggF2ohCCAEIBhqIQQgGyASaiEbIAZBCGohBiAkQX9qIiQNAAsLIDRBAWoiNCAuRw0ACwsgDEF/aiEFIAxBAEoNAAsLlgIFAX8BfQV/AX0BfwJAIAAoAgAiA0EBSA0AIAAqAgQhBCADQQFxIQUgACgCLCEGQQAhBwJAIANBAUYNACADQf7///8HcSEIQQAhByAGIQkgASEDA0AgAyoCACEKIAIgCS4BAEEDdGoiCyAEIANBBGoqAgCUOAIEIAsgBCAKlDgCACADQQxqKgIAIQogAiAJQQJqLgEAQQN0aiILIAQgA0EIaioCAJQ4AgAgCyAEIAqUOAIEIAlBBGohCSADQRBqIQMgCCAHQQJqIgdHDQALCyAFRQ0AIAEgB0EDdGoiAyoCACEKIAIgBiAHQQF0ai4BAEEDdGoiCSAEIAMqAgSUOAIEIAkgBCAKlDgCAAsgACACELiBgIAAC44CAQd/AkACQCABKAIAIgQNAEEAIQUMAQtBgIABIANrQeD/ASACa2wiBkEPdiEHIAQgBEEfdSIIcyAIayEJQQEhBQJAIAZBgIACSQ0AIAlBAkgNAEEBIQUDQCAFQQFqIQUgB0EBdCIKIANsIgZBD3YhByACIApqQQJqIQIgBkGAgAJJDQEgBSAJSA0ACwsCQCAGQf//AUsNACABIAUgCGogCSAFayIFIARBH3ZBgIACciACa0EBdUF/aiIGIAUgBkgbIgVqIAhzNgIAIAggAmogBUEBdGpBAWoiBUGAgAJHIQIMAQtBACAHQQFqIgYgBEEASBsgAmohBSAGIQILIAAgBSACIAVqQQ8QsIGAgAAL9wEBBX9BACEDAkACQCAAQQ8QqIGAgAAiBCABTw0AQQAhBSABIQYMAQtBgIABIAJrQeD/ASABa2wiA0EPdkEBaiEGAkACQAJAIANBgIACTw0AIAEhBUEBIQMMAQtBASEDA0AgBCAGQQF0IgcgAWoiBUkNAiADQQFqIQMgB0F+aiACbCIHQQ92QQFqIQYgBSEBIAdB//8BSw0ACwsgBCAFayIHQX5xIAVqIQEgB0EBdiADaiEDC0EAIANrIAMgBCABIAZqIgdJIgQbIQUgASAHIAQbIQMLIAAgAyAGIANqIgFBgIACIAFBgIACSRtBgIACEKmBgIAAIAULXgEEf0EBQR8gAGdrQQF1IgF0IQJBACEDA0AgAEEAIANBAXQgAmogAXQiBCAEIABLIgQbayEAQQAgAiAEGyADaiEDIAFBAEohBCACQQF2IQIgAUF/aiEBIAQNAAsgAwuCCgIPfwV9I4CAgIAAIgghCSAAIAVBAnRqQQhqIQogACgCGCELIAAoAgAhAAJAIAVBAUgNACAFQQdxIQwCQCAFQQhJDQAgBUH4////B3EhBQNAIAsgAEEBdEF8cWogAEF8cWogAEEDdUECdGogAEEEdUECdGogAEEFdUECdGogAEEGdUECdGogAEEHdUECdGogAEEIdSIAQQJ0aiELIAVBeGoiBQ0ACwsgDEUNAANAIAsgAEEBdSIAQQJ0aiELIAxBf2oiDA0ACwsgCigCACENIARBAXUhDiABIABBAXUiD0ECdCIMaiIQQXxqIQogCCAMQQ9qQXBxayIIIgwkgICAgAAgDCAAQQJ1IhFBA3RBD2pBcHFrIgUkgICAgAACQAJAIARBA2pBAnUiEkEBTg0AIAogDkECdCIAaiEMIAEgAGohAUEAIRMgCCEADAELIANBfGohFCABQXxqIRMgDkECdCEMIAMhFSASIRYgCCEAA0AgACAUIAxqKgIAIhcgECAMaioCAJQgFSAMaioCACIYIAogDGoqAgCUkjgCACAAQQRqIBggASAMaioCAJQgFyATIAxqKgIAlJM4AgAgAEEIaiEAIBRBeGohFCAVQQhqIRUgE0F4aiETIApBeGohCiABQQhqIQEgEEEIaiEQIBZBf2oiFg0ACyAKIA5BAnQiEGohDCABIBBqIQEgEiETCyANKgIEIRcCQAJAIBMgESASayIUSA0AIBMhFAwBCwJAAkAgESASIBNqa0EDcSIKDQAgEyEQDAELIBMgCmohECAKQQN0IQoDQCAAIAwqAgA4AgAgAEEEaiABKgIAOAIAIABBCGohACAMQXhqIQwgAUEIaiEBIApBeGoiCg0ACwsgEiARayATakF8Sw0AA0AgACAMKgIAOAIAIABBBGogASoCADgCACAAQQhqIAxBeGoqAgA4AgAgAEEMaiABQQhqKgIAOAIAIABBEGogDEFwaioCADgCACAAQRRqIAFBEGoqAgA4AgAgAEEYaiAMQWhqKgIAOAIAIABBHGogAUEYaioCADgCACAAQSBqIQAgDEFgaiEMIAFBIGohASAQQQRqIhAgFEgNAAsLAkACQAJAIBEgFEwNACADIARBAnRqQXxqIQogESAUayEQQQAgD0ECdCIUayETA0AgACAKKgIAIhggDCoCAJQgAyoCACIZIAEgE2oqAgCUkzgCACAAQQRqIBggASoCAJQgGSAMIBRqKgIAlJI4AgAgAEEIaiEAIApBeGohCiADQQhqIQMgDEF4aiEMIAFBCGohASAQQX9qIhANAAwCCwsgEUEASg0AIA0gBRC4gYCAAAwBCyARQQJ0IRAgDSgCLCEMIAshACARIQEDQCAFIAwuAQBBA3RqIgogFyAIQQRqKgIAIhggACoCACIZlCAAIBBqKgIAIhogCCoCACIblJKUOAIEIAogFyAbIBmUIBggGpSTlDgCACAIQQhqIQggAEEEaiEAIAxBAmohDCABQX9qIgENAAsgDSAFELiBgIAAIBFBAnQhDEEAIAZBA3QiAWshCCACIA9Bf2ogBmxBAnRqIQADQCACIAVBBGoqAgAiFyALIAxqKgIAIhiUIAUqAgAiGSALKgIAIhqUkzgCACAAIBkgGJQgFyAalJI4AgAgAiABaiECIAAgCGohACALQQRqIQsgBUEIaiEFIBFBf2oiEQ0ACwsgCSSAgICAAAuCBgILfwZ9IAAoAhghCCAAKAIAIQkCQCAFQQFIDQAgBUEHcSEKAkAgBUEISQ0AIAVB+P///wdxIQsDQCAIIAlBAXRBfHFqIAlBfHFqIAlBA3VBAnRqIAlBBHVBAnRqIAlBBXVBAnRqIAlBBnVBAnRqIAlBB3VBAnRqIAlBCHUiCUECdGohCCALQXhqIgsNAAsLIApFDQADQCAIIAlBAXUiCUECdGohCCAKQX9qIgoNAAsLIAlBAXUhDCACIARBAXUiDUECdGohCiAAIAVBAnRqQQhqKAIAIQ4CQCAJQQJ1Ig9BAUgNACAPQQJ0IRBBACAGQQN0IhFrIRIgASAMQX9qIAZsQQJ0aiELIA4oAiwhBSAIIQkgDyEAA0AgCiAFLgEAQQN0aiIGQQRqIAsqAgAiEyAJKgIAIhSUIAEqAgAiFSAJIBBqKgIAIhaUkjgCACAGIBUgFJQgEyAWlJM4AgAgCyASaiELIAEgEWohASAJQQRqIQkgBUECaiEFIABBf2oiAA0ACwsgDiAKELiBgIAAAkAgD0EBakEBdSIGQQFIDQAgDEECdCIFIA1BAnRqIAJqQXhqIQkgD0ECdCIBQXxqIQsgBUF8aiEFQQAhAANAIAlBBGoiECoCACETIAkqAgAhFCAKIApBBGoiESoCACIVIAggAGoqAgAiFpQgCioCACIXIAggAWoqAgAiGJSSOAIAIBAgFSAYlCAXIBaUkzgCACAJIBMgCCALaioCACIVlCAUIAggBWoqAgAiFpSSOAIAIBEgEyAWlCAUIBWUkzgCACAJQXhqIQkgC0F8aiELIAVBfGohBSABQQRqIQEgAEEEaiEAIApBCGohCiAGQX9qIgYNAAsLIARBAm0hCQJAIARBAkgNACAEQQJ0QXxqIQhBACEKA0AgAiAKaiIBIAMgCGoqAgAiEyABKgIAIhSUIAMgCmoqAgAiFSACIAhqIgEqAgAiFpSTOAIAIAEgFSAUlCAWIBOUkjgCACAKQQRqIQogCEF8aiEIIAlBf2oiCQ0ACwsLlQEBAX8CQAJAAkACQCAAQYD3AkciAw0AIAFBwAdGDQELAkAgAw0AIAFB/////wdxQeADRg0BCwJAIABBgPcCRyIADQAgAUH/////A3FB8AFGDQELAkAgAA0AIAFB/////wFxQfgARg0BC0EAIQEgAkUNAkF/IQAMAQtBgPCAgAAhASACRQ0BQQAhAAsgAiAANgIACyABC4AIAgl/DX0jgICAgABBMGsiBSSAgICAAEEBIQYgACgCACEHAkAgAkEBdSIIQQJIDQAgCEF/aiIJQQFxIQoCQCAIQQJGDQAgAUEIaiELIAlBfnEhDEEAIQkgByEGA0AgC0F8aiAGQQRqKgIAIAZBDGoiDSoCAJJDAAAAP5QgBkEIaioCAJJDAAAAP5Q4AgAgCyANKgIAIAZBFGoqAgCSQwAAAD+UIAZBEGoiBioCAJJDAAAAP5Q4AgAgC0EIaiELIAwgCUECaiIJRw0ACyAJQQFqIQYLIApFDQAgASAGQQJ0aiAHIAZBA3RqIgZBfGoqAgAgBioCBJJDAAAAP5QgBioCAJJDAAAAP5Q4AgALIAEgByoCBEMAAAA/lCAHKgIAkkMAAAA/lCIOOAIAAkAgA0ECRw0AIAAoAgQhDQJAIAhBAkgNACANQQxqIQYgAUEEaiELIAhBf2ohCQNAIAsgBkF4aioCACAGKgIAkkMAAAA/lCAGQXxqKgIAkkMAAAA/lCALKgIAkjgCACAGQQhqIQYgC0EEaiELIAlBf2oiCQ0ACwsgASANKgIEQwAAAD+UIA0qAgCSQwAAAD+UIA6SOAIAC0EAIQsgASAFQRBqQQBBAEEEIAggBBDHgYCAABogBSAFKgIQQ0cDgD+UOAIQIAUgBSoCFCIOQ28SA7yUQ28SAzyUIA6SOAIUIAUgBSoCGCIOQ28Sg7yUQ28SgzyUIA6SOAIYIAUgBSoCHCIOQ6abxLyUQ6abxDyUIA6SOAIcIAUgBSoCICIOQ28SA72UQ28SAz2UIA6SOAIgIAUgBUEQakEEEMSBgIAAAkAgCEEBSA0AIAUqAghDvZ86P5QiDkPNzEw/lCAFKgIMQyr2Jz+UIg+SIRAgBSoCBEMoXE8/lCIRQ83MTD+UIA6SIRIgBSoCAENmZmY/lCIOQ83MTD+UIBGSIRMgD0PNzEw/lCEUIA5DzcxMP5IhFUMAAAAAIQ9DAAAAACERQwAAAAAhFkMAAAAAIQ5DAAAAACEXAkAgCEEBRg0AIAhB/v///wdxIQ1DAAAAACEYQQAhCyABIQZDAAAAACEZQwAAAAAhGkMAAAAAIQ5DAAAAACEXA0AgBiAUIBiUIBAgGZQgEiAaIg+UIBMgDiIRlCAVIBciFpQgBioCACIOkpKSkpI4AgAgBkEEaiIJIBQgGZQgECAPlCASIBGUIBMgFpQgFSAOlCAJKgIAIheSkpKSkjgCACAGQQhqIQYgDyEYIBEhGSAWIRogDSALQQJqIgtHDQALCyACQQJxRQ0AIAEgC0ECdGoiBiAUIA+UIBAgEZQgEiAWlCATIA6UIBUgF5QgBioCAJKSkpKSOAIACyAFQTBqJICAgIAAC4UIBQh/C30BfwR9A39BACEGAkAgBEEESA0AIARBfWohByADQfz///8HcSEIIANBfWohCUEAIQYgA0EESCEKA0AgASAGQQJ0IgtqIgxBDGohDSAMKgIIIQ4gDCoCBCEPIAwqAgAhEEMAAAAAIRECQAJAIApFDQBDAAAAACESQwAAAAAhE0MAAAAAIRQgDyEVIA4hFkMAAAAAIRcgECEYQQAhGSAAIQwMAQtBACEZQwAAAAAhFEMAAAAAIRNDAAAAACESQwAAAAAhESAAIQwDQCAMQQxqKgIAIhogDUEMaioCACIWlCAMQQhqKgIAIhsgDUEIaioCACIVlCAMQQRqKgIAIhwgDUEEaioCACIYlCAMKgIAIh0gDSoCACIXlCAUkpKSkiEUIBogFZQgGyAYlCAcIBeUIB0gDpQgE5KSkpIhEyAaIBiUIBsgF5QgHCAOlCAdIA+UIBKSkpKSIRIgGiAXlCAbIA6UIBwgD5QgHSAQlCARkpKSkiERIA1BEGohDSAMQRBqIQwgGCEQIBYhDiAVIQ8gGUEEaiIZIAlIDQALIAghGQsgGUEBciEeAkACQCAZIANIDQAgDSEfIAwhIAwBCyANQQRqIR8gDEEEaiEgIAwqAgAiDiANKgIAIheUIBSSIRQgDiAWlCATkiETIA4gFZQgEpIhEiAOIBiUIBGSIRELIBlBAnIhDQJAAkAgHiADSA0AIB8hDCAgIRkMAQsgH0EEaiEMICBBBGohGSAgKgIAIg4gHyoCACIYlCAUkiEUIA4gF5QgE5IhEyAOIBaUIBKSIRIgDiAVlCARkiERCwJAIA0gA04NACAZKgIAIg4gDCoCAJQgFJIhFCAOIBiUIBOSIRMgDiAXlCASkiESIA4gFpQgEZIhEQsgAiALaiINIBQ4AgwgDSATOAIIIA0gEjgCBCANIBE4AgAgBkEEaiIGIAdIDQALCwJAIAYgBE4NACADQQNxISAgASAGQQJ0aiEJQQAgA0H8////B3FrIR8gA0EBSCELIANBBEkhAwNAAkACQCALRQ0AQwAAAAAhFwwBCwJAAkAgA0UNAEEAIQ1DAAAAACEXDAELQwAAAAAhF0EAIRkgCSENIAAhDANAIAxBDGoqAgAgDUEMaioCAJQgDEEIaioCACANQQhqKgIAlCAMQQRqKgIAIA1BBGoqAgCUIAwqAgAgDSoCAJQgF5KSkpIhFyANQRBqIQ0gDEEQaiEMIB8gGUF8aiIZRw0AC0EAIBlrIQ0LICBFDQAgDUECdCENICAhDANAIAAgDWoqAgAgCSANaioCAJQgF5IhFyANQQRqIQ0gDEF/aiIMDQALCyACIAZBAnRqIBc4AgAgCUEEaiEJIAZBAWoiBiAERw0ACwsLlg8CDX8GfSOAgICAACIGIQcgBiACQXxxQQ9qQXBxayIIIgYkgICAgAAgBiADIAJqIglBfHFBD2pBcHFrIgYiCiSAgICAACAJQQJ1IQsgCiADQQF1IgxBAnRBD2pBcHFrIg0kgICAgAACQCACQQJ1Ig5BAUgNACAOQQNxIQ9BACEQAkAgDkEESQ0AIA5B/P///wdxIRFBACEQIAghCSAAIQoDQCAJIAoqAgA4AgAgCUEEaiAKQQhqKgIAOAIAIAlBCGogCkEQaioCADgCACAJQQxqIApBGGoqAgA4AgAgCUEQaiEJIApBIGohCiARIBBBBGoiEEcNAAsLIA9FDQAgACAQQQN0aiEJIAggEEECdGohCgNAIAogCSoCADgCACAJQQhqIQkgCkEEaiEKIA9Bf2oiDw0ACwsCQCALQQFIDQAgC0EDcSEPQQAhEAJAIAtBBEkNACALQfz///8HcSERQQAhECAGIQkgASEKA0AgCSAKKgIAOAIAIAlBBGogCkEIaioCADgCACAJQQhqIApBEGoqAgA4AgAgCUEMaiAKQRhqKgIAOAIAIAlBEGohCSAKQSBqIQogESAQQQRqIhBHDQALCyAPRQ0AIAEgEEEDdGohCSAGIBBBAnRqIQoDQCAKIAkqAgA4AgAgCUEIaiEJIApBBGohCiAPQX9qIg8NAAsLQQIhEiAIIAYgDSAOIANBAnUiDyAGEMGBgIAAAkACQCAOQQFODQBDAACAPyETDAELIA5BA3EhCgJAAkAgDkEETw0AQwAAgD8hE0EAIRAMAQsgDkH8////B3EhEUMAAIA/IRNBACEQIAYhCQNAIAlBDGoqAgAiFCAUlCAJQQhqKgIAIhQgFJQgCUEEaioCACIUIBSUIAkqAgAiFCAUlCATkpKSkiETIAlBEGohCSARIBBBBGoiEEcNAAsLIApFDQAgBiAQQQJ0aiEJA0AgCSoCACIUIBSUIBOSIRMgCUEEaiEJIApBf2oiCg0ACwsCQAJAIA9BAU4NAEEAIQsMAQsgDkECdCEQQwAAgL8hFUEAIREgDSEJQQEhDkEAIQpDAAAAACEWQwAAAAAhF0MAAIC/IRgDQAJAIAkqAgAiFEMAAAAAXkUNACAXIBRDzLyMK5QiFCAUlCIUlCAYIBOUXkUNAAJAIBYgFJQgFSATlF5FDQAgESEOIAohESAVIRggFCEVIBYhFyATIRYMAQsgCiEOIBQhGCATIRcLQwAAgD8gEyAGIBBqKgIAIhQgFJQgBioCACIUIBSUk5IiEyATQwAAgD9dGyETIAlBBGohCSAGQQRqIQYgDyAKQQFqIgpHDQALIA5BAXQhEiARQQF0IQsLIAJBAXUhAwJAIAxBAUgNACADQfz///8HcSERIANBA3EhCCABIQ9BACEOA0AgDSAOQQJ0aiICQQA2AgACQAJAIA4gC2siBiAGQR91IgZzIAZrQQNJDQAgDiASayIGIAZBH3UiBnMgBmtBAksNAQsCQAJAIANBAU4NAEMAAAAAIRMMAQsCQAJAIANBBE8NAEEAIRBDAAAAACETDAELQwAAAAAhE0EAIQZBACEQA0AgACAGaiIJQQxqKgIAIA8gBmoiCkEMaioCAJQgCUEIaioCACAKQQhqKgIAlCAJQQRqKgIAIApBBGoqAgCUIAkqAgAgCioCAJQgE5KSkpIhEyAGQRBqIQYgESAQQQRqIhBHDQALCyAIRQ0AIBBBAnQhBiAIIQkDQCAAIAZqKgIAIA8gBmoqAgCUIBOSIRMgBkEEaiEGIAlBf2oiCQ0ACwsgAkMAAIC/IBMgE0MAAIC/XRs4AgALIA9BBGohDyAOQQFqIg4gDEcNAAsLAkACQCADQQFODQBDAACAPyETDAELIANBA3EhCQJAAkAgA0EETw0AQwAAgD8hE0EAIQoMAQsgA0H8////B3EhD0MAAIA/IRNBACEKIAEhBgNAIAZBDGoqAgAiFCAUlCAGQQhqKgIAIhQgFJQgBkEEaioCACIUIBSUIAYqAgAiFCAUlCATkpKSkiETIAZBEGohBiAPIApBBGoiCkcNAAsLIAlFDQAgASAKQQJ0aiEGA0AgBioCACIUIBSUIBOSIRMgBkEEaiEGIAlBf2oiCQ0ACwsCQAJAIAxBAU4NAEEAIQ9BACEGDAELIANBAnQhCkMAAIC/IRVBACEPIA0hBkEAIQlDAAAAACEWQwAAAAAhF0MAAIC/IRgDQAJAIAYqAgAiFEMAAAAAXkUNACAXIBRDzLyMK5QiFCAUlCIUlCAYIBOUXkUNAAJAIBYgFJQgFSATlF5FDQAgCSEPIBUhGCAUIRUgFiEXIBMhFgwBCyAUIRggEyEXC0MAAIA/IBMgASAKaioCACIUIBSUIAEqAgAiFCAUlJOSIhMgE0MAAIA/XRshEyAGQQRqIQYgAUEEaiEBIAwgCUEBaiIJRw0AC0EAIQYgD0UNACAPIAxBf2pODQACQCANIA9BAnRqIgYqAgQiFCAGQXxqKgIAIhOTIAYqAgAiFyATk0MzMzM/lF5FDQBBfyEGDAELIBMgFJMgFyAUk0MzMzM/lF4hBgsgBCAGIA9BAXRqNgIAIAckgICAgAALtxAKCn8CfQJ/An0DfwF9An8EfQV/An0jgICAgAAiCBogBCgCAEECbSIJIAFBAm0iCkF/aiILIAkgC0gbIQwgACAKQQJ0IglqIQ0gA0ECbSEOIAVBfm0hDyACQQJtIRAgCCAJQRNqQXBxayIRGkMAAAAAIRJDAAAAACETAkAgA0ECSA0AIA5BAXEhFAJAAkAgA0H+////B3FBAkcNAEEAIQVDAAAAACETQwAAAAAhEgwBC0EAIQhBACAMQQJ0ayELQQAgDkH+////A3FrIRVDAAAAACETIA0hBUMAAAAAIRIDQCAFQQRqKgIAIhYgFpQgBSoCACIXIBeUIBKSkiESIBYgBSALaiIJQQRqKgIAlCAXIAkqAgCUIBOSkiETIAVBCGohBSAVIAhBfmoiCEcNAAtBACAIayEFCyAURQ0AIA0gBUECdCIFaioCACIWIA0gDEECdGsgBWoqAgCUIBOSIRMgFiAWlCASkiESCyARIBI4AgACQCABQQJIDQAgDkECdCELIBFBBGohCCAKQQJ0IABqQXxqIQUgCiEJIBIhFgNAIAhDAAAAACAFKgIAIhcgF5QgFpIgBSALaioCACIWIBaUkyIWIBZDAAAAAF0bOAIAIAVBfGohBSAIQQRqIQggCUF/aiIJDQALCyAOQQFxIRggDkF/aiEZIBBBA2whGiAGQwAAAD+UIRsgDEEBdCIcQQJqIR1BACAOQf7///8DcWshASATIBIgESAMQQJ0aioCACIelEMAAIA/kpGVIh9DmplZP5QhICAfQzMzMz+UISFBBCEiQQIhFCAMISMCQANAIBQgHGogFEEBdCIFbiIkIBBIDQECQAJAIBRBAkcNACAMICQgDGoiBSAFIApKGyEFDAELIBwgFEECdCgC4OOBgABsIBRqIAVuIQULIAVBAnQhJSAkQQJ0ISZDAAAAACEWAkAgA0ECSA0AAkACQCAZDQBBACEFQwAAAAAhFkMAAAAAIRcMAQtBACEIQQAgJWshC0EAIB0gIm5BAnRrIRVDAAAAACEWIA0hBUMAAAAAIRcDQCAFQQRqKgIAIicgBSALaiIJQQRqKgIAlCAFKgIAIiggCSoCAJQgFpKSIRYgJyAFIBVqIglBBGoqAgCUICggCSoCAJQgF5KSIRcgBUEIaiEFIAEgCEF+aiIIRw0AC0EAIAhrIQULAkAgGEUNACANIAVBAnQiBWoqAgAiJyANICVrIAVqKgIAlCAWkiEWICcgDSAmayAFaioCAJQgF5IhFwsgFyAWkkMAAAA/lCEWCyASIBEgJmoqAgAgESAlaioCAJJDAAAAP5QiKJRDAACAP5KRIScgBiEXAkAgJCAPaiIFIAVBH3UiBXMgBWsiBUECSQ0AQwAAAAAhFyAFQQJHDQAgG0MAAAAAIBQgFGxBBWwgDEgbIRcLIBYgJ5UhJyAXjCEXAkACQCAkIBpODQBDzczMPiAgIBeSIhcgF0PNzMw+XRshFwwBC0OamZk+ICEgF5IiFyAXQ5qZmT5dGyEXCwJAICcgF15FDQAgJCEjICchHyAWIRMgKCEeCyAiQQJqISIgHUEBaiEdIBRBAWoiFEEQRw0ACwtDAAAAACEnQwAAgD8hKAJAIB5DAAAAACATIBNDAAAAAF0bIhZfDQAgFiAeQwAAgD+SlSEoC0MAAAAAIRZDAAAAACEXAkAgA0ECSA0AIA5BA3EhCQJAAkAgGUEDTw0AQQAhC0MAAAAAIRYMAQsgDkH8////A3EhFUEAIQtBACAjQQJ0ayEBQwAAAAAhFiANIQUDQCAFQQxqKgIAIAUgAWoiCEEQaioCAJQgBUEIaioCACAIQQxqKgIAlCAFQQRqKgIAIAhBCGoqAgCUIAUqAgAgCEEEaioCAJQgFpKSkpIhFiAFQRBqIQUgFSALQQRqIgtHDQALCwJAIAlFDQAgACALQQJ0IApBAnRqaiEFQQQgI0ECdGshCANAIAUqAgAgBSAIaioCAJQgFpIhFiAFQQRqIQUgCUF/aiIJDQALCyAOQQNxIQgCQAJAIBlBA08NAEEAIQVDAAAAACEnDAELQQAhCUEAICNBAnRrIQtBACAOQfz///8DcWshFUMAAAAAIScDQCANQQxqKgIAIA0gC2oiBUEMaioCAJQgDUEIaioCACAFQQhqKgIAlCANQQRqKgIAIAVBBGoqAgCUIA0qAgAgBSoCAJQgJ5KSkpIhJyANQRBqIQ0gFSAJQXxqIglHDQALQQAgCWshBQsCQCAIRQ0AIAAgBUECdCAKQQJ0amohBUEAICNBAnRrIQkDQCAFKgIAIAUgCWoqAgCUICeSIScgBUEEaiEFIAhBf2oiCA0ACwsgDkEDcSEJAkACQCAZQQNPDQBBACEFQwAAAAAhFwwBC0EAIQtBACAjQQJ0ayEkQQAgDkH8////A3FrIQ0gCkECdCAAakF8aiEFQwAAAAAhFwNAIAUgJGohCCAFQQRqIRUgBUEIaiEBIAVBDGohFCAFQRBqIgUqAgAgCEEMaioCAJQgFCoCACAIQQhqKgIAlCABKgIAIAhBBGoqAgCUIBUqAgAgCCoCAJQgF5KSkpIhFyANIAtBfGoiC0cNAAtBACALayEFCyAJRQ0AIAAgBUECdCAKQQJ0amohBSAjQX9zQQJ0IQgDQCAFKgIAIAUgCGoqAgCUIBeSIRcgBUEEaiEFIAlBf2oiCQ0ACwtBASEFAkAgFyAWkyAnIBaTQzMzMz+UXg0AQX9BACAWIBeTICcgF5NDMzMzP5ReGyEFCyAEIAUgI0EBdGoiBSACIAUgAkobNgIAIB8gKCAoIB9eGwvjBAUBfQd/AX0FfwJ9IAEqAgAhAwJAIAJBAnQiBEUNACAAQQAgBPwLAAsCQCABKgIAQwAAAABbDQBBACEFIAJBACACQQBKGyEGIABBfGohByABQXxqIQhBASEJA0AgBSIKIAZGDQECQAJAIAoNAEMAAAAAIQsMAQsCQAJAIApBAUcNAEMAAAAAIQtBACEMDAELIApBfnEhDUMAAAAAIQtBACEMIAghAiAAIQQDQCAEQQRqKgIAIAIqAgCUIAQqAgAgAkEEaioCAJQgC5KSIQsgAkF4aiECIARBCGohBCANIAxBAmoiDEcNAAsLIApBAXFFDQAgACAMQQJ0aioCACABIAogDGtBAnRqKgIAlCALkiELCyAAIApBAnRqIg4gCyABIApBAWoiBUECdGoqAgCSjCADlSILOAIAAkAgCkUNACAJQQF2IgJBASACQQFLGyICQQFxIQ9BACEMAkAgCUEESQ0AIAJB/v///wdxIRBBACEMIAchBCAAIQIDQCACIAsgBCoCACIRlCACKgIAIhKSOAIAIAQgESALIBKUkjgCACACQQRqIg0gCyAOIAxB/v///wNzQQJ0aiIKKgIAIhGUIA0qAgAiEpI4AgAgCiARIAsgEpSSOAIAIARBeGohBCACQQhqIQIgECAMQQJqIgxHDQALCyAPRQ0AIAAgDEECdGoiAiALIA4gDEF/c0ECdGoiBCoCACIRlCACKgIAIhKSOAIAIAQgESALIBKUkjgCAAsgB0EEaiEHIAhBBGohCCAJQQFqIQkgAyALIAuUIAOUkyIDIAEqAgBDbxKDOpRdRQ0ACwsLuQoJDH8EfQF/AX0BfwF9AX8JfQF/I4CAgIAAIgYaIAYgBEECdCIHQQ9qQXBxayIIGgJAIARBAUgNACAEQQNxIQlBACEKAkAgBEEESQ0AIAEgB2ohByAEQfz///8HcSELIARBAnQgAWpBfGohDEEAIQogCCEGA0AgBiAMKgIAOAIAIAZBBGogByAKQf7///8Dc0ECdGoqAgA4AgAgBkEIaiAHIApB/f///wNzQQJ0aioCADgCACAGQQxqIAcgCkH8////A3NBAnRqKgIAOAIAIAxBcGohDCAGQRBqIQYgCyAKQQRqIgpHDQALCyAJRQ0AIARBAnQgCkECdCIKayABakF8aiEGIAggCmohCgNAIAogBioCADgCACAGQXxqIQYgCkEEaiEKIAlBf2oiCQ0ACwtBACELAkAgA0EESA0AQQAgBGshBiADQX1qIQ0gBEH8////B3EhDiAEQX1qIQxBACELIAZBAnQhDyAEQQRIIRADQCAAIAtBAnQiEWoiByAPaiIKQQxqIQYgCioCCCESIAoqAgQhEyAKKgIAIRQgByoCACEVIAAgC0EDckECdCIWaioCACEXIAAgC0ECckECdCIYaioCACEZIAAgC0EBckECdCIaaioCACEbQwAAAAAhHAJAAkAgEEUNACATIR0gEiEeIBQhH0EAIQcgCCEKDAELQQAhByAIIQoDQCAKQQxqKgIAIiAgBkEMaioCACIelCAKQQhqKgIAIiEgBkEIaioCACIdlCAKQQRqKgIAIiIgBkEEaioCACIflCAKKgIAIiMgBioCACIclCAXkpKSkiEXICAgHZQgISAflCAiIByUICMgEpQgGZKSkpIhGSAgIB+UICEgHJQgIiASlCAjIBOUIBuSkpKSIRsgICAclCAhIBKUICIgE5QgIyAUlCAVkpKSkiEVIAZBEGohBiAKQRBqIQogHyEUIB4hEiAdIRMgB0EEaiIHIAxIDQALIA4hBwsgB0EBciEkAkACQCAHIARIDQAgBiEJIAohAQwBCyAGQQRqIQkgCkEEaiEBIAoqAgAiEiAGKgIAIhyUIBeSIRcgEiAelCAZkiEZIBIgHZQgG5IhGyASIB+UIBWSIRULIAdBAnIhBgJAAkAgJCAESA0AIAkhCiABIQcMAQsgCUEEaiEKIAFBBGohByABKgIAIhIgCSoCACIflCAXkiEXIBIgHJQgGZIhGSASIB6UIBuSIRsgEiAdlCAVkiEVCwJAIAYgBE4NACAHKgIAIhIgCioCAJQgF5IhFyASIB+UIBmSIRkgEiAclCAbkiEbIBIgHpQgFZIhFQsgAiAaaiAbOAIAIAIgEWogFTgCACACIBhqIBk4AgAgAiAWaiAXOAIAIAtBBGoiCyANSA0ACwsCQCALIANODQAgACALQQJ0IARBAnRraiEMIARBA3EhAUEAIARB/P///wdxayEJIARBAUghESAEQQRJIRYDQCAAIAtBAnQiBGoqAgAhHAJAIBENAEEAIQYCQCAWDQBBACEHIAwhBiAIIQoDQCAKQQxqKgIAIAZBDGoqAgCUIApBCGoqAgAgBkEIaioCAJQgCkEEaioCACAGQQRqKgIAlCAKKgIAIAYqAgCUIBySkpKSIRwgBkEQaiEGIApBEGohCiAJIAdBfGoiB0cNAAtBACAHayEGCyABRQ0AIAZBAnQhBiABIQoDQCAIIAZqKgIAIAwgBmoqAgCUIBySIRwgBkEEaiEGIApBf2oiCg0ACwsgAiAEaiAcOAIAIAxBBGohDCALQQFqIgsgA0cNAAsLC5MPCQ1/BH0BfwF9AX8BfQF/CX0CfyOAgICAACIHGiAHIARBAnQiCEEPakFwcWsiCSAEIANqIgpBAnRBD2pBcHFrIgsaAkACQCAEQQFODQBBACEHDAELIARBA3EhDEEAIQ0CQCAEQQRJDQAgASAIaiEIIARB/P///wdxIQ4gBEECdCABakF8aiEPQQAhDSAJIQcDQCAHIA8qAgA4AgAgB0EEaiAIIA1B/v///wNzQQJ0aioCADgCACAHQQhqIAggDUH9////A3NBAnRqKgIAOAIAIAdBDGogCCANQfz///8Dc0ECdGoqAgA4AgAgD0FwaiEPIAdBEGohByAOIA1BBGoiDUcNAAsLAkAgDEUNACAEQQJ0IA1BAnQiDWsgAWpBfGohByAJIA1qIQ0DQCANIAcqAgA4AgAgB0F8aiEHIA1BBGohDSAMQX9qIgwNAAsLIARBA3EhDEEAIQ0CQCAEQQRJDQAgBEH8////B3EhDiAFIARBAnRqIghBfGohD0EAIQ0gCyEHA0AgByAPKgIAjDgCACAHQQRqIAggDUH+////A3NBAnRqKgIAjDgCACAHQQhqIAggDUH9////A3NBAnRqKgIAjDgCACAHQQxqIAggDUH8////A3NBAnRqKgIAjDgCACAPQXBqIQ8gB0EQaiEHIA4gDUEEaiINRw0ACwsgBCEHIAxFDQAgBEECdCANQQJ0Ig1rIAVqQXxqIQcgCyANaiENA0AgDSAHKgIAjDgCACAHQXxqIQcgDUEEaiENIAxBf2oiDA0ACyAEIQcLAkAgCiAHTA0AIAogB2tBAnQiDUUNACALIAdBAnRqQQAgDfwLAAsgCyAEQQJ0aiEQQQAhDAJAIANBBEgNACADQX1qIREgBEH8////B3EhEiAEQX1qIQ9BACEMIARBBEghEwNAIAsgDEECdCIOaiINQQxqIQcgDSoCCCEUIA0qAgQhFSANKgIAIRYgACAOaioCACEXIAAgDEEDckECdCIYaioCACEZIAAgDEECckECdCIaaioCACEbIAAgDEEBckECdCIcaioCACEdQwAAAAAhHgJAAkAgE0UNACAVIR8gFCEgIBYhIUEAIQggCSENDAELQQAhCCAJIQ0DQCANQQxqKgIAIiIgB0EMaioCACIglCANQQhqKgIAIiMgB0EIaioCACIflCANQQRqKgIAIiQgB0EEaioCACIhlCANKgIAIiUgByoCACIelCAZkpKSkiEZICIgH5QgIyAhlCAkIB6UICUgFJQgG5KSkpIhGyAiICGUICMgHpQgJCAUlCAlIBWUIB2SkpKSIR0gIiAelCAjIBSUICQgFZQgJSAWlCAXkpKSkiEXIAdBEGohByANQRBqIQ0gISEWICAhFCAfIRUgCEEEaiIIIA9IDQALIBIhCAsgCEEBciEmAkACQCAIIARIDQAgByEKIA0hJwwBCyAHQQRqIQogDUEEaiEnIA0qAgAiFCAHKgIAIh6UIBmSIRkgFCAglCAbkiEbIBQgH5QgHZIhHSAUICGUIBeSIRcLIAhBAnIhBwJAAkAgJiAESA0AIAohDSAnIQgMAQsgCkEEaiENICdBBGohCCAnKgIAIhQgCioCACIhlCAZkiEZIBQgHpQgG5IhGyAUICCUIB2SIR0gFCAflCAXkiEXCwJAIAcgBE4NACAIKgIAIhQgDSoCAJQgGZIhGSAUICGUIBuSIRsgFCAelCAdkiEdIBQgIJQgF5IhFwsgAiAOaiAXOAIAIAIgHGogHSAXIAEqAgCUkyIeOAIAIAIgGmogGyAeIAEqAgCUkyAXIAEqAgSUkyIhOAIAIBAgDmoiByAXjDgCACAHQQRqIB6MOAIAIAdBCGogIYw4AgAgAiAYaiAZICEgASoCAJSTIB4gASoCBJSTIBcgASoCCJSTIh44AgAgB0EMaiAejDgCACAMQQRqIgwgEUgNAAsLAkAgDCADTg0AIARB/v///wdxIQ8gBEEBcSEKIAsgDEECdGohDgNAIAAgDEECdCIBaioCACEeAkAgBEEBSA0AQQAhCAJAIARBAUYNAEEAIQggDiEHIAkhDQNAIB4gDSoCACAHKgIAlJMgDUEEaioCACAHQQRqKgIAlJMhHiAHQQhqIQcgDUEIaiENIA8gCEECaiIIRw0ACwsgCkUNACAeIAkgCEECdCIHaioCACALIAFqIAdqKgIAlJMhHgsgAiABaiAeOAIAIBAgAWogHjgCACAOQQRqIQ4gDEEBaiIMIANHDQALCwJAIARBAUgNACAEQQNxIQxBACENAkAgBEEESQ0AIARB/P///wdxIQEgAiADQQJ0aiIIQXxqIQ9BACENIAUhBwNAIAcgDyoCADgCACAHQQRqIAggDUH+////A3NBAnRqKgIAOAIAIAdBCGogCCANQf3///8Dc0ECdGoqAgA4AgAgB0EMaiAIIA1B/P///wNzQQJ0aioCADgCACAPQXBqIQ8gB0EQaiEHIAEgDUEEaiINRw0ACwsgDEUNACADQQJ0IA1BAnQiDWsgAmpBfGohByAFIA1qIQ0DQCANIAcqAgA4AgAgB0F8aiEHIA1BBGohDSAMQX9qIgwNAAsLC8cDAwV/AX0CfyOAgICAACIHIQggBSAEayEJIAcgBUECdCIKQQ9qQXBxayILJICAgIAAAkAgA0UNAAJAIAVBAUgNACAKRQ0AIAsgACAK/AoAAAsCQCADQQFIDQAgBUECdEF8aiEKQQAhBwNAIAsgB2ogACAHaioCACACIAdqKgIAIgyUOAIAIAsgCmogDCAAIApqKgIAlDgCACAKQXxqIQogB0EEaiEHIANBf2oiAw0ACwsgCyEACyAAIAAgASAJIARBAWogBhDBgYCAAEEAIQ0CQCAEQQBIDQAgACAJQQJ0aiEOIAAhAgNAIA0iBkEBaiENQwAAAAAhDAJAIAYgCWoiByAFTg0AQwAAAAAhDAJAAkAgBCAGa0EBcQ0AIAchCgwBCyAHQQFqIQogACAHQQJ0aioCACAOKgIAlEMAAAAAkiEMCyAEIA1GDQAgCkECdCEHIAUgCmshCgNAIAAgB2oiA0EEaioCACACIAdqIgtBBGoqAgCUIAMqAgAgCyoCAJQgDJKSIQwgB0EIaiEHIApBfmoiCg0ACwsgASAGQQJ0aiIHIAwgByoCAJI4AgAgAkF8aiECIAQgBkcNAAsLIAgkgICAgABBAAvdCgcCfwF9BH8BfQR/AX0EfyOAgICAAEHgAGsiESESIBEkgICAgAACQAJAIAxFDQAgDSoCACETQQEhFAwBCyANKgIAIRNBACEUIA4NACATIAIgAWsgCWwiDEEBdLJeRQ0AIAsgDEohFAsgCUEBIAlBAUobIRUgAyABa0EBcSEWIAAoAgghF0MAAAAAIRhBACEZIAMgAUEBaiIaRiEbQQAhHANAAkAgAyABTA0AAkACQCAWDQAgASEMDAELIAQgASAcIBdsakECdCIMaioCACAFIAxqKgIAkyIdIB2UIBiSIRggGiEMCyAbDQAgAyAMayEeIAUgDCAZakECdCIfaiEMIAQgH2ohHwNAIB9BBGoqAgAgDEEEaioCAJMiHSAdlCAfKgIAIAwqAgCTIh0gHZQgGJKSIRggDEEIaiEMIB9BCGohHyAeQX5qIh4NAAsLIBkgF2ohGSAcQQFqIhwgFUcNAAsgEkHIAGpBCGogCEEIaikCADcDACASQcgAakEQaiAIQRBqKQIANwMAIBJBMGpBCGogCEEkaikCADcDACASQTBqQRBqIAhBLGooAgA2AgAgEiAIKQIANwNIIBIgCCkCHDcDMCAIKAIYIR8gCCgCFCEeIAgoAhwhHCARIAlBAnQiFSAXbCIMQQ9qQXBxIgNrIhkiFySAgICAACAXIANrIhYiFySAgICAAAJAIAxFDQAgGSAFIAz8CgAAC0MAAEBAQwAAgEEgC7JDAAAAPpQiHSAdQwAAgEFeG0MAAIBBIAIgAWtBCkobIBAbIR1DAABIQyAYIBhDAABIQ14bIRggHiAcZ2oiDEFgaiEeQQAhHAJAAkACQCAMQWNqIAZNIgwgDCAUcSIDIA4bQQFHDQAgACABIAIgBCAZIAYgHiAKQdQAbEG65YGAAGogFiAIIAkgCkEBIB0gEBDJgYCAACEcIAMNAQsgDkEARyAMcSEbIAgQpYGAgAAhICASQRhqQQhqIAhBDGopAgA3AwAgEkEYakEQaiAIQRRqKAIANgIAIBJBCGogCEEcaiIMQQhqIhopAgA3AwAgEkEQaiAMQRBqIg4oAgA2AgAgEiAIKQIENwMYIBIgDCkCADcDACAIKAIAIgsgH2ohESAXIAgoAhgiFCAfayIDQQ9qQXBxayIXJICAgIAAAkAgA0UiIQ0AIBcgESAD/AoAAAsgCCAfNgIYIAhBEGogEkHIAGpBEGopAwA3AgAgCEEIaiASQcgAakEIaikDADcCACAIIBIpA0g3AgAgDCASKQMwNwIAIBogEkEwakEIaikDADcCACAOIBJBMGpBEGooAgA2AgAgACABIAIgBCAFIAYgHiAKQdQAbEGQ5YGAAGogByAIIAkgCkEAIB0gEBDJgYCAACEfAkAgG0UNAAJAIBwgH0kNACAcIB9HDQEgCBClgYCAACATIAazlCAPspQgCUEJdLKV/ABqICBMDQELIAggCzYCACAIQQRqIh8gEikDGDcCACAIIBQ2AhggDCASKQMANwIAIB9BCGogEkEYakEIaikDADcCACAfQRBqIBJBGGpBEGooAgA2AgAgDEEIaiASQQhqKQMANwIAIAxBEGogEkEQaigCADYCAAJAICENACARIBcgA/wKAAALAkAgFSAAKAIIbCIMRQ0AIAUgGSAM/AoAAAsgFSAAKAIIbCIMRQ0CIAcgFiAM/AoAAAwCCyAKQQJ0QeDngYAAaioCACIdIB2UIA0qAgCUIBiSIRgMAQsCQCAVIAAoAghsIgxFDQAgBSAZIAz8CgAACyAVIAAoAghsIgxFDQAgByAWIAz8CgAACyANIBg4AgAgEkHgAGokgICAgAALuAYHAX8CfQR/An0GfwR9AX8jgICAgABBEGsiDySAgICAACAPQgA3AwgCQCAGQQNqIAVKDQAgCSAMQQMQsYGAgAALAkACQCAMRQ0AQwAAAAAhEEMAmBk+IREMAQsgC0ECdCIMQeDngYAAaioCACEQIAxB8OeBgABqKgIAIRELQQAhEgJAIAEgAk4NACAKQQEgCkEBShshEyAKQQNsIRQgBUEgaiEVIAAoAgghDCARjCEWIBCMIRcgASEYQQAhEgNAIA5BAEcgGEEBSnEhGSAIIBhBAnQiBWohGiAUIBggAmtsIRsgBCAFaiEcIAcgGEEUIBhBFEgbQQF0aiEdIA9BCGohCkEAIQYDQCAPIBdDAAAQwSAEIAwgBmwiDCAYakECdCIFaioCACIRIBFDAAAQwV0bIh6UIAMgBWoqAgAiEZIgCioCACIfkyIgQwAAAD+SjvwAIgU2AgQCQCAFQX9KDQAgEUMAAODBIBwgDEECdGoqAgAiISAhQwAA4MFdGyANkyIhXUUNACAPICEgEZP8ACAFaiIFQR91IAVxIgU2AgQLIBUgCSgCFCAJKAIcZ2prIQsgBSEMAkAgGCABRg0AIAUhDCALIBtqIiJBF0oNACAPIAVBASAFQQFIGyIMNgIEICJBD0oNACAPIAxBfyAMQX9KGyIMNgIECwJAIBlFDQAgDyAMQR91IAxxIgw2AgQLAkACQCALQQ9IDQAgCSAPQQRqIB0tAABBB3QgHUEBai0AAEEGdBC6gYCAAAwBCwJAIAtBAkgNACAPIAxBAEogDEEASGsiCzYCBCAJIAtBAXQgDEEfdXNBgOiBgABBAhCygYCAAAwBCwJAIAtBAUcNACAPIAxBH3UgDHEiDDYCBCAJQQAgDGtBARCxgYCAAAwBCyAPQX82AgQLIBogACgCCCIMIAZsQQJ0IgtqICAgDygCBCIisiIRkzgCACAKIBYgEZQgHyARkpI4AgAgHCALaiAQIB6UIB+SIBGSOAIAIAUgImsiBSAFQR91IgVzIAVrIBJqIRIgCkEEaiEKIBMgBkEBaiIGRw0ACyAYQQFqIhggAkcNAAsLIA9BEGokgICAgABBACASIA4bC5UCBAZ/AX0DfwF9AkAgASACTg0AIAdBASAHQQFKGyEIA0ACQCAFIAFBAnQiB2oiCSgCACIKQQFIDQAgAyAHaiELIAQgB2ohDEGAgAQgCnRBEHUiB0F/aiENIAeyIQ4gACgCCCEPQQAhBwNAIAYgDCAPIAdsQQJ0aioCAEMAAAA/kiAOlI78ACIPIA0gDyANSBsiD0EAIA9BAEobIhAgChC0gYCAACALIAAoAggiDyAHbEECdCIRaiIKIAoqAgAgELNDAAAAP5JBAUEOIAkoAgAiCmt0spRDAACAOJRDAAAAv5IiEpI4AgAgDCARaiIQIBAqAgAgEpM4AgAgCCAHQQFqIgdHDQALCyABQQFqIgEgAkcNAAsLC+4DAgt/AX0gCUEBIAlBAUobIQoCQCABIAJOIgsNACAHIAlIDQAgASEMA0ACQCAFIAxBAnQiDWoiDigCAEEHSg0AIAYgDWooAgANACADIA1qIQ8gBCANaiEQIAAoAgghEUEAIQ0DQCAIIBAgESANbEECdGoqAgBDAAAAAF0iEkEBc0EBELSBgIAAIA8gACgCCCIRIA1sQQJ0IhNqIhQgFCoCAEMAAAC/QwAAAD8gEhtBAUENIA4oAgBrdLKUQwAAgDiUIhWSOAIAIBAgE2oiEiASKgIAIBWTOAIAIAogDUEBaiINRw0ACyAHIAprIQcLIAxBAWoiDCACTg0BIAcgCU4NAAsLAkAgCw0AIAcgCUgNAANAAkAgBSABQQJ0Ig1qIg4oAgBBB0oNACAGIA1qKAIAQQFHDQAgAyANaiEPIAQgDWohECAAKAIIIRFBACENA0AgCCAQIBEgDWxBAnRqKgIAQwAAAABdIhJBAXNBARC0gYCAACAPIAAoAggiESANbEECdCITaiIUIBQqAgBDAAAAv0MAAAA/IBIbQQFBDSAOKAIAa3SylEMAAIA4lCIVkjgCACAQIBNqIhIgEioCACAVkzgCACAKIA1BAWoiDUcNAAsgByAKayEHCyABQQFqIgEgAk4NASAHIAlODQALCwvAAwYBfwJ9BH8BfQJ/An0jgICAgABBEGsiCCSAgICAACAIQgA3AwgCQAJAIARFDQBDAAAAACEJQwCYGT4hCgwBCyAHQQJ0IgtB4OeBgABqKgIAIQkgC0Hw54GAAGoqAgAhCgsCQCABIAJODQAgB0HUAGwgBEEqbGpBkOWBgABqIQwgBkEBIAZBAUobIQ0gBSgCBEEDdEEgaiEOIAqMIQ8DQCADIAFBAnRqIRAgDCABQRQgAUEUSBtBAXRqIREgCEEIaiEEQQAhBgNAAkACQCAOIAUoAhQgBSgCHGdqayILQQ9IDQAgBSARLQAAQQd0IBFBAWotAABBBnQQu4GAgAAhBwwBCwJAIAtBAkgNACAFQYDogYAAQQIQq4GAgAAiB0EBdUEAIAdBAXFrcyEHDAELQX8hByALQQFHDQBBACAFQQEQqoGAgABrIQcLIAQgDyAHsiIKlCAEKgIAIhIgCpKSOAIAIBAgACgCCCAGbEECdGoiByASIAlDAAAQwSAHKgIAIhMgE0MAABDBXRuUkiAKkjgCACAEQQRqIQQgDSAGQQFqIgZHDQALIAFBAWoiASACRw0ACwsgCEEQaiSAgICAAAulAQEFfwJAIAEgAk4NACAGQQEgBkEBShshBwNAAkAgBCABQQJ0IgZqIggoAgAiCUEBSA0AIAMgBmohCkEAIQYDQCAFIAkQrYGAgAAhCSAKIAAoAgggBmxBAnRqIgsgCyoCACAJskMAAAA/kkEBQQ4gCCgCACIJa3SylEMAAIA4lEMAAAC/kpI4AgAgByAGQQFqIgZHDQALCyABQQFqIgEgAkcNAAsLC+oCAQh/IAhBASAIQQFKGyEJAkAgASACTiIKDQAgBiAISA0AIAEhCwNAAkAgBCALQQJ0IgxqIg0oAgBBB0oNACAFIAxqKAIADQAgAyAMaiEOQQAhDANAIAdBARCtgYCAACEPIA4gACgCCCAMbEECdGoiECAQKgIAIA+yQwAAAL+SQQFBDSANKAIAa3SylEMAAIA4lJI4AgAgCSAMQQFqIgxHDQALIAYgCWshBgsgC0EBaiILIAJODQEgBiAITg0ACwsCQCAKDQAgBiAISA0AA0ACQCAEIAFBAnQiDGoiDSgCAEEHSg0AIAUgDGooAgBBAUcNACADIAxqIQ5BACEMA0AgB0EBEK2BgIAAIQ8gDiAAKAIIIAxsQQJ0aiIQIBAqAgAgD7JDAAAAv5JBAUENIA0oAgBrdLKUQwAAgDiUkjgCACAJIAxBAWoiDEcNAAsgBiAJayEGCyABQQFqIgEgAk4NASAGIAhODQALCwuiBAMOfwF9An8gBUEBIAVBAUobIQYgAUH+////B3EhByABQQFxIQggBCABQQJ0aiEJIAIgASACIAFrQQdxIgpqIgVrIQsgBCAFQQJ0aiEMQQAhDSABIAJrQXhLIQ5BACEPA0ACQCABQQFIDQAgACgCCCEQQQAhEQJAIAFBAUYNACADIBAgDWwiBWohEiAEIAVqIRNBACEFQQAhEQNAIAVBoOSBgABqKgIAIRQgEyAFaiIVIBIgBWoiFioCALsQuYKAgABE/oIrZUcV9z+itiAUkzgCACAFQaTkgYAAaioCACEUIBVBBGogFkEEaioCALsQuYKAgABE/oIrZUcV9z+itiAUkzgCACAFQQhqIQUgByARQQJqIhFHDQALCyAIRQ0AIBFBAnQqAqDkgYAAIRQgBCAQIA9sIBFqQQJ0IgVqIAMgBWoqAgC7ELmCgIAARP6CK2VHFfc/orYgFJM4AgALAkAgASACTg0AIAAoAgghFQJAIApFDQAgCSAVIA1saiEFIAohEQNAIAVBgICAi3w2AgAgBUEEaiEFIBFBf2oiEQ0ACwsgDg0AIAwgFSANbGohBSALIREDQCAFQoCAgIuMgICwQTcCACAFQRhqQoCAgIuMgICwQTcCACAFQRBqQoCAgIuMgICwQTcCACAFQQhqQoCAgIuMgICwQTcCACAFQSBqIQUgEUF4aiIRDQALCyANQQRqIQ0gD0EBaiIPIAZHDQALC4YdARx/I4CAgIAAIhMhFEEAIRUgCEEAIAhBAEobQQBBCCAIQQhIGyIWayEXIAAoAgghGAJAAkAgDUECRg0AQQAhGQwBCwJAIBcgAiABa0GQ6IGAAGotAAAiGU4NAEEAIRkMAQsgFyAZayIIQQBBCCAIQQhIGyIVayEXCyATIBhBAnRBD2pBcHEiCGsiGiITJICAgIAAIBMgCGsiGyITJICAgIAAIBMgCGsiHCITJICAgIAAIA1BA3QhHSATIAhrIh4kgICAgAACQCACIAFMIh8NACANIAUgDmtBe2psIiAgAiABayIhQX9qbCEIIA5BA2ohIiAcIAFBAnQiBWohEyAeIAVqIQUgACgCICABQQF0aiIjQQJqISQgIy8BACElA0AgJcEhIyAFIAggJC4BACIlICNrIiNsICJ0QQZ1IB1BACAjIA50QQFGG2s2AgAgEyAdICNBA2wgDnRBA3RBBHUiIyAdICNKGzYCACAIICBrIQggJEECaiEkIBNBBGohEyAFQQRqIQUgIUF/aiIhDQALCyACQQF0IiZBfmohJyACQQJ0QXxqISMgACgCMCIoQX9qISlBASEqAkADQCAqIClqQQF1ISsCQCAfDQAgACgCICIIICdqIRMgACgCNCArIBhsakF/aiEsIAggJmovAQAhCEEAISIgHiElIAMhBSAcISEgBCEgQQAhLSACISQDQAJAIAjBIBMuAQAiLmsgDWwgLCAkai0AAGwgDnRBAnUiCEEBSA0AICUgI2ooAgAgCGoiCEEAIAhBAEobIQgLIAUgI2ooAgAgCGohCAJAAkACQCAtDQAgCCAhICNqKAIASA0BCyAIICAgI2ooAgAiLSAIIC1IGyEIQQEhLQwBC0EAIS1BACAdIAggHUgbIQgLIBNBfmohEyAlQXxqISUgBUF8aiEFICFBfGohISAgQXxqISAgCCAiaiEiIC4hCCAkQX9qIiQgAUoNAAsgKiArQQFqICIgF0oiCBsiKiArQX9qICkgCBsiKUwNASABQQJ0IQggACgCNCITICogGGxqISwgACgCICABQQF0aiIFQQJqISMgEyAqQX9qIBhsaiEuIAUvAQAhLSAEISIgGiEhIBshJSABIRMgASErA0AgLcEhBSAjLgEAIi0gBWsgDWwiJCAuIBNqLQAAbCAOdEECdSEFAkACQCAqIChIDQAgIiAIaigCACEkDAELICQgLCATai0AAGwgDnRBAnUhJAsCQCAFQQFIDQAgHiAIaigCACAFaiIFQQAgBUEAShshBQsCQCAkQQFIDQAgHiAIaigCACAkaiIkQQAgJEEAShshJAsgISAIaiAFIAMgCGooAgAiIEEAICpBAUobaiIFNgIAICUgCGogICAkIAVraiIFQQAgBUEAShs2AgAgEyArICBBAEobISsgI0ECaiEjICJBBGohIiAeQQRqIR4gA0EEaiEDICFBBGohISAlQQRqISUgE0EBaiIFIRMgAiAFRw0ADAMLCyAqICtBAWogF0EASCIIGyIqICtBf2ogKSAIGyIpTA0ACyABISsLIBogAkECdEF8aiIIaiEqIBsgCGohKSAcIAhqIR4gBCAIaiEDQcAAIS5BACEtQQAhLANAIC4gLWpBAXUhIkEAISECQCAfDQBBACEhICohEyApIQUgHiEkIAMhIyACISVBACEgA0AgBSgCACAibEEGdSATKAIAaiEIAkACQAJAICANACAIICQoAgBIDQELIAggIygCACIgIAggIEgbIQhBASEgDAELQQAhIEEAIB0gCCAdSBshCAsgE0F8aiETIAVBfGohBSAkQXxqISQgI0F8aiEjIAggIWohISAlQX9qIiUgAUoNAAsLIC0gIiAhIBdKIggbIS0gIiAuIAgbIS4gLEEBaiIsQQZHDQALQQAhCAJAIB8NACAaIAJBAnRBfGoiCGohEyAbIAhqIQUgHCAIaiEkIAQgCGohIyAKIAhqISFBACEIIAIhIEEAISIDQCAhIAUoAgAgLWxBBnUgEygCAGoiJUEAIB0gJSAdSBsgIiAlICQoAgBOciIiQQFxGyIlICMoAgAiLiAlIC5IGyIlNgIAICUgCGohCCATQXxqIRMgBUF8aiEFICRBfGohJCAjQXxqISMgIUF8aiEhICBBf2oiICABSg0ACwsCQAJAAkACQAJAAkACQAJAAkAgAkF/aiArSg0AIAIhICAZIQUgFyAWaiEXDAELQY/ogYAAIAFrIR4gAUECaiEfIB1BCGohLSACQQF0QX5qISEgCiACQQJ0QXxqIgVqIRMgHCAFaiElIAIhJAJAA0AgJEF/aiEgAkAgACgCICIjICFqIiJBAmouAQAiBSAiLgEAIi5rIikgFyAIayIsIAUgIyABQQF0ai4BACIja24iKmwgEygCACIiaiAsICNqIC5rICMgBWsgKmxqIgVBACAFQQBKG2oiIyAlKAIAIgUgLSAFIC1KG0gNAAJAAkAgEEUNACAkIB9MDQQCQCAgIBJKDQAgIyApQQlBByAkIBFKG0EAICRBEUobbCAOdEEDdEEEdUoNBQsgD0EAQQEQsYGAgAAMAQsgD0EBEKqBgIAADQULICNBeGohIyAIQQhqIQggEygCACEiCwJAAkAgGQ0AQQAhBQwBCyAeICRqLQAAIQULIBNBACAdICMgHUgbIiM2AgAgCCAiIBlqayAjaiAFaiEIIBNBfGohEyAlQXxqISUgIUF+aiEhICRBfmohIyAgISQgBSEZICMgK0oNAAsgFyAWaiEXDAELIA9BAUEBELGBgIAAICQhICAZIQULAkAgBUEASg0AICAhJAwDCwJAIBANACAgISQMAgsgBiAGKAIAIhMgICATICBIGyITNgIAIA8gEyABayAgIAFrQQFqELOBgIAAIAYoAgAhEyAgISQMAwsgGUEATA0BCyAGIA8gJCABa0EBahCsgYCAACABaiITNgIAIBVBACATIAFMIgUbIRMgFUUNAyAFDQMMAgtBACETIAZBADYCAAsgFUEAIBMgAUwiBRshEyAVRQ0BIAUNASAQRQ0AIA8gBygCAEEBELGBgIAADAILIAcgD0EBEKqBgIAANgIADAELIAdBADYCAAsgDUEBSiEsIBcgCGsgE2oiLiAAKAIgIi0gJEEBdGouAQAiCCAtIAFBAXRqLgEAIiVrbiEFQQAhIAJAICQgAUwNACAlIAhrIQggJCABQX9zaiEqICUhIyABIRMCQCAkIAFrIitBAXFFDQAgCiABQQJ0aiIhIC0gAUEBaiITQQF0ai4BACIjICVrIAVsICEoAgBqNgIACyAIIAVsISkCQCAqRQ0AICQgE2shISAKIBNBAnRqIQggE0EBdCAtakEEaiETA0AgCCATQX5qLgEAIiAgI8FrIAVsIAgoAgBqNgIAIAhBBGoiIiATLgEAIiMgIGsgBWwgIigCAGo2AgAgCEEIaiEIIBNBBGohEyAhQX5qIiENAAsLICkgLmohEwJAAkAgK0EBcQ0AICUhIyABIQUMAQsgCiABQQJ0aiIIIBMgLSABQQFqIgVBAXRqLgEAIiMgJWsiISATICFIGyIhIAgoAgBqNgIAIBMgIWshEwsCQCAqRQ0AICQgBWshISAKIAVBAnRqIQggBUEBdCAtakEEaiEFA0AgCCATIAVBfmouAQAiICAjwWsiIyATICNIGyIjIAgoAgBqNgIAIAhBBGoiIiATICNrIhMgBS4BACIjICBrIiAgEyAgSBsiICAiKAIAajYCACATICBrIRMgCEEIaiEIIAVBBGohBSAhQX5qIiENAAsLIA5BA3QhGUEEQQMgDUEBShshAyAtQQJqISkgAUEBdCEhIAogAUECdCIFaiEIIAQgBWohIiALIAVqIRMgDCAFaiEjQQAhIANAIAgoAgAgIGohBQJAAkAgKSAhai4BACIuICXBayAOdCItQQJIDQAgCCAFICIoAgAiJSAFICVIGyIqNgIAIAUgJWshKyAtIA1sISVBACEFAkAgDUECRw0AQQAhBSAtQQJGDQBBACEFIAcoAgANACABIAYoAgBIIQULICtBAEohFwJAAkAgBSAlaiIlQQN0Ih5BAnVBACAtQQJGGyAlQWtsaiAZIAAoAjggIWouAQBqICVsIgVBAXVqIi0gKmoiHyAlQQR0Tg0AIC0gBUECdWohLQwBCyAfICVBGGxODQAgLSAFQQN1aiEtCyArQQAgFxshBSATICVBAnQgKmogLWoiKkEAICpBAEobICVuQQN2IiU2AgAgEyAIKAIAIiogLHVBA3UgJSAlIA1sICpBA3VKGyIlQQggJUEISBsiJTYCACAjICUgHmwgCCgCACAtak42AgAgCCAIKAIAIBMoAgAgHWxrNgIADAELIAggBSAdIAUgHUgbNgIAIBNBADYCACAjQQE2AgAgBSAdayIFQQAgBUEAShshBQsCQAJAIAUNAEEAISAMAQsgEyAFIAN2IiVBCCATKAIAIi1rIiogJSAqSBsiJSAtajYCACAjICUgHWwiJSAFICBrTjYCACAFICVrISALIAhBBGohCCAiQQRqISIgIUECaiEhIBNBBGohEyAjQQRqISMgLiElICQgAUEBaiIBRw0ACyAkIQELIAkgIDYCAAJAIAIgAUwNACABQQFqIQgCQCACIAFrQQFxRQ0AIAsgAUECdCITaiIFIAogE2oiIygCACAsdUEDdTYCACAjQQA2AgAgDCATaiAFKAIAQQFINgIAIAghAQsgAiAIRg0AIAIgAWshIyAKIAFBAnQiBWohCCALIAVqIRMgDCAFaiEFA0AgEyAIKAIAICx1QQN1NgIAIAhBADYCACAFIBMoAgBBAUg2AgAgE0EEaiIhIAhBBGoiJSgCACAsdUEDdTYCACAlQQA2AgAgBUEEaiAhKAIAQQFINgIAIAhBCGohCCATQQhqIRMgBUEIaiEFICNBfmoiIw0ACwsgFCSAgICAACAkC8gPBgF9AnwQfwN9An8DfQJAIARBAXQgAU4NACAFRQ0AIAGyIAVBAnRBpOiBgABqKAIAIARsIAFqspUiBiAGlEMAAAA/lCIGQ9sPyT+UuxCvgoCAACEHQwAAgD8gBpND2w/JP5S7EK+CgIAAIQhBACEJAkAgASADQQN0SA0AIANBAnUhCkEAIQQgAyEFA0AgBSAEQQJqbCELIAUgA2ohBSAEQQFqIgkhBCALIApqIAFIDQALCyABIANuIQwgA0EBSA0AIAlBAnQhBSAMQXxqIQ0gDEEBcSEOIAxBfWohDyAMQX5qIRAgDEF/aiIEQX5xIREgBEEBcSESIAwgCWsiE0H+////B3EhFCATQQFxIRUgDCAJQX9zaiEWIAwgCUEBdEF/c2oiF0F/aiEYIAe2IgaMIRkgCLYiGowhGyACQX9KIRxBACEKA0AgCiAMbCECAkACQCAcDQACQCAJRQ0AIAAgAkECdGohHQJAIBNBAUgNACAdIQQCQCAWRQ0AIBQhCyAdIQQDQCAEIBogBCoCACIelCAEIAVqIgEqAgAiHyAZlJI4AgAgASAaIB+UIB4gBpSSOAIAIARBBGogBWoiASAaIAEqAgAiHpQgBCoCBCIfIAaUkjgCACAEIBogH5QgHiAZlJI4AgQgBEEIaiEEIAtBfmoiCw0ACwsgFUUNACAEIAVqIgsgGiALKgIAIh6UIAQqAgAiHyAGlJI4AgAgBCAaIB+UIB4gGZSSOAIACyAXQQBIDQAgHSAXQQJ0aiEEAkACQCAODQAgFyELDAELIAQgBWoiCyAaIAsqAgAiHpQgBCoCACIfIAaUkjgCACAEIBogH5QgHiAZlJI4AgAgBEF8aiEEIBghCwsgF0UNACALQQFqIQEDQCAEIAVqIgsgGiALKgIAIh6UIAQqAgAiHyAGlJI4AgAgBCAaIB+UIB4gGZSSOAIAIAtBfGoiCyAaIAsqAgAiHpQgBEF8aiILKgIAIh8gBpSSOAIAIAsgGiAflCAeIBmUkjgCACAEQXhqIQQgAUF+aiIBDQALCyAAIAJBAnRqIQECQCAMQQJIDQAgASoCACEeAkACQCAQDQAgASEEDAELIBEhCyABIQQDQCAEIAYgHpQgBCoCBCIfIBuUkjgCACAEIAYgBCoCCCIglCAGIB+UIB4gGpSSIh8gGpSSIh44AgggBCAGIB+UICAgG5SSOAIEIARBCGohBCALQX5qIgsNAAsLIBJFDQAgBCAGIB6UIAQqAgQiHyAblJI4AgAgBCAGIB+UIB4gGpSSOAIECyAPQQBIDQEgASAPQQJ0aiEEAkACQCAODQAgDyELDAELIAQgBiAEKgIEIh6UIAQqAgAiHyAalJI4AgQgBCAGIB+UIB4gG5SSOAIAIARBfGohBCANIQsLIA9FDQEgC0EBaiELA0AgBEEEaiIBIAYgASoCACIelCAEKgIAIh8gGpSSOAIAIAQgBiAGIB+UIB4gG5SSIh6UIARBfGoiASoCACIfIBqUkjgCACABIAYgH5QgHiAblJI4AgAgBEF4aiEEIAtBfmoiCw0ADAILCyAAIAJBAnRqIQICQCAMQQJIDQAgAioCACEeAkACQCAQDQAgAiEEDAELIBEhCyACIQQDQCAEIAYgHpQgBCoCBCIfIBqUkjgCACAEIAYgBCoCCCIglCAGIB+UIB4gG5SSIh8gG5SSIh44AgggBCAGIB+UICAgGpSSOAIEIARBCGohBCALQX5qIgsNAAsLIBJFDQAgBCAGIB6UIAQqAgQiHyAalJI4AgAgBCAGIB+UIB4gG5SSOAIECwJAIA9BAEgNACACIA9BAnRqIQQCQAJAIA4NACAPIQsMAQsgBCAGIAQqAgQiHpQgBCoCACIfIBuUkjgCBCAEIAYgH5QgHiAalJI4AgAgBEF8aiEEIA0hCwsgD0UNACALQQFqIQsDQCAEQQRqIgEgBiABKgIAIh6UIAQqAgAiHyAblJI4AgAgBCAGIAYgH5QgHiAalJIiHpQgBEF8aiIBKgIAIh8gG5SSOAIAIAEgBiAflCAeIBqUkjgCACAEQXhqIQQgC0F+aiILDQALCyAJRQ0AAkAgE0EBSA0AIAIhBAJAIBZFDQAgFCELIAIhBANAIAQgGiAEKgIAIh6UIAQgBWoiASoCACIfIAaUkjgCACABIBogH5QgHiAZlJI4AgAgBEEEaiAFaiIBIBogASoCACIelCAEKgIEIh8gGZSSOAIAIAQgGiAflCAeIAaUkjgCBCAEQQhqIQQgC0F+aiILDQALCyAVRQ0AIAQgBWoiCyAaIAsqAgAiHpQgBCoCACIfIBmUkjgCACAEIBogH5QgHiAGlJI4AgALIBdBAEgNACACIBdBAnRqIQQCQAJAIA4NACAXIQsMAQsgBCAFaiILIBogCyoCACIelCAEKgIAIh8gGZSSOAIAIAQgGiAflCAeIAaUkjgCACAEQXxqIQQgGCELCyAXRQ0AIAtBAWohAQNAIAQgBWoiCyAaIAsqAgAiHpQgBCoCACIfIBmUkjgCACAEIBogH5QgHiAGlJI4AgAgC0F8aiILIBogCyoCACIelCAEQXxqIgsqAgAiHyAZlJI4AgAgCyAaIB+UIB4gBpSSOAIAIARBeGohBCABQX5qIgENAAsLIApBAWoiCiADRw0ACwsLzQoGCn8BfQF/BH0CfwJ9I4CAgIAAIgUaIAUgA0ECdEEPakFwcSIGayIHIAZrIggaQQAhCQJAIANBASADQQFKGyIKQQJ0IgVFDQAgB0EAIAX8CwALIApBAXEhCwJAIApBf2oiDEUNACAKQf7///8HcSENQQAhCSABIQ4gCCEGIAAhBQNAIA5CADcCACAGIAUqAgAiD0MAAAAAXTYCACAFIA+LOAIAIAVBBGoiECAQKgIAIg+LOAIAIAZBBGogD0MAAAAAXTYCACAOQQhqIQ4gBkEIaiEGIAVBCGohBSANIAlBAmoiCUcNAAsLAkAgC0UNACABIAlBAnQiBWpBADYCACAIIAVqIAAgBWoiBSoCACIPQwAAAABdNgIAIAUgD4s4AgALQwAAAAAhDwJAAkAgAiADQQF1Sg0AQwAAAAAhEQwBCyAKQQNxIQYCQAJAIANBBE4NAEEAIQ5DAAAAACEPDAELIApB/P///wdxIQlBACEOQwAAAAAhDyAAIQUDQCAPIAUqAgCSIAVBBGoqAgCSIAVBCGoqAgCSIAVBDGoqAgCSIQ8gBUEQaiEFIAkgDkEEaiIORw0ACwsCQCAGRQ0AIAAgDkECdGohBQNAIA8gBSoCAJIhDyAFQQRqIQUgBkF/aiIGDQALCwJAAkAgD0N9HZAmXkUNACAPQwAAgEJdDQELIABBgICA/AM2AgACQCADQQIgA0ECShtBAnRBfGoiBUUNACAAQQRqQQAgBfwLAAtDAACAPyEPCyACskPNzEw/kkMAAIA/IA+VlCESQwAAAAAhDyAAIQUgASEGIAchDiAKIRBDAAAAACERA0AgBiASIAUqAgAiE5SO/AAiCTYCACAOIAmyIhQgFJI4AgAgBUEEaiEFIAZBBGohBiAOQQRqIQ4gAiAJayECIBMgFJQgD5IhDyAUIBSUIBGSIREgEEF/aiIQDQALCwJAAkAgAiADQQNqTA0AIAEgASgCACACajYCACACsiIPIAcqAgCUIA8gD5QgEZKSIREMAQsgAkEBSA0AIABBCGohFSAHQQhqIRYgA0ECIANBAkobQX9qIgVBfnEhCSAFQQFxIQsgACoCACEXQQAhECADQQNIIQMDQCARQwAAgD+SIhQgByoCAJIhESAPIBeSIhMgE5QhE0EBIQUCQAJAIANFDQBBACENDAELQQAhDSAVIQUgFiEGQQAhDgNAAkAgESAPIAVBfGoqAgCSIhIgEpQiEpQgEyAUIAZBfGoqAgCSIhiUXkUNACAOQQFqIQ0gEiETIBghEQsgDkECaiEOAkAgESAPIAUqAgCSIhIgEpQiEpQgEyAUIAYqAgCSIhiUXkUNACAOIQ0gEiETIBghEQsgBUEIaiEFIAZBCGohBiAJIA5HDQALIA5BAWohBQsCQCALRQ0AIBEgDyAAIAVBAnQiBmoqAgCSIhIgEpSUIBMgFCAHIAZqKgIAkpReRQ0AIAUhDQsgByANQQJ0IgVqIgYgBioCACIRQwAAAECSOAIAIAEgBWoiBiAGKAIAQQFqNgIAIBQgEZIhESAPIAAgBWoqAgCSIQ8gEEEBaiIQIAJHDQALCyAKQQFxIRACQAJAIAwNAEEAIQ4MAQsgCkH+////B3EhAiAIIQYgASEFQQAhDgNAIAUgBSgCAEEAIAYoAgAiCWtzIAlqNgIAIAVBBGoiCSAJKAIAQQAgBkEEaigCACIJa3MgCWo2AgAgBkEIaiEGIAVBCGohBSACIA5BAmoiDkcNAAsLAkAgEEUNACABIA5BAnQiBWoiBiAGKAIAQQAgCCAFaigCACIFa3MgBWo2AgALIBEL6QQDBH8BfQV/I4CAgIAAIgkhCiAJIAFBAnRBG2pBcHFrIgskgICAgABBASEMIAAgAUEBIAQgAiADENGBgIAAIAAgCyACIAEgBRDSgYCAACENIAsgASACIAUQo4GAgAACQCAHRQ0AIAFBASABQQFKGyIFQQNxIQ4gBkMAAIA/IA2RlZQhBkEAIQ8CQCABQQRIDQAgBUH8////B3EhEEEAIQVBACEPA0AgACAFaiIHIAYgCyAFaiIJKAIAspQ4AgAgB0EEaiAGIAlBBGooAgCylDgCACAHQQhqIAYgCUEIaigCALKUOAIAIAdBDGogBiAJQQxqKAIAspQ4AgAgBUEQaiEFIBAgD0EEaiIPRw0ACwsCQCAORQ0AIAsgD0ECdCIHaiEFIAAgB2ohBwNAIAcgBiAFKAIAspQ4AgAgBUEEaiEFIAdBBGohByAOQX9qIg4NAAsLIAAgAUF/IAQgAiADENGBgIAACwJAIARBAkgNACABIARuIhFBASARQQFKGyIFQfz///8HcSEBIAVBA3EhAyARQQRIIRJBACEMQQAhAgNAIAsgAiARbEECdGohDkEAIQVBACEHAkAgEg0AIA5BDGohDyAOQQhqIQAgDkEEaiEQQQAhBUEAIQcDQCAPIAVBAnQiCWooAgAgACAJaigCACAQIAlqKAIAIA4gCWooAgAgB3JycnIhByABIAVBBGoiBUcNAAsLAkAgA0UNACADIQkDQCAOIAVBAnRqKAIAIAdyIQcgBUEBaiEFIAlBf2oiCQ0ACwsgB0EARyACdCAMciEMIAJBAWoiAiAERw0ACwsgCiSAgICAACAMC7cEAQp/I4CAgIAAIgchCCABQQEgAUEBShsiCUEDcSEKIAcgAUECdEEPakFwcWsiCySAgICAACAGQwAAgD8gCyABIAIgBRCkgYCAAJGVlCEGQQAhDAJAIAFBBEgNACAJQfz///8HcSENQQAhBUEAIQwDQCAAIAVqIgcgBiALIAVqIgkoAgCylDgCACAHQQRqIAYgCUEEaigCALKUOAIAIAdBCGogBiAJQQhqKAIAspQ4AgAgB0EMaiAGIAlBDGooAgCylDgCACAFQRBqIQUgDSAMQQRqIgxHDQALCwJAIApFDQAgCyAMQQJ0IgdqIQUgACAHaiEHA0AgByAGIAUoAgCylDgCACAFQQRqIQUgB0EEaiEHIApBf2oiCg0ACwsgACABQX8gBCACIAMQ0YGAgABBASEDAkAgBEECSA0AIAEgBG4iDkEBIA5BAUobIgVB/P///wdxIQEgBUEDcSEPIA5BBEghEEEAIQNBACECA0AgCyACIA5sQQJ0aiEKQQAhBUEAIQcCQCAQDQAgCkEMaiEMIApBCGohACAKQQRqIQ1BACEFQQAhBwNAIAwgBUECdCIJaigCACAAIAlqKAIAIA0gCWooAgAgCiAJaigCACAHcnJyciEHIAEgBUEEaiIFRw0ACwsCQCAPRQ0AIA8hCQNAIAogBUECdGooAgAgB3IhByAFQQFqIQUgCUF/aiIJDQALCyAHQQBHIAJ0IANyIQMgAkEBaiICIARHDQALCyAIJICAgIAAIAML/QIEAn8BfQJ/AX0CQCABQQFIDQAgAUEDcSEEAkACQCABQQRPDQBBACEFQwAAAAAhBgwBCyABQfz///8HcSEHQQAhBUMAAAAAIQYgACEIA0AgCEEMaioCACIJIAmUIAhBCGoqAgAiCSAJlCAIQQRqKgIAIgkgCZQgCCoCACIJIAmUIAaSkpKSIQYgCEEQaiEIIAcgBUEEaiIFRw0ACwsCQCAERQ0AIAAgBUECdGohCANAIAgqAgAiCSAJlCAGkiEGIAhBBGohCCAEQX9qIgQNAAsLIAFBA3EhCCACQwAAgD8gBkN9HZAmkpGVlCEGAkAgAUEESQ0AIAFB/P///wdxIQQDQCAAIAYgACoCAJQ4AgAgAEEEaiIFIAYgBSoCAJQ4AgAgAEEIaiIFIAYgBSoCAJQ4AgAgAEEMaiIFIAYgBSoCAJQ4AgAgAEEQaiEAIARBfGoiBA0ACwsgCEUNAANAIAAgBiAAKgIAlDgCACAAQQRqIQAgCEF/aiIIDQALCwv5BgYBfwF9AX8BfQF/BX0CQAJAAkAgAkUNACADQQFIDQEgA0EBcSEFAkACQCADQQFHDQBDfR2QJiEGQQAhB0N9HZAmIQgMAQsgA0H+////B3EhA0N9HZAmIQZBACEHIAEhAiAAIQlDfR2QJiEIA0AgCUEEaioCACIKIAJBBGoqAgAiC5MiDCAMlCAJKgIAIgwgAioCACINkyIOIA6UIAiSkiEIIAogC5IiCiAKlCAMIA2SIgogCpQgBpKSIQYgAkEIaiECIAlBCGohCSADIAdBAmoiB0cNAAsLIAVFDQIgACAHQQJ0IgJqKgIAIgogASACaioCACILkyIMIAyUIAiSIQggCiALkiIKIAqUIAaSIQYMAgsgA0EBSA0AIANBA3EhCQJAAkAgA0EETw0AQQAhB0MAAAAAIQYMAQsgA0H8////B3EhBUEAIQdDAAAAACEGIAAhAgNAIAJBDGoqAgAiCCAIlCACQQhqKgIAIgggCJQgAkEEaioCACIIIAiUIAIqAgAiCCAIlCAGkpKSkiEGIAJBEGohAiAFIAdBBGoiB0cNAAsLAkAgCUUNACAAIAdBAnRqIQIDQCACKgIAIgggCJQgBpIhBiACQQRqIQIgCUF/aiIJDQALCyADQQNxIQkCQAJAIANBBE8NAEEAIQdDAAAAACEIDAELIANB/P///wdxIQNBACEHQwAAAAAhCCABIQIDQCACQQxqKgIAIgogCpQgAkEIaioCACIKIAqUIAJBBGoqAgAiCiAKlCACKgIAIgogCpQgCJKSkpIhCCACQRBqIQIgAyAHQQRqIgdHDQALCwJAIAlFDQAgASAHQQJ0aiECA0AgAioCACIKIAqUIAiSIQggAkEEaiECIAlBf2oiCQ0ACwsgCEN9HZAmkiEIIAZDfR2QJpIhBgwBC0N9HZAmIQhDfR2QJiEGC0MAAAAAIQoCQCAIkSILIAuUIgggBpEiDCAMlCIGkkPvkpMhXQ0AAkAgBiAIXUUNAEPbD8k/IAsgDJQgBkMF+Nw+lCAIkpQgBkMhsS0/lCAIkiAGQ2UJsD2UIAiSlJWTIQoMAQsgCyAMlCIKIAhDBfjcPpQgBpKUIAhDIbEtP5QgBpIgCENlCbA9lCAGkpSVQ9sPyT+SQ9sPyb9D2w/JPyAKQwAAAABdG5MhCgsgCkOH+SJGlEMAAAA/ko78AAvWCggFfwF9AX8BfQZ/An0EfwJ9AkAgA0UNACAARQ0AIAFBAUgNACACQQFIDQAgAiABbCIEQQEgBEEBShsiBUEBcSEGQQAhBwJAIARBAkgNACAFQf7///8HcSEIQQAhByAAIQQDQCAEQwAAAEBDAAAAwCAEKgIAIglDAAAAQF4iBRtDAAAAQCAJQwAAAMBdIgobIgsgCyAJIAUbIAobOAIAIARBBGoiBUMAAABAQwAAAMAgBSoCACIJQwAAAEBeIgUbQwAAAEAgCUMAAADAXSIKGyILIAsgCSAFGyAKGzgCACAEQQhqIQQgCCAHQQJqIgdHDQALCwJAIAZFDQAgACAHQQJ0aiIEQwAAAEBDAAAAwCAEKgIAIglDAAAAQF4iBBtDAAAAQCAJQwAAAMBdIgcbIgsgCyAJIAQbIAcbOAIACyACQQN0IQxBACENQQAgAkECdCIKayEOIAAhDwNAIAAgDUECdCIEaiEQIAMgBGoiESoCACESIA8hBCABIQcCQANAIBIgBCoCACIJlCILQwAAAABgDQEgBCALIAmUIAmSOAIAIAQgCmohBCAHQX9qIgcNAAsLIBAqAgAhE0EAIQUCQANAIAUiFCEEAkAgFCABTg0AIA8gCiAUbGohByAUIQQDQCAHKgIAi0MAAIA/Xg0BIAcgCmohByABIARBAWoiBEcNAAtDAAAAACELDAILAkAgBCABRw0AQwAAAAAhCwwCCyAEQR91IARxIQYgDyAKIARBf2psaiEFIBAgBCACbEECdGoqAgAiEoshCyAEIQcCQANAIAdBAUgNASAHQX9qIQcgBSoCACEJIAUgDmohBSASIAmUQwAAAABgDQALIAdBAWohBgsCQAJAIAQgAUgNACAEIQUMAQsgDyAKIARsaiEHIAQhBQNAIBIgByoCACIJlEMAAAAAYEUNASAFIAQgCYsiCSALXiIIGyEEIAkgCyAIGyELIAcgCmohByABIAVBAWoiBUcNAAsgASEFC0EAIRUCQCAGDQAgEiAQKgIAlEMAAAAAYCEVCyALQwAAgL+SIAsgC5SVIglDWdmANJQgCZIiCYwgCSASQwAAAABeGyELAkAgBSAGTA0AIAZBAWohBwJAIAUgBmtBAXFFDQAgECAGIAJsQQJ0aiIIIAsgCCoCACIJlCAJlCAJkjgCACAHIQYLIAUgB0YNACAKIAZsIRYgBSAGayEIIAogBkEBamwhFyAPIQcDQCAHIBZqIgYgCyAGKgIAIgmUIAmUIAmSOAIAIAcgF2oiBiALIAYqAgAiCZQgCZQgCZI4AgAgByAMaiEHIAhBfmoiCA0ACwsCQCAVIARBAUpxQQFHDQAgBCAUTA0AIBMgECoCAJMiEiAEs5UhGCAUQQFqIQcCQCAEIBRrQQFxRQ0AIBAgFCACbEECdGoiCEMAAIA/QwAAgL8gEiAYkyISIAgqAgCSIglDAACAP14iCBtDAACAPyAJQwAAgL9dIgYbIhkgGSAJIAgbIAYbOAIAIAchFAsgBCAHRg0AIAogFGwhFiAEIBRrIQcgCiAUQQFqbCEXIA8hBANAIAQgFmoiCEMAAIA/QwAAgL8gEiAYkyISIAgqAgCSIglDAACAP14iCBtDAACAPyAJQwAAgL9dIgYbIhkgGSAJIAgbIAYbOAIAIAQgF2oiCEMAAIA/QwAAgL8gEiAYkyISIAgqAgCSIglDAACAP14iCBtDAACAPyAJQwAAgL9dIgYbIhkgGSAJIAgbIAYbOAIAIAQgDGohBCAHQX5qIgcNAAsLIAUgAUcNAAsLIBEgCzgCACAPQQRqIQ8gDUEBaiINIAJHDQALCws4AQF/AkAgAEH8AU4NACABIAA6AABBAQ8LIAEgACAAQXxyIgJB/wFxa0ECdjoAASABIAI6AABBAgt3AQF/IAAsAAAiAkH/AXEhAAJAIAJBf0oNACABIABBA3ZBA3F0QZADbQ8LAkAgAEHgAHFB4ABHDQACQCAAQQhxRQ0AIAFBMm0PCyABQeQAbQ8LAkAgAEEDdkEDcSIAQQNHDQAgAUE8bEHoB20PCyABIAB0QeQAbQvjCwEKf0F/IQgCQCABQQBIDQAgBUUNAEF8IQggAUUNAAJAAkAgAC0AACIJwCIKQX9KDQBBgPcCIAlBA3ZBA3F0QZADbiELDAELAkAgCUHgAHFB4ABHDQBBwAdB4AMgCUEIcRshCwwBC0HAFiELIAlBA3ZBA3EiCUEDRg0AQYD3AiAJdEHkAG4hCwtBASEMIABBAWohCSABQX9qIg0hDgJAAkACQAJAAkACQAJAAkACQAJAAkACQCAKQQNxIg8OBAMAAQIDCwJAIAJFDQBBAiEMQQEhC0EAIQ8gDSEQDAYLIA1BAXENCyAFIA1BAXYiATsBAEECIQxBACEPDAkLIA1FDQVBASEMAkAgCS0AACIBQfwBSQ0AIA1BAUYNBkECIQwgAC0AAkECdCABaiEBCyAFIAE7AQAgDSAMayINIAFIDQogDSABayEOIAkgDGohCUEAIQ9BAiEMDAELIAFBAUYNCSAJLQAAIhBBP3EiDEUNCSAMIAtsQYAtSw0JIAFBfmohDiAAQQJqIQFBACEPAkACQCAQQcAAcQ0AIAEhCQwBC0EAIQ8DQCAOQQFIDQsgDyABLQAAIgtB/gEgC0H+AUkbIglqIQ8gDiAJQX9zaiEOIAFBAWoiCSEBIAtB/wFGDQALIA5BAEgNCgsgEMBBf0oNAQJAIAxBAk8NACAOIQ0MAQsgDEF/aiERIAUhECAOIQ0DQCANRQ0GQQEhCwJAIAktAAAiAUH8AUkNACANQQFGDQdBAiELIAktAAFBAnQgAWohAQsgECABOwEAIA0gC2siDSABSA0KIBBBAmohECAJIAtqIQkgDiALIAFqayEOIBFBf2oiEQ0ACyAOQQBIDQkLIAINASAOIQEMBgsCQCACRQ0AQQEhCyANIRAgDiENDAILIA4gDG4iASAMbCAORw0HIAxBAkkNBSAMQX9qIgJBB3EhDkEAIQ0CQCAMQX5qQQdJDQAgAkF4cSELQQAhDSAFIQIDQCACIAE7AQAgAkEOaiABOwEAIAJBDGogATsBACACQQpqIAE7AQAgAkEIaiABOwEAIAJBBmogATsBACACQQRqIAE7AQAgAkECaiABOwEAIAJBEGohAiALIA1BCGoiDUcNAAsLIA5FDQUgBSANQQF0aiECA0AgAiABOwEAIAJBAmohAiAOQX9qIg4NAAwGCwtBACELIA4hEAtBASEOIAUgDEEBdGpBfmohAiANRQ0CAkAgCS0AACIBQfwBSQ0AIA1BAUYNA0ECIQ4gCS0AAUECdCABaiEBCyACIAE7AQAgDSAOayICIAFIDQUgCSAOaiEJAkAgC0UNACAMIAFsIAJKDQYgDEECSA0FIAxBf2oiCEEHcSECQQAhDgJAIAxBfmpBB0kNACAIQXhxIQ1BACEOIAUhCANAIAggATsBACAIQQ5qIAE7AQAgCEEMaiABOwEAIAhBCmogATsBACAIQQhqIAE7AQAgCEEGaiABOwEAIAhBBGogATsBACAIQQJqIAE7AQAgCEEQaiEIIA0gDkEIaiIORw0ACwsgAkUNBSAFIA5BAXRqIQgDQCAIIAE7AQAgCEECaiEIIAJBf2oiAg0ADAYLCyAOIAFqIBBKDQUMBAsgBUH//wM7AQBBfA8LIBBB//8DOwEAQXwPCyACQf//AzsBAEF8DwsgAUH7CUoNASAFIAxBAXRqQX5qIAE7AQALAkAgBkUNACAGIAkgAGs2AgALAkAgDEUNACAMQQFxIQ4CQAJAIAxBAUcNAEEAIQIMAQsgDEE+cSEGQQAhAiAFIQEgBCEIA0ACQCAERQ0AIAggCTYCAAsgCSABLgEAaiEJAkAgBEUNACAIQQRqIAk2AgALIAhBCGohCCAJIAFBAmouAQBqIQkgAUEEaiEBIAYgAkECaiICRw0ACwsgDkUNAAJAIARFDQAgBCACQQJ0aiAJNgIACyAJIAUgAkEBdGouAQBqIQkLAkAgB0UNACAHIA8gAGsgCWo2AgALAkAgA0UNACADIAo6AAALIAwhCAsgCAtkAQJ/I4CAgIAAQRBrIgEkgICAgABBACECAkAgAEF9akF+SQ0AIAFBDGoQj4CAgAANACABIAEoAgxBA2pBfHE2AgwgABCcgYCAACABKAIMakHYAGohAgsgAUEQaiSAgICAACACC+0CAQN/I4CAgIAAQRBrIgMkgICAgABBfyEEAkACQAJAIAFB//wASg0AIAFBwD5GDQEgAUHg3QBGDQEMAgsgAUGA/QBGDQAgAUGA9wJGDQAgAUHAuwFHDQELIAJBfWpBfkkNAEEAIQQCQCADQQxqEI+AgIAADQAgAyADKAIMQQNqQXxxNgIMIAIQnIGAgAAgAygCDGpB2ABqIQQLAkAgBEUNACAAQQAgBPwLAAtBfSEEIANBCGoQj4CAgAANACAAQdgANgIEIAAgAjYCMCAAIAI2AgggACABNgIYIAAgATYCDCAAIAI2AhAgAyADKAIIQQNqQXxxIgU2AgggACAFQdgAaiIFNgIAIABB2ABqEJCAgIAADQAgACAFaiIFIAEgAhCdgYCAAA0AQQAhBCADQQA2AgAgBUGgzgAgAxCegYCAABogACABQf//A3FBkANuNgJAIABBADYCPCAAQQA2AiwLIANBEGokgICAgAAgBAuLAgECfyOAgICAAEEQayIDJICAgIAAAkACQAJAAkACQCAAQf/8AEoNACAAQcA+Rg0BIABB4N0ARg0BDAILIABBgP0ARg0AIABBgPcCRg0AIABBwLsBRw0BCyABQX1qQX1LDQELQQAhBCACRQ0BIAJBfzYCAAwBC0EAIQQCQCADQQxqEI+AgIAADQAgAyADKAIMQQNqQXxxNgIMIAEQnIGAgAAgAygCDGpB2ABqIQQLAkAgBBCkgoCAACIEDQBBACEEIAJFDQEgAkF5NgIADAELIAQgACABENyBgIAAIQACQCACRQ0AIAIgADYCAAsgAEUNACAEEKeCgIAAQQAhBAsgA0EQaiSAgICAACAEC+4GAQZ/I4CAgIAAQfAAayIJJICAgIAAQX8hCgJAIAVBAUsNAAJAAkAgAUUNACACRQ0AIAVFDQELIAQgACgCDEGQA21vDQELAkACQCABRQ0AIAINAQtBACEKA0ACQCAAQQBBACADIAAoAgggCmxBAnRqIAQgCmtBABDfgYCAACIFQQBODQAgBSEKDAMLIAUgCmoiCiAESA0ACyAAIAo2AkgMAQsgAkEASA0AIAEtAAAiCkHgAHEhCwJAAkAgCsAiDEF/Sg0AIApBBXZBA3EiCkHOCGpBzQggChshDQwBCwJAIAtB4ABHDQBB0QhB0AggCkEQcRshDQwBCyAKQQV2Qc0IaiENCyABIAAoAgwQ2YGAgAAhDiABLQAAIQoCQCABIAIgBiAJQesAakEAIAkgCUHsAGogBxDagYCAACICQQBODQAgAiEKDAELQekHQegHIAtB4ABGGyEHQQJBASAKQQRxGyEGIAEgCSgCbGohAQJAIAVFDQACQAJAIAxBAEgNACAEIA5IDQAgACgCOEHqB0cNAQsCQCAEIAAoAgxBkANtb0UNAEF/IQoMAwtBACEKA0ACQCAAQQBBACADIAAoAgggCmxBAnRqIAQgCmtBABDfgYCAACIFQQBODQAgBSEKDAQLIAUgCmoiCiAESA0ACyAAIAo2AkgMAgsgBCAOayEFAkAgBCAORg0AIAAoAkghAiAAQQBBACADIAVBAEEAQQAgCBDegYCAACIKQX9KDQAgACACNgJIDAILIAAgDjYCQCAAIA02AjQgACAHNgI4IAAgBjYCMCAAIAEgCS4BACADIAAoAgggBWxBAnRqIA5BARDfgYCAACIKQQBIDQEgACAENgJIIAQhCgwBCwJAIAIgDmwgBEwNAEF+IQoMAQsgACAONgJAIAAgDTYCNCAAQeoHIAcgDEEASBs2AjggACAGNgIwAkACQCACDQBBACEKDAELIAkhBUEAIQoDQAJAIAAgASAFLgEAIAMgACgCCCAKbEECdGogBCAKa0EAEN+BgIAAIgdBAE4NACAHIQoMAwsgByAKaiEKIAEgBS4BAGohASAFQQJqIQUgAkF/aiICDQALCyAAIAo2AkgCQCAIRQ0AIAMgCiAAKAIIIABBzABqENeBgIAADAELIABCADcCTAsgCUHwAGokgICAgAAgCgu3GwMbfwF8AX0jgICAgABB0AFrIgYkgICAgAAgBiIHQQA2AogBAkACQCAEIAAoAgwiCEEybSIJQQN1IgpODQBBfiEEDAELIAAoAgAhCyAAKAIEIQwgCUECdSENIAlBAXUhDiAEIAhBGW1BA2wiCCAEIAhIGyEEAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQCACQQFKDQAgBCAAKAJAIgggBCAISBshBAwBCyABDQELAkAgACgCPCIIDQAgACgCCCAEbCIAQQFIDRAgAEECdCIARQ0QIANBACAA/AsADBALAkAgBCAJTA0AIAQhCANAAkAgAEEAQQAgAyAIIAkgCCAJSBtBABDfgYCAACIOQQBODQAgDiEEDBILIAMgACgCCCAObEECdGohAyAIIA5rIghBAEoNAAwRCwsCQCAEIAlIDQAgBCEPDAULAkAgBCAOTA0AQQAhECAOIQ9BACEBQQAhEQwCC0HoByESIAhB6AdHDQNBACETQQAhFEEAIRFBACEBQQAhEAwJCyAAKAI0IRAgACgCOCEIIAAoAkAhDyAHQZABaiABIAIQpoGAgABBASERIAAoAjwiFUEBTg0BC0EAIRRBACETDAQLAkACQAJAIAhB6gdHDQAgFUHqB0YNACAAKAJERQ0HQQAhFAwBC0EAIRQgCEHqB0cNAQtB6gchCEEAIRMMBAtBACEUIBVB6gdGDQJBACETDAMLIAQgDSAEIA1IGyAEIAQgDkgbIQ8LQQAhEwJAIAhB6gdGDQBBACEUQQAhEUEAIQEgDyEEIAghEkEAIRAMBQtBASEWIAdBwAFqIRdBACEQQQAhAUEAIRQMBwsgCUF8cSAAKAIIbCETQQEhEUEBIRQLIA8gBEwNAUF/IQQMCAsgBiAJQXxxIAAoAghsQQ9qQXBxayITIgYkgICAgAAgAEEAQQAgEyANIA8gDSAPSBtBABDfgYCAABoCQCAPIARKDQBBASEUIAdBwAFqIRdBASEWDAULQX8hBAwHC0HqByESIAhB6gdGDQEgDyEEIAghEgsgDiAEIA4gBEobIAAoAghsQQF0IQhBACEWDAELQQAhCEEBIRYgDyEECyAGIAhBD2pBcHFrIhciBiSAgICAACASQeoHRw0BQQAhEyAEIQ8LIAVFIRVB6gchEkEAIQxBACEYQQAhGUEAIQ5BACEaDAELIAAgDGohGgJAIAAoAjxB6gdHDQAgGhCQgICAABoLIAAgBEHoB2wgACgCDG0iCEEKIAhBCkobNgIgAkAgEUUNACAAIAAoAjA2AhQgAEHAPkHg3QBBgP0AIBBBzghGGyAQQc0IRhtBgP0AIBJB6AdGGzYCHAsgAEEQaiEYIAVBAXRBASABGyEVIARBAXQhGUEAIQ4gFyEIA0ACQAJAIBogGCAVIA5FIAdBkAFqIAggB0GMAWogACgCLBCRgICAAA0AIAAoAgggBygCjAEiD2whDAwBCwJAIBUNAEF9IQQMBAsgByAENgKMAQJAIAAoAggiDyAEbCIMQQFIDQAgGSAPbCIPRQ0AIAhBACAP/AsACyAEIQ8LIAggDEEBdGohCCAPIA5qIg4gBEgNAAsCQAJAAkAgBUUiFSARcUEBRg0AQQAhDgwBC0EAIQ4CQCAHKAKkASAHKAKsAWdqQRRBACAAKAI4QekHRhtqQXFqIAJBA3RMDQBBASEVDAELAkACQCASQekHRw0AAkAgB0GQAWpBDBCqgYCAACIPDQBBACEOQekHIRJBASEVDAMLIAdBkAFqQQEQqoGAgAAhDCAHQZABakGAAhCsgYCAAEECaiEIIAcoAqwBZyEOIAcoAqQBIRUMAQtBASEPIAdBkAFqQQEQqoGAgAAhDCACIAcoAqQBIhUgBygCrAFnIg5qQWdqQQN1ayEICyAHIAcoApQBQQAgCCACIAhrIgJBA3QgFSAOakFgakgiDhsiGWs2ApQBQQAgAiAOGyECQQAgDyAOGyEOIAxBAEchGEEBIRUMAQtBACEZQQAhGAsgDkEARyEMIAZBACATIA4bQQ9qQXBxayITIgYkgICAgABBESEaAkAgFCAORXFBAUYNAEEAIRQgBCEPQQAhEwwBC0EAIQ4gAEEAQQAgEyANIAQgDSAESBtBABDfgYCAABpBASEUIAQhDwsgACALaiEIAkACQAJAAkACQAJAIBBBs3dqDgQAAQECAwtBDSEEDAMLQREhBAwCC0ETIQQMAQtBFSEEIBBFDQELIAcgBDYCgAEgCEGczgAgB0GAAWoQnoGAgABFDQBBfSEEDAELIAcgACgCMDYCcEF9IQQgCEGYzgAgB0HwAGoQnoGAgAANAEEAIRACQAJAIAwNACAHQcABaiEFDAELIAYgCUF8cSAAKAIIbEEPakFwcWsiBSSAgICAACAYRQ0AIAdBADYCYCAIQZrOACAHQeAAahCegYCAAA0BIAggASACaiAZIAUgDUEAQQAQn4GAgAAaIAcgB0GIAWo2AlAgCEG/HyAHQdAAahCegYCAAA0BQQEhEAsgByAaNgJAIAhBms4AIAdBwABqEJ6BgIAADQACQAJAIBJB6AdGDQACQCASIAAoAjwiBkYNACAGQQFIDQAgACgCRA0AIAhBvB9BABCegYCAAA0DCyAIIAFBACAVGyACIAMgCSAPIAkgD0gbIAdBkAFqQQAQn4GAgAAhGwwBCyAHQf//AzsBhAECQCAAKAIIIA9sIglBAUgNACAJQQJ0IglFDQAgA0EAIAn8CwALAkAgACgCPEHpB0cNAAJAIBBFDQAgACgCRA0BCyAHQQA2AjAgCEGazgAgB0EwahCegYCAAA0CIAggB0GEAWpBAiADIApBAEEAEJ+BgIAAGgtBACEbCwJAIBYNACAAKAIIIA9sIglBAUgNACAJQQFxIRFBACEVAkAgCUEBRg0AIAlB/v///wdxIQtBACEVIBchBiADIQkDQCAJIAYuAQCyQwAAADiUIAkqAgCSOAIAIAlBBGoiGiAGQQJqLgEAskMAAAA4lCAaKgIAkjgCACAGQQRqIQYgCUEIaiEJIAsgFUECaiIVRw0ACwsgEUUNACADIBVBAnRqIgkgFyAVQQF0ai4BALJDAAAAOJQgCSoCAJI4AgALIAcgB0GEAWo2AiAgCEGfzgAgB0EgahCegYCAAA0AIAcoAoQBKAI8IRwCQCAORSAYckEBcQ0AIAhBvB9BABCegYCAAA0BIAdBADYCECAIQZrOACAHQRBqEJ6BgIAADQEgCCABIAJqIBkgBSANQQBBABCfgYCAABogByAHQYgBajYCACAIQb8fIAcQnoGAgAANASADIAAoAggiBCAPIAprbEECdGoiCCAFIAQgCmxBAnRqIAggCiAEIBwgACgCDBDggYCAAAsCQCAQRQ0AAkAgACgCCCIdQQFIDQAgHUEEdCEVIApB/P///wdxIQEgCkEDcSEeIAUgHUECdCIGaiEaIAMgBmohCyAFIB1BA3QiBGohGSADIARqIRAgBSAdQQxsIgRqIREgAyAEaiEXQQAhFiAKQQFIIR8gBSEJIAMhDkEAISADQAJAIB8NAEEAIQgCQCAKQQRJDQBBACEIIBYhBANAIAMgBGogBSAEaioCADgCACALIARqIBogBGoqAgA4AgAgECAEaiAZIARqKgIAOAIAIBcgBGogESAEaioCADgCACAEIBVqIQQgASAIQQRqIghHDQALCyAeRQ0AIAYgCGwhBCAeIQgDQCAOIARqIAkgBGoqAgA4AgAgBCAGaiEEIAhBf2oiCA0ACwsgCUEEaiEJIA5BBGohDiAWQQRqIRYgIEEBaiIgIB1HDQALCyAFIB0gCmxBAnQiBGogAyAEaiIEIAQgCiAdIBwgACgCDBDggYCAAAsCQCAURQ0AIAAoAgghAQJAIA8gDUgNAAJAIAEgCmwiGkEBSA0AIBpBA3EhDkEAIQYCQCAaQQRJDQAgGkH8////B3EhFUEAIQRBACEGA0AgAyAEaiIIIBMgBGoiCSoCADgCACAIQQRqIAlBBGoqAgA4AgAgCEEIaiAJQQhqKgIAOAIAIAhBDGogCUEMaioCADgCACAEQRBqIQQgFSAGQQRqIgZHDQALCyAORQ0AIBMgBkECdCIIaiEEIAMgCGohCANAIAggBCoCADgCACAEQQRqIQQgCEEEaiEIIA5Bf2oiDg0ACwsgEyAaQQJ0IgRqIAMgBGoiBCAEIAogASAcIAAoAgwQ4IGAgAAMAQsgEyADIAMgCiABIBwgACgCDBDggYCAAAsCQCAAKAIoIgRFDQAgACgCCCEIIASyQy0VKjqUu0TvOfr+Qi7mP6IQs4KAgAAhISAIIA9sIgRBAUgNACAhtiEiIARBA3EhCEEAIQkCQCAEQQRJDQAgBEH8////B3EhBkEAIQkgAyEEA0AgBCAEKgIAICKUOAIAIARBBGoiDiAOKgIAICKUOAIAIARBCGoiDiAOKgIAICKUOAIAIARBDGoiDiAOKgIAICKUOAIAIARBEGohBCAGIAlBBGoiCUcNAAsLIAhFDQAgAyAJQQJ0aiEEA0AgBCAEKgIAICKUOAIAIARBBGohBCAIQX9qIggNAAsLIAAgEjYCPCAAQQAgBygCiAEgBygCrAFzIAJBAkgbNgJUIAAgDCAYQQFzcTYCRCAbIA8gG0EASBshBAsgB0HQAWokgICAgAAgBAuyAQIGfwF9QYD3AiAGbSEGAkAgBEEBSA0AIAZBAnQhByAEQQJ0IQhBACEJIANBAUghCgNAAkAgCg0AQQAhBiAFIQsgAyEMA0AgAiAGaiALKgIAIg0gDZQiDSABIAZqKgIAlEMAAIA/IA2TIAAgBmoqAgCUkjgCACALIAdqIQsgBiAIaiEGIAxBf2oiDA0ACwsgAUEEaiEBIABBBGohACACQQRqIQIgCUEBaiIJIARHDQALCwsnAAJAIARBAU4NAEF/DwsgACABIAIgAyAEIAVBAEEAQQAQ3oGAgAAL+AUBA38jgICAgABBMGsiAySAgICAACADIAI2AiwgACAAKAIAaiEEQXshAgJAAkACQAJAAkACQAJAAkACQAJAAkAgAUHXYGoOJwAKCgoKCgoKCgoKCgoKCgoKCgoCAwoBCgQGCgoKCgcKCgoKCgUICQoLIAMgAygCLCICQQRqNgIsAkAgAigCACICDQBBfyECDAoLIAIgACgCNDYCAEEAIQIMCQsgAyADKAIsIgJBBGo2AiwCQCACKAIAIgINAEF/IQIMCQsgAiAAKAJUNgIAQQAhAgwICyAAKAIEIQEgAEIANwIwIABB0ABqQgA3AgAgAEHIAGpCADcCACAAQcAAaiIFQgA3AgAgAEE4akIANwIAQQAhAiAEQbwfQQAQnoGAgAAaIAAgAWoQkICAgAAaIAAgACgCCDYCMCAFIAAoAgxBkANtNgIADAcLIAMgAygCLCICQQRqNgIsAkAgAigCACICDQBBfyECDAcLIAIgACgCDDYCAEEAIQIMBgsgAyADKAIsIgJBBGo2AiwCQCACKAIAIgINAEF/IQIMBgsCQCAAKAI8QeoHRw0AIAMgAjYCACAEQcEfIAMQnoGAgAAhAgwGCyACIAAoAiQ2AgBBACECDAULIAMgAygCLCICQQRqNgIsAkAgAigCACICDQBBfyECDAULIAIgACgCKDYCAEEAIQIMBAsgAyADKAIsIgJBBGo2AiwCQCACKAIAIgJBgIB+akGAgHxPDQBBfyECDAQLIAAgAjYCKEEAIQIMAwsgAyADKAIsIgJBBGo2AiwCQCACKAIAIgINAEF/IQIMAwsgAiAAKAJINgIAQQAhAgwCCyADIAMoAiwiAEEEajYCLAJAIAAoAgAiAEEBTQ0AQX8hAgwCCyADIAA2AhAgBEHOHyADQRBqEJ6BgIAAIQIMAQsgAyADKAIsIgBBBGo2AiwCQCAAKAIAIgANAEF/IQIMAQsgAyAANgIgIARBzx8gA0EgahCegYCAACECCyADQTBqJICAgIAAIAILCgAgABCngoCAAAtJAQF/QQEhAgJAIAFBAU4NAEF/DwsCQAJAAkAgAC0AAEEDcQ4EAgAAAQALQQIPCwJAIAFBAUcNAEF8DwsgAC0AAUE/cSECCyACC2cBAX9BASEDAkAgAUEBTg0AQX8PCwJAAkACQCAALQAAQQNxDgQCAAABAAtBAiEDDAELAkAgAUEBRw0AQXwPCyAALQABQT9xIQMLQXwgACACENmBgIAAIANsIgEgAUEZbCACQQNsShsLZQECfyOAgICAAEEQayIBJICAgIAAQQAhAgJAIABBfWpBfkkNACABQQxqEJKAgIAADQAgASABKAIMQQNqQXxxNgIMIAAQkIGAgAAgASgCDGpB3I0BaiECCyABQRBqJICAgIAAIAILtgUBA38jgICAgABBIGsiBCSAgICAAEF/IQUCQAJAAkAgAUH//ABKDQAgAUHAPkYNASABQeDdAEYNAQwCCyABQYD9AEYNACABQYD3AkYNACABQcC7AUcNAQsgAkF9akF+SQ0AIANBgHBqIgZBA0sNACAGQQJGDQBBACEGAkAgBEEcahCSgICAAA0AIAQgBCgCHEEDakF8cTYCHCACEJCBgIAAIAQoAhxqQdyNAWohBgsCQCAGRQ0AIABBACAG/AsACyAEQRxqEJKAgIAADQAgAEHcjQE2AgQgACACNgLwbiAAIAI2AnAgAEEANgK0ASAAIAE2ApABIAQgBCgCHEEDakF8cSIFNgIcIAAgBUHcjQFqIgY2AgBBfSEFIABB3I0BakEAIABBCGoQk4CAgAANACAAIAI2AgwgACACNgIIIABBADYCTCAAQgA3AjggAEIJNwIsIABCqMMBNwIkIABCgP2AgMACNwIcIABCgP2AgIDoBzcCFCAAIAAoApABNgIQIAAgBmoiBiABIAIgACgCtAEQkYGAgAANAEEAIQUgBEEANgIQIAZBoM4AIARBEGoQkoGAgAAaIAQgACgCLDYCACAGQaofIAQQkoGAgAAaIABCgYCAgBA3ApQBIAAgAiABbEG4F2o2AqABIABCmPj//5+KATcCgAEgACADNgJsIABCmHg3AogBIABCmPj//4+DfzcCeCAAQpj4//+PAzcCpAEgAEGIJzYCnAEgAEGAgID8AzYC/G4gAEGAgAE7AfRuIAAgACgCkAEiAUHkAG02AqwBIAAgAUH6AW02AnRBPBDCgICAACEBIABBATYCrG8gAEHRCDYCoG8gAEHpBzYCkG8gACABQQh0NgL4biAAQbwBaiAAKAKQARCcgoCAACAAIAAoAmw2AsABCyAEQSBqJICAgIAAIAULogIBAn8jgICAgABBEGsiBCSAgICAAAJAAkACQAJAAkAgAEH//ABKDQAgAEHAPkYNASAAQeDdAEYNAQwCCyAAQYD9AEYNACAAQYD3AkYNACAAQcC7AUcNAQsgAUF9akF+SQ0AIAJBgHBqIgVBA0sNACAFQQJHDQELQQAhBSADRQ0BIANBfzYCAAwBC0EAIQUCQCAEQQxqEJKAgIAADQAgBCAEKAIMQQNqQXxxNgIMIAEQkIGAgAAgBCgCDGpB3I0BaiEFCwJAIAUQpIKAgAAiBQ0AQQAhBSADRQ0BIANBeTYCAAwBCyAFIAAgASACEOeBgIAAIQACQCADRQ0AIAMgADYCAAsgAEUNACAFEKeCgIAAQQAhBQsgBEEQaiSAgICAACAFC9kFAQl/AkACQAJAIAJBAUgNACAAIARBAnRqIQcgAkEBcSEIAkACQCACQX9qIgkNAEEAIQoMAQsgBkEDdCELIAJB/v///wdxIQwgBiADbEECdCENIAYgA0EBamxBAnQhDkEAIQogASEEIAchDwNAIAQgDyANaioCAEMAAABHlDgCACAEQQRqIA8gDmoqAgBDAAAAR5Q4AgAgBEEIaiEEIA8gC2ohDyAMIApBAmoiCkcNAAsLAkAgCEUNACABIApBAnRqIAcgCiADaiAGbEECdGoqAgBDAAAAR5Q4AgALIAVBf0wNASACQQFxIQggACAFQQJ0aiEHAkACQCAJDQBBACEKDAELIAZBA3QhDCACQf7///8HcSENIAYgA2xBAnQhDiAGIANBAWpsQQJ0IQVBACEKIAEhBCAHIQ8DQCAEIA8gDmoqAgBDAAAAR5QgBCoCAJI4AgAgBEEEaiILIA8gBWoqAgBDAAAAR5QgCyoCAJI4AgAgBEEIaiEEIA8gDGohDyANIApBAmoiCkcNAAsLIAhFDQIgASAKQQJ0aiIEIAcgCiADaiAGbEECdGoqAgBDAAAAR5QgBCoCAJI4AgAPCyAFQX9KDQELIAVBfkcNACAGQQJIDQAgBkEDdCEOIAJB/v///wdxIQUgAkEBcSEIIAYgA2xBAnRBBGohDCAGIANBAWpsQQJ0QQRqIQ1BASEHA0ACQCACQQFIDQBBACEKAkAgAkEBRg0AQQAhCiABIQQgACEPA0AgBCAPIAxqKgIAQwAAAEeUIAQqAgCSOAIAIARBBGoiCyAPIA1qKgIAQwAAAEeUIAsqAgCSOAIAIARBCGohBCAPIA5qIQ8gBSAKQQJqIgpHDQALCyAIRQ0AIAEgCkECdGoiBCAAIAdBAnRqIAogA2ogBmxBAnRqKgIAQwAAAEeUIAQqAgCSOAIACyAMQQRqIQwgDUEEaiENIAdBAWoiByAGRw0ACwsLrAUBCX8CQAJAAkAgAkEBSA0AIAAgBEEBdGohByACQQFxIQgCQAJAIAJBf2oiCQ0AQQAhCgwBCyAGQQJ0IQsgAkH+////B3EhDCAGIANsQQF0IQ0gBiADQQFqbEEBdCEOQQAhCiABIQQgByEPA0AgBCAPIA1qLgEAsjgCACAEQQRqIA8gDmouAQCyOAIAIARBCGohBCAPIAtqIQ8gDCAKQQJqIgpHDQALCwJAIAhFDQAgASAKQQJ0aiAHIAogA2ogBmxBAXRqLgEAsjgCAAsgBUF/TA0BIAJBAXEhCCAAIAVBAXRqIQcCQAJAIAkNAEEAIQoMAQsgBkECdCEMIAJB/v///wdxIQ0gBiADbEEBdCEOIAYgA0EBamxBAXQhBUEAIQogASEEIAchDwNAIAQgBCoCACAPIA5qLgEAspI4AgAgBEEEaiILIAsqAgAgDyAFai4BALKSOAIAIARBCGohBCAPIAxqIQ8gDSAKQQJqIgpHDQALCyAIRQ0CIAEgCkECdGoiBCAEKgIAIAcgCiADaiAGbEEBdGouAQCykjgCAA8LIAVBf0oNAQsgBUF+Rw0AIAZBAkgNACAGQQJ0IQ4gAkH+////B3EhBSACQQFxIQggBiADbEEBdEECaiEMIAYgA0EBamxBAXRBAmohDUEBIQcDQAJAIAJBAUgNAEEAIQoCQCACQQFGDQBBACEKIAEhBCAAIQ8DQCAEIAQqAgAgDyAMai4BALKSOAIAIARBBGoiCyALKgIAIA8gDWouAQCykjgCACAEQQhqIQQgDyAOaiEPIAUgCkECaiIKRw0ACwsgCEUNACABIApBAnRqIgQgBCoCACAAIAdBAXRqIAogA2ogBmxBAXRqLgEAspI4AgALIAxBAmohDCANQQJqIQ0gB0EBaiIHIAZHDQALCwvNAQEDf0F/IQMCQCAAIAJBkANtIgRIDQACQAJAIAFBiCdHDQAgACEBDAELIAFB91hqIgVBCEsNAQJAAkAgAUGNJ0sNACAEIAV0IQEMAQsgAUH1WGogAmxBMm0hAQsgASAASg0BCwJAIAFBkANsIAJGDQAgAUHIAWwgAkYNACABQeQAbCACRg0AIAFBMmwiACACRg0AIAFBGWwgAkYNACAAIAJBA2xGDQAgACACQQJ0Rg0AIAAgAkEFbEYNACAAIAJBBmxHDQELIAEhAwsgAwvkBAIBfwx9QwAAyMEgAiABbSIEQTIgBEEyShuzlUMAAIA/kiEFQwAAAAAhBkMAAAAAIQdDAAAAACEIAkAgAUEESA0AIAFBfWohAkEAIQFDAAAAACEIQwAAAAAhB0MAAAAAIQYDQCAHIABBGGoqAgAiCSAAQRxqKgIAIgqUIABBEGoqAgAiCyAAQRRqKgIAIgyUIABBCGoqAgAiDSAAQQxqKgIAIg6UIAAqAgAiDyAAQQRqKgIAIhCUkpKSkiEHIAYgCiAKlCAMIAyUIA4gDpQgECAQlJKSkpIhBiAIIAkgCZQgCyALlCANIA2UIA8gD5SSkpKSIQggAEEgaiEAIAFBBGoiASACSA0ACwsgA0MAAAAAIAUgBkMAAAAAIAhDKGtuTl0gBkMoa25OXXEiABsgAyoCCCIJk5QgCZIiCSAJQwAAAABdGyIJOAIIIANDAAAAACAFIAdDAAAAACAAGyADKgIEIgqTlCAKkiIKIApDAAAAAF0bIgs4AgQgA0MAAAAAIAUgCEMAAAAAIAAbIAMqAgAiCpOUIAqSIgogCkMAAAAAXRsiCjgCAAJAAkAgCiAJIAogCV4bQxe3UTpeDQAgAyoCECEJDAELIAMgCyAKkSIKIAmRIgyUIgkgCyAJXRsiCzgCBCADIAMqAgwiDSAKkSIKIAyRIgyTiyAKQ30dkCaSIAySlUMAAIA/IAsgCUN9HZAmkpUiCSAJlJORlCANkyAEsiIKlZIiCTgCDCADIAMqAhBDCtejvCAKlZIiCiAJIAogCV4bIgk4AhALQwAAgD8gCUMAAKBBlCIJIAlDAACAP14bC9MCAwJ9An8EfQJAAkAgAiABbCIBQQFODQBDAAAAACEEQwAAAAAhBQwBCyABQQNxIQICQAJAIAFBBE8NAEEAIQZDAAAAACEFQwAAAAAhBAwBCyABQfz///8HcSEHQQAhBkMAAAAAIQUgACEBQwAAAAAhBANAIAUgASoCACIIIAUgCF0bIgUgAUEEaioCACIJIAUgCV0bIgUgAUEIaioCACIKIAUgCl0bIgUgAUEMaioCACILIAUgC10bIQUgBCAIIAQgCF4bIgQgCSAEIAleGyIEIAogBCAKXhsiBCALIAQgC14bIQQgAUEQaiEBIAcgBkEEaiIGRw0ACwsgAkUNACAAIAZBAnRqIQEDQCAFIAEqAgAiCCAFIAhdGyEFIAQgCCAEIAheGyEEIAFBBGohASACQX9qIgINAAsLIAQgBYwiBSAEIAVeG0MAAIA/QQEgA3SylV8L/FIFCH8CfQJ/BH0UfyOAgICAAEHgBGsiDSSAgICAACANIg5BADYC2AQgAEEANgLYjQFBfyEPAkAgAkEBSA0AIARBAUgNAAJAIARBAUcNACAAKAKQASACQQpsRw0AQX4hDwwBCyAAIAAoAgBqIRBBACERAkAgACgCbEGDEEYNACAAKAJ0IRELIAAoAgQhEiAAKAKoASEPIA4gDkHUBGo2AqADIBBBn84AIA5BoANqEJKBgIAAGiAOQQA2ApQEIAUgDyAFIA9IGyETAkACQAJAAkAgACgCLEEHSA0AIAAoApABIhRBgP0ASA0AAkACQCAAKAJwIAJsIg9BAU4NAEMAAAAAIRVDAAAAACEWDAELIA9BA3EhBQJAAkAgD0EETw0AQQAhF0MAAAAAIRZDAAAAACEVDAELIA9B/P///wdxIRhBACEXQwAAAAAhFiABIQ9DAAAAACEVA0AgFiAPKgIAIhkgFiAZXRsiFiAPQQRqKgIAIhogFiAaXRsiFiAPQQhqKgIAIhsgFiAbXRsiFiAPQQxqKgIAIhwgFiAcXRshFiAVIBkgFSAZXhsiFSAaIBUgGl4bIhUgGyAVIBteGyIVIBwgFSAcXhshFSAPQRBqIQ8gGCAXQQRqIhdHDQALCyAFRQ0AIAEgF0ECdGohDwNAIBYgDyoCACIZIBYgGV0bIRYgFSAZIBUgGV4bIRUgD0EEaiEPIAVBf2oiBQ0ACwsgACgC2DshHSAAKALUOyEeIABBvAFqIA4oAtQEIAYgByACIAggCSAKIBQgEyALIA5BlARqEJ+CgIAAIBUgFowiFiAVIBZeG0MAAIA/QQEgE3SylV8iDw0BIA4qArgEQ83MzD1eRQ0BIAAqAtCNAUN3vn8/lCEZAkACQCAAKAJwIAJsIgpBAUgNACAKQQNxIQUCQAJAIApBBE8NAEEAIRdDAAAAACEVDAELIApB/P///wdxIQtBACEXQwAAAAAhFSABIQ8DQCAPQQxqKgIAIhYgFpQgD0EIaioCACIWIBaUIA9BBGoqAgAiFiAWlCAPKgIAIhYgFpQgFZKSkpIhFSAPQRBqIQ8gCyAXQQRqIhdHDQALCwJAIAVFDQAgASAXQQJ0aiEPA0AgDyoCACIWIBaUIBWSIRUgD0EEaiEPIAVBf2oiBQ0ACwsgGSAVIAqzIhqVXg0BIApBA3EhBQJAAkAgCkEETw0AQQAhF0MAAAAAIRUMAQsgCkH8////B3EhC0EAIRdDAAAAACEVIAEhDwNAIA9BDGoqAgAiFiAWlCAPQQhqKgIAIhYgFpQgD0EEaioCACIWIBaUIA8qAgAiFiAWlCAVkpKSkiEVIA9BEGohDyALIBdBBGoiF0cNAAsLAkAgBUUNACABIBdBAnRqIQ8DQCAPKgIAIhYgFpQgFZIhFSAPQQRqIQ8gBUF/aiIFDQALCyAAIBUgGpU4AtCNAQwECyAZQwAAAAAgCrKVIhVeDQAgFSEZCyAAIBk4AtCNAQwCC0F/IR0CQCAAKALgOw0AQX8hHgwCCyAAQbwBahCdgoCAAEF/IR4MAQtBASEUIA8NAQsgAEF/NgKMAUEAIRQLIABBADYCyI0BAkAgDigClAQiF0UNAAJAIAAoAnxBmHhHDQAgAEMAAIA/IA5BlARqQRxBGCAAKAKUbyIPQeoHRhtBFCAPG2oqAgCTQwAAyEKUu0QAAAAAAADgP6Cc/AI2AowBCwJAAkAgDigCtAQiD0ENTg0AQc0IIQ8MAQsCQCAPQQ9PDQBBzgghDwwBCwJAIA9BEU8NAEHPCCEPDAELQdAIQdEIIA9BE0kbIQ8LIAAgDzYCyI0BCyAEQfwJSCEPQwAAAAAhFQJAIAAoAnBBAkcNACAAKAJ4QQFGDQAgASACIAAoApABIABBtO8AahDsgYCAACEVCyAEQfwJIA8bIQkCQAJAAkAgACgCpAEiD0GYeEYNACAPQX9GDQEgACgCkAEhBQwCCyAAKAJwIAAoApABIgVsIAVBPGwgAm1qIQ8MAQsgCSAAKAKQASIFbEEDdCACbSEPCyAAIA82AqABIAUgAm0hCwJAIAAoApQBIggNACAAIAVBDGwgAm0iCiAKQQJtIA9BDGxBCG1qIAptIg8gCSAPIAlIGyIKbEEDdEEMbSIPNgKgASAKQQEgCkEBShshCQsCQAJAAkAgCUEDSA0AIA8gC0EYbEgNACALQTFKDQEgCSALbEGsAkgNACAPQeASSA0AIAAoAighByAAKAIsIR8gACgCcCEKQQAhICAPIQYMAgsgACgCoG8iD0HNCCAPGyEPQQAhCgJAAkBBMiALIAtBGUZB6gcgACgCkG8iBUHoByAFGyALQeQAShsiAkHoB0dxIhcbIgtBEEwNACALIQUMAQsCQAJAIARBAUYNACACQegHRw0BIAtBCkYNAQtBGUEQIAtBDEYbIQUgC0ENSCEXQegHIQIMAQtBMiEFQTIgC20hCkEDIRcLAkACQCAPQdAISA0AIAJB6AdHDQBBzwghBAwBCwJAIA9BzghHDQAgAkHqB0cNAEHNCCEEDAELQdAIIA8gAkHpB0YbIA8gD0HRCEgbIQQLQQAhDwJAIAVBjwNLDQBBACEPA0AgD0EIaiEPIAVBAXQiBUGQA0gNAAsLIAAoAvBuIQUCQAJAAkACQCACQZh4ag4DAAIBAgsgD0HwAWogBEEFdEHgAGpyIQ8MAgsgDyAEQc4IIARBzghKG0EFdEHgAHFBwAFzciEPDAELIARBBHQgD0HwAWpyQeAAciEPCyADQQRBACAFQQJGGyAPciAXcjoAACAXQQJJIQ8CQCAXQQNHDQAgAyAKOgABC0EBQQIgDxshDyAAKAKUAQ0CIAkgDyAJIA9KGyEAQX0gACADIA8gABCbgoCAABshDwwCCyAAKAIoIQcgACgCLCEfIAAoAnAhCkEAISACQCALQTJHDQAgDyEGDAELIApBWGxBbGogC0FOamwgD2ohBkEBISALAkAgCA0AIAZBdG0gBmohBgsgBiAfQdoAaiIhbEHkAG0iIiAHbCAHQQxsQRRqIiNtISRB/wAhBgJAAkACQCAAKAJ8Qcdoag4CAgABC0EAIQYMAQsCQCAAKAKMASIGQQBIDQAgBkHHAmxBCHYiBkHzACAGQfMASRsgBiAAKAJsQYEQRhshBgwBC0HzAEEwIAAoAmxBgBBGGyEGCwJAAkACQCAAKAJ4IhhBmHhGDQAgCkECRw0BIAAgGDYC8G4gGCEKDAILIApBAkcNAEECQQEgIiAka0GA/QBB0IwBIAAoAvBuQQJGGyAGIAZsQdAPbEEOdmpKGyEKCyAAIAo2AvBuCyAPIRgCQCAgRQ0AIApBWGxBbGogC0FOamwgD2ohGAsCQCAIDQAgGEF0bSAYaiEYCyAAIBcgFHJFIAAoArgBQQBHcSIiNgI4IBggIWxB5ABtIhggB2wgI20hJAJAAkAgACgCbCIlQYMQRw0AQeoHIRcgAEHqBzYCkG8gAEGQ7wBqISIgAiAFQeQAbUghBQwBCwJAAkAgACgCiAEiF0GYeEcNACAAQegHQeoHIBggJGsgBiAGbEMAAIA/IBWTIhZDAAB6R5QgFUMA4CtHlJL8ACAWQwBAHEaUIBVDAEAcRpSS/AAiF2tsQQ51IBdqIhdBwD5qIBcgJUGAEEYbIhdB4GBqIBdBoB9qIBcgACgClG8iGEEAShsgGEHqB0YbSBsiFzYCkG8CQCAAKAIwRQ0AIAdBgAEgBmtBBHVMDQBB6AchFyAAQegHNgKQbwtBqMYAQfAuICAbIAJsIAVBA3RtIRgCQCAiIAZB5ABLcQ0AIAkgGE4NAgtB6gdB6AcgCSAYSBshFwsgACAXNgKQbwsgAEGQ7wBqISIgAiAFQeQAbSIYSCEFIBdB6gdGDQAgAiAYTg0AQeoHIRcgIkHqBzYCAAsCQCAAKAKwAUUNAEHqByEXICJB6gc2AgALQQAhJQJAAkACQAJAAkAgACgClG8iGEEBTg0AQQEhJgwBCwJAIBhB6gdHDQBBASEmIBdB6gdGDQBBASEnDAMLQQEhJiAXQeoHRg0BC0EAISdBACEoDAILQeoHIRdBASEmQQAhJ0EAISggGEHqB0YgBXJBAXENASAiIBg2AgBBACEmQQEhJSAYIRdBACEnC0EBISgLAkACQCAKQQFHDQAgACgCmG9BAkcNACAAKAJEDQAgGEHqB0YNACAXQeoHRg0AIABBAjYC8G4gAEEBNgJEQZx/IQUMAQsgAEEANgJEIApBWGxBbGohBQsgDyAFIAtBTmpsQQAgIBtqIQ8CQCAIDQAgD0F0bSAPaiEPCyAAIBJqISQgDyAhbEHkAG0hCgJAAkACQAJAAkAgF0F+cUHoB0cNAAJAIB9BAUoNACAKQQJ0QQVtIQoLIAogCiAHbCAHQQZsQQpqbWshCgwBC0HqByEIAkAgF0HqB0cNAEEAISFBASEFIB9BBEoNAiAKQQlsQQptIQoMAgsgCiAKIAdsICNtayEKC0HqByEIQQAhBUEAISECQCAYQeoHRw0AICQgACgCtAEgDkGwA2oQk4CAgAAaQQEhISAAKAKQbyIXQeoHRw0AQQEhBQwBCwJAIAAoAqxvDQAgACgCVEUNAgsgFyEICyAAKAJwQQJHGiAGIAZsIhdBACgC2OiBgABBACgC+OiBgAAiD2tsQQ51IA9qIQcgF0EAKALQ6IGAAEEAKALw6IGAACIPa2xBDnUgD2ohBgJAAkACQAJAAkACQAJAIAAoAqxvIhgNAEHRCCEPIAogByAXQQAoAtzogYAAQQAoAvzogYAAIhJrbEEOdSASaiISQQAgEmsgACgCpG9B0QhIG2pIDQFBASEHDAYLIAogB0gNAUHRCCEPDAILIBdBACgC1OiBgABBACgC9OiBgAAiD2tsQQ51IA9qIQ8CQCAAKAKkb0HQCEgNACAGIA9rIQYMAQsgDyAGaiEGCwJAIAogBkgNAEHQCCEPQQEhBwwECyAXQQAoAsjogYAAQQAoAujogYAAIg9rbEEOdSAPaiEGIBdBACgCwOiBgABBACgC4OiBgAAiD2tsQQ51IA9qIRICQCAYDQBBACEHQc8IIQ8gCiAGIBdBACgCzOiBgABBACgC7OiBgAAiH2tsQQ51IB9qIh9BACAfayAAKAKkb0HPCEgbak4NBCAXQQAoAsTogYAAQQAoAuTogYAAIg9rbEEOdSAPaiEPIAAoAqRvQc4ISA0CIBIgD2shEgwDCyAKIAZIDQJBzwghDwsgACAPNgKgbyAAIA82AqRvDAQLIA8gEmohEgtBzQhBzwggCiASSBshD0EAIQcLIAAgDzYCoG8gACAPNgKkbyAFIBhBAEdyDQEgACgCWEEARyAHQQFzcg0BQc8IIQ8gAEHPCDYCoG8MAQsgACgCoG8hD0EAIQUgFyEICwJAIA8gACgChAEiF0wNACAAIBc2AqBvIBchDwsCQCAAKAKAASIXQZh4Rg0AIAAgFzYCoG8gFyEPCyAJIAtsIR8CQCAIQeoHRg0AIB9B0g5KDQAgACAPQc8IIA9BzwhIGyIPNgKgbwsCQAJAIAAoApABIghBwLsBTA0AIA8hEgwBC0HQCCESAkACQAJAAkACQCAPQdAISg0AAkAgCEGB/QBIDQAgDyESDAYLIA9B0AhGDQEgCEHh3QBIDQIgDyESDAULIABB0Ag2AqBvIAhBgf0ATg0EC0HPCCESIABBzwg2AqBvIAhB4d0ATg0DDAELIA9BzghKDQACQCAIQcA+TA0AIA8hEgwDCyAPIRIgD0HOCEcNAgwBC0HOCCESIABBzgg2AqBvIAhBwD5KDQELQc0IIRIgAEHNCDYCoG8LAkAgF0GYeEcNACAAKALIjQEiD0UNAAJAAkACQCAKIAAoAvBuIhdB0IwBbEoNACAFRQ0BQc0IIRcMAgsgBSAKIBdBwLsBbExxRQ0AQc4IIRcMAQsCQCAKIBdBsOoBbEoNAEHPCCEXDAELQdEIQdAIIAogF0Hg1wJsShshFwsgACAPIBcgDyAXShsiDzYCyI0BIAAgEiAPIBIgD0gbIhI2AqBvC0EAIQ8CQCAFIAAoAjBFIAAoAigiF0Vycg0AIBJBA3RBmKSBgABqIQ9B/QAgF0EZIBdBGUgbayEIIAAoAjQiB0EBRiEGIBdBBkghGCASIQUCQANAIA8oAgAgD0EEaigCACIXQQAgBhtrQQAgFyAHG2ogCGwiF0H//wNxQY8FbEEQdiAXQRB1QY8FbGohFyAYDQEgCiAXSg0BAkAgBUHNCEwNACAAIAVBf2oiBTYCoG8gD0F4aiEPDAELCyAAIBI2AqBvQQAhDwwBCyAKIBdKIQ8LIAAgDzYCNCAOIBM2ApADIBBBxB8gDkGQA2oQkoGAgAAaAkAgACgCkG8iD0HqB0cNACAAKAKgb0HOCEcNACAAQc8INgKgbwsCQAJAAkACQAJAAkACQCAAKAKwAUUNAEHNCCEIIABBzQg2AqBvDAELIAAoAqBvIQggD0HoB0cNACAIQc8ISg0BCwJAIA9B6QdHDQAgCEHPCEoNAEHoByEPICJB6Ac2AgALIAIgACgCkAEiF0EybSIFSg0BIA8hBwwCC0HpByEHIABB6Qc2ApBvIAIgACgCkAEiF0EybSIFSg0CIAIgF0EDbEEybUoNAgwDC0HoByEHIA9B6AdHDQELIAIgF0EDbCIPQTJtIgZMDQEgB0HoB0cNAAJAIAIgF0EBdEEZbUcNACAXQRltIQUMAQsgBiAFIAIgD0EZbUYbIQULIAIgBW0hDwJAIB5Bf0YNACAAIB02Atg7IAAgHjYC1DsLIAAgASAPIAUgAyAEICUgEyAMEO+BgIAAIQ8MAQsCQCAAKAKob0UNACAAQQA2AqhvQQIhIUEBISdBASEoCyAAKAKgASEPQQAhGAJAAkAgKEUNAEEAISNBACElIAdB6gdGDQFBASEjQQEhJSAJIA8gCyAAKALwbhDwgYCAACIYDQFBACEYC0EAISNBACElCyAOQbADaiADQQFqIikgCUF/aiIdEK6BgIAAIABByO8AaiETIA0gESACaiIqQQJ0IisgACgCcCIFbEEPakFwcWsiDSIeJICAgIAAAkAgESAFbEECdCIERQ0AIA0gEyAAKAKsASARayAFbEECdGogBPwKAAALIA8gAmwgF0EDdG0hBwJAAkAgACgCkG9B6gdHDQBBPBDCgICAAEEIdCEPDAELICQoAgghDwsgACAPIAAoAvhuIgVrIg9BEHVB1wdsIAVqIA9B//8DcUHXB2xBEHZqIg82AvhuIABBgO8AaiEFIA9BCHUQw4CAgAAhBiANIAAoAnAiDyARbEECdGohBCAAKAKQASEXAkACQCAAKAJsQYAQRw0AIAEgBiAEIAUgAiAPIBcQ8YGAgAAMAQsgASAEIAUgAiAPIBcQ8oGAgAALAkAgDEUNACAAKAJwIg8gAmwiBkEBSA0AIA0gDyARbCISQQJ0aiEMIAZBA3EhBQJAAkAgBkEETw0AQQAhBEMAAAAAIRUMAQsgBkH8////B3EhF0EAIQRDAAAAACEVIAwhDwNAIA9BDGoqAgAiFiAWlCAPQQhqKgIAIhYgFpQgD0EEaioCACIWIBaUIA8qAgAiFiAWlCAVkpKSkiEVIA9BEGohDyAXIARBBGoiBEcNAAsLAkAgBUUNACANIBJBAnQgBEECdGpqIQ8DQCAPKgIAIhYgFpQgFZIhFSAPQQRqIQ8gBUF/aiIFDQALCyAVQyhrbk5dDQACQCAGQQJ0Ig9FDQAgDEEAIA/8CwALIABBiO8AakIANwIAIABCADcCgG8LQwAAgD8hGQJAICIoAgAiEkHqB0YNACAeIAIgACgCcCIGbEEBdEEPakFwcWsiKCIeJICAgIAAIA4qArgEIRogDigClAQhLCAJIBhrIg8gByAPIAdIG0EDdEF4aiALbCEtAkACQAJAIBJB6QdHDQAgACAtIAggACgCkAEgAkEybEYgACgClAEgACgCNCAAKALwbhDzgYCAACIXNgIkAkAgACgCsG8iB0UNACAXIS0MAgtDAACAPyAXIC1rskMAAIA6lLtE7zn6/kIu5j+iELOCgIAAtpMhGQwCCyAAIC02AiQgACgCsG8iBw0AQwAAgD8hGSAtIRcMAQtDAACAPyEZAkAgACgClAENACAtIRcMAQsCQCAAKAKwAUUNACAtIRcMAQtDAAD6RSEbQQ0hLgJAAkACQCAAKAKgbyIvQbN3ag4CAgABC0MAgDtGIRtBDyEuDAELQwAAekYhG0ERIS4LAkACQCAGQQFODQBDAAAAACEWDAELIC5Bf2ohMEEAIQxDAAAAACEWA0AgMCEFIAchDwNAIBYgDyoCACIVQwAAAD9DAAAAwCAVQwAAAMBeIgQbQwAAAD8gFUMAAAA/XSIXGyIVIAQbIBUgFxsiFUMAAAA/lCAVIBVDAAAAAF4bkiAPQQRqKgIAIhVDAAAAP0MAAADAIBVDAAAAwF4iBBtDAAAAPyAVQwAAAD9dIhcbIhUgBBsgFSAXGyIVQwAAAD+UIBUgFUMAAAAAXhuSIRYgD0EIaiEPIAVBfmoiBQ0ACyAWIA8qAgAiFUMAAAA/QwAAAMAgFUMAAADAXiIPG0MAAAA/IBVDAAAAP10iBRsiFSAPGyAVIAUbIhVDAAAAP5QgFSAVQwAAAABeG5IhFiAHQdQAaiEHIAxBAWoiDCAGRw0ACwtBACAtQQF0a0EDbSIPIBsgFiAus5UgBrKUQ83MTD6SlPwAIgUgDyAFShshDwJAIC9BfnFB0AhHDQAgD0EDbEEFbSEPCyAAIA8gLWoiFzYCJAsgACAGNgIIIAAgACgC8G4iBzYCDCAAIAJB6AdsIAAoApABIg9tNgIgIABBwD5B4N0AQYD9ACAIQc4IRhsgCEHNCEYbIgU2AhwCQAJAIBJB6QdHDQAgAEKA/YCAgNAPNwIUDAELIABCgP2AgIDoBzcCFCASQegHRw0AAkACQCAgDQAgH0EDdCEEDAELIB9BBHRBA24hBAsgBEG/PkoNACAAQeDdADYCFCAAIAVB4N0AIAVB4N0ASRs2AhwgBEHXNkoNACAAQcA+NgIcIABBwD42AhQLIBpDzczMPWAhDCAAIB1BA3QiBTYCQCAAIAAoApQBIgRFNgI8AkACQAJAAkACQAJAICNBAXMgGEECSHINACAAIAUgGEEDdEF/c2oiBTYCQCASQekHRw0FIAAgBUFsaiIFNgJAIARFDQMMAQsgBEUNASASQekHRw0ECyAFIA9sIAJtIAggDyACQTJsRiAEIAAoAjQgBxDzgYCAACACbCAPbSEFDAILIBJB6QdHDQILIAUgFyACbCAPbSIEIAUgBEgbIQULIAAgBTYCQAsgAEEIaiEHIAxBfyAsGyEMAkAgIUUNACAOQQA2AqgDIBMgACgCrAEgD0GQA20iBCAAKAJ0amsgBmxBAnQiBWoiFyAXQwAAAABDAACAPyAOKALUBCISKAIEIAQgBiASKAI8IA8Q9IGAgAACQCAFRQ0AIBNBACAF/AsACwJAIAAoAnAgACgCrAEiBmwiBUEBSA0AIAVBAXEhEkEAIQQCQCAFQQFGDQAgAEHM7wBqIQ8gBUH+////B3EhF0EAIQQgKCEFA0AgBUECaiAPKgIAQwAAAEeUIhVDAAAAxyAVQwAAAMdeGyIVQwD+/0YgFUMA/v9GXRsQu4KAgAA7AQAgBSAPQXxqKgIAQwAAAEeUIhVDAAAAxyAVQwAAAMdeGyIVQwD+/0YgFUMA/v9GXRsQu4KAgAA7AQAgBUEEaiEFIA9BCGohDyAXIARBAmoiBEcNAAsLIBJFDQAgKCAEQQF0aiATIARBAnRqKgIAQwAAAEeUIhVDAAAAxyAVQwAAAMdeGyIVQwD+/0YgFUMA/v9GXRsQu4KAgAA7AQALICQgByAoIAZBACAOQagDaiAhIAwQlICAgAAaIABBADYCSCAAKAJwIQYLAkAgBiACbCIPQQFIDQAgD0EBcSESIA0gBiARbEECdGohBkEAIQQCQCAPQQFGDQAgD0H+////B3EhF0EAIQQgKCEPIAYhBQNAIA8gBSoCAEMAAABHlCIVQwAAAMcgFUMAAADHXhsiFUMA/v9GIBVDAP7/Rl0bELuCgIAAOwEAIA9BAmogBUEEaioCAEMAAABHlCIVQwAAAMcgFUMAAADHXhsiFUMA/v9GIBVDAP7/Rl0bELuCgIAAOwEAIA9BBGohDyAFQQhqIQUgFyAEQQJqIgRHDQALCyASRQ0AICggBEEBdGogBiAEQQJ0aioCAEMAAABHlCIVQwAAAMcgFUMAAADHXhsiFUMA/v9GIBVDAP7/Rl0bELuCgIAAOwEACwJAICQgByAoIAIgDkGwA2ogDkHcBGpBACAMEJSAgIAARQ0AQX0hDwwCCwJAICIoAgAiD0HoB0cNAAJAIAAoAlAiBUHAPkcNAEHNCCEIDAELAkAgBUGA/QBGDQAgBUHg3QBHDQFBzgghCAwBC0HPCCEICwJAAkAgACgCYEUNACAAIAAoAtSNASIFRTYCSCAOKALcBEUNASAFDQIgACgC8G4hDyAAKAKgASEFIABBATYCqG9BACEnIAkgBSALIA8Q8IGAgAAiGEEARyElDAILIABBADYCSCAOKALcBA0BCyAAQQA2AtiNASADIA8gACgCkAEgAm0gCCAAKALwbhD1gYCAADoAAEEBIQ8MAQtBFSEPAkAgCEGzd2oiBUEDSw0AIAVBAnQoArzqgYAAIQ8LIA4gDzYCgAMgEEGczgAgDkGAA2oQkoGAgAAaIA4gACgC8G42AvACIBBBmM4AIA5B8AJqEJKBgIAAGiAOQX82AuACIBBBoh8gDkHgAmoQkoGAgAAaQegHIQ8CQCAAKAKQb0HoB0YNACAOQQA2AtACIBBBph8gDkHQAmoQkoGAgAAaIA5BAEECIAAoAkwbNgLAAiAQQZLOACAOQcACahCSgYCAABpB6QchDyAAKAKUASEFAkACQCAAKAKQbyIEQekHRw0AIAVFDQIgDiAAKAKgASAAKAIkazYCgAIgEEGiHyAOQYACahCSgYCAABogDkEANgLwASAQQbQfIA5B8AFqEJKBgIAAGgwBCyAEIQ8gBUUNASAOQQE2ArACIBBBph8gDkGwAmoQkoGAgAAaIA4gACgCmAE2AqACIBBBtB8gDkGgAmoQkoGAgAAaIA4gACgCoAE2ApACIBBBoh8gDkGQAmoQkoGAgAAaCyAiKAIAIQ8LIB4gACgCkAEiFyAAKAJwIgVsQZADbUECdCILQQ9qQXBxayIHJICAgIAAAkACQCAPQegHRw0AIAAoAqwBIQQMAQsgACgCrAEhBCAPIAAoApRvIgZGDQAgBkEBSA0AIBdB8HxtIQYgC0UNACAHIBMgBiARayAEaiAFbEECdGogC/wKAAALAkACQCAEICprIAVsIgtBAUgNAAJAIAtBAnQiBEUNACATIBMgBSACbEECdGogBPwKAAALICsgBWwiC0UNASATIARqIA0gC/wKAAAMAQsgBSAEbEECdCILRQ0AIBMgDSAqIARrIAVsQQJ0aiAL/AoAAAsCQAJAIAAqAvxuIhVDAACAP10NACAZQwAAgD9dRQ0BCyANIA0gFSAZIA4oAtQEIgQoAgQgAiAFIAQoAjwgFxD0gYCAAAsgACAZOAL8bgJAAkAgD0HpB0cNACAAKALwbkEBRw0BCwJAAkAgCkGA+gFMDQBBgIABIQQMAQsCQCAKQYD9AE4NAEEAIQQMAQtBgIABQYCAoB8gCkELdGsgCkHQkn9qbmshBAsgACAENgJcCwJAIAAoArBvDQAgBUECRw0AIAAoAlwhBQJAIAAuAfRuIgRBgIABSA0AIAVB//8ASg0BCyANIA0gBLJDAACAOJQgBbJDAACAOJQgDigC1AQiBCgCBCACQQIgBCgCPCAXEPaBgIAAIAAgBTsB9G4LAkACQCAPQeoHRg0AQQVBcSAPQekHRhsgDigCxANqIA4oAswDZ2ogHUEDdEoNAAJAIA9B6QdHDQAgDkGwA2ogJUEMELGBgIAACyAlRQ0AQQEhBSAOQbADaiAnQQEQsYGAgAAgHSAOKALEA0FyQWcgIigCACIPQekHRhtqIA4oAswDZ2pBA3VrIgQgGCAEIBhIGyIEQQIgBEECShsiBEGBAiAEQYECSBshBEEAIQogD0HpB0cNASAOQbADaiAEQX5qQYACELOBgIAADAELQQAhBSAAQQA2AqhvQQEhCkEAIQQLAkACQCAiKAIAIgtB6AdHDQAgDigCzAMhDyAOKALEAyEXIA5BsANqELeBgIAAIBcgD2dqQWdqQQN1IhchDwwBCyAOQbADaiAdIARrIhcQtoGAgABBACEPCwJAAkAgBQ0AICIoAgBB6AdHDQBBACEGDAELIA4gDkGUBGo2AuABIBBBps4AIA5B4AFqEJKBgIAAGgJAICIoAgBB6QdHDQAgDiAAKQJkNwKoAyAOIA5BqANqNgLQASAQQazOACAOQdABahCSgYCAABoLAkAgJyAFcUEBRg0AQQAhBgwBCyAOQQA2AsABIBBBms4AIA5BwAFqEJKBgIAAGiAOQQA2ArABIBBBph8gDkGwAWoQkoGAgAAaIA5BfzYCoAEgEEGiHyAOQaABahCSgYCAABoCQCAQIA0gACgCkAFByAFtICkgF2ogBEEAEJSBgIAAQQBODQBBfSEPDAILIA4gDkHYBGo2ApABIBBBvx8gDkGQAWoQkoGAgAAaIBBBvB9BABCSgYCAABpBASEGQQEhJwsgDkEAQREgC0HqB0YbNgKAASAQQZrOACAOQYABahCSgYCAABoCQCAiKAIAIgtB6AdGDQACQCALIAAoApRvIhhGDQAgGEEBSA0AIBBBvB9BABCSgYCAABogECAHIAAoApABQZADbSAOQagDakECQQAQlIGAgAAaIA5BADYCcCAQQZLOACAOQfAAahCSgYCAABoLIA4oAsQDIA4oAswDZ2pBYGogF0EDdEoNAAJAIAZFDQAgIigCAEHpB0cNACAAKAKUAUUNACAOIAAoAqABIAAoAiRrNgJgIBBBoh8gDkHgAGoQkoGAgAAaCyAOIAAoApQBNgJQIBBBph8gDkHQAGoQkoGAgAAaAkAgECANIAJBACAXIA5BsANqEJSBgIAAIg9BAE4NAEF9IQ8MAgsgBkUNACAiKAIAQekHRw0AIAAoApQBRQ0AAkAgBEUNACApIA9qICkgF2ogBPwKAAALIBcgBGohFwsCQAJAIAogJ3INACAAKAKQASELIBBBvB9BABCSgYCAABogDkEANgJAIBBBms4AIA5BwABqEJKBgIAAGiAOQQA2AjAgEEGSzgAgDkEwahCSgYCAABogDkEANgIgIBBBph8gDkEgahCSgYCAABogDkF/NgIQIBBBoh8gDkEQahCSgYCAABogC0GQA20hCiALQcgBbSELAkAgACgCkG9B6QdHDQAgDkGwA2ogDxC2gYCAACAPIRcLIBAgDSAAKAJwIAIgC2siByAKa2xBAnRqIAogDkGoA2pBAkEAEJSBgIAAGiAQIA0gACgCcCAHbEECdGogCyApIBdqIARBABCUgYCAAEEASA0BIA4gDkHYBGo2AgAgEEG/HyAOEJKBgIAAGgsgAyAAKAKQbyAAKAKQASACbSAIIAAoAvBuEPWBgIAAOgAAIAAgDigC2AQgDigCzAMiC3M2AtiNAUHqByEXAkAgJkUNACAiKAIAIRcLIAAgFzYClG8gAEEANgKsbyAAIAI2ApxvIAAgACgC8G42AphvAkACQCAAKAK4AUUNACAOKAKUBCAUckUNACAOKgK4BCAAQcyNAWogACoC0I0BIAEgAiAAKAJwIBQQ94GAgABFDQEgAEEANgLYjQEgAyAAKAKQbyAAKAKQASACbSAIIAAoAvBuEPWBgIAAOgAAQQEhDwwDCyAAQQA2AsyNAQsCQAJAIAtnIA4oAsQDakFgaiAdQQN0TA0AIClBADoAACAAQQA2AtiNAUEBIQ8MAQsgBSAiKAIAQegHR3INACAPQQNIDQADQCADIA9qLQAADQEgD0EDSiEFIA9Bf2ohDyAFDQALQQIhDwsgBCAPakEBaiEPIAAoApQBDQFBfSAJIAMgDyAJEJuCgIAAGyEPDAELQX0hDwsgDkHgBGokgICAgAAgDwuFBAEOfyOAgICAACIJIQpBAyACQX9qIgtBAXRBAmogAkECRhshDAJAIAAoApQBDQAgACgCpAFBf0YNACAAKAKgAUEDbCAAKAKQAUEYbCADIAJsbW0iDSAFIA0gBUgbIQULIAkgBSAMayACbSIMQfsJIAxB+wlIG0EBaiIOIAJsQQ9qQXBxayIJIgwkgICAgAAgDEHQfWoiDySAgICAACAPEJaCgIAAGiAAKAKIASEQIAAgACgCkG82AogBIAAoAoABIREgACAAKAKgbzYCgAEgACgCeCESIAAgACgC8G4iDDYCeAJAAkAgACgCRCITRQ0AIABBATYCeAwBCyAAIAw2AphvCwJAAkAgAkEBSA0AIAJBf2ohFEEAIQ1BACEMA0AgAEEANgJEIAAgDCALSDYC1I0BAkAgBkUNACAUIAxHDQAgAEHqBzYCiAELQX0hFSAAIAEgDSAAKAJwbEECdGogAyAJIA4gB0EAQQBBAEEAQQBBACAIEO6BgIAAIhZBAEgNAiAPIAkgFhCXgoCAAEEASA0CIA0gA2ohDSAJIA5qIQkgAiAMQQFqIgxHDQALCwJAIA9BACACIAQgBUEAIAAoApQBRRCagoCAACIVQQBODQAgCiSAgICAAEF9DwsgACARNgKAASAAIBA2AogBIAAgEjYCeCAAIBM2AkQLIAokgICAgAAgFQtkAQF/IANBKGxBFGoiBEHIASACa2wgAWpBA2xBgBltIgEgAEEDdCAEQQF0a0HwAWxBgPcCIAJtQfABam0gBGpBCG0iAiABIAJIGyICQYECIAJBgQJIG0EAIAIgA0EDdEEEckobC7kDAgV/B30gAcFBpxNsIAZB6AdtbSIGwSIBIAZB//8DcWxBEHUgASAGQRB1bGogBkEPdUEBakEBdSAGbGoiB8EiCCAGQal8bEGAgICAAWoiAUEGdSIJQf//A3EiCmxBEHUgCCABQRZ1IgtsaiAHQYCAgHxqQQ91QQFqQQF1IAlsarJDAACAMZQhDCABQRV1QQFqQQF1IAlsIAnBIgkgC2xqIAkgCmxBEHVqskMAAIAxlCENIAZBrgdsQYCAgIB+arJDAACAMZQhDiABskMAAIAxlCEPIAVBAnQhCUEAIQYgBCEBA0AgAyoCBCEQIAMgDyAAIAZqKgIAIhGUIhIgEiADKgIAkiISIA2Uk0NgQqINkjgCBCADIA4gEZQgECASIAyUk5I4AgAgAiAGaiASOAIAIAYgCWohBiABQX9qIgENAAsCQCAFQQJHDQAgAkEEaiEGIABBBGohAQNAIAMqAgwhECADIA8gASoCACIRlCISIBIgAyoCCJIiEiANlJNDYEKiDZI4AgwgAyAOIBGUIBAgEiAMlJOSOAIIIAYgEjgCACAGQQhqIQYgAUEIaiEBIARBf2oiBA0ACwsL+wIEA30BfwN9AX9DAACAP0M0M5dBIAWylSIGkyEHIAIqAgAhCAJAAkACQCAEQQJGDQAgA0EBcSEJIANBAUcNAUEAIQQMAgsgAioCCCEKA0AgAEEEaioCACELIAEgACoCACIMIAiTOAIAIAFBBGogCyAKkzgCACAHIAiUIAYgDJRDYEKiDZKSIQggByAKlCAGIAuUQ2BCog2SkiEKIAFBCGohASAAQQhqIQAgA0F/aiIDDQALIAIgCjgCCCACIAg4AgAPCyADQf7//x9xIQ1BACEEIAEhAyAAIQUDQCADIAUqAgAiCiAIkzgCACADQQRqIAVBBGoqAgAiCyAHIAiUIAYgCpRDYEKiDZKSIgiTOAIAIAcgCJQgBiALlENgQqINkpIhCCADQQhqIQMgBUEIaiEFIA0gBEECaiIERw0ACwsCQCAJRQ0AIAEgBEECdCIDaiAAIANqKgIAIgogCJM4AgAgByAIlCAGIAqUQ2BCog2SkiEICyACIAg4AgALnwIBAn9BASEGIAIgBEEBdGpBAWohAgJAAkACQCAAIAVtIgRB4N0ASA0AAkAgBEGA/QBPDQBBAiEGDAELAkAgBEGgnAFPDQBBAyEGDAELAkAgBEHAuwFPDQBBBCEGDAELAkAgBEGA+gFPDQBBBSEGDAELIARBgPQDTw0BQQYhBgsgBkEUbCIGQbDpgYAAaiIAKAIAIgcgBGsgBkGc6YGAAGoiBiACQQJ0IgJqKAIAbCAEIAYoAgAiBmsgACACaigCAGxqIAcgBmttIQYMAQsgAkECdEGo6oGAAGooAgAgBEGAjHxqQQF2aiEGCyAGIAZB5ABqIAMbIgZBrAJqIAYgAUHQCEYbIAVsIgZBmHhqIAYgBEHf3QBKGyAGIAVBAkYbC54FAwR/AX0JfyAEQYD3AiAIbSIJbSEKAkACQCAGQQFGDQAgCkEBSA0BIAlBAnQhCyABIQggACEEIAohDANAIAggBCoCACAHKgIAIg0gDZQiDSADlCACQwAAgD8gDZOUkiINlDgCACAIQQRqIARBBGoqAgAgDZQ4AgAgCEEIaiEIIARBCGohBCAHIAtqIQcgDEF/aiIMDQAMAgsLIApBAUgNACAKQQFxIQ5BACELAkAgCkEBRg0AIAlBA3QhDyAJQQJ0IRAgCkH+////B3EhEUEAIQsgASEIIAAhBCAHIQwDQCAIIAQqAgAgDCoCACINIA2UIg0gA5QgAkMAAIA/IA2TlJKUOAIAIAhBBGogBEEEaioCACAMIBBqKgIAIg0gDZQiDSADlCACQwAAgD8gDZOUkpQ4AgAgCEEIaiEIIARBCGohBCAMIA9qIQwgESALQQJqIgtHDQALCyAORQ0AIAEgC0ECdCIIaiAAIAhqKgIAIAcgCyAJbEECdGoqAgAiDSANlCINIAOUIAJDAACAPyANk5SSlDgCAAsgBkEBIAZBAUobIQ4gBkECdCESIAZBA3QhDyAKIAZsIRMgBSAKa0EBcSEUQQAhCSAFIApBAWoiFUYhFiAAIRAgASERA0ACQCAFIApMDQAgCiEIAkAgFEUNACABIBMgCWpBAnQiCGogAyAAIAhqKgIAlDgCACAVIQgLIBYNACAFIAhrIQQgECASIAhsIgxqIQcgESAMaiEMIBAgEiAIQQFqbCIIaiELIBEgCGohBkEAIQgDQCAMIAhqIAMgByAIaioCAJQ4AgAgBiAIaiADIAsgCGoqAgCUOAIAIAggD2ohCCAEQX5qIgQNAAsLIBBBBGohECARQQRqIREgCUEBaiIJIA5HDQALC5sBAQF/QQAhBAJAIAFBjwNKDQBBACEEA0AgBEEIaiEEIAFBAXQiAUGQA0gNAAsLAkACQAJAAkAgAEGYeGoOAwACAQILIARB8AFqIAJBBXRB4ABqciEEDAILIAQgAkHOCCACQc4IShtBBXRB4ABxQcABc3IhBAwBCyACQQR0IARB8AFqckHgAHIhBAsgBEEEQQAgA0ECRhtyQf8BcQvmBAQEfwF9AX8BfUMAAIA/IAOTIQMCQAJAAkAgBEGA9wIgCG0iCG0iCUEBTg0AQQAhCQwBC0MAAIA/IAKTIQICQAJAAkAgBkEBRw0AIAhBAUYNAQsgCEECdCEKIAZBAnQhC0EAIQggCSEMA0AgASAIaiIEIAQqAgAgByoCACINIA2UIg0gA5QgAkMAAIA/IA2TlJIgACAIaiIOKgIAIA5BBGoqAgCTQwAAAD+UlCINkzgCACAEQQRqIgQgBCoCACANkjgCACAHIApqIQcgCCALaiEIIAxBf2oiDA0ADAILCyAIQQJ0IQogBkECdCELIAEqAgAhDUEAIQggCSEEA0AgASAIaiIMIA0gByoCACIPIA+UIg8gA5QgAkMAAIA/IA+TlJIgACAIaiIOKgIAIA5BBGoqAgCTQwAAAD+UlCIPkzgCACAMQQRqIgwgDCoCACAPkiINOAIAIAcgCmohByAIIAtqIQggBEF/aiIEDQALCyAJIAVPDQELAkAgBkEBRg0AIAZBAnQhDiAFIAlrIQQgBiAJbEECdCEHA0AgASAHaiIIIAgqAgAgAyAAIAdqIgwqAgAgDEEEaioCAJNDAAAAP5SUIgKTOAIAIAhBBGoiCCAIKgIAIAKSOAIAIAcgDmohByAEQX9qIgQNAAwCCwsgBkECdCEOIAUgCWshCCAGIAlsQQJ0IQcgASAJQQJ0aioCACECA0AgASAHaiIEIAIgAyAAIAdqIgwqAgAgDEEEaioCAJNDAAAAP5SUIg2TOAIAIARBBGoiBCAEKgIAIA2SIgI4AgAgByAOaiEHIAhBf2oiCA0ACwsLxAICAn8BfQJAIABDzczMPV1FDQAgBg0AAkACQCAFIARsIgdBAU4NAEMAAAAAIQAMAQsgB0EDcSEFAkACQCAHQQRPDQBBACEEQwAAAAAhAAwBCyAHQfz///8HcSEIQQAhBEMAAAAAIQAgAyEGA0AgBkEMaioCACIJIAmUIAZBCGoqAgAiCSAJlCAGQQRqKgIAIgkgCZQgBioCACIJIAmUIACSkpKSIQAgBkEQaiEGIAggBEEEaiIERw0ACwsgBUUNACADIARBAnRqIQYDQCAGKgIAIgkgCZQgAJIhACAGQQRqIQYgBUF/aiIFDQALCyACIAAgB7KVQ3EdnkOUYCEGC0EAIQUCQAJAIAZFDQAgASABKAIAIgRBAWo2AgBBCiEFQQAhBiAEQQpIDQFBASEGIARBHkkNAQsgASAFNgIAQQAhBgsgBgtdAQF/AkAgAQ0AIAAoApABQZADbSEBCwJAAkAgACgCpAEiA0F/Rg0AIANBmHhHDQEgACgCcCAAKAKQASIAbCAAQTxsIAFtag8LIAIgACgCkAFsQQN0IAFtIQMLIAMLpAQBCX8jgICAgAAiBSEGQX8hBwJAIAIgACgCkAEiCEGQA20iCUgNACACIQoCQCAAKAKcASILQYgnRg0AIAtB91hqIgpBCEsNAQJAAkAgC0GNJ0sNACAJIAp0IQoMAQsgC0H1WGogCGxBMm0hCgsgCiACSg0BCwJAAkAgCkGQA2wgCEYNACAKQcgBbCAIRg0AIApB5ABsIAhGDQAgCkEBSA0CIApBMmwiCSAIRyAKQRlsIAhHcSAJIAhBA2xHcSAJIAhBAnRHcSAJIAhBBWxHcSAJIAhBBmxHcUUNAQwCCyAKQQFIDQELIAUgACgCcCIMIApsIghBAnRBD2pBcHFrIg0kgICAgAACQCAIQQFIDQAgCEEDcSEFQQAhCQJAIAhBBEkNACAIQfz///8HcSELQQAhCSANIQggASEHA0AgCCAHLgEAskMAAAA4lDgCACAIQQRqIAdBAmouAQCyQwAAADiUOAIAIAhBCGogB0EEai4BALJDAAAAOJQ4AgAgCEEMaiAHQQZqLgEAskMAAAA4lDgCACAIQRBqIQggB0EIaiEHIAsgCUEEaiIJRw0ACwsgBUUNACABIAlBAXRqIQggDSAJQQJ0aiEHA0AgByAILgEAskMAAAA4lDgCACAIQQJqIQggB0EEaiEHIAVBf2oiBQ0ACwsgACANIAogAyAEQRAgASACQQBBfiAMQYGAgIAAQQAQ7oGAgAAhBwsgBiSAgICAACAHC/kBAQV/QX8hBQJAIAIgACgCkAEiBkGQA20iB0gNACACIQgCQCAAKAKcASIJQYgnRg0AIAlB91hqIghBCEsNAQJAAkAgCUGNJ0sNACAHIAh0IQgMAQsgCUH1WGogBmxBMm0hCAsgCCACSg0BCwJAIAhBkANsIAZGDQAgCEHIAWwgBkYNACAIQeQAbCAGRg0AIAhBMmwiByAGRg0AIAhBGWwgBkYNACAHIAZBA2xGDQAgByAGQQJ0Rg0AIAcgBkEFbEYNACAHIAZBBmxHDQELIAghBQsgACABIAUgAyAEQRggASACQQBBfiAAKAJwQYKAgIAAQQEQ7oGAgAALihkBA38jgICAgABB0AFrIgMkgICAgAAgAyACNgLMASAAIAAoAgBqIQRBeyECAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAIAFB4GBqDjIBAgMEBwgTFAkKDQ4PEBESCwwsLBcYBQYZGiwbJhwsHSwsLCweHywsICEiIywsJCUsKgALAkAgAUHhsX9qDgwrLCwsLCwsLCwoLCkACyABQYaqf2oOEiYrKysrKysrKysrKysrKysUFSsLIAMgAygCzAEiAUEEajYCzAFBfyECIAEoAgAiAUGAcGoiBEEDSw0qIARBAkYNKgJAIAAoAqxvDQAgACgCbCABRw0rCyAAIAE2AsABIAAgATYCbEEAIQIMKgsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAg0AQX8hAgwqCyACIAAoAmw2AgBBACECDCkLIAMgAygCzAEiAkEEajYCzAECQAJAIAIoAgAiAUGYeEcNACABIQIMAQtBfyECAkAgAUF/Rw0AIAEhAgwBCyABQQFIDSlB9AMhAiABQfUDSQ0AIAEgACgCcEHgpxJsIgIgASACSBshAgsgACACNgKkAUEAIQIMKAsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAg0AQX8hAgwoCyACIAAgACgCnG9B/AkQ+IGAgAA2AgBBACECDCcLIAMgAygCzAEiAkEEajYCzAECQAJAIAIoAgAiAkEBSA0AIAIgACgCcEwNAUF/IQIMKAsgAkGYeEYNAEF/IQIMJwsgACACNgJ4QQAhAgwmCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICDQBBfyECDCYLIAIgACgCeDYCAEEAIQIMJQsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAkGud2pBe08NAEF/IQIMJQsgACACNgKEAQJAAkACQCACQbN3ag4CAAECCyAAQcA+NgIUQQAhAgwmCyAAQeDdADYCFEEAIQIMJQsgAEGA/QA2AhRBACECDCQLIAMgAygCzAEiAkEEajYCzAECQCACKAIAIgINAEF/IQIMJAsgAiAAKAKEATYCAEEAIQIMIwsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAkGzd2oiAUEFSQ0AIAJBmHhGDQBBfyECDCMLIAAgAjYCgAECQAJAAkAgAQ4CAAECCyAAQcA+NgIUQQAhAgwkCyAAQeDdADYCFEEAIQIMIwsgAEGA/QA2AhRBACECDCILIAMgAygCzAEiAkEEajYCzAECQCACKAIAIgINAEF/IQIMIgsgAiAAKAKgbzYCAEEAIQIMIQsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAkEBTQ0AQX8hAgwhCyAAIAI2ArgBQQAhAgwgCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICDQBBfyECDCALIAIgACgCuAE2AgBBACECDB8LIAMgAygCzAEiAkEEajYCzAECQCACKAIAIgJBCk0NAEF/IQIMHwsgACACNgIsIAMgAjYCACAEQaofIAMQkoGAgAAaQQAhAgweCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICDQBBfyECDB4LIAIgACgCLDYCAEEAIQIMHQsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAkEBTQ0AQX8hAgwdCyAAIAI2AjBBACECDBwLIAMgAygCzAEiAkEEajYCzAECQCACKAIAIgINAEF/IQIMHAsgAiAAKAIwNgIAQQAhAgwbCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICQeQATQ0AQX8hAgwbCyAAIAI2AiggAyACNgIQIARBrh8gA0EQahCSgYCAABpBACECDBoLIAMgAygCzAEiAkEEajYCzAECQCACKAIAIgINAEF/IQIMGgsgAiAAKAIoNgIAQQAhAgwZCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICQQFNDQBBfyECDBkLIAAgAjYClAEgAEEBIAJrNgI8QQAhAgwYCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICDQBBfyECDBgLIAIgACgClAE2AgBBACECDBcLIAMgAygCzAEiAkEEajYCzAECQCACKAIAIgJBm39qQZp/Tw0AQX8hAgwXCyAAIAI2AowBQQAhAgwWCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICDQBBfyECDBYLIAIgACgCjAE2AgBBACECDBULIAMgAygCzAEiAkEEajYCzAECQCACKAIAIgJBAU0NAEF/IQIMFQsgACACNgKYAUEAIQIMFAsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAg0AQX8hAgwUCyACIAAoApgBNgIAQQAhAgwTCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICQcdoakECSQ0AIAJBmHhGDQBBfyECDBMLIAAgAjYCfEEAIQIMEgsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAg0AQX8hAgwSCyACIAAoAnw2AgBBACECDBELIAMgAygCzAEiAkEEajYCzAECQCACKAIAIgENAEF/IQIMEQsgASAAKAKQAUGQA20iBDYCAEEAIQIgACgCbEGDEEYNECABIAAoAnQgBGo2AgAMEAsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAg0AQX8hAgwQCyACIAAoApABNgIAQQAhAgwPCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICDQBBfyECDA8LIAIgACgC2I0BNgIAQQAhAgwOCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICQWdqQW9PDQBBfyECDA4LIAAgAjYCqAFBACECDA0LIAMgAygCzAEiAkEEajYCzAECQCACKAIAIgINAEF/IQIMDQsgAiAAKAKoATYCAEEAIQIMDAsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAkHuWGpBdk8NAEF/IQIMDAsgACACNgKcAUEAIQIMCwsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAg0AQX8hAgwLCyACIAAoApwBNgIAQQAhAgwKCyADIAMoAswBIgJBBGo2AswBAkAgAigCACICQQFNDQBBfyECDAoLIAAgAjYCTEEAIQIMCQsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAg0AQX8hAgwJCyACIAAoAkw2AgBBACECDAgLIAMgAygCzAEiAEEEajYCzAECQCAAKAIAIgBBAU0NAEF/IQIMCAsgAyAANgIgIARBzh8gA0EgahCSgYCAABpBACECDAcLIAMgAygCzAEiAEEEajYCzAECQCAAKAIAIgANAEF/IQIMBwsgAyAANgIwIARBzx8gA0EwahCSgYCAABpBACECDAYLIAAoAgQhASAAQbwBahCdgoCAAEEAIQICQEHsHkUNACAAQfDuAGpBAEHsHvwLAAsgBEG8H0EAEJKBgIAAGiAAIAFqIAAoArQBIANB6ABqEJOAgIAAGiAAQQE2AqxvIABBgICA/AM2AvxuIABBgIABOwH0biAAQdEINgKgbyAAQekHNgKQbyAAIAAoAnA2AvBuIABBPBDCgICAAEEIdDYC+G4MBQsgAyADKALMASICQQRqNgLMAQJAIAIoAgAiAkGYeGpBA0kNACACQZh4Rg0AQX8hAgwFCyAAIAI2AogBQQAhAgwECyADIAMoAswBIgJBBGo2AswBIAAgAigCACICNgKwASADIAI2AkAgBEGozgAgA0HAAGoQkoGAgAAhAgwDCyADIAMoAswBIgJBBGo2AswBIAAgAigCACICNgKwbyADIAI2AlAgBEGqzgAgA0HQAGoQkoGAgAAhAgwCCyADIAMoAswBIgJBBGo2AswBAkAgAigCACIBDQBBfyECDAILAkAgACgCOEUNACAAKAKUb0F+cUHoB0cNACABIAAgACgCBGoiBSgCxC8iBEEJSjYCAEEAIQIgBEEKSA0CIAAoAgxBAkcNAiAFKAL0nQENAiABIAUoApR+QQlKNgIADAILAkAgACgCuAFFDQAgASAAKALMjQFBCUo2AgBBACECDAILQQAhAiABQQA2AgAMAQsgAyADKALMASIAQQRqNgLMAQJAIAAoAgAiAA0AQX8hAgwBCyADIAA2AmAgBEGfzgAgA0HgAGoQkoGAgAAhAgsgA0HQAWokgICAgAAgAgsKACAAEKeCgIAAC2sBA38CQAJAIAAoAgggACgCBGoiAUH/AUoNAEEBIQIgACgCACIDQQFIDQEgAEEMaiEAA0ACQCAALQAAIgJB/wFGDQAgASACTA0CC0EBIQIgAEEBaiEAIANBf2oiA0UNAgwACwtBACECCyACC1EBA38gAkF/IAJBf0obIQIgAEENaiEDIAFBAXQhBCAAKAIAIQUDQAJAIAJBAWoiACAFSA0AQX8PCyADIAJqIQEgACECIAQgAS0AAEcNAAsgAAtUAQN/IAJBfyACQX9KGyECIABBDWohAyABQQF0QQFyIQQgACgCACEFA0ACQCACQQFqIgAgBUgNAEF/DwsgAyACaiEBIAAhAiAEIAEtAABHDQALIAALUAEEfyACQX8gAkF/ShshAiAAQQ1qIQMgACgCACEEA0ACQCACQQFqIgUgBEgNAEF/DwsgAyACaiEGIAUhAiAAKAIIIAFqIAYtAABHDQALIAULtCYGG38BfQV/An0BfwF9I4CAgIAAQeADayILJICAgIAAIAsiDEHYA2oiDUIANwMAIAxB0ANqIg5CADcDACAMQgA3A8gDIAxCADcDwAMgCBCMgYCAACIPIAVsIhBBwAcgEEHAB0gbIRECQAJAIAAoAiQiCEEBTg0AQQAhEgwBCyAAKAIsIRNBACESA0AgEyASdCAQRg0BIAggEkEBaiISRw0ACyAIIRILIAxB1ANqIRQgDEHAA2pBDHIhCEECIRMgCyAQIAZqIhVBAnQiFkEPakFwcWsiFyILJICAgIAAIAsgBUECdEEPakFwcWsiGCILJICAgIAAIAsgEUECdCIZQQ9qQXBxayIaJICAgIAAAkACQAJAAkACQAJAIAdBfWoOBgEAAQECAwULIAxBwANqQQhyIQ4gDEHAA2pBBHIhC0EBIRMgDEEBNgLAA0EDIRtBAyEcDAMLQQMhEyAMQQM2AsgDIAxCgYCAgCA3A8ADQQAhHEEBIRsgCCELIBQhCAwCCyAMQoOAgIAQNwPIAyAMQoGAgIAgNwPAA0EAIRxBAyEbIA4hCyAUIQ4gDSEIDAELIAxB3ANqIQhBAyETIAxBAzYC0AMgDEKDgICAEDcDyAMgDEKBgICAIDcDwANBACEcQQEhGyAUIQsgDSEOCyAOIBM2AgAgCyAbNgIAIAggHDYCAAsgDEGAgICPfDYC2AIgDEKAgICPjICA8EE3A9ACIAxCgICAj4yAgPBBNwPIAiAMQoCAgI+MgIDwQTcDwAIgDEKAgICPjICA8EE3A7gCIAxCgICAj4yAgPBBNwOwAiAMQoCAgI+MgIDwQTcDqAIgDEKAgICPjICA8EE3A6ACIAxCgICAj4yAgPBBNwOYAiAMQoCAgI+MgIDwQTcDkAIgDEKAgICPjICA8EE3A4gCIAxCgICAj4yAgPBBNwOAAiAMQoCAgI+MgIDwQTcD+AEgDEKAgICPjICA8EE3A/ABIAxCgICAj4yAgPBBNwPoASAMQoCAgI+MgIDwQTcD4AEgDEKAgICPjICA8EE3A9gBIAxCgICAj4yAgPBBNwPQASAMQoCAgI+MgIDwQTcDyAEgDEKAgICPjICA8EE3A8ABIAxCgICAj4yAgPBBNwO4ASAMQoCAgI+MgIDwQTcDsAEgDEKAgICPjICA8EE3A6gBIAxCgICAj4yAgPBBNwOgASAMQoCAgI+MgIDwQTcDmAEgDEKAgICPjICA8EE3A5ABIAxCgICAj4yAgPBBNwOIASAMQoCAgI+MgIDwQTcDgAEgDEKAgICPjICA8EE3A3ggDEKAgICPjICA8EE3A3AgDEKAgICPjICA8EE3A2ggDEKAgICPjICA8EE3A2ACQCAHQQFIDQAgDEHgAGpBqAFqIR0gFUH8////B3EhHiAVQQNxIR8gAEHAAGohICAAQRBqISEgECARbSEiIBcgEEECdGohIyAXIAZBAnQiJGohJSAPsiEmIBVBf2pBA0khJyACIRRBACEoA0AgAyAoIAZsQQJ0aiEpAkAgJEUiKg0AIBcgKSAk/AoAAAsgGEEBIAEgByAoIAVBACAJEYCAgIAAgICAgAAgGCAlIBBBASAPICEgBCAoQQJ0IitqIgtBABCTgYCAAAJAIBVBAUgNAEEAIRNDAAAAACEsAkAgJw0AIBchCANAIAhBDGoqAgAiLSAtlCAIQQhqKgIAIi0gLZQgCEEEaioCACItIC2UIAgqAgAiLSAtlCAskpKSkiEsIAhBEGohCCAeIBNBBGoiE0cNAAsLAkAgH0UNACAXIBNBAnRqIQggHyETA0AgCCoCACItIC2UICySISwgCEEEaiEIIBNBf2oiEw0ACwsgLENrC15dXQ0AAkAgFkUNACAXQQAgFvwLAAsgC0EANgIACwJAQdQARQ0AIAxB4AJqQQBB1AD8CwALIAIgKEHUAGxqIS4CQCAiQQFIDQBBACEcA0AgICAXIBxBgB5saiAaIAAoAjwgBiAAKAIkIBJrQQEgChC9gYCAAAJAIA9BAUYNAAJAAkAgESAPbSINQQFODQBBACENDAELIA1BA3EhE0EAIQsCQCANQQRJDQAgDUH8////B3EhG0EAIQsgGiEIA0AgCCAIKgIAICaUOAIAIAhBBGoiDiAOKgIAICaUOAIAIAhBCGoiDiAOKgIAICaUOAIAIAhBDGoiDiAOKgIAICaUOAIAIAhBEGohCCAbIAtBBGoiC0cNAAsLIBNFDQAgGiALQQJ0aiEIA0AgCCAIKgIAICaUOAIAIAhBBGohCCATQX9qIhMNAAsLIA0gEU4NACAZIA1BAnQiCGsiE0UNACAaIAhqQQAgE/wLAAsgACAaIAxBFUEBIBIgChD/gICAAEEAIQgDQCAMQeACaiAIaiITIBMqAgAiLCAMIAhqIgsqAgAiLSAsIC1eGzgCACATQQRqIg4gDioCACIsIAtBBGoqAgAiLSAsIC1eGzgCACATQQhqIhMgEyoCACIsIAtBCGoqAgAiLSAsIC1eGzgCACAIQQxqIghB1ABHDQALIBxBAWoiHCAiRw0ACwsgAEEVQRUgDEHgAmogLkEBEM+BgIAAIC4gLioCBCIsIC4qAgBDAACAv5IiLSAsIC1eGyIsOAIEIC4gLioCCCItICxDAACAv5IiLCAtICxeGyIsOAIIIC4gLioCDCItICxDAACAv5IiLCAtICxeGyIsOAIMIC4gLioCECItICxDAACAv5IiLCAtICxeGyIsOAIQIC4gLioCFCItICxDAACAv5IiLCAtICxeGyIsOAIUIC4gLioCGCItICxDAACAv5IiLCAtICxeGyIsOAIYIC4gLioCHCItICxDAACAv5IiLCAtICxeGyIsOAIcIC4gLioCICItICxDAACAv5IiLCAtICxeGyIsOAIgIC4gLioCJCItICxDAACAv5IiLCAtICxeGyIsOAIkIC4gLioCKCItICxDAACAv5IiLCAtICxeGyIsOAIoIC4gLioCLCItICxDAACAv5IiLCAtICxeGyIsOAIsIC4gLioCMCItICxDAACAv5IiLCAtICxeGyIsOAIwIC4gLioCNCItICxDAACAv5IiLCAtICxeGyIsOAI0IC4gLioCOCItICxDAACAv5IiLCAtICxeGyIsOAI4IC4gLioCPCItICxDAACAv5IiLCAtICxeGyIsOAI8IC4gLioCQCItICxDAACAv5IiLCAtICxeGyIsOAJAIC4gLioCRCItICxDAACAv5IiLCAtICxeGyIsOAJEIC4gLioCSCItICxDAACAv5IiLCAtICxeGyIsOAJIIC4gLioCTCItICxDAACAv5IiLCAtICxeGyIsOAJMIC4gLioCUCItICxDAACAv5IiLCAtICxeGzgCUEEAIQgDQCAUIAhqIhNBzABqIgsgCyoCACIsIBNB0ABqKgIAQwAAAMCSIi0gLCAtXhsiLDgCACATQcgAaiITIBMqAgAiLSAsQwAAAMCSIiwgLSAsXhs4AgAgCEF4aiIIQbB/Rw0ACwJAAkACQAJAIAxBwANqICtqKAIAQX9qDgMAAgEDC0EAIQgDQCAMQeAAaiAIaiITKgIAIiwgFCAIaioCACItICwgLV4iCxshLwJAICwgLZMgLSAskyALGyIsQwAAAEFdRQ0AICwgLJIiLCAsjvwAIguykyALQQJ0IgtB1OqBgABqKgIAIAtB0OqBgABqKgIAIiyTlCAvICySkiEvCyATIC84AgAgCEEEaiIIQdQARw0ADAMLC0EAIQgDQCAdIAhqIhMqAgAiLCAUIAhqKgIAIi0gLCAtXiILGyEvAkAgLCAtkyAtICyTIAsbIixDAAAAQV1FDQAgLCAskiIsICyO/AAiC7KTIAtBAnQiC0HU6oGAAGoqAgAgC0HQ6oGAAGoqAgAiLJOUIC8gLJKSIS8LIBMgLzgCACAIQQRqIghB1ABHDQAMAgsLQQAhCANAIAxB4ABqIAhqIhMqAgAiLSAUIAhqKgIAQwAAAL+SIiwgLSAsXiILGyEvAkAgLSAskyAsIC2TIAsbIi1DAAAAQV1FDQAgLSAtkiItIC2O/AAiC7KTIAtBAnQiC0HU6oGAAGoqAgAgC0HQ6oGAAGoqAgAiLZOUIC8gLZKSIS8LIBMgLzgCACATQagBaiITKgIAIi0gLCAtICxeIgsbIS8CQCAtICyTICwgLZMgCxsiLEMAAABBXUUNACAsICySIiwgLI78ACILspMgC0ECdCILQdTqgYAAaioCACALQdDqgYAAaioCACIsk5QgLyAskpIhLwsgEyAvOAIAIAhBBGoiCEHUAEcNAAsLAkAgKg0AICkgIyAk/AoAAAsgFEHUAGohFCAoQQFqIiggB0cNAAsLQQAhEwNAIAxB4ABqIBNqIghB1ABqIAgqAgAiLCAIQagBaioCACItICwgLV0bOAIAIAhB2ABqIAhBBGoqAgAiLCAIQawBaioCACItICwgLV0bOAIAIAhB3ABqIAhBCGoqAgAiLCAIQbABaioCACItICwgLV0bOAIAIBNBDGoiE0HUAEcNAAsgDEMAAABAIAdBf2qylbsQuYKAgABE/oIrZUcV9z+itkMAAAA/lCIsIAwqAmCSOAJgIAwgLCAMKgJkkjgCZCAMICwgDCoCaJI4AmggDCAsIAwqAmySOAJsIAwgLCAMKgJwkjgCcCAMICwgDCoCdJI4AnQgDCAsIAwqAniSOAJ4IAwgLCAMKgJ8kjgCfCAMICwgDCoCgAGSOAKAASAMICwgDCoChAGSOAKEASAMICwgDCoCiAGSOAKIASAMICwgDCoCjAGSOAKMASAMICwgDCoCkAGSOAKQASAMICwgDCoClAGSOAKUASAMICwgDCoCmAGSOAKYASAMICwgDCoCnAGSOAKcASAMICwgDCoCoAGSOAKgASAMICwgDCoCpAGSOAKkASAMICwgDCoCqAGSOAKoASAMICwgDCoCrAGSOAKsASAMICwgDCoCsAGSOAKwASAMICwgDCoCtAGSOAK0ASAMICwgDCoCuAGSOAK4ASAMICwgDCoCvAGSOAK8ASAMICwgDCoCwAGSOALAASAMICwgDCoCxAGSOALEASAMICwgDCoCyAGSOALIASAMICwgDCoCzAGSOALMASAMICwgDCoC0AGSOALQASAMICwgDCoC1AGSOALUASAMICwgDCoC2AGSOALYASAMICwgDCoC3AGSOALcASAMICwgDCoC4AGSOALgASAMICwgDCoC5AGSOALkASAMICwgDCoC6AGSOALoASAMICwgDCoC7AGSOALsASAMICwgDCoC8AGSOALwASAMICwgDCoC9AGSOAL0ASAMICwgDCoC+AGSOAL4ASAMICwgDCoC/AGSOAL8ASAMICwgDCoCgAKSOAKAAiAMICwgDCoChAKSOAKEAiAMICwgDCoCiAKSOAKIAiAMICwgDCoCjAKSOAKMAiAMICwgDCoCkAKSOAKQAiAMICwgDCoClAKSOAKUAiAMICwgDCoCmAKSOAKYAiAMICwgDCoCnAKSOAKcAiAMICwgDCoCoAKSOAKgAiAMICwgDCoCpAKSOAKkAiAMICwgDCoCqAKSOAKoAiAMICwgDCoCrAKSOAKsAiAMICwgDCoCsAKSOAKwAiAMICwgDCoCtAKSOAK0AiAMICwgDCoCuAKSOAK4AiAMICwgDCoCvAKSOAK8AiAMICwgDCoCwAKSOALAAiAMICwgDCoCxAKSOALEAiAMICwgDCoCyAKSOALIAiAMICwgDCoCzAKSOALMAiAMICwgDCoC0AKSOALQAiAMICwgDCoC1AKSOALUAiAMICwgDCoC2AKSOALYAgJAIAdBAUgNACAMQcADaiETA0ACQAJAIBMoAgAiCA0AQdQARQ0BIAJBAEHUAPwLAAwBCyACIAIqAgAgCEHUAGwgDEHgAGpqQax/aiIIKgIAkzgCACACQQRqIgsgCyoCACAIKgIEkzgCACACQQhqIgsgCyoCACAIKgIIkzgCACACQQxqIgsgCyoCACAIKgIMkzgCACACQRBqIgsgCyoCACAIKgIQkzgCACACQRRqIgsgCyoCACAIKgIUkzgCACACQRhqIgsgCyoCACAIKgIYkzgCACACQRxqIgsgCyoCACAIKgIckzgCACACQSBqIgsgCyoCACAIKgIgkzgCACACQSRqIgsgCyoCACAIKgIkkzgCACACQShqIgsgCyoCACAIKgIokzgCACACQSxqIgsgCyoCACAIKgIskzgCACACQTBqIgsgCyoCACAIKgIwkzgCACACQTRqIgsgCyoCACAIKgI0kzgCACACQThqIgsgCyoCACAIKgI4kzgCACACQTxqIgsgCyoCACAIKgI8kzgCACACQcAAaiILIAsqAgAgCCoCQJM4AgAgAkHEAGoiCyALKgIAIAgqAkSTOAIAIAJByABqIgsgCyoCACAIKgJIkzgCACACQcwAaiILIAsqAgAgCCoCTJM4AgAgAkHQAGoiCyALKgIAIAgqAlCTOAIACyATQQRqIRMgAkHUAGohAiAHQX9qIgcNAAsLIAxB4ANqJICAgIAAC/cGAQR/I4CAgIAAQSBrIggkgICAgABBfyEJAkAgAkGAfmpBgX5JDQAgBEEASA0AIANBAUgNACAEIANKDQAgA0H/ASAEa0oNACAAIAQ2AgggACADNgIEIAAgAjYCAEEAIQkgAEEANgKMAgJAIAdBAUYNACAAQX82ApACCyAAQYgnNgKYAiAAIAY2ApQCIABBmHg2AqACIAJBA3EhCgJAIAJBf2pBA0kNACACQfwBcSELQQAhCQNAIAAgCWoiBEEMaiAFIAlqIgMtAAA6AAAgBEENaiADQQFqLQAAOgAAIARBDmogA0ECai0AADoAACAEQQ9qIANBA2otAAA6AAAgCyAJQQRqIglHDQALCwJAIApFDQAgBSAJaiEEIAkgAGpBDGohCQNAIAkgBC0AADoAACAEQQFqIQQgCUEBaiEJIApBf2oiCg0ACwsCQCAAEP2BgIAADQBBfyEJDAELAkACQCAHQQFHDQAgACgCBEEBSA0BQQAhBANAAkACQCAEIAAoAghODQBBfyEJIAAgBEF/EP6BgIAAQX9GDQVBfyEJIAAgBEF/EP+BgIAAQX9HDQEMBQtBfyEJIAAgBEF/EICCgIAAQX9GDQQLIARBAWoiBCAAKAIESA0ACwsgB0ECRw0AAkAgACgCACIEQZx+akGdfk8NAEF/IQkMAgsgBCAEELyBgIAAIgkgCWwiA0YNAEF/IQkgBCADa0ECRw0BCyAAQaQCaiEEQQIQ5oGAgAAhCUEBEOaBgIAAIQUCQAJAIAAoAghBAU4NAEEAIQMMAQsgCUEDakF8cSEKQQAhAwNAIAQgAUECIAYQ54GAgAAiCQ0CAkAgAyAAKAKQAkcNACAIQQE2AhAgBEGozgAgCEEQahD7gYCAABoLIAQgCmohBCADQQFqIgMgACgCCEgNAAsLAkAgAyAAKAIETg0AIAVBA2pBfHEhCgNAIAQgAUEBIAYQ54GAgAAhCQJAIAMgACgCkAJHDQAgCEEBNgIAIARBqM4AIAgQ+4GAgAAaCyAJDQIgBCAKaiEEIANBAWoiAyAAKAIESA0ACwsCQCAHQQFHDQAgABCDgoCAACEJAkAgAkECdCIERQ0AIAlBACAE/AsACyAAEISCgIAAIQkgAkHgA2wiBEUNACAJQQAgBPwLAAsgACAHNgKcAkEAIQkLIAhBIGokgICAgAAgCQv4AQEHfyAAQaQCaiEBQQIQ5oGAgAAhAkEBEOaBgIAAIQMCQCAAKAIEIgRBAUgNACAEQQNxIQUgACgCCCEGAkACQCAEQQRPDQBBACEEDAELIARB/P///wdxIQdBACEEA0AgASACIAMgBCAGSBtBA2pBfHFqIAIgAyAEQQFqIAZIG0EDakF8cWogAiADIARBAmogBkgbQQNqQXxxaiACIAMgBEEDaiAGSBtBA2pBfHFqIQEgBEEEaiIEIAdHDQALCyAFRQ0AA0AgASACIAMgBCAGSBtBA2pBfHFqIQEgBEEBaiEEIAVBf2oiBQ0ACwsgASAAKAIAQeADbGoL7gEBBn8gAEGkAmohAUECEOaBgIAAIQJBARDmgYCAACEDAkAgACgCBCIEQQFIDQAgBEEDcSEFIAAoAgghBgJAAkAgBEEETw0AQQAhAAwBCyAEQfz///8HcSEEQQAhAANAIAEgAiADIAAgBkgbQQNqQXxxaiACIAMgAEEBaiAGSBtBA2pBfHFqIAIgAyAAQQJqIAZIG0EDakF8cWogAiADIABBA2ogBkgbQQNqQXxxaiEBIABBBGoiACAERw0ACwsgBUUNAANAIAEgAiADIAAgBkgbQQNqQXxxaiEBIABBAWohACAFQX9qIgUNAAsLIAEL0QEBAn8CQAJAAkACQCABQYB+akGBfkkNACADQQBIDQAgAkEBSA0AIAIgA0gNACACQf8BIANrTA0BC0EAIQcgBkUNAkF/IQMMAQsCQEECEOaBgIAAQQNqQXxxIANsQQEQ5oGAgABBA2pBfHEgAiADa2xqQaQCahCkgoCAACIIDQBBACEHIAZFDQJBeSEDDAELQQAhBwJAAkAgCCAAIAEgAiADIAQgBUEAEIKCgIAAIgMNACAIIQcMAQsgCBCngoCAAAsgBkUNAQsgBiADNgIACyAHC/AZARZ/I4CAgIAAQaDJAGsiCiELIAokgICAgABBACEMQQAhDQJAIAAoApwCQQFHDQBBAhDmgYCAACEOQQEQ5oGAgAAhDyAAQaQCaiINIRACQCAAKAIEIhFBAUgNACARQQNxIRIgACgCCCETAkACQCARQQRPDQBBACERIA0hEAwBCyARQfz///8HcSEMQQAhESANIRADQCAQIA4gDyARIBNIG0EDakF8cWogDiAPIBFBAWogE0gbQQNqQXxxaiAOIA8gEUECaiATSBtBA2pBfHFqIA4gDyARQQNqIBNIG0EDakF8cWohECARQQRqIhEgDEcNAAsLIBJFDQADQCAQIA4gDyARIBNIG0EDakF8cWohECARQQFqIREgEkF/aiISDQALCyAQIAAoAgBB4ANsaiEMQQIQ5oGAgAAhDkEBEOaBgIAAIQ8gACgCBCIRQQFIDQAgEUEDcSEQIAAoAgghEwJAAkAgEUEETw0AQQAhEQwBCyARQfz///8HcSESQQAhEQNAIA0gDiAPIBEgE0gbQQNqQXxxaiAOIA8gEUEBaiATSBtBA2pBfHFqIA4gDyARQQJqIBNIG0EDakF8cWogDiAPIBFBA2ogE0gbQQNqQXxxaiENIBFBBGoiESASRw0ACwsgEEUNAANAIA0gDiAPIBEgE0gbQQNqQXxxaiENIBFBAWohESAQQX9qIhANAAsLIAsgC0GcyQBqNgKgASAAQaQCaiISQb0fIAtBoAFqEPuBgIAAGiALIAtB8ApqNgKQASASQacfIAtBkAFqEPuBgIAAGiALIAtB7ApqNgKAASASQZ/OACALQYABahD7gYCAABoCQAJAIAMgACgCmAIgCygCnEkQ64GAgAAiEEEBTg0AQX8hDgwBCwJAIAUgACgCBCIRQQF0IBFBACALKAKcSSAQbUEKRhtqQX9qIhRODQBBfiEODAELIAogEEEDdEEPakFwcWsiFSIRJICAgIAAQQIQ5oGAgAAhFkEBEOaBgIAAIRcgESAAKAIAIg5B1ABsQQ9qQXBxayIYJICAgIAAAkAgACgCnAJBAUcNACALKALsCiACIBggDSAMIBBB+AAgDiALKAKcSSABIAAoAowCEIGCgIAACyALIAtBoA1qNgJwIBJBvR8gC0HwAGoQ+4GAgAAaAkACQAJAAkAgACgCnAJBAkcNACAAKAIIIAAoAgQiDWohDgJAAkAgACgCoAIiGUF/Rg0AIBkhESAZQZh4Rw0BIAsoAqANIhFBPGwgEG0gEWogDmwgDUGY9QBsaiERDAELIA5BgMQTbCERCyARIA1tIQ4gDUEBSA0CIA1BB3EhD0EAIRMCQCANQQhJDQAgDUH4////B3EhDEEAIRMgC0HgAmohEQNAIBEgDjYCACARQRxqIA42AgAgEUEYaiAONgIAIBFBFGogDjYCACARQRBqIA42AgAgEUEMaiAONgIAIBFBCGogDjYCACARQQRqIA42AgAgEUEgaiERIAwgE0EIaiITRw0ACwsgD0UNASALQeACaiATQQJ0aiERA0AgESAONgIAIBFBBGohESAPQX9qIg8NAAwCCwsgCygCoA0iGiAQbSIRQTIgEUEyShsiG0EobCEMQX9BACAAKAKQAiIKQX9HIhwbIAAoAggiD2sgACgCBCINaiIdIA9BAXRqIRMCQAJAIAAoAqACIhlBf0YNACAZIQ4gGUGYeEcNASAaIAxqQZDOAGogE2xBwD5BACAKQX9HG2ohDgwBCyATQeCnEmxBgOgHQQAgHBtqIQ4LIA1BAUgNAUEAIREgDiATIAxsIA5BFG1BuBcgDkHg1ANIGyAbQQ9saiIaQQAgCkF/RyIeG2prIh8gE21BAm0iDkEAIA5BAEobIg5BoJwBIA5BoJwBSBsiDiAOIBwgDWtsIB9qrEIIhiAdQQh0IA9BCXRqQSBBACAeG3Ksf6ciHWoiE0EAIBNBAEobIAxqIRwgDiAdQQF0aiIOQQAgDkEAShsgG0HQAGxqIRMgHUEDdSAaaiIOQQAgDkEAShshGyANQQFxIRoCQCANQQFGDQAgCkF/aiEdIA1B/v///wdxIQxBACERIAtB4AJqIQ4DQAJAAkAgESAPTg0AIA4gEzYCAAwBCwJAIAogEUYNACAOIBw2AgAMAQsgDiAbNgIACwJAAkAgEUEBaiAPSA0AAkAgHSARRg0AIA5BBGogHDYCAAwCCyAOQQRqIBs2AgAMAQsgDkEEaiATNgIACyAOQQhqIQ4gDCARQQJqIhFHDQALCyAaRQ0AAkAgESAPSA0AIAtB4AJqIBFBAnRqIQ4CQCARIApGDQAgDiAcNgIADAILIA4gGzYCAAwBCyALQeACaiARQQJ0aiATNgIACyANQQEgDUEBShsiEUEDcSEPAkACQCANQQRODQBBACETQQAhDgwBCyARQfz///8HcSEbQQAhEyALQeACaiERQQAhDgNAIBEgESgCACINQfQDIA1B9ANKGyINNgIAIBFBBGoiDCAMKAIAIgxB9AMgDEH0A0obIgw2AgAgEUEIaiIKIAooAgAiCkH0AyAKQfQDShsiCjYCACARQQxqIhwgHCgCACIcQfQDIBxB9ANKGyIcNgIAIBwgCiAMIA0gDmpqamohDiARQRBqIREgGyATQQRqIhNHDQALCwJAIA9FDQAgC0HgAmogE0ECdGohEQNAIBEgESgCACITQfQDIBNB9ANKGyITNgIAIBFBBGohESATIA5qIQ4gD0F/aiIPDQALCyAOQQNsIQ5BASERDAELQQAhEUEAIQ4LAkAgCygC8AoNACAZQX9GDQACQCAZQZh4Rw0AIAUgDiALKAKcSUEYbCAQbW0iDiAFIA5IGyEFDAELIAUgFCAZQQNsIAsoApxJQRhsIBBtbSIOIBQgDkobIg4gBSAOSBshBQsCQCARDQBBACEODAELIBBBMmwhHEEAIQ4gC0HgAmohDyASIREDQCAAKAIIIRMgCyAPKAIANgJgIBFBoh8gC0HgAGoQ+4GAgAAaIBYgFyAOIBNIG0EDakF8cSETAkACQAJAIAAoApwCQX9qDgIAAQILIAAoAgAhDCAAKAKgAiENAkAgHCALKAKcSSIKTg0AIAogEG5BRGxBuBdqIAxsIA1qIQ0LAkACQCANIAxBkM4AbEwNAEHRCCENDAELAkAgDSAMQdg2bEwNAEHQCCENDAELQc8IQc0IIA0gDEGIJ2xKGyENCyALIA02AkAgEUGoHyALQcAAahD7gYCAABogDiAAKAIITg0BIAtB6gc2AjAgEUH61QAgC0EwahD7gYCAABogC0ECNgIgIBFBth8gC0EgahD7gYCAABoMAQsgC0HqBzYCUCARQfrVACALQdAAahD7gYCAABoLIBEgE2ohESAPQQRqIQ8gDkEBaiIOIAAoAgQiE0gNAAsCQCATQQFODQBBACEODAELIBVBBGohGSAWQQNqQXxxIR0gF0EDakF8cSEUIAtBsAFqQdQAaiEaQX8hDUEAIRFBACEOA0AgC0H0CmoQloKAgAAaAkACQAJAIBEgACgCCE4NACAAIBFBfxD+gYCAACEPIAAgEUF/EP+BgIAAIQwgFUECIAIgACgCACAPIBAgCSABEYCAgIAAgICAgAAgGUECIAIgACgCACAMIBAgCSABEYCAgIAAgICAgAACQCAAKAKcAkEBRg0AIB0hHAwDCwJAQdQARSITDQAgC0GwAWogGCAPQdQAbGpB1AD8CgAACwJAIBNFDQAgHSEcDAILIBogGCAMQdQAbGpB1AD8CgAAIB0hHAwBC0F/IQwgACARQX8QgIKAgAAhDyAVQQEgAiAAKAIAIA8gECAJIAERgICAgACAgICAAAJAIAAoApwCQQFGDQAgFCEcDAILAkBB1ABFDQAgC0GwAWogGCAPQdQAbGpB1AD8CgAAC0F/IQwgFCEcCyALIAtBsAFqNgIQIBJBqs4AIAtBEGoQ+4GAgAAaC0F+QX8gBSAOayIWIA0gACgCBCIKaiITQQAgCygCnEkiFyAQbUEKRhtrQQEgE0EBdGtBACATQQBKG2oiE0H9AUobQQAgESAKQX9qRyIKGyATQe47IBNB7jtIGyIbaiETAkAgCygC8AoNACAKDQAgCyAXQQN0IBBtIBtsNgIAIBJBoh8gCxD7gYCAABoLAkAgEiAVIBAgC0GgDWogEyAGIAIgAyAPIAwgACgCACAHIAgQ7oGAgAAiD0EATg0AIA8hDgwCCwJAIAtB9ApqIAtBoA1qIA8Ql4KAgABFDQBBfSEODAILIBIgHGohEiALQfQKakEAIAtB9ApqEJmCgIAAIAQgFiARIAAoAgRBf2oiD0cgCygC8ApFIBEgD0ZxEJqCgIAAIg8gDmohDiAEIA9qIQQgDUF/aiENIBFBAWoiESAAKAIESA0ACwsgC0GgyQBqJICAgIAAIA4LJAAgAEGDgICAACABIAIgAyAEQRhBgoCAgABBAUEAEIaCgIAAC6YCAQx/AkAgBUEBSA0AIAVBA3EhB0EAIQgCQCAFQQRJDQAgAiAEQQJ0aiEJIAFBAnQhCiADQQJ0IQsgAUEDdCEMIANBA3QhDSABQQR0IQ4gAUEMbCEPIANBBHQhECADQQxsIREgBUH8////B3EhEkEAIQggACEFA0AgBSAJKgIAOAIAIAUgCmogCSALaioCADgCACAFIAxqIAkgDWoqAgA4AgAgBSAPaiAJIBFqKgIAOAIAIAUgDmohBSAJIBBqIQkgEiAIQQRqIghHDQALCyAHRQ0AIAIgCCADbEECdCAEQQJ0amohCSADQQJ0IQogAUECdCELIAAgCCABbEECdGohBQNAIAUgCSoCADgCACAJIApqIQkgBSALaiEFIAdBf2oiBw0ACwsLJAAgAEGEgICAACABIAIgAyAEQRBBgYCAgABBAEEAEIaCgIAAC80BAQd/AkAgBUEBSA0AIAIgBEEBdGohByAFQQFxIQhBACECAkAgBUEBRg0AIAFBA3QhCSABQQJ0IQogA0ECdCELIANBAXQhDCAFQf7///8HcSENQQAhAiAAIQUgByEEA0AgBSAELgEAskMAAAA4lDgCACAFIApqIAQgDGouAQCyQwAAADiUOAIAIAUgCWohBSAEIAtqIQQgDSACQQJqIgJHDQALCyAIRQ0AIAAgAiABbEECdGogByACIANsQQF0ai4BALJDAAAAOJQ4AgALC44JAQd/I4CAgIAAQcAAayIDJICAgIAAIABBpAJqIQRBeyEFQQIQ5oGAgAAhBkEBEOaBgIAAIQcCQAJAAkACQAJAAkACQAJAAkACQAJAIAFB4GBqDjAFAwECBQoFAwUDBQMFAwUDBQMKCgUDBQMFAwoDCQMKBAoKCgoFAwoKBwgFAwoKBQMACyABQYaqf2oOEgQJCQkJCQkJCQkJCQkJCQkJAgULAkAgAigCACIEQZh4Rg0AQX8hBSAEQX9GDQAgBEEBSA0JIAAoAgAiAkHgpxJsIgggAkH0A2wiAiAEIAIgBEobIgQgCCAESBshBAsgACAENgKgAkEAIQUMCAsCQCACKAIAIggNAEF/IQUMCAtBACEFIAhBADYCACAAKAIEQQFIDQdBACEFQQAhAgNAIAAoAgghASADIANBPGo2AgAgBEGjHyADEPuBgIAAGiAIIAgoAgAgAygCPGo2AgAgBCAGIAcgAiABSBtBA2pBfHFqIQQgAkEBaiICIAAoAgRIDQAMCAsLIAMgAigCADYCECAEIAEgA0EQahD7gYCAACEFDAYLAkAgAigCACIIRQ0AQQAhBSAIQQA2AgAgACgCBEEBSA0GQQAhAgNAIAAoAgghASADIANBPGo2AiAgBEG/HyADQSBqEPuBgIAAIgUNByAIIAgoAgAgAygCPHM2AgAgBCAGIAcgAiABSBtBA2pBfHFqIQQgAkEBaiICIAAoAgRIDQALQQAhBQwGC0F/IQUMBQsCQCAAKAIEQQFODQBBACEFDAULIAIoAgAhCUEAIQIDQCAAKAIIIQggAyAJNgIwIAQgASADQTBqEPuBgIAAIgUNBSAEIAYgByACIAhIG0EDakF8cWohBCACQQFqIgIgACgCBEgNAAtBACEFDAQLIAFBgChHDQNBfyEFIAIoAgAiAUEASA0DIAEgACgCBE4NAyACKAIEIglFDQMCQCABRQ0AIAFBA3EhCCAAKAIIIQICQAJAIAFBBE8NAEEAIQAMAQsgAUH8////B3EhBUEAIQADQCAEIAYgByAAIAJIG0EDakF8cWogBiAHIABBAWogAkgbQQNqQXxxaiAGIAcgAEECaiACSBtBA2pBfHFqIAYgByAAQQNqIAJIG0EDakF8cWohBCAAQQRqIgAgBUcNAAsLIAhFDQADQCAEIAYgByAAIAJIG0EDakF8cWohBCAAQQFqIQAgCEF/aiIIDQALCyAJIAQ2AgBBACEFDAMLIAAgAigCADYCmAJBACEFDAILAkAgAigCACIEDQBBfyEFDAILIAQgACgCmAI2AgBBACEFDAELAkAgACgCnAJBAUcNACAAEIOCgIAAIQICQCAAKAIAQQJ0IghFDQAgAkEAIAj8CwALIAAQhIKAgAAhAiAAKAIAQeADbCIIRQ0AIAJBACAI/AsACwJAIAAoAgRBAU4NAEEAIQUMAQtBACECA0AgACgCCCEIIARBvB9BABD7gYCAACIFDQEgBCAGIAcgAiAISBtBA2pBfHFqIQRBACEFIAJBAWoiAiAAKAIESA0ACwsgA0HAAGokgICAgAAgBQs3AQF/I4CAgIAAQRBrIgMkgICAgAAgAyACNgIMIAAgASACEIuCgIAAIQIgA0EQaiSAgICAACACCwoAIAAQp4KAgAALxAMBAn9BfyEGAkAgAkGAfmpBgX5JDQAgBEEASA0AIANBAUgNACAEIANKDQAgA0H/ASAEa0oNACAAIAQ2AgggACADNgIEIAAgAjYCACACQQNxIQNBACEEAkAgAkF/akEDSQ0AIAJB/AFxIQdBACEEA0AgACAEaiICQQxqIAUgBGoiBi0AADoAACACQQ1qIAZBAWotAAA6AAAgAkEOaiAGQQJqLQAAOgAAIAJBD2ogBkEDai0AADoAACAHIARBBGoiBEcNAAsLAkAgA0UNACAFIARqIQIgBCAAakEMaiEEA0AgBCACLQAAOgAAIAJBAWohAiAEQQFqIQQgA0F/aiIDDQALCwJAIAAQ/YGAgAANAEF/IQYMAQsgAEGMAmohBEECENuBgIAAIQJBARDbgYCAACEFAkACQCAAKAIIQQFODQBBACECDAELIAJBA2pBfHEhA0EAIQIDQCAEIAFBAhDcgYCAACIGDQIgBCADaiEEIAJBAWoiAiAAKAIISA0ACwsCQCACIAAoAgRODQAgBUEDakF8cSEDA0AgBCABQQEQ3IGAgAAiBg0CIAQgA2ohBCACQQFqIgIgACgCBEgNAAsLQQAPCyAGC8wBAQF/AkACQAJAIAFBgH5qQYF+SQ0AIANBAEgNACACQQFIDQAgAiADSA0AIAJB/wEgA2tMDQELQQAhBiAFRQ0BIAVBfzYCAEEADwsCQEECENuBgIAAQQNqQXxxIANsQQEQ24GAgABBA2pBfHEgAiADa2xqQYwCahCkgoCAACIGDQBBACEGIAVFDQEgBUF5NgIAQQAPCyAGIAAgASACIAMgBBCOgoCAACEDAkAgBUUNACAFIAM2AgALIANFDQAgBhCngoCAAEEAIQYLIAYLvwcBC38jgICAgABBgAFrIgkhCiAJJICAgIAAQX8hCwJAIAVBAUgNACAKIApBCGo2AgACQCAAQb0fIAoQkYKAgABFDQBBfSELDAELIAkgBSAKKAIIQRltQQNsIgwgBSAMSBsiBUEDdEEPakFwcWsiDCSAgICAAEECENuBgIAAIQ1BARDbgYCAACEOIAJBAEgNAAJAIAJFDQACQCACIAAoAgQiCUEBdEF/ak4NAEF8IQsMAgtBACEPAkAgCUEATA0AIAooAgghECABIAIgCUF/aiIRQQBHIApB/wBqQQAgCkEQakEAIApBDGoQ2oGAgAAiC0EASA0CIAEgCigCDCAQEOWBgIAAIQ8CQCAJQQFGDQAgASAKKAIMIgtqIRIgAiALayEJA0BBfCELIAlBAUgNBCASIAkgEUEBRyAKQf8AakEAIApBEGpBACAKQQxqENqBgIAAIgtBAEgNBEF8IQsgDyASIAooAgwgEBDlgYCAAEcNBCAJIAooAgwiC2shCSASIAtqIRIgEUF/aiIRDQALCyAPIQsgD0EASA0CCyAPIAVMDQBBfiELDAELAkAgACgCBCIJQQFIDQAgAEGMAmohDyAMQQRqIRIgAiERQQAhCwNAIAAoAgghEAJAIAJFDQAgEUEBTg0AQX0hCwwDCyAKQQA2AhACQCAPIAEgESAMIAUgBiALIAlBf2pHIApBEGogBxDegYCAACIFQQFODQAgBSELDAMLIA0gDiALIBBIG0EDakF8cSETIAooAhBBACACGyEQAkACQCALIAAoAghIDQAgACALQX8QgIKAgAAiCUF/Rg0BA0AgAyAAKAIAIAkgDEEBIAUgCCAEEYCAgIAAgICAgAAgACALIAkQgIKAgAAiCUF/Rw0ADAILCwJAIAAgC0F/EP6BgIAAIglBf0YNAANAIAMgACgCACAJIAxBAiAFIAggBBGAgICAAICAgIAAIAAgCyAJEP6BgIAAIglBf0cNAAsLIAAgC0F/EP+BgIAAIglBf0YNAANAIAMgACgCACAJIBJBAiAFIAggBBGAgICAAICAgIAAIAAgCyAJEP+BgIAAIglBf0cNAAsLIA8gE2ohDyABIBBqIQEgESAQayERIAtBAWoiCyAAKAIEIglIDQALCwJAIAAoAgAiCUEBSA0AQQAhCwNAAkAgACALakEMai0AAEH/AUcNACADIAkgC0EAQQAgBSAIIAQRgICAgACAgICAACAAKAIAIQkLIAtBAWoiCyAJSA0ACwsgBSELCyAKQYABaiSAgICAACALCzcBAX8jgICAgABBEGsiAySAgICAACADIAI2AgwgACABIAIQkoKAgAAhAiADQRBqJICAgIAAIAIL2QUBB38jgICAgABBMGsiAySAgICAACAAQYwCaiEEQXshBUECENuBgIAAIQZBARDbgYCAACEHAkACQAJAAkACQAJAAkAgAUHXYGoOJwEGBgYGBgYGBgYGBgYGBgYGBgYAAQYCBgYEBgYGBgEGBgYGBgEEAQMLIAAoAgRBAUgNBEEAIQIDQCAAKAIIIQEgBEG8H0EAEOKBgIAAIgUNBiAEIAYgByACIAFIG0EDakF8cWohBEEAIQUgAkEBaiICIAAoAgRIDQAMBgsLIAMgAigCADYCACAEIAEgAxDigYCAACEFDAQLAkAgAigCACIBRQ0AQQAhBSABQQA2AgAgACgCBEEBSA0EQQAhAgNAIAAoAgghCCADIANBLGo2AhAgBEG/HyADQRBqEOKBgIAAIgUNBSABIAEoAgAgAygCLHM2AgAgBCAGIAcgAiAISBtBA2pBfHFqIQQgAkEBaiICIAAoAgRIDQAMBAsLQX8hBQwDCyABQYIoRw0CQX8hBSACKAIAIgFBAEgNAiABIAAoAgRODQIgAigCBCIIRQ0CAkAgAUUNACABQQNxIQIgACgCCCEFAkACQCABQQRPDQBBACEADAELIAFB/P///wdxIQFBACEAA0AgBCAGIAcgACAFSBtBA2pBfHFqIAYgByAAQQFqIAVIG0EDakF8cWogBiAHIABBAmogBUgbQQNqQXxxaiAGIAcgAEEDaiAFSBtBA2pBfHFqIQQgAEEEaiIAIAFHDQALCyACRQ0AA0AgBCAGIAcgACAFSBtBA2pBfHFqIQQgAEEBaiEAIAJBf2oiAg0ACwsgCCAENgIADAELIAAoAgRBAUgNACACKAIAIQlBACECA0AgACgCCCEIIAMgCTYCICAEIAEgA0EgahDigYCAACIFDQIgBCAGIAcgAiAISBtBA2pBfHFqIQQgAkEBaiICIAAoAgRIDQALC0EAIQULIANBMGokgICAgAAgBQseACAAIAEgAiADQYWAgIAAIAQgBUEAQQAQkIKAgAAL6wMBDH8gACACQQJ0aiEHAkACQCADRQ0AIAVBAUgNASAFQQNxIQhBACEJAkAgBUEESQ0AIAFBAnQhCiAEQQJ0IQsgAUEDdCEMIARBA3QhDSABQQR0IQ4gAUEMbCEPIARBBHQhECAEQQxsIREgBUH8////B3EhBUEAIQkgAyESA0AgByASKgIAOAIAIAcgCmogEiALaioCADgCACAHIAxqIBIgDWoqAgA4AgAgByAPaiASIBFqKgIAOAIAIAcgDmohByASIBBqIRIgBSAJQQRqIglHDQALCyAIRQ0BIAAgCSABbEECdCACQQJ0amohByAEQQJ0IQogAUECdCELIAMgCSAEbEECdGohEgNAIAcgEioCADgCACASIApqIRIgByALaiEHIAhBf2oiCA0ADAILCyAFQQFIDQAgBUEDcSESQQAhCAJAIAVBBEkNACABQQJ0IQkgAUEDdCEKIAFBBHQhCyABQQxsIQwgBUH8////B3EhDUEAIQgDQCAHQQA2AgAgByAJakEANgIAIAcgCmpBADYCACAHIAxqQQA2AgAgByALaiEHIA0gCEEEaiIIRw0ACwsgEkUNACAAIAggAWxBAnQgAkECdGpqIQcgAUECdCEIA0AgB0EANgIAIAcgCGohByASQX9qIhINAAsLCwoAIAAQp4KAgAALCwAgAEEANgIEIAALEAAgACABIAJBABCYgoCAAAvWAQEEfyOAgICAAEEQayIEJICAgIAAQXwhBQJAIAJBAUgNAAJAAkAgACgCBA0AIAAgAS0AADoAACAAIAFBwD4Q2YGAgAA2AqgCDAELIAEtAAAgAC0AAHNBA0sNAQsgASACEOSBgIAAIgZBAUgNACAAKAIEIgcgBmogACgCqAJsQcAHSg0AIAEgAiADIARBD2ogACAHQQJ0akEIaiAAIAdBAXRqQcgBakEAQQAQ2oGAgAAiBUEBSA0AIAAgACgCBCAGajYCBEEAIQULIARBEGokgICAgAAgBQsHACAAKAIEC78KAQp/QX8hBwJAIAFBAEgNACACIAFMDQAgAiAAKAIESg0AIAFBAXQhCCAAQcgBaiEJIAIgAWshCgJAAkAgBQ0AQQAhBwwBC0ECQQEgCSACQQF0akF+ai4BAEH7AUobIQcLIAkgCGohCwJAAkACQAJAAkACQCAKQX9qDgIAAQILAkAgByALLgEAakEBaiIHIARMDQBBfg8LIAMgAC0AAEH8AXE6AAAgA0EBaiEIDAILIAsvAQAiDMEhCAJAIAsvAQIiDSAMRw0AAkAgByAIQQF0akEBaiIHIARMDQBBfg8LIAMgAC0AAEH8AXFBAXI6AAAgA0EBaiEIDAILAkAgByANwWogCGogCEH7AUpqQQJqIgcgBEwNAEF+DwsgAyAALQAAQfwBcUECcjoAACADQQFqIQggCCALLgEAIAgQ2IGAgABqIQgMAQsgAyEIIApBAkoNAQsgBkUNASAHIARODQELQQIhDAJAIAVFDQBBBEEDIAkgAkEBdGpBfmouAQBB+wFKGyEMCyALLgEAIQ4CQAJAIApBAkgNACABQX9zIAJqIQcgAUEBdCAAakHKAWohCCAOQf//A3EhDQJAA0AgCC8BACANRw0BIAhBAmohCCAHQX9qIgdFDQIMAAsLIApBf2oiD0EDcSEHAkACQCAKQX5qQQNPDQBBACENDAELIAtBBmohCCAPQXxxIRBBACENA0AgDCAIQXpqLgEAIg5qQQJBASAOQfsBShtqIAhBfGouAQAiDGpBAkEBIAxB+wFKG2ogCEF+ai4BACIMakECQQEgDEH7AUobaiAILgEAIgxqQQJBASAMQfsBShtqIQwgCEEIaiEIIBAgDUEEaiINRw0ACwsCQCAHRQ0AIA1BAXQgAUEBdGogAGpByAFqIQgDQCAMIAguAQAiDWpBAkEBIA1B+wFKG2ohDCAIQQJqIQggB0F/aiIHDQALCwJAIAwgCyAPQQF0ai4BAGoiByAETA0AQX4PCyAALQAAIQggAyAKQYB/ciINOgABIAMgCEEDcjoAAEEAIQwMAQsCQCAMIAogDmxqIgcgBEwNAEF+DwsgAC0AACEIIAMgCjoAASADIAhBA3I6AABBASEMIAohDQsgA0ECaiEIAkAgBkUNACAEIAdGDQAgAyANQcAAcjoAASAEIAdrIgdBf2pB/wFtIQ0CQCAHQYACSA0AAkAgDUEBIA1BAUobIg5FDQAgCEH/ASAO/AsACyADIA5qQQJqIQgLIAggDSAHakF/ajoAACAIQQFqIQggBCEHCyAMIApBAkhyDQAgAUF/cyACaiENIAshDANAIAggDC4BACAIENiBgIAAaiEIIAxBAmohDCANQX9qIg0NAAsLAkAgBUUNACAIIAkgAkEBdGpBfmouAQAgCBDYgYCAAGohCAsCQCAKQQFIDQAgCkEBcSEOAkACQCACIAFBAWpHDQBBACENDAELIApB/v///wdxIQkgAUEBdCAAakHKAWohAiABQQJ0IABqQQxqIQxBACENA0ACQCACQX5qIgUuAQAiCkUNACAIIAxBfGooAgAgCvwKAAALIAggBS4BAGohCAJAIAIuAQAiBUUNACAIIAwoAgAgBfwKAAALIAxBCGohDCAIIAIuAQBqIQggAkEEaiECIAkgDUECaiINRw0ACwsgDkUNAAJAIAsgDUEBdGoiAi4BACIMRQ0AIAggACABQQJ0akEIaiANQQJ0aigCACAM/AoAAAsgCCACLgEAaiEICyAGRQ0AIAggAyAEaiICTw0AIAIgCGsiAkUNACAIQQAgAvwLAAsgBwukAQECfyOAgICAAEGwAmsiAySAgICAAEF/IQQCQCABQQFIDQBBACEEIAEgAkYNAEF/IQQgASACSg0AIANBADYCCCAAIAJqIAFrIQQCQCABRQ0AIAQgACAB/AoAAAsgA0EEaiAEIAFBABCYgoCAACIEDQAgA0EEakEAIAMoAgggACACQQBBARCagoCAACIBQR91IAFxIQQLIANBsAJqJICAgIAAIAQLKAAgACABNgIIIABBADYCAAJAQajtAEUNACAAQQxqQQBBqO0A/AsACwsaAAJAQajtAEUNACAAQQxqQQBBqO0A/AsACwuxDggGfwF+AX8BfQF/An0DfwV9IAAgACgCnDogAiAAKAIIIgNBkANtbWoiBDYCnDogACgCmDoiBSEGAkAgBEEISA0AIAAgBUEAIARBcWoiByAHIARLG0EHaiIHQQN2akEBaiIGNgKYOiAAIAQgB0F4cWtBeGo2Apw6CyAAKAKUOiEHAkAgBkHkAEgNACAAIAZBnH9qNgKYOgtBACEIIAEgAEG0O2oiBkHjACAFIAVBACAFQQFqIgQgBEHkAEYbIAcgBUYbIAIgA0EybUwbIgQgBCAHRmsiBCAEQQBIGyICQQZ0aiIEKQIAIgk3AgAgAUE4aiAEQThqKQIANwIAIAFBMGogBEEwaikCADcCACABQShqIARBKGopAgA3AgAgAUEgaiAEQSBqKQIANwIAIAFBGGogBEEYaikCADcCACABQRBqIARBEGopAgA3AgAgAUEIaiAEQQhqKQIANwIAAkAgCadFDQAgByAFayIEQQBIIQMgBEHkAGohCiABKgIEIQsCQAJAAkBBACACQQFqIgUgBUHkAEYbIgwgACgClDoiB0cNAEMAAIA/IQ0gCyEOQQAhDAwBCyABIAEoAiAiCCAGIAxBBnRqIg8oAiAiECAIIBBKGyIQNgIgIAsgDyoCBCINIAsgDV4bIQ5BASEPQQAhCCALIA2SIQsCQEEAIAxBAWoiDCAMQeQARhsiESAHRw0AQwAAAEAhDUEAIQwMAgsgASAQIAYgEUEGdGoiCCgCICIMIBAgDEobIg82AiAgDiAIKgIEIg0gDiANXhshDkEBIQxBACEIIAsgDZIhCwJAQQAgEUEBaiIQIBBB5ABGGyIQIAdHDQBDAABAQCENDAELIAEgDyAGIBBBBnRqIggoAiAiDCAPIAxKGzYCICAOIAgqAgQiDSAOIA1eGyEOIAsgDZIhC0EAIQxBASEIQwAAgEAhDQtBACEPCyAKIAQgAxshCgJAQeMAIAJBf2ogAkEBSBsiBCAHRg0AIAEgASgCICIDIABB1DtqIhEgBEEGdGooAgAiECADIBBKGzYCIEHjACAEQX9qIARBAUgbIgQgB0YNACABIAEoAiAiAyARIARBBnRqKAIAIhAgAyAQShs2AiBB4wAgBEF/aiAEQQFIGyIEIAdGDQAgASABKAIgIgMgESAEQQZ0aigCACIQIAMgEEobNgIgIAgNAEHjACAEQX9qIARBAUgbIgQgB0YNACABIAEoAiAiAyARIARBBnRqKAIAIgggAyAIShs2AiAgDA0AQeMAIARBf2ogBEEBSBsiBCAHRg0AIAEgASgCICIDIBEgBEEGdGooAgAiCCADIAhKGzYCICAPDQBB4wAgBEF/aiAEQQFIGyIEIAdGDQAgASABKAIgIgMgESAEQQZ0aigCACIEIAMgBEobNgIgCyABIAsgDZUiCyAOQ83MTL6SIg4gCyAOXhs4AgQgAiEDIAIhBAJAIApBEEgNAEGdf0EBIAJB4gBKGyACaiEEQaF/QQUgAkHeAEobIAJqIgNBAWohBQsgBiADQQZ0akEUaioCAEPNzMw9IAYgBEEGdGpBJGoqAgAiEiASQ83MzD1dGyILlCEOIABByDtqIQYCQAJAQQAgBSAFQeQARhsiBSAHRw0AQwAAgD8hDUMAAAAAIRMMAQsgAEHYO2ohA0MAAIA/IQ1DAAAAACETA0BBACAEQQFqIgQgBEHkAEYbIgQgB0YNASASIAMgBEEGdGoqAgAiFJMiFUMAACBBlCAOkiALlSIWIBMgFiATXhshEyAVQwAAIMGUIA6SIAuVIhUgDSAVIA1dGyENIAtDzczMPSAUIBRDzczMPV0bIhSSIQsgFCAGIAVBBnRqKgIAlCAOkiEOQQAgBUEBaiIFIAVB5ABGGyIFIAdHDQALCyABIA4gC5UiCzgCFCALIBMgCyATXhsiDkMAAIA/IA5DAACAP10bIRQgCyANIAsgDV0bIgtDAAAAACALQwAAAABeGyEVAkAgCkEJSg0AIBUhDSAUIRMCQCAAKAKMOiIEQQJIDQAgBEEQIARBEEgbQX9qIgVBAXEhBwJAAkAgBEECRw0AIBQhEyAVIQ0MAQsgBUF+cSEFIBQhEyAVIQ0DQCATIAZB4wAgAkF/aiACQQFIGyIEQQZ0aioCACILIBMgC14bIhMgBkHjACAEQX9qIARBAUgbIgJBBnRqKgIAIg4gEyAOXhshEyANIAsgDSALXRsiCyAOIAsgDl0bIQ0gBUF+aiIFDQALCyAHRQ0AIBMgBkHAMSACQQZ0QUBqIAJBAUgbaioCACILIBMgC14bIRMgDSALIA0gC10bIQ0LIAqyQ83MzL2UQwAAgD+SIgtDAACAPyASQ83MzD2UIBOSIg4gDkMAAIA/XhsgFJOUIBSSIRQgC0MAAAAAIBJDzczMvZQgDZIiDiAOQwAAAABdGyAVk5QgFZIhFQsgASAUOAIcIAEgFTgCGAsLjwEBAn8CQCACRQ0AAkAgCEHfAGxBMm0iDCADQX5xIgMgDCADSBsiDSAAKAKQOiIMayIDQQFIDQAgCEEybSEIA0AgACABIAIgCCADIAMgCEobIAwgBSAGIAcgCSAKEKCCgIAAIAwgCGohDCADIAhrIgNBAEoNAAsLIAAgDSAEazYCkDoLIAAgCyAEEJ6CgIAAC5lFCAd/BH0IfwF9AX8IfQV/Fn0jgICAgABBwA1rIgohCyAKJICAgIAAAkAgACgCpDoNACAAQQE2AqQ6IABB8AE2AowtCyAAKAKMOiEMAkACQCAAKAIIIg1BgP0ARg0AIA1BgPcCRw0BIARBAm0hBCADQQJtIQMMAQsgBEEDbEECbSEEIANBA2xBAm0hAwsgASgCSCEOIAAgCSACIABBzBZqIg8gACgCjC0iAUECdGogAEGoO2oiECADQdAFIAFrIgEgAyABSBsgBCAFIAYgByANEKGCgIAAIAAqAqA6kiIROAKgOgJAAkAgACgCjC0gA2oiDUHPBUoNACAAIA02AowtDAELQwrXIz1DAACAPyAMQQFqspUiEiAMQRhKGyETQ83MzD0gEiAMQQlKGyEUIABBnX9BASAAKAKUOiIVQeIAShsgFWo2ApQ6IA9B0AVBASAIEO2BgIAAIRYgCkGAYmoiFyINJICAgIAAIA1BgGJqIhgiDSSAgICAACANQcB4aiIZIg0kgICAgAAgDUHAeGoiGiSAgICAAEGADyEKQQAhAUEAIRtBACENA0AgFyAbaiIcIA1BoOuBgABqKgIAIh0gACANaiIeQcwWaioCAJQ4AgAgHEEEaiAdIB5BjB5qKgIAlDgCACAXIApqIhxB+A5qIB0gACABaiIeQcglaioCAJQ4AgAgHEH8DmogHSAeQYgtaioCAJQ4AgAgAUF8aiEBIApBeGohCiAbQQhqIRsgDUEEaiINQcAHRw0ACwJAQcAHRQ0AIA8gAEHMJWpBwAf8CgAACyAJIAIgAEGMHmogECADIAAoAowtIg1qQbB6aiIKIAQgDWtB0AVqIAUgBiAHIAAoAggQoYKAgAAhHSAAIApB8AFqNgKMLSAAIB04AqA6IABBtDtqIg0gFUEGdGohAgJAIBZFDQAgAiANQeIAQX4gACgClDoiCkECSBsgCmpBBnRqIg0pAgA3AgAgAkEIaiANQQhqKQIANwIAIAJBEGogDUEQaikCADcCACACQRhqIA1BGGopAgA3AgAgAkE4aiANQThqKQIANwIAIAJBMGogDUEwaikCADcCACACQShqIA1BKGopAgA3AgAgAkEgaiANQSBqKQIANwIADAELIA4gFyAYELmBgIAAAkAgGCoCACIfIB9cDQAgGEEMaiEKIBhB/B1qIQEgGkEEaiEeIBlBBGohAyALQZADakEEciEEQQAhDQNAIAFBfGoqAgAiICAKQXxqKgIAIiGTIR0gCioCACIiIAEqAgAiI5IhJEMAAAAAISUCQCAhICCSIiYgJpQiICAiICOTIiEgIZQiIpJD75KTIV0NAAJAICAgIl1FDQBD2w/Jv0PbD8k/ICFDAAAAAF0bICEgJpQgIEMF+Nw+lCAikpQgIEMhsS0/lCAikiAgQ2UJsD2UICKSlJWTISUMAQtD2w/Jv0PbD8k/ICFDAAAAAF0bICYgIZQiISAiQwX43D6UICCSlCAiQyGxLT+UICCSICJDZQmwPZQgIJKUlZJD2w/Jv0PbD8k/ICFDAAAAAF0bkyElCyAlQ4P5Ij6UIiYgACANaiIbQRBqIhcqAgCTIiMgG0HQB2oiHCoCAJMhIEMAAAAAISUCQCAdIB2UIiEgJCAklCIikkPvkpMhXQ0AAkAgIiAhXUUNAEPbD8m/Q9sPyT8gHUMAAAAAXRsgHSAklCAiQwX43D6UICGSlCAiQyGxLT+UICGSICJDZQmwPZQgIZKUlZMhJQwBC0PbD8m/Q9sPyT8gHUMAAAAAXRsgHSAklCIdICFDBfjcPpQgIpKUICFDIbEtP5QgIpIgIUNlCbA9lCAikpSVkkPbD8m/Q9sPyT8gHUMAAAAAXRuTISULIBcgJUOD+SI+lCIdOAIAIBwgHSAmkyIdOAIAIB0gI5MiHRC7goCAACEXIB4gDWogICAgELuCgIAAspMiJIsgHSAXspMiHYuSOAIAIBtBkA9qIhsqAgAhICAbIB0gHZQiHSAdlCIdOAIAIAQgDWpDAACAPyAdQ9GFc0eUQwAAgD+SlUOPwnW8kjgCACADIA1qQwAAgD8gHSAdkiAgICQgJJQiHSAdlJKSQwAAgD6UQ9GFc0eUQwAAgD+SlUOPwnW8kjgCACAKQQhqIQogAUF4aiEBIA1BBGoiDUG8B0cNAAsgGUEIaiEBQQAhDSALKgKYAyEdA0AgASANaiIKIAoqAgAiICAdIAtBkANqIA1qIgpBBGoqAgAiISAKQQxqKgIAIiQgISAkXhsiISAdICFdG0PNzMy9kiIdICAgHV4bQ2ZmZj+UOAIAICQhHSANQQRqIg1BtAdHDQALQQAhHCACQQA2AhACQCAAKAKMOiIPDQAgAEL5hdSAld/AitAANwLgNiAAQvmF1ICd38CKUDcCqDcgAEL5hdSAnd/AilA3ArA3IABC+YXUgJXfwIrQADcC6DYgAEL5hdSAnd/AilA3Arg3IABC+YXUgJXfwIrQADcC8DYgAEL5hdSAnd/AilA3AsA3IABC+YXUgJXfwIrQADcC+DYgAEL5hdSAnd/AilA3Asg3IABC+YXUgJXfwIrQADcCgDcgAEL5hdSAld/AitAANwKINyAAQvmF1ICd38CKUDcC0DcgAEL5hdSAld/AitAANwKQNyAAQvmF1ICd38CKUDcC4DcgAEL5hdSAnd/AilA3Atg3IABC+YXUgJXfwIrQADcCmDcgAEH5hdSAfTYC6DcgAEH5hdSABTYCoDcgAEH5hdSAfTYC7DcgAEH5hdSABTYCpDcLIAsgHyAfkiIdIB2UIBgqAgQiHSAdkiIdIB2UkiAYKgL8HSIdIB2UIBgqAgwiHSAdlCAYKgIIIh0gHZQgGCoC+B0iHSAdlJKSkpIgGCoC9B0iHSAdlCAYKgIUIh0gHZQgGCoCECIdIB2UIBgqAvAdIh0gHZSSkpKSIBgqAuwdIh0gHZQgGCoCHCIdIB2UIBgqAhgiHSAdlCAYKgLoHSIdIB2UkpKSkkP/5tsukrsQuYKAgAC2QzuqOD+UIiM4AqACIBhBhB5qIScgAEHYMWohECAAQZAxaiEVIABByDBqIQ4gAEGAMGohFiAAQbgvaiEoIABB8C5qISkgAEGoLmohKiAAQZAtaiErIABBqDdqIQQgAEHgNmohCSAAQaAyaiEHIABB4C1qIQZBBCEBQwAAAAAhJUMAAAAAISxDAAAAACEtQwAAAAAhLkMAAAAAIS9DAAAAACEwQwAAAAAhMQNAQwAAAAAhIEMAAAAAISFDAAAAACEkAkAgHEEBaiIeQQJ0IgUoAuDygYAAIgMgAUwNACADIAFrIRcgGCABQQN0IgpqIQ0gJyAKayEKIBkgAUECdCIbaiEBIBogG2ohG0MAAAAAISBDAAAAACEhQwAAAAAhJANAICQgCioCACIdIB2UIA1BBGoqAgAiHSAdlCANKgIAIh0gHZQgCkF8aioCACIdIB2UkpKSIh2SISQgHUMAAAAAIAEqAgAiIiAiQwAAAABdG5QgIZIhISAdIB2SQwAAAD8gGyoCAJOUICCSISAgDUEIaiENIApBeGohCiABQQRqIQEgG0EEaiEbIBdBf2oiFw0ACyAkQyhrbk5dDQAgAkEANgIADAMLIAYgACgCiDpByABsIgpqIBxBAnQiDWogJDgCACALQaAMaiANaiAkQ//m2y6SIh+7ELmCgIAAtiIdOAIAIAcgCmogDWogHTgCACALQaACaiAFaiAdQzuqOD+UOAIAAkACQCAPRQ0AIAkgDWoqAgAhJiAEIA1qKgIAISIMAQsgBCANaiAdOAIAIAkgDWogHTgCACAdISYgHSEiCyAJIA1qIQogBCANaiEBAkAgJrtEAAAAAAAAHkCgICK7Y0UNAAJAICIgHZMgHSAmk15FDQAgASAiQwrXI7ySIiI4AgAMAQsgCiAmQwrXIzySOAIACyAkQ30dkCaSISQCQAJAICIgHV1FDQAgASAdOAIAIAogHUMAAHDBkiIiIAoqAgAiJiAiICZeGyImOAIAIB0hIgwBCyAKKgIAIiYgHV5FDQAgCiAdOAIAIAEgHUMAAHBBkiImICIgJiAiXRsiIjgCACAdISYLIB+RIR8gICAklSEgIAtB8AxqIA1qICEgJJUiJEOkcH0/IAYgDWoqAgAiIZFDAAAAAJIgKiANaioCACIykZIgKSANaioCACIzkZIgKCANaioCACI0kZIgFiANaioCACI1kZIgDiANaioCACI2kZIgFSANaioCACI3kZIgECANaioCACI4kZIgIUMAAAAAkiAykiAzkiA0kiA1kiA2kiA3kiA4kkMAAABBlLtEFlbnnq8D0jygn7aVIiEgIUOkcH0/XhsiISAhlCIhICGUIiEgKyANaiIKKgIAlCIyICQgMl4bIiQ4AgAgJSAkkiElIB0gJpMgIiAmk0OsxSc3kpUhHQJAIBxBCUkNACAlIA0gC0HwDGpqQVxqKgIAkyElCyAxIB+SITEgLSAgkiEtIC8gIZIhLyAwIB2SITAgCiAkOAIAICwgHEFuarJDj8L1PJRDAACAP5IgJZQiHSAsIB1eGyEsICQgHEF4arKUIC6SIS4gAyEBIB4hHCAeQRJHDQALIAsgIzgC0AEgCyAjQwAAIMCSIiQ4AoABQQQhDUEEIQoDQCALQdABaiANaiAjIA1B4PKBgABqKAIAIgEgCmuyIh0gHZJDAACAPpQiIJIiISALQaACaiANaioCACIdICEgHV0bIiM4AgAgC0GAAWogDWogJCAgkyIkIB1DAAAgwJIiHSAkIB1eGyIkOAIAIAEhCiANQQRqIg1BzABHDQALQcABIQpBwAAhDSALKgLEASEdIAsqApQCISQDQCALQdABaiANaiIBICQgCiANQeDygYAAaigCACIba7IiICAgkkMAAIA+lCIgkiIkIAEqAgAiISAkICFdGyIkOAIAIAtBgAFqIA1qIgogHSAgkyIdIAoqAgAiICAdICBeGyIdOAIAIBshCiANQXxqIg1BfEcNAAsgAkEsaiEKQQAhDQNAIApDAAAAACALQYABaiANaioCACALQaACaiANaioCACIdkyIkICRDAAAAAF0bQwAAAAAgHSALQdABaiANaioCAEMAACBAkpMiHSAdQwAAAABdG5JDAACAQpS7RAAAAAAAAOA/oJz8AiIBQf8BIAFB/wFIGzoAACAKQQFqIQogDUEEaiINQcwARw0ACyAAQagyaiEXIABBpDJqIRwgAEHkMmohHiAAQeAyaiEDIABB3DJqIQQgAEHYMmohCSAAQdQyaiEGIABB0DJqIQUgAEHMMmohDyAAQcgyaiEQIABBxDJqIRUgAEHAMmohDiAAQbwyaiEWIABBuDJqISggAEG0MmohKSAAQbAyaiEqIABBrDJqIStBACEBQQAhG0MAAAAAITkDQCAXIBtByABsIg1qKgIAISAgHCANaioCACEhIAcgDWoqAgAhIiAeIA1qKgIAISUgAyANaioCACEmIAQgDWoqAgAhIyAJIA1qKgIAIR8gBiANaioCACEyIAUgDWoqAgAhMyAPIA1qKgIAITQgECANaioCACE1IBUgDWoqAgAhNiAOIA1qKgIAITcgFiANaioCACE4ICggDWoqAgAhOiApIA1qKgIAITsgKiANaioCACE8ICsgDWoqAgAhPUOpX2NYIR1BwHshCgNAIB0gHSAlIAAgCmoiDUGkN2oqAgCTIiQgJJQgJiANQaA3aioCAJMiJCAklCAjIA1BnDdqKgIAkyIkICSUIB8gDUGYN2oqAgCTIiQgJJQgMiANQZQ3aioCAJMiJCAklCAzIA1BkDdqKgIAkyIkICSUIDQgDUGMN2oqAgCTIiQgJJQgNSANQYg3aioCAJMiJCAklCA2IA1BhDdqKgIAkyIkICSUIDcgDUGAN2oqAgCTIiQgJJQgOCANQfw2aioCAJMiJCAklCA6IA1B+DZqKgIAkyIkICSUIDsgDUH0NmoqAgCTIiQgJJQgPCANQfA2aioCAJMiJCAklCA9IA1B7DZqKgIAkyIkICSUICAgDUHoNmoqAgCTIiQgJJQgISANQeQ2aioCAJMiJCAklCAiIA1B4DZqKgIAkyIkICSUQwAAAACSkpKSkpKSkpKSkpKSkpKSkpIiJCAdICRdGyABIApqQcB7RhshHSAKQcgAaiIKDQALIAFBuH9qIQEgOSAdkiE5IBtBAWoiG0EIRw0AC0MAAAAAISJDAAAAAEOkcH0/QwAAgD8gEpMgDEHjAEobIAxBAkgbIR8gGEGEHmohByAAQfA3aiEJQw1sFTpBASAIQQggCEEIShtBeGp0spUiHSAdlCIzQwAAQECUITQgACgC3C0hBEEAIRtBBCEcQQAhA0MAAAAAISVDAAAAACEkQwAAAAAhIANAICQhIUMAAAAAIR0CQCAbQQFqIhdBAnQoAuDygYAAIh4gHEwNACAeIBxrIQEgGCAcQQN0IgpqIQ0gByAKayEKQwAAAAAhHQNAIB0gCioCACIkICSUIA1BBGoqAgAiJCAklCANKgIAIiQgJJQgCkF8aioCACIkICSUkpKSkiEdIA1BCGohDSAKQXhqIQogAUF/aiIBDQALCyAJIBtBAnQiDWoiCiAfIAoqAgCUIiQgHSAkIB1eGyIkOAIAICEgHZIhIyAgIB2SISYCQCAdQyhrbk6UICUgHSAlIB1eGyIlXkUNACAXIBcgAyAdIDMgHiAca7IiMpReGyAdICQgHSAkXhsgNCAylF4bIQMLICMgISAbQQtJIgobISQgICAmIAobISAgC0HQCmogDWogHSAiQwrXIzxDzcxMPSAEIBtKG5RdNgIAICJDzcxMPZQiIiAdICIgHV4bISIgHiEcIBchGyAXQRJHDQALIDlDAAAAPpQhJAJAIAAoAghBgPcCRw0AIAAgHyAAKgK4OJQiICARQ7SikTmUIh0gICAdXhsiIDgCuDgCQAJAIB0gICAdICBeGyAzQwAAIEFDAADwQSAEQRRGGyIgQwAAQECUlEMAACBDlF4NACAdIDMgIJRDAAAgQ5ReRQ0BC0EUIQMLIB0gJpIhICALIB0gIkMK1yM8Q83MTD0gBEEURhuUXTYCmAsLICRDAACQQZUhHSACICEgIJVDAACAPyAgICFeGzgCKAJAAkAgA0EURw0AQRIhHiALKAKYCw0BCwJAIANBf2oiDUERTQ0AIAMhHgwBCyANIAMgC0HQCmogDUECdGooAgAbIR4LIB2RIT0gACAAKgKAOkOmm0S7kiIkIDG7ELqCgIAAtkMAAKBBlCIdICQgHV4bIiQ4AoA6IAAgE0MAAIA/IBOTIAAqAoQ6lCIgkiAgIB0gJEMAAPDBkl0bOAKEOiALKgLcDCIdQ/rti76UIAsqAtgMIiRD+KkqPpQgCyoC1AwiIEOXOa0+lCALKgLQDCIhQ1rxDb2UIAsqAswMIiJD0CW0vpQgCyoCyAwiJUM0MNK9lCALKgLEDCImQwmlnz6UIAsqAsAMIiNDzaxlPpQgCyoCvAwiH0PNrGW+lCALKgK4DCIyQwmln76UIAsqArQMIjNDNDDSPZQgCyoCsAwiNEPQJbQ+lCALKgKsDCI1Q1rxDT2UIAsqAqgMIjZDlzmtvpQgCyoCpAwiN0P4qSq+lCALKgKgDCI4Q/rtiz6UQwAAAACSkpKSkpKSkpKSkpKSkpKSITEgHUMbg5Y+lCAkQ8RCjb2UICBDh4qxvpQgIUNgI0m+lCAiQ2AjST6UICVDh4qxPpQgJkPEQo09lCAjQxuDlr6UIB9DG4OWvpQgMkPEQo09lCAzQ4eKsT6UIDRDYCNJPpQgNUNgI0m+lCA2Q4eKsb6UIDdDxEKNvZQgOEMbg5Y+lEMAAAAAkpKSkpKSkpKSkpKSkpKSkiE5IB1DCaWfvpQgJENa8Q29lCAgQ/rtiz6UICFDlzmtPpQgIkM0MNI9lCAlQ82sZb6UICZD0CW0vpQgI0P4qSq+lCAfQ/ipKj6UIDJD0CW0PpQgM0PNrGU+lCA0QzQw0r2UIDVDlzmtvpQgNkP67Yu+lCA3Q1rxDT2UIDhDCaWfPpRDAAAAAJKSkpKSkpKSkpKSkpKSkpIhEiAdQ309pz6UICRD0osKPpQgIEPSiwq+lCAhQ309p76UICJDfT2nvpQgJUPSiwq+lCAmQ9KLCj6UICNDfT2nPpQgH0N9Pac+lCAyQ9KLCj6UIDND0osKvpQgNEN9Pae+lCA1Q309p76UIDZD0osKvpQgN0PSiwo+lCA4Q309pz6UQwAAAACSkpKSkpKSkpKSkpKSkpKSIREgHUOXOa2+lCAkQ82sZb6UICBDWvENvZQgIUP4qSo+lCAiQwmlnz6UICVD0CW0PpQgJkP67Ys+lCAjQzQw0j2UIB9DNDDSvZQgMkP67Yu+lCAzQ9AltL6UIDRDCaWfvpQgNUP4qSq+lCA2Q1rxDT2UIDdDzaxlPpQgOEOXOa0+lEMAAAAAkpKSkpKSkpKSkpKSkpKSkiE7IB1Dh4qxPpQgJEMbg5Y+lCAgQ2AjST6UICFDxEKNPZQgIkPEQo29lCAlQ2AjSb6UICZDG4OWvpQgI0OHirG+lCAfQ4eKsb6UIDJDG4OWvpQgM0NgI0m+lCA0Q8RCjb2UIDVDxEKNPZQgNkNgI0k+lCA3QxuDlj6UIDhDh4qxPpRDAAAAAJKSkpKSkpKSkpKSkpKSkpIhPCAdQ9AltL6UICRDlzmtvpQgIEMJpZ++lCAhQ/rti76UICJDzaxlvpQgJUP4qSq+lCAmQzQw0r2UICNDWvENvZQgH0Na8Q09lCAyQzQw0j2UIDND+KkqPpQgNEPNrGU+lCA1Q/rtiz6UIDZDCaWfPpQgN0OXOa0+lCA4Q9AltD6UQwAAAACSkpKSkpKSkpKSkpKSkpKSITogHUMAAIA+lCAkQwAAgD6UICBDAACAPpQgIUMAAIA+lCAiQwAAgD6UICVDAACAPpQgJkMAAIA+lCAjQwAAgD6UIB9DAACAPpQgMkMAAIA+lCAzQwAAgD6UIDRDAACAPpQgNUMAAIA+lCA2QwAAgD6UIDdDAACAPpQgOEMAAIA+lEMAAAAAkpKSkpKSkpKSkpKSkpKSkiEkIAAoAow6IRxBACEXQbDzgYAAIRsDQEFAIQ1DAAAAACEdA0AgGyANaiIBQcQAaioCAEMAAAA/lCAAIA1qIgpB7DdqKgIAIApBpDdqKgIAkpQgAUHAAGoqAgBDAAAAP5QgCkHoN2oqAgAgCkGgN2oqAgCSlCAdkpIhHSANQQhqIg0NAAsgC0HwAmogF0ECdGogHTgCACAbQcAAaiEbIBdBAWoiF0EIRw0ACyACIC5DAACAPJQ4AgggACAAKAKIOkEBakEIbzYCiDogACAcQY/OACAcQY/OAEgbQQFqNgKMOiACQwAAgD8gLUMAAJBBlSIgk0MAAAA/IDBDAACQQZUgHEEKSBuUICCSOAIQIAAgLEMAABBBlSIdIAAqAtgtQ83MTD+UIiEgHSAhXhsiHTgC2C0gAiAdOAIEIAsgACoCvDkiJUPOqre/lCAAKgLcOEMBajI/lCAkIAAqApw5IiaSQy7i+72UIAAqArw4IiMgACoC/DgiH5JD3+D7PpSSkpI4ArALIAsgACoCwDkiMkPOqre/lCAAKgLgOEMBajI/lCA6IAAqAqA5IjOSQy7i+72UIAAqAsA4IjQgACoCgDkiNZJD3+D7PpSSkpI4ArQLIAsgACoCxDkiNkPOqre/lCAAKgLkOCI3QwFqMj+UIDwgACoCpDkiOJIiLEMu4vu9lCAAKgLEOCItIAAqAoQ5Ii6SIjBD3+D7PpSSkpIiEzgCuAsgCyAAKgLIOSI+Q86qt7+UIAAqAug4Ij9DAWoyP5QgOyAAKgKoOSJAkkMu4vu9lCAAKgLIOCIhIAAqAog5IiKSQ9/g+z6UkpKSIkE4ArwLIAAgPkMAAIA/IBSTIh2UIBQgO5SSOALIOSAAIB0gNpQgFCA8lJI4AsQ5IAAgHSAylCAUIDqUkjgCwDkgACAdICWUIBQgJJSSOAK8OSALIDsgQJND5ughP5QgISAik0Pm6KE+lJIiMjgCzAsgCyA8IDiTQ+boIT+UIC0gLpND5uihPpSSIjY4AsgLIAsgOiAzk0Pm6CE/lCA0IDWTQ+booT6UkiIzOALECyALICQgJpND5ughP5QgIyAfk0Pm6KE+lJIiNDgCwAsgCyAAKgLcOCI1Q03WCL+UICQgACoCnDmSQ03WCD+UIAAqArw4IjggACoC/DgiLZJDTdaIvpSSkiIuOALQCyAAKgLgOCElIAAqAqA5IR8gACoCgDkhJiAAKgLAOCEjIAsgN0NN1gi/lCAsQ03WCD+UIDBDTdaIvpSSkjgC2AsgCyAlQ03WCL+UIDogH5JDTdYIP5QgIyAmkkNN1oi+lJKSOALUC0EUIB4gHEEDSBshDSAvQwAAkEGVITcgACoC3DkhHwJAAkAgHEEESg0AIAAqAuQ5ISwgACoC4DkhLwwBCyAAIB0gH5QgCyoCsAsiHyAUIB+UlJIiHzgC3DkgACAdIAAqAuA5lCALKgK0CyIsIBQgLJSUkiIvOALgOSAAIB0gACoC5DmUIBMgFCATlJSSIiw4AuQ5IAAgHSAAKgLoOZQgQSAUIEGUlJI4Aug5IAAgHSAAKgLsOZQgNCAUIDSUlJI4Auw5IAAgHSAAKgLwOZQgMyAUIDOUlJI4AvA5IAAgHSAAKgL0OZQgNiAUIDaUlJI4AvQ5IAAgHSAAKgL4OZQgMiAUIDKUlJI4Avg5IAAgHSAAKgL8OZQgLiAUIC6UlJI4Avw5CyAAIC04Apw5IAAgNTgC/DggACA4OALcOCAAICY4AqA5IAAgJDgCvDggACAlOAKAOSAAICM4AuA4IAAgOjgCwDggACAAKgKEOTgCpDkgACAAKgLkODgChDkgCyAkIAsqAvACkzgCsAsgCyA6IAsqAvQCkzgCtAsgCyA8IAsqAvgCkzgCuAsgCyA7IAsqAvwCkzgCvAsgACAiOAKoOSAAID84Aog5IAAgITgC6DggACA7OALIOCAAKgLEOCEdIAAgPDgCxDggACAdOALkOCAAKgKMOSEdIAAgACoC7Dg4Aow5IAAgHTgCrDkgACAAKgLMODgC7DggACAROALMOCAAIAAqApA5OAKwOSAAIAAqAvA4OAKQOSAAIAAqAtA4OALwOCAAIBI4AtA4IAAgACoClDk4ArQ5IAAgACoC9Dg4ApQ5IAAgACoC1Dg4AvQ4IAAgOTgC1DggACAAKgKYOTgCuDkgACAAKgL4ODgCmDkgACAAKgLYODgC+DggACAxOALYOCALICyRQyOk4r+SOALkCyALIC+RQx5rXsCSOALgCyALIB+RQxbrtcCSOALcCyALIAAqAug5kUO5xcy/kjgC6AsgCyAAKgLsOZFDW3xxwJI4AuwLIAsgACoC8DmRQ7hzCsCSOALwCyALIAAqAvQ5kUN0YKG/kjgC9AsgCyAAKgL8OZFDE5v1v5I4AvwLIAsgPUMUrke/kjgC+AsgCyACKgIEQ7VvHr6SOAKADCACKgIQIR0gCyA3Qz1kPr+SOAKIDCALIB1DNII5v5I4AoQMIAsgAioCCEMewY09kjgCjAwgCyAAKgKEOkPiHou9kjgCkAxBoISCgAAgCyALQbALahCigoCAAEHQpIKAACAAQag6aiIKIAsQo4KAgABBoKWCgAAgC0GoC2ogChCigoCAACACIA02AiAgACANNgLcLSACICA4AgwgAkEBNgIAIAIgCyoCrAs4AiQgAiALKgKoCzgCFAwBCyACQQA2AgALIAtBwA1qJICAgIAAC+cHBAJ/AX0Cfwd9I4CAgIAAIgohC0MAAAAAIQwCQCAERQ0AAkACQCAJQYD3AkcNACAFQQF0IQUgBEEBdCEEDAELIAlBgP0ARw0AIAVBAXRBA20hBSAEQQF0QQNtIQQLIAogBEECdCINQQ9qQXBxayIKIg4kgICAgAAgASAKIAQgBSAGIAcgCCAAEYCAgIAAgICAgAACQAJAIAdBfkcNAEMAAAA4IAiylSEPDAELQwAAgDdDAAAAOCAHQX9KGyEPCwJAIARBAUgNACAEQQNxIQVBACEIAkAgBEEESQ0AIARB/P///wdxIQFBACEIIAohBwNAIAcgDyAHKgIAlDgCACAHQQRqIgYgDyAGKgIAlDgCACAHQQhqIgYgDyAGKgIAlDgCACAHQQxqIgYgDyAGKgIAlDgCACAHQRBqIQcgASAIQQRqIghHDQALCyAFRQ0AIAogCEECdGohBwNAIAcgDyAHKgIAlDgCACAHQQRqIQcgBUF/aiIFDQALCwJAIAlBgPcCRw0AIARBAm0hByAEQQJIDQFDAAAAACEMA0AgAyAKKgIAIg8gDyADKgIAIhCTQ/+AGz+UIhGSOAIAIAMgCkEEaioCACIPIA8gAyoCBCISk0PAPho+lCITkjgCBCADIA+MIAMqAggiFJNDwD4aPpQiFSAPkzgCCCACIBIgECARkiIPkiATkkMAAAA/lDgCACAPIBSSIBWSIg8gD5QgDJIhDCAKQQhqIQogAkEEaiECIAdBf2oiBw0ADAILCwJAIAlBgP0ARg0AIAlBwLsBRw0BIA1FDQEgAiAKIA38CgAAIAskgICAgABDAAAAAA8LIA4gBEEMbEEPakFwcWsiBySAgICAACAEQQFIDQAgBEEBcSEJQQAhBgJAIARBAUYNACAEQf7///8HcSEBQQAhBiAHIQUgCiEIA0AgBUEIaiAIKgIAIg84AgAgBUEEaiAPOAIAIAUgDzgCACAFQRRqIAhBBGoqAgAiDzgCACAFQRBqIA84AgAgBUEMaiAPOAIAIAVBGGohBSAIQQhqIQggASAGQQJqIgZHDQALCwJAIAlFDQAgByAGQQxsaiIFIAogBkECdGoqAgAiDzgCCCAFIA84AgQgBSAPOAIACyAEIARBAXZqIQoDQCADIAcqAgAiDyAPIAMqAgAiEJND/4AbP5QiEZI4AgAgAyAHQQRqKgIAIg8gDyADKgIEIhKTQ8A+Gj6UIhOSOAIEIAMgD4wgAyoCCJNDwD4aPpQgD5M4AgggAiASIBAgEZKSIBOSQwAAAD+UOAIAIAdBCGohByACQQRqIQIgCkF/aiIKDQALCyALJICAgIAAIAwL+gcCDH8CfQJAIAAoAgwiA0EBSA0AIAAoAgghBCADQQNxIQUgACgCACEGQQAhBwJAIANBBEkNACADQfz///8HcSEIQQAhByABIQkDQCAJIAYgB2oiCiwAALI4AgAgCUEEaiAKQQFqLAAAsjgCACAJQQhqIApBAmosAACyOAIAIAlBDGogCkEDaiwAALI4AgAgCUEQaiEJIAggB0EEaiIHRw0ACwsCQCAFRQ0AIAYgB2ohCSABIAdBAnRqIQoDQCAKIAksAACyOAIAIAlBAWohCSAKQQRqIQogBUF/aiIFDQALCyADQQF0IQYgBEH+////B3EhCCAEQQFxIQtBACEMIAAoAgQiDSEOA0ACQCAEQQFIDQAgASAMQQJ0aiIFKgIAIQ9BACEHAkAgBEEBRg0AQQAhByACIQkgDiEKA0AgBSAKLAAAsiAJKgIAlCAPkiIPOAIAIAUgCiADaiwAALIgCUEEaioCAJQgD5IiDzgCACAJQQhqIQkgCiAGaiEKIAggB0ECaiIHRw0ACwsgC0UNACAFIA0gDGogByADbGosAACyIAIgB0ECdGoqAgCUIA+SOAIACyAOQQFqIQ4gDEEBaiIMIANHDQALIANBA3EhCkEAIQcCQCADQQRJDQAgA0H8////B3EhBkEAIQcgASEJA0AgCSAJKgIAQwAAADyUOAIAIAlBBGoiBSAFKgIAQwAAADyUOAIAIAlBCGoiBSAFKgIAQwAAADyUOAIAIAlBDGoiBSAFKgIAQwAAADyUOAIAIAlBEGohCSAGIAdBBGoiB0cNAAsLAkAgCkUNACABIAdBAnRqIQkDQCAJIAkqAgBDAAAAPJQ4AgAgCUEEaiEJIApBf2oiCg0ACwsCQCAAKAIQDQADQEMAAIA/IQ8CQCABKgIAIhBDAAAAQV1FDQBDAACAvyEPIBBDAAAAwV5FDQAgEIwgECAQQwAAAABdIgkbIg9DAADIQZRDAAAAP5KO/AAiCrJDCtcjvZQgD5IiEEMAAIA/IApBAnRBsPeBgABqKgIAIg8gD5STlEMAAIA/IA8gEJSTlCAPkiIPjCAPIAkbIQ8LIAEgDzgCACABQQRqIQEgA0F/aiIDDQAMAgsLA0BDAACAPyEPAkAgASoCAEMAAAA/lCIQQwAAAEFdRQ0AQwAAgL8hDyAQQwAAAMFeRQ0AIBCMIBAgEEMAAAAAXSIJGyIPQwAAyEGUQwAAAD+SjvwAIgqyQwrXI72UIA+SIhBDAACAPyAKQQJ0QbD3gYAAaioCACIPIA+Uk5RDAACAPyAPIBCUk5QgD5IiD4wgDyAJGyEPCyABIA9DAAAAP5RDAAAAP5I4AgAgAUEEaiEBIANBf2oiAw0ACwsLpxcGEH8BfQF/AX0CfwN9I4CAgIAAQYAEayIDJICAgIAAAkAgACgCECIEQQFIDQAgBEEDcSEFIAAoAgAhBkEAIQcCQCAEQX9qIghBA0kNACAEQfz///8HcSEJQQAhByADQYACaiEKA0AgCiAGIAdqIgssAACyOAIAIApBBGogC0EBaiwAALI4AgAgCkEIaiALQQJqLAAAsjgCACAKQQxqIAtBA2osAACyOAIAIApBEGohCiAJIAdBBGoiB0cNAAsLIAAoAgwhDAJAIAVFDQAgBiAHaiEKIANBgAJqIAdBAnRqIQsDQCALIAosAACyOAIAIApBAWohCiALQQRqIQsgBUF/aiIFDQALCyAEQQNsIQUgBEEGbCEGIAxB/v///wdxIQkgDEEBcSENIAxBf2ohDkEAIQ8gACgCBCIQIREDQAJAIAxBAUgNACADQYACaiAPQQJ0aiISKgIAIRNBACEHAkAgDkUNACACIQogESELA0AgCyAFaiwAALIgCkEEaioCAJQgCywAALIgCioCAJQgE5KSIRMgCkEIaiEKIAsgBmohCyAJIAdBAmoiB0cNAAsLAkAgDUUNACAQIA9qIAcgBWxqLAAAsiACIAdBAnRqKgIAlCATkiETCyASIBM4AgALIBFBAWohESAPQQFqIg8gBEcNAAsgBEEGbCEGIARB/v///wdxIQkgBEEBcSENQQAhDyAAKAIIIhQhEQNAIANBgAJqIA9BAnRqIhIqAgAhEwJAAkAgCA0AQQAhBwwBC0EAIQcgASEKIBEhCwNAIAsgBWosAACyIApBBGoqAgCUIAssAACyIAoqAgCUIBOSkiETIApBCGohCiALIAZqIQsgCSAHQQJqIgdHDQALCwJAIA1FDQAgFCAPaiAHIAVsaiwAALIgASAHQQJ0aioCAJQgE5IhEwsgEiATOAIAIBFBAWohESAPQQFqIg8gBEcNAAsgA0GAAmohCiAEIQsDQEMAAIA/IRMCQCAKKgIAQwAAADyUQwAAAD+UIhVDAAAAQV1FDQBDAACAvyETIBVDAAAAwV5FDQAgFYwgFSAVQwAAAABdIgcbIhNDAADIQZRDAAAAP5KO/AAiBrJDCtcjvZQgE5IiFUMAAIA/IAZBAnRBsPeBgABqKgIAIhMgE5STlEMAAIA/IBMgFZSTlCATkiITjCATIAcbIRMLIAogE0MAAAA/lEMAAAA/kjgCACAKQQRqIQogC0F/aiILDQALIARBA3EhBiAAKAIAIRFBACEHAkAgCEEDSQ0AIBEgBGohCSAEQfz///8HcSEPQQAhByADQYABaiEKA0AgCiAJIAdqIgssAACyOAIAIApBBGogC0EBaiwAALI4AgAgCkEIaiALQQJqLAAAsjgCACAKQQxqIAtBA2osAACyOAIAIApBEGohCiAPIAdBBGoiB0cNAAsLAkAgBkUNACARIAcgBGpqIQogA0GAAWogB0ECdGohCwNAIAsgCiwAALI4AgAgCkEBaiEKIAtBBGohCyAGQX9qIgYNAAsLIARBBmwhDyAMQf7///8HcSERIAxBAXEhFiAQIARBAnRqIQZBACESIBAgBGoiFyEJA0ACQCAMQQFIDQAgA0GAAWogEkECdGoiDSoCACETAkACQCAODQBBACEHDAELQQAhCiACIQtBACEHA0AgBiAKaiwAALIgC0EEaioCAJQgCSAKaiwAALIgCyoCAJQgE5KSIRMgC0EIaiELIAogD2ohCiARIAdBAmoiB0cNAAsLAkAgFkUNACAXIBJqIAcgBWxqLAAAsiACIAdBAnRqKgIAlCATkiETCyANIBM4AgALIAlBAWohCSAGQQFqIQYgEkEBaiISIARHDQALIARBBmwhDyAEQf7///8HcSERIARBAXEhFiAUIARBAnRqIQZBACESIBQgBGoiFyEJA0AgA0GAAWogEkECdGoiDSoCACETAkACQCAIDQBBACEHDAELQQAhCiABIQtBACEHA0AgBiAKaiwAALIgC0EEaioCAJQgCSAKaiwAALIgCyoCAJQgE5KSIRMgC0EIaiELIAogD2ohCiARIAdBAmoiB0cNAAsLAkAgFkUNACAXIBJqIAcgBWxqLAAAsiABIAdBAnRqKgIAlCATkiETCyANIBM4AgAgCUEBaiEJIAZBAWohBiASQQFqIhIgBEcNAAsgA0GAAWohCiAEIQsDQEMAAIA/IRMCQCAKKgIAQwAAADyUQwAAAD+UIhVDAAAAQV1FDQBDAACAvyETIBVDAAAAwV5FDQAgFYwgFSAVQwAAAABdIgcbIhNDAADIQZRDAAAAP5KO/AAiBrJDCtcjvZQgE5IiFUMAAIA/IAZBAnRBsPeBgABqKgIAIhMgE5STlEMAAIA/IBMgFZSTlCATkiITjCATIAcbIRMLIAogE0MAAAA/lEMAAAA/kjgCACAKQQRqIQogC0F/aiILDQALIARBA3EhBiAEQQF0IREgACgCACESQQAhBwJAIAhBA0kNACASIBFqIQkgBEH8////B3EhD0EAIQcgAyEKA0AgCiAJIAdqIgssAACyOAIAIApBBGogC0EBaiwAALI4AgAgCkEIaiALQQJqLAAAsjgCACAKQQxqIAtBA2osAACyOAIAIApBEGohCiAPIAdBBGoiB0cNAAsLAkAgBkUNACASIAcgEWpqIQogAyAHQQJ0aiELA0AgCyAKLAAAsjgCACAKQQFqIQogC0EEaiELIAZBf2oiBg0ACwsgBEEBcSEPAkACQCAIDQBBACEGDAELIARB/v///wdxIQlBACEGIANBgAFqIQogA0GAA2ohCyABIQcDQCALIAcqAgAgCioCAJQ4AgAgC0EEaiAHQQRqKgIAIApBBGoqAgCUOAIAIAtBCGohCyAKQQhqIQogB0EIaiEHIAkgBkECaiIGRw0ACwsCQCAPRQ0AIANBgANqIAZBAnQiCmogASAKaioCACADQYABaiAKaioCAJQ4AgALIARBBmwhDyAMQf7///8HcSERIAxBAXEhFiAQIARBBWxqIQZBACESIBAgBEEBdCIAaiIXIQkDQAJAIAxBAUgNACADIBJBAnRqIg0qAgAhEwJAAkAgDg0AQQAhBwwBC0EAIQogAiELQQAhBwNAIAYgCmosAACyIAtBBGoqAgCUIAkgCmosAACyIAsqAgCUIBOSkiETIAtBCGohCyAKIA9qIQogESAHQQJqIgdHDQALCwJAIBZFDQAgFyASaiAHIAVsaiwAALIgAiAHQQJ0aioCAJQgE5IhEwsgDSATOAIACyAJQQFqIQkgBkEBaiEGIBJBAWoiEiAERw0ACyAEQQZsIQ8gBEH+////B3EhESAEQQFxIQIgFCAEQQVsaiEGQQAhEiAUIABqIg0hCQNAIAMgEkECdGoiDCoCACETAkACQCAIDQBBACEHDAELQQAhCiADQYADaiELQQAhBwNAIAYgCmosAACyIAtBBGoqAgCUIAkgCmosAACyIAsqAgCUIBOSkiETIAtBCGohCyAKIA9qIQogESAHQQJqIgdHDQALCwJAIAJFDQAgDSASaiAHIAVsaiwAALIgA0GAA2ogB0ECdGoqAgCUIBOSIRMLIAwgEzgCACAJQQFqIQkgBkEBaiEGIBJBAWoiEiAERw0AC0EAIQogBCELA0BDAACAPyADQYACaiAKaioCACIYkyEZIAEgCmoqAgAhGkMAAIA/IRMCQCADIApqIgcqAgBDAAAAPJQiFUMAAABBXUUNAEMAAIC/IRMgFUMAAADBXkUNACAVjCAVIBVDAAAAAF0iBRsiE0MAAMhBlEMAAAA/ko78ACIGskMK1yO9lCATkiIVQwAAgD8gBkECdEGw94GAAGoqAgAiEyATlJOUQwAAgD8gEyAVlJOUIBOSIhOMIBMgBRshEwsgByAYIBqUIBkgE5SSOAIAIApBBGohCiALQX9qIgsNAAsgBEECdCIKRQ0AIAEgAyAK/AoAAAsgA0GABGokgICAgAALCgAgABClgoCAAAuLKgELfyOAgICAAEEQayIBJICAgIAAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkBBACgC/O2CgAAiAg0AAkBBACgCvPGCgAAiAw0AQQBCfzcCyPGCgABBAEKAgISAgIDAADcCwPGCgABBACABQQhqQXBxQdiq1aoFcyIDNgK88YKAAEEAQQA2AtDxgoAAQQBBADYCoPGCgAALQYCAgIEAQeDxwoAASQ0BQQAhAkGAgICBAEHg8cKAAGtB2QBJDQBBACEEQQBB4PHCgAA2AqTxgoAAQQBB4PHCgAA2AvTtgoAAQQAgAzYCiO6CgABBAEF/NgKE7oKAAEEAQYCAgIEAQeDxwoAAayIDNgKo8YKAAEEAIAM2ApjxgoAAQQAgAzYClPGCgAADQCAEQaDugoAAaiAEQZTugoAAaiIDNgIAIAMgBEGM7oKAAGoiBTYCACAEQZjugoAAaiAFNgIAIARBqO6CgABqIARBnO6CgABqIgU2AgAgBSADNgIAIARBsO6CgABqIARBpO6CgABqIgM2AgAgAyAFNgIAIARBrO6CgABqIAM2AgAgBEEgaiIEQYACRw0AC0GAgICBAEFMakE4NgIAQQBBACgCzPGCgAA2AoDugoAAQQBB4PHCgABBeEHg8cKAAGtBD3EiBGoiAjYC/O2CgABBAEGAgICBAEHg8cKAAGsgBGtBSGoiBDYC8O2CgAAgAiAEQQFyNgIECwJAAkAgAEHsAUsNAAJAQQAoAuTtgoAAIgZBECAAQRNqQfADcSAAQQtJGyIFQQN2IgN2IgRBA3FFDQACQAJAIARBAXEgA3JBAXMiBUEDdCIDQYzugoAAaiIEIANBlO6CgABqKAIAIgMoAggiAEcNAEEAIAZBfiAFd3E2AuTtgoAADAELIAQgADYCCCAAIAQ2AgwLIANBCGohBCADIAVBA3QiBUEDcjYCBCADIAVqIgMgAygCBEEBcjYCBAwOCyAFQQAoAuztgoAAIgdNDQECQCAERQ0AAkACQCAEIAN0QQIgA3QiBEEAIARrcnFoIgNBA3QiBEGM7oKAAGoiACAEQZTugoAAaigCACIEKAIIIghHDQBBACAGQX4gA3dxIgY2AuTtgoAADAELIAAgCDYCCCAIIAA2AgwLIAQgBUEDcjYCBCAEIANBA3QiA2ogAyAFayIANgIAIAQgBWoiCCAAQQFyNgIEAkAgB0UNACAHQXhxQYzugoAAaiEFQQAoAvjtgoAAIQMCQAJAIAZBASAHQQN2dCIJcQ0AQQAgBiAJcjYC5O2CgAAgBSEJDAELIAUoAgghCQsgCSADNgIMIAUgAzYCCCADIAU2AgwgAyAJNgIICyAEQQhqIQRBACAINgL47YKAAEEAIAA2AuztgoAADA4LQQAoAujtgoAAIgpFDQEgCmhBAnRBlPCCgABqKAIAIggoAgRBeHEgBWshAyAIIQACQANAAkAgACgCECIEDQAgACgCFCIERQ0CCyAEKAIEQXhxIAVrIgAgAyAAIANJIgAbIQMgBCAIIAAbIQggBCEADAALCyAIKAIYIQICQCAIKAIMIgQgCEYNACAIKAIIIgAgBDYCDCAEIAA2AggMDQsCQAJAIAgoAhQiAEUNACAIQRRqIQkMAQsgCCgCECIARQ0EIAhBEGohCQsDQCAJIQsgACIEQRRqIQkgBCgCFCIADQAgBEEQaiEJIAQoAhAiAA0ACyALQQA2AgAMDAtBfyEFIABBv39LDQAgAEETaiIEQXBxIQVBACgC6O2CgAAiCkUNAEEfIQcCQCAAQez//wdLDQAgBUEmIARBCHZnIgRrdkEBcSAEQQF0a0E+aiEHC0EAIAVrIQMCQAJAAkACQCAHQQJ0QZTwgoAAaigCACIADQBBACEEQQAhCQwBC0EAIQQgBUEAQRkgB0EBdmsgB0EfRht0IQhBACEJA0ACQCAAKAIEQXhxIAVrIgYgA08NACAGIQMgACEJIAYNAEEAIQMgACEJIAAhBAwDCyAEIAAoAhQiBiAGIAAgCEEddkEEcWooAhAiC0YbIAQgBhshBCAIQQF0IQggCyEAIAsNAAsLAkAgBCAJcg0AQQAhCUECIAd0IgRBACAEa3IgCnEiBEUNAyAEaEECdEGU8IKAAGooAgAhBAsgBEUNAQsDQCAEKAIEQXhxIAVrIgYgA0khCAJAIAQoAhAiAA0AIAQoAhQhAAsgBiADIAgbIQMgBCAJIAgbIQkgACEEIAANAAsLIAlFDQAgA0EAKALs7YKAACAFa08NACAJKAIYIQsCQCAJKAIMIgQgCUYNACAJKAIIIgAgBDYCDCAEIAA2AggMCwsCQAJAIAkoAhQiAEUNACAJQRRqIQgMAQsgCSgCECIARQ0EIAlBEGohCAsDQCAIIQYgACIEQRRqIQggBCgCFCIADQAgBEEQaiEIIAQoAhAiAA0ACyAGQQA2AgAMCgsCQEEAKALs7YKAACIEIAVJDQBBACgC+O2CgAAhAwJAAkAgBCAFayIAQRBJDQAgAyAFaiIIIABBAXI2AgQgAyAEaiAANgIAIAMgBUEDcjYCBAwBCyADIARBA3I2AgQgAyAEaiIEIAQoAgRBAXI2AgRBACEIQQAhAAtBACAANgLs7YKAAEEAIAg2AvjtgoAAIANBCGohBAwMCwJAQQAoAvDtgoAAIgAgBU0NACACIAVqIgQgACAFayIDQQFyNgIEQQAgBDYC/O2CgABBACADNgLw7YKAACACIAVBA3I2AgQgAkEIaiEEDAwLAkACQEEAKAK88YKAAEUNAEEAKALE8YKAACEDDAELQQBCfzcCyPGCgABBAEKAgISAgIDAADcCwPGCgABBACABQQxqQXBxQdiq1aoFczYCvPGCgABBAEEANgLQ8YKAAEEAQQA2AqDxgoAAQYCABCEDC0EAIQQCQCADIAVBxwBqIgtqIghBACADayIGcSIJIAVLDQBBAEEwNgLU8YKAAAwMCwJAQQAoApzxgoAAIgRFDQACQEEAKAKU8YKAACIDIAlqIgcgA00NACAHIARNDQELQQAhBEEAQTA2AtTxgoAADAwLQQAtAKDxgoAAQQRxDQUCQAJAAkAgAkUNAEGk8YKAACEEA0ACQCACIAQoAgAiA0kNACACIAMgBCgCBGpJDQMLIAQoAggiBA0ACwtBABCqgoCAACIIQX9GDQYgCSEGAkBBACgCwPGCgAAiBEF/aiIDIAhxRQ0AIAkgCGsgAyAIakEAIARrcWohBgsgBiAFTQ0GIAZB/v///wdLDQYCQEEAKAKc8YKAACIERQ0AQQAoApTxgoAAIgMgBmoiACADTQ0HIAAgBEsNBwsgBhCqgoCAACIEIAhHDQEMCAsgCCAAayAGcSIGQf7///8HSw0FIAYQqoKAgAAiCCAEKAIAIAQoAgRqRg0EIAghBAsCQCAGIAVByABqTw0AIARBf0YNAAJAIAsgBmtBACgCxPGCgAAiA2pBACADa3EiA0H+////B00NACAEIQgMCAsCQCADEKqCgIAAQX9GDQAgAyAGaiEGIAQhCAwIC0EAIAZrEKqCgIAAGgwFCyAEIQggBEF/Rw0GDAQLAAtBACEEDAgLQQAhBAwGCyAIQX9HDQILQQBBACgCoPGCgABBBHI2AqDxgoAACyAJQf7///8HSw0BIAkQqoKAgAAhCEEAEKqCgIAAIQQgCEF/Rg0BIARBf0YNASAIIARPDQEgBCAIayIGIAVBOGpNDQELQQBBACgClPGCgAAgBmoiBDYClPGCgAACQCAEQQAoApjxgoAATQ0AQQAgBDYCmPGCgAALAkACQAJAAkBBACgC/O2CgAAiA0UNAEGk8YKAACEEA0AgCCAEKAIAIgAgBCgCBCIJakYNAiAEKAIIIgQNAAwDCwsCQAJAQQAoAvTtgoAAIgRFDQAgCCAETw0BC0EAIAg2AvTtgoAAC0EAIQRBACAGNgKo8YKAAEEAIAg2AqTxgoAAQQBBfzYChO6CgABBAEEAKAK88YKAADYCiO6CgABBAEEANgKw8YKAAANAIARBoO6CgABqIARBlO6CgABqIgM2AgAgAyAEQYzugoAAaiIANgIAIARBmO6CgABqIAA2AgAgBEGo7oKAAGogBEGc7oKAAGoiADYCACAAIAM2AgAgBEGw7oKAAGogBEGk7oKAAGoiAzYCACADIAA2AgAgBEGs7oKAAGogAzYCACAEQSBqIgRBgAJHDQALIAhBeCAIa0EPcSIEaiIDIAZBSGoiACAEayIEQQFyNgIEQQBBACgCzPGCgAA2AoDugoAAQQAgBDYC8O2CgABBACADNgL87YKAACAIIABqQTg2AgQMAgsgAyAITw0AIAMgAEkNACAEKAIMQQhxDQAgA0F4IANrQQ9xIgBqIghBACgC8O2CgAAgBmoiCyAAayIAQQFyNgIEIAQgCSAGajYCBEEAQQAoAszxgoAANgKA7oKAAEEAIAA2AvDtgoAAQQAgCDYC/O2CgAAgAyALakE4NgIEDAELAkAgCEEAKAL07YKAAE8NAEEAIAg2AvTtgoAACyAIIAZqIQBBpPGCgAAhBAJAAkADQCAEKAIAIgkgAEYNASAEKAIIIgQNAAwCCwsgBC0ADEEIcUUNAwtBpPGCgAAhBAJAA0ACQCADIAQoAgAiAEkNACADIAAgBCgCBGoiAEkNAgsgBCgCCCEEDAALCyAIQXggCGtBD3EiBGoiCyAGQUhqIgkgBGsiBEEBcjYCBCAIIAlqQTg2AgQgAyAAQTcgAGtBD3FqQUFqIgkgCSADQRBqSRsiCUEjNgIEQQBBACgCzPGCgAA2AoDugoAAQQAgBDYC8O2CgABBACALNgL87YKAACAJQRBqQQApAqzxgoAANwIAIAlBACkCpPGCgAA3AghBACAJQQhqNgKs8YKAAEEAIAY2AqjxgoAAQQAgCDYCpPGCgABBAEEANgKw8YKAACAJQSRqIQQDQCAEQQc2AgAgBEEEaiIEIABJDQALIAkgA0YNACAJIAkoAgRBfnE2AgQgCSAJIANrIgg2AgAgAyAIQQFyNgIEAkACQCAIQf8BSw0AIAhBeHFBjO6CgABqIQQCQAJAQQAoAuTtgoAAIgBBASAIQQN2dCIIcQ0AQQAgACAIcjYC5O2CgAAgBCEADAELIAQoAgghAAsgACADNgIMIAQgAzYCCEEMIQhBCCEJDAELQR8hBAJAIAhB////B0sNACAIQSYgCEEIdmciBGt2QQFxIARBAXRrQT5qIQQLIAMgBDYCHCADQgA3AhAgBEECdEGU8IKAAGohAAJAAkACQEEAKALo7YKAACIJQQEgBHQiBnENACAAIAM2AgBBACAJIAZyNgLo7YKAACADIAA2AhgMAQsgCEEAQRkgBEEBdmsgBEEfRht0IQQgACgCACEJA0AgCSIAKAIEQXhxIAhGDQIgBEEddiEJIARBAXQhBCAAIAlBBHFqIgYoAhAiCQ0ACyAGQRBqIAM2AgAgAyAANgIYC0EIIQhBDCEJIAMhACADIQQMAQsgACgCCCEEIAAgAzYCCCAEIAM2AgwgAyAENgIIQQAhBEEYIQhBDCEJCyADIAlqIAA2AgAgAyAIaiAENgIAC0EAKALw7YKAACIEIAVNDQBBACgC/O2CgAAiAyAFaiIAIAQgBWsiBEEBcjYCBEEAIAQ2AvDtgoAAQQAgADYC/O2CgAAgAyAFQQNyNgIEIANBCGohBAwEC0EAIQRBAEEwNgLU8YKAAAwDCyAEIAg2AgAgBCAEKAIEIAZqNgIEIAggCSAFEKaCgIAAIQQMAgsCQCALRQ0AAkACQCAJIAkoAhwiCEECdEGU8IKAAGoiACgCAEcNACAAIAQ2AgAgBA0BQQAgCkF+IAh3cSIKNgLo7YKAAAwCCwJAAkAgCygCECAJRw0AIAsgBDYCEAwBCyALIAQ2AhQLIARFDQELIAQgCzYCGAJAIAkoAhAiAEUNACAEIAA2AhAgACAENgIYCyAJKAIUIgBFDQAgBCAANgIUIAAgBDYCGAsCQAJAIANBD0sNACAJIAMgBXIiBEEDcjYCBCAJIARqIgQgBCgCBEEBcjYCBAwBCyAJIAVqIgggA0EBcjYCBCAJIAVBA3I2AgQgCCADaiADNgIAAkAgA0H/AUsNACADQXhxQYzugoAAaiEEAkACQEEAKALk7YKAACIFQQEgA0EDdnQiA3ENAEEAIAUgA3I2AuTtgoAAIAQhAwwBCyAEKAIIIQMLIAMgCDYCDCAEIAg2AgggCCAENgIMIAggAzYCCAwBC0EfIQQCQCADQf///wdLDQAgA0EmIANBCHZnIgRrdkEBcSAEQQF0a0E+aiEECyAIIAQ2AhwgCEIANwIQIARBAnRBlPCCgABqIQUCQCAKQQEgBHQiAHENACAFIAg2AgBBACAKIAByNgLo7YKAACAIIAU2AhggCCAINgIIIAggCDYCDAwBCyADQQBBGSAEQQF2ayAEQR9GG3QhBCAFKAIAIQACQANAIAAiBSgCBEF4cSADRg0BIARBHXYhACAEQQF0IQQgBSAAQQRxaiIGKAIQIgANAAsgBkEQaiAINgIAIAggBTYCGCAIIAg2AgwgCCAINgIIDAELIAUoAggiBCAINgIMIAUgCDYCCCAIQQA2AhggCCAFNgIMIAggBDYCCAsgCUEIaiEEDAELAkAgAkUNAAJAAkAgCCAIKAIcIglBAnRBlPCCgABqIgAoAgBHDQAgACAENgIAIAQNAUEAIApBfiAJd3E2AujtgoAADAILAkACQCACKAIQIAhHDQAgAiAENgIQDAELIAIgBDYCFAsgBEUNAQsgBCACNgIYAkAgCCgCECIARQ0AIAQgADYCECAAIAQ2AhgLIAgoAhQiAEUNACAEIAA2AhQgACAENgIYCwJAAkAgA0EPSw0AIAggAyAFciIEQQNyNgIEIAggBGoiBCAEKAIEQQFyNgIEDAELIAggBWoiACADQQFyNgIEIAggBUEDcjYCBCAAIANqIAM2AgACQCAHRQ0AIAdBeHFBjO6CgABqIQVBACgC+O2CgAAhBAJAAkBBASAHQQN2dCIJIAZxDQBBACAJIAZyNgLk7YKAACAFIQkMAQsgBSgCCCEJCyAJIAQ2AgwgBSAENgIIIAQgBTYCDCAEIAk2AggLQQAgADYC+O2CgABBACADNgLs7YKAAAsgCEEIaiEECyABQRBqJICAgIAAIAQLpwgBB38gAEF4IABrQQ9xaiIDIAJBA3I2AgQgAUF4IAFrQQ9xaiIEIAMgAmoiBWshAAJAAkAgBEEAKAL87YKAAEcNAEEAIAU2AvztgoAAQQBBACgC8O2CgAAgAGoiAjYC8O2CgAAgBSACQQFyNgIEDAELAkAgBEEAKAL47YKAAEcNAEEAIAU2AvjtgoAAQQBBACgC7O2CgAAgAGoiAjYC7O2CgAAgBSACQQFyNgIEIAUgAmogAjYCAAwBCwJAIAQoAgQiAUEDcUEBRw0AIAFBeHEhBiAEKAIMIQICQAJAIAFB/wFLDQACQCACIAQoAggiB0cNAEEAQQAoAuTtgoAAQX4gAUEDdndxNgLk7YKAAAwCCyACIAc2AgggByACNgIMDAELIAQoAhghCAJAAkAgAiAERg0AIAQoAggiASACNgIMIAIgATYCCAwBCwJAAkACQCAEKAIUIgFFDQAgBEEUaiEHDAELIAQoAhAiAUUNASAEQRBqIQcLA0AgByEJIAEiAkEUaiEHIAIoAhQiAQ0AIAJBEGohByACKAIQIgENAAsgCUEANgIADAELQQAhAgsgCEUNAAJAAkAgBCAEKAIcIgdBAnRBlPCCgABqIgEoAgBHDQAgASACNgIAIAINAUEAQQAoAujtgoAAQX4gB3dxNgLo7YKAAAwCCwJAAkAgCCgCECAERw0AIAggAjYCEAwBCyAIIAI2AhQLIAJFDQELIAIgCDYCGAJAIAQoAhAiAUUNACACIAE2AhAgASACNgIYCyAEKAIUIgFFDQAgAiABNgIUIAEgAjYCGAsgBiAAaiEAIAQgBmoiBCgCBCEBCyAEIAFBfnE2AgQgBSAAaiAANgIAIAUgAEEBcjYCBAJAIABB/wFLDQAgAEF4cUGM7oKAAGohAgJAAkBBACgC5O2CgAAiAUEBIABBA3Z0IgBxDQBBACABIAByNgLk7YKAACACIQAMAQsgAigCCCEACyAAIAU2AgwgAiAFNgIIIAUgAjYCDCAFIAA2AggMAQtBHyECAkAgAEH///8HSw0AIABBJiAAQQh2ZyICa3ZBAXEgAkEBdGtBPmohAgsgBSACNgIcIAVCADcCECACQQJ0QZTwgoAAaiEBAkBBACgC6O2CgAAiB0EBIAJ0IgRxDQAgASAFNgIAQQAgByAEcjYC6O2CgAAgBSABNgIYIAUgBTYCCCAFIAU2AgwMAQsgAEEAQRkgAkEBdmsgAkEfRht0IQIgASgCACEHAkADQCAHIgEoAgRBeHEgAEYNASACQR12IQcgAkEBdCECIAEgB0EEcWoiBCgCECIHDQALIARBEGogBTYCACAFIAE2AhggBSAFNgIMIAUgBTYCCAwBCyABKAIIIgIgBTYCDCABIAU2AgggBUEANgIYIAUgATYCDCAFIAI2AggLIANBCGoLCgAgABCogoCAAAuBDQEIfwJAIABFDQAgAEF4aiIBIABBfGooAgAiAkF4cSIAaiEDAkAgAkEBcQ0AIAJBAnFFDQEgASABKAIAIgRrIgFBACgC9O2CgABJDQEgBCAAaiEAAkACQAJAAkAgAUEAKAL47YKAAEYNACABKAIMIQICQCAEQf8BSw0AIAIgASgCCCIFRw0CQQBBACgC5O2CgABBfiAEQQN2d3E2AuTtgoAADAULIAEoAhghBgJAIAIgAUYNACABKAIIIgQgAjYCDCACIAQ2AggMBAsCQAJAIAEoAhQiBEUNACABQRRqIQUMAQsgASgCECIERQ0DIAFBEGohBQsDQCAFIQcgBCICQRRqIQUgAigCFCIEDQAgAkEQaiEFIAIoAhAiBA0ACyAHQQA2AgAMAwsgAygCBCICQQNxQQNHDQMgAyACQX5xNgIEQQAgADYC7O2CgAAgAyAANgIAIAEgAEEBcjYCBA8LIAIgBTYCCCAFIAI2AgwMAgtBACECCyAGRQ0AAkACQCABIAEoAhwiBUECdEGU8IKAAGoiBCgCAEcNACAEIAI2AgAgAg0BQQBBACgC6O2CgABBfiAFd3E2AujtgoAADAILAkACQCAGKAIQIAFHDQAgBiACNgIQDAELIAYgAjYCFAsgAkUNAQsgAiAGNgIYAkAgASgCECIERQ0AIAIgBDYCECAEIAI2AhgLIAEoAhQiBEUNACACIAQ2AhQgBCACNgIYCyABIANPDQAgAygCBCIEQQFxRQ0AAkACQAJAAkACQCAEQQJxDQACQCADQQAoAvztgoAARw0AQQAgATYC/O2CgABBAEEAKALw7YKAACAAaiIANgLw7YKAACABIABBAXI2AgQgAUEAKAL47YKAAEcNBkEAQQA2AuztgoAAQQBBADYC+O2CgAAPCwJAIANBACgC+O2CgAAiBkcNAEEAIAE2AvjtgoAAQQBBACgC7O2CgAAgAGoiADYC7O2CgAAgASAAQQFyNgIEIAEgAGogADYCAA8LIARBeHEgAGohACADKAIMIQICQCAEQf8BSw0AAkAgAiADKAIIIgVHDQBBAEEAKALk7YKAAEF+IARBA3Z3cTYC5O2CgAAMBQsgAiAFNgIIIAUgAjYCDAwECyADKAIYIQgCQCACIANGDQAgAygCCCIEIAI2AgwgAiAENgIIDAMLAkACQCADKAIUIgRFDQAgA0EUaiEFDAELIAMoAhAiBEUNAiADQRBqIQULA0AgBSEHIAQiAkEUaiEFIAIoAhQiBA0AIAJBEGohBSACKAIQIgQNAAsgB0EANgIADAILIAMgBEF+cTYCBCABIABqIAA2AgAgASAAQQFyNgIEDAMLQQAhAgsgCEUNAAJAAkAgAyADKAIcIgVBAnRBlPCCgABqIgQoAgBHDQAgBCACNgIAIAINAUEAQQAoAujtgoAAQX4gBXdxNgLo7YKAAAwCCwJAAkAgCCgCECADRw0AIAggAjYCEAwBCyAIIAI2AhQLIAJFDQELIAIgCDYCGAJAIAMoAhAiBEUNACACIAQ2AhAgBCACNgIYCyADKAIUIgRFDQAgAiAENgIUIAQgAjYCGAsgASAAaiAANgIAIAEgAEEBcjYCBCABIAZHDQBBACAANgLs7YKAAA8LAkAgAEH/AUsNACAAQXhxQYzugoAAaiECAkACQEEAKALk7YKAACIEQQEgAEEDdnQiAHENAEEAIAQgAHI2AuTtgoAAIAIhAAwBCyACKAIIIQALIAAgATYCDCACIAE2AgggASACNgIMIAEgADYCCA8LQR8hAgJAIABB////B0sNACAAQSYgAEEIdmciAmt2QQFxIAJBAXRrQT5qIQILIAEgAjYCHCABQgA3AhAgAkECdEGU8IKAAGohBQJAAkACQAJAQQAoAujtgoAAIgRBASACdCIDcQ0AIAUgATYCAEEAIAQgA3I2AujtgoAAQQghAEEYIQIMAQsgAEEAQRkgAkEBdmsgAkEfRht0IQIgBSgCACEFA0AgBSIEKAIEQXhxIABGDQIgAkEddiEFIAJBAXQhAiAEIAVBBHFqIgMoAhAiBQ0ACyADQRBqIAE2AgBBCCEAQRghAiAEIQULIAEhBCABIQMMAQsgBCgCCCIFIAE2AgwgBCABNgIIQQAhA0EYIQBBCCECCyABIAJqIAU2AgAgASAENgIMIAEgAGogAzYCAEEAQQAoAoTugoAAQX9qIgFBfyABGzYChO6CgAALCwMAAAtOAAJAIAANAD8AQRB0DwsCQCAAQf//A3ENACAAQX9MDQACQCAAQRB2QAAiAEF/Rw0AQQBBMDYC1PGCgABBfw8LIABBEHQPCxCpgoCAAAALkgEBA3xEAAAAAAAA8D8gACAAoiICRAAAAAAAAOA/oiIDoSIERAAAAAAAAPA/IAShIAOhIAIgAiACIAJEkBXLGaAB+j6iRHdRwRZswVa/oKJETFVVVVVVpT+goiACIAKiIgMgA6IgAiACRNQ4iL7p+qi9okTEsbS9nu4hPqCiRK1SnIBPfpK+oKKgoiAAIAGioaCgC+QeBAt/AnwPfwR8I4CAgIAAQbAEayIFJICAgIAAQQAhBiACQX1qQRhtIgdBACAHQQBKGyIIQWhsIAJqIQkCQCAEQQJ0QcClgoAAaigCACIKIANBf2oiC2oiAkEASA0AIAggC2shDCAKIANqIg1BAXEhDgJAIAJFDQAgCEECdCADQQJ0a0HYpYKAAGohByANQX5xIQ8gBUHAAmohAkEAIQYDQEQAAAAAAAAAACEQRAAAAAAAAAAAIRECQCAMIAZqIg1BAEgNACAHQXxqKAIAtyERCyACIBE5AwACQCANQX9IDQAgBygCALchEAsgAkEIaiAQOQMAIAJBEGohAiAHQQhqIQcgDyAGQQJqIgZHDQALIAwgBmohDAsgDkUNAAJAAkAgDEEATg0ARAAAAAAAAAAAIREMAQsgDEECdEHQpYKAAGooAgC3IRELIAVBwAJqIAZBA3RqIBE5AwALIAlBaGohEkEAIQIgCkEAIApBAEobIQ4gA0H+////B3EhDSADQQFxIRMgA0EDdCAFQcACampBcGohDwNAIAIhDAJAAkAgA0EBTg0ARAAAAAAAAAAAIREMAQtBACEHRAAAAAAAAAAAIRECQCALRQ0AIA8hAiAAIQYDQCAGQQhqKwMAIAIrAwCiIAYrAwAgAkEIaisDAKIgEaCgIREgAkFwaiECIAZBEGohBiANIAdBAmoiB0cNAAsLIBNFDQAgACAHQQN0aisDACAFQcACaiAMIAtqIAdrQQN0aisDAKIgEaAhEQsgBSAMQQN0aiAROQMAIA9BCGohDyAMQQFqIQIgDCAORw0ACyADQf7///8HcSENIANBAXEhFEEvIAlrIRVBMCAJayEWIAVB4ANqQXxqIhcgCkECdGohGCAFQcACakF4aiEZIAVB4ANqQXBqIRogBUFwaiEbIAlBZ2ohHCAKIQwCQANAIAUgDEEDdCICaisDACERAkAgDEEBSA0AQQAhBwJAAkAgDEEBRw0AIAwhAgwBCyAMQf7///8HcSEPIBsgAmohAkEAIQcgBUHgA2ohBgNAIAYgEUQAAAAAAABwPqL8ArciEEQAAAAAAABwwaIgEaD8AjYCACAGQQRqIAJBCGorAwAgEKAiEUQAAAAAAABwPqL8ArciEEQAAAAAAABwwaIgEaD8AjYCACACKwMAIBCgIREgBkEIaiEGIAJBcGohAiAPIAdBAmoiB0cNAAsgDCAHayECCyAMQQFxRQ0AIAVB4ANqIAdBAnRqIBFEAAAAAAAAcD6i/AK3IhBEAAAAAAAAcMGiIBGg/AI2AgAgAkEDdCAFakF4aisDACAQoCERCyARIBIQvIKAgAAiEUQAAAAAAADAP6KcRAAAAAAAACDAoiARoCIRIBH8AiIdt6EhEQJAAkACQAJAAkAgEkEBSCIeDQAgDEECdCAFQeADampBfGoiAiACKAIAIgIgAiAWdSICIBZ0ayIGNgIAIAYgFXUhHyACIB1qIR0MAQsgEg0BIAxBAnQgBUHgA2pqQXxqKAIAQRd1IR8LIB9BAUgNAgwBC0ECIR8gEUQAAAAAAADgP2YNAEEAIR8MAQtBASEGAkAgDEEBSA0AQQEhBiAMQQFxISBBACEHAkAgDEEBRg0AIAxB/v///wdxIRNBACEHIAVB4ANqIQJBACEPA0AgAigCACEGAkACQAJAAkAgD0UNAEH///8HIQ8MAQsgBkUNAUGAgIAIIQ8LIAIgDyAGazYCAEEAIQ8MAQtBASEPCyACQQRqIg4oAgAhBgJAAkACQAJAIA8NAEH///8HIQ8MAQsgBkUNAUGAgIAIIQ8LIA4gDyAGazYCAEEBIQ9BACEGDAELQQAhD0EBIQYLIAJBCGohAiATIAdBAmoiB0cNAAsLICBFDQAgBUHgA2ogB0ECdGoiBygCACECAkACQAJAIAYNAEH///8HIQYMAQsgAkUNAUGAgIAIIQYLIAcgBiACazYCAEEAIQYMAQtBASEGCwJAIB4NAEH///8DIQICQAJAIBwOAgEAAgtB////ASECCyAMQQJ0IAVB4ANqakF8aiIHIAcoAgAgAnE2AgALIB1BAWohHSAfQQJHDQBEAAAAAAAA8D8gEaEhEUECIR8gBkEBcQ0AIBFEAAAAAAAA8D8gEhC8goCAAKEhEQsCQCARRAAAAAAAAAAAYg0AAkAgDCAKTA0AIAwgCmsiAkEDcSEHQQAhBiAMIQ8CQCAKIAxrQXxLDQAgAkF8cSEOIBogDEECdGohAkEAIQYgDCEPA0AgAigCACACQQRqKAIAIAJBCGooAgAgAkEMaigCACAGcnJyciEGIAJBcGohAiAPQXxqIQ8gDkF8aiIODQALCwJAIAdFDQAgFyAPQQJ0aiECA0AgAigCACAGciEGIAJBfGohAiAHQX9qIgcNAAsLIAZFDQAgBUHgA2ogDEECdGpBfGohAgNAIAxBf2ohDCASQWhqIRIgAigCACEGIAJBfGohAiAGRQ0ADAQLCyAYIQIgDCEPA0AgD0EBaiEPIAIoAgAhBiACQXxqIQIgBkUNAAsgGSADIAxqQQN0aiEOA0AgBUHAAmogDCADaiITQQN0aiAMQQFqIgwgCGpBAnRB0KWCgABqKAIAtzkDAAJAAkAgA0EBTg0ARAAAAAAAAAAAIREMAQtBACEHRAAAAAAAAAAAIRECQCALRQ0AIA4hAiAAIQYDQCAGQQhqKwMAIAIrAwCiIAYrAwAgAkEIaisDAKIgEaCgIREgAkFwaiECIAZBEGohBiANIAdBAmoiB0cNAAsLIBRFDQAgACAHQQN0aisDACAFQcACaiATIAdrQQN0aisDAKIgEaAhEQsgBSAMQQN0aiAROQMAIA5BCGohDiAMIA9IDQALIA8hDAwBCwsCQAJAIBFBGCAJaxC8goCAACIRRAAAAAAAAHBBZkUNACAFQeADaiAMQQJ0aiARRAAAAAAAAHA+ovwCIgK3RAAAAAAAAHDBoiARoPwCNgIAIAxBAWohDCAJIRIMAQsgEfwCIQILIAVB4ANqIAxBAnRqIAI2AgALAkAgDEEASA0ARAAAAAAAAPA/IBIQvIKAgAAhEQJAAkAgDEEBcUUNACAMIQYMAQsgBSAMQQN0aiARIAVB4ANqIAxBAnRqKAIAt6I5AwAgDEF/aiEGIBFEAAAAAAAAcD6iIRELAkAgDEUNACAGQQFqIQcgBkECdCAFQeADampBfGohAiAGQQN0IAVqQXhqIQYDQCAGIBFEAAAAAAAAcD6iIhAgAigCALeiOQMAIAZBCGogESACQQRqKAIAt6I5AwAgAkF4aiECIAZBcGohBiAQRAAAAAAAAHA+oiERIAdBfmoiBw0ACwsgBSAMQQN0aiENIAwhAgNAAkACQCAKIAwgAiIOayIDIAogA0gbIhNBAE4NAEQAAAAAAAAAACERDAELAkACQCATDQBBACEGRAAAAAAAAAAAIREMAQsgE0EBakF+cSEPRAAAAAAAAAAAIRFBACECQQAhBgNAIAJBqLuCgABqKwMAIA0gAmoiB0EIaisDAKIgAkGgu4KAAGorAwAgBysDAKIgEaCgIREgAkEQaiECIA8gBkECaiIGRw0ACwsgE0EBcQ0AIAZBA3RBoLuCgABqKwMAIAUgBiAOakEDdGorAwCiIBGgIRELIAVBoAFqIANBA3RqIBE5AwAgDUF4aiENIA5Bf2ohAiAOQQBKDQALCwJAAkACQAJAAkAgBA4EAQICAAQLRAAAAAAAAAAAISECQCAMQQFIDQAgBUGgAWogDEEDdGoiBisDACEQAkACQCAMQQFxDQAgECERIAwhAgwBCyAFQaABaiAMQX9qIgJBA3RqIgcgBysDACIiIBCgIhE5AwAgBiAQICIgEaGgOQMACyAMQQFGDQAgAkEBaiEGIAJBA3QgBUGgAWpqQXBqIQIDQCACIAIrAwAiIyACQQhqIgcrAwAiJCARoCIQoCIiOQMAIAJBEGogESAkIBChoDkDACAHIBAgIyAioaA5AwAgAkFwaiECICIhESAGQX5qIgZBAUsNAAsgDEEBRg0AIAxBAWohBiAFQaABaiAMQQN0aiIHQXhqIQIgBysDACERA0AgAiACKwMAIiIgEaAiEDkDACACQQhqIBEgIiAQoaA5AwAgAkF4aiECIBAhESAGQX9qIgZBAksNAAsgDEEBaiEGIAVBoAFqIAxBA3RqIQJEAAAAAAAAAAAhIQNAICEgAisDAKAhISACQXhqIQIgBkF/aiIGQQJKDQALCyAFKwOgASERIB8NAiABIBE5AwAgASAhOQMQIAEgBSsDqAE5AwgMAwsCQAJAIAxBAE4NAEQAAAAAAAAAACERDAELAkACQCAMQQNxQQNHDQBEAAAAAAAAAAAhESAMIQYMAQsgDEEBakEDcSEHIAVBoAFqIAxBA3RqIQJEAAAAAAAAAAAhESAMIQYDQCAGQX9qIQYgESACKwMAoCERIAJBeGohAiAHQX9qIgcNAAsLIAxBA0kNACAGQQFqIQcgBkEDdCAFQaABampBaGohAgNAIBEgAkEYaisDAKAgAkEQaisDAKAgAkEIaisDAKAgAisDAKAhESACQWBqIQIgB0F8aiIHDQALCyABIBGaIBEgHxs5AwAMAgsCQAJAIAxBAE4NAEQAAAAAAAAAACERDAELAkACQCAMQQNxQQNHDQBEAAAAAAAAAAAhESAMIQYMAQsgDEEBakEDcSEHIAVBoAFqIAxBA3RqIQJEAAAAAAAAAAAhESAMIQYDQCAGQX9qIQYgESACKwMAoCERIAJBeGohAiAHQX9qIgcNAAsLIAxBA0kNACAGQQFqIQcgBkEDdCAFQaABampBaGohAgNAIBEgAkEYaisDAKAgAkEQaisDAKAgAkEIaisDAKAgAisDAKAhESACQWBqIQIgB0F8aiIHDQALCyABIBGaIBEgHxs5AwAgBSsDoAEgEaEhEUEBIQICQCAMQQFIDQAgDEEDcSEGAkAgDEF/akEDSQ0AIAxB/P///wdxIQ0gBUGgAWpBIGohAkEAIQcDQCARIAJBaGorAwCgIAJBcGorAwCgIAJBeGorAwCgIAIrAwCgIREgAkEgaiECIA0gB0EEaiIHRw0ACyAHQQFqIQILIAZFDQAgBUGgAWogAkEDdGohAgNAIBEgAisDAKAhESACQQhqIQIgBkF/aiIGDQALCyABIBGaIBEgHxs5AwgMAQsgASARmjkDACABICGaOQMQIAEgBSsDqAGaOQMICyAFQbAEaiSAgICAACAdQQdxC5kJBQF/AX4CfwR8AX8jgICAgABBMGsiAiSAgICAAAJAAkACQAJAIAC9IgNCIIinIgRB/////wdxIgVB+tS9gARLDQAgBEH//z9xQfvDJEYNAQJAIAVB/LKLgARLDQACQCADQgBTDQAgASAARAAAQFT7Ifm/oCIARDFjYhphtNC9oCIGOQMAIAEgACAGoUQxY2IaYbTQvaA5AwhBASEEDAULIAEgAEQAAEBU+yH5P6AiAEQxY2IaYbTQPaAiBjkDACABIAAgBqFEMWNiGmG00D2gOQMIQX8hBAwECwJAIANCAFMNACABIABEAABAVPshCcCgIgBEMWNiGmG04L2gIgY5AwAgASAAIAahRDFjYhphtOC9oDkDCEECIQQMBAsgASAARAAAQFT7IQlAoCIARDFjYhphtOA9oCIGOQMAIAEgACAGoUQxY2IaYbTgPaA5AwhBfiEEDAMLAkAgBUG7jPGABEsNAAJAIAVBvPvXgARLDQAgBUH8ssuABEYNAgJAIANCAFMNACABIABEAAAwf3zZEsCgIgBEypSTp5EO6b2gIgY5AwAgASAAIAahRMqUk6eRDum9oDkDCEEDIQQMBQsgASAARAAAMH982RJAoCIARMqUk6eRDuk9oCIGOQMAIAEgACAGoUTKlJOnkQ7pPaA5AwhBfSEEDAQLIAVB+8PkgARGDQECQCADQgBTDQAgASAARAAAQFT7IRnAoCIARDFjYhphtPC9oCIGOQMAIAEgACAGoUQxY2IaYbTwvaA5AwhBBCEEDAQLIAEgAEQAAEBU+yEZQKAiAEQxY2IaYbTwPaAiBjkDACABIAAgBqFEMWNiGmG08D2gOQMIQXwhBAwDCyAFQfrD5IkESw0BCyABIAAgAESDyMltMF/kP6JEAAAAAAAAOEOgRAAAAAAAADjDoCIGRAAAQFT7Ifm/oqAiByAGRDFjYhphtNA9oiIIoSIAOQMAAkAgBUEUdiIEIAC9QjSIp0H/D3FrQRFIDQAgASAHIAZEAABgGmG00D2iIgChIgkgBkRzcAMuihmjO6IgByAJoSAAoaEiCKEiADkDAAJAIAQgAL1CNIinQf8PcWtBMk4NACAJIQcMAQsgASAJIAZEAAAALooZozuiIgChIgcgBkTBSSAlmoN7OaIgCSAHoSAAoaEiCKEiADkDAAsgBvwCIQQgASAHIAChIAihOQMIDAELAkAgBUGAgMD/B0kNACABIAAgAKEiADkDACABIAA5AwhBACEEDAELIAIgA0L/////////B4NCgICAgICAgLDBAIS/IgD8ArciBjkDECACIAAgBqFEAAAAAAAAcEGiIgD8ArciBjkDGCACIAAgBqFEAAAAAAAAcEGiOQMgIAJBIGohBEEEIQoDQCAKQX9qIQogBCsDACEAIARBeGohBCAARAAAAAAAAAAAYQ0ACyACQRBqIAIgBUEUdkHqd2ogCkEBEKyCgIAAIQQgAisDACEAAkAgA0J/VQ0AIAEgAJo5AwAgASACKwMImjkDCEEAIARrIQQMAQsgASAAOQMAIAEgAisDCDkDCAsgAkEwaiSAgICAACAEC5oBAQN8IAAgAKIiAyADIAOioiADRHzVz1o62eU9okTrnCuK5uVavqCiIAMgA0R9/rFX4x3HPqJE1WHBGaABKr+gokSm+BARERGBP6CgIQQgACADoiEFAkAgAg0AIAUgAyAEokRJVVVVVVXFv6CiIACgDwsgACADIAFEAAAAAAAA4D+iIAUgBKKhoiABoSAFRElVVVVVVcU/oqChC/MBAgJ/AXwjgICAgABBEGsiASSAgICAAAJAAkAgAL1CIIinQf////8HcSICQfvDpP8DSw0ARAAAAAAAAPA/IQMgAkGewZryA0kNASAARAAAAAAAAAAAEKuCgIAAIQMMAQsCQCACQYCAwP8HSQ0AIAAgAKEhAwwBCyAAIAEQrYKAgAAhAiABKwMIIQAgASsDACEDAkACQAJAAkAgAkEDcQ4EAAECAwALIAMgABCrgoCAACEDDAMLIAMgAEEBEK6CgIAAmiEDDAILIAMgABCrgoCAAJohAwwBCyADIABBARCugoCAACEDCyABQRBqJICAgIAAIAMLDQAgASABmiABIAAbogsTACAARAAAAAAAAAAQELCCgIAACxMAIABEAAAAAAAAAHAQsIKAgAAL5AIEAX4CfwJ8AX4CQAJAIAC9IgFCNIinQf8PcSICQbd4akE/Tw0AIAIhAwwBCwJAIAJByQdPDQBEAAAAAAAA8D8PC0EAIQMgAkGJCEkNAAJAIAFCgICAgICAgHhSDQBEAAAAAAAAAAAPCwJAIAJB/w9HDQAgAEQAAAAAAADwP6APCwJAIAFCf1UNAEEAELGCgIAADwtBABCygoCAAA8LIABBACsD4LuCgACiQQArA+i7goAAIgSgIgUgBKEiBEEAKwP4u4KAAKIgBEEAKwPwu4KAAKIgAKCgIgAgAKIiBCAEoiAAQQArA5i8goAAokEAKwOQvIKAAKCiIAQgAEEAKwOIvIKAAKJBACsDgLyCgACgoiAFvSIBp0EEdEHwD3EiAkHQvIKAAGorAwAgAKCgoCEAIAJB2LyCgABqKQMAIAFCLYZ8IQYCQCADDQAgACAGIAEQtIKAgAAPCyAGvyIEIACiIASgC58BAQN8AkAgAkKAgICACINCAFINACABQoCAgICAgID4QHy/IgMgAKIgA6BEAAAAAAAAAH+iDwsCQCABQoCAgICAgIDwP3y/IgMgAKIiBCADoCIARAAAAAAAAPA/Y0UNACAARAAAAAAAAPA/oCIFIAQgAyAAoaAgAEQAAAAAAADwPyAFoaCgoEQAAAAAAADwv6AhAAsgAEQAAAAAAAAQAKIL6gIFAX4BfwJ8AX8BfgJAIAC9IgFCNIinQf8PcSICQbd4akE/SQ0AAkAgAkHJB08NAEQAAAAAAADwPw8LAkAgAkGJCEkNAAJAIAFCgICAgICAgHhSDQBEAAAAAAAAAAAPCwJAIAJB/w9HDQAgAEQAAAAAAADwP6APCwJAIAFCAFMNAEEAELKCgIAADwsgAUKAgICAgICzyEBUDQBBABCxgoCAAA8LQQAgAiABQgGGQoCAgICAgICNgX9WGyECCyAAIABBACsDoLyCgAAiA6AiBCADoaEiACAAoiIDIAOiIABBACsDyLyCgACiQQArA8C8goAAoKIgAyAAQQArA7i8goAAokEAKwOwvIKAAKCiIABBACsDqLyCgACiIAS9IgGnQQR0QfAPcSIFQdC8goAAaisDAKCgoCEAIAFCLYYgBUHYvIKAAGopAwB8IQYCQCACDQAgACAGIAEQtoKAgAAPCyAGvyIDIACiIAOgC5kBAQN8AkAgAkKAgICACINCAFINACABQoCAgICAgIB4fL8iAyAAoiADoCIAIACgDwsCQCABQoCAgICAgIDwP3y/IgMgAKIiBCADoCIARAAAAAAAAPA/Y0UNACAARAAAAAAAAPA/oCIFIAQgAyAAoaAgAEQAAAAAAADwPyAFoaCgoEQAAAAAAADwv6AhAAsgAEQAAAAAAAAQAKILFwBEAAAAAAAA8P9EAAAAAAAA8H8gABsLDAAgACAAoSIAIACjC+MEBAF+BnwBfwF+AkAgAL0iAUKAgICAgICAiUB8Qv//////n8IBVg0AIABEAAAAAAAA8L+gIgAgACAARAAAAAAAAKBBoiICoCACoSICIAKiQQArA4jNgoAAIgOiIgSgIgUgACAAIACiIgaiIgcgByAHIAdBACsD2M2CgACiIAZBACsD0M2CgACiIABBACsDyM2CgACiQQArA8DNgoAAoKCgoiAGQQArA7jNgoAAoiAAQQArA7DNgoAAokEAKwOozYKAAKCgoKIgBkEAKwOgzYKAAKIgAEEAKwOYzYKAAKJBACsDkM2CgACgoKCiIAAgAqEgA6IgACACoKIgBCAAIAWhoKCgoA8LAkACQCABQjCIpyIIQZCAfmpBn4B+Sw0AAkAgAEQAAAAAAAAAAGINAEEBELeCgIAADwsgAUKAgICAgICA+P8AUQ0BAkACQCABQgBTDQAgCEHw/wFxQfD/AUcNAQsgABC4goCAAA8LIABEAAAAAAAAMEOivUKAgICAgICA4Hx8IQELIAFCgICAgICAgI1AfCIJQjSHp7ciBkEAKwPQzIKAAKIgCUItiKdB/wBxQQR0IghB6M2CgABqKwMAoCIHIAhB4M2CgABqKwMAIAEgCUKAgICAgICAeIN9vyAIQeDdgoAAaisDAKEgCEHo3YKAAGorAwChoiIAoCIDIAAgACAAoiICoiACIABBACsDgM2CgACiQQArA/jMgoAAoKIgAEEAKwPwzIKAAKJBACsD6MyCgACgoKIgAkEAKwPgzIKAAKIgBkEAKwPYzIKAAKIgACAHIAOhoKCgoKAhAAsgAAvtAwUBfgF/AX4BfwZ8AkACQAJAAkAgAL0iAUL/////////B1UNAAJAIABEAAAAAAAAAABiDQBEAAAAAAAA8L8gACAAoqMPCyABQn9VDQEgACAAoUQAAAAAAAAAAKMPCyABQv/////////3/wBWDQJBgXghAgJAIAFCIIgiA0KAgMD/A1ENACADpyEEDAILQYCAwP8DIQQgAacNAUQAAAAAAAAAAA8LIABEAAAAAAAAUEOivSIBQiCIpyEEQct3IQILIAIgBEHiviVqIgRBFHZqtyIFRABgn1ATRNM/oiIGIARB//8/cUGewZr/A2qtQiCGIAFC/////w+DhL9EAAAAAAAA8L+gIgAgACAARAAAAAAAAOA/oqIiB6G9QoCAgIBwg78iCEQAACAVe8vbP6IiCaAiCiAJIAYgCqGgIAAgAEQAAAAAAAAAQKCjIgYgByAGIAaiIgkgCaIiBiAGIAZEn8Z40Amawz+iRK94jh3Fccw/oKJEBPqXmZmZ2T+goiAJIAYgBiAGRERSPt8S8cI/okTeA8uWZEbHP6CiRFmTIpQkSdI/oKJEk1VVVVVV5T+goqCgoiAAIAihIAehoCIARAAAIBV7y9s/oiAFRDYr8RHz/lk9oiAAIAigRNWtmso4lLs9oqCgoKAhAAsgAAsHACAAkPwAC64BAAJAAkAgAUGACEgNACAARAAAAAAAAOB/oiEAAkAgAUH/D08NACABQYF4aiEBDAILIABEAAAAAAAA4H+iIQAgAUH9FyABQf0XSRtBgnBqIQEMAQsgAUGBeEoNACAARAAAAAAAAGADoiEAAkAgAUG4cE0NACABQckHaiEBDAELIABEAAAAAAAAYAOiIQAgAUHwaCABQfBoSxtBkg9qIQELIAAgAUH/B2qtQjSGv6ILC+nlAgEAQYAIC+DlAgYAAAAEAAAAAwAAALh+mnmaeWZmuH4zcwAAAAAAAAAA4HAsDwMCAQD+7cCERhcEAP/84ps9CwIAAAAAAAAAAAD69erLRzIqJiMhHx0cGxoZGBcWFRQTEhEQDw4NDAsKCQgHBgUEAwIBALNjAEc4Kx4VDAYAAAAAAAAAAAAAAAAAx6WQfG1gVEc9MyogFw8IAPHh08e7r6SZjoR7cmlgWFBIQDkyLCYhHRgUEAwJBQIAbAQAAIAEAACQBAAAD4OKipubra0AAAAAAAAAAAAAAABFXXN2g4qNipaWm5aboKagg4CGjY2NkZGRlpubm5ugoKCgpqatrbbAtsDAwM3AzeC8BAAA0AQAAOAEAAAAAAAABAYYBwUAAAIAAAwcKQ389w8qGQ4B/j4p9/YlQfwD+gRCB/gQDib9IQAAAAAAAAAADRYnFwz/JEAb+vkKNysRAQEIAQEG9Uo19/Q3TPQI/QNdG/waJzsD+AIATQsJ+BYs+gcoCRoDCfkUZfkEA/gqGgDxIUQCF/43Lv4PA/8VECn6Gz0nBfUqWAQB/jxBBvz/+0k4AfcTXh33AAxjBgQI7WYu8wMCDQMCCetUSO71LmjqCBImMBcA8EZT6wsF9XUW+PoXdfQDA/hfHAT2D0088f8EfAL8AyZUGOcCDSoNHxX8OC7//yNP8xP5QVj38hQEUTHjFABLA+8F9yxc+AH9FkUf+l8p9AUnQxD8AQD6eDfc8yx6BOhRBQsDBwIACQpYEAUAAEAFAACQBQAALgJaV11bUmIAAAAAAAAAAAAAAABteHYMcXN1d2M7V28/b3BQfnx9fIF5fheEf39/fn96hYKGZXZ3kX5WfHh7d6qta208BgAAUAYAAGAGAAAIECAADCM8U2yEnbTO5A8gN01lfZevyeETKkJZcomiuNHmDBkySGF4k6zI3xosRVpyh5+0zeENFjVQaoKctM3kDxksQFpzjqjE3hMYPlJkeJGovtYWHzJPZ3iXqsvjFR0tQWp8lqvE4B4xS2F5jqW60eUTGTRGXXSPpsDbGiI+S2F2kafC2RkhOEZbcY+lxN8VIjNIYXWRq8TeFB0yQ1p1kKjF3RYfMEJfdZKoxN4YITNNdIaetMjgFRxGV2p8larC2RohNUBTdZitzOEbIkFfbIGbrtLhFBpIY3GDmrDI2yIrPU5dcpuxzeUXHTZhfIqjs9HlHiY4WXaBnrLI5xUdMT9Vb46jwd4bME1nhZ6zxNfoHS9KY3yXsMbc7SEqPUxdeZuuz+EdNVdwiJqqvNDjGB40VIOWprrL5SUwQFRodpyxyeZRCwoJCgkKCe8I7wgKCfwIFwnvCEgLFApaCT8JCgniCOII4gjiCJIItwkkCSQJCgkKCQoJJAkkCT8JMgmQDM4KJAkkCQoJ4gitCJ8I1QiSCJwJqgk/CVoJWglaCVoJPwlnCQoJlw3wC08InwjiCOII4gjvCAoJ1QjSDEUMFApaCccIrQifCJIIkghCCAAQBQ+tCDwKPApnCQoJWgk/CRoIagysDD8JrQj5CYIJJAkKCXcIrQgKDaANpgqSCNUInAkyCT8Jnwg1CDIJdAkXCT8JWgl0CXQJdAmcCT8Jww4tDoIJ3wk/CeII4gj8CJ8IAAi2DJkMmQoeC48JFwn8CPwI4ghPCL8M5AzBCvYKjwnVCNUIxwhPCDUIOQulC0kKPwlnCTIJkgjHCMcIQgiZDH0MSQoUCuIIhQjHCK0IrQhdCGoM7gy0CmcJ4gjiCOII7wiSCEIIRQzIDJwJDQjvCMQJPwm3CYIJhQizDdIMCgmMClcKqgk/CVoJJAlPCF8Nzw3eC/AL/AieB60I4gjiCOIITA0mDScIfwo5CzIJdAniCKoJ7AmwDqANngdkClEL3wlaCT8JnAnVCNQLyAy0CkgLtApqCE8I7wi6CMcIbw5JDukHsQdkCowKFArECRcJPwmHDFUNMgkaCEgLSAskCbcJxwh3CAoNJg0eC9wKFwlqCOII7whCCA0IFwn8CIUIdwiFCD8JSQqMCowK+QlnCYIJrQjVCK0IrQgkCXQJLwqMCt4LrAz2CkgLqgkaCPwICgkyCUwJrQhqCE8I7wjECekK6Qo8ChQKPwlcDoEOugguB4UIwQqmCnEK0QmfCOkKWAymCvkJHgvRCYUIWgmtCIUI1LKUgWxgVVJPTT07OTgzMTAtKikoJiQiHx4VDAoDAQD/9fTs6eHZy76wr6GViH1yZltRRzw0KyMcFBMSDAsFALOKjJSXlZmXo3RDUjtcSGRZXAAAAAAAAAAAAAAAAAAAEAAAAABjQiQkIiQiIiIiU0UkNCJ0ZkZERLBmREQiQVVEVCR0jZiLqoS7uNiJhPmouYtoZmRERLLaubmq9Ni7u6r0u7vbimebuLmJdLebmIiE2bi4qqTZq5uL9Km4uaqk2N/aitaPvNqo9I2Im6qoitzbi6TbytiJqLr2uYt0udu5imRkhmRmIkREZESoy93aqKeaiGhGpPariYuJm9rbi//+/e4OAwIBAP/+/NojAwIBAP/++tA7BAIBAP/+9sJHCgIBAP/87LdSCAIBAP/867RaEQIBAP/44KthHgQBAP/+7K1fJQcBAAAAAAAAAAAA////gwaR///////sXQ9g///////CUxlH3f////+iSSJCov///9J+SSs5rf///8l9RzA6gv///6ZuSTk+aNL///t7QTdEZKv/AAAAAAAAAAD6AAMABgADAAMAAwAEAAMAAwADAM0BAAAgAAoAFC5kAZAGAADQBwAAUAoAAJAKAACwCgAAUAsAAKALAADwCwAABxcmNkVVZHSDk6KywdDf7w0ZKTdFU2Jwf46dq7vL3OwPFSIzPU5can6ImKe5zeHwChUkMj9PX25+jZ2tvc3d7REUJTM7Tllre4aWpLjN4PAKDyAzQ1FgcIGOnq29zNzsCBUlM0FPYnF+ipuos8DR2gwPIjc/TldsdoOUp7nL2+wQEyAkOE9bbHaImqu6zNztCxwrOkpZaXiHlqW0xNPi8QYQIS48S1xre4mcqbnH1uELEx4sOUpZaXmHmKm6ytrqDBMdLjlHWGR4hJSltsfY6REXIy44TVxqe4aYp7nM3u0OES01P0tZa3OEl6u8zt3wCRAdKDhHWGd3iZqrvc3e7RATJDA5TFdpdoSWp7nK2uwMER02R1FeaH6IlaS2yd3tDxwvPk9hc4GOm6i0wtDf7ggOHi0+Tl5vf4+fr8DP3+8RHjE+T1xrd4SRoK6+zNzrDhMkLT1MW2x5ipqsvc3e7gwSHy08TFtre4qaq7vM3ewNER8rNUZTZ3KDlae5y9ztERYjKjpOXW59i5uqvM7g8AgPIjJDU2Nzg5KissHR4O8NEClCSVZfb4CJlqO3zuHxERklND9LXGZ3hJCgr7/U5xMfMUFTZHWFk6Guu8jV4/ISHzREWGd1foqVo7HAz9/vEB0vPUxaaneFk6GwwdHg8A8VIzI9SVZhbneBja/G2u1JDm0LbQttC20LbQttC20LbQttC20LbQuTC5MLbQseC5AMDQycC/AL8AvCC8ILwguTC5MLwgucC0gLHgseC6YKUA+uD6ULhwyHDHYL8AseCzIMrAxtCx4LPAr5CdwKbQu8DX0MwgsfDMsLSAttC20LbQttC0gLSAtIC0gLSAvBCr4TvhN2C/UNOQ3wCw0M6QpYDFgMnAseC9EJ7AnBCkgLTBE1EIwKwQqcC8ILbQseC6ULywttC20LbQttC0gLpgokDssLnAvwC/ALOQv2CvALkAznC6UL2wzbDKUL7gyvC2sUlhPsCQoNxg05DX0MFgwwDaULjApXCn8K6QoeC3EK2RM2FAcSTBGcCVEL5wuHDGEMfwq0CkgLHgvpCh4LjAoyDEgLkwttC20LbQttC5MLkwuTC5MLbQttC5MLkwuTC2oQhwylCx8MwgtIC0gLbQucCzkLZAvLC5wLwgt9DDkLsA6wDqwMHwylC0gLbQtIC5wLdgvpCukKHgtIC0gLZAoOD64PhwwyDKwMdgvnC5MLkwsNDB4L6QrpCukK6QoUCgUP8A8dDbwNFgy0CsILdgsyDA0MHgseC1cKVwoeC/YKGxQeE5kMBQ9xDWEMUQtVDXsNjAoUCnEKtAoeC/YKwQoNEM0O2wxYDG0LSAtIC20L6Qq0CukKtArpCh4LSAv2CtkTvhPnC9kNrAzwCw0MgAsfDFELtAq0CrQKHgvpCjwK1RDVECwL3wmHDDANMA0DDAMMMA3wCx4LVwoUCqYKwQrwC2QL9gpIC7QKfwpRCx8MTgxODJAMYQzwC8ILkwseCxcRKg9tC0gLHgtICx4LHgtIC0gLSAseC0gLbQtICx4LpQtkC2QLpQulC/ALMgyQDE4M8AvCC5wLnAucC20LtAqFEDUQ7gwTDW0LkwtIC6ULpQseC+kKtAoeCx4LHgvpCvAPrg8fDMILbQttC20LSAttC20LHgseCx4L6QpIC9wKBxLfEWEMcQ2HDKULUQveCzIMtAp/Cn8Kfwq0CukKjAo1EK0QzQ5JDqYK3ApIC0gLwgucC20LHgt/Cn8K6QpIC3cQ4g3BCh4LHgtIC0gLSAttC20LSAttC20LbQuTC0gLNhQ5E9UIaA3NDpcNEw0eC+4Mlw1ODFELnAm3CcEKbQt7DWUOMgx9DB0N5wuHDIcMpQuQDA0MbQttC38K7AmCCaULwgvpCukKtArpCh4LnAvwCx8MTgxODE4MHwzCC8ILgAs5C38KpgrcCsILaA3ZDR0NrAzwC8ILkwttC0gLHgvLC4ALUQvCC8ILnAvLCx8M8AvwC8ILSAseC20LbQtIC1APfw/CC30MHQ2QDNsM2wyXDXgOcQ2mCoUInAkUCi8K4czJuLevnpqZh3dzcW5tY2JfT0Q0MjAtKyAfGxIKAwD/++vm1MnEtqemo5eKfG5oWk5MRkU5LSIYFQsGBQQDAK+UoLCyra6ksa7EtsbAtkQ+QjxIdVVadoiXjqCOmwAAAAAAAAAAAAFkZmZERCQiYKRrnrm0uYtmQEIkIiIAASDQi42/mLmbaGCraKZmZmaEAQAAAAAQEABQbU5ruYtnZdDUjYutmXtnJAAAAAAAAAEwAAAAAAAAIESHe3d3Z0ViRGd4dnZmR2KGiJ24tpmLhtCo+Eu9j3lrIDEiIiIAEQLS64t7uYlphmKHaLZkt6uGZEZERkJCIoNApmZEJAIBAIamZkQiIkKE1Paei2trV2Zk2316iXZnhHKHiWmrajIipNaNj7mXeWfAIgAAAAAAAdBtSruG+Z+JZm6adldld2UAAgAkJEJEI2CkZmQkAAIhp4quZmRUAgJka3h3JMUYAP/+/fQMAwIBAP/+/OAmAwIBAP/++9E5BAIBAP/+9MNFBAIBAP/76LhUBwIBAP/+8LpWDgIBAP/+77JbHgUBAP/447FkEwIBAAAAAAAAAAAA////nASa///////jZg9c///////VUxhI7P////+WTCE/1v///755TSs3uf////WJRys7i/////+DQjJCa8L//6Z0TDc1ff//AAAAAAAAAABkAAMAKAADAAMAAwAFAA4ADgAKAAsAAwAIAAkABwADAFsBAAAgABAAZiarATAMAAAwDgAAMBIAAHASAACQEgAAkBMAAOATAAAwFAAAAAAAAFzKvti235rinOZ47Hr0zPw0A4YLiBNkGWYdSiBCJ6Q1+ff29fTq0srJyMWuUjs4NzYuFgwLCgkHAEAAy5YA18OmfW5SAAAAALsUAAC+FAAAeACAQADongoA5gDz3cC1AGQA8AAgAGQAzTwAMAAgq1UAwIBAAM2aZjMA1auAVSsA4MCggGBAIABkKBAHAwEAAApn8g5WzeQdCmfyDnVSggxZmgQZdVKCDEYRMQrtA2IURhExCtoC1wf5xq0P2gLXByK2UgXa+qQKIrZSBQAAAABG8y4eK+NLDh9mgBgcLB0K2mFIEu2c9AbsMBML45ClBO2kHQIK32sDAAAAAAAAAAD9+vTp1LaWg3huYlVIPDEoIBkTDw0LCQgHBgUEAwIBANLQzsvHwbeojmhKNCUbFA4KBgQCAAAAAAAAAAAAAAAA38m3p5iKfG9iWE9GPjgyLCcjHxsYFRIQDgwKCAYEAwIBALywm4p3YUMrGgoApXdQPS8jGxQOCQQAcT8ACAoMEH0zGhIPDAsKCQgHBgUEAwIBAMZpLRYPDAsKCQgHBgUEAwIBANWidFM7KyAYEg8MCQcGBQMCAO+7dDscEAsKCQgHBgUEAwIBAPrlvIdWMx4TDQoIBgUEAwIBAPnr1bmcgGdTQjUqIRoVEQ0KAP75686kdk0uGxAKBwUEAwIBAP/9+e/cv5x3VTklFw8KBgQCAP/9+/bt38uzmHxiSzcoHRUPAP/+/ffcompDKhwSDAkGBAMCAAAAAAAAAAAAAAAAAB85a6DNzf///////////////0UvQ2+mzf///////////////1JKT19tgJGgrc3NzeD//+D/4H1KO0Vhjbb//////////////61zVUlMXHORrc3g4P///////6aGcWZlZmt2fYqRm6a2wMDNluC2hmVTT1VheJGtzeD////////gwJZ4ZVxZXWZ2hqC2wODg4P/g4LabhnZtaGZqb3aDkaCtgwAAAAAAAAAAAAAAAAAA8b6yhFdKKQ4A38GdjGo5JxIAAAAAAAAAAAAAAAAAAACDSo1PUIpfaIZfY1t9XUx7c3sAAAAAAAAAAAAAAAAAAIAA1ioA64AVAPS4SAsA+NaAKgcA+OGqUBkFAPvsxn42EgMA+u7Tn1IjDwUA+ufLqIBYNRkGAPzu2LmUbEcoEgQA/fPhx6aAWjkfDQMA/vbp1LeTbUksFwoCAP/68N/GpoBaOiEQBgEA//v059K1km5LLhkMBQEA//347t3EpIBcPCMSCAMBAP/9+fLl0LSSbkwwGw4HAwEAAAAAAAAAAACBAM8yAOyBFAD1uUgKAPnVgSoGAPriqVcbBAD76cKCPhQEAPrsz6BjLxEDAP/w2baDUSkLAQD//unJn2s9FAIBAP/56c6qgFYyFwcBAP/67tm6lGxGJxIGAQD//PPiyKaAWjgeDQQBAP/89efRtJJuTC8ZCwQBAP/9+O3bwqOAXT4lEwgDAQD//vrx4s2xkW9PMx4PBgIBAAAAAAAAAAAAgQDLNgDqgRcA9bhJCgD614EpBQD86K1WGAMA/fDIgTgPAgD99NmkXiYKAQD99eK9hEcbBwEA/fbny59pOBcGAQD/+OvVs4VVLxMFAQD//vPdwp91RiUMAgEA//746tCrgFUwFggCAQD//vrw3L2Va0MkEAYCAQD//vvz48mmgFo3HQ0FAgEA//789urVt5NtSSsWCgQCAQAAAAAAAAAAAIIAyDoA54IaAPS4TAwA+daCKwYA/OitVxgDAP3xy4M4DgIA/vbdp14jCAEA/vnowYJBFwUBAP/779OiYy0PBAEA//vz37qDSiELAwEA//z15sqeaTkYCAIBAP/99+vWs4RULBMHAgEA//768N/En3BFJA8GAgEA//799efRsIhdNxsLAwIBAP/+/fzv3cKedUwqEgQDAgEAAAAAAAAAAAAAAAIFCQ4UGyMsNkFNWmh3hwAAAAAAAAAAAAAAAAAAAP4xQ01SXWPGCxIYHyQt/y5CTldeaNAOFSAqM0L/XmhtcHN2+DVFUFhfZgAAAAAAADB1AABwFwAAINH//yDR//8ADyc0PURKT1RYXF9jZmlsb3J1d3p8foGDhYeJi46PkZOVl5mbnZ6goqOlp6iqq62usLGztLa3ubq7vb7AwcLExcfIycvMzc/Q0dPU1dfY2dvc3d/g4ePk5ufo6uvs7u/x8vP19vj5+vz9/wAAAAAAAAAcKzQ7QUZKTlFVV1pdX2JkZmlrbW9xc3R2eHp7fX+AgoOFhoiJioyNj5CRk5SVl5iZmpydnp+goqOkpaanqKmrrK2ur7CxsrO0tba3uLm6u7y8vb6/wMHCw8TFxsfIycrLy8zNzs/Q0dLT1NXW1tfY2drb3N3e3+Dg4eLj5OXm5+jp6uvs7O3u7/Dx8vP09fb3+Pn6+/z9/v8AAAAAAAAAAAgdKTE4PkJGSk1QU1ZYW11fYWNlZ2lrbG5wcXN0dnd5ent9fn+BgoOEhoeIiYqMjY6PkJGSk5SVlpeYmZqcnZ6fn6ChoqOkpaanqKmqq6usra6vsLGxsrO0tbW2t7i5ubq7vL29vr/AwMHCw8PExcbGx8jIycrLy8zNzs7P0NHR0tPT1NXW1tfY2Nna29vc3d3e3+Dg4eLi4+Tl5ebn6Ojp6urr7O3t7u/w8PHy8/P09fb29/j5+fr7/P3/AAAg/h/2H+of2B/CH6gfiB9iHzofCh/YHqAeYh4iHtwdkB1CHe4clhw6HNgbchsKG5waKhq0GToZvBg8GLYXLhegFhAWfhXoFE4UsBMQE24SyBEeEXQQxg8WD2QOrg34DEAMhAvICgoKSgmKCMYHAgc+BngFsgTqAyIDWgKSAcoAAAA2/27+pv3e/Bb8TvuI+sL5/vg6+Hb3tvb29Tj1fPTA8wjzUvKc8erwOvCM7+LuOO6S7fDsUOyy6xjrgurw6WDp0uhK6MTnROfG5kzm1uVk5fbkjuQo5MbjauMS477icOIk4t7hnuFg4Sjh9uDG4J7geOBY4D7gKOAW4ArgAuAA4AAAAAAAAAAAAAAAAAAAAA8IBwQLDAMCDQoFBgkOAQAJBgMEBQgBAgcAAQAAAAEAAAH/Af8C/gL+A/0AAQAB/wL/Av4D/gP9B/4HAAAAAAAC////AAABAQABAAEAAAAAAAEAAAAAAAEAAAABAAAAAAD/AgEAAQEAAP//AAAAAAAAAf8AAf8A/wH+Av7+Av0CA/38A/wEBPsF+vsG+QYFCPcAAAEAAAAAAAAA/wEAAAH/AAH//wH/AgH/Av7+Av4CAgP9AAEAAAAAAAABAAEAAAH/AQAAAgH/Av//Av8CAv8D/v7+AwABAAABAAH/Av8C/wID/gP+/gQE/QX9/Ab8BgX7CPr7+QkAAAAAAAAAAPsI/wb/BvwK+gr+Bv8G+wr3DP0H/gf5DRAYIgYAAwAHAwABCgACBhIKDAQAAgAAAAkEBwQAAwwHBwAAAAAAAAAqr9XJz/9AABEAY/9hARD+owAnK71W2f8GAFsAVv+6ABcAgPzAGNhN7f/c/2YAp//o/0gBSfwICiU+AAAAAAAAh8c9yUAAgACG/yQANgEA/UgCMyRFRQwAgAASAHL/IAGL/5/8GxB7OAAAAAAAAAAAaAINyPb/JwA6ANL/rP94ALgAxf7j/QQFBBVAIwAAAADmPsbE8/8AABQAGgAFAOH/1f/8/0EAWgAHAGP/CP/U/1ECLwY0CscMAAAAAAAAAADkVwXFAwDy/+z/8f8CABkAJQAZAPD/uf+V/7H/MgAkAW8C1gMIBbgFAAAAAAAAAACUa2fEEQAMAAgAAQD2/+r/4v/g/+r/AwAsAGQAqADzAD0BfQGtAccBE/WV5lkS8ykfBlQgAAAAAAAAAAAAAAAAvQCo/WkCZ3d1AGH/0vsIdDQA3QCo9nRu/P8RAury5WbQ//YCjPClXbD/iQN17wZTnf/MA4LvZkeV/8cDi/AnO5n/gANh8q4upf8FA8/0XiK5/2MCofeYFtL/qQGh+rQLAEAAAGwiAABCDwAAEgYAAE0CAADbAAAAAAAAAAAAAADtAAAAmQAAAEkAAAAeAAAADAAAAAcAAAAAAAAAAAAAAABAAACTXQAAvXAAAO15AACyfQAAJH8AAAAAAAAAAAAAAAEBAQIDAwMCAwMDAgMDAwADDA8wMzw/wMPMz/Dz/P8BAAAAAAAAAAMAAAAAAAAAAgAAAAEAAAAHAAAAAAAAAAQAAAADAAAABgAAAAEAAAAFAAAAAgAAAA8AAAAAAAAACAAAAAcAAAAMAAAAAwAAAAsAAAAEAAAADgAAAAEAAAAJAAAABgAAAA0AAAACAAAACgAAAAUAAAAAAAAAAAAAAABAykUbTP9SglqzYqJrYHUAAJ0+AEBePgDABD4AgO0+AECJPgAAAAAAwEw/AADNPQAAAAAAAAAAAAAAAAAAAAAA/wD/AP8A/wD/AP4BAAH/AP4A/QIAAf8A/gD9AwAB/9EhAADAIQAAByIAAOchAAD2IQAAJiIAABgiAAA+IgAAaW52YWxpZCBhcmd1bWVudABzdWNjZXNzAHVua25vd24gZXJyb3IAaW50ZXJuYWwgZXJyb3IAY29ycnVwdGVkIHN0cmVhbQBidWZmZXIgdG9vIHNtYWxsAGludmFsaWQgc3RhdGUAcmVxdWVzdCBub3QgaW1wbGVtZW50ZWQAbWVtb3J5IGFsbG9jYXRpb24gZmFpbGVkAAIBABkXAgAAAAAAgD8AAABAAABAQAAAgEAAAKBAAADAQAAA4EAAAABBAACAQQAAwEEAABBCAAAwQgAASEIAAGBCAAB4QgAAhkIAAJBCAACeQgAAsEIAANRCAAAGQwAAAAAAAAAAAAAAAAAAgD8AAIA/AACAPwAAgD8AAIA/AACAPwAAgD8AAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAABAQAAAQEAAAIBAAACgQAAAwEAAAABBAAAAQX58d21XKRMJBAIAAP//nG5WRjszLSglIR8cGhkXFhUUExIREBAPDw4NDQwMDAwLCwsKCgoJCQkJCQkICAgICAcHBwcHBwYGBgYGBgYGBgYGBgYGBgYFBQUFBQUFBQUFBQUEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEAwMDAwMDAwMDAwMDAwMDAwMCAgEAGRcCAH58d21XKRMJBAIAAAAAAAAAAAAAAAAAAAAAJAAAwCYAAHwpAAA0LAAA6C4AAJgxAABENAAArDUAAGg2AADcNgAAKDcAAGA3AACANwAAmDcAAKQ3AAAAAAAAAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAADAAAABQAAAAcAAAAJAAAACwAAAA0AAAAPAAAAEQAAABMAAAAVAAAAFwAAABkAAAAbAAAAHQAAAB8AAAAhAAAAIwAAACUAAAAnAAAAKQAAACsAAAAtAAAALwAAADEAAAAzAAAANQAAADcAAAA5AAAAOwAAAD0AAAA/AAAAQQAAAEMAAABFAAAARwAAAEkAAABLAAAATQAAAE8AAABRAAAAUwAAAFUAAABXAAAAWQAAAFsAAABdAAAAXwAAAGEAAABjAAAAZQAAAGcAAABpAAAAawAAAG0AAABvAAAAcQAAAHMAAAB1AAAAdwAAAHkAAAB7AAAAfQAAAH8AAACBAAAAgwAAAIUAAACHAAAAiQAAAIsAAACNAAAAjwAAAJEAAACTAAAAlQAAAJcAAACZAAAAmwAAAJ0AAACfAAAAoQAAAKMAAAClAAAApwAAAKkAAACrAAAArQAAAK8AAACxAAAAswAAALUAAAC3AAAAuQAAALsAAAC9AAAAvwAAAMEAAADDAAAAxQAAAMcAAADJAAAAywAAAM0AAADPAAAA0QAAANMAAADVAAAA1wAAANkAAADbAAAA3QAAAN8AAADhAAAA4wAAAOUAAADnAAAA6QAAAOsAAADtAAAA7wAAAPEAAADzAAAA9QAAAPcAAAD5AAAA+wAAAP0AAAD/AAAAAQEAAAMBAAAFAQAABwEAAAkBAAALAQAADQEAAA8BAAARAQAAEwEAABUBAAAXAQAAGQEAABsBAAAdAQAAHwEAACEBAAAjAQAAJQEAACcBAAApAQAAKwEAAC0BAAAvAQAAMQEAADMBAAA1AQAANwEAADkBAAA7AQAAPQEAAD8BAABBAQAAQwEAAEUBAABHAQAASQEAAEsBAABNAQAATwEAAFEBAABTAQAAVQEAAFcBAABZAQAAWwEAAF0BAABfAQAADQAAABkAAAApAAAAPQAAAFUAAABxAAAAkQAAALUAAADdAAAACQEAADkBAABtAQAApQEAAOEBAAAhAgAAZQIAAK0CAAD5AgAASQMAAJ0DAAD1AwAAUQQAALEEAAAVBQAAfQUAAOkFAABZBgAAzQYAAEUHAADBBwAAQQgAAMUIAABNCQAA2QkAAGkKAAD9CgAAlQsAADEMAADRDAAAdQ0AAB0OAADJDgAAeQ8AAC0QAADlEAAAoREAAGESAAAlEwAA7RMAALkUAACJFQAAXRYAADUXAAARGAAA8RgAANUZAAC9GgAAqRsAAJkcAACNHQAAhR4AAIEfAACBIAAAhSEAAI0iAACZIwAAqSQAAL0lAADVJgAA8ScAABEpAAA1KgAAXSsAAIksAAC5LQAA7S4AACUwAABhMQAAoTIAAOUzAAAtNQAAeTYAAMk3AAAdOQAAdToAANE7AAAxPQAAlT4AAP0/AABpQQAA2UIAAE1EAADFRQAAQUcAAMFIAABFSgAAzUsAAFlNAADpTgAAfVAAABVSAACxUwAAUVUAAPVWAACdWAAASVoAAPlbAACtXQAAZV8AACFhAADhYgAApWQAAG1mAAA5aAAACWoAAN1rAAC1bQAAkW8AAHFxAABVcwAAPXUAACl3AAAZeQAADXsAAAV9AAABfwAAAYEAAAWDAAANhQAAGYcAACmJAAA9iwAAVY0AAHGPAACRkQAAtZMAAN2VAAAJmAAAOZoAAG2cAAClngAA4aAAACGjAABlpQAAracAAPmpAABJrAAAna4AAPWwAABRswAAsbUAABW4AAB9ugAA6bwAAFm/AADNwQAARcQAAMHGAABByQAAxcsAAE3OAADZ0AAAadMAAP3VAACV2AAAMdsAANHdAAB14AAAHeMAAMnlAAB56AAALesAAOXtAACh8AAAPwAAAIEAAADnAAAAeQEAAD8CAABBAwAAhwQAABkGAAD/BwAAQQoAAOcMAAD5DwAAfxMAAIEXAAAHHAAAGSEAAL8mAAABLQAA5zMAAHk7AAC/QwAAwUwAAIdWAAAZYQAAf2wAAMF4AADnhQAA+ZMAAP+iAAABswAAB8QAABnWAAA/6QAAgf0AAOcSAQB5KQEAP0EBAEFaAQCHdAEAGZABAP+sAQBBywEA5+oBAPkLAgB/LgIAgVICAAd4AgAZnwIAv8cCAAHyAgDnHQMAeUsDAL96AwDBqwMAh94DABkTBAB/SQQAwYEEAOe7BAD59wQA/zUFAAF2BQAHuAUAGfwFAD9CBgCBigYA59QGAHkhBwA/cAcAQcEHAIcUCAAZaggA/8EIAEEcCQDneAkA+dcJAH85CgCBnQoABwQLABltCwC/2AsAAUcMAOe3DAB5Kw0Av6ENAMEaDgCHlg4AGRUPAH+WDwDBGhAA56EQAPkrEQD/uBEAAUkSAAfcEgAZchMAPwsUAIGnFADnRhUAeekVAD+PFgBBOBcAh+QXABmUGAD/RhkAQf0ZAOe2GgD5cxsAfzQcAIH4HAAHwB0AGYseAL9ZHwABLCAA5wEhAHnbIQC/uCIAwZkjAId+JAAZZyUAf1MmAMFDJwDnNygA+S8pAP8rKgABLCsABzAsABk4LQA/RC4AgVQvAOdoMAB5gTEAP54yAEG/MwCH5DQAGQ42AP87NwBBbjgA56Q5APnfOgB/HzwAgWM9AAesPgAZ+T8Av0pBAAGhQgDn+0MAeVtFAL+/RgDBKEgAh5ZJABkJSwB/gEwAwfxNAOd9TwD5A1EA/45SAAEfVAAHtFUAGU5XAD/tWACBkVoA5zpcAHnpXQA/nV8AQVZhAIcUYwAZ2GQA/6BmAEFvaADnQmoA+RtsAH/6bQBBAQAAqQIAAAkFAADBCAAAQQ4AAAkWAACpIAAAwS4AAAFBAAApWAAACXUAAIGYAACBwwAACfcAACk0AQABfAEAwc8BAKkwAgAJoAIAQR8DAMGvAwAJUwQAqQoFAEHYBQCBvQYAKbwHAAnWCAABDQoAAWMLAAnaDAApdA4AgTMQAEEaEgCpKhQACWcWAMHRGABBbRsACTweAKlAIQDBfSQAAfYnACmsKwAJoy8Agd0zAIFeOAAJKT0AKUBCAAGnRwDBYE0AqXBTAAnaWQBBoGAAwcZnAAlRbwCpQncAQZ9/AIFqiAApqJEACVybAAGKpQABNrAACWS7ACkYxwCBVtMAQSPgAKmC7QAJefsAwQoKAUE8GQEJEikBqZA5AcG8SgEBm1wBKTBvAQmBggGBkpYBgWmrAQkLwQEpfNcBAcLuAcHhBgKp4B8CCcQ5AkGRVALBTXACCf+MAqmqqgJBVskCgQfpAinECQMJkisDAXdOAwF5cgMJnpcDKey9A4Fp5QNBHA4EqQo4BAk7YwTBs48EQXu9BAmY7ASpEB0FwetOBQEwggUp5LYFCQ/tBYG3JAaB5F0GCZ2YBino1AYBzRIHwVJSB6mAkwcJXtYHQfIaCMFEYQgJXakIqULzCEH9PgmBlIwJKRDcCQl4LQoB1IAKASzWCgmILQsp8IYLgWziC0EFQAypwp8MCa0BDcHMZQ1BKswNCc40DqnAnw7BCg0PAbV8DynI7g8JTWMQgUzaEIHPUxEJ388RKYROEgHIzxLBs1MTqVDaEwmoYxRBw+8Uwat+FQlrEBapCqUWQZQ8F4ER1xcpjHQYCQ4VGQGhuBkBT18aCSIJGykkthuBX2YcQd4ZHamq0B0Jz4oewVVIH0FJCSAJtM0gqaCVIcEZYSIBKjAjKdwCJAk72SSBUbMlkwYAAEUOAAAPHAAAETMAAFtXAAANjgAAd90AADlNAQBj5gEAlbMCAB/BAwAhHQUAq9cGAN0CCQAHswsAyf4OADP/EgDlzxcAL48dADFeJAD7YCwArb41AJehQABZN00AA7FbADVDbAA/Jn8AQZaUAEvTrAB9IcgAJ8nmAOkWCQHTWy8Bhe1ZAU8miQFRZb0Bmw73AU2LNgK3SXwCeb3IAqNfHAPVrncDXy/bA2FrRwTr8rwEHVw8BUdDxgUJS1sGcxz8BiVnqQdv4WMIcUgsCTtgAwrt8+kK19XgC5nf6AxD8gIOdfYvD3/ccBCBnMYRizYyE72ytBRnIU8WKZsCGBNB0BnFPLkbj8C+HZEH4h/bVSQijfiGJPdFCye5nbIp42h+LBUacC+fLYkyoSnLNSueNzldJdA8h2OWQEkHjESzybJIZW4MTa/DmlGxol9We+9cWy2ZlGAXmghm2fe6a4PDrXG1GeN3vyJdfh0jAABxTQAAkZwAAP0mAQBlDAIA6XcDAJmiBQA11ggALXANAOHkEwAhwxwA7bcoAHWSOABZSE0AKfpnACX4iQA9x7QAUSbqALETLAHd0nwBhfLeAclSVQK5K+MCFRSMA00IVATBcT8FQS5TBs2XlAeVjAkJOXe4CklXqAwFyuAOXRNqETEnTRTRspMXvSZIG6XAdR+plSgk2ZxtKfW5Ui9tyOY1oaY5PWFBXEWtn2BOte5ZWBmOXGNpHH5v5YPVfP+9AAABqAEAj2sDAPGeBgA/IwwAwT0VAI+2IwDx/DkA/1FbAAH6iwAPddEAcb8yAT+auAHB3G0CD89fA3GOngT/ez0GAbZTCI+c/ArxYVgOP6eMEsElxRePZTQe8YEUJv/7py8BnDo7D2IiSXGGwFk/ioJtwVjjhAEOBACRIQkAESwTAEHuJQBBT0cAkUOAABH33QABRnMBAZJaAhEBuAORNbwFQY+nCEEGzgwRspsSkQ+aGgEadiUBTAc0kZ5XRxGdrGBBppGBI1EWAMWeMgAXuWsAmfbYAGuJoAENxP4CHwFQBSHZHQkzbDAP1aKkGKdnCCcp/X08e7XnWx13HYmvoC3JrY57AInmGQE5ll4CPRbYBLVjdwnhKMYRIQM0IHVIgjh9V1dgv1uvAoHYJwb3hF4N6f6tG3+L6zaBt+VoFwOcwcEM/w45aoUiGe6RS4F4K54z4QlUlYsAADeYAAD/pQAABLUAAGfFAABF1wAAweoAAP//AACAuwAAeAAAABUAAAAVAAAAAJpZPwAAAAAAAIA/AACAP3A4AAADAAAACAAAAHgAAAALAAAAoDgAAJA5AADAOQAAgAcAAAMAAACgOwAAwG8AAPBwAACocQAA4DsAAIgBAAAAWAAA4FgAAHBaAAAAAAAAAAABAAIAAwAEAAUABgAHAAgACgAMAA4AEAAUABgAHAAiACgAMAA8AE4AZAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAWlBLRT84MSgiHRQSCgAAAAAAAAAAbmRaVE5HQTozLScgGhQMAAAAAAAAdm5nXVZQS0ZBOzUvKB8XDwQAAAAAfndwaF9ZU05IQjw2LycgGREMAQAAhn94cmdhW1VOSEI8Ni8pIx0XEAoBkImCfHFrZV9YUkxGQDkzLSchGg8BmJGKhHt1b2liXFZQSkM9NzErJBQBopuUjoV/eXNsZmBaVE1HQTs1Lh4BrKWemI+Jg312cGpkXldRS0U/OC0UyMjIyMjIyMjGwby3sq2oo56ZlIFoAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAgACAAIAAgAEAAQABAAFQAVABgAHQAiACQAAAAAAAAAahyNOFK7HjoIadw6gu1XO4ljsjsDKgU8MNw5PLQ+dzwco5480fLFPP6G8TybqxA9Ba0qPYTCRj1T5mQ9EYmCPYefkz3LsqU90b64PTq/zD1Ur+E9FIr3PQ4lBz7Z9BI+XzEfPmjXKz6K4zg+MFJGPpQfVD6/R2I+jsZwPrCXfz5SW4c+YA+PPpjllj55254+cO6mPtgbrz77YLc+Ebu/PkYnyD63otA+eCrZPpS74T4MU+o+3u3yPgaJ+z6+EAI/H1oGPySfCj9Q3g4/KxYTP0FFFz8lahs/c4MfP86PIz/mjSc/dHwrPz9aLz8ZJjM/5942P5mDOj8zEz4/xYxBP3fvRD9/Okg/J21LP86GTj/lhlE/8WxUP444Vz9p6Vk/RX9cP/r5Xj9zWWE/r51jP8HGZT/P1Gc/EchpP9Kgaz9uX20/UARvP/SPcD/mAnI/vV1zPx+hdD+/zXU/V+R2P7Dldz+X0ng/46t5P3Nyej8nJ3s/58p7P51efD8143w/nFl9P73CfT+GH34/3nB+P6u3fj/P9H4/Jil/P4ZVfz++en8/lpl/P8yyfz8Ux38/HNd/P4Ljfz/d7H8/tvN/P4r4fz/I+38/1v1/Pwf/fz+l/38/6P9/P/3/fz8AAIA/4AEAAIeICDv/////BQBgAAMAIAAEAAgAAgAEAAQAAQAAAAAAAAAAAAAAAAAgWwAA4F4AAAAAAAAAAAAAAAAAAP//fz+O/38/av5/P5P8fz8H+n8/yPZ/P9byfz8w7n8/1uh/P8jifz8H3H8/k9R/P2vMfz+Pw38/ALp/P72vfz/HpH8/HZl/P8CMfz+wf38/7HF/P3Zjfz9LVH8/bkR/P94zfz+aIn8/oxB/P/r9fj+d6n4/jdZ+P8vBfj9WrH4/LpZ+P1N/fj/GZ34/hk9+P5Q2fj/vHH4/mAJ+P4/nfT/Ty30/Zq99P0aSfT90dH0/8VV9P7w2fT/VFn0/PPZ8P/LUfD/2snw/SZB8P+tsfD/bSHw/GyR8P6n+ez+H2Hs/tLF7PzCKez/8YXs/Fzl7P4IPez895Xo/SLp6P6KOej9NYno/SDV6P5QHej8w2Xk/Hap5P1p6eT/pSXk/yBh5P/nmeD97tHg/ToF4P3NNeD/qGHg/suN3P82tdz86d3c/+T93PwoIdz9uz3Y/JZZ2Py9cdj+MIXY/POZ1P0CqdT+XbXU/QjB1P0HydD+Us3Q/O3R0Pzc0dD+H83M/LLJzPyZwcz92LXM/GupyPxSmcj9kYXI/ChxyPwXWcT9Xj3E/AEhxP///cD9Vt3A/Am5wPwYkcD9i2W8/FY5vPyBCbz+E9W4/P6huP1Nabj/AC24/hrxtP6VsbT8dHG0/78psPxt5bD+hJmw/gNNrP7t/az9QK2s/QNZqP4yAaj8yKmo/NdNpP5N7aT9NI2k/ZMpoP9hwaD+oFmg/1btnP2BgZz9IBGc/j6dmPzNKZj827GU/l41lP1cuZT93zmQ/9W1kP9QMZD8Sq2M/sUhjP7DlYj8QgmI/0R1iP/O4YT93U2E/XO1gP6SGYD9OH2A/W7dfP8tOXz+e5V4/1XteP3ARXj9upl0/0jpdP5rOXD/GYVw/WfRbP1GGWz+uF1s/cqhaP504Wj8uyFk/J1dZP4flWD9Pc1g/fwBYPxeNVz8YGVc/gqRWP1YvVj+TuVU/OkNVP0vMVD/HVFQ/rtxTPwFkUz+/6lI/6XBSP3/2UT+Ce1E/8v9QP8+DUD8aB1A/0olPP/oLTz+QjU4/lA5OPwmPTT/tDk0/QY5MPwUNTD87i0s/4QhLP/mFSj+DAko/f35JP+75SD/PdEg/JO9HP+1oRz8p4kY/2lpGPwDTRT+bSkU/rMFEPzI4RD8vrkM/oiNDP42YQj/vDEI/yIBBPxr0QD/lZkA/KNk/P+VKPz8bvD4/zCw+P/ecPT+dDD0/vns8P1zqOz91WDs/CsY6Px0zOj+tnzk/uws5P0d3OD9R4jc/2kw3P+O2Nj9rIDY/dIk1P/3xND8HWjQ/k8EzP6AoMz8wjzI/QvUxP9haMT/xvzA/jiQwP6+ILz9V7C4/gU8uPzKyLT9pFC0/J3YsP2vXKz83OCs/i5gqP2f4KT/MVyk/urYoPzIVKD8zcyc/v9AmP9YtJj95iiU/p+YkP2FCJD+pnSM/ffgiP99SIj/PrCE/TQYhP1tfID/4tx8/JRAfP+JnHj8wvx0/EBYdP4FsHD+Ewhs/GhgbP0NtGj8Awhk/URYZPzZqGD+xvRc/wRAXP2djFj+jtRU/dgcVP+FYFD/kqRM/f/oSP7NKEj+AmhE/5+kQP+g4ED+Ehw8/u9UOP44jDj/+cA0/Cr4MP7MKDD/6Vgs/36IKP2PuCT+GOQk/SYQIP6zOBz+vGAc/VGIGP5urBT+D9AQ/Dz0EPz2FAz8PzQI/hhQCP6FbAT9hogA/j9H/Pqdd/j4O6fw+wnP7Psb9+T4bh/g+wQ/3PrqX9T4GH/Q+qKXyPp4r8T7ssO8+kTXuPpC57D7oPOs+mr/pPqlB6D4Vw+Y+30PlPgjE4z6RQ+I+fMLgPshA3z54vt0+jDvcPga42j7mM9k+Lq/XPt8p1j75o9Q+fR3TPm6W0T7MDtA+l4bOPtL9zD59dMs+merJPidgyD4o1cY+n0nFPoq9wz7sMMI+xqPAPhkWvz7mh70+Lfm7PvFpuj4y2rg+8Um3Pi+5tT7uJ7Q+L5ayPvIDsT45ca8+BN6tPlZKrD4vtqo+kCGpPnqMpz7v9qU+72CkPnzKoj6XM6E+QJyfPnoEnj5EbJw+odOaPpE6mT4WoZc+MAeWPuFslD4p0pI+CzeRPoebjz6e/40+UWOMPqLGij6RKYk+IIyHPlDuhT4iUIQ+l7GCPrASgT7e5n4+qad7PsNneD4vJ3U+7uVxPgSkbj5zYWs+PB5oPmLaZD7olWE+z1BePhoLWz7MxFc+5n1UPms2UT5d7k0+v6VKPpJcRz7aEkQ+l8hAPs59PT6AMjo+ruY2Pl2aMz6NTTA+QgAtPn2yKT5CZCY+kRUjPm7GHz7bdhw+2iYZPm3WFT6YhRI+WzQPPrriCz63kAg+VD4FPpTrAT7wMP09Bor2PXHi7z0zOuk9T5HiPc/n2z21PdU9A5POPcDnxz3yO8E9nI+6PcPisz1sNa09m4emPVXZnz2fKpk9fnuSPfbLiz0LHIU9h9d8PUZ2bz1dFGI91rFUPblORz0Q6zk95YYsPUAiHz0svRE9slcEPbXj7TxgF9M8dkq4PAt9nTwyr4I8+sFPPP4kGjwqD8k7mac7Oy591rnSRnG7q97ju6aMJ7yBKV284WKJvKAwpLzs/b68s8rZvOCW9LwxsQe9kxYVvYx7Ir0T4C+9HkQ9vaWnSr2dCli9/mxlvb7Ocr3qF4C9G8iGve13jb1cJ5S9Y9aavf2Eob0mM6i92eCuvRGOtb3KOry9/ubCvaqSyb3IPdC9VOjWvUqS3b2kO+S9XeTqvXKM8b3dM/i9mtr+vVLAAr78Ega+R2UJvjK3DL66CBC+3VkTvpiqFr7q+hm+0EodvkeaIL5O6SO+4TcnvgCGKr6m0y2+0yAxvoNtNL61uTe+ZQU7vpNQPr46m0G+WuVEvvAuSL75d0u+dMBOvl0IUr6zT1W+c5ZYvpzcW74qIl++G2divm2rZb4f72i+LDJsvpR0b75UtnK+avd1vtM3eb6Nd3y+lrZ/vnV6gb5FGYO+ubeEvtBVhr6I84e+4ZCJvtoti75wyoy+pGaOvnQCkL7fnZG+5DiTvoHTlL62bZa+gQeYvuKgmb7XOZu+X9Kcvnlqnr4jAqC+XpmhviYwo759xqS+YFymvs7xp77Ghqm+RxurvlCvrL7gQq6+9dWvvo9osb6t+rK+TYy0vm4dtr4Qrre+MD65vs/Nur7qXLy+guu9vpR5v74fB8G+I5TCvp8gxL6RrMW++DfHvtPCyL4iTcq+4tbLvhNgzb616M6+xXDQvkL40b4tf9O+gwXVvkOL1r5tENi+/5TZvvkY275ZnNy+HR/evkah377TIuG+waPivhAk5L6+o+W+zCLnvjih6L4AH+q+JJzrvqIY7b56lO6+qw/wvjOK8b4SBPO+Rn30vs/19b6qbfe+2eT4vlhb+r4o0fu+R0b9vrW6/r44FwC/u9AAv+SJAb+yQgK/JfsCvzuzA7/2agS/UyIFv1PZBb/1jwa/OEYHvx38B7+isQi/x2YJv4wbCr/wzwq/84MLv5M3DL/R6gy/rJ0NvyRQDr84Ag+/6LMPvzJlEL8YFhG/l8YRv7B2Er9jJhO/rtUTv5GEFL8NMxW/H+EVv8iOFr8IPBe/3egXv0iVGL9IQRm/3OwZvwSYGr/AQhu/D+0bv/CWHL9jQB2/aOkdv/6RHr8lOh+/3OEfvyOJIL/6LyG/X9Yhv1J8Ir/UISO/48Yjv39rJL+nDyW/XLMlv51WJr9o+Sa/v5snv6A9KL8L3yi//38pv30gKr+DwCq/EWArvyf/K7/EnSy/6Dstv5LZLb/Ddi6/eRMvv7SvL79zSzC/t+Ywv3+BMb/LGzK/mbUyv+pOM7+95zO/EoA0v+gXNb8/rzW/FkY2v27cNr9Fcje/nAc4v3GcOL/FMDm/lsQ5v+ZXOr+y6jq//Hw7v8IOPL8DoDy/wTA9v/rAPb+tUD6/298+v4NuP7+l/D+/QIpAv1MXQb/go0G/5C9Cv2C7Qr9TRkO/vtBDv55aRL/240S/wmxFvwX1Rb+8fEa/6ANHv4mKR7+dEEi/JZZIvyAbSb+On0m/byNKv8GmSr+GKUu/vKtLv2MtTL96rky/Ai9Nv/quTb9iLk6/Oa1Ov34rT78zqU+/VSZQv+aiUL/kHlG/UJpRvygVUr9tj1K/HglTvzuCU7/D+lO/t3JUvxbqVL/fYFW/EtdVv7BMVr+3wVa/JzZXvwCqV79CHVi/7I9Yv/4BWb94c1m/WeRZv6JUWr9RxFq/ZjNbv+KhW7/DD1y/Cn1cv7fpXL/IVV2/PsFdvxgsXr9Xll6/+f9ev/9oX79o0V+/Mzlgv2KgYL/zBmG/5WxhvzrSYb/wNmK/CJtiv4D+Yr9ZYWO/ksNjvywlZL8lhmS/fuZkvzdGZb9OpWW/xQNmv5phZr/Nvma/Xhtnv013Z7+a0me/RC1ov0uHaL+u4Gi/bzlpv4uRab8E6Wm/2T9qvwmWar+U62q/e0Brv7yUa79Z6Gu/Tztsv6CNbL9L32y/TzBtv62Abb9l0G2/dR9uv99tbr+hu26/uwhvvy5Vb7/4oG+/G+xvv5U2cL9ngHC/kMlwvw8Scb/mWXG/E6Fxv5fncb9xLXK/oHJyvya3cr8B+3K/Mj5zv7iAc7+UwnO/xAN0v0lEdL8ihHS/UMN0v9IBdb+oP3W/0nx1v1C5db8h9XW/RTB2v71qdr+IpHa/pt12vxYWd7/ZTXe/74R3v1e7d78R8Xe/HSZ4v3paeL8qjni/K8F4v33zeL8hJXm/FlZ5v1yGeb/ytXm/2uR5vxITer+aQHq/c216v52Zer8WxXq/3+96v/gZe79hQ3u/Gmx7vyKUe796u3u/IOJ7vxcIfL9cLXy/8FF8v9N1fL8FmXy/hrt8v1XdfL9z/ny/3x59v5o+fb+jXX2/+nt9v5+Zfb+Stn2/09J9v2Lufb8/CX6/aSN+v+E8fr+nVX6/um1+vxuFfr/Jm36/xLF+vw3Hfr+i236/he9+v7UCf78yFX+//CZ/vxM4f792SH+/J1h/vyRnf79udX+/BYN/v+iPf78ZnH+/lad/v1+yf790vH+/18V/v4XOf7+B1n+/yN1/v13kf7896n+/au9/v+Pzf7+p93+/u/p/vxn9f7/E/n+/u/9/v/r/fz85/n8/qfl/P0vyfz8e6H8/I9t/P1nLfz/BuH8/W6N/PyiLfz8ncH8/WlJ/P78xfz9YDn8/Jeh+Pya/fj9ck34/yGR+P2kzfj9B/30/T8h9P5aOfT8UUn0/yxJ9P7zQfD/ni3w/TUR8P+/5ez/NrHs/6Vx7P0MKez/dtHo/tlx6P9EBej8upHk/zkN5P7LgeD/ceng/TBJ4PwSndz8EOXc/T8h2P+RUdj/G3nU/9mV1P3XqdD9EbHQ/ZetzP9pncz+j4XI/wlhyPznNcT8JP3E/NK5wP7sacD+ghG8/5OtuP4pQbj+Tsm0/ARJtP9VubD8RyWs/tyBrP8l1aj9JyGk/ORhpP5tlaD9vsGc/uvhmP3w+Zj+4gWU/b8JkP6QAZD9aPGM/kXViP0ysYT+O4GA/WRJgP65BXz+Rbl4/A5ldPwjBXD+g5ls/zwlbP5gqWj/7SFk//WRYP59+Vz/llVY/0KpVP2O9VD+hzVM/jNtSPyfnUT918FA/efdPPzT8Tj+r/k0/3/5MP9T8Sz+M+Eo/CvJJP1LpSD9l3kc/R9FGP/vBRT+EsEQ/5ZxDPyCHQj86b0E/NFVAPxM5Pz/YGj4/iPo8PybYOz+0szo/No05P69kOD8iOjc/kw02PwXfND98rjM/+XsyP4JHMT8ZETA/wtguP3+eLT9WYiw/SCQrP1rkKT+Qoig/614nP3EZJj8l0iQ/CYkjPyM+Ij918SA/BKMfP9JSHj/kAB0/Pa0bP+FXGj/TABk/GagXP7RNFj+q8RQ//ZMTP7I0Ej/M0xA/UHEPP0INDj+kpww/fEALP83XCT+abQg/6QEHP72UBT8ZJgQ/A7YCP35EAT8co/8+brr8PvrO+T7K4PY+5O/zPlH88D4aBu4+Rw3rPuAR6D7tE+U+dxPiPocQ3z4kC9w+WAPZPir51T6k7NI+zd3PPq/MzD5Suck+v6PGPv6Lwz4YcsA+Fla9PgA4uj7gF7c+vfWzPqHRsD6Vq60+ooOqPs9Zpz4nLqQ+sgChPnnRnT6FoJo+322XPo85lD6gA5E+GsyNPgWTij5rWIc+VhyEPs3egD62P3s+EL90Prs7bj7JtWc+TS1hPlmiWj7/FFQ+UYVNPmPzRj5GX0A+Dck5PsowMz6Qliw+cvolPoJcHz7SvBg+dhsSPn94Cz4B1AQ+HVz8PXIN7z0pvOE9ZmjUPU4Sxz0Iurk9uF+sPYQDnz2SpZE9B0aEPRLKbT16BVM9kT44PaR1HT38qgI9yr3PPFYjmjxhDkk8xae7Oz16VroJRvG7Et1jvFCKp7xBJN28410JvSMoJL2W8D698rZZvep6dL0anoe9Qv2Uvchaor2Gtq+9VxC9vRZoyr2bvde9wxDlvWlh8r1lr/+9Sn0GvmghDb76wxO+7WQavi4EIb6soSe+Uz0uvhDXNL7Sbju+hgRCvhmYSL55KU++lLhVvlZFXL6uz2K+iVdpvtbcb76AX3a+eN98vlSugb6B64S+OCeIvnJhi74kmo6+RdGRvs0Glb6zOpi+7mybvnSdnr49zKG+QPmkvnMkqL7PTau+SXWuvtqasb54vrS+G+C3vrr/ur5LHb6+xzjBviVSxL5bace+YX7KvjCRzb68odC+ALDTvvG71r6Hxdm+uszcvoHR377T0+K+qdPlvvrQ6L69y+u+6sPuvni58b5grPS+mpz3vhyK+r7fdP2+bS4AvwOhAb8tEgO/5oEEvyzwBb/6XAe/TMgIvx4yCr9smgu/MgENv2xmDr8Xyg+/LSwRv6yMEr+Q6xO/1UgVv3akFr9x/he/wFYZv2KtGr9RAhy/ilUdvwmnHr/L9h+/zEQhvwmRIr982yO/JCQlv/1qJr8CsCe/MPMov4Q0Kr/6cyu/j7Esvz/tLb8HJy+/414wv9CUMb/KyDK/zvozv9oqNb/oWDa/94Q3vwKvOL8H1zm/A/06v/EgPL/PQj2/mmI+v0+AP7/pm0C/aLVBv8bMQr8B4kO/F/VEvwMGRr/EFEe/ViFIv7YrSb/hM0q/1DlLv409TL8JP02/RD5Ovz07T7/wNVC/Wi5Rv3kkUr9KGFO/yglUv/f4VL/O5VW/TdBWv3C4V783nli/nIFZv6BiWr8+QVu/dR1cv0H3XL+izl2/lKNevxR2X78iRmC/uhNhv9neYb9/p2K/qW1jv1QxZL9+8mS/JrFlv0ltZr/lJme/+N1nv4CSaL97RGm/6PNpv8Ogar8MS2u/wPJrv96XbL9kOm2/UNptv6B3br9TEm+/Zqpvv9k/cL+p0nC/1WJxv1vwcb86e3K/cQNzv/2Ic7/eC3S/EYx0v5YJdb9rhHW/j/x1vwBydr+95Ha/xlR3vxjCd7+yLHi/k5R4v7v5eL8oXHm/2bt5v80Yer8Cc3q/ecp6vy8fe78kcXu/WMB7v8kMfL92Vny/X518v4LhfL/gIn2/d2F9v0edfb9P1n2/jgx+vwRAfr+wcH6/kp5+v6nJfr/18X6/dRd/vyk6f78QWn+/K3d/v3iRf7/4qH+/qr1/v4/Pf7+l3n+/7ep/v2b0f78R+3+/7f5/v+r/fz/l+H8/puZ/Py3Jfz98oH8/lWx/P3ktfz8s434/sY1+Pwstfj8/wX0/Ukp9P0jIfD8oO3w/96J7P73/ej+AUXo/SJh5Px7UeD8JBXg/Eyt3P0ZGdj+sVnU/Tlx0PzhXcz92R3I/Ey1xPxwIcD+e2G4/pZ5tP0BabD9+C2s/a7JpPxlPaD+W4WY/8mllPz7oYz+LXGI/6sZgP20nXz8mfl0/KMtbP4UOWj9TSFg/o3hWP4ufVD8gvVI/dtFQP6PcTj+93kw/29dKPxPISD98r0Y/Lo5EP0FkQj/OMUA/7PY9P7SzOz9CaDk/rRQ3PxC5ND+GVTI/KeovPxV3LT9l/Co/NXooP6HwJT/GXyM/wMcgP6woHj+pghs/1NUYP0oiFj8qaBM/k6cQP6TgDT97Ews/OUAIP/1mBT/nhwI/LUb/Pltx+T6XkfM+JKftPkWy5z48s+E+TKrbPrqX1T7Je88+vlbJPt8owz5w8rw+t7O2PvtssD6BHqo+ksijPnNrnT5sB5c+xZyQPscrij65tIM+x296PiFrbT4RXGA+KUNTPv0gRj4g9jg+JsMrPqSIHj4tRxE+V/8DPm5j7T3CvdI92g64Pd5XnT37mYI9vKxPPWUcGj2ZCsk8Kqc7PMF41rotRHG8V9fjvEyBJ72UD129FUqJvVoGpL1tu769ImjZvU4L9L3jUQe+L5gUvvfXIb6lEC++pkE8vmRqSb5Nila+zaBjvlCtcL5Fr32+DVOFvp7Ii74NOJK+EqGYvmYDn76/XqW+2LKrvmn/sb4rRLi+2IC+viq1xL7b4Mq+pQPRvkUd1751Ld2+8TPjvnYw6b7AIu++jQr1vpvn+r7TXAC/OEADv9sdBr+b9Qi/WscLv/eSDr9UWBG/UBcUv83PFr+sgRm/0CwcvxrRHr9tbiG/qwQkv7eTJr90Gym/x5srv5MULr+7hTC/Ju8yv7dQNb9Vqje/4/s5v0pFPL9uhj6/N79Av4vvQr9TF0W/dTZHv9pMSb9rWku/EF9Nv7NaT78+TVG/mjZTv7MWVb9y7Va/xbpYv5V+Wr/QOFy/YuldvziQX79ALWG/Z8Biv5xJZL/OyGW/6z1nv+OoaL+nCWq/J2Brv1SsbL8f7m2/eiVvv1hScL+rdHG/Z4xyv3+Zc7/nm3S/lZN1v36Adr+WYne/1Dl4vy8Geb+ex3m/F356v5Qpe78Nynu/el98v9XpfL8YaX2/Pt19v0BGfr8cpH6/zPZ+v00+f7+cen+/tqt/v5nRf79D7H+/tPt/v6b/fz+U438/nJp/P8wkfz84gn4//bJ9Pz+3fD8qj3s/8zp6P9S6eD8RD3c/9jd1P9U1cz8ICXE/8bFuP/kwbD+Qhmk/L7NmP1O3Yz+Ek2A/TkhdP0XWWT8DPlY/K4BSP2WdTj9elko/zGtGP2oeQj/5rj0/QB45Pw1tND8ynC8/h6wqP+ueJT8/dCA/bS0bP2HLFT8NTxA/aLkKP2sLBT8ujP4+3dTyPvHy5j5/6No+prfOPohiwj5O67U+KlSpPlGfnD79zo8+beWCPs7Jaz5in1E+MFA3PtPgHD7xVQI+YmjPPXwAmj0k+0g9G6S7PPN3VrtkPfG8u8BjvWddp70Uvdy9A/sIvnN/I7405z2+pC1YviZOcr4SIoa+iQWTvjTPn77VfKy+Mwy5vhp7xb5bx9G+ze7dvlDv6b7HxvW+kLkAvyZ5Br8kIQy/jbARv2YmF7+6gRy/mMEhvxXlJr9K6yu/VtMwv1ucNb+DRTq//c0+v/w0Q7+8eUe/fZtLv4SZT78fc1O/oSdXv2O2Wr/GHl6/MGBhvw96ZL/Ya2e/BzVqvx/VbL+pS2+/N5hxv2K6c7/JsXW/Fn53v/Yeeb8hlHq/Vd17v1n6fL/66n2/Dq9+v3RGf78PsX+/zu5/v/////////////////////8AAAAAAAAAACkAKQApAFIAUgB7AKQAyADeAAAAAAAAAAAAAAAAAAAAAAApACkAKQApAHsAewB7AKQApADwAAoBGwEnASkAKQApACkAKQApACkAKQB7AHsAewB7APAA8ADwAAoBCgExAT4BSAFQAXsAewB7AHsAewB7AHsAewDwAPAA8ADwADEBMQExAT4BPgFXAV8BZgFsAfAA8ADwAPAA8ADwAPAA8AAxATEBMQExAVcBVwFXAV8BXwFyAXgBfgGDAQAAAAAAAAAAAAAAAAAAKAcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcoDxccHyIkJicpKissLS4vLzEyMzQ1Njc3OTo7PD0+Pz9BQkNERUZHRygUISkwNTk9QEJFR0lLTE5QUlVXWVtcXmBiZWdpa2xucHJ1d3l7fH6AKBcnMzxDSU9TV1teYWRmaWtvc3Z5fH6Bg4eLjpGUlpmbn6OmqayusbMjHDFBTllja3J4foSIjZGVmZ+lq7C0ub3Ax83T2Nzh5ejv9fsVITpPYXB9iZSdpq62vcPJz9nj6/P7ESM/Vmp7i5ilsbvFztbe5u36GR83S1tpdYCKkpqhqK60ub7I0Nfe5evw9f8QJEFZboCQn625xM/Z4ury+gspSmeAl6y/0eHx/wkrT26Ko7rP4/YMJ0dje5CktsbW5PH9CSxRcY6owNbr/wcxWn+gv9z3BjNfhqrL6gcvV3ubuNTtBjRhia7Q8AU5apfA5wU7b57K8wU3Z5O74AU8caHO+ARBeq/gBEN/tuoAAAAAAAAAAODg4ODg4ODgoKCgoLm5ubKyqIY9JeDg4ODg4ODg8PDw8M/Pz8bGt5BCKKCgoKCgoKCgubm5ucHBwbe3rIpAJvDw8PDw8PDwz8/Pz8zMzMHBtI9CKLm5ubm5ubm5wcHBwcHBwbe3rIpBJ8/Pz8/Pz8/PzMzMzMnJyby8sI1CKMHBwcHBwcHBwcHBwcLCwri4rYtBJ8zMzMzMzMzMycnJycbGxru7r4xCKAAAAAAAAAAAAABgAMAAIAGAASAAgADgAEABoAFAAKAAAAFgAcABCABoAMgAKAGIASgAiADoAEgBqAFIAKgACAFoAcgBEABwANAAMAGQATAAkADwAFABsAFQALAAEAFwAdABGAB4ANgAOAGYATgAmAD4AFgBuAFYALgAGAF4AdgBBABkAMQAJAGEASQAhADkAEQBpAFEAKQABAFkAcQBDABsAMwALAGMASwAjADsAEwBrAFMAKwADAFsAcwBFAB0ANQANAGUATQAlAD0AFQBtAFUALQAFAF0AdQBHAB8ANwAPAGcATwAnAD8AFwBvAFcALwAHAF8AdwBAQBhAMEAIQGBASEAgQDhAEEBoQFBAKEAAQFhAcEBCQBpAMkAKQGJASkAiQDpAEkBqQFJAKkACQFpAckBEQBxANEAMQGRATEAkQDxAFEBsQFRALEAEQFxAdEBGQB5ANkAOQGZATkAmQD5AFkBuQFZALkAGQF5AdkBBQBlAMUAJQGFASUAhQDlAEUBpQFFAKUABQFlAcUBDQBtAM0ALQGNAS0AjQDtAE0BrQFNAK0ADQFtAc0BFQB1ANUANQGVATUAlQD1AFUBtQFVALUAFQF1AdUBHQB9AN0APQGdAT0AnQD9AF0BvQFdAL0AHQF9Ad0BAgBiAMIAIgGCASIAggDiAEIBogFCAKIAAgFiAcIBCgBqAMoAKgGKASoAigDqAEoBqgFKAKoACgFqAcoBEgByANIAMgGSATIAkgDyAFIBsgFSALIAEgFyAdIBGgB6ANoAOgGaAToAmgD6AFoBugFaALoAGgF6AdoBBgBmAMYAJgGGASYAhgDmAEYBpgFGAKYABgFmAcYBDgBuAM4ALgGOAS4AjgDuAE4BrgFOAK4ADgFuAc4BFgB2ANYANgGWATYAlgD2AFYBtgFWALYAFgF2AdYBHgB+AN4APgGeAT4AngD+AF4BvgFeAL4AHgF+Ad4BAwBjAMMAIwGDASMAgwDjAEMBowFDAKMAAwFjAcMBCwBrAMsAKwGLASsAiwDrAEsBqwFLAKsACwFrAcsBEwBzANMAMwGTATMAkwDzAFMBswFTALMAEwFzAdMBGwB7ANsAOwGbATsAmwD7AFsBuwFbALsAGwF7AdsBBwBnAMcAJwGHAScAhwDnAEcBpwFHAKcABwFnAccBDwBvAM8ALwGPAS8AjwDvAE8BrwFPAK8ADwFvAc8BFwB3ANcANwGXATcAlwD3AFcBtwFXALcAFwF3AdcBHwB/AN8APwGfAT8AnwD/AF8BvwFfAL8AHwF/Ad8BAACAPwAAAIBj+n8/v3VWvIvpfz8Kcda8ec1/P+fOIL0vpn8/Ol5Wva9zfz8T8oW9+TV/PyqvoL0S7X4/M2W7vf2Yfj8EE9a9vDl+P3O38L1Vz30/qKgFvstZfT+77xK+Jdl8P1wwIL5nTXw/9Wktvpi2ez/zmzq+vhR7P8LFR77iZ3o/zeZUvgmweT+C/mG+PO14P00Mb76EH3g/nA98vupGdz/ug4S+d2N2Pz76ir42dXU/dWqRvjB8dD9M1Je+cXhzP3o3nr4DanI/t5OkvvRQcT+86Kq+Ty1wP0E2sb4h/24/AXy3vnbGbT+0ub2+XoNsPxXvw77nNWs/3hvKvh7eaT/JP9C+EnxoP5Ja1r7UD2c/82vcvnSZZT+qc+K+ARlkP3Fx6L6NjmI/B2Xuvij6YD8nTvS+5ltfP5As+r7Xs10/AAAAvw8CXD8b5AK/oEZaP3fCBb+egVg/9poIvx2zVj93bQu/MdtUP9o5Dr/v+VI/AAARv2wPUT/KvxO/vRtPPxh5Fr/4Hk0/zSsZvzQZSz/K1xu/iApJP/F8Hr8K80Y/JBshv9HSRD9GsiO/96lCPzpCJr+TeEA/48oov70+Pj8lTCu/j/w7P+PFLb8isjk/ATgwv5BfNz9lojK/8wQ1P/MENb9lojI/kF83vwE4MD8isjm/48UtP4/8O78lTCs/vT4+v+PKKD+TeEC/OkImP/epQr9GsiM/0dJEvyQbIT8K80a/8XweP4gKSb/K1xs/NBlLv80rGT/4Hk2/GHkWP70bT7/KvxM/bA9RvwAAET/v+VK/2jkOPzHbVL93bQs/HbNWv/aaCD+egVi/d8IFP6BGWr8b5AI/DwJcvwAAAD/Xs12/kCz6PuZbX78nTvQ+KPpgvwdl7j6NjmK/cXHoPgEZZL+qc+I+dJllv/Nr3D7UD2e/klrWPhJ8aL/JP9A+Ht5pv94byj7nNWu/Fe/DPl6DbL+0ub0+dsZtvwF8tz4h/26/QTaxPk8tcL+86Ko+9FBxv7eTpD4DanK/ejeePnF4c79M1Jc+MHx0v3VqkT42dXW/PvqKPndjdr/ug4Q+6kZ3v5wPfD6EH3i/TQxvPjzteL+C/mE+CbB5v83mVD7iZ3q/wsVHPr4Ue7/zmzo+mLZ7v/VpLT5nTXy/XDAgPiXZfL+77xI+y1l9v6ioBT5Vz32/c7fwPbw5fr8EE9Y9/Zh+vzNluz0S7X6/Kq+gPfk1f78T8oU9r3N/vzpeVj0vpn+/584gPXnNf78KcdY8i+l/v791Vjxj+n+/ADCNJAAAgL+/dVa8Y/p/vwpx1ryL6X+/584gvXnNf786Xla9L6Z/vxPyhb2vc3+/Kq+gvfk1f78zZbu9Eu1+vwQT1r39mH6/c7fwvbw5fr+oqAW+Vc99v7vvEr7LWX2/XDAgviXZfL/1aS2+Z018v/ObOr6Ytnu/wsVHvr4Ue7/N5lS+4md6v4L+Yb4JsHm/TQxvvjzteL+cD3y+hB94v+6DhL7qRne/PvqKvndjdr91apG+NnV1v0zUl74wfHS/ejeevnF4c7+3k6S+A2pyv7zoqr70UHG/QTaxvk8tcL8BfLe+If9uv7S5vb52xm2/Fe/Dvl6DbL/eG8q+5zVrv8k/0L4e3mm/klrWvhJ8aL/za9y+1A9nv6pz4r50mWW/cXHovgEZZL8HZe6+jY5ivydO9L4o+mC/kCz6vuZbX78AAAC/17NdvxvkAr8PAly/d8IFv6BGWr/2mgi/noFYv3dtC78ds1a/2jkOvzHbVL8AABG/7/lSv8q/E79sD1G/GHkWv70bT7/NKxm/+B5Nv8rXG780GUu/8Xwev4gKSb8kGyG/CvNGv0ayI7/R0kS/OkImv/epQr/jyii/k3hAvyVMK7+9Pj6/48Utv4/8O78BODC/IrI5v2WiMr+QXze/8wQ1v/MENb+QXze/ZaIyvyKyOb8BODC/j/w7v+PFLb+9Pj6/JUwrv5N4QL/jyii/96lCvzpCJr/R0kS/RrIjvwrzRr8kGyG/iApJv/F8Hr80GUu/ytcbv/geTb/NKxm/vRtPvxh5Fr9sD1G/yr8Tv+/5Ur8AABG/MdtUv9o5Dr8ds1a/d20Lv56BWL/2mgi/oEZav3fCBb8PAly/G+QCv9ezXb8AAAC/5ltfv5As+r4o+mC/J070vo2OYr8HZe6+ARlkv3Fx6L50mWW/qnPivtQPZ7/za9y+Enxov5Ja1r4e3mm/yT/Qvuc1a7/eG8q+XoNsvxXvw752xm2/tLm9viH/br8BfLe+Ty1wv0E2sb70UHG/vOiqvgNqcr+3k6S+cXhzv3o3nr4wfHS/TNSXvjZ1db91apG+d2N2vz76ir7qRne/7oOEvoQfeL+cD3y+PO14v00Mb74JsHm/gv5hvuJner/N5lS+vhR7v8LFR76Ytnu/85s6vmdNfL/1aS2+Jdl8v1wwIL7LWX2/u+8SvlXPfb+oqAW+vDl+v3O38L39mH6/BBPWvRLtfr8zZbu9+TV/vyqvoL2vc3+/E/KFvS+mf786Xla9ec1/v+fOIL2L6X+/CnHWvGP6f7+/dVa8AACAvwAwDaVj+n+/v3VWPIvpf78KcdY8ec1/v+fOID0vpn+/Ol5WPa9zf78T8oU9+TV/vyqvoD0S7X6/M2W7Pf2Yfr8EE9Y9vDl+v3O38D1Vz32/qKgFPstZfb+77xI+Jdl8v1wwID5nTXy/9WktPpi2e7/zmzo+vhR7v8LFRz7iZ3q/zeZUPgmweb+C/mE+PO14v00Mbz6EH3i/nA98PupGd7/ug4Q+d2N2vz76ij42dXW/dWqRPjB8dL9M1Jc+cXhzv3o3nj4DanK/t5OkPvRQcb+86Ko+Ty1wv0E2sT4h/26/AXy3PnbGbb+0ub0+XoNsvxXvwz7nNWu/3hvKPh7eab/JP9A+Enxov5Ja1j7UD2e/82vcPnSZZb+qc+I+ARlkv3Fx6D6NjmK/B2XuPij6YL8nTvQ+5ltfv5As+j7Xs12/AAAAPw8CXL8b5AI/oEZav3fCBT+egVi/9poIPx2zVr93bQs/MdtUv9o5Dj/v+VK/AAARP2wPUb/KvxM/vRtPvxh5Fj/4Hk2/zSsZPzQZS7/K1xs/iApJv/F8Hj8K80a/JBshP9HSRL9GsiM/96lCvzpCJj+TeEC/48ooP70+Pr8lTCs/j/w7v+PFLT8isjm/ATgwP5BfN79lojI/8wQ1v/MENT9lojK/kF83PwE4ML8isjk/48Utv4/8Oz8lTCu/vT4+P+PKKL+TeEA/OkImv/epQj9GsiO/0dJEPyQbIb8K80Y/8Xwev4gKST/K1xu/NBlLP80rGb/4Hk0/GHkWv70bTz/KvxO/bA9RPwAAEb/v+VI/2jkOvzHbVD93bQu/HbNWP/aaCL+egVg/d8IFv6BGWj8b5AK/DwJcPwAAAL/Xs10/kCz6vuZbXz8nTvS+KPpgPwdl7r6NjmI/cXHovgEZZD+qc+K+dJllP/Nr3L7UD2c/klrWvhJ8aD/JP9C+Ht5pP94byr7nNWs/Fe/Dvl6DbD+0ub2+dsZtPwF8t74h/24/QTaxvk8tcD+86Kq+9FBxP7eTpL4DanI/ejeevnF4cz9M1Je+MHx0P3Vqkb42dXU/PvqKvndjdj/ug4S+6kZ3P5wPfL6EH3g/TQxvvjzteD+C/mG+CbB5P83mVL7iZ3o/wsVHvr4Uez/zmzq+mLZ7P/VpLb5nTXw/XDAgviXZfD+77xK+y1l9P6ioBb5Vz30/c7fwvbw5fj8EE9a9/Zh+PzNlu70S7X4/Kq+gvfk1fz8T8oW9r3N/PzpeVr0vpn8/584gvXnNfz8Kcda8i+l/P791Vrxj+n8/AMhTpQAAgD+/dVY8Y/p/Pwpx1jyL6X8/584gPXnNfz86XlY9L6Z/PxPyhT2vc38/Kq+gPfk1fz8zZbs9Eu1+PwQT1j39mH4/c7fwPbw5fj+oqAU+Vc99P7vvEj7LWX0/XDAgPiXZfD/1aS0+Z018P/ObOj6Ytns/wsVHPr4Uez/N5lQ+4md6P4L+YT4JsHk/TQxvPjzteD+cD3w+hB94P+6DhD7qRnc/PvqKPndjdj91apE+NnV1P0zUlz4wfHQ/ejeePnF4cz+3k6Q+A2pyP7zoqj70UHE/QTaxPk8tcD8BfLc+If9uP7S5vT52xm0/Fe/DPl6DbD/eG8o+5zVrP8k/0D4e3mk/klrWPhJ8aD/za9w+1A9nP6pz4j50mWU/cXHoPgEZZD8HZe4+jY5iPydO9D4o+mA/kCz6PuZbXz8AAAA/17NdPxvkAj8PAlw/d8IFP6BGWj/2mgg/noFYP3dtCz8ds1Y/2jkOPzHbVD8AABE/7/lSP8q/Ez9sD1E/GHkWP70bTz/NKxk/+B5NP8rXGz80GUs/8XweP4gKST8kGyE/CvNGP0ayIz/R0kQ/OkImP/epQj/jyig/k3hAPyVMKz+9Pj4/48UtP4/8Oz8BODA/IrI5P2WiMj+QXzc/8wQ1P/MENT+QXzc/ZaIyPyKyOT8BODA/j/w7P+PFLT+9Pj4/JUwrP5N4QD/jyig/96lCPzpCJj/R0kQ/RrIjPwrzRj8kGyE/iApJP/F8Hj80GUs/ytcbP/geTT/NKxk/vRtPPxh5Fj9sD1E/yr8TP+/5Uj8AABE/MdtUP9o5Dj8ds1Y/d20LP56BWD/2mgg/oEZaP3fCBT8PAlw/G+QCP9ezXT8AAAA/5ltfP5As+j4o+mA/J070Po2OYj8HZe4+ARlkP3Fx6D50mWU/qnPiPtQPZz/za9w+EnxoP5Ja1j4e3mk/yT/QPuc1az/eG8o+XoNsPxXvwz52xm0/tLm9PiH/bj8BfLc+Ty1wP0E2sT70UHE/vOiqPgNqcj+3k6Q+cXhzP3o3nj4wfHQ/TNSXPjZ1dT91apE+d2N2Pz76ij7qRnc/7oOEPoQfeD+cD3w+PO14P00Mbz4JsHk/gv5hPuJnej/N5lQ+vhR7P8LFRz6Ytns/85s6PmdNfD/1aS0+Jdl8P1wwID7LWX0/u+8SPlXPfT+oqAU+vDl+P3O38D39mH4/BBPWPRLtfj8zZbs9+TV/PyqvoD2vc38/E/KFPS+mfz86XlY9ec1/P+fOID2L6X8/CnHWPGP6fz+/dVY8AAAwAGAAkADAABAAQABwAKAA0AAgAFAAgACwAOAABAA0AGQAlADEABQARAB0AKQA1AAkAFQAhAC0AOQACAA4AGgAmADIABgASAB4AKgA2AAoAFgAiAC4AOgADAA8AGwAnADMABwATAB8AKwA3AAsAFwAjAC8AOwAAQAxAGEAkQDBABEAQQBxAKEA0QAhAFEAgQCxAOEABQA1AGUAlQDFABUARQB1AKUA1QAlAFUAhQC1AOUACQA5AGkAmQDJABkASQB5AKkA2QApAFkAiQC5AOkADQA9AG0AnQDNAB0ATQB9AK0A3QAtAF0AjQC9AO0AAgAyAGIAkgDCABIAQgByAKIA0gAiAFIAggCyAOIABgA2AGYAlgDGABYARgB2AKYA1gAmAFYAhgC2AOYACgA6AGoAmgDKABoASgB6AKoA2gAqAFoAigC6AOoADgA+AG4AngDOAB4ATgB+AK4A3gAuAF4AjgC+AO4AAwAzAGMAkwDDABMAQwBzAKMA0wAjAFMAgwCzAOMABwA3AGcAlwDHABcARwB3AKcA1wAnAFcAhwC3AOcACwA7AGsAmwDLABsASwB7AKsA2wArAFsAiwC7AOsADwA/AG8AnwDPAB8ATwB/AK8A3wAvAF8AjwC/AO8A8AAAAImIiDsBAAAABQAwAAMAEAAEAAQABAABAAAAAAAAAAAAAAAAAAAAAADgbQAA4F4AAAAAAAAAAAAAAAAAAAAAGAAwAEgAYAAIACAAOABQAGgAEAAoAEAAWABwAAQAHAA0AEwAZAAMACQAPABUAGwAFAAsAEQAXAB0AAEAGQAxAEkAYQAJACEAOQBRAGkAEQApAEEAWQBxAAUAHQA1AE0AZQANACUAPQBVAG0AFQAtAEUAXQB1AAIAGgAyAEoAYgAKACIAOgBSAGoAEgAqAEIAWgByAAYAHgA2AE4AZgAOACYAPgBWAG4AFgAuAEYAXgB2AAMAGwAzAEsAYwALACMAOwBTAGsAEwArAEMAWwBzAAcAHwA3AE8AZwAPACcAPwBXAG8AFwAvAEcAXwB3AHgAAACIiAg8AgAAAAUAGAADAAgAAgAEAAQAAQAAAAAAAAAAAAAAAAAAAAAAAHAAAOBeAAAAAAAAAAAAAAAAAAAAAAwAGAAkADAABAAQABwAKAA0AAgAFAAgACwAOAABAA0AGQAlADEABQARAB0AKQA1AAkAFQAhAC0AOQACAA4AGgAmADIABgASAB4AKgA2AAoAFgAiAC4AOgADAA8AGwAnADMABwATAB8AKwA3AAsAFwAjAC8AOwA8AAAAiYiIPAMAAAAFAAwAAwAEAAQAAQAAAAAAAAAAAAAAAAAAAAAAAAAAADBxAADgXgAAAAAAAAAAAAAAAAAAAwAAAAIAAAADAAAAAgAAAAUAAAACAAAAAwAAAAIAAAADAAAAAgAAAAUAAAACAAAAAwAAAAIAAAAAAM5AAADIQAAAuEAAAKpAAACiQAAAmkAAAJBAAACMQAAAnEAAAJZAAACSQAAAjkAAAJxAAACUQAAAikAAAJBAAACMQAAAlEAAAJhAAACOQAAAcEAAAHBAAABwQAAAcEAAAHBAAAAAAAAAAAAAAAAASH9BgUKAQYBAgD6AQIBAgFxOXE9cTlpPdClzKHIohBqEGpERoQywCrELGLMwijaHNoQ1hjiFN4Q3hD1yRmBKWEtYV0pZQltDZDtsMngoeiVhK04yU05UUVhLVkpXR1pJXUpdSm0ociR1InUijxGREpITogylCrIHvQa+CLEJF7I2cz9mQmJFY0pZR1tJW05ZVlBcQl1AZjtnPGg8dTR7LIojhR9hJk0tPVpdPGkqayluLXQmcSZwJnwahBuIE4wUmw6fEJ4Sqg2xCrsIwAavCZ8KFbI7bkdWS1VUU1tCWElXSFxLYkhpOms2czRyN3A4gTOEKJYhjB1iI00qKnlgQmwrbyh1LHsgeCR3IX8hhiKLFZMXmBSeGZoaphWtELgNuAqWDYsPFrI/ckpSVFNcUmc+YEhgQ2VJa0hxN3Y0fTR2NHU3hzGJJ50gkR1hIU0oAABmPwAATD8AACY/AAAAPwCGaz8AFC4/AHC9PgDQTD4CAQAAAAAAAAAAAAAAAAAAAAgNEBMVFxgaGxwdHh8gICEiIiMkJCUlDwAAAAoAAAAFAAAAAAAAAAAAAAAAAAAAKCMAALwCAAAoIwAAvAIAALw0AADoAwAAsDYAANAHAAAoIwAAvAIAACgjAAC8AgAA+CoAAOgDAADgLgAA0AcAAOAuAADoAwAAsDYAAOgDAACAPgAA6AMAACBOAADoAwAA8FUAAOgDAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA4C4AABAnAAAQJwAA+CoAAPgqAACAPgAAvDQAALw0AACYOgAAmDoAACBOAACAPgAAgD4AAFBGAABQRgAAwF0AAFBGAABQRgAACFIAAAhSAAAAfQAA8FUAAPBVAABgbQAAYG0AAAD6AABwlAAAcJQAAFDDAABQwwAADQAAABEAAAARAAAAEwAAAAAAAAAAAAA/HMCVPr/TJD7SAK49sh8zPbHWtTytPDc8SvK3O5FOODsAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAOZaNDh3TjM509nJOZKRMzrMYIw6YfvJOpl+CTvLgDM71SVjO3cujDuoiqk7RbjJO4em7DvoLgk8rmYdPPcCMzyT/0k8T1hiPF4RfDwukYs8vceZPFysqDzzPLg8gXnIPO5f2Tw58Oo8Yyr9PDUHCD0QzBE9zeQbPWFQJj3LDjE9AB88Pf6ARz3GNFM9PzhfPWmLaz1FLng9aZCCPXswiT3g9489iuWWPXv5nT2xM6U9IZOsPVAYtD0zwrs9T5HDPRKEyz0Cm9M9H9bbPdcz5D2vtOw9IVj1Pagd/j2hggM+8gYIPsebDD7dQBE+NPYVPkW7Gj4RkB8+VHQkPstnKT4zai4+jXszPlKbOD7FyT0+HAZDPllQSD56qE0+tw1TPlKAWD4IAF4+VIxjPvIkaT4lym4+JHt0Pqw3ej4AAIA+q+mCPvnYhT6FzYg+UMeLPjfGjj73yZE+s9KUPibglz4P8po+bAiePhwjoT7/QaQ+0GSnPrGLqj4ctq0+VOSwPtMVtD66Src+6IK6Pvm9vT4N/MA+4jzEPlaAxz5Hxso+lQ7OPvtY0T56pdQ+8fPXPhxE2z7Zld4+COnhPqc95T5Tk+g+DOrrPq9B7z4cmvI+DvP1PohM+T4ipvw+AAAAP++sAT+8WQM/eQYFP/KyBj8pXwg/+goKP1a2Cz8sYQ0/fAsPPxO1ED/yXRI/CAYUP0OtFT+CUxc/tvgYP9ycGj/VPxw/j+EdP/mBHz8EISE/jL4iP6NaJD8X9SU/1o0nP/IkKT8ouio/mE0sPwHfLT9ybi8/yvswP/mGMj/tDzQ/p5Y1PwQbNz/lnDg/WBw6Pz2ZOz+DEz0/Kos+PwAAQD8VckE/N+FCP3dNRD/DtkU/6xxHP/5/SD/s30k/kjxLP+GVTD/q600/eT5PP4+NUD8r2VE/HSFTP3NlVD8NplU/6+JWP/wbWD8vUVk/c4JaP8mvWz8O2Vw/Q/5dP1gfXz9LPGA//FRhP2ppYj+FeWM/PIVkP6CMZT9+j2Y/1o1nP7qHaD/2fGk/nG1qP4pZaz/RQGw/TyNtPwQBbj/x2W4/861vPxx9cD9JR3E/fAxyP7TMcj/wh3M/ED50PxPvdD/6mnU/s0F2Pz/jdj+Nf3c/rRZ4P36oeD8BNXk/NLx5Pxg+ej+duno/wjF7P3ejez+7D3w/n3Z8PwLYfD/0M30/ZYp9P0TbfT+zJn4/j2x+P+usfj+j534/2hx/P39Mfz+Bdn8/Apt/P9C5fz8c038/xeZ/P8v0fz8v/X8/AACAPwQAAAAIAAAADAAAABAAAAAUAAAAGAAAABwAAAAgAAAAKAAAADAAAAA4AAAAQAAAAFAAAABgAAAAcAAAAIgAAACgAAAAwAAAAPAAAAAAAAAAAACAPgAAgD4AAIA+AACAPgAAgD4AAIA+AACAPgAAgD4AAIA+AACAPgAAgD4AAIA+AACAPgAAgD4AAIA+AACAPtAltD6XOa0+CaWfPvrtiz7NrGU++KkqPjQw0j1a8Q09WvENvTQw0r34qSq+zaxlvvrti74JpZ++lzmtvtAltL6HirE+G4OWPmAjST7EQo09xEKNvWAjSb4bg5a+h4qxvoeKsb4bg5a+YCNJvsRCjb3EQo09YCNJPhuDlj6HirE+lzmtPs2sZT5a8Q09+Kkqvgmln77QJbS++u2LvjQw0r00MNI9+u2LPtAltD4JpZ8++KkqPlrxDb3NrGW+lzmtvn09pz7Siwo+0osKvn09p759Pae+0osKvtKLCj59Pac+fT2nPtKLCj7Siwq+fT2nvn09p77Siwq+0osKPn09pz4JpZ8+WvENPfrti76XOa2+NDDSvc2sZT7QJbQ++KkqPvipKr7QJbS+zaxlvjQw0j2XOa0++u2LPlrxDb0JpZ++G4OWPsRCjb2HirG+YCNJvmAjST6HirE+xEKNPRuDlr4bg5a+xEKNPYeKsT5gI0k+YCNJvoeKsb7EQo29G4OWPvrtiz74qSq+lzmtvlrxDT3QJbQ+NDDSPQmln77NrGW+zaxlPgmlnz40MNK90CW0vlrxDb2XOa0++KkqPvrti74AAAAABcEjPel9oz0llvQ94nQiPqwcSj7dJXE+NLqLPrR3nj7kv7A+rYjCPiXJ0z4YeuQ+GJX0PsgKAj8cfAk/SZ0QP8ptFz/A7R0/nx0kP1T+KT8ukS8/4Nc0P2PUOT/wiD4/0/dCP6sjRz8XD0s/2LxOP60vUj9qalU/zm9YP5pCWz+O5V0/S1tgP26mYj9kyWQ/m8ZmP2+gaD/3WGo/gPJrP99ubT8L0G4/yhdwP+BHcT/hYXI/TWdzP5ZZdD8MOnU//wl2P4rKdj+7fHc/wCF4P2K6eD+dR3k/S8p5PyRDej/ysno/Oxp7P8h5ez8g0ns/yCN8PzdvfD/ytHw/XvV8P+AwfT/sZ30/t5p9P7TJfT8G9X0/ER1+PxhCfj9OZH4/04N+P/2gfj/tu34/w9R+P7Prfj/vAH8/hxR/P40mfz9DN38/qkZ/P+NUfz8PYn8/L25/P2R5fz++g38/P41/PxiWfz84nn8/wqV/P6Osfz8Qs38/9bh/P3e+fz9yw38/Gch/P2zMfz9b0H8/BtR/P2/Xfz+D2n8/Zt1/PxXgfz+C4n8/zeR/P+bmfz/N6H8/kup/P0bsfz/I7X8/KO9/P3jwfz+m8X8/w/J/P7/zfz+69H8/lPV/P172fz8n938/z/d/P3f4fz/9+H8/lPl/Pwn6fz9/+n8/9Pp/P1n7fz+t+38/Afx/P1T8fz+Y/H8/2/x/Px79fz9Q/X8/gv1/P7X9fz/n/X8/Cf5/Pzv+fz9d/n8/fv5/P4/+fz+w/n8/0v5/P+P+fz/0/n8/Ff9/Pyb/fz83/38/R/9/P1j/fz9Y/38/af9/P3r/fz96/38/i/9/P5v/fz+b/38/m/9/P6z/fz+s/38/vf9/P73/fz+9/38/zv9/P87/fz/O/38/zv9/P87/fz/e/38/3v9/P97/fz/e/38/3v9/P97/fz/v/38/7/9/P+//fz/v/38/7/9/P+//fz/v/38/7/9/P+//fz/v/38/7/9/P+//fz/v/38/AACAPwAAgD8AAIA/AACAPwAAgD8AAIA/AACAPwAAgD8AAIA/AACAPwAAgD8AAAAAAAAAAAAAAAAz8AEN+/rw+Qv6ahoc8hXjBxLu7xXv9xTn/d4wC/Ph7OL3AvQF/wgJCQjzEu/e+xH1APwKAgoP+AL/AAUN/fAB+wMH5PMGJP0TxO/kB/Xi+QLW6/0G6iH3B+IV8hj17O779AzPzs8QCdv/CSLz4eEMECzWAvcI7voJJBMLDQzrA+T0AyEZ8gsBotkS9PXx+TE0CtUJOQgV+g7xLPgH4vP+9xn+gRL1zBrlGwr2BysG6CkK7uUKEQkK7/YU+hY3I7AkGejcDwntWBNAzd0RAPkp8BsED/8S8C/ZyvgN5+xm7vssC+RHAs37BQKt9+MIFcs62/kNJgki/9cVBOjc3+sgS/4BvP8v4yAUDL+pBRD0GCgPBxPm7xEG/tvi9yCB2QDh5QTqF/qzI8Mg2+gN9f/Y/RH5DQs77QoG7gANA/rpEwvvDf+wKMtF48oA/CHn/iYjJPEuAvPw+PgM6PfJ+/cgCwcM7vaq2jYl5xLVB+Xlyg0JFkYGI/kX8dT6B76rICjt9/kM8QcCBt0LHAAaDgEBBAwSIxbu/Q7/Bw748v0E/e35/+flGeb+Ierl5wT3BxUa4gr37AsbCgXuDvwC7/v59/MPHQH28PYjJPnq1BEeFhX/FvUg+PkF9gUe7B3s3gz8+gbzCvu8/xgJE+jAHxMb5kvTKSfWCAYX4hDnHiII2v0SEOEW/PcBFAkm4ADTAPrzC+fg6h/o9fX8/BTeFhQJ5xv7HOMdBhX67jYE0hcV8uEk1+gEFgoLByTg88zvGBzb3P8YCdojMBIC/y0KJxjaDQjwCBkLB+P1BxTi2tMO7uT3QT0Wy9rwJC4U2SDD+vrc3+7kOGUtC+Tp48MU0QIwG+8BKAEDzQ8jHBYjNcPjDPrrCgPsAucB+h8L/QH2zAZ+l3p/gH9/gH9sDH8wgNyAf3+AgH9ZgH+AgIB/f4CAo64UfUGufya2UVioTzPRkeYOU6iQGCObYp3Q0y5TxLEt7NcJBDQ2XfYEDQN7Bl6Ru/LhCgw1sfXr/tS4XEHHONp/yIB/f4BWdbWAf+2dkH+Af9BydoCAde/6eYB/gFI2ln9/32TZ6RKy3uP/4n/mf4B+gBvpsYiBf0hCHQe+yIuA4H4AAAB/AAAZAAAAIAAAAAAAAAAAAAAAAAAAAAAAAADWFBAAaTwBnxg8Eg0+GX8iTzd2f18f/FcVDALyEhcIEf/4BQQYJRUNJA0REiUeIQEI8PX74f37AAYDOvn/8AXzEAr+8gv8A/UAAAAAAAAAABb/+Qcd5eHv8yEs+AshGE4PEx7+6AUxBSQd8vXQ3xXW2vQ32zb4ASQRADMfOwf0NQQg8jAF9vD4AfDI6PoS/hcGLvr2FCPU8c8kEAX5sb0MRv2xyqvoL+ohFUX/CxYO8PDq5PUL1x/m3+38GyDOBfba6vgj4QHX8fUsHO/X6REC6ebz8+8GDuHnCe0n+AQf/9P15KTS8RV26i3NC+zs8Q3rn+Pg6dZeARf4P/3SE+Yg2LbmGvzzHuzi5/Lh09UExND03gICAw0PCxAFLvfJ8McdDibO/tT1+DTl2vkULxHFAC8uwSPvEyFE7QIP8BzwmRrdL9nEHh/pzPN0L+ceKB7qAgzl7h/2G/i+DA4E5uTzAw3mzSUFAusvAw0Z1+X4/AW03xwKCdK2ExwZHzbJRCbo4AIERAv/YwUQ/rYoGuYhH/+8DvoZCR08PQf5AOgHTQT/EPkN8e0c4ejwJRgNHgriCwv2FjwcLf3YwvuaCeDlyhUP+yXV9SXtL8CA5Y4Vvjsu/fSp9wQTj9xOOebas/YGBrUZn/Uh0gEN69/sEPr99fzlJgjX/t8SE+YB4+r88sn1sP0LIlozCxErJH/gHWcJGw1AOEbyA/QKJQMM6vYuHAoUGugSCQcOIvv5H/LIC+747/n22Arf4NUFCQv8CjL0+y4JBwELD1vvB84XBuKdAO8OCPbn4rvCH39y6WX7yvrqB8gnEuMALgixBOsS4D70+PTGH+ARBugZGAn87S0GEfIF5RD81xncBQ8MMhsZF9S79+3Q+AQM+g3t4twaJf/94tby9uwayuXUBEnmWiC74/ADZw/vJRjp4SHbwBkNr+TgGwXd6Q/qE/kJHhPpG/MrHeP6Cdjf3+AJC9D46cwuEerWI/HXECIf1u31NwfZWfXfFPIWIAPv+g4iATfrpvgSGw3jFQ/fzff1BPDuF/z8MAEHHfL08BEjCAD5/gkIEfo14OvOBWPE+8sK4Qz7B1AkEuEJYiTB3QTz5Ogc8xIQ/+7eChQHBB0LGfkkDi0YAfAeBiP69egN/xsnFDD1/PMcC+HuH+MW/uzwBR705P1d8BcS4wbK2xz9/dH93Mn9KfYv/hcq+bnlU8AH6Aga7w8MH+La89/IBO8UEgHi+/rh8tsAFgriJe8SBgUX3OAOEvPDzLss4hAS/OcOURr46cU0mBF34BoRARctHcDH8kkV8/MJvPnMAxjZLPEbDhP35PUFA97+Ahb66QQDDerz9u4dBizz6PgCHg4rBhG3+vkUsPn55A+72vuc3Q+xFx3u5RW+2wjq2TAE8wH3C+MWBs8g8i/u/CzMtiseF/IFAOUE+Qr8CgHwC+7++wL1AOz8Jko7J0D2Gv3YvAPizQjt5dIzNDYkWlwODfsAEMIQC9Hb+vsVNscgKvo+9xAVGAn2/CEyDfEB3dAS9e+98xUm1CTwHREF9hIR4AIIFsjx4CgrEy75nKATNRgV5tCbrj0mq+Te/z/7+ycn2iD05BQo+AIfDN3zFOceCAPz9+wC8xgl9iEGFPDo+vrt+xYVCgv82f8GMSnxxxXCTbvzALYB+dr4Bj8cBBrMUj8NLd8szL/r0s9A7yAYRNnw++YcBcPkAhgL9N8J2/3kFtv0EwDu/g4BBAj3/ivv/r7hONip3P781tP/H9XxGz/1IPbfG+0ED+beHfzZvw7s6+/cDTsv2t8N2/jb+fq04fTSBxjr4vIJD/TzL+Xn/9kAFPcGBwQDBycyFvkO7AFG5B3XCvD75P7bIO4RPvXsziQVwvTINDIRAzAs1+cDEP0AIfoPGyLnFgkR9SQQ/gwVzC3+9i4V7kPk8x4lKhD3C0sHwNj2HTnpBTWzA+/7L8nd3PM0y7k0kenm5B3VN+0r7Tb039TZ7fbh9hUmx+wC5wj6MgwPGecP4voJGSUT/B/qAgQCJAcD3rAk9v77H9wxuhTcFRgZ0s0kxtDY9jdHLwr/AQLSvBANALbjSczu9QfUruC65P/ZvPrXDOrwKPXnM/cVBATeB7IQBtri/tQgABZABbj+8vbw+OcMZsYl9ukPMQf5AuzgLfowHB4h/xb6HkHvHUol5vYP6BO+Fvbh/+73CyX8LQUpEQEBGMYpBc0OCCsQ9v8tIMAD3+f95bwMF/Xz29gE6/Qg6e1MKeno1L//8QFHPwUU/RXpH+AS/hsfLvvZ+90S7tj2AwwC/uooBfo8JAMd5QoZygUaJyPo2x6lHPzr5dn6BQyAJvAdoeNS/iMCDAjqClDRAue3sRDi4L4wFdP10Q7l7/kP1PLU5uAa6RH55Br6HAbmAg3y6fITLhAC3+sc79Ys2wHZHFTSDwoN1EjmGiDk9K0CCuLU9uQ1LUEA5zkk3wYdLMsLE/7lIyAxBBcmJBgKM9kE+Rol3QvR7hwQ3SoR69ccDvQL0wfV8RL7JtjO4usJng0MF0vI+f38/94Mzwsa7uTvIQ3yKBi42woR+hYQEPr04vIKKOkMD/3xDcj84gH97xsy+0Dc7QcdFhkJ8Ma72MO58ipdGgv6xvVGzBMJ4t8L29Hr6tgKLwTpETAp0A4KDyLp/tEX4PP25ub8ECbyAPT5+RQs/+Dl8AT67g4FBOMcB/kP9ezT3BBUIsXiFn4IRE/vFbwlBQ8/MX+mVSsHEAkG08fVOQvp9eM85gAHKugKF+cI+dgT7yMEG9mlG9wiAhDoGQfrBREK6uIJ78PmIRU6zfJF2hQHUPy/+uU19C//8QE8ZrH8DAkWJfj8JQL98fD1+xP61RTn7grlAOTl9Qru/vzwGg76B/oBNf7jFwni+vz6OEYA3+zv9+gu+5cv0s0UFMuv//lL++u/DMwWzvQxNkyvCi3XxRLtGQ7hy/sMH1TpAgcCCuAn/vQB9wD29QkP+P4C/woO+9gT+fka/AIB5SMgFeEaK/cE4CjCzCQWJhYkoAb26c8P3+79ACkV7RUX2en6Bi84BEoAnh3R8twV6hYQDQwQ+w0R8/EB3uYaDCAbDb0bAggKEhAU7+85wAUOEx/u1NLwBOcRgugnBAg3594n8AMJR0jhyQYK5yCr6xL4Dwzl+QHr/vsw8BIB6uYQDuEb+vHrBPIS3BRDnQwp5zHUI1FuLyK+8g7EIh23CikjWQfdFgcb7Po4GkIGIck1AesOEUQ3OwAS9wXXBvuO9B0q6QpR5RTL4sIoXxn8AxL48eOuAsf9w+PjMQLJBbudz80G5wxZLN8FKQEX29vk0AME1+LH3dn/88j7MjEp/Pwh6v8hIhIo1gwB+v4SEScsC0HE0wpbFQnC9QhFJRjiFRrlAeQYQvgGuSIYLDqy7TkRxAEM/f/YFgv7GQwBSE8HzhcSDRX17AVNohgPOc0DJDX/BA4e4RYoIPXe3MU6GRXK6SguEgAMNqCdxQV32jI3DPBDACIjJyP/RRgb4t38ugLU+foT9zws6/YlK/D9HvG/H8kSnkxAGRju+bz2JhvEJCEQHiLZ2x8MNcoO5s+A8/vq9as3+M313/bhtNcXLNjKgZsT6fEPGzrECA7fATD39YUDNRcE5BYC470kDAc361gU/+vvAykg9vL7x0M5FRf+5bfoeBUS3Sr5A9PnTN4yC8qlA4/s+y8P0REb/eb5CgdK2ED5++jP6P32G+/4/Q7lIQ0nHPnaHRAsEzf9CfPHKysfAKPvE8gE9Oclq/OKIe84R7D8BvXuL8wZCTCVARUU/Qrw/BgRH8Puzhj2DEcaC/0EAQD52BIm3iYRCN4CFXvg5isO3v/3JfAG78JEFhELtSGwPve1TCTX+Nj1uSjZPs+vEPfMND0RmeX2+MrHFRfwzCQSCvsID+MF7dsIywYT2ybvMAoAUS5G42ULLNT9GAsDDvcLDtMNLv3HRCw/Yhnk6Q8g9jX6/vf6EJX19eQ7OeomKlMbBR3iDOvzHybrOvb28f77Cwy35NoWAudJzPTJIMEVMyE05jfm5jng/MzDFd+lzUWmy9rUDLTsTdP5ViuT35fYh/YAuC3Ntc/a/8IS/x7U8va9KPbeLsDgHfMhA+D7HOXnXRhE2DkX/evGEdnv6qcLEtIbGC5/PVcff9wv6S9/6G56HmQAYPQGMizzSQQ39fExKvoU3ToSJipIE+sLCdsHHR8Q7w3OEwXpM/D7BOhMCsvk+b9KKPDjIPDP3f07oM7V1cPx+Nze3/IL/dkEjoX1z+sOyAErwRooEvbm8vHd3fUg1L0CFgcD9+LN5BwG6hAi58zK+PoFCBTw79QbAx/70P/9dAtH4dFtMur0xyBCCOejyvYTtN5hMNzu4tnm9BwODPThJgIKBNgUEMMCQCcFDyEow89d9iEc9eXuJ8L6+j4L+Ca9DBsn5Xvu+r9TwBQT9SEYEThOB/E2m/dzoDIzIyIbJdj1CNwq0wLpAEP49/My8uUEAPjyHvcdDwnaJfgy0jYp9fj15ictDubv5UUmJ2JCACp7m+2tdeA4CgyoT8s4P1/CCSTzsfAl0iPeDhHKBRX5Bz84Dxu05wTmwRy9zCvRuij0KL7bACMlywTvzQsVDt78GNYdFgccDCUn2e1BxM7+AVInE+nV6r3d3iBmUX8kQ9MBvcz8IxQcR1bd963eDAnpAg4c6QfnLQcR2wDtHxoo5fARBesXGGDJNO3y+gEy3lbLJgLM3PM8q4ggB/QWRvmiJrTh7A/kBwYoNVgDJhL46ukzJfcN4BnrGx8UEvfzARXo8ycP9ePcEg8IGxWi/+oxQv8G/djuBhwMIcU+PNBa/2wJEv4bTb9S0Nrt9X8yQhLz6jzaKPLm8yZDOR4hGiQm7xvkFAzAEgXf5Q3mICP70PJcK9HyKAszQhbB8MME5BsU3+Lr48sf2Bgr/O0VQxRk8KNO+u7M2/dC4fgaEgQY6hH+8xsACO7nBevo+RKjFQcCtUUy+/HvPNY3AfwDCi4Q8y359tSUMQLxwPS4INrTCsoN8+XcwDrCm1iqudn3gCAP/Dbw2ebcLjDA9hMe8yL4Mjzq+vXiBTIgOAAZBkQL4y339AQBEs8A2u1aHSMzCNBg//T34MG/+SZZHKvk6eeAOE/cY/rbB/O70uMZQOsRASq+AVAa4BUPDwYG9g9/BSYbV8fnC0jr+wvzvk4k/SnrCN8XSRw55/sE6tEPBMe4IQESAjW5nev9kWxH8lIZPdAFCc3s5/0O3w793hYM7drwAhUQGuFLLOEQGkIR9+rqFtQWGwI68gq31jfnw0j/HsbnPxrQ2BriPAjv/+7sK+z85H+WHUZA5Sff+6jYzBos7xcCzxb3+FYx1cQBCi0ky/whJjC4ARMVvwT7whvnEfoG09nSBBp/9xLf7v0hAvsP5uqLwe/FPbYH0caAvQ/wgAwCFAnQ2CsD2PDa+urk8MXqBvsL9L7YG8LU7Sb9J/go6A0VMsTqNeP6ARbFABHZc0CCAACQggAAkIsAACAAAAAYAAAADnUAAAAAAAAAAAAAj6gfgILDVd12gMN/gO+Af2j3gCEtfwVTVICrgNMwy4Auf+99ddeLpYG8/6ewIGoHZJIAAHCSAAAYAAAAAgAAAAEAAAAAAAAAAAAAAAAAAAADAAAABAAAAAQAAAAGAAAAg/miAERObgD8KRUA0VcnAN009QBi28AAPJmVAEGQQwBjUf4Au96rALdhxQA6biQA0k1CAEkG4AAJ6i4AHJLRAOsd/gApsRwA6D6nAPU1ggBEuy4AnOmEALQmcABBfl8A1pE5AFODOQCc9DkAi1+EACj5vQD4HzsA3v+XAA+YBQARL+8AClqLAG0fbQDPfjYACcsnAEZPtwCeZj8ALepfALondQDl68cAPXvxAPc5BwCSUooA+2vqAB+xXwAIXY0AMANWAHv8RgDwq2sAILzPADb0mgDjqR0AXmGRAAgb5gCFmWUAoBRfAI1AaACA2P8AJ3NNAAYGMQDKVhUAyahzAHviYABrjMAAGcRHAM1nwwAJ6NwAWYMqAIt2xACmHJYARK/dABlX0QClPgUABQf/ADN+PwDCMugAmE/eALt9MgAmPcMAHmvvAJ/4XgA1HzoAf/LKAPGHHQB8kCEAaiR8ANVu+gAwLXcAFTtDALUUxgDDGZ0ArcTCACxNQQAMAF0Ahn1GAONxLQCbxpoAM2IAALTSfAC0p5cAN1XVANc+9gCjEBgATXb8AGSdKgBw16sAY3z4AHqwVwAXFecAwElWADvW2QCnhDgAJCPLANaKdwBaVCMAAB+5APEKGwAZzt8AnzH/AGYeagCZV2EArPtHAH5/2AAiZbcAMuiJAOa/YADvxM0AbDYJAF0/1AAW3tcAWDveAN6bkgDSIigAKIboAOJYTQDGyjIACOMWAOB9ywAXwFAA8x2nABjgWwAuEzQAgxJiAINIAQD1jlsArbB/AB7p8gBISkMAEGfTAKrd2ACuX0IAamHOAAoopADTmbQABqbyAFx3fwCjwoMAYTyIAIpzeACvjFoAb9e9AC2mYwD0v8sAjYHvACbBZwBVykUAytk2ACio0gDCYY0AEsl3AAQmFAASRpsAxFnEAMjFRABNspEAABfzANRDrQApSeUA/dUQAAC+/AAelMwAcM7uABM+9QDs8YAAs+fDAMf4KACTBZQAwXE+AC4JswALRfMAiBKcAKsgewAutZ8AR5LCAHsyLwAMVW0AcqeQAGvnHwAxy5YAeRZKAEF54gD034kA6JSXAOLmhACZMZcAiO1rAF9fNgC7/Q4ASJq0AGekbABxckIAjV0yAJ8VuAC85QkAjTElAPd0OQAwBRwADQwBAEsIaAAs7lgAR6qQAHTnAgC91iQA932mAG5IcgCfFu8AjpSmALSR9gDRU1EAzwryACCYMwD1S34AsmNoAN0+XwBAXQMAhYl/AFVSKQA3ZMAAbdgQADJIMgBbTHUATnHUAEVUbgALCcEAKvVpABRm1QAnB50AXQRQALQ72wDqdsUAh/kXAElrfQAdJ7oAlmkpAMbMrACtFFQAkOJqAIjZiQAsclAABKS+AHcHlADzMHAAAPwnAOpxqABmwkkAZOA9AJfdgwCjP5cAQ5T9AA2GjAAxQd4AkjmdAN1wjAAXt+cACN87ABU3KwBcgKAAWoCTABARkgAP6NgAbICvANv/SwA4kA8AWRh2AGKlFQBhy7sAx4m5ABBAvQDS8gQASXUnAOu29gDbIrsAChSqAIkmLwBkg3YACTszAA6UGgBROqoAHaPCAK/trgBcJhIAbcJNAC16nADAVpcAAz+DAAnw9gArQIwAbTGZADm0BwAMIBUA2MNbAPWSxADGrUsATsqlAKc3zQDmqTYAq5KUAN1CaAAZY94AdozvAGiLUgD82zcArqGrAN8VMQAArqEADPvaAGRNZgDtBbcAKWUwAFdWvwBH/zoAavm5AHW+8wAok98Aq4AwAGaM9gAEyxUA+iIGANnkHQA9s6QAVxuPADbNCQBOQukAE76kADMjtQDwqhoAT2WoANLBpQALPw8AW3jNACP5dgB7iwQAiRdyAMamUwBvbuIA7+sAAJtKWADE2rcAqma6AHbPzwDRAh0AsfEtAIyZwQDDrXcAhkjaAPddoADGgPQArPAvAN3smgA/XLwA0N5tAJDHHwAq27YAoyU6AACvmgCtU5MAtlcEACkttABLgH4A2genAHaqDgB7WaEAFhIqANy3LQD65f0Aidv+AIm+/QDkdmwABqn8AD6AcACFbhUA/Yf/ACg+BwBhZzMAKhiGAE296gCz568Aj21uAJVnOQAxv1sAhNdIADDfFgDHLUMAJWE1AMlwzgAwy7gAv2z9AKQAogAFbOQAWt2gACFvRwBiEtIAuVyEAHBhSQBrVuAAmVIBAFBVNwAe1bcAM/HEABNuXwBdMOQAhS6pAB2ywwChMjYACLekAOqx1AAW9yEAj2nkACf/dwAMA4AAjUAtAE/NoAAgpZkAs6LTAC9dCgC0+UIAEdrLAH2+0ACb28EAqxe9AMqigQAIalwALlUXACcAVQB/FPAA4QeGABQLZACWQY0Ah77eANr9KgBrJbYAe4k0AAXz/gC5v54AaGpPAEoqqABPxFoALfi8ANdamAD0x5UADU2NACA6pgCkV18AFD+xAIA4lQDMIAEAcd2GAMnetgC/YPUATWURAAEHawCMsKwAssDQAFFVSAAe+w4AlXLDAKMGOwDAQDUABtx7AOBFzABOKfoA1srIAOjzQQB8ZN4Am2TYANm+MQCkl8MAd1jUAGnjxQDw2hMAujo8AEYYRgBVdV8A0r31AG6SxgCsLl0ADkTtABw+QgBhxIcAKf3pAOfW8wAifMoAb5E1AAjgxQD/140AbmriALD9xgCTCMEAfF10AGutsgDNbp0APnJ7AMYRagD3z6kAKXPfALXJugC3AFEA4rINAHS6JADlfWAAdNiKAA0VLACBGAwAfmaUAAEpFgCfenYA/f2+AFZF7wDZfjYA7NkTAIu6uQDEl/wAMagnAPFuwwCUxTYA2KhWALSotQDPzA4AEoktAG9XNAAsVokAmc7jANYguQBrXqoAPiqcABFfzAD9C0oA4fT7AI47bQDihiwA6dSEAPy0qQDv7tEALjXJAC85YQA4IUQAG9nIAIH8CgD7SmoALxzYAFO0hABOmYwAVCLMACpV3ADAxtYACxmWABpwuABplWQAJlpgAD9S7gB/EQ8A9LURAPzL9QA0vC0ANLzuAOhdzADdXmAAZ46bAJIz7wDJF7gAYVibAOFXvABRg8YA2D4QAN1xSAAtHN0ArxihACEsRgBZ89cA2XqYAJ5UwABPhvoAVgb8AOV5rgCJIjYAOK0iAGeT3ABV6KoAgiY4AMrnmwBRDaQAmTOxAKnXDgBpBUgAZbLwAH+IpwCITJcA+dE2ACGSswB7gkoAmM8hAECf3ADcR1UA4XQ6AGfrQgD+nd8AXtRfAHtnpAC6rHoAVfaiACuIIwBBulUAWW4IACEqhgA5R4MAiePmAOWe1ABJ+0AA/1bpABwPygDFWYoAlPorANPBxQAPxc8A21quAEfFhgCFQ2IAIYY7ACx5lAAQYYcAKkx7AIAsGgBDvxIAiCaQAHg8iQCoxOQA5dt7AMQ6wgAm9OoA92eKAA2SvwBloysAPZOxAL18CwCkUdwAJ91jAGnh3QCalBkAqCmVAGjOKAAJ7bQARJ8gAE6YygBwgmMAfnwjAA+5MgCn9Y4AFFbnACHxCAC1nSoAb35NAKUZUQC1+asAgt/WAJbdYQAWNgIAxDqfAIOioQBy7W0AOY16AIK4qQBrMlwARidbAAA07QDSAHcA/PRVAAFZTQDgcYAAAAAAAAAAAAAAAABA+yH5PwAAAAAtRHQ+AAAAgJhG+DwAAABgUcx4OwAAAICDG/A5AAAAQCAlejgAAACAIoLjNgAAAAAd82k1/oIrZUcVZ0AAAAAAAAA4QwAA+v5CLna/OjuevJr3DL29/f/////fPzxUVVVVVcU/kSsXz1VVpT8X0KRnERGBPwAAAAAAAMhC7zn6/kIu5j8kxIL/vb/OP7X0DNcIa6w/zFBG0quygz+EOk6b4NdVPwAAAAAAAAAAAAAAAAAA8D9uv4gaTzubPDUz+6k99u8/XdzYnBNgcbxhgHc+muzvP9FmhxB6XpC8hX9u6BXj7z8T9mc1UtKMPHSFFdOw2e8/+o75I4DOi7ze9t0pa9DvP2HI5mFO92A8yJt1GEXH7z+Z0zNb5KOQPIPzxso+vu8/bXuDXaaalzwPiflsWLXvP/zv/ZIatY4890dyK5Ks7z/RnC9wPb4+PKLR0zLso+8/C26QiTQDarwb0/6vZpvvPw69LypSVpW8UVsS0AGT7z9V6k6M74BQvMwxbMC9iu8/FvTVuSPJkbzgLamumoLvP69VXOnj04A8UY6lyJh67z9Ik6XqFRuAvHtRfTy4cu8/PTLeVfAfj7zqjYw4+WrvP79TEz+MiYs8dctv61tj7z8m6xF2nNmWvNRcBITgW+8/YC86PvfsmjyquWgxh1TvP504hsuC54+8Hdn8IlBN7z+Nw6ZEQW+KPNaMYog7Ru8/fQTksAV6gDyW3H2RST/vP5SoqOP9jpY8OGJ1bno47z99SHTyGF6HPD+msk/OMe8/8ucfmCtHgDzdfOJlRSvvP14IcT97uJa8gWP14d8k7z8xqwlt4feCPOHeH/WdHu8/+r9vGpshPbyQ2drQfxjvP7QKDHKCN4s8CwPkpoUS7z+Py86JkhRuPFYvPqmvDO8/tquwTXVNgzwVtzEK/gbvP0x0rOIBQoY8MdhM/HAB7z9K+NNdOd2PPP8WZLII/O4/BFuOO4Cjhrzxn5JfxfbuP2hQS8ztSpK8y6k6N6fx7j+OLVEb+AeZvGbYBW2u7O4/0jaUPujRcbz3n+U02+fuPxUbzrMZGZm85agTwy3j7j9tTCqnSJ+FPCI0Ekym3u4/imkoemASk7wcgKwERdruP1uJF0iPp1i8Ki73IQrW7j8bmklnmyx8vJeoUNn10e4/EazCYO1jQzwtiWFgCM7uP+9kBjsJZpY8VwAd7UHK7j95A6Ha4cxuPNA8wbWixu4/MBIPP47/kzze09fwKsPuP7CvervOkHY8Jyo21dq/7j934FTrvR2TPA3d/ZmyvO4/jqNxADSUj7ynLJ12srnuP0mjk9zM3oe8QmbPotq27j9fOA+9xt54vIJPnVYrtO4/9lx77EYShrwPkl3KpLHuP47X/RgFNZM82ie1Nkev7j8Fm4ovt5h7PP3Hl9QSre4/CVQc4uFjkDwpVEjdB6vuP+rGGVCFxzQ8t0ZZiiap7j81wGQr5jKUPEghrRVvp+4/n3aZYUrkjLwJ3Ha54aXuP6hN7zvFM4y8hVU6sH6k7j+u6SuJeFOEvCDDzDRGo+4/WFhWeN3Ok7wlIlWCOKLuP2QZfoCqEFc8c6lM1FWh7j8oIl6/77OTvM07f2aeoO4/grk0h60Sary/2gt1EqDuP+6pbbjvZ2O8LxplPLKf7j9RiOBUPdyAvISUUfl9n+4/zz5afmQfeLx0X+zodZ/uP7B9i8BK7oa8dIGlSJqf7j+K5lUeMhmGvMlnQlbrn+4/09QJXsuckDw/Xd5PaaDuPx2lTbncMnu8hwHrcxSh7j9rwGdU/eyUPDLBMAHtoe4/VWzWq+HrZTxiTs8286LuP0LPsy/FoYi8Eho+VCek7j80NzvxtmmTvBPOTJmJpe4/Hv8ZOoRegLytxyNGGqfuP25XcthQ1JS87ZJEm9mo7j8Aig5bZ62QPJlmitnHqu4/tOrwwS+3jTzboCpC5azuP//nxZxgtmW8jES1FjKv7j9EX/NZg/Z7PDZ3FZmuse4/gz0epx8Jk7zG/5ELW7TuPykebIu4qV285cXNsDe37j9ZuZB8+SNsvA9SyMtEuu4/qvn0IkNDkrxQTt6fgr3uP0uOZtdsyoW8ugfKcPHA7j8nzpEr/K9xPJDwo4KRxO4/u3MK4TXSbTwjI+MZY8juP2MiYiIExYe8ZeVde2bM7j/VMeLjhhyLPDMtSuyb0O4/Fbu809G7kbxdJT6yA9XuP9Ix7pwxzJA8WLMwE57Z7j+zWnNuhGmEPL/9eVVr3u4/tJ2Ol83fgrx689O/a+PuP4czy5J3Gow8rdNamZ/o7j/62dFKj3uQvGa2jSkH7u4/uq7cVtnDVbz7FU+4ovPuP0D2pj0OpJC8OlnljXL57j80k6049NZovEde+/J2/+4/NYpYa+LukbxKBqEwsAXvP83dXwrX/3Q80sFLkB4M7z+smJL6+72RvAke11vCEu8/swyvMK5uczycUoXdmxnvP5T9n1wy4448etD/X6sg7z+sWQnRj+CEPEvRVy7xJ+8/ZxpOOK/NYzy15waUbS/vP2gZkmwsa2c8aZDv3CA37z/StcyDGIqAvPrDXVULP+8/b/r/P12tj7x8iQdKLUfvP0mpdTiuDZC88okNCIdP7z+nBz2mhaN0PIek+9wYWO8/DyJAIJ6RgryYg8kW42DvP6ySwdVQWo48hTLbA+Zp7z9LawGsWTqEPGC0AfMhc+8/Hz60ByHVgrxfm3szl3zvP8kNRzu5Kom8KaH1FEaG7z/TiDpgBLZ0PPY/i+cukO8/cXKdUezFgzyDTMf7UZrvP/CR048S94+82pCkoq+k7z99dCPimK6NvPFnji1Ir+8/CCCqQbzDjjwnWmHuG7rvPzLrqcOUK4Q8l7prNyvF7z/uhdExqWSKPEBFblt20O8/7eM75Lo3jrwUvpyt/dvvP53NkU07iXc82JCegcHn7z+JzGBBwQVTPPFxjyvC8+8/ADj6/kIu5j8wZ8eTV/MuPQEAAAAAAOC/WzBRVVVV1T+QRev////PvxEB8SSzmck/n8gG5XVVxb8AAAAAAADgv3dVVVVVVdU/y/3/////z78M3ZWZmZnJP6dFZ1VVVcW/MN5EoyRJwj9lPUKk//+/v8rWKiiEcbw//2iwQ+uZub+F0K/3goG3P81F0XUTUrW/n97gw/A09z8AkOZ5f8zXvx/pLGp4E/c/AAANwu5v17+gtfoIYPL2PwDgURPjE9e/fYwTH6bR9j8AeCg4W7jWv9G0xQtJsfY/AHiAkFVd1r+6DC8zR5H2PwAAGHbQAta/I0IiGJ9x9j8AkJCGyqjVv9kepZlPUvY/AFADVkNP1b/EJI+qVjP2PwBAa8M39tS/FNyda7MU9j8AUKj9p53Uv0xcxlJk9vU/AKiJOZJF1L9PLJG1Z9j1PwC4sDn07dO/3pBby7y69T8AcI9EzpbTv3ga2fJhnfU/AKC9Fx5A07+HVkYSVoD1PwCARu/i6dK/02vnzpdj9T8A4DA4G5TSv5N/p+IlR/U/AIjajMU+0r+DRQZC/yr1PwCQJynh6dG/372y2yIP9T8A+EgrbZXRv9feNEeP8/Q/APi5mmdB0b9AKN7PQ9j0PwCY75TQ7dC/yKN4wD699D8AENsYpZrQv4ol4MN/ovQ/ALhjUuZH0L80hNQkBYj0PwDwhkUi68+/Cy0ZG85t9D8AsBd1SkfPv1QYOdPZU/Q/ADAQPUSkzr9ahLREJzr0PwCw6UQNAs6/+/gVQbUg9D8A8HcpomDNv7H0PtqCB/Q/AJCVBAHAzL+P/lddj+7zPwAQiVYpIMy/6UwLoNnV8z8AEIGNF4HLvyvBEMBgvfM/ANDTzMniyr+42nUrJKXzPwCQEi5ARcq/AtCfzSKN8z8A8B1od6jJvxx6hMVbdfM/ADBIaW0Myb/iNq1Jzl3zPwDARaYgcci/QNRNmHlG8z8AMBS0j9bHvyTL/85cL/M/AHBiPLg8x79JDaF1dxjzPwBgN5uao8a/kDk+N8gB8z8AoLdUMQvGv0H4lbtO6/I/ADAkdn1zxb/RqRkCCtXyPwAwwo973MS/Kv23qPm+8j8AANJRLEbEv6sbDHocqfI/AACDvIqww78wtRRgcpPyPwAASWuZG8O/9aFXV/p98j8AQKSQVIfCv787HZuzaPI/AKB5+Lnzwb+99Y+DnVPyPwCgLCXIYMG/OwjJqrc+8j8AIPdXf87Av7ZAqSsBKvI/AKD+Sdw8wL8yQcyWeRXyPwCAS7y9V7+/m/zSHSAB8j8AQECWCDe+vwtITUn07PE/AED5PpgXvb9pZY9S9djxPwCg2E5n+bu/fH5XESPF8T8AYC8gedy6v+kmy3R8sfE/AIAo58PAub+2GiwMAZ7xPwDAcrNGpri/vXC2e7CK8T8AAKyzAY23v7a87yWKd/E/AAA4RfF0tr/aMUw1jWTxPwCAh20OXrW/3V8nkLlR8T8A4KHeXEi0v0zSMqQOP/E/AKBqTdkzs7/a+RByiyzxPwBgxfh5ILK/MbXsKDAa8T8AIGKYRg6xv680hNr7B/E/AADSamz6r7+za04P7vXwPwBAd0qN2q2/zp8qXQbk8D8AAIXk7LyrvyGlLGNE0vA/AMASQImhqb8amOJ8p8DwPwDAAjNYiKe/0TbGgy+v8D8AgNZnXnGlvzkToJjbnfA/AIBlSYpco7/f51Kvq4zwPwBAFWTjSaG/+yhOL5978D8AgOuCwHKevxmPNYy1avA/AIBSUvFVmr8s+eyl7lnwPwCAgc9iPZa/kCzRzUlJ8D8AAKqM+yiSv6mt8MbGOPA/AAD5IHsxjL+pMnkTZSjwPwAAql01GYS/SHPqJyQY8D8AAOzCAxJ4v5WxFAYECPA/AAAkeQkEYL8a+ib3H+DvPwAAkITz728/dOphwhyh7z8AAD01QdyHPy6ZgbAQY+8/AIDCxKPOkz/Nre489iXvPwAAiRTBn5s/5xORA8jp7j8AABHO2LChP6uxy3iAru4/AMAB0FuKpT+bDJ2iGnTuPwCA2ECDXKk/tZkKg5E67j8AgFfvaietP1aaYAngAe4/AMCY5Zh1sD+Yu3flAcrtPwAgDeP1U7I/A5F8C/KS7T8AADiL3S60P85c+2asXO0/AMBXh1kGtj+d3l6qLCftPwAAajV22rc/zSxrPm7y7D8AYBxOQ6u5PwJ5p6Jtvuw/AGANu8d4uz9tCDdtJovsPwAg5zITQ70/BFhdvZRY7D8AYN5xMQq/P4yfuzO1Juw/AECRKxVnwD8/5+zug/XrPwCwkoKFR8E/wZbbdf3E6z8AMMrNbibCPyhKhgweles/AFDFptcDwz8sPu/F4mXrPwAQMzzD38M/i4jJZ0g36z8AgHprNrrEP0owHSFLCes/APDRKDmTxT9+7/KF6NvqPwDwGCTNasY/oj1gMR2v6j8AkGbs+EDHP6dY0z/mguo/APAa9cAVyD+LcwnvQFfqPwCA9lQp6cg/J0urkCos6j8AQPgCNrvJP9HykxOgAeo/AAAsHO2Lyj8bPNskn9fpPwDQAVxRW8s/kLHHBSWu6T8AwLzMZynMPy/Ol/Iuhek/AGBI1TX2zD91S6TuulzpPwDARjS9wc0/OEjnncY06T8A4M+4AYzOP+ZSZy9PDek/AJAXwAlVzz+d1/+OUuboPwC4HxJsDtA/fADMn86/6D8A0JMOuHHQPw7DvtrAmeg/AHCGnmvU0D/7FyOqJ3ToPwDQSzOHNtE/CJqzrABP6D8ASCNnDZjRP1U+ZehJKug/AIDM4P/40T9gAvSVAQboPwBoY9dfWdI/KaPgYyXi5z8AqBQJMLnSP6213Hezvuc/AGBDEHIY0z/CJZdnqpvnPwAY7G0md9M/VwYX8gd55z8AMK/7T9XTPwwT1tvKVuc/AOAv4+4y1D9rtk8BABDmPzxbQpFsAn48lbRNAwAw5j9BXQBI6r+NPHjUlA0AUOY/t6XWhqd/jjytb04HAHDmP0wlVGvq/GE8rg/f/v+P5j/9DllMJ358vLzFYwcAsOY/AdrcSGjBirz2wVweANDmPxGTSZ0cP4M8PvYF6//v5j9TLeIaBIB+vICXhg4AEOc/UnkJcWb/ezwS6Wf8/y/nPySHvSbiAIw8ahGB3/9P5z/SAfFukQJuvJCcZw8AcOc/dJxUzXH8Z7w1yH76/4/nP4ME9Z7BvoE85sIg/v+v5z9lZMwpF35wvADJP+3/z+c/HIt7CHKAgLx2Gibp/+/nP675nW0owI086KOcBAAQ6D8zTOVR0n+JPI8skxcAMOg/gfMwtun+irycczMGAFDoP7w1ZWu/v4k8xolCIABw6D91exHzZb+LvAR59ev/j+g/V8s9om4AibzfBLwiALDoPwpL4DjfAH28ihsM5f/P6D8Fn/9GcQCIvEOOkfz/7+g/OHB60HuBgzzHX/oeABDpPwO033aRPok8uXtGEwAw6T92AphLToB/PG8H7ub/T+k/LmL/2fB+j7zREjze/2/pP7o4JpaqgnC8DYpF9P+P6T/vqGSRG4CHvD4umN3/r+k/N5NaiuBAh7xm+0nt/8/pPwDgm8EIzj88UZzxIADw6T8KW4gnqj+KvAawRREAEOo/VtpYmUj/dDz69rsHADDqPxhtK4qrvow8eR2XEABQ6j8weXjdyv6IPEgu9R0AcOo/26vYPXZBj7xSM1kcAJDqPxJ2woQCv468Sz5PKgCw6j9fP/88BP1pvNEertf/z+o/tHCQEuc+grx4BFHu/+/qP6PeDuA+Bmo8Ww1l2/8P6z+5Ch84yAZaPFfKqv7/L+s/HTwjdB4BebzcupXZ/0/rP58qhmgQ/3m8nGWeJABw6z8+T4bQRf+KPEAWh/n/j+s/+cPClnf+fDxPywTS/6/rP8Qr8u4n/2O8RVxB0v/P6z8h6jvut/9svN8JY/j/7+s/XAsulwNBgbxTdrXh/w/sPxlqt5RkwYs841f68f8v7D/txjCN7/5kvCTkv9z/T+w/dUfsvGg/hLz3uVTt/2/sP+zgU/CjfoQ81Y+Z6/+P7D/xkvmNBoNzPJohJSEAsOw/BA4YZI79aLycRpTd/8/sP3Lqxxy+fo48dsT96v/v7D/+iJ+tOb6OPCv4mhYAEO0/cVq5qJF9dTwd9w8NADDtP9rHcGmQwYk8xA956v9P7T8M/ljFNw5YvOWH3C4AcO0/RA/BTdaAf7yqgtwhAJDtP1xc/ZSPfHS8gwJr2P+v7T9+YSHFHX+MPDlHbCkA0O0/U7H/sp4BiDz1kETl/+/tP4nMUsbSAG48lParzf8P7j/SaS0gQIN/vN3IUtv/L+4/ZAgbysEAezzvFkLy/0/uP1GrlLCo/3I8EV6K6P9v7j9Zvu+xc/ZXvA3/nhEAkO4/AcgLXo2AhLxEF6Xf/6/uP7UgQ9UGAHg8oX8SGgDQ7j+SXFZg+AJQvMS8ugcA8O4/EeY1XURAhbwCjXr1/w/vPwWR7zkx+0+8x4rlHgAw7z9VEXPyrIGKPJQ0gvX/T+8/Q8fX1EE/ijxrTKn8/2/vP3V4mBz0AmK8QcT54f+P7z9L53f00X13PH7j4NL/r+8/MaN8mhkBb7ye5HccANDvP7GszkvugXE8McPg9//v7z9ah3ABNwVuvG5gZfT/D/A/2gocSa1+irxYeobz/y/wP+Cy/MNpf5e8Fw38/f9P8D9blMs0/r+XPIJNzQMAcPA/y1bkwIMAgjzoy/L5/4/wPxp1N77f/228ZdoMAQCw8D/rJuaufz+RvDjTpAEA0PA/959Iefp9gDz9/dr6/+/wP8Br1nAFBHe8lv26CwAQ8T9iC22E1ICOPF305fr/L/E/7zb9ZPq/nTzZmtUNAFDxP65QEnB3AJo8mlUhDwBw8T/u3uPi+f2NPCZUJ/z/j/E/c3I73DAAkTxZPD0SALDxP4gBA4B5f5k8t54p+P/P8T9njJ+rMvllvADUivT/7/E/61unnb9/kzykhosMABDyPyJb/ZFrgJ88A0OFAwAw8j8zv5/rwv+TPIT2vP//T/I/ci4ufucBdjzZISn1/2/yP2EMf3a7/H88PDqTFACQ8j8rQQI8ygJyvBNjVRQAsPI/Ah/yM4KAkrw7Uv7r/8/yP/LcTzh+/4i8lq24CwDw8j/FQTBQUf+FvK/ievv/D/M/nSheiHEAgbx/X6z+/y/zPxW3tz9d/5G8VmemDABQ8z+9gosign+VPCH3+xEAcPM/zNUNxLoAgDy5L1n5/4/zP1Gnsi2dP5S8QtLdBACw8z/hOHZwa3+FPFfJsvX/z/M/MRK/EDoCejwYtLDq/+/zP7BSsWZtf5g89K8yFQAQ9D8khRlfN/hnPCmLRxcAMPQ/Q1HccuYBgzxjtJXn/0/0P1qJsrhp/4k84HUE6P9v9D9U8sKbscCVvOfBb+//j/Q/cio68glAmzwEp77l/6/0P0V9Db+3/5S83icQFwDQ9D89atxxZMCZvOI+8A8A8PQ/HFOFC4l/lzzRS9wSABD1PzakZnFlBGA8eicFFgAw9T8JMiPOzr+WvExw2+z/T/U/16EFBXICibypVF/v/2/1PxJkyQ7mv5s8EhDmFwCQ9T+Q76+BxX6IPJI+yQMAsPU/wAy/CghBn7y8GUkdAND1PylHJfsqgZi8iXq45//v9T8Eae2At36UvA==';
 
-var Module=typeof Opus!=="undefined"?Opus:{};var moduleOverrides={};var key;for(key in Module){if(Module.hasOwnProperty(key)){moduleOverrides[key]=Module[key]}}var arguments_=[];var thisProgram="./this.program";var quit_=function(status,toThrow){throw toThrow};var ENVIRONMENT_IS_WEB=false;var ENVIRONMENT_IS_WORKER=false;var ENVIRONMENT_IS_NODE=false;var ENVIRONMENT_IS_SHELL=false;ENVIRONMENT_IS_WEB=typeof window==="object";ENVIRONMENT_IS_WORKER=typeof importScripts==="function";ENVIRONMENT_IS_NODE=typeof process==="object"&&typeof process.versions==="object"&&typeof process.versions.node==="string";ENVIRONMENT_IS_SHELL=!ENVIRONMENT_IS_WEB&&!ENVIRONMENT_IS_NODE&&!ENVIRONMENT_IS_WORKER;var scriptDirectory="";function locateFile(path){if(Module["locateFile"]){return Module["locateFile"](path,scriptDirectory)}return scriptDirectory+path}var read_,readAsync,readBinary,setWindowTitle;var nodeFS;var nodePath;if(ENVIRONMENT_IS_NODE){if(ENVIRONMENT_IS_WORKER){scriptDirectory=require("path").dirname(scriptDirectory)+"/"}else{scriptDirectory=__dirname+"/"}read_=function shell_read(filename,binary){var ret=tryParseAsDataURI(filename);if(ret){return binary?ret:ret.toString()}if(!nodeFS)nodeFS=require("fs");if(!nodePath)nodePath=require("path");filename=nodePath["normalize"](filename);return nodeFS["readFileSync"](filename,binary?null:"utf8")};readBinary=function readBinary(filename){var ret=read_(filename,true);if(!ret.buffer){ret=new Uint8Array(ret)}assert(ret.buffer);return ret};if(process["argv"].length>1){thisProgram=process["argv"][1].replace(/\\/g,"/")}arguments_=process["argv"].slice(2);process["on"]("uncaughtException",function(ex){if(!(ex instanceof ExitStatus)){throw ex}});process["on"]("unhandledRejection",abort);quit_=function(status){process["exit"](status)};Module["inspect"]=function(){return"[Emscripten Module object]"}}else if(ENVIRONMENT_IS_WEB||ENVIRONMENT_IS_WORKER){if(ENVIRONMENT_IS_WORKER){scriptDirectory=self.location.href}else if(document.currentScript){scriptDirectory=document.currentScript.src}if(_scriptDir){scriptDirectory=_scriptDir}if(scriptDirectory.indexOf("blob:")!==0){scriptDirectory=scriptDirectory.substr(0,scriptDirectory.lastIndexOf("/")+1)}else{scriptDirectory=""}{read_=function shell_read(url){try{var xhr=new XMLHttpRequest;xhr.open("GET",url,false);xhr.send(null);return xhr.responseText}catch(err){var data=tryParseAsDataURI(url);if(data){return intArrayToString(data)}throw err}};if(ENVIRONMENT_IS_WORKER){readBinary=function readBinary(url){try{var xhr=new XMLHttpRequest;xhr.open("GET",url,false);xhr.responseType="arraybuffer";xhr.send(null);return new Uint8Array(xhr.response)}catch(err){var data=tryParseAsDataURI(url);if(data){return data}throw err}}}readAsync=function readAsync(url,onload,onerror){var xhr=new XMLHttpRequest;xhr.open("GET",url,true);xhr.responseType="arraybuffer";xhr.onload=function xhr_onload(){if(xhr.status==200||xhr.status==0&&xhr.response){onload(xhr.response);return}var data=tryParseAsDataURI(url);if(data){onload(data.buffer);return}onerror()};xhr.onerror=onerror;xhr.send(null)}}setWindowTitle=function(title){document.title=title}}else{}var out=Module["print"]||console.log.bind(console);var err=Module["printErr"]||console.warn.bind(console);for(key in moduleOverrides){if(moduleOverrides.hasOwnProperty(key)){Module[key]=moduleOverrides[key]}}moduleOverrides=null;if(Module["arguments"])arguments_=Module["arguments"];if(Module["thisProgram"])thisProgram=Module["thisProgram"];if(Module["quit"])quit_=Module["quit"];var STACK_ALIGN=16;function dynamicAlloc(size){var ret=HEAP32[DYNAMICTOP_PTR>>2];var end=ret+size+15&-16;if(end>_emscripten_get_heap_size()){abort()}HEAP32[DYNAMICTOP_PTR>>2]=end;return ret}function getNativeTypeSize(type){switch(type){case"i1":case"i8":return 1;case"i16":return 2;case"i32":return 4;case"i64":return 8;case"float":return 4;case"double":return 8;default:{if(type[type.length-1]==="*"){return 4}else if(type[0]==="i"){var bits=Number(type.substr(1));assert(bits%8===0,"getNativeTypeSize invalid bits "+bits+", type "+type);return bits/8}else{return 0}}}}function warnOnce(text){if(!warnOnce.shown)warnOnce.shown={};if(!warnOnce.shown[text]){warnOnce.shown[text]=1;err(text)}}function convertJsFunctionToWasm(func,sig){if(typeof WebAssembly.Function==="function"){var typeNames={"i":"i32","j":"i64","f":"f32","d":"f64"};var type={parameters:[],results:sig[0]=="v"?[]:[typeNames[sig[0]]]};for(var i=1;i<sig.length;++i){type.parameters.push(typeNames[sig[i]])}return new WebAssembly.Function(type,func)}var typeSection=[1,0,1,96];var sigRet=sig.slice(0,1);var sigParam=sig.slice(1);var typeCodes={"i":127,"j":126,"f":125,"d":124};typeSection.push(sigParam.length);for(var i=0;i<sigParam.length;++i){typeSection.push(typeCodes[sigParam[i]])}if(sigRet=="v"){typeSection.push(0)}else{typeSection=typeSection.concat([1,typeCodes[sigRet]])}typeSection[1]=typeSection.length-2;var bytes=new Uint8Array([0,97,115,109,1,0,0,0].concat(typeSection,[2,7,1,1,101,1,102,0,0,7,5,1,1,102,0,0]));var module=new WebAssembly.Module(bytes);var instance=new WebAssembly.Instance(module,{"e":{"f":func}});var wrappedFunc=instance.exports["f"];return wrappedFunc}var freeTableIndexes=[];function addFunctionWasm(func,sig){var table=wasmTable;var ret;if(freeTableIndexes.length){ret=freeTableIndexes.pop()}else{ret=table.length;try{table.grow(1)}catch(err){if(!(err instanceof RangeError)){throw err}throw"Unable to grow wasm table. Set ALLOW_TABLE_GROWTH."}}try{table.set(ret,func)}catch(err){if(!(err instanceof TypeError)){throw err}assert(typeof sig!=="undefined","Missing signature argument to addFunction");var wrapped=convertJsFunctionToWasm(func,sig);table.set(ret,wrapped)}return ret}function removeFunctionWasm(index){freeTableIndexes.push(index)}var funcWrappers={};function dynCall(sig,ptr,args){if(args&&args.length){return Module["dynCall_"+sig].apply(null,[ptr].concat(args))}else{return Module["dynCall_"+sig].call(null,ptr)}}var tempRet0=0;var wasmBinary;if(Module["wasmBinary"])wasmBinary=Module["wasmBinary"];var noExitRuntime;if(Module["noExitRuntime"])noExitRuntime=Module["noExitRuntime"];if(typeof WebAssembly!=="object"){err("no native wasm support detected")}function setValue(ptr,value,type,noSafe){type=type||"i8";if(type.charAt(type.length-1)==="*")type="i32";switch(type){case"i1":HEAP8[ptr>>0]=value;break;case"i8":HEAP8[ptr>>0]=value;break;case"i16":HEAP16[ptr>>1]=value;break;case"i32":HEAP32[ptr>>2]=value;break;case"i64":tempI64=[value>>>0,(tempDouble=value,+Math_abs(tempDouble)>=1?tempDouble>0?(Math_min(+Math_floor(tempDouble/4294967296),4294967295)|0)>>>0:~~+Math_ceil((tempDouble-+(~~tempDouble>>>0))/4294967296)>>>0:0)],HEAP32[ptr>>2]=tempI64[0],HEAP32[ptr+4>>2]=tempI64[1];break;case"float":HEAPF32[ptr>>2]=value;break;case"double":HEAPF64[ptr>>3]=value;break;default:abort("invalid type for setValue: "+type)}}function getValue(ptr,type,noSafe){type=type||"i8";if(type.charAt(type.length-1)==="*")type="i32";switch(type){case"i1":return HEAP8[ptr>>0];case"i8":return HEAP8[ptr>>0];case"i16":return HEAP16[ptr>>1];case"i32":return HEAP32[ptr>>2];case"i64":return HEAP32[ptr>>2];case"float":return HEAPF32[ptr>>2];case"double":return HEAPF64[ptr>>3];default:abort("invalid type for getValue: "+type)}return null}var wasmMemory;var wasmTable=new WebAssembly.Table({"initial":3,"maximum":3+0,"element":"anyfunc"});var ABORT=false;var EXITSTATUS=0;function assert(condition,text){if(!condition){abort("Assertion failed: "+text)}}function getCFunc(ident){var func=Module["_"+ident];assert(func,"Cannot call unknown function "+ident+", make sure it is exported");return func}function ccall(ident,returnType,argTypes,args,opts){var toC={"string":function(str){var ret=0;if(str!==null&&str!==undefined&&str!==0){var len=(str.length<<2)+1;ret=stackAlloc(len);stringToUTF8(str,ret,len)}return ret},"array":function(arr){var ret=stackAlloc(arr.length);writeArrayToMemory(arr,ret);return ret}};function convertReturnValue(ret){if(returnType==="string")return UTF8ToString(ret);if(returnType==="boolean")return Boolean(ret);return ret}var func=getCFunc(ident);var cArgs=[];var stack=0;if(args){for(var i=0;i<args.length;i++){var converter=toC[argTypes[i]];if(converter){if(stack===0)stack=stackSave();cArgs[i]=converter(args[i])}else{cArgs[i]=args[i]}}}var ret=func.apply(null,cArgs);ret=convertReturnValue(ret);if(stack!==0)stackRestore(stack);return ret}var ALLOC_NONE=3;var UTF8Decoder=typeof TextDecoder!=="undefined"?new TextDecoder("utf8"):undefined;function UTF8ArrayToString(u8Array,idx,maxBytesToRead){var endIdx=idx+maxBytesToRead;var endPtr=idx;while(u8Array[endPtr]&&!(endPtr>=endIdx))++endPtr;if(endPtr-idx>16&&u8Array.subarray&&UTF8Decoder){return UTF8Decoder.decode(u8Array.subarray(idx,endPtr))}else{var str="";while(idx<endPtr){var u0=u8Array[idx++];if(!(u0&128)){str+=String.fromCharCode(u0);continue}var u1=u8Array[idx++]&63;if((u0&224)==192){str+=String.fromCharCode((u0&31)<<6|u1);continue}var u2=u8Array[idx++]&63;if((u0&240)==224){u0=(u0&15)<<12|u1<<6|u2}else{u0=(u0&7)<<18|u1<<12|u2<<6|u8Array[idx++]&63}if(u0<65536){str+=String.fromCharCode(u0)}else{var ch=u0-65536;str+=String.fromCharCode(55296|ch>>10,56320|ch&1023)}}}return str}function UTF8ToString(ptr,maxBytesToRead){return ptr?UTF8ArrayToString(HEAPU8,ptr,maxBytesToRead):""}function stringToUTF8Array(str,outU8Array,outIdx,maxBytesToWrite){if(!(maxBytesToWrite>0))return 0;var startIdx=outIdx;var endIdx=outIdx+maxBytesToWrite-1;for(var i=0;i<str.length;++i){var u=str.charCodeAt(i);if(u>=55296&&u<=57343){var u1=str.charCodeAt(++i);u=65536+((u&1023)<<10)|u1&1023}if(u<=127){if(outIdx>=endIdx)break;outU8Array[outIdx++]=u}else if(u<=2047){if(outIdx+1>=endIdx)break;outU8Array[outIdx++]=192|u>>6;outU8Array[outIdx++]=128|u&63}else if(u<=65535){if(outIdx+2>=endIdx)break;outU8Array[outIdx++]=224|u>>12;outU8Array[outIdx++]=128|u>>6&63;outU8Array[outIdx++]=128|u&63}else{if(outIdx+3>=endIdx)break;outU8Array[outIdx++]=240|u>>18;outU8Array[outIdx++]=128|u>>12&63;outU8Array[outIdx++]=128|u>>6&63;outU8Array[outIdx++]=128|u&63}}outU8Array[outIdx]=0;return outIdx-startIdx}function stringToUTF8(str,outPtr,maxBytesToWrite){return stringToUTF8Array(str,HEAPU8,outPtr,maxBytesToWrite)}function lengthBytesUTF8(str){var len=0;for(var i=0;i<str.length;++i){var u=str.charCodeAt(i);if(u>=55296&&u<=57343)u=65536+((u&1023)<<10)|str.charCodeAt(++i)&1023;if(u<=127)++len;else if(u<=2047)len+=2;else if(u<=65535)len+=3;else len+=4}return len}function AsciiToString(ptr){var str="";while(1){var ch=HEAPU8[ptr++>>0];if(!ch)return str;str+=String.fromCharCode(ch)}}var UTF16Decoder=typeof TextDecoder!=="undefined"?new TextDecoder("utf-16le"):undefined;function writeArrayToMemory(array,buffer){HEAP8.set(array,buffer)}function writeAsciiToMemory(str,buffer,dontAddNull){for(var i=0;i<str.length;++i){HEAP8[buffer++>>0]=str.charCodeAt(i)}if(!dontAddNull)HEAP8[buffer>>0]=0}var WASM_PAGE_SIZE=65536;var buffer,HEAP8,HEAPU8,HEAP16,HEAPU16,HEAP32,HEAPU32,HEAPF32,HEAPF64;function updateGlobalBufferAndViews(buf){buffer=buf;Module["HEAP8"]=HEAP8=new Int8Array(buf);Module["HEAP16"]=HEAP16=new Int16Array(buf);Module["HEAP32"]=HEAP32=new Int32Array(buf);Module["HEAPU8"]=HEAPU8=new Uint8Array(buf);Module["HEAPU16"]=HEAPU16=new Uint16Array(buf);Module["HEAPU32"]=HEAPU32=new Uint32Array(buf);Module["HEAPF32"]=HEAPF32=new Float32Array(buf);Module["HEAPF64"]=HEAPF64=new Float64Array(buf)}var STACK_BASE=5287968,DYNAMIC_BASE=5287968,DYNAMICTOP_PTR=44928;var INITIAL_INITIAL_MEMORY=Module["INITIAL_MEMORY"]||10485760;if(Module["wasmMemory"]){wasmMemory=Module["wasmMemory"]}else{wasmMemory=new WebAssembly.Memory({"initial":INITIAL_INITIAL_MEMORY/WASM_PAGE_SIZE,"maximum":INITIAL_INITIAL_MEMORY/WASM_PAGE_SIZE})}if(wasmMemory){buffer=wasmMemory.buffer}INITIAL_INITIAL_MEMORY=buffer.byteLength;updateGlobalBufferAndViews(buffer);HEAP32[DYNAMICTOP_PTR>>2]=DYNAMIC_BASE;function callRuntimeCallbacks(callbacks){while(callbacks.length>0){var callback=callbacks.shift();if(typeof callback=="function"){callback();continue}var func=callback.func;if(typeof func==="number"){if(callback.arg===undefined){Module["dynCall_v"](func)}else{Module["dynCall_vi"](func,callback.arg)}}else{func(callback.arg===undefined?null:callback.arg)}}}var __ATPRERUN__=[];var __ATINIT__=[];var __ATMAIN__=[];var __ATPOSTRUN__=[];var runtimeInitialized=false;var runtimeExited=false;function preRun(){if(Module["preRun"]){if(typeof Module["preRun"]=="function")Module["preRun"]=[Module["preRun"]];while(Module["preRun"].length){addOnPreRun(Module["preRun"].shift())}}callRuntimeCallbacks(__ATPRERUN__)}function initRuntime(){runtimeInitialized=true;callRuntimeCallbacks(__ATINIT__)}function preMain(){callRuntimeCallbacks(__ATMAIN__)}function exitRuntime(){runtimeExited=true}function postRun(){if(Module["postRun"]){if(typeof Module["postRun"]=="function")Module["postRun"]=[Module["postRun"]];while(Module["postRun"].length){addOnPostRun(Module["postRun"].shift())}}callRuntimeCallbacks(__ATPOSTRUN__)}function addOnPreRun(cb){__ATPRERUN__.unshift(cb)}function addOnPostRun(cb){__ATPOSTRUN__.unshift(cb)}var Math_abs=Math.abs;var Math_ceil=Math.ceil;var Math_floor=Math.floor;var Math_min=Math.min;var runDependencies=0;var runDependencyWatcher=null;var dependenciesFulfilled=null;function addRunDependency(id){runDependencies++;if(Module["monitorRunDependencies"]){Module["monitorRunDependencies"](runDependencies)}}function removeRunDependency(id){runDependencies--;if(Module["monitorRunDependencies"]){Module["monitorRunDependencies"](runDependencies)}if(runDependencies==0){if(runDependencyWatcher!==null){clearInterval(runDependencyWatcher);runDependencyWatcher=null}if(dependenciesFulfilled){var callback=dependenciesFulfilled;dependenciesFulfilled=null;callback()}}}Module["preloadedImages"]={};Module["preloadedAudios"]={};function abort(what){if(Module["onAbort"]){Module["onAbort"](what)}what+="";out(what);err(what);ABORT=true;EXITSTATUS=1;what="abort("+what+"). Build with -s ASSERTIONS=1 for more info.";throw new WebAssembly.RuntimeError(what)}var dataURIPrefix="data:application/octet-stream;base64,";function isDataURI(filename){return String.prototype.startsWith?filename.startsWith(dataURIPrefix):filename.indexOf(dataURIPrefix)===0}var wasmBinaryFile="data:application/octet-stream;base64,AGFzbQEAAAABmAU8YAN/f38AYAR/f39/AGABfwF/YAV/f39/fwBgA39/fwF/YAJ/fwBgB39/f39/f38AYAJ/fwF/YAZ/f39/f38AYAZ/f39/f38Bf2ABfwBgBH9/f38Bf2AIf39/f39/f38AYAV/f39/fwF/YAF8AXxgCX9/f39/f39/fwBgC39/f39/f39/f39/AGAEf39/fwF9YAp/f39/f39/f39/AGAPf39/f39/f39/f39/f39/AGAEf399fwBgB39/f39/f38Bf2AIf39/f39/f38Bf2ALf39/f39/f39/f38Bf2AMf39/f39/f39/f39/AX9gC39/f39/f39/fX9/AX9gAnx8AXxgAABgDH9/f39/f39/f39/fwBgDX9/f39/f39/f39/f38AYA5/f39/f39/f39/f39/fwBgEX9/f39/f39/f39/f39/f39/AGAXf39/f39/f39/f39/f39/f39/f39/f38AYBp/f39/f39/f39/f39/f39/f39/f39/f39/fwBgDH9/f39/fX1/f39/fwBgBH9/f30AYAN/f30AYAV/f31/fwBgCX9/fX1/f39/fwBgA399fwBgAAF/YAl/f39/f39/f38Bf2AKf39/f39/f39/fwF/YBN/f39/f39/f39/f39/f39/f39/AX9gD39/f39/f39/f39/f399fwF/YAl/f39/f39/fX8Bf2AHf39/f39/fQF/YAl/f39/f399f38Bf2ALf39/f39/fX1/f38Bf2ABfQF/YAJ9fwF/YAJ8fwF/YAN/f38BfWAJf39/f39/f39/AX1gFX9/f39/f39/f39/f39/f39/f39/fwF9YAZ/f39/fX8BfWAGf399f39/AX1gAn9/AXxgA39/fwF8YAJ8fwF8AlkEA2VudhZlbXNjcmlwdGVuX3Jlc2l6ZV9oZWFwAAIDZW52FWVtc2NyaXB0ZW5fbWVtY3B5X2JpZwAEA2VudgZtZW1vcnkCAaABoAEDZW52BXRhYmxlAXAAAwOHAoUCGwIEBAIKBAAABwEKAQAIAQoDAQwAAgEBAQMBCwsEAAcCAQcEBwcFBQEDAAEAAAEAAAAFCgUACAgDAgIDAwcBBQAAAwADFQgCAhYCIgECAgEEDh8sDBIMBg8IKzsOGgszGg4BEQgRLy4UDQIyBgYPHhcAIBkXAS0BEAADAAgGAwMINwUABgYCBAQJAAYdBwcJMQQECQkJCgcDAgIFBwIHDQcFBQMDCgsJBRAIAAE6ATQAJAMBATkADjADJQ4BFAEAJwgAAQQAAwgqBgETIRMcDwABAQgSAAw4IwYDAAUJBQIEFgILAAwJGBUPNhkABQAQNQQNBAsLBgYRBxgpJg0NBSgCCgIMBhACfwFBgN/CAgt/AEH43gILB7gCEhFfX3dhc21fY2FsbF9jdG9ycwACDW9wdXNfc3RyZXJyb3IATxNvcHVzX2RlY29kZXJfY3JlYXRlAJQBEW9wdXNfZGVjb2RlX2Zsb2F0AJcBFG9wdXNfZGVjb2Rlcl9kZXN0cm95AJgBE29wdXNfZW5jb2Rlcl9jcmVhdGUA9wELb3B1c19lbmNvZGUA/wERb3B1c19lbmNvZGVfZmxvYXQAgAIUb3B1c19lbmNvZGVyX2Rlc3Ryb3kAmAEIc2V0VGhyZXcAgQIGbWFsbG9jAAYEZnJlZQAHCl9fZGF0YV9lbmQDAQlzdGFja1NhdmUAggIKc3RhY2tBbGxvYwCDAgxzdGFja1Jlc3RvcmUAhAIQX19ncm93V2FzbU1lbW9yeQCFAhBkeW5DYWxsX3ZpaWlpaWlpAIYCCQoBAEEBCwL5AfgBCqGTDIUCAwABC0QBAn8/ACEBAkBBgN8CKAIAIgIgAEEDakF8cWoiACABQRB0TQ0AIAAQAA0AQfzaAkEwNgIAQX8PC0GA3wIgADYCACACC/MCAgJ/AX4CQCACRQ0AIAAgAmoiA0F/aiABOgAAIAAgAToAACACQQNJDQAgA0F+aiABOgAAIAAgAToAASADQX1qIAE6AAAgACABOgACIAJBB0kNACADQXxqIAE6AAAgACABOgADIAJBCUkNACAAQQAgAGtBA3EiBGoiAyABQf8BcUGBgoQIbCIBNgIAIAMgAiAEa0F8cSIEaiICQXxqIAE2AgAgBEEJSQ0AIAMgATYCCCADIAE2AgQgAkF4aiABNgIAIAJBdGogATYCACAEQRlJDQAgAyABNgIYIAMgATYCFCADIAE2AhAgAyABNgIMIAJBcGogATYCACACQWxqIAE2AgAgAkFoaiABNgIAIAJBZGogATYCACAEIANBBHFBGHIiBGsiAkEgSQ0AIAGtIgVCIIYgBYQhBSADIARqIQEDQCABIAU3AxggASAFNwMQIAEgBTcDCCABIAU3AwAgAUEgaiEBIAJBYGoiAkEfSw0ACwsgAAuCBAEDfyACQYAETwRAIAAgASACEAEaIAAPCyAAIAJqIQMCQCAAIAFzQQNxRQRAAkAgAkEBSARAIAAhAgwBCyAAQQNxRQRAIAAhAgwBCyAAIQIDQCACIAEtAAA6AAAgAUEBaiEBIAJBAWoiAiADTw0BIAJBA3ENAAsLAkAgA0F8cSIEQcAASQ0AIAIgBEFAaiIFSw0AA0AgAiABKAIANgIAIAIgASgCBDYCBCACIAEoAgg2AgggAiABKAIMNgIMIAIgASgCEDYCECACIAEoAhQ2AhQgAiABKAIYNgIYIAIgASgCHDYCHCACIAEoAiA2AiAgAiABKAIkNgIkIAIgASgCKDYCKCACIAEoAiw2AiwgAiABKAIwNgIwIAIgASgCNDYCNCACIAEoAjg2AjggAiABKAI8NgI8IAFBQGshASACQUBrIgIgBU0NAAsLIAIgBE8NAQNAIAIgASgCADYCACABQQRqIQEgAkEEaiICIARJDQALDAELIANBBEkEQCAAIQIMAQsgA0F8aiIEIABJBEAgACECDAELIAAhAgNAIAIgAS0AADoAACACIAEtAAE6AAEgAiABLQACOgACIAIgAS0AAzoAAyABQQRqIQEgAkEEaiICIARNDQALCyACIANJBEADQCACIAEtAAA6AAAgAUEBaiEBIAJBAWoiAiADRw0ACwsgAAvoLgELfyMAQRBrIgskAAJAAkACQAJAAkACQAJAAkACQAJAAkAgAEH0AU0EQEGA2wIoAgAiBkEQIABBC2pBeHEgAEELSRsiBEEDdiIBdiIAQQNxBEAgAEF/c0EBcSABaiIEQQN0IgJBsNsCaigCACIBQQhqIQACQCABKAIIIgMgAkGo2wJqIgJGBEBBgNsCIAZBfiAEd3E2AgAMAQtBkNsCKAIAGiADIAI2AgwgAiADNgIICyABIARBA3QiA0EDcjYCBCABIANqIgEgASgCBEEBcjYCBAwMCyAEQYjbAigCACIITQ0BIAAEQAJAIAAgAXRBAiABdCIAQQAgAGtycSIAQQAgAGtxQX9qIgAgAEEMdkEQcSIAdiIBQQV2QQhxIgMgAHIgASADdiIAQQJ2QQRxIgFyIAAgAXYiAEEBdkECcSIBciAAIAF2IgBBAXZBAXEiAXIgACABdmoiA0EDdCICQbDbAmooAgAiASgCCCIAIAJBqNsCaiICRgRAQYDbAiAGQX4gA3dxIgY2AgAMAQtBkNsCKAIAGiAAIAI2AgwgAiAANgIICyABQQhqIQAgASAEQQNyNgIEIAEgBGoiAiADQQN0IgUgBGsiA0EBcjYCBCABIAVqIAM2AgAgCARAIAhBA3YiBUEDdEGo2wJqIQRBlNsCKAIAIQECfyAGQQEgBXQiBXFFBEBBgNsCIAUgBnI2AgAgBAwBCyAEKAIICyEFIAQgATYCCCAFIAE2AgwgASAENgIMIAEgBTYCCAtBlNsCIAI2AgBBiNsCIAM2AgAMDAtBhNsCKAIAIglFDQEgCUEAIAlrcUF/aiIAIABBDHZBEHEiAHYiAUEFdkEIcSIDIAByIAEgA3YiAEECdkEEcSIBciAAIAF2IgBBAXZBAnEiAXIgACABdiIAQQF2QQFxIgFyIAAgAXZqQQJ0QbDdAmooAgAiAigCBEF4cSAEayEBIAIhAwNAAkAgAygCECIARQRAIAMoAhQiAEUNAQsgACgCBEF4cSAEayIDIAEgAyABSSIDGyEBIAAgAiADGyECIAAhAwwBCwsgAigCGCEKIAIgAigCDCIFRwRAQZDbAigCACACKAIIIgBNBEAgACgCDBoLIAAgBTYCDCAFIAA2AggMCwsgAkEUaiIDKAIAIgBFBEAgAigCECIARQ0DIAJBEGohAwsDQCADIQcgACIFQRRqIgMoAgAiAA0AIAVBEGohAyAFKAIQIgANAAsgB0EANgIADAoLQX8hBCAAQb9/Sw0AIABBC2oiAEF4cSEEQYTbAigCACIIRQ0AAn9BACAAQQh2IgBFDQAaQR8gBEH///8HSw0AGiAAIABBgP4/akEQdkEIcSIBdCIAIABBgOAfakEQdkEEcSIAdCIDIANBgIAPakEQdkECcSIDdEEPdiAAIAFyIANyayIAQQF0IAQgAEEVanZBAXFyQRxqCyEHQQAgBGshAwJAAkACQCAHQQJ0QbDdAmooAgAiAUUEQEEAIQAMAQsgBEEAQRkgB0EBdmsgB0EfRht0IQJBACEAA0ACQCABKAIEQXhxIARrIgYgA08NACABIQUgBiIDDQBBACEDIAEhAAwDCyAAIAEoAhQiBiAGIAEgAkEddkEEcWooAhAiAUYbIAAgBhshACACIAFBAEd0IQIgAQ0ACwsgACAFckUEQEECIAd0IgBBACAAa3IgCHEiAEUNAyAAQQAgAGtxQX9qIgAgAEEMdkEQcSIAdiIBQQV2QQhxIgIgAHIgASACdiIAQQJ2QQRxIgFyIAAgAXYiAEEBdkECcSIBciAAIAF2IgBBAXZBAXEiAXIgACABdmpBAnRBsN0CaigCACEACyAARQ0BCwNAIAAoAgRBeHEgBGsiBiADSSECIAYgAyACGyEDIAAgBSACGyEFIAAoAhAiAQR/IAEFIAAoAhQLIgANAAsLIAVFDQAgA0GI2wIoAgAgBGtPDQAgBSgCGCEHIAUgBSgCDCICRwRAQZDbAigCACAFKAIIIgBNBEAgACgCDBoLIAAgAjYCDCACIAA2AggMCQsgBUEUaiIBKAIAIgBFBEAgBSgCECIARQ0DIAVBEGohAQsDQCABIQYgACICQRRqIgEoAgAiAA0AIAJBEGohASACKAIQIgANAAsgBkEANgIADAgLQYjbAigCACIAIARPBEBBlNsCKAIAIQECQCAAIARrIgNBEE8EQEGI2wIgAzYCAEGU2wIgASAEaiICNgIAIAIgA0EBcjYCBCAAIAFqIAM2AgAgASAEQQNyNgIEDAELQZTbAkEANgIAQYjbAkEANgIAIAEgAEEDcjYCBCAAIAFqIgAgACgCBEEBcjYCBAsgAUEIaiEADAoLQYzbAigCACICIARLBEBBjNsCIAIgBGsiATYCAEGY2wJBmNsCKAIAIgAgBGoiAzYCACADIAFBAXI2AgQgACAEQQNyNgIEIABBCGohAAwKC0EAIQAgBEEvaiIIAn9B2N4CKAIABEBB4N4CKAIADAELQeTeAkJ/NwIAQdzeAkKAoICAgIAENwIAQdjeAiALQQxqQXBxQdiq1aoFczYCAEHs3gJBADYCAEG83gJBADYCAEGAIAsiAWoiBkEAIAFrIgdxIgUgBE0NCUG43gIoAgAiAQRAQbDeAigCACIDIAVqIgkgA00NCiAJIAFLDQoLQbzeAi0AAEEEcQ0EAkACQEGY2wIoAgAiAQRAQcDeAiEAA0AgACgCACIDIAFNBEAgAyAAKAIEaiABSw0DCyAAKAIIIgANAAsLQQAQAyICQX9GDQUgBSEGQdzeAigCACIAQX9qIgEgAnEEQCAFIAJrIAEgAmpBACAAa3FqIQYLIAYgBE0NBSAGQf7///8HSw0FQbjeAigCACIABEBBsN4CKAIAIgEgBmoiAyABTQ0GIAMgAEsNBgsgBhADIgAgAkcNAQwHCyAGIAJrIAdxIgZB/v///wdLDQQgBhADIgIgACgCACAAKAIEakYNAyACIQALAkAgBEEwaiAGTQ0AIABBf0YNAEHg3gIoAgAiASAIIAZrakEAIAFrcSIBQf7///8HSwRAIAAhAgwHCyABEANBf0cEQCABIAZqIQYgACECDAcLQQAgBmsQAxoMBAsgACECIABBf0cNBQwDC0EAIQUMBwtBACECDAULIAJBf0cNAgtBvN4CQbzeAigCAEEEcjYCAAsgBUH+////B0sNASAFEAMiAkEAEAMiAE8NASACQX9GDQEgAEF/Rg0BIAAgAmsiBiAEQShqTQ0BC0Gw3gJBsN4CKAIAIAZqIgA2AgAgAEG03gIoAgBLBEBBtN4CIAA2AgALAkACQAJAQZjbAigCACIBBEBBwN4CIQADQCACIAAoAgAiAyAAKAIEIgVqRg0CIAAoAggiAA0ACwwCC0GQ2wIoAgAiAEEAIAIgAE8bRQRAQZDbAiACNgIAC0EAIQBBxN4CIAY2AgBBwN4CIAI2AgBBoNsCQX82AgBBpNsCQdjeAigCADYCAEHM3gJBADYCAANAIABBA3QiAUGw2wJqIAFBqNsCaiIDNgIAIAFBtNsCaiADNgIAIABBAWoiAEEgRw0AC0GM2wIgBkFYaiIAQXggAmtBB3FBACACQQhqQQdxGyIBayIDNgIAQZjbAiABIAJqIgE2AgAgASADQQFyNgIEIAAgAmpBKDYCBEGc2wJB6N4CKAIANgIADAILIAAtAAxBCHENACACIAFNDQAgAyABSw0AIAAgBSAGajYCBEGY2wIgAUF4IAFrQQdxQQAgAUEIakEHcRsiAGoiAzYCAEGM2wJBjNsCKAIAIAZqIgIgAGsiADYCACADIABBAXI2AgQgASACakEoNgIEQZzbAkHo3gIoAgA2AgAMAQsgAkGQ2wIoAgAiBUkEQEGQ2wIgAjYCACACIQULIAIgBmohA0HA3gIhAAJAAkACQAJAAkACQANAIAMgACgCAEcEQCAAKAIIIgANAQwCCwsgAC0ADEEIcUUNAQtBwN4CIQADQCAAKAIAIgMgAU0EQCADIAAoAgRqIgMgAUsNAwsgACgCCCEADAAACwALIAAgAjYCACAAIAAoAgQgBmo2AgQgAkF4IAJrQQdxQQAgAkEIakEHcRtqIgcgBEEDcjYCBCADQXggA2tBB3FBACADQQhqQQdxG2oiAiAHayAEayEAIAQgB2ohAyABIAJGBEBBmNsCIAM2AgBBjNsCQYzbAigCACAAaiIANgIAIAMgAEEBcjYCBAwDCyACQZTbAigCAEYEQEGU2wIgAzYCAEGI2wJBiNsCKAIAIABqIgA2AgAgAyAAQQFyNgIEIAAgA2ogADYCAAwDCyACKAIEIgFBA3FBAUYEQCABQXhxIQgCQCABQf8BTQRAIAIoAggiBiABQQN2IglBA3RBqNsCakcaIAIoAgwiBCAGRgRAQYDbAkGA2wIoAgBBfiAJd3E2AgAMAgsgBiAENgIMIAQgBjYCCAwBCyACKAIYIQkCQCACIAIoAgwiBkcEQCAFIAIoAggiAU0EQCABKAIMGgsgASAGNgIMIAYgATYCCAwBCwJAIAJBFGoiASgCACIEDQAgAkEQaiIBKAIAIgQNAEEAIQYMAQsDQCABIQUgBCIGQRRqIgEoAgAiBA0AIAZBEGohASAGKAIQIgQNAAsgBUEANgIACyAJRQ0AAkAgAiACKAIcIgRBAnRBsN0CaiIBKAIARgRAIAEgBjYCACAGDQFBhNsCQYTbAigCAEF+IAR3cTYCAAwCCyAJQRBBFCAJKAIQIAJGG2ogBjYCACAGRQ0BCyAGIAk2AhggAigCECIBBEAgBiABNgIQIAEgBjYCGAsgAigCFCIBRQ0AIAYgATYCFCABIAY2AhgLIAIgCGohAiAAIAhqIQALIAIgAigCBEF+cTYCBCADIABBAXI2AgQgACADaiAANgIAIABB/wFNBEAgAEEDdiIBQQN0QajbAmohAAJ/QYDbAigCACIEQQEgAXQiAXFFBEBBgNsCIAEgBHI2AgAgAAwBCyAAKAIICyEBIAAgAzYCCCABIAM2AgwgAyAANgIMIAMgATYCCAwDCyADAn9BACAAQQh2IgRFDQAaQR8gAEH///8HSw0AGiAEIARBgP4/akEQdkEIcSIBdCIEIARBgOAfakEQdkEEcSIEdCICIAJBgIAPakEQdkECcSICdEEPdiABIARyIAJyayIBQQF0IAAgAUEVanZBAXFyQRxqCyIBNgIcIANCADcCECABQQJ0QbDdAmohBAJAQYTbAigCACICQQEgAXQiBXFFBEBBhNsCIAIgBXI2AgAgBCADNgIAIAMgBDYCGAwBCyAAQQBBGSABQQF2ayABQR9GG3QhASAEKAIAIQIDQCACIgQoAgRBeHEgAEYNAyABQR12IQIgAUEBdCEBIAQgAkEEcWpBEGoiBSgCACICDQALIAUgAzYCACADIAQ2AhgLIAMgAzYCDCADIAM2AggMAgtBjNsCIAZBWGoiAEF4IAJrQQdxQQAgAkEIakEHcRsiBWsiBzYCAEGY2wIgAiAFaiIFNgIAIAUgB0EBcjYCBCAAIAJqQSg2AgRBnNsCQejeAigCADYCACABIANBJyADa0EHcUEAIANBWWpBB3EbakFRaiIAIAAgAUEQakkbIgVBGzYCBCAFQcjeAikCADcCECAFQcDeAikCADcCCEHI3gIgBUEIajYCAEHE3gIgBjYCAEHA3gIgAjYCAEHM3gJBADYCACAFQRhqIQADQCAAQQc2AgQgAEEIaiECIABBBGohACADIAJLDQALIAEgBUYNAyAFIAUoAgRBfnE2AgQgASAFIAFrIgZBAXI2AgQgBSAGNgIAIAZB/wFNBEAgBkEDdiIDQQN0QajbAmohAAJ/QYDbAigCACICQQEgA3QiA3FFBEBBgNsCIAIgA3I2AgAgAAwBCyAAKAIICyEDIAAgATYCCCADIAE2AgwgASAANgIMIAEgAzYCCAwECyABQgA3AhAgAQJ/QQAgBkEIdiIDRQ0AGkEfIAZB////B0sNABogAyADQYD+P2pBEHZBCHEiAHQiAyADQYDgH2pBEHZBBHEiA3QiAiACQYCAD2pBEHZBAnEiAnRBD3YgACADciACcmsiAEEBdCAGIABBFWp2QQFxckEcagsiADYCHCAAQQJ0QbDdAmohAwJAQYTbAigCACICQQEgAHQiBXFFBEBBhNsCIAIgBXI2AgAgAyABNgIAIAEgAzYCGAwBCyAGQQBBGSAAQQF2ayAAQR9GG3QhACADKAIAIQIDQCACIgMoAgRBeHEgBkYNBCAAQR12IQIgAEEBdCEAIAMgAkEEcWpBEGoiBSgCACICDQALIAUgATYCACABIAM2AhgLIAEgATYCDCABIAE2AggMAwsgBCgCCCIAIAM2AgwgBCADNgIIIANBADYCGCADIAQ2AgwgAyAANgIICyAHQQhqIQAMBQsgAygCCCIAIAE2AgwgAyABNgIIIAFBADYCGCABIAM2AgwgASAANgIIC0GM2wIoAgAiACAETQ0AQYzbAiAAIARrIgE2AgBBmNsCQZjbAigCACIAIARqIgM2AgAgAyABQQFyNgIEIAAgBEEDcjYCBCAAQQhqIQAMAwtB/NoCQTA2AgBBACEADAILAkAgB0UNAAJAIAUoAhwiAUECdEGw3QJqIgAoAgAgBUYEQCAAIAI2AgAgAg0BQYTbAiAIQX4gAXdxIgg2AgAMAgsgB0EQQRQgBygCECAFRhtqIAI2AgAgAkUNAQsgAiAHNgIYIAUoAhAiAARAIAIgADYCECAAIAI2AhgLIAUoAhQiAEUNACACIAA2AhQgACACNgIYCwJAIANBD00EQCAFIAMgBGoiAEEDcjYCBCAAIAVqIgAgACgCBEEBcjYCBAwBCyAFIARBA3I2AgQgBCAFaiICIANBAXI2AgQgAiADaiADNgIAIANB/wFNBEAgA0EDdiIBQQN0QajbAmohAAJ/QYDbAigCACIDQQEgAXQiAXFFBEBBgNsCIAEgA3I2AgAgAAwBCyAAKAIICyEBIAAgAjYCCCABIAI2AgwgAiAANgIMIAIgATYCCAwBCyACAn9BACADQQh2IgFFDQAaQR8gA0H///8HSw0AGiABIAFBgP4/akEQdkEIcSIAdCIBIAFBgOAfakEQdkEEcSIBdCIEIARBgIAPakEQdkECcSIEdEEPdiAAIAFyIARyayIAQQF0IAMgAEEVanZBAXFyQRxqCyIANgIcIAJCADcCECAAQQJ0QbDdAmohAQJAAkAgCEEBIAB0IgRxRQRAQYTbAiAEIAhyNgIAIAEgAjYCACACIAE2AhgMAQsgA0EAQRkgAEEBdmsgAEEfRht0IQAgASgCACEEA0AgBCIBKAIEQXhxIANGDQIgAEEddiEEIABBAXQhACABIARBBHFqQRBqIgYoAgAiBA0ACyAGIAI2AgAgAiABNgIYCyACIAI2AgwgAiACNgIIDAELIAEoAggiACACNgIMIAEgAjYCCCACQQA2AhggAiABNgIMIAIgADYCCAsgBUEIaiEADAELAkAgCkUNAAJAIAIoAhwiA0ECdEGw3QJqIgAoAgAgAkYEQCAAIAU2AgAgBQ0BQYTbAiAJQX4gA3dxNgIADAILIApBEEEUIAooAhAgAkYbaiAFNgIAIAVFDQELIAUgCjYCGCACKAIQIgAEQCAFIAA2AhAgACAFNgIYCyACKAIUIgBFDQAgBSAANgIUIAAgBTYCGAsCQCABQQ9NBEAgAiABIARqIgBBA3I2AgQgACACaiIAIAAoAgRBAXI2AgQMAQsgAiAEQQNyNgIEIAIgBGoiAyABQQFyNgIEIAEgA2ogATYCACAIBEAgCEEDdiIFQQN0QajbAmohBEGU2wIoAgAhAAJ/QQEgBXQiBSAGcUUEQEGA2wIgBSAGcjYCACAEDAELIAQoAggLIQUgBCAANgIIIAUgADYCDCAAIAQ2AgwgACAFNgIIC0GU2wIgAzYCAEGI2wIgATYCAAsgAkEIaiEACyALQRBqJAAgAAuqDQEHfwJAIABFDQAgAEF4aiICIABBfGooAgAiAUF4cSIAaiEFAkAgAUEBcQ0AIAFBA3FFDQEgAiACKAIAIgFrIgJBkNsCKAIAIgRJDQEgACABaiEAIAJBlNsCKAIARwRAIAFB/wFNBEAgAigCCCIHIAFBA3YiBkEDdEGo2wJqRxogByACKAIMIgNGBEBBgNsCQYDbAigCAEF+IAZ3cTYCAAwDCyAHIAM2AgwgAyAHNgIIDAILIAIoAhghBgJAIAIgAigCDCIDRwRAIAQgAigCCCIBTQRAIAEoAgwaCyABIAM2AgwgAyABNgIIDAELAkAgAkEUaiIBKAIAIgQNACACQRBqIgEoAgAiBA0AQQAhAwwBCwNAIAEhByAEIgNBFGoiASgCACIEDQAgA0EQaiEBIAMoAhAiBA0ACyAHQQA2AgALIAZFDQECQCACIAIoAhwiBEECdEGw3QJqIgEoAgBGBEAgASADNgIAIAMNAUGE2wJBhNsCKAIAQX4gBHdxNgIADAMLIAZBEEEUIAYoAhAgAkYbaiADNgIAIANFDQILIAMgBjYCGCACKAIQIgEEQCADIAE2AhAgASADNgIYCyACKAIUIgFFDQEgAyABNgIUIAEgAzYCGAwBCyAFKAIEIgFBA3FBA0cNAEGI2wIgADYCACAFIAFBfnE2AgQgAiAAQQFyNgIEIAAgAmogADYCAA8LIAUgAk0NACAFKAIEIgFBAXFFDQACQCABQQJxRQRAIAVBmNsCKAIARgRAQZjbAiACNgIAQYzbAkGM2wIoAgAgAGoiADYCACACIABBAXI2AgQgAkGU2wIoAgBHDQNBiNsCQQA2AgBBlNsCQQA2AgAPCyAFQZTbAigCAEYEQEGU2wIgAjYCAEGI2wJBiNsCKAIAIABqIgA2AgAgAiAAQQFyNgIEIAAgAmogADYCAA8LIAFBeHEgAGohAAJAIAFB/wFNBEAgBSgCDCEEIAUoAggiAyABQQN2IgVBA3RBqNsCaiIBRwRAQZDbAigCABoLIAMgBEYEQEGA2wJBgNsCKAIAQX4gBXdxNgIADAILIAEgBEcEQEGQ2wIoAgAaCyADIAQ2AgwgBCADNgIIDAELIAUoAhghBgJAIAUgBSgCDCIDRwRAQZDbAigCACAFKAIIIgFNBEAgASgCDBoLIAEgAzYCDCADIAE2AggMAQsCQCAFQRRqIgEoAgAiBA0AIAVBEGoiASgCACIEDQBBACEDDAELA0AgASEHIAQiA0EUaiIBKAIAIgQNACADQRBqIQEgAygCECIEDQALIAdBADYCAAsgBkUNAAJAIAUgBSgCHCIEQQJ0QbDdAmoiASgCAEYEQCABIAM2AgAgAw0BQYTbAkGE2wIoAgBBfiAEd3E2AgAMAgsgBkEQQRQgBigCECAFRhtqIAM2AgAgA0UNAQsgAyAGNgIYIAUoAhAiAQRAIAMgATYCECABIAM2AhgLIAUoAhQiAUUNACADIAE2AhQgASADNgIYCyACIABBAXI2AgQgACACaiAANgIAIAJBlNsCKAIARw0BQYjbAiAANgIADwsgBSABQX5xNgIEIAIgAEEBcjYCBCAAIAJqIAA2AgALIABB/wFNBEAgAEEDdiIBQQN0QajbAmohAAJ/QYDbAigCACIEQQEgAXQiAXFFBEBBgNsCIAEgBHI2AgAgAAwBCyAAKAIICyEBIAAgAjYCCCABIAI2AgwgAiAANgIMIAIgATYCCA8LIAJCADcCECACAn9BACAAQQh2IgRFDQAaQR8gAEH///8HSw0AGiAEIARBgP4/akEQdkEIcSIBdCIEIARBgOAfakEQdkEEcSIEdCIDIANBgIAPakEQdkECcSIDdEEPdiABIARyIANyayIBQQF0IAAgAUEVanZBAXFyQRxqCyIBNgIcIAFBAnRBsN0CaiEEAkACQAJAQYTbAigCACIDQQEgAXQiBXFFBEBBhNsCIAMgBXI2AgAgBCACNgIAIAIgBDYCGAwBCyAAQQBBGSABQQF2ayABQR9GG3QhASAEKAIAIQMDQCADIgQoAgRBeHEgAEYNAiABQR12IQMgAUEBdCEBIAQgA0EEcWpBEGoiBSgCACIDDQALIAUgAjYCACACIAQ2AhgLIAIgAjYCDCACIAI2AggMAQsgBCgCCCIAIAI2AgwgBCACNgIIIAJBADYCGCACIAQ2AgwgAiAANgIIC0Gg2wJBoNsCKAIAQX9qIgI2AgAgAg0AQcjeAiECA0AgAigCACIAQQhqIQIgAA0AC0Gg2wJBfzYCAAsL7AIBAn8CQCAAIAFGDQACQCABIAJqIABLBEAgACACaiIEIAFLDQELIAAgASACEAUPCyAAIAFzQQNxIQMCQAJAIAAgAUkEQCADBEAgACEDDAMLIABBA3FFBEAgACEDDAILIAAhAwNAIAJFDQQgAyABLQAAOgAAIAFBAWohASACQX9qIQIgA0EBaiIDQQNxDQALDAELAkAgAw0AIARBA3EEQANAIAJFDQUgACACQX9qIgJqIgMgASACai0AADoAACADQQNxDQALCyACQQNNDQADQCAAIAJBfGoiAmogASACaigCADYCACACQQNLDQALCyACRQ0CA0AgACACQX9qIgJqIAEgAmotAAA6AAAgAg0ACwwCCyACQQNNDQADQCADIAEoAgA2AgAgAUEEaiEBIANBBGohAyACQXxqIgJBA0sNAAsLIAJFDQADQCADIAEtAAA6AAAgA0EBaiEDIAFBAWohASACQX9qIgINAAsLIAALxgEBBX8gAkEQdSEEIAFBf2ohBSABQQJOBEAgAkGAgHxqIQZBACEBA0AgACABQQJ0aiIDIAMoAgAiA0EQdEEQdSIHIAJB//8DcWxBEHUgBCAHbGogA0EPdUEBakEBdSACbGo2AgAgAiAGbEEPdUEBakEBdSACaiICQRB1IQQgAUEBaiIBIAVHDQALCyAAIAVBAnRqIgEgASgCACIBQRB0QRB1IgMgAkH//wNxbEEQdSADIARsaiABQQ91QQFqQQF1IAJsajYCAAveAgEGfyACQQFIIQgCQAJAA0BBACEDQQAhBSAIRQRAA0AgASADQQJ0aigCACIEIARBH3UiBGogBHMiBCAFIAQgBUoiBBshBSADIAYgBBshBiADQQFqIgMgAkcNAAsLIAVBBHVBAWpBAXUiA0GAgAJOBEAgASACQb7/AyADQf7/CSADQf7/CUgbIgNBDnRBgICBgH5qIAMgBkEBamxBAnVtaxAJIAdBAWoiB0EKRw0BDAILCyAHQQpGDQBBACEDIAJBAEwNAQNAIAAgA0EBdGogASADQQJ0aigCAEEEdUEBakEBdTsBACADQQFqIgMgAkcNAAsMAQsgAkEBSA0AQQAhAwNAIAAgA0EBdGoCf0H//wEgASADQQJ0aiIEKAIAQQR1IgZB/v8DSg0AGkGAgH4gBkH//3tIDQAaIAZBAWpBAXULIgU7AQAgBCAFQQV0NgIAIANBAWoiAyACRw0ACwsLlwcCDH8EfiMAQeAAayEGAkAgAUEBTgRAA0AgBiACQQJ0aiAAIAJBAXRqLgEAIgRBDHQ2AgAgAyAEaiEDIAJBAWoiAiABRw0ACyADQf8fSg0BCyAGIAFBf2oiA0ECdGooAgAiBEGe3/8HakG8vv8PSyECQoCAgIAEIQ4gAUECTgRAA0AgAkEBcQRAQQAPCyADIQggDkGAgICABEEAIARBB3RrrCIPIA9+QiCIpyICayIDrH5CHoinQXxxIgxB7sYGSA0CQf////8BIAMgAkGAgICAfGoiByADIAJBgICAgARLG2ciCUF/anQiAEEQdSIKbSIEQQ91QQFqQQF1QQAgBEEQdCIFQRB1IgQgAEH//wNxbEEQdSAEIApsakEDdGsiAGwgBWogAEEQdSAEbGogAEH4/wNxIARsQRB1aiEEAn8gAyAHIAJBgICAgARJG2ciCyAJayICQQBMBEACf0GAgICAeEEAIAJrIgJ1IgNB/////wcgAnYiAEoEQCADIAQgA0oNARogACAEIAQgAEgbIAJ0DAMLIAAgBCAASg0AGiADIAQgBCADSBsLIAJ0DAELIAQgAnVBACACQSBIGwshAyABQQF2IgJBASACQQFLGyENQR8gC2utIRAgA6whEUEAIQMDQEGAgICAeEH/////ByAGIANBAnRqIgkoAgAiAiAGIAggA0F/c2pBAnRqIgooAgAiBKwgD35CHohCAXxCAYinIgFrIgdBf0oiABsgByABIAIgABtBgICAgHhzIAIgASAAG3FBAEgbrCARfiEOQQAhBQJ+IA5CAYMgDkIBh3wgC0EfRyIARQ0AGiAOIBCHQgF8QgGHCyIOQoCAgIAIfEL/////D1YNAyAJIA4+AgBBgICAgHhB/////wcgBCACrCAPfkIeiEIBfEIBiKciAmsiB0F/SiIBGyAHIAIgBCABG0GAgICAeHMgBCACIAEbcUEASBusIBF+IQ4gAAR+IA4gEIdCAXxCAYcFIA5CAYMgDkIBh3wLIg5CgICAgAh8Qv////8PVg0DIAogDj4CACADQQFqIgMgDUcNAAsgBiAIQX9qIgNBAnRqKAIAIgRBnt//B2pBvL7/D0shAiAMrCEOIAgiAUEBSg0ACwsgAg0AQQBCgICAgICAgIDAAEEAIAYoAgBBB3RrrCIPIA9+QoCAgIDw/////wCDfUIghyAOfkIeiKdBfHEiAiACQe7GBkgbIQULIAULvQgCCn8BfiMAQcACayIEJABBACEDAn8gAkEASgRAQZAKQaAKIAJBEEYbIQcDQCAEQeABaiADIAdqLQAAQQJ0aiABIANBAXRqLgEAIgVBCHVBAXQiBkGCCGouAQAgBkGACGouAQAiBmsgBUH/AXFsIAZBCHRqQQN1QQFqQQF1NgIAIANBAWoiAyACRw0AC0GAgAQhBiAEQYCABDYCoAEgBEEAIAQoAuABayIFNgKkAUEBIQMgAkEBdSEKQQAgAkEESA0BGiAFIQEDQCAEQaABaiADQQFqIghBAnRqIgsgBkEBdCAEQeABaiADQQN0aigCACIMrCIOIAGsfkIPiEIBfEIBiKdrNgIAIANBAnQiByAEQaABamohCSAEIANBAk8EfyAJIAQgB2ooApgBIgUgAWogBqwgDn5CD4hCAXxCAYinazYCACADQQJHBEADQCAEQaABaiADQX9qIgZBAnRqIgEgA0ECdCAEaigClAEiByABKAIAaiAFrCAOfkIPiEIBfEIBiKdrNgIAIANBA0ohASAGIQMgByEFIAENAAsLIAQoAqQBBSAFCyAMayIFNgKkAUEBIAggCkYNAhogCygCACEBIAkoAgAhBiAIIQMMAAALAAsgBEGAgAQ2AqABIAJBAXUhCkEACyEBQYCABCEGIARBgIAENgJgIARBACAEKALkAWsiBTYCZAJAIAFFDQAgBEHgAWpBBHIhDUEBIQMgBSEBA0AgBEHgAGogA0EBaiIIQQJ0aiILIAZBAXQgDSADQQN0aigCACIMrCIOIAGsfkIPiEIBfEIBiKdrNgIAIANBAnQiByAEQeAAamohCSAEIANBAk8EfyAJIAQgB2ooAlgiBSABaiAGrCAOfkIPiEIBfEIBiKdrNgIAIANBAkcEQANAIARB4ABqIANBf2oiBkECdGoiASADQQJ0IARqKAJUIgcgASgCAGogBawgDn5CD4hCAXxCAYinazYCACADQQNKIQEgBiEDIAchBSABDQALCyAEKAJkBSAFCyAMayIFNgJkIAggCkYNASALKAIAIQEgCSgCACEGIAghAwwAAAsACyACQQJOBEAgCkEBIApBAUobIQkgBCgCYCEGIAQoAqABIQFBACEDA0AgBCADQQJ0akEAIANBAWoiBUECdCIHIARB4ABqaigCACIIIAZrIgYgASAEQaABaiAHaigCACIHaiIBams2AgAgBCADQX9zIAJqQQJ0aiAGIAFrNgIAIAghBiAHIQEgCSAFIgNHDQALCyAAIAQgAhAKAkAgACACEAsNAEEAIQUgAkEBSCEGA0AgBCACQYCABEECIAV0axAJQQAhAyAGRQRAA0AgACADQQF0aiAEIANBAnRqKAIAQQR2QQFqQQF2OwEAIANBAWoiAyACRw0ACwsgACACEAshAyAFQQ5LDQEgBUEBaiEFIANFDQALCyAEQcACaiQAC1UBBH9B//8BIAAoAqQSIgJBAWptIQQgAkEBTgRAA0AgACABQQF0akHUH2ogAyAEaiIDOwEAIAFBAWoiASACRw0ACwsgAEG0IGpCgICAgICQnhg3AgALlxIBHn8jAEEgayILIQkgCyQAIAAoAowSIgcgAEG8IGooAgBHBEBB//8BIAAoAqQSIgZBAWptIQggBkEBTgRAA0AgACAEQQF0akHUH2ogBSAIaiIFOwEAIARBAWoiBCAGRw0ACwsgACAHNgK8ICAAQbQgakKAgICAgJCeGDcCAAsCQAJAIAAoAsAgRQRAAkAgACgCxCANAEEAIQQgACgCpBIiCEEASgRAA0AgACAEQQF0aiIFQdQfaiIGIAYuAQAiBiAFQagSai4BACAGayIFQf//A3FB3P8AbEEQdiAFQRB2Qdz/AGxqajsBACAEQQFqIgQgCEcNAAsLIABB1BVqIQ1BACEEAkAgACgClBIiB0EATARAQQAhBgwBC0EAIQZBACEFA0AgASAEQQJ0aigCECIIIAUgCCAFSiIIGyEFIAQgBiAIGyEGIARBAWoiBCAHRw0ACwsgACAAKAKcEiIEQQJ0akHUFWogDSAHQQJ0QXxqIARsEAgaIA0gACAAKAKcEiIEIAZsQQJ0akEEaiAEQQJ0EAUaIAAoApQSIgdBAUgNACAAQbQgaigCACEEQQAhBQNAIAAgASAFQQJ0akEQaiIGKAIAIARrIghBEHVBmiRsIARqIAhB//8DcUGaJGxBEHZqIgQ2ArQgIARBEHVBvOp+bCAEaiAEQf//A3FBvOp+bEEQdWogBigCACIGSgRAIAAgBjYCtCAgBiEECyAFQQFqIgUgB0cNAAsLIAAoAsAgRQ0BCyALIANBAnRBzwBqQXBxayIHJAAgAEGYIWooAgAiBUEQdEEQdSIGIABBhCFqLgEAIgRB//8DcWxBEHUgBiAEQRB1bGogBUEPdUEBakEBdSAEbGoiBUEQdSEGAn8gBUH///8ATEEAIABBtCBqKAIAIgRBgYCABEgbRQRAQQAgBEEQdSIEIARsIAYgBmxBBXRrIgRBAUgNARoCQEEYIARnIgVrIgZFDQAgBEH/AE0EQCAEIAVBaGp0IARBOCAFa3ZyIQQMAQsgBCAFQQhqdCAEIAZ2ciEEC0GAgAJBhukCIAVBAXEbIAVBAXZ2IgVBEHQgBEH/AHFBgIDUBmxBEHYgBWxqQYCAfHEMAQtBACAEQRB0QRB1IgggBEEQdWwgBUEQdEEQdSIBIAVB//8DcWxBEHUgASAGbGogBUEPdUEBakEBdiAFbGpBBXRrIAggBEH//wNxbEEQdWogBEEPdUEBakEBdSAEbGoiBEEBSA0AGgJAQRggBGciBWsiBkUNACAEQf8ATQRAIAQgBUFoanQgBEE4IAVrdnIhBAwBCyAEIAVBCGp0IAQgBnZyIQQLQYCAAkGG6QIgBUEBcRsgBUEBdnYiBSAFIARB/wBxQYCA1AZsQRB2bEEQdmpBCHQLIQEgB0FAayEIQf8BIQUDQCAFIgRBAXUhBSAEIANKDQALIABBuCBqKAIAIQYgA0EBSCILRQRAQQAhBQNAIAggBUECdGogACAGQbWIzt0AbEHrxuWwA2oiBkEYdSAEcUECdGpB1BVqKAIANgIAIAVBAWoiBSADRw0ACwsgACAGNgK4ICAJIABB1B9qIAAoAqQSIAAoAsggEAwgByAAQawgaikCADcCOCAHIABBpCBqKQIANwIwIAcgAEGcIGopAgA3AiggByAAQZQgaikCADcCICAHIABBjCBqKQIANwIYIAcgAEGEIGopAgA3AhAgByAAQfwfaikCADcCCCAHIABB9B9qIgopAgA3AgAgC0UEQCABQQp0QRB1IQ0gACgCpBIiH0EBdSEgIAFBFXVBAWpBAXUhISAHKAIcIQUgBygCJCEGIAcoAiwhCCAHKAI0IQEgBygCPCEEIAkuAR4hDyAJLgEcIRAgCS4BGiERIAkuARghEiAJLgEWIRMgCS4BFCEUIAkuARIhFSAJLgEQIRYgCS4BDiEXIAkuAQwhGCAJLgEKIRkgCS4BCCEaIAkuAQYhGyAJLgEEIRwgCS4BAiEdIAkuAQAhHkEAIQADQCAEQRB1IB5sICBqIARB//8DcSAebEEQdWogAEECdCAHaiIEKAI4IgtBEHUgHWxqIAtB//8DcSAdbEEQdWogAUEQdSAcbGogAUH//wNxIBxsQRB1aiAEKAIwIgFBEHUgG2xqIAFB//8DcSAbbEEQdWogCEEQdSAabGogCEH//wNxIBpsQRB1aiAEKAIoIghBEHUgGWxqIAhB//8DcSAZbEEQdWogBkEQdSAYbGogBkH//wNxIBhsQRB1aiAEKAIgIgZBEHUgF2xqIAZB//8DcSAXbEEQdWogBUEQdSAWbGogBUH//wNxIBZsQRB1aiAEKAIYIgVBEHUgFWxqIAVB//8DcSAVbEEQdWohBSAAQRBqIQwCfwJ/IB9BEEYEQCAEKAIUIg5BEHUgFGwgBWogDkH//wNxIBRsQRB1aiAEKAIQIgVBEHUgE2xqIAVB//8DcSATbEEQdWogBCgCDCIFQRB1IBJsaiAFQf//A3EgEmxBEHVqIAQoAggiBUEQdSARbGogBUH//wNxIBFsQRB1aiAEKAIEIgVBEHUgEGxqIAVB//8DcSAQbEEQdWogBCgCACIEQRB1IA9saiAEQf//A3EgD2xBEHVqIQULIAULQYCAgEAgBUGAgIBAShsiBEH///8/IARB////P0gbQQR0IgQgByAMQQJ0aiIFKAIAIgxqIg5BAE4EQEGAgICAeCAOIAQgDHFBAEgbDAELQf////8HIA4gBCAMckF/ShsLIQQgBSAENgIAIAIgAEEBdGoiDCAMLgEAQf//AUGAgH4gBEEQdSANbCAEICFsaiAEQf//A3EgDWxBEHVqIgVBB3VBAWpBAXUgBUGA//97SBsgBUH//v8DShtqIgVBgIB+IAVBgIB+ShsiBUH//wEgBUH//wFIGzsBACAGIQUgCCEGIAEhCCALIQEgAEEBaiIAIANHDQALCyAKIAcgA0ECdGoiBCkCADcCACAKIAQpAjg3AjggCiAEKQIwNwIwIAogBCkCKDcCKCAKIAQpAiA3AiAgCiAEKQIYNwIYIAogBCkCEDcCECAKIAQpAgg3AggMAQsgAEH0H2pBACAAKAKkEkECdBAEGgsgCUEgaiQAC34BA38gAUF/aiEDIAFBAk4EQCACQYCAfGohBEEAIQEDQCAAIAFBAXRqIgUgAiAFLgEAbEEPdkEBakEBdjsBACACIARsQQ91QQFqQQF1IAJqIQIgAUEBaiIBIANHDQALCyAAIANBAXRqIgEgAiABLgEAbEEPdkEBakEBdjsBAAugAgEGfyAEIANIBEAgBEEHSCEKIAQhBQNAIAIuAQIgBUEBdCILIAFqIgdBfGouAQBsIAIuAQAgB0F+aiIJLgEAbGogAi4BBCAHQXpqLgEAbGogAi4BBiAHQXhqLgEAbGogAi4BCCAHQXZqLgEAbGogAi4BCiAHQXRqLgEAbGohCEEGIQYgCkUEQANAIAggAiAGQQF0IghqLgEAIAkgCGsuAQBsaiACIAhBAnJqLgEAIAkgBkF/c0EBdGouAQBsaiEIIAZBAmoiBiAESA0ACwsgACALaiAHLgEAQQx0IAhrQQt1QQFqQQF1IgZBgIB+IAZBgIB+ShsiBkH//wEgBkH//wFIGzsBACAFQQFqIgUgA0cNAAsLIABBACAEQQF0EAQaC58CAQd/IANBf2ohCUEfIANnIgprIQcCQCADQQJIBEAgAyEGDAELIAMhBgNAIAIgBEEBdCIFQQJyai4BACIIIAhsIAIgBWouAQAiBSAFbGogB3YgBmohBiAEQQJqIgQgCUgNAAsgA0F+cSEEC0EAIQVBIiAKIAQgA0gEfyACIARBAXRqLgEAIgQgBGwgB3YgBmoFIAYLZ2prIgRBACAEQQBKGyEHIANBAkgEf0EABUEAIQQDQCACIARBAXQiBkECcmouAQAiCCAIbCACIAZqLgEAIgYgBmxqIAd2IAVqIQUgBEECaiIEIAlIDQALIANBfnELIgQgA0gEQCACIARBAXRqLgEAIgIgAmwgB3YgBWohBQsgASAHNgIAIAAgBTYCAAszACAAQZQhakKAgISAgIDAADcCACAAQaAhakKCgICAwAI3AgAgACAAKAKYEkEHdDYCzCAL/gQBBn8gACgCjBIiBiAAQZwhaigCAEcEQCAAIAY2ApwhIABBlCFqQoCAhICAgMAANwIAIABBoCFqQoKAgIDAAjcCACAAIAAoApgSQQd0NgLMIAsgAwRAIAAgASACIAQQFCAAIAAoAsAgQQFqNgLAIA8LIAAgAEHNFWosAAAiAzYCxCACQCADQQJGBEACQCAAKAKUEiICRQ0AIAJBAnQgAWpBfGoiCSgCACIHQQFIDQAgAEHQIGohCCAAKAKcEiEKQQAhBgNAIAEgAiAGQX9zaiIEQQpsaiIDLgFiIAMuAWBqIAMuAWRqIAMuAWZqIAMuAWhqIgMgBUoEQCAIIAEgBEEQdEEQdUEKbGoiBS8BaDsBCCAIIAUpAWA3AQAgACABIARBAnRqKAIAQQh0NgLMICAJKAIAIQcgAyEFCyAGQQFqIgYgAkYNASAGIApsIAdIDQALCyAAQdAgaiIDQgA3AgAgAEHYIGpBADsBACAAQdQgaiAFOwEAIAVBzNkATARAIABB1iBqQQA2AQAgA0EANgEAIABBgOjMBSAFQQEgBUEBShtuQRB0QRB1IAVBEHRBEHVsQQp2OwHUIAwCCyAFQc75AEgNASAAQdYgakEANgEAIABB0CBqQQA2AQAgAEGAgM35ACAFbiAFQRB0QRB1bEEOdjsB1CAMAQsgAEHQIGpCADcCACAAQdggakEAOwEAIAAgBkEQdEEQdUGAJGw2AswgIAAoApQSIQILIABB2iBqIAFBQGsgACgCpBJBAXQQBRogAEGQIWogASgCiAE7AQAgAEGUIWogAkECdCABaikCCDcCACAAQaQhaiAAKAKcEjYCACAAQaAhaiACNgIAC7kVAR5/IwBBQGoiBCQAIAQgACgCmBIgACgCoBJqQQJ0QQ9qQXBxayIQIgUkACAFIAAoAqASQQF0QQ9qQXBxayILJAAgBCIIIABBlCFqKAIAQQZ1NgIIIAQgAEGYIWooAgAiGUEGdSIaNgIMIAAoAsgSBEAgAEHyIGpCADcBACAAQeogakIANwEAIABB4iBqQgA3AQAgAEHaIGpCADcBAAsgCEE0aiAIQTxqIAhBMGogCEE4aiAAQQRqIhEgCEEIaiAAKAKcEiAAKAKUEhAVIABBhCFqLwEAIRQgAEGkIWooAgAhCiAAQaAhaigCACEOIAAoAsAgIQUgACgCxCAhCSAIKAI4IRUgCCgCNCENIAgoAjwhEiAIKAIwIRMgAEHaIGoiBiAAKAKkEkHx+gMQDyAIQRBqIAYgACgCpBIiBEEBdBAFGiAFQQEgBUEBSBtBAXQiFkGuCkGyCiAJQQJGG2ouAQAhCQJAIAAoAsAgDQAgACgCxCBBAkYEQCAAQZAhai4BAEGAgAEgAEHYIGovAQAgAEHWIGovAQAgAEHUIGovAQAgAC8B0CAgAEHSIGovAQBqampqayIFQc0ZIAVBEHRBEHVBzRlKG0H//wNxbEEOdiEUDAELIAYgBBALIgRBgICAwAAgBEGAgIDAAEgbIgRBgICAAiAEQYCAgAJKGyIEQQN0Qfj/A3EgCWxBEHUgBEENdkH//wNxIAlsakEOdSEJIAAoAqQSIQRBgIABIRQLIABBgCFqKAIAIRwgCyAAKAKgEiIPIARrIAAoAswgQQd1QQFqQQF1IhdrQX5qIgVBAXQiBmogACAGakHECmogCEEQaiAPIAVrIAQgAxAQQf////8BIAAoApghIgQgBCAEQR91IgZqIAZzIgNnIgxBf2p0IgRBEHUiBm0iB0EPdUEBakEBdUEAIARB//8DcSAHQRB0IgdBEHUiBGxBEHUgBCAGbGpBA3RrIgZsIAdqIAZBEHUgBGxqIAZB+P8DcSAEbEEQdWohBAJ/IANB//8DTQRAAn9BgICAgHggDEFwaiIGdSIDQf////8HIAZ2IgdKBEAgAyAEIANKDQEaIAcgBCAEIAdIGyAGdAwDCyAHIAQgB0oNABogAyAEIAQgA0gbCyAGdAwBCyAEQRAgDGt1CyEGIAAoAqQSIh0gBWoiBCAAKAKgEiIYSARAIAZB/////wMgBkH/////A0gbIgVB//8DcSEGIAVBEHUhAwNAIBAgBEECdGogBiALIARBAXRqLgEAIgVsQRB1IAMgBWxqNgIAIARBAWoiBCAYSA0ACwsgACgClBIiG0EBTgRAIAogDiANIBV1IBMgEnVIa2wiBEGAASAEQYABShtBAnQgEWpBgHxqIRUgFkGqCmouAQAhDSAALgGMEkGAJGwhEiAJQRB0QRB1IRYgAEHYIGovAQAhBCAAQdYgai8BACEFIABB1CBqLwEAIQkgAEHSIGovAQAhByAALwHQICEMIAAoApwSIQ5BACETA0ACQCAOQQBMBEAgFEEQdEEQdSELIARBEHRBEHUhBiAFQRB0QRB1IQMgCUEQdEEQdSEJIAdBEHRBEHUhByAMQRB0QRB1IQwMAQsgFEEQdEEQdSELIARBEHRBEHUhBiAFQRB0QRB1IQMgCUEQdEEQdSEJIAdBEHRBEHUhByAMQRB0QRB1IQwgDyAXa0ECdCAQakEIaiEEQQAhESAPIQUDQCAQIAVBAnRqIAQoAgAiCkEQdSAMbCAKQf//A3EgDGxBEHVqIARBfGooAgAiCkEQdSAHbGogCkH//wNxIAdsQRB1aiAEQXhqKAIAIgpBEHUgCWxqIApB//8DcSAJbEEQdWogBEF0aigCACIKQRB1IANsaiAKQf//A3EgA2xBEHVqIARBcGooAgAiCkEQdSAGbGogCkH//wNxIAZsQRB1aiAVIBxBtYjO3QBsQevG5bADaiIcQRd2QfwDcWooAgAiCkEQdSALbGogCkH//wNxIAtsQRB1akECdEEIajYCACAFQQFqIQUgBEEEaiEEIBFBAWoiESAORw0ACyAOIA9qIQ8LIAAgACgCzCAiBEEQdUGPBWwgBGogBEH//wNxQY8FbEEQdmoiBCASIAQgEkgbIgQ2AswgIARBB3VBAWpBAXUhFyALIBZsQQ92IRQgBiANbEEPdiEEIAMgDWxBD3YhBSAJIA1sQQ92IQkgByANbEEPdiEHIAwgDWxBD3YhDCATQQFqIhMgG0cNAAsgACAEOwHYICAAIAU7AdYgIAAgCTsB1CAgACAHOwHSICAAIAw7AdAgCyAYQQJ0IBBqQUBqIgMgACkChAo3AgAgAyAAQbwKaikCADcCOCADIABBtApqKQIANwIwIAMgAEGsCmopAgA3AiggAyAAQaQKaikCADcCICADIABBnApqKQIANwIYIAMgAEGUCmopAgA3AhAgAyAAQYwKaikCADcCCCAAKAKYEiIeQQFOBEAgHUEBdSEfIBpBEHRBEHUhECAZQRV1QQFqQQF1ISAgAygCHCEFIAMoAiQhCyADKAIsIQYgAygCNCEJIAMoAjwhBCAILgEiIRUgCC4BICENIAguAR4hDyAILgEcIRIgCC4BGiETIAguARghGyAILgEWIRYgCC4BFCEYIAguARIhGSAILgEQIRogHUELSCEhQQAhBwNAIARBEHUgGmwgH2ogBEH//wNxIBpsQRB1aiAHQQJ0IANqIgQoAjgiDEEQdSAZbGogDEH//wNxIBlsQRB1aiAJQRB1IBhsaiAJQf//A3EgGGxBEHVqIAQoAjAiEUEQdSAWbGogEUH//wNxIBZsQRB1aiAGQRB1IBtsaiAGQf//A3EgG2xBEHVqIAQoAigiCkEQdSATbGogCkH//wNxIBNsQRB1aiALQRB1IBJsaiALQf//A3EgEmxBEHVqIAQoAiAiDkEQdSAPbGogDkH//wNxIA9sQRB1aiAFQRB1IA1saiAFQf//A3EgDWxBEHVqIAQoAhgiBEEQdSAVbGogBEH//wNxIBVsQRB1aiEFIAdBEGohCUEKIQQgIUUEQANAIAhBEGogBEEBdGouAQAiBiADIAkgBEF/c2pBAnRqKAIAIgtBEHVsIAVqIAtB//8DcSAGbEEQdWohBSAEQQFqIgQgHUcNAAsLAn8gAyAJQQJ0aiILKAIAIgYgBUGAgIBAIAVBgICAQEobIgRB////PyAEQf///z9IG0EEdCIEaiIFQQBOBEBBgICAgHggBSAEIAZxQQBIGwwBC0H/////ByAFIAQgBnJBf0obCyEEIAsgBDYCACACIAdBAXRqQf//AUGAgH5B//8BQYCAfiAEQRB1IBBsIAQgIGxqIARB//8DcSAQbEEQdWoiBUEHdUEBakEBdSAFQYD//3tIGyAFQf/+/wNKGyIFIAVBgIB+SBsgBUH//wFKGzsBACAOIQUgCiELIBEhBiAMIQkgB0EBaiIHIB5HDQALCyAAQYQKaiICIAMgHkECdGoiBCkCADcCACACIAQpAjg3AjggAiAEKQIwNwIwIAIgBCkCKDcCKCACIAQpAiA3AiAgAiAEKQIYNwIYIAIgBCkCEDcCECACIAQpAgg3AgggACAUOwGEISAAIBw2AoAhIAEgFzYCDCABIBc2AgggASAXNgIEIAEgFzYCACAIQUBrJAAL6wIBB38jACIIIQ4gCCAGQQJ0QQ9qQXBxayIMJAACQCAGQQBMBEAgDCAGQQF0aiEKDAELIAdBfmogBmwhCiAFKAIAIghBEHRBEHUhCyAIQQ91QQFqQQF1IQ0DQCAMIAlBAXRqQf//AUGAgH4gCyAEIAkgCmpBAnRqKAIAIghB//8DcWxBEHUgCyAIQRB1bGogCCANbGoiCEEIdiAIQYCAgHxIGyAIQf///wNKGzsBACAJQQFqIgkgBkcNAAsgB0F/aiAGbCENIAwgBkEBdGohCiAFKAIEIglBEHRBEHUhCyAJQQ91QQFqQQF1IQVBACEJA0AgCiAJQQF0akH//wFBgIB+IAsgBCAJIA1qQQJ0aigCACIIQf//A3FsQRB1IAsgCEEQdWxqIAUgCGxqIghBCHYgCEGAgIB8SBsgCEH///8DShs7AQAgCUEBaiIJIAZHDQALCyAAIAEgDCAGEBEgAiADIAogBhARIA4kAAvaAwEGfyMAQRBrIgUkAAJAIAAoAsAgBEAgAEGIIWogAEGMIWogASACEBEgAEH8IGpBATYCAAwBCwJAIABB/CBqKAIARQ0AIAVBCGogBUEMaiABIAIQEQJAIAUoAgwiAyAAQYwhaigCACIGSgRAIABBiCFqIgQgBCgCACADIAZrdTYCAAwBCyADIAZODQAgBSAFKAIIIAYgA2t1NgIICyAFKAIIIgQgAEGIIWooAgAiA0wNACAAIAMgA2ciB0F/anQiCDYCiCFBACEGIAUgBEEZIAdrIgNBACADQQBKG3UiBDYCCEEAIQMgCCAEQQEgBEEBShttIgRBAU4EQAJAQRggBGciA2siB0UNACAEQf8ATQRAIAQgA0FoanQgBEE4IANrdnIhBAwBCyAEIANBCGp0IAQgB3ZyIQQLQYCAAkGG6QIgA0EBcRsgA0EBdnYiAyADIARB/wBxQYCA1AZsQRB2bEEQdmpBBHQhAwtBgIAEIANrIAJtIQQgAkEBSA0AIARBAnQhBwNAIAEgBkEBdGoiBCAELgEAIgQgA0H8/wNxbEEQdiADQRB2IARsajsBACADIAdqIgNBgIAESg0BIAZBAWoiBiACSA0ACwsgAEEANgL8IAsgBUEQaiQACzIAIABBBGpBAEGkIRAEGiAAQQA2AsggIABBgIAENgIAIABBATYCyBIgABANIAAQEkEAC9sDAQ5/IANBAU4EQCAAKAIUIQkgACgCECEGIAAoAgwhBCAAKAIIIQcgACgCBCEIIAAoAgAhBQNAIAEgCkECdCILakH//wEgAiAKQQF0ai4BAEEKdCIMIAVrIg1B//8DcUHSDWxBEHYgDUEQdUHSDWxqIg0gBWoiDiAIayIFQf//A3FBivUAbEEQdiAFQRB1QYr1AGxqIg8gCGoiBSAHayIIQf//A3FBq7F+bEEQdSAIQRB1QauxfmxqIAVqIgVBCXVBAWpBAXUiB0GAgH4gB0GAgH5KGyAFQf/7/w9KGzsBACABIAtBAnJqQf//ASAMIARrIgdB//8DcUHGNWxBEHYgB0EQdUHGNWxqIgsgBGoiECAGayIEQf//A3FBqckBbEEQdiAEQRB1QanJAWxqIhEgBmoiBCAJayIGQf//A3FB9rF/bEEQdSAGQRB1Qfaxf2xqIARqIgRBCXVBAWpBAXUiCUGAgH4gCUGAgH5KGyAEQf/7/w9KGzsBACAEIAZqIQkgBSAIaiEHIBAgEWohBiAOIA9qIQggCyAMaiEEIAwgDWohBSAKQQFqIgogA0cNAAsgACAJNgIUIAAgBjYCECAAIAQ2AgwgACAHNgIIIAAgCDYCBCAAIAU2AgALCwwAIAAgASACIAMQGAu8AwEMfyMAIgchCiAHIAAoAowCIgRBAnRBH2pBcHFrIgYkACAGQQhqIgsgACkCIDcCACAGIAApAhg3AgAgAEEYaiEJIAZBEGohDCAAKAKQAiENA0AgACAMIAIgAyAEIAMgBEgbIggQGEEAIQcgCEERdCIOQQFOBEADQCABQf//ASAHQf//A3FBDGxBEHYiD0EDdCIFQfIMai4BACAGIAdBEHVBAXRqIgQuAQJsIAVB8AxqLgEAIAQuAQBsaiAFQfQMai4BACAELgEEbGogBUH2DGouAQAgBC4BBmxqQQsgD2tBA3QiBUH2DGouAQAgBC4BCGxqIAVB9AxqLgEAIAQuAQpsaiAFQfIMai4BACAELgEMbGogBUHwDGouAQAgBC4BDmxqIgRBDnVBAWpBAXUiBUGAgH4gBUGAgH5KGyAEQf///v8DShs7AQAgAUECaiEBIAcgDWoiByAOSA0ACwsgAyAIayIDQQFOBEAgBiAGIAhBAnRqIgQpAgA3AgAgCyAEKQIINwIAIAIgCEEBdGohAiAAKAKMAiEEDAELCyAJIAYgCEECdGoiBCkCADcCACAJIAQpAgg3AgggCiQAC5UBAQV/IARBAU4EQCAAKAIAIQUgAy4BAiEGIAMuAQAhB0EAIQMDQCABIANBAnRqIAIgA0EBdGouAQBBCHQgBWoiBTYCACAAKAIEIQggACAFQQJ0IgVB/P8DcSIJIAZsQRB1IAVBEHUiBSAGbGo2AgQgACAIIAUgB2xqIAcgCWxBEHVqIgU2AgAgA0EBaiIDIARHDQALCwuuEgERfyMAIgchESAHIAAoApQCIgggACgCjAIiBGpBAnRBD2pBcHFrIgckACAHIABBGGoiEiAIQQJ0EAUhCyAAKAKoAiIHQQRqIQ8gACgCkAIhDiAHIQYDQCAAIAsgCEECdGogAiAGIAMgBCADIARIGyINEBsCQCAAKAKUAiIQQW5qIgRBEksNACANQRB0IQwCQAJAAkAgBEEBaw4SAwMDAwMBAwMDAwMDAwMDAwMCAAsgDEEBSA0CIAAoApgCIhNBEHRBEHUhFEEAIQYDQCABQf//ASAPIAZB//8DcSAUbEEQdSIJQRJsaiIILgEAIgogCyAGQRB1QQJ0aiIEKAIAIgVB//8DcWxBEHUgBUEQdSAKbGogCC4BAiIKIAQoAgQiBUEQdWxqIAVB//8DcSAKbEEQdWogCC4BBCIKIAQoAggiBUEQdWxqIAVB//8DcSAKbEEQdWogCC4BBiIKIAQoAgwiBUEQdWxqIAVB//8DcSAKbEEQdWogCC4BCCIKIAQoAhAiBUEQdWxqIAVB//8DcSAKbEEQdWogCC4BCiIKIAQoAhQiBUEQdWxqIAVB//8DcSAKbEEQdWogCC4BDCIKIAQoAhgiBUEQdWxqIAVB//8DcSAKbEEQdWogCC4BDiIKIAQoAhwiBUEQdWxqIAVB//8DcSAKbEEQdWogCC4BECIIIAQoAiAiBUEQdWxqIAVB//8DcSAIbEEQdWogDyATIAlBf3NqQRJsaiIILgEAIgkgBCgCRCIFQRB1bGogBUH//wNxIAlsQRB1aiAILgECIgkgBCgCQCIFQRB1bGogBUH//wNxIAlsQRB1aiAILgEEIgkgBCgCPCIFQRB1bGogBUH//wNxIAlsQRB1aiAILgEGIgkgBCgCOCIFQRB1bGogBUH//wNxIAlsQRB1aiAILgEIIgkgBCgCNCIFQRB1bGogBUH//wNxIAlsQRB1aiAILgEKIgkgBCgCMCIFQRB1bGogBUH//wNxIAlsQRB1aiAILgEMIgkgBCgCLCIFQRB1bGogBUH//wNxIAlsQRB1aiAILgEOIgkgBCgCKCIFQRB1bGogBUH//wNxIAlsQRB1aiAILgEQIgggBCgCJCIEQRB1bGogBEH//wNxIAhsQRB1aiIEQQV1QQFqQQF1IghBgIB+IAhBgIB+ShsgBEHf//8AShs7AQAgAUECaiEBIAYgDmoiBiAMSA0ACwwCC0EAIQggDEEATA0BA0AgAUH//wEgBy4BBCIFIAsgCEEQdUECdGoiBCgCXCAEKAIAaiIGQf//A3FsQRB1IAZBEHUgBWxqIAcuAQYiBSAEKAJYIAQoAgRqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuAQgiBSAEKAJUIAQoAghqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuAQoiBSAEKAJQIAQoAgxqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuAQwiBSAEKAJMIAQoAhBqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuAQ4iBSAEKAJIIAQoAhRqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARAiBSAEKAJEIAQoAhhqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARIiBSAEKAJAIAQoAhxqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARQiBSAEKAI8IAQoAiBqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARYiBSAEKAI4IAQoAiRqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARgiBSAEKAI0IAQoAihqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARoiBiAEKAIwIAQoAixqIgRBEHVsaiAEQf//A3EgBmxBEHVqIgRBBXVBAWpBAXUiBkGAgH4gBkGAgH5KGyAEQd///wBKGzsBACABQQJqIQEgCCAOaiIIIAxIDQALDAELQQAhCCAMQQBMDQADQCABQf//ASAHLgEEIgUgCyAIQRB1QQJ0aiIEKAKMASAEKAIAaiIGQf//A3FsQRB1IAZBEHUgBWxqIAcuAQYiBSAEKAKIASAEKAIEaiIGQRB1bGogBkH//wNxIAVsQRB1aiAHLgEIIgUgBCgChAEgBCgCCGoiBkEQdWxqIAZB//8DcSAFbEEQdWogBy4BCiIFIAQoAoABIAQoAgxqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuAQwiBSAEKAJ8IAQoAhBqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuAQ4iBSAEKAJ4IAQoAhRqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARAiBSAEKAJ0IAQoAhhqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARIiBSAEKAJwIAQoAhxqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARQiBSAEKAJsIAQoAiBqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARYiBSAEKAJoIAQoAiRqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARgiBSAEKAJkIAQoAihqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARoiBSAEKAJgIAQoAixqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuARwiBSAEKAJcIAQoAjBqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuAR4iBSAEKAJYIAQoAjRqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuASAiBSAEKAJUIAQoAjhqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuASIiBSAEKAJQIAQoAjxqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuASQiBSAEKAJMIAQoAkBqIgZBEHVsaiAGQf//A3EgBWxBEHVqIAcuASYiBiAEKAJIIAQoAkRqIgRBEHVsaiAEQf//A3EgBmxBEHVqIgRBBXVBAWpBAXUiBkGAgH4gBkGAgH5KGyAEQd///wBKGzsBACABQQJqIQEgCCAOaiIIIAxIDQALCyADIA1rIgNBAk4EQCALIAsgDUECdGogEEECdBAFGiACIA1BAXRqIQIgACgCqAIhBiAAKAKUAiEIIAAoAowCIQQMAQsLIBIgCyANQQJ0aiAQQQJ0EAUaIBEkAAvUBQEDfwJAIABBAEGsAhAEIgQCfyADBEBBfyEDAkAgAUH//ABMBEAgAUHAPkYNASABQeDdAEYNAQwECyABQYD9AEYNACABQYD3AkYNACABQcC7AUcNAwsCQCACQcA+Rg0AIAJBgP0ARg0AIAJB4N0ARw0DCyABQQx2IAFBgP0ASmsgAUHAuwFKdUEDbCACQQx2akHMDWoMAQtBfyEDAkAgAUHAPkYNACABQYD9AEYNACABQeDdAEcNAgsCQCACQf/8AEwEQCACQcA+Rg0BIAJB4N0ARg0BDAMLIAJBgP0ARg0AIAJBgPcCRg0AIAJBwLsBRw0CCyABQQx2QQVsIAJBDHYgAkGA/QBKayACQcC7AUp1akHZDWoLLAAANgKkAiAEIAJB//8DcUHoB242AqACIAQgAUH//wNxQegHbiIDNgKcAiAEIANBCmw2AowCAkAgAiABSgRAQQEhBSACIAFBAXRGBEAgBEEBNgKIAkEAIQUMAgsgBEECNgKIAgwBCyACIAFIBEAgBEEDNgKIAiACQQJ0IgMgAUEDbEYEQCAEQcAKNgKoAiAEQpKAgIAwNwKUAgwCCyACQQNsIgAgAUEBdEYEQCAEQYALNgKoAiAEQpKAgIAgNwKUAgwCCyABIAJBAXRGBEAgBEGwCzYCqAIgBEKYgICAEDcClAIMAgsgACABRgRAIARB0As2AqgCIARCpICAgBA3ApQCDAILIAEgA0YEQCAEQYAMNgKoAiAEQqSAgIAQNwKUAgwCC0F/IQMgAkEGbCABRw0CIARBsAw2AqgCIARCpICAgBA3ApQCDAELIARBADYCiAILIAEgBXQhACACQRB0QRB1IQMgAkEPdkEBakEBdiEGIAEgBUEOcnQgAm1BAnQhAgNAIAIiAUEBaiECIAFBEHUgA2wgASAGbGogAUH//wNxIANsQRB1aiAASA0ACyAEIAE2ApACQQAhAwsgAwuxAgEEfyAAQagBaiIEIAAoAqQCIgVBAXRqIAIgACgCnAIgBWsiBkEBdCIHEAUaAkAgACgCiAJBf2oiBUECTQRAAkACQAJAIAVBAWsOAgECAAsgACABIAQgACgCnAIQGSAAIAEgACgCoAJBAXRqIAIgBkEBdGogAyAAKAKcAmsQGQwDCyAAIAEgBCAAKAKcAhAaIAAgASAAKAKgAkEBdGogAiAGQQF0aiADIAAoApwCaxAaDAILIAAgASAEIAAoApwCEBwgACABIAAoAqACQQF0aiACIAZBAXRqIAMgACgCnAJrEBwMAQsgASAEIAAoApwCQQF0EAUgACgCoAJBAXRqIAIgB2ogAyAAKAKcAmtBAXQQBRoLIAQgAiADIAAoAqQCIgBrQQF0aiAAQQF0EAUaQQAL4QIBBH8gACABQRB0QRB1IgNBBWw2ApwSIAAuAZQSIANBgIAUbEEQdWwhBAJAAkACQCABIAAoAowSRgRAIAAoApASIAJGDQELIABBgBNqIANB6AdsIAJBABAdIQUgACACNgKQEiAAKAKMEiABRw0BC0EBIQYgBCAAKAKYEkYNAQsgAEHSDkHpDiAAKAKUEkEERiICG0GwDkHdDiACGyABQQhGGzYC0BIgBkUEQCAAIANBFGw2AqASIABB6BlBtCogAUEEckEMRiIDGzYCrBUgAEEKQRAgAxs2AqQSAkACQAJAIAFBdGoiAkEESw0AQeArIQMCQCACQQFrDgQBAQECAAtB2ishAwwBC0HRKyEDIAFBCEcNAQsgACADNgLMEgsgAEEANgLEICAAQQo6AIgSIABB5AA2AoQSIABBATYCyBIgAEGECmpBAEGACBAEGgsgACAENgKYEiAAIAE2AowSCyAFC/oCAQZ/IABCgICAgIAQNwIYIABCgICAgJABNwIQIABCADcCCCAAIAI2AgQgACABNgIAIAIEQCAAQQE2AhggAS0AACEEQQEhAwsgAEEANgIsIAAgBDYCKCAAQYCAAjYCHCAAQRE2AhQgACAEQQF2Qf8AcyIGNgIgAkAgAyACTwRAIAMhBwwBCyAAIANBAWoiBzYCGCABIANqLQAAIQULIAAgBTYCKCAAQYCAgAQ2AhwgAEEZNgIUIAAgBSAEQQh0ckEBdkH/AXEgBkEIdHJB/wFzIgg2AiBBACEDIAACfyAHIAJPBEAgByEGQQAMAQsgACAHQQFqIgY2AhggASAHai0AAAsiBDYCKCAAQYCAgIB4NgIcIABBITYCFCAAIAQgBUEIdHJBAXZB/wFxIAhBCHRyQf8BcyIFNgIgIAYgAkkEQCAAIAZBAWo2AhggASAGai0AACEDCyAAIAM2AiggACADIARBCHRyQQF2Qf8BcSAFQQh0ckH/AXM2AiALOAEBfyAAIAAoAhwgAW4iAjYCJCAAKAIgIAJuIgBBf3MgAWpBACAAQQFqIgAgAWsiASABIABLG2oLPAEBfyAAIAAoAhxBD3YiATYCJCAAKAIgIAFuIgBBf3NBgIACakEAIABBAWoiAEGAgAJrIgEgASAASxtqC+sBAQZ/IAAgACgCICAAKAIkIgQgAyACa2wiA2siBjYCICAAIAEEfyAEIAIgAWtsBSAAKAIcIANrCyICNgIcIAJBgICABE0EQCAAKAIYIQMgACgCKCEEIAAoAhQhByAAKAIEIQgDQCAAIAJBCHQiCTYCHCAAIAdBCGoiBzYCFEEAIQEgAyAISQRAIAAgA0EBaiIFNgIYIAAoAgAgA2otAAAhASAFIQMLIAAgATYCKCAAIAZBCHRBgP7//wdxIAEgBEEIdHJBAXZB/wFxckH/AXMiBjYCICACQYGAAkkhBSABIQQgCSECIAUNAAsLC+sBAQl/IAAoAiAiBCAAKAIcIgIgAXYiAUkiBkUEQCAAIAQgAWsiBDYCIAsgACABIAIgAWsgBhsiAjYCHCACQYCAgARNBEAgACgCGCEDIAAoAighByAAKAIUIQggACgCBCEJA0AgACACQQh0Igo2AhwgACAIQQhqIgg2AhRBACEBIAMgCUkEQCAAIANBAWoiBTYCGCAAKAIAIANqLQAAIQEgBSEDCyAAIAE2AiggACAEQQh0QYD+//8HcSABIAdBCHRyQQF2Qf8BcXJB/wFzIgQ2AiAgAkGBgAJJIQUgASEHIAohAiAFDQALCyAGC4ECAQh/IAAoAhwiAyACdiEFIAAoAiAhBEF/IQIDQCADIQYgBCAFIAEgAkEBaiICai0AAGwiA0kNAAsgACAGIANrIgE2AhwgACAEIANrIgU2AiAgAUGAgIAETQRAIAAoAhghBCAAKAIoIQYgACgCFCEIIAAoAgQhCQNAIAAgAUEIdCIKNgIcIAAgCEEIaiIINgIUQQAhAyAEIAlJBEAgACAEQQFqIgc2AhggACgCACAEai0AACEDIAchBAsgACADNgIoIAAgBUEIdEGA/v//B3EgAyAGQQh0ckEBdkH/AXFyQf8BcyIFNgIgIAFBgYACSSEHIAMhBiAKIQEgBw0ACwsgAgv2BQELfwJAIAFBf2oiCkGAAk8EQCAAIAAoAhwiBCAKQRggCmdrIgZ2IgJBAWoiA24iATYCJCAAIAAoAiAiBSACQQAgBSABbiIFQQFqIgcgA2siAyADIAdLGyACIAVraiIMayABbCICayIDNgIgIAAgASAEIAJrIAwbIgI2AhwgAkGAgIAETQRAIAAoAhghBCAAKAIoIQUgACgCFCEHIAAoAgQhCwNAIAAgAkEIdCIJNgIcIAAgB0EIaiIHNgIUQQAhASAEIAtJBEAgACAEQQFqIgg2AhggACgCACAEai0AACEBIAghBAsgACABNgIoIAAgASAFQQh0ckEBdkH/AXEgA0EIdEGA/v//B3FyQf8BcyIDNgIgIAJBgYACSSEIIAEhBSAJIQIgCA0ACwsgDCAGdCEJIAAoAgwhAwJAIAAoAhAiASAGTwRAIAEhBwwBCyAAKAIIIQIgACgCBCEFA0BBACEEIAIgBUkEfyAAIAJBAWoiAjYCCCAAKAIAIAUgAmtqLQAABSAECyABdCADciEDIAFBEUghBCABQQhqIgchASAEDQALCyAAIAcgBms2AhAgACADIAZ2NgIMIAAgACgCFCAGajYCFCADQX8gBnRBf3NxIAlyIgYgCk0NASAAQQE2AiwgCg8LIAAgACgCHCIEIAFuIgI2AiQgACAAKAIgIgMgAyACbiIDQX9zIAFqQQAgA0EBaiIDIAFrIgUgBSADSxtqIgZBf3MgAWogAmwiAWsiAzYCICAAIAIgBCABayAGGyICNgIcIAJBgICABEsNACAAKAIYIQQgACgCKCEFIAAoAhQhByAAKAIEIQsDQCAAIAJBCHQiCTYCHCAAIAdBCGoiBzYCFEEAIQEgBCALSQRAIAAgBEEBaiIINgIYIAAoAgAgBGotAAAhASAIIQQLIAAgATYCKCAAIAEgBUEIdHJBAXZB/wFxIANBCHRBgP7//wdxckH/AXMiAzYCICACQYGAAkkhCCABIQUgCSECIAgNAAsLIAYLowEBBn8gACgCDCEDAkAgACgCECICIAFPBEAgAiEGDAELIAAoAgghBCAAKAIEIQcDQEEAIQUgBCAHSQR/IAAgBEEBaiIENgIIIAAoAgAgByAEa2otAAAFIAULIAJ0IANyIQMgAkERSCEFIAJBCGoiBiECIAUNAAsLIAAgBiABazYCECAAIAMgAXY2AgwgACAAKAIUIAFqNgIUIANBfyABdEF/c3EL2wEBBX8gAEGAK0EIECUhAiAAQc4rQQgQJSEDIABB1StBCBAlIQQgASAAQc4rQQgQJSACIAJBBW0iBUF7bGpBA2xqQQF0IgJB4ipqLgEAIAJB4CpqLgEAIgJrIgZB//8DcUGaM2xBEHYgBkEQdUGaM2xqIABB1StBCBAlQRF0QRB1QQFybCACaiIANgIEIAEgAyAFQQNsakEBdCICQeIqai4BACACQeAqai4BACICayIDQf//A3FBmjNsQRB2IANBEHVBmjNsaiAEQRF0QRB1QQFybCACaiAAazYCAAsQACABIABBmStBCBAlNgIAC70BAQN/IAIuAQIiBEEBTgRAIAIoAhggBEH//wNxIANsQQJtaiEFQQAhAwNAIAAgA0EBdGogBS0AACIEQQF2QQdxQQlsOwEAIAEgA2ogAigCFCACLgECQX9qIARBAXFsIANqai0AADoAACAAIANBAXIiBkEBdGogBEEFdkEJbDsBACABIAZqIAIoAhQgBiACLgECQX9qIARBBHZBAXFsamotAAA6AAAgBUEBaiEFIANBAmoiAyACLgECSA0ACwsLzgYBAX8jAEEwayIFJAAgAEHOFWoCfwJAIANFBEAgACACQQJ0akHkEmooAgBFDQELIAFBtStBCBAlQQJqDAELIAFBuStBCBAlCyIDQQFxOgAAIABBzRVqIANBAXYiAzoAAAJAIARBAkYEQCAAIAFBgC1BCBAlOgCwFQwBCyAAIAEgA0EYdEEVdUHgLGpBCBAlQQN0OgCwFSAAIAFB4CtBCBAlIAAtALAVajoAsBULIAAoApQSQQJOBEBBASEDA0AgACADakGwFWogAUGALUEIECU6AAAgA0EBaiIDIAAoApQSSA0ACwsgAEG4FWogASAAKAKsFSIDKAIQIAMuAQAgACwAzRVBAXVsakEIECUiAzoAACAFQRBqIAUgACgCrBUgA0EYdEEYdRAqIAAoAqwVIgIuAQJBAU4EQEEAIQMDQAJAIAEgAigCHCAFQRBqIANBAXRqLgEAakEIECUiAkEISw0AAkACQCACQQFrDggCAgICAgICAQALQQAgAUHoK0EIECVrIQIMAQsgAUHoK0EIECVBCGohAgsgACADQQFqIgNqQbgVaiACQXxqOgAAIAMgACgCrBUiAi4BAkgNAAsLQQQhAyAAQc8VaiAAKAKUEkEERgR/IAFBuytBCBAlBSADCzoAACAALQDNFUECRgRAAkACQCAEQQJHDQAgACgC3BJBAkcNACABQZAOQQgQJSIDQRB0QQFIDQAgAEHKFWogAyAALwHgEmpBd2oiAjsBAAwBCyAAQcoVaiIDIAFB8A1BCBAlIAAoAowSQQF2bDsBACADIAEgACgCzBJBCBAlIAMvAQBqIgI7AQALIAAgAjsB4BIgAEHMFWogASAAKALQEkEIECU6AAAgAEHQFWogAUGpLUEIECUiAjoAAEEBIQMCQCAAKAKUEkEBSA0AIABBtBVqIAEgAkEYdEEWdUHwLWooAgBBCBAlOgAAIAAoApQSQQJIDQADQCAAIANqQbQVaiABIAAsANAVQQJ0QfAtaigCAEEIECU6AAAgA0EBaiIDIAAoApQSSA0ACwtBACEDIABB0RVqIAQEfyADBSABQbIrQQgQJQs6AAALIAAgACwAzRU2AtwSIABB0hVqIAFB0StBCBAlOgAAIAVBMGokAAtFACAAQoCAgICAgICAgH83AhggAEKAgICAkAQ3AhAgAEIANwIIIAAgATYCACAAQgA3AiAgAEL/////DzcCKCAAIAI2AgQLkgMBAn8gACgCHCIFIANuIQQgAAJ/IAEEQCAAIAAoAiAgBCABIANrbCAFamo2AiAgBCACIAFrbAwBCyAFIAQgAyACa2xrCyIDNgIcIANBgICABE0EQCAAKAIgIQEDQAJAIAFBF3YiBUH/AUcEQCABQR92IQMgACgCKCIEQQBOBEBBfyEBIAAgACgCGCICIAAoAghqIAAoAgRJBH8gACACQQFqNgIYIAAoAgAgAmogAyAEajoAAEEABSABCyAAKAIscjYCLAsgACgCJCIBBEAgA0F/aiECA0BBfyEDIAAgACgCGCIEIAAoAghqIAAoAgRJBH8gACAEQQFqNgIYIAAoAgAgBGogAjoAAEEAIQMgACgCJAUgAQtBf2oiATYCJCAAIAAoAiwgA3I2AiwgAQ0ACwsgACAFQf8BcTYCKCAAKAIcIQMgACgCICEBDAELIAAgACgCJEEBajYCJAsgACADQQh0IgM2AhwgACABQQh0QYD+//8HcSIBNgIgIAAgACgCFEEIajYCFCADQYGAgARJDQALCwuSAwEDfyAAKAIcIgRBD3YhAyAAAn8gAQRAIAAgACgCICADIAFBgIACa2wgBGpqNgIgIAMgAiABa2wMAQsgBCADQYCAAiACa2xrCyIDNgIcIANBgICABE0EQCAAKAIgIQEDQAJAIAFBF3YiBEH/AUcEQCABQR92IQMgACgCKCICQQBOBEAgACAAKAIYIgUgACgCCGogACgCBEkEfyAAIAVBAWo2AhggACgCACAFaiACIANqOgAAQQAFQX8LIAAoAixyNgIsCyAAKAIkIgEEQCADQX9qIQUDQEF/IQMgACAAKAIYIgIgACgCCGogACgCBEkEfyAAIAJBAWo2AhggACgCACACaiAFOgAAQQAhAyAAKAIkBSABC0F/aiIBNgIkIAAgACgCLCADcjYCLCABDQALCyAAIARB/wFxNgIoIAAoAhwhAyAAKAIgIQEMAQsgACAAKAIkQQFqNgIkCyAAIANBCHQiAzYCHCAAIAFBCHRBgP7//wdxIgE2AiAgACAAKAIUQQhqNgIUIANBgYCABEkNAAsLC/0CAQN/IAAoAhwiAyADIAJ2IgNrIQIgAQRAIAAgACgCICACajYCIAsgACADIAIgARsiAjYCHCACQYCAgARNBEAgACgCICEBA0ACQCABQRd2IgVB/wFHBEAgAUEfdiECIAAoAigiA0EATgRAQX8hASAAIAAoAhgiBCAAKAIIaiAAKAIESQR/IAAgBEEBajYCGCAAKAIAIARqIAIgA2o6AABBAAUgAQsgACgCLHI2AiwLIAAoAiQiAQRAIAJBf2ohBANAQX8hAiAAIAAoAhgiAyAAKAIIaiAAKAIESQR/IAAgA0EBajYCGCAAKAIAIANqIAQ6AABBACECIAAoAiQFIAELQX9qIgE2AiQgACAAKAIsIAJyNgIsIAENAAsLIAAgBUH/AXE2AiggACgCHCECIAAoAiAhAQwBCyAAIAAoAiRBAWo2AiQLIAAgAkEIdCICNgIcIAAgAUEIdEGA/v//B3EiATYCICAAIAAoAhRBCGo2AhQgAkGBgIAESQ0ACwsLqAMBAn8gACgCHCIEIAN2IQMgAAJ/IAFBAU4EQCAAIAAoAiAgBGogAyABIAJqIgFBf2oiAi0AAGxrNgIgIAItAAAgAS0AAGsgA2wMAQsgBCADIAEgAmotAABsawsiAzYCHCADQYCAgARNBEAgACgCICEBA0ACQCABQRd2IgVB/wFHBEAgAUEfdiEDIAAoAigiAkEATgRAQX8hASAAIAAoAhgiBCAAKAIIaiAAKAIESQR/IAAgBEEBajYCGCAAKAIAIARqIAIgA2o6AABBAAUgAQsgACgCLHI2AiwLIAAoAiQiAQRAIANBf2ohBANAQX8hAyAAIAAoAhgiAiAAKAIIaiAAKAIESQR/IAAgAkEBajYCGCAAKAIAIAJqIAQ6AABBACEDIAAoAiQFIAELQX9qIgE2AiQgACAAKAIsIANyNgIsIAENAAsLIAAgBUH/AXE2AiggACgCHCEDIAAoAiAhAQwBCyAAIAAoAiRBAWo2AiQLIAAgA0EIdCIDNgIcIAAgAUEIdEGA/v//B3EiATYCICAAIAAoAhRBCGo2AhQgA0GBgIAESQ0ACwsL+wEBBX8gAkF/aiIDQYACTwRAIAAgAUEYIANnayIEdiICIAJBAWogAyAEdkEBahAtQX8gBHRBf3MgAXEhBiAAKAIMIQICQCAAKAIQIgEgBGoiA0EhSQRAIAEhBQwBCwNAQX8hAyAAIAAoAggiBSAAKAIYaiAAKAIEIgdJBH8gACAFQQFqIgM2AgggACgCACAHIANraiACOgAAQQAFIAMLIAAoAixyNgIsIAJBCHYhAiABQQ9KIQMgAUF4aiIFIQEgAw0ACyAEIAVqIQMLIAAgAzYCECAAIAYgBXQgAnI2AgwgACAAKAIUIARqNgIUDwsgACABIAFBAWogAhAtC7QBAQV/IAAoAgwhBQJAIAAoAhAiBiACaiIDQSFJBEAgBiEEDAELA0BBfyEDIAAgACgCCCIEIAAoAhhqIAAoAgQiB0kEfyAAIARBAWoiAzYCCCAAKAIAIAcgA2tqIAU6AABBAAUgAwsgACgCLHI2AiwgBUEIdiEFIAZBD0ohAyAGQXhqIgQhBiADDQALIAIgBGohAwsgACADNgIQIAAgASAEdCAFcjYCDCAAIAAoAhQgAmo2AhQLkQEBA39BfyACdEF/c0EIIAJrIgR0IQMgACgCGARAIAAoAgAiACAALQAAIANBf3NxIAEgBHRyOgAADwsgACgCKCIFQQBOBEAgACAFIANBf3NxIAEgBHRyNgIoDwsgACgCHEGAgICAeCACdk0EQCAAIAAoAiAgA0EXdEF/c3EgAUEfIAJrdHI2AiAPCyAAQX82AiwLLQECfyAAKAIAIgMgAWogACgCCCICayADIAAoAgRqIAJrIAIQCBogACABNgIEC+MGAQd/AkACQEH/////ByAAKAIcIgJnIgR2IgEgACgCICIDakGAgICAeCAEdXEiBSABciACIANqTwRAIAFBAXYiASADaiABQX9zcSEFIARBAWohBAwBCyAERQ0BCyAEIQYDQAJAIAVBF3YiB0H/AUcEQCAFQR92IQMgACgCKCICQQBOBEBBfyEBIAAgACgCGCIEIAAoAghqIAAoAgRJBH8gACAEQQFqNgIYIAAoAgAgBGogAiADajoAAEEABSABCyAAKAIscjYCLAsgACgCJCIBBEAgA0F/aiEEA0BBfyEDIAAgACgCGCICIAAoAghqIAAoAgRJBH8gACACQQFqNgIYIAAoAgAgAmogBDoAAEEAIQMgACgCJAUgAQtBf2oiATYCJCAAIAAoAiwgA3I2AiwgAQ0ACwsgACAHQf8BcTYCKAwBCyAAIAAoAiRBAWo2AiQLIAVBCHRBgP7//wdxIQUgBkEISiEBIAZBeGoiBCEGIAENAAsLQX8hAQJAAkACQCAAKAIoIgNBf0wEQCAAKAIkIgENAQwDCyAAIAAoAhgiAiAAKAIIaiAAKAIESQR/IAAgAkEBajYCGCAAKAIAIAJqIAM6AABBAAUgAQsgACgCLHI2AiwgACgCJCIBRQ0BCwNAQX8hAyAAIAAoAhgiAiAAKAIIaiAAKAIESQR/IAAgAkEBajYCGCAAKAIAIAJqQf8BOgAAQQAhAyAAKAIkBSABC0F/aiIBNgIkIAAgACgCLCADcjYCLCABDQALCyAAQQA2AigLIAAoAgwhAwJAIAAoAhAiBUEHTARAIAAoAiwhBgwBCyAFIQEDQEF/IQIgACAAKAIIIgUgACgCGGogACgCBCIGSQR/IAAgBUEBaiICNgIIIAAoAgAgBiACa2ogAzoAAEEABSACCyAAKAIsciIGNgIsIANBCHYhAyABQQ9KIQIgAUF4aiIFIQEgAg0ACwsCQCAGDQAgACgCGCIBIAAoAgBqQQAgACgCBCABayAAKAIIaxAEGiAFQQFIDQAgACgCCCIBIAAoAgQiAk8EQCAAQX82AiwPCwJAIAVBACAEayIETA0AIAAoAhggAWogAkkNACAAQX82AiwgA0F/IAR0QX9zcSEDCyAAKAIAIAIgAUF/c2pqIgAgAC0AACADcjoAAAsLygQBD38gASgCPCABKAI4aiIJIAEoAjQgASgCMGoiAmoiCiABKAIsIAEoAihqIgsgASgCJCABKAIgaiIDaiIEaiIMIAEoAhwgASgCGGoiDSABKAIUIAEoAhBqIgVqIg4gASgCDCABKAIIaiIPIAEoAgQgASgCAGoiBmoiB2oiCGoiEEEBTgRAIAAgCCAQQZA6ai0AAEHwOGpBCBAwCyAIQQFOBEAgACAHIAhBkDpqLQAAQdA3akEIEDALIAdBAU4EQCAAIAYgB0GQOmotAABBsDZqQQgQMAsgBkEBTgRAIAAgASgCACAGQZA6ai0AAEGQNWpBCBAwCyAPQQFOBEAgACABKAIIIA9BkDpqLQAAQZA1akEIEDALIA5BAU4EQCAAIAUgDkGQOmotAABBsDZqQQgQMAsgBUEBTgRAIAAgASgCECAFQZA6ai0AAEGQNWpBCBAwCyANQQFOBEAgACABKAIYIA1BkDpqLQAAQZA1akEIEDALIAxBAU4EQCAAIAQgDEGQOmotAABB0DdqQQgQMAsgBEEBTgRAIAAgAyAEQZA6ai0AAEGwNmpBCBAwCyADQQFOBEAgACABKAIgIANBkDpqLQAAQZA1akEIEDALIAtBAU4EQCAAIAEoAiggC0GQOmotAABBkDVqQQgQMAsgCkEBTgRAIAAgAiAKQZA6ai0AAEGwNmpBCBAwCyACQQFOBEAgACABKAIwIAJBkDpqLQAAQZA1akEIEDALIAlBAU4EQCAAIAEoAjggCUGQOmotAABBkDVqQQgQMAsLnQcBBH8gAAJ/AkAgAkEBSA0AIAIgASACQZA6ai0AAEHwOGpBCBAlIgNrIQQgA0EQdCICQQFIBEBBACEDDAELIAJBEHUiAiABIAJBkDpqLQAAQdA3akEIECUiBmshAyAGQRB0IgJBAEwNACACQRB1IgIgASACQZA6ai0AAEGwNmpBCBAlIgZrIQUgBkEQdCICQQFIDQAgACABIAJBEHUiAkGQOmotAABBkDVqQQgQJSIGOwEAIAIgBmsMAQsgAEEAOwEAQQALOwECIAACfyAFQRB0IgJBAU4EQCAAIAEgAkEQdSICQZA6ai0AAEGQNWpBCBAlIgU7AQQgAiAFawwBCyAAQQA7AQRBAAs7AQZBACECIAACfwJAIANBEHQiA0EATARAIABBCGohBQwBCyAAQQhqIQUgA0EQdSICIAEgAkGQOmotAABBsDZqQQgQJSIDayECIANBEHQiA0EBSA0AIAUgASADQRB1IgNBkDpqLQAAQZA1akEIECUiBjsBACADIAZrDAELIAVBADsBAEEACzsBCiAAAn8gAkEQdCICQQFOBEAgACABIAJBEHUiAkGQOmotAABBkDVqQQgQJSIDOwEMIAIgA2sMAQsgAEEAOwEMQQALOwEOQQAhA0EAIQIgAAJ/AkACQCAEQRB0IgRBAU4EQCAEQRB1IgIgASACQZA6ai0AAEHQN2pBCBAlIgRrIQIgBEEQdCIEQQBKDQELIABBEGohBQwBCyAAQRBqIQUgBEEQdSIDIAEgA0GQOmotAABBsDZqQQgQJSIEayEDIARBEHQiBEEBSA0AIAUgASAEQRB1IgRBkDpqLQAAQZA1akEIECUiBjsBACAEIAZrDAELIAVBADsBAEEACzsBEiAAAn8gA0EQdCIDQQFOBEAgACABIANBEHUiA0GQOmotAABBkDVqQQgQJSIEOwEUIAMgBGsMAQsgAEEAOwEUQQALOwEWQQAhAyAAAn8CQCACQRB0IgJBAEwEQCAAQRhqIQQMAQsgAEEYaiEEIAJBEHUiAiABIAJBkDpqLQAAQbA2akEIECUiBWshAyAFQRB0IgJBAUgNACAEIAEgAkEQdSICQZA6ai0AAEGQNWpBCBAlIgU7AQAgAiAFawwBCyAEQQA7AQBBAAs7ARogA0EQdCICQQFOBEAgACABIAJBEHUiAkGQOmotAABBkDVqQQgQJSIBOwEcIAAgAiABazsBHg8LIABBADsBHCAAQQA7AR4LxwEBA38jAEEQayIGJAAgBkEAOgAPIAJBCE4EQCADQQF0IARqQRB0QRB1QQdsQbA6aiEIIAJBCGpBBHUiAkEBIAJBAUobIQMDQCAFIAdBAnRqKAIAIgJBAU4EQCAGIAggAkEfcSICQQYgAkEGSRtqLQAAOgAOQQAhAgNAIAEgAmotAAAiBARAIAAgBEEYdEEfdUEBaiAGQQ5qQQgQMAsgAkEBaiICQRBHDQALCyABQRBqIQEgB0EBaiIHIANHDQALCyAGQRBqJAAL0wEBA38jAEEQayIGJAAgBkEAOgAPIAJBCE4EQCADQQF0IARqQRB0QRB1QQdsQbA6aiEIIAJBCGpBBHUiAkEBIAJBAUobIQMDQCAFIAdBAnRqKAIAIgJBAU4EQCAGIAggAkEfcSICQQYgAkEGSRtqLQAAOgAOQQAhAgNAIAEgAkEBdGoiBC4BAEEBTgRAIAQgACAGQQ5qQQgQJUEBdEF/aiAELwEAbDsBAAsgAkEBaiICQRBHDQALCyABQSBqIQEgB0EBaiIHIANHDQALCyAGQRBqJAALxAMBCn8jAEGgAWsiByQAIAAgAkEBdUEJbEHQNGpBCBAlIQUgBEEEdSAEQXBxIARIaiILQQFOBEAgBUESbEHgMWohDANAQQAhBSAHIAhBAnQiBmoiDUEANgIAIAdB0ABqIAZqIgkgACAMQQgQJSIGNgIAIAZBEUYEQANAIAkgACAFQQFqIgVBCkZBgjNqQQgQJSIGNgIAIAZBEUYNAAsgDSAFNgIACyAIQQFqIgggC0cNAAtBACEFA0AgASAFQRB0QQt1aiEGAkAgB0HQAGogBUECdGooAgAiCUEBTgRAIAYgACAJEDcMAQsgBkIANwEAIAZCADcBGCAGQgA3ARAgBkIANwEICyAFQQFqIgUgC0cNAAsDQCAHIApBAnQiDmooAgAiCUEBTgRAIAEgCkEQdEELdWohDEEAIQgDQCAMIAhBAXRqIg0uAQAhBUEAIQYDQCAAQbArQQgQJSAFQQF0aiEFIAZBAWoiBiAJRw0ACyANIAU7AQAgCEEBaiIIQRBHDQALIAdB0ABqIA5qIgUgBSgCACAJQQV0cjYCAAsgCkEBaiIKIAtHDQALCyAAIAEgBCACIAMgB0HQAGoQOSAHQaABaiQAC2UBAn8CQEEYIABnIgFrIgJFDQAgAEH/AE0EQCAAIAFBaGp0IABBOCABa3ZyIQAMAQsgACABQQhqdCAAIAJ2ciEACyAAQf8AcSIAIAFBB3RrIABBgAEgAGtsQbMBbEEQdmpBgB9qC3MBA38Cf0EAIABBAEgNABpB/////wcgAEH+HkoNABogAEH/AHEhAUEBIABBB3YiA3QhAiAAQf8PTAR/IAFBgAEgAWtsQdJ+bEEQdSABaiADdEEHdQUgAUGAASABa2xB0n5sQRB1IAFqIAJBB3ZsCyACagsLzQMBB38gBEEBTgRAA0AgASAJQQJ0aiIKKAIAEDsaIAAgCWoiBiAKKAIAEDtBEHRBgIDYvn9qQRB1QcsRbCIHQRB2IgU6AAAgB0EIdEEYdSACLAAASARAIAYgBUEBaiIFOgAACyAGIAVBACAFQRh0QRh1QQBKGyIFQT8gBUEYdEEYdUE/SBsiBzoAACACLAAAIQUCQCADIAlyRQRAIAYgBUF8aiIIQT8gCCAHQf8BcSIHSBsgCCAHIAggB0obIAVBwwBKGyIFOgAAIAIgBToAAAwBCyAGIAcgBWsiBToAACACLAAAIghBCGoiByAFQRh0QRh1IgtIBEAgBiALIAhrQfkDakEBdiAHaiIFOgAACyAGIAVBfCAFQRh0QRh1QXxKGyIFQSQgBUEYdEEYdUEkSBsiBToAACACAn8gByAFQRh0QRh1IghIBEAgAiACLQAAIAhBAXQgB2tqIgU6AAAgBUE/IAVBGHRBGHVBP0gbDAELIAItAAAgBWoLOgAAIAYgBi0AAEEEajoAACACLQAAIQULIAogBUEYdEEYdSIGQfE4bEEQdSAGQR1saiIGQdUOIAZB1Q5IG0GqEGoQPDYCACAJQQFqIgkgBEcNAAsLC8cBAQR/IARBAU4EQANAIAEgBmosAAAhBSACAn8gAyAGckUEQCAFIAIsAABBcGoiByAHIAVIGwwBCyAFQXxqIgUgAiwAACIHQQhqIghKBEAgByAFQQF0IAhragwBCyAFIAdqCyIFQQAgBUEYdEEYdUEAShsiBUE/IAVBGHRBGHVBP0gbIgU6AAAgACAGQQJ0aiAFQf8BcSIFQfE4bEEQdiAFQR1saiIFQdUOIAVB1Q5JG0GqEGoQPDYCACAGQQFqIgYgBEcNAAsLCy0BAn8gAUEBTgRAA0AgACADaiwAACACQQh0aiECIANBAWoiAyABRw0ACwsgAguBAwEIfwJAIANBAEwNAANAIAEgBEECdGogBDYCACAEQQFqIgQgA0cNAAtBASEGIANBAUwNAANAIAAgBkECdGooAgAhCCAGIQQCQANAIAggACAEQX9qIgdBAnQiBWooAgAiCk4NASAAIARBAnQiCWogCjYCACABIAlqIAEgBWooAgA2AgAgBEEBSiEFIAchBCAFDQALQQAhBAsgACAEQQJ0IgRqIAg2AgAgASAEaiAGNgIAQQEhCCAGQQFqIgYgA0cNAAsLIAMgAkgEQCADQX5qIQsgA0ECdCAAakF8aiEGA0AgACADQQJ0aigCACIJIAYoAgBIBEAgCyIEIQUCQCAIRQ0AA0AgCSAAIARBAnQiB2ooAgAiBU4EQCAEIQUMAgsgACAHQQRqIgpqIAU2AgAgASAKaiABIAdqKAIANgIAQX8hBSAEQQBKIQcgBEF/aiEEIAcNAAsLIAAgBUECdEEEaiIEaiAJNgIAIAEgBGogAzYCAAsgA0EBaiIDIAJHDQALCwt6AQV/IAFBAk4EQEEBIQMDQCAAIANBAXRqLgEAIQUgAyECAkADQCAFIAAgAkF/aiIGQQF0ai4BACIETg0BIAAgAkEBdGogBDsBACACQQFKIQQgBiECIAQNAAtBACECCyAAIAJBAXRqIAU7AQAgA0EBaiIDIAFHDQALCwv5BQEOfyABIAJBAXRqIQsgACACQX9qIg1BAXRqIQkgAkECSCEOAkADQCAALgEAIgYgAS4BACIIayEDQQEhBEEAIQUgDkUEQANAIAZBEHQhByAAIARBAXQiCmouAQAiBiAHQRB1ayABIApqLgEAayIHIAMgByADSCIHGyEDIAQgBSAHGyEFIARBAWoiBCACRw0ACwtBgIACIAsuAQAiBiAJLgEAamsiBCADIAQgA0giBBtBf0oNAQJAIAIgBSAEGyIDRQRAIAAgCDsBAAwBCwJAAkAgAiADRwRAIANBAU4NAUEAIQgMAgsgCUGAgH4gBms7AQAMAgtBASEEIANBAUYNAANAIAggASAEQQF0ai4BAGohCCAEQQFqIgQgA0cNAAsLIAggASADQQF0Ig9qIhAuAQBBAXUiCmohB0GAgAIhBQJAIAMgAk4NAEGAgAIgBmshBSANIgQgA0wNAANAIAUgASAEQQF0ai4BAGshBSAEQX9qIgQgA0oNAAsLIAAgD2oiBC4BACAEQX5qIgguAQBqIgNBAXUgA0EBcWohAyAIAn8gByAFIAprIgVKBEAgByADIAdKDQEaIAUgAyADIAVIGwwBCyAFIAMgBUoNABogByADIAMgB0gbCyAKayIDOwEAIAQgAyAQLwEAajsBAAsgDEEBaiIMQRRHDQALIAAgAhBBIAAgAC4BACIEIAEuAQAiAyAEIANKGyIDOwEAIAJBAkgiB0UEQEEBIQQDQCAAIARBAXQiBWoiBiAGLgEAIgYgASAFai4BACADQRB0QRB1aiIDQf//ASADQf//AUgbIgNBgIB+IANBgIB+ShsiAyAGIANKGyIDOwEAIARBAWoiBCACRw0ACwsgCSAJLgEAIgRBgIACIAsuAQBrIgMgAyAEShsiAzsBACAHDQAgAkF+aiEEA0AgACAEQQF0IgVqIgYgBi4BACIGIANBEHRBEHUgASAFai4BAmsiAyADIAZKGyIDOwEAIARBAEohBSAEQX9qIQQgBQ0ACwsLzgIBCX8jAEHQAGsiBiQAIAZBIGogBkFAayACIAEsAAAQKiACLwECIgNBEHRBEHUiCEEBSCILRQRAIAIuAQQhCQNAIAYgA0F/aiIEQQF0aiABIANqLAAAIgVBCnQiB0Gaf2ogB0HmAHIgByAFQQBIGyAFQQBKGyIFQRB1IAlsIAZBQGsgBGotAAAgCkEQdEEQdWxBCHVqIAVB/v8DcSAJbEEQdWoiCjsBACADQQFKIQUgBCEDIAUNAAsLIAtFBEAgASwAACAIbCIDIAIoAghqIQUgAigCDCADQQF0aiEHQQAhAwNAIAAgA0EBdCIEaiAEIAZqLgEAQQ50IAQgB2ouAQBtIAMgBWotAABBB3RqIgRBACAEQQBKGyIEQf//ASAEQf//AUgbOwEAIANBAWoiAyACLgECIghIDQALCyAAIAIoAiQgCBBCIAZB0ABqJAALyAEBBn8gBEEBTgRAQYA7Qdo6IARBBEYiBRtBsDtB4DogBRsgA0EIRiIGGyEHQQtBAyAFG0EiQQwgBRsgBhshCCADQRB0IgVBD3UiBiAAaiEJIAVBEHVBEmwhAEEAIQUDQCACIAVBAnRqIgogCSAHIAUgCGwgAWpqLAAAaiIDNgIAIAoCfyAGIABKBEAgBiADIAZKDQEaIAAgAyADIABIGwwBCyAAIAMgAEoNABogBiADIAMgBkgbCzYCACAFQQFqIgUgBEcNAAsLC8gEAQd/IwBBQGoiAyQAIAFBEGogAEGwFWogAEGIEmogAkECRiAAKAKUEhA+IANBIGogAEG4FWogACgCrBUQQyABQUBrIgkgA0EgaiAAKAKkEiAAKALIIBAMIAFBIGohBwJAAkAgACgCyBJBAUYEQCAAQQQ6AM8VDAELIAAsAM8VIghBA0oNACAAKAKkEiIGQQFOBEBBACECA0AgAyACQQF0IgRqIAAgBGpBqBJqLgEAIgUgA0EgaiAEai4BACAFayAIbEECdmo7AQAgAkEBaiICIAZHDQALCyAHIAMgBiAAKALIIBAMDAELIAcgCSAAKAKkEkEBdBAFGgsgAEGoEmogA0EgaiAAKAKkEiICQQF0EAUaIAAoAsAgBEAgByACQdLwAxAPIAkgACgCpBJB0vADEA8LIAECfyAAQc0Vai0AAEECRgRAIABByhVqLgEAIABBzBVqLAAAIAEgACgCjBIgACgClBIQRCAAKAKUEiIIQQFOBEAgAEHQFWosAABBAnRB8DBqKAIAIQZBACEFA0AgASAFQQpsaiICIAYgACAFakG0FWosAABBBWxqIgQsAABBB3Q7AWAgAiAELAABQQd0OwFiIAIgBCwAAkEHdDsBZCACIAQsAANBB3Q7AWYgAiAELAAEQQd0OwFoIAVBAWoiBSAIRw0ACwsgAEHRFWosAABBAXRByCtqLgEADAELIAFBACAAKAKUEkECdBAEQeAAakEAIAAoApQSQQpsEAQaIABB0BVqQQA6AABBAAs2AogBIANBQGskAAvlFwEgfyMAQSBrIgghGCAIJAAgCCAAKAKgEkEBdEEPakFwcWsiGSIIJAAgCCAAKAKYEiIFIAAoAqASakECdEEPakFwcWsiFCIIJAAgCCAAKAKcEkECdCIGQQ9qQXBxayIaIggkACAIIAZBzwBqQXBxayINJAAgAEHPFWosAAAhECAFQQFOBEAgACwAzRVBAXRBfHEgAEHOFWosAABBAXRqQcArai4BAEEEdCELIABB0hVqLAAAIQdBACEFA0AgACAFQQJ0akEEaiIKIAMgBUEBdGouAQAiBkEOdCIINgIAIAdBtYjO3QBsQevG5bADaiEHAkAgCiAGQQFOBH8gCEGAdmoFIAZBf0oNASAIQYAKcgsiCDYCAAsgCkEAIAggC2oiCGsgCCAHQQBIGzYCACAGIAdqIQcgBUEBaiIFIAAoApgSSA0ACwsgDSAAKQKECjcCACANQThqIhsgAEG8CmopAgA3AgAgDUEwaiIcIABBtApqKQIANwIAIA1BKGoiHSAAQawKaikCADcCACANQSBqIh4gAEGkCmopAgA3AgAgDUEYaiIfIABBnApqKQIANwIAIA1BEGoiICAAQZQKaikCADcCACANQQhqIiEgAEGMCmopAgA3AgAgACgClBJBAU4EQCAAQQRqIRUgACgCoBIhEyAQQQNKISIgAiEWA0AgGCABIBFBBHRBYHFqQSBqIhcgACgCpBJBAXQQBSEIQf////8BIAEgEUECdGoiCSgCECISIBIgEkEfdSIFaiAFcyIKZyIDQX9qdCIHQRB1IgZtIgVBD3VBAWpBAXVBACAFQRB0IgtBEHUiBSAHQf//A3FsQRB1IAUgBmxqQQN0ayIGbCALaiAGQRB1IAVsaiAGQfj/A3EgBWxBEHVqIQYgEUEKbCELIAAtAM0VIRACfyAKQf//B00EQAJ/QYCAgIB4IANBcWoiCnUiDEH/////ByAKdiIOSgRAIAwgBiAMSg0BGiAOIAYgBiAOSBsgCnQMAwsgDiAGIA5KDQAaIAwgBiAGIAxIGwsgCnQMAQsgBkEPIANrdQshDiABIAtqIQxBgIAEIQogACgCACIGIBJHBEAgBiAGIAZBH3UiCmogCnNnIgpBf2p0IgYgBkEQdSAFbCAGQf//A3EgBWxBEHVqIgasIAesfkIdiKdBeHFrIgdBEHUgBWwgBmogB0H//wNxIAVsQRB1aiEGAn8gCiADa0EdaiIFQQ9MBEACf0GAgICAeEEQIAVrIgV1IgdB/////wcgBXYiCkoEQCAHIAYgB0oNARogCiAGIAYgCkgbIAV0DAMLIAogBiAKSg0AGiAHIAYgBiAHSBsLIAV0DAELIAYgBUFwanVBACAFQTBIGwsiCkH//wNxIQMgCkEQdSELQQAhBQNAIA0gBUECdGoiBiAGKAIAIgZBEHRBEHUiByADbEEQdSAHIAtsaiAGQQ91QQFqQQF1IApsajYCACAFQQFqIgVBEEcNAAsLIAxB4ABqIQwgACASNgIAAkACfwJAAkAgACgCwCBFDQAgACgCxCBBAkcNACARQQFLDQAgEEH/AXFBAkYNACAMQgA3AQAgDEEAOwEIIAxBgCA7AQQgCSAAKAKEEiIPNgIADAELIBBB/wFxQQJHBEAgACgCnBIhDiAVDAILIAkoAgAhDwsCQAJAIBEEQAJAICINACARQQJHDQAgACgCpBIhBSAAIAAoAqASIgZBAXRqQcQKaiACIAAoApwSQQJ0EAUaIAYgD2sgBWshBSAAKAKkEiEGIAAoAqASIQcMAgsgCkGAgARGDQIgD0F/SA0CIA9BAWohAyAKQf//A3EhCyAKQRB1IRBBACEFA0AgFCATIAVBf3NqQQJ0aiIGIAYoAgAiBkEQdEEQdSIHIAtsQRB1IAcgEGxqIAZBD3VBAWpBAXUgCmxqNgIAIAMgBUchBiAFQQFqIQUgBg0ACwwCCyAAKAKgEiIHIA9rIAAoAqQSIgZrIQULIBkgBUF+aiIFQQF0aiAAIAAoApwSIBFsIAVqQQF0akHECmogFyAHIAVrIAYgBBAQIBFFBEAgAS4BiAEiBSAOQf//A3FsQRB1IAUgDkEQdWxqQQJ0IQ4LIA9Bf0gNACAPQQFqIQcgDkH//wNxIQogDkEQdSEDIAAoAqASIQtBACEFA0AgFCATIAVBf3MiBmpBAnRqIAogGSAGIAtqQQF0ai4BACIGbEEQdSADIAZsajYCACAFIAdGIQYgBUEBaiEFIAZFDQALCyAAKAKcEiIOQQFIDQEgEyAPa0ECdCAUakEIaiEFIAwuAQghCiAMLgEGIQMgDC4BBCELIAwuAQIhECAMLgEAIQxBACEGIBMhBwNAIBogBkECdCIPaiAPIBVqKAIAIAUoAgAiCUEQdSAMbCAJQf//A3EgDGxBEHVqIAVBfGooAgAiCUEQdSAQbGogCUH//wNxIBBsQRB1aiAFQXhqKAIAIglBEHUgC2xqIAlB//8DcSALbEEQdWogBUF0aigCACIJQRB1IANsaiAJQf//A3EgA2xBEHVqIAVBcGooAgAiCUEQdSAKbGogCUH//wNxIApsQRB1akEBdGpBBGoiDzYCACAUIAdBAnRqIA9BAXQ2AgAgB0EBaiEHIAVBBGohBSAGQQFqIgYgDkcNAAsgDiATaiETIBoLIRcgDkEBSA0AIBJBBnZBEHRBEHUhDCAAKAKkEiIjQQF1ISQgEkEVdUEBakEBdSESIA0oAhghByANKAIgIQogDSgCKCEDIA0oAjAhCyANKAI8IQVBACEGA0AgCC4BACIQIAVBEHVsICRqIAVB//8DcSAQbEEQdWogCC4BAiIJIAZBAnQiDyANaiIFKAI4IhBBEHVsaiAQQf//A3EgCWxBEHVqIAguAQQiCSAFKAI0IhBBEHVsaiAQQf//A3EgCWxBEHVqIAguAQYiCSALQRB1bGogC0H//wNxIAlsQRB1aiAILgEIIgkgBSgCLCILQRB1bGogC0H//wNxIAlsQRB1aiAILgEKIgkgA0EQdWxqIANB//8DcSAJbEEQdWogCC4BDCIJIAUoAiQiA0EQdWxqIANB//8DcSAJbEEQdWogCC4BDiIJIApBEHVsaiAKQf//A3EgCWxBEHVqIAguARAiCSAFKAIcIgpBEHVsaiAKQf//A3EgCWxBEHVqIAguARIiCSAHQRB1bGogB0H//wNxIAlsQRB1aiEHICNBEEYEQCAHIAguARQiByAFKAIUIglBEHVsaiAJQf//A3EgB2xBEHVqIAguARYiCSAFKAIQIgdBEHVsaiAHQf//A3EgCWxBEHVqIAguARgiCSAFKAIMIgdBEHVsaiAHQf//A3EgCWxBEHVqIAguARoiCSAFKAIIIgdBEHVsaiAHQf//A3EgCWxBEHVqIAguARwiCSAFKAIEIgdBEHVsaiAHQf//A3EgCWxBEHVqIAguAR4iByAFKAIAIgVBEHVsaiAFQf//A3EgB2xBEHVqIQcLIA0gBkEQakECdGoCfyAHQYCAgEAgB0GAgIBAShsiBUH///8/IAVB////P0gbQQR0IgUgDyAXaigCACIHaiIPQQBOBEBBgICAgHggDyAFIAdxQQBIGwwBC0H/////ByAPIAUgB3JBf0obCyIFNgIAIBYgBkEBdGpB//8BQYCAfiAFQRB1IAxsIAUgEmxqIAVB//8DcSAMbEEQdWoiB0EHdkEBakEBdiAHQYD//3tIGyAHQf/+/wNKGzsBACAKIQcgAyEKIAshAyAQIQsgBkEBaiIGIA5HDQALCyANIA0gDkECdCIFaiIIKQIANwIAIBsgCCkCODcCACAcIAgpAjA3AgAgHSAIKQIoNwIAIB4gCCkCIDcCACAfIAgpAhg3AgAgICAIKQIQNwIAICEgCCkCCDcCACAWIA5BAXRqIRYgBSAVaiEVIBFBAWoiESAAKAKUEkgNAAsLIABBhApqIgAgDSkCADcCACAAIBspAgA3AjggACAcKQIANwIwIAAgHSkCADcCKCAAIB4pAgA3AiAgACAfKQIANwIYIAAgICkCADcCECAAICEpAgA3AgggGEEgaiQAC9YCAQN/IwBBkAFrIgckACAAKAKYEiEJIAciCEEANgKIAQJAAkAgBEECSw0AAkACQCAEQQFrDgICAAELIAAgACgC1BJBAnRqQfQSaigCAEEBRw0BCyAHIAlBD2pB8P///wdxQQF0ayIHJAAgACABIAAoAtQSIAQgBRArIAEgByAAQc0VaiIELAAAIABBzhVqLAAAIAAoApgSEDogACAIIAUQRSAAIAggAiAHIAYQRiAAIAggAkEAIAYQEyAAQQA2AsAgIABBADYCyBIgACAELAAANgLEIAwBCyAAIAggAkEBIAYQEwsgAEHECmoiBCAEIAAoApgSIgdBAXRqIAAoAqASIAdrQQF0IgQQCCAEaiACIAAoApgSQQF0EAUaIAAgCCACIAkQDiAAIAIgCRAWIAAgACgClBJBAnQgCGpBfGooAgA2AoQSIAMgCTYCACAIQZABaiQAQQALuwUBCn8gASAAKAEENgEAIAIgACgBCDYBACAAIAEgBUEBdCIHaigBADYBBCAAIAIgB2ooAQA2AQhBgIAEIARBA3QiB20hBiADKAIEIQogAygCACELIARBAU4EQCAGQRB0QRB1IgMgCiAALgECIghrQRB0QRB1bEEPdUEBakEBdSENIAMgCyAALgEAIglrQRB0QRB1bEEPdUEBakEBdSEOIAdBASAHQQFKGyEPQQAhAwNAIAIgA0EBaiIEQQF0IgZqIgxB//8BIAwuAQBBCHQgCCANaiIIQRB0QRB1IgwgASAGai4BACIGQQV1bGogBkELdEGA8ANxIAxsQRB1aiABIANBAXRqIgMuAQQgAy4BAGogBkEBdGoiA0EHdSAJIA5qIglBEHRBEHUiBmxqIANBCXRBgPwDcSAGbEEQdWoiA0EHdUEBakEBdSIGQYCAfiAGQYCAfkobIANB//7/A0obOwEAIA8gBCIDRw0ACwsgByAFSARAIApBEHRBEHUhBCALQRB0QRB1IQYDQCAHQQF0IQggAiAHQQFqIgdBAXQiA2oiCUH//wEgASADai4BACIDQQV1IARsIAkuAQBBCHRqIANBC3RBgPADcSAEbEEQdWogASAIaiIILgEEIAguAQBqIANBAXRqIgNBB3UgBmxqIANBCXRBgPwDcSAGbEEQdWoiA0EHdUEBakEBdSIIQYCAfiAIQYCAfkobIANB//7/A0obOwEAIAUgB0cNAAsLIAAgCjsBAiAAIAs7AQAgBUEBTgRAQQAhBwNAIAEgB0EBaiIHQQF0IgNqIgQgBC4BACIEIAIgA2oiAy4BACIGaiIIQf//ASAIQf//AUgbIghBgIB+IAhBgIB+Shs7AQAgAyAEIAZrIgRB//8BIARB//8BSBsiBEGAgH4gBEGAgH5KGzsBACAFIAdHDQALCwsNACAAQejCADYCAEEACzEBAX8gABAXGiAAQaghahAXIQEgAEHYwgBqQQA2AgAgAEIANwLQQiAAQQA2AuRCIAELshQBC38jAEGQBWsiDyQAIA8iCkEANgKMBSAKQgA3A4AFIAEoAgQhCQJAIANFDQAgCUEBSA0AA0AgACAIQaghbGpBADYC1BIgCEEBaiIIIAlHDQALCyAJIAAoAuBCSgRAIABBqCFqEBchDSABKAIEIQkLAkAgCUEBRw0AIAAoAuBCQQJHDQAgASgCDCAAKAKMEkHoB2xGIRALAkACQCAAKALUEg0AIAlBAUgNAEEAIQgDQEG1fiELAkAgASgCECIJQRRLBEAgCUEoRwRAIAlBPEcNBUEEIQNBAyEMDAILQQQhA0ECIQwMAQtBAiEDQQEhDAJAIAlBAWsOFAQEBAQEBAQEBAEEBAQEBAQEBAQAAQtBBCEDCyAAIAhBqCFsaiIJIAM2ApQSIAkgDDYC2BJBuH4hCyABKAIMQQp1IgNBD0sNAkEBIAN0QYCRAnFFDQIgCSADQQFqIAEoAggQHyANaiENIAhBAWoiCCABKAIEIglIDQALC0ECIQgCQCABKAIAIgNBAkcEQCADIQgMAQsgCUECRw0AIAAoAtxCQQFHBEBBAiEJIAAoAuBCQQFHDQELIABBADYC2EIgAEEANgLQQiAAQag0aiAAQYATakGsAhAFGiABKAIEIQkgASgCACEICyAAIAk2AuBCIAAgCDYC3EJBuH4hCyABKAIIQcBBakHAuAJLDQACQCACQQFGDQAgACgC1BINAAJAIAlBAUgNAANAIAAgDkGoIWxqIgsoAtgSIQNBACEIIARBARAkIQkgA0EASgRAIAtB2BJqIQwDQCALIAhBAnRqQeQSaiAJNgIAIAwoAgAhAyAEQQEQJCEJIAhBAWoiCCADSA0ACwsgCyAJNgLwEiAOQQFqIg4gASgCBCIJSA0AC0EAIQwgCUEATA0AA0AgACAMQaghbGoiCUIANwL0EiAJQfwSakEANgIAAkAgCSgC8BJFDQAgCSgC2BIiCEEBRgRAIAlB9BJqQQE2AgAMAQsgBCAIQQJ0QaAraigCAEEIECUhCCAJQdgSaigCACIDQQFIDQAgCEEBaiELQQAhCANAIAkgCEECdGpB9BJqIAsgCHZBAXE2AgAgCEEBaiIIIANHDQALCyAMQQFqIgwgASgCBCIJSA0ACwsgAg0AIAAoAtgSQQFIDQAgAEGcNGohEUEAIQsDQCAJQQFOBEAgC0F/aiEOIBEgC0ECdCIMaiESQQAhAwNAIAAgA0GoIWxqIgggDGpB9BJqKAIABEACQCADDQAgCUECRw0AIAQgCkGABWoQKCASKAIADQAgBCAKQYwFahApCyAIIAQgC0EBAn8gCwRAQQIgCCAOQQJ0akH0EmooAgANARoLQQALECsgBCAKIAhBzRVqLAAAIAhBzhVqLAAAIAgoApgSEDogASgCBCEJCyADQQFqIgMgCUgNAAsLIAtBAWoiCyAAKALYEkgNAAsLAkAgCUECRw0AAkACQCACQQJLDQACQAJAAkAgAkEBaw4CAwABCyAAIAAoAtQSQQJ0akH0EmooAgBBAUcNAiAEIApBgAVqECggACAAKALUEkECdGpBnDRqKAIADQEMAwsgBCAKQYAFahAoIAAgACgC1BJBAnRqQYw0aigCAEUNAgsgCkEANgKMBQwCCyAKIAAuAdBCNgKABSAKIAAuAdJCNgKEBQwBCyAEIApBjAVqECkLAkAgASgCBCIIQQJHDQAgCigCjAUNAEECIQggACgC5EJBAUcNACAAQawrakEAQYAIEAQaIABBADYC7EEgAEEKOgCwMyAAQeQANgKsMyAAQQE2AvAzIAEoAgQhCAtBASELIAoCfyAIIAEoAgxsIAEoAgAgASgCCGxOIg5FBEAgCiAFNgIAIAUhCSAAQZgSagwBCyAPIAAoApgSQQJqIAhsQQF0QQ9qQXBxayIJIg8kACAKIAk2AgAgAEGYEmoLKAIAQQF0IAlqQQRqIgw2AgQCQAJAIAJFBEAgCigCjAVFIQsMAQsgACgC5EJFDQAgASgCBCEIQQAhCyACQQJHDQEgCEECRw0BIAAgACgC/DNBAnRqQZw0aigCAEEBRiELCyABKAIEIQgLAkACQCAIQQFIDQAgACgC1BIiA0EASkEBdCEIAkAgA0EBSA0AIAJBAkcNACADQQJ0IABqQfASaigCAEEAR0EBdCEICyAAIAQgCigCAEEEaiAKQYgFaiACIAggBxBHIQNBASEIIAAgACgC1BJBAWo2AtQSIAMgDWohDSABKAIEIgNBAk4EQANAAkAgCwRAIAAgCEGoIWxqIAQgCiAIQQJ0aigCAEEEaiAKQYgFaiACAn9BACAAKALUEiAIayIDQQFIDQAaIAJBAkYEQCAAIAhBqCFsaiADQQJ0akHwEmooAgBBAEdBAXQMAQtBAUECIAAoAuRCGwsgBxBHIA1qIQ0MAQsgCiAIQQJ0aigCAEEEakEAIAooAogFQQF0EAQaCyAAIAhBqCFsaiIDIAMoAtQSQQFqNgLUEiAIQQFqIgggASgCBCIDSA0ACwsgA0ECRw0AIAEoAgBBAkcNACAAQdDCAGogCigCACIJIAwgCkGABWogACgCjBIgCigCiAUQSCAKKAKIBSELDAELIAkgACgC1EI2AQAgACAJIAooAogFIgtBAXRqKAEANgLUQgsgBiABKAIIIAtsIAAuAYwSQegHbG0iCDYCACAPIAhBASABKAIAIgxBAkYiAxtBAXRBD2pBcHFrIgQiDyQAIAEoAgQhCCAORQRAIA8gACgCmBIiDkECaiAIbEEBdCIHQQ9qQXBxayIJJAAgCiAJIAUgBxAFIg8gDkEBdGpBBGo2AgQgCiAPNgIACyAEIAUgAxshBAJAIAwgCCAMIAhIG0EBSA0AQQAhAwNAIAAgA0GoIWxqQYATaiAEIAlBAmogCxAeIQ4CQCABKAIAIgxBAkcNAEEAIQggBigCACILQQFIDQADQCAFIAhBAXQiCSADakEBdGogBCAJai8BADsBACAIQQFqIgggC0cNAAsLIA0gDmohDSADQQFqIgMgDCABKAIEIgggDCAISBtODQEgCiADQQJ0aigCACEJIAooAogFIQsMAAALAAsCQAJAAkAgDEECRw0AIAhBAUcNACAQDQFBACEIIAYoAgAiA0EATA0AA0AgBSAIQQJ0IglBAnJqIAUgCWovAQA7AQAgCEEBaiIIIANHDQALCyANIQsMAQsgAEGoNGogBCAKKAIAQQJqIAooAogFEB4gDWohCyAGKAIAIglBAUgNAEEAIQgDQCAFIAhBAnRBAnJqIAQgCEEBdGovAQA7AQAgCEEBaiIIIAlHDQALC0EAIQggASAAKALEIEECRgR/IAAoAowSQXhqQXxxQdw8aigCACAAKAKEEmwFIAgLNgIUAkAgAkEBRgRAIAAoAuBCIglBAUgNAQNAIAAgCEGoIWxqQQo6AIgSIAhBAWoiCCAJRw0ACwwBCyAAIAooAowFNgLkQgsLIApBkAVqJAAgCwtTAAJ/AkACQCAAQf/8AEwEQCAAQcA+Rg0BIABB4N0ARw0CQQQPCyAAQYD9AEcEQEEBIABBgPcCRg0DGiAAQcC7AUcNAkECDwtBAw8LQQYPC0EACwvNBQIFfwp9AkACQCAFQwAAAABcDQAgBkMAAAAAXA0AIAAgAUYNASAAIAEgBEECdBAIGg8LQQAhC0F+IANBDyADQQ9KGyIMayENIAxBf3MhDkEBIAxrIQ9BACAMayEQIAhBDGwiA0HYsAFqKgIAIAaUIRUgA0HUsAFqKgIAIAaUIRYgA0HQsAFqKgIAIAaUIRdBACAKIAcgCEYbIAogBSAGWxsgCiACQQ8gAkEPShsiCCAMRhsiA0EBTgRAIAdBDGwiCkHYsAFqKgIAIAWUIRggCkHUsAFqKgIAIAWUIRkgCkHQsAFqKgIAIAWUIRpBAiAMayEHIAEgD0ECdGoqAgAhESABIBBBAnRqKgIAIRIgASAOQQJ0aioCACETIAEgDUECdGoqAgAhBUEAIQoDQCAAIApBAnQiAmogBSABIAcgCmpBAnRqKgIAIhSSIBUgAiAJaioCACIFIAWUIgWUlCARIBOSIBYgBZSUIBIgFyAFlJQgASACaioCACABIAogCGtBAnRqIgIqAgAgGkMAAIA/IAWTIgWUlJIgGSAFlCACKgIEIAJBfGoqAgCSlJIgGCAFlCACKgIIIAJBeGoqAgCSlJKSkpI4AgAgEyEFIBIhEyARIRIgFCERIApBAWoiCiADRw0ACyADIQsLIAZDAAAAAFsEQCAAIAFGDQEgACADQQJ0IgpqIAEgCmogBCADa0ECdBAIGg8LIAQgC2siA0EBSA0AIAAgC0ECdCIKaiEAQQIgDGshCSABIApqIgIgDUECdGoqAgAhEyACIA5BAnRqKgIAIQUgAiAQQQJ0aioCACERIAIgD0ECdGoqAgAhEkEAIQoDQCAAIApBAnQiAWogFSATIAIgCSAKakECdGoqAgAiFJKUIBYgBSASkpQgFyARlCABIAJqKgIAkpKSOAIAIAUhEyARIQUgEiERIBQhEiAKQQFqIgogA0cNAAsLC4UBAQd/IAAoAggiBUEBTgRAIAMgAkEBdGpBf2ohByAAKAJoIQggACgCICIJLwEAIQYDQCAGQRB0IQogASAEQQJ0aiAIIAUgB2wgBGpqLQAAQUBrIAkgBEEBaiIEQQF0ai4BACIGIApBEHVrIAJ0IANsbEECdTYCACAEIAAoAggiBUgNAAsLCyUBAX9BybIBIQEgAEEHakEHTQR/QaCxASAAQQJ0aygCAAUgAQsLPwEBfyAAKAIUQQN0IAAoAhwiAGciAUEDdGogAEEQIAFrdiIAIABBDHYiAEECdEHAsgFqKAIAS2sgAGtBiH5qC+YBAQZ/AkAgASgCACIHRQRADAELQYCAASADa0Hg/wEgAmtsQQ92IQRBASEFAkAgB0EfdSIGIAdqIAZzIghBAkgNACAERQ0AA0AgBEEBdCIJIANsQQ92IQQgAiAJakECaiECIAggBUEBaiIFTA0BIAQNAAsLIARFBEAgASAFIAZqIAggBWsiBCAHQR92QYCAAnIgAmtBAXVBf2oiBSAEIAVIGyIEaiAGczYCACACIAZqIARBAXRBAXJqIgRBgIACRyECDAELIARBAWoiBSAGQX9zcSACaiEEIAUhAgsgACAEIAIgBGoQLgvlAQEGfwJAIAAQIiIGIAFJBEAgASEFDAELQQEhA0GAgAEgAmtB4P8BIAFrbEEPdiIEQQFqIQUCQCAERQ0AIAYgBUEBdCIHIAFqIghJDQADQCAIIQEgA0EBaiEDIAdBfmogAmxBD3YiBEEBaiEFIARFDQEgBiAFQQF0IgcgAWoiCE8NAAsLAn8gBEUEQCAGIAFrIgRBfnEgAWohASAEQQF2IANqIQMLQQAgA2sLIAMgBiABIAVqIgdJIggbIQQgASAHIAgbIQMLIAAgAyADIAVqIgFBgIACIAFBgIACSRtBgIACECMgBAudAwMDfwF+AnwCQAJAAkACQCAAvSIEQgBZBEAgBEIgiKciAUH//z9LDQELIARC////////////AINQBEBEAAAAAAAA8L8gACAAoqMPCyAEQn9VDQEgACAAoUQAAAAAAAAAAKMPCyABQf//v/8HSw0CQYCAwP8DIQJBgXghAyABQYCAwP8DRwRAIAEhAgwCCyAEpw0BRAAAAAAAAAAADwsgAEQAAAAAAABQQ6K9IgRCIIinIQJBy3chAwsgAyACQeK+JWoiAUEUdmq3IgVEAADg/kIu5j+iIARC/////w+DIAFB//8/cUGewZr/A2qtQiCGhL9EAAAAAAAA8L+gIgAgBUR2PHk17znqPaIgACAARAAAAAAAAABAoKMiBSAAIABEAAAAAAAA4D+ioiIGIAUgBaIiBSAFoiIAIAAgAESfxnjQCZrDP6JEr3iOHcVxzD+gokQE+peZmZnZP6CiIAUgACAAIABERFI+3xLxwj+iRN4Dy5ZkRsc/oKJEWZMilCRJ0j+gokSTVVVVVVXlP6CioKCioCAGoaCgIQALIAAL9gcCDH8DfSMAQeAAayIVIREgFSQAQQEhFwJAIAwNAEEAIRcgDg0AIA0qAgAgAiABayAJbCIMQQF0sl5BAXMNACAMIAtIIRcLIA0qAgAgBrOUIA+ylCAJQQl0spUhHyAJQQEgCUEBShshFiAAKAIIIRMDQCABIANIBEAgEiATbCEUIAEhDANAIB4gBCAMIBRqQQJ0Ig9qKgIAIAUgD2oqAgCTIh0gHZSSIR4gDEEBaiIMIANHDQALCyASQQFqIhIgFkcNAAsgCCgCFCEUIAgoAhwhEiARIAgpAhA3A1ggESAIKQIINwNQIBEgCCkCADcDSCAIKAIYIQMgESAIKQIkNwM4IBFBQGsgCCgCLDYCACARIAgpAhw3AzAgFSAJIBNsQQJ0QQ9qQXBxayIPIgwkACAMIAAoAgggCWxBAnQiE0EPakFwcWsiDCIWJAAgDyAFIBMQBSEPIAuyQwAAAD6UQwAAgEGWQwAAgEEgAiABa0EKShshHUEAIRVBACAOIBQgEmdqIhRBY2ogBksiEhsiDkEAIBcgEhsiEnIhEwJ/IB+LQwAAAE9dBEAgH6gMAQtBgICAgHgLIRdDAABAQCAdIBAbIR0gFEFgaiEUIBMEQCAAIAEgAiAEIA8gBiAUIApB1ABsQZq0AWogDCAIIAkgCkEBIB0gEBBVIRULIB5DAABIQ5YhHgJAAkAgEkUEQCAIEFAhGSAIKAIAIQsgESAIKAIUNgIoIBEgCCkCDDcDICARIAgpAgQ3AxggCCgCGCEYIBEgCEEcaiISQQhqIhopAgA3AwggESASQRBqIhsoAgA2AhAgESASKQIANwMAIBYgGCADayITQQEgExtBD2pBcHFrIhYkACAWIAMgC2oiHCATEAUhFiAIIBEpA1g3AhAgCCARKQNQNwIIIAggESkDSDcCACAIIAM2AhggGyARQUBrKAIANgIAIBogESkDODcCACASIBEpAzA3AgAgACABIAIgBCAFIAYgFCAKQdQAbEHwswFqIAcgCCAJIApBACAdIBAQVSEDIA5FDQEgFSADTgRAIAMgFUcNAiAIEFAgF2ogGUwNAgsgCCALNgIAIAhBBGoiAyARKAIoNgIQIAMgESkDIDcCCCADIBEpAxg3AgAgCCAYNgIYIBIgESgCEDYCECASIBEpAwg3AgggEiARKQMANwIAIBwgFiATEAUaIAUgDyAJQQJ0IgMgACgCCGwQBRogByAMIAMgACgCCGwQBRoMAgsgBSAPIAlBAnQiAyAAKAIIbBAFGiAHIAwgAyAAKAIIbBAFGgwBCyAeIApBAnRBwLYBaioCACIdIB2UIA0qAgCUkiEeCyANIB44AgAgEUHgAGokAAvvBQILfwh9IwBBEGsiDyQAIA9CADcDCCAGQQNqIAVMBEAgCSAMQQMQLwsCfSAMBEBDAJgZPgwBCyALQQJ0IgxBwLYBaioCACEcIAxB0LYBaioCAAshHSABIAJIBEAgCkEBIApBAUobIRIgCkEDbCETIAVBIGohFCAAKAIIIQUgASELA0AgDkEARyALQQFKcSEVIBMgAiALa2whFiAHIAtBFCALQRRIG0EBdCIMaiEXIAcgDEEBcmohGEEAIQoDQCADIAUgCmwgC2pBAnQiDGoqAgAiGiAEIAxqKgIAIhtDAADgwZcgDZMiHl1BAXMhBQJ/IBogHCAbQwAAEMGXlCIfkyAPQQhqIApBAnRqIhkqAgAiG5MiIEMAAAA/ko4iIYtDAAAAT10EQCAhqAwBC0GAgICAeAshDAJAIAUNACAMQX9KDQACfyAeIBqTIhqLQwAAAE9dBEAgGqgMAQtBgICAgHgLIAxqIgxBH3UgDHEhDAsgDyAMNgIEIBQgCSgCFGsgCSgCHGdrIQYgDCEFAkAgASALRg0AIAYgFmsiEUEXSg0AIA8gDEEBIAxBAUgbIgU2AgQgEUEPSg0AIA8gBUF/IAVBf0obIgU2AgQLIBUEQCAPIAVBH3UgBXEiBTYCBAsCQCAGQQ9OBEAgCSAPQQRqIBctAABBB3QgGC0AAEEGdBBRDAELIAZBAk4EQCAPIAVBASAFQQFIGyIFQX8gBUF/ShsiBTYCBCAJIAVBAXQgBUEfdXNB4LYBQQIQMAwBCyAGQQFGBEAgDyAFQR91IAVxIgU2AgQgCUEAIAVrQQEQLwwBCyAPQX82AgQLIAggACgCCCIFIApsIAtqQQJ0IgZqICAgDygCBCIRsiIakzgCACAEIAZqIBsgH5IgGpI4AgAgGSAbIBqSIB0gGpSTOAIAIAwgEWsiDCAMQR91IgxqIAxzIBBqIRAgCkEBaiIKIBJHDQALIAtBAWoiCyACRw0ACwsgD0EQaiQAQQAgECAOGwuXAgIIfwJ9IAEgAkgEQCAHQQEgB0EBShshDANAIAUgAUECdGoiDSgCACIJQQFOBEBBgIAEIAl0QRB1IgtBf2ohDiALsiERIAAoAgghCEEAIQcDQCAGAn8gBCAHIAhsIAFqQQJ0aioCAEMAAAA/kiARlI4iEItDAAAAT10EQCAQqAwBC0GAgICAeAsiCCAOIAsgCEobIghBACAIQQBKGyIKIAkQMiADIAAoAggiCCAHbCABakECdCIPaiIJIAkqAgAgCrJDAAAAP5JBAUEOIA0oAgAiCWt0spRDAACAOJRDAAAAv5IiEJI4AgAgBCAPaiIKIAoqAgAgEJM4AgAgB0EBaiIHIAxHDQALCyABQQFqIgEgAkcNAAsLC9YDAgl/AX0gCUEBIAlBAUobIQ4CQCABIAJOIhENACAHIAlIDQAgASELA0ACQCAFIAtBAnQiCmoiEigCAEEHSg0AIAYgCmooAgANACAAKAIIIQxBACEKA0AgCCAEIAogDGwgC2pBAnRqKgIAQwAAAABdIg1BAXNBARAyIAMgACgCCCIMIApsIAtqQQJ0Ig9qIhAgECoCAEMAAAC/QwAAAD8gDRtBAUENIBIoAgBrdLKUQwAAgDiUIhOSOAIAIAQgD2oiDSANKgIAIBOTOAIAIApBAWoiCiAORw0ACyAHIA5rIQcLIAtBAWoiCyACTg0BIAcgCU4NAAsLAkAgEQ0AIAcgCUgNAANAAkAgBSABQQJ0IgpqIhAoAgBBB0oNACAGIApqKAIAQQFHDQAgACgCCCELQQAhCgNAIAggBCAKIAtsIAFqQQJ0aioCAEMAAAAAXSIMQQFzQQEQMiADIAAoAggiCyAKbCABakECdCINaiIPIA8qAgBDAAAAv0MAAAA/IAwbQQFBDSAQKAIAa3SylEMAAIA4lCITkjgCACAEIA1qIgwgDCoCACATkzgCACAKQQFqIgogDkcNAAsgByAOayEHCyABQQFqIgEgAk4NASAHIAlODQALCwvxAgIHfwR9IwBBEGsiCCQAIAhCADcDCAJ9IAQEQEMAmBk+DAELIAdBAnQiCUHAtgFqKgIAIQ8gCUHQtgFqKgIACyERIAEgAkgEQCAGQQEgBkEBShshCyAFKAIEQQN0QSBqIQwgB0HUAGwgBEEqbGpB8LMBaiEKA0AgCiABQRQgAUEUSBtBAXQiBGohDSAKIARBAXJqIQ5BACEEA0ACfyAMIAUoAhRrIAUoAhxnayIHQQ9OBEAgBSANLQAAQQd0IA4tAABBBnQQUgwBCyAHQQJOBEAgBUHgtgFBAhAlIgZBAXVBACAGQQFxa3MMAQtBfyAHQQFHDQAaQQAgBUEBECRrCyEGIAMgACgCCCAEbCABakECdGoiByAIQQhqIARBAnRqIgkqAgAiEiAPIAcqAgBDAAAQwZeUkiAGsiIQkjgCACAJIBIgEJIgESAQlJM4AgAgBEEBaiIEIAtHDQALIAFBAWoiASACRw0ACwsgCEEQaiQAC5cBAQR/IAEgAkgEQCAGQQEgBkEBShshCANAQQAhBiAEIAFBAnRqIgkoAgAiB0EBTgRAA0AgBSAHECchByADIAAoAgggBmwgAWpBAnRqIgogCioCACAHskMAAAA/kkEBQQ4gCSgCACIHa3SylEMAAIA4lEMAAAC/kpI4AgAgBkEBaiIGIAhHDQALCyABQQFqIgEgAkcNAAsLC9oCAQd/IAhBASAIQQFKGyEMAkAgASACTiIODQAgBiAISA0AIAEhCgNAAkAgBCAKQQJ0IglqIg8oAgBBB0oNACAFIAlqKAIADQBBACEJA0AgB0EBECchCyADIAAoAgggCWwgCmpBAnRqIg0gDSoCACALskMAAAC/kkEBQQ0gDygCAGt0spRDAACAOJSSOAIAIAlBAWoiCSAMRw0ACyAGIAxrIQYLIApBAWoiCiACTg0BIAYgCE4NAAsLAkAgDg0AIAYgCEgNAANAAkAgBCABQQJ0IgtqIgooAgBBB0oNAEEAIQkgBSALaigCAEEBRw0AA0AgB0EBECchCyADIAAoAgggCWwgAWpBAnRqIg0gDSoCACALskMAAAC/kkEBQQ0gCigCAGt0spRDAACAOJSSOAIAIAlBAWoiCSAMRw0ACyAGIAxrIQYLIAFBAWoiASACTg0BIAYgCE4NAAsLC7EBAQR/IAVBASAFQQFKGyEIA0AgAUEBTgRAIAAoAgggBmwhCUEAIQUDQCAEIAUgCWpBAnQiB2ogAyAHaioCALsQU0T+gitlRxX3P6K2IAVBAnRBgLMBaioCAJM4AgAgBUEBaiIFIAFHDQALCyABIAJIBEAgACgCCCAGbCEHIAEhBQNAIAQgBSAHakECdGpBgICAi3w2AgAgBUEBaiIFIAJHDQALCyAGQQFqIgYgCEcNAAsL7RUBGH8jACITISggCEEAIAhBAEobIgggCEEHSkEDdCInayEcIAAoAgghJQJAIA1BAkcEQAwBCyAcIAIgAWtB8LYBai0AACIhSARAQQAhIQwBCyAcICFrIgggCEEHSkEDdCIkayEcCyATICVBAnRBD2pBcHEiCGsiGiITJAAgEyAIayIYIhMkACATIAhrIh8iEyQAIA1BA3QhGSATIAhrIiMkACACIAFMIiZFBEAgDkEDaiEXIAUgDmtBe2ogDWwhGyAAKAIgIh4gAUEBdGovAQAhFCABIQgDQCAUQRB0IQUgHyAIQQJ0IhVqIBkgHiAIQQFqIhNBAXRqLgEAIhQgBUEQdWsiBUEDbCAOdEEDdEEEdSIWIBkgFkobNgIAIBUgI2ogGyAIQX9zIAJqbCAFbCAXdEEGdSAZQQAgBSAOdEEBRhtrNgIAIBMiCCACRw0ACwsgACgCMCIpQX9qISJBASEdAkADQCAdICJqQQF1ISAgJkUEQCAgICVsIRcgACgCICIbIAJBAXRqLwEAIRUgACgCNCEeQQAhFCACIQhBACEWA0AgFUEQdEEQdSAbIAhBf2oiCEEBdGouAQAiFWsgDWwgHiAIIBdqai0AAGwgDnQiBUECdSETIAVBBE4EfyAjIAhBAnRqKAIAIBNqIhNBACATQQBKGwUgEwsgAyAIQQJ0IgVqKAIAaiETAn8CQCAWRQRAIBMgBSAfaigCAEgNAQtBASEWIBMgBCAFaigCACIFIBMgBUgbDAELQQAhFkEAIBkgEyAZSBsLIBRqIRQgCCABSg0ACyAdICBBAWogFCAcSiIIGyIdICBBf2ogIiAIGyIiTA0BIB0gJWwhKiAdQX9qICVsISAgACgCICIiIAFBAXRqLwEAIRcgACgCNCEbIAEiCCEeA0AgF0EQdCETICIgCEEBaiIFQQF0ai4BACIXIBNBEHVrIA1sIhMgGyAIICBqai0AAGwgDnQhFAJ/IB0gKU4EQCAEIAhBAnRqKAIADAELIBMgGyAIICpqai0AAGwgDnRBAnULIRMgFEECdSEWIBRBBE4EQCAjIAhBAnRqKAIAIBZqIhRBACAUQQBKGyEWCyATQQFOBEAgIyAIQQJ0aigCACATaiITQQAgE0EAShshEwsgGiAIQQJ0IhRqIBYgAyAUaigCACIVQQAgHUEBShtqIhY2AgAgFCAYaiAVIBMgFmtqIhNBACATQQBKGzYCACAIIB4gFUEAShshHiAFIgggAkcNAAsMAgsgHSAgQQFqIBxBAEgiCBsiHSAgQX9qICIgCBsiIkwNAAsgASEeCyANQQFKISNBwAAhF0EAIQNBACEbA0ACQCADIBdqQQF1IRYgAiEFQQAhFEEAIRUgJkUEQANAIBggBUF/aiIFQQJ0IghqKAIAIBZsQQZ1IAggGmooAgBqIRMCfwJAIBVFBEAgEyAIIB9qKAIASA0BC0EBIRUgEyAEIAhqKAIAIgggEyAISBsMAQtBACEVQQAgGSATIBlIGwsgFGohFCAFIAFKDQALIAMgFiAUIBxKIggbIQMgFiAXIAgbIRcgG0EBaiIbQQZHDQJBACEIIAIhFEEAIRUDQCAKIBRBf2oiFEECdCITaiATIBpqKAIAIBMgGGooAgAgA2xBBnVqIgUgBUEAIBkgBSAZSBsgBSATIB9qKAIATiIWGyAVGyIFIAQgE2ooAgAiEyAFIBNIGyITNgIAIAggE2ohCCAVIBZyIRUgFCABSg0ACwwBC0EAIQggAyAWIBxBAEgiExshAyAWIBcgExshFyAbQQFqIhtBBkcNAQsLAkACQAJAQQAgJAJ/AkACQAJAAkAgAkF/aiIFIB5MBEAgAiETIBwgJ2ohHAwBCyAeQQFqISYgAUECaiEiIBlBCGohGCACIRMCQANAIAogBUECdCIdaiIWKAIAIhogACgCICIUIBNBAXRqLgEAIhUgFCAFQQF0ai4BACIDayIgIBwgCGsiFyAVIBQgAUEBdGouAQAiFGsiFW4iG2xqIBcgFSAbbGsgFCADa2oiFEEAIBRBAEobaiIVIB0gH2ooAgAiFCAYIBQgGEobTgRAAkAgEARAIBMgIkwNBCAFIBJMBEAgFSAgQQlBByATIBFKG0EAIBNBEUobbCAOdEEDdEEEdUoNBQsgD0EAQQEQLwwBCyAPQQEQJA0FCyAVQXhqIRUgFigCACEaIAhBCGohCAsgISIUQQFOBEAgBSABa0HwtgFqLQAAIRQLIBZBACAZIBUgGUgbIhM2AgAgCCAaICFqayATaiAUaiEIIBQhISAFIhNBf2oiBSAeSg0ACyAmIRMgHCAnaiEcDAELIA9BAUEBEC8LICFBAEwNAiAQRQ0BIAYgBigCACIFIBMgBSATSBsiBTYCACAPIAUgAWsgEyABa0EBahAxIAYoAgAMAwsgIUEATA0BCyAGIA8gEyABa0EBahAmIAFqIgU2AgBBACAkIAUgAUoiFBshBSAkRQ0DIBRFDQMMAgsgBkEANgIAQQALIAFKIhQbIQUgJEUNASAURQ0BIBBFDQAgDyAHKAIAQQEQLwwCCyAHIA9BARAkNgIADAELIAdBADYCAAsgHCAIayAFaiIIIAAoAiAiFiATQQF0ai4BACAWIAFBAXRqLgEAIgNrIgVuIRhBACEaIBMgAUoEQCAOQQN0ISAgCCAFIBhsayEIIAMhFSABIQUDQCAVQRB0IR8gCiAFQQJ0aiIaIBooAgAgFiAFQQFqIhRBAXRqLgEAIhUgH0EQdWsgGGxqNgIAIBQiBSATRw0ACyADIRUgASEFA0AgFUEQdCEfIAogBUECdGoiGiAIIBYgBUEBaiIUQQF0ai4BACIVIB9BEHVrIgUgCCAFSBsiBSAaKAIAajYCACAIIAVrIQggFCIFIBNHDQALQQRBAyANQQFKGyEdQQAhGgNAIANBEHQhFCAKIAFBAnQiCGoiBSgCACAaaiEVAkAgFiABQQFqIh9BAXRqLgEAIgMgFEEQdWsgDnQiGEECTgRAQQAhFyAFIBUgFSAEIAhqKAIAayIUQQAgFEEAShsiFGsiGzYCACANIBhsIRUCQCANQQJHDQAgGEECRg0AIAcoAgANACABIAYoAgBIIRcLAkAgFSAXaiIVQQN0Ih5BAnVBACAYQQJGGyAVQWtsaiAgIAAoAjggAUEBdGouAQBqIBVsIgFBAXVqIhggG2oiFyAVQQR0SARAIBggAUECdWohGAwBCyAXIBVBGGxODQAgGCABQQN1aiEYCyAIIAtqIhcgFUECdCAbaiAYaiIBQQAgAUEAShsgFW5BA3YiATYCACABIA1sIAUoAgAiFUEDdUoEQCAXIBUgI3VBA3UiATYCAAsgFyABQQggAUEISBsiATYCACAIIAxqIAEgHmwgBSgCACAYak42AgAgBSAFKAIAIBcoAgAgGWxrNgIADAELIAUgFSAVIBlrIgFBACABQQBKGyIUazYCACAIIAtqQQA2AgAgCCAMakEBNgIACyAUBH8gCCALaiIFIBQgHXYiAUEIIAUoAgAiBWsiFSABIBVIGyIBIAVqNgIAIAggDGogASAZbCIIIBQgGmtONgIAIBQgCGsFQQALIRogHyIBIBNHDQALIBMhAQsgCSAaNgIAIAEgAkgEQANAIAsgAUECdCIIaiIFIAggCmoiGSgCACAjdUEDdTYCACAZQQA2AgAgCCAMaiAFKAIAQQFINgIAIAFBAWoiASACRw0ACwsgKCQAIBMLqAEAAkAgAUGACE4EQCAARAAAAAAAAOB/oiEAIAFB/w9IBEAgAUGBeGohAQwCCyAARAAAAAAAAOB/oiEAIAFB/RcgAUH9F0gbQYJwaiEBDAELIAFBgXhKDQAgAEQAAAAAAAAQAKIhACABQYNwSgRAIAFB/gdqIQEMAQsgAEQAAAAAAAAQAKIhACABQYZoIAFBhmhKG0H8D2ohAQsgACABQf8Haq1CNIa/ogu4AwMCfwF+AnwgAL0iA0I/iKchAgJAAkACfAJAIAACfwJAAkAgA0IgiKdB/////wdxIgFBq8aYhARPBEAgA0L///////////8Ag0KAgICAgICA+P8AVgRAIAAPCyAARO85+v5CLoZAZEEBc0UEQCAARAAAAAAAAOB/og8LIABE0rx63SsjhsBjQQFzDQEgAERRMC3VEEmHwGNFDQEMBgsgAUHD3Nj+A0kNAyABQbLFwv8DSQ0BCyAARP6CK2VHFfc/oiACQQN0QZC3AWorAwCgIgSZRAAAAAAAAOBBYwRAIASqDAILQYCAgIB4DAELIAJBAXMgAmsLIgG3IgREAADg/kIu5r+ioCIAIAREdjx5Ne856j2iIgWhDAELIAFBgIDA8QNNDQJBACEBIAALIQQgACAEIAQgBCAEoiIEIAQgBCAEIARE0KS+cmk3Zj6iRPFr0sVBvbu+oKJELN4lr2pWET+gokSTvb4WbMFmv6CiRD5VVVVVVcU/oKKhIgSiRAAAAAAAAABAIAShoyAFoaBEAAAAAAAA8D+gIQQgAUUNACAEIAEQXSEECyAEDwsgAEQAAAAAAADwP6ALkgEBA3xEAAAAAAAA8D8gACAAoiICRAAAAAAAAOA/oiIDoSIERAAAAAAAAPA/IAShIAOhIAIgAiACIAJEkBXLGaAB+j6iRHdRwRZswVa/oKJETFVVVVVVpT+goiACIAKiIgMgA6IgAiACRNQ4iL7p+qi9okTEsbS9nu4hPqCiRK1SnIBPfpK+oKKgoiAAIAGioaCgC6wOAhB/AnwjAEGwBGsiBiQAIAIgAkF9akEYbSIFQQAgBUEAShsiEEFobGohCkGktwEoAgAiByADQX9qIg1qQQBOBEAgAyAHaiEEIBAgDWshAkEAIQUDQCAGQcACaiAFQQN0aiACQQBIBHxEAAAAAAAAAAAFIAJBAnRBsLcBaigCALcLOQMAIAJBAWohAiAFQQFqIgUgBEcNAAsLIApBaGohCEEAIQQgB0EAIAdBAEobIQ8gA0EBSCEJA0ACQCAJBEBEAAAAAAAAAAAhFAwBCyAEIA1qIQVBACECRAAAAAAAAAAAIRQDQCAUIAAgAkEDdGorAwAgBkHAAmogBSACa0EDdGorAwCioCEUIAJBAWoiAiADRw0ACwsgBiAEQQN0aiAUOQMAIAQgD0YhAiAEQQFqIQQgAkUNAAtBFyAIayESQRggCGshESAHIQQCQANAIAYgBEEDdGorAwAhFEEAIQIgBCEFIARBAUgiCUUEQANAIAZB4ANqIAJBAnRqAn8gFAJ/IBREAAAAAAAAcD6iIhWZRAAAAAAAAOBBYwRAIBWqDAELQYCAgIB4C7ciFUQAAAAAAABwwaKgIhSZRAAAAAAAAOBBYwRAIBSqDAELQYCAgIB4CzYCACAGIAVBf2oiBUEDdGorAwAgFaAhFCACQQFqIgIgBEcNAAsLAn8gFCAIEF0iFCAURAAAAAAAAMA/opxEAAAAAAAAIMCioCIUmUQAAAAAAADgQWMEQCAUqgwBC0GAgICAeAshCyAUIAu3oSEUAkACQAJAAn8gCEEBSCITRQRAIARBAnQgBmpB3ANqIgIgAigCACICIAIgEXUiAiARdGsiBTYCACACIAtqIQsgBSASdQwBCyAIDQEgBEECdCAGaigC3ANBF3ULIgxBAUgNAgwBC0ECIQwgFEQAAAAAAADgP2ZBAXNFDQBBACEMDAELQQAhAkEAIQ4gCUUEQANAIAZB4ANqIAJBAnRqIg0oAgAhBQJAAkAgDSAOBH9B////BwUgBUUNAUEBIQ5BgICACAsgBWs2AgAMAQtBACEOCyACQQFqIgIgBEcNAAsLAkAgEw0AIAhBf2oiAkEBSw0AIAJBAWsEQCAEQQJ0IAZqQdwDaiICIAIoAgBB////A3E2AgAMAQsgBEECdCAGakHcA2oiAiACKAIAQf///wFxNgIACyALQQFqIQsgDEECRw0ARAAAAAAAAPA/IBShIRRBAiEMIA5FDQAgFEQAAAAAAADwPyAIEF2hIRQLIBREAAAAAAAAAABhBEBBACEFAkAgBCICIAdMDQADQCAGQeADaiACQX9qIgJBAnRqKAIAIAVyIQUgAiAHSg0ACyAFRQ0AIAghCgNAIApBaGohCiAGQeADaiAEQX9qIgRBAnRqKAIARQ0ACwwDC0EBIQIDQCACIgVBAWohAiAGQeADaiAHIAVrQQJ0aigCAEUNAAsgBCAFaiEJA0AgBkHAAmogAyAEaiIFQQN0aiAEQQFqIgQgEGpBAnRBsLcBaigCALc5AwBBACECRAAAAAAAAAAAIRQgA0EBTgRAA0AgFCAAIAJBA3RqKwMAIAZBwAJqIAUgAmtBA3RqKwMAoqAhFCACQQFqIgIgA0cNAAsLIAYgBEEDdGogFDkDACAEIAlIDQALIAkhBAwBCwsCQCAUQQAgCGsQXSIURAAAAAAAAHBBZkEBc0UEQCAGQeADaiAEQQJ0agJ/IBQCfyAURAAAAAAAAHA+oiIVmUQAAAAAAADgQWMEQCAVqgwBC0GAgICAeAsiArdEAAAAAAAAcMGioCIUmUQAAAAAAADgQWMEQCAUqgwBC0GAgICAeAs2AgAgBEEBaiEEDAELAn8gFJlEAAAAAAAA4EFjBEAgFKoMAQtBgICAgHgLIQIgCCEKCyAGQeADaiAEQQJ0aiACNgIAC0QAAAAAAADwPyAKEF0hFCAEQQBOBEAgBCECA0AgBiACQQN0aiAUIAZB4ANqIAJBAnRqKAIAt6I5AwAgFEQAAAAAAABwPqIhFEEAIQcgAkEASiEDIAJBf2ohAiADDQALIAQhBQNAIA8gByAPIAdJGyEAIAQgBWshCUEAIQJEAAAAAAAAAAAhFANAIBQgAkEDdEGAzQFqKwMAIAYgAiAFakEDdGorAwCioCEUIAAgAkchAyACQQFqIQIgAw0ACyAGQaABaiAJQQN0aiAUOQMAIAVBf2ohBSAEIAdHIQIgB0EBaiEHIAINAAsLRAAAAAAAAAAAIRQgBEEATgRAIAQhAgNAIBQgBkGgAWogAkEDdGorAwCgIRQgAkEASiEDIAJBf2ohAiADDQALCyABIBSaIBQgDBs5AwAgBisDoAEgFKEhFEEBIQIgBEEBTgRAA0AgFCAGQaABaiACQQN0aisDAKAhFCACIARHIQMgAkEBaiECIAMNAAsLIAEgFJogFCAMGzkDCCAGQbAEaiQAIAtBB3ELvwkDBH8BfgR8IwBBMGsiBCQAAkACQAJAIAC9IgZCIIinIgNB/////wdxIgJB+tS9gARNBEAgA0H//z9xQfvDJEYNASACQfyyi4AETQRAIAZCAFkEQCABIABEAABAVPsh+b+gIgBEMWNiGmG00L2gIgc5AwAgASAAIAehRDFjYhphtNC9oDkDCEEBIQIMBQsgASAARAAAQFT7Ifk/oCIARDFjYhphtNA9oCIHOQMAIAEgACAHoUQxY2IaYbTQPaA5AwhBfyECDAQLIAZCAFkEQCABIABEAABAVPshCcCgIgBEMWNiGmG04L2gIgc5AwAgASAAIAehRDFjYhphtOC9oDkDCEECIQIMBAsgASAARAAAQFT7IQlAoCIARDFjYhphtOA9oCIHOQMAIAEgACAHoUQxY2IaYbTgPaA5AwhBfiECDAMLIAJBu4zxgARNBEAgAkG8+9eABE0EQCACQfyyy4AERg0CIAZCAFkEQCABIABEAAAwf3zZEsCgIgBEypSTp5EO6b2gIgc5AwAgASAAIAehRMqUk6eRDum9oDkDCEEDIQIMBQsgASAARAAAMH982RJAoCIARMqUk6eRDuk9oCIHOQMAIAEgACAHoUTKlJOnkQ7pPaA5AwhBfSECDAQLIAJB+8PkgARGDQEgBkIAWQRAIAEgAEQAAEBU+yEZwKAiAEQxY2IaYbTwvaAiBzkDACABIAAgB6FEMWNiGmG08L2gOQMIQQQhAgwECyABIABEAABAVPshGUCgIgBEMWNiGmG08D2gIgc5AwAgASAAIAehRDFjYhphtPA9oDkDCEF8IQIMAwsgAkH6w+SJBEsNAQsgASAAIABEg8jJbTBf5D+iRAAAAAAAADhDoEQAAAAAAAA4w6AiB0QAAEBU+yH5v6KgIgggB0QxY2IaYbTQPaIiCqEiADkDACACQRR2IgUgAL1CNIinQf8PcWtBEUghAwJ/IAeZRAAAAAAAAOBBYwRAIAeqDAELQYCAgIB4CyECAkAgAw0AIAEgCCAHRAAAYBphtNA9oiIAoSIJIAdEc3ADLooZozuiIAggCaEgAKGhIgqhIgA5AwAgBSAAvUI0iKdB/w9xa0EySARAIAkhCAwBCyABIAkgB0QAAAAuihmjO6IiAKEiCCAHRMFJICWag3s5oiAJIAihIAChoSIKoSIAOQMACyABIAggAKEgCqE5AwgMAQsgAkGAgMD/B08EQCABIAAgAKEiADkDACABIAA5AwhBACECDAELIAZC/////////weDQoCAgICAgICwwQCEvyEAQQAhAwNAIARBEGogAyIFQQN0agJ/IACZRAAAAAAAAOBBYwRAIACqDAELQYCAgIB4C7ciBzkDACAAIAehRAAAAAAAAHBBoiEAQQEhAyAFRQ0ACyAEIAA5AyACQCAARAAAAAAAAAAAYgRAQQIhAwwBC0EBIQUDQCAFIgNBf2ohBSAEQRBqIANBA3RqKwMARAAAAAAAAAAAYQ0ACwsgBEEQaiAEIAJBFHZB6ndqIANBAWoQYCECIAQrAwAhACAGQn9XBEAgASAAmjkDACABIAQrAwiaOQMIQQAgAmshAgwBCyABIAA5AwAgASAEKQMINwMICyAEQTBqJAAgAgt7AQJ8IAAgAKIiAiACIAKioiACRHzVz1o62eU9okTrnCuK5uVavqCiIAIgAkR9/rFX4x3HPqJE1WHBGaABKr+gokSm+BARERGBP6CgIQMgACACIAFEAAAAAAAA4D+iIAIgAKIiACADoqGiIAGhIABESVVVVVVVxT+ioKELxgEBAn8jAEEQayIBJAACfCAAvUIgiKdB/////wdxIgJB+8Ok/wNNBEBEAAAAAAAA8D8gAkGewZryA0kNARogAEQAAAAAAAAAABBfDAELIAAgAKEgAkGAgMD/B08NABogACABEGFBA3EiAkECTQRAAkACQAJAIAJBAWsOAgECAAsgASsDACABKwMIEF8MAwsgASsDACABKwMIEGKaDAILIAErAwAgASsDCBBfmgwBCyABKwMAIAErAwgQYgshACABQRBqJAAgAAudAgEGfyAAIAFBf2oiCEECdGooAgAiBSAFQR91IgRqIARzIQQgBUEfdiEGA0AgASAIQX9qIglrIgUgBCAFIARIG0ECdEHAzQFqKAIAIAUgBCAFIARKG0ECdGooAgAgBmohBiAEIAAgCUECdGooAgAiByAHQR91IgRqIARzaiEEIAdBf0wEQCAEQQFqIgcgBSAFIARKG0ECdEHAzQFqKAIAIAUgByAFIAdKG0ECdGooAgAgBmohBgsgCEEBSiEFIAkhCCAFDQALIAMgBiACQQFqIgQgASABIAJKIgUbQQJ0QcDNAWooAgAgASAEIAQgAUgbQQJ0aigCACABIAIgASACSBtBAnRBwM0BaigCACABIAIgBRtBAnRqKAIAahAxC+4EAgZ/AX0gAyACQQFqIgQgASABIAJKIgUbQQJ0QcDNAWooAgAgASAEIAQgAUgbQQJ0aigCACABIAIgASACSBtBAnRBwM0BaigCACABIAIgBRtBAnRqKAIAahAmIQQgAUEDTgRAA0ACfyACIAEiB04EQCACIQMCQCAHQQJ0IgZBwM0BaigCACIIIAZqKAIAIAQgAkECdCAIaigCBCIFQX9BACAEIAVPGyIJcWsiBEsEQANAIAFBf2oiAUECdEHAzQFqKAIAIAZqKAIAIgUgBEsNAAwCAAsACwNAIAMiAUF/aiEDIAggAUECdGooAgAiBSAESw0ACwsgACACIAlqIAFrIAlzQRB0QRB1IgI2AgAgCiACsiIKIAqUkiEKIAEhAiAEIAVrDAELIAdBAnQiASACQQFqIghBAnRBwM0BaigCAGooAgAhAwJAIAQgAkECdEHAzQFqKAIAIAFqKAIAIgVJDQAgBCADTw0AIABBADYCACAEIAVrDAELIAQgA0F/QQAgBCADTxsiBnFrIQQDQCAEIAIiA0F/aiICQQJ0QcDNAWooAgAgAWooAgAiBUkNAAsgACAGIAhqIANrIAZzQRB0QRB1IgE2AgAgCiABsiIKIAqUkiEKIAQgBWsLIQQgB0F/aiEBIABBBGohACAHQQNKDQALCyAAIAIgBCACQQF0QQFyIgFPIgNrIAQgAUF/QQAgAxsiAnFrIgRBAWoiA0EBdiIBayACc0EQdEEQdSICNgIAIAAgASAEIANBfnFBf2pBACABG2siBGtBACAEa3NBEHRBEHUiATYCBCAKIAKyIgogCpSSIAGyIgogCpSSC/oHAwl/BH0CfAJAIARBAXQgAU4NACAFRQ0AIAGyIAVBAnRB3PUBaigCACAEbCABarKVIg8gD5RDAAAAP5QiD0PbD8k/lLsQYyETQwAAgD8gD5ND2w/JP5S7EGMhFEEAIQUgA0EDdCABTARAIANBAnUhBkEBIQQDQCAEIgVBAWohBCAFIAUgBWxqIANsIAZqIAFIDQALCyABIANuIQogA0EBSA0AIBO2IQ8gFLYhESAKIAVrIQsgCkF9aiEIIApBf2ohDCAKIAVBAXRBf3NqIQkgAkF/SiENQQAhAgNAIAIgCmwhBwJAIA1FBEACQCAFRQ0AQQAhASAAIAdBAnRqIg4hBCALQQFOBEADQCAEIAVBAnRqIgYgBCoCACIQIA+UIAYqAgAiEiARlJI4AgAgBCAQIBGUIBIgD5STOAIAIARBBGohBCABQQFqIgEgC0cNAAsLIAlBAEgNACAOIAlBAnRqIQQgCSEBA0AgBCAFQQJ0aiIGIAQqAgAiECAPlCAGKgIAIhIgEZSSOAIAIAQgECARlCASIA+UkzgCACAEQXxqIQQgAUEASiEGIAFBf2ohASAGDQALCyAAIAdBAnRqIQYgDEEBTgRAIAYqAgAhEEEAIQEgBiEEA0AgBCAQIA+UIAQqAgQiEiARlJM4AgAgBCAQIBGUIBIgD5SSIhA4AgQgBEEEaiEEIAFBAWoiASAMRw0ACwsgCEEASA0BIAYgCEECdGohBCAIIQEDQCAEIAQqAgAiECARlCAEKgIEIhIgD5SSOAIEIAQgECAPlCASIBGUkzgCACAEQXxqIQQgAUEASiEGIAFBf2ohASAGDQALDAELIAAgB0ECdGohByAMQQFOBEAgByoCACEQQQAhASAHIQQDQCAEIBAgD5QgBCoCBCISIBGUkjgCACAEIBIgD5QgECARlJMiEDgCBCAEQQRqIQQgAUEBaiIBIAxHDQALCyAIQQBOBEAgByAIQQJ0aiEEIAghAQNAIAQgBCoCBCIQIA+UIAQqAgAiEiARlJM4AgQgBCASIA+UIBAgEZSSOAIAIARBfGohBCABQQBKIQYgAUF/aiEBIAYNAAsLIAVFDQBBACEBIAchBCALQQFOBEADQCAEIAVBAnRqIgYgBioCACIQIBGUIAQqAgAiEiAPlJM4AgAgBCASIBGUIBAgD5SSOAIAIARBBGohBCABQQFqIgEgC0cNAAsLIAlBAEgNACAHIAlBAnRqIQQgCSEBA0AgBCAFQQJ0aiIGIAYqAgAiECARlCAEKgIAIhIgD5STOAIAIAQgEiARlCAQIA+UkjgCACAEQXxqIQQgAUEASiEGIAFBf2ohASAGDQALCyACQQFqIgIgA0cNAAsLC/MFAgh/B30jACIEIQogBCADQQJ0QQ9qQXBxIgVrIgQiBiQAIAYgBWsiCSQAIARBACADQQEgA0EBShsiCEECdBAEIQdBACEEA0AgCSAEQQJ0IgVqIAAgBWoiBioCACIMQwAAAABdNgIAIAYgDIs4AgAgASAFakEANgIAIARBAWoiBCAIRw0AC0MAAAAAIQwgA0EBdSACSARAQQAhBANAIAwgACAEQQJ0aioCAJIhDCAEQQFqIgQgCEcNAAsgArJDzcxMP5JDAACAPyAMQ30dkCZeQQFzRUEAIAxDAACAQl0bBH0gDAUgAEGAgID8AzYCACAAQQRqQQAgA0ECIANBAkobQQJ0QXxqEAQaQwAAgD8LlZQhDkEAIQVDAAAAACEMA0AgASAFQQJ0IgZqAn8gDiAAIAZqKgIAIg+UjiINi0MAAABPXQRAIA2oDAELQYCAgIB4CyIENgIAIAYgB2ogBLIiDSANkjgCACAQIA8gDZSSIRAgAiAEayECIAwgDSANlJIhDCAFQQFqIgUgCEcNAAsLAkAgAiADQQNqSgRAIAcqAgAhDyABIAEoAgAgAmo2AgAgDCACsiINIA2UkiAPIA2UkiEMDAELIAJBAUgNACADQQIgA0ECShshCyAAKgIAIRJBACEDA0AgDEMAAIA/kiIRIAcqAgCSIQwgECASkiINIA2UIQ1BASEEQQAhBgNAIBEgByAEQQJ0IgVqKgIAkiIPIAwgDCAQIAAgBWoqAgCSIg4gDpQiDpQgDSAPlF4iBRshDCAOIA0gBRshDSAEIAYgBRshBiAEQQFqIgQgC0cNAAsgACAGQQJ0IgRqKgIAIQ0gBCAHaiIFIAUqAgAiDEMAAABAkjgCACABIARqIgQgBCgCAEEBajYCACARIAySIQwgECANkiEQIANBAWoiAyACRw0ACwtBACEEA0AgASAEQQJ0IgVqIgYgBigCAEEAIAUgCWooAgAiBWtzIAVqNgIAIARBAWoiBCAIRw0ACyAKJAAgDAuTAgIDfwF9IwAiCCELIAggAUECdEEbakFwcWsiCCQAQQEhCSAAIAFBASAEIAIgAxBmIAAgCCACIAEQZyEMIAggASACIAUQZCAHBEAgAUEBIAFBAUobIQpDAACAPyAMkZUgBpQhBkEAIQcDQCAAIAdBAnQiBWogBiAFIAhqKAIAspQ4AgAgB0EBaiIHIApHDQALIAAgAUF/IAQgAiADEGYLIARBAk4EQCABIARuIgJBASACQQFKGyEKQQAhCUEAIQEDQCABIAJsIQBBACEHQQAhBQNAIAggACAHakECdGooAgAgBXIhBSAHQQFqIgcgCkcNAAsgBUEARyABdCAJciEJIAFBAWoiASAERw0ACwsgCyQAIAkL8AEBBH8jACIHIQogAUEBIAFBAUobIQggByABQQJ0QQ9qQXBxayIJJABDAACAPyAJIAEgAiAFEGWRlSAGlCEGQQAhBQNAIAAgBUECdCIHaiAGIAcgCWooAgCylDgCACAFQQFqIgUgCEcNAAsgACABQX8gBCACIAMQZkEBIQIgBEECTgRAIAEgBG4iA0EBIANBAUobIQhBACECQQAhAQNAIAEgA2whAEEAIQVBACEHA0AgCSAAIAVqQQJ0aigCACAHciEHIAVBAWoiBSAIRw0ACyAHQQBHIAF0IAJyIQIgAUEBaiIBIARHDQALCyAKJAAgAgtvAQF9IAFBAU4EQEEAIQMDQCAEIAAgA0ECdGoqAgAiBCAElJIhBCADQQFqIgMgAUcNAAtDAACAPyAEQ30dkCaSkZUgApQhBEEAIQMDQCAAIAQgACoCAJQ4AgAgAEEEaiEAIANBAWoiAyABRw0ACwsLrwMBBX0CQCACBEBDfR2QJiEGIANBAUgEQEN9HZAmIQUMAgtBACECQ30dkCYhBQNAIAUgACACQQJ0IgRqKgIAIgcgASAEaioCACIIkyIJIAmUkiEFIAYgByAIkiIHIAeUkiEGIAJBAWoiAiADRw0ACwwBCyADQQFIBEBDfR2QJiEFQ30dkCYhBgwBC0EAIQIDQCAGIAAgAkECdGoqAgAiBSAFlJIhBiACQQFqIgIgA0cNAAsgBkN9HZAmkiEGQQAhAkMAAAAAIQUDQCAFIAEgAkECdGoqAgAiByAHlJIhBSACQQFqIgIgA0cNAAsgBUN9HZAmkiEFCwJ9QwAAAAAgBZEiCCAIlCIFIAaRIgkgCZQiBpJD75KTIV0NABpD2w/JPyAIIAmUIAUgBkMF+Nw+lJKUIAUgBkMhsS0/lJIgBSAGQ2UJsD2UkpSVkyAGIAVdQQFzRQ0AGiAIIAmUIAYgBUMF+Nw+lJKUIAYgBUMhsS0/lJIgBiAFQ2UJsD2UkpSVQ9sPyT+SQ9sPyb+SC0OH+SJGlEMAAAA/ko4iBotDAAAAT10EQCAGqA8LQYCAgIB4C1oBBH9BAUEfIABna0EBdSICdCEDA0AgAEEAIARBAXQgA2ogAnQiASAAIAFJIgEbayEAQQAgAyABGyAEaiEEIAJBAEohASADQQF2IQMgAkF/aiECIAENAAsgBAuLAQECfwJAA0AgAkECdEHQnAJqKgIAIABeDQEgAkEBaiICQRVHDQALQRUhAgsCQAJAIAIgAUoEQCABQQJ0IgNB0JwCaioCACADQbCdAmoqAgCSIABeDQELIAIgAU4NASABQQJ0QXxqIgNB0JwCaioCACADQbCdAmoqAgCTIABdQQFzDQELIAEhAgsgAgvkAQIKfwF9IARBASAEQQFKGyEKIAAoAiwgBXQhCyAAKAIgIQgDQCADQQFOBEAgByALbCEMIAAoAgggB2whDSAILwEAIQlBACEGA0AgCUEQdCEEQwAAAAAhESAIIAZBAWoiDkEBdGouAQAiCSAEQRB1IgRrIAV0Ig9BAU4EQCABIAQgBXQgDGpBAnRqIRBBACEEA0AgESAQIARBAnRqKgIAIhEgEZSSIREgBEEBaiIEIA9HDQALCyACIAYgDWpBAnRqIBFD0nSeEpKROAIAIA4iBiADRw0ACwsgB0EBaiIHIApHDQALC8oBAgp/AX0gBUEBIAVBAUobIQwgACgCLCAGbCENIAAoAiAhCgNAIARBAU4EQCAHIA1sIQ4gACgCCCAHbCEPIAouAQAhC0EAIQgDQCAGIAtsIgUgCiAIIglBAWoiCEEBdGouAQAiCyAGbCIQSARAQwAAgD8gAyAJIA9qQQJ0aioCAEPSdJ4SkpUhEQNAIAIgBSAOakECdCIJaiARIAEgCWoqAgCUOAIAIAVBAWoiBSAQSA0ACwsgBCAIRw0ACwsgB0EBaiIHIAxHDQALC6sCAgV/AX0gACgCLCAGbCEKIAAoAiAiCyAFQQF0ai4BACAGbCEAIAdBAUcEQCAAIAogB20iByAAIAdIGyEAC0EAIAUgCBshDCALQQAgBCAIGyIEQQF0ai4BACINIAZsIglBAnQhByACIQUgCUEBTgRAIAJBACAHEAQgB2ohBQtBACAAIAgbIQkgBCAMSARAIAEgB2ohCANAIAMgBEECdCIAaioCACAAQYCzAWoqAgCSQwAAAEKWu0TvOfr+Qi7mP6IQXrYhDiAGIA1sIQAgCyAEQQFqIgRBAXRqLgEAIg0gBmwhBwNAIAUgCCoCACAOlDgCACAFQQRqIQUgCEEEaiEIIABBAWoiACAHSA0ACyAEIAxHDQALCyACIAlBAnRqQQAgCiAJa0ECdBAEGguzBAMPfwV9AXwgBiAHSARAQQEgA3QiDkEBIA5BAUobIRUgBEEBIARBAUobIRYgA0EDRiEXIANBH0YhGANAQwAAgD8gACgCICIOIAYiEEEBaiIGQQF0ai4BACAOIBBBAXQiGWouAQBrIhMgA3QiGreftpUhISALIBBBAnRqKAIAQQFqIBNuIAN2skMAAAC+lLtE7zn6/kIu5j+iEF62QwAAAD+UISAgBCAQbCEbQQAhEQNAIAogACgCCCIPIBFsIBBqQQJ0Ig5qKgIAIR0gCSAOaioCACEeIAggDmoqAgACfSAEQQFGBEAgHSAKIA8gEGpBAnQiD2oqAgAiHyAdIB9eGyEdIB4gCSAPaioCACIfIB4gH14bIR4LIB4LIB0gHiAdXRuTQwAAAACXu0TvOfr+Qi7mv6IQXiEiAkAgGA0AIAEgBSARbEECdGogACgCICAZai4BACADdEECdGohFCACIBEgG2pqIRwgISAgICK2Ih0gHZIiHUPzBLU/lCAdIBcbIh0gICAdXRuUIh2MIR5BACESQQAhDwNAIBJBASAcLQAAIA92QQFxIg4bIRICQCAODQBBACEOIBNBAUgNAANAIBQgDiADdCAPakECdGogHSAeIAxBjczlAGxB3+a74wNqIgxBgIACcRs4AgBBASESIA5BAWoiDiATRw0ACwsgD0EBaiIPIBVHDQALIBJFDQAgFCAaQwAAgD8gDRBqCyARQQFqIhEgFkcNAAsgBiAHRw0ACwsLngQCEX8CfQJ/QQAgACgCICIVIAdBAXRqIgwuAQAgDEF+ai4BAGsgCWxBCUgNABogACgCLCAJbCEXIAhBASAIQQFKGyEYA0AgB0EBTgRAIAEgEyAXbEECdGohGSAVLwEAIRZBACEPA0AgFkEQdCELIBUgD0EBaiIaQQF0ai4BACIWIAtBEHUiC2sgCWwiDkEJTgRAIBkgCSALbEECdGohGyAOsiEdQQAhFEEAIQxBACEQQQAhCwNAIBQgGyALQQJ0aioCACIcIByUIB2UIhxDAACAPF1qIRQgDCAcQwAAgD1daiEMIBAgHEMAAIA+XWohECALQQFqIgsgDkcNAAsgCiAPQQJ0aigCACILIAxBAXQgDk4gEEEBdCAOTmogFEEBdCAOTmpsIBJqIRIgCyARaiERIA8gACgCCEF8akoEfyAMIBBqQQV0IA5uIA1qBSANCyENCyAaIg8gB0cNAAsLIBNBAWoiEyAYRw0ACyAGBEAgBCANBH8gDSAHIAAoAghrQQRqIAhsbgVBAAsgBCgCAGpBAXUiCzYCAAJAIAUoAgAiDEECSw0AAkACQCAMQQFrDgICAAELIAtBBGohCwwBCyALQXxqIQsLIAVBAiALQRJKIAtBFkobNgIACyACIAIoAgAgEkEIdCARbmpBAXUiDDYCAEEDIAxBA2wgA0EHdGtBwANqIgxBvgJIDQAaQQIgDEH+B0gNABogDEH+C0gLC6UBAgV/An0gAkEBTgRAIAFBAXUiA0EBIANBAUobIQUgAkEBdCEGQQAhAyABQQJIIQcDQEEAIQEgB0UEQANAIAAgASAGbCADakECdGoiBCAEKgIAQ/MENT+UIgggACABQQF0QQFyIAJsIANqQQJ0aiIEKgIAQ/MENT+UIgmSOAIAIAQgCCAJkzgCACABQQFqIgEgBUcNAAsLIANBAWoiAyACRw0ACwsL1hoDVX8BfgV9IwBBoAxrIhchGCAXJABBASEoIBdBAkEBIAUbIi0gASgCICIhIAEoAghBAXRqQX5qLgEAIBF0ICEgAkEBdGoiQC4BACARdCIka2xBAnRBD2pBcHFrIhwiGSQAICEgASgCCCIXQQF0akF+ai4BACIaIBF0QQJ0ISIgC0UgAEEARyAFQQBHcXEgFEEHSnEiLiAARXIhL0EBIBF0QQEgCRshHwJAIC5BAUYEQCAZICEgF0EBdGouAQAgGmsgEXQiKEECdEEPakFwcWsiHSIZJAAMAQsgBCAiaiEdCyAZIChBAnRBD2pBcHEiF2siQSIZJAAgGSAXayJCIhkkACAZIBdrIkMiGSQAIBkgF2siRCIZJAAgGSAXayI2JAAgGCAQNgL8CyAYIAc2AoQMIBggDDYC8AsgGCAANgLgCyAYIAE2AugLIBMoAgAhFyAYIBY2ApQMIBggFTYCjAwgGCAKNgL0CyAYIBc2AogMIBggH0EBSiIANgKYDCAYQQA2ApAMIBggLzYC5AsgEyACIANIBH8gHEEAIAUbIUUgCkEDRyAAciFGIBBBHGohKyAQQQhqISkgL0EBcyFHIC1Bf2ohKCACQQJqITcgAkEBaiEsIANBf2ohOCAcICJqICRBAnRrIiJBACAka0ECdCIXaiFIIBcgHGohI0F/IB90QX9zITkgAiETQQEhFQNAIBggEyIWNgLsCyAhIBZBAWoiE0EBdGouAQAhACAhIBZBAXRqIh4uAQAhFyAYIA4gEBBQIjprIhlBf2o2AoAMIBcgEXQhFyAAIBF0IQAgD0EAIDogAiAWRhtrITsCf0EAIBYgEk4NABpB//8AIBkgCCAWQQJ0aigCACA7IBIgFmsiD0EDIA9BA0gbbWoiDyAZIA9IGyIPQf//AEoNABogD0EAIA9BAEobCyElIBdBAnQhDyAAIBdrIQoCQCAvRQ0AIBYgLEcEQCAeLgEAIBF0IAprIEAuAQAgEXRIDQELIBYgICAWICAbIBUbISALIAUgD2ohFwJAIBYgLEciSQ0AIBwgASgCICIAICxBAXRqLgEAIhUgACACQQF0ai4BAGsgEXQiGUECdCIJaiAcIBlBAXQgACA3QQF0ai4BACAVayARdCIAa0ECdCIVaiAAIBlrQQJ0IgAQBRogC0UNACAJICJqIBUgImogABAFGgsgF0EAIAUbISYgBCAPaiEUIBggDSAWQQJ0IjxqKAIAIhc2AvgLQQAgHUEAIBYgASgCDEgiGhsiHSAWIDhGIicbISpBfyEbAkAgIEUEQCA5IgAhDwwBCyA5IgAhDyBGIBdBAEhyRQ0AICEgIEEBdGouAQAgEXQgJGsgCmsiF0EAIBdBAEobIhsgJGohDyAgIRcDQCAhIBciAEF/aiIXQQF0ai4BACARdCAPSg0ACyAKIA9qIQkgIEF/aiEZICAgFiAgIBZKG0F/aiEVA0ACQCAVIBkiD0YEQCAVIQ8MAQsgISAPQQFqIhlBAXRqLgEAIBF0IAlIDQELCyAXIA8gDyAASBshFUEAIQBBACEPA0AgACAGIBcgLWwiGWotAAByIQAgDyAGIBkgKGpqLQAAciEPIBUgF0chGSAXQQFqIRcgGQ0ACwsgHSAqIC4bIR0gFCAcIBobIRQgJiBFIBobIQkCfwJAIAtFDQAgDCAWRyBHckUEQCAeLgEAIBF0IhcgJEwNASAXICRrIhdBASAXQQFKGyEaQQAhFwNAIBwgF0ECdCIZaiIVIBUqAgAgGSAiaioCAJJDAAAAP5Q4AgAgF0EBaiIXIBpHDQALDAELIAwgFkYNACAcIBtBAnQiGWpBACAbQX9HIhUbIRogGEHgC2ogCSAKICVBAXYiFyAfAn8gFiA4RgRAQQAhGyAYQeALaiAUIAogFyAfIBogEUEAQwAAgD8gHSAAEHUhFCAZICJqQQAgFRsMAQsgGEHgC2ogFCAKIBcgHyAaIBEgIyAeLgEAIBF0QQJ0akMAAIA/IB0gABB1IRQgSCAeLgEAIBF0QQJ0aiEbIBkgImpBACAVGwsgESAbQwAAgD8gHSAPEHUMAQsCQCAJBEAgLkEBcyAWIAxOckUEQCAHIDxqKgIAIW0gByABKAIIIBZqQQJ0aioCACFvIBAoAgQhPSAQKAIAIT4gGEHYC2oiSiApQQhqIkspAgA3AwAgGCApKQIANwPQCyAQKAIYISogGEHIC2oiTCArQRBqIk0oAgA2AgAgGEHAC2oiTiArQQhqIk8pAgA3AwAgGCArKQIANwO4CyAYQYALaiJQIBhBmAxqIjAoAgA2AgAgGEH4CmoiUSAYQZAMaiImKQMANwMAIBhB8ApqIlIgGEGIDGoiMSkDADcDACAYQegKaiJTIBhBgAxqIjIpAwA3AwAgGEHgCmoiVCAYQfgLaiIzKQMANwMAIBhB2ApqIlUgGEHwC2oiNCkDADcDACAYQdAKaiJWIBhB6AtqIjUpAwA3AwAgGCAYKQPgCzcDyAogQSAUIApBAnQiCxAFIRkgQiAJIAsQBSEVICZBfzYCAEEAIRcgACAPciE/QQAhDyBtIG0gbyBtIG9dG0MAAEBAlSJwkiFuQwAAAAAhbSAYQeALaiAUIAkgCiAlIB9BACAcIBtBAnRqIBtBf0YbIhsgESAnBH8gDwUgIyAeLgEAIBF0QQJ0agsgHSA/EHYhVwJAIApBAEwEQCBuQwAAAACUIXEMAQsDQCBtIBkgF0ECdCIPaioCACAPIBRqKgIAlJIhbSAXQQFqIhcgCkcNAAsgbiBtlCFxQQAhF0MAAAAAIW0DQCBtIBUgF0ECdCIPaioCACAJIA9qKgIAlJIhbSAXQQFqIhcgCkcNAAsLIBhBsAtqIlggEEEoaiJZKQIANwMAIBhBqAtqIlogEEEgaiJbKQIANwMAIBhBoAtqIlwgEEEYaiJdKQIANwMAIBhBmAtqIl4gEEEQaiJfKQIANwMAIBhBkAtqImAgKSkCADcDACAQKQIAIWwgGEGQCmoiYSA1KQMANwMAIBhBmApqImIgNCkDADcDACAYQaAKaiJjIDMpAwA3AwAgGEGoCmoiZCAyKQMANwMAIBhBsApqImUgMSkDADcDACAYQbgKaiJmICYpAwA3AwAgGEHACmoiZyAwKAIANgIAIBggbDcDiAsgGCAYKQPgCzcDiAogQyAUIAsQBSFoIEQgCSALEAUhaSAnRQRAIDYgIyAeLgEAIBF0QQJ0aiALEAUaCyBvIHCSIW8gGCAqID5qImogPSAqayJrEAUhGiAQID02AgQgECA+NgIAIEsgSikDADcCACApIBopA9ALNwIAIBAgKjYCGCBNIEwoAgA2AgAgTyBOKQMANwIAICsgGikDuAs3AgAgNSBWKQMANwMAIDQgVSkDADcDACAzIFQpAwA3AwAgMiBTKQMANwMAIDEgUikDADcDACAmIFEpAwA3AwAgMCBQKAIANgIAIBogGikDyAo3A+ALIBQgGSALEAUhACAJIBUgCxAFIQkgSUUEQCAcIAEoAiAiFyAsQQF0ai4BACIUIBcgAkEBdGouAQBrIBF0Ig9BAnRqIBwgD0EBdCAXIDdBAXRqLgEAIBRrIBF0IhdrQQJ0aiAXIA9rQQJ0EAUaCyAaQQE2ApAMQQAhF0EAIQ8gcSBvIG2UkiFwQwAAAAAhbSAaQeALaiAAIAkgCiAlIB8gGyARICcEfyAPBSAjIB4uAQAgEXRBAnRqCyAdID8QdiEUAkAgCkEATARAIG5DAAAAAJQhbgwBCwNAIG0gGSAXQQJ0Ig9qKgIAIAAgD2oqAgCUkiFtIBdBAWoiFyAKRw0ACyBuIG2UIW5BACEXQwAAAAAhbQNAIG0gFSAXQQJ0Ig9qKgIAIAkgD2oqAgCUkiFtIBdBAWoiFyAKRw0ACwsgcCBuIG8gbZSSYEEBc0UEQCAQIBopA4gLNwIAIFkgWCkDADcCACBbIFopAwA3AgAgXSBcKQMANwIAIF8gXikDADcCACApIGApAwA3AgAgNSBhKQMANwMAIDQgYikDADcDACAzIGMpAwA3AwAgMiBkKQMANwMAIDEgZSkDADcDACAmIGYpAwA3AwAgMCBnKAIANgIAIBogGikDiAo3A+ALIAAgaCALEAUaIAkgaSALEAUaICdFBEAgIyAeLgEAIBF0QQJ0aiA2IAsQBRoLIGogGiBrEAUaIFchFAtBACELDAILQQAhCyAYQQA2ApAMQQAhFyAYQeALaiAUIAkgCiAlIB9BACAcIBtBAnRqIBtBf0YbIBEgJwR/IBcFICMgHi4BACARdEECdGoLIB0gACAPchB2IRQMAQtBACELQQAhFyAYQeALaiAUIAogJSAfQQAgHCAbQQJ0aiAbQX9GGyARICcEfyAXBSAjIB4uAQAgEXRBAnRqC0MAAIA/IB0gACAPchB1IRQLIBQLIQ8gBiAWIC1sIhdqIBQ6AAAgBiAXIChqaiAPOgAAIAggPGooAgAhFyAYQQA2ApgMIBcgOiA7amohDyAlIApBA3RKIRUgAyATRw0ACyAYKAKIDAUgFws2AgAgGEGgDGokAAudDQIMfwJ9IAIgBG4hFCAAKAIAIRYCQCACQQFGBEBBACEFIAAoAiBBCE4EQCAAKAIcIQkCQCAWBEAgCSABKgIAQwAAAABdIgVBARAyDAELIAlBARAnIQULIAAgACgCIEF4ajYCIAsgACgCBARAIAFDAACAv0MAAIA/IAUbOAIAC0EBIQogB0UNASAHIAEoAgA2AgBBAQ8LIAAoAhgiE0EASiELAkAgBUUEQCAFIQkMAQsgCUUEQCAFIQkMAQsCQCATQQBKDQAgBEEBSg0AIBRBAXFFIBNBAEdxDQAgBSEJDAELIAkgBSACQQJ0EAUaCyATQQAgCxshESATQQFOBEADQAJAIBYEQCAMQR9GDQEgAiAMdSIPQQF1IgVBASAFQQFKGyESQQEgDHQiDkEBdCEQQQAhCwNAQQAhBSAPQQJOBEADQCABIAUgEGwgC2pBAnRqIg0gDSoCAEPzBDU/lCIXIAEgBUEBdEEBciAMdCALakECdGoiDSoCAEPzBDU/lCIYkjgCACANIBcgGJM4AgAgBUEBaiIFIBJHDQALCyALQQFqIgsgDkcNAAsLIAlFDQAgDEEfRg0AIAIgDHUiD0EBdSIFQQEgBUEBShshEkEBIAx0Ig5BAXQhEEEAIQsDQEEAIQUgD0ECTgRAA0AgCSAFIBBsIAtqQQJ0aiINIA0qAgBD8wQ1P5QiFyAJIAVBAXRBAXIgDHQgC2pBAnRqIg0qAgBD8wQ1P5QiGJI4AgAgDSAXIBiTOAIAIAVBAWoiBSASRw0ACwsgC0EBaiILIA5HDQALCyAKQQ9xQfD1AWotAAAgCkEEdUHw9QFqLQAAQQJ0ciEKIAxBAWoiDCARRw0ACwsgBCARdSEMAkACQCAUIBF0Ig9BAXENACATQX9KDQAgEyEUA0ACQCAWRQ0AIAxBAUgNACAPQQF1IgVBASAFQQFKGyESIAxBAXQhEEEAIQsDQEEAIQUgD0ECTgRAA0AgASAFIBBsIAtqQQJ0aiINIA0qAgBD8wQ1P5QiFyABIAVBAXRBAXIgDGwgC2pBAnRqIg0qAgBD8wQ1P5QiGJI4AgAgDSAXIBiTOAIAIAVBAWoiBSASRw0ACwsgC0EBaiILIAxHDQALCyAPQQF1IQ4CQCAJRQ0AIAxBAUgNACAOQQEgDkEBShshEiAMQQF0IRBBACELA0BBACEFIA9BAk4EQANAIAkgBSAQbCALakECdGoiDSANKgIAQ/MENT+UIhcgCSAFQQF0QQFyIAxsIAtqQQJ0aiINKgIAQ/MENT+UIhiSOAIAIA0gFyAYkzgCACAFQQFqIgUgEkcNAAsLIAtBAWoiCyAMRw0ACwsgFUEBaiEVIAxBAXQhBSAKIAx0IApyIQogD0ECcQ0CIBRBf0ghCyAUQQFqIRQgBSEMIA4hDyALDQALDAELIA8hDiAMIQULIARBAUYhCwJAIAVBAkgNACAWBEAgASAOIBF1IAUgEXQgCxB3CyAJRQ0AIAkgDiARdSAFIBF0IAsQdwsgACABIAIgAyAFIAkgBiAIIAoQeCEKIAAoAgRFDQAgBUECTgRAIAEgDiARdSAFIBF0IAsQeQsCQCAVRQRAIAUhDQwBC0EAIRADQCAOQQF0IQ4gCiAFQQF1Ig12IQ8gBUECTgRAIA5BAXUiCUEBIAlBAUobIQwgBUF+cSESQQAhCQNAQQAhBSAOQQJOBEADQCABIAUgEmwgCWpBAnRqIgsgCyoCAEPzBDU/lCIXIAEgBUEBdEEBciANbCAJakECdGoiCyoCAEPzBDU/lCIYkjgCACALIBcgGJM4AgAgBUEBaiIFIAxHDQALCyAJQQFqIgkgDUcNAAsLIAogD3IhCiANIQUgEEEBaiIQIBVHDQALC0EAIQwgE0EASgRAA0AgCkGA9gFqLQAAIQogDEEfRwRAIAIgDHUiD0EBdSIFQQEgBUEBShshEkEBIAx0Ig5BAXQhEEEAIQkDQEEAIQUgD0ECTgRAA0AgASAFIBBsIAlqQQJ0aiILIAsqAgBD8wQ1P5QiFyABIAVBAXRBAXIgDHQgCWpBAnRqIgsqAgBD8wQ1P5QiGJI4AgAgCyAXIBiTOAIAIAVBAWoiBSASRw0ACwsgCUEBaiIJIA5HDQALCyAMQQFqIgwgEUcNAAsLIA0gEXQhCwJAIAdFDQAgAkEBSA0AIAK3n7YhF0EAIQUDQCAHIAVBAnQiCWogASAJaioCACAXlDgCACAFQQFqIgUgAkcNAAsLIApBfyALdEF/c3EhCgsgCguMCgIJfwV9IwBBIGsiCyQAIAsgCjYCGCALIAQ2AhwgACgCHCEEIAAoAgAhDgJAIANBAUYEQEEAIQMgACgCICIKQQhOBEACQCAOBEAgBCABKgIAQwAAAABdIgNBARAyDAELIARBARAnIQMLIAAgACgCIEF4aiIKNgIgCyAAKAIEBEAgAUMAAIC/QwAAgD8gAxs4AgALIAIEQEECQQEgAhsiA0EBIANBAUsbIQdBASEFA0BBACEDIApBCE4EQAJAIA4EQCAEIAIqAgBDAAAAAF0iA0EBEDIMAQsgBEEBECchAwsgACAAKAIgQXhqIgo2AiALIAAoAgQEQCACQwAAgL9DAACAPyADGzgCAAsgBUEBaiIFIAdHDQALC0EBIQcgCEUNASAIIAEoAgA2AgAMAQsgACALIAEgAiADIAtBHGogBSAFIAdBASALQRhqEHogCygCCLJDAAAAOJQhFCALKAIEskMAAAA4lCEXIAsoAhwhDyALKAIUIQ0gCygCECEMIAsoAgAhEQJAIANBAkYEQCAAIAAoAiAgDEH//35xIhJBAEdBA3QiEyANams2AiAgASACIAxBgMAASiIMGyENIAIgASAMGyEMIA8gE2shDwJAIBJFDQAgDgRAIAQgDCoCACANKgIElCAMKgIEIA0qAgCUk0MAAAAAXSIQQQEQMgwBCyAEQQEQJyEQCyAAIAxBAiAPIAUgBiAHIAhDAACAPyAJIAoQdSEHIA0gDCoCBCAQQQF0IgVBf2qylDgCACANIAwqAgBBASAFa7KUOAIEIAAoAgRFDQEgASAXIAEqAgCUOAIAIAEgFyABKgIElDgCBCACIBQgAioCAJQiFTgCACACIBQgAioCBJQ4AgQgASABKgIAIhQgFZM4AgAgAiAUIAIqAgCSOAIAIAEgASoCBCIUIAIqAgSTOAIEIAIgFCACKgIEkjgCBAwBCyALKAIMIQogACAAKAIgIA1rIg02AiAgCygCGCEEIA8gDyAKa0ECbSIKIA8gCkgbIgpBACAKQQBKGyIKIA8gCmsiDk4EQCAAIAEgAyAKIAUgBiAHIAhDAACAPyAJIAQQdSAAIAIgAyAAKAIgIA1rIApqIgpBaGpBACAKQRhKG0EAIAwbIA5qIAVBACAHQQAgFEEAIAQgBXUQdXIhBwwBCyAAIAIgAyAOIAVBACAHQQAgFEEAIAQgBXUQdSAAIAEgAyAAKAIgIA1rIA5qIg5BaGpBACAOQRhKG0EAIAxBgIABRxsgCmogBSAGIAcgCEMAAIA/IAkgBBB1ciEHCyAAKAIERQ0AAkAgA0ECRg0AQwAAAAAhFQJAIANBAUgEQAwBC0EAIQADQCAWIAIgAEECdCIFaioCACIUIAEgBWoqAgCUkiEWIBUgFCAUlJIhFSAAQQFqIgAgA0cNAAsLAkAgFyAXlCAVkiIVIBcgFpQiFCAUkiIUkiIWQ1JJHTpdRQRAIBUgFJMiFENSSR06XUEBcw0BCyACIAEgA0ECdBAFGgwBCyADQQFIDQFDAACAPyAWkZUhFkMAAIA/IBSRlSEYQQAhAANAIAEgAEECdCIFaiIKIBggFyAKKgIAlCIUIAIgBWoiBSoCACIVk5Q4AgAgBSAWIBQgFZKUOAIAIABBAWoiACADRw0ACwsgEUUNACADQQFIDQBBACEAA0AgAiAAQQJ0aiIFIAUqAgCMOAIAIABBAWoiACADRw0ACwsgC0EgaiQAIAcLiQIBB38jACIFIQggBSABIAJsIglBAnRBD2pBcHFrIgUkAAJAIANFBEAgAkEBSA0BIAFBAUghBgNAIAZFBEAgASAEbCEHQQAhAwNAIAUgAyAHakECdGogACACIANsIARqQQJ0aigCADYCACADQQFqIgMgAUcNAAsLIARBAWoiBCACRw0ACwwBCyACQQFIDQAgAkECdEGI9gFqIQogAUEBSCEGA0AgBkUEQCAKIARBAnRqKAIAIAFsIQdBACEDA0AgBSADIAdqQQJ0aiAAIAIgA2wgBGpBAnRqKAIANgIAIANBAWoiAyABRw0ACwsgBEEBaiIEIAJHDQALCyAAIAUgCUECdBAFGiAIJAAL4goCCn8CfSMAQSBrIgskACALIAg2AhggCyADNgIcIAAoAggiCSgCZCAJKAJgIAAoAgwgCSgCCCAGQQFqbGpBAXRqLgEAaiIKLQAAIQlBfyEPIAAoAhwhECAAKAIUIREgACgCACESAkACQCAGQX9GDQAgAkEDSA0AIAkgCmotAABBDGogA04NACAGQX9qIQkgASACQQF2IgNBAnRqIQIgBEEBRgRAIAsgCEEBcSAIQQF0cjYCGAsgACALIAEgAiADIAtBHGogBEEBakEBdSINIAQgCUEAIAtBGGoQeiALKAIQIQ8gCygCCLIhEyALKAIEsiEUIAsoAhQhCCALKAIMIQoCQCAEQQJIDQAgD0H//wBxRQ0AIA9BgcAATgRAIAogCkEFIAZrdWshCgwBCyAKIANBA3RBBiAGa3VqIgZBH3UgBnEhCgsgE0MAAAA4lCETIBRDAAAAOJQhFCALKAIcIQYgACAAKAIgIAhrIgg2AiAgBSADQQJ0akEAIAUbIQwgBiAGIAprQQJtIgogBiAKSBsiCkEAIApBAEobIgogBiAKayIGTgRAIAAgASADIAogDSAFIAkgFCAHlCALKAIYIg4QeCAAIAIgAyAAKAIgIAhrIApqIgpBaGpBACAKQRhKG0EAIA8bIAZqIA0gDCAJIBMgB5QgDiANdRB4IARBAXV0ciEJDAILIAAgAiADIAYgDSAMIAkgEyAHlCALKAIYIg4gDXUQeCECIAAgASADIAAoAiAgCGsgBmoiBkFoakEAIAZBGEobQQAgD0GAgAFHGyAKaiANIAUgCSAUIAeUIA4QeCACIARBAXV0ciEJDAELIAkgCUEBakEBdiIMIANBf2oiBiAKIAxqLQAASiIDGyIJIAkgDEEAIAMbIgxqQQFqQQF2IgMgBiADIApqLQAASiIJGyIOIA4gAyAMIAkbIglqQQFqQQF2IgMgBiADIApqLQAASiIMGyIOIA4gAyAJIAwbIglqQQFqQQF2IgMgBiADIApqLQAASiIMGyIOIA4gAyAJIAwbIglqQQFqQQF1IgMgBiADIApqLQAASiIMGyIOIA4gAyAJIAwbIgxqQQFqQQF1IgMgBiADIApqLQAASiIOGyEJIAMgDCAOGyIDBEAgAyAKai0AACEPCyAJIAMgBiAPayAJIApqLQAAIAZrShsiAwRAIAMgCmotAABBAWohDQsgACAAKAIgIA1rIgk2AiACQAJAIAlBf0oEQCADIQYMAQsgA0EBSARAIAMhBgwBCwNAIAAgCSANaiIJNgIgIANBf2oiBkUEQCAAIAk2AiAMAwsgACAJIAYgCmotAABBAWoiDWsiCTYCICAJQX9KDQEgA0EBSiEPIAYhAyAPDQALCyAGRQ0AIAZBCE4EQCAGQQdxQQhyIAZBA3ZBf2p0IQYLIBIEQCABIAIgBiARIAQgECAHIAAoAgQgACgCLBBoIQkMAgsgASACIAYgESAEIBAgBxBpIQkMAQsgACgCBEUEQEEAIQkMAQsgC0F/IAR0QX9zIgkgCHEiDTYCGCANRQRAQQAhCSABQQAgAkECdBAEGgwBCwJAIAUEQCACQQFOBEAgACgCKCEDQQAhBgNAIAEgBkECdCIJaiAFIAlqKgIAQwAAgDtDAACAuyADQY3M5QBsQd/mu+MDaiIDQYCAAnEbkjgCACAGQQFqIgYgAkcNAAsgACADNgIoCyANIQkMAQsgAkEBSA0AIAAoAighA0EAIQYDQCABIAZBAnRqIANBjczlAGxB3+a74wNqIgNBFHWyOAIAIAZBAWoiBiACRw0ACyAAIAM2AigLIAEgAiAHIAAoAiwQagsgC0EgaiQAIAkLiQIBB38jACIFIQggBSABIAJsIglBAnRBD2pBcHFrIgUkAAJAIANFBEAgAkEBSA0BIAFBAUghBgNAIAZFBEAgASAEbCEHQQAhAwNAIAUgAiADbCAEakECdGogACADIAdqQQJ0aigCADYCACADQQFqIgMgAUcNAAsLIARBAWoiBCACRw0ACwwBCyACQQFIDQAgAkECdEGI9gFqIQogAUEBSCEGA0AgBkUEQCAKIARBAnRqKAIAIAFsIQdBACEDA0AgBSACIANsIARqQQJ0aiAAIAMgB2pBAnRqKAIANgIAIANBAWoiAyABRw0ACwsgBEEBaiIEIAJHDQALCyAAIAUgCUECdBAFGiAIJAALzBICCn8DfSAAKAIkIRIgACgCHCENIAAoAhAhDCAAKAIAIQ5BASELAn8gBSgCACIQIAAoAggiEygCOCAAKAIMIg9BAXRqLgEAIAhBA3RqIghrQWBqIhEgCEEBdUEQQQQgBEECRiAJQQBHcSIIG2sgBEEBdEF+QX8gCBtqIghsIBBqIAhtIgggESAISBsiCEHAACAIQcAASBsiCEEETgRAIAhBB3FBAXRBkPcBai4BAEEOIAhBA3ZrdUEBakF+cSELCyALC0EBIAsgCRsgDyAMSBshCwJAAkACQAJAAkACQAJAAkACQAJAIA4EQCACIAMgCSAEIAAoAiwQayEIIA0QUCEQIAtBAUcEQAJAAn8CQCAJBEAgACgCMCIADQEgCCALbEGAQGtBDnUMAgsCQCAIIAtsIghBgEBrIg5BDnUiDCALTgRAIAwhAAwBCyAIQYDAAEgEQCAMIQAMAQsgACgCOEUEQCAMIQAMAQsgDkGAgH9xIAsiAG5BEHQiDkENdSAOQRB1bEGAgAJqQRB1IghBjntsQYCAAWpBD3VB1cAAaiAIbEEBdEGAgAJqQYCAfHFBgID0kH5qQRB1IAhsQYCAAWpBD3YgCGtBEHRBgICAgHhqQRB1IhFnIhRBgICAgAQgDmsiCEENdSAIQRB1bEGAgAJqQRB1IghBjntsQYCAAWpBD3VB1cAAaiAIbEEBdEGAgAJqQYCAfHFBgID0kH5qQRB1IAhsQYCAAWpBD3YgCGtBEHRBgICAgHhqQRB1IghnIg5rQQt0IBEgFEFvanRBEHRBEHUiEUHba2xBgIABakEPdUH8PWogEWxBgIABakEPdmsgCCAOQW9qdEEQdEEQdSIIQdtrbEGAgAFqQQ91Qfw9aiAIbEGAgAFqQQ92akEQdEEQdSAEQRd0QYCAgHxqQRB1bEGAgAFqQQ91IgggBSgCACIOSg0AQQAgDCAIQQAgDmtIGyEACyAHQQFMDQIMBwsgAEF/c0EfdkEAIAggC2xB//8BQYGAfiAIQYDAAEobIAttaiIIQQ51IAhBAEgbIgggC0F/aiALIAhKG2oLIQAgBEECTA0FIA0gAEEDbCIMIAtBAm0iCUEDbEEDaiIIIAlBf3NqIABqIAAgCUwiDhsgDEEDaiAIIAlrIABqIA4bIAggCWoQLSAAQQ50IgAgC24hCAwGCyAAQQFqIgggCyAAayIMQQFqIg8gACALQQF1IglMGyECIAlBAWoiAyADbCEDIA0gACAJTAR/IAAgCGxBAXUFIAMgDyAMQQJqbEEBdWsLIgkgAiAJaiADEC0gAEEOdCALbiEIDAcLIAlFDQZBACEJQQAhDAJAIAhBgcAASA0AIAAoAjQiCw0AQQEhDCAEQQFIDQAgC0UhDEEAIQsDQCADIAtBAnRqIgggCCoCAIw4AgAgC0EBaiILIARHDQALCyAEQQFIDQEgEiATKAIIIA9qQQJ0aioCACIVIBIgD0ECdGoqAgAiFiAWlEN9HZAmkiAVIBWUkpFDfR2QJpIiF5UhFSAWIBeVIRYDQCACIAlBAnQiC2oiCCAWIAgqAgCUIBUgAyALaioCAJSSOAIAIAlBAWoiCSAERw0ACwwBCyANEFAhECALQQFHDQFBACEMIAlFDQQLQQACf0EAIAUoAgBBEUgNABpBACAAKAIgQRFIDQAaIA4EQCANIAxBAhAvIAwMAQsgDUECECQLIAAoAjQbIQwMAwsCQAJAIARBA0gNACAJRQ0AIA0CfyANIAtBAm0iA0EBaiIIQQNsIgIgA2oiABAhIgkgAkgEQCAJQQNtDAELIAkgCEEBdGsLIglBA2wiCCACIANBf3NqIAlqIAkgA0wiDBsgCEEDaiACIANrIAlqIAwbIAAQIwwBC0EAIAdBAUwgCRtFBEAgDSALQQFqECYhCQwBCyANAn8gDSALQQF1IgJBAWoiCSAJbCIDECEiACACIAlsQQF1SARAIABBA3RBAXIQbEF/akEBdiIJQQFqIgAgCWxBAXYMAQsgAyALQQFqIgkgCUEBdCAAQX9zIANqQQN0QQFyEGxrQQF2IglrIgAgCyAJa0ECamxBAXVrCyICIAAgAmogAxAjCyAJQQ50IAtuIQgMAwsgDSAAIAtBAWoQMSAAQQ50IgAgC24hCCAJRQ0CCyALIABLBEBBACEMIARBAUgNASASIBMoAgggD2pBAnRqKgIAIhUgEiAPQQJ0aioCACIWIBaUQ30dkCaSIBUgFZSSkUN9HZAmkiIXlSEVIBYgF5UhFkEAIQkDQCACIAlBAnQiAGoiCyAWIAsqAgCUIBUgACADaioCAJSSOAIAIAlBAWoiCSAERw0ACwwBCyAEQQFIDQFBACEJA0AgAiAJQQJ0IgBqIgsgCyoCAEPzBDU/lCIVIAAgA2oiACoCAEPzBDU/lCIWkjgCACAAIBYgFZM4AgAgCUEBaiIJIARHDQALDAELIA0QUCEEIAUgBSgCACAEIBBrIgBrNgIADAELIA0QUCEJIAUgBSgCACAJIBBrIgBrNgIAQYCAASEJIAhBgIABRg0BIAgNAiAIIQwLIAogCigCAEF/IAZ0QX9zcTYCAEGAgH8hBEH//wEhA0EAIQlBACECDAILIAogCigCAEF/IAZ0QX9zIAZ0cTYCAEH//wEhAkEAIQxBACEDQYCAASEEDAELIAhBEHQiAkENdSACQRB1bEGAgAJqQRB1IglBjntsQYCAAWpBD3VB1cAAaiAJbEEBdEGAgAJqQYCAfHFBgID0kH5qQRB1IAlsQYCAAWpBD3YgCWtBEHRBgICAgHhqQRB1IgNnIgtBgICAgAQgAmsiCUENdSAJQRB1bEGAgAJqQRB1IglBjntsQYCAAWpBD3VB1cAAaiAJbEEBdEGAgAJqQYCAfHFBgID0kH5qQRB1IAlsQYCAAWpBD3YgCWtBEHRBgICAgHhqQRB1IgJnIglrQQt0IAMgC0FvanRBEHRBEHUiC0Hba2xBgIABakEPdUH8PWogC2xBgIABakEPdmsgAiAJQW9qdEEQdEEQdSIJQdtrbEGAgAFqQQ91Qfw9aiAJbEGAgAFqQQ92akEQdEEQdSAEQRd0QYCAgHxqQRB1bEGAgAFqQQ91IQRBACEMIAghCQsgASAANgIUIAEgCTYCECABIAQ2AgwgASACNgIIIAEgAzYCBCABIAw2AgALqAICBn8EfSABKgIAIQogAEEAIAJBAnQQBCEAAkAgASoCAEMAAAAAWw0AIAJBACACQQBKGyEGQQEhBANAIAMgBkYNAUEAIQJDAAAAACEJIAMEQANAIAkgACACQQJ0aioCACABIAMgAmtBAnRqKgIAlJIhCSACQQFqIgIgA0cNAAsLIAAgA0ECdGogCSABIANBAWoiB0ECdGoqAgCSjCAKlSIJOAIAIAMEQCAEQQF2IQhBACECA0AgACACQQJ0aiIFIAUqAgAiCyAJIAAgAyACQX9zakECdGoiBSoCACIMlJI4AgAgBSAMIAkgC5SSOAIAIAJBAWoiAiAIRw0ACwsgBEEBaiEEIAchAyAKIAogCSAJlJSTIgogASoCAENvEoM6lF1BAXMNAAsLC+QCAgd/AX0jAEEQayIEIQUgBCQAIARB4ABrIgckAEEAIQQDQCAHIARBAnRqIAEgBEF/c0EYakECdGooAgA2AgAgBEEBaiIEQRhHDQALIANBBE4EQCADQX1qIQkDQCAFIAAgBkECdCIEaiIBKAIANgIAIAUgACAEQQRyIghqKAIANgIEIAUgACAEQQhyIgpqKAIANgIIIAUgACAEQQxyIgtqKAIANgIMIAcgAUGgf2ogBRB9IAIgBGogBSgCADYCACACIAhqIAUoAgQ2AgAgAiAKaiAFKAIINgIAIAIgC2ogBSgCDDYCACAGQQRqIgYgCUgNAAsLIAYgA0gEQANAIAAgBkECdCIIaioCACEMIAZBGGshAUEAIQQDQCAMIAcgBEECdGoqAgAgACABIARqQQJ0aioCAJSSIQwgBEEBaiIEQRhHDQALIAIgCGogDDgCACAGQQFqIgYgA0cNAAsLIAVBEGokAAufBQICfwl9IAFBDGohAyABKgIIIQwgASoCBCEGIAEqAgAhByACKgIMIQggAioCCCEJIAIqAgQhCiACKgIAIQtBACEBA0AgAiAAKgIAIgUgAyoCACINlCAIkiIIOAIMIAIgDCAFlCAJkiIJOAIIIAIgBiAFlCAKkiIKOAIEIAIgByAFlCALkiILOAIAIAIgCCAAKgIEIgUgAyoCBCIHlJIiCDgCDCACIAkgDSAFlJIiCTgCCCACIAogDCAFlJIiCjgCBCACIAsgBiAFlJIiCzgCACACIAggACoCCCIFIAMqAggiBpSSIgg4AgwgAiAJIAcgBZSSIgk4AgggAiAKIA0gBZSSIgo4AgQgAiALIAwgBZSSIgs4AgAgAiAIIAAqAgwiBSADKgIMIgyUkiIIOAIMIAIgCSAGIAWUkiIJOAIIIAIgCiAHIAWUkiIKOAIEIAIgCyANIAWUkiILOAIAIANBEGohAyAAQRBqIQAgAUEEaiIBQRVIDQALQRgiAUEBciEEIAFBGEgEQCADKgIAIQ0gAiAHIAAqAgAiBZQgAioCAJI4AgAgAiAGIAWUIAIqAgSSOAIEIAIgDCAFlCACKgIIkjgCCCACIAUgDZQgAioCDJI4AgwgA0EEaiEDIABBBGohAAsgBEEBaiEBIARBGEgEQCADKgIAIQcgAiAGIAAqAgAiBZQgAioCAJI4AgAgAiAMIAWUIAIqAgSSOAIEIAIgDSAFlCACKgIIkjgCCCACIAUgB5QgAioCDJI4AgwgA0EEaiEDIABBBGohAAsgAUEYSARAIAMqAgAhBSACIAwgACoCACIGlCACKgIAkjgCACACIA0gBpQgAioCBJI4AgQgAiAHIAaUIAIqAgiSOAIIIAIgBiAFlCACKgIMkjgCDAsL/wQCCX8DfSMAQRBrIgUhBiAFJAAgBUHgAGsiCSIFJAAgBSADQRhqIgdBAnRBD2pBcHFrIggkAEEAIQUCfwNAIAkgBUECdGogASAFQX9zQRhqQQJ0aigCADYCACAFQQFqIgVBGEcNAAtBACEFA0AgCCAFQQJ0aiAEIAVBf3NBGGpBAnRqKgIAjDgCACAFQQFqIgVBGEcNAAsgB0EYIgVKCwRAIAggBUECdGpBACAHIAVrQQJ0EAQaC0EAIQUgA0EETgRAIANBfWohCwNAIAYgACAFQQJ0IgdqKAIANgIAIAYgACAHQQRyIgxqKAIANgIEIAYgACAHQQhyIg1qKAIANgIIIAYgACAHQQxyIg5qKAIANgIMIAkgByAIaiAGEH0gCCAFQRhqQQJ0aiIKIAYqAgAiD4w4AgAgAiAHaiAPOAIAIAYgBioCBCAPIAEqAgCUkyIQOAIEIAogEIw4AgQgAiAMaiAQOAIAIAYgBioCCCAQIAEqAgCUkyAPIAEqAgSUkyIROAIIIAogEYw4AgggAiANaiAROAIAIAogBioCDCARIAEqAgCUkyAQIAEqAgSUkyAPIAEqAgiUkyIPjDgCDCACIA5qIA84AgAgBUEEaiIFIAtIDQALCyAFIANIBEADQCAAIAVBAnQiB2oqAgAhD0EAIQEDQCAPIAkgAUECdGoqAgAgCCABIAVqQQJ0aioCAJSTIQ8gAUEBaiIBQRhHDQALIAggBUEYakECdGogDzgCACACIAdqIA84AgAgBUEBaiIFIANHDQALC0EAIQEDQCAEIAFBAnRqIAIgAUF/cyADakECdGooAgA2AgAgAUEBaiIBQRhHDQALIAZBEGokAAuoAgIDfwF9IwAiByEJIAcgBUECdEEPakFwcWsiBiQAAn8gAwRAIAVBAU4EQCAGIAAgBUECdBAFGgsgA0EBTgRAQQAhBwNAIAYgB0ECdCIIaiAAIAhqKgIAIAIgCGoqAgAiCpQ4AgAgBiAHQX9zIAVqQQJ0IghqIAogACAIaioCAJQ4AgAgB0EBaiIHIANHDQALCyAGIQALIAALIAAgASAFIARrIgIgBEEBahCBAUEAIQggBEEATgRAA0BDAAAAACEKIAIgCGoiByAFSARAA0AgCiAAIAdBAnRqKgIAIAAgByAIa0ECdGoqAgCUkiEKIAdBAWoiByAFRw0ACwsgASAIQQJ0aiIHIAogByoCAJI4AgAgBCAIRyEHIAhBAWohCCAHDQALCyAJJAAL3AUCB38LfSMAQTBrIgUkACACQQF1IQggACgCACEHIAJBBE4EQCAIQQIgCEECShshCkEBIQYDQCABIAZBAnRqIAZBA3QiCSAHaiILKgIAIAtBfGoqAgAgByAJQQRyaioCAJJDAAAAP5SSQwAAAD+UOAIAIAZBAWoiBiAKRw0ACwsgASAHKgIEQwAAAD+UIAcqAgCSQwAAAD+UIgw4AgAgA0ECRgRAIAAoAgQhByABIAJBBE4EfSAIQQIgCEECShshCkEBIQYDQCABIAZBAnRqIgkgCSoCACAGQQN0IgkgB2oiCyoCACALQXxqKgIAIAcgCUEEcmoqAgCSQwAAAD+UkkMAAAA/lJI4AgAgBkEBaiIGIApHDQALIAEqAgAFIAwLIAcqAgRDAAAAP5QgByoCAJJDAAAAP5SSOAIAC0EAIQYgASAFQRBqQQBBAEEEIAggBBB/IAUgBSoCEENHA4A/lDgCECAFIAUqAhQiDCAMQ28SAzyUQ28SAzyUkzgCFCAFIAUqAhgiDCAMQ28SgzyUQ28SgzyUkzgCGCAFIAUqAhwiDCAMQ6abxDyUQ6abxDyUkzgCHCAFIAUqAiAiDCAMQ28SAz2UQ28SAz2UkzgCICAFIAVBEGpBBBB7IAUgBSoCCEO9nzo/lCIMOAIIIAUgBSoCDEMq9ic/lCINOAIMIAUgBSoCBEMoXE8/lCIOOAIEIAUgBSoCAENmZmY/lCIPOAIAIAJBAk4EQCANIAxDzcxMP5SSIREgDCAOQ83MTD+UkiESIA4gD0PNzEw/lJIhEyANQ83MTD+UIRQgD0PNzEw/kiEVQwAAAAAhDEMAAAAAIQ1DAAAAACEOQwAAAAAhDwNAIAEgBkECdGoiByAUIBCUIBEgDJQgEiANlCATIA6UIBUgD5QgByoCACIWkpKSkpI4AgAgDCEQIA0hDCAOIQ0gDyEOIBYhDyAGQQFqIgYgCEcNAAsLIAVBMGokAAupBgIPfw99An8gBEEETgRAIARBfWohESADQXxxIRIgA0F9aiENIANBBEghEwNAIAEgEEECdCIOaiIFQQxqIQYgBSoCCCEVIAUqAgQhFyAFKgIAIRhDAAAAACEWQwAAAAAhGUMAAAAAIRpDAAAAACEbIAAhBUEAIQdBACEIQQAhCUEAIQpBACELQQAhDCATRQRAA0AgFiAFKgIAIhwgBioCACIUlJIgBSoCBCIdIAYqAgQiHpSSIAUqAggiHyAGKgIIIiGUkiAFKgIMIiAgBioCDCIilJIhFiAZIBUgHJSSIBQgHZSSIB4gH5SSICEgIJSSIRkgGiAXIByUkiAVIB2UkiAUIB+UkiAeICCUkiEaIBsgGCAclJIgFyAdlJIgFSAflJIgFCAglJIhGyAGQRBqIQYgBUEQaiEFIB4hGCAiIRUgISEXIAdBBGoiByANSA0ACyAbvCEIIBq8IQkgGbwhCiAWvCELIBQhFiASIQwLIAxBAXIhBwJ/IAwgA04EQCAFIQ8gBgwBCyAFQQRqIQ8gBSoCACIUIAYqAgAiFpQgC76SvCELIBUgFJQgCr6SvCEKIBcgFJQgCb6SvCEJIBggFJQgCL6SvCEIIAZBBGoLIQwgB0EBaiEGAn8gByADTgRAIA8hByAMDAELIA9BBGohByAPKgIAIhQgDCoCACIYlCALvpK8IQsgFiAUlCAKvpK8IQogFSAUlCAJvpK8IQkgFyAUlCAIvpK8IQggDEEEagshBSACIA5qIAYgA0gEfyAHKgIAIhQgBSoCAJQgC76SvCELIBggFJQgCr6SvCEKIBYgFJQgCb6SvCEJIBUgFJQgCL6SvAUgCAs2AgAgAiAOQQRyaiAJNgIAIAIgDkEIcmogCjYCACACIA5BDHJqIAs2AgAgEEEEaiIQIBFIDQALIARBfHEhDQsgDSAESAsEQCADQQFIIQkDQCANQQJ0IQhDAAAAACEVIAlFBEAgASAIaiEHQQAhBgNAIBUgACAGQQJ0IgVqKgIAIAUgB2oqAgCUkiEVIAZBAWoiBiADRw0ACwsgAiAIaiAVOAIAIA1BAWoiDSAERw0ACwsLywgCC38GfSMAIgUhDiAFIAJBfHFBD2pBcHFrIggiBSQAIAUgAiADaiIKQXxxQQ9qQXBxayIGIgUkACACQQJ1IQkgBSADQQF1Ig1BAnRBD2pBcHFrIgwkACACQQROBEAgCUEBIAlBAUobIQdBACEFA0AgCCAFQQJ0aiAAIAVBA3RqKAIANgIAIAVBAWoiBSAHRw0ACwsgCkEETgRAIApBAnUiBUEBIAVBAUobIQdBACEFA0AgBiAFQQJ0aiABIAVBA3RqKAIANgIAIAVBAWoiBSAHRw0ACwsgCCAGIAwgCSADQQJ1IgcQgQFDAACAPyESIAJBA0oEQEEAIQUDQCASIAYgBUECdGoqAgAiESARlJIhEiAFQQFqIgUgCUcNAAsLQQAhCgJAIANBA0wEQEEBIQsMAQtDAACAvyEUQQEhC0EAIQVDAACAvyEWA0ACQCAMIAVBAnQiCGoqAgAiEUMAAAAAXkEBcw0AIBMgEUPMvIwrlCIRIBGUIhGUIBYgEpReQQFzDQAgFSARlCAUIBKUXgRAIAohCyAFIQogFCEWIBEhFCAVIRMgEiEVDAELIAUhCyARIRYgEiETCyASIAYgBSAJakECdGoqAgAiESARlCAGIAhqKgIAIhEgEZSTkkMAAIA/lyESIAVBAWoiBSAHRw0ACwsCQCADQQFMBEAgAkEBdSEJDAELIA1BASANQQFKGyEPIAJBAXUhCSALQQF0IRAgCkEBdCELQQAhBwNAIAwgB0ECdCIGaiIKQQA2AgACQCAHIAtrIgUgBUEfdSIFaiAFc0EDTgRAIAcgEGsiBSAFQR91IgVqIAVzQQJKDQELQwAAAAAhEiACQQJOBEAgASAGaiEIQQAhBQNAIBIgACAFQQJ0IgZqKgIAIAYgCGoqAgCUkiESIAVBAWoiBSAJRw0ACwsgCiASQwAAgL+XOAIACyAHQQFqIgcgD0cNAAsLQwAAgD8hEiACQQFKBEBBACEFA0AgEiABIAVBAnRqKgIAIhEgEZSSIRIgBUEBaiIFIAlHDQALC0EAIQgCQCADQQFMBEBBACEADAELQwAAgL8hFEMAAAAAIRVBACEAQQAhBUMAAAAAIRNDAACAvyEWA0ACQCAMIAVBAnQiBmoqAgAiEUMAAAAAXkEBcw0AIBMgEUPMvIwrlCIRIBGUIhGUIBYgEpReQQFzDQAgFSARlCAUIBKUXgRAIAUhACAUIRYgESEUIBUhEyASIRUMAQsgESEWIBIhEwsgEiABIAUgCWpBAnRqKgIAIhEgEZQgASAGaioCACIRIBGUk5JDAACAP5chEiAFQQFqIgUgDUcNAAsgAEEBSA0AIAAgDUF/ak4NAEEBIQggDCAAQQJ0aiIFKgIEIhEgBUF8aioCACISkyAFKgIAIhMgEpNDMzMzP5ReDQBBf0EAIBIgEZMgEyARk0MzMzM/lF4bIQgLIAQgAEEBdCAIazYCACAOJAALmAgCDH8MfSACIAIoAgBBAm0iBkH/AyAGQYAESBsiCTYCACAAQYAQaiEGIAFBAm0hCiADQQJtIRAgAUECTgRAIAYgCUECdGshB0EAIQMDQCAXIAYgA0ECdCIAaioCACISIAAgB2oqAgCUkiEXIBQgEiASlJIhFCADQQFqIgMgCkcNAAsLIwBBkBBrIgwgFDgCAEEBIQMgFCESA0AgDCADQQJ0IgBqIBIgBiAAayoCACITIBOUkiAGIAogA2tBAnRqKgIAIhIgEpSTIhJDAAAAAJc4AgAgA0GABEchACADQQFqIQMgAA0ACyAEQwAAAD+UIRkgCUEBdCENIBcgFCAMIAlBAnRqKgIAIhiUQwAAgD+SkZUiFkOamVk/lCEaIBZDZmZmP5QhGyAWQzMzMz+UIRxBAiEIIAkhBQNAIAggDWogCEEBdCIDbiILQQdOBEACfyAIQQJGBEAgCSAJIAtqIgMgA0GABEobDAELIA0gCEECdEGg9wFqKAIAbCAIaiADbgtBAnQhDiALQQJ0IQ9DAAAAACESAkAgAUECSARAQwAAAAAhEwwBCyAGIA5rIQcgBiAPayERQQAhA0MAAAAAIRMDQCASIAYgA0ECdCIAaioCACIVIAAgB2oqAgCUkiESIBMgFSAAIBFqKgIAlJIhEyADQQFqIgMgCkcNAAsLIBMgEpJDAAAAP5QiEyAUIAwgD2oqAgAgDCAOaioCAJJDAAAAP5QiHZRDAACAP5KRlSIVAn0gGgJ9IAQgCyAQayIDIANBH3UiA2ogA3MiA0ECSA0AGkMAAAAAIANBAkcNABogGUMAAAAAIAggCGxBBWwgCUgbCyISk0PNzMw+lyALQRVIDQAaIBwgEpNDmpmZPpcgC0EOTg0AGiAbIBKTQwAAAD+XC15BAXNFBEAgFSEWIBMhFyAdIRggCyEFCyAIQQFqIghBEEcNAQsLQwAAAAAhEkMAAIA/IRQgGCAXQwAAAACXIhNfRQRAIBMgGEMAAIA/kpUhFAsCQCABQQJIBEBDAAAAACEVQwAAAAAhEwwBCyAGQQEgBWtBAnRqIQdBACEDA0AgEiAGIANBAnQiAGoqAgAgACAHaioCAJSSIRIgA0EBaiIDIApHDQALIAYgBUECdGshB0EAIQNDAAAAACEVA0AgFSAGIANBAnQiAGoqAgAgACAHaioCAJSSIRUgA0EBaiIDIApHDQALIAYgBUF/c0ECdGohB0EAIQNDAAAAACETA0AgEyAGIANBAnQiAGoqAgAgACAHaioCAJSSIRMgA0EBaiIDIApHDQALCyACQQ8gEyASkyAVIBKTQzMzMz+UXgR/QQEFQX9BACASIBOTIBUgE5NDMzMzP5ReGwsgBUEBdGoiAyADQQ9IGzYCACAWIBQgFCAWXhsLvxICFX8cfSAAKAIIIQgjAEEgayISQQE2AgAgAEEMaiEEQQEhBQNAIAQgAyICQQJ0IgZBAnJqLwEAIQkgEiACQQFqIgNBAnRqIAUgBCAGai4BAGwiBTYCACAJQQFHDQALIAhBACAIQQBKGyEUIANBAnQgAGouAQohEQNAIBEhB0EAIQNBASERAkAgACACIgsEfyALQQJ0IABqLgEKIREgC0EBdAUgAwtBAXRqLgEMQX5qIgJBA0sNAAJAAkACQAJAIAJBAWsOAwIBAwALIAEhAiASIAtBAnRqKAIAIgZBAUgNAwNAIAIgAioCACIYIAIqAiAiF5M4AiAgAiAXIBiSOAIAIAIgAkEkaiIEKgIAIhggAioCBCIXkjgCBCAEIBcgGJM4AgAgAiACKgIIIhggAioCKCIXIAJBLGoiBCoCACIZkkPzBDU/lCIakzgCKCAEIAJBDGoiBSoCACIbIBkgF5ND8wQ1P5QiF5M4AgAgAiAYIBqSOAIIIAUgFyAbkjgCACACKgIwIRggAiACKgIQIhcgAkE0aiIEKgIAIhmTOAIwIAQgGCACQRRqIgUqAgAiGpI4AgAgBSAaIBiTOAIAIAIgGSAXkjgCECACIAIqAhgiGCACQTxqIgQqAgAiFyACKgI4IhmTQ/MENT+UIhqTOAI4IAQgAkEcaiIFKgIAIhsgFyAZkkPzBDW/lCIXkzgCACAFIBcgG5I4AgAgAiAYIBqSOAIYIAJBQGshAiADQQFqIgMgBkcNAAsMAwsgEiALQQJ0aigCACENIAdBAUYEQCABIQIgDUEBSA0DA0AgAiACKgIAIhggAioCECIXkiIZIAIqAggiGiACKgIYIhuSIhyTOAIQIAIgGSAckjgCACACQRRqIgQgAioCBCIZIAQqAgAiHJIiICACQQxqIgQqAgAiIiACQRxqIgUqAgAiHpIiH5M4AgAgBSAZIByTIhkgGiAbkyIakjgCACACIBggF5MiGCAiIB6TIheTOAIYIAQgGSAakzgCACACIBggF5I4AgggAiAgIB+SOAIEIAJBIGohAiADQQFqIgMgDUcNAAsMAwsgDUEBSA0CIAdBA2whDiAHQQF0IQ8gDSAUdCIKQQNsIRAgCkEBdCEVIAAoAjAhFkEAIRMDQCAHQQFOBEAgASARIBNsQQN0aiECQQAhDCAWIgMhBCADIQUDQCACIAdBA3RqIgYqAgQhGCAGKgIAIRcgAiAOQQN0aiIJKgIEIRkgCSoCACEaIAUqAgAhGyAFKgIEIRwgAyoCACEgIAMqAgQhIiACIAQqAgAiHiACIA9BA3RqIggqAgQiH5QgCCoCACIdIAQqAgQiIZSSIiUgAioCBCIjkiIkOAIEIAIgHSAelCAfICGUkyIeIAIqAgAiH5IiHTgCACAIICQgGyAYlCAXIByUkiIhICAgGZQgGiAilJIiJpIiJ5M4AgQgCCAdIBcgG5QgGCAclJMiGCAaICCUIBkgIpSTIheSIhmTOAIAIAIgGSACKgIAkjgCACACICcgAioCBJI4AgQgBiAjICWTIhkgGCAXkyIYkzgCBCAGIB8gHpMiFyAhICaTIhqSOAIAIAkgGSAYkjgCBCAJIBcgGpM4AgAgAkEIaiECIAMgEEEDdGohAyAEIBVBA3RqIQQgBSAKQQN0aiEFIAxBAWoiDCAHRw0ACwsgE0EBaiITIA1HDQALDAILIBIgC0ECdGooAgAiEEEBSA0BIAdBAXQhDCAAKAIwIg8gECAUdCIIIAdsQQN0aioCBCEYIAhBAXQhCkEAIQ4DQCABIA4gEWxBA3RqIQIgDyIEIQUgByEJA0AgAiAHQQN0aiIDIAIqAgAgAyoCACIXIAUqAgAiGZQgAyoCBCIaIAUqAgQiG5STIhwgAiAMQQN0aiIGKgIAIiAgBCoCACIilCAGKgIEIh4gBCoCBCIflJMiHZIiIUMAAAA/lJM4AgAgAyACKgIEIBkgGpQgFyAblJIiFyAiIB6UICAgH5SSIhmSIhpDAAAAP5STOAIEIAIgISACKgIAkjgCACACIBogAioCBJI4AgQgBiAYIBcgGZOUIhcgAyoCAJI4AgAgBiADKgIEIBggHCAdk5QiGZM4AgQgAyADKgIAIBeTOAIAIAMgGSADKgIEkjgCBCACQQhqIQIgBCAKQQN0aiEEIAUgCEEDdGohBSAJQX9qIgkNAAsgDkEBaiIOIBBHDQALDAELIBIgC0ECdGooAgAiEEEBSA0AIAAoAjAiCSAQIBR0Ig4gB2wiAkEEdGoiAyoCBCEYIAMqAgAhFyAJIAJBA3RqIgIqAgQhGSACKgIAIRogB0ECdCEVIAdBA2whEyAHQQF0IQ1BACEPA0AgB0EBTgRAIAEgDyARbEEDdGoiAiAHQQN0aiEDIAIgDUEDdGohBCACIBNBA3RqIQUgAiAVQQN0aiEGQQAhDANAIAIqAgAhGyACIAIqAgQiHCAJIAwgDmwiCEEEdGoiCioCACIeIAQqAgQiH5QgBCoCACIdIAoqAgQiIZSSIiUgCSAIQRhsaiIKKgIAIiMgBSoCBCIklCAFKgIAIiYgCioCBCInlJIiKJIiICAJIAhBA3RqIgoqAgAiKSADKgIEIiqUIAMqAgAiKyAKKgIEIiyUkiItIAkgCEEFdGoiCCoCACIuIAYqAgQiL5QgBioCACIwIAgqAgQiMZSSIjKSIiKSkjgCBCACIBsgHSAelCAfICGUkyIdICYgI5QgJCAnlJMiIZIiHiArICmUICogLJSTIiMgMCAulCAvIDGUkyIkkiIfkpI4AgAgAyAYIB0gIZMiHZQgGSAjICSTIiGUkiIjIBwgFyAglCAaICKUkpIiJJI4AgQgAyAbIBcgHpQgGiAflJKSIiYgGCAlICiTIiWUIBkgLSAykyInlJIiKJM4AgAgBiAkICOTOAIEIAYgKCAmkjgCACAEIBggIZQgGSAdlJMiHSAcIBogIJQgFyAilJKSIhySOAIEIAQgGSAllCAYICeUkyIgIBsgGiAelCAXIB+UkpIiG5I4AgAgBSAcIB2TOAIEIAUgGyAgkzgCACAGQQhqIQYgBUEIaiEFIARBCGohBCADQQhqIQMgAkEIaiECIAxBAWoiDCAHRw0ACwsgD0EBaiIPIBBHDQALCyALQX9qIQIgC0EASg0ACwtuAgV/An0gACgCACIEQQFOBEAgACoCBCEIIAAoAiwhBQNAIAEgA0EDdGoiBioCACEJIAIgBSADQQF0ai4BAEEDdGoiByAIIAYqAgSUOAIEIAcgCCAJlDgCACADQQFqIgMgBEcNAAsLIAAgAhCEAQv4BgIPfwV9IwAiCCESIAAoAgAiD0EBdSEKIAAgBUECdGooAggiECoCBCEYIAAoAhghDSAFQQFOBEBBACEAA0AgCiIPQQF1IQogDSAPQQJ0aiENIABBAWoiACAFRw0ACwsgBEEBdEF8cSIHIAEgCkECdCIFampBfGohACAIIAVBD2pBcHFrIgsiCCQAIARBA2pBAnUhESABIAdqIQUgCCAPQQJ1IgxBA3RBD2pBcHFrIggkAAJ/IARBAUgEQEEAIQcgCwwBCyADIAdqIglBfGohDiARQQEgEUEBShsiB0EBdCETQQAgCmtBAnQhFCALIQEDQCABIA4qAgAiFiAFIApBAnRqKgIAlCAJKgIAIhcgACoCAJSSOAIAIAEgFyAFKgIAlCAWIAAgFGoqAgCUkzgCBCAOQXhqIQ4gCUEIaiEJIABBeGohACAFQQhqIQUgAUEIaiEBIBVBAWoiFSAHRw0ACyALIBNBAnRqCyEBAn8gByAMIBFrIglIBEADQCABIAAoAgA2AgAgASAFKAIANgIEIABBeGohACAFQQhqIQUgAUEIaiEBIAdBAWoiByAJSA0ACyAJIQcLIAcgDEgLBEAgAyAEQQJ0akF8aiEJQQAgCmtBAnQhDgNAIAEgCSoCACAAKgIAlCADKgIAIAUgDmoqAgCUkzgCACABIAkqAgAgBSoCAJQgAyoCACAAIApBAnRqKgIAlJI4AgQgCUF4aiEJIANBCGohAyAAQXhqIQAgBUEIaiEFIAFBCGohASAHQQFqIgcgDEcNAAsLIA9BA0wEQCAQIAgQhAEgEiQADwsgDEEBIAxBAUobIQFBACEAA0AgCCAQKAIsIABBAXRqLgEAQQN0aiIFIBggDSAAIAxqQQJ0aioCACIWIAsqAgAiF5QgDSAAQQJ0aioCACIZIAsqAgQiGpSSlDgCBCAFIBggGSAXlCAWIBqUk5Q4AgAgC0EIaiELIABBAWoiACABRw0ACyAQIAgQhAFBACEAIAIgCkF/aiAGbEECdGohBUEAIAZBAXQiB2tBAnQhCgNAIAIgCCoCBCIWIA0gACAMakECdGoqAgAiF5QgCCoCACIYIA0gAEECdGoqAgAiGZSTOAIAIAUgFyAYlCAWIBmUkjgCACAIQQhqIQggBSAKaiEFIAIgB0ECdGohAiAAQQFqIgAgAUcNAAsgEiQAC4MFAgl/Bn0gACgCACIHQQF1IQogACgCGCEJIAVBAU4EQANAIAoiB0EBdSEKIAkgB0ECdGohCSAIQQFqIgggBUcNAAsLIAIgBEEBdEF8cWohCCAAIAVBAnRqKAIIIQwCQCAHQQNMBEAgDCAIEIQBDAELIAdBAnUiBUEBIAVBAUobIQ1BACEHIAEgCkF/aiAGbEECdGohACAMKAIsIQtBACAGQQF0Ig5rQQJ0IQ8DQCAIIAsuAQBBA3QiBkEEcmogACoCACISIAkgB0ECdGoqAgAiE5QgASoCACIQIAkgBSAHakECdGoqAgAiEZSSOAIAIAYgCGogEyAQlCASIBGUkzgCACALQQJqIQsgACAPaiEAIAEgDkECdGohASAHQQFqIgcgDUcNAAsgDCAIEIQBIAVBAWpBAXUiB0EBIAdBAUobIQsgCCAKQQJ0aiEBQQAhBwNAIAFBfGoiACoCACESIAFBeGoiASoCACETIAggCCoCBCIQIAkgB0ECdGoqAgAiEZQgCCoCACIUIAkgBSAHakECdGoqAgAiFZSSOAIAIAAgECAVlCAUIBGUkzgCACABIBIgCSAFIAdBf3MiAGpBAnRqKgIAIhCUIBMgCSAAIApqQQJ0aioCACIRlJI4AgAgCCASIBGUIBMgEJSTOAIEIAhBCGohCCAHQQFqIgcgC0cNAAsLIARBAm0hASAEQQJOBEAgAiAEQQJ0IghqIQkgAyAIaiEIQQAhBwNAIAIgAioCACISIAhBfGoiCCoCACITlCAJQXxqIgkqAgAiECADKgIAIhGUkzgCACAJIBAgE5QgEiARlJI4AgAgA0EEaiEDIAJBBGohAiAHQQFqIgcgAUcNAAsLCyEAQew8KAIAQQJ0QeDAAGogAGxB8DwoAgBBBXRqQdwAagutAQEBfyACQQJNBH8gAEUEQEF5DwsgAEEAQew8KAIAQQJ0QeDAAGogAmxB8DwoAgBBBXRqQdwAahAEIgNB6Dw2AgBB7DwoAgAhACADQgE3AhAgAyACNgIMIAMgAjYCCCADIAA2AgRB9DwoAgAhACADQQE2AhwgAyACQQFGNgIgIANBADYCJCADIAA2AhggA0G8H0EAEIoBGiADIAEQTCICNgIQQQBBfyACGwVBfwsLwwYBBX8jAEEQayIDJAAgAyACNgIMQXshBAJAAkAgAUHFYGoiAkEUSwRAIAFB6bF/aiIBQQlLDQICQAJAAkACQAJAAkAgAUEBaw4JAggACAEICAQFAwsgAyADKAIMIgFBBGo2AgxBfyEEIAEoAgAiAUEASA0HIAEgACgCACgCCE4NByAAIAE2AhQMBgsgAyADKAIMIgFBBGo2AgxBfyEEIAEoAgAiAUEBSA0GIAEgACgCACgCCEoNBiAAIAE2AhgMBQsgAyADKAIMIgFBBGo2AgxBfyEEIAEoAgAiAUF/akEBSw0FIAAgATYCDAwECyADIAMoAgwiAUEEajYCDCABKAIAIgFFBEBBfyEEDAULIAEgACgCLDYCAEEAIQQgAEEANgIsDAQLIAMgAygCDCIBQQRqNgIMIAEoAgAiAUUEQEF/IQQMBAsgASAAKAIANgIADAILIAMgAygCDCIBQQRqNgIMIAAgASgCADYCHAwBCwJAAkACQAJAAkACQCACQQFrDhQEBwcCBwMHBwcHBwcHBwcHBwcBAAULIAMgAygCDCIBQQRqNgIMIAEoAgAiAUUEQEF/IQQMBwsgASAAKAIgNgIADAULIAMgAygCDCIBQQRqNgIMQX8hBCABKAIAIgFBAUsNBSAAIAE2AiAMBAsgAyADKAIMIgFBBGo2AgwgASgCACIBRQRAQX8hBAwFCyABIAAoAig2AgAMAwsgAyADKAIMIgFBBGo2AgwgASgCACIBRQRAQX8hBAwECyABIAAoAjw2AgAMAgsgACgCBCEFQQAhBCAAQShqQQAgACgCACICKAIIIgFBBXQgAigCBEECdEHgwABqIAAoAggiAmxqQTRqEAQaIAFBAU4EQCAAIAVBgBBqIAJsQQJ0aiACQeAAbGogAUEDdCICakHcAGoiBSACaiEGIAFBAXQiAUEBIAFBAUobIQdBACEBA0AgBiABQQJ0IgJqQYCAgI98NgIAIAIgBWpBgICAj3w2AgAgAUEBaiIBIAdHDQALCyAAQQE2AjgMAgsgAyADKAIMIgFBBGo2AgwgASgCACIBRQRAQX8hBAwCCyABIAAoAgQgACgCEG02AgALQQAhBAsgA0EQaiQAIAQLnxgCJX8DfSMAQdAAayITJAAgACgCCCEZIBMiEEEANgIMIBBBADYCCEF/IQkCQCAAKAIAIgsoAiQiFkEASA0AIAAgCygCBCIjQYAQaiIKIBlsQQJ0aiAZQeAAbGpB3ABqIg4gCygCCCINQQN0IgZqIhcgBmoiGiAGaiEoIAAoAhAgBGwhBCANQQF0IRwgACgCGCEMIAAoAhQhDyAAKAIMIRIgCygCICEdIAsoAiwhBwNAIAQgByAIdEcEQCAIIBZIIQYgCEEBaiEIIAYNAQwCCwsgAkH7CUsNACADRQ0AIBlBASAZQQFKGyEWQQAhBkEAIARrQQJ0IREDQCAGQQJ0IgcgEEEYamogACAGIApsQQJ0akHcAGoiCTYCACAQQRBqIAdqIAkgEWpBgEBrNgIAIAZBAWoiBiAWRw0ACyABQQAgAkEBShtFBEAgACAEIAgQjAEgEEEQaiADIAQgGSAAKAIQIAtBEGogAEHUAGoQjQEgBCAAKAIQbSEJDAELIAsoAgwhHkEAIQYgACAAKAI0QQBHNgI4IAVFBEAgEEEgaiABIAIQICAQQSBqIQULQQEhHwJAIBJBAUcNACANQQFIDQADQCAOIAZBAnRqIgcgByoCACIrIA4gBiANakECdGoqAgAiLCArICxeGzgCACAGQQFqIgYgDUcNAAsLAn8gBSgCHGciByAFKAIUakFgaiIGIAJBA3QiFEgEQEEAIR9BACAGQQFHDQEaIAVBDxAkIh9FBEBBACEfQQEhBkEADAILIAUoAhxnIQcLIAUgFCAHa0EgajYCFCAUIQZBAQshKUMAAAAAISsCQCAPDQAgBkEQaiAUSg0AAn1DAAAAACAFQQEQJEUNABogBSAFQQYQJiIGQQRqECdBECAGdGohBiAFQQMQJyEHIAUoAhQgBSgCHGdqQWJqIBRMBEAgBUHg9wFBAhAlISALIAZBf2ohJCAHQQFqskMAAMA9lAshKyAFKAIUIAUoAhxnakFgaiEGCyAGQQNqIQYCQCAIRQ0AIAYgFEoNACAFQQMQJCEYIAUoAhQgBSgCHGdqQWNqIQYLIAsgDyAMIA4gBiAUTAR/IAVBAxAkBUEACyAFIBIgCBBYIBMgDUECdEEPakFwcWsiISIbJAAgCEEARyAFKAIUIAUoAhxnakFgaiIJQQJBBCAYGyIGQQFyaiAFKAIEQQN0IgdNcSEBQQAhEQJAIA8gDE4iFQ0AIAYgCWogByABayITTQRAIAUgBhAkIREgBSgCFCAFKAIcZ2pBYGohCQsgISAPQQJ0aiARNgIAIA9BAWoiBiAMRg0AQQRBBSAYGyEKIBEhBwNAIAkgCmogE00EQCAFIAoQJCAHcyIHIBFyIREgBSgCFCAFKAIcZ2pBYGohCQsgISAGQQJ0aiAHNgIAIAZBAWoiBiAMRw0ACwtBACEGAkAgAUUNACAIQQN0QYCxAWoiByARIBhBAnQiCWpqLQAAIAcgESAJQQJyamotAABGDQAgBUEBECRBAXQhBgsgFUUEQCAGIBhBAnRqIQkgCEEDdCEKIA8hBgNAICEgBkECdGoiByAKIAkgBygCAGpqQYCxAWosAAA2AgAgBkEBaiIGIAxHDQALC0ECISUgBSgCFCAFKAIcZ2pBZGogFEwEQCAFQeP3AUEFECUhJQsgGyANQQJ0QQ9qQXBxIgZrIiYiByQAIAsgJiAIIBIQTkEGIQEgAkEGdCEiIAcgBmsiGyInJAAgBRBQIQcCQCAVBEAgIiEJDAELIA8hCiAiIQkDQCAKQQFqIQIgCkECdCEVAkACQAJAIAFBA3QgB2ogCUgEQEEAIQYgFSAmaiITKAIAQQBMDQIgHSACQQF0ai4BACAdIApBAXRqLgEAayASbCAIdCIHQQN0IgogB0EwIAdBMEobIgcgCiAHSBshESABIQoMAQsgFSAbakEANgIADAILA0AgBSAKECQhCiAFEFAhByAKRQ0BIAYgEWohBiAHQQhqIAkgEWsiCU4NAUEBIQogBiATKAIASA0ACwsgFSAbaiAGNgIAIAFBf2pBAiABQQJKGyABIAZBAEobIQELIAwgAiIKRw0ACwsgJyANQQJ0QQ9qQXBxayIKIhMkAEEFIQIgB0EwaiAJTARAIAVB5/cBQQcQJSECCyAiIAUQUEF/c2ohB0EAIQYgHiAMIAwgHkobIR1BASAIdCIqQQAgGBshHiATIA1BAnRBD2pBcHEiCWsiEyIBJAAgASAJayIBIickACALIA8gDCAbICYgAiAQQQxqIBBBCGogBwJ/IAhBAkkEQEEAIRVBAAwBC0EAIRVBACAYRQ0AGiAHIAhBA3RBEGpOIhVBA3QLIhFrIBBBBGogEyAKIAEgEiAIIAVBAEEAQQAQXCECIAsgDyAMIA4gCiAFIBIQWSAjQQJtIARrQQJ0QYBAayEJA0AgEEEYaiAGQQJ0aigCACIHIAcgBEECdGogCRAIGiAGQQFqIgYgFkcNAAsgJyANIBJsIgdBD2pBcHFrIgYiCSQAIAkgBCASbEECdEEPakFwcWsiCSQAQQAgCyAPIAwgCSAJIARBAnRqQQAgEkECRhsgBkEAIBMgHiAlIBAoAgggECgCDCAhICIgEWsgECgCBCAFIAggAiAAQShqQQAgACgCJCAAKAIgEHQCQCAVBEAgBUEBECchESALIA8gDCAOIAogASAUIAUoAhRrIAUoAhxna0EgaiAFIBIQWiARRQ0BIAsgCSAGIAggEiAEIA8gDCAOIBcgGiATIAAoAiggACgCJBBxDAELIAsgDyAMIA4gCiABIBQgBSgCFGsgBSgCHGdrQSBqIAUgEhBaCyApQQFzIAdBAUhyRQRAQQAhBgNAIA4gBkECdGpBgICAj3w2AgAgBkEBaiIGIAdHDQALCyALIAkgEEEQaiAOIA8gHSASIBkgGCAIIAAoAhAgHyAAKAIkEI4BQQAhBgNAIAAgACgCPCIHQQ8gB0EPShsiCTYCPCAAIAAoAkAiB0EPIAdBD0obIgo2AkAgEEEQaiAGQQJ0aigCACIHIAcgCiAJIAsoAiwgACoCSCAAKgJEIAAoAlAgACgCTCALKAI8ICMgACgCJBBNIAgEQCAHIAsoAiwiCUECdGoiByAHIAAoAjwgJCAEIAlrIAAqAkQgKyAAKAJMICAgCygCPCAjIAAoAiQQTQsgBkEBaiIGIBZHDQALIAAgACgCPDYCQCAAKAJEIQYgACArOAJEIAAgBjYCSCAAKAJMIQYgACAgNgJMIAAgBjYCUCAAICQ2AjwgCARAIAAgIDYCUCAAICs4AkggACAkNgJACyASQQFGBEAgDiANQQJ0IghqIA4gCBAFGgsCQCAYBEAgDUEBSA0BIBxBASAcQQFKGyEHQQAhCANAIBcgCEECdCIGaiIWIBYqAgAiKyAGIA5qKgIAIiwgKyAsXRs4AgAgCEEBaiIIIAdHDQALDAELIBogFyANQQN0IggQBRogFyAOIAgQBRogDUEBSA0AICqyQ28SgzqUQwAAgD8gACgCNEEKSBshLSAcQQEgHEEBShshB0EAIQgDQCAoIAhBAnQiBmoiFiAtIBYqAgCSIisgBiAOaioCACIsICsgLF0bOAIAIAhBAWoiCCAHRw0ACwtBACEIIA9BAEoEQANAIA4gCEECdCIGakEANgIAIAYgGmpBgICAj3w2AgAgBiAXakGAgICPfDYCACAIQQFqIgggD0cNAAsLIAwgDUgEQCAMIQgDQCAOIAhBAnQiBmpBADYCACAGIBpqQYCAgI98NgIAIAYgF2pBgICAj3w2AgAgCEEBaiIIIA1HDQALC0EAIQggD0EASgRAA0AgDiAIIA1qQQJ0IgZqQQA2AgAgBiAaakGAgICPfDYCACAGIBdqQYCAgI98NgIAIAhBAWoiCCAPRw0ACwsgDCANSARAA0AgDiAMIA1qQQJ0IghqQQA2AgAgCCAaakGAgICPfDYCACAIIBdqQYCAgI98NgIAIAxBAWoiDCANRw0ACwsgACAFKAIcNgIoIBBBEGogAyAEIBkgACgCECALQRBqIABB1ABqEI0BIABBADYCNEF9IQkgBSgCFCAFKAIcZ2pBYGogFEwEQCAFKAIsBEAgAEEBNgIsCyAEIAAoAhBtIQkLCyAQQdAAaiQAIAkLrxMCNX8GfSMAQeAhayIIIQQgCCQAIAAoAggiCkEBIApBAUobIRRBACABayEZIAAoAgAiCygCBCIMQYAQaiEHIAsoAiAhDSALKAIIIQ8DQCADQQJ0IgUgBEHYIWpqIAAgAyAHbEECdGpB3ABqIgY2AgAgBEHQIWogBWogBiAZQQJ0akGAQGs2AgAgA0EBaiIDIBRHDQALIAAgByAKbEECdGpB3ABqIRYgACgCFCEOAkACQAJAIAAoAjQiFUEESg0AIA4NACAAKAI4RQ0BCyAWIApB4ABsaiIQIA9BA3QiA2ogA2ogA2ohEUMAAAA/QwAAwD8gFRshOiAAKAIYIgcgCygCDCIDIAcgA0gbIRMgCCABIApsQQJ0QQ9qQXBxayIIJAADQCAOIAdIBEAgDyASbCEJIA4hAwNAIBAgAyAJakECdCIFaiIGIAUgEWoqAgAiOCAGKgIAIDqTIjkgOCA5Xhs4AgAgA0EBaiIDIAdHDQALCyASQQFqIhIgFEcNAAsgDiATIA4gE0obIRIgACgCKCEFIApBAU4EQEEAIQ8DQCAOIBNIBEAgASAPbCERIA4hCQNAIA0gCUEBdGouAQAiByACdCARaiEGQQAhAyANIAlBAWoiCUEBdGouAQAgB2sgAnQiB0EBTgRAA0AgCCADIAZqQQJ0aiAFQY3M5QBsQd/mu+MDaiIFQRR1sjgCACADQQFqIgMgB0cNAAsLIAggBkECdGogB0MAAIA/IAAoAiQQaiAJIBJHDQALCyAPQQFqIg8gCkcNAAsLIAAgBTYCKCAMQQF2IAFrQQJ0QYBAayEGQQAhAwNAIARB2CFqIANBAnRqKAIAIgUgBSABQQJ0aiAGEAgaIANBAWoiAyAURw0ACyALIAggBEHQIWogECAOIBIgCiAKQQAgAiAAKAIQQQAgACgCJBCOAQwBCwJ9IBVFBEAgBEHYIWogBEHwAGpBgBAgCiAAKAIkIgMQgAEgBEGQDGogBEHwAGpBsApB7AQgBCADEIIBIABB0AUgBCgCAGsiAjYCMEMAAIA/DAELIAAoAjAhAkPNzEw/CyE8IAJBAXQiA0GACCADQYAISBsiF0EBdSIDQQEgA0EBShshEiAIIAxBAnRBD2pBcHFrIhEiBSQAQYAIIBdrIQ5BgAggA2shDyAEIBdBAnQiGmtB0CFqIRsgDEECbSETQYAIIAJrIQogASAMaiIJQQJ0IR5BgBAgAWsiCEECdCEcIAUgGkEPakFwcWsiHSQAIARB0AFqIQcgCygCPCEQQf8PIAFrQQJ0IR9B/g8gAWtBAnQhIEH9DyABa0ECdCEhQfwPIAFrQQJ0ISJB+w8gAWtBAnQhI0H6DyABa0ECdCEkQfkPIAFrQQJ0ISVB+A8gAWtBAnQhJkH3DyABa0ECdCEnQfYPIAFrQQJ0IShB9Q8gAWtBAnQhKUH0DyABa0ECdCEqQfMPIAFrQQJ0IStB8g8gAWtBAnQhLEHxDyABa0ECdCEtQfAPIAFrQQJ0IS5B7w8gAWtBAnQhL0HuDyABa0ECdCEwQe0PIAFrQQJ0ITFB7A8gAWtBAnQhMkHrDyABa0ECdCEzQeoPIAFrQQJ0ITRB6Q8gAWtBAnQhNUHoDyABa0ECdCE2QQAhCwNAIARB2CFqIAtBAnRqKAIAIQZBACEDA0AgA0ECdCIFIARB8ABqaiAFIAZqQaAfaigCADYCACADQQFqIgNBmAhHDQALAkAgFQRAIAtBGGwhAwwBCyAHIAQgECAMQRhBgAggACgCJBB/IAQgBCoCAENHA4A/lDgCAEEBIQMDQCAEIANBAnRqIgUgBSoCACI4IDhDvjeGuJQgA7IiOJQgOJSSOAIAIANBAWoiA0EZRw0ACyAWIAtBGGwiA0ECdGogBEEYEHsLIBsgFiADQQJ0aiIYIB0gFyAAKAIkEHwgGyAdIBoQBRpDAACAPyE4QQAhA0MAAIA/ITsgAkEBTgRAA0AgOCAHIAMgDmpBAnRqKgIAIjkgOZSSITggOyAHIAMgD2pBAnRqKgIAIjkgOZSSITsgA0EBaiIDIBJHDQALCyAGIAYgAUECdGogHBAIIQNDAAAAACE6QwAAAAAhOSAJQQFIIjdFBEAgPCA7IDggOyA4XRsgOJWRIj2UIThBACEFQQAhBgNAIAMgBSAIakECdGogOCA9IDiUIAYgAkgiDRsiOCAHIAZBACACIA0bayIGIApqIg1BAnRqKgIAlDgCACAGQQFqIQYgOSANIAFrQQJ0IANqQYAgaioCACI7IDuUkiE5IAVBAWoiBSAJRw0ACwsgBCADIB9qKAIANgIAIAQgAyAgaigCADYCBCAEIAMgIWooAgA2AgggBCADICJqKAIANgIMIAQgAyAjaigCADYCECAEIAMgJGooAgA2AhQgBCADICVqKAIANgIYIAQgAyAmaigCADYCHCAEIAMgJ2ooAgA2AiAgBCADIChqKAIANgIkIAQgAyApaigCADYCKCAEIAMgKmooAgA2AiwgBCADICtqKAIANgIwIAQgAyAsaigCADYCNCAEIAMgLWooAgA2AjggBCADIC5qKAIANgI8IAQgAyAvaigCADYCQCAEIAMgMGooAgA2AkQgBCADIDFqKAIANgJIIAQgAyAyaigCADYCTCAEIAMgM2ooAgA2AlAgBCADIDRqKAIANgJUIAQgAyA1aigCADYCWCAEIAMgNmooAgA2AlwgA0GAQGsiDSAZQQJ0aiIFIBggBSAJIAQgACgCJBB+QQAhBQJAAkAgN0UEQANAIDogAyAFIAhqQQJ0aioCACI4IDiUkiE6IAVBAWoiBSAJRw0ACyA5IDpDzcxMPpReDQEgAyAcakEAIB4QBBoMAgsgOUMAAAAAXkUNAQsgOSA6XUEBcw0AIDlDAACAP5IgOkMAAIA/kpWRITggDEEBTgRAQwAAgD8gOJMhOUEAIQUDQCADIAUgCGpBAnRqIgYgBioCAEMAAIA/IDkgECAFQQJ0aioCAJSTlDgCACAFQQFqIgUgDEcNAAsLIAwhBSABQQBMDQADQCADIAUgCGpBAnRqIgYgOCAGKgIAlDgCACAFQQFqIgUgCUgNAAsLQQAhBSARIA0gACgCPCIGIAYgDCAAKgJEjCI4IDggACgCTCIYIBhBAEEAIAAoAiQQTSAMQQJOBEADQCAFQQJ0IgYgA2pBgEBrIAYgEGoqAgAgESAMIAVBf3NqQQJ0Ig1qKgIAlCANIBBqKgIAIAYgEWoqAgCUkjgCACAFQQFqIgUgE0cNAAsLIAtBAWoiCyAURw0ACwsgACAVQQFqNgI0IARB4CFqJAALkAQCCH8EfSMAIQcCQCADQQJHDQAgBEEBRw0AIAYqAgQhDyAGKgIAIRAgAkEBTgRAIAAoAgQhCCAAKAIAIQkgBSoCACERQQAhBwNAIAggB0ECdCIFaioCACESIAEgB0EDdCIDaiAQIAUgCWoqAgBDYEKiDZKSIhBDAAAAOJQ4AgAgASADQQRyaiAPIBJDYEKiDZKSIg9DAAAAOJQ4AgAgESAPlCEPIBEgEJQhECAHQQFqIgcgAkcNAAsLIAYgDzgCBCAGIBA4AgAPCyADQQEgA0EBShshDSACIARtIQsgByACQQJ0QQ9qQXBxayEIIAUqAgAhEANAIAEgDEECdCIHaiEFIAAgB2ooAgAhCSAGIAdqIg4qAgAhDwJAIARBAUwEQEEAIQcgAkEATA0BA0AgBSADIAdsQQJ0aiAPIAkgB0ECdGoqAgBDYEKiDZKSIg9DAAAAOJQ4AgAgECAPlCEPIAdBAWoiByACRw0ACwwBC0EBIQpBACEHIAJBAUgNAANAIAggB0ECdCIKaiAPIAkgCmoqAgBDYEKiDZKSIg84AgAgECAPlCEPQQEhCiAHQQFqIgcgAkcNAAsLIA4gDzgCAAJAIApFDQBBACEHIAtBAUgNAANAIAUgAyAHbEECdGogCCAEIAdsQQJ0aioCAEMAAAA4lDgCACAHQQFqIgcgC0cNAAsLIAxBAWoiDCANRw0ACwucBQEKfyMAIg0hFSAAKAIIIRQgACgCBCEQIA0gACgCLCIOIAl0IhFBAnRBD2pBcHFrIg8kACAAKAIkQQAgCSAIG2shEkEBIAl0IhNBASAIGyENIA4gESAIGyEIAkACQCAGQQFHDQAgB0ECRw0AIAAgASAPIAMgBCAFIBMgCiALEHAgAigCBCAQQQJtQQJ0aiAPIBFBAnQQBSEOIA1BAUgNASAAQUBrIQZBACEJQQAhBwNAIAYgDiAHQQJ0aiACKAIAIAcgCGxBAnRqIAAoAjwgECASIA0QhwEgB0EBaiIHIA1HDQALA0AgBiAPIAlBAnRqIAIoAgQgCCAJbEECdGogACgCPCAQIBIgDRCHASAJQQFqIgkgDUcNAAsMAQsgBkECRkEAIAdBAUYbRQRAIAdBASAHQQFKGyEWIABBQGshBkEAIQ4DQCAAIAEgDiARbEECdGogDyADIA4gFGxBAnRqIAQgBSATIAogCxBwIA1BAU4EQCACIA5BAnRqIQdBACEJA0AgBiAPIAlBAnRqIAcoAgAgCCAJbEECdGogACgCPCAQIBIgDRCHASAJQQFqIgkgDUcNAAsLIA5BAWoiDiAWRw0ACwwBCyACKAIAIQkgACABIA8gAyAEIAUgEyAKIAsQcCAAIAEgEUECdGogCSAQQQJtQQJ0aiIOIAMgFEECdGogBCAFIBMgCiALEHBBACEJIBFBAEoEQANAIA8gCUECdCIHaiIGIAYqAgBDAAAAP5QgByAOaioCAEMAAAA/lJI4AgAgCUEBaiIJIBFHDQALCyANQQFIDQAgAEFAayEHQQAhCQNAIAcgDyAJQQJ0aiACKAIAIAggCWxBAnRqIAAoAjwgECASIA0QhwEgCUEBaiIJIA1HDQALCyAVJAALNgEBfyAAQfsBTARAIAEgADoAAEEBDwsgASAAQXxyIgI6AAAgASAAIAJB/wFxa0ECdjoAAUECC2UAIAAtAAAiAEGAAXEEQCABIABBA3ZBA3F0QZADbQ8LIABB4ABxQeAARgRAIABBCHEEQCABQTJtDwsgAUHkAG0PCyAAQQN2QQNxIgBBA0YEQCABQTxsQegHbQ8LIAEgAHRB5ABtC6gGAQp/QX8hDQJAIAFBAEgNACAERQ0AQXwhDSABRQ0AAn8gAC0AACIMQYABcQRAQYD3AiAMQQN2QQNxdEGQA24MAQtBwAdB4AMgDEEIcRsgDEHgAHFB4ABGDQAaQcAWIAxBA3ZBA3EiBkEDRg0AGkGA9wIgBnRB5ABuCyEHIAFBf2ohCQJAIAxBA3EiCEECTQRAQQEhBiAAQQFqIQcgCSEKAkACQCAIQQFrDgIAAQMLIAlBAXENAyAEIAlBAXYiCjsBAEECIQYMAgsgAUEBTARAIARB//8DOwEAQXwPCyAHLQAAIghB/AFPBEBBAiEGIAFBAkwEQCAEQf//AzsBAEF8DwsgAC0AAkECdCAIaiEICyAEIAg7AQAgCSAGayIJIAhIDQIgCSAIayEKIAYgB2ohB0ECIQYMAQsgAUECSA0BIAAtAAEiC0E/cSIGRQ0BIAYgB2xBgC1LDQEgAEECaiEIIAFBfmohAQJAIAtBwABxRQRAIAghBwwBCwNAIAFBAUgNAyAOQX4gCC0AACIHIAdB/wFGIgobQf8BcSIHaiEOIAEgB0F/c2ohASAIQQFqIgchCCAKDQALIAFBAEgNAgsgC0GAAXEEQCAGQQJJBEAgASEKDAILIAZBf2ohDiABIQogASEJA0AgBCAPQQF0aiEIIAlBAEwEQCAIQf//AzsBAEF8DwtBASELIActAAAiAUH8AU8EQCAJQQFMBEAgCEH//wM7AQBBfA8LQQIhCyAHLQABQQJ0IAFqIQELIAggATsBACAJIAtrIgkgAUgNAyAHIAtqIQcgCiALayABayEKIA9BAWoiDyAORw0ACyAKQQBODQEMAgsgASAGbSIKIAZsIAFHDQEgBkECSQ0AIAZBf2ohC0EAIQkDQCAEIAlBAXRqIAo7AQAgCUEBaiIJIAtHDQALCyAKQfsJSg0AIAZBAXQgBGpBfmogCjsBACAFBEAgBSAHIABrNgIACyAGBEBBACEBA0AgAwRAIAMgAUECdGogBzYCAAsgByAEIAFBAXRqLgEAaiEHIAFBAWoiASAGRw0ACwsgAgRAIAIgDDoAAAsgBiENCyANCxsAIACQIgCLQwAAAE9dBEAgAKgPC0GAgICAeAvAAgEDfyMAQRBrIgMkAEF/IQQCQAJAIAFB//wATARAIAFBwD5GDQEgAUHg3QBGDQEMAgsgAUGA/QBGDQAgAUGA9wJGDQAgAUHAuwFHDQELIAJBf2pBAUsNAEEAIQQgAEEAIANBDGoQSQR/IAQFIAMgAygCDEEDakF8cTYCDCACEIgBIAMoAgxqQdgAagsQBCEAQX0hBCADQQhqEEkNACADIAMoAghBA2pBfHEiBTYCCCAAIAI2AjAgACACNgIIIABB2AA2AgQgACABNgIYIAAgATYCDCAAIAI2AhAgACAFQdgAaiIFNgIAIABB2ABqEEoNACAAIAVqIgUgASACEIkBDQBBACEEIANBADYCACAFQaDOACADEIoBGiAAIAFB//8DcUGQA242AkAgAEEANgI8IABBADYCLAsgA0EQaiQAIAQL3AEBAn8jAEEQayIEJAACQAJAAkACQCAAQf/8AEwEQCAAQcA+Rg0BIABB4N0ARg0BDAILIABBgP0ARg0AIABBgPcCRg0AIABBwLsBRw0BCyABQX9qQQJJDQELIAJFDQEgAkF/NgIADAELIARBDGoQSQR/IAMFIAQgBCgCDEEDakF8cTYCDCABEIgBIAQoAgxqQdgAagsQBiIDRQRAQQAhAyACRQ0BIAJBeTYCAAwBCyADIAAgARCTASEAIAIEQCACIAA2AgALIABFDQAgAxAHQQAhAwsgBEEQaiQAIAMLygYBCH8jAEHwAGsiCSQAQX8hBgJAIAVBAUsNAAJAAkAgAUUNACACRQ0AIAVFDQELIAQgACgCDEGQA21vDQELIAFBACACG0UEQEEAIQYDQCAAQQBBACADIAAoAgggBmxBAnRqIAQgBmtBABCWASIFQQBIIgEEQCAFIQYMAwtBACAFIAEbIAZqIgYgBEgNAAsgACAGNgJIDAELIAJBAEgNACABLQAAIgdB4ABxIQsCfyAHQYABcSIIBEAgB0EFdkEDcSIHQc4IakHNCCAHGwwBC0HRCEHQCCAHQRBxGyALQeAARg0AGiAHQQV2QQNxQc0IagshDCABIAAoAgwQkAEhByABLQAAIQogASACIAlB6wBqQQAgCSAJQewAahCRASICQQBIBEAgAiEGDAELQeoHQekHQegHIAtB4ABGGyAIGyEIQQJBASAKQQRxGyEKIAEgCSgCbGohAQJAIAUEQAJAAkAgCEHqB0YNACAHIARKDQAgACgCOEHqB0cNAQsgBCAAKAIMQZADbW8NA0EAIQYDQCAAQQBBACADIAAoAgggBmxBAnRqIAQgBmtBABCWASIFQQBIIgEEQCAFIQYMBQtBACAFIAEbIAZqIgYgBEgNAAsgACAGNgJIDAMLIAQgB2siAgRAIAAoAkghCyACIAAoAgxBkANtbw0CQQAhBQNAIABBAEEAIAMgACgCCCAFbEECdGogAiAFa0EAEJYBIgZBAEgiDQ0DQQAgBiANGyAFaiIFIAJIDQALIAAgBTYCSAsgACAHNgJAIAAgDDYCNCAAIAg2AjggACAKNgIwIAAgASAJLgEAIAMgACgCCCACbEECdGogB0EBEJYBIgZBAEgNAiAAIAQ2AkggBCEGDAILQX4hBiACIAdsIARKDQEgACAHNgJAIAAgDDYCNCAAIAg2AjggACAKNgIwAkAgAkEBSARAQQAhBgwBC0EAIQVBACEGA0AgACABIAkgBUEBdGoiCi4BACADIAAoAgggBmxBAnRqIAQgBmtBABCWASIIQQBIBEAgCCEGDAQLIAYgCGohBiABIAouAQBqIQEgBUEBaiIFIAJHDQALCyAAIAY2AkggAEIANwJMDAELIAAgCzYCSAsgCUHwAGokACAGC6kXAxV/AX0BfCMAQcABayIJJAAgCSIHQQA2AogBQX4hBgJAIAAoAgwiE0EybSIIQQN1IhIgBEoNACAAKAIAIRQgACgCBCENIAhBAnUhDyAIQQF1IQwgBCATQRltQQNsIgYgBiAEShshBgJAAn8CQAJ/AkACQAJAAkAgAkEBTARAIAYgACgCQCIEIAYgBEgbIQYMAQsgAQ0BCyAAKAI8Ig5FBEAgACgCCCAGbCIAQQFIDQggA0EAIABBAnQQBBoMCAsgBiAISgRAIAYhBANAIABBAEEAIAMgBCAIIAQgCEgbQQAQlgEiCUEASARAIAkhBgwKCyADIAAoAgggCWxBAnRqIQMgBCAJayIEQQBKDQALDAgLIAYgCE4EQCAGIQsMAgsgBiAMSgRAIAwhCwwCCyAOQegHRgRAIAYhC0HoByEODAILIA8gBiAGIAxIGyAGIAYgD0obIQsMAQsgACgCNCERIAAoAjghBCAAKAJAIQsgB0GQAWogASACECBBASEQAkAgACgCPCIKQQFOBEBB6gchDgJAIApB6gdGDQAgBEHqB0cNACAAKAJERQ0CCyAEQeoHRg0DIApB6gdGDQELIAQhDgwCC0EBIRUgCSAAKAIIIA9sIhdBASAEQeoHRhtBAnRBD2pBcHFrIhYiCSQAIARB6gdGBEAgAEEAQQAgFiAPIAsgDyALSBtBABCWARpBAQwDCyALIAZKIQpBfyEGIAoNBUEAIRYgBCEODAMLQQAhAQsgDkHqB0YLIQogCyAGSiEEQX8hBiAEDQJBASEXQQEhGEEBIAoNARoLIBchGEEAIRcgACgCCCAMIAsgDCALShtsCyEEIAkgBEEBdEEPakFwcWsiGiIZJAACQAJAIA5B6gdGBEAgBUUhDEEAIQkMAQsgACANaiENIAAoAjxB6gdGBEAgDRBKGgsgACALQegHbCAAKAIMbSIEQQogBEEKShs2AiACQCAQRQ0AIAAgACgCMDYCFCAOQegHRgRAIBFBzQhGBEAgAEHAPjYCHAwCCyARQc4IRgRAIABB4N0ANgIcDAILIABBgP0ANgIcDAELIABBgP0ANgIcCyAAQRBqIQogBUEBdEEBIAEbIQxBACEJIBohBANAAkAgDSAKIAwgCUUgB0GQAWogBCAHQYwBaiAAKAIsEEtFDQAgDEUEQEF9IQYMBQsgByALNgKMASAAKAIIIAtsIgZBAUgNACAEQQAgBkEBdBAEGgsgBCAHKAKMASIGIAAoAghsQQF0aiEEIAYgCWoiCSALSA0AC0EBIQxBACEJIBAgBUUiBHFBAUcEQCAEIQwMAQsgBygCpAEgBygCrAFnakEUQQAgACgCOEHpB0YbakFxaiACQQN0Sg0AAkAgDkHpB0YEQCAHQZABakEMECQiBkUNAiAHQZABakEBECQhBSAHQZABakGAAhAmQQJqIQQgBygCrAFnIQkgBygCpAEhDQwBC0EBIQYgB0GQAWpBARAkIQUgAiAHKAKkASINIAcoAqwBZyIJakFnakEDdWshBAsgByAHKAKUAUEAIAQgAiAEayICQQN0IAkgDWpBYGpIIgkbIhBrNgKUAUEAIAIgCRshAkEAIAYgCRshCQwBC0EAIRBBACEFCyAVQQBHIAlFIhVxIQ0gGUEBIBggCRtBAnRBD2pBcHFrIgQiCiQAAkAgDkHqB0YNACANRQ0AIABBAEEAIAQgDyALIA8gC0gbQQAQlgEaIAQhFgsgACAUaiEEAkAgBwJ/IBFBs3dqIgZBA0sEQEEVIBENARoMAgsCQAJAAkAgBkEBaw4DAQECAAtBDQwCC0ERDAELQRMLNgKAAUF9IQYgBEGczgAgB0GAAWoQigENAQsgByAAKAIwNgJwQX0hBiAEQZjOACAHQfAAahCKAQ0AAn8gCUUEQEEAIRQgCkFwaiIKJAAgBUEARwwBCyAKIAAoAgggD2xBAnRBD2pBcHFrIgokACAFRQRAQQAhFEEADAELIAdBADYCYCAEQZrOACAHQeAAahCKAQ0BIAQgASACaiAQIAogD0EAEIsBGiAHIAdBiAFqNgJQIARBvx8gB0HQAGoQigENAUEBIRRBAQshGCAHQRFBACAOQeoHRxs2AkAgBEGazgAgB0FAaxCKAQ0AAn8gDkHoB0cEQAJAIA4gACgCPCIFRg0AIAVBAUgNACAAKAJEDQAgBEG8H0EAEIoBDQMLIAQgAUEAIAwbIAIgAyAIIAsgCCALSBsgB0GQAWoQiwEMAQsgB0H//wM7AYQBIAAoAgggC2wiCEEBTgRAIANBACAIQQJ0EAQaCwJAIAAoAjxB6QdHDQAgFARAIAAoAkQNAQsgB0EANgIwIARBms4AIAdBMGoQigENAiAEIAdBhAFqQQIgAyASQQAQiwEaC0EACyEZAkAgFw0AIAAoAgggC2wiBUEBSA0AQQAhCANAIAMgCEECdGoiDCAMKgIAIBogCEEBdGouAQCyQwAAADiUkjgCACAIQQFqIgggBUcNAAsLIAcgB0GEAWo2AiAgBEGfzgAgB0EgahCKAQ0AIAcoAoQBKAI8IQwCQCAVIBhyDQAgBEG8H0EAEIoBDQEgB0EANgIQIARBms4AIAdBEGoQigENASAEIAEgAmogECAKIA9BABCLARogByAHQYgBajYCACAEQb8fIAcQigENAUGA9wIgACgCDG0hESAAKAIIIgVBAUgNACAKIAUgEmxBAnRqIRAgAyAFIAsgEmtsQQJ0aiEVQQAhASATQZADSCEXA0BBACEEIBdFBEADQCAVIAQgBWwgAWpBAnQiCGoiBiAMIAQgEWxBAnRqKgIAIhsgG5QiGyAIIBBqKgIAlEMAAIA/IBuTIAYqAgCUkjgCACAEQQFqIgQgEkcNAAsLIAFBAWoiASAFRw0ACwsCQCAURQ0AIAAoAggiCEEBSA0AIBJBASASQQFKGyEFQQAhASATQZADSCEUA0BBACEEIBRFBEADQCADIAQgCGwgAWpBAnQiBmogBiAKaigCADYCACAEQQFqIgQgBUcNAAsLIAFBAWoiASAIRw0AC0GA9wIgACgCDG0hBSADIAggEmxBAnQiBGohFCAEIApqIRFBACEKIBNBkANIIRADQEEAIQQgEEUEQANAIBQgBCAIbCAKakECdCIGaiIBIAwgBCAFbEECdGoqAgAiGyAblCIbIAEqAgCUQwAAgD8gG5MgBiARaioCAJSSOAIAIARBAWoiBCASRw0ACwsgCkEBaiIKIAhHDQALCwJAIA1FDQAgACgCCCEIIAsgD04EQCAIIBJsIgFBAU4EQEEAIQQDQCADIARBAnQiBmogBiAWaigCADYCACAEQQFqIgQgAUcNAAsLQYD3AiAAKAIMbSEKIAhBAUgNASADIAFBAnQiBGohBSAEIBZqIQ9BACENIBNBkANIIRMDQEEAIQQgE0UEQANAIAUgBCAIbCANakECdCIGaiIBIAwgBCAKbEECdGoqAgAiGyAblCIbIAEqAgCUQwAAgD8gG5MgBiAPaioCAJSSOAIAIARBAWoiBCASRw0ACwsgDUEBaiINIAhHDQALDAELQYD3AiAAKAIMbSEKIAhBAUgNAEEAIQ0gE0GQA0ghEwNAQQAhBCATRQRAA0AgAyAEIAhsIA1qQQJ0IgZqIgEgDCAEIApsQQJ0aioCACIbIBuUIhsgASoCAJRDAACAPyAbkyAGIBZqKgIAlJI4AgAgBEEBaiIEIBJHDQALCyANQQFqIg0gCEcNAAsLAkAgACgCKCIERQ0AIAAoAgghCCAEskMtFSo6lLtE7zn6/kIu5j+iEF4hHCAIIAtsIgZBAUgNACActiEbQQAhBANAIAMgBEECdGoiCCAIKgIAIBuUOAIAIARBAWoiBCAGRw0ACwsgBygCiAEhBCAHKAKsASEDIAAgDjYCPCAAIBhBAXMgCUEAR3E2AkQgAEEAIAMgBHMgAkECSBs2AlQgGSALIBlBAEgbIQYLCyAHQcABaiQAIAYLHAAgBEEBSARAQX8PCyAAIAEgAiADIAQgBRCVAQsGACAAEAcLRwEBf0EBIQIgAUEBSARAQX8PCwJAAkACQCAALQAAQQNxQQFrDgMAAAECC0ECDwtBfCECIAFBAkgNACAALQABQT9xIQILIAILpwIBCH8gBEECTgRAIARBAXUiBEEBIARBAUobIQkgASgCBCEFIAEoAgAhBkEAIQQDQCACIARBAXQiCmpB//8BQYCAfiAAIARBAnQiB0ECcmouAQBBCnQiCyAFayIIQf//A3FBpNQAbEEQdiAIQRB1QaTUAGxqIgggBWoiDCAAIAdqLgEAQQp0IgUgBmsiBkH//wNxQZ7CfmxBEHUgBkEQdUGewn5saiAFaiIHaiIFQQp2QQFqQQF2IAVBgPj/X0gbIAVB//f/H0obOwEAIAMgCmpB//8BQYCAfiAMIAdrIgVBCnZBAWpBAXYgBUGA+P9fSBsgBUH/9/8fShs7AQAgCCALaiEFIAYgB2ohBiAEQQFqIgQgCUcNAAsgASAFNgIEIAEgBjYCAAsLewEBfwJ/IABBf0wEQEEAIABBwX5IDQEaQQAgAGsiAEEDdkH8////AXEiAUGA+AFqKAIAIAFBoPgBai4BACAAQR9xbGsPC0H//wEgAEG/AUoNABogAEEDdkH8////AXEiAUGg+AFqLgEAIABBH3FsIAFBwPgBaigCAGoLC54BACAAQgA3AgAgAEKAgICAgPEENwI4IABCADcCICAAQgA3AhggAEIANwIQIABCADcCCCAAQpmAgICAAjcCYCAAQvG2tICQ3J4KNwJQIABBQGtCxJOAgIDIATcCACAAQoyAgIDwATcCaCAAQoGd7YCgBjcCWCAAQrCJgICAt6MDNwJIIABCgMiBgICAGTcCKCAAQoDIgYCAgBk3AjBBAAuTFwEQfyMAQTBrIgQkACAAKALoIyECIAQiCUEANgIAIAQgAkEDdSIDIAJBAnUiBWoiBjYCBCAEIAMgBmoiBzYCCCAEIAUgB2oiCDYCDCAEIAggAkEBdSIMakEBdEEPakFwcWsiBCQAIAEgAEEkaiAEIAQgCEEBdGogACgC6CMQmgEgBCAAQSxqIAQgBCAHQQF0aiAMEJoBIAQgAEE0aiAEIAQgBkEBdGogBRCaASAEIANBf2oiA0EBdGoiBSAFLgEAQQF1Igg7AQAgAkEQTgRAIAghBQNAIAQgA0F/aiIGQQF0aiICIAIuAQBBAXUiAjsBACAEIANBAXRqIAUgAms7AQAgA0EBSiEHIAIhBSAGIQMgBw0ACwsgBCAELwEAIABB3ABqIgMvAQBrOwEAIAMgCDsBAANAIAAoAugjIQMgCkECdCICIAlBIGpqIgwgACACakE8aiINKAIAIgE2AgACQCADQQQgCmsiBUEDIAVBA0kbdSIDQQNMBEAgAUH/////ByABQf////8HSRshAUEAIQUMAQsgA0ECdSIHQQEgB0EBShshAyACIAlqIgsoAgAhCEEAIQJBACEFA0AgBCACIAhqQQF0ai4BAEEDdSIGIAZsIAVqIQUgAkEBaiICIANHDQALIAEgBWoiAkH/////ByACQf////8HSRshASALKAIAIQhBACECQQAhBQNAIAQgAiAHaiAIakEBdGouAQBBA3UiBiAGbCAFaiEFIAJBAWoiAiADRw0ACyABIAVqIgJB/////wcgAkH/////B0kbIQ4gB0EBdCEIIAsoAgAhAUEAIQJBACEFA0AgBCACIAhqIAFqQQF0ai4BAEEDdSIGIAZsIAVqIQUgAkEBaiICIANHDQALIAUgDmoiAkH/////ByACQf////8HSRshASAHQQNsIQcgCygCACEIQQAhAkEAIQUDQCAEIAIgB2ogCGpBAXRqLgEAQQN1IgYgBmwgBWohBSACQQFqIgIgA0cNAAsLIAwgASAFQQF2aiIDQf////8HIANB/////wdJGzYCACANIAU2AgAgCkEBaiIKQQRHDQALQQAhBCAAKAKQASIDQecHTARAIAAgA0EBajYCkAFB//8BIANBBHVBAWptIQQLQYABIQNB/////wcgCSgCICIOIAAoAoABaiICQf////8HIAJB/////wdJGyIGbiEFAn9BgAEgBiAAKAJgIgdBA3RKDQAaQYAIIAYgB0gNABogB0EQdEEQdSICIAVBEHZsIAUgB0EPdUEBakEBdWxqIAVB//8DcSACbEEQdWoiAkEQdUELdCACQQV2Qf8PcXILIQIgAEHwAGoiBiACIAQgAiAEShtBEHRBEHUiAiAFIAYoAgAiBmsiBUEQdWwgBmogAiAFQf//A3FsQRB1aiICNgIAIABB/////wcgAm0iAkH///8HIAJB////B0gbIgU2AmBB/////wcgCSgCJCIPIAAoAoQBaiICQf////8HIAJB/////wdJGyIGbiECAkAgBiAAKAJkIgdBA3RKDQBBgAghAyAGIAdIDQAgB0EQdEEQdSIDIAJBEHZsIAIgB0EPdUEBakEBdWxqIAJB//8DcSADbEEQdWoiA0EQdUELdCADQQV2Qf8PcXIhAwsgAEH0AGoiBiADIAQgAyAEShtBEHRBEHUiAyACIAYoAgAiBmsiAkEQdWwgBmogAyACQf//A3FsQRB1aiIDNgIAIABB/////wcgA20iA0H///8HIANB////B0gbNgJkQf////8HIAkoAigiECAAKAKIAWoiA0H/////ByADQf////8HSRsiB24hBkGAASEDAn9BgAEgByAAKAJoIghBA3RKDQAaQYAIIAcgCEgNABogCEEQdEEQdSICIAZBEHZsIAYgCEEPdUEBakEBdWxqIAZB//8DcSACbEEQdWoiAkEQdUELdCACQQV2Qf8PcXILIQIgAEH4AGoiByACIAQgAiAEShtBEHRBEHUiAiAGIAcoAgAiB2siBkEQdWwgB2ogAiAGQf//A3FsQRB1aiICNgIAIABB/////wcgAm0iAkH///8HIAJB////B0gbNgJoQf////8HIAkoAiwiESAAKAKMAWoiAkH/////ByACQf////8HSRsiBm4hAgJAIAYgACgCbCIHQQN0Sg0AQYAIIQMgBiAHSA0AIAdBEHRBEHUiAyACQRB2bCACIAdBD3VBAWpBAXVsaiACQf//A3EgA2xBEHVqIgNBEHVBC3QgA0EFdkH/D3FyIQMLIABB/ABqIgYgAyAEIAMgBEobQRB0QRB1IgQgAiAGKAIAIgNrIgJBEHVsIANqIAQgAkH//wNxbEEQdWoiBDYCACAAQf////8HIARtIgRB////ByAEQf///wdIGzYCbEEAIQcgDiECQQAhBkEAIQQDQAJAIAIgBWsiA0EBTgRAIARBAnQiCCAJQRBqaiACQQh0IAIgAkGAgIAESSIBGyAFIAVBCHUgARtBAWptIgI2AgAgBiACEDtBEHRBgICAYGpBEHUiAiACbGohBiADQf//P0wEQCADZyIFQWhqIQtBgIACQYbpAiAFQQFxGyAFQQF2diIKIAoCfyADQRggBWsiDUUNABogAyALdCADQTggBWt2ciADQf8ATQ0AGiADIAVBCGp0IAMgDXZyC0H/AHFBgIDUBmxBEHZsQRB2akEKdiACbCEMAkAgDUUNACADQf8ATQRAIAMgC3QgA0E4IAVrdnIhAwwBCyADIAVBCGp0IAMgDXZyIQMLIAogA0H/AHFBgIDUBmxBEHYgCmxBEHZqQQZ0QcD/A3EgAmwgDEEQdGpBEHUhAgsgCEHg+AFqKAIAIgNBEHUgAmwgB2ogA0H//wNxIAJsQRB1aiEHDAELIAlBEGogBEECdGpBgAI2AgALIARBAWoiBEEERwRAIARBAnQiAyAJQSBqaigCACECIAAgA2ooAmAhBQwBCwsgBkEEbSEEIAZBBE4EfwJAQRggBGciA2siAkUNACAEQf8ATQRAIAQgA0FoanQgBEE4IANrdnIhBAwBCyAEIANBCGp0IAQgAnZyIQQLQYCAAkGG6QIgA0EBcRsgA0EBdnYiAyADIARB/wBxQYCA1AZsQRB2bEEQdmpBgIAMbEEQdUHI3wJsQRB1QYB/agVBgH8LEJsBIQQgACAHEJsBQQF0QYCAfmo2AugkAkAgDyAAKAJka0EEdUEBdCAOIAAoAmBrQQR1aiAQIAAoAmhrQQR1QQNsaiARIAAoAmxrQQR1QQJ0aiAAKALoIyIDIAAoAuAjIgJBFGxGdSIFQQBMBEAgBEEBdSEEDAELIAVB//8ASg0AIARBEHRBEHUiBEGAgAJBhukCIAVBEHQiBmciBUEBcRsgBUEBdnYiByAHQQAgBiAFQQhqd0H/AHFBgIDUBmxBEHYgBUEYRhtsQRB2akGAgAJqIgVB//8DcWxBEHUgBUEQdiAEbGohBAsgACAEQQd1IgVB/wEgBUH/AUgbNgK0IyAAQcwAaiIFIAQgBEEQdEEQdWxBFUEUIAMgAkEKbEYbdSIEIAkoAhAgBSgCACIFayIGQRB1bCAFaiAGQf//A3EgBGxBEHVqIgM2AgAgACADEDtBA2xBgFhqQQR1EJsBNgLYJCAAQdAAaiIDIAkoAhQgAygCACIDayICQRB1IARsIANqIAJB//8DcSAEbEEQdWoiAzYCACAAQdwkaiADEDtBA2xBgFhqQQR1EJsBNgIAIABB1ABqIgMgCSgCGCADKAIAIgNrIgJBEHUgBGwgA2ogAkH//wNxIARsQRB1aiIDNgIAIABB4CRqIAMQO0EDbEGAWGpBBHUQmwE2AgAgAEHYAGoiAyAJKAIcIAMoAgAiA2siAkEQdSAEbCADaiACQf//A3EgBGxBEHVqIgQ2AgAgAEHkJGogBBA7QQNsQYBYakEEdRCbATYCACAJQTBqJAALRQAgAEEAQdDOABAEIgAgATYC5CdBgIDwARA7IQEgAEEBNgK4JCAAIAFBCHRBgIBgaiIBNgIMIAAgATYCCCAAQSRqEJwBC5sDAQR/QZp/IQMCQAJAAkAgACgCCCIBQb+7AUwEQCABQcA+Rg0BIAFB4N0ARg0BIAFBgP0ARg0BDAILIAFBw9gCTARAIAFBwLsBRg0BIAFBgPoBRg0BDAILIAFBgPcCRg0AIAFBxNgCRw0BCwJAIAAoAhQiAUHAPkYNACABQYD9AEYNACABQeDdAEcNAQsCQCAAKAIMIgJBwD5GDQAgAkGA/QBGDQAgAkHg3QBHDQELAkAgACgCECIEQcA+Rg0AIARBgP0ARg0AIARB4N0ARw0BCyAEIAFKDQAgAiABSA0AIAQgAkoNAEGZfyEDAkAgACgCGCIBQXZqIgJBCksEQCABQTxGDQEgAUEoRw0CDAELIAJBAWsOCQEBAQEBAQEBAQALQZd/IQMgACgCIEHkAEsNAEGUfyEDIAAoAjBBAUsNAEGTfyEDIAAoAjRBAUsNAEGVfyEDIAAoAihBAUsNAEGRfyEDIAAoAgAiAUF/akEBSw0AIAAoAgQiAiABSg0AIAJBf2pBAU0NAQsgAw8LQZZ/QQAgACgCJEEKSxsLuQMBBH8CfyAAKALgIyICRQRAIAAoAiAhAgsgAkEQdCIDRQsEQCAAKALcIyICIAAoAswjIgAgAiAASBtB6AdtDwsgACgC1CMhBAJAAkAgA0EQdUHoB2wiAyAAKALMIyIFSg0AIAMgBEoNACADIAAoAtgjTg0BCyAFIAQgBSAESBsiAiAAKALYIyIAIAIgAEobQegHbQ8LIAAoAhgiBUGAAk4EQCAAQQA2AhwLAkAgACgCuCNFBEAgASgCQEUNAQsgAyAAKALcIyIESgRAAkACQCAAKAIcBEAgASgCQA0BIAVBAEoNAiABQQE2AlggASABKAI4IgAgAEEFbCABKAIYQQVqbWs2AjggAg8LIABCADcCECAAQYACNgIYIAEoAkBFDQELIABBADYCHEEMQQggAkEQRhsPCyAAQX42AhwgAg8LIAMgBEgEQCABKAJABEAgAEIANwIQIABCgICAgBA3AhhBDEEQIAJBCEYbDwsgACgCHEUEQCABQQE2AlggASABKAI4IgAgAEEFbCABKAIYQQVqbWs2AjggAg8LIABBATYCHCACDwsgACgCHEF/Sg0AIABBATYCHAsgAgvZDAEEfyAAIAEoAjA2ArwvIAAgASgCNDYCxCQgACABKAIIIgY2AswjIAAgASgCDDYC1CMgACABKAIQNgLYIyAAIAEoAhQ2AtwjIAAgASgCKDYCyC8gACABKAIANgL4LCABKAIEIQUgACADNgKALSAAIAI2ArgjIAAgBTYC/CwCQAJAIAAoArwkRQ0AIAAoAsgkDQBBACEBIAYgACgC0CNGDQEgACgC4CMiBEEBSA0BIAAgBBCiAQ8LIAAgBCAAIAEQoAEgBBsiBBCiASEIAkAgASgCGCIDIAAoAoQkRgRAIAAoAuAjIQIMAQsCQAJAIANBdmoiAkEKSwRAIANBKEYNAiADQTxGDQIMAQsgAkEBaw4JAAAAAAAAAAAAAQtBmX8hBwsCQCADQQpMBEAgAEEBNgLwLCAAQQJBASADQQpGGzYC5CMgACAEQRB0QRB1IgIgA0EQdEEQdWw2AugjIAAgAkEObDYCxCNBCCECIAAoAuAjIgVBCEYEQCAAQekONgLQJAwCCyAAQd0ONgLQJCAFIQIMAQsgAEEENgLkIyAAIANBFG42AvAsIAAgBEEQdEEQdSICQRRsNgLoIyAAIAJBGGw2AsQjQQghAiAAKALgIyIFQQhGBEAgAEHSDjYC0CQMAQsgAEGwDjYC0CQgBSECCyAAQQA2AoAkIAAgAzYChCQLAkAgAiAERg0AIABCADcCgDggAEEANgL0LCAAQQA2AuwsIABCADcCECAAQQA2AoAkIABBiDhqQQA2AgAgAEGUAWpBAEGgIhAEGkEKIQIgAEEKOgCAOCAAQQE2ArgkIABB5AA2AsAjIAAgBDYC4CMgAEEAOgC9IyAAQYwjakGAgAQ2AgAgAEH8ImpB5AA2AgAgACgC5CMhAwJAIARBCEYEQCAAQdIOQekOIANBBEYbNgLQJEHoGSEFDAELIABBsA5B3Q4gA0EERhs2AtAkQegZQbQqIARBDEYiAhshBUEKQRAgAhshAgsgACAFNgLUJCAAIAI2AqAkIAAgBEEFbDYC7CNBECECIAAgBEEQdCIFQQ91NgL0IyAAIAVBEHUiBUEUbDYC8CMgACADQRB0QRB1IARBgIAUbEEQdWw2AugjIAAgBUESbDYCyCMgAEEYQQ4gA0EERhsgBWw2AsQjIARBEEYEQCAAQeArNgLMJAwBC0EMIQIgBEEMRgRAIABB2is2AswkDAELIABB0Ss2AswkIAQhAgtBACEFAn8gASgCJCIEQQBMBEAgAEHNmQM2AqwkIABCgICAgOAANwKkJCAAQQw2ApwkIABBAjYCtCQgAEIBNwKUJCAAIAJBA2wiBjYC+CNBBgwBCwJAIARBAUYEQCAAQY+FAzYCrCQgAEKBgICAgAE3AqQkIABBDjYCnCQgAEEDNgK0JCAAQgE3ApQkIAJBBWwhBgwBCyAEQQJMBEAgAEHNmQM2AqwkIABCgICAgOAANwKkJCAAQQw2ApwkIABBAjYCtCQgAEICNwKUJCAAIAJBA2wiBjYC+CNBBgwCCyAEQQNGBEAgAEGPhQM2AqwkIABCgYCAgIABNwKkJCAAQQ42ApwkIABBBDYCtCQgAEICNwKUJCACQQVsIQYMAQsgBEEFTARAIABB8foCNgKsJCAAQoGAgICgATcCpCQgAEEQNgKcJCAAQQY2ArQkIABCgoCAgBA3ApQkIAAgAkEFbCIGNgL4IyACQdcHbCEFQQoMAgsgBEEHTARAIABB0vACNgKsJCAAQoGAgIDAATcCpCQgAEEUNgKcJCAAQQg2ArQkIABCg4CAgBA3ApQkIAAgAkEFbCIGNgL4IyACQdcHbCEFQQwMAgsgAEGz5gI2AqwkIABCgoCAgIACNwKkJCAAQRg2ApwkIABBEDYCtCQgAEKEgICAEDcClCQgACACQQVsIgY2AvgjIAJB1wdsIQVBEAwBCyAAIAY2AvgjQQgLIQMgACAFNgLAJCAAIAQ2ApAkIAAgAkEFbCAGQQF0ajYC/CMgACADIAAoAqAkIgQgAyAESBs2AqgkIAAgASgCICIENgKIJCAAKALMLyECIAAgASgCLCIBNgLMLyABBEAgACACBH8gBEEQdUGas35sIARB//8DcUHmzAFsQRB2a0EHaiIBQQIgAUECShsFQQcLNgLQLwsgByAIaiEBIABBATYCvCQLIAELqQMBCX8jAEGwAmsiAiEIIAIkAAJ/IAEgACgC4CMiA0YEQEEAIAAoAtAjIAAoAswjRg0BGgsgA0UEQCAAQZAtaiAAKALMIyABQegHbEEBEB0MAQsgAiAAKALkI0EKbEEFaiIJIANsIgYgASAJbCIFIAYgBUobQQF0QQ9qQXBxayIHIgokACAGQQFOBEAgBiECA0AgByACQX9qIgNBAXRqIAAgA0ECdGpBjDhqKgIAEJIBIgRBgIB+IARBgIB+ShsiBEH//wEgBEH//wFIGzsBACACQQFKIQQgAyECIAQNAAsLIAggAC4B4CNB6AdsIAAoAswjQQAQHSEDIAogACgCzCNB6AdtIAlsIgRBAXRBD2pBcHFrIgIkACAIIAIgByAGEB4gA2ogAEGQLWoiAyAAKALMIyABQRB0QRB1QegHbEEBEB1qIQEgAyAHIAIgBBAeIQQgBUEBTgRAA0AgACAFQX9qIgJBAnRqQYw4aiAHIAJBAXRqLgEAsjgCACAFQQFKIQMgAiEFIAMNAAsLIAEgBGoLIQUgACAAKALMIzYC0CMgCEGwAmokACAFC1EAIAAgASwABSABLAACQQVsakGAK0EIEDAgACABLAAAQc4rQQgQMCAAIAEsAAFB1StBCBAwIAAgASwAA0HOK0EIEDAgACABLAAEQdUrQQgQMAsNACAAIAFBmStBCBAwC6QGAQV/IwBBMGsiBiQAAkAgA0VBACAAIAJBJGxqQdQvaiAAQYAlaiADGyICLAAdQQF0IAIsAB5qIgVBAkgbRQRAIAEgBUF+akG1K0EIEDAMAQsgASAFQbkrQQgQMAsgAiwAACEDAkAgBEECRgRAIAEgA0GALUEIEDAMAQsgASADQQN1IAIsAB1BA3RB4CxqQQgQMCABIAItAABBB3FB4CtBCBAwCyAAKALkI0ECTgRAQQEhAwNAIAEgAiADaiwAAEGALUEIEDAgA0EBaiIDIAAoAuQjSA0ACwsgASACLAAIIAAoAtQkIgMoAhAgAy4BACACLAAdQQF1bGpBCBAwIAZBEGogBiAAKALUJCACLAAIECogACgC1CQiBS4BAkEBTgRAQQAhAwNAAkAgAiADIgdBAWoiA2pBCGoiCCwAACIJQQROBEAgAUEIIAUoAhwgBkEQaiAHQQF0ai4BAGpBCBAwIAEgCCwAAEF8akHoK0EIEDAMAQsgCUF8TARAIAFBACAFKAIcIAZBEGogB0EBdGouAQBqQQgQMCABQXwgCCwAAGtB6CtBCBAwDAELIAEgCUEEaiAFKAIcIAZBEGogB0EBdGouAQBqQQgQMAsgAyAAKALUJCIFLgECSA0ACwsgACgC5CNBBEYEQCABIAIsAB9BuytBCBAwCwJAIAItAB1BAkcNAAJAAkAgBEECRw0AIAAoAogtQQJHDQAgAUEAIAIuARogAC4BjC1rIgNBCWogA0EIaiIDQRNLG0GQDkEIEDAgA0EUSQ0BCyABIAIuARoiAyAAKALgI0EBdSIFbSIHQfANQQgQMCABIAMgB0EQdEEQdSAFQRB0QRB1bGsgACgCzCRBCBAwCyAAIAIvARo7AYwtIAEgAiwAHCAAKALQJEEIEDAgASACLAAgQaktQQgQMCAAKALkI0EBTgRAQQAhAwNAIAEgAiADaiwABCACLAAgQQJ0QfAtaigCAEEIEDAgA0EBaiIDIAAoAuQjSA0ACwsgBA0AIAEgAiwAIUGyK0EIEDALIAAgAiwAHTYCiC0gASACLAAiQdErQQgQMCAGQTBqJAALyw0BFn8jAEEgayIGJAAgBiIIQgA3AxggBkIANwMQIAZCADcDCCAGQgA3AwAgBEEEdSEMIARBcHEgBEgEQCADIARqIgVCADcAACAFQgA3AAggDEEBaiEMC0EAIQUgBiAMQQZ0ayISIgkkAAJAIAxBAEoEQCAMQQR0IQcDQCASIAVBAnRqIAMgBWosAAAiBiAGQR91IgZqIAZzNgIAIBIgBUEBciIGQQJ0aiADIAZqLAAAIgYgBkEfdSIGaiAGczYCACASIAVBAnIiBkECdGogAyAGaiwAACIGIAZBH3UiBmogBnM2AgAgEiAFQQNyIgZBAnRqIAMgBmosAAAiBiAGQR91IgZqIAZzNgIAIAVBBGoiBSAHSA0ACyAJIAxBAnRBD2pBcHEiBWsiECIGJAAgBiAFayITJABB0jEtAAAhGUHRMS0AACEXQdAxLQAAIRRBzzEtAAAhDyAIKAIEIQkgCCgCACENQQAhB0EAIQYgEiEFA0AgEyAVQQJ0Ig5qIhhBADYCACAOIBBqIRogBSgCBCEOIAUoAgAhCgNAQQEhEQJ/AkAgCiAOaiIKIA9KBEAgCSELIA0hCgwBCwJAIAUoAgwgBSgCCGoiCyAPSgRAIAkhCwwBCwJAIAUoAhQgBSgCEGoiBiAPSg0AIAggBjYCCCAFKAIcIAUoAhhqIgYgD0oNACAIIAY2AgwgBSgCJCAFKAIgaiIGIA9KDQAgCCAGNgIQIAUoAiwgBSgCKGoiBiAPSg0AIAggBjYCFCAFKAI0IAUoAjBqIgYgD0oNACAIIAY2AhggBSgCPCAFKAI4aiIGIA9KDQAgCCAGNgIcIAshByAKIQZBAAwDCyALIQcLIAohBgtBAQshFgJAIAYgB2oiDiAUSgRAIAshCSAKIQ4MAQsCQCAIKAIMIAgoAghqIgkgFEoEQCALIQkMAQsCQCAIKAIUIAgoAhBqIgYgFEoNACAIIAY2AgggCCgCHCAIKAIYaiIGIBRKDQAgCCAGNgIMQQAhESAJIQcMAQsgCSEHCyAOIQYLQQEhCgJAIAYgB2oiDSAXSgRAIA4hDQwBCyAHIAgoAgwgCCgCCGoiBiAGIBdKIgobIQcgCSAGIAobIQkgDSEGCyARIBZqIQ4CQCAGIAdqIgsgGUwEQCAaIAs2AgAgDkEAIAprRg0BCyAYIBgoAgBBAWo2AgAgBSAFKAIAQQF1Igo2AgAgBSAFKAIEQQF1Ig42AgQgBSAFKAIIQQF1NgIIIAUgBSgCDEEBdTYCDCAFIAUoAhBBAXU2AhAgBSAFKAIUQQF1NgIUIAUgBSgCGEEBdTYCGCAFIAUoAhxBAXU2AhwgBSAFKAIgQQF1NgIgIAUgBSgCJEEBdTYCJCAFIAUoAihBAXU2AiggBSAFKAIsQQF1NgIsIAUgBSgCMEEBdTYCMCAFIAUoAjRBAXU2AjQgBSAFKAI4QQF1NgI4IAUgBSgCPEEBdTYCPAwBCwsgBUFAayEFIBVBAWoiFSAMRw0ACyAIIAk2AgQgCCANNgIADAELIAkgDEECdEEPakFwcSIFayIQIgYkACAGIAVrIhMkAAtB/////wchCyABQQF1Ig9BCWwhFkEAIQpBACERA0AgCiAWakHwNGotAAAhByAMQQFOBEAgCkESbCIOQbEzaiENQQAhBQNAIA0hBiAHIBMgBUECdCIJaigCAEEATAR/IA4gCSAQaigCAGpBoDNqBSAGCy0AAGohByAFQQFqIgUgDEcNAAsLIAogESAHIAtIIgUbIREgByALIAUbIQsgCkEBaiIKQQlHDQALIAAgESAPQQlsQdA0akEIEDAgDEEBTgRAIBFBEmxB4DFqIQ1BACEHA0ACQCATIAdBAnQiCWooAgAiBUUEQCAAIAkgEGooAgAgDUEIEDAMAQsgAEERIA1BCBAwIAVBAk4EQCAFQX9qIQZBACEFA0AgAEERQYIzQQgQMCAFQQFqIgUgBkcNAAsLIAAgCSAQaigCAEGCM0EIEDALIAdBAWoiByAMRw0AC0EAIQUDQCAQIAVBAnRqKAIAQQFOBEAgACASIAVBBnRqEDYLIAVBAWoiBSAMRw0AC0EAIQsDQCATIAtBAnRqKAIAIg5BAU4EQCADIAtBBHRqIQpBACENA0AgCiANaiwAACIFIAVBH3UiBWogBXNBGHRBGHUhCSAOIgVBAUcEQANAIAAgCSAFQX9qIgZ2QQFxQbArQQgQMCAFQQJKIQcgBiEFIAcNAAsLIAAgCUEBcUGwK0EIEDAgDUEBaiINQRBHDQALCyALQQFqIgsgDEcNAAsLIAAgAyAEIAEgAiAQEDggCEEgaiQAC/sCAQZ/IAAtAL0jQQJGBEAgACgC4CNBgICgH2wgACgCwCNtEDshASAAKALYJCECQYCA8AEQOyEDQYCA8AEQOyEEIAAgAC4BtCMgASAAKAIIIgVBCHVrQQAgAkECdGsiBkH8/wNxIAJBEHRBEHUiAmxBEHUgBkEQdSACbGoiAkEQdSABIANrQRB0QRB1bGogAkH//wNxIAEgBGtBEHRBEHVsQRB1akGAcGoiAUEDbCABIAFBAEgbIgFBTSABQU1KGyIBQTMgAUEzSBtsIgFBEHVBmjNsIAVqIAFB//8DcUGaM2xBEHZqNgIIQTwQOyEBQeQAEDshAiAAKAIIIQMgAAJ/AkAgAUEIdCACQQh0SgRAIANBPBA7QQh0SgRAQTwQO0EIdAwDCyAAKAIIQeQAEDtBCHRODQFB5AAQO0EIdAwCCyADQeQAEDtBCHRKBEBB5AAQO0EIdAwCCyAAKAIIQTwQO0EIdE4NAEE8EDtBCHQMAQsgACgCCAs2AggLCzsBAn8gA0EBTgRAA0AgBCABIAVBAXQiBGouAQAgACAEai4BAGwgAnVqIQQgBUEBaiIFIANHDQALCyAEC8EKAQp/IwBBEGsiCSQAIAlBBGogCUEMaiABIAQQESAJIAlBCGogAiAEEBEgCSAJKAIAIAkoAgwiBiAJKAIIIgcgBiAHShsiCEEBcSAIaiIIIAdrdTYCACAJIAkoAgQgCCAGa3UiBkEBIAZBAUobNgIEIAEgAiAIIAQQqAEiASABIAFBH3UiBGogBHNnIgdBf2p0IgZB/////wEgCSgCBCIEIAQgBEEfdSICaiACc2ciCkF/anQiC0EQdW1BEHRBEHUiAiAGQf//A3FsQRB1IAZBEHUgAmxqIgasIAusfkIdiKdBeHFrIgtBEHUgAmwgBmogC0H//wNxIAJsQRB1aiEGIAUCfyAHIAprQRBqIgJBf0wEQAJ/QYCAgIB4QQAgAmsiAnUiB0H/////ByACdiIKSgRAIAcgBiAHSg0BGiAKIAYgBiAKSBsgAnQMAwsgCiAGIApKDQAaIAcgBiAGIAdIGwsgAnQMAQsgBiACdUEAIAJBIEgbCyICQYCAfyACQYCAf0obIgJBgIABIAJBgIABSBsiAkH//wNxIAJsQRB1IAJBEHUgAmxqIgogCkEfdSIGaiAGcyIGIAYgBUgbIQwgCEEBdSEFQQAhByADKAIAIQYCQCAEQQBMBEAgDEEQdEEQdSIIQQAgBmtBEHVsIQwMAQsgBGciB0FoaiEOQYCAAkGG6QIgB0EBcRsgB0EBdnYiCyALAn8gBEEYIAdrIg1FDQAaIAQgDnQgBEE4IAdrdnIgBEH/AE0NABogBCAHQQhqdCAEIA12cgtB/wBxQYCA1AZsQRB2bEEQdmogBXQgBmtBEHUhDyAPIAxBEHRBEHUiCGwhDCALAn8gBCANRQ0AGiAEIA50IARBOCAHa3ZyIARB/wBNDQAaIAQgB0EIanQgBCANdnILQf8AcUGAgNQGbEEQdiALbEEQdmohBwsgAyAGIAxqIAcgBXQgBmtB//8DcSAIbEEQdWoiBzYCACAJIAkoAgAgAiABQRB1bCACIAFB//8DcWxBEHVqQQR0ayAKQRB0QRB1IgEgBEH//wNxbEEQdSABIARBEHVsakEGdGoiBDYCACADKAIEIQECfyAEQQFIBEBBACEGQQAMAQsgBGciBkFoaiENQYCAAkGG6QIgBkEBcRsgBkEBdnYiCiAKAn8gBEEYIAZrIgxFDQAaIAQgDXQgBEE4IAZrdnIgBEH/AE0NABogBCAGQQhqdCAEIAx2cgtB/wBxQYCA1AZsQRB2bEEQdmohCwJAIAxFDQAgBEH/AE0EQCAEIA10IARBOCAGa3ZyIQQMAQsgBCAGQQhqdCAEIAx2ciEECyALIAV0IQYgCiAEQf8AcUGAgNQGbEEQdiAKbEEQdmoLIQQgAyAGIAFrQRB1IAhsIAFqIAQgBXQgAWtB//8DcSAIbEEQdWoiBDYCBCAEIAQgBEEfdSIDaiADc2ciAUF/anQiA0H/////ASAHQQEgB0EBShsiBCAEZyIIQX9qdCIFQRB1bUEQdEEQdSIEIANB//8DcWxBEHUgA0EQdSAEbGoiA6wgBax+Qh2Ip0F4cWsiBUEQdSAEbCADaiAFQf//A3EgBGxBEHVqIQMgAAJ/IAEgCGtBD2oiBEF/TARAAn9BgICAgHhBACAEayIEdSIBQf////8HIAR2IghKBEAgASADIAFKDQEaIAggAyADIAhIGyAEdAwDCyAIIAMgCEoNABogASADIAMgAUgbCyAEdAwBCyADIAR1QQAgBEEgSBsLIgRBACAEQQBKGyIEQf//ASAEQf//AUgbNgIAIAlBEGokACACC9sDAQ9/A0AgACACIgxBAnRqIQkgASACQQNsaiIGQQFqIQpB/////wchA0EAIQICQANAIAkoAgAgAkEBaiINQQF0QeAqai4BACACQQF0QeAqai4BACIHayIFQf//A3FBmjNsQRB2Ig4gBUEQdSIPQZozbGoiBSAHaiILayIEIARBH3UiBGogBHMiBCADTgRAIAYtAAAhAgwCCyAGIAI6AAAgCkEAOgAAIAkoAgAgBUEDbCAHaiIIayIDIANBH3UiA2ogA3MiAyAETgRAIAshCAwCCyAGIAI6AAAgCkEBOgAAIAkoAgAgBUEFbCAHaiIQayIEIARBH3UiBGogBHMiBCADTg0BIAYgAjoAACAKQQI6AAAgCSgCACAFQQdsIAdqIghrIgMgA0EfdSIDaiADcyILIAROBEAgECEIDAILIAYgAjoAACAKQQM6AAAgCSgCACAFQQlsIAdqayIFIAVBH3UiBWogBXMiAyALTg0BIA9B6swDbCAOQQlsaiAHaiEIIAYgAjoAACAKQQQ6AAAgDSICQQ9HDQALQQ4hAgsgBiACQRh0QRh1QQNtIgc6AAIgBiAHQX1sIAJqOgAAIAkgCDYCAEEBIQIgDEUNAAsgACAAKAIAIAAoAgRrNgIAC4AUAQ5/IwBBEGsiCyESIAskACABQXxqIRUgCyAKQQJqIgxBAXRBD2pBcHFrIhYiFCQAIApBf04EQCAMQQEgDEEBShshEEEAIQsDQCAVIAtBAXQiDGogAiAMQXxqIg9qLgEAIg0gASAPai4BACIPaiIOQQF2IA5BAXFqOwEAIAwgFmogDyANayIMQQF1IAxBAXFqIgxBgIB+IAxBgIB+ShsiDEH//wEgDEH//wFIGzsBACALQQFqIgsgEEcNAAsLIBUgACgCBDYBACAWIAAoAggiDTYCACAAIBUgCkEBdCILaigBADYCBCAAIAsgFmooAQA2AgggFCALQQ9qQXBxIgxrIhQiDyQAQQAhCyAPIAxrIhEiEyQAAkAgCkEATARAIBMgCkEBdEEPakFwcSILayIQIgwkACAMIAtrIhMkAAwBCyANQRB2IQ4gFS8BACEMA0AgFCALQQF0Ig9qIAEgD2ouAQAgDEEQdEEQdWogFSALQQFqIgtBAXRqLgEAIgxBAXRqQQF2QQFqQQF2IhA7AQAgDyARaiAMIBBrOwEAIAogC0cNAAsgEyAKQQF0QQ9qQXBxIgtrIhAiDCQAIAwgC2siEyQAQQAhDANAIA4hCyAQIAxBAXQiD2ogDyAWai4BBCIOIA1BEHRBEHVqIAtBEHRBEHVBAXRqQQF2QQFqQQF2Ig07AQAgDyATaiALIA1rOwEAIAshDSAMQQFqIgwgCkcNAAsLIBIgEkEEaiAUIBAgAEEMaiAKQcgCQY8FIAlBCmwgCkYiCxsiDCAHQRB0QRB1Ig8gD2wiD0H//wNxbEEQdiAMIA9BEHZsaiIMEKkBIhc2AgggEiASIBEgEyAAQRRqIAogDBCpASIYNgIMIAZBsAlB2AQgCxtrIhRBASAUQQFKGyIPIA9nIhFBf2p0Ig4gEigCACASLgEEQQNsaiILQYCABCALQYCABEgbIgZBA2wiDUGAgDRqIgtBgIBMIA1rIAsgDUGAgExIG2ciE0F/anQiC6xB/////wEgC0EQdW1BEHRBEHUiCyAOQf//A3FsQRB1IAsgDkEQdWxqIg6sfkIdiKdBeHFrIhBBEHUgC2wgDmogEEH//wNxIAtsQRB1aiEQIAlBEHRBEHVB2ARsQdAPaiELIAUCfyARIBNrQQpqIg5Bf0wEQAJ/QYCAgIB4QQAgDmsiDnUiE0H/////ByAOdiIRSgRAIBMgECATSg0BGiARIBAgECARSBsgDnQMAwsgESAQIBFKDQAaIBMgECAQIBNIGwsgDnQMAQsgECAOdUEAIA5BIEgbCyIONgIAAn8gDiALSARAIAUgCzYCACAFIA8gC2siDjYCBCAOQQF0IAtrIg4gDiAOQR91IhBqIBBzZyIQQX9qdCIOQf////8BIAtBEHRBEHUiESANQYCABGoiDUH//wNxbEEQdSANQRB1IBFsaiINIA0gDUEfdSIRaiARc2ciEUF/anQiE0EQdW1BEHRBEHUiDSAOQf//A3FsQRB1IA0gDkEQdWxqIg6sIBOsfkIdiKdBeHFrIhNBEHUgDWwgDmogE0H//wNxIA1sQRB1aiEOAn8gECARa0ENaiINQX9MBEACf0GAgICAeEEAIA1rIg11IhBB/////wcgDXYiEUoEQCAQIA4gEEoNARogESAOIA4gEUgbIA10DAMLIBEgDiARSg0AGiAQIA4gDiAQSBsLIA10DAELIA4gDXVBACANQSBIGwsiDUEAIA1BAEobIg1BgIABIA1BgIABSBsMAQsgBSAPIA5rNgIEQYCAAQshDSAAIAAuARwiDiANIA5rIg1B//8DcSAMQRB0QRB1bEEQdiANQRB2IAxsamo7ARxBACEHIARBADoAAAJAAkACQAJAAkACQCAIBEAgEkIANwIIIBJBCGogAxCqAQwBCyAPQQN0IQwCQCAALwEeRQRAAkAgDCALQQ1sSARAIAAuARwhCwwBCyAALgEcIgsgBkH//wNxbEEQdSAGQRB1IAtsakGyBkoNAgsgEiAYQRB0QRB1IAtsQQ51NgIMIBIgF0EQdEEQdSALbEEOdTYCCCASQQhqIAMQqgEgEkIANwIIIAVBADYCBCAFIA82AgAgBEEBOgAADAMLAkAgDCALQQtsSARAIAAuARwhCwwBCyAALgEcIgsgBkH//wNxbEEQdSAGQRB1IAtsakHHAkoNAQsgEiAYQRB0QRB1IAtsQQ51NgIMIBIgF0EQdEEQdSALbEEOdTYCCCASQQhqIAMQqgEgEkIANwIIDAELIAtBzvkATgRAIBJBCGogAxCqAUGAgAEhBwwBCyASIBhBEHRBEHUgC2xBDnU2AgwgEiAXQRB0QRB1IAtsQQ51NgIIIBJBCGogAxCqASAALgEcIQcLIAQtAABBAUcNAQsgACAALwEgIAogCUEDdGtqIgs7ASAgCUEFbCALQRB0QRB1SgRAIARBADoAAAwDCyAAQZDOADsBIAwBCyAAQQA7ASALIAQtAAANAQsgBSgCBEEASg0AIAVBATYCBCAFIBRBf2pBASAPQQJKGzYCAAtBgIAEIAlBA3QiC20hDCASKAIMIQggEigCCCEDIAlBAU4EQCAMQRB0QRB1IgwgByAALgEeIg9rIg1B//8DcWxBEHUgDUEQdSAMbGpBCnQhCSAMIAggAC4BAiINa0EQdEEQdWxBD3VBAWpBAXUhBSAMIAMgAC4BACIOa0EQdEEQdWxBD3VBAWpBAXUhBCALQQEgC0EBShshBkEAIQxBACAOayEQQQAgDWshFCAPQQp0IQ8DQCAMQQF0Ig0gAmpBfmpB//8BIBYgDEEBaiIOQQF0IgxqLgEAIhEgCSAPaiIPQRB1bCAUIAVrIhRBEHRBEHUiEyAMIBVqLgEAIgxBBXVsaiAPQYD4A3EgEWxBEHVqIAxBC3RBgPADcSATbEEQdWogASANai4BACANIBVqLgEAaiAMQQF0aiIMQQd1IBAgBGsiEEEQdEEQdSINbGogDEEJdEGA/ANxIA1sQRB1aiIMQQd1QQFqQQF1Ig1BgIB+IA1BgIB+ShsgDEH//v8DShs7AQAgDiIMIAZHDQALCyALIApIBEAgB0EGdSEUIAdBCnRBgPgDcSERQQAgCEEQdGtBEHUhDUEAIANBEHRrQRB1IQ4DQCALQQF0IgwgAmpBfmpB//8BIBQgFiALQQFqIgtBAXQiD2ouAQAiEGwgDyAVai4BACIPQQV1IA1saiAQIBFsQRB1aiAPQQt0QYDwA3EgDWxBEHVqIAEgDGouAQAgDCAVai4BAGogD0EBdGoiDEEHdSAObGogDEEJdEGA/ANxIA5sQRB1aiIMQQd1QQFqQQF1Ig9BgIB+IA9BgIB+ShsgDEH//v8DShs7AQAgCiALRw0ACwsgACAHOwEeIAAgCDsBAiAAIAM7AQAgEkEQaiQAC/ACAQt/IAVBAU4EQEEAIAIoAgRrIgdB//8AcSELQQAgAigCAGsiAkH//wBxIQwgB0ECdEEQdSENIAJBAnRBEHUhDiADKAIEIQYgAygCACEIA0AgAyAAIApBAXQiD2ouAQAiAiABKAIAIgdBEHVsIAhqIAdB//8DcSACbEEQdWpBAnQiB0EQdSIIIA5sIAZqIAdB/P8DcSIGIA5sQRB1aiAIIAxsIAYgDGxBEHZqQQ11QQFqQQF1aiIQNgIAIAEoAgQhCSADIAggDWwgBiANbEEQdWogCCALbCAGIAtsQRB2akENdUEBakEBdWoiBjYCBCADIAIgCUEQdWwgAiAJQf//A3FsQRB1aiAQaiIINgIAIAMgAiABKAIIIglB//8DcWxBEHUgAiAJQRB1bGogBmoiBjYCBCAEIA9qQf//ASAHQf//AGpBDnUiAkGAgH4gAkGAgH5KGyAHQYCA//8BShs7AQAgCkEBaiIKIAVHDQALCwucBgEKfyMAQSBrIgUkACAAKAIMIgsEQAJAQYCAECAAKAIIIgxBCnRrIgNB//8PTARAIANBEHUhBiADQYD4A3EiBARAIAZBAWohCCAEQRB0QRB1IQMgBEGAgAJPBEAgBSAIQQxsIgRB+CtqKAIAIgkgBkEMbCIHQfgraigCAGsiCkEQdSADbCAJaiAKQf//A3EgA2xBEHVqNgIYIAUgBEH0K2ooAgAiCSAHQfQraigCAGsiCkEQdSADbCAJaiAKQf//A3EgA2xBEHVqNgIUIAUgBEHwK2ooAgAiBCAHQfAraigCAGsiB0EQdSADbCAEaiAHQf//A3EgA2xBEHVqNgIQIAUgCEEDdCIEQbQsaigCACIIIAZBA3QiBkG0LGooAgBrIgdBEHUgA2wgCGogB0H//wNxIANsQRB1ajYCDCAFIARBsCxqKAIAIgQgBkGwLGooAgBrIgZBEHUgA2wgBGogBkH//wNxIANsQRB1ajYCCAwDCyAFIAhBDGwiBEH4K2ooAgAgBkEMbCIHQfgraigCACIJayIKQRB1IANsIAlqIApB//8DcSADbEEQdWo2AhggBSAEQfQraigCACAHQfQraigCACIJayIKQRB1IANsIAlqIApB//8DcSADbEEQdWo2AhQgBSAEQfAraigCACAHQfAraigCACIEayIHQRB1IANsIARqIAdB//8DcSADbEEQdWo2AhAgBSAIQQN0IgRBtCxqKAIAIAZBA3QiBkG0LGooAgAiCGsiB0EQdSADbCAIaiAHQf//A3EgA2xBEHVqNgIMIAUgBEGwLGooAgAgBkGwLGooAgAiBmsiBEEQdSADbCAGaiAEQf//A3EgA2xBEHVqNgIIDAILIAUgBkEMbCIDQfgraigCADYCGCAFIANB8CtqKQIANwMQIAUgBkEDdEGwLGopAwA3AwgMAQsgBUGoLCgCADYCGCAFQaAsKQMANwMQIAVB0CwpAwA3AwgLIAAgCyAMaiIDQQAgA0EAShsiA0GAAiADQYACSBs2AgggASAFQRBqIAVBCGogACABIAIQrAELIAVBIGokAAvbAQICfwN9IANBAU4EQEPbD0lAIANBAWqylSIGQwAAAEAgBiAGlJMiCEMAAAA/lCACQQJIIgIbIQZDAAAAAEMAAIA/IAIbIQcDQCAAIARBAnQiAmogByAGkiABIAJqKgIAQwAAAD+UlDgCACAAIAJBBHIiBWogBiABIAVqKgIAlDgCACAAIAJBCHIiBWogBiAIIAaUIAeTIgeSIAEgBWoqAgBDAAAAP5SUOAIAIAAgAkEMciICaiAHIAEgAmoqAgCUOAIAIAggB5QgBpMhBiAEQQRqIgQgA0gNAAsLC8wBAgR/AXwCfyACQQNKBEAgAkF9aiEGA0AgByAAIANBAnQiBGoqAgC7IAEgBGoqAgC7oiAAIARBBHIiBWoqAgC7IAEgBWoqAgC7oqAgACAEQQhyIgVqKgIAuyABIAVqKgIAu6KgIAAgBEEMciIEaioCALsgASAEaioCALuioKAhByADQQRqIgMgBkgNAAsgAkF8cSEDCyADIAJICwRAA0AgByAAIANBAnQiBGoqAgC7IAEgBGoqAgC7oqAhByADQQFqIgMgAkcNAAsLIAcLRgECfyACIAMgAyACShsiBEEBTgRAQQAhAwNAIAAgA0ECdCIFaiABIAEgBWogAiADaxCvAbY4AgAgA0EBaiIDIARHDQALCwu+AgIEfwN8IwBBkANrIgQkACACQQFqQQEgAkEAShshBgNAIAQgA0EEdGoiBSABIANBAnRqKgIAuyIHOQMAIAUgBzkDCCADQQFqIgMgBkcNAAsgAkEBTgRAQQAhASACIQYDQCAAIAEiA0ECdGogBCADQQFqIgFBBHRqIgUrAwCaIAQrAwgiCEQAAADgCy4RPiAIRAAAAOALLhE+ZBujIge2OAIAAkAgAyACTg0AIAUgBSsDACIJIAcgCKKgOQMAIAQgCCAHIAmioDkDCEEBIQMgBkEBRg0AA0AgBCABIANqQQR0aiIFIAUrAwAiCCAHIAQgA0EEdGoiBSsDCCIJoqA5AwAgBSAJIAcgCKKgOQMIIANBAWoiAyAGRw0ACwsgBkF/aiEGIAEgAkcNAAsLIAQrAwghByAEQZADaiQAIAe2C6QBAgd/A31BASEFIAJBAU4EQANAIAEgA0ECdCIHaioCACEKIANBAWoiCEH+////B3EEQCAFQQF2IQlBACEEA0AgACAEQQJ0aiIGIAYqAgAiCyAKIAAgAyAEQX9zakECdGoiBioCACIMlJI4AgAgBiAMIAogC5SSOAIAIARBAWoiBCAJRw0ACwsgACAHaiAKjDgCACAFQQFqIQUgCCIDIAJHDQALCwtmAgJ/AX0gAUF/aiEDAkAgAUECSARAIAIhBQwBC0EAIQEgAiEFA0AgACABQQJ0aiIEIAUgBCoCAJQ4AgAgBSAClCEFIAFBAWoiASADRw0ACwsgACADQQJ0aiIBIAUgASoCAJQ4AgALyQgBAn8CQCAEQXpqIgVBCksNAAJAAkACQAJAAkAgBUEBaw4KBQEFAgUDBQUFBAALIANBB0gNBEEGIQYDQCAAIAZBAnQiBWogAiAFaiIFKgIAIAVBfGoqAgAgASoCAJQgBUF4aioCACABKgIElJIgBUF0aioCACABKgIIlJIgBUFwaioCACABKgIMlJIgBUFsaioCACABKgIQlJIgBUFoaioCACABKgIUlJKTOAIAIAZBAWoiBiADRw0ACwwECyADQQlIDQNBCCEGA0AgACAGQQJ0IgVqIAIgBWoiBSoCACAFQXxqKgIAIAEqAgCUIAVBeGoqAgAgASoCBJSSIAVBdGoqAgAgASoCCJSSIAVBcGoqAgAgASoCDJSSIAVBbGoqAgAgASoCEJSSIAVBaGoqAgAgASoCFJSSIAVBZGoqAgAgASoCGJSSIAVBYGoqAgAgASoCHJSSkzgCACAGQQFqIgYgA0cNAAsMAwsgA0ELSA0CQQohBgNAIAAgBkECdCIFaiACIAVqIgUqAgAgBUF8aioCACABKgIAlCAFQXhqKgIAIAEqAgSUkiAFQXRqKgIAIAEqAgiUkiAFQXBqKgIAIAEqAgyUkiAFQWxqKgIAIAEqAhCUkiAFQWhqKgIAIAEqAhSUkiAFQWRqKgIAIAEqAhiUkiAFQWBqKgIAIAEqAhyUkiAFQVxqKgIAIAEqAiCUkiAFQVhqKgIAIAEqAiSUkpM4AgAgBkEBaiIGIANHDQALDAILIANBDUgNAUEMIQYDQCAAIAZBAnQiBWogAiAFaiIFKgIAIAVBfGoqAgAgASoCAJQgBUF4aioCACABKgIElJIgBUF0aioCACABKgIIlJIgBUFwaioCACABKgIMlJIgBUFsaioCACABKgIQlJIgBUFoaioCACABKgIUlJIgBUFkaioCACABKgIYlJIgBUFgaioCACABKgIclJIgBUFcaioCACABKgIglJIgBUFYaioCACABKgIklJIgBUFUaioCACABKgIolJIgBUFQaioCACABKgIslJKTOAIAIAZBAWoiBiADRw0ACwwBCyADQRFIDQBBECEGA0AgACAGQQJ0IgVqIAIgBWoiBSoCACAFQXxqKgIAIAEqAgCUIAVBeGoqAgAgASoCBJSSIAVBdGoqAgAgASoCCJSSIAVBcGoqAgAgASoCDJSSIAVBbGoqAgAgASoCEJSSIAVBaGoqAgAgASoCFJSSIAVBZGoqAgAgASoCGJSSIAVBYGoqAgAgASoCHJSSIAVBXGoqAgAgASoCIJSSIAVBWGoqAgAgASoCJJSSIAVBVGoqAgAgASoCKJSSIAVBUGoqAgAgASoCLJSSIAVBTGoqAgAgASoCMJSSIAVBSGoqAgAgASoCNJSSIAVBRGoqAgAgASoCOJSSIAVBQGoqAgAgASoCPJSSkzgCACAGQQFqIgYgA0cNAAsLIABBACAEQQJ0EAQaC/IBAQd/IANBAk4EQCADQQF1IgNBASADQQFKGyEIIAAoAgQhBCAAKAIAIQVBACEDA0AgASADQQF0akH//wEgAiADQQJ0IgZqLgEAQQp0IgcgBWsiBUH//wNxQYG3fmxBEHUgBUEQdUGBt35saiAHaiIHIARqIAIgBkECcmouAQBBCnQiBiAEayIEQf//A3FBkM0AbEEQdiAEQRB1QZDNAGxqIgRqIglBCnVBAWpBAXUiCkGAgH4gCkGAgH5KGyAJQf/3/x9KGzsBACAEIAZqIQQgBSAHaiEFIANBAWoiAyAIRw0ACyAAIAQ2AgQgACAFNgIACwuFBAESfyMAQZAPayIEJAAgBCAAKQIANwMAIAQgACkCCDcDCCAAQRBqIQ9B4AwuAQAhCUHiDC4BACEOQd4MLgEAIQpB3AwuAQAhCyAEQRBqIRADQCAPIBAgAkHYDCADQeADIANB4ANIGyIIEBsgCEEDTgRAIAQoAgAhBiAEIQUgCCEMA0AgAUH//wEgBkEQdSALbCAGQf//A3EgC2xBEHVqIAUoAgQiBkEQdSIHIApsaiAGQf//A3EiDSAKbEEQdWogBSgCCCIGQf//A3EgDmxBEHUgBkEQdSAObGoiEWogBSgCDCIGQRB1IhIgCWxqIAZB//8DcSITIAlsQRB1aiIUQQV1QQFqQQF1IhVBgIB+IBVBgIB+ShsgFEHf//8AShs7AQAgAUH//wEgCiASbCAKIBNsQRB1aiAHIAlsaiARaiAJIA1sQRB1aiAFKAIQIgdBEHUgC2xqIAdB//8DcSALbEEQdWoiB0EFdUEBakEBdSINQYCAfiANQYCAfkobIAdB3///AEobOwECIAFBBGohASAFQQxqIQUgDEEFSiEHIAxBfWohDCAHDQALCyADIAhrIgNBAU4EQCAEIAQgCEECdGoiBSkCADcDACAEIAUpAgg3AwggAiAIQQF0aiECDAELCyAAIAQgCEECdGoiBSkCADcCACAAIAUpAgg3AgggBEGQD2okAAurAQIDfwF8An8gAUEDSgRAIAFBfWohBANAIAUgACACQQJ0IgNqKgIAuyIFIAWiIAAgA0EEcmoqAgC7IgUgBaKgIAAgA0EIcmoqAgC7IgUgBaKgIAAgA0EMcmoqAgC7IgUgBaKgoCEFIAJBBGoiAiAESA0ACyABQXxxIQILIAIgAUgLBEADQCAFIAAgAkECdGoqAgC7IgUgBaKgIQUgAkEBaiICIAFHDQALCyAFC48DAgZ/An0CQCACQQBMDQADQCABIANBAnRqIAM2AgAgA0EBaiIDIAJHDQALQQEhBSACQQFMDQADQCAAIAVBAnRqKgIAIQkgBSEDAkADQCAJIAAgA0F/aiIGQQJ0IgRqKgIAIgpeQQFzDQEgACADQQJ0IgdqIAo4AgAgASAHaiABIARqKAIANgIAIANBAUohBCAGIQMgBA0AC0EAIQMLIAAgA0ECdCIDaiAJOAIAIAEgA2ogBTYCAEEBIQcgBUEBaiIFIAJHDQALCyACQcEASARAIAJBfmohCCACQQJ0IABqQXxqIQUDQCAAIAJBAnRqKgIAIgkgBSoCAF5BAXNFBEAgCCIDIQQCQCAHRQ0AA0AgCSAAIANBAnQiBmoqAgAiCl5BAXMEQCADIQQMAgsgACAGQQRqIgRqIAo4AgAgASAEaiABIAZqKAIANgIAQX8hBCADQQBKIQYgA0F/aiEDIAYNAAsLIAAgBEECdEEEaiIDaiAJOAIAIAEgA2ogAjYCAAsgAkEBaiICQcEARw0ACwsL5gMDA38BfgZ8AkACQAJAAkAgAL0iBEIAWQRAIARCIIinIgFB//8/Sw0BCyAEQv///////////wCDUARARAAAAAAAAPC/IAAgAKKjDwsgBEJ/VQ0BIAAgAKFEAAAAAAAAAACjDwsgAUH//7//B0sNAkGAgMD/AyECQYF4IQMgAUGAgMD/A0cEQCABIQIMAgsgBKcNAUQAAAAAAAAAAA8LIABEAAAAAAAAUEOivSIEQiCIpyECQct3IQMLIAMgAkHiviVqIgFBFHZqtyIIRABgn1ATRNM/oiIFIARC/////w+DIAFB//8/cUGewZr/A2qtQiCGhL9EAAAAAAAA8L+gIgAgACAARAAAAAAAAOA/oqIiBqG9QoCAgIBwg78iB0QAACAVe8vbP6IiCaAiCiAJIAUgCqGgIAAgB6EgBqEgACAARAAAAAAAAABAoKMiACAGIAAgAKIiBSAFoiIAIAAgAESfxnjQCZrDP6JEr3iOHcVxzD+gokQE+peZmZnZP6CiIAUgACAAIABERFI+3xLxwj+iRN4Dy5ZkRsc/oKJEWZMilCRJ0j+gokSTVVVVVVXlP6CioKCioCIARAAAIBV7y9s/oiAIRDYr8RHz/lk9oiAAIAegRNWtmso4lLs9oqCgoKAhAAsgAAvnHwMTfwd9A3wjAEGg2gBrIg4kACAKQQVsIg9BFGoiEkEDdCERIAggEmwhEAJAIAhBEEYEQCAQQQFOBEAgECELA0AgDkGgFWogC0F/aiIMQQF0aiAAIAxBAnRqKgIAEJIBIg1BgIB+IA1BgIB+ShsiDUH//wEgDUH//wFIGzsBACALQQFKIQ0gDCELIA0NAAsLIA5CADcD4EIgDkHgwgBqIA5BwMUAaiAOQaAVaiAQELUBIA9BbUgNASARIQsDQCAOQcDPAGogC0F/aiIMQQJ0aiAOQcDFAGogDEEBdGouAQCyOAIAIAtBAUohDSAMIQsgDQ0ACwwBCyAIQQxGBEAgEEEBTgRAIBAhCwNAIA5BoBVqIAtBf2oiDEEBdGogACAMQQJ0aioCABCSASINQYCAfiANQYCAfkobIg1B//8BIA1B//8BSBs7AQAgC0EBSiENIAwhCyANDQALCyAOQfDCAGpCADcDACAOQgA3A+hCIA5CADcD4EIgDkHgwgBqIA5BwMUAaiAOQaAVaiAQELYBIA9BbUgNASARIQsDQCAOQcDPAGogC0F/aiIMQQJ0aiAOQcDFAGogDEEBdGouAQCyOAIAIAtBAUohDSAMIQsgDQ0ACwwBCyAPQW1IDQAgESELA0AgDkHAxQBqIAtBf2oiDEEBdGogACAMQQJ0aioCABCSASINQYCAfiANQYCAfkobIg1B//8BIA1B//8BSBs7AQAgC0EBSiENIAwhCyANDQALCyAOQgA3A+BCIA5B4MIAaiAOQYDDAGogDkHAxQBqIBEQtQEgD0FtTgRAIBJBAnQiCyEMA0AgDkHAygBqIAxBf2oiDUECdGogDkGAwwBqIA1BAXRqLgEAsjgCACAMQQFKIQ8gDSEMIA8NAAsDQCALQQJ0IA5qQbjKAGoqAgAhHwJ/IA5BwMoAaiALQX9qIgxBAnRqIg0qAgAiHotDAAAAT10EQCAeqAwBC0GAgICAeAshDyANAn8CfUMA/v9GIB8gD7KSIh9DAP7/Rl4NABpDAAAAxyAfQwAAAMddDQAaIB8LIh6LQwAAAE9dBEAgHqgMAQtBgICAgHgLsjgCACALQQJKIQ0gDCELIA0NAAsLQQAhECAOQZAwakEAIApB1ARsEAQaIApBAk4EQCAKQQF1IgtBASALQQFKGyESIA5BgM0AaiEPA0AgDyAPQeB9aiAOQYAuakEoQcEAEIEBIA4qAoAwIR4gD0EoELcBISUgD0FgaiIMQSgQtwEhJiAOIA4qArAwIB67IicgJ6AgJSAmoEQAAAAAAIgDQaAiJaO2kjgCsDBBCSELA0AgDkGQMGogC0ECdGoiDSANKgIAQQAgC2tBAnQgDmpBoDBqKgIAuyImICagICUgDEF8aiINKgIAuyImICaiIAwqApwBuyImICaioaAiJaO2kjgCACANIQwgC0EBaiILQckARw0ACyAPQaABaiEPIBBBAWoiECASRw0ACwsgCEEBdCEVIAhBBWwhGiAIQRJsIhlBf2ohGCAKQQJ0IQ9ByAAhCwNAIA5BkDBqIAtBAnRqIgwgDCoCACIeIB4gC7KUQwAAgLmUkjgCACALQQhLIQwgC0F/aiELIAwNAAtBASEbIA5BsDBqIA5B8CxqIAlBAXRBBGoiDRC4AQJAAkACQCAOKgKwMCIeQ83MTD5dQQFzRQRAIAFBACAPEAQaDAELAkAgCUF/SA0AIB4gBpQhHiANQQEgDUEBShshD0EAIQsDQCAOIAtBAnQiDGpBsDBqKgIAIB5eQQFzBEAgCyENDAILIA5B8CxqIAxqIgwgDCgCAEEBdEEQajYCACALQQFqIgsgD0cNAAsLQQAhDCAOQdYqakEAQZICEAQaIA1BAEoEQANAIA5BwCpqIA5B8CxqIAxBAnRqKAIAQQF0akEBOwEAIAxBAWoiDCANRw0ACyAOLwHiLCEMC0GSASELA0AgDkHAKmogC0EBdGoiDSANLwEAIA1BfGovAQAiDyAMamo7AQBBECENIAtBEEshECAPIQwgC0F/aiELIBANAAsDQCAOQcAqaiANQQFqIgtBAXRqLgEAQQFOBEAgDkHwLGogE0ECdGogDTYCACATQQFqIRMLIAshDSALQZABRw0AC0GSASEMIA4vAeAsIQ0gDi8B4iwhDwNAIA5BwCpqIAxBAXRqIgsgCy8BACANIhAgD2ogC0F6ai8BACINamo7AQBBECELIAxBEEshEiAQIQ8gDEF/aiEMIBINAAtBACEQA0AgDkHAKmogC0EBdGouAQBBAU4EQCAOQcAqaiAQQQF0aiALQX5qOwEAIBBBAWohEAsgC0EBaiILQZMBRw0AC0EAIRIgDkGQMGpBAEHQEhAEGiAKQQFOBEAgAEGABWogDkHA1ABqIAhBCEYbIQwgEEEBSCERA0AgDEEoELcBISUgEUUEQCAlRAAAAAAAAPA/oCEmQQAhCwNAQwAAAAAhHiAMIA5BwCpqIAtBAXRqLgEAQQJ0Ig1rIg8gDEEoEK8BIiVEAAAAAAAAAABkQQFzRQRAICUgJaAgJiAPQSgQtwGgo7YhHgsgDkGQMGogEkHUBGxqIA1qIB44AgAgC0EBaiILIBBHDQALCyAMQaABaiEMIBJBAWoiEiAKRw0ACwsgBUEBSAR9QwAAAAAFAn8gCEEMRgRAIAVBAXRBA20MAQsgBSAIQRBGdgsiBbK7ELkBRGyjeQlPkwpAorYLISMgE0EBTgRAQQtBAyAJQQBKG0EDIAhBCEYbQQMgCkEERiILGyESQYA7Qdo6IAsbIQ9BC0EDIAsbIRAgCrIiISAHlCEkICFDzcxMPpQhIkF/IRRDAAB6xCEHQwAAAAAhBiAKQQFIIRcgBUEBSCEcQQAhBQNAIA5B8CxqIBZBAnRqKAIAIQ1BACEMA0BBACELIA5B0C1qIAxBAnRqIhFBADYCAEMAAAAAIR4gF0UEQANAIA5BkDBqIAtB1ARsaiANIA8gCyAQbCAMamosAABqQQJ0aioCACAekiEeIAtBAWoiCyAKRw0ACyARIB44AgALIAxBAWoiDCASRw0AC0MAAHrEIR5BACELQQAhDANAIA5B0C1qIAtBAnRqKgIAIh8gHiAfIB5eIhEbIR4gCyAMIBEbIQwgC0EBaiILIBJHDQALIB4gIiANsrsQuQFEbKN5CU+TCkCitiIglJMhHyAeIAYCfyAcRQRAIB8gICAjkyIgICCUIiAgIiAEKgIAlJQgIEMAAAA/kpWTIR8LIB4gJF4gHyAHXnEiCwsbIQYgHyAHIAsbIQcgDSAUIAsbIRQgDCAFIAsbIQUgFkEBaiIWIBNHDQALIBRBf0cNAgsgAUIANwIAIAFCADcCCAsgBEEANgIAIAJBADsBAAwBCyAEIAYgIZU4AgAgAgJ/IAhBCEwEQEEAIQsgCkEASgRAA0AgASALQQJ0aiAUIA8gCyAQbCAFamosAABqIgxBECAMQRBKGyIMQZABIAxBkAFIGzYCACALQQFqIgsgCkcNAAsLIBRBcGoMAQsCfyAIQQxGBEAgFEEQdEEQdUEDbCILQQF1IAtBAXFqDAELIBRBAXQLIQsCfyAVIBlOBEAgFSALIBVKDQEaIBggCyALIBhIGwwBCyAYIAsgGU4NABogFSALIAsgFUgbCyIWQQJqIgsgGCALIBhIGyEdIBZBfmoiCyAVIAsgFUobIRMCfwJ9AkACfyAKQQRGBEAgCUEDdEHAPGohHEEiIRtBsDshFyAJQdg8aiwAAAwBCyAKQQBMDQFBDCEbQfg6IRxB4DohF0EMCyEQQQAgE2tBAnQhBCAAIAhBFGwiGEECdGoiFCEFQQAhDwNAIAUgBCAFaiAcIA9BAXQiC0EBcmosAAAiDUECdGsgDkGgFWogGkEBIAsgHGosAAAiEWsiCyANahCBASARIA1KIgxFBEAgCyARIA0gDBtqIRJBACELIBEhDANAIA5BwNkAaiALQQJ0aiAOQaAVaiANIAxrQQJ0aigCADYCACAMQQFqIQwgC0EBaiILIBJHDQALCyAQQQFOBEAgDyAbbCESIA5BwNkAakEAIBFrQQJ0aiERQQAhCwNAIA4gD0GoBWxqIAtBFGxqIgwgESAXIAsgEmpqLAAAQQJ0aiINKQIANwIAIAwgDSgCEDYCECAMIA0pAgg3AgggC0EBaiILIBBHDQALCyAFIBpBAnRqIQUgD0EBaiIPIApHDQALAn8gCkEERgRAIAlB2DxqLAAAIRBBIiECQbA7IRcgCUEDdEHAPGoMAQsgCkEATA0BQQwhAkHgOiEXQQwhEEH4OgshBUEAIQ8DQCAOIBQgEyAFIA9BAXQiC2osAAAiEWpBAnRrIgwgGhC3AUT8qfHSTWJQP6AiJbY4AsBZIAUgC0EBcmosAAAiDSARSgRAQQEhCyANIBFrQQFqIRIDQCALQQJ0Ig0gDkHA2QBqaiAlIAwgGiALa0ECdGoqAgC7IiYgJqKhIAwgDWsqAgC7IiUgJaKgIiW2OAIAIAtBAWoiCyASRw0ACwsgEEEBTgRAIAIgD2whEiAOQcDZAGpBACARa0ECdGohEUEAIQsDQCAOQaAVaiAPQagFbGogC0EUbGoiDCARIBcgCyASamosAABBAnRqIg0pAgA3AgAgDCANKAIQNgIQIAwgDSkCCDcCCCALQQFqIgsgEEcNAAsLIBQgGkECdGohFCAPQQFqIg8gCkcNAAtDzcxMPSAWspUiByAKQQRHDQEaIAlB2DxqLAAAIRFBsDshFEEiDAILIAhBFGwhGEPNzEw9IBaylQshB0HgOiEUQQwhEUEMCyECIAAgGEECdGogCiAabBC3ASElQQAhBSATIB1MBEAgJUQAAAAAAADwP6AhJ0MAAHrEIR8gCkEBSCEXQQAhEgNAQQAhECARQQBKBEADQEMAAAAAIR4CQCAXDQBEAAAAAAAAAAAhJUEAIQsgJyEmA0AgJiASQQJ0Ig8gEEEUbCINIAtBqAVsIgwgDkGgFWpqamoqAgC7oCEmICUgDCAOaiANaiAPaioCALugISUgC0EBaiILIApHDQALICVEAAAAAAAAAABkQQFzDQBDAACAPyAHIBCylJMgJSAloCAmo7aUIR4LIB4gH15BAXNFBEAgEyAWIBMgEEGwO2osAABqIBlIIgsbIRYgHiAfIAsbIR8gECAFIAsbIQULIBBBAWoiECARRw0ACwsgEkEBaiESIBMgHUghCyATQQFqIRMgCw0ACwsgCkEBTgRAQQAhCwNAIAEgC0ECdGoiDyAWIBQgAiALbCAFamosAABqIgw2AgACQCAVIBlKBEAgDCAVIg1KDQEgGSAMIAwgGUgbIQ0MAQsgDCAZIg1KDQAgFSAMIAwgFUgbIQ0LIA8gDTYCACALQQFqIgsgCkcNAAsLIBYgFWsLOwEAQQAhGyAFIR0LIAMgHToAACAOQaDaAGokACAbC6YEAgZ/AX0jAEHQDWsiBSQAIAAoAvAjIQkgBSADIAAoAvQjIgYgACgC6CNqIgpBAnRqIAAoAsQjQQJ0ayIHQQEgBhCuASAFIAAoAvQjIgZBAnQiCGogByAIaiIIIAAoAsQjIAZBAXRrQQJ0IgcQBSAHaiAHIAhqQQIgBhCuASAFQYANaiAFIAAoAsQjIAAoAqgkQQFqELABIAUgBSoCgA0iCyALQ28SgzqUQwAAgD+SkjgCgA0gBUGADGogBUGADWogACgCqCQQsQEhCyABIAUqAoANIAtDAACAPyALQwAAgD9eG5U4AsAFIAVBwAxqIAVBgAxqIAAoAqgkELIBIAVBwAxqIAAoAqgkQ6RwfT8QswEgAiAFQcAMaiADIAlBAnRrIAkgCmogACgCqCQQtAECQAJAIABBnSVqLQAARQ0AIAAoArgkDQAgAiABQeQBaiAAQZolaiAAQZwlaiAAQczOAGogACgCwCMgACgCrCSyQwAAgDeUIAAoAqgkskNvEoO7lEOamRk/kiAAKAK0I7JDzczMPZRDAACAu5SSIAAsAL0jQQF1skOamRm+lJIgACgC6CSyQ83MzD2UQwAAALiUkiAAKALgIyAAKAKkJCAAKALkIxC6AUUEQCAAQQI6AJ0lDAILIABBAToAnSUMAQsgAUIANwLkASABQgA3AuwBIABBADYCzE4gAEGcJWpBADoAACAAQZolakEAOwEACyAFQdANaiQAC+8CAgp/BnwjAEGgA2siBSQAIAVB0AFqQQBByAEQBBogBUEAQcgBEAQhBSADQQFOBEAgBSAEQQN0IgZqIQogBUHQAWogBmohCyACuyERIARBAUghDANAIAEgCUECdGoqAgC7IQ9BACEGIAxFBEADQCAGQQN0IgdBCHIiDSAFQdABamoiDisDACESIAVB0AFqIAdqIA85AwAgBSAHaiIHIAcrAwAgDyAFKwPQASIUoqA5AwAgBUHQAWogBkECaiIGQQN0aisDACETIA4gECASIA+hIBGioCIPOQMAIAUgDWoiByAUIA+iIAcrAwCgOQMAIBIgEyAPoSARoqAhDyATIRAgBiAESA0ACwsgCyAPOQMAIAogCisDACAPIAUrA9ABIhCioDkDACAJQQFqIgkgA0cNAAsLIARBAE4EQANAIAAgCEECdGogBSAIQQN0aisDALY4AgAgBCAIRyEGIAhBAWohCCAGDQALCyAFQaADaiQAC7cCAwJ/AX4CfAJAAnwgAL0iA0IgiKdB/////wdxIgFBgOC/hARPBEACQCADQgBTDQAgAUGAgMCEBEkNACAARAAAAAAAAOB/og8LIAFBgIDA/wdPBEBEAAAAAAAA8L8gAKMPCyAARAAAAAAAzJDAZUEBcw0CRAAAAAAAAAAAIANCf1cNARoMAgsgAUH//7/kA0sNASAARAAAAAAAAPA/oAsPCyAARAAAAAAAALhCoCIEvadBgAFqIgFBBHRB8B9xIgJB8PgBaisDACIFIAUgACAERAAAAAAAALjCoKEgAkEIckHw+AFqKwMAoSIAoiAAIAAgACAARHRchwOA2FU/okQABPeIq7KDP6CiRKagBNcIa6w/oKJEdcWC/72/zj+gokTvOfr+Qi7mP6CioCABQYB+cUGAAm0QXQvHEgMNfwl9AXwjAEGgCWsiCCQAIAAoAvgjIQkgACgC7CQhBCABIABB3CRqKAIAIAAoAtgkarJDAAAAP5RDAAAAOJQiETgCuAUgAUQAAAAAAADwPyAEsiITQwAAADyUIhRDAACgwZJDAACAvpS7EF5EAAAAAAAA8D+go7YiEjgCvAUgACgCxCRFBEAgFCAAKAK0I7JDAACAu5RDAACAP5IiFSAVIBFDAAAAP5RDAAAAP5IgEiASkpSUlJMhFAsCQCAAQZ0lai0AAEECRgRAIABBniVqQQA6AAAgFCAAKgLMTiIRIBGSkiEXDAELIBNDzczMvpRDAAAAPJRDAADAQJJDAACAPyARk5QhFiAALgHkI0EFbCIEQQJtIQVDAAAAACERIARBAk4EQCAAKALgI0EBdCIGsiEVQwAAAAAhEkEAIQQgBkECdCEHA0AgESAVIAIgBhC3AbaSuxC5AURso3kJT5MKQKK2IhMgEpOLkiARIAQbIREgAiAHaiECIBMhEiAEQQFqIgQgBUcNAAsLIBYgFJIhFyARIAVBf2qyQ5qZGT+UXkEBc0UEQCAAQQA6AJ4lDAELIABBAToAniULAn9BACAAKALkIyICQQFIDQAaIAMgCUECdGshCkPXo3A/IAEqAsAFQ28SgzqUIhEgEZRDAACAP5KVIRlDAACAPyAAKALAJLJDAACAN5QgASoCvAVDCtcjPJSSIhMgE5STIRggE4whFgNAIAhB4AFqIApBASAAKAL8IyAAKALgIyIEQQNsIgVrQQJtIgIQrgEgAkECdCIGIAhB4AFqaiAGIApqIARBDGwQBRogAiAFakECdCIEIAhB4AFqaiAEIApqQQIgAhCuASAAKALsIyEHIAAoApwkIQIgACgC/CMhBAJAIAAoAsAkQQFOBEAgCEHwAGogCEHgAWogEyAEIAIQvAEMAQsgCEHwAGogCEHgAWogBCACQQFqELABCyAIIAgqAnAiESARQ4Ko+zeUQwAAgD+SkjgCcCAIIAhB8ABqIAAoApwkELEBIREgASALQeAAbGpB9AFqIgIgCCAAKAKcJBCyASABIAtBAnRqIgMgEZEiEjgCACAAKAKcJCEGIAAoAsAkQQFOBEAgBkECdCACakF8aioCACAWlCERIAZBAk4EQCAGQX5qIQQDQCARIAIgBEECdGoqAgCSIBaUIREgBEEASiEFIARBf2ohBCAFDQALCyADIBJDAACAP0MAAIA/IBGTlZQ4AgALIAdBAnQhDyACIAYgGRCzASAAKAKcJCEFAkACQCAAKALAJEEBTgRAIAVBf2ohDCAFQQJIIg5FBEAgAiAMQQJ0aioCACERIAwhBANAIAIgBEF/aiIGQQJ0aiIHIAcqAgAgEyARlJMiETgCACAEQQFKIQcgBiEEIAcNAAsLIAVBAUgNAiACIBggEyACKgIAIhGUQwAAgD+SlSIUIBGUOAIAQQEhCSAFQQFGDQEDQCACIAlBAnRqIgQgFCAEKgIAlDgCACAJQQFqIgkgBUcNAAtBACEJDAELQQAhA0EAIQYgBUEBSA0BA0BDAACAvyERQQAhBANAIAIgBEECdGoqAgCLIhIgESASIBFeIgcbIREgBCAGIAcbIQYgBEEBaiIEIAVHDQALIBFDnu9/QF8NAiACIAVDpHB9PyADskPNzMw9lEPNzEw/kiARQ57vf8CSlCARIAZBAWqylJWTELMBIANBAWoiA0EKRw0ACwwBCyACIAxBAnRqIRBBACENQQAhBgNAQwAAgL8hEUEAIQQDQCACIARBAnRqKgIAiyISIBEgEiARXiIHGyERIAQgBiAHGyEGIARBAWoiBCAFRw0ACyARQ57vf0BfDQEgDkUEQCACKgIAIRJBASEEA0AgAiAEQQJ0aiIHQXxqIBIgEyAHKgIAIhWUkjgCACAVIRIgBEEBaiIEIAVHDQALC0MAAIA/IBSVIRJBACEEA0AgAiAEQQJ0aiIHIBIgByoCAJQ4AgAgBEEBaiIEIAVHDQALIAIgBUOkcH0/IA2yQ83MzD2UQ83MTD+SIBFDnu9/wJKUIBEgBkEBarKUlZMQswEgDkUEQCAQKgIAIREgDCEEA0AgAiAEQX9qIgdBAnRqIgMgAyoCACATIBGUkyIROAIAIARBAUohAyAHIQQgAw0ACwsgAiAYIBMgAioCACIRlEMAAIA/kpUiFCARlDgCAEEBIQQgCUUEQANAIAIgBEECdGoiByAUIAcqAgCUOAIAIARBAWoiBCAFRw0ACwsgDUEBaiINQQpHDQALCyAKIA9qIQogC0EBaiILIAAoAuQjIgJIDQALIBdDCtcjvpS7EL0BIRpBACIEIAJBAUgNABogGrYhEQNAIAEgBEECdGoiBSAFKgIAIBGUQ0zJnz+SOAIAIARBAWoiBCACRw0AC0EBCyEEIAAoArQjsiIVQwAAgDuUIAAoAtgkskMAAAA4lEMAAIC/kkMAAAA/lEMAAIA/kkMAAIBAlJQhEgJAAkACQCAALQCdJSIJQQJGBEAgBARAQ83MTD4gACgC4COylSETQQAhBQNAIAEgBUECdGoiBiATQwAAQEAgBigC5AGylZIiEUMAAIC/kjgC9AQgBkMAAIA/IBGTIBIgEZSTOAKEBSAFQQFqIgUgAkcNAAsLIBVDZmaGvpRDAACAO5RDAACAvpIhEgwBCyABQ2Zmpj8gACgC4COylSIRQwAAgL+SIhM4AvQEIAFDAACAPyARkyASIBGUQ5qZGb+UkjgChAUgAkEBTARAIARFDQNDAACAviESQwAAAAAhEwwCCyABIBM4AvgEIAEgASgChAU2AogFQQIhBUMAAIC+IRIgAkECRg0AIAFB9ARqIQcgAUGEBWohAwNAIAcgBUECdCIGaiABKAL0BDYCACADIAZqIAEoAoQFNgIAIAVBAWoiBSACRw0ACwsgCUECRgRAIARFDQIgACoCzE6RQwAAgD9DAACAPyABKgK8BZMgASoCuAWUk0PNzEw+lEOamZk+kpQhEwwBC0MAAAAAIRMgBEUNAQtBACEEA0AgACAAKgKEOCIRIBMgEZNDzczMPpSSIhE4AoQ4IAEgBEECdGoiBSAROAKkBSAAIAAqAog4IhEgEiARk0PNzMw+lJIiETgCiDggBSAROAKUBSAEQQFqIgQgAkcNAAsLIAhBoAlqJAALrgEBBH8gA0H8/wNxIgUEQANAIAAgBkECdCIEaiABIARqKgIAIAKUOAIAIAAgBEEEciIHaiABIAdqKgIAIAKUOAIAIAAgBEEIciIHaiABIAdqKgIAIAKUOAIAIAAgBEEMciIEaiABIARqKgIAIAKUOAIAIAZBBGoiBiAFSQ0ACwsgBSADSARAA0AgACAFQQJ0IgRqIAEgBGoqAgAgApQ4AgAgBUEBaiIFIANHDQALCws2AQF/IABBEGohAANAIAMgBEECdGogACABIAIQrwG2OAIAIABBfGohACAEQQFqIgRBBUcNAAsLwQIDBn8BfQF8IAIgAEEEIgZBAnRqIgUgARC3ASIKtjgCAEEBIQMDQCACIANBBWwgA2pBAnRqIAogBSADQQJ0ayoCACIJIAmUIAUgASADa0ECdGoqAgAiCSAJlJO7oCIKtjgCACADQQFqIgNBBUcNAAsgAEEMaiEAQQEhBANAIAIgBEEFbEECdGogBSAAIAEQrwEiCrYiCTgCACACIARBAnRqIAk4AgBBASEDQQUgBGtBAk4EQANAIAIgAyAEaiIIQQVsIANqQQJ0aiAKIAUgA0ECdCIHayoCACAAIAdrKgIAlCAFIAEgA2tBAnQiB2oqAgAgACAHaioCAJSTu6AiCrYiCTgCACACIANBBWwgCGpBAnRqIAk4AgAgA0EBaiIDIAZHDQALCyAGQX9qIQYgAEF8aiEAIARBAWoiBEEFRw0ACwuhAQEEfyACQfz/A3EiBARAA0AgACAGQQJ0IgNqIgUgBSoCACABlDgCACAAIANBBHJqIgUgBSoCACABlDgCACAAIANBCHJqIgUgBSoCACABlDgCACAAIANBDHJqIgMgAyoCACABlDgCACAGQQRqIgYgBEkNAAsLIAQgAkgEQANAIAAgBEECdGoiAyADKgIAIAGUOAIAIARBAWoiBCACRw0ACwsLpgECA38CfSAFQQFOBEAgBEEFaiEHA0AgAkF+IAMgBkECdGooAgBrQQJ0aiIIIAQgABDBASAIIAIgBCABEMABIABDAACAPyACIAcQtwG2IgkgACoCACAAKgJgkkOPwnU8lEMAAIA/kiIKIAogCV0blSIJQRkQwgEgASAJQQUQwgEgAUEUaiEBIABB5ABqIQAgAiAEQQJ0aiECIAZBAWoiBiAFRw0ACwsLqwcBEX8jAEGQAWsiBiQAIAYgBkEQajYCDCAGIAZB0ABqNgIIIAEgBkHQAGogBkEQaiACQQF1IgoQxQEgBkHQAGohDCAGQdAAakGACC4BACIRIAoQxgEiA0F/TARAIABBADsBACAGQRBqIQxBASENIAZBEGogESAKEMYBIQMLA0BBASEJIBEhCANAAkACfwJAAkAgA0EASiIHRUEAIAwgCUEBdCITQYAIai4BACIFIAoQxgEiEiAEThtFBEAgA0EASA0BIBJBACAEa0oNAQsgDCAFIAhqIgRBAXUgBEEBcWoiDiAKEMYBIQsCQAJAIAcNAEGAfiEEIAtBf0wNACAOIQcgCyEQDAELIAsgEiALQQFIIANBf0pxIgQbIRAgAyALIAQbIQMgDiAFIAQbIQcgCCAOIAQbIQhBgH5BgH8gBBshBAsgDCAHIAhqIgVBAXUgBUEBcWoiCyAKEMYBIQUgA0EASg0BIAVBf0wNASAFIRAgCwwCCyAJQYABSCEHQQAhBCAFIQggEiEDIAlBAWohCSAHDQMgD0EQTwRAIABBgIACIAJBAWptIgM7AQBBAiEJIAJBAkgNAyAAIANBAXQiAzsBAiACQQJGDQMDQCAAIAlBAXRqIAAvAQAgA2oiAzsBACAJQQFqIgkgAkcNAAsMAwsgASACQYCABEECIA90axAJIAEgBkHQAGogBkEQaiAKEMUBQQAhDSAGQdAAaiEMIA9BAWoiCSEPIAZB0ABqIBEgChDGASIDQX9KDQQgAEEAOwEAQQEhDSAGQRBqIQwgBkEQaiARIAoQxgEhAyAJIQ8MBAsgBSAQIAVBAUggA0F/SnEiDhshECADIAUgDhshAyAIIAsgDhshCCAEIARBwAByIA4bIQQgCyAHIA4bCyEHIAwgByAIaiIFQQF1IAVBAXFqIAoQxgEhBQJAAkAgA0EASg0AIAVBf0wNACAFIQcMAQsgBSAQIAVBAUggA0F/SnEiCBshByADIAUgCBshAyAEIARBIGogCBshBAsgAyAHayEFAkAgAyADQR91IgdqIAdzQYCABE4EQCADIAVBBXVtIARqIQQMAQsgBUUNACADQQV0IAVBAXVqIAVtIARqIQQLIAAgDUEBdGogBCAJQQh0aiIDQf//ASADQf//AUgbOwEAIA1BAWoiDSACTg0AIBJFIQRBgCAgDUEMdEGAwABxayEDIBMuAf4HIQggBkEIaiANQQFxQQJ0aigCACEMDAELCwsgBkGQAWokAAu/AwEEfyABIANBAnQiBGpBgIAENgIAIAIgBGpBgIAENgIAAkAgA0EBSA0AQQAhBANAIAEgBEECdCIGakEAIAAgAyAEakECdGoiBSgCACAAIARBf3MgA2pBAnRqIgcoAgBqazYCACACIAZqIAUoAgAgBygCAGs2AgAgBEEBaiIEIANHDQALIAMhBANAIAEgBEF/aiIAQQJ0IgZqIgUgBSgCACABIARBAnQiBWooAgBrNgIAIAIgBmoiBiAGKAIAIAIgBWooAgBqNgIAIARBAUohBiAAIQQgBg0AC0ECIQcgA0ECSA0AA0AgByADIgRIBEADQCABIARBAnRqIgBBeGoiBiAGKAIAIAAoAgBrNgIAIARBf2oiBCAHSg0ACwtBAiEFIAEgB0ECdGoiBEF4aiIAIAAoAgAgBCgCAEEBdGs2AgAgAyAHRyEEIAdBAWohByAEDQALA0AgBSADIgRIBEADQCACIARBAnRqIgBBeGoiBiAGKAIAIAAoAgBrNgIAIARBf2oiBCAFSg0ACwsgAiAFQQJ0aiIEQXhqIgAgACgCACAEKAIAQQF0azYCACADIAVHIQQgBUEBaiEFIAQNAAsLC6YDAQR/IAFBBHQhBCAAIAJBAnRqKAIAIQMgAkEIRwRAIAJBAU4EQCABQRR0QRB1IQEgBEEPdUEBakEBdSEFA0AgACACQX9qIgRBAnRqKAIAIANBEHUgAWwgAyAFbGogA0H//wNxIAFsQRB1amohAyACQQFKIQYgBCECIAYNAAsLIAMPCyAAKAIAIAAoAgQgACgCCCAAKAIMIAAoAhAgACgCFCAAKAIYIAAoAhwgAUEUdEEQdSICIANBEHVsIAMgBEEPdUEBakEBdSIBbGogA0H//wNxIAJsQRB1amoiAyABbGogA0EQdSACbGogA0H//wNxIAJsQRB1aiIDIAFsaiADQRB1IAJsaiADQf//A3EgAmxBEHVqIgMgAWxqIANBEHUgAmxqIANB//8DcSACbEEQdWoiAyABbGogA0EQdSACbGogA0H//wNxIAJsQRB1aiIDIAFsaiADQRB1IAJsaiADQf//A3EgAmxBEHVqIgMgAWxqIANBEHUgAmxqIANB//8DcSACbEEQdWoiAyABbGogA0EQdSACbGogA0H//wNxIAJsQRB1agujAgEFf0EBIQMgAEGAgAggAS4BAiABLgEAIgVrIgRBASAEQQFKG24iBEGAgAggBUEBIAVBAUobbmoiBUH//wEgBUH//wFJGzsBACACQX9qIQYgAkEDTgRAA0AgACADQQF0IgJqQYCACCABIAJBAmoiBWoiBy4BACABIAJqLgEAayICQQEgAkEBShtuIgIgBGoiBEH//wEgBEH//wFJGzsBACAAIAVqQYCACCABIANBAmoiA0EBdGouAQAgBy4BAGsiBEEBIARBAUobbiIEIAJqIgJB//8BIAJB//8BSRs7AQAgAyAGSA0ACwsgACAGQQF0IgNqQYCACEGAgAIgASADai4BAGsiA0EBIANBAUobbiAEaiIDQf//ASADQf//AUkbOwEAC1gBA38gBEEBTgRAIANBEHRBEHUhBkEAIQMDQCAAIANBAXQiBWogASAFai8BACIHIAYgAiAFai8BACAHa0EQdEEQdWxBAnZqOwEAIANBAWoiAyAERw0ACwsL8gEBB38gBEEBTgRAIAVBAkghDANAIAUhCUEAIQZBACEHIAxFBEADQCABIAlBf2oiCEEBdCILai8BACACIAhqLQAAQQd0a0EQdEEQdSADIAtqLgEAbCIIIAZBAXVrIgYgBkEfdSIGaiAGcyAHaiABIAlBfmoiBkEBdCIHai8BACACIAZqLQAAQQd0a0EQdEEQdSADIAdqLgEAbCILIAhBAXVrIgcgB0EfdSIHaiAHc2ohByAJQQNKIQggBiEJIAshBiAIDQALCyAAIApBAnRqIAc2AgAgAiAFaiECIAMgBUEBdGohAyAKQQFqIgogBEcNAAsLC7UPAQ5/IwBBwAJrIgokACAGQRB0QRB1IQ9BdiEGA0AgBkEKdCELAkAgBkEBTgRAIAtBmgdyIQwgC0Gaf2ohCwwBCyAGRQRAIAtBmgdyIQwMAQsgC0GACGoiDiAOQeYAciAGQX9GGyEMIAtB5gByIQsLIAogBkECdEEoaiIOaiAPIAxBEHRBEHVsQRB1NgIAIApB0ABqIA5qIA8gC0EQdEEQdWxBEHU2AgAgBkEBaiIGQQpHDQALIApBADsB4AEgCkEANgLAASAJQQFIBH9BAAUgCEEQdEEQdSEUIAkhDkEBIQ8DQCAOIhdBf2ohDgJAAkACQCAPQQFOBEAgBSAEIA5BAXQiBmouAQBqIRYgASAGai8BACEMIAMgDmotAAAhFSACIAZqLgEAIQ1BACEGA0AgCkHwAWogBkEEdGogDmogDCAKQeABaiAGQQF0aiIRLgEAIBVsQQh1IghrQRB0QRB1IAdsQRB1IgtBdiALQXZKGyILQQkgC0EJSBsiCzoAACARIAggC0ECdEEoaiIQIApB0ABqaigCAGoiEzsBACAKQeABaiAGIA9qIhFBAXRqIAogEGooAgAgCGoiCDsBAAJ/IAtBA04EQCALQQNGBEBBmAIhEiAWLQAHDAILIAtBK2wiC0GXAWohEiALQewAagwBCyALQXxMBEAgC0F8RgRAIBYtAAEhEkGYAgwCCyALQVVsIgtBwQBqIRIgC0HsAGoMAQsgCyAWaiILLQAFIRIgCy0ABAshECAKQcABaiAGQQJ0aiILIAsoAgAiCyAQIBRsaiAMIBNrQRB0QRB1IhAgEGwgDWxqNgIAIApBwAFqIBFBAnRqIAsgEiAUbGogDCAIa0EQdEEQdSILIAtsIA1sajYCACAGQQFqIgYgD0cNAAtBACEGIA9BA04EQEEAIQsgCigCwAEiDCAKKALQASIGSg0CIAYhDSAMIQYMAwsDQCAKQfABaiAGIA9qQQR0aiAOaiAKQfABaiAGQQR0aiAOai0AAEEBajoAACAGQQFqIgYgD0cNAAsLIA9BAXQiDyEGIA9BA0oNAgNAIApB8AFqIAZBBHRqIA5qIApB8AFqIAYgD2tBBHRqIA5qLQAAOgAAIAZBAWoiBkEERw0ACwwCCyAKIAw2AtABIAogBjYCwAEgCi8B4AEhCyAKIAovAegBOwHgASAKIAs7AegBQQQhCyAMIQ0LIAogBjYCsAEgCiANNgKgASAKIAs2ArACQQEhDAJAIAooAsQBIgggCigC1AEiC0wEQCALIREgCCELDAELIAogCDYC1AEgCiALNgLEASAKLwHiASEMIAogCi8B6gE7AeIBIAogDDsB6gFBBSEMIAghEQsgCiALNgK0ASAKIBE2AqQBIAogDDYCtAJBAiEMAkAgCigCyAEiECAKKALYASIITARAIAghEyAQIQgMAQsgCiAQNgLYASAKIAg2AsgBIAovAeQBIQwgCiAKLwHsATsB5AEgCiAMOwHsAUEGIQwgECETCyAKIAg2ArgBIAogEzYCqAEgCiAMNgK4AkEDIRICQCAKKALMASIVIAooAtwBIgxMBEAgDCEQIBUhDAwBCyAKIBU2AtwBIAogDDYCzAEgCi8B5gEhECAKIAovAe4BOwHmASAKIBA7Ae4BQQchEiAVIRALIAogDDYCvAEgCiAQNgKsASAKIBI2ArwCA0AgECATIBEgDSANIBFKIhIbIg0gDSATSiIRGyINIA0gEEoiExsgDCAIIAsgBkEAIAZBAEobIgYgBiALSCINGyIGIAYgCEgiCxsiBiAGIAxIIgYbTkUEQEEDQQIgDSALGyAGGyIGQQJ0IgsgCkGwAmpyQQNBAiASIBEbIBMbIgxBAnQiCCAKQbACanIoAgBBBHM2AgAgCkHAAWogC3IgCkHAAWogDEEEciINQQJ0aigCADYCACAKQbABaiALckEANgIAIApB4AFqIAZBAXRyIApB4AFqIA1BAXRyLwEAOwEAIApBoAFqIAhyQf////8HNgIAIApB8AFqIAZBBHRqIgYgCkHwAWogDEEEdGoiCykDADcDACAGIAspAwg3AwggCigCvAEhDCAKKAKsASEQIAooArgBIQggCigCqAEhEyAKKAK0ASELIAooAqQBIREgCigCsAEhBiAKKAKgASENDAELCyAKQfABaiAOaiIGIAYtAAAgCigCsAJBAnZqOgAAIAZBEGoiCyALLQAAIAooArQCQQJ2ajoAACAGQTBqIgsgCy0AACAKKAK8AkECdmo6AAAgBkEgaiIGIAYtAAAgCigCuAJBAnZqOgAACyAXQQFKDQALIAooAtwBIQYgCigC2AEhCyAKKALUASEPIAooAtABIQ4gCigCzAEhDCAKKALIASEIIAooAsQBIQ0gCigCwAELIRQgBiALIA8gDiAMIAggDSAUIBQgDUoiERsiDSANIAhKIg0bIgggCCAMSiIIGyIMIAwgDkoiDBsiDiAOIA9KIg4bIg8gDyALSiIPGyILIAsgBkoiCxshFEEHQQZBBUEEQQNBAiARIA0bIAgbIAwbIA4bIA8bIAsbIQYgCUEASgRAIAAgCkHwAWogBkEDcUEEdGogCRAFGgsgACAALQAAIAZBAnZqOgAAIApBwAJqJAAgFAueBgESfyMAQYABayIHIQkgByQAIAEgAigCJCACLgECEEIgByACLwEAQQJ0QQ9qQfD/H3FrIgciCiQAIAcgASACKAIIIAIoAgwgAi4BACACLgECEMkBIAogBUECdEEPakFwcSIIayIOIgokACAHIA4gAi4BACAFEEAgCiAIayIPIgckACAHIAVBBHRrIhIkACAFQQFOBEAgBkEBdSEUIARBDnRBEHUhFQNAIA4gEEECdCIWaigCACENIAIuAQIiE0EBTgRAIA0gE2wiByACKAIIaiEXIAIoAgwgB0EBdGohGEEAIQoDQCAKQQF0IgcgCUHQAGpqIAcgGGouAQAiCCABIAdqLwEAIAogF2otAABBB3RrQRB0QRB1bEEOdjsBACADIAdqLgEAIgYgBiAGQR91IgtqIAtzZyILQX9qdCIGQf////8BIAggCGwiCCAIZyIMQX9qdCIRQRB1bUEQdEEQdSIIIAZB//8DcWxBEHUgBkEQdSAIbGoiBqwgEax+Qh2Ip0F4cWsiEUEQdSAIbCAGaiARQf//A3EgCGxBEHVqIQYgCUEwaiAHagJ/IAsgDGtBHWoiCEEUTARAAn9BgICAgHhBFSAIayIIdSILQf////8HIAh2IgxKBEAgCyAGIAtKDQEaIAwgBiAGIAxIGyAIdAwDCyAMIAYgDEoNABogCyAGIAYgC0gbCyAIdAwBCyAGIAhBa2p1QQAgCEE1SBsLOwEAIApBAWoiCiATRw0ACwsgCSAJQSBqIAIgDRAqIA8gFmoiCiASIBBBBHRqIAlB0ABqIAlBMGogCUEgaiAJIAIoAiAgAi4BBCACLgEGIAQgAi4BAhDKATYCACACKAIQIBQgAi4BAGxqIQcgCkGAgIAgIA0EfyAHIA1qIgdBf2otAAAFQYACCyAHLQAAaxA7QRB0a0EQdSAVbCAKKAIAajYCACAQQQFqIhAgBUcNAAsLIA8gCUH8AGogBUEBEEAgACAOIAkoAnwiB0ECdGooAgA6AAAgAEEBaiASIAdBBHRqIAIuAQIQBRogASAAIAIQQyAPKAIAGiAJQYABaiQAC4YDAQh/IwBB4ABrIgUkACAAKALkIyEGIAAuAbQjIQQgBUEgaiACIAAoAqAkEMcBIARBe2wgBEHuzgNsQRB1akHKGGoiBEEBdUEAIAZBAkYbIARqIQgCQCAAKAKYJEEBRw0AIABBnyVqLAAAIgRBA0oNACAFQUBrIAMgAiAEIAAoAqAkEMgBIAUgBUFAayAAKAKgJBDHAUEBIQcgACgCoCQiCUEBSA0AIAAsAJ8lIgQgBGxBG3RBEHUhCkEAIQQDQCAEQQF0IgYgBUEgamoiCyALLgEAQQF2IAUgBmouAQAgCmxBEHZqOwEAIARBAWoiBCAJRw0ACwsgAEGIJWogAiAAKALUJCAFQSBqIAggACgCtCQgAEGdJWosAAAQywEgAUEgaiIEIAIgACgCoCQgACgC5CcQDAJAIAcEQCAFQUBrIAMgAiAAQZ8laiwAACAAKAKgJBDIASABIAVBQGsgACgCoCQgACgC5CcQDAwBCyABIAQgACgCoCRBAXQQBRoLIAVB4ABqJAALwhsBIH8jAEGwAWsiDyEaIA8kACABKALoISEcIA8gACgClCRBlApsQQ9qQXBxayIPIhskACAPQQAgACgClCQiFEGUCmwQBCEZIBRBAU4EQCABQYAhaiETIAFBgB5qIRAgACgC8CNBAnQgAWpB/AlqKAIAIRUgASgC5CEhFiABKALgISEYIAItACIhHwNAIBkgEUGUCmxqIg9BADYCkAogDyARIB9qQQNxIhI2AowKIA8gEjYCiAogDyAWNgKECiAPIBg2AoAKIA8gFTYCgAggDyAQKQIANwIAIA8gECkCCDcCCCAPIBApAhA3AhAgDyAQKQIYNwIYIA8gECkCIDcCICAPIBApAig3AiggDyAQKQIwNwIwIA8gECkCODcCOCAPQaAJaiATQeAAEAUaIBFBAWoiESAURw0ACwsgAi0AHSEWIAIsAB4hEiAaQQA2AqwBIAAoAuwjIhVBKCAVQShIGyEXAkAgFkECRgRAIAAoAuQjIhFBAUgNAUEAIQ8DQCAXIAwgD0ECdGooAgBBfWoiECAXIBBIGyEXIA9BAWoiDyARRw0ACwwBCyAcQQFIDQAgFyAcQX1qIg8gFyAPSBshFwsgAi0AHyEYIBsgACgC8CMiDyAAKALoI2oiEEECdEEPakFwcWsiIiIRJAAgESAQQQF0QQ9qQXBxayImIhAkACAQIBVBAnRBD2pBcHFrIh8kACABIA82AuwhIAEgDzYC8CEgASAPQQF0aiEdIAAoAuQjIhNBAU4EQCAWQRh0QRh1QQF0QXxxIBJBAXRqQcArai4BACErQQFBAyAYQf8BcSIPQQRHGyEsIA5BEHRBEHUhJyAPQQRGIS1BACEOA0AgCCAOQQJ0IiFqKAIAIRggAUEANgL8ISAFIA5BAXYgLXJBBXRqISgCf0EAIBZB/wFxQQJHDQAaQQIhFiAMIA5BAnRqKAIAIRxBACAOICxxDQAaIA5BAkYEQEEAIRBBACEPIAAoApQkIhRBAk4EQCAZKAKQCiESQQEhEQNAIBkgEUGUCmxqKAKQCiITIBIgEyASSCITGyESIBEgDyATGyEPIBFBAWoiESAURw0ACwsgFEEASgRAA0AgDyAQRwRAIBkgEEGUCmxqIhEgESgCkApB////P2o2ApAKCyAQQQFqIhAgFEcNAAsLQQAhICAXQQFOBH8gGigCrAEgF2ohE0EAIRADQCAEIBAgF2siEWogGSAPQZQKbGogE0F/akEobyISQShqIBIgEkEASBsiE0ECdGoiEigCoARBCXZBAWpBAXY6AAAgHSARQQF0akH//wFBgIB+IAsoAgQiFUEQdEEQdSIWIBIoAsAFIhRB//8DcWxBEHUgFiAUQRB1bGogFUEPdUEBakEBdSAUbGoiFEENdkEBakEBdiAUQYDA//99SBsgFEH/v///AUobOwEAIAEgESABKALwIWpBAnRqQYAKaiASQYAIaigCADYCACAQQQFqIhAgF0cNAAsgACgC7CMFIBULIRULICYgACgC8CMiECAcayAAKAKgJCIRa0F+aiIPQQF0aiABIA4gFWwgD2pBAXRqICggECAPayARIAAoAuQnEBAgACgC8CMhDyABQQE2AvwhIAEgDzYC7CEgAi0AHSEWQQELISNB/////wEgCyAhaiIpKAIAIhVBASAVQQFKGyIQIBBnIhJBf2p0Ig9BEHUiEW0iFEEPdUEBakEBdUEAIA9B//8DcSAUQRB0IhRBEHUiD2xBEHUgDyARbGpBA3RrIhFsIBRqIBFBEHUgD2xqIBFB+P8DcSAPbEEQdWohDyAMICFqKAIAISogACgClCQhGwJ/IBBB//8HTQRAAn9BgICAgHggEkFxaiIQdSIRQf////8HIBB2IhJKBEAgESAPIBFKDQEaIBIgDyAPIBJIGyAQdAwDCyASIA8gEkoNABogESAPIA8gEUgbCyAQdAwBCyAPQQ8gEmt1CyETIBhBD3QhHiAAKALsIyISQQFOBEAgE0EEdUEBaiIPQQ90QRB1IREgD0EQdUEBakEBdSEUQQAhDwNAIB8gD0ECdGogAyAPQQF0ai4BACIQQRB1IBFsIBAgFGxqIBBB//8DcSARbEEQdWo2AgAgD0EBaiIPIBJHDQALCyAYQQJ1IRggHkGAgHxxIR4gDkEwbCEkIA5BCmwhJSAWQRh0IS4CQCAjRQ0AIA5FBEAgE0EQdSAnbCATQf//A3EgJ2xBEHVqQQJ0IRMLIAEoAuwhIhEgKmtBfmoiDyARTg0AIBNB//8DcSEUIBNBEHUhEwNAICIgD0ECdGogFCAmIA9BAXRqLgEAIhBsQRB1IBAgE2xqNgIAIA9BAWoiDyARRw0ACwsgGCAeciEjIAcgJGohHiAGICVqISQgLkEYdSElIAEoAvghIg8gFUcEQCAPIA8gD0EfdSIQaiAQc2ciEUF/anQiEEH/////ASAVIBUgFUEfdSIPaiAPc2ciEkF/anQiFEEQdW1BEHRBEHUiDyAQQf//A3FsQRB1IA8gEEEQdWxqIhCsIBSsfkIdiKdBeHFrIhRBEHUgD2wgEGogFEH//wNxIA9sQRB1aiEPAn8gESASa0EdaiIQQQ9MBEACf0GAgICAeEEQIBBrIhB1IhFB/////wcgEHYiEkoEQCARIA8gEUoNARogEiAPIA8gEkgbIBB0DAMLIBIgDyASSg0AGiARIA8gDyARSBsLIBB0DAELIA8gEEFwanVBACAQQTBIGwshDyAAKALwIyIQQQFOBEAgD0H//wNxIRQgD0EQdSETIAEoAvAhIBBrIRADQCABIBBBAnRqQYAKaiIRIBEoAgAiEUEQdEEQdSISIBRsQRB1IBIgE2xqIBFBD3VBAWpBAXUgD2xqNgIAIBBBAWoiECABKALwIUgNAAsLAkAgFkH/AXFBAkcNACABKAL8IQ0AIAEoAuwhIhEgKmtBfmoiECARIBdrIhRODQAgD0H//wNxIRMgD0EQdSEVA0AgIiAQQQJ0aiIRIBEoAgAiEUEQdEEQdSISIBNsQRB1IBIgFWxqIBFBD3VBAWpBAXUgD2xqNgIAIBBBAWoiECAURw0ACwsgG0EBTgRAIA9B//8DcSEQIA9BEHUhEUEAIRgDQCAZIBhBlApsaiIUIBQoAoAKIhJBEHRBEHUiEyAQbEEQdSARIBNsaiASQQ91QQFqQQF1IA9sajYCgAogFCAUKAKECiISQRB0QRB1IhMgEGxBEHUgESATbGogEkEPdUEBakEBdSAPbGo2AoQKQQAhEwNAIBQgE0ECdGoiEiASKAIAIhJBEHRBEHUiFSAQbEEQdSARIBVsaiASQQ91QQFqQQF1IA9sajYCAEEAIRIgE0EBaiITQRBHDQALQQAhEwNAIBQgE0ECdGpBoAlqIhUgFSgCACIVQRB0QRB1IhYgEGxBEHUgESAWbGogFUEPdUEBakEBdSAPbGo2AgAgE0EBaiITQRhHDQALA0AgFCASQQJ0aiITQeAGaiIVIBUoAgAiFUEQdEEQdSIWIBBsQRB1IBEgFmxqIBVBD3VBAWpBAXUgD2xqNgIAIBNBgAhqIhMgEygCACITQRB0QRB1IhUgEGxBEHUgESAVbGogE0EPdUEBakEBdSAPbGo2AgAgEkEBaiISQShHDQALIBhBAWoiGCAbRw0ACwsgASApKAIANgL4ISAAKAKUJCEbICkoAgAhFSAAKALsIyESCyABIBkgJSAfIAQgHSAiIBogKCAkIB4gHCAjIAkgIWooAgAgCiAhaigCACAVIA0gKyASICAgACgCnCQgACgCoCQgACgCwCQgGyAaQawBaiAXEM4BIAQgACgC7CMiFWohBCAdIBVBAXQiD2ohHSAOQQFqIg4gACgC5CMiE0gEQCAgQQFqISAgAyAPaiEDIAItAB0hFgwBCwsgACgClCQhFAtBACERIBRBAk4EQCAZKAKQCiEQQQEhDwNAIBkgD0GUCmxqKAKQCiISIBAgEiAQSCISGyEQIA8gESASGyERIA9BAWoiDyAURw0ACwsgAiAZIBFBlApsaiIWKAKMCjoAIiABIBYgF0EBTgR/IBooAqwBIBdqIRQgE0ECdCALakF8aigCACIPQQp0QRB1IRMgD0EVdUEBakEBdSEVQQAhDwNAIAQgDyAXayIQaiAWIBRBf2pBKG8iEUEoaiARIBFBAEgbIhRBAnRqIhEoAqAEQQl2QQFqQQF2OgAAIB0gEEEBdGpB//8BQYCAfiARKALABSISQRB1IBNsIBIgFWxqIBJB//8DcSATbEEQdWoiEkEHdkEBakEBdiASQYD//3tIGyASQf/+/wNKGzsBACABIBAgASgC8CFqQQJ0akGACmogEUGACGooAgA2AgAgD0EBaiIPIBdHDQALIAAoAuwjBSAVC0ECdGoiDykCADcCgB4gAUG4HmogDykCODcCACABQbAeaiAPKQIwNwIAIAFBqB5qIA8pAig3AgAgAUGgHmogDykCIDcCACABQZgeaiAPKQIYNwIAIAFBkB5qIA8pAhA3AgAgAUGIHmogDykCCDcCACABQYAhaiAWQaAJakHgABAFGiABIBYoAoAKNgLgISABIBYoAoQKNgLkISABIAAoAuQjQQJ0IAxqQXxqKAIANgLoISABIAEgACgC6CNBAXRqIAAoAvAjQQF0EAhBgApqIg8gDyAAKALoI0ECdGogACgC8CNBAnQQCBogGkGwAWokAAuRGwE1fyMAIhohPSAaIBdBOGxBD2pBcHFrIh4kACASQQFOBEAgD0EGdSE+IBBBEHRBEHUiISARQRB0IhpBEHVsISUgEUGwB2oiKEEQdEEQdSAhbCEpQYCAwB0gGmtBEHUgIWwhPyARQbB/aiFAIBFB0HhqIUEgDkEQdSEqIBRBAXUhQiAVQQF1IUMgDEEQdSErQYAEIBBBAXYiGmshRCAaQYB8aiEmIA5BEHRBEHUhLCANQRB0QRB1IS0gFkEQdEEQdSEOIAxBEHRBEHUhLiAKIBRBf2oiRUEBdGohRiAAKALwISALa0ECdCAAakGECmohIiAAKALsISALa0ECdCAGakEIaiEgIAJBAkchRyAUQQNIIUggEEGBEEghSSATQQBKIUoDQAJAIEcEQEEAISMMAQsgCS4BACIMICAoAgAiEEEQdWwgEEH//wNxIAxsQRB1aiAJLgECIgwgIEF8aigCACIQQRB1bGogEEH//wNxIAxsQRB1aiAJLgEEIgwgIEF4aigCACIQQRB1bGogEEH//wNxIAxsQRB1aiAJLgEGIgwgIEF0aigCACIQQRB1bGogEEH//wNxIAxsQRB1aiAJLgEIIgwgIEFwaigCACIQQRB1bGogEEH//wNxIAxsQRB1akEBdEEEaiEjICBBBGohIAsCQCALQQFIBEBBACEvDAELICMgIkF8aigCACIQQRB1ICtsICJBeGooAgAgIigCAGoiDEEQdSAubGogDEH//wNxIC5sQRB1aiAQQf//A3EgK2xBEHVqQQJ0ayEvICJBBGohIgsCQCAXQQBMBEAgGCgCACEwDAELIB9BD2ohSyADIB9BAnQiTGohTSBGLgEAITEgCi4BACEyIAguARIhMyAILgEQITQgCC4BDiE1IAguAQwhNiAILgEKITcgCC4BCCE4IAguAQYhOSAILgEEITogCC4BAiE7IAguAQAhPEEAISQDQCABICRBlApsaiIbIBsoAogKQbWIzt0AbEHrxuWwA2o2AogKIBsgS0ECdGoiECgCACIMQRB1IDxsIENqIAxB//8DcSA8bEEQdWogEEF8aigCACIMQRB1IDtsaiAMQf//A3EgO2xBEHVqIBBBeGooAgAiDEEQdSA6bGogDEH//wNxIDpsQRB1aiAQQXRqKAIAIgxBEHUgOWxqIAxB//8DcSA5bEEQdWogEEFwaigCACIMQRB1IDhsaiAMQf//A3EgOGxBEHVqIBBBbGooAgAiDEEQdSA3bGogDEH//wNxIDdsQRB1aiAQQWhqKAIAIgxBEHUgNmxqIAxB//8DcSA2bEEQdWogEEFkaigCACIMQRB1IDVsaiAMQf//A3EgNWxBEHVqIBBBYGooAgAiDEEQdSA0bGogDEH//wNxIDRsQRB1aiAQQVxqKAIAIgxBEHUgM2xqIAxB//8DcSAzbEEQdWohGiAVQRBGBEAgCC4BFCICIBBBWGooAgAiDEEQdWwgGmogDEH//wNxIAJsQRB1aiAILgEWIhogEEFUaigCACIMQRB1bGogDEH//wNxIBpsQRB1aiAILgEYIhogEEFQaigCACIMQRB1bGogDEH//wNxIBpsQRB1aiAILgEaIhogEEFMaigCACIMQRB1bGogDEH//wNxIBpsQRB1aiAILgEcIgwgEEFIaigCACIQQRB1bGogEEH//wNxIAxsQRB1aiAILgEeIgwgGyBMaigCACIQQRB1bGogEEH//wNxIAxsQRB1aiEaCyAbIBsoAoQKIBsoAqAJIgxBEHUgDmxqIAxB//8DcSAObEEQdWoiEDYCoAkgEEEQdSAybCBCaiAQQf//A3EgMmxBEHVqIRMgDCAbQaQJaigCACAQayIQQRB1IA5saiAQQf//A3EgDmxBEHVqIRAgGkEEdCEnQQIhDCBIRQRAA0AgG0GgCWoiGiAMQX9qIg1BAnRqIhYoAgAhDyAaIAxBAnQiHGoiHSgCACECIBYgEDYCACAaIBxBBHJqKAIAIRYgCiANQQF0ai4BACENIB0gDyACIBBrIhpBEHUgDmxqIBpB//8DcSAObEEQdWoiGjYCACANIBBBEHVsIBNqIA0gEEH//wNxbEEQdWogCiAMQQF0ai4BACIQIBpBEHVsaiAaQf//A3EgEGxBEHVqIRMgAiAWIBprIhBBEHUgDmxqIBBB//8DcSAObEEQdWohECAMQQJqIgwgFEgNAAsLIBsgRUECdGpBoAlqIBA2AgACQAJAAkACQAJ/QQAgTSgCACJOICcgL2ogGygCgAoiDEH//wNxIhogLWxBEHUgDEEQdSIMIC1saiAQQRB1IDFsIBNqIBBB//8DcSAxbEEQdWpBAXRqQQJ0Ig1rIAwgKmwgGiAqbEEQdWogGyAYKAIAIjBBAnRqQYAIaigCACIQQRB1ICxsaiAQQf//A3EgLGxBEHVqQQJ0IhNrQQN1QQFqQQF1ayIQayAQIBtBiApqKAIAQQBIIhYbIhBBgIh+IBBBgIh+ShsiEEGA8AEgEEGA8AFIGyICIBFrIhAgSQ0AGiAQICZrIBAgJkoNABogECBETg0BIBAgJmoLIhBBgAhOBEAgQCAQQYB4cWoiDEEQdEEQdSAhbCEcIAxBgAhqIhpBEHRBEHUgIWwhHQwECyAQQQp1QQFqIg9BAUsNAiAlIRwgKSEdIBEhDCAoIRogD0EBaw0BDAMLICUhHCApIR0gESEMICghGiAQQQBODQILID8hHCAlIR0gQSEMIBEhGgwBCyAQQYB4cUHQAHIgEWoiDEGACGohGkGAgIBgIAxBEHQiEGtBEHUgIWwhHUEAIBBrQRB1ICFsIRwLIBsoApAKIQ8gHiAkQThsaiIQIBogDCACIAxrQRB0QRB1IhsgG2wgHGpBCnUiHCACIBprQRB0QRB1IgIgAmwgHWpBCnUiHUgiAhsiGzYCHCAQIAwgGiACGyIMNgIAIBAgDyAdIBwgAhtqNgIgIBAgDyAcIB0gAhtqNgIEIBBBACAMQQR0IgxrIAwgFhsgI2oiDDYCGCAQQQAgG0EEdCIaayAaIBYbICNqIho2AjQgECAMICdqIgw2AgggECAaICdqIho2AiQgECAMIE5BBHQiAmsiDDYCECAQIBogAmsiGjYCLCAQIAwgDWsiDDYCDCAQIBogDWsiGjYCKCAQIAwgE2s2AhQgECAaIBNrNgIwICRBAWoiJCAXRw0ACwtBACEQIBggMEF/akEobyIMQShqIAwgDEEASBsiDDYCACAMIBlqQShvIRZBASEMQQAhDSAeKAIEIhohAiAXQQJIIh1FBEADQCAeIAxBOGxqKAIEIhMgAiATIAJIIhMbIQIgDCANIBMbIQ0gDEEBaiIMIBdHDQALCyAWQQJ0Ig8gASANQZQKbGpqIRwgF0EBSCIbRQRAIBwoAoADIRoDQCAaIAEgEEGUCmxqIA9qKAKAA0cEQCAeIBBBOGxqIgwgDCgCBEH///8/ajYCBCAMQSBqIgwgDCgCAEH///8/ajYCAAsgEEEBaiIQIBdHDQALIB4oAgQhGgsgHigCICEMQQAhAkEBIRBBACENIB1FBEADQCAeIBBBOGxqIhMoAgQiFiAaIBYgGkoiFhshGiATKAIgIhMgDCATIAxIIhMbIQwgECANIBYbIQ0gECACIBMbIQIgEEEBaiIQIBdHDQALCyAMIBpIBEAgH0ECdCIQIAEgDUGUCmxqaiABIAJBlApsaiAQakGUCiAQaxAFGiAeIA1BOGxqIhAgHiACQThsaiIMKAI0NgIYIBAgDCkCLDcCECAQIAwpAiQ3AgggECAMKQIcNwIACyBKRUEAIB8gGUgbRQRAIAQgHyAZayIQaiAcKAKgBEEJdkEBakEBdjoAACAFIBBBAXRqQf//AUGAgH4gByAPaigCACIMQRB0QRB1IhogHCgCwAUiEEH//wNxbEEQdSAaIBBBEHVsaiAMQQ91QQFqQQF1IBBsaiIQQQd2QQFqQQF2IBBBgP//e0gbIBBB//7/A0obOwEAIAAgACgC8CEgGWtBAnRqQYAKaiAcQYAIaigCADYCACAGIAAoAuwhIBlrQQJ0aiAcKALgBjYCAAsgACAAKALwIUEBajYC8CEgACAAKALsIUEBajYC7CEgG0UEQCAfQRBqIQ1BACEaA0AgASAaQZQKbGoiECAeIBpBOGxqIgwoAgw2AoAKIBAgDCgCEDYChAogECANQQJ0aiAMKAIIIgI2AgAgECAYKAIAQQJ0aiACNgLABSAQIBgoAgBBAnRqIAwoAgAiAjYCoAQgECAYKAIAQQJ0aiAMKAIYQQF0NgLgBiAQIBgoAgBBAnRqQYAIaiAMKAIUNgIAIBAgECgCiAogAkEJdUEBakEBdWoiAjYCiAogECAYKAIAQQJ0aiACNgKAAyAQIAwoAgQ2ApAKIBpBAWoiGiAXRw0ACwsgByAYKAIAQQJ0aiA+NgIAIB9BAWoiHyASRw0ACwtBACEOIBdBAEoEQCASQQJ0IRoDQCABIA5BlApsaiIQIBAgGmoiDCkCADcCACAQIAwpAjg3AjggECAMKQIwNwIwIBAgDCkCKDcCKCAQIAwpAiA3AiAgECAMKQIYNwIYIBAgDCkCEDcCECAQIAwpAgg3AgggDkEBaiIOIBdHDQALCyA9JAALlyEBO38jACIPITYgASACLAAiNgL0ISABKALoISEfIAItAB8hFSACLAAdIRogAiwAHiEWIA8gACgC6CMiEiAAKALwIyIRaiIQQQJ0QQ9qQXBxayIlIg8kACAPIBBBAXRBD2pBcHFrIisiECQAIBAgACgC7CMiD0ECdEEPakFwcWsiLCQAIAEgETYC7CEgASARNgLwISAAKALkIyIQQQFOBEAgDUEQdEEQdSIcIBpBAXRBfHEgFkEBdGpBwCtqLgEAIhhBsAdqIi1BEHRBEHVsIS5BgIDAHSAYQRB0a0EQdSAcbCE3QQFBAyAVQf8BcSIQQQRHGyE4IBhBsH9qITkgGEHQeGohOiABQbweaiE7QYAEIA1BAXYiEmshPCASQYB8aiEmIA5BEHRBEHUhLyAQQQRGIT0gASARQQF0aiEnIBggHGwhKCANQYEQSCE+IAFBgB5qIhtBOGohPyAbQShqIUAgG0EgaiFBIBtBGGohQgNAIAggF0ECdCIWaigCACEdIAFBADYC/CEgBSAXQQF2ID1yQQV0aiEUAn9BACAaQf8BcUECRw0AGkECIRogDCAXQQJ0aigCACEfQQAgFyA4cQ0AGiArIAAoAvAjIhEgH2sgACgCoCQiDWtBfmoiEEEBdGogASAPIBdsIBBqQQF0aiAUIBEgEGsgDSAAKALkJxAQIAFBATYC/CEgASAAKALwIzYC7CEgAi0AHSEaQQELIRVB/////wEgCyAWaiIeKAIAIg5BASAOQQFKGyIQIBBnIg1Bf2p0Ig9BEHUiEW0iEkEPdUEBakEBdUEAIA9B//8DcSASQRB0IhJBEHUiD2xBEHUgDyARbGpBA3RrIhFsIBJqIBFBEHUgD2xqIBFB+P8DcSAPbEEQdWohDyAMIBZqKAIAIRMCfyAQQf//B00EQAJ/QYCAgIB4IA1BcWoiEHUiEUH/////ByAQdiINSgRAIBEgDyARSg0BGiANIA8gDyANSBsgEHQMAwsgDSAPIA1KDQAaIBEgDyAPIBFIGwsgEHQMAQsgD0EPIA1rdQshEiAAKALsIyIgQQFOBEAgEkEEdUEBaiIPQQ90QRB1IREgD0EQdUEBakEBdSENQQAhDwNAICwgD0ECdGogAyAPQQF0ai4BACIQQRB1IBFsIA0gEGxqIBBB//8DcSARbEEQdWo2AgAgD0EBaiIPICBHDQALCwJAIBVFDQAgF0UEQCASQRB1IC9sIBJB//8DcSAvbEEQdWpBAnQhEgsgASgC7CEiESATa0F+aiIPIBFODQAgEkH//wNxIQ0gEkEQdSESA0AgJSAPQQJ0aiANICsgD0EBdGouAQAiEGxBEHUgECASbGo2AgAgD0EBaiIPIBFHDQALCyABKAL4ISIPIA5HBEAgDyAPIA9BH3UiEGogEHNnIhFBf2p0IhBB/////wEgDiAOIA5BH3UiD2ogD3NnIg1Bf2p0IhJBEHVtQRB0QRB1Ig8gEEH//wNxbEEQdSAPIBBBEHVsaiIQrCASrH5CHYinQXhxayISQRB1IA9sIBBqIBJB//8DcSAPbEEQdWohDwJ/IBEgDWtBHWoiEEEPTARAAn9BgICAgHhBECAQayIQdSIRQf////8HIBB2Ig1KBEAgESAPIBFKDQEaIA0gDyAPIA1IGyAQdAwDCyANIA8gDUoNABogESAPIA8gEUgbCyAQdAwBCyAPIBBBcGp1QQAgEEEwSBsLIREgACgC8CMiD0EBTgRAIBFB//8DcSESIBFBEHUhDiABKALwISAPayEPA0AgASAPQQJ0akGACmoiECAQKAIAIhBBEHRBEHUiDSASbEEQdSANIA5saiAQQQ91QQFqQQF1IBFsajYCACAPQQFqIg8gASgC8CFIDQALCwJAIBpB/wFxQQJHDQAgASgC/CENACABKALsISISIBNrQX5qIg8gEk4NACARQf//A3EhDiARQRB1IRUDQCAlIA9BAnRqIhAgECgCACIQQRB0QRB1Ig0gDmxBEHUgDSAVbGogEEEPdUEBakEBdSARbGo2AgAgD0EBaiIPIBJHDQALCyABIAEoAuAhIg9BEHRBEHUiECARQf//A3EiDWxBEHUgECARQRB1IhJsaiAPQQ91QQFqQQF1IBFsajYC4CEgASABKALkISIPQRB0QRB1IhAgDWxBEHUgECASbGogD0EPdUEBakEBdSARbGo2AuQhQQAhD0EAIRADQCABIBBBAnRqQYAeaiIOIA4oAgAiDkEQdEEQdSIVIA1sQRB1IBIgFWxqIA5BD3VBAWpBAXUgEWxqNgIAIBBBAWoiEEEQRw0ACwNAIAEgD0ECdGpBgCFqIhAgECgCACIQQRB0QRB1Ig4gDWxBEHUgDiASbGogEEEPdUEBakEBdSARbGo2AgAgD0EBaiIPQRhHDQALIAEgHigCADYC+CEgACgC7CMhICAeKAIAIQ4LICBBAU4EQCAGIBdBCmxqISEgHUECdSIPIB1BD3RyQRB1ITAgCiAWaigCACIQQRB1ITEgACgCnCQiHkEBdSFDIAAoAqAkIkRBAXUhRSAOQQp0QRB1ITIgD0EQdEEQdSEzIBBBEHRBEHUhNCAOQRV1QQFqQQF1IUYgByAXQTBsaiIOIB5Bf2oiD0EBdGohRyABIA9BAnRqQYAhaiFIIAEoAvAhIB9rQQJ0IAFqQYQKaiEiIAEoAuwhIB9rQQJ0ICVqQQhqIRkgCSAWai4BACE1IAEoAvQhIQ9BACEjIDshEwNAIAEgD0G1iM7dAGxB68blsANqNgL0ISAULgEAIhAgEygCACIPQRB1bCBFaiAPQf//A3EgEGxBEHVqIBQuAQIiECATQXxqKAIAIg9BEHVsaiAPQf//A3EgEGxBEHVqIBQuAQQiECATQXhqKAIAIg9BEHVsaiAPQf//A3EgEGxBEHVqIBQuAQYiECATQXRqKAIAIg9BEHVsaiAPQf//A3EgEGxBEHVqIBQuAQgiECATQXBqKAIAIg9BEHVsaiAPQf//A3EgEGxBEHVqIBQuAQoiECATQWxqKAIAIg9BEHVsaiAPQf//A3EgEGxBEHVqIBQuAQwiECATQWhqKAIAIg9BEHVsaiAPQf//A3EgEGxBEHVqIBQuAQ4iECATQWRqKAIAIg9BEHVsaiAPQf//A3EgEGxBEHVqIBQuARAiECATQWBqKAIAIg9BEHVsaiAPQf//A3EgEGxBEHVqIBQuARIiECATQVxqKAIAIg9BEHVsaiAPQf//A3EgEGxBEHVqISQgREEQRgRAIBQuARQiECATQVhqKAIAIg9BEHVsICRqIA9B//8DcSAQbEEQdWogFC4BFiIQIBNBVGooAgAiD0EQdWxqIA9B//8DcSAQbEEQdWogFC4BGCIQIBNBUGooAgAiD0EQdWxqIA9B//8DcSAQbEEQdWogFC4BGiIQIBNBTGooAgAiD0EQdWxqIA9B//8DcSAQbEEQdWogFC4BHCIQIBNBSGooAgAiD0EQdWxqIA9B//8DcSAQbEEQdWogFC4BHiIQIBNBRGooAgAiD0EQdWxqIA9B//8DcSAQbEEQdWohJAtBACEpIBpB/wFxQQJGBEAgIS4BACIQIBkoAgAiD0EQdWwgD0H//wNxIBBsQRB1aiAhLgECIhAgGUF8aigCACIPQRB1bGogD0H//wNxIBBsQRB1aiAhLgEEIhAgGUF4aigCACIPQRB1bGogD0H//wNxIBBsQRB1aiAhLgEGIhAgGUF0aigCACIPQRB1bGogD0H//wNxIBBsQRB1aiAhLgEIIhAgGUFwaigCACIPQRB1bGogD0H//wNxIBBsQRB1akECaiEpIBlBBGohGQsgASgCgCEhECABIAEoAuQhIg82AoAhIA4uAQAiESAPQRB1bCBDaiAPQf//A3EgEWxBEHVqIRJBAiEPIB5BA04EQANAIAFBgCFqIg0gD0F/aiIVQQJ0aiIWKAIAIREgFiAQNgIAIA0gD0ECdGoiFigCACEdIA4gFUEBdGouAQAhDSAWIBE2AgAgDSAQQRB1bCASaiANIBBB//8DcWxBEHVqIA4gD0EBdGouAQAiECARQRB1bGogEUH//wNxIBBsQRB1aiESIB0hECAPQQJqIg8gHkgNAAsLIEggEDYCACAkQQJ0IAEoAuAhIg9B//8DcSIRIDVsQRB1IA9BEHUiDyA1bGogRy4BACINIBBBEHVsIBJqIBBB//8DcSANbEEQdWpBAXRqIhZrIA8gMWwgESAxbEEQdWogASgC8CFBAnQgAWpB/AlqKAIAIg9BEHUgNGxqIA9B//8DcSA0bEEQdWoiHWshDwJAIB9BAU4EQCAPQQF0IClqICJBfGooAgAiD0EQdSAwbCAiQXhqKAIAICIoAgBqIhBBEHUgM2xqIBBB//8DcSAzbEEQdWogD0H//wNxIDBsQRB1akEBdGtBAnUhDyAiQQRqISIMAQsgD0EBdSEPCwJAAkACQAJAAn9BACAsICNBAnRqIkkoAgAgD0EBakEBdWsiD2sgDyABKAL0IUEASBsiD0GAiH4gD0GAiH5KGyIPQYDwASAPQYDwAUgbIg0gGGsiDyA+DQAaIA8gJmsgDyAmSg0AGiAPIDxODQEgDyAmagsiD0GACE4EQCA5IA9BgHhxaiIQQRB0QRB1IBxsIRIgEEGACGoiEUEQdEEQdSAcbCEVDAQLIA9BCnVBAWoiKkEBSw0CIBghECAtIREgKCESIC4hFSAqQQFrDQEMAwsgGCEQIC0hESAoIRIgLiEVIA9BAE4NAgsgOiEQIBghESA3IRIgKCEVDAELIA9BgHhxQdAAciAYaiIQQYAIaiERQYCAgGAgEEEQdCIPa0EQdSAcbCEVQQAgD2tBEHUgHGwhEgsgBCAjaiIqIBEgECANIBFrQRB0QRB1Ig8gD2wgFWogDSAQa0EQdEEQdSIPIA9sIBJqSBsiD0EJdkEBakEBdjoAACAnICNBAXRqQf//AUGAgH4gKUEBdEEAIA9BBHQiD2sgDyABKAL0IUEASBtqIhEgJEEEdGoiD0EQdSAybCAPIEZsaiAPQf7/A3EgMmxBEHVqIhBBB3ZBAWpBAXYgEEGA//97SBsgEEH//v8DShs7AQAgEyAPNgIEIAEgDyBJKAIAQQR0ayIPNgLkISABIA8gFkECdGsiDzYC4CEgASABKALwIUECdGpBgApqIA8gHUECdGs2AgAgJSABKALsISIPQQJ0aiARQQF0NgIAIAEgD0EBajYC7CEgASABKALwIUEBajYC8CEgASABKAL0ISAqLAAAaiIPNgL0ISATQQRqIRMgI0EBaiIjICBHDQALCyA/IAEgIEECdGoiD0G4HmopAgA3AgAgGyAPQbAeaikCADcCMCBAIA9BqB5qKQIANwIAIEEgD0GgHmopAgA3AgAgQiAPQZgeaikCADcCACAbIA9BkB5qKQIANwIQIBsgD0GIHmopAgA3AgggGyAPQYAeaikCADcCACAXQQFqIhcgACgC5CMiEEgEQCAEIAAoAuwjIg9qIQQgAyAPQQF0IhBqIQMgECAnaiEnIAItAB0hGgwBCwsgACgC8CMhESAAKALoIyESCyABIBBBAnQgDGpBfGooAgA2AughIAEgASASQQF0aiARQQF0EAhBgApqIg8gDyAAKALoI0ECdGogACgC8CNBAnQQCBogNiQAC6wEAQt/IAUoAgghDCAFKAIEIQ0gBSgCACEOIAUoAgwhDyAFKAIQIQUgAkH/////BzYCACABQf////8HNgIAIABBADoAACALQQFOBEAgBUEIdCEQIA9BB3QhESAOQQd0IRIgDUEHdCETIAxBB3QhFCAJQRB0QRB1IRVBACEOA0ACQCAGLAAAIg8gBCgCAGwgBiwAASINIAQoAgRsIBJrIAYsAAIiDCAEKAIIbGogBiwAAyIJIAQoAgxsaiAGLAAEIgUgBCgCEGxqQQF0aiIWQRB1IA9sIBZB//8DcSAPbEEQdWogBCgCGCANbCAEKAIcIAxsIBNrIAQoAiAgCWxqIAQoAiQgBWxqQQF0aiIPQRB1IA1saiAPQf//A3EgDWxBEHVqIAQoAjAgDGwgBCgCNCAJbCAUayAEKAI4IAVsakEBdGoiDUEQdSAMbGogDUH//wNxIAxsQRB1aiAEKAJgIAVsIBBrIgxBEHUgBWxqIAQoAkggCWwgBCgCTCAFbCARa0EBdGoiDUEQdSAJbGogDEH//wNxIAVsQRB1aiANQf//A3EgCWxBEHVqQaGAAmoiBUEASA0AIAUgByAOai0AACIMIAprIglBACAJQQBKG0ELdGoiBRA7QRB0QYCAgERqQRB1IBVsIAggDmotAABBAnRqIgkgAigCAEoNACACIAk2AgAgASAFNgIAIAAgDjoAACADIAw2AgALIAZBBWohBiAOQQFqIg4gC0cNAAsLC8UEARJ/IwBBEGsiCyQAIAhBAUghE0H/////ByESA0AgAygCACEJAkAgEwRAQQAhD0EAIQ4gCSEQDAELIBFBzDFqLAAAIRQgEUECdCIKQcAxaigCACEVIApB8DBqKAIAIRYgCkHALmooAgAhF0EAIQpBACEOQQAhDyAGIQwgBSENA0AgC0EMaiAKaiALQQhqIAtBBGogCyANIAwgFiAVIBcgB0HVMCAJaxA8QU1qIBQQ0AEgCygCBCAOaiIOQf////8HSSEYIAsoAgggD2oiD0H/////B0khGUEAIRAgDkH/////ByAYGyEOIA9B/////wcgGRshDyAMQRRqIQwgDUHkAGohDSALKAIAQTNqEDsgCWpBgAdOBEAgCygCAEEzahA7IAlqQYB5aiEQCyAQIQkgCkEBaiIKIAhHDQALCyAOIBJMBEAgAiAROgAAIAEgC0EMaiAIEAUaIBAhGiAOIRILIBFBAWoiEUEDRw0ACyAIQQFOBEAgAiwAAEECdEHwMGooAgAhCUEAIQ0DQCAAIA1BCmxqIgogCSABIA1qIgwsAABBBWxqLAAAQQd0OwEAIAogDCwAAEEFbCAJaiwAAUEHdDsBAiAKIAwsAABBBWwgCWosAAJBB3Q7AQQgCiAMLAAAQQVsIAlqLAADQQd0OwEGIAogDCwAAEEFbCAJaiwABEEHdDsBCCANQQFqIg0gCEcNAAsLIAMgGjYCACAEIA9BAUECIAhBAkYbdhA7QRB0QYCAgERqQRB1QX1sNgIAIAtBEGokAAtSAQN/IwBBQGoiAyQAIAJBAU4EQANAIAMgBEECdCIFaiABIAVqKgIAQwAAgEeUEJIBNgIAIARBAWoiBCACRw0ACwsgACADIAIQxAEgA0FAayQAC1YBAX8jAEEgayIEJAAgBCABIAIgAxAMIAJBAU4EQEEAIQEDQCAAIAFBAnRqIAQgAUEBdGouAQCyQwAAgDmUOAIAIAFBAWoiASACRw0ACwsgBEEgaiQAC5ABAQF/IwBBQGoiBCQAIAAgBCACIAMQzAEgACgCoCQiAkEBTgRAQQAhAANAIAEgAEECdGogBCAAQQF0ai4BALJDAACAOZQ4AgAgAEEBaiIAIAJHDQALQQAhAANAIAEgAEECdGpBQGsgBCAAQQF0ai4BILJDAACAOZQ4AgAgAEEBaiIAIAJHDQALCyAEQUBrJAALqAYBCH8jAEHwB2siByQAAkAgACgC5CMiC0EBTgRAIAAoApwkIgpBAUghDQNAIA1FBEAgDEEYbCEJQQAhBgNAIAdBMGogBiAJaiIIQQF0aiABIAhBAnRqKgL0AUMAAABGlBCSATsBACAGQQFqIgYgCkcNAAsLIAxBAWoiDCALRw0AC0EAIQkDQCABIAlBAnQiBmoiCCoChAVDAACARpQQkgEhCiAHQSBqIAZqIAgqAvQEQwAAgEaUEJIBQf//A3EgCkEQdHI2AgAgB0EQaiAGaiAIKgKUBUMAAIBGlBCSATYCACAGIAdqIAgqAqQFQwAAgEaUEJIBNgIAIAlBAWoiCSALRw0ACyALQQVsIgZBASAGQQFKGyEIQQAhBiABKgK0BUMAAIBElBCSASEKA0AgB0HwAWogBkEBdGogASAGQQJ0aioCkAFDAACARpQQkgE7AQAgBkEBaiIGIAhHDQALDAELIAEqArQFQwAAgESUEJIBIQoLQQAhBiAAKAKgJCIIQQBKBEADQCAHQaACaiAGQQF0aiABIAZBAnRqKgIQQwAAgEWUEJIBOwEAIAZBAWoiBiAIRw0AC0EAIQYDQCAGQQF0IAdqIAEgBkECdGoqAlBDAACARZQQkgE7AcACIAZBAWoiBiAIRw0ACwtBACEGIAtBAEoEQANAIAZBAnQiCCAHQeACamogASAIaioCAEMAAIBHlBCSATYCACAGQQFqIgYgC0cNAAsLQQAhBkEAIQkgAi0AHUECRgRAIAIsACFBAXRByCtqLgEAIQkLIAAoAugjIghBAU4EQANAIAdB8AJqIAZBAXRqIAUgBkECdGoqAgAQkgE7AQAgBkEBaiIGIAhHDQALCwJAAkAgACgClCRBAUwEQCAAKALAJEEBSA0BCyAAIAMgAiAHQfACaiAEIAdBoAJqIAdB8AFqIAdBMGogByAHQRBqIAdBIGogB0HgAmogAUHkAWogCiAJEM0BDAELIAAgAyACIAdB8AJqIAQgB0GgAmogB0HwAWogB0EwaiAHIAdBEGogB0EgaiAHQeACaiABQeQBaiAKIAkQzwELIAdB8AdqJAALqwIBBH8jAEGQBGsiCyQAIAhBGWwiDUEASgRAA0AgCkECdCIMIAtB0ABqaiAFIAxqKgIAQwAAAEiUEJIBNgIAIApBAWoiCiANRw0ACwsCQCAIQQFOBEAgCEEFbCIKQQEgCkEBShshDEEAIQoDQCALIApBAnQiBWogBSAGaioCAEMAAABIlBCSATYCACAKQQFqIgogDEcNAAsgC0HgA2ogASACIAMgC0GMBGogC0HQAGogCyAHIAgQ0QFBACEKA0AgACAKQQJ0aiALQeADaiAKQQF0ai4BALJDAACAOJQ4AgAgCkEBaiIKIAxHDQALDAELIAtB4ANqIAEgAiADIAtBjARqIAtB0ABqIAsgByAIENEBCyAEIAsoAowEskMAAAA8lDgCACALQZAEaiQAC34BAX0gAEGhJWoCf0EAIAINABpBAiABKgLEBSAAKALwLCAAKAKIJGqylEPNzMw9lCIDQwAAAEBeDQAaQQAgA0MAAAAAXQ0AGiADi0MAAABPXQRAIAOoDAELQYCAgIB4CyIAOgAAIAEgAEEBdEHIK2ouAQCyQwAAgDiUOALgAQu3AgIHfwJ9IwBBIGshCCAGQQFOBEAgBSAHaiINQQFIIQ4DQCAEIApBAnQiB2oqAgAhECADIAdqKAIAIQkgCCACIApBFGxqIgcoAhA2AhAgCCAHKQIANwMAIAggBykCCDcDCCAORQRAIAEgCUECdGshB0EAIQsDQCAAIAtBAnQiDGoiCSABIAxqKAIAIgw2AgAgCSAMviAIKgIAIAcqAgiUkyIPOAIAIAkgDyAIKgIEIAcqAgSUkyIPOAIAIAkgDyAIKgIIIAcqAgCUkyIPOAIAIAkgDyAIKgIMIAdBfGoqAgCUkyIPOAIAIAkgECAPIAgqAhAgB0F4aioCAJSTlDgCACAHQQRqIQcgC0EBaiILIA1HDQALCyABIAVBAnRqIQEgACANQQJ0aiEAIApBAWoiCiAGRw0ACwsLzwsDC38DfQl8IwBB4AdrIgckACABIAMgBGwQtwEhGCAHQaAGakEAQcABEAQaIARBAU4EQANAQQEhBiAFQQFOBEAgASADIApsQQJ0aiEIA0AgBkEDdCAHakGYBmoiCSAIIAggBkECdGogAyAGaxCvASAJKwMAoDkDACAFIAZHIQkgBkEBaiEGIAkNAAsLIApBAWoiCiAERw0ACwsgB0HgBGogB0GgBmpBwAEQBRogByAYIBhEAAAAgLX45D6iIhygRAAAAOALLhE+oCIVOQPAASAHIBU5A5ADAnwCQCAFQQFIBEBEAAAAAAAA8D8hFgwBCyACuyEZQQAhCUECIRBBASEORAAAAAAAAPA/IRoDQCAEQQFOBEAgAyAJayIPQX9qIQ1BACEMA0AgASADIAxsQQJ0aiIIIA1BAnRqKgIAIhG7IRQgCCAJQQJ0aioCACISuyEVQQAhBiAJBEADQCAGQQN0IgogB0GgBmpqIgsgCysDACASIAggCSAGQX9zakECdGoqAgAiApS7oTkDACAHQeAEaiAKaiILIAsrAwAgESAIIAYgD2pBAnRqKgIAIhOUu6E5AwAgFSAHIApqKwMAIhYgAruioCEVIBQgFiATu6KgIRQgBkEBaiIGIAlHDQALC0EAIQYDQCAGQQN0IgogB0GQA2pqIgsgCysDACAVIAggCSAGa0ECdGoqAgC7oqE5AwAgB0HAAWogCmoiCiAKKwMAIBQgCCAGIA1qQQJ0aioCALuioTkDACAGQQFqIgYgDkcNAAsgDEEBaiIMIARHDQALCyAJQQN0Ig0gB0HgBGpqKwMAIRUgB0GgBmogDWorAwAhFEEAIQYgCQRAA0AgFSAHIAZBA3RqKwMAIhYgCSAGQX9zakEDdCIIIAdBoAZqaisDAKKgIRUgFCAWIAdB4ARqIAhqKwMAoqAhFCAGQQFqIgYgCUcNAAsLIAlBAWoiC0EDdCIGIAdBkANqaiAUOQMAIAdBwAFqIAZqIg8gFTkDAEEAIQYgBysDwAEhFiAHKwOQAyIbIRcgCQRAA0AgFyAHIAZBA3RqKwMAIhQgBkEBaiIIQQN0IgogB0GQA2pqKwMAoqAhFyAWIBQgB0HAAWogCmorAwCioCEWIBUgFCAHQcABaiAJIAZrQQN0aisDAKKgIRUgCSAIIgZHDQALC0EAIQZBACEMIBpEAAAAAAAA8D8gFUQAAAAAAAAAwKIgFyAWoKMiFCAUoqGiIhcgGWVBAXNFBEBEAAAAAAAA8D8gGSAao6GfIhSaIBQgFUQAAAAAAAAAAGQbIRRBASEMIBkhFwsgC0H+////B3EEQCAOQQF2IQoDQCAHIAZBA3RqIgggCCsDACIVIBQgByAJIAZBf3NqQQN0aiIIKwMAIhaioDkDACAIIBYgFCAVoqA5AwAgBkEBaiIGIApHDQALCyAHIA1qIBQ5AwACQCAMRQRAIAcgGyAUIA8rAwAiFaKgOQOQAyAPIBUgFCAboqA5AwBBASEGA0AgB0HAAWogCyAGa0EDdGoiCCAIKwMAIhUgFCAHQZADaiAGQQN0aiIIKwMAIhaioDkDACAIIBYgFCAVoqA5AwAgBkEBaiIGIBBHDQALDAELIAsgBUgEQCAHIAtBA3RqQQAgBSALa0EDdBAEGgtBACEGA0AgACAGQQJ0aiAHIAZBA3RqKwMAtow4AgAgBkEBaiIGIAVHDQALQQAhBiAEQQBKBEADQCAYIAEgAyAGbEECdGogBRC3AaEhGCAGQQFqIgYgBEcNAAsLIBcgGKIMAwsgEEEBaiEQIA5BAWohDiAXIRogCyIJIAVHDQALQQAhBkQAAAAAAADwPyEWIAcrA5ADIRUDQCAHQZADaiAGQQFqIghBA3RqKwMAIRcgACAGQQJ0aiAHIAZBA3RqKwMAIhS2jDgCACAVIBQgF6KgIRUgFiAUIBSioCEWIAgiBiAFRw0ACwsgFSAcIBaioQshFCAHQeAHaiQAIBS2C4kDAgZ/An0jAEGgDWsiBCQAIABBnyVqQQQ6AAAgBEHgDGogAiADIAAoAqAkIgcgACgC7CNqIgUgACgC5CMgBxDZASEKAkAgACgCmCRFDQAgACgCuCQNACAAKALkI0EERw0AQQMhBiAEQYAMaiACIAVBA3RqIAMgBUECIAAoAqAkENkBIQMgASAEQYAMaiAAKAKgJBDSASAAQZQjaiEIIAVBAXQhCSAKIAOTIQpD//9/fyELA0AgBEHADGogCCABIAYiByAAKAKgJBDIASAEQYAMaiAEQcAMaiAAKAKgJCAAKALkJxDTASAEIARBgAxqIAIgCSAAKAKgJBC0AQJAIAogBCAAKAKgJCIGQQJ0aiAFIAZrELcBIAQgACgCoCQiBkECdGogBUECdGogBSAGaxC3AaC2IgNeQQFzRQRAIAAgBzoAnyUgAyEKDAELIAsgA10NAgsgB0F/aiEGIAMhCyAHDQALCyAALQCfJUEERgRAIAEgBEHgDGogACgCoCQQ0gELIARBoA1qJAALyQECBH8BfSMAQYAGayIHJAAgByACIAEgBCAGaiIIQQF0IgkgBhC0ASADKgIAIQsgACAHIAZBAnRqIgogBBC3ASALIAuUu6K2OAIAIAMqAgQhCyAAIAogCEECdGoiCCAEELcBIAsgC5S7orY4AgQgBUEERgRAIAcgAkFAayABIAlBAnRqIAkgBhC0ASADKgIIIQsgACAKIAQQtwEgCyALlLuitjgCCCADKgIMIQsgACAIIAQQtwEgCyALlLuitjgCDAsgB0GABmokAAvsBAIEfwF9IwBBkBBrIgUkAAJAAkACQCAAKALkIyIIQQFOBEADQCAGQQJ0IgcgBUGgDGpqQwAAgD8gASAHaioCAJU4AgAgBkEBaiIGIAhHDQALIABBnSVqLQAAQQJGDQEgAyAAKAKgJCIEQQJ0ayEGIAAoAuwjIQdBACEDIAUhAgNAIAIgBiAFQaAMaiADQQJ0aioCACAEIAdqEL8BIAYgACgC7CMiB0ECdGohBiACIAAoAqAkIgQgB2pBAnRqIQIgA0EBaiIDIAAoAuQjIghIDQALDAILIABBnSVqLQAAQQJHDQELIAVBgA1qIAVBsAxqIAIgAUHkAWoiBiAAKALsIyAIEMMBIAFBkAFqIgcgAEGEJWogAEGgJWogAEGwJGogAUHEBWogBUGADWogBUGwDGogACgC7CMgACgC5CMgACgC5CcQ1gEgACABIAQQ1wEgBSADIAAoAqAkIghBAnRrIAcgBiAFQaAMaiAAKALsIyAAKALkIyAIENgBDAELIAFBkAFqQQAgCEEUbBAEGiABQQA2AsQFIABBADYCsCQLQwrXIzwhCSAAIAVBgAxqIAUgACgCuCQEfSAJBSABKgK8BSEJIAEqAsQFQwAAQECVuxC9AbZDAEAcRpUgCUMAAEA/lEMAAIA+kpULENoBIAAgAUEQaiIGIAVBgAxqIABBlCNqENQBIAFByAVqIAUgBiABIAAoAuwjIAAoAuQjIAAoAqAkENsBIABBrCNqIAVBmAxqKQMANwIAIABBpCNqIAVBkAxqKQMANwIAIABBnCNqIAUpA4gMNwIAIAAgBSkDgAw3ApQjIAVBkBBqJAALmQUDBH8CfQF8IwBBEGsiBiQAAkAgAEGdJWotAABBAkcEQCAAKALkIyEFDAELIAEqAsQFQwAAQMGSQwAAgL6UuxBeIQkgACgC5CMiBUEBSA0ARAAAAAAAAPA/IAlEAAAAAAAA8D+go7ZDAAAAv5RDAACAP5IhBwNAIAEgA0ECdGoiBCAHIAQqAgCUOAIAIANBAWoiAyAFRw0ACwsgACgC7CMhAyAAKALsJLJDAAAAvJRDAACoQZJDw/WoPpS7EL0BIQkgBUEBTgRAIAkgA7ejtiEIQQAhAwNAIAEgA0ECdGoiBCAEKgIAIgcgB5QgBCoCyAUgCJSSkSIHQwD+/0YgB0MA/v9GXRs4AgAgA0EBaiIDIAVHDQALQQAhAwNAIAYgA0ECdCIEagJ/IAEgBGoqAgBDAACAR5QiB4tDAAAAT10EQCAHqAwBC0GAgICAeAs2AgAgA0EBaiIDIAVHDQALCyABQdgFaiAGIAVBAnQQBRogASAALQCAODoA6AUgAEGAJWogBiAAQYA4aiACQQJGIAAoAuQjED0gACgC5CMiBUEBTgRAQQAhAwNAIAEgA0ECdCIEaiAEIAZqKAIAskMAAIA3lDgCACADQQFqIgMgBUcNAAsLAkAgAC0AnSUiBEECRwRAIABBniVqLAAAIQMMAQtBASEDIAEqAsQFIAAoAugkskMAAAA4lJJDAACAP15BAXNFBEBBACEDCyAAIAM6AJ4lCyABIARBGHRBGHVBAXRBfHEgA0EBdGpBwCtqLgEAskMAAIA6lEPNzEw/lCAAKAKUJLJDzcxMvZRDmpmZP5IgACgCtCOyQ83MTD6UQwAAgLuUkiABKgK4BUPNzMy9lJIgASoCvAVDzcxMPpSTkjgCtAUgBkEQaiQAC6gBAQF/IAAgAEHqJ2oQnQEgACgCtCMhAgJAAkACQCABRQRAIAJBDUgNASAAQQw2ArQjDAELIAJBDEoNAQtBACEBIABBnSVqQQA6AAAgACAAKALELyICQQFqNgLELyACQQpOBEAgAkEeSA0CIABBCjYCxC8LIABBADYCwC8MAQsgAEIANwLAL0EBIQEgAEGdJWpBAToAAAsgACAAKAL0LGpB8CRqIAE6AAALrhcCLH8BfSMAQZDqAGsiBiQAIAZCADcDKCAGQgA3AyAgAEGiJWogACgCjCQiB0EDcToAACAAIAdBAWo2AowkIAAoAvAjIQcgAEEQaiAAQeonaiAAKALoIxCtASAAQYw4aiIkIAdBAnQiD2oiDSAAKALgI0EFbCIJQQJ0aiEKIAAoAugjIgxBAU4EQCAMIQcDQCAKIAdBf2oiCEECdGogACAHQQF0akHoJ2ouAQCyOAIAIAdBAUohCyAIIQcgCw0ACwsgCiAKKgIAQ703hjWSOAIAIA0gDEEDdSIHIAlqQQJ0aiIIIAgqAgBDvTeGNZI4AgAgDSAHQQF0IAlqQQJ0aiIIIAgqAgBDvTeGtZI4AgAgDSAHQQNsIAlqQQJ0aiIIIAgqAgBDvTeGtZI4AgAgDSAHQQJ0IAlqQQJ0aiIIIAgqAgBDvTeGNZI4AgAgDSAHQQVsIAlqQQJ0aiIIIAgqAgBDvTeGNZI4AgAgDSAHQQZsIAlqQQJ0aiIIIAgqAgBDvTeGtZI4AgAgDSAHQQdsIAlqQQJ0aiIHIAcqAgBDvTeGtZI4AgACQCAAKALIJA0AIABBgCVqIRUgACAGQaDCAGogBkGgLWogDSAAKALkJxC7ASAAIAZBoMIAaiAGQaAtaiAPaiIHIA0QvgEgACAGQaDCAGogByANIAMQ3AEgACAGQaDCAGogAxDdAQJAIAAoAswvRQ0AIAAoArQjQc4ASA0AIAAgACgC9CwiB0ECdGpB9CRqQQE2AgAgBkGQyABqIABBlAFqQYAiEAUaIAAgB0EkbGpB1C9qIgogAEGgJWooAQA2ASAgCiAAQZglaikBADcBGCAKIABBkCVqKQEANwEQIAogAEGIJWopAQA3AQggCiAAKQGAJTcBACAGQTBqIAZBoMIAaiAAKALkIyIHQQJ0EAUaAkAgACgC9CwiCARAIAhBAnQgAGpB8CRqKAIADQELIAAgAC0AgDg6ALwjIAogCi0AACAALQDQL2oiB0E/IAdBGHRBGHVBP0gbOgAAIAAoAuQjIQcLIAZBwApqIAogAEG8I2ogA0ECRiAHED4gACgC5CMiC0EBTgRAQQAhBwNAIAdBAnQiCCAGQaDCAGpqIAZBwApqIAhqKAIAskMAAIA3lDgCACAHQQFqIgcgC0cNAAsLIAAgBkGgwgBqIAogBkGQyABqIAAgACgC9CxBwAJsakHAMGogDRDVASAGQaDCAGogBkEwaiAAKALkI0ECdBAFGgsgFSAAKALkIxA/IRAgBkGYLWoiJSACQShqIiYpAgA3AwAgBkGQLWoiJyACQSBqIigpAgA3AwAgBkGILWoiKSACQRhqIiopAgA3AwAgBkGALWoiKyACQRBqIhgpAgA3AwAgBkH4LGoiLCACQQhqIhkpAgA3AwAgBiACKQIANwPwLCAGQZDIAGogAEGUAWoiGkGAIhAFGiAAQYAlaiEtIANBAkYhISAEQXtqIS4gAEGAOGohHCACQRxqIQ4gAEGkJWohGyAAKAKILSEiIAAvAYwtISMgAC0AoiUhL0GAAiEMQX8hHUF/IQ8DQAJAIBAgHUYiBwRAIBYhCQwBCyAPIBBGBEAgEyEJDAELIBEEQCACIAYpA/AsNwIAICYgJSkDADcCACAoICcpAwA3AgAgKiApKQMANwIAIBggKykDADcCACAZICwpAwA3AgAgGiAGQZDIAGpBgCIQBRogACAjOwGMLSAAIC86AKIlIAAgIjYCiC0LIAAgBkGgwgBqIBUgGiAbIA0Q1QECQCASDQAgEUEGRw0AIAZB6CxqIBgpAgA3AwAgBkHgLGogGSkCADcDACAGIAIpAgA3A9gsIAIoAhghFyAGQcgsaiAOKQIINwMAIAZB0CxqIA4oAhA2AgAgBiAOKQIANwPALAsgACACIAAoAvQsQQAgAxClASACIAAsAJ0lIAAsAJ4lIBsgACgC6CMQpgECQCACKAIUIAIoAhxnakFgaiIJIARMDQAgEg0AIBFBBkcNACACIAYpA9gsNwIAIBggBkHoLGopAwA3AgAgGSAGQeAsaikDADcCACACIBc2AhggDiAGQdAsaigCADYCECAOIAZByCxqKQMANwIIIA4gBikDwCw3AgAgACAGLQCISCILOgCAOCAAKALkIyIIQQFOBEAgLUEEIAgQBBoLICFFBEAgFSALOgAACyAAICI2AogtIAAgIzsBjC0gACgC6CMiCEEBTgRAIBtBACAIEAQaCyAAIAIgACgC9CxBACADEKUBIAIgACwAnSUgACwAniUgGyAAKALoIxCmASACKAIUIAIoAhxnakFgaiEJCyAFIBFyDQAgCSAETA0CCyARQQZGBEAgEkUNAiAHIAkgBEpyRQ0CIAIgBikD2Cw3AgAgAiAGQegsaikDADcCECACIAZB4CxqKQMANwIIIAIgFzYCGCAOIAZB0CxqKAIANgIQIA4gBkHILGopAwA3AgggDiAGKQPALDcCACACKAIAIAZBMGogFxAFGiAaIAZBwApqQYAiEAUaIBwgIDoAAAwCCwJAAn8CQAJAAkACQAJAAkAgCSAESgRAIBINASARQQJJDQEgBiAGKgLUR0MAAMA/lCIyQwAAwD8gMkMAAMA/Xhs4AtRHQQAhHiAAQQA6AJ4lQX8hEAwCCyAJIC5ODQkgDEEQdCEIIAdFBEAgBkHoLGogGCkCADcDACAGQeAsaiAZKQIANwMAIAYgAikCADcD2CwgAigCGCEXIAZByCxqIA4pAgg3AwAgBkHQLGogDigCEDYCACAGIA4pAgA3A8AsIAZBMGogAigCACAXEAUaIAZBwApqIBpBgCIQBRogHC0AACEgCyAIQRB1IRRBASESIB5FDQQgCSEWIBMhCSAQIR0MAwsgDEEQdEEQdSEfQQEhHiASDQEgCSETCyAAKALkIyIwQQFIDQNBACEJIAAoAuwjIg8hCgNAQQAhCCAJIA9sIgcgDyAJQQFqIjFsSARAA0AgACAHakGkJWosAAAiCyALQR91IgtqIAtzIAhqIQggB0EBaiIHIApHDQALCwJAAkAgEQRAIAggBiAJQQJ0IgdqKAIATg0BIAZBIGogB2ooAgANAQsgBkEYaiAJQQF0aiAMOwEAIAYgCUECdGogCDYCAAwBCyAGQSBqIAdqQQE2AgALIAogD2ohCiAxIgkgMEcNAAsMAwsgECASRQ0DGiAQIQ8LIB8gFGsiByAEIBZrbCAJIBZrbSAUaiIIQRB0QRB1IgsgB0ECdSIHIBRqIgxKDQMgHyAHayIHIAggCyAHSBshDAwDCyAJIARrQQd0IAAoAugjbUGAEGoQPCIHQf//A3EgFGxBEHYgB0EQdSAUbGohDCAJIRYgEyEJIBAhHQwCCyATIQkgEAshDyAMQQF0Qf//ASAMQRB0QRB1QYCAAUgbIQwLQQAhByAAKALkIyIKQQFOBEADQCAMIQsgB0ECdCIIIAZBIGpqKAIABEAgBkEYaiAHQQF0ai8BACELCyAGQbAKaiAIaiALQRB0QRB1IgsgBiAIakH4xwBqKAIAIghB//8DcWxBEHUgCEEQdSALbGoiCEGAgIB8IAhBgICAfEobIghB////AyAIQf///wNIG0EIdDYCACAHQQFqIgcgCkcNAAsLIAAgBi0AiEg6AIA4IBUgBkGwCmogHCAhIAoQPSAVIAAoAuQjED8hEEEAIQcgACgC5CMiC0EBTgRAA0AgB0ECdCIIIAZBoMIAamogBkGwCmogCGooAgCyQwAAgDeUOAIAIAdBAWoiByALRw0ACwsgEUEBaiERIAkhEwwAAAsACyAkIAAgACgC6CNBAnRqQYw4aiAAKALwIyAAKALgI0EFbGpBAnQQCBpBACEHIAEgACgCyCQEfyAHBSAAKALkI0ECdCAGakGAxABqKAIAIQcgAEEANgK4JCAAIABBnSVqLQAAOgC9IyAAIAc2AsAjIAIoAhQgAigCHGdqQWdqQQN1CzYCACAGQZDqAGokAEEAC6UBAQN/IAAgATYCgCQgACgC4CMhAiAAKALkI0ECRgRAIAEgAkFwbWpBsHBqIQELAkACQCACQXhqIgRBBEsNAEHwmAIhA0HqACECAkAgBEEBaw4EAQEBAAILQeCZAiEDQZoBIQIMAQtBgJsCIQNBvgEhAgsgACABQcgBakGQA21BdmoiASACIAEgAkgbIgFBAU4EfyABIANqLQAAQRVsBUEACzYC7CQLDQAgAEH4nQE2AgBBAAv3AQEDfyAAQQBB+J0BEAQiACABEJ4BIQQgAEHQzgBqIAEQngEhASAAQoGAgIAQNwLgnQEgAkKBgICAEDcCACACIAAoAswjNgIIIAIgACgC1CM2AgwgAiAAKALYIzYCECACIAAoAtwjNgIUIAIgACgChCQ2AhggAiAAKAKAJDYCHCACIAAoAogkNgIgIAIgACgCkCQ2AiQgAiAAKALILzYCKCACIAAoArwvNgIwIAIgACgCxCQ2AjQgAiAAKALgIyIFQRB0QRB1QegHbDYCSCACIAAoArgjNgJMIAEgBGohASACIAVBEEYEfyAAKAIcRQUgAws2AlAgAQvVHAElfyMAQSBrIgwhESAMJAAgASgCRARAIABBATYCiHMgAEEBNgK4JAsgAEEANgL0LCAAQQA2AsR7AkAgARCfASILDQAgAEHQzgBqIR8gAUEANgJYAkAgASgCBCAAKALknQFMDQAgHyAAKALkJxCeASEOIABCATcCsJ0BIABCADcCqJ0BIABBADYCoJ0BIABCgYCAgICAEDcCuJ0BIAAoAuCdAUECRw0AIABB4PsAaiAAQZAtakGsAhAFGiAAIAApAgA3AtBOCwJ/IAEoAhgiFyAAKAKEJEcEQCABKAIEIQhBAQwBCyABKAIEIgggACgC5J0BRwshEiABKAIAIQkgACAINgLknQEgACAJNgLgnQEgA0HkAGwiCiABKAIIIgltIQ8CQCAGBEAgD0EBRgRAIAZBAkYEQCARIAApAhg3AxggESAAKQIQNwMQIAAoAuAjIQsLQQAhCSAIQQBKBEAgBkECRyEKIBFBGGohDQNAIAAgCUHQzgBsaiIIIAgoAuQnEJ4BIQ4gCkUEQCAIIBEpAxA3AhAgCCANKQMANwIYIAggCzYCIAsgCUEBaiIJIAEoAgQiCEgNAAsgASgCGCEXIAFBCjYCGCABKAIkIRlBACEJIAFBADYCJCAIQQBMDQMDQCAAIAlB0M4AbGoiCkEBNgLIJCAKQQA2ArwkIAlBAWoiCSAIRw0ACwwDCyABQQo2AhggASgCJCEZIAFBADYCJAwCC0GbfyELDAILQZt/IQsgA0EASA0BIAkgD2wgCkcNASAJIBdsIQlBACEXIANB6AdsIAlKDQELIAhBAU4EQCASQX9zIQ1BACEKA0BBACEIIAAgCkHQzgBsaiIJIAEgACgC8J0BIAogCkEBRgR/IAAoAuAjBSAICxChASILDQICQCANIAkoArgkRXENACAAKALwLEEBSA0AA0AgCSAIQQJ0akH0JGpBADYCACAIQQFqIgggACgC8CxIDQALCyAJIAkoArwvNgLALyAKQQFqIgogASgCBEgNAAtBACEOCyAPQQF1QQEgD0EBShsiGkEBdCEjIBpBf2ohJCAAQeTPAGohJSAAQdCGAWohICAAQcDzAGohISAAQbz2AGohJiAAQewnaiEnIABBoJ0BaiEoIABB1J0BaiEVIABBxPMAaiEpIABBwp0BaiEbIABBuPYAaiEcIABB4PsAaiEdIABB6CdqIRYgAEGQLWohGCAMIAAoAuAjIgggD0EKbCIqbCIiIAAoAswjbCAIQegHbG1BAXRBD2pBcHFrIhMkAAJ/A0AgACgC6CMgACgC7CwiCmsiCCAiIAggIkgbIgsgACgCzCNsIAAoAuAjQegHbG0hEAJAAkAgASgCAEECRw0AIAEoAgRBf2oiCEEBSw0AIAhBAWtFBEAgACgC9CwhCUEAIQggEEEBSCIMRQRAA0AgEyAIQQF0aiACIAhBAnRqLwEAOwEAIAhBAWoiCCAQRw0ACwsCQCAJDQAgACgC6J0BQQFHDQAgHSAYQawCEAUaCyAYIApBAXQgFmpBBGogEyAQEB4hCCAAIAAoAuwsIAtqNgLsLCAAKAK4ciAAKAK8eyIJayIKIAAoArByICpsIgsgCiALSBshCiAIIA5qIQtBACEIIAxFBEADQCATIAhBAXRqIAIgCEECdEECcmovAQA7AQAgCEEBaiIIIBBHDQALCyAdIAlBAXQgHGpBBGogEyAQEB4hCCAAIAAoArx7IApqNgK8eyAIIAtqIQ4gACgC7CwhCAwCC0EAIQggEEEBTgRAA0AgEyAIQQF0aiACIAhBAnQiCUECcmouAQAgAiAJai4BAGoiCUEBdiAJQQFxajsBACAIQQFqIgggEEcNAAsLIBggCkEBdCAWakEEaiATIBAQHiAOaiEOAkAgACgC6J0BQQJHDQAgACgC9CwNACAdIAAoArx7QQF0IBxqQQRqIBMgEBAeIA5qIQ4gACgC6CMiDEEBSA0AIAAoArx7IQ0gACgC7CwhD0EAIQgDQCAWIAhBAmoiCSAPakEBdGoiCiAcIAkgDWpBAXRqLgEAIAouAQBqQQF2OwEAIAhBAWoiCCAMRw0ACwsgACAAKALsLCALaiIINgLsLAwBCyAYIApBAXQgFmpBBGogEyACIBBBAXQQBSAQEB4hCSAAIAAoAuwsIAtqIgg2AuwsIAkgDmohDgsgASgCACErIABBADYC8J0BQQAgCCAAKALoI0gNARogACgC9CwgBnJFBEBBACENIBFBADsBDiARQQBBgAIgASgCBCAAKALwLEEBamx2azoADiAEQQAgEUEOakEIEDAgASgCBCILQQBKBEADQEEAIQhBACEJIAAgDUHQzgBsaiIMKALwLCIKQQFOBEADQCAMIAhBAnRqQfQkaigCACAIdCAJciEJIAhBAWoiCCAKRw0ACwsgDCAJQQBKOgDzJAJAIAlFDQAgCkECSA0AIAQgCUF/aiAKQQJ0QaAraigCAEEIEDAgASgCBCELCyANQQFqIg0gC0gNAAsLQQAhCiAAKALwLEEASgRAA0AgC0EBTgRAIApBf2ohDSAKIBVqIR4gKSAKQQJ0IgxqIQ8gGyAKQQZsaiESQQAhCQNAIAAgCUHQzgBsaiIIIAxqQfQkaigCAARAAkAgCQ0AIAtBAkcNACAEIBIQowEgDygCAA0AIAQgHiwAABCkAQsgCCAEIApBAQJ/IAoEQEECIAggDUECdGpB9CRqKAIADQEaC0EACxClASAEIAggCkEkbGoiC0HxL2osAAAgC0HyL2osAAAgCCAKQcACbGpBwDBqIAgoAugjEKYBIAEoAgQhCwsgCUEBaiIJIAtIDQALCyAKQQFqIgogACgC8CxIDQALC0EAIQggC0EASgRAA0AgACAIQdDOAGxqIglCADcC9CQgCUH8JGpBADYCACAIQQFqIgggASgCBEgNAAsLIAAgBCgCFCAEKAIcZ2pBYGo2AtidAQsgABCnASABKAIYIgogASgCHCIIbEHoB20hCSAGBH8gCQUgCSAAKALYnQFrCyAAKALwLG0iC0EQdEEQdUHkAEEyIApBCkYbbCAAKALcnQFBAXRrIQkCQCAGDQAgACgC9CwiCkEBSA0AIAkgBCgCHGcgBCgCFCAKIAtsa2ogACgC2J0Ba0EBdGtBQGshCQsCfyAIQYknTgRAIAggCSAISg0BGiAJQYgnIAlBiCdKGwwBC0GIJyAJQYgnSg0AGiAIIAkgCSAISBsLIRICQCABKAIEQQJGBEAgKCAnICYgGyAAKAL0LCIIQQZsaiAIIBVqIBFBEGogEiAAKAK0IyABKAI8IAAoAuAjIAAoAugjEKsBAkAgFSAAKAL0LCIIai0AAEUEQCAAKAL0nQFBAUYEQCAgQgA3AgAgIEEANgIIIABCADcC4E4gJUEAQaAiEAQaIABBCjoA0IYBIABB5AA2AsxxIABB5AA2ApByIABBADoAjXIgAEEBNgKIcyAAQYCABDYC3HELIB8gBxDeAQwBCyAIICFqQQA6AAALIAYNASAEIBsgACgC9CxBBmxqEKMBICEgACgC9CwiCGotAAANASAEIAggFWosAAAQpAEMAQsgACAAKAKknQE2AugnIAAgFiAAKALoI0EBdGooAQA2AqSdAQsgECArbCEeIAAgBxDeASABKAIEIgxBAU4EQCAURSAaQQJGcSEPQQAhCANAIAEoAjghCgJ/IA8EQCAKQQNsQQVtDAELIAogGkEDRw0AGiAURQRAIApBAXRBBW0MAQsgCiAUQQFHDQAaIApBA2xBBG0LIQsgFCAkRiABKAI0QQBHcSENAkAgDEEBRgRAIBIhCQwBCyARQRBqIAhBAnRqKAIAIQkgCA0AIBEoAhRBAUgNACALIAogI21rIQtBACENCyAJQQFOBEAgACAIQdDOAGxqIgogCRDgASAKIAUgBAJ/QQAgACgC9CwgCEwNABogCARAQQEgACgC9J0BDQEaC0ECCyALIA0Q3wEhDiABKAIEIQwLIAAgCEHQzgBsaiIJQQA2AuwsIAlBADYCvCQgCSAJKAL0LEEBajYC9CwgCEEBaiIIIAxIDQALCyAeQQF0IQ8gAyAQayEDIAAgACgC9CwiEiAVakF/aiwAADYC9J0BAkAgBSgCAEEBSA0AIBIgACgC8CxHDQBBACENQQAhCAJAIAxBAUgEQAwBCwNAIAhBAXQhCUEAIQggACANQdDOAGxqIgooAvAsIgtBAU4EQANAIAkgCCAKakHwJGosAAByQQF0IQkgCEEBaiIIIAtHDQALCyAJIAosAPMkciEIIA1BAWoiDSAMRw0ACwsgBkUEQCAEIAggEkEBaiAMbBAzCwJAIAAoAsAvRQ0AIAEoAgRBAUcEQCAAKAKQfkUNAQsgBUEANgIACyAAIAAoAtydASAFKAIAQQN0aiABKAIYIgkgASgCHGxB6AdtayIIQQAgCEEAShsiCEGQzgAgCEGQzgBIGzYC3J0BIAAoArQjIAAoAuydASIIQRB0QRB1QfQYbEEQdUENakgEQCAAQoCAgIAQNwLsnQEMAQsgAEEANgLwnQEgACAIIAlqNgLsnQELIAIgD2ohAiAUQQFqIRQgAw0ACyAAKALwnQELIQggDiELIAAgASgCBCIKNgLonQEgASAINgJMIAEgACgC4CMiCEEQRgR/IAAoAhxFBSAsCzYCUCABIAhBEHRBEHVB6AdsNgJIQQAhCCABIAEoAjwEfyAIBSAALgG8nQELNgJUAkAgBkUNACABIBk2AiQgASAXNgIYIApBAUgNAANAIAAgCEHQzgBsaiIJQQA2AsgkIAlBADYCvCQgCEEBaiIIIApHDQALCyABIAAsAJ0lIgg2AlwgASAIQQF0QXxxIAAsAJ4lQQF0akHAK2ouAQA2AmALIBFBIGokACALCyAAQew8KAIAQQJ0QfA8KAIAQQR0akGAIGogAGxB9AFqC7IBAAJ/QX8gAkECSw0AGkF5IABFDQAaIABBAEHsPCgCAEECdEHwPCgCAEEEdGpBgCBqIAJsQfQBahAEIgBCATcCHCAAIAI2AgggACACNgIEIABB6Dw2AgBB9DwoAgAhAiAAQQU2AhggAEEYNgI8IABCgICAgBA3AgwgAEL/////DzcCKCAAIAM2AkggAEKBgICAEDcCMCAAIAI2AiQgAEG8H0EAEOYBIAAgARBMNgIcQQALC8wJAQR/IwBBEGsiAyQAIAMgAjYCDAJAIAFB3mBqIgRBLUsEQCABQe6xf2oiAUEaSw0BAkACQAJAAkACQAJAAkACQAJAAkAgAUEBaw4aCwsLCwsDCwALAQsLBwQLCwsLCwULCAsJCwYCCyADIAMoAgwiAUEEajYCDCABKAIAIgFBAEgNCiABIAAoAgAoAghODQogACABNgIgDAoLIAMgAygCDCIBQQRqNgIMIAEoAgAiAUEBSA0JIAEgACgCACgCCEoNCSAAIAE2AiQMCQsgAyADKAIMIgFBBGo2AgwgASgCACIBQQJLDQggACABRTYCDCAAIAFBAkc2AhQMCAsgAyADKAIMIgFBBGo2AgwgASgCACIBQX9qQQFLDQcgACABNgIIDAcLIAMgAygCDCICQQRqNgIMIAAgAigCADYCMAwGCyADIAMoAgwiAUEEajYCDCABKAIAIgFFDQUgACABKQIANwJ4IAAgASkCODcCsAEgACABKQIwNwKoASAAIAEpAig3AqABIAAgASkCIDcCmAEgACABKQIYNwKQASAAIAEpAhA3AogBIAAgASkCCDcCgAEMBQsgAyADKAIMIgFBBGo2AgwgASgCACIBRQ0EIAAgASkCADcCuAEMBAsgAyADKAIMIgJBBGo2AgwgAigCACICRQ0DIAIgACgCADYCAAwDCyADIAMoAgwiAkEEajYCDCAAIAIoAgA2AkAMAgsgAyADKAIMIgJBBGo2AgwgACACKAIANgLsAQwBCwJAAkACQAJAAkACQAJAAkACQAJAAkAgBEEBaw4tCwsLBwsLCwoLCwsJCwsLCwsICwsLCwsLCwELCwALCwsLBQQLCwsLCwsLCwMCBgsgAyADKAIMIgJBBGo2AgwgAigCACICRQ0KIAIgACgCTDYCAAwKC0EAIQIgAEHMAGpBACAAKAIEIgEgACgCACIEKAIEIgVBAnQgBCgCCCIGQQR0akGAIGpsQagBahAEGiABIAQoAghsIgRBAU4EQCAAIAVBgAhqIAFsQQJ0aiABIAZsQQJ0IgFqQfQBaiIFIAFqIQYDQCAGIAJBAnQiAWpBgICAj3w2AgAgASAFakGAgICPfDYCACACQQFqIgIgBEcNAAsLIABBADYC2AEgAEIANwJgIABBgAI2AlggAEKCgICAgICAwD83AlAMCQsgAyADKAIMIgJBBGo2AgwgAigCACICRQ0IIAIgACgCRDYCAAwICyADIAMoAgwiAUEEajYCDCABKAIAIgFBAUsNByAAIAE2AkQMBwsgAyADKAIMIgJBBGo2AgwgAigCACAAKAI8NgIADAYLIAMgAygCDCIBQQRqNgIMIAEoAgAiAUF4akEQSw0FIAAgATYCPAwFCyADIAMoAgwiAkEEajYCDCACKAIAIgFB9ANMQQAgAUF/RxsNBCAAIAEgACgCBEGg7w9sIgIgASACSBs2AigMBAsgAyADKAIMIgJBBGo2AgwgACACKAIANgIsDAMLIAMgAygCDCICQQRqNgIMIAAgAigCADYCNAwCCyADIAMoAgwiAUEEajYCDCABKAIAIgFB5ABLDQEgACABNgI4DAELIAMgAygCDCIBQQRqNgIMIAEoAgAiAUEKSw0AIAAgATYCGAsgA0EQaiQAC/ACAgF/BH0gBioCACEKIAUqAgAhCwJAAkAgBw0AIARBAUcNACAFKgIEQwAAAABcDQAgAkEBSA0BQQAhBQNAIAEgBUECdGogACADIAVsQQJ0aioCAEMAAABHlCIJIAqTOAIAIAsgCZQhCiAFQQFqIgUgAkcNAAsMAQsgAiAEbSEIIARBAUcEQCABQQAgAkECdBAEGgsCQCAIQQFIDQBBACEFA0AgASAEIAVsQQJ0aiAAIAMgBWxBAnRqKgIAQwAAAEeUOAIAIAVBAWoiBSAIRw0ACyAHRQ0AQQAhBQNAIAEgBCAFbEECdGoiAEMAAIDHQwAAgEdDAACARyAAKgIAIgkgCUMAAIBHXiIAG0MAAIDHXSIDGyIMIAwgCSADGyAAGzgCACAFQQFqIgUgCEcNAAsLIAJBAUgNAEEAIQUDQCABIAVBAnRqIgAgACoCACIJIAqTOAIAIAsgCZQhCiAFQQFqIgUgAkcNAAsLIAYgCjgCAAvNSAM3fwt9AnwjAEHAAWsiISQAIAAoAgghByAAKAIEIQsgISIMQQ82AhwgDEEANgIYIAxBADYCFCAMQQA2AhAgDEEANgIEIAAoAiQhCCAAKAIgIQ8gACgCACIOKAIgIRggDigCBCEUIA4oAgghGSAMQQA2AgxBfyEGAkAgAUUNACAEQQJIDQAgDigCJCISQQBIDQAgACgCHCACbCEfIA4oAiwhGwNAIB8gGyAKdEcEQCAKIBJIIQIgCkEBaiEKIAINAQwCCwsgFEGACGohEiAEQfsJIARB+wlIGyIcAn8gBUUEQEEBITZBASERQQAMAQsgBRBQITYgBSgCFCAFKAIcZ2oiAkFgaiERIAJBZGpBA3ULIhBrIRogACgCKCECAkACQAJ/IAAoAiwEQCACQX9GDQIgAiAfbCAOKAIAIhtBBHVqIBtBA3VtIiZBBnUMAQsgAkF/Rg0BIBwgAiAfbCARQQAgEUEBShtqIA4oAgAiG0ECdGogG0EDdG0gACgCMEEAR2siGyAcIBtIGyIbQQIgG0ECShsiHCAQawshFiACIQYMAQsgGiEWCyALIBJsIQJBAyAKayEsIBxBkANsIRIgBUUEQCAMQSBqIAMgHBAsIAxBIGohBQsgAEH0AWohCSACQQJ0IQIgCyAZbCEtIBIgLHUhAwJAICZBAUgNACAAKAI0RQ0AIBFBAUZBAXQiEiAmQQF0IAAoAtABa0EGdSIbIBIgG0obIhIgGk4NACAFIBAgEmoiHBA0IBIhGgsgAiAJaiESIC1BAnQhLiADIAZIIRUgB0EobCEeQZADIAp2ISMgDigCDCENICEgFCAfaiIEIAtsQQJ0QQ9qQXBxayIkIh0kACAAKgLgASFAAkACQCAfIBRrIAdsIAAoAhwiMm0iIUEBTgRAQQAhAgNAID8gASACQQJ0aioCACI9ID8gPV0bIT8gPiA9ID4gPV4bIT4gAkEBaiICICFHDQALIEAgPiA/jCI9ID4gPV4bXg0CQQAhAkMAAAAAIT9DAAAAACE+A0AgPyABIAJBAnRqKgIAIj0gPyA9XRshPyA+ID0gPiA9XhshPiACQQFqIgIgIUcNAAsMAQsgQEMAAAAAXg0BCyA+ID+MIj0gPiA9XhshQAsgCyAUbCETIBIgLmohGyADIAYgFRshFSAGQX9GISIgHkEUaiE3ICNBTmohHkMAAAAAIT8CQCAHIBRsIDJtIgZBAUgEQEMAAAAAIT4MAQsgASAhQQJ0aiEhQQAhAkMAAAAAIT4DQCA/ICEgAkECdGoqAgAiPSA/ID1dGyE/ID4gPSA+ID1eGyE+IAJBAWoiAiAGRw0ACwsgE0ECdCECIBsgLmohISADIBUgIhshBiAeIDdsIQMgCCANSiEeIBxBA3QhFSAAID4gP4wiPSA+ID1eGyI9OALgASBAID0gQCA9XhshPQJAIBFBAUcEQAwBCyAFID1DAACAP0EBIAAoAjx0spVfIiNBDxAvQQEhESAjQQFzDQBBASEpAkAgJkEBSARAIBUhEQwBC0ECIRogBSAcIBBBAmoiESAcIBFIGyIWEDQgFiEcIBZBA3QiESEVCyAFIBEgBSgCHGdrQSBqNgIUCyACIAlqIQkgISAuaiEuQQEgCnQhLyAGIANrIScgDSAIIB4bIRMgC0EBIAtBAUobITIgDkEQaiEDICQgFEECdGohFEEAIQIDQCABIAJBAnQiBmogFCACIARsQQJ0aiAfIAsgACgCHCADIAAgBmpBwAFqIAAoAhBBAEcgPUMAAIBHXnEQ5wEgAkEBaiICIDJHDQALQQAhAgJAIA8gKXINACAAKAJAQQBHIBpBA0pxIBogB0EMbEpyRQ0AIAAoAhQNACAAKAIYQQRKIQILIAAgJCAJIAsgHyAAKAJkIjggDEEcaiAMQRhqIAxB0ABqIAIgGiAAQfgAaiIwEOkBITkCfyAMKgIYIkVDzczMPl5FBEBBACAAKgJsQ83MzD5eQQFzDQEaCyAwKAIABEBBACAAKgJ8u0QzMzMzMzPTP2RBAXMNARoLIAAoAmi3IkhEKVyPwvUo9D+iIAwoAhy3IkljIEhESOF6FK5H6T+iIElkcgshOgJAIDlFBEAgDw0BIBFBEGogFUoNASAFQQBBARAvDAELIAVBAUEBEC8gBUEbIAwoAhwiAkEBaiIBZyIGayIDQQYQMSAFIAFBECADdGtBHyAGaxAyIAwgAjYCHCAFIAwoAlBBAxAyIAUgOEG/nAJBAhAwC0EBITECQCAAKAIYQQFIDQAgACgCQA0AQQAhAgJAIA9FDQAgFkEOSg0AIAAoArgBQQJHIQILICQgBCALIAxBDGogDEEQaiACIAxBBGoQ6gEhFwsgDgJ/AkACQCAKRQ0AIAUoAhQgBSgCHGdqQWNqIBVKDQAgFw0BQQAhMQsgHSALIB9sQQJ0QQ9qQXBxayIgIgIkACACIC1BAnRBD2pBcHEiAWsiIiICJAAgAiABayIEIgIkACACIAcgGWwiJUECdEEPakFwcWsiHiIGJABBACEXQQAMAQsgHSALIB9sQQJ0QQ9qQXBxayIgIgIkACACIC1BAnRBD2pBcHEiAWsiIiICJAAgAiABayIEIgIkACAAKAIYIQEgAiAHIBlsIiVBAnRBD2pBcHFrIh4iBiQAIAFBCEgEQEEBITRBACExIC8MAQtBACExIA5BACAkICAgByALIAogACgCHCAAKAJIEOsBIA4gICAiIBMgByAKIAAoAkgQbiAOIBMgCCAiIB4gBxBbQQEhKCAlQQFOBEAgCrJDAAAAP5QhPUEAIQIDQCAeIAJBAnRqIgEgPSABKgIAkjgCACACQQFqIgIgJUcNAAsLQQEhNCAvCyIzICQgICAHIAsgCiAAKAIcIAAoAkgQ6wFBAiECIAtBAkYgB0EBRnEiO0EBRgRAIAxBADYCEAsgDiAgICIgEyAHIAogACgCSBBuAkAgACgCQEUNACAIQQNIDQADQCAiIAJBAnRqIgEgASoCACI9ICIqAgBDF7fROJQiPiA9ID5dGyI9Q30dkCYgPUN9HZAmXhs4AgAgAkEBaiICIAhHDQALCyAOIBMgCCAiIAQgBxBbIAYgJUECdEEPakFwcWsiAiIqJAAgAkEAIAhBAnQiPBAEISsCQAJ9QwAAAAAgDw0AGkMAAAAAIAAoAuwBIglFDQAaIAAoAkAiAQ0BIAAoAlwiAkECIAJBAkobIQFBACEjAkAgB0EBSARAQwAAAAAhPkMAAAAAIT9BACEDDAELIBgvAQAhNUEAIR1BACEDQwAAAAAhP0MAAAAAIT4DQCAZIB1sIRAgNSEGQQAhAgNAID8gCSACIBBqQQJ0aioCACI9QwAAgD5DAAAAwCA9QwAAgD4gPUMAAIA+XSIUG0MAAADAXiIRGyI9IBQbID0gERsiPUMAAAA/lCA9ID1DAAAAAF4bIj0gAkEBdEEBciABa7KUkiE/IAZBEHQhFCA+ID0gGCACQQFqIgJBAXRqLgEAIgYgFEEQdWsiFLKUkiE+IAMgFGohAyABIAJHDQALIB1BAWoiHSAHRw0ACwsgP0MAAMBAlCABQQFqIAFBf2ogASAHbGxsspVDAAAAP5QiPUO28/08ID1DtvP9PF0bIT0gPiADspUhPiAYIAFBAXRqLgEAQQJtQRB0QRB1IQIDQCAYICMiBkEBaiIjQQF0ai4BACACSA0ACyA9Q7bz/bwgPUO28/28XhshQCA+Q83MTD6SIT9BACECQQAhFANAID8gQCACIAZrspSSIT4gCSACQQJ0IgNqKgIAIT0CfSAHQQJGBEAgPSAJIAIgGWpBAnRqKgIAIkMgPSBDXhshPQsgPQtDAAAAACA9QwAAAABdGyA+kyI9QwAAgD5eQQFzRQRAIAMgK2ogPUMAAIC+kjgCACAUQQFqIRQLIAJBAWoiAiABRw0ACwJAIBRBA0gNACA/QwAAgD6SIT1DAAAAACE/ID1DAAAAAF5BAXMEQEEAIQIDQCArIAJBAnRqIgYgBioCAEMAAIC+kkMAAAAAlzgCACACQQFqIgIgAUcNAAsgPSE/DAELICtBACABQQJ0EAQaQwAAAAAhQAsgQEMAAIBClCFCID9DzcxMPpILIUMgACgCQCIBBEAMAQtDAAAAACE+IAggD0oEQCAKskMAAAA/lEMAAAAAIDQbIUBDAAAgwSE9IA8hAgNAID1DAACAv5IiPSAEIAJBAnRqKgIAIECTIj8gPSA/XhshPSAHQQJGBEAgPSAEIAIgGWpBAnRqKgIAIECTIj8gPSA/XhshPQsgPiA9kiE+IAJBAWoiAiAIRw0ACwsgACAAKgLwASI9ID4gCCAPa7KVID2TQwAAwL+XQwAAQECWIkRDCtejPJSSOALwAUEAIQELIChFBEAgHiAEICVBAnQQBRoLAkAgCkUNACAFKAIUIAUoAhxnakFjaiECAkAgFw0AIAIgFUoNAEEAIRcgASAPcg0AIAAoAhhBBUgNAEEBIQIgEioCACE9AkACQCAHQQFGBEAgDCA9OAJQIAhBAkgNAgNAIAJBAnQiASAMQdAAamogPUMAAIC/kiI9IAEgEmoqAgAiPiA9ID5eGyI9OAIAIAJBAWoiAiAIRw0ACwwBCyAMID0gEiAZQQJ0aioCACI+ID0gPl4bIj04AlAgCEECSA0BA0AgAkECdCIBIAxB0ABqaiA9QwAAgL+SIj0gASASaioCACI+IBIgAiAZakECdGoqAgAiPyA+ID9eGyI+ID0gPl4bIj04AgAgAkEBaiICIAhHDQALCyAIQQJIDQAgCEF+aiECA0AgDEHQAGogAkECdGoiASABKgIAIj0gASoCBEMAAIC/kiI+ID0gPl4bOAIAIAJBAEohASACQX9qIQIgAQ0ACwsgB0EBIAdBAUobIRQgCEF/aiEGQQAhAyAIQQRIIRFDAAAAACE9A0AgEUUEQCADIBlsIQFBAiECA0AgPSAEIAEgAmpBAnRqKgIAQwAAAACXIAxB0ABqIAJBAnRqKgIAQwAAAACXk0MAAAAAl5IhPSACQQFqIgIgBkcNAAsLIANBAWoiAyAURw0ACyA9IAhBfWogB2yylUMAAIA/XkEBc0UEQCAOIC8gJCAgIAcgCyAKIAAoAhwgACgCSBDrASAOICAgIiATIAcgCiAAKAJIEG4gDiATIAggIiAEIAcQWyAlQQFOBEAgCrJDAAAAP5QhPUEAIQIDQCAeIAJBAnRqIgEgPSABKgIAkjgCACACQQFqIgIgJUcNAAsLIAxBzZmz8gM2AgxBASEXIC8hMwsgBSgCFCAFKAIcZ2pBY2ohAgsgAiAVSg0AIAUgF0EDEC8LICogByAfbEECdEEPakFwcWsiESIBJAAgDiAgIBEgIiATIAcgLxBvQQAhBgJAIA8NACAWIAdBD2xIDQAgACgCGEECSA0AIAAoAkBFIQYLIAEgGUECdEEPakFwcSICayIkIgEkACABIAJrIgEiAyQAIAMgAmsiICIDJAAgBCAeIBkgDyAIIAcgJCAAKAI8IA4oAjggFyAAKAIsIAAoAjQgGCAKIBYgDEEIaiAAKAJAICsgMCABICAQ7AEhRiADIAJrIh0iAyQAAkAgBgRAIA4gEyAXIB1B0ABBgKABIBZtIgJBAmogAkHOAEgbIBEgHyAKIAwqAgwgDCgCECABEO0BISogCCANTA0BIBNBAnQgHWpBfGohAgNAIB0gDUECdGogAigCADYCACANQQFqIg0gCEcNAAsMAQsCQCAPRQ0AIAwoAgRFDQBBACEqIAhBAUgNAUEAIQIDQCAdIAJBAnRqQQE2AgAgAkEBaiICIAhHDQALDAELAkAgD0UNACAWQQ5KDQAgACgCuAFBAkYNACAXISogCEEBSA0BIB1BACA8EAQaDAELQQAhKiAIQQFIDQBBACECA0AgHSACQQJ0aiAXNgIAIAJBAWoiAiAIRw0ACwsgAEHkAGohNSAHQQEgB0EBShshHiADICVBAnRBD2pBcHFrIhQiKyQAQQAhCQNAIAggD0wiI0UEQCAJIBlsIQMgDyECA0AgBCACIANqQQJ0IgFqIgYqAgAiPSABIBJqKgIAk4tDAAAAQF1BAXNFBEAgBiA9IAEgLmoqAgBDAACAvpSSOAIACyACQQFqIgIgCEcNAAsLIAlBAWoiCSAeRw0ACyAOIA8gCCATIAQgEiAVIBQgBSAHIAogGiAAKAIMIABB1ABqIAAoAhhBA0ogACgCOCAAKAJAEFRBACEoIApBAEcgBSgCFCAFKAIcZ2pBYGoiBkECQQQgFxsiAkEBcmogBSgCBEEDdCIBTXEhDUEAIRACQCAjDQAgHSAPQQJ0aiEDAn8gAiAGaiABIA1rIgtNBEAgBSADKAIAIAIQLyAFKAIUIAUoAhxnakFgaiEGIAMoAgAMAQsgA0EANgIAQQALIRAgD0EBaiICIAhGDQBBBEEFIBcbIQMgECEJA0AgHSACQQJ0aiEBAkAgAyAGaiALTQRAIAUgASgCACAJcyADEC8gASgCACIJIBByIRAgBSgCFCAFKAIcZ2pBYGohBgwBCyABIAk2AgALIAJBAWoiAiAIRw0ACwsCQCANRQ0AIApBA3RBgLEBaiICIBAgF0ECdCIBamotAAAgAiAQIAFBAnJqai0AAEYNACAFICpBARAvICpBAXQhKAsgI0UEQCAoIBdBAnRqIQYgCkEDdCEDIA8hAgNAIB0gAkECdGoiASADIAYgASgCAGpqQYCxAWosAAA2AgAgAkEBaiICIAhHDQALCyAFKAIUIAUoAhxnakFkaiAVTARAAkAgACgCQARAQQIhAiAAQQI2AlAgAEEANgJkDAELIAACfwJAAkAgDwRAIAAoAhhFDQIgFw0BQQMMAwsgACgCGCECAkACQCAzDQAgGiAHQQpsSA0AIAJBAkoNAQsgAkUNAgwBCyAOIBEgAEHYAGogACgCUCAAQeAAaiA1IDlBAEcgEyAHIC8gIBByDAILQQIMAQtBAAsiAjYCUAsgBSACQcKcAkEFEDALIAAoAkAEQCAkQQggFkEDbSAWQRpKGzYCAAsgKyAZQQJ0QQ9qQXBxayIgIiskACAOICAgCiAHEE4gFUEDdCEVQQAhAyAFEFAhBiAjRQRAQQYhFiAPIRoDQCAaIgJBAWohGiAkIAJBAnQiCWohDUEAIQECQCAWQQN0IAZqIBUgA2tODQACQCAJICBqIhMoAgBBAEwEQEEAIQkMAQsgGCAaQQF0ai4BACAYIAJBAXRqLgEAayAHbCAKdCICQQN0IgYgAkEwIAJBMEobIgIgBiACSBshECAWIQlBACECA0AgBSACIA0oAgAiC0ggCRAvIAUQUCEGIAIgC04EQCACIQkMAgsgASAQaiEBIAZBCGogFSADIBBqIgNrSARAQQEhCSACQQFqIQIgASATKAIATg0CDAELCyAWQX9qQQIgFkECShshFgwBCyAJRQ0AIBZBf2pBAiAWQQJKGyEWCyANIAE2AgAgCCAaRw0ACwsgB0ECRgRAIAoEQCAOKAIgIgsvAQAhEEN9HZAmIT9BACEJQ30dkCYhQANAIBBBEHRBEHUgCnQiAiALIAlBAWoiCUEBdGouAQAiECAKdCIBSARAA0AgQCARIAJBAnRqKgIAIj0gESACIB9qQQJ0aioCACI+kosgPSA+k4uSkiFAID8gPYsgPouSkiE/IAJBAWoiAiABRw0ACwsgCUENRw0ACyAMIEBD9wQ1P5QgCy4BGiAKQQFqdCICQQVBDSAKQQJJG2qylCA/IAKylF42AhQLIAAgCCAPICdB6AdtsiAAKALoARBtIgIgDyACShsiAiAIIAJIGzYC6AELQQUhCSAGQTBqIBUgA2tMBEAgBQJ/AkAgD0EATARAIAAoAkBFDQELIABBADYC5AFBBQwBCyAAKALoASEVIAwqAgwhQAJ9QwAAgEAgJ0GA9ANIDQAaQwAAoEAgJ0H/8ARKDQAaICdBgIx8akEKdbJDAACAPZRDAACAQJILIT8gB0ECRgRAIA4oAiAiGC8BACENQwAAAAAhPkEAIQsDQCANQRB0IQJDAAAAACE9IBggC0EBaiILQQF0ai4BACINIAJBEHUiAmsgCnQiBkEBTgRAIBEgAiAKdCICQQJ0aiEJIBEgAiAfakECdGohEEEAIQIDQCA9IAkgAkECdCIBaioCACABIBBqKgIAlJIhPSACQQFqIgIgBkcNAAsLID4gPZIhPiALQQhHDQALID5DAAAAPpSLQwAAgD+WIkEhPiAVQQlOBEAgGC8BECENQQghCyBBIT4DQCANQRB0IQJDAAAAACE9IBggC0EBaiILQQF0ai4BACINIAJBEHUiAmsgCnQiBkEBTgRAIBEgAiAKdCICQQJ0aiEJIBEgAiAfakECdGohEEEAIQIDQCA9IAkgAkECdCIBaioCACABIBBqKgIAlJIhPSACQQFqIgIgBkcNAAsLID4gPYsiPSA+ID1dGyE+IAsgFUcNAAsLQ8UggD8gQSBBlJO7EFMhSEPFIIA/ID6LQwAAgD+WIj0gPZSTuxBTIUkgACAAKgLkAUMAAIA+kiI9IEhE/oIrZUcV9z+itiI+QwAAAD+UIkEgSUT+gitlRxX3P6K2IkcgQSBHXhtDAAAAv5QiQSA9IEFdGzgC5AEgPyA+QwAAQD+UQwAAgMCXkiE/CyAIQX9qIQZBAiAIayEJQwAAAAAhPUEAIRADQCAIQQJOBEAgDigCCCAQbCEBQQAhAgNAID0gBCABIAJqQQJ0aioCACAJIAJBAXRqspSSIT0gAkEBaiICIAZHDQALCyAQQQFqIhAgHkcNAAsgP0MAAABAQwAAAMAgPSAGIAdsspVDAACAP5JDAADAQJUiPUMAAABAXiICG0MAAABAID1DAAAAwF0iARsiPiA+ID0gAhsgARuTIEKTIEAgQJKTIT0CfyAwKAIABH0gPUMAAABAQwAAAMAgACoCgAFDzcxMPZIiPiA+kiI+QwAAAEBeIgIbQwAAAEAgPkMAAADAXSIBGyI/ID8gPiACGyABG5MFID0LQwAAAD+SjiI9i0MAAABPXQRAID2oDAELQYCAgIB4CyICQQogAkEKSBsiAkEAIAJBAEobCyIJQYSeAkEHEDAgBRBQIQYLICZBAU4EQEH7CSAsdiECIA4oAiQhBCAPBH8gB0G4f2wgJmpBYGoiAUEAIAFBAEobBSAmIDdBA3RrCyEBIBwgAkghDSAEIAprIQsgACgCNCIQBEAgACgC2AEgC3UgAWohAQsgHCACIA0bIgICfwJAAkAgD0UEQCAOKAIgIhUgACgCXCIEIA4oAggiHCAEGyITQQF0ai4BACAKdCENIAAoAuwBIRYgACgCQCEYIAAqAuQBIT4gACgC6AEhGiAMKgIMIT0gDCgCCCEoIAdBAkYEQCAVIBogEyATIBpKG0EBdGouAQAgCnQgDWohDQsCfyABIDAoAgAiLEUNABogASAAKgKIASI/u0SamZmZmZnZP2NBAXMNABogAQJ/Q83MzD4gP5MgDUEDdLKUIj+LQwAAAE9dBEAgP6gMAQtBgICAgHgLawshBAJ/ID1DWDk0vZIgB0ECRgR/IAQCfyAVIBogEyATIBpKGyITQQF0ai4BACAKdCATayITskPNzEw/lCANspUgBLKUIj8gPkMAAIA/ID5DAACAP10bQ83MzL2SIBNBA3SylCI+ID8gPl0bIj6LQwAAAE9dBEAgPqgMAQtBgICAgHgLawUgBAsgKEETIAp0a2oiBLKUIj6LQwAAAE9dBEAgPqgMAQtBgICAgHgLIRMgBCATaiEEAkAgGA0AICxFDQACfyANQQN0siI+Q5qZmT+UQ4/C9b0gACoCfEOamRm+kiI/Q4/C9b2SID9DAAAAAF0blCI/i0MAAABPXQRAID+oDAELQYCAgIB4CyAEAn8gPkPNzEw/lCI+i0MAAABPXQRAID6oDAELQYCAgIB4C0EAIDobamohBAsgFkUgGEEAR3IiE0UEQCAEQQRtIhgCfyBDIA1BA3SylCI+i0MAAABPXQRAID6oDAELQYCAgIB4CyAEaiIEIBggBEobIQQLIARBAnUhDSAEAn8gRiAHIBxBAXQgFWpBfGouAQAgCnRsQQN0spQiPotDAAAAT10EQCA+qAwBC0GAgICAeAsiGCANIA0gGEgbIg0gBCANSBshBCAQRSATQQFzckUEQAJ/IAQgAWuyQx+FKz+UIj6LQwAAAE9dBEAgPqgMAQtBgICAgHgLIAFqIQQLID1DzcxMPl1BAXMNAiAWDQJDAAAAAEGA7gUgJ2siDUGA+gEgDUGA+gFIGyINskOYCVA2lCANQQBIGyBElCAEspQiPYtDAAAAT11FDQEgBCA9qGohBAwCCwJ/IAwqAgwiPUMAAIC+kkMAAMhDlCI+i0MAAABPXQRAID6oDAELQYCAgIB4C0HgACAsdkEAIAAoArwBIgRB5ABIGyABakEAQZABICx2a0EAIARB5ABKG2pqIgFBkAMgAUGQA0obIAEgPUMzMzM/XhshBCADIAZqQT9qQQZ1QQJqIgEgAyA2akHnAmpBBnUiAyABIANKGwwCCyAEQYCAgIB4aiEECyABQQF0IgEgBCABIARIGyEEIAMgBmpBP2pBBnVBAmoLIgEgBCAGaiIEQSBqQQZ1IgYgASAGShsiASACIAFIGyEGQ28SgzohPSAAKALcASIBQckHTARAIAAgAUEBajYC3AFDAACAPyABQRVqspUhPQtBAiAGICkbIQECQCAQRQ0AIAAgACgC0AFBgAEgBkEGdCApGyAma2oiBjYC0AEgAAJ/ID1BACAEICZrICkbIAt0IAAoAtgBayAAKALUASIEa7KUIj2LQwAAAE9dBEAgPagMAQtBgICAgHgLIARqIgQ2AtQBIABBACAEazYC2AEgBkF/Sg0AIABBADYC0AFBACAGQUBtICkbIAFqIQELIAUgAiABIAIgAUgbIhwQNAsgKyAZQQJ0QQ9qQXBxIgFrIgIiBiQAIAYgAWsiBCIGJAAgBiABayIDIg0kAEEAIRAgDiAPIAggJCAgIAkgAEHoAWogDEEUaiAcQQZ0IhggBRBQQX9zaiIGAn9BACAKQQJJDQAaQQAgF0UNABogBiAKQQN0QRBqTiIQQQN0CyIBayAMQdAAaiAEIAIgAyAHIAogBUEBIAAoAlxBAQJ/IAhBf2ogMCgCAEUNABogACgCmAEiFQJ/QQ0gJyAHQYD6AWxIDQAaQRAgJyAHQYD3AmxIDQAaQRIgJyAHQeDUA2xIDQAaQRNBFCAnIAdBgPEEbEgbCyIGIBUgBkobCyAAKAJAGxBcIgYhCSAAKAJcIgsEQCALQQFqIgkgC0F/aiILIAYgCyAGShsiCyAJIAtIGyEJCyAcQQN0IQsgACAJNgJcIA4gDyAIIBIgFCACIAUgBxBWQQAhCSANICVBD2pBcHFrIg0kAEEBIA4gDyAIIBEgESAfQQJ0akEAIAdBAkYbIA0gIiAEIDMgACgCUCAMKAIUIAAoAugBIB0gGCABayAMKAJQIAUgCiAGIABBzABqIAAoAhggACgCSCAAKAJEEHQgEARAIAUgACgCdEECSEEBEDILIA4gDyAIIBIgFCACIAMgCyAFKAIUayAFKAIcZ2tBIGogBSAHEFcgLkEAIC1BAnQiERAEIQMDQCAjRQRAIAkgGWwhBCAPIQIDQCADIAIgBGpBAnQiAWpDAAAAv0MAAAA/QwAAAD8gASAUaioCACI9ID1DAAAAP14iARtDAAAAv10iBhsiPiA+ID0gBhsgARs4AgAgAkEBaiICIAhHDQALCyAJQQFqIgkgHkcNAAsgKUEBcyAlQQFIckUEQEEAIQIDQCASIAJBAnRqQYCAgI98NgIAIAJBAWoiAiAlRw0ACwsgDCgCHCECIAAgODYCcCAAIEU4AmwgACACNgJoIDsEQCASIBlBAnQiAmogEiACEAUaCwJAIBcEQEEAIQIgLUEATA0BA0AgGyACQQJ0IgFqIgYgBioCACI9IAEgEmoqAgAiPiA9ID5dGzgCACACQQFqIgIgLUcNAAsMAQsgISAbIBEQBRogGyASIBEQBRoLIA9BAUghA0EAIQQDQCADRQRAIAQgGWwhBkEAIQIDQCASIAIgBmpBAnQiAWpBADYCACABICFqQYCAgI98NgIAIAEgG2pBgICAj3w2AgAgAkEBaiICIA9HDQALCyAIIBlIBEAgBCAZbCEGIAghAgNAIBIgAiAGakECdCIBakEANgIAIAEgIWpBgICAj3w2AgAgASAbakGAgICPfDYCACACQQFqIgIgGUcNAAsLIARBAWoiBCAyRw0ACyAAIBcgMXIEfyAAKAJ0QQFqBUEACzYCdCAAIAUoAhw2AkwgBRA1QX0gHCAFKAIsGyEGCyAMQcABaiQAIAYLnAgCDn8EfSMAQRBrIgwkACAAKAIAIhMoAgQhECAMIARBgAhqIg8gA2xBAnRBD2pBcHFrIg4iESQAIAwiDSAOIA9BAnRqNgIMIAwgDjYCCCADQQEgA0EBShshFCAEQQJ0IRIgBCAQaiEVIAEgEEECdGohDkEAIQwDQCANQQhqIAxBAnRqKAIAIAIgDEEMdGpBgCAQBUGAIGogDiAMIBVsQQJ0aiASEAUaIAxBAWoiDCAURw0ACwJ9IAkEQCARIA9BAXRBfHFBD2pBcHFrIgwkACANQQhqIAwgDyADIAAoAkgQgAEgDEGAEGogDCAEQdMHIA1BBGogACgCSBCCASANQYAIIA0oAgRrNgIEIAwgBCANQQRqIAAoAmggACoCbCAAKAJIEIMBIRogDSgCBEH/B04EQCANQf4HNgIEC0MAAAAAIBpDMzMzP5QiGkMAAAA/lCAaIAAoAjgiDEECShsiGkMAAAA/lCAaIAxBBEobIAxBCEobDAELIA1BDzYCBEMAAAAACyEaAn8gCygCAARAIBogCyoCKJQhGgsgGkPNzMw+Q83MTD4gDSgCBCIMIAAoAmgiA2siDiAOQR91Ig5qIA5zQQpsIAxKGyIbQ83MzD2SIBsgCkEZSBsiG0PNzMw9kiAbIApBI0gbIhxDzczMvZIgHCAAKgJsIhtDzczMPl4bIhxDzczMvZIgHCAbQ83MDD9eGyIcQ83MTD4gHEPNzEw+XhtdRQsEQEEBIRdBBwJ/IBsgGiAaIBuTi0PNzMw9XRtDAAAAQpRDAABAQJVDAAAAP5KOIhqLQwAAAE9dBEAgGqgMAQtBgICAgHgLIgxBf2ogDEEHShsiDEEAIAxBAEobIhZBAWqyQwAAwD2UIR0LQYAgIBJrIRggEEECdCEOIB2MIRsgBEGBCEghCUEAIARrQQJ0IRlBACEMA0AgEygCLCEPIAAgA0EPIANBD0obNgJoIAEgDCAVbEECdGogACAMIBBsQQJ0akH0AWoiCiAOEAUhAyAPIBBrIg8EQCADIA5qIA1BCGogDEECdGooAgBBgCBqIAAoAmgiCyALIA8gACoCbIwiGiAaIAAoAnAiESARQQBBACAAKAJIEE0LIA9BAnQiCyADIA5qaiANQQhqIAxBAnRqIhEoAgAgC2pBgCBqIAAoAmggDSgCBCAEIA9rIAAqAmyMIBsgACgCcCAFIBMoAjwgECAAKAJIEE0gCiADIARBAnQiD2ogDhAFGiACIAxBDHRqIQMCQCAJRQRAIAMgESgCACAPakGAIBAFGgwBCyADIAMgD2ogGBAIIBlqQYAgaiARKAIAQYAgaiASEAUaCyAUIAxBAWoiDEcEQCAAKAJoIQMMAQsLIAcgHTgCACAGIA0oAgQ2AgAgCCAWNgIAIA1BEGokACAXC6wGAxB/Bn0CfCMAIAFBAnRBD2pBcHFrIQggBkEANgIAIAFBAm0hCwJAIAJBAUgNAEMAAAA9QwAAgD0gBRshGyALQXtqIQ4gC0EGbEGaf2ohDyALsiEcIAu3IR4gAUEBSCEQIAhBKGohESAIQSBqIRIgCEEYaiETIAhBEGohFCAIQQhqIRUgAUEkSCEWA0AgEEUEQCABIA1sIQlDAAAAACEaQQAhB0MAAAAAIRkDQCAIIAdBAnRqIBogACAHIAlqQQJ0aioCACIXkiIYOAIAIBkgGJIgFyAXkpMhGiAXIBhDAAAAv5SSIRkgB0EBaiIHIAFHDQALCyAIQgA3AwAgEUIANwMAIBJCADcDACATQgA3AwAgFEIANwMAIBVCADcDAEMAAAAAIRdBACEHQwAAAAAhGEMAAAAAIRoCQCABQQJIBEAMAQsDQCAIIAdBAnRqIBggGyAIIAdBA3QiCWoqAgAiGSAZlCAIIAlBBHJqKgIAIhkgGZSSIhkgGJOUkiIYOAIAIBogGZIhGiAHQQFqIgcgC0cNAAsgCyEHQwAAAAAhGANAIAggB0F/aiIJQQJ0aiIMIBcgDCoCACAXk0MAAAA+lJIiFzgCACAYIBcgGCAXXhshGCAHQQFKIQwgCSEHIAwNAAsgGiEXC0EAIQkgFkUEQCAcIBcgGJS7RAAAAAAAAOA/oiAeop+2Q30dkCaSlUMAAIBClCEYQQwhBwNAIAkCf0QAAAAAAAAAAEQAAAAAAMBfQCAYIAggB0ECdGoqAgBDfR2QJpKUjiIXQwAA/kKWQwAAAABdIgwbIh0gHSAXuyAMGyAXQwAA/kJeGyIdmUQAAAAAAADgQWMEQCAdqgwBC0GAgICAeAtBkJ4Cai0AAGohCSAHQQRqIgcgDkgNAAsLIAlBCHQgD20iByAKSgRAIAQgDTYCACAHIQoLIA1BAWoiDSACRw0ACyAKQcgBSiEHIAVFDQAgCkG3fmpBjgNLDQAgBkEBNgIAQQAhBwsgAyAKQRtst5+2QwAAKMKSQwAAAACXQwAAI0OWQ2UZ4juUu0SYbhKDwMrBv6BEAAAAAAAAAACln7Y4AgAgBwuaAwIKfwF9IAAoAiwhCiAAKAIEIQwCfyABBEAgACgCJAwBCyAKIAZ0IQpBASEBIAAoAiQgBmsLIQ8gBUEBIAVBAUobIRAgAEFAayERIAEgCmwiCSAMaiESA0AgAUEBTgRAIAkgDWwhCyACIA0gEmxBAnRqIQ5BACEGA0AgESAOIAYgCmxBAnRqIAMgBiALakECdGogACgCPCAMIA8gARCGASAGQQFqIgYgAUcNAAsLIA1BAWoiDSAQRw0ACwJAIARBAUcNACAFQQJHDQAgCUEBSA0AQQAhBgNAIAMgBkECdGoiASABKgIAQwAAAD+UIAMgBiAJakECdGoqAgBDAAAAP5SSOAIAIAZBAWoiBiAJRw0ACwsgB0EBRwRAIARBASAEQQFKGyEKIAkgCSAHbSILa0ECdCEMIAeyIRNBACEAA0AgACAJbCEOQQAhBiALQQFOBEADQCADIAYgDmpBAnRqIgEgASoCACATlDgCACAGQQFqIgYgC0cNAAsLIAMgCyAOakECdGpBACAMEAQaIABBAWoiACAKRw0ACwsLwRUCD38JfSMAIhUhICAVIAIgBWxBAnRBD2pBcHEiFmsiGCIVJAAgFSAWayIaIhkkAEEAIRUgBkEAIAJBAnQQBCEdIARBAUgiF0UEQEEJIAdrsiEkQQAhBgNAIBogBkECdCIWaiAGQQVqIgcgB2yyQ18pyzuUIAggBkEBdGouAQCyQwAAgD2UQwAAAD+SICSSIBZBgLMBaioCAJOSOAIAIAZBAWoiBiAERw0ACwsgBUEBIAVBAUobIRxDMzP/wSEpAkACfwJAA0AgF0UEQCACIBVsIRZBACEGA0AgKSAAIAYgFmpBAnRqKgIAIBogBkECdGoqAgCTIiQgKSAkXhshKSAGQQFqIgYgBEcNAAsgFUEBaiIVIBxHDQEgGSACQQJ0QQ9qQXBxIhVrIgYiFiQAIBYgFWsiCCQAQQAhFQNAIAYgFUECdCIWaiAAIBZqKgIAIBYgGmoqAgCTOAIAIBVBAWoiFSAERw0ACyAFQQJGBEBBACEVA0AgBiAVQQJ0IhZqIgcgByoCACIkIAAgAiAVakECdGoqAgAgFiAaaioCAJMiJSAkICVeGzgCACAVQQFqIhUgBEcNAAsLIAggBiAEQQJ0EAUhCCAEQQFKDQIgBEF+aiEbQQAMAwsgFUEBaiIVIBxHDQALIARBfmohGyAFQQJGIR4MAgsgBioCACEkQQEhFQNAIAYgFUECdGoiFiAWKgIAIiUgJEMAAADAkiIkICUgJF4bIiQ4AgAgFUEBaiIVIARHDQALIARBfmoiGyEVA0AgBiAVQQJ0aiIWIBYqAgAiJCAWKgIEQwAAQMCSIiUgJCAlXhs4AgAgFUEASiEWIBVBf2ohFSAWDQALQQELIR8gBUECRiEeIClDAABAwZJDAAAAAJchJEEAIRUDQAJ/IAggFUECdCIWaioCACAkIAYgFmoqAgAiJSAkICVeG5NDAAAAP5KOIiWLQwAAAE9dBEAgJagMAQtBgICAgHgLIQcgFCAWakEgQQBBACAHayAHQQBKGyIWQQUgFkEFSBt2NgIAIBVBAWoiFSAERw0ACwsCQAJAIA1BAUgNACAOQTNIDQAgEA0AIARBfWohIUEAIQggBEEESiEiIARBf2pBAnQhI0EAIRQDQCAYIAIgFGwiB0ECdCIGaiIVIAEgBmoiECgCACIGNgIAIAa+IiohJUEBIQYgHwRAA0AgASAGIAdqQQJ0aiIWQXxqKgIAISYgFSAGQQJ0aiAlQwAAwD+SIiUgFioCACIkICUgJF0bIiU4AgAgBiAIICQgJkMAAAA/kl4bIQggBkEBaiIGIARHDQALCyAIQQFOBEAgFSAIQQJ0aioCACEkIAghBgNAIBUgBkF/aiIWQQJ0aiIXIBcqAgAiJSAkQwAAAECSIiQgASAHIBZqQQJ0aioCACImICQgJl0bIiQgJSAkXRsiJDgCACAGQQFKIRcgFiEGIBcNAAsLQQIhBiAiBEADQCABIAYgB2pBAnRqIhZBeGoiFyoCACIkIBcqAgQiJSAkICVeIhcbIisgFioCBCImIBYqAggiJyAmICdeIhkbIiwgJSAkIBcbIiQgJyAmIBkbIiVeIhcbISggJCAlIBcbISQgFSAGQQJ0aiIZKgIAISUgGSAlAn0gFioCACImICwgKyAXGyInXkEBcyIWRQRAICYgJCAmICRdGyAnICRdQQFzRQ0BGiAoICcgKCAnXRsMAQsgJyAkICcgJF0bICYgJF1BAXNFDQAaICYgKCAmIChdGwtDAACAv5JeBH0gJQUCfSAWRQRAICYgJCAmICRdGyAnICRdQQFzRQ0BGiAoICcgKCAnXRsMAQsgJyAkICcgJF0bICYgJF1BAXNFDQAaICYgKCAmIChdGwtDAACAv5ILOAIAIAZBAWoiBiAbRw0ACwsgFSAVKgIAIiYgKiAQKgIEIiQgJCAqXSIGGyInIBAqAggiJSAkICogBhsiJCAkICVdGyAnICVdG0MAAIC/kiIkICYgJF4bOAIAIBUgFSoCBCIlICQgJSAkXhs4AgQgFSAbQQJ0aiIGIAYqAgAiJyABIAcgIWpBAnRqIgYqAgAiJCAGKgIEIiUgJCAlXiIWGyIoIAYqAggiJiAlICQgFhsiJCAkICZdGyAoICZdG0MAAIC/kiIkICcgJF4bOAIAIBUgI2oiBiAGKgIAIiUgJCAlICReGzgCAEEAIQYgBEEBTgRAA0AgFSAGQQJ0IhZqIgcgByoCACIkIBYgGmoqAgAiJSAkICVeGzgCACAGQQFqIgYgBEcNAAsLIBRBAWoiFCAcRw0ACwJAAkAgHkUEQCADIARODQIgAyEGA0AgGCAGQQJ0IhVqIhYgACAVaioCACAWKgIAk0MAAAAAlzgCACAGQQFqIgYgBEcNAAsMAQsgAyAETg0BIAMhBgNAIBggAiAGakECdCIBaiIWIBYqAgAiJCAYIAZBAnQiB2oiFSoCAEMAAIDAkiIlICQgJV4bIiQ4AgAgFSAVKgIAIiUgJEMAAIDAkiIkICUgJF4bIiQ4AgAgFSAAIAdqKgIAICSTQwAAAACXIAAgAWoqAgAgFioCAJNDAAAAAJeSQwAAAD+UOAIAIAZBAWoiBiAERw0ACwsgAyAETg0AIAMhBgNAIBggBkECdCIVaiIWIBYqAgAiJCARIBVqKgIAIiUgJCAlXhs4AgAgBkEBaiIGIARHDQALIAMhBgNAAn8gGCAGQQJ0IhVqKgIAIiRDAACAQCAkQwAAgEBdG7tE7zn6/kIu5j+iEF62QwAAUEGUQwAAAD+SjiIki0MAAABPXQRAICSoDAELQYCAgIB4CyEWIBMgFWogFjYCACAGQQFqIgYgBEcNAAsLAkAgAyAETiIBDQAgCQ0AIAtFIApBAEdxDQAgAyEGA0AgGCAGQQJ0aiIVIBUqAgBDAAAAP5Q4AgAgBkEBaiIGIARHDQALCyABRQRAIAMhBgNAQwAAAEAhJAJAIAZBCE4EQEMAAAA/ISQgBkEMSA0BCyAYIAZBAnRqIhUgFSoCACAklDgCAAsgBkEBaiIGIARHDQALCwJAIBIoAgBFDQAgBEETIARBE0gbIhYgA0wNACADIQYDQCAYIAZBAnRqIhUgFSoCACAGIBJqLQAss0MAAIA8lJI4AgAgBkEBaiIGIBZHDQALC0EAIRYgAQ0BIA5BAXRBA20hCEEAIQEgDCADQQF0ai8BACEHIApFIAlFIAtBAEdxckEBcyEZA0AgGCADQQJ0IhdqIgYgBioCACIkQwAAgEAgJEMAAIBAXRsiJDgCACAHQRB0IQYCfyAMIANBAWoiFUEBdGouAQAiByAGQRB1ayAFbCANdCIWQQVMBEAgFgJ/ICSLQwAAAE9dBEAgJKgMAQtBgICAgHgLIgZsQQN0DAELIBZBMU4EQCAWAn8gJEMAAABBlCIki0MAAABPXQRAICSoDAELQYCAgIB4CyIGbEEDdEEIbQwBCwJ/ICQgFrKUQwAAwECVIiSLQwAAAE9dBEAgJKgMAQtBgICAgHgLIgZBMGwLIAFqIhZBBnUgCEwgGXJFBEAgHSADQQJ0aiAIQQZ0IhYgAWs2AgAMAwsgFyAdaiAGNgIAIBUhAyAWIQEgBCAVRw0ACwwBC0EAIRYgAyAETg0AA0AgEyADQQJ0akENNgIAIANBAWoiAyAERw0ACwsgDyAWNgIAICAkACApC/YLAhR/BH0jACILIRZBASEUIAsgAUECdEEPakFwcSIMayIVIg0kACANIAAoAiAiCyABQQF0ai4BACALIAFBf2oiF0EBdGouAQBrIAd0QQJ0QQ9qQXBxIg5rIhoiDSQAIA0gDmsiGyINJAAgDSAMayIYIg0kACANIAxrIhkkACABQQFOBEBDAAAAPyAIk0MAAIC+l0MK1yM9lCIgIAdBACACG7KUISFBASAHdCEcIAYgCWwhHUEAIAdBAXRrIR4gICAHQQFqspQhIgNAIBogBSALIA9BAXRqLgEAIgwgB3QgHWpBAnRqIAsgD0EBaiIRQQF0ai4BACAMayIJIAd0IgxBAnQiDhAFIQ1DAAAAACEIQQAhCyAMQQFIIhBFBEADQCAIIA0gC0ECdGoqAgCLkiEIIAtBAWoiCyAMRw0ACwsgCCAhIAiUkiEfQQAhCwJ/QQAgAkUNABpBACAJQQFGDQAaIBsgDSAOEAUiBiAMIAd1IBwQc0EAIQ5DAAAAACEIIBBFBEADQCAIIAYgDkECdGoqAgCLkiEIIA5BAWoiDiAMRw0ACwtBACAIICIgCJSSIgggH11BAXMNABogCCEfQX8LIQYgCUEBRyISIAJFcSAHaiITQQFOBEADQCANIAwgC3VBASALdBBzIAtBf3MgB2ogC0EBaiIOIAIbIQlBACELQwAAAAAhCCAQRQRAA0AgCCANIAtBAnRqKgIAi5IhCCALQQFqIgsgDEcNAAsLIAggICAJspQgCJSSIgggHyAIIB9dIgsbIR8gDiAGIAsbIQYgEyAOIgtHDQALCyAVIA9BAnRqIgwgBkEBdCILQQAgC2sgAhsiCzYCAAJAIBINACALQQAgCyAeRxsNACAMIAtBf2o2AgALIAEgEUcEQCAAKAIgIQsgESEPDAELCyAVKAIAIRELIAooAgAiEiARIAdBA3RBgLEBaiIPIAJBAnQiAGosAABBAXQiEGsiCyALQR91IgtqIAtzbCELQQAgBCACGyIFIBEgDyAAQQFyaiwAAEEBdCITayIMIAxBH3UiDGogDHMgEmxqIQwCQCABQQFMBEAgDCEGDAELA0AgBCALaiENIBUgFEECdCIOaigCACIGIBBrIgkgCUEfdSIJaiAJcyAKIA5qKAIAIg5sIAsgBCAMaiIJIAsgCUgbaiELIAYgE2siBiAGQR91IgZqIAZzIA5sIA0gDCANIAxIG2oiBiEMIBRBAWoiFCABRw0ACwtBASEOIBEgDyAAQQJyaiwAAEEBdCITayIMIAxBH3UiDGogDHMgEmwhDCARIA8gAEEDcmosAABBAXQiD2siDSANQR91Ig1qIA1zIBJsIAVqIQ0gCyAGIAsgBkgbIRQCQCABQQFMBEAgDSELDAELA0AgBCAMaiELIBUgDkECdCIGaigCACIJIBNrIhAgEEEfdSIQaiAQcyAGIApqKAIAIgZsIAwgBCANaiIQIAwgEEgbaiEMIAkgD2siCSAJQR91IglqIAlzIAZsIAsgDSALIA1IG2oiCyENIA5BAWoiDiABRw0ACwtBASEOIBEgB0EDdEGAsQFqIg1BAkEAIAJBAEcgDCALIAwgC0gbIBRIcSIPGyAAciIMaiwAAEEBdCIQayILIAtBH3UiC2ogC3MgEmwhCyARIA0gDEEBcmosAABBAXQiE2siDCAMQR91IgxqIAxzIBJsIAVqIQwgAUEBTARAIAMgF0ECdGogCyAMTjYCACAWJAAgDw8LA0AgGCAOQQJ0Ig1qIAsgBCAMaiIGTjYCACANIBlqIAQgC2oiCSAMTjYCACANIBVqKAIAIgcgE2siAiACQR91IgJqIAJzIAogDWooAgAiDWwgCSAMIAkgDEgbaiEMIAcgEGsiCSAJQR91IglqIAlzIA1sIAsgBiALIAZIG2ohCyAOQQFqIg4gAUcNAAsgAyAXQQJ0aiALIAxOIgw2AgAgAUF+aiELA0AgAyALQQJ0Ig1qIA0gGSAYIAxBAUYbaigCBCIMNgIAIAtBAEohDSALQX9qIQsgDQ0ACyAWJAAgDwu2BQIHfwJ9IAAoAgwiBUEBTgRAIAAoAgghBiAAKAIAIQQDQCABIANBAnRqIAMgBGosAACyOAIAIANBAWoiAyAFRw0ACyAAKAIEIQhBACEEIAZBAUghCQNAIAlFBEAgASAEQQJ0aiIHKgIAIQpBACEDA0AgByAKIAIgA0ECdGoqAgAgCCADIAVsIARqaiwAALKUkiIKOAIAIANBAWoiAyAGRw0ACwsgBEEBaiIEIAVHDQALQQAhAwNAIAEgA0ECdGoiBCAEKgIAQwAAADyUOAIAIANBAWoiAyAFRw0ACwsCQCAAKAIQBEBBACEDIAVBAEwNAQNAAn1DAACAPyABIANBAnRqIgQqAgBDAAAAP5QiC0MAAABBXUEBcw0AGkMAAAAAIAtDAAAAwV5BAXMNABpDAAAAPyALIAtcDQAaAn8gC4wgCyALQwAAAABdIgYbIgtDAADIQZRDAAAAP5KOIgqLQwAAAE9dBEAgCqgMAQtBgICAgHgLIgdBAnRB8MYCaioCACIKQwAAgD8gCiALIAeyQwrXI72UkiILlJMgC0MAAIA/IAogCpSTlJSSIgqMIAogBhtDAAAAP5RDAAAAP5ILIQogBCAKOAIAIANBAWoiAyAFRw0ACwwBC0EAIQMgBUEATA0AA0ACfUMAAIA/IAEgA0ECdGoiBCoCACILQwAAAEFdQQFzDQAaQwAAgL8gC0MAAADBXkEBcw0AGkMAAAAAIAsgC1wNABoCfyALjCALIAtDAAAAAF0iBhsiC0MAAMhBlEMAAAA/ko4iCotDAAAAT10EQCAKqAwBC0GAgICAeAsiB0ECdEHwxgJqKgIAIgpDAACAPyAKIAsgB7JDCtcjvZSSIguUkyALQwAAgD8gCiAKlJOUlJIiCowgCiAGGwshCiAEIAo4AgAgA0EBaiIDIAVHDQALCwuZDQILfwR9IwBBgARrIgUkAEGQxgIoAgAiBEEBTgRAIARBA2whCUGMxgIoAgAhB0GAxgIoAgAhAwNAIAVBgAJqIAJBAnRqIAIgA2osAACyOAIAIAJBAWoiAiAERw0AC0GExgIoAgAhCkEAIQMgB0EBSCEGA0AgBkUEQCAFQYACaiADQQJ0aiILKgIAIQ1BACECA0AgDSABIAJBAnRqKgIAIAogAiAJbCADamosAACylJIhDSACQQFqIgIgB0cNAAsgCyANOAIACyADQQFqIgMgBEcNAAtBiMYCKAIAIQtBACEDA0AgBUGAAmogA0ECdGoiBioCACENQQAhAgNAIA0gACACQQJ0aioCACALIAIgCWwgA2pqLAAAspSSIQ0gAkEBaiICIARHDQALIAYgDTgCACADQQFqIgMgBEcNAAtBACECA0ACfUMAAIA/IAVBgAJqIAJBAnRqIgMqAgBDAAAAPJRDAAAAP5QiDkMAAABBXUEBcw0AGkMAAAAAIA5DAAAAwV5BAXMNABpDAAAAPyAOIA5cDQAaAn8gDowgDiAOQwAAAABdIggbIg5DAADIQZRDAAAAP5KOIg2LQwAAAE9dBEAgDagMAQtBgICAgHgLIgZBAnRB8MYCaioCACINQwAAgD8gDSAOIAayQwrXI72UkiIOlJMgDkMAAIA/IA0gDZSTlJSSIg2MIA0gCBtDAAAAP5RDAAAAP5ILIQ0gAyANOAIAIAJBAWoiAiAERw0AC0GAxgIoAgAhA0EAIQIDQCAFQYABaiACQQJ0aiADIAIgBGpqLAAAsjgCACACQQFqIgIgBEcNAAsgBCAKaiEGQQAhAyAHQQFIIQwDQCAMRQRAIAVBgAFqIANBAnRqIggqAgAhDUEAIQIDQCANIAEgAkECdGoqAgAgBiACIAlsIANqaiwAALKUkiENIAJBAWoiAiAHRw0ACyAIIA04AgALIANBAWoiAyAERw0ACyAEIAtqIQZBACEDA0AgBUGAAWogA0ECdGoiCCoCACENQQAhAgNAIA0gACACQQJ0aioCACAGIAIgCWwgA2pqLAAAspSSIQ0gAkEBaiICIARHDQALIAggDTgCACADQQFqIgMgBEcNAAtBACECA0ACfUMAAIA/IAVBgAFqIAJBAnRqIgMqAgBDAAAAPJRDAAAAP5QiDkMAAABBXUEBcw0AGkMAAAAAIA5DAAAAwV5BAXMNABpDAAAAPyAOIA5cDQAaAn8gDowgDiAOQwAAAABdIggbIg5DAADIQZRDAAAAP5KOIg2LQwAAAE9dBEAgDagMAQtBgICAgHgLIgZBAnRB8MYCaioCACINQwAAgD8gDSAOIAayQwrXI72UkiIOlJMgDkMAAIA/IA0gDZSTlJSSIg2MIA0gCBtDAAAAP5RDAAAAP5ILIQ0gAyANOAIAIAJBAWoiAiAERw0ACyAEQQF0IQhBgMYCKAIAIQZBACEDQQAhAgNAIAUgAkECdGogBiACIAhqaiwAALI4AgAgAkEBaiICIARHDQALA0AgA0ECdCICIAVBgANqaiAAIAJqKgIAIAVBgAFqIAJqKgIAlDgCACADQQFqIgMgBEcNAAsgCCAKaiEGQQAhAyAHQQFIIQwDQCAMRQRAIAUgA0ECdGoiCioCACENQQAhAgNAIA0gASACQQJ0aioCACAGIAIgCWwgA2pqLAAAspSSIQ0gAkEBaiICIAdHDQALIAogDTgCAAsgA0EBaiIDIARHDQALIAggC2ohAUEAIQcDQCAFIAdBAnRqIgMqAgAhDUEAIQIDQCANIAVBgANqIAJBAnRqKgIAIAEgAiAJbCAHamosAACylJIhDSACQQFqIgIgBEcNAAsgAyANOAIAIAdBAWoiByAERw0AC0EAIQkDQCAJQQJ0IgIgBUGAAmpqKgIAIg0gACACaioCAJQhD0MAAIA/IA2TIRACfUMAAIA/IAIgBWoiAioCAEMAAAA8lCIOQwAAAEFdQQFzDQAaQwAAgL8gDkMAAADBXkEBcw0AGkMAAAAAIA4gDlwNABoCfyAOjCAOIA5DAAAAAF0iARsiDkMAAMhBlEMAAAA/ko4iDYtDAAAAT10EQCANqAwBC0GAgICAeAsiB0ECdEHwxgJqKgIAIg1DAACAPyANIA4gB7JDCtcjvZSSIg6UkyAOQwAAgD8gDSANlJOUlJIiDYwgDSABGwshDSACIA8gECANlJI4AgAgCUEBaiIJIARHDQALIAAgBSAEQQJ0EAUaCyAFQYAEaiQAC8MKAwh/AX4IfSAAIAAoApw6IAIgACgCCCIEQZADbW1qIgM2Apw6IAAoApQ6IQUgACgCmDoiByEIIANBCE4EQCAAIAcgAyADQQ8gA0EPSBtrQQdqIgZBA3ZqQQFqIgg2Apg6IAAgAyAGQXhxa0F4ajYCnDoLIAhB5ABOBEAgACAIQZx/ajYCmDoLQQYhBiABIABB4wAgByAHQQAgB0EBaiIDIANB5ABGGyAEQTJtIAJOGyAFIAdGGyIDIAMgBUZrIgMgA0EASBsiAkEGdGoiA0HsO2opAgA3AjggASADQeQ7aikCADcCMCABIANB3DtqKQIANwIoIAEgA0HUO2opAgA3AiAgASADQcw7aikCADcCGCABIANBxDtqKQIANwIQIAEgA0G8O2opAgA3AgggASADQbQ7aikCACILNwIAIAunBEAgBSAHayIDQQBIIQUgA0HkAGohCCABKgIEIQxDAACAPyENAkBBACACQQFqIgogCkHkAEYbIgQgACgClDoiB0YEQCAMIQ4MAQsgACAEQQZ0aiIGQbg7aioCACENIAEgASgCICIJIAZB1DtqKAIAIgYgCSAGShsiBjYCICAMIA0gDCANXhshDiAMIA2SIQwgB0EAIARBAWoiBCAEQeQARhsiBEYEQEEFIQZDAAAAQCENDAELIAAgBEEGdGoiCUG4O2oqAgAhDSABIAYgCUHUO2ooAgAiCSAGIAlKGyIGNgIgIA4gDSAOIA1eGyEOIAwgDZIhDCAHQQAgBEEBaiIEIARB5ABGGyIERgRAQQQhBkMAAEBAIQ0MAQsgACAEQQZ0aiIEQbg7aioCACENIAEgBiAEQdQ7aigCACIEIAYgBEobNgIgIA4gDSAOIA1eGyEOIAwgDZIhDEEDIQZDAACAQCENCyAIIAMgBRshCUEAIQUgAiEDA0AgB0HjACADQX9qIANBAUgbIgNHBEAgASABKAIgIgggACADQQZ0akHUO2ooAgAiBCAIIARKGzYCICAFQQFqIgUgBkcNAQsLIAEgDCANlSIMIA5DzcxMvpIiDiAMIA5eGzgCBCACIQUgAiEDIAlBEE4EQEGhf0EFIAJB3gBKGyACaiIFQQFqIQpBnX9BASACQeIAShsgAmohAwsgAEG0O2oiCCAFQQZ0aioCFCAIIANBBnRqKgIkIhJDzczMPZciDJQhDgJAIAdBACAKIApB5ABGGyIFRgRAQwAAgD8hDQwBC0MAAIA/IQ0DQEEAIANBAWoiAyADQeQARhsiAyAHRg0BIA4gEiAIIANBBnRqKgIkIhCTQwAAIEGUIhGSIAyVIhMgDyATIA9eGyEPIA4gEZMgDJUiESANIBEgDV0bIQ0gDiAIIAVBBnRqKgIUIBBDzczMPZciEJSSIQ4gDCAQkiEMQQAgBUEBaiIFIAVB5ABGGyIFIAdHDQALCyABIA4gDJUiDDgCFCAMIA8gDCAPXhsiDkMAAIA/IA5DAACAP10bIQ8gDCANIAwgDV0bIgxDAAAAACAMQwAAAABeGyEQIAlBCUwEQCAQIQ4gDyENIAAoAow6IgNBAk4EQEEPIANBf2ogA0EPShsiA0EBIANBAUobIQdBACEDA0AgDSAAQeMAIAJBf2ogAkEBSBsiAkEGdGpByDtqKgIAIgwgDSAMXhshDSAOIAwgDiAMXRshDiADQQFqIgMgB0cNAAsLIA9DAACAPyAJskPNzMw9lJMiDCASQ83MzD2UIhEgDZJDAACAP5YgD5OUkiEPIBAgDCAOIBGTQwAAAACXIBCTlJIhEAsgASAPOAIcIAEgEDgCGAsL7DsDFH8ofQF8IwBB4NgAayILJAAgAgRAIAdB3wBsQTJtIgwgA0F+cSIDIAwgA0gbIhwgACgCkDoiFWsiF0EBTgRAIABBqDpqIRkgAEGMHmohHSAAQcwlaiEeIABBqDtqIRogAEHMFmohFiAHQTJtIRhDDWwVOkEBIAhBCCAIQQhKG0F4anSylSIfIB+UIjxDAABAQJQhQwNAIBcgGEohByAAKAKkOkUEQCAAQQE2AqQ6IABB8AE2AowtCyAYIBcgBxshDSAAKAKMOiEUAn8gACgCCCIHQYD9AEcEQCAVIAdBgPcCRw0BGiANQQJtIQ0gFUECbQwBCyANQQNsQQJtIQ0gFUEDbEECbQshDiABKAJIIRAgACAJIAIgACAAKAKMLSIDQQJ0akHMFmogGiANQdAFIANrIgMgDSADSBsgDiAFIAYgBxDyASAAKgKgOpIiODgCoDoCQCAAKAKMLSANaiIHQc8FTARAIAAgBzYCjC0MAQtDAACAPyAUQQFqIgdB5AAgFEHkAEgbspUhPUMAAIA/IAdBGSAUQRlIG7KVITZDAACAPyAHQQogFEEKSBuylSEpIABBnX9BASAAKAKUOiISQeIAShsgEmo2ApQ6IBYgCBD7ASEPQQAhBwNAIAtBgC1qIAdBA3RqIgMgB0ECdCIMQaDNAmoqAgAiHyAMIBZqIgwqAgCUOAIAIAMgHyAMKgLAB5Q4AgQgC0GALWpB3wMgB2siA0EDdGoiDCAfIBYgA0ECdGoqAgCUOAIAIAwgHyAWQc8FIAdrQQJ0aioCAJQ4AgQgB0EBaiIHQfABRw0ACyAWIB5BwAcQBRogCSACIB0gGiANIAAoAowtIgdqIgNBsHpqIA4gB2tB0AVqIAUgBiAAKAIIEPIBIR8gACADQaB8ajYCjC0gACAfOAKgOiAAIBJBBnRqIhNBtDtqIREgDwRAIBEgAEHiAEF+IAAoApQ6IgdBAkgbIAdqQQZ0aiIHQew7aikCADcCOCARIAdB5DtqKQIANwIwIBEgB0HcO2opAgA3AiggESAHQdQ7aikCADcCICARIAdBzDtqKQIANwIYIBEgB0HEO2opAgA3AhAgESAHQbw7aikCADcCCCARIAdBtDtqKQIANwIADAELIBAgC0GALWogC0GAD2oQhQFBASEHIAsqAoAPIicgJ1wEQCARQQA2AgAMAQsDQEEAIAdrQQN0IAtqQYAtaiIDKgIAIiIgC0GAD2ogB0EDdGoiDCoCACIhkyEfIAwqAgQiIyADKgIEIiiSISBDAAAAACEkAn1DAAAAACAhICKSIiUgJZQiIiAjICiTIiEgIZQiI5JD75KTIV0NABpD2w/Jv0PbD8k/ICFDAAAAAF0bICEgJZQgIkMF+Nw+lCAjkpQgIkMhsS0/lCAjkiAiQ2UJsD2UICOSlJWTICIgI11BAXNFDQAaQ9sPyb9D2w/JPyAhQwAAAABdGyAlICGUIiEgIiAjQwX43D6UkpQgIiAjQyGxLT+UkiAiICNDZQmwPZSSlJWSQ9sPyb9D2w/JPyAhQwAAAABdG5MLQ4P5Ij6UIiYgACAHQQJ0IgNqIgxBDGoiDSoCAJMiJSAMQcwHaiIOKgIAkyEiAkAgHyAflCIhICAgIJQiI5JD75KTIV0NACAjICFdQQFzRQRAQ9sPyb9D2w/JPyAfQwAAAABdGyAfICCUICEgI0MF+Nw+lJKUICEgI0MhsS0/lJIgISAjQ2UJsD2UkpSVkyEkDAELQ9sPyb9D2w/JPyAfQwAAAABdGyAfICCUIh8gIUMF+Nw+lCAjkpQgIUMhsS0/lCAjkiAhQ2UJsD2UICOSlJWSQ9sPyb9D2w/JPyAfQwAAAABdG5MhJAsgJEOD+SI+lCIhICaTIiMgJZMiHxCSASESIAMgC2ogIiAiEJIBspMiIIsgHyASspMiH4uSOAIAIAxBjA9qIgwqAgAhIiALQZDOAGogA2pDAACAPyAfIB+UIh8gH5QiH0PRhXNHlEMAAIA/kpVDj8J1vJI4AgAgC0HAB2ogA2pDAACAPyAiICAgIJQiICAglJIgHyAfkpJDAACAPpRD0YVzR5RDAACAP5KVQ4/CdbySOAIAIA0gITgCACAOICM4AgAgDCAfOAIAIAdBAWoiB0HwAUcNAAtBAiEHIAsqAphOIR8DQCAHQQJ0IgMgC0HAB2pqIgwgDCoCACIiIB8gAyALakGMzgBqKgIAIiEgC0GQzgBqIAdBAWoiA0ECdGoqAgAiICAhICBeGyIhIB8gIV0bQ83MzL2SIh8gIiAfXhtDZmZmP5Q4AgAgICEfIAMiB0HvAUcNAAsgE0HEO2oiG0EANgIAIAAoAow6Ig9FBEAgAEL5hdSAld/AitAANwLgNiAAQvmF1ICd38CKUDcCqDcgAEL5hdSAnd/AilA3ArA3IABC+YXUgJXfwIrQADcC6DYgAEL5hdSAnd/AilA3Arg3IABC+YXUgJXfwIrQADcC8DYgAEL5hdSAnd/AilA3AsA3IABC+YXUgJXfwIrQADcC+DYgAEL5hdSAnd/AilA3Asg3IABC+YXUgJXfwIrQADcCgDcgAEL5hdSAld/AitAANwKINyAAQvmF1ICd38CKUDcC0DcgAEL5hdSAld/AitAANwKQNyAAQvmF1ICd38CKUDcC4DcgAEL5hdSAnd/AilA3Atg3IABC+YXUgJXfwIrQADcCmDcgAEH5hdSABTYCoDcgAEH5hdSAfTYC6DcgAEH5hdSAfTYC7DcgAEH5hdSABTYCpDcLIAsgJyAnkiIfIB+UIAsqAoQPIh8gH5IiHyAflJIgCyoCiA8iHyAflCALKgL4LCIfIB+UkiALKgKMDyIfIB+UkiALKgL8LCIfIB+UkpIgCyoCkA8iHyAflCALKgLwLCIfIB+UkiALKgKUDyIfIB+UkiALKgL0LCIfIB+UkpIgCyoCmA8iHyAflCALKgLoLCIfIB+UkiALKgKcDyIfIB+UkiALKgLsLCIfIB+UkpJD/+bbLpK7EFO2QzuqOD+UIiU4AqBNQwAAAAAhJkEAIQ5BBCEHQwAAAAAhLEMAAAAAISpDAAAAACErQwAAAAAhOUMAAAAAIS1DAAAAACEuA0BDAAAAACEiQwAAAAAhIUMAAAAAISAgByAOQQFqIhJBAnQiEEHg1AJqKAIAIg1IBEADQCAgIAtBgA9qIAdBA3RqIgMqAgAiHyAflEEAIAdrQQN0IAtqQYAtaiIMKgIAIh8gH5SSIAMqAgQiHyAflJIgDCoCBCIfIB+UkiIfkiEgICEgHyAHQQJ0IgMgC0HAB2pqKgIAQwAAAACXlJIhISAiIB8gH5JDAAAAPyADIAtqKgIAk5SSISIgB0EBaiIHIA1HDQALCyAgQyhrbk5dQQFzRUEAICAgIFsbRQRAIBFBADYCAAwCCyAOQQJ0IgMgACAAKAKIOkHIAGxqaiIHQeAtaiAgOAIAIAtBoM0AaiAQaiAgQ//m2y6SIii7EFO2Ih9DO6o4P5Q4AgAgC0HA1wBqIANqIB84AgAgB0GgMmogHzgCAAJ9IA8EQCAAIANqIgdB4DZqKgIAISMgB0GoN2oqAgAMAQsgACADaiIHQag3aiAfOAIAIAdB4DZqIB84AgAgHyEjIB8LISQgACADaiIHQeA2aiEMIAdBqDdqIRACQCAju0QAAAAAAAAeQKAgJLtjQQFzDQAgJCAfkyAfICOTXkEBc0UEQCAQICRDCtcjvJIiJDgCAAwBCyAMICNDCtcjPJIiIzgCAAsgIEN9HZAmkiEgAkAgJCAfXUEBc0UEQCAQIB84AgAgDCAfQwAAcMGSIiQgIyAkICNeGyIjOAIAIB8hJAwBCyAjIB9eQQFzDQAgDCAfOAIAIBAgH0MAAHBBkiIjICQgIyAkXRsiJDgCACAfISMLICiRISggIiAglSEiIAtBkNgAaiADaiAhICCVIiAgB0GQLWoiDCoCACAHQeAtaioCACIhkUMAAAAAkiAHQaguaioCACInkZIgB0HwLmoqAgAiL5GSIAdBuC9qKgIAIjCRkiAHQYAwaioCACIxkZIgB0HIMGoqAgAiMpGSIAdBkDFqKgIAIjORkiAHQdgxaioCACI0kZIgIUMAAAAAkiAnkiAvkiAwkiAxkiAykiAzkiA0kkMAAABBlLtEFlbnnq8D0jygn7aVQ6RwfT+WIiEgIZQiISAhlCIhlCInICAgJ14bIiA4AgAgJiAgkiEmIB8gI5MgJCAjk0OsxSc3kpUhHyAOQQlPBEAgJiADIAtqQezXAGoqAgCTISYLIC4gKJIhLiAqICKSISogOSAhkiE5IC0gH5IhLSAMICA4AgAgLCAOQW5qskOPwvU8lEMAAIA/kiAmlCIfICwgH14bISwgKyAgIA5BeGqylJIhKyANIQcgEiIOQRJHDQALIAsgJTgC0EwgCyAlQwAAIMCSIiA4AoBMQQEhA0EEIQwgJSEiA0AgA0ECdCIHIAtB0MwAamogIiAHQeDUAmooAgAiDSAMa7IiHyAfkkMAAIA+lCIhkiIiIAtBoM0AaiAHaioCACIfICIgH10bIiI4AgAgC0GAzABqIAdqICAgIZMiICAfQwAAIMCSIh8gICAfXhsiIDgCACANIQwgA0EBaiIDQRNHDQALQRAhA0HAASEMIAsqAsRMIR8gCyoClE0hIANAIAMiB0ECdCIDIAtB0MwAamoiDSAgIAwgA0Hg1AJqKAIAIg5rsiIiICKSQwAAgD6UIiKSIiAgDSoCACIhICAgIV0bIiA4AgAgC0GAzABqIANqIgMgHyAikyIfIAMqAgAiIiAfICJeGyIfOAIAIAdBf2ohAyAOIQwgBw0AC0EAIQcDQEMAAAAAITUgByATakHgO2oCfyAHQQJ0IgMgC0GAzABqaioCACAlk0MAAAAAlyAlIAtB0MwAaiADaioCAEMAACBAkpNDAAAAAJeSQwAAgEKUu0QAAAAAAADgP6CcIkeZRAAAAAAAAOBBYwRAIEeqDAELQYCAgIB4CyIDQf8BIANB/wFIGzoAAEEAIQwgB0EBaiIHQRNHBEAgC0GgzQBqIAdBAnRqKgIAISUMAQsLA0AgACAMQcgAbGoiB0HkMmoqAgAhIiAHQeAyaioCACEhIAdBsDJqKgIAISMgB0GsMmoqAgAhJCAHQagyaioCACEmIAdBpDJqKgIAISUgB0GgMmoqAgAhKCAHQdwyaioCACEnIAdB2DJqKgIAIS8gB0HUMmoqAgAhMCAHQdAyaioCACExIAdBzDJqKgIAITIgB0HIMmoqAgAhMyAHQcQyaioCACE0IAdBwDJqKgIAITsgB0G8MmoqAgAhNyAHQbgyaioCACE+IAdBtDJqKgIAITpDqV9jWCEfQQAhAwNAIB8gHyAoIAAgA0HIAGxqIgdBoDJqKgIAkyIgICCUQwAAAACSICUgB0GkMmoqAgCTIiAgIJSSICYgB0GoMmoqAgCTIiAgIJSSICQgB0GsMmoqAgCTIiAgIJSSICMgB0GwMmoqAgCTIiAgIJSSIDogB0G0MmoqAgCTIiAgIJSSID4gB0G4MmoqAgCTIiAgIJSSIDcgB0G8MmoqAgCTIiAgIJSSIDsgB0HAMmoqAgCTIiAgIJSSIDQgB0HEMmoqAgCTIiAgIJSSIDMgB0HIMmoqAgCTIiAgIJSSIDIgB0HMMmoqAgCTIiAgIJSSIDEgB0HQMmoqAgCTIiAgIJSSIDAgB0HUMmoqAgCTIiAgIJSSIC8gB0HYMmoqAgCTIiAgIJSSICcgB0HcMmoqAgCTIiAgIJSSICEgB0HgMmoqAgCTIiAgIJSSICIgB0HkMmoqAgCTIiAgIJSSIiAgHyAgXRsgAyAMRhshHyADQQFqIgNBCEcNAAsgNSAfkiE1IAxBAWoiDEEIRw0AC0MAAAAAISNDAAAAAEMAAIA/ID2TIBRBAkgbISggNUMAAAA+lCEnIAAoAtwtIRRBACEOQQQhEEEAIQ9DAAAAACEkQwAAAAAhIUMAAAAAISIDQEMAAAAAIR8gDkEBaiISQQJ0QeDUAmooAgAiDSAQIgdKBEADQCAfIAtBgA9qIAdBA3RqIgMqAgAiICAglEEAIAdrQQN0IAtqQYAtaiIMKgIAIiAgIJSSIAMqAgQiICAglJIgDCoCBCIgICCUkpIhHyAHQQFqIgcgDUcNAAsLIAAgDkECdCIDakHwN2oiByAoIAcqAgCUIiAgHyAgIB9eGyIgOAIAIA5BC0khByAhIB+SISYgIiAfkiElIB9DKGtuTpQgJCAfICQgH14bIiReQQFzRQRAIBIgEiAPIB8gICAfICBeGyBDIA0gEGuyIiCUXhsgHyA8ICCUXhshDwsgJiAhIAcbISEgIiAlIAcbISIgC0HQ1QBqIANqIB8gI0MK1yM8Q83MTD0gFCAOShuUXTYCACAjQ83MTD2UIiAgHyAgIB9eGyEjIA0hECASIg5BEkcNAAsgACgCCEGA9wJGBEAgACAoIAAqArg4lCIgIDhDtKKROZQiHyAgIB9eGyIgOAK4OAJAIB8gICAfICBeGyA8QwAAIEFDAADwQSAUQRRGIgcbIiBDAABAQJSUQwAAIEOUXkUEQCAfIDwgIJRDAAAgQ5ReQQFzDQELQRQhDwsgCyAfQwrXIzxDzcxMPSAHGyAjlF02AphWIB8gIpIhIgsgJ0MAAJBBlSEfIBNB3DtqICEgIpVDAACAPyAiICFeGzgCAAJAIA9BFEYEQEESQRQgCygCmFYbIQ8MAQsgD0F/aiIHQRFLDQAgByAPIAtB0NUAaiAHQQJ0aigCABshDwsgH5EhPiAAIAAqAoA6Q6abRLuSIiAgLrsQuQG2QwAAoEGUIh8gICAfXhsiIDgCgDogACA2QwAAgD8gNpMgACoChDqUIiKSICIgHyAgQwAA8MGSXRs4AoQ6IAAoAow6IQ5BACEDIAsqAsRXIR8gCyoCwFchICALKgL8VyEiIAsqAvhXISEgCyoC9FchIyALKgLwVyEkIAsqAuxXISYgCyoC6FchJSALKgLkVyEoIAsqAuBXIScgCyoC3FchLyALKgLYVyEwIAsqAtRXITEgCyoC0FchMiALKgLMVyEzIAsqAshXITQDQCALQaDXAGogA0ECdGogICADQQZ0IgdBsNUCaioCAJRDAAAAAJIgHyAHQQRyQbDVAmoqAgCUkiA0IAdBCHJBsNUCaioCAJSSIDMgB0EMckGw1QJqKgIAlJIgMiAHQRByQbDVAmoqAgCUkiAxIAdBFHJBsNUCaioCAJSSIDAgB0EYckGw1QJqKgIAlJIgLyAHQRxyQbDVAmoqAgCUkiAnIAdBIHJBsNUCaioCAJSSICggB0EkckGw1QJqKgIAlJIgJSAHQShyQbDVAmoqAgCUkiAmIAdBLHJBsNUCaioCAJSSICQgB0EwckGw1QJqKgIAlJIgIyAHQTRyQbDVAmoqAgCUkiAhIAdBOHJBsNUCaioCAJSSICIgB0E8ckGw1QJqKgIAlJI4AgAgA0EBaiIDQQhHDQALQQAhDQNAIA1BBHQhDEMAAAAAIR9BACEHA0AgHyAHIAxqQQJ0QbDVAmoqAgBDAAAAP5QgACAHQQJ0aiIDQag3aioCACADQeA2aioCAJKUkiEfIAdBAWoiB0EQRw0ACyALQfDNAGogDUECdGogHzgCACANQQFqIg1BCEcNAAsgGyAqQwAAkEGVIiRDAACAPyAkk0MAAAA/IC1DAACQQZUgDkEKSBuUkjgCACAAICxDAAAQQZUiHyAAKgLYLUPNzEw/lCIgIB8gIF4bIh84AtgtIBNBvDtqIgMgK0MAAIA8lDgCACAAIA5BAWpBkM4AIA5Bj84ASBsiDDYCjDogACAAKAKIOkEBakEIbzYCiDogE0G4O2oiDSAfOAIAIAsgACoC3DgiJkMBajI/lCAAKgK8OCIlIAAqAvw4IiiSIjdD3+D7PpQgCyoCoFciICAAKgKcOSI6kiIsQy7i+z2Uk5IgACoCvDkiNUPOqrc/lJMiPzgCsFYgCyAAKgLgOCInQwFqMj+UIAAqAsA4Ii8gACoCgDkiMJIiKkPf4Ps+lCALKgKkVyIiIAAqAqA5IiuSIi1DLuL7PZSTkiAAKgLAOSIuQ86qtz+UkyJAOAK0ViALIAAqAuQ4IjFDAWoyP5QgACoCxDgiMiAAKgKEOSIzkiI4Q9/g+z6UIAsqAqhXIiEgACoCpDkiNpIiPUMu4vs9lJOSIAAqAsQ5IkRDzqq3P5STIkE4ArhWIAsgACoC6DgiRUMBajI/lCAAKgLIOCI0IAAqAog5IjuSQ9/g+z6UIAsqAqxXIiMgACoCqDkiRpJDLuL7PZSTkiAAKgLIOSIfQ86qtz+UkyJCOAK8ViAAICkgI5QgH0MAAIA/ICmTIh+UkjgCyDkgACApICGUIB8gRJSSOALEOSAAICkgIpQgHyAulJI4AsA5IAAgKSAglCAfIDWUkjgCvDkgCyA9Q03WCD+UIDhDTdaIPpSTIDFDTdYIP5STOALYViALIC1DTdYIP5QgKkNN1og+lJMgJ0NN1gg/lJM4AtRWIAsgLENN1gg/lCA3Q03WiD6UkyAmQ03WCD+UkyIsOALQViALICMgRpND5ughP5QgNCA7k0Pm6KE+lJIiNTgCzFYgCyAhIDaTQ+boIT+UIDIgM5ND5uihPpSSIio4AshWIAsgIiArk0Pm6CE/lCAvIDCTQ+booT6UkiIrOALEViALICAgOpND5ughP5QgJSAok0Pm6KE+lJIiLTgCwFZBFCAPIA5BA0gbIQcgOUMAAJBBlSE6IAAqAtw5ITcCQCAMQQVMBEAgACoC/DkhHyAAKgL0OSEqIAAqAvA5ISsgACoC7DkhOSAAKgLoOSEuIAAqAuQ5ITggACoC4DkhNgwBCyAAID8gKSA/lJQgHyA3lJIiNzgC3DkgACBAICkgQJSUIB8gACoC4DmUkiI2OALgOSAAIEEgKSBBlJQgHyAAKgLkOZSSIjg4AuQ5IAAgQiApIEKUlCAfIAAqAug5lJIiLjgC6DkgACAtICkgLZSUIB8gACoC7DmUkiI5OALsOSAAICsgKSArlJQgHyAAKgLwOZSSIis4AvA5IAAgKiApICqUlCAfIAAqAvQ5lJIiKjgC9DkgACA1ICkgNZSUIB8gACoC+DmUkjgC+DkgACAsICkgLJSUIB8gACoC/DmUkiIfOAL8OQsgCyAgIAsqAvBNkzgCsFYgCyAiIAsqAvRNkzgCtFYgCyAhIAsqAvhNkzgCuFYgCyAjIAsqAvxNkzgCvFYgACAlOALcOCAAIDA4AqA5IAAgIDgCvDggACAnOAKAOSAAIC84AuA4IAAgMzgCpDkgACAiOALAOCAAIDE4AoQ5IAAgMjgC5DggACA7OAKoOSAAICE4AsQ4IAAgRTgCiDkgACA0OALoOCAAICM4Asg4IAAgKDgCnDkgACAmOAL8OCAAKAKMOSEMIAAgACgC7Dg2Aow5IAAgDDYCrDkgACAAKALMODYC7DggACALKAKwVzYCzDggACAAKAKQOTYCsDkgACAAKALwODYCkDkgACAAKALQODYC8DggACALKAK0VzYC0DggACAAKAKUOTYCtDkgACAAKAL0ODYClDkgACAAKALUODYC9DggACALKAK4VzYC1DggACAAKAKYOTYCuDkgACAAKAL4ODYCmDkgACAAKALYODYC+DggACALKAK8VzYC2DggCyAfkUMTm/W/kjgC/FYgCyAqkUN0YKG/kjgC9FYgCyArkUO4cwrAkjgC8FYgCyA5kUNbfHHAkjgC7FYgCyAukUO5xcy/kjgC6FYgCyA4kUMjpOK/kjgC5FYgCyA2kUMea17AkjgC4FYgCyA3kUMW67XAkjgC3FYgCyA+QxSuR7+SOAL4ViALIA0qAgBDtW8evpI4AoBXIBsqAgAhHyALIDpDPWQ+v5I4AohXIAsgH0M0gjm/kjgChFcgCyADKgIAQx7BjT2SOAKMVyALIAAqAoQ6Q+Iei72SOAKQV0HQpQIgC0GAywBqIAtBsNYAahDuASAZIAtBgMsAahDvAUHQxgIgC0Go1gBqIBkQ7gEgE0HYO2ogCygCrFY2AgAgCygCqFYhAyATQdQ7aiAHNgIAIBNByDtqIAM2AgAgACAHNgLcLSATQcA7aiAkOAIAIBFBATYCAAsgFSAYaiEVIBcgGGsiF0EASg0ACwsgACAcIARrNgKQOgsgACAKIAQQ8AEgC0Hg2ABqJAALugUCA38IfSMAIgkhCiAERQRAIAokAEMAAAAADwsCQCAIQYD3AkYEQCAFQQF0IQUgBEEBdCEEDAELIAhBgP0ARw0AIAVBAXRBA20hBSAEQQF0QQNtIQQLIAkgBEECdEEPakFwcWsiCSILJAAgASAJIAQgBUEAIAYgByAAEQYAIAZBfkYEfUMAAAA4IAeylQVDAACAN0MAAAA4IAZBf0obCyEMIARBAU4EQEEAIQYDQCAJIAZBAnRqIgUgDCAFKgIAlDgCACAGQQFqIgYgBEcNAAsLAkAgCEGA9wJGBEAgBEECbSEIIARBAkgNAUEAIQYDQCADIAkgBkEDdCIFaioCACIMIAwgAyoCACINk0P/gBs/lCIOkjgCACADIAkgBUEEcmoqAgAiDCAMIAMqAgQiD5NDwD4aPpQiEJI4AgQgAyAMjCADKgIIIhKTQ8A+Gj6UIhMgDJM4AgggAiAGQQJ0aiAPIA0gDpIiDJIgEJJDAAAAP5Q4AgAgESAMIBKSIBOSIgwgDJSSIREgBkEBaiIGIAhHDQALDAELIAhBgP0ARwRAIAhBwLsBRw0BIAIgCSAEQQJ0EAUaDAELIAsgBEEDbCIAQQJ0QQ9qQXBxayIHJAAgBEEBTgRAQQAhBgNAIAcgBkEMbGoiBSAJIAZBAnRqKAIAIgg2AgggBSAINgIEIAUgCDYCACAGQQFqIgYgBEcNAAsLIABBAm0hBSAAQQJOBEBBACEGA0AgAyAHIAZBA3QiCWoqAgAiDCAMIAMqAgAiDZND/4AbP5QiDpI4AgAgAyAHIAlBBHJqKgIAIgwgDCADKgIEIg+TQ8A+Gj6UIhCSOAIEIAMgDIwgAyoCCJNDwD4aPpQgDJM4AgggAiAGQQJ0aiAPIA0gDpKSIBCSQwAAAD+UOAIAIAZBAWoiBiAFRw0ACwsLIAokACARC7wBAQR/IwBBEGsiBCQAQXwhAwJAIAJBAUgNAAJAIAAoAgRFBEAgACABLQAAOgAAIAAgAUHAPhCQATYCqAIMAQsgAS0AACAALQAAc0EDSw0BCyABIAIQmQEiBUEBSA0AIAAoAqgCIAAoAgQiBiAFamxBwAdKDQAgASACIARBD2ogACAGQQJ0akEIaiAAIAZBAXRqQcgBakEAEJEBIgNBAUgNACAAIAAoAgQgBWo2AgRBACEDCyAEQRBqJAAgAwvABgEHf0F/IQUCQCABQQBMDQAgACgCBCABSA0AIABByAFqIQoCQAJAAkAgASIIQX9qIgVBAU0EQCAFQQFrBEBBfiEFIAouAQBBAWoiBiADSg0FIAIgAC0AAEH8AXE6AAAgAkEBaiEFDAILIAovAQAiBUEQdEEQdSEHIAUgCi8BAiILRgRAQX4hBSAHQQF0QQFyIgYgA0oNBSACIAAtAABB/AFxQQFyOgAAIAJBAWohBQwCC0F+IQUgC0EQdEEQdSAHaiAHQfsBSmpBAmoiBiADSg0EIAIgAC0AAEH8AXFBAnI6AAAgCi4BACACQQFqIgUQjwEgBWohBQwBCyACIQUgCEECSg0BCyAERQ0BIAYgA04NAQtBASEFIAouAQAhBwJ/AkAgCEEBTA0AIAdB//8DcSEGA0AgBiAKIAVBAXRqLwEARgRAIAggBUEBaiIFRw0BDAILC0EBIQUgB0ECakECQQEgB0H7AUobaiEGIAhBf2ohCSABQX9qIgtBAk4EQANAIAYgCiAFQQF0ai4BACIHakECQQEgB0H7AUobaiEGIAVBAWoiBSALRw0ACwtBfiEFIAYgCiAJQQF0ai4BAGoiBiADSg0DIAAtAAAhBSACIAhBgH9yIgk6AAEgAiAFQQNyOgAAQQAMAQtBfiEFIAcgCGxBAmoiBiADSg0CIAAtAAAhBSACIAg6AAEgAiAFQQNyOgAAIAghCUEBCyELIAJBAmohBQJAIARFDQAgAyAGayIHRQ0AIAIgCUHAAHI6AAEgB0F/akH/AW0hBiAHQYACTgRAIAVB/wEgBkEBIAZBAUobIgkQBBogAiAJakECaiEFCyAFIAZBgX5sIAdqQX9qOgAAIAVBAWohBSADIQYLIAsgCEECSHINACABQX9qIgFBASABQQFKGyEHQQAhAQNAIAogAUEBdGouAQAgBRCPASAFaiEFIAFBAWoiASAHRw0ACwsgCEEBTgRAIABBCGohAEEAIQkDQCAFIAAgCUECdGooAgAgCiAJQQF0aiIBLgEAEAggAS4BAGohBSAJQQFqIgkgCEcNAAsLAkAgBEUNACAFIAIgA2pPDQAgBUEAIAIgAyAFa2oQBBoLIAYhBQsgBQt2AQJ/IwBBsAJrIgMkAEF/IQQCQCABQQFIDQBBACEEIAEgAkYNAEF/IQQgASACSg0AIANBADYCBCADIAAgAmogAWsgACABEAggARDzASIEDQAgAyADKAIEIAAgAkEBEPQBIgFBH3UgAXEhBAsgA0GwAmokACAEC5MFAQN/IwBBIGsiBCQAQX8hBgJAAkAgAUH//ABMBEAgAUHAPkYNASABQeDdAEYNAQwCCyABQYD9AEYNACABQYD3AkYNACABQcC7AUcNAQsgAkF/akEBSw0AIANBgHBqIgVBA0sNACAFQQJGDQAgAEEAIARBHGoQ4QEEf0EABSAEIAQoAhxBA2pBfHE2AhwgAhDkASAEKAIcakHcjQFqCxAEIQAgBEEcahDhAQ0AIAQgBCgCHEEDakF8cSIGNgIcIAAgAjYC8G4gACACNgJwIABB3I0BNgIEIABBADYCtAEgACABNgKQASAAIAZB3I0BaiIFNgIAQX0hBiAAQdyNAWpBACAAQQhqEOIBDQAgACACNgIIIAAgAjYCDCAAQQA2AkwgAEIANwI4IABCCTcCLCAAQqjDATcCJCAAQoD9gIDAAjcCHCAAQoD9gICA6Ac3AhQgACAAKAKQATYCECAAIAVqIgUgASACIAAoArQBEOUBDQBBACEGIARBADYCECAFQaDOACAEQRBqEOYBIAQgACgCLDYCACAFQaofIAQQ5gEgAEKBgICAEDcClAEgACABIAJsQbgXajYCoAEgAEKY+P//n4oBNwKAASAAIAM2AmwgAEKYeDcCiAEgAEKY+P//j4N/NwJ4IABCmPj//48DNwKkASAAQYgnNgKcASAAQYCAgPwDNgL8biAAQYCAATsB9G4gACAAKAKQASIBQeQAbTYCrAEgACABQfoBbTYCdEE8EDshASAAQQE2AqxvIABB0Qg2AqBvIABB6Qc2ApBvIAAgAUEIdDYC+G4gAEG8AWoiASAAKAKQATYCCCABQQA2AgAgAUEMakEAQajtABAEGiAAIAAoAmw2AsABCyAEQSBqJAAgBgv8AQECfyMAQRBrIgUkAAJAAkACQAJAIABB//wATARAIABBwD5GDQEgAEHg3QBGDQEMAgsgAEGA/QBGDQAgAEGA9wJGDQAgAEHAuwFHDQELIAFBf2pBAUsNACACQYBwaiIEQQNLDQAgBEECRw0BC0EAIQQgA0UNASADQX82AgAMAQtBACEEIAVBDGoQ4QEEfyAEBSAFIAUoAgxBA2pBfHE2AgwgARDkASAFKAIMakHcjQFqCxAGIgRFBEBBACEEIANFDQEgA0F5NgIADAELIAQgACABIAIQ9gEhACADBEAgAyAANgIACyAARQ0AIAQQB0EAIQQLIAVBEGokACAEC4QCAQJ/AkACQCACQQFOBEADQCABIAdBAnRqIAAgAyAHaiAGbCAEakECdGoqAgBDAAAAR5Q4AgAgB0EBaiIHIAJHDQALIAVBf0wNAUEAIQcDQCABIAdBAnRqIgQgBCoCACAAIAMgB2ogBmwgBWpBAnRqKgIAQwAAAEeUkjgCACAHQQFqIgcgAkcNAAsMAgsgBUF/Sg0BCyAFQX5HDQAgBkECSA0AQQEhBSACQQFIIQgDQEEAIQcgCEUEQANAIAEgB0ECdGoiBCAEKgIAIAAgAyAHaiAGbCAFakECdGoqAgBDAAAAR5SSOAIAIAdBAWoiByACRw0ACwsgBUEBaiIFIAZHDQALCwv1AQECfwJAAkAgAkEBTgRAA0AgASAHQQJ0aiAAIAMgB2ogBmwgBGpBAXRqLgEAsjgCACAHQQFqIgcgAkcNAAsgBUF/TA0BQQAhBwNAIAEgB0ECdGoiBCAEKgIAIAAgAyAHaiAGbCAFakEBdGouAQCykjgCACAHQQFqIgcgAkcNAAsMAgsgBUF/Sg0BCyAFQX5HDQAgBkECSA0AQQEhBSACQQFIIQgDQEEAIQcgCEUEQANAIAEgB0ECdGoiBCAEKgIAIAAgAyAHaiAGbCAFakEBdGouAQCykjgCACAHQQFqIgcgAkcNAAsLIAVBAWoiBSAGRw0ACwsLwwQCAn8MfUMAAMjBIAIgAW0iBEEyIARBMkobspVDAACAP5IhDgJAAkACQCABQQRIBEAMAQsgAUF9aiEFQQAhAgNAIAwgACACQQN0IgFqKgIAIgYgACABQQRyaioCACIHlCAAIAFBCHJqKgIAIgogACABQQxyaioCACILlJIgACABQRByaioCACINIAAgAUEUcmoqAgAiD5SSIAAgAUEYcmoqAgAiECAAIAFBHHJqKgIAIhGUkpIhDCAIIAcgB5QgCyALlJIgDyAPlJIgESARlJKSIQggCSAGIAaUIAogCpSSIA0gDZSSIBAgEJSSkiEJIAJBBGoiAiAFSA0ACyAJQyhrbk5dQQFzDQELIAhDKGtuTl1BAXMNACAIIAhbIAkgCVtxDQELQwAAAAAhCEMAAAAAIQxDAAAAACEJCyADIAMqAggiBiAOIAggBpOUkkMAAAAAlyIGOAIIIAMgAyoCBCIHIA4gDCAHk5SSQwAAAACXIgo4AgQgAyADKgIAIgcgDiAJIAeTlJJDAAAAAJciBzgCAAJAIAcgBiAHIAZeG0MXt1E6XkUEQCADKgIQIQYMAQsgAyAKIAeRIgcgBpEiC5QiBiAKIAZdGyIKOAIEIAMgAyoCDCINIAeRIgcgC5EiC5OLIAdDfR2QJpIgC5KVQwAAgD8gCiAGQ30dkCaSlSIGIAaUk5GUIA2TIASyIgeVkiIGOAIMIAMgAyoCEEMK16O8IAeVkiIHIAYgByAGXhsiBjgCEAsgBkMAAKBBlEMAAIA/lgtTAgF/A30DQCAFIAAgAkECdGoqAgAiAyAFIANdGyEFIAQgAyAEIANeGyEEIAJBAWoiAkHQBUcNAAsgBCAFjCIDIAQgA14bQwAAgD9BASABdLKVXwuCVgMefwl9AXwjAEHwBGsiDiQAIA4iDUEANgLoBCAAQQA2AtiNAUF/IQwCQCACQQFIDQAgBEH8CSAEQfwJSBsiE0EBSA0AIBNBAUYEQEF+IQwgACgCkAEgAkEKbEYNAQsgACAAKAIAaiEPIAAoAgQhEiAAKAJsQYMQRwRAIAAoAnQhHgsgACgCqAEhDCANIA1B5ARqNgKgAyAPQZ/OACANQaADahDmASANQQA2AqAEIAUgDCAMIAVKGyEXAn8CQAJAAkACQAJAIAAoAixBB0gNACAAKAKQASIYQYD9AEgNAEEBISIgACgCcCACbCIFQQFOBEBBACEMA0AgLCABIAxBAnRqKgIAIiogLCAqXRshLCArICogKyAqXhshKyAMQQFqIgwgBUcNAAsLIABB2DtqKAIAIR8gAEHUO2ooAgAhGSAAQbwBaiANKALkBCAGIAcgAiAIIAkgGCAXIAogDUGgBGoQ8QFBACArICyMIiogKyAqXhtDAACAP0EBIBd0spVfDQUaIA0qAsQEQ83MzD1eQQFzDQQgACoC0I0BQ3e+fz+UISwgACgCcCACbCIFQQFIDQFBACEMQwAAAAAhKgNAICogASAMQQJ0aioCACIrICuUkiEqIAxBAWoiDCAFRw0ACyAsICogBbIiLZVeDQNBACEMQwAAAAAhKgNAICogASAMQQJ0aioCACIrICuUkiEqIAxBAWoiDCAFRw0ACwwCC0F/IR8gAEHgO2ooAgAEQCAAQcgBakEAQajtABAEGgtBfyEZDAMLQwAAAAAhKiAsQwAAAAAgBbIiLZVeDQELICogLZUhLAsgACAsOALQjQELIABBfzYCjAFBACEiQQELISggAEEANgLIjQEgDSgCoAQEQCAAKAJ8QZh4RgRAIAACf0MAAIA/An8CQCAAKAKUbyIMQeoHRwRAIAwNASANQbQEagwCCyANQbwEagwBCyANQbgEagsqAgCTQwAAyEKUu0QAAAAAAADgP6CcIjOZRAAAAAAAAOBBYwRAIDOqDAELQYCAgIB4CzYCjAELIAACf0HNCCANKALABCIFQQ1IDQAaQc4IIAVBD0gNABpBzwggBUERSA0AGkHQCEHRCCAFQRNIGws2AsiNAQtDAAAAACEqAkAgACgCcEECRw0AIAAoAnhBAUYNACABIAIgACgCkAEgAEG07wBqEPoBISoLIAIhBSACRQRAIAAoApABQZADbSEFCwJAAkAgACgCpAEiDEGYeEcEQCAMQX9GDQEgACgCkAEhBgwCCyAAKAKQASIGIAAoAnBsIAZBPGwgBW1qIQwMAQsgEyAAKAKQASIGbEEDdCAFbSEMCyAAIAw2AqABIAYgAm0hBQJ/AkACQAJ/IAAoApQBIhBFBEAgACAGQQxsIAJtIgcgB0ECbSAMQQxsQQhtaiAHbSIMIBMgDCATSBsiE2xBA3RBDG0iDDYCoAFBASATQQJIDQEaCwJAIBNBA0gNACAMIAVBGGxIDQAgBSATbCEYIAVBMUoNAiAYQawCSA0AIAxB4BJODQMLIBMLIQcgACgCoG8iDEHNCCAMGyEMQQAhBgJ/QTIgBSAFQRlGQeoHIAAoApBvIgJB6AcgAhsgBUHkAEobIg5B6AdHcSIBGyITQRBKBEAgEwwBCwJAIARBAUcEQCAOQegHRw0BIBNBCkYNAQsgE0ENSCEBQegHIQ5BGUEQIBNBDEYbDAELQTIgE20hBkEDIQFBMgshAgJ/IAxB0AhOBEBBzwggDkHoB0YNARoLIAxBzghGBEBBzQggDkHqB0YNARoLQdAIIAwgDkHpB0YbIAwgDEHRCEgbCyEEIAAoAvBuIRNBACEMIAJBjwNMBEADQCAMQQFqIQwgAkEBdCICQZADSA0ACyAMQQN0IQwLIAMCfwJAIA5BmHhqIgJBAksNAAJAAkAgAkEBaw4CAgEACyAMQXBqIARBBXRB4ABqQeABcXIMAgsgBEHOCCAEQc4IShtBBXRBQGtB4ABxIAxyQYABcgwBCyAMQfABaiAEQQR0ckHgAHILIBNBAkZBAnQgAXJyOgAAIAFBAkkhDCABQQNGBEAgAyAGOgABC0EBQQIgDBshDCAAKAKUAQ0DQX0gByAMIAcgDEobIgAgAyAMIAAQ9QEbIQwMAwsgGEEDdCEjIAAoAighCSAAKAIsIRogACgCcCEIIAwgBUEyRg0BGkEBISQgDCAIQShsQRRqIAVBTmpsawwBCyAYQQN0ISMgACgCKCEJIAAoAiwhGiAAKAJwIQggDAshByAQBH8gBwUgByAHQQxtawsgGkHaAGoiEWxB5ABtIhUgCWwgCUEMbEEUaiIbbSEUAn8gACgCfEHHaGoiB0EBTQRAQf8AIAdBAWsNARpBAAwBCyAAKAKMASIHQQBOBEAgB0HHAmxBCHUiCiAAKAJsQYEQRw0BGiAKQfMAIApB8wBIGwwBC0HzAEEwIAAoAmxBgBBGGwshCgJAAkAgACgCeCIHQZh4RwRAIAhBAkcNASAAIAc2AvBuIAchCAwCCyAIQQJHDQBBAkEBIBUgFGsgCiAKbEHQD2xBDnZBgP0AQdCMASAAKALwbkECRhtqShshCAsgACAINgLwbgsgDCEHICQEQCAMIAhBKGxBFGogBUFOamxrIQcLIBBFBEAgByAHQQxtayEHCyAAIA0oAqAEICJyRSAAKAK4AUEAR3EiFTYCOCAHIBFsQeQAbSIHIAlsIBttIRwCQCAAKAJsIh1BgxBGBEBB6gchByAAQeoHNgKQbyAAQZDvAGohFSAGQeQAbSACSiEdDAELAkAgACgCiAEiFEGYeEYEQCAAQegHQeoHIAcgHGsCfyAqQwBAHEaUQwAAgD8gKpMiK0MAQBxGlJIiLItDAAAAT10EQCAsqAwBC0GAgICAeAsiFAJ/ICpDAOArR5QgK0MAAHpHlJIiKotDAAAAT10EQCAqqAwBC0GAgICAeAsgFGsgCiAKbGxBDnVqIgdBwD5qIAcgHUGAEEYbIgdB4GBqIAdBoB9qIAcgACgClG8iFEEAShsgFEHqB0YbSBsiFDYCkG8CQCAAKAIwRQ0AIAlBgAEgCmtBBHVMDQBB6AchFCAAQegHNgKQbwsgCkHkAEogFXFFQQAgE0GoxgBB8C4gJBsgAmwgBkEDdG0iB04bDQFB6gdB6AcgEyAHSBshFAsgACAUNgKQbwsgAEGQ7wBqIRUgBkHkAG0iBiACSiEdIAYgAkwEQCAUIQcMAQtB6gchByAUQeoHRgRAIBQhBwwBCyAVQeoHNgIAQQEhHQsgACgCsAEEQCAVQeoHNgIAQeoHIQcLQQAhHAJ/AkAgACgClG8iBkEBSA0AIAZB6gdGIiAgB0HqB0ciFnNBAXMhFAJAICANACAWDQBB6gchByAdDQEgFSAGNgIAIAYhB0EBIRRBAQwCCyAUIRxBAAwBC0EAIRRBAAshHQJAAkAgCEEBRw0AIAAoAphvQQJHDQAgACgCRA0AIAZB6gdGDQAgB0HqB0YNAEECIQggAEECNgLwbiAAQQE2AkQMAQsgAEEANgJECyAkBEAgDCAIQShsQRRqIAVBTmpsayEMCyAAIBJqISAgEAR/IAwFIAwgDEEMbWsLIBFsQeQAbSEQAkAgAAJ/AkACQAJAAkACQAJ/IAdBAXJB6QdGBEBB6gchCCAaQQFMBEAgEEECdEEFbSEQCyAQIAkgEGwgCUEGbEEKam1rIhAgB0HqB0cNARpBACEbQQEhBgwCC0HqByEIIAdB6gdGBEBBACEbQQEhBiAaQQRKDQIgEEEJbEEKbSEQDAILIBAgCSAQbCAbbWsLIRBBACEbIAZB6gdGBEAgICAAKAK0ASANQbgDahDiARpBASEbIAAoApBvIQcLQQEhBiAHQeoHRg0AQQAhBiAAKAKsb0UEQCAAKAJURQ0CCyAHIQgLIAogCmwiDEHQD2xBDnVB4N0AaiEKIAxBxBNsQQ51QfjVAGohDAJAAkAgACgCrG8iCUUEQEHRCCEHIBAgCkHQD0GwcCAAKAKkbyISQdEISBtqTg0GIBJB0AhIDQEgDEGYeGohDAwCC0HRCCEHIBAgCkgNAQwFCyAMQegHaiEMC0HQCCEHIBAgDE4NAyAJDQFBzwghByAQQeTLAEHswAAgACgCpG8iDEHPCEgbTg0DQeTLAEHswAAgDEHOCEgbIQoMAgsgACgCoG8hDAwEC0GoxgAhCkHPCCEHIBBBqMYATg0BC0HNCCEHQc8IIBAgCk4NARoLIAcLIgw2AqBvIAAgDDYCpG8CQCAGIAlyDQAgDEHQCEkNACAAKAJYDQBBzwghDCAAQc8INgKgbwsgCCEHCyAMIAAoAoQBIghKBEAgACAINgKgbyAIIQwLIAAoAoABIghBmHhHBEAgACAINgKgbyAIIQwLAkAgGEHSDkoNACAHQeoHRg0AIAAgDEHPCCAMQc8ISBsiDDYCoG8LAkAgACgCkAEiB0HAuwFKBEAgDCERDAELQdAIIRECQAJAAkACQCAMQdAITARAIAdBgf0ATgRAIAwhEQwGCyAMQc8ISg0BIAdB4d0ASA0CIAwhEQwFCyAAQdAINgKgbyAHQYH9AE4NBAtBzwghESAAQc8INgKgbyAHQeHdAE4NAwwBCyAMQc4ISg0AIAdBwD5KBEAgDCERDAMLIAwhESAMQc4IRw0CDAELQc4IIREgAEHOCDYCoG8gB0HAPkoNAQtBzQghESAAQc0INgKgbwsCQCAAKALIjQEiDEUNACAIQZh4Rw0AIAAgDAJ/AkAgECAAKALwbiIIQdCMAWxMBEBBACEJIAZFDQFBASEGQc0IDAILIBAgCEHAuwFsSgRAIAYhCQwBCyAGIQlBzgggBkEBc0UNARoLIAkhBiAQIAhBsOoBbEoEf0HRCEHQCCAQIAhB4NcCbEobBUHPCAsLIgcgDCAHShsiDDYCyI0BIAAgESAMIBEgDEgbIhE2AqBvC0EAIQwCQCAGDQAgACgCMEUNACAAKAIoIgZFDQBB/QAgBkEZIAZBGUgbayEIIAAoAjQiCUEBRiEKIAZBBkghEiARIQwCQANAQQAgDEEDdCIGQcyUAmooAgAiB2tBACAKGyAGQciUAmooAgBqQQAgByAJG2ogCGwiBkH//wNxQY8FbEEQdiAGQRB1QY8FbGohBiASDQEgBiAQSA0BIAxBzQhKBEAgACAMQX9qIgw2AqBvDAELCyAAIBE2AqBvQQAhDAwBCyAGIBBIIQwLIAAgDDYCNCANIBc2ApADIA9BxB8gDUGQA2oQ5gECQCAAKAKQbyIMQeoHRw0AIAAoAqBvQc4IRw0AIABBzwg2AqBvCwJAAkACQAJAAkACQCAAKAKwAQRAQc0IIQogAEHNCDYCoG8MAQsgACgCoG8hCiAMQegHRw0AIApBzwhKDQELAkAgCkHPCEoNACAMQekHRw0AQegHIQwgFUHoBzYCAAsgACgCkAEiB0EybSIGIAJIDQEgDCEIDAILQekHIQggAEHpBzYCkG8gACgCkAEiB0EybSIGIAJIDQIgB0EDbEEybSACSA0CDAMLQegHIQggDEHoB0cNAQsgB0EDbCIMQTJtIgkgAk4NASAIQegHRw0AIAIgB0EBdEEZbUYEQCAHQRltIQYMAQsgCSAGIAxBGW0gAkYbIQYLIAIgBm0hDCAZQX9HBEAgAEHYO2ogHzYCACAAQdQ7aiAZNgIACyAAIAEgDCAGIAMgBCAdIBcgCxD9ASEMDAELIAAoAqhvBEAgAEEANgKob0ECIRtBASEcQQEhFAsgACgCoAEhDEEAIRcCf0EAIBRFDQAaQQAgCEHqB0YNABogFEEAIAAoAvBuIgZBKGxBFGoiBEHIASAFa2wgDGpBA2xBgBltIgggE0EDdCAEQQF0a0HwAWxBgPcCIAVtQfABam0gBGpBCG0iBCAIIARIGyIEQYECIARBgQJIG0EAIAQgBkEDdEEEckobIhcbCyEaIA1BuANqIANBAWoiISATQX9qIhkQLCAOIAIgHmoiHyAAKAJwbEECdEEPakFwcWsiBCISJAAgBCAAQcjvAGoiJiAAKAJwIg4gACgCrAEgHmtsQQJ0aiAOIB5sQQJ0EAUhCCACIAxsIAdBA3RtIRYgAAJ/IAAoApBvQeoHRgRAQTwQO0EIdAwBCyAgKAIICyAAKAL4biIEayIMQRB1QdcHbCAEaiAMQf//A3FB1wdsQRB2aiIMNgL4biAAQYDvAGohESAMQQh1EDwhDiAIIAAoAnAiBiAebEECdGohDCAAKAKQASEEAkAgACgCbEGAEEYEQCAOQRB0QRB1QacTbCAEQegHbW0hBCACQQFIDQEgBEEQdEEQdSIOIARBEHVsIA4gBEH//wNxbEEQdWogBEEPdUEBakEBdSAEbGpBgICAfGoiCUEQdEEQdSIlIARBqXxsQYCAgIABaiIOQQZ1IgdB//8DcSIUbEEQdSAlIA5BFnUiJ2xqIAlBD3VBAWpBAXUgB2xqskMAAIAxlCEvIA5BFXVBAWpBAXUgB2wgB0EQdEEQdSIHICdsaiAHIBRsQRB1arJDAACAMZQhMCAEQa4HbEGAgICAfmqyQwAAgDGUITEgDrJDAACAMZQhMiAAQYTvAGoqAgAhKyAAKgKAbyEsQQAhBANAIAAgMiABIAQgBmxBAnQiDmoqAgAiLZQiKiAwICwgKpIiKpSTQ2BCog2SIi44AoRvIAAgMSAtlCArIC8gKpSTkiIsOAKAbyAMIA5qICo4AgAgLiErIARBAWoiBCACRw0ACyAGQQJHDQEgDEEEaiEHIAFBBGohCSAAQYzvAGoqAgAhKyAAQYjvAGoqAgAhLEEAIQQDQCAAIDIgCSAEQQN0Ig5qKgIAIi2UIiogMCAsICqSIiqUk0NgQqINkiIuOAKMbyAAIDEgLZQgKyAvICqUk5IiLDgCiG8gByAOaiAqOAIAIC4hKyAEQQFqIgQgAkcNAAsMAQtDAACAP0M0M5dBIASylSIskyEtIBEqAgAhKiAGQQJHBEBBACEEIAJBAEoEQANAIAwgBEECdCIOaiABIA5qKgIAIisgKpM4AgAgLSAqlCAsICuUQ2BCog2SkiEqIARBAWoiBCACRw0ACwsgESAqOAIADAELIABBiO8AaioCACErIAJBAU4EQEEAIQQDQCABIARBA3QiDkEEciIHaioCACEuIAwgDmogASAOaioCACIvICqTOAIAIAcgDGogLiArkzgCACAtICqUICwgL5RDYEKiDZKSISogLSArlCAsIC6UQ2BCog2SkiErIARBAWoiBCACRw0ACwsgACArOAKIbyAAICo4AoBvCwJAIAtFDQBDAAAAACEqIAIgBmwiDkEBTgRAQQAhBANAICogDCAEQQJ0aioCACIrICuUkiEqIARBAWoiBCAORw0ACwsgKkMoa25OXUEBc0VBACAqICpbGw0AIAxBACAOQQJ0EAQaIBFCADcCCCARQgA3AgALQwAAgD8hLAJ/IBUoAgBB6gdHBEBBASEEIBIhFCASIAIgBmxBAXRBD2pBcHFrIgkkACANKgLEBCEtIA0oAqAEIScgEyAXayIMIBYgDCAWSBtBA3RBeGogBWwhFgJAAkACQAJAAn8CQCAVKAIAIhFB6QdGBEAgACgCNEEBdEECQQEgACgCkAEgAkEybEYbaiEHIAAoApQBIQYgFiAAKALwbiIObSIMQeDdAEgNAUECIQQgDEGA/QBIDQFBAyEEIAxBoJwBSA0BQQQhBCAMQcC7AUgNAUEFIQQgDEGA+gFIDQFBBiEEIAxBgPQDSA0BIAdBAnRB2NoCaigCACAMQYCMfGpBAm1qDAILIAAgFjYCJCAAKAKwbyIHDQIgFiEGDAULIARBFGwiBEHg2QJqIgsoAgAiEiAMayAEQczZAmoiBCAHQQJ0IgdqKAIAbCAHIAtqKAIAIAwgBCgCACIEa2xqIBIgBGttCyEEIAAgBCAEQeQAaiAGGyIEQawCaiAEIApB0AhGGyAObCIEQZh4aiAEIAxB390AShsgBCAOQQJGGyIGNgIkIAAoArBvIgdFDQEgBiEWCyAAKAKUAQ0BIBYhBgwCC0MAAIA/IAYgFmuyQwAAgDqUu0TvOfr+Qi7mP6IQXraTISwMAQsgACgCsAEEQCAWIQYMAQsCfyAAKAKgbyIpQbN3aiIMQQFNBEBDAAD6RSEuQQ0gDEEBaw0BGkMAgDtGIS5BDwwBC0MAAHpGIS5BEQshC0MAAAAAISsgACgCcCIlQQFOBEBBACESA0AgEkEVbCEGQQAhDANAICsgByAGIAxqQQJ0aioCACIqQwAAAD9DAAAAwCAqQwAAAD8gKkMAAAA/XSIEG0MAAADAXiIOGyIqIAQbICogDhsiKkMAAAA/lCAqICpDAAAAAF4bkiErIAxBAWoiDCALRw0ACyASQQFqIhIgJUcNAAsLQQAgFkEBdGtBA20hDAJ/IC4gKyALspUgJbKUQ83MTD6SlCIqi0MAAABPXQRAICqoDAELQYCAgIB4CyIEIAwgDCAESBshDCAAIClBfnFB0AhGBH8gDEEDbEEFbQUgDAsgFmoiBjYCJAsgACAAKAJwIg42AgggACAAKALwbiILNgIMIAAgAkHoB2wgACgCkAEiBG02AiACQCAKQc0IRgRAQcA+IQwgAEHAPjYCHAwBCyAAQeDdAEGA/QAgCkHOCEYbIgw2AhwLIABBgP0ANgIUIABBgP0AQcA+IBFB6QdGGzYCGAJAIBFB6AdHDQAgJARAIBhBBHRBA20hIwsgI0G/PkoNACAAQeDdADYCFCAAIAxB4N0AIAxB4N0ASRs2AhwgI0HXNkoNACAAQcA+NgIcIABBwD42AhQLIC1DzczMPWAhByAAQUBrIBlBA3QiDDYCACAAIAAoApQBIhJFNgI8AkACQAJAAkACQCAXQQJIDQAgGkUNACAAIAwgF0EDdEEBcmsiDDYCQCARQekHRw0EIAAgDEFsaiIMNgJAIBJFDQEMAwsgEg0BIBFB6QdHDQMLIAAgDCACIAZsIARtIgYgDCAGSBs2AkAMAgsgEUHpB0cNAQtBASEGIAAoAjRBAXRBAkEBIAQgAkEybEYbaiESIAACfwJAIAQgDGwgAm0gC20iDEHg3QBIDQBBAiEGIAxBgP0ASA0AQQMhBiAMQaCcAUgNAEEEIQYgDEHAuwFIDQBBBSEGIAxBgPoBSA0AQQYhBiAMQYD0A0gNACASQQJ0QdjaAmooAgAgDEGAjHxqQQJtagwBCyAGQRRsIgZB4NkCaiIYKAIAIhEgDGsgBkHM2QJqIgYgEkECdCISaigCAGwgEiAYaigCACAMIAYoAgAiBmtsaiARIAZrbQsiBkGsAmogBiAKQdAIRhsgC2wiBkGYeGogBiAMQd/dAEobIAYgC0ECRhsgAmwgBG02AkALIABBCGohBiAHQX8gJxshBwJ/IBsEQEEAIQwgDUEANgKwAyAAIAAoAqwBIARBkANtIgtrIAAoAnRrIA5sQQJ0IhJqQcjvAGoiGCAYQwAAAABDAACAPyANKALkBCIRKAIEIAsgDiARKAI8IAQQ/gEgJkEAIBIQBBogACgCrAEiDiAAKAJwbCIEQQFOBEADQCAJIAxBAXRqIAAgDEECdGpByO8AaioCAEMAAABHlCIqQwAAAMcgKkMAAADHXhsiKkMA/v9GICpDAP7/Rl0bEJIBOwEAIAxBAWoiDCAERw0ACwsgICAGIAkgDkEAIA1BsANqIBsgBxDjARogAEEANgJIIAAoAnAhDgsgAiAObCIEQQFOCwRAIA4gHmwhDkEAIQwDQCAJIAxBAXRqIAggDCAOakECdGoqAgBDAAAAR5QiKkMAAADHICpDAAAAx14bIipDAP7/RiAqQwD+/0ZdGxCSATsBACAMQQFqIgwgBEcNAAsLAkAgICAGIAkgAiANQbgDaiANQewEakEAIAcQ4wEEf0F9BQJAIBUoAgAiBEHoB0cNACAAKAJQIgxBwD5GBEBBzQghCgwBCyAMQYD9AEcEQCAMQeDdAEcNAUHOCCEKDAELQc8IIQoLAkAgACgCYARAIAAgACgC1I0BIgxFNgJIIA0oAuwERQ0BIAwNAyAAQQE2AqhvQQAhHCAAKAKgASAAKALwbiIEQShsQRRqIgxByAEgBWtsakEDbEGAGW0iDiATQQN0IAxBAXRrQfABbEGA9wIgBW1B8AFqbSAMakEIbSIMIA4gDEgbIgxBgQIgDEGBAkgbQQAgDCAEQQN0QQRyShsiF0EARyEaDAMLIABBADYCSCANKALsBA0CC0EAIQwgAEEANgLYjQEgACgC8G4hASAAKAKQASACbSIAQY8DTARAA0AgDEEBaiEMIABBAXQiAEGQA0gNAAsgDEEDdCEMCyADAn8CQCAEQZh4aiIAQQJLDQACQAJAIABBAWsOAgIBAAsgDEFwaiAKQQV0QeAAakHgAXFyDAILIApBzgggCkHOCEobQQV0QUBrQeAAcSAMckGAAXIMAQsgDEHwAWogCkEEdHJB4AByCyABQQJGQQJ0cjoAAEEBCwwCCyAUIRILIA0gCkGzd2oiBEEDTQR/IARBAnRB7NoCaigCAAVBFQs2AoADIA9BnM4AIA1BgANqEOYBIA0gACgC8G42AvACIA9BmM4AIA1B8AJqEOYBIA1BfzYC4AIgD0GiHyANQeACahDmAQJAIAAoApBvQegHRgRAIBIgACgCcCIMIAAoApABbEGQA21BAnRBD2pBcHFrIgkkAAwBCyANQQA2AtACIA9Bph8gDUHQAmoQ5gEgDSAAKAJMRUEBdDYCwAIgD0GSzgAgDUHAAmoQ5gEgACgClAEhDAJAAkACQCAAKAKQbyIEQekHRgRAIAxFBEAgEiAAKAKQASIOIAAoAnAiDGxBkANtIgVBAnRBD2pBcHFrIgkkAEHpByEEDAQLIA0gACgCoAEgACgCJGs2AoACIA9Boh8gDUGAAmoQ5gEgDUEANgLwASAPQbQfIA1B8AFqEOYBDAELIAxFDQEgDUEBNgKwAiAPQaYfIA1BsAJqEOYBIA0gACgCmAE2AqACIA9BtB8gDUGgAmoQ5gEgDSAAKAKgATYCkAIgD0GiHyANQZACahDmAQsgFSgCACEECyASIAAoApABIg4gACgCcCIMbEGQA20iBUECdEEPakFwcWsiCSQAIARB6AdGDQELIAQgACgClG8iBkYNACAGQQFIDQAgCSAAIAAoAqwBIA5B8HxtIB5raiAMbEECdGpByO8AaiAFQQJ0EAUaCwJAIAAoAqwBIgQgH2sgDGwiDkEBTgRAICYgAEHI7wBqIgQgAiAMbEECdGogDkECdCIOEAgaIAQgDmogCCAMIB9sQQJ0EAUaDAELICYgCCAfIARrIAxsQQJ0aiAEIAxsQQJ0EAUaCyAsQwAAgD9dRUEAIAAqAvxuIipDAACAP11BAXMbRQRAIAggCCAqICwgDSgC5AQiDCgCBCACIAAoAnAgDCgCPCAAKAKQARD+AQsgACAsOAL8bgJAIAAoApBvIgVB6QdGBEAgACgC8G5BAUcNAQsgAAJ/QYCAASAQQYD6AUoNABpBACAQQYD9AEgNABpBgIABQYCAoB8gEEELdGsgEEHQkn9qbWsLNgJcCwJAIAAoArBvDQAgACgCcEECRw0AIAAuAfRuIgRBgIABTkEAIAAoAlwiEEH//wBKGw0AQwAAgD8gELJDAACAOJSTISxBACEMAn8gDSgC5AQiDigCBEGA9wIgACgCkAFtIgdtIgZBAEoEQEMAAIA/IASyQwAAgDiUkyEtIA4oAjwhCwNAIAggDEEDdCIEaiIOIA4qAgAiKiAsIAsgByAMbEECdGoqAgAiKyArlCIrlCAtQwAAgD8gK5OUkiAqIAggBEEEcmoiBCoCACIrk0MAAAA/lJQiKpM4AgAgBCArICqSOAIAIAxBAWoiDCAGRw0ACyAGIQwLIAwgAkgLBEADQCAIIAxBA3QiBGoiDiAOKgIAIiogLCAqIAggBEEEcmoiBCoCACIrk0MAAAA/lJQiKpM4AgAgBCArICqSOAIAIAxBAWoiDCACRw0ACwsgACAQOwH0bgsCfwJAIAVB6gdGDQAgDSgC1ANnIA0oAswDQQVBcSAFQekHRhtqaiAZQQN0Sg0AIAVB6QdGBEAgDUG4A2ogGkEMEC8LIBpFDQAgDUG4A2ogHEEBEC8gGSANKALMAyANKALUA2dqIgxBa2ogDEFgaiAVKAIAIgxB6QdGG0EHakEDdWsiBCAXIAQgF0gbIgRBAiAEQQJKGyIEQYECIARBgQJIGyEGQQEgDEHpB0cNARogDUG4A2ogBkF+akGAAhAxQQEMAQsgAEEANgKob0EAIQZBAAshBQJ/IBUoAgAiB0HoB0YEQCANKALUAyEMIA0oAswDIQQgDUG4A2oQNSAEIAxnakFnakEDdSIMDAELIA1BuANqIBkgBmsiDBA0QQALIQ4CfwJAIAUNACAVKAIAQegHRw0AIBxBAEchBEEADAELIA0gDUGgBGo2AuABIA9Bps4AIA1B4AFqEOYBIBUoAgBB6QdGBEAgDSAAKAJkNgKwAyANIAAoAmg2ArQDIA0gDUGwA2o2AtABIA9BrM4AIA1B0AFqEOYBC0EAIBxBAEciBCAFcUEBRw0AGiANQQA2AsABIA9Bms4AIA1BwAFqEOYBIA1BADYCsAEgD0GmHyANQbABahDmASANQX82AqABIA9Boh8gDUGgAWoQ5gFBfSAPIAggACgCkAFByAFtIAwgIWogBkEAEOgBQQBIDQEaIA0gDUHoBGo2ApABIA9Bvx8gDUGQAWoQ5gEgD0G8H0EAEOYBQQEhBEEBCyELIA1BAEERIAdB6gdGGzYCgAEgD0GazgAgDUGAAWoQ5gECQCAVKAIAIgdB6AdGDQACQCAHIAAoApRvIhBGDQAgEEEBSA0AIA9BvB9BABDmASAPIAkgACgCkAFBkANtIA1BsANqQQJBABDoARogDUEANgJwIA9Bks4AIA1B8ABqEOYBCyANKALMAyANKALUA2dqQWBqIAxBA3RKDQACQCALRQ0AIBUoAgBB6QdHDQAgACgClAFFDQAgDSAAKAKgASAAKAIkazYCYCAPQaIfIA1B4ABqEOYBCyANIAAoApQBNgJQIA9Bph8gDUHQAGoQ5gFBfSAPIAggAkEAIAwgDUG4A2oQ6AEiDkEASA0BGiALRQ0AIBUoAgBB6QdHDQAgACgClAFFDQAgDiAhaiAMICFqIAYQCBogBiAMaiEMCwJAIAVFIARyRQRAIAAoApABIQQgD0G8H0EAEOYBIA1BADYCQCAPQZrOACANQUBrEOYBIA1BADYCMCAPQZLOACANQTBqEOYBIA1BADYCICAPQaYfIA1BIGoQ5gEgDUF/NgIQIA9Boh8gDUEQahDmASAEQZADbSEHIARByAFtIQQgACgCkG9B6QdGBEAgDUG4A2ogDhA0IA4hDAsgDyAIIAAoAnAgAiAEayILIAdrbEECdGogByANQbADakECQQAQ6AEaIA8gCCAAKAJwIAtsQQJ0aiAEIAwgIWogBkEAEOgBQQBIDQEgDSANQegEajYCACAPQb8fIA0Q5gELIAAoAvBuIQcgACgCkG8hC0EAIQwgACgCkAEgAm0iBEGPA0wEQANAIAxBAWohDCAEQQF0IgRBkANIDQALIAxBA3QhDAsgAwJ/AkAgC0GYeGoiBEECSw0AAkACQCAEQQFrDgICAQALIAxBcGogCkEFdEHgAGpB4AFxcgwCCyAKQc4IIApBzghKG0EFdEFAa0HgAHEgDHJBgAFyDAELIAxB8AFqIApBBHRyQeAAcgsgB0ECRkECdHI6AAAgACANKALUAyIHIA0oAugEczYC2I0BIAAgHQR/QeoHBSAVKAIACzYClG8gAEEANgKsbyAAIAI2ApxvIAAgACgC8G4iCzYCmG8CQAJAIAAoArgBRQ0AIA0oAqAEICJyRQ0AAkAgKEEBcyANKgLEBEPNzMw9XUEBc3IEfyAiBSAAKgLQjQEhLEMAAAAAISogACgCcCACbCIEQQFOBEBBACEMA0AgKiABIAxBAnRqKgIAIisgK5SSISogDEEBaiIMIARHDQALCyAqIASylUNxHZ5DlCAsXwsEQCAAIAAoAsyNASIMQQFqNgLMjQEgDEEKSA0DIAxBHkgNASAAQQo2AsyNAQwDCyAAQQA2AsyNAQwCC0EAIQwgAEEANgLYjQEgACgCkG8hASAAKAKQASACbSIAQY8DTARAA0AgDEEBaiEMIABBAXQiAEGQA0gNAAsgDEEDdCEMCyADAn8CQCABQZh4aiIAQQJLDQACQAJAIABBAWsOAgIBAAsgDEFwaiAKQQV0QeAAakHgAXFyDAILIApBzgggCkHOCEobQQV0QUBrQeAAcSAMckGAAXIMAQsgDEHwAWogCkEEdHJB4AByCyALQQJGQQJ0cjoAAEEBDAMLIABBADYCzI0BCwJAIA0oAswDIAdnakFgaiAZQQN0SgRAQX4gE0ECSA0DGiAhQQA6AAAgAEEANgLYjQFBASEODAELIA5BA0gNACAFIBUoAgBB6AdHcg0AA0AgAyAOai0AAA0BIA5BA0ohDCAOQX9qIQ4gDA0AC0ECIQ4LIAYgDmpBAWohAgJAIAAoApQBBEAgAiETDAELQX0gAyACIBMQ9QENAhoLIBMMAQtBfQshDAsgDUHwBGokACAMC8oDAQx/IwBBsAJrIgkhCyAJJABBAyACQX9qIg5BAXRBAmogAkECRhshCgJAIAAoApQBDQAgACgCpAFBf0YNACAAKAKgAUEDbCAAKAKQAUEYbCACIANsbW0iDCAFIAwgBUgbIQULIAkgBSAKayACbSIKQQFqQfwJIApB/AlIGyIKIAJsQQ9qQXBxayIPJAAgC0EANgIEIAAoAogBIRAgACAAKAKQbzYCiAEgACgCgAEhESAAIAAoAqBvNgKAASAAKAJ4IRIgACAAKALwbiIJNgJ4AkAgACgCRCITBEAgAEEBNgJ4DAELIAAgCTYCmG8LAkAgAkEBTgRAQQAhCQNAIABBADYCRCAAIAkgDkg2AtSNAQJAIAZFDQAgCSAORw0AIABB6gc2AogBC0F9IQ0gACABIAAoAnAgAyAJbGxBAnRqIAMgDyAJIApsaiIMIAogB0EAQQBBAEEAQQAgCBD8ASIUQQBIDQIgCyAMIBQQ8wFBAEgNAiAJQQFqIgkgAkcNAAsLIAsgAiAEIAUgACgClAFFEPQBIg1BAEgEQEF9IQ0MAQsgACARNgKAASAAIBA2AogBIAAgEjYCeCAAIBM2AkQLIAtBsAJqJAAgDQu5AgICfwF9IARBgPcCIAhtIgptIQkCQCAGQQFHBEBBACEEIAlBAEwNAQNAIAEgBEEDdCIIaiAAIAhqKgIAIAcgBCAKbEECdGoqAgAiCyALlCILIAOUQwAAgD8gC5MgApSSIguUOAIAIAEgCEEEciIIaiAAIAhqKgIAIAuUOAIAIARBAWoiBCAJRw0ACwwBCyAJQQFIDQBBACEEA0AgASAEQQJ0IghqIAAgCGoqAgAgByAEIApsQQJ0aioCACILIAuUIgsgA5RDAACAPyALkyAClJKUOAIAIARBAWoiBCAJRw0ACwsgBkEBIAZBAUobIQpBACEHA0AgCSIEIAVIBEADQCABIAQgBmwgB2pBAnQiCGogACAIaioCACADlDgCACAEQQFqIgQgBUcNAAsLIAdBAWoiByAKRw0ACwvTAgEHfyMAIgohC0F/IQgCQCAAKAKQASIFQZADbSIHIAJKDQAgAiEGIAAoApwBIglBiCdHBEAgCUH3WGoiBkEISw0BIAlBjSdMBH8gByAGdAUgCUH1WGogBWxBMm0LIgYgAkoNAQsCQAJAIAZB5ABsIAVGDQAgBkGQA2wgBUYNACAGQcgBbCAFRg0AIAZBAUgNAiAGQTJsIgcgBUEGbEYgBSAHRiAGQRlsIAVGciAHIAVBA2xGciAHIAVBAnRGciAHIAVBBWxGcnINAQwCCyAGQQFIDQELIAogACgCcCAGbEECdEEPakFwcWsiCCQAIAAoAnAiCSAGbCIKQQFOBEBBACEFA0AgCCAFQQJ0aiABIAVBAXRqLgEAskMAAAA4lDgCACAFQQFqIgUgCkcNAAsLIAAgCCAGIAMgBEEQIAEgAkF+IAlBAUEAEPwBIQgLIAskACAIC+QBAQV/QX8hCQJAIAAoApABIgVBkANtIgcgAkoNACACIQYgACgCnAEiCEGIJ0cEQCAIQfdYaiIGQQhLDQEgCEGNJ0wEfyAHIAZ0BSAIQfVYaiAFbEEybQsiBiACSg0BCwJAIAZB5ABsIAVGDQAgBkGQA2wgBUYNACAGQcgBbCAFRg0AIAZBMmwiByAFQQZsRg0AIAcgBUEFbEYNACAHIAVBAnRGDQAgByAFQQNsRg0AIAUgB0YNACAGQRlsIAVHDQELIAYhCQsgACABIAkgAyAEQRggASACQX4gACgCcEECQQEQ/AELHwBB8N4CKAIARQRAQfTeAiABNgIAQfDeAiAANgIACwsEACMACxAAIwAgAGtBcHEiACQAIAALBgAgACQACwYAIABAAAsVACABIAIgAyAEIAUgBiAHIAARBgALC97KAjgAQYEIC4ECIP4f9h/qH9gfwh+oH4gfYh86Hwof2B6gHmIeIh7cHZAdQh3uHJYcOhzYG3IbChucGioatBk6GbwYPBi2Fy4XoBYQFn4V6BROFLATEBNuEsgRHhF0EMYPFg9kDq4N+AxADIQLyAoKCkoJigjGBwIHPgZ4BbIE6gMiA1oCkgHKAAAANv9u/qb93vwW/E77iPrC+f74Ovh297b29vU49Xz0wPMI81LynPHq8DrwjO/i7jjuku3w7FDssusY64Lq8Olg6dLoSujE50TnxuZM5tblZOX25I7kKOTG42rjEuO+4nDiJOLe4Z7hYOEo4fbgxuCe4HjgWOA+4CjgFuAK4ALgAOAAQZEKCyUPCAcECwwDAg0KBQYJDgEACQYDBAUIAQIHuH6aeZp5Zma4fjNzAEHACgukAiqv1cnP/0AAEQBj/2EBEP6jACcrvVbZ/wYAWwBW/7oAFwCA/MAY2E3t/9z/ZgCn/+j/SAFJ/AgKJT4AAAAAAACHxz3JQACAAIb/JAA2AQD9SAIzJEVFDACAABIAcv8gAYv/n/wbEHs4AAAAAAAAAABoAg3I9v8nADoA0v+s/3gAuADF/uP9BAUEFUAjAAAAAOY+xsTz/wAAFAAaAAUA4f/V//z/QQBaAAcAY/8I/9T/UQIvBjQKxwwAAAAAAAAAAORXBcUDAPL/7P/x/wIAGQAlABkA8P+5/5X/sf8yACQBbwLWAwgFuAUAAAAAAAAAAJRrZ8QRAAwACAABAPb/6v/i/+D/6v8DACwAZACoAPMAPQF9Aa0BxwET9ZXmWRLzKR8GVCAAQfAMC7QBvQCo/WkCZ3d1AGH/0vsIdDQA3QCo9nRu/P8RAury5WbQ//YCjPClXbD/iQN17wZTnf/MA4LvZkeV/8cDi/AnO5n/gANh8q4upf8FA8/0XiK5/2MCofeYFtL/qQGh+rQLBgADAAcDAAEKAAIGEgoMBAACAAAACQQHBAADDAcHAAD9+vTp1LaWg3huYlVIPDEoIBkTDw0LCQgHBgUEAwIBANLQzsvHwbeojmhKNCUbFA4KBgQCAEGwDgvSCN/Jt6eYinxvYlhPRj44MiwnIx8bGBUSEA4MCggGBAMCAQC8sJuKd2FDKxoKAKV3UD0vIxsUDgkEAHE/AAAAAAAMIzxTbISdtM7kDyA3TWV9l6/J4RMqQllyiaK40eYMGTJIYXiTrMjfGixFWnKHn7TN4Q0WNVBqgpy0zeQPGSxAWnOOqMTeExg+UmR4kai+1hYfMk9neJeqy+MVHS1BanyWq8TgHjFLYXmOpbrR5RMZNEZddI+mwNsaIj5LYXaRp8LZGSE4Rltxj6XE3xUiM0hhdZGrxN4UHTJDWnWQqMXdFh8wQl91kqjE3hghM010hp60yOAVHEZXanyVqsLZGiE1QFN1mK3M4RsiQV9sgZuu0uEUGkhjcYOasMjbIis9Tl1ym7HN5RcdNmF8iqOz0eUeJjhZdoGessjnFR0xP1VvjqPB3hswTWeFnrPE1+gdL0pjfJewxtztISo9TF15m67P4R01V3CImqq80OMYHjRUg5amusvlJTBAVGh2nLHJ5lELCgkKCQoJ7wjvCAoJ/AgXCe8ISAsUCloJPwkKCeII4gjiCOIIkgi3CSQJJAkKCQoJCgkkCSQJPwkyCZAMzgokCSQJCgniCK0InwjVCJIInAmqCT8JWglaCVoJWgk/CWcJCgmXDfALTwifCOII4gjiCO8ICgnVCNIMRQwUCloJxwitCJ8IkgiSCEIIABAFD60IPAo8CmcJCglaCT8JGghqDKwMPwmtCPkJggkkCQoJdwitCAoNoA2mCpII1QicCTIJPwmfCDUIMgl0CRcJPwlaCXQJdAl0CZwJPwnDDi0OggnfCT8J4gjiCPwInwgACLYMmQyZCh4LjwkXCfwI/AjiCE8IvwzkDMEK9gqPCdUI1QjHCE8INQg5C6ULSQo/CWcJMgmSCMcIxwhCCJkMfQxJChQK4giFCMcIrQitCF0IagzuDLQKZwniCOII4gjvCJIIQghFDMgMnAkNCO8IxAk/CbcJggmFCLMN0gwKCYwKVwqqCT8JWgkkCU8IXw3PDd4L8Av8CJ4HrQjiCOII4ghMDSYNJwh/CjkLMgl0CeIIqgnsCbAOoA2eB2QKUQvfCVoJPwmcCdUI1AvIDLQKSAu0CmoITwjvCLoIxwhvDkkO6QexB2QKjAoUCsQJFwk/CYcMVQ0yCRoISAtICyQJtwnHCHcICg0mDR4L3AoXCWoI4gjvCEIIDQgXCfwIhQh3CIUIPwlJCowKjAr5CWcJggmtCNUIrQitCCQJdAkvCowK3gusDPYKSAuqCRoI/AgKCTIJTAmtCGoITwjvCMQJ6QrpCjwKFAo/CVwOgQ66CC4HhQjBCqYKcQrRCZ8I6QpYDKYK+QkeC9EJhQhaCa0IhQjUspSBbGBVUk9NPTs5ODMxMC0qKSgmJCIfHhUMCgMBAP/19Ozp4dnLvrCvoZWIfXJmW1FHPDQrIxwUExIMCwUAs4qMlJeVmZejdENSO1xIZFlcAEGQFwvnARAAAAAAY0IkJCIkIiIiIlNFJDQidGZGRESwZkREIkFVRFQkdI2Yi6qEu7jYiYT5qLmLaGZkRESy2rm5qvTYu7uq9Lu724pnm7i5iXS3m5iIhNm4uKqk2aubi/SpuLmqpNjf2orWj7zaqPSNiJuqqIrc24uk28rYiai69rmLdLnbuYpkZIZkZiJERGREqMvd2qinmohoRqT2q4mLiZva24v//v3uDgMCAQD//vzaIwMCAQD//vrQOwQCAQD//vbCRwoCAQD//Oy3UggCAQD//Ou0WhECAQD/+OCrYR4EAQD//uytXyUHAQBBgBkL7g3///+DBpH//////+xdD2D//////8JTGUfd/////6JJIkKi////0n5JKzmt////yX1HMDqC////pm5JOT5o0v//+3tBN0Rkq/8AAAAAAAAAAPoAAwAGAAMAAwADAAQAAwADAAMAzQEAACAACgAULmQBcAcAALAIAAAwCwAAcAsAAJALAAAwDAAAgAwAANAMAAAHFyY2RVVkdIOTorLB0N/vDRkpN0VTYnB/jp2ru8vc7A8VIjM9TlxqfoiYp7nN4fAKFSQyP09fbn6Nna29zd3tERQlMztOWWt7hpakuM3g8AoPIDNDUWBwgY6erb3M3OwIFSUzQU9icX6Km6izwNHaDA8iNz9OV2x2g5Snucvb7BATICQ4T1tsdoiaq7rM3O0LHCs6SllpeIeWpbTE0+LxBhAhLjxLXGt7iZypucfW4QsTHiw5SllpeYeYqbrK2uoMEx0uOUdYZHiElKW2x9jpERcjLjhNXGp7hpinucze7Q4RLTU/S1lrc4SXq7zO3fAJEB0oOEdYZ3eJmqu9zd7tEBMkMDlMV2l2hJanucra7AwRHTZHUV5ofoiVpLbJ3e0PHC8+T2FzgY6bqLTC0N/uCA4eLT5OXm9/j5+vwM/f7xEeMT5PXGt3hJGgrr7M3OsOEyQtPUxbbHmKmqy9zd7uDBIfLTxMW2t7ipqru8zd7A0RHys1RlNncoOVp7nL3O0RFiMqOk5dbn2Lm6q8zuDwCA8iMkNTY3ODkqKywdHg7w0QKUJJVl9vgImWo7fO4fERGSU0P0tcZneEkKCvv9TnEx8xQVNkdYWToa67yNXj8hIfNERYZ3V+ipWjscDP3+8QHS89TFpqd4WTobDB0eDwDxUjMj1JVmFud4GNr8ba7UkObQttC20LbQttC20LbQttC20LbQttC5MLkwttCx4LkAwNDJwL8AvwC8ILwgvCC5MLkwvCC5wLSAseCx4LpgpQD64PpQuHDIcMdgvwCx4LMgysDG0LHgs8CvkJ3AptC7wNfQzCCx8MywtIC20LbQttC20LSAtIC0gLSAtIC8EKvhO+E3YL9Q05DfALDQzpClgMWAycCx4L0QnsCcEKSAtMETUQjArBCpwLwgttCx4LpQvLC20LbQttC20LSAumCiQOywucC/AL8As5C/YK8AuQDOcLpQvbDNsMpQvuDK8LaxSWE+wJCg3GDTkNfQwWDDANpQuMClcKfwrpCh4LcQrZEzYUBxJMEZwJUQvnC4cMYQx/CrQKSAseC+kKHguMCjIMSAuTC20LbQttC20LkwuTC5MLkwttC20LkwuTC5MLahCHDKULHwzCC0gLSAttC5wLOQtkC8sLnAvCC30MOQuwDrAOrAwfDKULSAttC0gLnAt2C+kK6QoeC0gLSAtkCg4Prg+HDDIMrAx2C+cLkwuTCw0MHgvpCukK6QrpChQKBQ/wDx0NvA0WDLQKwgt2CzIMDQweCx4LVwpXCh4L9gobFB4TmQwFD3ENYQxRC1UNew2MChQKcQq0Ch4L9grBCg0QzQ7bDFgMbQtIC0gLbQvpCrQK6Qq0CukKHgtIC/YK2RO+E+cL2Q2sDPALDQyACx8MUQu0CrQKtAoeC+kKPArVENUQLAvfCYcMMA0wDQMMAwwwDfALHgtXChQKpgrBCvALZAv2CkgLtAp/ClELHwxODE4MkAxhDPALwguTCx4LFxEqD20LSAseC0gLHgseC0gLSAtICx4LSAttC0gLHgulC2QLZAulC6UL8AsyDJAMTgzwC8ILnAucC5wLbQu0CoUQNRDuDBMNbQuTC0gLpQulCx4L6Qq0Ch4LHgseC+kK8A+uDx8MwgttC20LbQtIC20LbQseCx4LHgvpCkgL3AoHEt8RYQxxDYcMpQtRC94LMgy0Cn8Kfwp/CrQK6QqMCjUQrRDNDkkOpgrcCkgLSAvCC5wLbQseC38KfwrpCkgLdxDiDcEKHgseC0gLSAtIC20LbQtIC20LbQttC5MLSAs2FDkT1QhoDc0Olw0TDR4L7gyXDU4MUQucCbcJwQptC3sNZQ4yDH0MHQ3nC4cMhwylC5AMDQxtC20LfwrsCYIJpQvCC+kK6Qq0CukKHgucC/ALHwxODE4MTgwfDMILwguACzkLfwqmCtwKwgtoDdkNHQ2sDPALwguTC20LSAseC8sLgAtRC8ILwgucC8sLHwzwC/ALwgtICx4LbQttC0gLUA9/D8ILfQwdDZAM2wzbDJcNeA5xDaYKhQicCRQKLwrhzMm4t6+empmHd3Nxbm1jYl9PRDQyMC0rIB8bEgoDAP/76+bUycS2p6ajl4p8bmhaTkxGRTktIhgVCwYFBAMAr5SgsLKtrqSxrsS2xsC2RD5CPEh1VVp2iJeOoI6bAEH3JgvAAgFkZmZERCQiYKRrnrm0uYtmQEIkIiIAASDQi42/mLmbaGCraKZmZmaEAQAAAAAQEABQbU5ruYtnZdDUjYutmXtnJAAAAAAAAAEwAAAAAAAAIESHe3d3Z0ViRGd4dnZmR2KGiJ24tpmLhtCo+Eu9j3lrIDEiIiIAEQLS64t7uYlphmKHaLZkt6uGZEZERkJCIoNApmZEJAIBAIamZkQiIkKE1Paei2trV2Zk2316iXZnhHKHiWmrajIipNaNj7mXeWfAIgAAAAAAAdBtSruG+Z+JZm6adldld2UAAgAkJEJEI2CkZmQkAAIhp4quZmRUAgJka3h3JMUYAP/+/fQMAwIBAP/+/OAmAwIBAP/++9E5BAIBAP/+9MNFBAIBAP/76LhUBwIBAP/+8LpWDgIBAP/+77JbHgUBAP/447FkEwIBAEHAKQu3A////5wEmv//////42YPXP//////1VMYSOz/////lkwhP9b///++eU0rN7n////1iUcrO4v/////g0IyQmvC//+mdEw3NX3//wAAAAAAAAAAZAADACgAAwADAAMABQAOAA4ACgALAAMACAAJAAcAAwBbAQAAIAAQAGYmqwEQDQAAEA8AABATAABQEwAAcBMAAHAUAADAFAAAEBUAAAAAAABcyr7Ytt+a4pzmeOx69Mz8NAOGC4gTZBlmHUogQiekNfn39vX06tLKycjFrlI7ODc2LhYMCwoJBwBAAMuWANfDpn1uUgAAAACbFQAAnhUAAHgAgEAA6J4KAOYA893AtQBkAPAAIABkAM08ADAAIKtVAMCAQADNmmYzANWrgFUrAODAoIBgQCAAZCgQBwMBAAAKZ/IOVs3kHQpn8g51UoIMWZoEGXVSggxGETEK7QNiFEYRMQraAtcH+catD9oC1wcitlIF2vqkCiK2UgUAAAAARvMuHivjSw4fZoAYHCwdCtphSBLtnPQG7DATC+OQpQTtpB0CCt9rAwAAAAAAAAAA4HAsDwMCAQD+7cCERhcEAP/84ps9CwIAQYAtCzP69erLRzIqJiMhHx0cGxoZGBcWFRQTEhEQDw4NDAsKCQgHBgUEAwIBALNjAEc4Kx4VDAYAQcAtC0THpZB8bWBURz0zKiAXDwgA8eHTx7uvpJmOhHtyaWBYUEhAOTIsJiEdGBQQDAkFAgCsFgAAwBYAANAWAAAPg4qKm5utrQBBkC4L9AJFXXN2g4qNipaWm5aboKagg4CGjY2NkZGRlpubm5ugoKCgpqatrbbAtsDAwM3AzeD8FgAAEBcAACAXAAAAAAAABAYYBwUAAAIAAAwcKQ389w8qGQ4B/j4p9/YlQfwD+gRCB/gQDib9IQAAAAAAAAAADRYnFwz/JEAb+vkKNysRAQEIAQEG9Uo19/Q3TPQI/QNdG/waJzsD+AIATQsJ+BYs+gcoCRoDCfkUZfkEA/gqGgDxIUQCF/43Lv4PA/8VECn6Gz0nBfUqWAQB/jxBBvz/+0k4AfcTXh33AAxjBgQI7WYu8wMCDQMCCetUSO71LmjqCBImMBcA8EZT6wsF9XUW+PoXdfQDA/hfHAT2D0088f8EfAL8AyZUGOcCDSoNHxX8OC7//yNP8xP5QVj38hQEUTHjFABLA+8F9yxc+AH9FkUf+l8p9AUnQxD8AQD6eDfc8yx6BOhRBQsDBwIACQpYUBcAAIAXAADQFwAALgJaV11bUmIAQZAxC0NteHYMcXN1d2M7V28/b3BQfnx9fIF5fheEf39/fn96hYKGZXZ3kX5WfHh7d6qta218GAAAkBgAAKAYAAAIECAICgwQAEHgMQuzAX0zGhIPDAsKCQgHBgUEAwIBAMZpLRYPDAsKCQgHBgUEAwIBANWidFM7KyAYEg8MCQcGBQMCAO+7dDscEAsKCQgHBgUEAwIBAPrlvIdWMx4TDQoIBgUEAwIBAPnr1bmcgGdTQjUqIRoVEQ0KAP75686kdk0uGxAKBwUEAwIBAP/9+e/cv5x3VTklFw8KBgQCAP/9+/bt38uzmHxiSzcoHRUPAP/+/ffcompDKhwSDAkGBAMCAEGgMwuiAR85a6DNzf///////////////0UvQ2+mzf///////////////1JKT19tgJGgrc3NzeD//+D/4H1KO0Vhjbb//////////////61zVUlMXHORrc3g4P///////6aGcWZlZmt2fYqRm6a2wMDNluC2hmVTT1VheJGtzeD////////gwJZ4ZVxZXWZ2hqC2wODg4P/g4LabhnZtaGZqb3aDkaCtgwBB0DQLEfG+soRXSikOAN/BnYxqOScSAEHwNAsSg0qNT1CKX2iGX2NbfV1Me3N7AEGQNQuXAYAA1ioA64AVAPS4SAsA+NaAKgcA+OGqUBkFAPvsxn42EgMA+u7Tn1IjDwUA+ufLqIBYNRkGAPzu2LmUbEcoEgQA/fPhx6aAWjkfDQMA/vbp1LeTbUksFwoCAP/68N/GpoBaOiEQBgEA//v059K1km5LLhkMBQEA//347t3EpIBcPCMSCAMBAP/9+fLl0LSSbkwwGw4HAwEAQbA2C5cBgQDPMgDsgRQA9blICgD51YEqBgD64qlXGwQA++nCgj4UBAD67M+gYy8RAwD/8Nm2g1EpCwEA//7pyZ9rPRQCAQD/+enOqoBWMhcHAQD/+u7ZupRsRicSBgEA//zz4simgFo4Hg0EAQD//PXn0bSSbkwvGQsEAQD//fjt28KjgF0+JRMIAwEA//768eLNsZFvTzMeDwYCAQBB0DcLlwGBAMs2AOqBFwD1uEkKAPrXgSkFAPzorVYYAwD98MiBOA8CAP302aReJgoBAP314r2ERxsHAQD99ufLn2k4FwYBAP/469WzhVUvEwUBAP/+893Cn3VGJQwCAQD//vjq0KuAVTAWCAIBAP/++vDcvZVrQyQQBgIBAP/++/PjyaaAWjcdDQUCAQD//vz26tW3k21JKxYKBAIBAEHwOAuXAYIAyDoA54IaAPS4TAwA+daCKwYA/OitVxgDAP3xy4M4DgIA/vbdp14jCAEA/vnowYJBFwUBAP/779OiYy0PBAEA//vz37qDSiELAwEA//z15sqeaTkYCAIBAP/99+vWs4RULBMHAgEA//768N/En3BFJA8GAgEA//799efRsIhdNxsLAwIBAP/+/fzv3cKedUwqEgQDAgEAQZI6Cw8CBQkOFBsjLDZBTVpod4cAQbA6C6ID/jFDTVJdY8YLEhgfJC3/LkJOV15o0A4VICozQv9eaG1wc3b4NUVQWF9mAAEAAAABAAAB/wH/Av4C/gP9AAEAAf8C/wL+A/4D/Qf+BwAAAAAAAv///wAAAQEAAQABAAAAAAABAAAAAAABAAAAAQAAAAAA/wIBAAEBAAD//wAAAAAAAAH/AAH/AP8B/gL+/gL9AgP9/AP8BAT7Bfr7BvkGBQj3AAABAAAAAAAAAP8BAAAB/wAB//8B/wIB/wL+/gL+AgID/QABAAAAAAAAAQABAAAB/wEAAAIB/wL//wL/AgL/A/7+/gMAAQAAAQAB/wL/Av8CA/4D/v4EBP0F/fwG/AYF+wj6+/kJAAAAAAAAAAD7CP8G/wb8CvoK/gb/BvsK9wz9B/4H+Q0QGCIABgAAAAQAAAADAAAAgLsAAHgAAAAVAAAAFQAAAACaWT8AAAAAAACAPwAAgD/gHgAAAwAAAAgAAAB4AAAACwAAABAfAAAAIAAAMCAAAIAHAAADAAAAECIAADBWAABgVwAAGFgAAFAiAACIAQAAcD4AAFA/AADgQABB4j0LKQEAAgADAAQABQAGAAcACAAKAAwADgAQABQAGAAcACIAKAAwADwATgBkAEGlPgvSAVpQS0U/ODEoIh0UEgoAAAAAAAAAAG5kWlROR0E6My0nIBoUDAAAAAAAAHZuZ11WUEtGQTs1LygfFw8EAAAAAH53cGhfWVNOSEI8Ni8nIBkRDAEAAIZ/eHJnYVtVTkhCPDYvKSMdFxAKAZCJgnxxa2VfWFJMRkA5My0nIRoPAZiRioR7dW9pYlxWUEpDPTcxKyQUAaKblI6Ff3lzbGZgWlRNR0E7NS4eAaylnpiPiYN9dnBqZF5XUUtFPzgtFMjIyMjIyMjIxsG8t7KtqKOemZSBaABBkMAAC58ECAAIAAgACAAQABAAEAAVABUAGAAdACIAJAAAAAAAAABqHI04UrseOghp3DqC7Vc7iWOyOwMqBTww3Dk8tD53PByjnjzR8sU8/obxPJurED0FrSo9hMJGPVPmZD0RiYI9h5+TPcuypT3Rvrg9Or/MPVSv4T0Uivc9DiUHPtn0Ej5fMR8+aNcrPorjOD4wUkY+lB9UPr9HYj6OxnA+sJd/PlJbhz5gD48+mOWWPnnbnj5w7qY+2BuvPvtgtz4Ru78+RifIPrei0D54Ktk+lLvhPgxT6j7e7fI+Bon7Pr4QAj8fWgY/JJ8KP1DeDj8rFhM/QUUXPyVqGz9zgx8/zo8jP+aNJz90fCs/P1ovPxkmMz/n3jY/mYM6PzMTPj/FjEE/d+9EP386SD8nbUs/zoZOP+WGUT/xbFQ/jjhXP2npWT9Ff1w/+vleP3NZYT+vnWM/wcZlP8/UZz8RyGk/0qBrP25fbT9QBG8/9I9wP+YCcj+9XXM/H6F0P7/NdT9X5HY/sOV3P5fSeD/jq3k/c3J6Pycnez/nyns/nV58PzXjfD+cWX0/vcJ9P4Yffj/ecH4/q7d+P8/0fj8mKX8/hlV/P756fz+WmX8/zLJ/PxTHfz8c138/guN/P93sfz+2838/ivh/P8j7fz/W/X8/B/9/P6X/fz/o/38//f9/PwAAgD/gAQAAh4gIO/////8FAGAAAwAgAAQACAACAAQABAABAEG8xAALBpBBAABQRQBB0MQAC8k4//9/P47/fz9q/n8/k/x/Pwf6fz/I9n8/1vJ/PzDufz/W6H8/yOJ/Pwfcfz+T1H8/a8x/P4/Dfz8Aun8/va9/P8ekfz8dmX8/wIx/P7B/fz/scX8/dmN/P0tUfz9uRH8/3jN/P5oifz+jEH8/+v1+P53qfj+N1n4/y8F+P1asfj8uln4/U39+P8Znfj+GT34/lDZ+P+8cfj+YAn4/j+d9P9PLfT9mr30/RpJ9P3R0fT/xVX0/vDZ9P9UWfT889nw/8tR8P/ayfD9JkHw/62x8P9tIfD8bJHw/qf57P4fYez+0sXs/MIp7P/xhez8XOXs/gg97Pz3lej9Iuno/oo56P01iej9INXo/lAd6PzDZeT8dqnk/Wnp5P+lJeT/IGHk/+eZ4P3u0eD9OgXg/c014P+oYeD+y43c/za13Pzp3dz/5P3c/Cgh3P27Pdj8llnY/L1x2P4whdj885nU/QKp1P5dtdT9CMHU/QfJ0P5SzdD87dHQ/NzR0P4fzcz8ssnM/JnBzP3Ytcz8a6nI/FKZyP2Rhcj8KHHI/BdZxP1ePcT8ASHE///9wP1W3cD8CbnA/BiRwP2LZbz8Vjm8/IEJvP4T1bj8/qG4/U1puP8ALbj+GvG0/pWxtPx0cbT/vymw/G3lsP6EmbD+A02s/u39rP1Araz9A1mo/jIBqPzIqaj8102k/k3tpP00jaT9kymg/2HBoP6gWaD/Vu2c/YGBnP0gEZz+Pp2Y/M0pmPzbsZT+XjWU/Vy5lP3fOZD/1bWQ/1AxkPxKrYz+xSGM/sOViPxCCYj/RHWI/87hhP3dTYT9c7WA/pIZgP04fYD9bt18/y05fP57lXj/Ve14/cBFeP26mXT/SOl0/ms5cP8ZhXD9Z9Fs/UYZbP64XWz9yqFo/nThaPy7IWT8nV1k/h+VYP09zWD9/AFg/F41XPxgZVz+CpFY/Vi9WP5O5VT86Q1U/S8xUP8dUVD+u3FM/AWRTP7/qUj/pcFI/f/ZRP4J7UT/y/1A/z4NQPxoHUD/SiU8/+gtPP5CNTj+UDk4/CY9NP+0OTT9Bjkw/BQ1MPzuLSz/hCEs/+YVKP4MCSj9/fkk/7vlIP890SD8k70c/7WhHPyniRj/aWkY/ANNFP5tKRT+swUQ/MjhEPy+uQz+iI0M/jZhCP+8MQj/IgEE/GvRAP+VmQD8o2T8/5Uo/Pxu8Pj/MLD4/95w9P50MPT++ezw/XOo7P3VYOz8Kxjo/HTM6P62fOT+7Czk/R3c4P1HiNz/aTDc/47Y2P2sgNj90iTU//fE0PwdaND+TwTM/oCgzPzCPMj9C9TE/2FoxP/G/MD+OJDA/r4gvP1XsLj+BTy4/MrItP2kULT8ndiw/a9crPzc4Kz+LmCo/Z/gpP8xXKT+6tig/MhUoPzNzJz+/0CY/1i0mP3mKJT+n5iQ/YUIkP6mdIz99+CI/31IiP8+sIT9NBiE/W18gP/i3Hz8lEB8/4mcePzC/HT8QFh0/gWwcP4TCGz8aGBs/Q20aPwDCGT9RFhk/NmoYP7G9Fz/BEBc/Z2MWP6O1FT92BxU/4VgUP+SpEz9/+hI/s0oSP4CaET/n6RA/6DgQP4SHDz+71Q4/jiMOP/5wDT8Kvgw/swoMP/pWCz/fogo/Y+4JP4Y5CT9JhAg/rM4HP68YBz9UYgY/m6sFP4P0BD8PPQQ/PYUDPw/NAj+GFAI/oVsBP2GiAD+P0f8+p13+Pg7p/D7Cc/s+xv35PhuH+D7BD/c+upf1PgYf9D6opfI+nivxPuyw7z6RNe4+kLnsPug86z6av+k+qUHoPhXD5j7fQ+U+CMTjPpFD4j58wuA+yEDfPni+3T6MO9w+BrjaPuYz2T4ur9c+3ynWPvmj1D59HdM+bpbRPswO0D6Xhs4+0v3MPn10yz6Z6sk+J2DIPijVxj6fScU+ir3DPuwwwj7Go8A+GRa/PuaHvT4t+bs+8Wm6PjLauD7xSbc+L7m1Pu4ntD4vlrI+8gOxPjlxrz4E3q0+VkqsPi+2qj6QIak+eoynPu/2pT7vYKQ+fMqiPpczoT5AnJ8+egSePkRsnD6h05o+kTqZPhahlz4wB5Y+4WyUPinSkj4LN5E+h5uPPp7/jT5RY4w+osaKPpEpiT4gjIc+UO6FPiJQhD6XsYI+sBKBPt7mfj6pp3s+w2d4Pi8ndT7u5XE+BKRuPnNhaz48Hmg+YtpkPuiVYT7PUF4+GgtbPszEVz7mfVQ+azZRPl3uTT6/pUo+klxHPtoSRD6XyEA+zn09PoAyOj6u5jY+XZozPo1NMD5CAC0+fbIpPkJkJj6RFSM+bsYfPtt2HD7aJhk+bdYVPpiFEj5bNA8+uuILPreQCD5UPgU+lOsBPvAw/T0GivY9ceLvPTM66T1PkeI9z+fbPbU91T0Dk849wOfHPfI7wT2cj7o9w+KzPWw1rT2bh6Y9VdmfPZ8qmT1+e5I99suLPQschT2H13w9RnZvPV0UYj3WsVQ9uU5HPRDrOT3lhiw9QCIfPSy9ET2yVwQ9tePtPGAX0zx2Srg8C32dPDKvgjz6wU88/iQaPCoPyTuZpzs7Ln3WudJGcbur3uO7pownvIEpXbzhYom8oDCkvOz9vryzytm84Jb0vDGxB72TFhW9jHsivRPgL70eRD29padKvZ0KWL3+bGW9vs5yveoXgL0byIa97XeNvVwnlL1j1pq9/YShvSYzqL3Z4K69EY61vco6vL3+5sK9qpLJvcg90L1U6Na9SpLdvaQ75L1d5Oq9cozxvd0z+L2a2v69UsACvvwSBr5HZQm+MrcMvroIEL7dWRO+mKoWvur6Gb7QSh2+R5ogvk7pI77hNye+AIYqvqbTLb7TIDG+g200vrW5N75lBTu+k1A+vjqbQb5a5US+8C5Ivvl3S750wE6+XQhSvrNPVb5zlli+nNxbvioiX74bZ2K+batlvh/vaL4sMmy+lHRvvlS2cr5q93W+0zd5vo13fL6Wtn++dXqBvkUZg765t4S+0FWGvojzh77hkIm+2i2LvnDKjL6kZo6+dAKQvt+dkb7kOJO+gdOUvrZtlr6BB5i+4qCZvtc5m75f0py+eWqeviMCoL5emaG+JjCjvn3GpL5gXKa+zvGnvsaGqb5HG6u+UK+svuBCrr711a++j2ixvq36sr5NjLS+bh22vhCut74wPrm+z826vupcvL6C672+lHm/vh8Hwb4jlMK+nyDEvpGsxb74N8e+08LIviJNyr7i1su+E2DNvrXozr7FcNC+QvjRvi1/076DBdW+Q4vWvm0Q2L7/lNm++Rjbvlmc3L4dH96+RqHfvtMi4b7Bo+K+ECTkvr6j5b7MIue+OKHovgAf6r4knOu+ohjtvnqU7r6rD/C+M4rxvhIE875GffS+z/X1vqpt977Z5Pi+WFv6vijR+75HRv2+tbr+vjgXAL+70AC/5IkBv7JCAr8l+wK/O7MDv/ZqBL9TIgW/U9kFv/WPBr84Rge/HfwHv6KxCL/HZgm/jBsKv/DPCr/zgwu/kzcMv9HqDL+snQ2/JFAOvzgCD7/osw+/MmUQvxgWEb+XxhG/sHYSv2MmE7+u1RO/kYQUvw0zFb8f4RW/yI4Wvwg8F7/d6Be/SJUYv0hBGb/c7Bm/BJgav8BCG78P7Ru/8JYcv2NAHb9o6R2//pEevyU6H7/c4R+/I4kgv/ovIb9f1iG/Unwiv9QhI7/jxiO/f2skv6cPJb9csyW/nVYmv2j5Jr+/mye/oD0ovwvfKL//fym/fSAqv4PAKr8RYCu/J/8rv8SdLL/oOy2/ktktv8N2Lr95Ey+/tK8vv3NLML+35jC/f4Exv8sbMr+ZtTK/6k4zv73nM78SgDS/6Bc1vz+vNb8WRja/btw2v0VyN7+cBzi/cZw4v8UwOb+WxDm/5lc6v7LqOr/8fDu/wg48vwOgPL/BMD2/+sA9v61QPr/b3z6/g24/v6X8P79AikC/UxdBv+CjQb/kL0K/YLtCv1NGQ7++0EO/nlpEv/bjRL/CbEW/BfVFv7x8Rr/oA0e/iYpHv50QSL8llki/IBtJv46fSb9vI0q/waZKv4YpS7+8q0u/Yy1Mv3quTL8CL02/+q5Nv2IuTr85rU6/fitPvzOpT79VJlC/5qJQv+QeUb9QmlG/KBVSv22PUr8eCVO/O4JTv8P6U7+3clS/FupUv99gVb8S11W/sExWv7fBVr8nNle/AKpXv0IdWL/sj1i//gFZv3hzWb9Z5Fm/olRav1HEWr9mM1u/4qFbv8MPXL8KfVy/t+lcv8hVXb8+wV2/GCxev1eWXr/5/16//2hfv2jRX78zOWC/YqBgv/MGYb/lbGG/OtJhv/A2Yr8Im2K/gP5iv1lhY7+Sw2O/LCVkvyWGZL9+5mS/N0Zlv06lZb/FA2a/mmFmv82+Zr9eG2e/TXdnv5rSZ79ELWi/S4dov67gaL9vOWm/i5FpvwTpab/ZP2q/CZZqv5Trar97QGu/vJRrv1noa79PO2y/oI1sv0vfbL9PMG2/rYBtv2XQbb91H26/321uv6G7br+7CG+/LlVvv/igb78b7G+/lTZwv2eAcL+QyXC/DxJxv+ZZcb8ToXG/l+dxv3Etcr+gcnK/JrdyvwH7cr8yPnO/uIBzv5TCc7/EA3S/SUR0vyKEdL9Qw3S/0gF1v6g/db/SfHW/ULl1vyH1db9FMHa/vWp2v4ikdr+m3Xa/FhZ3v9lNd7/vhHe/V7t3vxHxd78dJni/elp4vyqOeL8rwXi/ffN4vyEleb8WVnm/XIZ5v/K1eb/a5Hm/EhN6v5pAer9zbXq/nZl6vxbFer/f73q/+Bl7v2FDe78abHu/IpR7v3q7e78g4nu/Fwh8v1wtfL/wUXy/03V8vwWZfL+Gu3y/Vd18v3P+fL/fHn2/mj59v6Ndfb/6e32/n5l9v5K2fb/T0n2/Yu59vz8Jfr9pI36/4Tx+v6dVfr+6bX6/G4V+v8mbfr/EsX6/Dcd+v6Lbfr+F736/tQJ/vzIVf7/8Jn+/Ezh/v3ZIf78nWH+/JGd/v251f78Fg3+/6I9/vxmcf7+Vp3+/X7J/v3S8f7/XxX+/hc5/v4HWf7/I3X+/XeR/vz3qf79q73+/4/N/v6n3f7+7+n+/Gf1/v8T+f7+7/3+/+v9/Pzn+fz+p+X8/S/J/Px7ofz8j238/Wct/P8G4fz9bo38/KIt/Pydwfz9aUn8/vzF/P1gOfz8l6H4/Jr9+P1yTfj/IZH4/aTN+P0H/fT9PyH0/lo59PxRSfT/LEn0/vNB8P+eLfD9NRHw/7/l7P82sez/pXHs/Qwp7P920ej+2XHo/0QF6Py6keT/OQ3k/suB4P9x6eD9MEng/BKd3PwQ5dz9PyHY/5FR2P8bedT/2ZXU/dep0P0RsdD9l63M/2mdzP6Phcj/CWHI/Oc1xPwk/cT80rnA/uxpwP6CEbz/k624/ilBuP5OybT8BEm0/1W5sPxHJaz+3IGs/yXVqP0nIaT85GGk/m2VoP2+wZz+6+GY/fD5mP7iBZT9vwmQ/pABkP1o8Yz+RdWI/TKxhP47gYD9ZEmA/rkFfP5FuXj8DmV0/CMFcP6DmWz/PCVs/mCpaP/tIWT/9ZFg/n35XP+WVVj/QqlU/Y71UP6HNUz+M21I/J+dRP3XwUD95908/NPxOP6v+TT/f/kw/1PxLP4z4Sj8K8kk/UulIP2XeRz9H0UY/+8FFP4SwRD/lnEM/IIdCPzpvQT80VUA/Ezk/P9gaPj+I+jw/Jtg7P7SzOj82jTk/r2Q4PyI6Nz+TDTY/Bd80P3yuMz/5ezI/gkcxPxkRMD/C2C4/f54tP1ZiLD9IJCs/WuQpP5CiKD/rXic/cRkmPyXSJD8JiSM/Iz4iP3XxID8Eox8/0lIeP+QAHT89rRs/4VcaP9MAGT8ZqBc/tE0WP6rxFD/9kxM/sjQSP8zTED9QcQ8/Qg0OP6SnDD98QAs/zdcJP5ptCD/pAQc/vZQFPxkmBD8DtgI/fkQBPxyj/z5uuvw++s75Psrg9j7k7/M+UfzwPhoG7j5HDes+4BHoPu0T5T53E+I+hxDfPiQL3D5YA9k+KvnVPqTs0j7N3c8+r8zMPlK5yT6/o8Y+/ovDPhhywD4WVr0+ADi6PuAXtz699bM+odGwPpWrrT6ig6o+z1mnPicupD6yAKE+edGdPoWgmj7fbZc+jzmUPqADkT4azI0+BZOKPmtYhz5WHIQ+zd6APrY/ez4Qv3Q+uztuPsm1Zz5NLWE+WaJaPv8UVD5RhU0+Y/NGPkZfQD4NyTk+yjAzPpCWLD5y+iU+glwfPtK8GD52GxI+f3gLPgHUBD4dXPw9cg3vPSm84T1maNQ9ThLHPQi6uT24X6w9hAOfPZKlkT0HRoQ9EsptPXoFUz2RPjg9pHUdPfyqAj3Kvc88ViOaPGEOSTzFp7s7PXpWuglG8bsS3WO8UIqnvEEk3bzjXQm9IygkvZbwPr3ytlm96np0vRqeh71C/ZS9yFqivYa2r71XEL29FmjKvZu9173DEOW9aWHyvWWv/71KfQa+aCENvvrDE77tZBq+LgQhvqyhJ75TPS6+ENc0vtJuO76GBEK+GZhIvnkpT76UuFW+VkVcvq7PYr6JV2m+1txvvoBfdr5433y+VK6BvoHrhL44J4i+cmGLviSajr5F0ZG+zQaVvrM6mL7ubJu+dJ2evj3Mob5A+aS+cySovs9Nq75Jda6+2pqxvni+tL4b4Le+uv+6vksdvr7HOMG+JVLEvltpx75hfsq+MJHNvryh0L4AsNO+8bvWvofF2b66zNy+gdHfvtPT4r6p0+W++tDovr3L677qw+6+eLnxvmCs9L6anPe+HIr6vt90/b5tLgC/A6EBvy0SA7/mgQS/LPAFv/pcB79MyAi/HjIKv2yaC78yAQ2/bGYOvxfKD78tLBG/rIwSv5DrE7/VSBW/dqQWv3H+F7/AVhm/Yq0av1ECHL+KVR2/Cacev8v2H7/MRCG/CZEiv3zbI78kJCW//WomvwKwJ78w8yi/hDQqv/pzK7+PsSy/P+0tvwcnL7/jXjC/0JQxv8rIMr/O+jO/2io1v+hYNr/3hDe/Aq84vwfXOb8D/Tq/8SA8v89CPb+aYj6/T4A/v+mbQL9otUG/xsxCvwHiQ78X9US/AwZGv8QUR79WIUi/titJv+EzSr/UOUu/jT1Mvwk/Tb9EPk6/PTtPv/A1UL9aLlG/eSRSv0oYU7/KCVS/9/hUv87lVb9N0Fa/cLhXvzeeWL+cgVm/oGJavz5BW791HVy/Qfdcv6LOXb+Uo16/FHZfvyJGYL+6E2G/2d5hv3+nYr+pbWO/VDFkv37yZL8msWW/SW1mv+UmZ7/43We/gJJov3tEab/o82m/w6BqvwxLa7/A8mu/3pdsv2Q6bb9Q2m2/oHduv1MSb79mqm+/2T9wv6nScL/VYnG/W/Bxvzp7cr9xA3O//Yhzv94LdL8RjHS/lgl1v2uEdb+P/HW/AHJ2v73kdr/GVHe/GMJ3v7IseL+TlHi/u/l4vyhceb/Zu3m/zRh6vwJzer95ynq/Lx97vyRxe79YwHu/yQx8v3ZWfL9fnXy/guF8v+Aifb93YX2/R519v0/Wfb+ODH6/BEB+v7Bwfr+Snn6/qcl+v/Xxfr91F3+/KTp/vxBaf78rd3+/eJF/v/iof7+qvX+/j89/v6Xef7/t6n+/ZvR/vxH7f7/t/n+/6v9/P+X4fz+m5n8/Lcl/P3ygfz+VbH8/eS1/Pyzjfj+xjX4/Cy1+Pz/BfT9SSn0/SMh8Pyg7fD/3ons/vf96P4BRej9ImHk/HtR4PwkFeD8TK3c/RkZ2P6xWdT9OXHQ/OFdzP3ZHcj8TLXE/HAhwP57Ybj+lnm0/QFpsP34Laz9rsmk/GU9oP5bhZj/yaWU/PuhjP4tcYj/qxmA/bSdfPyZ+XT8oy1s/hQ5aP1NIWD+jeFY/i59UPyC9Uj920VA/o9xOP73eTD/b10o/E8hIP3yvRj8ujkQ/QWRCP84xQD/s9j0/tLM7P0JoOT+tFDc/ELk0P4ZVMj8p6i8/FXctP2X8Kj81eig/ofAlP8ZfIz/AxyA/rCgeP6mCGz/U1Rg/SiIWPypoEz+TpxA/pOANP3sTCz85QAg//WYFP+eHAj8tRv8+W3H5PpeR8z4kp+0+RbLnPjyz4T5Mqts+upfVPsl7zz6+Vsk+3yjDPnDyvD63s7Y++2ywPoEeqj6SyKM+c2udPmwHlz7FnJA+xyuKPrm0gz7Hb3o+IWttPhFcYD4pQ1M+/SBGPiD2OD4mwys+pIgePi1HET5X/wM+bmPtPcK90j3aDrg93ledPfuZgj28rE89ZRwaPZkKyTwqpzs8wXjWui1EcbxX1+O8TIEnvZQPXb0VSom9WgakvW27vr0iaNm9Tgv0veNRB74vmBS+99chvqUQL76mQTy+ZGpJvk2KVr7NoGO+UK1wvkWvfb4NU4W+nsiLvg04kr4SoZi+ZgOfvr9epb7Ysqu+af+xvitEuL7YgL6+KrXEvtvgyr6lA9G+RR3XvnUt3b7xM+O+djDpvsAi776NCvW+m+f6vtNcAL84QAO/2x0Gv5v1CL9axwu/95IOv1RYEb9QFxS/zc8Wv6yBGb/QLBy/GtEev21uIb+rBCS/t5Mmv3QbKb/Hmyu/kxQuv7uFML8m7zK/t1A1v1WqN7/j+zm/SkU8v26GPr83v0C/i+9Cv1MXRb91Nke/2kxJv2taS78QX02/s1pPvz5NUb+aNlO/sxZVv3LtVr/Fuli/lX5av9A4XL9i6V2/OJBfv0AtYb9nwGK/nElkv87IZb/rPWe/46hov6cJar8nYGu/VKxsvx/ubb96JW+/WFJwv6t0cb9njHK/f5lzv+ebdL+Vk3W/foB2v5Zid7/UOXi/LwZ5v57Heb8Xfnq/lCl7vw3Ke796X3y/1el8vxhpfb8+3X2/QEZ+vxykfr/M9n6/TT5/v5x6f7+2q3+/mdF/v0Psf7+0+3+/pv9/P5Tjfz+cmn8/zCR/PziCfj/9sn0/P7d8PyqPez/zOno/1Lp4PxEPdz/2N3U/1TVzPwgJcT/xsW4/+TBsP5CGaT8vs2Y/U7djP4STYD9OSF0/RdZZPwM+Vj8rgFI/ZZ1OP16WSj/Ma0Y/ah5CP/muPT9AHjk/DW00PzKcLz+HrCo/654lPz90ID9tLRs/YcsVPw1PED9ouQo/awsFPy6M/j7d1PI+8fLmPn/o2j6mt84+iGLCPk7rtT4qVKk+UZ+cPv3Ojz5t5YI+zslrPmKfUT4wUDc+0+AcPvFVAj5iaM89fACaPST7SD0bpLs883dWu2Q98by7wGO9Z12nvRS93L0D+wi+c38jvjTnPb6kLVi+Jk5yvhIihr6JBZO+NM+fvtV8rL4zDLm+GnvFvlvH0b7N7t2+UO/pvsfG9b6QuQC/JnkGvyQhDL+NsBG/ZiYXv7qBHL+YwSG/FeUmv0rrK79W0zC/W5w1v4NFOr/9zT6//DRDv7x5R799m0u/hJlPvx9zU7+hJ1e/Y7Zav8YeXr8wYGG/D3pkv9hrZ78HNWq/H9Vsv6lLb783mHG/Yrpzv8mxdb8Wfne/9h55vyGUer9V3Xu/Wfp8v/rqfb8Or36/dEZ/vw+xf7/O7n+//////////////////////wAAAAAAAAAAKQApACkAUgBSAHsApADIAN4AQar9AAuYASkAKQApACkAewB7AHsApACkAPAACgEbAScBKQApACkAKQApACkAKQApAHsAewB7AHsA8ADwAPAACgEKATEBPgFIAVABewB7AHsAewB7AHsAewB7APAA8ADwAPAAMQExATEBPgE+AVcBXwFmAWwB8ADwAPAA8ADwAPAA8ADwADEBMQExATEBVwFXAVcBXwFfAXIBeAF+AYMBAEHQ/gALuAQoBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBygPFxwfIiQmJykqKywtLi8vMTIzNDU2Nzc5Ojs8PT4/P0FCQ0RFRkdHKBQhKTA1OT1AQkVHSUtMTlBSVVdZW1xeYGJlZ2lrbG5wcnV3eXt8foAoFyczPENJT1NXW15hZGZpa29zdnl8foGDh4uOkZSWmZufo6aprK6xsyMcMUFOWWNrcnh+hIiNkZWZn6WrsLS5vcDHzdPY3OHl6O/1+xUhOk9hcH2JlJ2mrra9w8nP2ePr8/sRIz9WanuLmKWxu8XO1t7m7foZHzdLW2l1gIqSmqGorrS5vsjQ197l6/D1/xAkQVlugJCfrbnEz9ni6vL6CylKZ4CXrL/R4fH/CStPboqjus/j9gwnR2N7kKS2xtbk8f0JLFFxjqjA1uv/BzFaf6C/3PcGM1+GqsvqBy9Xe5u41O0GNGGJrtDwBTlql8DnBTtvnsrzBTdnk7vgBTxxoc74BEF6r+AEQ3+26gAAAAAAAAAA4ODg4ODg4OCgoKCgubm5srKohj0l4ODg4ODg4ODw8PDwz8/Pxsa3kEIooKCgoKCgoKC5ubm5wcHBt7esikAm8PDw8PDw8PDPz8/PzMzMwcG0j0Ioubm5ubm5ubnBwcHBwcHBt7esikEnz8/Pz8/Pz8/MzMzMycnJvLywjUIowcHBwcHBwcHBwcHBwsLCuLiti0EnzMzMzMzMzMzJycnJxsbGu7uvjEIoAEGSgwELuSlgAMAAIAGAASAAgADgAEABoAFAAKAAAAFgAcABCABoAMgAKAGIASgAiADoAEgBqAFIAKgACAFoAcgBEABwANAAMAGQATAAkADwAFABsAFQALAAEAFwAdABGAB4ANgAOAGYATgAmAD4AFgBuAFYALgAGAF4AdgBBABkAMQAJAGEASQAhADkAEQBpAFEAKQABAFkAcQBDABsAMwALAGMASwAjADsAEwBrAFMAKwADAFsAcwBFAB0ANQANAGUATQAlAD0AFQBtAFUALQAFAF0AdQBHAB8ANwAPAGcATwAnAD8AFwBvAFcALwAHAF8AdwBAQBhAMEAIQGBASEAgQDhAEEBoQFBAKEAAQFhAcEBCQBpAMkAKQGJASkAiQDpAEkBqQFJAKkACQFpAckBEQBxANEAMQGRATEAkQDxAFEBsQFRALEAEQFxAdEBGQB5ANkAOQGZATkAmQD5AFkBuQFZALkAGQF5AdkBBQBlAMUAJQGFASUAhQDlAEUBpQFFAKUABQFlAcUBDQBtAM0ALQGNAS0AjQDtAE0BrQFNAK0ADQFtAc0BFQB1ANUANQGVATUAlQD1AFUBtQFVALUAFQF1AdUBHQB9AN0APQGdAT0AnQD9AF0BvQFdAL0AHQF9Ad0BAgBiAMIAIgGCASIAggDiAEIBogFCAKIAAgFiAcIBCgBqAMoAKgGKASoAigDqAEoBqgFKAKoACgFqAcoBEgByANIAMgGSATIAkgDyAFIBsgFSALIAEgFyAdIBGgB6ANoAOgGaAToAmgD6AFoBugFaALoAGgF6AdoBBgBmAMYAJgGGASYAhgDmAEYBpgFGAKYABgFmAcYBDgBuAM4ALgGOAS4AjgDuAE4BrgFOAK4ADgFuAc4BFgB2ANYANgGWATYAlgD2AFYBtgFWALYAFgF2AdYBHgB+AN4APgGeAT4AngD+AF4BvgFeAL4AHgF+Ad4BAwBjAMMAIwGDASMAgwDjAEMBowFDAKMAAwFjAcMBCwBrAMsAKwGLASsAiwDrAEsBqwFLAKsACwFrAcsBEwBzANMAMwGTATMAkwDzAFMBswFTALMAEwFzAdMBGwB7ANsAOwGbATsAmwD7AFsBuwFbALsAGwF7AdsBBwBnAMcAJwGHAScAhwDnAEcBpwFHAKcABwFnAccBDwBvAM8ALwGPAS8AjwDvAE8BrwFPAK8ADwFvAc8BFwB3ANcANwGXATcAlwD3AFcBtwFXALcAFwF3AdcBHwB/AN8APwGfAT8AnwD/AF8BvwFfAL8AHwF/Ad8BAACAPwAAAIBj+n8/v3VWvIvpfz8Kcda8ec1/P+fOIL0vpn8/Ol5Wva9zfz8T8oW9+TV/PyqvoL0S7X4/M2W7vf2Yfj8EE9a9vDl+P3O38L1Vz30/qKgFvstZfT+77xK+Jdl8P1wwIL5nTXw/9Wktvpi2ez/zmzq+vhR7P8LFR77iZ3o/zeZUvgmweT+C/mG+PO14P00Mb76EH3g/nA98vupGdz/ug4S+d2N2Pz76ir42dXU/dWqRvjB8dD9M1Je+cXhzP3o3nr4DanI/t5OkvvRQcT+86Kq+Ty1wP0E2sb4h/24/AXy3vnbGbT+0ub2+XoNsPxXvw77nNWs/3hvKvh7eaT/JP9C+EnxoP5Ja1r7UD2c/82vcvnSZZT+qc+K+ARlkP3Fx6L6NjmI/B2Xuvij6YD8nTvS+5ltfP5As+r7Xs10/AAAAvw8CXD8b5AK/oEZaP3fCBb+egVg/9poIvx2zVj93bQu/MdtUP9o5Dr/v+VI/AAARv2wPUT/KvxO/vRtPPxh5Fr/4Hk0/zSsZvzQZSz/K1xu/iApJP/F8Hr8K80Y/JBshv9HSRD9GsiO/96lCPzpCJr+TeEA/48oov70+Pj8lTCu/j/w7P+PFLb8isjk/ATgwv5BfNz9lojK/8wQ1P/MENb9lojI/kF83vwE4MD8isjm/48UtP4/8O78lTCs/vT4+v+PKKD+TeEC/OkImP/epQr9GsiM/0dJEvyQbIT8K80a/8XweP4gKSb/K1xs/NBlLv80rGT/4Hk2/GHkWP70bT7/KvxM/bA9RvwAAET/v+VK/2jkOPzHbVL93bQs/HbNWv/aaCD+egVi/d8IFP6BGWr8b5AI/DwJcvwAAAD/Xs12/kCz6PuZbX78nTvQ+KPpgvwdl7j6NjmK/cXHoPgEZZL+qc+I+dJllv/Nr3D7UD2e/klrWPhJ8aL/JP9A+Ht5pv94byj7nNWu/Fe/DPl6DbL+0ub0+dsZtvwF8tz4h/26/QTaxPk8tcL+86Ko+9FBxv7eTpD4DanK/ejeePnF4c79M1Jc+MHx0v3VqkT42dXW/PvqKPndjdr/ug4Q+6kZ3v5wPfD6EH3i/TQxvPjzteL+C/mE+CbB5v83mVD7iZ3q/wsVHPr4Ue7/zmzo+mLZ7v/VpLT5nTXy/XDAgPiXZfL+77xI+y1l9v6ioBT5Vz32/c7fwPbw5fr8EE9Y9/Zh+vzNluz0S7X6/Kq+gPfk1f78T8oU9r3N/vzpeVj0vpn+/584gPXnNf78KcdY8i+l/v791Vjxj+n+/ADCNJAAAgL+/dVa8Y/p/vwpx1ryL6X+/584gvXnNf786Xla9L6Z/vxPyhb2vc3+/Kq+gvfk1f78zZbu9Eu1+vwQT1r39mH6/c7fwvbw5fr+oqAW+Vc99v7vvEr7LWX2/XDAgviXZfL/1aS2+Z018v/ObOr6Ytnu/wsVHvr4Ue7/N5lS+4md6v4L+Yb4JsHm/TQxvvjzteL+cD3y+hB94v+6DhL7qRne/PvqKvndjdr91apG+NnV1v0zUl74wfHS/ejeevnF4c7+3k6S+A2pyv7zoqr70UHG/QTaxvk8tcL8BfLe+If9uv7S5vb52xm2/Fe/Dvl6DbL/eG8q+5zVrv8k/0L4e3mm/klrWvhJ8aL/za9y+1A9nv6pz4r50mWW/cXHovgEZZL8HZe6+jY5ivydO9L4o+mC/kCz6vuZbX78AAAC/17NdvxvkAr8PAly/d8IFv6BGWr/2mgi/noFYv3dtC78ds1a/2jkOvzHbVL8AABG/7/lSv8q/E79sD1G/GHkWv70bT7/NKxm/+B5Nv8rXG780GUu/8Xwev4gKSb8kGyG/CvNGv0ayI7/R0kS/OkImv/epQr/jyii/k3hAvyVMK7+9Pj6/48Utv4/8O78BODC/IrI5v2WiMr+QXze/8wQ1v/MENb+QXze/ZaIyvyKyOb8BODC/j/w7v+PFLb+9Pj6/JUwrv5N4QL/jyii/96lCvzpCJr/R0kS/RrIjvwrzRr8kGyG/iApJv/F8Hr80GUu/ytcbv/geTb/NKxm/vRtPvxh5Fr9sD1G/yr8Tv+/5Ur8AABG/MdtUv9o5Dr8ds1a/d20Lv56BWL/2mgi/oEZav3fCBb8PAly/G+QCv9ezXb8AAAC/5ltfv5As+r4o+mC/J070vo2OYr8HZe6+ARlkv3Fx6L50mWW/qnPivtQPZ7/za9y+Enxov5Ja1r4e3mm/yT/Qvuc1a7/eG8q+XoNsvxXvw752xm2/tLm9viH/br8BfLe+Ty1wv0E2sb70UHG/vOiqvgNqcr+3k6S+cXhzv3o3nr4wfHS/TNSXvjZ1db91apG+d2N2vz76ir7qRne/7oOEvoQfeL+cD3y+PO14v00Mb74JsHm/gv5hvuJner/N5lS+vhR7v8LFR76Ytnu/85s6vmdNfL/1aS2+Jdl8v1wwIL7LWX2/u+8SvlXPfb+oqAW+vDl+v3O38L39mH6/BBPWvRLtfr8zZbu9+TV/vyqvoL2vc3+/E/KFvS+mf786Xla9ec1/v+fOIL2L6X+/CnHWvGP6f7+/dVa8AACAvwAwDaVj+n+/v3VWPIvpf78KcdY8ec1/v+fOID0vpn+/Ol5WPa9zf78T8oU9+TV/vyqvoD0S7X6/M2W7Pf2Yfr8EE9Y9vDl+v3O38D1Vz32/qKgFPstZfb+77xI+Jdl8v1wwID5nTXy/9WktPpi2e7/zmzo+vhR7v8LFRz7iZ3q/zeZUPgmweb+C/mE+PO14v00Mbz6EH3i/nA98PupGd7/ug4Q+d2N2vz76ij42dXW/dWqRPjB8dL9M1Jc+cXhzv3o3nj4DanK/t5OkPvRQcb+86Ko+Ty1wv0E2sT4h/26/AXy3PnbGbb+0ub0+XoNsvxXvwz7nNWu/3hvKPh7eab/JP9A+Enxov5Ja1j7UD2e/82vcPnSZZb+qc+I+ARlkv3Fx6D6NjmK/B2XuPij6YL8nTvQ+5ltfv5As+j7Xs12/AAAAPw8CXL8b5AI/oEZav3fCBT+egVi/9poIPx2zVr93bQs/MdtUv9o5Dj/v+VK/AAARP2wPUb/KvxM/vRtPvxh5Fj/4Hk2/zSsZPzQZS7/K1xs/iApJv/F8Hj8K80a/JBshP9HSRL9GsiM/96lCvzpCJj+TeEC/48ooP70+Pr8lTCs/j/w7v+PFLT8isjm/ATgwP5BfN79lojI/8wQ1v/MENT9lojK/kF83PwE4ML8isjk/48Utv4/8Oz8lTCu/vT4+P+PKKL+TeEA/OkImv/epQj9GsiO/0dJEPyQbIb8K80Y/8Xwev4gKST/K1xu/NBlLP80rGb/4Hk0/GHkWv70bTz/KvxO/bA9RPwAAEb/v+VI/2jkOvzHbVD93bQu/HbNWP/aaCL+egVg/d8IFv6BGWj8b5AK/DwJcPwAAAL/Xs10/kCz6vuZbXz8nTvS+KPpgPwdl7r6NjmI/cXHovgEZZD+qc+K+dJllP/Nr3L7UD2c/klrWvhJ8aD/JP9C+Ht5pP94byr7nNWs/Fe/Dvl6DbD+0ub2+dsZtPwF8t74h/24/QTaxvk8tcD+86Kq+9FBxP7eTpL4DanI/ejeevnF4cz9M1Je+MHx0P3Vqkb42dXU/PvqKvndjdj/ug4S+6kZ3P5wPfL6EH3g/TQxvvjzteD+C/mG+CbB5P83mVL7iZ3o/wsVHvr4Uez/zmzq+mLZ7P/VpLb5nTXw/XDAgviXZfD+77xK+y1l9P6ioBb5Vz30/c7fwvbw5fj8EE9a9/Zh+PzNlu70S7X4/Kq+gvfk1fz8T8oW9r3N/PzpeVr0vpn8/584gvXnNfz8Kcda8i+l/P791Vrxj+n8/AMhTpQAAgD+/dVY8Y/p/Pwpx1jyL6X8/584gPXnNfz86XlY9L6Z/PxPyhT2vc38/Kq+gPfk1fz8zZbs9Eu1+PwQT1j39mH4/c7fwPbw5fj+oqAU+Vc99P7vvEj7LWX0/XDAgPiXZfD/1aS0+Z018P/ObOj6Ytns/wsVHPr4Uez/N5lQ+4md6P4L+YT4JsHk/TQxvPjzteD+cD3w+hB94P+6DhD7qRnc/PvqKPndjdj91apE+NnV1P0zUlz4wfHQ/ejeePnF4cz+3k6Q+A2pyP7zoqj70UHE/QTaxPk8tcD8BfLc+If9uP7S5vT52xm0/Fe/DPl6DbD/eG8o+5zVrP8k/0D4e3mk/klrWPhJ8aD/za9w+1A9nP6pz4j50mWU/cXHoPgEZZD8HZe4+jY5iPydO9D4o+mA/kCz6PuZbXz8AAAA/17NdPxvkAj8PAlw/d8IFP6BGWj/2mgg/noFYP3dtCz8ds1Y/2jkOPzHbVD8AABE/7/lSP8q/Ez9sD1E/GHkWP70bTz/NKxk/+B5NP8rXGz80GUs/8XweP4gKST8kGyE/CvNGP0ayIz/R0kQ/OkImP/epQj/jyig/k3hAPyVMKz+9Pj4/48UtP4/8Oz8BODA/IrI5P2WiMj+QXzc/8wQ1P/MENT+QXzc/ZaIyPyKyOT8BODA/j/w7P+PFLT+9Pj4/JUwrP5N4QD/jyig/96lCPzpCJj/R0kQ/RrIjPwrzRj8kGyE/iApJP/F8Hj80GUs/ytcbP/geTT/NKxk/vRtPPxh5Fj9sD1E/yr8TP+/5Uj8AABE/MdtUP9o5Dj8ds1Y/d20LP56BWD/2mgg/oEZaP3fCBT8PAlw/G+QCP9ezXT8AAAA/5ltfP5As+j4o+mA/J070Po2OYj8HZe4+ARlkP3Fx6D50mWU/qnPiPtQPZz/za9w+EnxoP5Ja1j4e3mk/yT/QPuc1az/eG8o+XoNsPxXvwz52xm0/tLm9PiH/bj8BfLc+Ty1wP0E2sT70UHE/vOiqPgNqcj+3k6Q+cXhzP3o3nj4wfHQ/TNSXPjZ1dT91apE+d2N2Pz76ij7qRnc/7oOEPoQfeD+cD3w+PO14P00Mbz4JsHk/gv5hPuJnej/N5lQ+vhR7P8LFRz6Ytns/85s6PmdNfD/1aS0+Jdl8P1wwID7LWX0/u+8SPlXPfT+oqAU+vDl+P3O38D39mH4/BBPWPRLtfj8zZbs9+TV/PyqvoD2vc38/E/KFPS+mfz86XlY9ec1/P+fOID2L6X8/CnHWPGP6fz+/dVY8AAAwAGAAkADAABAAQABwAKAA0AAgAFAAgACwAOAABAA0AGQAlADEABQARAB0AKQA1AAkAFQAhAC0AOQACAA4AGgAmADIABgASAB4AKgA2AAoAFgAiAC4AOgADAA8AGwAnADMABwATAB8AKwA3AAsAFwAjAC8AOwAAQAxAGEAkQDBABEAQQBxAKEA0QAhAFEAgQCxAOEABQA1AGUAlQDFABUARQB1AKUA1QAlAFUAhQC1AOUACQA5AGkAmQDJABkASQB5AKkA2QApAFkAiQC5AOkADQA9AG0AnQDNAB0ATQB9AK0A3QAtAF0AjQC9AO0AAgAyAGIAkgDCABIAQgByAKIA0gAiAFIAggCyAOIABgA2AGYAlgDGABYARgB2AKYA1gAmAFYAhgC2AOYACgA6AGoAmgDKABoASgB6AKoA2gAqAFoAigC6AOoADgA+AG4AngDOAB4ATgB+AK4A3gAuAF4AjgC+AO4AAwAzAGMAkwDDABMAQwBzAKMA0wAjAFMAgwCzAOMABwA3AGcAlwDHABcARwB3AKcA1wAnAFcAhwC3AOcACwA7AGsAmwDLABsASwB7AKsA2wArAFsAiwC7AOsADwA/AG8AnwDPAB8ATwB/AK8A3wAvAF8AjwC/AO8A8AAAAImIiDsBAAAABQAwAAMAEAAEAAQABAABAEHcrAELBlBUAABQRQBB8qwBC4kCGAAwAEgAYAAIACAAOABQAGgAEAAoAEAAWABwAAQAHAA0AEwAZAAMACQAPABUAGwAFAAsAEQAXAB0AAEAGQAxAEkAYQAJACEAOQBRAGkAEQApAEEAWQBxAAUAHQA1AE0AZQANACUAPQBVAG0AFQAtAEUAXQB1AAIAGgAyAEoAYgAKACIAOgBSAGoAEgAqAEIAWgByAAYAHgA2AE4AZgAOACYAPgBWAG4AFgAuAEYAXgB2AAMAGwAzAEsAYwALACMAOwBTAGsAEwArAEMAWwBzAAcAHwA3AE8AZwAPACcAPwBXAG8AFwAvAEcAXwB3AHgAAACIiAg8AgAAAAUAGAADAAgAAgAEAAQAAQBBjK8BCwZwVgAAUEUAQaKvAQuNAQwAGAAkADAABAAQABwAKAA0AAgAFAAgACwAOAABAA0AGQAlADEABQARAB0AKQA1AAkAFQAhAC0AOQACAA4AGgAmADIABgASAB4AKgA2AAoAFgAiAC4AOgADAA8AGwAnADMABwATAB8AKwA3AAsAFwAjAC8AOwA8AAAAiYiIPAMAAAAFAAwAAwAEAAQAAQBBxLABCyygVwAAUEUAAAAAAAAAAJ0+AEBePgDABD4AgO0+AECJPgAAAAAAwEw/AADNPQBBgbEBC9UB/wD/AP8A/wD/AP4BAAH/AP4A/QIAAf8A/gD9AwAB/8BYAADIWAAA2VgAAOpYAAD5WAAAClkAACJZAAAwWQAAc3VjY2VzcwBpbnZhbGlkIGFyZ3VtZW50AGJ1ZmZlciB0b28gc21hbGwAaW50ZXJuYWwgZXJyb3IAY29ycnVwdGVkIHN0cmVhbQByZXF1ZXN0IG5vdCBpbXBsZW1lbnRlZABpbnZhbGlkIHN0YXRlAG1lbW9yeSBhbGxvY2F0aW9uIGZhaWxlZAB1bmtub3duIGVycm9yAEHgsgELhAGViwAAN5gAAP+lAAAEtQAAZ8UAAEXXAADB6gAA//8AAAAAzkAAAMhAAAC4QAAAqkAAAKJAAACaQAAAkEAAAIxAAACcQAAAlkAAAJJAAACOQAAAnEAAAJRAAACKQAAAkEAAAIxAAACUQAAAmEAAAI5AAABwQAAAcEAAAHBAAABwQAAAcEAAQfCzAQvyAkh/QYFCgEGAQIA+gECAQIBcTlxPXE5aT3QpcyhyKIQahBqREaEMsAqxCxizMIo2hzaENYY4hTeEN4Q9ckZgSlhLWFdKWUJbQ2Q7bDJ4KHolYStOMlNOVFFYS1ZKV0daSV1KXUptKHIkdSJ1Io8RkRKSE6IMpQqyB70GvgixCReyNnM/ZkJiRWNKWUdbSVtOWVZQXEJdQGY7ZzxoPHU0eyyKI4UfYSZNLT1aXTxpKmspbi10JnEmcCZ8GoQbiBOMFJsOnxCeEqoNsQq7CMAGrwmfChWyO25HVktVVFNbQlhJV0hcS2JIaTprNnM0cjdwOIEzhCiWIYwdYiNNKip5YEJsK28odSx7IHgkdyF/IYYiixWTF5gUnhmaGqYVrRC4DbgKlg2LDxayP3JKUlRTXFJnPmBIYENlSWtIcTd2NH00djR1N4cxiSedIJEdYSFNKAAAZj8AAEw/AAAmPwAAAD8Ahms/ABQuPwBwvT4A0Ew+AgEAQfG2AQsXCA0QExUXGBobHB0eHyAgISIiIyQkJSUAQZa3AQvhFeA/AAAAAAAA4L8DAAAABAAAAAQAAAAGAAAAg/miAERObgD8KRUA0VcnAN009QBi28AAPJmVAEGQQwBjUf4Au96rALdhxQA6biQA0k1CAEkG4AAJ6i4AHJLRAOsd/gApsRwA6D6nAPU1ggBEuy4AnOmEALQmcABBfl8A1pE5AFODOQCc9DkAi1+EACj5vQD4HzsA3v+XAA+YBQARL+8AClqLAG0fbQDPfjYACcsnAEZPtwCeZj8ALepfALondQDl68cAPXvxAPc5BwCSUooA+2vqAB+xXwAIXY0AMANWAHv8RgDwq2sAILzPADb0mgDjqR0AXmGRAAgb5gCFmWUAoBRfAI1AaACA2P8AJ3NNAAYGMQDKVhUAyahzAHviYABrjMAAGcRHAM1nwwAJ6NwAWYMqAIt2xACmHJYARK/dABlX0QClPgUABQf/ADN+PwDCMugAmE/eALt9MgAmPcMAHmvvAJ/4XgA1HzoAf/LKAPGHHQB8kCEAaiR8ANVu+gAwLXcAFTtDALUUxgDDGZ0ArcTCACxNQQAMAF0Ahn1GAONxLQCbxpoAM2IAALTSfAC0p5cAN1XVANc+9gCjEBgATXb8AGSdKgBw16sAY3z4AHqwVwAXFecAwElWADvW2QCnhDgAJCPLANaKdwBaVCMAAB+5APEKGwAZzt8AnzH/AGYeagCZV2EArPtHAH5/2AAiZbcAMuiJAOa/YADvxM0AbDYJAF0/1AAW3tcAWDveAN6bkgDSIigAKIboAOJYTQDGyjIACOMWAOB9ywAXwFAA8x2nABjgWwAuEzQAgxJiAINIAQD1jlsArbB/AB7p8gBISkMAEGfTAKrd2ACuX0IAamHOAAoopADTmbQABqbyAFx3fwCjwoMAYTyIAIpzeACvjFoAb9e9AC2mYwD0v8sAjYHvACbBZwBVykUAytk2ACio0gDCYY0AEsl3AAQmFAASRpsAxFnEAMjFRABNspEAABfzANRDrQApSeUA/dUQAAC+/AAelMwAcM7uABM+9QDs8YAAs+fDAMf4KACTBZQAwXE+AC4JswALRfMAiBKcAKsgewAutZ8AR5LCAHsyLwAMVW0AcqeQAGvnHwAxy5YAeRZKAEF54gD034kA6JSXAOLmhACZMZcAiO1rAF9fNgC7/Q4ASJq0AGekbABxckIAjV0yAJ8VuAC85QkAjTElAPd0OQAwBRwADQwBAEsIaAAs7lgAR6qQAHTnAgC91iQA932mAG5IcgCfFu8AjpSmALSR9gDRU1EAzwryACCYMwD1S34AsmNoAN0+XwBAXQMAhYl/AFVSKQA3ZMAAbdgQADJIMgBbTHUATnHUAEVUbgALCcEAKvVpABRm1QAnB50AXQRQALQ72wDqdsUAh/kXAElrfQAdJ7oAlmkpAMbMrACtFFQAkOJqAIjZiQAsclAABKS+AHcHlADzMHAAAPwnAOpxqABmwkkAZOA9AJfdgwCjP5cAQ5T9AA2GjAAxQd4AkjmdAN1wjAAXt+cACN87ABU3KwBcgKAAWoCTABARkgAP6NgAbICvANv/SwA4kA8AWRh2AGKlFQBhy7sAx4m5ABBAvQDS8gQASXUnAOu29gDbIrsAChSqAIkmLwBkg3YACTszAA6UGgBROqoAHaPCAK/trgBcJhIAbcJNAC16nADAVpcAAz+DAAnw9gArQIwAbTGZADm0BwAMIBUA2MNbAPWSxADGrUsATsqlAKc3zQDmqTYAq5KUAN1CaAAZY94AdozvAGiLUgD82zcArqGrAN8VMQAArqEADPvaAGRNZgDtBbcAKWUwAFdWvwBH/zoAavm5AHW+8wAok98Aq4AwAGaM9gAEyxUA+iIGANnkHQA9s6QAVxuPADbNCQBOQukAE76kADMjtQDwqhoAT2WoANLBpQALPw8AW3jNACP5dgB7iwQAiRdyAMamUwBvbuIA7+sAAJtKWADE2rcAqma6AHbPzwDRAh0AsfEtAIyZwQDDrXcAhkjaAPddoADGgPQArPAvAN3smgA/XLwA0N5tAJDHHwAq27YAoyU6AACvmgCtU5MAtlcEACkttABLgH4A2genAHaqDgB7WaEAFhIqANy3LQD65f0Aidv+AIm+/QDkdmwABqn8AD6AcACFbhUA/Yf/ACg+BwBhZzMAKhiGAE296gCz568Aj21uAJVnOQAxv1sAhNdIADDfFgDHLUMAJWE1AMlwzgAwy7gAv2z9AKQAogAFbOQAWt2gACFvRwBiEtIAuVyEAHBhSQBrVuAAmVIBAFBVNwAe1bcAM/HEABNuXwBdMOQAhS6pAB2ywwChMjYACLekAOqx1AAW9yEAj2nkACf/dwAMA4AAjUAtAE/NoAAgpZkAs6LTAC9dCgC0+UIAEdrLAH2+0ACb28EAqxe9AMqigQAIalwALlUXACcAVQB/FPAA4QeGABQLZACWQY0Ah77eANr9KgBrJbYAe4k0AAXz/gC5v54AaGpPAEoqqABPxFoALfi8ANdamAD0x5UADU2NACA6pgCkV18AFD+xAIA4lQDMIAEAcd2GAMnetgC/YPUATWURAAEHawCMsKwAssDQAFFVSAAe+w4AlXLDAKMGOwDAQDUABtx7AOBFzABOKfoA1srIAOjzQQB8ZN4Am2TYANm+MQCkl8MAd1jUAGnjxQDw2hMAujo8AEYYRgBVdV8A0r31AG6SxgCsLl0ADkTtABw+QgBhxIcAKf3pAOfW8wAifMoAb5E1AAjgxQD/140AbmriALD9xgCTCMEAfF10AGutsgDNbp0APnJ7AMYRagD3z6kAKXPfALXJugC3AFEA4rINAHS6JADlfWAAdNiKAA0VLACBGAwAfmaUAAEpFgCfenYA/f2+AFZF7wDZfjYA7NkTAIu6uQDEl/wAMagnAPFuwwCUxTYA2KhWALSotQDPzA4AEoktAG9XNAAsVokAmc7jANYguQBrXqoAPiqcABFfzAD9C0oA4fT7AI47bQDihiwA6dSEAPy0qQDv7tEALjXJAC85YQA4IUQAG9nIAIH8CgD7SmoALxzYAFO0hABOmYwAVCLMACpV3ADAxtYACxmWABpwuABplWQAJlpgAD9S7gB/EQ8A9LURAPzL9QA0vC0ANLzuAOhdzADdXmAAZ46bAJIz7wDJF7gAYVibAOFXvABRg8YA2D4QAN1xSAAtHN0ArxihACEsRgBZ89cA2XqYAJ5UwABPhvoAVgb8AOV5rgCJIjYAOK0iAGeT3ABV6KoAgiY4AMrnmwBRDaQAmTOxAKnXDgBpBUgAZbLwAH+IpwCITJcA+dE2ACGSswB7gkoAmM8hAECf3ADcR1UA4XQ6AGfrQgD+nd8AXtRfAHtnpAC6rHoAVfaiACuIIwBBulUAWW4IACEqhgA5R4MAiePmAOWe1ABJ+0AA/1bpABwPygDFWYoAlPorANPBxQAPxc8A21quAEfFhgCFQ2IAIYY7ACx5lAAQYYcAKkx7AIAsGgBDvxIAiCaQAHg8iQCoxOQA5dt7AMQ6wgAm9OoA92eKAA2SvwBloysAPZOxAL18CwCkUdwAJ91jAGnh3QCalBkAqCmVAGjOKAAJ7bQARJ8gAE6YygBwgmMAfnwjAA+5MgCn9Y4AFFbnACHxCAC1nSoAb35NAKUZUQC1+asAgt/WAJbdYQAWNgIAxDqfAIOioQBy7W0AOY16AIK4qQBrMlwARidbAAA07QDSAHcA/PRVAAFZTQDgcYAAQYPNAQt+QPsh+T8AAAAALUR0PgAAAICYRvg8AAAAYFHMeDsAAACAgxvwOQAAAEAgJXo4AAAAgCKC4zYAAAAAHfNpNQBnAADAaQAAfGwAADRvAADocQAAmHQAAER3AACseAAAaHkAANx5AAAoegAAYHoAAIB6AACYegAApHoAAAAAAAABAEHE0wELwSMBAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAMAAAAFAAAABwAAAAkAAAALAAAADQAAAA8AAAARAAAAEwAAABUAAAAXAAAAGQAAABsAAAAdAAAAHwAAACEAAAAjAAAAJQAAACcAAAApAAAAKwAAAC0AAAAvAAAAMQAAADMAAAA1AAAANwAAADkAAAA7AAAAPQAAAD8AAABBAAAAQwAAAEUAAABHAAAASQAAAEsAAABNAAAATwAAAFEAAABTAAAAVQAAAFcAAABZAAAAWwAAAF0AAABfAAAAYQAAAGMAAABlAAAAZwAAAGkAAABrAAAAbQAAAG8AAABxAAAAcwAAAHUAAAB3AAAAeQAAAHsAAAB9AAAAfwAAAIEAAACDAAAAhQAAAIcAAACJAAAAiwAAAI0AAACPAAAAkQAAAJMAAACVAAAAlwAAAJkAAACbAAAAnQAAAJ8AAAChAAAAowAAAKUAAACnAAAAqQAAAKsAAACtAAAArwAAALEAAACzAAAAtQAAALcAAAC5AAAAuwAAAL0AAAC/AAAAwQAAAMMAAADFAAAAxwAAAMkAAADLAAAAzQAAAM8AAADRAAAA0wAAANUAAADXAAAA2QAAANsAAADdAAAA3wAAAOEAAADjAAAA5QAAAOcAAADpAAAA6wAAAO0AAADvAAAA8QAAAPMAAAD1AAAA9wAAAPkAAAD7AAAA/QAAAP8AAAABAQAAAwEAAAUBAAAHAQAACQEAAAsBAAANAQAADwEAABEBAAATAQAAFQEAABcBAAAZAQAAGwEAAB0BAAAfAQAAIQEAACMBAAAlAQAAJwEAACkBAAArAQAALQEAAC8BAAAxAQAAMwEAADUBAAA3AQAAOQEAADsBAAA9AQAAPwEAAEEBAABDAQAARQEAAEcBAABJAQAASwEAAE0BAABPAQAAUQEAAFMBAABVAQAAVwEAAFkBAABbAQAAXQEAAF8BAAANAAAAGQAAACkAAAA9AAAAVQAAAHEAAACRAAAAtQAAAN0AAAAJAQAAOQEAAG0BAAClAQAA4QEAACECAABlAgAArQIAAPkCAABJAwAAnQMAAPUDAABRBAAAsQQAABUFAAB9BQAA6QUAAFkGAADNBgAARQcAAMEHAABBCAAAxQgAAE0JAADZCQAAaQoAAP0KAACVCwAAMQwAANEMAAB1DQAAHQ4AAMkOAAB5DwAALRAAAOUQAAChEQAAYRIAACUTAADtEwAAuRQAAIkVAABdFgAANRcAABEYAADxGAAA1RkAAL0aAACpGwAAmRwAAI0dAACFHgAAgR8AAIEgAACFIQAAjSIAAJkjAACpJAAAvSUAANUmAADxJwAAESkAADUqAABdKwAAiSwAALktAADtLgAAJTAAAGExAAChMgAA5TMAAC01AAB5NgAAyTcAAB05AAB1OgAA0TsAADE9AACVPgAA/T8AAGlBAADZQgAATUQAAMVFAABBRwAAwUgAAEVKAADNSwAAWU0AAOlOAAB9UAAAFVIAALFTAABRVQAA9VYAAJ1YAABJWgAA+VsAAK1dAABlXwAAIWEAAOFiAAClZAAAbWYAADloAAAJagAA3WsAALVtAACRbwAAcXEAAFVzAAA9dQAAKXcAABl5AAANewAABX0AAAF/AAABgQAABYMAAA2FAAAZhwAAKYkAAD2LAABVjQAAcY8AAJGRAAC1kwAA3ZUAAAmYAAA5mgAAbZwAAKWeAADhoAAAIaMAAGWlAACtpwAA+akAAEmsAACdrgAA9bAAAFGzAACxtQAAFbgAAH26AADpvAAAWb8AAM3BAABFxAAAwcYAAEHJAADFywAATc4AANnQAABp0wAA/dUAAJXYAAAx2wAA0d0AAHXgAAAd4wAAyeUAAHnoAAAt6wAA5e0AAKHwAAA/AAAAgQAAAOcAAAB5AQAAPwIAAEEDAACHBAAAGQYAAP8HAABBCgAA5wwAAPkPAAB/EwAAgRcAAAccAAAZIQAAvyYAAAEtAADnMwAAeTsAAL9DAADBTAAAh1YAABlhAAB/bAAAwXgAAOeFAAD5kwAA/6IAAAGzAAAHxAAAGdYAAD/pAACB/QAA5xIBAHkpAQA/QQEAQVoBAId0AQAZkAEA/6wBAEHLAQDn6gEA+QsCAH8uAgCBUgIAB3gCABmfAgC/xwIAAfICAOcdAwB5SwMAv3oDAMGrAwCH3gMAGRMEAH9JBADBgQQA57sEAPn3BAD/NQUAAXYFAAe4BQAZ/AUAP0IGAIGKBgDn1AYAeSEHAD9wBwBBwQcAhxQIABlqCAD/wQgAQRwJAOd4CQD51wkAfzkKAIGdCgAHBAsAGW0LAL/YCwABRwwA57cMAHkrDQC/oQ0AwRoOAIeWDgAZFQ8Af5YPAMEaEADnoRAA+SsRAP+4EQABSRIAB9wSABlyEwA/CxQAgacUAOdGFQB56RUAP48WAEE4FwCH5BcAGZQYAP9GGQBB/RkA57YaAPlzGwB/NBwAgfgcAAfAHQAZix4Av1kfAAEsIADnASEAedshAL+4IgDBmSMAh34kABlnJQB/UyYAwUMnAOc3KAD5LykA/ysqAAEsKwAHMCwAGTgtAD9ELgCBVC8A52gwAHmBMQA/njIAQb8zAIfkNAAZDjYA/zs3AEFuOADnpDkA+d86AH8fPACBYz0AB6w+ABn5PwC/SkEAAaFCAOf7QwB5W0UAv79GAMEoSACHlkkAGQlLAH+ATADB/E0A531PAPkDUQD/jlIAAR9UAAe0VQAZTlcAP+1YAIGRWgDnOlwAeeldAD+dXwBBVmEAhxRjABnYZAD/oGYAQW9oAOdCagD5G2wAf/ptAEEBAACpAgAACQUAAMEIAABBDgAACRYAAKkgAADBLgAAAUEAAClYAAAJdQAAgZgAAIHDAAAJ9wAAKTQBAAF8AQDBzwEAqTACAAmgAgBBHwMAwa8DAAlTBACpCgUAQdgFAIG9BgApvAcACdYIAAENCgABYwsACdoMACl0DgCBMxAAQRoSAKkqFAAJZxYAwdEYAEFtGwAJPB4AqUAhAMF9JAAB9icAKawrAAmjLwCB3TMAgV44AAkpPQApQEIAAadHAMFgTQCpcFMACdpZAEGgYADBxmcACVFvAKlCdwBBn38AgWqIACmokQAJXJsAAYqlAAE2sAAJZLsAKRjHAIFW0wBBI+AAqYLtAAl5+wDBCgoBQTwZAQkSKQGpkDkBwbxKAQGbXAEpMG8BCYGCAYGSlgGBaasBCQvBASl81wEBwu4BweEGAqngHwIJxDkCQZFUAsFNcAIJ/4wCqaqqAkFWyQKBB+kCKcQJAwmSKwMBd04DAXlyAwmelwMp7L0DgWnlA0EcDgSpCjgECTtjBMGzjwRBe70ECZjsBKkQHQXB604FATCCBSnktgUJD+0FgbckBoHkXQYJnZgGKejUBgHNEgfBUlIHqYCTBwle1gdB8hoIwURhCAldqQipQvMIQf0+CYGUjAkpENwJCXgtCgHUgAoBLNYKCYgtCynwhguBbOILQQVADKnCnwwJrQENwcxlDUEqzA0JzjQOqcCfDsEKDQ8BtXwPKcjuDwlNYxCBTNoQgc9TEQnfzxEphE4SAcjPEsGzUxOpUNoTCahjFEHD7xTBq34VCWsQFqkKpRZBlDwXgRHXFymMdBgJDhUZAaG4GQFPXxoJIgkbKSS2G4FfZhxB3hkdqarQHQnPih7BVUgfQUkJIAm0zSCpoJUhwRlhIgEqMCMp3AIkCTvZJIFRsyWTBgAARQ4AAA8cAAARMwAAW1cAAA2OAAB33QAAOU0BAGPmAQCVswIAH8EDACEdBQCr1wYA3QIJAAezCwDJ/g4AM/8SAOXPFwAvjx0AMV4kAPtgLACtvjUAl6FAAFk3TQADsVsANUNsAD8mfwBBlpQAS9OsAH0hyAAnyeYA6RYJAdNbLwGF7VkBTyaJAVFlvQGbDvcBTYs2ArdJfAJ5vcgCo18cA9WudwNfL9sDYWtHBOvyvAQdXDwFR0PGBQlLWwZzHPwGJWepB2/hYwhxSCwJO2ADCu3z6QrX1eALmd/oDEPyAg519i8Pf9xwEIGcxhGLNjITvbK0FGchTxYpmwIYE0HQGcU8uRuPwL4dkQfiH9tVJCKN+IYk90ULJ7mdsinjaH4sFRpwL58tiTKhKcs1K543OV0l0DyHY5ZASQeMRLPJskhlbgxNr8OaUbGiX1Z771xbLZmUYBeaCGbZ97prg8OtcbUZ43e/Il1+HSMAAHFNAACRnAAA/SYBAGUMAgDpdwMAmaIFADXWCAAtcA0A4eQTACHDHADttygAdZI4AFlITQAp+mcAJfiJAD3HtABRJuoAsRMsAd3SfAGF8t4ByVJVArkr4wIVFIwDTQhUBMFxPwVBLlMGzZeUB5WMCQk5d7gKSVeoDAXK4A5dE2oRMSdNFNGykxe9JkgbpcB1H6mVKCTZnG0p9blSL23I5jWhpjk9YUFcRa2fYE617llYGY5cY2kcfm/lg9V8/70AAAGoAQCPawMA8Z4GAD8jDADBPRUAj7YjAPH8OQD/UVsAAfqLAA910QBxvzIBP5q4AcHcbQIPz18DcY6eBP97PQYBtlMIj5z8CvFhWA4/p4wSwSXFF49lNB7xgRQm//unLwGcOjsPYiJJcYbAWT+Kgm3BWOOEAQ4EAJEhCQARLBMAQe4lAEFPRwCRQ4AAEffdAAFGcwEBkloCEQG4A5E1vAVBj6cIQQbODBGymxKRD5oaARp2JQFMBzSRnldHEZ2sYEGmkYEjURYAxZ4yABe5awCZ9tgAa4mgAQ3E/gIfAVAFIdkdCTNsMA/VoqQYp2cIJyn9fTx7tedbHXcdia+gLcmtjnsAieYZATmWXgI9FtgEtWN3CeEoxhEhAzQgdUiCOH1XV2C/W68CgdgnBveEXg3p/q0bf4vrNoG35WgXA5zBwQz/DjlqhSIZ7pFLgXgrnjPhCVQPAAAACgAAAAUAAAAAAAAAAAEBAQIDAwMCAwMDAgMDAwADDA8wMzw/wMPMz/Dz/P8BAAAAAAAAAAMAAAAAAAAAAgAAAAEAAAAHAAAAAAAAAAQAAAADAAAABgAAAAEAAAAFAAAAAgAAAA8AAAAAAAAACAAAAAcAAAAMAAAAAwAAAAsAAAAEAAAADgAAAAEAAAAJAAAABgAAAA0AAAACAAAACgAAAAUAQZH3AQtgQMpFG0z/UoJas2Kia2B1AAAAAAAAAAADAAAAAgAAAAMAAAACAAAABQAAAAIAAAADAAAAAgAAAAMAAAACAAAABQAAAAIAAAADAAAAAgAAAAIBABkXAgB+fHdtVykTCQQCAEGB+AELFEAAAGwiAABCDwAAEgYAAE0CAADbAEGg+AELFe0AAACZAAAASQAAAB4AAAAMAAAABwBBwfgBCxVAAACTXQAAvXAAAO15AACyfQAAJH8AQeD4AQvlIzB1AABwFwAAINH//yDR//9dPX9mnqDmPwAAAAAAiDk9RBd1+lKw5j8AAAAAAADYPP7ZC3USwOY/AAAAAAB4KL2/dtTd3M/mPwAAAAAAwB49KRplPLLf5j8AAAAAAADYvOM6WZiS7+Y/AAAAAAAAvLyGk1H5ff/mPwAAAAAA2C+9oy30ZnQP5z8AAAAAAIgsvcNf7Oh1H+c/AAAAAADAEz0Fz+qGgi/nPwAAAAAAMDi9UoGlSJo/5z8AAAAAAMAAvfzM1zW9T+c/AAAAAACILz3xZ0JW61/nPwAAAAAA4AM9SG2rsSRw5z8AAAAAANAnvThd3k9pgOc/AAAAAAAA3bwAHaw4uZDnPwAAAAAAAOM8eAHrcxSh5z8AAAAAAADtvGDQdgl7sec/AAAAAABAID0zwTAB7cHnPwAAAAAAAKA8Nob/YmrS5z8AAAAAAJAmvTtOzzbz4uc/AAAAAADgAr3ow5GEh/PnPwAAAAAAWCS9Ths+VCcE6D8AAAAAAAAzPRoH0a3SFOg/AAAAAAAADz1+zUyZiSXoPwAAAAAAwCG90EK5Hkw26D8AAAAAANApPbXKI0YaR+g/AAAAAAAQRz28W58X9FfoPwAAAAAAYCI9r5FEm9lo6D8AAAAAAMQyvZWjMdnKeeg/AAAAAAAAI724ZYrZx4roPwAAAAAAgCq9AFh4pNCb6D8AAAAAAADtvCOiKkLlrOg/AAAAAAAoMz36Gda6Bb7oPwAAAAAAtEI9g0O1FjLP6D8AAAAAANAuvUxmCF5q4Og/AAAAAABQIL0HeBWZrvHoPwAAAAAAKCg9Diwo0P4C6T8AAAAAALAcvZb/kQtbFOk/AAAAAADgBb35L6pTwyXpPwAAAAAAQPU8SsbNsDc36T8AAAAAACAXPa6YXyu4SOk/AAAAAAAACb3LUsjLRFrpPwAAAAAAaCU9IW92mt1r6T8AAAAAANA2vSpO3p+Cfek/AAAAAAAAAb2jI3rkM4/pPwAAAAAAAC09BAbKcPGg6T8AAAAAAKQ4vYn/U027suk/AAAAAABcNT1b8aOCkcTpPwAAAAAAuCY9xbhLGXTW6T8AAAAAAADsvI4j4xlj6Ok/AAAAAADQFz0C8weNXvrpPwAAAAAAQBY9TeVde2YM6j8AAAAAAAD1vPa4ju16Huo/AAAAAADgCT0nLkrsmzDqPwAAAAAA2Co9XQpGgMlC6j8AAAAAAPAavZslPrIDVeo/AAAAAABgCz0TYvSKSmfqPwAAAAAAiDg9p7MwE5556j8AAAAAACARPY0uwVP+i+o/AAAAAADABj3S/HlVa57qPwAAAAAAuCm9uG81IeWw6j8AAAAAAHArPYHz079rw+o/AAAAAAAA2TyAJzw6/9XqPwAAAAAAAOQ8o9JamZ/o6j8AAAAAAJAsvWfzIuZM++o/AAAAAABQFj2Qt40pBw7rPwAAAAAA1C89qYmabM4g6z8AAAAAAHASPUsaT7iiM+s/AAAAAABHTT3nR7cVhEbrPwAAAAAAODi9OlnljXJZ6z8AAAAAAACYPGrF8SlubOs/AAAAAADQCj1QXvvydn/rPwAAAAAAgN48skkn8oyS6z8AAAAAAMAEvQMGoTCwpes/AAAAAABwDb1mb5q34LjrPwAAAAAAkA09/8FLkB7M6z8AAAAAAKACPW+h88Np3+s/AAAAAAB4H724HddbwvLrPwAAAAAAoBC96bJBYSgG7D8AAAAAAEARveBShd2bGew/AAAAAADgCz3uZPrZHC3sPwAAAAAAQAm9L9D/X6tA7D8AAAAAANAOvRX9+nhHVOw/AAAAAABmOT3L0Fcu8WfsPwAAAAAAEBq9tsGIiah77D8AAAAAgEVYvTPnBpRtj+w/AAAAAABIGr3fxFFXQKPsPwAAAAAAAMs8lJDv3CC37D8AAAAAAEABPYkWbS4Py+w/AAAAAAAg8DwSxF1VC9/sPwAAAAAAYPM8O6tbWxXz7D8AAAAAAJAGvbyJB0otB+0/AAAAAACgCT36yAgrUxvtPwAAAAAA4BW9hYoNCIcv7T8AAAAAACgdPQOiyurIQ+0/AAAAAACgAT2RpPvcGFjtPwAAAAAAAN88oeZi6HZs7T8AAAAAAKADvU6DyRbjgO0/AAAAAADYDL2QYP9xXZXtPwAAAAAAwPQ8rjLbA+ap7T8AAAAAAJD/PCWDOtZ8vu0/AAAAAACA6TxFtAHzIdPtPwAAAAAAIPW8vwUcZNXn7T8AAAAAAHAdveyaezOX/O0/AAAAAAAUFr1efRlrZxHuPwAAAAAASAs956P1FEYm7j8AAAAAAM5APVzuFjszO+4/AAAAAABoDD20P4vnLlDuPwAAAAAAMAm9aG1nJDll7j8AAAAAAADlvERMx/tReu4/AAAAAAD4B70mt813eY/uPwAAAAAAcPO86JCkoq+k7j8AAAAAANDlPOTKfIb0ue4/AAAAAAAaFj0NaI4tSM/uPwAAAAAAUPU8FIUYoqrk7j8AAAAAAEDGPBNaYe4b+u4/AAAAAACA7rwGQbYcnA/vPwAAAAAAiPq8Y7lrNysl7z8AAAAAAJAsvXVy3UjJOu8/AAAAAAAAqjwkRW5bdlDvPwAAAAAA8PS8/USIeTJm7z8AAAAAAIDKPDi+nK39e+8/AAAAAAC8+jyCPCQC2JHvPwAAAAAAYNS8jpCegcGn7z8AAAAAAAwLvRHVkja6ve8/AAAAAADgwLyUcY8rwtPvPwAAAACA3hC97iMqa9np7z8AAAAAAEPuPAAAAAAAAPA/AAAAAAAAAAC+vFr6GgvwPwAAAAAAQLO8AzP7qT0W8D8AAAAAABcSvYICOxRoIfA/AAAAAABAujxsgHc+mizwPwAAAAAAmO88yrsRLtQ38D8AAAAAAEDHvIl/bugVQ/A/AAAAAAAw2DxnVPZyX07wPwAAAAAAPxq9WoUV07BZ8D8AAAAAAIQCvZUfPA4KZfA/AAAAAABg8Twa990pa3DwPwAAAAAAJBU9LahyK9R78D8AAAAAAKDpvNCbdRhFh/A/AAAAAABA5jzIB2b2vZLwPwAAAAAAeAC9g/PGyj6e8D8AAAAAAACYvDA5H5vHqfA/AAAAAACg/zz8iPlsWLXwPwAAAAAAyPq8imzkRfHA8D8AAAAAAMDZPBZIciuSzPA/AAAAAAAgBT3YXTkjO9jwPwAAAAAA0Pq889HTMuzj8D8AAAAAAKwbPaap31+l7/A/AAAAAADoBL3w0v6vZvvwPwAAAAAAMA29SyPXKDAH8T8AAAAAAFDxPFtbEtABE/E/AAAAAAAA7Dz5Kl6r2x7xPwAAAAAAvBY91TFswL0q8T8AAAAAAEDoPH0E8hSoNvE/AAAAAADQDr3pLamumkLxPwAAAAAA4Og8ODFPk5VO8T8AAAAAAEDrPHGOpciYWvE/AAAAAAAwBT3fw3FUpGbxPwAAAAAAOAM9EVJ9PLhy8T8AAAAAANQoPZ+7lYbUfvE/AAAAAADQBb2TjYw4+YrxPwAAAAAAiBy9Zl03WCaX8T8AAAAAAPARPafLb+tbo/E/AAAAAABIED3jhxP4ma/xPwAAAAAAOUe9VF0EhOC78T8AAAAAAOQkPUMcKJUvyPE/AAAAAAAgCr2yuWgxh9TxPwAAAAAAgOM8MUC0Xufg8T8AAAAAAMDqPDjZ/CJQ7fE/AAAAAACQAT33zTiEwfnxPwAAAAAAeBu9j41iiDsG8j8AAAAAAJQtPR6oeDW+EvI/AAAAAAAA2DxB3X2RSR/yPwAAAAAANCs9IxN5ot0r8j8AAAAAAPgZPedhdW56OPI/AAAAAADIGb0nFIL7H0XyPwAAAAAAMAI9AqayT85R8j8AAAAAAEgTvbDOHnGFXvI/AAAAAABwEj0WfeJlRWvyPwAAAAAA0BE9D+AdNA548j8AAAAAAO4xPT5j9eHfhPI/AAAAAADAFL0wu5F1upHyPwAAAAAA2BO9Cd8f9Z2e8j8AAAAAALAIPZsO0WaKq/I/AAAAAAB8Ir062trQf7jyPwAAAAAANCo9+Rp3OX7F8j8AAAAAAIAQvdkC5KaF0vI/AAAAAADQDr15FWQflt/yPwAAAAAAIPS8zy4+qa/s8j8AAAAAAJgkvSKIvUrS+fI/AAAAAAAwFr0ltjEK/gbzPwAAAAAANjK9C6Xu7TIU8z8AAAAAgN9wvbjXTPxwIfM/AAAAAABIIr2i6ag7uC7zPwAAAAAAmCW9Zhdksgg88z8AAAAAANAePSf642ZiSfM/AAAAAAAA3LwPn5JfxVbzPwAAAAAA2DC9uYjeojFk8z8AAAAAAMgiPTmqOjencfM/AAAAAABgID3+dB4jJn/zPwAAAAAAYBa9ONgFba6M8z8AAAAAAOAKvcM+cRtAmvM/AAAAAAByRL0goOU026fzPwAAAAAAIAg9lW7sv3+18z8AAAAAAIA+PfKoE8Mtw/M/AAAAAACA7zwi4e1E5dDzPwAAAAAAoBe9uzQSTKbe8z8AAAAAADAmPcxOHN9w7PM/AAAAAACmSL2MfqwERfrzPwAAAAAA3Dy9u6BnwyII9D8AAAAAALglPZUu9yEKFvQ/AAAAAADAHj1GRgkn+yP0PwAAAAAAYBO9IKlQ2fUx9D8AAAAAAJgjPeu5hD/6P/Q/AAAAAAAA+jwZiWFgCE70PwAAAAAAwPa8AdKnQiBc9D8AAAAAAMALvRYAHe1BavQ/AAAAAACAEr0mM4tmbXj0PwAAAAAA4DA9ADzBtaKG9D8AAAAAAEAtvQSvkuHhlPQ/AAAAAAAgDD1y09fwKqP0PwAAAAAAUB69Abht6n2x9D8AAAAAAIAHPeEpNtXav/Q/AAAAAACAE70ywRe4Qc70PwAAAAAAgAA92939mbLc9D8AAAAAAHAsPZar2IEt6/Q/AAAAAADgHL0CLZ12svn0PwAAAAAAIBk9wTFFf0EI9T8AAAAAAMAIvSpmz6LaFvU/AAAAAAAA+rzqUT/ofSX1PwAAAAAACEo92k6dVis09T8AAAAAANgmvRqs9vTiQvU/AAAAAABEMr3blF3KpFH1PwAAAAAAPEg9axHp3XBg9T8AAAAAALAkPd4ptTZHb/U/AAAAAABaQT0OxOLbJ371PwAAAAAA4Cm9b8eX1BKN9T8AAAAAAAgjvUwL/ycInPU/AAAAAADsTT0nVEjdB6v1PwAAAAAAAMS89Hqo+xG69T8AAAAAAAgwPQtGWYomyfU/AAAAAADIJr0/jpmQRdj1PwAAAAAAmkY94SCtFW/n9T8AAAAAAEAbvcrr3CCj9vU/AAAAAABwFz243Ha54QX2PwAAAAAA+CY9FffN5ioV9j8AAAAAAAABPTFVOrB+JPY/AAAAAADQFb21KRkd3TP2PwAAAAAA0BK9E8PMNEZD9j8AAAAAAIDqvPqOvP65UvY/AAAAAABgKL2XM1WCOGL2PwAAAAAA/nE9jjIIx8Fx9j8AAAAAACA3vX6pTNRVgfY/AAAAAACA5jxxlJ6x9JD2PwAAAAAAeCm9AA8nND1ESk9UWFxfY2ZpbG9ydXd6fH6Bg4WHiYuOj5GTlZeZm52eoKKjpaeoqqutrrCxs7S2t7m6u72+wMHCxMXHyMnLzM3P0NHT1NXX2Nnb3N3f4OHj5Obn6Orr7O7v8fLz9fb4+fr8/f8AAAAAAAAAHCs0O0FGSk5RVVdaXV9iZGZpa21vcXN0dnh6e31/gIKDhYaIiYqMjY+QkZOUlZeYmZqcnZ6foKKjpKWmp6ipq6ytrq+wsbKztLW2t7i5uru8vL2+v8DBwsPExcbHyMnKy8vMzc7P0NHS09TV1tbX2Nna29zd3t/g4OHi4+Tl5ufo6err7Ozt7u/w8fLz9PX29/j5+vv8/f7/AAAAAAAAAAAIHSkxOD5CRkpNUFNWWFtdX2FjZWdpa2xucHFzdHZ3eXp7fX5/gYKDhIaHiImKjI2Oj5CRkpOUlZaXmJmanJ2en5+goaKjpKWmp6ipqqurrK2ur7CxsbKztLW1tre4ubm6u7y9vb6/wMDBwsPDxMXGxsfIyMnKy8vMzc7Oz9DR0dLT09TV1tbX2NjZ2tvb3N3d3t/g4OHi4uPk5eXm5+jo6erq6+zt7e7v8PDx8vPz9PX29vf4+fn6+/z9/wIBABkXAgBB0pwCC1KAPwAAAEAAAEBAAACAQAAAoEAAAMBAAADgQAAAAEEAAIBBAADAQQAAEEIAADBCAABIQgAAYEIAAHhCAACGQgAAkEIAAJ5CAACwQgAA1EIAAAZDAEGynQILqwiAPwAAgD8AAIA/AACAPwAAgD8AAIA/AACAPwAAAEAAAABAAAAAQAAAAEAAAABAAAAAQAAAAEAAAEBAAABAQAAAgEAAAKBAAADAQAAAAEEAAABBfnx3bVcpEwkEAgAA//+cblZGOzMtKCUhHxwaGRcWFRQTEhEQEA8PDg0NDAwMDAsLCwoKCgkJCQkJCQgICAgIBwcHBwcHBgYGBgYGBgYGBgYGBgYGBgUFBQUFBQUFBQUFBQQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQDAwMDAwMDAwMDAwMDAwMDAwIz8AEN+/rw+Qv6ahoc8hXjBxLu7xXv9xTn/d4wC/Ph7OL3AvQF/wgJCQjzEu/e+xH1APwKAgoP+AL/AAUN/fAB+wMH5PMGJP0TxO/kB/Xi+QLW6/0G6iH3B+IV8hj17O779AzPzs8QCdv/CSLz4eEMECzWAvcI7voJJBMLDQzrA+T0AyEZ8gsBotkS9PXx+TE0CtUJOQgV+g7xLPgH4vP+9xn+gRL1zBrlGwr2BysG6CkK7uUKEQkK7/YU+hY3I7AkGejcDwntWBNAzd0RAPkp8BsED/8S8C/ZyvgN5+xm7vssC+RHAs37BQKt9+MIFcs62/kNJgki/9cVBOjc3+sgS/4BvP8v4yAUDL+pBRD0GCgPBxPm7xEG/tvi9yCB2QDh5QTqF/qzI8Mg2+gN9f/Y/RH5DQs77QoG7gANA/rpEwvvDf+wKMtF48oA/CHn/iYjJPEuAvPw+PgM6PfJ+/cgCwcM7vaq2jYl5xLVB+Xlyg0JFkYGI/kX8dT6B76rICjt9/kM8QcCBt0LHAAaDgEBBAwSIxbu/Q7/Bw748v0E/e35/+flGeb+Ierl5wT3BxUa4gr37AsbCgXuDvwC7/v59/MPHQH28PYjJPnq1BEeFhX/FvUg+PkF9gUe7B3s3gz8+gbzCvu8/xgJE+jAHxMb5kvTKSfWCAYX4hDnHiII2v0SEOEW/PcBFAkm4ADTAPrzC+fg6h/o9fX8/BTeFhQJ5xv7HOMdBhX67jYE0hcV8uEk1+gEFgoLByTg88zvGBzb3P8YCdojMBIC/y0KJxjaDQjwCBkLB+P1BxTi2tMO7uT3QT0Wy9rwJC4U2SDD+vrc3+7kOGUtC+Tp48MU0QIwG+8BKAEDzQ8jHBYjNcPjDPrrCgPsAucB+h8L/QH2zAZ+l3p/gH9/gH9sDH8wgNyAf3+AgH9ZgH+AgIB/f4CAo64UfUGufya2UVioTzPRkeYOU6iQGCObYp3Q0y5TxLEt7NcJBDQ2XfYEDQN7Bl6Ru/LhCgw1sfXr/tS4XEHHONp/yIB/f4BWdbWAf+2dkH+Af9BydoCAde/6eYB/gFI2ln9/32TZ6RKy3uP/4n/mf4B+gBvpsYiBf0hCHQe+yIuAkI8AALCPAAAZAAAAIABB8KUCC6Yg1hQQAGk8AZ8YPBINPhl/Ik83dn9fH/xXFQwC8hIXCBH/+AUEGCUVDSQNERIlHiEBCPD1++H9+wAGAzr5//AF8xAK/vIL/AP1AAAAAAAAAAAW//kHHeXh7/MhLPgLIRhODxMe/ugFMQUkHfL10N8V1tr0N9s2+AEkEQAzHzsH9DUEIPIwBfbw+AHwyOj6Ev4XBi769hQj1PHPJBAF+bG9DEb9scqr6C/qIRVF/wsWDvDw6uT1C9cf5t/t/BsgzgX22ur4I+EB1/H1LBzv1+kRAunm8/PvBg7h5wntJ/gEH//T9eSk0vEVduotzQvs7PEN65/j4OnWXgEX+D/90hPmINi25hr88x7s4ufy4dPVBMTQ9N4CAgMNDwsQBS73yfDHHQ4mzv7U9fg05dr5FC8RxQAvLsEj7xMhRO0CD/Ac8Jka3S/ZxB4f6czzdC/nHige6gIM5e4f9hv4vgwOBObk8wMN5s0lBQLrLwMNGdfl+PwFtN8cCgnSthMcGR82yUQm6OACBEQL/2MFEP62KBrmIR//vA76GQkdPD0H+QDoB00E/xD5DfHtHOHo8CUYDR4K4gsL9hY8HC392ML7mgng5coVD/sl1fUl7S/AgOWOFb47Lv30qfcEE4/cTjnm2rP2Bga1GZ/1IdIBDevf7BD6/fX85SYI1/7fEhPmAePq/PLJ9bD9CyJaMwsRKyR/4B1nCRsNQDhG8gP0CiUDDOr2LhwKFBroEgkHDiL7+R/yyAvu+O/59tgK3+DVBQkL/Aoy9PsuCQcBCw9b7wfOFwbinQDvDgj25+K7wh9/cull+8r66gfIJxLjAC4IsQTrEuA+9Pj0xh/gEQboGRgJ/O0tBhHyBeUQ/NcZ3AUPDDIbGRfUu/ft0PgEDPoN7eLcGiX//eLW8vbsGsrl1ARJ5logu+PwA2cP7yUY6eEh28AZDa/k4BsF3ekP6hP5CR4T6RvzKx3j+gnY39/gCQvQ+OnMLhHq1iPx1xAiH9bt9TcH2Vn13xTyFiAD7/oOIgE366b4EhsN4xUP38339QTw7hf8/DABBx3y9PARIwgA+f4JCBH6NeDrzgVjxPvLCuEM+wdQJBLhCWIkwd0E8+ToHPMSEP/u3goUBwQdCxn5JA4tGAHwHgYj+vXoDf8bJxQw9fzzHAvh7h/jFv7s8AUe9OT9XfAXEuMGytsc/f3R/dzJ/Sn2L/4XKvm55VPAB+gIGu8PDB/i2vPfyATvFBIB4vv64fLbABYK4iXvEgYFF9zgDhLzw8y7LOIQEvznDlEa+OnFNJgRd+AaEQEXLR3Ax/JJFfPzCbz5zAMY2SzxGw4T9+T1BQPe/gIW+ukEAw3q8/buHQYs8+j4Ah4OKwYRt/r5FLD5+eQPu9r7nN0PsRcd7uUVvtsI6tkwBPMB9wvjFgbPIPIv7vwszLYrHhfyBQDlBPkK/AoB8Avu/vsC9QDs/CZKOydA9hr92LwD4s0I7eXSMzQ2JFpcDg37ABDCEAvR2/r7FTbHICr6PvcQFRgJ9vwhMg3xAd3QEvXvvfMVJtQk8B0RBfYSEeACCBbI8eAoKxMu+ZygEzUYFebQm649Jqvk3v8/+/snJ9og9OQUKPgCHwzd8xTnHggD8/fsAvMYJfYhBhTw6Pr67fsWFQoL/Nn/BjEp8ccVwk278wC2Afna+AY/HAQazFI/DS3fLMy/69LPQO8gGETZ8PvmHAXD5AIYC/TfCdv95Bbb9BMA7v4OAQQI9/4r7/6+4TjYqdz+/NbT/x/V8Rs/9SD23xvtBA/m3h382b8O7Ovv3A07L9rfDdv42/n6tOH00gcY6+LyCQ/08y/l5//ZABT3BgcEAwcnMhb5DuwBRuQd1wrw++T+2yDuET717M4kFcL0yDQyEQMwLNfnAxD9ACH6Dxsi5xYJEfUkEP4MFcwt/vYuFe5D5PMeJSoQ9wtLB8DY9h056QU1swPv+y/J3dzzNMu5NJHp5uQd1TftK+029N/U2e324fYVJsfsAucI+jIMDxnnD+L6CRklE/wf6gIEAiQHA96wJPb++x/cMboU3BUYGdLNJMbQ2PY3Ry8K/wEC0rwQDQC240nM7vUH1K7guuT/2bz61wzq8Cj15zP3FQQE3geyEAba4v7UIAAWQAW4/vL28PjnDGbGJfbpDzEH+QLs4C36MBweIf8W+h5B7x1KJeb2D+gTvhb24f/u9wsl/C0FKREBARjGKQXNDggrEPb/LSDAA9/n/eW8DBf189vYBOv0IOntTCnp6NS///EBRz8FFP0V6R/gEv4bHy772fvdEu7Y9gMMAv7qKAX6PCQDHeUKGcoFGicj6NsepRz86+XZ+gUMgCbwHaHjUv4jAgwI6gpQ0QLnt7EQ4uC+MBXT9dEO5e/5D9Ty1ObgGukR+eQa+hwG5gIN8unyEy4QAt/rHO/WLNsB2RxU0g8KDdRI5hog5PStAgri1PbkNS1BAOc5JN8GHSzLCxP+5SMgMQQXJiQYCjPZBPkaJd0L0e4cEN0qEevXHA70C9MH1fES+ybYzuLrCZ4NDBdLyPn9/P/eDM8LGu7k7yEN8igYuNsKEfoWEBD69OLyCijpDA/98Q3I/OIB/e8bMvtA3O0HHRYZCfDGu9jDufIqXRoL+sb1RswTCeLfC9vR6+rYCi8E6REwKdAOCg8i6f7RF+Dz9ubm/BAm8gD0+fkULP/g5fAE+u4OBQTjHAf5D/Xs09wQVCLF4hZ+CERP7xW8JQUPPzF/plUrBxAJBtPH1TkL6fXjPOYAByroChfnCPnYE+8jBBvZpRvcIgIQ6BkH6wURCuriCe/D5iEVOs3yRdoUB1D8v/rlNfQv//EBPGax/AwJFiX4/CUC/fHw9fsT+tUU5+4K5QDk5fUK7v788BoO+gf6ATX+4xcJ4vr8+jhGAN/s7/foLvuXL9LNFBTLr//5S/vrvwzMFs70MTZMrwot18US7RkO4cv7DB9U6QIHAgrgJ/70AfcA9vUJD/j+Av8KDvvYE/n5GvwCAeUjIBXhGiv3BOAowswkFiYWJKAG9unPD9/u/QApFe0VF9np+gYvOARKAJ4d0fLcFeoWEA0MEPsNEfPxAd7mGgwgGw29GwIIChIQFO/vOcAFDhMf7tTS8ATnEYLoJwQIN+feJ/ADCUdI4ckGCucgq+sS+A8M5fkB6/77MPASAermEA7hG/rx6wTyEtwUQ50MKecx1CNRbi8ivvIOxCIdtwopI1kH3RYHG+z6OBpCBiHJNQHrDhFENzsAEvcF1wb7jvQdKukKUeUUy+LCKF8Z/AMS+PHjrgLH/cPj4zECyQW7nc/NBucMWSzfBSkBF9vb5NADBNfix93Z//PI+zIxKfz8Ier/ISISKNYMAfr+EhEnLAtBxNMKWxUJwvUIRSUY4hUa5QHkGEL4BrkiGCw6su05EcQBDP3/2BYL+xkMAUhPB84XEg0V9ewFTaIYDznNAyQ1/wQOHuEWKCD13tzFOhkVyukoLhIADDagncUFd9oyNwzwQwAiIycj/0UYG+Ld/LoC1Pn6E/c8LOv2JSvw/R7xvx/JEp5MQBkY7vm89iYbxCQhEB4i2dsfDDXKDubPgPP76vWrN/jN9d/24bTXFyzYyoGbE+nxDxs6xAgO3wEw9/WFAzUXBOQWAuO9JAwHN+tYFP/r7wMpIPby+8dDORUX/uW36HgVEt0q+QPT50zeMgvKpQOP7PsvD9ERG/3m+QoHSthA+fvoz+j99hvv+P0O5SENJxz52h0QLBM3/QnzxysrHwCj7xPIBPTnJavziiHvOEew/Ab17i/MGQkwlQEVFP0K8PwYER/D7s4Y9gxHGgv9BAEA+dgSJt4mEQjeAhV74OYrDt7/9yXwBu/CRBYRC7UhsD73tUwk1/jY9bko2T7PrxD3zDQ9EZnl9vjKxxUX8MwkEgr7CA/jBe3bCMsGE9sm7zAKAFEuRuNlCyzU/RgLAw73Cw7TDS79x0QsP2IZ5OkPIPY1+v73+hCV9fXkOznqJipTGwUd4gzr8x8m6zr29vH++wsMt+TaFgLnScz0ySDBFTMhNOY35uY54PzMwxXfpc1Fpsva1Ay07E3T+VYrk9+X2If2ALgtzbXP2v/CEv8e1PL2vSj23i7A4B3zIQPg+xzl510YRNg5F/3rxhHZ7+qnCxLSGxgufz1XH3/cL+kvf+hueh5kAGD0BjIs80kEN/XxMSr6FN06EiYqSBPrCwnbBx0fEO8NzhMF6TPw+wToTArL5Pm/Sijw4yDwz939O6DO1dXD8fjc3t/yC/3ZBI6F9c/rDsgBK8EaKBL25vLx3d31INS9AhYHA/fizeQcBuoQIufMyvj6BQgU8O/UGwMf+9D//XQLR+HRbTLq9McgQgjno8r2E7TeYTDc7uLZ5vQcDgz04SYCCgTYFBDDAkAnBQ8hKMPPXfYhHPXl7ifC+vo+C/gmvQwbJ+V77vq/U8AUE/UhGBE4TgfxNpv3c6AyMyMiGyXY9QjcKtMC6QBD+PfzMvLlBAD48h73HQ8J2iX4MtI2KfX49eYnLQ7m7+VFJidiQgAqe5vtrXXgOAoMqE/LOD9fwgkk87HwJdIj3g4RygUV+Qc/OA8btOcE5sEcvcwr0boo9Ci+2wAjJcsE780LFQ7e/BjWHRYHHAwlJ9ntQcTO/gFSJxPp1eq93d4gZlF/JEPTAb3M/CMUHEdW3fet3gwJ6QIOHOkH5y0HEdsA7R8aKOXwEQXrFxhgyTTt8voBMt5WyyYCzNzzPKuIIAf0Fkb5oia04ewP5AcGKDVYAyYS+OrpMyX3DeAZ6xsfFBL38wEV6PMnD/Xj3BIPCBsVov/qMUL/Bv3Y7gYcDCHFPjzQWv9sCRL+G02/UtDa7fV/MkIS8+o82ijy5vMmQzkeIRokJu8b5BQMwBIF3+UN5iAj+9DyXCvR8igLM0IWwfDDBOQbFN/i6+PLH9gYK/ztFUMUZPCjTvruzNv3QuH4GhIEGOoR/vMbAAju5wXr6PkSoxUHArVFMvvx7zzWNwH8AwouEPMt+fbUlDEC8cD0uCDa0wrKDfPl3MA6wptYqrnZ94AgD/w28Nnm3C4wwPYTHvMi+DI86vr14gUyIDgAGQZEC+Mt9/QEARLPANrtWh0jMwjQYP/09+DBv/kmWRyr5OnngDhP3GP62wfzu9LjGUDrEQEqvgFQGuAVDw8GBvYPfwUmG1fH5wtI6/sL875OJP0p6wjfF0kcOef7BOrRDwTHuCEBEgI1uZ3r/ZFsR/JSGT3QBQnN7Of9Dt8O/d4WDO3a8AIVEBrhSyzhEBpCEffq6hbUFhsCOvIKt9Y358NI/x7G5z8a0Nga4jwI7//u7Cvs/OR/lh1GQOUn3/uo2MwaLO8XAs8W9/hWMdXEAQotJMv8ISYwuAETFb8E+8Ib5xH6BtPZ0gQaf/cS3+79IQL7D+bqi8HvxT22B9HGgL0P8IAMAhQJ0NgrA9jw2vrq5PDF6gb7C/S+2BvC1O0m/Sf4KOgNFTLE6jXj+gEWxQAR2XPwkgAAQJMAAECcAAAgAAAAGAAAAA51AEGgxgILQY+oH4CCw1XddoDDf4DvgH9o94AhLX8FU1SAq4DTMMuALn/vfXXXi6WBvP+nsCBqBxSjAAAgowAAGAAAAAIAAAABAEH0xgILoAYFwSM96X2jPSWW9D3idCI+rBxKPt0lcT40uos+tHeePuS/sD6tiMI+JcnTPhh65D4YlfQ+yAoCPxx8CT9JnRA/ym0XP8DtHT+fHSQ/VP4pPy6RLz/g1zQ/Y9Q5P/CIPj/T90I/qyNHPxcPSz/YvE4/rS9SP2pqVT/Ob1g/mkJbP47lXT9LW2A/bqZiP2TJZD+bxmY/b6BoP/dYaj+A8ms/325tPwvQbj/KF3A/4EdxP+Fhcj9NZ3M/lll0Pww6dT//CXY/isp2P7t8dz/AIXg/Yrp4P51HeT9Lynk/JEN6P/Kyej87Gns/yHl7PyDSez/II3w/N298P/K0fD9e9Xw/4DB9P+xnfT+3mn0/tMl9Pwb1fT8RHX4/GEJ+P05kfj/Tg34//aB+P+27fj/D1H4/s+t+P+8Afz+HFH8/jSZ/P0M3fz+qRn8/41R/Pw9ifz8vbn8/ZHl/P76Dfz8/jX8/GJZ/Pziefz/CpX8/o6x/PxCzfz/1uH8/d75/P3LDfz8ZyH8/bMx/P1vQfz8G1H8/b9d/P4Pafz9m3X8/FeB/P4Lifz/N5H8/5uZ/P83ofz+S6n8/Rux/P8jtfz8o738/ePB/P6bxfz/D8n8/v/N/P7r0fz+U9X8/XvZ/Pyf3fz/P938/d/h/P/34fz+U+X8/Cfp/P3/6fz/0+n8/Wft/P637fz8B/H8/VPx/P5j8fz/b/H8/Hv1/P1D9fz+C/X8/tf1/P+f9fz8J/n8/O/5/P13+fz9+/n8/j/5/P7D+fz/S/n8/4/5/P/T+fz8V/38/Jv9/Pzf/fz9H/38/WP9/P1j/fz9p/38/ev9/P3r/fz+L/38/m/9/P5v/fz+b/38/rP9/P6z/fz+9/38/vf9/P73/fz/O/38/zv9/P87/fz/O/38/zv9/P97/fz/e/38/3v9/P97/fz/e/38/3v9/P+//fz/v/38/7/9/P+//fz/v/38/7/9/P+//fz/v/38/7/9/P+//fz/v/38/7/9/P+//fz8AAIA/AACAPwAAgD8AAIA/AACAPwAAgD8AAIA/AACAPwAAgD8AAIA/AACAPwBBoM0CC4kI5lo0OHdOMznT2ck5kpEzOsxgjDph+8k6mX4JO8uAMzvVJWM7dy6MO6iKqTtFuMk7h6bsO+guCTyuZh089wIzPJP/STxPWGI8XhF8PC6Rizy9x5k8XKyoPPM8uDyBecg87l/ZPDnw6jxjKv08NQcIPRDMET3N5Bs9YVAmPcsOMT0AHzw9/oBHPcY0Uz0/OF89aYtrPUUueD1pkII9ezCJPeD3jz2K5ZY9e/mdPbEzpT0hk6w9UBi0PTPCuz1PkcM9EoTLPQKb0z0f1ts91zPkPa+07D0hWPU9qB3+PaGCAz7yBgg+x5sMPt1AET409hU+RbsaPhGQHz5UdCQ+y2cpPjNqLj6NezM+Ups4PsXJPT4cBkM+WVBIPnqoTT63DVM+UoBYPggAXj5UjGM+8iRpPiXKbj4ke3Q+rDd6PgAAgD6r6YI++diFPoXNiD5Qx4s+N8aOPvfJkT6z0pQ+JuCXPg/ymj5sCJ4+HCOhPv9BpD7QZKc+sYuqPhy2rT5U5LA+0xW0PrpKtz7ogro++b29Pg38wD7iPMQ+VoDHPkfGyj6VDs4++1jRPnql1D7x89c+HETbPtmV3j4I6eE+pz3lPlOT6D4M6us+r0HvPhya8j4O8/U+iEz5PiKm/D4AAAA/76wBP7xZAz95BgU/8rIGPylfCD/6Cgo/VrYLPyxhDT98Cw8/E7UQP/JdEj8IBhQ/Q60VP4JTFz+2+Bg/3JwaP9U/HD+P4R0/+YEfPwQhIT+MviI/o1okPxf1JT/WjSc/8iQpPyi6Kj+YTSw/Ad8tP3JuLz/K+zA/+YYyP+0PND+nljU/BBs3P+WcOD9YHDo/PZk7P4MTPT8qiz4/AABAPxVyQT834UI/d01EP8O2RT/rHEc//n9IP+zfST+SPEs/4ZVMP+rrTT95Pk8/j41QPyvZUT8dIVM/c2VUPw2mVT/r4lY//BtYPy9RWT9zglo/ya9bPw7ZXD9D/l0/WB9fP0s8YD/8VGE/amliP4V5Yz88hWQ/oIxlP36PZj/WjWc/uodoP/Z8aT+cbWo/illrP9FAbD9PI20/BAFuP/HZbj/zrW8/HH1wP0lHcT98DHI/tMxyP/CHcz8QPnQ/E+90P/qadT+zQXY/P+N2P41/dz+tFng/fqh4PwE1eT80vHk/GD56P526ej/CMXs/d6N7P7sPfD+fdnw/Ath8P/QzfT9lin0/RNt9P7Mmfj+PbH4/66x+P6Pnfj/aHH8/f0x/P4F2fz8Cm38/0Ll/PxzTfz/F5n8/y/R/Py/9fz8AAIA/BAAAAAgAAAAMAAAAEAAAABQAAAAYAAAAHAAAACAAAAAoAAAAMAAAADgAAABAAAAAUAAAAGAAAABwAAAAiAAAAKAAAADAAAAA8ABBstUCC6QEgD4AAIA+AACAPgAAgD4AAIA+AACAPgAAgD4AAIA+AACAPgAAgD4AAIA+AACAPgAAgD4AAIA+AACAPgAAgD7QJbQ+lzmtPgmlnz767Ys+zaxlPvipKj40MNI9WvENPVrxDb00MNK9+Kkqvs2sZb767Yu+CaWfvpc5rb7QJbS+h4qxPhuDlj5gI0k+xEKNPcRCjb1gI0m+G4OWvoeKsb6HirG+G4OWvmAjSb7EQo29xEKNPWAjST4bg5Y+h4qxPpc5rT7NrGU+WvENPfipKr4JpZ++0CW0vvrti740MNK9NDDSPfrtiz7QJbQ+CaWfPvipKj5a8Q29zaxlvpc5rb59Pac+0osKPtKLCr59Pae+fT2nvtKLCr7Siwo+fT2nPn09pz7Siwo+0osKvn09p759Pae+0osKvtKLCj59Pac+CaWfPlrxDT367Yu+lzmtvjQw0r3NrGU+0CW0PvipKj74qSq+0CW0vs2sZb40MNI9lzmtPvrtiz5a8Q29CaWfvhuDlj7EQo29h4qxvmAjSb5gI0k+h4qxPsRCjT0bg5a+G4OWvsRCjT2HirE+YCNJPmAjSb6HirG+xEKNvRuDlj767Ys++Kkqvpc5rb5a8Q090CW0PjQw0j0JpZ++zaxlvs2sZT4JpZ8+NDDSvdAltL5a8Q29lzmtPvipKj767Yu+4C4AAOgDAACwNgAA6AMAAIA+AADoAwAAIE4AAOgDAADwVQAA6AMAQfTZAguFAeAuAAAQJwAAECcAAPgqAAD4KgAAgD4AALw0AAC8NAAAmDoAAJg6AAAgTgAAgD4AAIA+AABQRgAAUEYAAMBdAABQRgAAUEYAAAhSAAAIUgAAAH0AAPBVAADwVQAAYG0AAGBtAAAA+gAAcJQAAHCUAABQwwAAUMMAAA0AAAARAAAAEQAAABM=";if(!isDataURI(wasmBinaryFile)){wasmBinaryFile=locateFile(wasmBinaryFile)}function getBinary(){try{if(wasmBinary){return new Uint8Array(wasmBinary)}var binary=tryParseAsDataURI(wasmBinaryFile);if(binary){return binary}if(readBinary){return readBinary(wasmBinaryFile)}else{throw"both async and sync fetching of the wasm failed"}}catch(err){abort(err)}}function getBinaryPromise(){if(!wasmBinary&&(ENVIRONMENT_IS_WEB||ENVIRONMENT_IS_WORKER)&&typeof fetch==="function"){return fetch(wasmBinaryFile,{credentials:"same-origin"}).then(function(response){if(!response["ok"]){throw"failed to load wasm binary file at '"+wasmBinaryFile+"'"}return response["arrayBuffer"]()}).catch(function(){return getBinary()})}return new Promise(function(resolve,reject){resolve(getBinary())})}function createWasm(){var info={"env":asmLibraryArg,"wasi_snapshot_preview1":asmLibraryArg};function receiveInstance(instance,module){var exports=instance.exports;Module["asm"]=exports;removeRunDependency("wasm-instantiate")}addRunDependency("wasm-instantiate");function receiveInstantiatedSource(output){receiveInstance(output["instance"])}function instantiateArrayBuffer(receiver){return getBinaryPromise().then(function(binary){return WebAssembly.instantiate(binary,info)}).then(receiver,function(reason){err("failed to asynchronously prepare wasm: "+reason);abort(reason)})}function instantiateAsync(){if(!wasmBinary&&typeof WebAssembly.instantiateStreaming==="function"&&!isDataURI(wasmBinaryFile)&&typeof fetch==="function"){fetch(wasmBinaryFile,{credentials:"same-origin"}).then(function(response){var result=WebAssembly.instantiateStreaming(response,info);return result.then(receiveInstantiatedSource,function(reason){err("wasm streaming compile failed: "+reason);err("falling back to ArrayBuffer instantiation");instantiateArrayBuffer(receiveInstantiatedSource)})})}else{return instantiateArrayBuffer(receiveInstantiatedSource)}}if(Module["instantiateWasm"]){try{var exports=Module["instantiateWasm"](info,receiveInstance);return exports}catch(e){err("Module.instantiateWasm callback failed with error: "+e);return false}}instantiateAsync();return{}}var tempDouble;var tempI64;__ATINIT__.push({func:function(){___wasm_call_ctors()}});function demangle(func){return func}function demangleAll(text){var regex=/\b_Z[\w\d_]+/g;return text.replace(regex,function(x){var y=demangle(x);return x===y?x:y+" ["+x+"]"})}function jsStackTrace(){var err=new Error;if(!err.stack){try{throw new Error}catch(e){err=e}if(!err.stack){return"(no stack trace available)"}}return err.stack.toString()}function _emscripten_get_heap_size(){return HEAPU8.length}function _emscripten_get_sbrk_ptr(){return 44928}function _emscripten_memcpy_big(dest,src,num){HEAPU8.copyWithin(dest,src,src+num)}function abortOnCannotGrowMemory(requestedSize){abort("OOM")}function _emscripten_resize_heap(requestedSize){abortOnCannotGrowMemory(requestedSize)}var ASSERTIONS=false;function intArrayToString(array){var ret=[];for(var i=0;i<array.length;i++){var chr=array[i];if(chr>255){if(ASSERTIONS){assert(false,"Character code "+chr+" ("+String.fromCharCode(chr)+")  at offset "+i+" not in 0x00-0xFF.")}chr&=255}ret.push(String.fromCharCode(chr))}return ret.join("")}var decodeBase64=typeof atob==="function"?atob:function(input){var keyStr="ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=";var output="";var chr1,chr2,chr3;var enc1,enc2,enc3,enc4;var i=0;input=input.replace(/[^A-Za-z0-9\+\/\=]/g,"");do{enc1=keyStr.indexOf(input.charAt(i++));enc2=keyStr.indexOf(input.charAt(i++));enc3=keyStr.indexOf(input.charAt(i++));enc4=keyStr.indexOf(input.charAt(i++));chr1=enc1<<2|enc2>>4;chr2=(enc2&15)<<4|enc3>>2;chr3=(enc3&3)<<6|enc4;output=output+String.fromCharCode(chr1);if(enc3!==64){output=output+String.fromCharCode(chr2)}if(enc4!==64){output=output+String.fromCharCode(chr3)}}while(i<input.length);return output};function intArrayFromBase64(s){if(typeof ENVIRONMENT_IS_NODE==="boolean"&&ENVIRONMENT_IS_NODE){var buf;try{buf=Buffer.from(s,"base64")}catch(_){buf=new Buffer(s,"base64")}return new Uint8Array(buf["buffer"],buf["byteOffset"],buf["byteLength"])}try{var decoded=decodeBase64(s);var bytes=new Uint8Array(decoded.length);for(var i=0;i<decoded.length;++i){bytes[i]=decoded.charCodeAt(i)}return bytes}catch(_){throw new Error("Converting base64 string to bytes failed.")}}function tryParseAsDataURI(filename){if(!isDataURI(filename)){return}return intArrayFromBase64(filename.slice(dataURIPrefix.length))}var asmLibraryArg={"emscripten_get_sbrk_ptr":_emscripten_get_sbrk_ptr,"emscripten_memcpy_big":_emscripten_memcpy_big,"emscripten_resize_heap":_emscripten_resize_heap,"memory":wasmMemory,"table":wasmTable};var asm=createWasm();Module["asm"]=asm;var ___wasm_call_ctors=Module["___wasm_call_ctors"]=function(){return(___wasm_call_ctors=Module["___wasm_call_ctors"]=Module["asm"]["__wasm_call_ctors"]).apply(null,arguments)};var _opus_strerror=Module["_opus_strerror"]=function(){return(_opus_strerror=Module["_opus_strerror"]=Module["asm"]["opus_strerror"]).apply(null,arguments)};var _opus_decoder_create=Module["_opus_decoder_create"]=function(){return(_opus_decoder_create=Module["_opus_decoder_create"]=Module["asm"]["opus_decoder_create"]).apply(null,arguments)};var _opus_decode_float=Module["_opus_decode_float"]=function(){return(_opus_decode_float=Module["_opus_decode_float"]=Module["asm"]["opus_decode_float"]).apply(null,arguments)};var _opus_decoder_destroy=Module["_opus_decoder_destroy"]=function(){return(_opus_decoder_destroy=Module["_opus_decoder_destroy"]=Module["asm"]["opus_decoder_destroy"]).apply(null,arguments)};var _opus_encoder_create=Module["_opus_encoder_create"]=function(){return(_opus_encoder_create=Module["_opus_encoder_create"]=Module["asm"]["opus_encoder_create"]).apply(null,arguments)};var _opus_encode=Module["_opus_encode"]=function(){return(_opus_encode=Module["_opus_encode"]=Module["asm"]["opus_encode"]).apply(null,arguments)};var _opus_encode_float=Module["_opus_encode_float"]=function(){return(_opus_encode_float=Module["_opus_encode_float"]=Module["asm"]["opus_encode_float"]).apply(null,arguments)};var _opus_encoder_destroy=Module["_opus_encoder_destroy"]=function(){return(_opus_encoder_destroy=Module["_opus_encoder_destroy"]=Module["asm"]["opus_encoder_destroy"]).apply(null,arguments)};var _setThrew=Module["_setThrew"]=function(){return(_setThrew=Module["_setThrew"]=Module["asm"]["setThrew"]).apply(null,arguments)};var _malloc=Module["_malloc"]=function(){return(_malloc=Module["_malloc"]=Module["asm"]["malloc"]).apply(null,arguments)};var _free=Module["_free"]=function(){return(_free=Module["_free"]=Module["asm"]["free"]).apply(null,arguments)};var stackSave=Module["stackSave"]=function(){return(stackSave=Module["stackSave"]=Module["asm"]["stackSave"]).apply(null,arguments)};var stackAlloc=Module["stackAlloc"]=function(){return(stackAlloc=Module["stackAlloc"]=Module["asm"]["stackAlloc"]).apply(null,arguments)};var stackRestore=Module["stackRestore"]=function(){return(stackRestore=Module["stackRestore"]=Module["asm"]["stackRestore"]).apply(null,arguments)};var __growWasmMemory=Module["__growWasmMemory"]=function(){return(__growWasmMemory=Module["__growWasmMemory"]=Module["asm"]["__growWasmMemory"]).apply(null,arguments)};var dynCall_viiiiiii=Module["dynCall_viiiiiii"]=function(){return(dynCall_viiiiiii=Module["dynCall_viiiiiii"]=Module["asm"]["dynCall_viiiiiii"]).apply(null,arguments)};Module["asm"]=asm;Module["setValue"]=setValue;Module["getValue"]=getValue;Module["AsciiToString"]=AsciiToString;var calledRun;Module["then"]=function(func){if(calledRun){func(Module)}else{var old=Module["onRuntimeInitialized"];Module["onRuntimeInitialized"]=function(){if(old)old();func(Module)}}return Module};function ExitStatus(status){this.name="ExitStatus";this.message="Program terminated with exit("+status+")";this.status=status}dependenciesFulfilled=function runCaller(){if(!calledRun)run();if(!calledRun)dependenciesFulfilled=runCaller};function run(args){args=args||arguments_;if(runDependencies>0){return}preRun();if(runDependencies>0)return;function doRun(){if(calledRun)return;calledRun=true;Module["calledRun"]=true;if(ABORT)return;initRuntime();preMain();if(Module["onRuntimeInitialized"])Module["onRuntimeInitialized"]();postRun()}if(Module["setStatus"]){Module["setStatus"]("Running...");setTimeout(function(){setTimeout(function(){Module["setStatus"]("")},1);doRun()},1)}else{doRun()}}Module["run"]=run;if(Module["preInit"]){if(typeof Module["preInit"]=="function")Module["preInit"]=[Module["preInit"]];while(Module["preInit"].length>0){Module["preInit"].pop()()}}noExitRuntime=true;run();
+var decodeBase64 = function (base64) {
+  if (typeof Buffer !== 'undefined') {
+    return new Uint8Array(Buffer.from(base64, 'base64'));
+  }
+  var binary = atob(base64);
+  var bytes = new Uint8Array(binary.length);
+  for (var i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
 
+var compiledModule;
 
-  return Opus
-}
-);
-})();
-export default Opus;
\ No newline at end of file
+// every call creates a new instance with its own memory, the returned object has the same fields as an emscripten module
+var Opus = function () {
+  if (!compiledModule) {
+    compiledModule = WebAssembly.compile(decodeBase64(WASM_BASE64));
+  }
+  return compiledModule.then(function (wasmModule) {
+    return WebAssembly.instantiate(wasmModule, {});
+  }).then(function (instance) {
+    var exports = instance.exports;
+    exports._initialize();
+    var Module = {};
+    var buffer;
+    // the memory grows when malloc needs more space, this detaches the views on the previous buffer
+    var updateViews = function () {
+      if (buffer === exports.memory.buffer) {
+        return;
+      }
+      buffer = exports.memory.buffer;
+      Module.HEAP8 = new Int8Array(buffer);
+      Module.HEAPU8 = new Uint8Array(buffer);
+      Module.HEAP16 = new Int16Array(buffer);
+      Module.HEAP32 = new Int32Array(buffer);
+      Module.HEAPF32 = new Float32Array(buffer);
+      Module.HEAPF64 = new Float64Array(buffer);
+    };
+    updateViews();
+    Object.keys(exports).forEach(function (name) {
+      if (typeof exports[name] === 'function' && name !== '_initialize') {
+        Module['_' + name] = function () {
+          var result = exports[name].apply(null, arguments);
+          updateViews();
+          return result;
+        };
+      }
+    });
+    Module.getValue = function (ptr, type) {
+      switch (type) {
+        case 'i8': return Module.HEAP8[ptr];
+        case 'i16': return Module.HEAP16[ptr >> 1];
+        case 'i32': return Module.HEAP32[ptr >> 2];
+        case 'float': return Module.HEAPF32[ptr >> 2];
+        case 'double': return Module.HEAPF64[ptr >> 3];
+        default: throw new Error('Unsupported type ' + type);
+      }
+    };
+    Module.AsciiToString = function (ptr) {
+      var str = '';
+      while (Module.HEAPU8[ptr]) {
+        str += String.fromCharCode(Module.HEAPU8[ptr++]);
+      }
+      return str;
+    };
+    return Module;
+  });
+};
+
+export default Opus;
@@ -0,0 +1,53 @@
+import { Transform, TransformCallback } from 'stream';
+import { clamp } from 'lodash';
+
+export type PcmSampleFormat = 's16le' | 's24le' | 'f32le';
+
+const BYTES_PER_SAMPLE: {[format in PcmSampleFormat]: number} = {
+  s16le: 2,
+  s24le: 3,
+  f32le: 4,
+};
+
+// Converts interleaved PCM samples of any supported format and channel count to interleaved s16le samples with outputChannels channels
+// the last input channel is copied to the missing output channels (mono is copied to both channels when converting to stereo)
+// and only the first input channels are kept when there is more than outputChannels
+export class PcmConverterStream extends Transform {
+  private bytesPerSample: number;
+  private frameSize: number;
+  private remainder = Buffer.alloc(0); // incomplete frame of the previous chunk
+
+  constructor(public format: PcmSampleFormat, public channels: number, public outputChannels = 2) {
+    super();
+    this.bytesPerSample = BYTES_PER_SAMPLE[format];
+    this.frameSize = this.bytesPerSample * channels;
+  }
+
+  private readSample(buffer: Buffer, offset: number) {
+    if (this.format === 's24le') {
+      // the two most significant bytes of the sample
+      return buffer.readInt16LE(offset + 1);
+    }
+    if (this.format === 'f32le') {
+      return Math.round(clamp(buffer.readFloatLE(offset), -1, 1) * 32767);
+    }
+    return buffer.readInt16LE(offset);
+  }
+
+  _transform(chunk: Buffer, encoding: string, callback: TransformCallback) {
+    const data = this.remainder.length ? Buffer.concat([this.remainder, chunk]) : chunk;
+    const framesCount = Math.floor(data.length / this.frameSize);
+    const output = Buffer.alloc(framesCount * this.outputChannels * Int16Array.BYTES_PER_ELEMENT);
+    for (let frame = 0; frame < framesCount; frame++) {
+      for (let channel = 0; channel < this.outputChannels; channel++) {
+        const inputChannel = Math.min(channel, this.channels - 1);
+        output.writeInt16LE(
+          this.readSample(data, frame * this.frameSize + inputChannel * this.bytesPerSample),
+          (frame * this.outputChannels + channel) * Int16Array.BYTES_PER_ELEMENT,
+        );
+      }
+    }
+    this.remainder = Buffer.from(data.subarray(framesCount * this.frameSize));
+    callback(null, output);
+  }
+}
@@ -0,0 +1,163 @@
+import { ClockSyncEstimator } from './clock_sync';
+
+// same as TIMEKEEPER_REFRESH_INTERVAL of Peer
+const REQUEST_INTERVAL = 100;
+
+// seeded to always simulate the same network
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+};
+
+interface SimulatedRoute {
+  // in ms, transmission time of the request and of the response without jitter
+  requestDelay: number;
+  responseDelay: number;
+  // in ms, maximum delay randomly added to each transmission, most of them get a small part of it
+  jitter?: number;
+}
+
+interface SimulatedRemoteClock {
+  // in ms, remote time minus local time at local time 0
+  offset: number;
+  // in ms per ms of the local clock
+  drift?: number;
+  // the remote clock is changed by stepOffset ms at local time stepAt
+  stepAt?: number;
+  stepOffset?: number;
+}
+
+const getRealOffset = ({
+  offset, drift = 0, stepAt = Infinity, stepOffset = 0,
+}: SimulatedRemoteClock, localTime: number) => offset + drift * localTime + (localTime >= stepAt ? stepOffset : 0);
+
+// sends a timekeep request every REQUEST_INTERVAL ms from local time [from] to [to] and adds the response to the estimator
+const simulateRequests = (
+  estimator: ClockSyncEstimator,
+  clock: SimulatedRemoteClock,
+  { requestDelay, responseDelay, jitter = 0 }: SimulatedRoute,
+  from: number,
+  to: number,
+  random = createRandom(42),
+) => {
+  for (let sentAt = from; sentAt < to; sentAt += REQUEST_INTERVAL) {
+    const respondedAtLocalTime = sentAt + requestDelay + (random() ** 3) * jitter;
+    const receivedAt = respondedAtLocalTime + responseDelay + (random() ** 3) * jitter;
+    estimator.addSample(sentAt, respondedAtLocalTime + getRealOffset(clock, respondedAtLocalTime), receivedAt);
+  }
+};
+
+const getError = (estimator: ClockSyncEstimator, clock: SimulatedRemoteClock, localTime: number) => (
+  Math.abs(estimator.getOffset(localTime) - getRealOffset(clock, localTime))
+);
+
+describe('ClockSyncEstimator', () => {
+  it('has no estimation before the first sample', () => {
+    const estimator = new ClockSyncEstimator();
+    expect(estimator.estimatedError).toBeNull();
+    expect(estimator.samplesCount).toBe(0);
+  });
+
+  it('finds the exact offset on a symmetric route', () => {
+    const estimator = new ClockSyncEstimator();
+    const clock = { offset: 123456.789 };
+    simulateRequests(estimator, clock, { requestDelay: 3, responseDelay: 3 }, 0, 5000);
+    expect(getError(estimator, clock, 5000)).toBeLessThan(0.001);
+    expect(estimator.estimatedError).toBeCloseTo(3);
+  });
+
+  it('bounds the error caused by an asymmetric route', () => {
+    const estimator = new ClockSyncEstimator();
+    const clock = { offset: -5000 };
+    simulateRequests(estimator, clock, { requestDelay: 9, responseDelay: 1 }, 0, 5000);
+    // the route asymmetry cannot be measured, the offset is wrong by half of the difference between both directions
+    const error = getError(estimator, clock, 5000);
+    expect(error).toBeCloseTo(4);
+    expect(estimator.estimatedError).toBeGreaterThanOrEqual(error);
+    expect(estimator.estimatedError).toBeLessThan(error + 2);
+  });
+
+  it('ignores the samples delayed by the jitter', () => {
+    const estimator = new ClockSyncEstimator();
+    const clock = { offset: 1000 };
+    simulateRequests(estimator, clock, { requestDelay: 2, responseDelay: 2, jitter: 50 }, 0, 20000);
+    const error = getError(estimator, clock, 20000);
+    expect(error).toBeLessThan(0.5);
+    expect(estimator.estimatedError).toBeGreaterThanOrEqual(error);
+    expect(estimator.estimatedError).toBeLessThan(5);
+  });
+
+  it('bounds the error of a jittery and asymmetric route', () => {
+    const estimator = new ClockSyncEstimator();
+    const clock = { offset: 1000 };
+    simulateRequests(estimator, clock, { requestDelay: 20, responseDelay: 5, jitter: 30 }, 0, 20000);
+    const error = getError(estimator, clock, 20000);
+    expect(error).toBeGreaterThan(5);
+    expect(estimator.estimatedError).toBeGreaterThanOrEqual(error);
+  });
+
+  it('estimates the drift and extrapolates the offset with it', () => {
+    const estimator = new ClockSyncEstimator();
+    // 200ppm, a cheap oscillator
+    const clock = { offset: 1000, drift: 200 / 1e6 };
+    simulateRequests(estimator, clock, { requestDelay: 2, responseDelay: 2, jitter: 10 }, 0, 60000);
+    expect(estimator.estimatedDrift).toBeCloseTo(clock.drift, 5);
+    // the offset changed by 12ms since the first sample
+    expect(getError(estimator, clock, 60000)).toBeLessThan(0.5);
+    // between two samples and a little after the last one if the next request is lost
+    expect(getError(estimator, clock, 60050)).toBeLessThan(0.5);
+    expect(getError(estimator, clock, 65000)).toBeLessThan(0.5);
+    expect(estimator.estimatedError).toBeGreaterThanOrEqual(getError(estimator, clock, 60000));
+  });
+
+  it('does not estimate a drift on a short window', () => {
+    const estimator = new ClockSyncEstimator();
+    const clock = { offset: 1000, drift: 200 / 1e6 };
+    simulateRequests(estimator, clock, { requestDelay: 2, responseDelay: 2, jitter: 10 }, 0, 5000);
+    expect(estimator.estimatedDrift).toBe(0);
+  });
+
+  it('only keeps the samples of the last minute', () => {
+    const estimator = new ClockSyncEstimator();
+    simulateRequests(estimator, { offset: 0 }, { requestDelay: 1, responseDelay: 1 }, 0, 120000);
+    expect(estimator.samplesCount).toBe(601);
+  });
+
+  it('rejects a few outliers but follows a step of the remote clock', () => {
+    const estimator = new ClockSyncEstimator();
+    const clock = {
+      offset: 1000, stepAt: 30000, stepOffset: 500,
+    };
+    const route = { requestDelay: 2, responseDelay: 2, jitter: 2 };
+    const random = createRandom(42);
+    simulateRequests(estimator, clock, route, 0, 30000, random);
+    expect(estimator.samplesCount).toBe(300);
+
+    // the first samples after the step are considered as outliers
+    simulateRequests(estimator, clock, route, 30000, 30000 + 9 * REQUEST_INTERVAL, random);
+    expect(Math.abs(estimator.getOffset(30900) - 1000)).toBeLessThan(0.5);
+    expect(estimator.samplesCount).toBe(309);
+
+    // after CLOCK_STEP_SAMPLES_COUNT outliers, the samples before the step are dropped
+    simulateRequests(estimator, clock, route, 30000 + 9 * REQUEST_INTERVAL, 30000 + 10 * REQUEST_INTERVAL, random);
+    expect(estimator.samplesCount).toBe(10);
+    expect(getError(estimator, clock, 31000)).toBeLessThan(0.5);
+    expect(estimator.estimatedError).toBeGreaterThanOrEqual(getError(estimator, clock, 31000));
+
+    simulateRequests(estimator, clock, route, 31000, 40000, random);
+    expect(getError(estimator, clock, 40000)).toBeLessThan(0.5);
+    expect(estimator.estimatedDrift).toBe(0);
+  });
+
+  it('starts from scratch when flushed', () => {
+    const estimator = new ClockSyncEstimator();
+    simulateRequests(estimator, { offset: 1000 }, { requestDelay: 1, responseDelay: 1 }, 0, 1000);
+    estimator.flush();
+    expect(estimator.samplesCount).toBe(0);
+    expect(estimator.estimatedError).toBeNull();
+    expect(estimator.getOffset(1000)).toBe(0);
+  });
+});
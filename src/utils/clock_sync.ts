@@ -0,0 +1,126 @@
+// Estimates the offset between the local clock and the clock of a remote peer from the timekeep requests, like NTP does
+// the offset of a sample is computed by assuming that the request and the response took the same time to be transmitted
+// so its error is at most half of its round-trip time, samples with a low round-trip time are trusted more:
+// - samples with a round-trip time much higher than the lowest one of the window are ignored
+// - the other ones are weighted by the inverse of their squared round-trip time
+// - samples too far from the fitted offset are rejected as outliers and the offset is fitted again without them
+// the offset is fitted as a line over time: its slope is the frequency drift between both clocks and is used
+// to extrapolate the offset between samples
+
+const WINDOW_DURATION = 60 * 1000;
+const MAX_SAMPLES = 1000;
+// samples with a round-trip time greater than minRtt * RTT_FILTER_FACTOR + RTT_FILTER_MARGIN are ignored
+const RTT_FILTER_FACTOR = 1.5;
+const RTT_FILTER_MARGIN = 2;
+// added to the round-trip time before computing the weight, a sample on a local network with a sub-millisecond
+// round-trip time would have a infinite weight otherwise
+const WEIGHT_RTT_MARGIN = 1;
+// a sample is an outlier if its distance to the fitted offset is greater than OUTLIER_FACTOR times the median distance
+const OUTLIER_FACTOR = 4;
+const MIN_OUTLIER_DISTANCE = 1;
+// the drift cannot be estimated on a short window as the jitter would be interpreted as a drift
+const MIN_DRIFT_ESTIMATION_DURATION = 10 * 1000;
+// far more than any real clock, a greater drift would be a estimation error
+const MAX_DRIFT = 500 / 1e6;
+// if this many consecutive samples are outliers, the remote clock has been changed and the previous samples are dropped
+const CLOCK_STEP_SAMPLES_COUNT = 10;
+
+interface ClockSyncSample {
+  at: number; // local time at which the remote peer responded, assuming a symmetric round-trip
+  offset: number;
+  rtt: number;
+}
+
+const getWeight = (rtt: number) => 1 / ((rtt + WEIGHT_RTT_MARGIN) ** 2);
+
+export class ClockSyncEstimator {
+  private samples: ClockSyncSample[] = [];
+  private referenceTime = 0;
+  private referenceOffset = 0;
+  private drift = 0;
+  private error: number = null;
+
+  get samplesCount() {
+    return this.samples.length;
+  }
+
+  // in ms, half of the lowest round-trip time (the worst case of a completely asymmetric route) and the dispersion of the samples
+  // this is an upper bound of the real error, null until the first sample
+  get estimatedError() {
+    return this.error;
+  }
+
+  // in ms per ms of the local clock
+  get estimatedDrift() {
+    return this.drift;
+  }
+
+  // all times are in ms and measured with the local clock, except respondedAt measured with the remote clock
+  addSample(sentAt: number, respondedAt: number, receivedAt: number) {
+    const rtt = receivedAt - sentAt;
+    const at = sentAt + (rtt / 2);
+    this.samples.push({ at, offset: respondedAt - at, rtt });
+    while (this.samples.length > MAX_SAMPLES || this.samples[0].at < at - WINDOW_DURATION) {
+      this.samples.shift();
+    }
+    this.fit();
+  }
+
+  // offset to add to a local time to get the remote time
+  getOffset(localTime: number) {
+    return this.referenceOffset + this.drift * (localTime - this.referenceTime);
+  }
+
+  flush() {
+    this.samples = [];
+    this.referenceTime = 0;
+    this.referenceOffset = 0;
+    this.drift = 0;
+    this.error = null;
+  }
+
+  private fit() {
+    const minRtt = Math.min(...this.samples.map(({ rtt }) => rtt));
+    const candidates = this.samples.filter(({ rtt }) => rtt <= minRtt * RTT_FILTER_FACTOR + RTT_FILTER_MARGIN);
+    this.fitLine(candidates);
+
+    const distances = candidates.map(({ at, offset }) => Math.abs(offset - this.getOffset(at)));
+    const sortedDistances = [...distances].sort((a, b) => a - b);
+    const outlierDistance = Math.max(MIN_OUTLIER_DISTANCE, sortedDistances[Math.floor(sortedDistances.length / 2)] * OUTLIER_FACTOR);
+    const isOutlier = distances.map((distance) => distance > outlierDistance);
+
+    if (candidates.length > CLOCK_STEP_SAMPLES_COUNT && isOutlier.slice(-CLOCK_STEP_SAMPLES_COUNT).every(Boolean)) {
+      const firstStepSample = candidates[candidates.length - CLOCK_STEP_SAMPLES_COUNT];
+      this.samples = this.samples.slice(this.samples.indexOf(firstStepSample));
+      this.fit();
+      return;
+    }
+
+    const inliers = candidates.filter((_sample, i) => !isOutlier[i]);
+    this.fitLine(inliers);
+    const totalWeight = inliers.reduce((sum, { rtt }) => sum + getWeight(rtt), 0);
+    const variance = inliers.reduce((sum, { at, offset, rtt }) => sum + getWeight(rtt) * ((offset - this.getOffset(at)) ** 2), 0) / totalWeight;
+    this.error = minRtt / 2 + Math.sqrt(variance);
+  }
+
+  // weighted least squares, the reference time is the weighted mean time of the samples to keep the numbers small
+  private fitLine(samples: ClockSyncSample[]) {
+    const weights = samples.map(({ rtt }) => getWeight(rtt));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const meanTime = samples.reduce((sum, { at }, i) => sum + weights[i] * at, 0) / totalWeight;
+    const meanOffset = samples.reduce((sum, { offset }, i) => sum + weights[i] * offset, 0) / totalWeight;
+    this.referenceTime = meanTime;
+    this.referenceOffset = meanOffset;
+    if (samples[samples.length - 1].at - samples[0].at < MIN_DRIFT_ESTIMATION_DURATION) {
+      this.drift = 0;
+      return;
+    }
+    let covariance = 0;
+    let timeVariance = 0;
+    samples.forEach(({ at, offset }, i) => {
+      covariance += weights[i] * (at - meanTime) * (offset - meanOffset);
+      timeVariance += weights[i] * ((at - meanTime) ** 2);
+    });
+    this.drift = Math.max(-MAX_DRIFT, Math.min(MAX_DRIFT, covariance / timeVariance));
+  }
+}
@@ -10,6 +10,12 @@ export const AUDIO_CHANNEL_OPTIONS: RTCDataChannelInit = {
   ordered: true,
   maxPacketLifeTime: 1000,
 };
+// used when the source retransmits the lost chunks itself, only the chunks still playable by the sinks are requested again
+export const AUDIO_CHANNEL_RETRANSMIT_OPTIONS: RTCDataChannelInit = {
+  ordered: false,
+  maxRetransmits: 0,
+};
+export const MAX_RETRANSMIT_WAIT = 500; // in ms, a chunk still not received again after this time is concealed
 export const ICE_GATHERING_TIMEOUT = 20000;
 
 // if more than 10ms of drift, start correcting with soft sync (inserting or removing samples in the stream)
@@ -29,5 +35,9 @@ export const WILDCARD_DNS_DOMAIN_NAME = `sslip.io`;
 export const CHROMECAST_APPID = 'BEB12660';
 
 export const INACTIVE_TIMEOUT = 30 * 1000; // 30 seconds, after this period without sound, a source will be marked as inactive and all linked sinks will be stopped
+export const ANNOUNCEMENT_INACTIVE_TIMEOUT = 2 * 1000; // shorter for announcement sources to stop ducking the other sources quickly after the announcement
+export const DEFAULT_ANNOUNCEMENT_DUCKING = -20; // in dB
+export const DEFAULT_TARGET_LOUDNESS = -14; // in LUFS, the same loudness as the volume normalisation of Spotify
+export const DEFAULT_FADE_DURATION = 50; // in ms, used by the sinks to fade in and out a source when it is linked or unlinked
 
 export const MAX_LATENCY = 10 * 1000; // this is used to size the buffers in various places in the code, for now they are not dynamicly sized and will use this value to store at maximum X seconds of audio
@@ -0,0 +1,65 @@
+import { parseCronExpression, matchesCronExpression } from './cron';
+
+// dates are created in the local timezone like the ones compared by matchesCronExpression, 2024-01-01 is a monday
+const localDate = (day: number, hours: number, minutes: number) => new Date(2024, 0, day, hours, minutes);
+
+describe('parseCronExpression', () => {
+  it('parses every kind of field', () => {
+    expect(parseCronExpression('*/15 7 1-3 1,6,12 1-5')).toEqual([
+      [0, 15, 30, 45],
+      [7],
+      [1, 2, 3],
+      [1, 6, 12],
+      [1, 2, 3, 4, 5],
+    ]);
+    const [minutes, hours, daysOfMonth] = parseCronExpression('0-30/10 5/6 * * *');
+    expect(minutes).toEqual([0, 10, 20, 30]);
+    expect(hours).toEqual([5, 11, 17, 23]);
+    expect(daysOfMonth).toHaveLength(31);
+  });
+
+  it('ignores the spaces around and between the fields', () => {
+    expect(parseCronExpression('  30  7 * *   1-5 ')).toEqual(parseCronExpression('30 7 * * 1-5'));
+  });
+
+  it('accepts 7 for sunday', () => {
+    expect(parseCronExpression('0 0 * * 7')[4]).toContain(0);
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow('Cron expression should have 5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('Invalid minute');
+    expect(() => parseCronExpression('* 24 * * *')).toThrow('Invalid hour');
+    expect(() => parseCronExpression('* * 0 * *')).toThrow('Invalid dayOfMonth');
+    expect(() => parseCronExpression('* * * 5-2 *')).toThrow('Invalid month');
+    expect(() => parseCronExpression('* * * * 8')).toThrow('Invalid dayOfWeek');
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow('Invalid minute');
+    expect(() => parseCronExpression('a * * * *')).toThrow('Invalid minute');
+    expect(() => parseCronExpression('1.5 * * * *')).toThrow('Invalid minute');
+  });
+});
+
+describe('matchesCronExpression', () => {
+  it('matches the minutes of the expression', () => {
+    const weekdays = parseCronExpression('30 7 * * 1-5');
+    expect(matchesCronExpression(weekdays, localDate(1, 7, 30))).toBe(true);
+    expect(matchesCronExpression(weekdays, localDate(5, 7, 30))).toBe(true);
+    expect(matchesCronExpression(weekdays, localDate(1, 7, 31))).toBe(false);
+    expect(matchesCronExpression(weekdays, localDate(1, 19, 30))).toBe(false);
+    // saturday and sunday
+    expect(matchesCronExpression(weekdays, localDate(6, 7, 30))).toBe(false);
+    expect(matchesCronExpression(weekdays, localDate(7, 7, 30))).toBe(false);
+  });
+
+  it('needs both the day of month and the day of week to match', () => {
+    // the first day of the month only if it is a monday
+    const expression = parseCronExpression('0 8 1 * 1');
+    expect(matchesCronExpression(expression, localDate(1, 8, 0))).toBe(true);
+    expect(matchesCronExpression(expression, localDate(8, 8, 0))).toBe(false);
+    expect(matchesCronExpression(expression, new Date(2024, 1, 1, 8, 0))).toBe(false);
+  });
+
+  it('matches sundays set as 7', () => {
+    expect(matchesCronExpression(parseCronExpression('0 10 * * 7'), localDate(7, 10, 0))).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+// Minimal cron expression support: "minute hour dayOfMonth month dayOfWeek"
+// each field can be "*", a number, a range "1-5", a list "1,3,5" or a step "*/15" / "0-30/10"
+// dayOfWeek is 0 (sunday) to 6 (saturday), 7 is also accepted for sunday
+// unlike the standard cron, when both dayOfMonth and dayOfWeek are set, both need to match
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'dayOfMonth', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'dayOfWeek', min: 0, max: 7 },
+];
+
+export type CronExpression = number[][]; // allowed values of each field
+
+const parseField = (field: string, { name, min, max }: typeof FIELDS[0]) => {
+  const values = new Set<number>();
+  field.split(',').forEach((part) => {
+    const [range, stepStr] = part.split('/');
+    const step = stepStr === undefined ? 1 : Number(stepStr);
+    let [start, end] = [min, max];
+    if (range !== '*') {
+      [start, end] = range.split('-').map(Number);
+      if (end === undefined) {
+        end = stepStr === undefined ? start : max;
+      }
+    }
+    if (![start, end, step].every(Number.isInteger) || start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${name} in cron expression: ${part}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+  return Array.from(values);
+};
+
+export const parseCronExpression = (expression: string): CronExpression => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Cron expression should have ${FIELDS.length} fields: ${expression}`);
+  }
+  const parsed = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (parsed[4].includes(7)) {
+    parsed[4].push(0);
+  }
+  return parsed;
+};
+
+// the date is compared in the local timezone of this process
+export const matchesCronExpression = (expression: CronExpression, date: Date) => {
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = expression;
+  return minutes.includes(date.getMinutes())
+    && hours.includes(date.getHours())
+    && daysOfMonth.includes(date.getDate())
+    && months.includes(date.getMonth() + 1)
+    && daysOfWeek.includes(date.getDay());
+};
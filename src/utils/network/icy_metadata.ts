@@ -0,0 +1,101 @@
+import { Transform, TransformCallback } from 'stream';
+
+export const parseIcyMetadata = (metadata: string) => {
+  const fields: {[key: string]: string} = {};
+  const fieldRegex = /(\w+)='(.*?)';/g;
+  let match = fieldRegex.exec(metadata);
+  while (match) {
+    const [, key, value] = match;
+    fields[key] = value;
+    match = fieldRegex.exec(metadata);
+  }
+  return fields;
+};
+
+// Icecast / Shoutcast servers interleave metadata in the audio stream when requested with the "Icy-MetaData: 1" header
+// every "icy-metaint" bytes of audio, a byte N is inserted followed by N * 16 bytes of metadata
+// like "StreamTitle='Artist - Title';StreamUrl='';" padded with zeros
+// This stream removes the metadata from the audio stream and emits a "metadata" event with the parsed fields
+export class IcyMetadataStream extends Transform {
+  private state: 'audio' | 'metadataLength' | 'metadata' = 'audio';
+  private remainingBytes: number;
+  private metadataChunks: Buffer[] = [];
+
+  constructor(public metaint: number) {
+    super();
+    this.remainingBytes = metaint;
+  }
+
+  _transform(chunk: Buffer, encoding: string, callback: TransformCallback) {
+    let offset = 0;
+    while (offset < chunk.length) {
+      if (this.state === 'metadataLength') {
+        this.remainingBytes = chunk[offset] * 16;
+        offset += 1;
+        if (this.remainingBytes) {
+          this.state = 'metadata';
+        } else {
+          this.state = 'audio';
+          this.remainingBytes = this.metaint;
+        }
+      } else {
+        const data = chunk.subarray(offset, offset + this.remainingBytes);
+        offset += data.length;
+        this.remainingBytes -= data.length;
+        if (this.state === 'audio') {
+          this.push(data);
+        } else {
+          this.metadataChunks.push(data);
+        }
+        if (this.remainingBytes === 0 && this.state === 'audio') {
+          this.state = 'metadataLength';
+        } else if (this.remainingBytes === 0) {
+          // metadata is padded with zeros
+          const metadata = Buffer.concat(this.metadataChunks).toString('utf8').replace(/\0+$/, '');
+          this.metadataChunks = [];
+          this.emit('metadata', parseIcyMetadata(metadata));
+          this.state = 'audio';
+          this.remainingBytes = this.metaint;
+        }
+      }
+    }
+    callback();
+  }
+}
+
+// Does the reverse of IcyMetadataStream: inserts a metadata block every "metaint" bytes of audio
+// the metadata is only sent when it changed, an empty block (a single 0 byte) is inserted otherwise
+export class IcyMetadataWriterStream extends Transform {
+  private bytesBeforeMetadata: number;
+  private pendingMetadata: Buffer = null;
+
+  constructor(public metaint: number) {
+    super();
+    this.bytesBeforeMetadata = metaint;
+  }
+
+  setStreamTitle(title: string) {
+    // a quote in the title would end the field early, there is no escaping mechanism in the protocol
+    const metadata = Buffer.from(`StreamTitle='${title.replace(/'/g, '')}';`, 'utf8');
+    const blocksCount = Math.min(Math.ceil(metadata.length / 16), 255);
+    this.pendingMetadata = Buffer.alloc(1 + blocksCount * 16);
+    this.pendingMetadata[0] = blocksCount;
+    metadata.copy(this.pendingMetadata, 1, 0, blocksCount * 16);
+  }
+
+  _transform(chunk: Buffer, encoding: string, callback: TransformCallback) {
+    let offset = 0;
+    while (offset < chunk.length) {
+      const audioData = chunk.subarray(offset, offset + this.bytesBeforeMetadata);
+      this.push(audioData);
+      offset += audioData.length;
+      this.bytesBeforeMetadata -= audioData.length;
+      if (this.bytesBeforeMetadata === 0) {
+        this.push(this.pendingMetadata || Buffer.alloc(1));
+        this.pendingMetadata = null;
+        this.bytesBeforeMetadata = this.metaint;
+      }
+    }
+    callback();
+  }
+}
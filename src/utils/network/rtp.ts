@@ -0,0 +1,235 @@
+/* eslint-disable no-bitwise */
+import { clamp } from 'lodash';
+import Minipass from 'minipass';
+
+// RTP (RFC 3550) packets without CSRC or extensions, this is what is used by most audio receivers
+const RTP_VERSION = 2;
+const RTP_HEADER_SIZE = 12;
+const RTP_SEQUENCE_NUMBER_MODULO = 2 ** 16;
+export const RTP_TIMESTAMP_MODULO = 2 ** 32;
+export const RTP_DYNAMIC_PAYLOAD_TYPE = 96;
+
+export type RtpPayloadFormat = 'L16' | 'L24' | 'opus';
+
+export const RTP_PCM_BYTES_PER_SAMPLE = {
+  L16: 2,
+  L24: 3,
+};
+
+export interface RtpHeader {
+  payloadType: number;
+  sequenceNumber: number;
+  timestamp: number;
+  ssrc: number;
+  marker?: boolean;
+}
+
+export interface RtpPacket {
+  header: RtpHeader;
+  payload: Buffer;
+}
+
+export const createRtpPacket = (header: RtpHeader, payload: Buffer) => {
+  const packet = Buffer.alloc(RTP_HEADER_SIZE + payload.length);
+  packet[0] = RTP_VERSION << 6;
+  packet[1] = (header.marker ? 0x80 : 0) | header.payloadType;
+  packet.writeUInt16BE(header.sequenceNumber & 0xffff, 2);
+  packet.writeUInt32BE(header.timestamp >>> 0, 4);
+  packet.writeUInt32BE(header.ssrc, 8);
+  payload.copy(packet, RTP_HEADER_SIZE);
+  return packet;
+};
+
+export const parseRtpPacket = (packet: Buffer) => {
+  if (packet.length < RTP_HEADER_SIZE || (packet[0] >> 6) !== RTP_VERSION) {
+    throw new Error('Invalid RTP packet');
+  }
+  const hasPadding = (packet[0] & 0x20) !== 0;
+  const hasExtension = (packet[0] & 0x10) !== 0;
+  const csrcCount = packet[0] & 0x0f;
+  let payloadOffset = RTP_HEADER_SIZE + csrcCount * 4;
+  if (hasExtension) {
+    payloadOffset += 4 + packet.readUInt16BE(payloadOffset + 2) * 4;
+  }
+  const payloadEnd = hasPadding ? packet.length - packet[packet.length - 1] : packet.length;
+  const header: RtpHeader = {
+    marker: (packet[1] & 0x80) !== 0,
+    payloadType: packet[1] & 0x7f,
+    sequenceNumber: packet.readUInt16BE(2),
+    timestamp: packet.readUInt32BE(4),
+    ssrc: packet.readUInt32BE(8),
+  };
+  const parsedPacket: RtpPacket = { header, payload: packet.subarray(payloadOffset, payloadEnd) };
+  return parsedPacket;
+};
+
+// L16 and L24 payloads are big endian signed integers
+export const floatToRtpPcm = (samples: Float32Array, format: 'L16' | 'L24') => {
+  const bytesPerSample = RTP_PCM_BYTES_PER_SAMPLE[format];
+  const maxValue = 2 ** (bytesPerSample * 8 - 1) - 1;
+  const output = Buffer.alloc(samples.length * bytesPerSample);
+  for (let i = 0; i < samples.length; i++) {
+    output.writeIntBE(Math.round(clamp(samples[i], -1, 1) * maxValue), i * bytesPerSample, bytesPerSample);
+  }
+  return output;
+};
+
+export const rtpPcmToFloat = (payload: Buffer, format: 'L16' | 'L24') => {
+  const bytesPerSample = RTP_PCM_BYTES_PER_SAMPLE[format];
+  const maxValue = 2 ** (bytesPerSample * 8 - 1);
+  const output = new Float32Array(Math.floor(payload.length / bytesPerSample));
+  for (let i = 0; i < output.length; i++) {
+    output[i] = payload.readIntBE(i * bytesPerSample, bytesPerSample) / maxValue;
+  }
+  return output;
+};
+
+interface SdpOptions {
+  name: string;
+  originAddress: string;
+  address: string;
+  port: number;
+  ttl?: number;
+  format: RtpPayloadFormat;
+  rate: number;
+  channels: number;
+  packetTime: number;
+}
+
+export const isMulticastAddress = (address: string) => {
+  const firstByte = Number(address.split('.')[0]);
+  return (firstByte >= 224 && firstByte <= 239) || address.toLowerCase().startsWith('ff');
+};
+
+// Session description used by the receivers (GStreamer, PulseAudio, VLC, AES67 devices) to know how to decode the stream
+export const createSdp = ({
+  name, originAddress, address, port, ttl, format, rate, channels, packetTime,
+}: SdpOptions) => {
+  const addressType = address.includes(':') ? 'IP6' : 'IP4';
+  const connectionAddress = isMulticastAddress(address) && addressType === 'IP4' ? `${address}/${ttl}` : address;
+  const sessionId = Math.floor(Date.now() / 1000);
+  return [
+    'v=0',
+    `o=- ${sessionId} ${sessionId} IN ${originAddress.includes(':') ? 'IP6' : 'IP4'} ${originAddress}`,
+    `s=${name}`,
+    `c=IN ${addressType} ${connectionAddress}`,
+    't=0 0',
+    `m=audio ${port} RTP/AVP ${RTP_DYNAMIC_PAYLOAD_TYPE}`,
+    // RFC 7587: the opus rtpmap is always 48000/2, the channels count of the stream is given by the stereo fmtp parameters
+    `a=rtpmap:${RTP_DYNAMIC_PAYLOAD_TYPE} ${format === 'opus' ? 'opus/48000/2' : `${format}/${rate}/${channels}`}`,
+    ...(format === 'opus' ? [`a=fmtp:${RTP_DYNAMIC_PAYLOAD_TYPE} stereo=${channels === 2 ? 1 : 0}; sprop-stereo=${channels === 2 ? 1 : 0}`] : []),
+    `a=ptime:${packetTime}`,
+    'a=recvonly',
+    '',
+  ].join('\r\n');
+};
+
+// static payload types defined in RFC 3551, every other format uses a dynamic payload type described by a rtpmap attribute
+const STATIC_PAYLOAD_TYPES = {
+  10: { format: 'L16', rate: 44100, channels: 2 },
+  11: { format: 'L16', rate: 44100, channels: 1 },
+};
+
+// Only reads what is needed to receive the first audio stream of the session
+export const parseSdp = (sdp: string) => {
+  const lines = sdp.split(/\r?\n/).map((line) => line.trim());
+  const connectionLine = lines.find((line) => line.startsWith('c='));
+  const mediaLine = lines.find((line) => line.startsWith('m=audio '));
+  if (!mediaLine) {
+    throw new Error('No audio stream in session description');
+  }
+  const [, port, , payloadType] = mediaLine.split(' ');
+  const rtpmap = lines.find((line) => line.startsWith(`a=rtpmap:${payloadType} `));
+  let encoding = STATIC_PAYLOAD_TYPES[payloadType];
+  if (rtpmap) {
+    const [format, rate, channels] = rtpmap.split(' ')[1].split('/');
+    encoding = { format, rate: Number(rate), channels: Number(channels || 1) };
+    if (format.toLowerCase() === 'opus') {
+      // the opus rtpmap always announces 2 channels, a stereo stream is signalled with sprop-stereo=1 (RFC 7587)
+      const fmtp = lines.find((line) => line.startsWith(`a=fmtp:${payloadType} `)) || '';
+      encoding.channels = /sprop-stereo=1/.test(fmtp) ? 2 : 1;
+    }
+  }
+  if (!encoding) {
+    throw new Error(`Unknown payload type ${payloadType} in session description`);
+  }
+  const format = encoding.format.toLowerCase() === 'opus' ? 'opus' : encoding.format.toUpperCase();
+  if (!['L16', 'L24', 'opus'].includes(format)) {
+    throw new Error(`Unsupported payload ${encoding.format} in session description`);
+  }
+  return {
+    address: connectionLine ? connectionLine.split(' ')[2].split('/')[0] : undefined,
+    port: Number(port),
+    format: format as RtpPayloadFormat,
+    rate: encoding.rate as number,
+    channels: encoding.channels as number,
+  };
+};
+
+// Used to reorder incoming RTP packets by sequence number. If a packet is missing, more recent packets are buffered until
+// [maxDelay] of audio (in RTP timestamp units) has been received after it, it is then considered lost
+export class RtpPacketOrderer extends Minipass {
+  private packets: RtpPacket[] = [];
+  private nextSequenceNumber = -1; // extended with the number of sequence number cycles to simplify comparisons
+  private ssrc = -1;
+
+  constructor(public maxDelay: number) {
+    super({
+      objectMode: true,
+    });
+  }
+
+  // sequence numbers wrap every 65536 packets, the closest value to the expected sequence number is used
+  private extendSequenceNumber = (sequenceNumber: number) => {
+    const cycles = Math.floor(this.nextSequenceNumber / RTP_SEQUENCE_NUMBER_MODULO);
+    let extended = cycles * RTP_SEQUENCE_NUMBER_MODULO + sequenceNumber;
+    if (extended - this.nextSequenceNumber > RTP_SEQUENCE_NUMBER_MODULO / 2) {
+      extended -= RTP_SEQUENCE_NUMBER_MODULO;
+    } else if (this.nextSequenceNumber - extended > RTP_SEQUENCE_NUMBER_MODULO / 2) {
+      extended += RTP_SEQUENCE_NUMBER_MODULO;
+    }
+    return extended;
+  }
+
+  private emitPacket = (packet) => {
+    super.write(packet);
+    this.nextSequenceNumber = packet.header.sequenceNumber + 1;
+  }
+
+  private emitNextPacketsInBuffer = () => {
+    while (this.packets.length && this.packets[0].header.sequenceNumber === this.nextSequenceNumber) {
+      this.emitPacket(this.packets.shift());
+    }
+  }
+
+  write(d: any, encoding?: string | (() => void), cb?: () => void) {
+    const packet = d as RtpPacket;
+    if (packet.header.ssrc !== this.ssrc) {
+      // new sender or the sender restarted, the sequence numbers are not related to the previous ones
+      this.ssrc = packet.header.ssrc;
+      this.nextSequenceNumber = packet.header.sequenceNumber;
+      this.packets = [];
+    }
+    const sequenceNumber = this.extendSequenceNumber(packet.header.sequenceNumber);
+    if (sequenceNumber >= this.nextSequenceNumber && !this.packets.some((p) => p.header.sequenceNumber === sequenceNumber)) {
+      // late or duplicated packets are ignored
+      this.packets.push({ header: { ...packet.header, sequenceNumber }, payload: packet.payload });
+      this.packets.sort((a, b) => a.header.sequenceNumber - b.header.sequenceNumber);
+    }
+    this.emitNextPacketsInBuffer();
+
+    // gap is too big, giving up on waiting for the missing packets
+    const bufferedDuration = this.packets.length
+      ? (this.packets[this.packets.length - 1].header.timestamp - this.packets[0].header.timestamp + RTP_TIMESTAMP_MODULO) % RTP_TIMESTAMP_MODULO
+      : 0;
+    if (bufferedDuration >= this.maxDelay) {
+      this.nextSequenceNumber = this.packets[0].header.sequenceNumber;
+      this.emitNextPacketsInBuffer();
+    }
+
+    if (cb) {
+      cb();
+    }
+    return true;
+  }
+}
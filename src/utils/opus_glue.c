@@ -0,0 +1,11 @@
+// opus_encoder_ctl is a variadic function that cannot be called from javascript, this exposes the setters of integer values
+#include "opus_vendor/include/opus.h"
+#include "opus_vendor/include/opus_multistream.h"
+
+int opus_encoder_set_ctl(OpusEncoder *st, int request, int value) {
+  return opus_encoder_ctl(st, request, value);
+}
+
+int opus_multistream_encoder_set_ctl(OpusMSEncoder *st, int request, int value) {
+  return opus_multistream_encoder_ctl(st, request, value);
+}
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  makeStyles, DialogTitle, DialogContent, Button, MenuItem, TextField,
+} from '@material-ui/core';
+import { usePeersManager } from '../../utils/useSoundSyncState';
+import { Capacity } from '../../../../src/communication/peer';
+
+const useStyles = makeStyles(() => ({
+  form: {
+    display: 'flex',
+    flexDirection: 'column',
+    justifyContent: 'center',
+    marginTop: 20,
+    '& > *': {
+      marginBottom: 10,
+    },
+  },
+}));
+
+export const AddHttpStreamSink = ({ onDialogClose }) => {
+  const styles = useStyles();
+  const peersManager = usePeersManager();
+  const httpStreamCapablePeers = peersManager.peers.filter((p) => p.state === 'connected' && p.capacities.includes(Capacity.HttpStreamSink));
+  const [httpStreamHostId, setHttpStreamHostId] = useState(httpStreamCapablePeers[0]?.uuid || '');
+  const [httpStreamName, setHttpStreamName] = useState('Web radio');
+  const [httpStreamFormat, setHttpStreamFormat] = useState('mp3');
+
+  const handleHttpStreamCreate = async () => {
+    const peer = peersManager.getConnectedPeerByUuid(httpStreamHostId);
+    if (!peer) {
+      return;
+    }
+    await peer.sendRcp('createSink', {
+      type: 'httpstream',
+      uuid: uuidv4(),
+      available: true,
+      name: httpStreamName,
+      volume: 1,
+      peerUuid: peer.uuid,
+      pipedFrom: null,
+      httpStreamOptions: {
+        format: httpStreamFormat,
+      },
+    });
+    onDialogClose();
+  };
+
+  return (
+    <>
+      <DialogTitle>Stream to HTTP clients</DialogTitle>
+      <DialogContent>
+        <p>
+          Make the audio available as a web radio for devices that cannot run Soundsync (VLC, internet radios, a phone web browser, etc). Once linked to a source, the stream is served on the port 6512 of the hosting device, its path can be copied from the output menu. The stream is encoded with ffmpeg which needs to be installed on the hosting device.
+        </p>
+        <div className={styles.form}>
+          <TextField
+            label="Name"
+            value={httpStreamName}
+            onChange={(e) => setHttpStreamName(e.target.value)}
+            variant="outlined"
+          />
+          <TextField
+            select
+            label="Format"
+            value={httpStreamFormat}
+            onChange={(e) => setHttpStreamFormat(e.target.value)}
+            variant="outlined"
+          >
+            <MenuItem value="mp3">MP3</MenuItem>
+            <MenuItem value="ogg">Ogg Vorbis</MenuItem>
+            <MenuItem value="opus">Opus</MenuItem>
+          </TextField>
+          <TextField
+            select
+            label="Hosting device (needs to be on when using the integration)"
+            required
+            value={httpStreamHostId}
+            onChange={(e) => setHttpStreamHostId(e.target.value)}
+            variant="outlined"
+          >
+            {httpStreamCapablePeers.map((p) => <MenuItem key={p.uuid} value={p.uuid}>{p.name}</MenuItem>)}
+          </TextField>
+          <Button variant="outlined" onClick={handleHttpStreamCreate}>Add a web radio output</Button>
+        </div>
+      </DialogContent>
+    </>
+  );
+};
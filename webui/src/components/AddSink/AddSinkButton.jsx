@@ -10,6 +10,7 @@ import { SinkTypeSelection } from './SinkTypeSelection';
 import { AddHueSink } from './AddHueSink';
 import { AddChromecastPeer } from './AddChromecastSink';
 import { AddAirplaySink } from './AddAirplaySink';
+import { AddHttpStreamSink } from './AddHttpStreamSink';
 
 const useStyles = makeStyles({
   openDialogButton: {
@@ -46,6 +47,7 @@ export const AddSinkButton = () => {
         {dialogOpen === 'hue' && <AddHueSink onDialogClose={() => setDialogOpen(false)} />}
         {dialogOpen === 'chromecast' && <AddChromecastPeer onDialogClose={() => setDialogOpen(false)} />}
         {dialogOpen === 'airplay' && <AddAirplaySink onDialogClose={() => setDialogOpen(false)} />}
+        {dialogOpen === 'httpstream' && <AddHttpStreamSink onDialogClose={() => setDialogOpen(false)} />}
       </Dialog>
     </>
   );
@@ -6,6 +6,7 @@ import computerIcon from 'res/computer.svg';
 import philipsHueLogo from 'res/philipshuelogo.png';
 import chromecastLogo from 'res/chromecast.png';
 import airplayIcon from 'res/airplay.svg';
+import browserIcon from 'res/browser.svg';
 
 const useStyles = makeStyles(() => ({
   typeButton: {
@@ -57,6 +58,10 @@ export const SinkTypeSelection = ({ onTypeSelected }) => {
           <img src={computerIcon} alt="" className={styles.sourceTypeLogo} />
           <span>Computer</span>
         </Button>
+        <Button classes={{ label: styles.buttonLabel }} className={styles.typeButton} variant="outlined" onClick={() => onTypeSelected('httpstream')}>
+          <img src={browserIcon} alt="" className={styles.sourceTypeLogo} />
+          <span>Web radio (VLC, internet radios)</span>
+        </Button>
       </DialogContent>
     </>
   );
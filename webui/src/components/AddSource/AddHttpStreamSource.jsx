@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  makeStyles, DialogTitle, DialogContent, Button, MenuItem, TextField,
+} from '@material-ui/core';
+import { usePeersManager } from '../../utils/useSoundSyncState';
+import { Capacity } from '../../../../src/communication/peer';
+
+const useStyles = makeStyles(() => ({
+  httpStreamForm: {
+    display: 'flex',
+    flexDirection: 'column',
+    justifyContent: 'center',
+    marginTop: 20,
+    '& > *': {
+      marginBottom: 10,
+    },
+  },
+}));
+
+export const AddHttpStreamSource = ({ onDialogClose }) => {
+  const styles = useStyles();
+  const [httpStreamHostId, setHttpStreamHostId] = useState('');
+  const [httpStreamName, setHttpStreamName] = useState('Radio');
+  const [httpStreamUrl, setHttpStreamUrl] = useState('');
+
+  const peersManager = usePeersManager();
+  const httpStreamCapablePeers = peersManager.peers.filter((p) => p.state === 'connected' && p.capacities.includes(Capacity.HttpStreamSource));
+
+  const handleHttpStreamCreate = () => {
+    const peer = peersManager.getConnectedPeerByUuid(httpStreamHostId);
+    if (!peer || !httpStreamUrl) {
+      return;
+    }
+    peer.sendControllerMessage({
+      type: 'sourceCreate',
+      source: {
+        type: 'httpstream',
+        name: httpStreamName,
+        peerUuid: peer.uuid,
+        uuid: uuidv4(),
+        httpStreamOptions: {
+          url: httpStreamUrl,
+        },
+      },
+    });
+    onDialogClose();
+  };
+
+  return (
+    <>
+      <DialogTitle>Add an internet radio</DialogTitle>
+      <DialogContent>
+        <p>
+          Listen to an internet radio or any HTTP audio stream (Icecast, Shoutcast, MP3, AAC or Ogg). The stream is decoded with ffmpeg which needs to be installed on the hosting device.
+        </p>
+        <div className={styles.httpStreamForm}>
+          <TextField
+            label="Name"
+            value={httpStreamName}
+            onChange={(e) => setHttpStreamName(e.target.value)}
+            variant="outlined"
+          />
+          <TextField
+            label="Stream URL"
+            required
+            value={httpStreamUrl}
+            onChange={(e) => setHttpStreamUrl(e.target.value)}
+            placeholder="http://"
+            variant="outlined"
+          />
+          <TextField
+            select
+            label="Hosting device (needs to be on when using the integration)"
+            required
+            value={httpStreamHostId}
+            onChange={(e) => setHttpStreamHostId(e.target.value)}
+            variant="outlined"
+          >
+            {httpStreamCapablePeers.map((p) => <MenuItem key={p.uuid} value={p.uuid}>{p.name}</MenuItem>)}
+          </TextField>
+          <Button variant="outlined" onClick={handleHttpStreamCreate}>Add a radio</Button>
+        </div>
+      </DialogContent>
+    </>
+  );
+};
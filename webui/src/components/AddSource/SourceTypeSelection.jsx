@@ -5,6 +5,7 @@ import {
 import spotifyIcon from '../../res/spotify.svg';
 import computerIcon from '../../res/computer.svg';
 import airplayIcon from '../../res/airplay.svg';
+import browserIcon from '../../res/browser.svg';
 
 const useStyles = makeStyles(() => ({
   typeButton: {
@@ -52,6 +53,10 @@ export const SourceTypeSelection = ({ onTypeSelected }) => {
           <img src={computerIcon} alt="" className={styles.sourceTypeLogo} />
           <span>Use audio from a computer</span>
         </Button>
+        <Button classes={{ label: styles.buttonLabel }} className={styles.typeButton} variant="outlined" onClick={() => onTypeSelected('httpstream')}>
+          <img src={browserIcon} alt="" className={styles.sourceTypeLogo} />
+          <span>Listen to an internet radio</span>
+        </Button>
       </DialogContent>
     </>
   );
@@ -8,6 +8,7 @@ import { SourceTypeSelection } from './SourceTypeSelection';
 import { AddLibrespotSource } from './AddLibrespotSource';
 import { AddLocalDeviceSource } from './AddLocalDeviceSource';
 import { AddShairportSource } from './AddShairportSource';
+import { AddHttpStreamSource } from './AddHttpStreamSource';
 
 const useStyles = makeStyles(() => ({
   openDialogButton: {
@@ -41,6 +42,7 @@ export const AddSourceButton = () => {
         {dialogOpen === 'librespot' && <AddLibrespotSource onDialogClose={handleClose} />}
         {dialogOpen === 'localDevice' && <AddLocalDeviceSource onDialogClose={handleClose} />}
         {dialogOpen === 'shairport' && <AddShairportSource onDialogClose={handleClose} />}
+        {dialogOpen === 'httpstream' && <AddHttpStreamSource onDialogClose={handleClose} />}
       </Dialog>
     </>
   );
@@ -61,9 +61,10 @@ export const Pipe = ({ pipe }) => {
         const width = canvasRef.current.width / dpr;
         ctx.clearRect(0, 0, width, height);
         ctx.lineCap = 'round';
-        ctx.lineWidth = 5;
-        ctx.strokeStyle = theme.palette.primary.main;
-        ctx.setLineDash([5, 10]);
+        // sources mixed into a sink are drawn with a thinner line
+        ctx.lineWidth = pipe.mixed ? 3 : 5;
+        ctx.strokeStyle = pipe.mixed ? theme.palette.secondary.main : theme.palette.primary.main;
+        ctx.setLineDash(pipe.mixed ? [3, 12] : [5, 10]);
         offset++;
         if (offset > 300) {
           offset = 0;
@@ -83,7 +84,7 @@ export const Pipe = ({ pipe }) => {
         cancelAnimationFrame(animationFrameRequest);
       }
     };
-  }, [shouldShow, sourceIndex, rowStart, sinkIndex, rowEnd]);
+  }, [shouldShow, sourceIndex, rowStart, sinkIndex, rowEnd, pipe.mixed]);
 
   return shouldShow && (
     <div
@@ -13,11 +13,23 @@ import Slider from '@material-ui/core/Slider';
 import VolumeDown from '@material-ui/icons/VolumeDown';
 import VolumeUp from '@material-ui/icons/VolumeUp';
 
-import { useRegisterForPipe, useUnpipeAction } from 'utils/useSoundSyncState';
+import {
+  useRegisterForPipe, useUnpipeAction, useSinkGroups, useSinkGroupOfSink, useSources,
+} from 'utils/useSoundSyncState';
 import { nameWithoutHiddenMeta, isHidden } from 'utils/hiddenUtils';
 import { AudioSink } from '../../../../src/audio/sinks/audio_sink';
+import { createSinkGroup, patchSinkGroup } from '../../../../src/coordinator/sink_groups';
+import { ChannelMappingPreset } from '../../../../src/utils/audio/channel_mapping';
 
-const DELETABLE_SINK_TYPES = ['huelight', 'airplay'];
+const DELETABLE_SINK_TYPES = ['huelight', 'airplay', 'recorder', 'httpstream', 'rtp'];
+const CHANNEL_MAPPING_SINK_TYPES = ['localdevice', 'airplay', 'webaudio', 'rtp', 'httpstream', 'recorder'];
+const CHANNEL_MAPPING_OPTIONS: { mapping: ChannelMappingPreset; label: string }[] = [
+  { mapping: 'stereo', label: 'Stereo' },
+  { mapping: 'mono', label: 'Mono' },
+  { mapping: 'left', label: 'Left channel only' },
+  { mapping: 'right', label: 'Right channel only' },
+  { mapping: 'swapped', label: 'Swap left and right' },
+];
 
 const EditPopover = withStyles((t) => ({
   paper: {
@@ -48,6 +60,15 @@ const PopoverTextField = withStyles(() => ({
 }))(({ classes, InputProps, ...props }) => (<TextField {...props} InputProps={{ classes, ...InputProps }} />));
 
 const useStyles = makeStyles(() => ({
+  groupName: {
+    textAlign: 'center',
+    margin: 0,
+  },
+  transportStats: {
+    textAlign: 'center',
+    margin: 0,
+    fontSize: '0.8em',
+  },
   volumeContainer: {
     display: 'flex',
     flexDirection: 'row',
@@ -64,6 +85,10 @@ export const SinkContextMenu = ({
 }: { sink: AudioSink; isOpen: boolean; onClose: () => any; anchor: HTMLElement }) => {
   const styles = useStyles();
   const [renameOpen, setRenameOpen] = useState(false);
+  const [groupCreationOpen, setGroupCreationOpen] = useState(false);
+  const [latencyOffsetOpen, setLatencyOffsetOpen] = useState(false);
+  const [channelMappingOpen, setChannelMappingOpen] = useState(false);
+  const [mixOpen, setMixOpen] = useState(false);
   const { enqueueSnackbar } = useSnackbar();
 
   const inputEl = useRef<HTMLInputElement>();
@@ -71,12 +96,19 @@ export const SinkContextMenu = ({
   const canBeDeleted = DELETABLE_SINK_TYPES.includes(sink.type);
 
   const isPiped = !!sink.pipedFrom;
+  const sinkGroups = useSinkGroups();
+  const sources = useSources();
+  const group = useSinkGroupOfSink(sink);
 
   const handleClose = () => {
     onClose();
     // because of popover close animation
     setTimeout(() => {
       setRenameOpen(false);
+      setGroupCreationOpen(false);
+      setLatencyOffsetOpen(false);
+      setChannelMappingOpen(false);
+      setMixOpen(false);
     }, 500);
   };
 
@@ -89,6 +121,56 @@ export const SinkContextMenu = ({
     handleClose();
   };
 
+  const handleGroupCreationButtonClick = () => setGroupCreationOpen(true);
+  const handleGroupCreate = () => {
+    const groupName = inputEl.current.value;
+    if (groupName) {
+      createSinkGroup({ name: groupName, sinks: [sink.uuid] });
+    }
+    handleClose();
+  };
+
+  // the sink is piped to the source of the group by its peer when joining
+  const handleJoinGroup = (groupUuid: string) => {
+    const joinedGroup = sinkGroups.find((g) => g.uuid === groupUuid);
+    patchSinkGroup(groupUuid, { sinks: [...joinedGroup.sinks, sink.uuid] });
+    handleClose();
+  };
+
+  const handleLeaveGroup = () => {
+    patchSinkGroup(group.uuid, { sinks: group.sinks.filter((sinkUuid) => sinkUuid !== sink.uuid) });
+    handleClose();
+  };
+
+  const handleLatencyOffsetButtonClick = () => setLatencyOffsetOpen(true);
+  const handleLatencyOffsetChange = () => {
+    const latencyOffset = Number(inputEl.current.value);
+    if (Number.isFinite(latencyOffset) && latencyOffset !== sink.latencyOffset) {
+      sink.patch({ latencyOffset });
+    }
+    handleClose();
+  };
+
+  const handleChannelMappingButtonClick = () => setChannelMappingOpen(true);
+  const handleChannelMappingChange = (channelMapping: ChannelMappingPreset) => {
+    sink.patch({ channelMapping });
+    handleClose();
+  };
+
+  const mixedFrom = sink.mixedFrom || [];
+  const handleMixButtonClick = () => setMixOpen(true);
+  const handleMixToggle = (sourceUuid: string) => {
+    const isMixed = mixedFrom.some((input) => input.sourceUuid === sourceUuid);
+    sink.patch({
+      mixedFrom: isMixed ? mixedFrom.filter((input) => input.sourceUuid !== sourceUuid) : [...mixedFrom, { sourceUuid, gain: 1 }],
+    });
+  };
+  const handleMixGainChange = (sourceUuid: string, gain: number) => {
+    sink.patch({
+      mixedFrom: mixedFrom.map((input) => (input.sourceUuid === sourceUuid ? { sourceUuid, gain } : input)),
+    });
+  };
+
   const handleHide = async () => {
     const newName = hidden ? nameWithoutHiddenMeta(sink.name) : `[hidden] ${sink.name}`;
     // await edit(type, audioStream.uuid, { name: newName });
@@ -137,6 +219,103 @@ export const SinkContextMenu = ({
     />
   );
 
+  const groupCreationInputAdornment = (
+    <InputAdornment position="end">
+      <IconButton
+        aria-label="Create group"
+        onClick={handleGroupCreate}
+        style={{ color: 'white' }}
+      >
+        <EditIcon />
+      </IconButton>
+    </InputAdornment>
+  );
+
+  const groupCreationModalContent = (
+    <PopoverTextField
+      label="Group name"
+      fullWidth
+      InputProps={{
+        inputRef: inputEl,
+        autoFocus: true,
+        endAdornment: groupCreationInputAdornment,
+      }}
+    />
+  );
+
+  const latencyOffsetInputAdornment = (
+    <InputAdornment position="end">
+      ms
+      <IconButton
+        aria-label="Change latency offset"
+        onClick={handleLatencyOffsetChange}
+        style={{ color: 'white' }}
+      >
+        <EditIcon />
+      </IconButton>
+    </InputAdornment>
+  );
+
+  const latencyOffsetModalContent = (
+    <PopoverTextField
+      label="Latency offset (positive if the speaker is late)"
+      type="number"
+      defaultValue={sink.latencyOffset}
+      fullWidth
+      InputProps={{
+        inputRef: inputEl,
+        autoFocus: true,
+        endAdornment: latencyOffsetInputAdornment,
+      }}
+    />
+  );
+
+  const currentChannelMapping = Array.isArray(sink.channelMapping) ? 'custom' : (sink.channelMapping || 'stereo');
+  const channelMappingModalContent = (
+    <>
+      {CHANNEL_MAPPING_OPTIONS.map(({ mapping, label }) => (
+        <PopoverButton
+          key={mapping}
+          disableElevation
+          variant="contained"
+          disabled={mapping === currentChannelMapping}
+          onClick={() => handleChannelMappingChange(mapping)}
+        >
+          {label}
+        </PopoverButton>
+      ))}
+    </>
+  );
+
+  // the source the sink is piped from can also be added to set its gain relative to the mixed sources
+  const mixModalContent = (
+    <>
+      {sources.map((source) => {
+        const input = mixedFrom.find(({ sourceUuid }) => sourceUuid === source.uuid);
+        return (
+          <React.Fragment key={source.uuid}>
+            <PopoverButton disableElevation variant="contained" onClick={() => handleMixToggle(source.uuid)}>
+              {`${input ? 'Stop mixing' : 'Mix'} ${nameWithoutHiddenMeta(source.name)}`}
+            </PopoverButton>
+            {input && (
+              <div className={styles.volumeContainer}>
+                <VolumeDown />
+                <Slider value={input.gain} min={0} max={2} step={0.01} onChange={(e, newValue) => handleMixGainChange(source.uuid, newValue as number)} />
+                <VolumeUp />
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+
+  const handleGroupVolumeChange = (e, newValue) => {
+    patchSinkGroup(group.uuid, {
+      volume: newValue,
+    });
+  };
+
   const handleVolumeChange = (e, newValue) => {
     sink.patch({
       volume: newValue,
@@ -147,6 +326,12 @@ export const SinkContextMenu = ({
     sink.peer.sendRcp('deleteSink', sink.uuid);
   };
 
+  const handleCopyStreamPath = () => {
+    navigator.clipboard.writeText(`/api/v1/sink/${sink.uuid}/stream`);
+    enqueueSnackbar('Stream path copied, add it after the address of the hosting device, for example http://192.168.1.12:6512', { autoHideDuration: 5000 });
+    handleClose();
+  };
+
   const defaultModalContent = (
     <>
       <div className={styles.volumeContainer}>
@@ -154,8 +339,32 @@ export const SinkContextMenu = ({
         <Slider value={sink.volume} min={0} max={1} step={0.01} onChange={handleVolumeChange} />
         <VolumeUp />
       </div>
-      <PopoverButton disableElevation variant="contained" onClick={handleLink}>Link</PopoverButton>
-      {isPiped && <PopoverButton disableElevation variant="contained" onClick={handleUnlink}>Unlink</PopoverButton>}
+      {group && (
+        <>
+          <p className={styles.groupName}>{`Group: ${group.name}`}</p>
+          <div className={styles.volumeContainer}>
+            <VolumeDown />
+            <Slider value={group.volume} min={0} max={1} step={0.01} onChange={handleGroupVolumeChange} />
+            <VolumeUp />
+          </div>
+        </>
+      )}
+      {sink.transportStats && (
+        <p className={styles.transportStats}>
+          {`Network: ${Math.round(sink.transportStats.bitrate / 1000)} kbps, ${(sink.transportStats.loss * 100).toFixed(1)}% lost`}
+        </p>
+      )}
+      <PopoverButton disableElevation variant="contained" onClick={handleLink}>{group ? 'Link group' : 'Link'}</PopoverButton>
+      {isPiped && <PopoverButton disableElevation variant="contained" onClick={handleUnlink}>{group ? 'Unlink group' : 'Unlink'}</PopoverButton>}
+      {group && <PopoverButton disableElevation variant="contained" onClick={handleLeaveGroup}>Leave group</PopoverButton>}
+      {!group && sinkGroups.map((g) => (
+        <PopoverButton key={g.uuid} disableElevation variant="contained" onClick={() => handleJoinGroup(g.uuid)}>{`Join ${g.name}`}</PopoverButton>
+      ))}
+      {!group && <PopoverButton disableElevation variant="contained" onClick={handleGroupCreationButtonClick}>Create group</PopoverButton>}
+      {sink.type === 'httpstream' && <PopoverButton disableElevation variant="contained" onClick={handleCopyStreamPath}>Copy stream path</PopoverButton>}
+      {CHANNEL_MAPPING_SINK_TYPES.includes(sink.type) && <PopoverButton disableElevation variant="contained" onClick={handleChannelMappingButtonClick}>Channels</PopoverButton>}
+      <PopoverButton disableElevation variant="contained" onClick={handleMixButtonClick}>Mix sources</PopoverButton>
+      <PopoverButton disableElevation variant="contained" onClick={handleLatencyOffsetButtonClick}>Latency offset</PopoverButton>
       <PopoverButton disableElevation variant="contained" onClick={handleRenameButtonClick}>Rename</PopoverButton>
       <PopoverButton disableElevation variant="contained" onClick={handleHide}>{hidden ? 'Unhide' : 'Hide'}</PopoverButton>
       {canBeDeleted && <PopoverButton disableElevation variant="contained" onClick={handleDelete}>Delete</PopoverButton>}
@@ -178,7 +387,11 @@ export const SinkContextMenu = ({
       }}
     >
       {renameOpen && renameModalContent}
-      {!renameOpen && defaultModalContent}
+      {groupCreationOpen && groupCreationModalContent}
+      {latencyOffsetOpen && latencyOffsetModalContent}
+      {channelMappingOpen && channelMappingModalContent}
+      {mixOpen && mixModalContent}
+      {!renameOpen && !groupCreationOpen && !latencyOffsetOpen && !channelMappingOpen && !mixOpen && defaultModalContent}
     </EditPopover>
   );
 };
@@ -15,6 +15,7 @@ import nullSinkLogo from 'res/null.svg';
 import browserIcon from 'res/browser.svg';
 import hueBulbIcon from 'res/huebulb.svg';
 import airplayIcon from 'res/airplay.svg';
+import computerIcon from 'res/computer.svg';
 import { getLocalPeer } from '../../../../src/communication/local_peer';
 import { SinkContextMenu } from './SinkContextMenu';
 import { AudioErrorIndicator } from '../utils/AudioErrorIndicator';
@@ -25,6 +26,9 @@ const logos = {
   webaudio: browserIcon,
   huelight: hueBulbIcon,
   airplay: airplayIcon,
+  recorder: computerIcon,
+  httpstream: browserIcon,
+  rtp: computerIcon,
 };
 
 export const Sink = ({ sink }) => {
@@ -59,7 +59,7 @@ const SourcesList = ({ sources }) => (
 
 const PipesList = ({ pipes }) => (
   pipes.map((pipe) => (
-    <Pipe pipe={pipe} key={`${pipe.sourceUuid}-${pipe.sinkUuid}`} />
+    <Pipe pipe={pipe} key={`${pipe.sourceUuid}-${pipe.sinkUuid}-${pipe.mixed}`} />
   ))
 );
 
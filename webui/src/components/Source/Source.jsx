@@ -12,6 +12,7 @@ import SpotifyLogo from 'res/spotify.svg';
 import computerIcon from 'res/computer.svg';
 import nullSinkLogo from 'res/null.svg';
 import airplayIcon from 'res/airplay.svg';
+import browserIcon from 'res/browser.svg';
 import { AudioErrorIndicator } from 'components/utils/AudioErrorIndicator';
 import { nameWithoutHiddenMeta, isHidden } from '../../utils/hiddenUtils';
 import { HiddenIndicator } from '../utils/HiddenIndicator';
@@ -23,6 +24,11 @@ const logos = {
   null: nullSinkLogo,
   localdevice: computerIcon,
   shairport: airplayIcon,
+  file: computerIcon,
+  httpstream: browserIcon,
+  pipe: computerIcon,
+  rtp: computerIcon,
+  click: nullSinkLogo,
 };
 
 const ACTIVITY_INDICATOR_WIDTH = 5;
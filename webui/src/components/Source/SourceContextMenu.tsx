@@ -10,8 +10,9 @@ import EditIcon from '@material-ui/icons/Edit';
 import { useRegisterForPipe } from 'utils/useSoundSyncState';
 import { nameWithoutHiddenMeta, isHidden } from 'utils/hiddenUtils';
 import { AudioSource } from '../../../../src/audio/sources/audio_source';
+import { FileSourceDescriptor } from '../../../../src/audio/sources/source_type';
 
-const DELETABLE_SOURCE_TYPES = ['librespot', 'shairport', 'null'];
+const DELETABLE_SOURCE_TYPES = ['librespot', 'shairport', 'null', 'file', 'httpstream', 'pipe', 'rtp'];
 
 const EditPopover = withStyles((t) => ({
   paper: {
@@ -88,6 +89,27 @@ export const SourceContextMenu = (
     }
   };
 
+  const isFileSource = source.type === 'file';
+  // the playback state of a file source is not part of the AudioSource class but is copied from its descriptor
+  const fileSource = source as unknown as FileSourceDescriptor;
+  const handleTogglePlaying = () => {
+    source.patch({ playing: !fileSource.playing });
+    handleClose();
+  };
+  const handleNextTrack = () => {
+    source.patch({ trackIndex: (fileSource.trackIndex + 1) % fileSource.tracks.length, playing: true });
+    handleClose();
+  };
+
+  const handleToggleLoudnessNormalization = () => {
+    source.patch({ loudnessNormalization: !source.loudnessNormalization });
+    handleClose();
+  };
+  const handleToggleLatencyPolicy = () => {
+    source.patch({ latencyPolicy: source.latencyPolicy === 'lowLatency' ? 'robust' : 'lowLatency' });
+    handleClose();
+  };
+
   const handleDelete = () => {
     source.peer.sendControllerMessage({
       type: 'sourceDelete',
@@ -134,6 +156,20 @@ export const SourceContextMenu = (
       {!renameOpen && (
         <>
           <PopoverButton disableElevation variant="contained" onClick={handleLink}>Link</PopoverButton>
+          {isFileSource && (
+            <>
+              <PopoverButton disableElevation variant="contained" onClick={handleTogglePlaying}>{fileSource.playing ? 'Pause' : 'Play'}</PopoverButton>
+              {fileSource.tracks?.length > 1 && (
+                <PopoverButton disableElevation variant="contained" onClick={handleNextTrack}>Next track</PopoverButton>
+              )}
+            </>
+          )}
+          <PopoverButton disableElevation variant="contained" onClick={handleToggleLoudnessNormalization}>
+            {source.loudnessNormalization ? `Disable loudness normalization${typeof source.loudness === 'number' ? ` (${source.loudness} LUFS)` : ''}` : 'Normalize loudness'}
+          </PopoverButton>
+          <PopoverButton disableElevation variant="contained" onClick={handleToggleLatencyPolicy}>
+            {source.latencyPolicy === 'lowLatency' ? `Prefer robustness (${source.latency}ms latency)` : 'Prefer low latency'}
+          </PopoverButton>
           <PopoverButton disableElevation variant="contained" onClick={handleRenameButtonClick}>Rename</PopoverButton>
           <PopoverButton disableElevation variant="contained" onClick={handleHide}>{hidden ? 'Unhide' : 'Hide'}</PopoverButton>
           {canBeDeleted && (
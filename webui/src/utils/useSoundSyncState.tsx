@@ -13,6 +13,8 @@ import { PeersManager } from '../../../src/communication/peers_manager';
 import { AudioSource } from '../../../src/audio/sources/audio_source';
 import { AudioSink } from '../../../src/audio/sinks/audio_sink';
 import { getLocalPeer } from '../../../src/communication/local_peer';
+import { onSharedStateChange } from '../../../src/coordinator/shared_state';
+import { getSinkGroups, getSinkGroupOfSink, patchSinkGroup } from '../../../src/coordinator/sink_groups';
 import { useSnackbar } from 'notistack';
 
 const initialState = {
@@ -64,6 +66,7 @@ export const SoundSyncProvider = ({ children }) => {
     refreshData();
     onSoundStateChange(refreshData);
     onPeersChange(refreshData);
+    onSharedStateChange(refreshData);
     getPeersManager().on('connectedPeer', (peer) => {
       if (peer.version !== getLocalPeer().version) {
         enqueueSnackbar(`${peer.name} is running Soundsync version ${peer.version} but last version is ${getLocalPeer().version}, please update Soundsync on this computer as this can lead to errors`, { autoHideDuration: 3000 })
@@ -89,7 +92,7 @@ export const useIsConnected = () => some(useContext(soundSyncContext).peersManag
 const audioSourceSinkGetter = (collection) => {
   const inputCollection = Array.from(collection) as (AudioSource | AudioSink)[];
   const sortedCollection = inputCollection.sort((a, b) => a.name.localeCompare(b.name));
-  const availableCollection = sortedCollection.filter((s) => s.peer && s.peer.state === 'connected' && s.available !== false);
+  const availableCollection = sortedCollection.filter((s) => s.peer && s.peer.state === 'connected' && s.available !== false && !(s as AudioSource).internal);
   const [visible, hidden] = partition(availableCollection, (s) => !isHidden(s.name));
   return [...visible, ...hidden];
 };
@@ -98,7 +101,23 @@ export const getContextAudioSourcesSinksManager = () => useContext(soundSyncCont
 
 export const useSinks = () => audioSourceSinkGetter(getContextAudioSourcesSinksManager().sinks);
 export const useSources = () => audioSourceSinkGetter(getContextAudioSourcesSinksManager().sources);
-export const usePipes = () => getContextAudioSourcesSinksManager().sinks.filter((s) => s.pipedFrom).map((s) => ({ sinkUuid: s.uuid, sourceUuid: s.pipedFrom }));
+export const usePipes = () => getContextAudioSourcesSinksManager().sinks.flatMap((s) => [
+  ...(s.pipedFrom ? [{ sinkUuid: s.uuid, sourceUuid: s.pipedFrom, mixed: false }] : []),
+  ...(s.mixedFrom || []).filter(({ sourceUuid }) => sourceUuid !== s.pipedFrom).map(({ sourceUuid }) => ({ sinkUuid: s.uuid, sourceUuid, mixed: true })),
+]);
+
+export const useSinkGroups = () => getSinkGroups();
+export const useSinkGroupOfSink = (sink) => getSinkGroupOfSink(sink.uuid);
+
+// a sink member of a group cannot be piped alone, the whole group is piped instead
+const setSinkPipedFrom = (sink, pipedFrom) => {
+  const group = getSinkGroupOfSink(sink.uuid);
+  if (group) {
+    patchSinkGroup(group.uuid, { pipedFrom });
+  } else {
+    sink.patch({ pipedFrom });
+  }
+};
 
 export const usePeersManager = () => useContext(soundSyncContext).peersManagers as PeersManager;
 export const usePeers = () => useContext(soundSyncContext).peersManagers.peers;
@@ -131,9 +150,7 @@ export const useRegisterForPipe = (type, audioObject): [boolean, boolean, () =>
       const sink = type === 'sink' ? audioObject : state.registeringForPipe.selectedSink;
       const source = type === 'source' ? audioObject : state.registeringForPipe.selectedSource;
       dispatch(unregisterForPipe());
-      sink.patch({
-        pipedFrom: source.uuid,
-      });
+      setSinkPipedFrom(sink, source.uuid);
       return { piped: true };
     }
     dispatch(registerForPipe({ type, audioObject }));
@@ -146,9 +163,7 @@ export const useUnpipeAction = (sink) => {
 
   return useCallback(async () => {
     dispatch(unregisterForPipe());
-    sink.patch({
-      pipedFrom: null,
-    });
+    setSinkPipedFrom(sink, null);
   }, [sink]);
 };
 